@@ -1,15 +1,45 @@
 /**
- * Rumbledore service worker — offline app shell.
+ * Rumbledore service worker — offline app shell, saved league pages and a
+ * replay queue for writes made offline.
  * Bump VERSION when the caching strategy changes; content changes to this file
  * already trigger the browser's byte-diff update flow.
  */
-const VERSION = "v2";
+const VERSION = "v3";
 const SHELL_CACHE = `rumbledore-shell-${VERSION}`;
 const PAGES_CACHE = `rumbledore-pages-${VERSION}`;
 const ASSETS_CACHE = `rumbledore-assets-${VERSION}`;
+// Shares the pages prefix so sign-out clears it with the runtime page cache.
+const OFFLINE_PAGES_CACHE = `rumbledore-pages-offline-${VERSION}`;
 const PAGES_CACHE_PREFIX = "rumbledore-pages-";
 const OFFLINE_URL = "/offline";
 const SIGN_OUT_MESSAGE = "RUMBLEDORE_SIGN_OUT";
+// Mirrors src/components/pwa/offline-queue.ts and src/lib/pwa.ts.
+const RESUME_MESSAGE = "RUMBLEDORE_RESUME";
+const OFFLINE_SYNC_MESSAGE = "RUMBLEDORE_OFFLINE_SYNC";
+const OFFLINE_QUEUE_HEADER = "X-Rumbledore-Offline-Queue";
+const PRECACHE_HEADER = "x-rumbledore-precache";
+const OFFLINE_PAGES_URL = "/api/navigation/offline-pages";
+const OFFLINE_PAGES_REFRESH_MS = 15 * 60 * 1000;
+const WRITE_SYNC_TAG = "rumbledore-writes";
+const QUEUE_DB = "rumbledore-offline";
+const QUEUE_STORE = "writes";
+/**
+ * Writes that are safe to replay later. Picks carry an idempotency key; poll
+ * votes, lore votes and reactions overwrite the member's previous choice.
+ * Each route is queued only when its client sends OFFLINE_QUEUE_HEADER, so an
+ * entry here needs a sender; the sender is named beside it.
+ */
+const QUEUEABLE_WRITES = [
+  // league-pickem-view.tsx
+  /^\/api\/leagues\/[^/]+\/picks$/,
+  // lore-vote-widget.tsx, poll mode (settle-it polls on lore claims)
+  /^\/api\/leagues\/[^/]+\/polls\/[^/]+\/votes$/,
+  // lore-vote-widget.tsx, lore mode
+  /^\/api\/leagues\/[^/]+\/lore\/claims\/[^/]+\/votes$/,
+  // reaction-strip.tsx
+  /^\/api\/leagues\/[^/]+\/press\/[^/]+\/reactions$/,
+];
+const STATIC_ASSET_REFERENCE = /\/_next\/static\/[^"'\s)\\]+/g;
 const PRECACHE = [
   OFFLINE_URL,
   "/manifest.webmanifest",
@@ -27,7 +57,7 @@ self.addEventListener("install", (event) => {
 });
 
 self.addEventListener("activate", (event) => {
-  const keep = [SHELL_CACHE, PAGES_CACHE, ASSETS_CACHE];
+  const keep = [SHELL_CACHE, PAGES_CACHE, ASSETS_CACHE, OFFLINE_PAGES_CACHE];
   event.waitUntil(
     caches
       .keys()
@@ -89,7 +119,10 @@ function canStoreStaticAsset(response) {
   return response.ok && !responseForbidsRuntimeCache(response);
 }
 
-/** Navigations: fresh when online, cached page → offline shell when not. */
+/**
+ * Navigations: fresh when online; offline, the runtime cache, then a saved
+ * league page, then the offline shell.
+ */
 async function networkFirstPage(request) {
   const cache = await caches.open(PAGES_CACHE);
   try {
@@ -99,8 +132,11 @@ async function networkFirstPage(request) {
     }
     return response;
   } catch {
+    const offlinePages = await caches.open(OFFLINE_PAGES_CACHE);
     const cached =
-      (await cache.match(request)) ?? (await caches.match(OFFLINE_URL));
+      (await cache.match(request)) ??
+      (await offlinePages.match(request, { ignoreVary: true })) ??
+      (await caches.match(OFFLINE_URL));
     return cached ?? Response.error();
   }
 }
@@ -119,9 +155,279 @@ async function cacheFirst(request) {
   return response;
 }
 
+/**
+ * Saved league pages. The member's own leagues are rendered with their
+ * session and kept in a cache only this worker reads, so the private,
+ * Vary'd responses the runtime cache refuses are stored here deliberately;
+ * sign-out deletes the cache with the rest of the pages. Redirects (an
+ * expired session bouncing to sign-in) and non-HTML answers are not saved.
+ */
+async function saveOfflinePage(cache, href) {
+  const response = await fetch(href, {
+    credentials: "same-origin",
+    headers: { [PRECACHE_HEADER]: "1" },
+  });
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (
+    !response.ok ||
+    response.redirected ||
+    !contentType.includes("text/html")
+  ) {
+    return;
+  }
+  const html = await response.clone().text();
+  await cache.put(href, response);
+  await saveReferencedAssets(html);
+}
+
+/** A saved page is only readable offline if its build chunks are cached too. */
+async function saveReferencedAssets(html) {
+  const cache = await caches.open(ASSETS_CACHE);
+  for (const path of new Set(html.match(STATIC_ASSET_REFERENCE) ?? [])) {
+    if (await cache.match(path)) {
+      continue;
+    }
+    try {
+      const response = await fetch(path);
+      if (canStoreStaticAsset(response)) {
+        await cache.put(path, response);
+      }
+    } catch {
+      // The page still loads; the missing chunk is fetched on the next visit.
+    }
+  }
+}
+
+let offlinePagesRefreshedAt = 0;
+
+async function refreshOfflinePages() {
+  if (Date.now() - offlinePagesRefreshedAt < OFFLINE_PAGES_REFRESH_MS) {
+    return;
+  }
+  offlinePagesRefreshedAt = Date.now();
+  let listing;
+  try {
+    listing = await fetch(OFFLINE_PAGES_URL, { credentials: "same-origin" });
+  } catch {
+    offlinePagesRefreshedAt = 0;
+    return;
+  }
+  if (listing.status === 401) {
+    await caches.delete(OFFLINE_PAGES_CACHE);
+    return;
+  }
+  const payload = listing.ok ? await listing.json().catch(() => null) : null;
+  if (!Array.isArray(payload?.paths)) {
+    return;
+  }
+
+  const cache = await caches.open(OFFLINE_PAGES_CACHE);
+  const listed = new Set();
+  for (const path of payload.paths) {
+    const url = new URL(path, self.location.origin);
+    if (url.origin !== self.location.origin) {
+      continue;
+    }
+    listed.add(url.href);
+    try {
+      await saveOfflinePage(cache, url.href);
+    } catch {
+      // Keep the previous copy; the next refresh tries again.
+    }
+  }
+  for (const request of await cache.keys()) {
+    if (!listed.has(request.url)) {
+      await cache.delete(request);
+    }
+  }
+}
+
+function openWriteQueue() {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(QUEUE_DB, 1);
+    open.onupgradeneeded = () => {
+      open.result.createObjectStore(QUEUE_STORE, { keyPath: "dedupeKey" });
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+}
+
+async function withWriteQueue(mode, run) {
+  const db = await openWriteQueue();
+  try {
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(QUEUE_STORE, mode);
+      const request = run(transaction.objectStore(QUEUE_STORE));
+      transaction.oncomplete = () => resolve(request?.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function isQueueableWrite(request, url) {
+  return (
+    request.method === "POST" &&
+    url.origin === self.location.origin &&
+    request.headers.has(OFFLINE_QUEUE_HEADER) &&
+    QUEUEABLE_WRITES.some((pattern) => pattern.test(url.pathname))
+  );
+}
+
+function queuedWriteLabel(request) {
+  try {
+    return decodeURIComponent(request.headers.get(OFFLINE_QUEUE_HEADER));
+  } catch {
+    return "Offline change";
+  }
+}
+
+/**
+ * One entry per pick (its idempotency key) and one per vote or reaction
+ * target (its URL), so a second tap while offline replaces the first instead
+ * of replaying both.
+ */
+function queuedWriteKey(url, body) {
+  if (url.pathname.endsWith("/picks")) {
+    try {
+      const key = JSON.parse(body)?.idempotencyKey;
+      if (typeof key === "string" && key) {
+        return `picks:${key}`;
+      }
+    } catch {
+      // Fall through: the server rejects the body on replay.
+    }
+  }
+  return url.href;
+}
+
+async function sendOrQueueWrite(request, url) {
+  const body = await request.clone().text();
+  try {
+    return await fetch(request);
+  } catch {
+    const entry = {
+      body,
+      contentType: request.headers.get("Content-Type") ?? "application/json",
+      dedupeKey: queuedWriteKey(url, body),
+      id: crypto.randomUUID(),
+      label: queuedWriteLabel(request),
+      queuedAt: Date.now(),
+      url: url.href,
+    };
+    await withWriteQueue("readwrite", (store) => store.put(entry));
+    await self.registration.sync
+      ?.register(WRITE_SYNC_TAG)
+      .catch(() => undefined);
+    return new Response(
+      JSON.stringify({ offlineQueued: true, queueId: entry.id }),
+      { headers: { "Content-Type": "application/json" }, status: 202 },
+    );
+  }
+}
+
+/** Worth another attempt later rather than reporting as refused. */
+function isRetryableStatus(status) {
+  return status === 401 || status === 408 || status === 429 || status >= 500;
+}
+
+async function refusalMessage(response) {
+  const payload = await response.json().catch(() => null);
+  const message = payload?.error?.message;
+  return typeof message === "string" && message
+    ? message
+    : "The server turned it down.";
+}
+
+/** Deletes the entry unless a newer write for the same target replaced it. */
+function dequeueWrite(entry) {
+  return withWriteQueue("readwrite", (store) => {
+    const current = store.get(entry.dedupeKey);
+    current.onsuccess = () => {
+      if (current.result?.id === entry.id) {
+        store.delete(entry.dedupeKey);
+      }
+    };
+  });
+}
+
+async function reportReplay(report) {
+  const windows = await self.clients.matchAll({
+    includeUncontrolled: true,
+    type: "window",
+  });
+  for (const client of windows) {
+    client.postMessage({ ...report, type: OFFLINE_SYNC_MESSAGE });
+  }
+}
+
+/**
+ * Replays queued writes oldest first. A network failure or a server-side
+ * hiccup stops the pass and leaves the rest queued; any other refusal (a
+ * closed poll, a locked game) is final and reported to the member.
+ */
+async function replayQueuedWrites() {
+  const entries = await withWriteQueue("readonly", (store) => store.getAll());
+  entries.sort((left, right) => left.queuedAt - right.queuedAt);
+  const applied = [];
+  const conflicts = [];
+  let pending = 0;
+  for (const [index, entry] of entries.entries()) {
+    let response;
+    try {
+      response = await fetch(entry.url, {
+        body: entry.body,
+        credentials: "same-origin",
+        headers: { "Content-Type": entry.contentType },
+        method: "POST",
+      });
+    } catch {
+      pending = entries.length - index;
+      break;
+    }
+    if (isRetryableStatus(response.status)) {
+      pending = entries.length - index;
+      break;
+    }
+    if (response.ok) {
+      applied.push({ label: entry.label });
+    } else {
+      conflicts.push({
+        label: entry.label,
+        message: await refusalMessage(response),
+      });
+    }
+    await dequeueWrite(entry);
+  }
+  if (applied.length > 0 || conflicts.length > 0) {
+    await reportReplay({ applied, conflicts, pending });
+  }
+  if (pending > 0) {
+    // Rejecting tells Background Sync to try the tag again later.
+    throw new Error(`${pending} offline writes still queued`);
+  }
+}
+
+let replayInFlight = null;
+
+/** `sync` and the resume message can land together; they share one pass. */
+function replayWriteQueue() {
+  replayInFlight ??= replayQueuedWrites().finally(() => {
+    replayInFlight = null;
+  });
+  return replayInFlight;
+}
+
 self.addEventListener("fetch", (event) => {
   const request = event.request;
   const url = new URL(request.url);
+  if (isQueueableWrite(request, url)) {
+    event.respondWith(sendOrQueueWrite(request, url));
+    return;
+  }
   if (shouldBypassRuntimeCache(request, url)) {
     return;
   }
@@ -134,11 +440,34 @@ self.addEventListener("fetch", (event) => {
   }
 });
 
+self.addEventListener("sync", (event) => {
+  if (event.tag === WRITE_SYNC_TAG) {
+    event.waitUntil(replayWriteQueue());
+  }
+});
+
 self.addEventListener("message", (event) => {
+  if (event.data?.type === RESUME_MESSAGE) {
+    event.waitUntil(
+      replayWriteQueue()
+        .catch(() => undefined)
+        .then(() => refreshOfflinePages())
+        .catch(() => undefined),
+    );
+    return;
+  }
   if (event.data?.type !== SIGN_OUT_MESSAGE) {
     return;
   }
-  event.waitUntil(deleteCachesWithPrefix(PAGES_CACHE_PREFIX));
+  // Queued writes belong to the session that made them; they must not replay
+  // under whoever signs in next.
+  offlinePagesRefreshedAt = 0;
+  event.waitUntil(
+    Promise.all([
+      deleteCachesWithPrefix(PAGES_CACHE_PREFIX),
+      withWriteQueue("readwrite", (store) => store.clear()),
+    ]),
+  );
 });
 
 function safeNotificationPayload(event) {
@@ -34,6 +34,7 @@ function context(): LeagueBlogContext {
   return {
     arena: {
       computedAt: null,
+      division: null,
       fieldLeader: null,
       headToHead: null,
       leagueStanding: null,
@@ -467,4 +467,77 @@ describe("content type templates", () => {
       }),
     ).toMatchObject({ type: "verdict_column" });
   });
+
+  it("accepts letter draft grades and rejects made-up teams or marks", () => {
+    const draftGrades = {
+      bust: "Beta Runner has given Beta Team 30 points from a 90-point slot.",
+      checkpoint: "2026 grades through Week 4",
+      grades: [
+        {
+          bestPick: "Alpha Receiver",
+          grade: "a-",
+          rationale: "Alpha Team is +42 points against slot history.",
+          team: "Alpha Team",
+          worstPick: "Alpha Kicker",
+        },
+        {
+          bestPick: "Beta Tight End",
+          grade: "D",
+          rationale: "Beta Team is -42 points against slot history.",
+          team: "Beta Team",
+          worstPick: "Beta Runner",
+        },
+      ],
+      steal: "Alpha Receiver has outscored the WR3 slot by 40.",
+      trend: "Alpha Team graded C last year.",
+      type: "draft_grades",
+    };
+
+    expect(
+      validateContentStructure({
+        contentType: "draft_grades",
+        context,
+        structure: draftGrades,
+      }),
+    ).toMatchObject({
+      grades: [
+        { grade: "A-", team: "Alpha Team" },
+        { grade: "D", team: "Beta Team" },
+      ],
+      type: "draft_grades",
+    });
+
+    expect(() =>
+      validateContentStructure({
+        contentType: "draft_grades",
+        context,
+        structure: {
+          ...draftGrades,
+          grades: [{ ...draftGrades.grades[0], grade: "E" }],
+        },
+      }),
+    ).toThrow("draft_grades.grade must be a letter from A to F");
+
+    expect(() =>
+      validateContentStructure({
+        contentType: "draft_grades",
+        context,
+        structure: {
+          ...draftGrades,
+          grades: [{ ...draftGrades.grades[0], team: "Gamma Team" }],
+        },
+      }),
+    ).toThrow("draft_grades.team must reference a real league team or manager");
+
+    expect(() =>
+      validateContentStructure({
+        contentType: "draft_grades",
+        context,
+        structure: {
+          ...draftGrades,
+          grades: [draftGrades.grades[0], draftGrades.grades[0]],
+        },
+      }),
+    ).toThrow("draft_grades must grade each team once");
+  });
 });
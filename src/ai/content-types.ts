@@ -15,6 +15,7 @@ export const AI_CONTENT_TYPES = [
   "milestone_record",
   "instigation_column",
   "verdict_column",
+  "draft_grades",
 ] as const;
 
 export type AiContentType = (typeof AI_CONTENT_TYPES)[number];
@@ -187,6 +188,23 @@ export interface VerdictColumnStructure {
   newCanon: string;
 }
 
+export interface DraftGradeEntry {
+  team: string;
+  grade: string;
+  bestPick: string;
+  worstPick: string;
+  rationale: string;
+}
+
+export interface DraftGradesStructure {
+  type: "draft_grades";
+  checkpoint: string;
+  grades: DraftGradeEntry[];
+  steal: string;
+  bust: string;
+  trend: string;
+}
+
 export type BlogContentStructure =
   | WeeklyRecapStructure
   | PowerRankingsStructure
@@ -198,7 +216,8 @@ export type BlogContentStructure =
   | ArenaRecapStructure
   | MilestoneRecordStructure
   | InstigationColumnStructure
-  | VerdictColumnStructure;
+  | VerdictColumnStructure
+  | DraftGradesStructure;
 
 export interface ContentStructureValidationContext {
   league: {
@@ -239,6 +258,14 @@ export const CONTENT_TYPE_TEMPLATES: Record<
       "Return 3-5 named awards; each award must name a real manager or team and cite the fact that earned it.",
     section: "trash-talk",
   },
+  draft_grades: {
+    contentType: "draft_grades",
+    defaultPersonas: ["analyst"],
+    label: "Draft Grades",
+    promptContract:
+      "Return the checkpoint, one letter grade per drafting team with its best and worst pick and a one-line rationale, the steal, the bust, and how this class compares with earlier seasons; use the supplied draft grades and pick values, never invented ones.",
+    section: "records",
+  },
   matchup_preview: {
     contentType: "matchup_preview",
     defaultPersonas: ["analyst"],
@@ -292,7 +319,7 @@ export const CONTENT_TYPE_TEMPLATES: Record<
     defaultPersonas: ["betting_advisor", "narrator"],
     label: "Arena Recap",
     promptContract:
-      "Return the active league's arena position, the field leader, head-to-head rival watch, biggest aggregate movers, and one play-money needle without exposing raw bets from other leagues.",
+      "Return the active league's arena position and division (its zone, and any promotion or relegation it just earned), the field leader, head-to-head rival watch, biggest aggregate movers, and one play-money needle without exposing raw bets from other leagues.",
     section: "recaps",
   },
   transaction_reaction: {
@@ -300,7 +327,7 @@ export const CONTENT_TYPE_TEMPLATES: Record<
     defaultPersonas: ["beat_reporter"],
     label: "Transaction Reaction",
     promptContract:
-      "Return the move, grade, winner, loser, and a sources-say kicker tied to league-owned facts.",
+      "Return the move, grade, winner, loser, and a sources-say kicker tied to league-owned facts; when the trigger carries a trade, weigh the points each side has received since the deal before naming a winner.",
     section: "previews",
   },
   verdict_column: {
@@ -543,6 +570,67 @@ function normalizePowerRankings(
   return { rankings, type: "power_rankings" };
 }
 
+const DRAFT_GRADE_PATTERN = /^[A-DF][+-]?$/;
+
+function normalizeDraftGrades(
+  structure: unknown,
+  context: ContentStructureValidationContext,
+): DraftGradesStructure {
+  const record = asRecord(structure);
+  const grades = arrayValue(record.grades).map((value) => {
+    const row = asRecord(value);
+    const normalized = {
+      bestPick: cleanText(row.bestPick),
+      grade: cleanText(row.grade).toUpperCase(),
+      rationale: cleanText(row.rationale),
+      team: cleanText(row.team),
+      worstPick: cleanText(row.worstPick),
+    };
+    if (
+      !normalized.team ||
+      !normalized.grade ||
+      !normalized.bestPick ||
+      !normalized.worstPick ||
+      !normalized.rationale
+    ) {
+      throwStructureError("draft_grades entries must be fully populated");
+    }
+    if (!DRAFT_GRADE_PATTERN.test(normalized.grade)) {
+      throwStructureError("draft_grades.grade must be a letter from A to F");
+    }
+    ensureKnownEntity(normalized.team, context, "draft_grades.team");
+    return normalized;
+  });
+
+  if (grades.length === 0) {
+    throwStructureError("draft_grades must grade at least one team");
+  }
+  if (context.teams.length > 0 && grades.length > context.teams.length) {
+    throwStructureError("draft_grades cannot grade more teams than the league");
+  }
+  if (new Set(grades.map((row) => row.team)).size !== grades.length) {
+    throwStructureError("draft_grades must grade each team once");
+  }
+
+  const normalized = {
+    bust: cleanText(record.bust),
+    checkpoint: cleanText(record.checkpoint),
+    grades,
+    steal: cleanText(record.steal),
+    trend: cleanText(record.trend),
+    type: "draft_grades" as const,
+  };
+  if (
+    !normalized.checkpoint ||
+    !normalized.steal ||
+    !normalized.bust ||
+    !normalized.trend
+  ) {
+    throwStructureError("draft_grades structure is missing a required section");
+  }
+  return normalized;
+}
+
 function normalizeFantasyFriday(
   value: unknown,
   context: ContentStructureValidationContext,
@@ -1158,5 +1246,7 @@ export function validateContentStructure({
       return normalizeInstigationColumn(record, context);
     case "verdict_column":
       return normalizeVerdictColumn(record, context);
+    case "draft_grades":
+      return normalizeDraftGrades(record, context);
   }
 }
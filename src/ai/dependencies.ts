@@ -23,6 +23,9 @@ import type {
   LlmModelMetadataResolver,
   LlmModelProviderKeyResolver,
   NewsItem,
+  PersonalAgentLlmClient,
+  PersonalAgentLlmRequest,
+  PersonalAgentLlmTurn,
   UsageReportingEmbeddingProvider,
   UsageReportingLlmClient,
   WebGrounding,
@@ -31,6 +34,7 @@ import {
   DeterministicEmbeddingProvider,
   MockLlmClient,
   MockLlmJudge,
+  MockPersonalAgentLlmClient,
   MockWebGrounding,
 } from "./mocks";
 import { ANTHROPIC_BULK_MODEL, ANTHROPIC_FLAGSHIP_MODEL } from "./model-config";
@@ -39,6 +43,7 @@ import { type ModelProviderRegistry, RoutedLlmClient } from "./model-routing";
 import type { AiGenerationDependencies } from "./pipeline";
 import {
   AnthropicLlmJudge,
+  AnthropicPersonalAgentLlmClient,
   type AnthropicUsageBreakdown,
   TavilyWebGrounding,
   type UsageReportingLlmJudge,
@@ -187,6 +192,44 @@ export class GuardedLlmJudge implements LlmJudge {
   }
 }
 
+export class GuardedPersonalAgentLlmClient implements PersonalAgentLlmClient {
+  constructor(
+    readonly real: PersonalAgentLlmClient,
+    private readonly mock: PersonalAgentLlmClient,
+    private readonly guard: SpendGuard,
+    private readonly logger?: Logger,
+  ) {}
+
+  async respond(
+    request: PersonalAgentLlmRequest,
+  ): Promise<PersonalAgentLlmTurn> {
+    return runGuardedProviderCall({
+      fallbackOnError: (error) =>
+        isAppErrorCode(error, LLM_MOCK_FALLBACK_CODES),
+      guard: this.guard,
+      logger: this.logger,
+      mockCall: () => this.mock.respond(request),
+      operation: "llm.personal_agent",
+      provider: "anthropic",
+      realCall: async () => {
+        const turn = await this.real.respond(request);
+        return {
+          usage: {
+            details: {
+              cacheCreationInputTokens: turn.usage.cacheCreationInputTokens,
+              cacheReadInputTokens: turn.usage.cacheReadInputTokens,
+              inputTokens: turn.usage.inputTokens,
+              outputTokens: turn.usage.outputTokens,
+            },
+            units: anthropicUsageUnits(turn.usage),
+          },
+          value: turn,
+        };
+      },
+    });
+  }
+}
+
 export class GuardedWebGrounding implements WebGrounding {
   constructor(
     readonly real: WebGrounding,
@@ -350,3 +393,21 @@ export function createAiDependencies(
     realtime: createRealtimePublisher(env),
   };
 }
+
+export function createPersonalAgentLlmClient(
+  env: Pick<Env, "redisUrl" | "services" | "spendGuard">,
+  options: AiDependencyFactoryOptions = {},
+): PersonalAgentLlmClient {
+  const mock = new MockPersonalAgentLlmClient();
+  if (env.services.anthropic.mock) {
+    return mock;
+  }
+  return new GuardedPersonalAgentLlmClient(
+    new AnthropicPersonalAgentLlmClient({
+      apiKey: env.services.anthropic.apiKey,
+      model: ANTHROPIC_BULK_MODEL,
+    }),
+    mock,
+    options.spendGuard ?? createSpendGuard(env),
+  );
+}
@@ -126,6 +126,9 @@ export type {
   LeagueContextCadenceFrame,
   LeagueContextCanonLore,
   LeagueContextCorrection,
+  LeagueContextDraftGrades,
+  LeagueContextDraftManagerGrade,
+  LeagueContextDraftPick,
   LeagueContextGeneralNfl,
   LeagueContextGeneralNflPlayerFact,
   LeagueContextGeneralNflScheduleGame,
@@ -136,6 +139,8 @@ export type {
   LeagueContextPerson,
   LeagueContextPoll,
   LeagueContextRivalry,
+  LeagueContextTrade,
+  LeagueContextTradeSide,
   LeagueContextTrigger,
   LeaguePersonaCard,
   LeaguePreGenerationContext,
@@ -151,6 +156,12 @@ export type {
   LlmModelProviderKeyResolver,
   LlmUsageBreakdown,
   NewsItem,
+  PersonalAgentLlmClient,
+  PersonalAgentLlmMessage,
+  PersonalAgentLlmRequest,
+  PersonalAgentLlmTurn,
+  PersonalAgentToolCall,
+  PersonalAgentToolSpec,
   PromptParts,
   UsageReportingCentralLlmClient,
   UsageReportingEmbeddingProvider,
@@ -167,7 +178,9 @@ export {
   DeterministicEmbeddingProvider,
   MockLlmClient,
   MockLlmJudge,
+  MockPersonalAgentLlmClient,
   MockWebGrounding,
+  ScriptedPersonalAgentLlmClient,
 } from "./mocks";
 export {
   editPersonaToneProfile,
@@ -36,6 +36,42 @@ export interface LeagueContextTeam {
   pointsAgainst: number;
 }
 
+/**
+ * Simulated playoff odds for one team, as of the last final scoring period.
+ * Deltas are against the previous period and null in the first simulated
+ * week; clinch and elimination flags are mathematical, not simulated.
+ */
+export interface LeagueContextPlayoffOdds {
+  asOfScoringPeriod: number;
+  byeOdds: number;
+  clinchedBye: boolean;
+  clinchedDivision: boolean;
+  clinchedPlayoff: boolean;
+  eliminated: boolean;
+  lastPlaceOdds: number;
+  playoffOdds: number;
+  playoffOddsDelta: number | null;
+  team: string;
+  titleOdds: number;
+  titleOddsDelta: number | null;
+}
+
+/**
+ * One manager's alternate-reality standing for the current season. `ref` is
+ * stable per season and manager so a recap can cite it like a record id.
+ */
+export interface LeagueContextScheduleLuck {
+  actualRecord: string;
+  allPlayRecord: string;
+  expectedWins: number;
+  luck: number;
+  manager: string;
+  medianRecord: string;
+  ref: string;
+  scheduleSwapAverageWins: number;
+  season: number;
+}
+
 export interface LeagueContextRecord {
   id: string;
   label: string;
@@ -232,12 +268,62 @@ export interface LeagueContextCadenceFrame {
   weekToken: string;
 }
 
+export interface LeagueContextTradeSide {
+  acquired: string[];
+  points: number;
+  team: string;
+}
+
+/** The trade analyzer's running score for a `transaction:` trigger. */
+export interface LeagueContextTrade {
+  id: string;
+  margin: number;
+  scoringPeriod: number | null;
+  season: number;
+  sides: LeagueContextTradeSide[];
+  status: "pending" | "in_progress" | "final";
+  throughScoringPeriod: number | null;
+  winner: string | null;
+}
+
+export interface LeagueContextDraftPick {
+  expectedPoints: number;
+  player: string;
+  points: number;
+  position: string;
+  round: number | null;
+}
+
+export interface LeagueContextDraftManagerGrade {
+  bestPick: LeagueContextDraftPick | null;
+  expectedPoints: number;
+  grade: string;
+  /** Earlier seasons' full-season grades, newest first. */
+  pastGrades: { grade: string; season: number; surplus: number }[];
+  points: number;
+  rank: number;
+  surplus: number;
+  team: string;
+  worstPick: LeagueContextDraftPick | null;
+}
+
+/** The draft retrospective for a `draft-grades:` trigger. */
+export interface LeagueContextDraftGrades {
+  baselineSeasons: number[];
+  checkpoint: "in_season" | "final";
+  managers: LeagueContextDraftManagerGrade[];
+  season: number;
+  throughScoringPeriod: number | null;
+}
+
 export interface LeagueContextTrigger {
   cadence?: LeagueContextCadenceFrame | null;
   correction: LeagueContextCorrection | null;
+  draftGrades?: LeagueContextDraftGrades | null;
   instigation: LeagueContextInstigation | null;
   poll: LeagueContextPoll | null;
   loreClaim: LeagueContextLoreClaim | null;
+  trade?: LeagueContextTrade | null;
 }
 
 export interface LeagueContextArenaStanding {
@@ -273,8 +359,21 @@ export interface LeagueContextArenaHeadToHead {
   rival: LeagueContextArenaStanding;
 }
 
+/** The league's arena division this season, and where it sits in it. */
+export interface LeagueContextArenaDivision {
+  divisionRank: number;
+  movement: "new" | "held" | "promoted" | "relegated";
+  name: string;
+  /** Null when the league had no division last season. */
+  previousTier: number | null;
+  size: number;
+  tier: number;
+  zone: "promotion" | "relegation" | "safe";
+}
+
 export interface LeagueContextArena {
   computedAt: string | null;
+  division: LeagueContextArenaDivision | null;
   fieldLeader: LeagueContextArenaStanding | null;
   headToHead: LeagueContextArenaHeadToHead | null;
   leagueStanding: LeagueContextArenaStanding | null;
@@ -464,6 +563,8 @@ export interface LeagueBlogContext {
   blended?: LeagueContextBlendedColumnData;
   generalNfl: LeagueContextGeneralNfl;
   matchups?: LeagueContextMatchup[];
+  playoffOdds?: LeagueContextPlayoffOdds[];
+  scheduleLuck?: LeagueContextScheduleLuck[];
   waivers?: LeagueContextWaivers;
 }
 
@@ -767,6 +868,57 @@ export interface UsageReportingLlmJudge extends LlmJudge {
   scoreWithUsage(request: LlmJudgeRequest): Promise<LlmJudgeResult>;
 }
 
+/** A typed tool the personal agent may call; `inputSchema` is JSON Schema. */
+export interface PersonalAgentToolSpec {
+  description: string;
+  inputSchema: Record<string, unknown>;
+  name: string;
+}
+
+export interface PersonalAgentToolCall {
+  id: string;
+  input: Record<string, unknown>;
+  name: string;
+}
+
+export type PersonalAgentLlmMessage =
+  | { content: string; role: "user" }
+  | {
+      content: string;
+      role: "assistant";
+      toolCalls?: PersonalAgentToolCall[];
+    }
+  | {
+      content: string;
+      isError?: boolean;
+      role: "tool";
+      toolCallId: string;
+    };
+
+export interface PersonalAgentLlmRequest {
+  messages: PersonalAgentLlmMessage[];
+  system: string;
+  tools: PersonalAgentToolSpec[];
+  userId: string;
+}
+
+/**
+ * One model turn. An empty `toolCalls` means `text` is the final answer;
+ * otherwise the agent runs the calls and asks again.
+ */
+export interface PersonalAgentLlmTurn {
+  estimated?: boolean;
+  model: string;
+  provider: string;
+  text: string;
+  toolCalls: PersonalAgentToolCall[];
+  usage: LlmUsageBreakdown;
+}
+
+export interface PersonalAgentLlmClient {
+  respond(request: PersonalAgentLlmRequest): Promise<PersonalAgentLlmTurn>;
+}
+
 export interface WebGrounding {
   fetch(input: {
     leagueId: string;
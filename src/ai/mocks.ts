@@ -25,6 +25,7 @@ import type {
   ArenaRecapStructure,
   AwardsSuperlativesStructure,
   BlogContentStructure,
+  DraftGradesStructure,
   FantasyFridayStructure,
   InstigationColumnStructure,
   MatchupPreviewStructure,
@@ -46,6 +47,7 @@ import type {
   CentralLlmGenerateRequest,
   CentralLlmGenerateResult,
   EmbeddingResult,
+  LeagueContextArenaDivision,
   LeagueContextRecord,
   LeagueContextTeam,
   LlmClient,
@@ -55,6 +57,10 @@ import type {
   LlmJudgeRequest,
   LlmJudgeScore,
   NewsItem,
+  PersonalAgentLlmClient,
+  PersonalAgentLlmRequest,
+  PersonalAgentLlmTurn,
+  PersonalAgentToolCall,
   UsageReportingEmbeddingProvider,
   WebGrounding,
 } from "./interfaces";
@@ -613,6 +619,25 @@ function rivalryPieceStructure({
   };
 }
 
+function divisionLine(
+  anchorName: string,
+  division: LeagueContextArenaDivision,
+): string {
+  const arrival =
+    division.movement === "promoted"
+      ? " after promotion"
+      : division.movement === "relegated"
+        ? " after relegation"
+        : "";
+  const zone =
+    division.zone === "promotion"
+      ? ", in the promotion places"
+      : division.zone === "relegation"
+        ? ", in the relegation places"
+        : "";
+  return `${anchorName} sits ${division.divisionRank} of ${division.size} in the ${division.name}${arrival}${zone}.`;
+}
+
 function arenaRecapStructure({
   context,
   team,
@@ -623,6 +648,7 @@ function arenaRecapStructure({
   const standing = context.arena.leagueStanding;
   const leader = context.arena.fieldLeader;
   const headToHead = context.arena.headToHead;
+  const division = context.arena.division;
   const movers = [
     ...context.arena.movers.risers,
     ...context.arena.movers.fallers,
@@ -647,9 +673,11 @@ function arenaRecapStructure({
     fieldLeader: leader
       ? `${leader.displayName} leads the field at rank ${leader.rank} with ${formatAccuracy(leader.accuracyBps)} accuracy.`
       : `${context.league.name} has no arena field leader until standings materialize.`,
-    leaguePosition: standing
-      ? `${anchorName} is ${standing.rank} in the arena with ${formatAccuracy(standing.accuracyBps)} accuracy.`
-      : `${context.league.name} is waiting on an arena standing.`,
+    leaguePosition: `${
+      standing
+        ? `${anchorName} is ${standing.rank} in the arena with ${formatAccuracy(standing.accuracyBps)} accuracy.`
+        : `${context.league.name} is waiting on an arena standing.`
+    }${division ? ` ${divisionLine(anchorName, division)}` : ""}`,
     needle: `${teamNeedle} This stays play-money bragging rights, not a payout pitch.`,
     rivalWatch: headToHead
       ? `${headToHead.anchor.displayName} is ${headToHead.comparison} ${headToHead.rival.displayName} by ${formatAccuracy(headToHead.marginBps)} with ${headToHead.rankGap} rank slot${headToHead.rankGap === 1 ? "" : "s"} between them.`
@@ -762,6 +790,76 @@ function verdictColumnStructure({
   };
 }
 
+function draftGradesStructure({
+  context,
+  team,
+  teams,
+}: {
+  context: LlmGenerateRequest["context"];
+  team: LeagueContextTeam | null;
+  teams: LeagueContextTeam[];
+}): DraftGradesStructure {
+  const draft = context.trigger.draftGrades;
+  if (draft && draft.managers.length > 0) {
+    const byValue = draft.managers
+      .flatMap((manager) =>
+        [manager.bestPick, manager.worstPick].flatMap((pick) =>
+          pick ? [{ pick, team: manager.team }] : [],
+        ),
+      )
+      .sort(
+        (left, right) =>
+          right.pick.points -
+          right.pick.expectedPoints -
+          (left.pick.points - left.pick.expectedPoints),
+      );
+    const steal = byValue[0];
+    const bust = byValue.at(-1);
+    const leader = draft.managers[0];
+    return {
+      bust: bust
+        ? `${bust.pick.player} has given ${bust.team} ${bust.pick.points} points against a ${bust.pick.expectedPoints}-point slot.`
+        : "No pick has fallen short of its slot yet.",
+      checkpoint:
+        draft.throughScoringPeriod === null
+          ? `${draft.season} season-end grades`
+          : `${draft.season} grades through Week ${draft.throughScoringPeriod}`,
+      grades: draft.managers.map((manager) => ({
+        bestPick: manager.bestPick?.player ?? "No graded pick",
+        grade: manager.grade,
+        rationale: `${manager.team} is ${manager.surplus >= 0 ? "+" : ""}${manager.surplus} points against the league's draft-slot history.`,
+        team: manager.team,
+        worstPick: manager.worstPick?.player ?? "No graded pick",
+      })),
+      steal: steal
+        ? `${steal.pick.player} has returned ${steal.pick.points} points to ${steal.team} from a ${steal.pick.expectedPoints}-point slot.`
+        : "No pick has beaten its slot yet.",
+      trend: leader?.pastGrades[0]
+        ? `${leader.team} graded ${leader.pastGrades[0].grade} in ${leader.pastGrades[0].season} and ${leader.grade} now.`
+        : `${draft.season} is the first class the league can compare.`,
+      type: "draft_grades",
+    };
+  }
+
+  const first = team?.name ?? firstManager(team);
+  return {
+    bust: `${secondaryTeam(teams)?.name ?? first} is waiting on a draft pick to disappoint on the record.`,
+    checkpoint: "Draft grades without imported picks",
+    grades: [
+      {
+        bestPick: "No graded pick",
+        grade: "C",
+        rationale: `${first} holds a placeholder grade until draft picks import.`,
+        team: first,
+        worstPick: "No graded pick",
+      },
+    ],
+    steal: `${first} has no imported pick to call a steal yet.`,
+    trend: "No earlier draft class is on file to compare.",
+    type: "draft_grades",
+  };
+}
+
 function structureForRequest(
   request: LlmGenerateRequest,
 ): BlogContentStructure {
@@ -827,6 +925,12 @@ function structureForRequest(
         team,
         teams,
       });
+    case "draft_grades":
+      return draftGradesStructure({
+        context: request.context,
+        team,
+        teams,
+      });
   }
 }
 
@@ -1080,6 +1184,21 @@ function blocksForStructure(
           type: "list",
         },
       ];
+    case "draft_grades":
+      return [
+        { text: `${personaName}'s draft grades`, type: "heading" },
+        { text: `${structure.checkpoint}. ${personaLine}`, type: "paragraph" },
+        { text: toneLine, type: "paragraph" },
+        {
+          items: structure.grades.map(
+            (row) =>
+              `${row.team}: ${row.grade}. Best pick ${row.bestPick}, worst pick ${row.worstPick}. ${row.rationale}`,
+          ),
+          type: "list",
+        },
+        { text: `${structure.steal} ${structure.bust}`, type: "paragraph" },
+        { text: structure.trend, type: "quote" },
+      ];
   }
 }
 
@@ -1704,6 +1823,158 @@ export class MockLlmClient implements LlmClient, CentralLlmClient {
   }
 }
 
+const MOCK_PERSONAL_AGENT_TOOL_HINTS: readonly {
+  pattern: RegExp;
+  tool: string;
+}[] = [
+  {
+    pattern: /\b(h2h|head[- ]to[- ]head|rival|against|vs\.?)\b/iu,
+    tool: "h2h_ledger",
+  },
+  { pattern: /\b(lore|canon|legend)\b/iu, tool: "lore_canon" },
+  {
+    pattern: /\b(start|sit|bench|lineup|waivers?|pick ?ups?)\b/iu,
+    tool: "lineup_advice",
+  },
+  { pattern: /\b(pick'?em|picks?|arena)\b/iu, tool: "pickem_tally" },
+  {
+    pattern: /\b(standings?|matchups?|this week|playoff odds)\b/iu,
+    tool: "league_home",
+  },
+];
+
+function personalAgentUsage(
+  request: PersonalAgentLlmRequest,
+  text: string,
+): PersonalAgentLlmTurn["usage"] {
+  return {
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    inputTokens: estimateTokenCount(
+      [
+        request.system,
+        ...request.messages.map((message) => message.content),
+      ].join("\n"),
+    ),
+    outputTokens: estimateTokenCount(text),
+  };
+}
+
+function toolRowsFromContent(
+  content: string,
+): { ref: string; summary: string }[] {
+  try {
+    const parsed = JSON.parse(content) as { rows?: unknown };
+    return Array.isArray(parsed.rows)
+      ? parsed.rows.flatMap((row) => {
+          const record = row as Record<string, unknown>;
+          return typeof record.ref === "string" &&
+            typeof record.summary === "string"
+            ? [{ ref: record.ref, summary: record.summary }]
+            : [];
+        })
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Keyword-routed stand-in for the personal agent model: one tool call per
+ * question, then an answer stitched from the first rows each tool returned.
+ */
+export class MockPersonalAgentLlmClient implements PersonalAgentLlmClient {
+  readonly requests: PersonalAgentLlmRequest[] = [];
+
+  async respond(
+    request: PersonalAgentLlmRequest,
+  ): Promise<PersonalAgentLlmTurn> {
+    this.requests.push(request);
+    const lastUserIndex = request.messages.findLastIndex(
+      (message) => message.role === "user",
+    );
+    const question = request.messages[lastUserIndex]?.content ?? "";
+    const toolResults = request.messages
+      .slice(lastUserIndex + 1)
+      .filter((message) => message.role === "tool");
+    const toolNames = new Set(request.tools.map((tool) => tool.name));
+
+    if (toolResults.length === 0 && toolNames.size > 0) {
+      const hinted =
+        MOCK_PERSONAL_AGENT_TOOL_HINTS.find(
+          (hint) => toolNames.has(hint.tool) && hint.pattern.test(question),
+        )?.tool ??
+        (toolNames.has("records_catalog") ? "records_catalog" : null);
+      const tool = hinted ?? request.tools[0]?.name;
+      if (tool) {
+        const toolCalls: PersonalAgentToolCall[] = [
+          { id: `mock-tool-${request.messages.length}`, input: {}, name: tool },
+        ];
+        return {
+          estimated: true,
+          model: "mock-rumbledore-agent-v1",
+          provider: "mock",
+          text: "",
+          toolCalls,
+          usage: personalAgentUsage(request, tool),
+        };
+      }
+    }
+
+    const rows = toolResults.flatMap((message) =>
+      toolRowsFromContent(message.content).slice(0, 3),
+    );
+    const text =
+      rows.length > 0
+        ? `Here is what the league data says: ${rows
+            .map((row) => `${row.summary} [${row.ref}]`)
+            .join(" ")}`
+        : "I could not find league rows that answer that yet. Try asking from a league page once its history has synced.";
+    return {
+      estimated: true,
+      model: "mock-rumbledore-agent-v1",
+      provider: "mock",
+      text,
+      toolCalls: [],
+      usage: personalAgentUsage(request, text),
+    };
+  }
+}
+
+export type ScriptedPersonalAgentStep =
+  | Pick<PersonalAgentLlmTurn, "text" | "toolCalls">
+  | ((
+      request: PersonalAgentLlmRequest,
+    ) => Pick<PersonalAgentLlmTurn, "text" | "toolCalls">);
+
+/** Replays a fixed sequence of model turns; tests assert on `requests`. */
+export class ScriptedPersonalAgentLlmClient implements PersonalAgentLlmClient {
+  readonly requests: PersonalAgentLlmRequest[] = [];
+  private readonly steps: ScriptedPersonalAgentStep[];
+
+  constructor(steps: readonly ScriptedPersonalAgentStep[]) {
+    this.steps = [...steps];
+  }
+
+  async respond(
+    request: PersonalAgentLlmRequest,
+  ): Promise<PersonalAgentLlmTurn> {
+    this.requests.push({ ...request, messages: [...request.messages] });
+    const step = this.steps.shift();
+    if (!step) {
+      throw new Error("Scripted personal agent ran out of turns");
+    }
+    const turn = typeof step === "function" ? step(request) : step;
+    return {
+      ...turn,
+      estimated: true,
+      model: "scripted-personal-agent",
+      provider: "mock",
+      usage: personalAgentUsage(request, turn.text),
+    };
+  }
+}
+
 export class MockLlmJudge implements LlmJudge {
   readonly requests: LlmJudgeRequest[] = [];
 
@@ -779,6 +779,7 @@ async function loadPreviewTeams(
 function emptyArena(): LeagueBlogContext["arena"] {
   return {
     computedAt: null,
+    division: null,
     fieldLeader: null,
     headToHead: null,
     leagueStanding: null,
@@ -0,0 +1,169 @@
+import { and, desc, eq } from "drizzle-orm";
+import { AppError } from "@/core/result";
+import type { Db } from "@/db/client";
+import {
+  type PersonalAgentMessageCitation,
+  type PersonalAgentMessageToolCall,
+  personalAgentMessages,
+  personalAgentThreads,
+} from "@/db/schema";
+
+const HISTORY_MESSAGE_LIMIT = 20;
+const THREAD_TITLE_LIMIT = 80;
+
+export interface PersonalAgentThreadMessage {
+  readonly citations: PersonalAgentMessageCitation[];
+  readonly content: string;
+  readonly createdAt: string;
+  readonly role: "assistant" | "user";
+}
+
+export interface PersonalAgentThreadHistory {
+  readonly id: string;
+  readonly leagueId: string | null;
+  /** Oldest first, capped to the most recent turns the agent replays. */
+  readonly messages: PersonalAgentThreadMessage[];
+  readonly title: string;
+}
+
+export interface PersonalAgentExchangeInput {
+  readonly answer: {
+    readonly citations: PersonalAgentMessageCitation[];
+    readonly text: string;
+    readonly toolCalls: PersonalAgentMessageToolCall[];
+  };
+  readonly at: Date;
+  readonly leagueId: string | null;
+  readonly question: string;
+  /** Creates the thread with this id when it does not exist yet. */
+  readonly threadId: string;
+  readonly userId: string;
+}
+
+function threadNotFound(): AppError {
+  return new AppError({
+    code: "PERSONAL_AGENT_THREAD_NOT_FOUND",
+    message: "Conversation not found",
+    status: 404,
+  });
+}
+
+/** Loads a thread the user owns; another user's thread reads as missing. */
+export async function loadPersonalAgentThread(
+  db: Db,
+  input: { threadId: string; userId: string },
+): Promise<PersonalAgentThreadHistory> {
+  const [thread] = await db
+    .select({
+      id: personalAgentThreads.id,
+      leagueId: personalAgentThreads.leagueId,
+      title: personalAgentThreads.title,
+    })
+    .from(personalAgentThreads)
+    .where(
+      and(
+        eq(personalAgentThreads.id, input.threadId),
+        eq(personalAgentThreads.userId, input.userId),
+      ),
+    )
+    .limit(1);
+
+  if (!thread) {
+    throw threadNotFound();
+  }
+
+  const recent = await db
+    .select({
+      citations: personalAgentMessages.citations,
+      content: personalAgentMessages.content,
+      createdAt: personalAgentMessages.createdAt,
+      role: personalAgentMessages.role,
+    })
+    .from(personalAgentMessages)
+    .where(eq(personalAgentMessages.threadId, thread.id))
+    .orderBy(
+      desc(personalAgentMessages.createdAt),
+      desc(personalAgentMessages.id),
+    )
+    .limit(HISTORY_MESSAGE_LIMIT);
+
+  return {
+    ...thread,
+    messages: recent.reverse().map((row) => ({
+      citations: row.citations,
+      content: row.content,
+      createdAt: row.createdAt.toISOString(),
+      role: row.role,
+    })),
+  };
+}
+
+/**
+ * Stores one question and its answer. The user turn is stamped a millisecond
+ * before the answer so replay order never depends on id ordering.
+ */
+export async function appendPersonalAgentExchange(
+  db: Db,
+  input: PersonalAgentExchangeInput,
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    const [existing] = await tx
+      .select({ userId: personalAgentThreads.userId })
+      .from(personalAgentThreads)
+      .where(eq(personalAgentThreads.id, input.threadId))
+      .limit(1);
+
+    if (existing && existing.userId !== input.userId) {
+      throw threadNotFound();
+    }
+
+    if (existing) {
+      await tx
+        .update(personalAgentThreads)
+        .set({ lastMessageAt: input.at })
+        .where(eq(personalAgentThreads.id, input.threadId));
+    } else {
+      await tx.insert(personalAgentThreads).values({
+        id: input.threadId,
+        lastMessageAt: input.at,
+        leagueId: input.leagueId,
+        title: input.question.slice(0, THREAD_TITLE_LIMIT),
+        userId: input.userId,
+      });
+    }
+
+    await tx.insert(personalAgentMessages).values([
+      {
+        content: input.question,
+        createdAt: new Date(input.at.getTime() - 1),
+        role: "user",
+        threadId: input.threadId,
+      },
+      {
+        citations: input.answer.citations,
+        content: input.answer.text,
+        createdAt: input.at,
+        role: "assistant",
+        threadId: input.threadId,
+        toolCalls: input.answer.toolCalls,
+      },
+    ]);
+  });
+}
+
+export interface PersonalAgentThreadStore {
+  append(input: PersonalAgentExchangeInput): Promise<void>;
+  load(input: {
+    threadId: string;
+    userId: string;
+  }): Promise<PersonalAgentThreadHistory>;
+}
+
+export function createPersonalAgentThreadStore(
+  db: Db,
+): PersonalAgentThreadStore {
+  return {
+    append: (input) => appendPersonalAgentExchange(db, input),
+    load: (input) => loadPersonalAgentThread(db, input),
+  };
+}
@@ -0,0 +1,703 @@
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { getLeaguePickemData } from "@/betting/league-pickem";
+import { AppError } from "@/core/result";
+import type { Db } from "@/db/client";
+import { leagues } from "@/db/schema";
+import { getLeagueHomeData } from "@/home/league-home";
+import { getLoreSectionData } from "@/lore/member-experience";
+import {
+  type CanonCatalog,
+  getLeagueCanonRecordsContext,
+  getLineupAdvice,
+  type HeadToHeadPairCatalogEntry,
+  type LineupAdvicePlayer,
+  type RecordBookSegment,
+  type RecordsGroupingOption,
+  type RecordsLensInput,
+} from "@/stats";
+import type { PersonalAgentToolSpec } from "./interfaces";
+import type { PersonalAgentCitation } from "./personal-agent";
+
+/**
+ * Typed read tools the personal agent can call. Each tool wraps an existing
+ * read service and returns rows the model cites by `ref`; the agent loop
+ * assigns refs so citations stay unique across a whole answer.
+ */
+
+const RECORD_ROW_LIMIT = 3;
+const H2H_ROW_LIMIT = 5;
+const LORE_ROW_LIMIT = 8;
+const STANDINGS_ROW_LIMIT = 6;
+const MATCHUP_ROW_LIMIT = 6;
+const WAIVER_ROW_LIMIT = 5;
+
+export interface PersonalAgentSeasonGroupingContext {
+  readonly id: string;
+  readonly name: string;
+  readonly ordinal: number;
+  readonly seasons: number[];
+}
+
+export interface PersonalAgentQuestionLens {
+  readonly grouping: PersonalAgentSeasonGroupingContext | null;
+  readonly segment: RecordBookSegment;
+}
+
+export interface PersonalAgentLeagueQuestionContext {
+  readonly catalog: CanonCatalog;
+  readonly leagueId: string;
+  readonly leagueName: string;
+  readonly lens: PersonalAgentQuestionLens;
+}
+
+export interface PersonalAgentLeagueQuestionContextInput {
+  readonly db: Db;
+  /** 1-based era ordinal among the league's confirmed era groupings. */
+  readonly era?: number | null;
+  readonly leagueId: string;
+  readonly segment?: RecordBookSegment;
+}
+
+export interface PersonalAgentToolContext {
+  readonly db: Db;
+  /** The league a tool reads when the model does not name one. */
+  readonly defaultLeagueId: string | null;
+  /** Leagues the agent may read for this user, id to name. */
+  readonly leagues: ReadonlyMap<string, string>;
+  readonly loadLeagueQuestionContext?: (
+    input: PersonalAgentLeagueQuestionContextInput,
+  ) => Promise<PersonalAgentLeagueQuestionContext>;
+  readonly now: Date;
+  readonly userId: string;
+}
+
+export interface PersonalAgentToolRow {
+  readonly citation: PersonalAgentCitation;
+  readonly summary: string;
+}
+
+export interface PersonalAgentToolResult {
+  readonly leagueId: string;
+  readonly rows: PersonalAgentToolRow[];
+}
+
+interface PersonalAgentTool {
+  readonly description: string;
+  readonly input: z.ZodObject;
+  readonly name: string;
+  run(
+    context: PersonalAgentToolContext,
+    input: unknown,
+  ): Promise<PersonalAgentToolResult>;
+}
+
+const leagueIdInput = z
+  .string()
+  .uuid()
+  .optional()
+  .describe("League to read. Defaults to the league the member is viewing.");
+
+function formatNumber(value: number, maximumFractionDigits = 2): string {
+  return new Intl.NumberFormat("en-US", {
+    maximumFractionDigits,
+    minimumFractionDigits: Number.isInteger(value)
+      ? 0
+      : Math.min(2, maximumFractionDigits),
+  }).format(value);
+}
+
+function formatRecord(wins: number, losses: number, ties: number): string {
+  return `${wins}-${losses}${ties ? `-${ties}` : ""}`;
+}
+
+function formatOdds(value: number): string {
+  return `${formatNumber(value * 100, 1)}%`;
+}
+
+function segmentLabel(segment: RecordBookSegment): string {
+  switch (segment) {
+    case "both":
+      return "regular plus playoff";
+    case "playoff":
+      return "playoff";
+    case "regular":
+      return "regular-season";
+  }
+}
+
+function lensDetail(lens: PersonalAgentQuestionLens): string {
+  const pieces = [`segment=${segmentLabel(lens.segment)}`];
+  if (lens.grouping) {
+    pieces.push(
+      `era=${lens.grouping.name} (${lens.grouping.seasons.join(", ")})`,
+    );
+  } else {
+    pieces.push("era=cumulative");
+  }
+  return pieces.join("; ");
+}
+
+function matchupPhrase(row: {
+  opponentName: string | null;
+  scoringPeriod: number;
+  season: number;
+}): string {
+  return [
+    String(row.season),
+    `Week ${row.scoringPeriod}`,
+    row.opponentName ? `vs ${row.opponentName}` : null,
+  ]
+    .filter((piece): piece is string => Boolean(piece))
+    .join(", ");
+}
+
+function lineupPlayerPhrase(player: LineupAdvicePlayer): string {
+  const matchup = player.onBye
+    ? "on bye"
+    : player.opponent
+      ? `vs ${player.opponent}`
+      : "opponent unknown";
+  return `${player.fullName} (${player.position}, ${matchup}, ${formatNumber(
+    player.projectedPoints,
+    1,
+  )} projected)`;
+}
+
+function nameMatches(name: string, query: string | undefined): boolean {
+  return !query || name.toLowerCase().includes(query.trim().toLowerCase());
+}
+
+function toAgentGrouping(
+  grouping: RecordsGroupingOption,
+): PersonalAgentSeasonGroupingContext {
+  return {
+    id: grouping.id,
+    name: grouping.name,
+    ordinal: grouping.ordinal,
+    seasons: grouping.seasons,
+  };
+}
+
+function selectedGrouping(
+  ordinal: number | null | undefined,
+  groupings: readonly PersonalAgentSeasonGroupingContext[],
+): PersonalAgentSeasonGroupingContext | null {
+  if (!ordinal) {
+    return null;
+  }
+  return (
+    groupings.find((grouping) => grouping.ordinal === ordinal) ??
+    groupings[ordinal - 1] ??
+    null
+  );
+}
+
+export async function loadPersonalAgentLeagueQuestionContext({
+  db,
+  era,
+  leagueId,
+  segment,
+}: PersonalAgentLeagueQuestionContextInput): Promise<PersonalAgentLeagueQuestionContext> {
+  const [league] = await db
+    .select({ name: leagues.name })
+    .from(leagues)
+    .where(eq(leagues.id, leagueId))
+    .limit(1);
+
+  const canonContext = await getLeagueCanonRecordsContext(db, {
+    leagueId,
+    limit: 5,
+    resolveLens: (groupings): RecordsLensInput => {
+      const eraGroupings = groupings
+        .filter((grouping) => grouping.kind === "era")
+        .map(toAgentGrouping);
+      return {
+        groupingId: selectedGrouping(era, eraGroupings)?.id ?? null,
+        segment: segment ?? "both",
+      };
+    },
+  });
+  const grouping = canonContext.lens.groupingId
+    ? (canonContext.lens.groupings
+        .filter((option) => option.kind === "era")
+        .map(toAgentGrouping)
+        .find((option) => option.id === canonContext.lens.groupingId) ?? null)
+    : null;
+
+  return {
+    catalog: canonContext.catalog,
+    leagueId,
+    leagueName: league?.name ?? "Current league",
+    lens: {
+      grouping,
+      segment: canonContext.lens.segment,
+    },
+  };
+}
+
+function resolveToolLeague(
+  context: PersonalAgentToolContext,
+  leagueId: string | undefined,
+): string {
+  const resolved = leagueId ?? context.defaultLeagueId;
+  if (!resolved) {
+    throw new AppError({
+      code: "PERSONAL_AGENT_LEAGUE_REQUIRED",
+      message: `Pass a leagueId; available leagues: ${[...context.leagues.keys()].join(", ") || "none"}`,
+      status: 400,
+    });
+  }
+  if (!context.leagues.has(resolved)) {
+    throw new AppError({
+      code: "PERSONAL_AGENT_LEAGUE_NOT_COVERED",
+      message: "That league is not covered by this member's personal agent",
+      status: 403,
+    });
+  }
+  return resolved;
+}
+
+function personalAgentTool<TSchema extends z.ZodObject>(
+  name: string,
+  description: string,
+  input: TSchema,
+  run: (
+    context: PersonalAgentToolContext,
+    input: z.infer<TSchema>,
+  ) => Promise<PersonalAgentToolResult>,
+): PersonalAgentTool {
+  return {
+    description,
+    input,
+    name,
+    run: async (context, raw) => {
+      const parsed = input.safeParse(raw);
+      if (!parsed.success) {
+        throw new AppError({
+          cause: parsed.error,
+          code: "PERSONAL_AGENT_TOOL_INPUT_INVALID",
+          message: `Invalid input for ${name}: ${parsed.error.issues
+            .map(
+              (issue) => `${issue.path.join(".") || "input"} ${issue.message}`,
+            )
+            .join("; ")}`,
+          status: 400,
+        });
+      }
+      return run(context, parsed.data);
+    },
+  };
+}
+
+function recordsCatalogRows(
+  context: PersonalAgentLeagueQuestionContext,
+): PersonalAgentToolRow[] {
+  const href = `/leagues/${context.leagueId}/records`;
+  const lens = lensDetail(context.lens);
+  const scores = context.catalog.highLow.highestScores
+    .slice(0, RECORD_ROW_LIMIT)
+    .map((row) => ({
+      citation: {
+        detail: `${formatNumber(row.value)} pts, ${matchupPhrase(row)}; ${lens}`,
+        href,
+        label: "Highest score",
+      },
+      summary: `${row.personName} scored ${formatNumber(row.value)} points (${matchupPhrase(row)}).`,
+    }));
+  const championships = context.catalog.championships.managerRecords
+    .filter((row) => row.playoffAppearances > 0 || row.championships > 0)
+    .sort(
+      (left, right) =>
+        right.championships - left.championships ||
+        right.championshipAppearances - left.championshipAppearances ||
+        right.playoffAppearances - left.playoffAppearances ||
+        left.personName.localeCompare(right.personName),
+    )
+    .slice(0, RECORD_ROW_LIMIT)
+    .map((row) => ({
+      citation: {
+        detail: `${row.personName}; ${lens}`,
+        href,
+        label: "Championship ledger",
+      },
+      summary: `${row.personName}: ${row.championships} titles in ${row.championshipAppearances} title games, ${row.runnerUps} runner-up finishes, ${row.playoffAppearances} playoff trips.`,
+    }));
+  const seasons = context.catalog.allTimeStandings
+    .flatMap((row) =>
+      row.bestSeason
+        ? [{ personName: row.personName, season: row.bestSeason }]
+        : [],
+    )
+    .sort(
+      (left, right) =>
+        right.season.winPercentage - left.season.winPercentage ||
+        right.season.pointsFor - left.season.pointsFor ||
+        left.personName.localeCompare(right.personName),
+    )
+    .slice(0, RECORD_ROW_LIMIT)
+    .map(({ personName, season }) => ({
+      citation: {
+        detail: `${personName} ${season.season}; ${lens}`,
+        href,
+        label: "Best season",
+      },
+      summary: `${personName}'s ${season.season} season: ${formatRecord(
+        season.wins,
+        season.losses,
+        season.ties,
+      )}, ${formatNumber(season.pointsFor)} points for, ${formatNumber(
+        season.winPercentage * 100,
+        1,
+      )}% win rate.`,
+    }));
+
+  return [...scores, ...championships, ...seasons];
+}
+
+function headToHeadSummary(pair: HeadToHeadPairCatalogEntry): string {
+  const { personA, personB } = pair;
+  const leader =
+    personA.wins === personB.wins
+      ? `${personA.personName} and ${personB.personName} are even`
+      : personA.wins > personB.wins
+        ? `${personA.personName} leads ${personB.personName}`
+        : `${personB.personName} leads ${personA.personName}`;
+  const streak = pair.currentStreak
+    ? ` Current streak: ${pair.currentStreak.personName} has won ${pair.currentStreak.length} straight.`
+    : "";
+  return `${leader} ${Math.max(personA.wins, personB.wins)}-${Math.min(
+    personA.wins,
+    personB.wins,
+  )}${pair.ties ? `-${pair.ties}` : ""} over ${pair.meetings} meetings (${formatNumber(
+    personA.points,
+  )} to ${formatNumber(personB.points)} points, ${pair.playoffMeetings} in the playoffs).${streak}`;
+}
+
+function pairMatches(
+  pair: HeadToHeadPairCatalogEntry,
+  manager: string | undefined,
+  opponent: string | undefined,
+): boolean {
+  const { personA, personB } = pair;
+  return (
+    (nameMatches(personA.personName, manager) &&
+      nameMatches(personB.personName, opponent)) ||
+    (nameMatches(personB.personName, manager) &&
+      nameMatches(personA.personName, opponent))
+  );
+}
+
+const PERSONAL_AGENT_TOOLS: readonly PersonalAgentTool[] = [
+  personalAgentTool(
+    "league_home",
+    "Current season snapshot for a league: status, standings with playoff odds, and this week's matchups.",
+    z.object({ leagueId: leagueIdInput }),
+    async (context, input) => {
+      const leagueId = resolveToolLeague(context, input.leagueId);
+      const home = await getLeagueHomeData(context.db, {
+        leagueId,
+        userId: context.userId,
+      });
+      if (home.status !== "ready") {
+        throw new AppError({
+          code: "PERSONAL_AGENT_LEAGUE_UNAVAILABLE",
+          message: "League home data is unavailable",
+          status: 404,
+        });
+      }
+
+      const { data } = home;
+      const href = `/leagues/${leagueId}`;
+      const standings = data.standings
+        .slice(0, STANDINGS_ROW_LIMIT)
+        .map((row) => ({
+          citation: {
+            detail: `${data.league.season} standings, #${row.rank} ${row.name}`,
+            href,
+            label: "Standings",
+          },
+          summary: `#${row.rank} ${row.name}: ${formatRecord(
+            row.wins,
+            row.losses,
+            row.ties,
+          )}, ${formatNumber(row.pointsFor)} points for${
+            row.odds ? `, ${formatOdds(row.odds.playoffOdds)} playoff odds` : ""
+          }.`,
+        }));
+      const matchups = data.currentMatchups
+        .slice(0, MATCHUP_ROW_LIMIT)
+        .map((matchup) => ({
+          citation: {
+            detail: `Week ${matchup.scoringPeriod}: ${matchup.away.name} at ${matchup.home.name}`,
+            href,
+            label: "Matchup",
+          },
+          summary: `Week ${matchup.scoringPeriod} (${matchup.status}): ${matchup.away.name} ${formatNumber(
+            matchup.away.score,
+          )} at ${matchup.home.name} ${formatNumber(matchup.home.score)}.`,
+        }));
+
+      return {
+        leagueId,
+        rows: [
+          {
+            citation: {
+              detail: `${data.league.season} season, ${data.league.status}`,
+              href,
+              label: "League home",
+            },
+            summary: `${data.league.name} is in its ${data.league.season} season (${data.league.status}), scoring period ${data.league.currentScoringPeriod}, with ${data.totals.teams} teams.`,
+          },
+          ...standings,
+          ...matchups,
+        ],
+      };
+    },
+  ),
+  personalAgentTool(
+    "records_catalog",
+    "Curated Record Book leaders for a league: highest scores, championship ledger, and best seasons, filtered by segment and era.",
+    z.object({
+      era: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("1-based era number, e.g. 2 for 'era 2'. Omit for all-time."),
+      leagueId: leagueIdInput,
+      segment: z
+        .enum(["both", "playoff", "regular"])
+        .optional()
+        .describe("Which games count: regular, playoff, or both (default)."),
+    }),
+    async (context, input) => {
+      const leagueId = resolveToolLeague(context, input.leagueId);
+      const load =
+        context.loadLeagueQuestionContext ??
+        loadPersonalAgentLeagueQuestionContext;
+      const leagueContext = await load({
+        db: context.db,
+        era: input.era ?? null,
+        leagueId,
+        segment: input.segment,
+      });
+      return { leagueId, rows: recordsCatalogRows(leagueContext) };
+    },
+  ),
+  personalAgentTool(
+    "h2h_ledger",
+    "All-time head-to-head ledger between managers in a league. Filter by one or both manager names.",
+    z.object({
+      leagueId: leagueIdInput,
+      manager: z.string().trim().min(1).max(80).optional(),
+      opponent: z.string().trim().min(1).max(80).optional(),
+    }),
+    async (context, input) => {
+      const leagueId = resolveToolLeague(context, input.leagueId);
+      const { catalog } = await getLeagueCanonRecordsContext(context.db, {
+        leagueId,
+      });
+      const rows = catalog.headToHead.allTimePairs
+        .filter((pair) => pairMatches(pair, input.manager, input.opponent))
+        .slice(0, H2H_ROW_LIMIT)
+        .map((pair) => ({
+          citation: {
+            detail: `${pair.personA.personName} vs ${pair.personB.personName}, ${pair.meetings} meetings`,
+            href: `/leagues/${leagueId}/records/h2h/${pair.personA.personId}/${pair.personB.personId}`,
+            label: "Head-to-head ledger",
+          },
+          summary: headToHeadSummary(pair),
+        }));
+      return { leagueId, rows };
+    },
+  ),
+  personalAgentTool(
+    "lore_canon",
+    "Ratified canon lore for a league, optionally filtered to one subject key (e.g. person:<id> or season:2023).",
+    z.object({
+      leagueId: leagueIdInput,
+      subject: z.string().trim().min(1).max(120).optional(),
+    }),
+    async (context, input) => {
+      const leagueId = resolveToolLeague(context, input.leagueId);
+      const lore = await getLoreSectionData(context.db, {
+        isSteward: false,
+        leagueId,
+        subject: input.subject ?? null,
+      });
+      if (lore.status !== "ready") {
+        throw new AppError({
+          code: "PERSONAL_AGENT_LEAGUE_UNAVAILABLE",
+          message: "League lore is unavailable",
+          status: 404,
+        });
+      }
+      const rows = lore.data.canon.slice(0, LORE_ROW_LIMIT).map((claim) => ({
+        citation: {
+          detail: claim.title,
+          href: `/leagues/${leagueId}/lore/${claim.id}`,
+          label: "Ratified canon",
+        },
+        summary: `${claim.title}: ${claim.bodyPreview}`,
+      }));
+      return { leagueId, rows };
+    },
+  ),
+  personalAgentTool(
+    "pickem_tally",
+    "This week's pick'em status for a league: the member's submitted picks and the league's accuracy tally.",
+    z.object({ leagueId: leagueIdInput }),
+    async (context, input) => {
+      const leagueId = resolveToolLeague(context, input.leagueId);
+      const pickem = await getLeaguePickemData(context.db, {
+        leagueId,
+        now: context.now,
+        userId: context.userId,
+      });
+      const href = `/leagues/${leagueId}/bet`;
+      if (!pickem.week) {
+        return {
+          leagueId,
+          rows: [
+            {
+              citation: {
+                detail: "No open pick week",
+                href,
+                label: "Pick'em",
+              },
+              summary: "No pick'em week is open for this league right now.",
+            },
+          ],
+        };
+      }
+
+      const { league, week, you } = pickem;
+      return {
+        leagueId,
+        rows: [
+          {
+            citation: {
+              detail: `${week.season} week ${week.week}, your picks`,
+              href,
+              label: "Pick'em",
+            },
+            summary: `Week ${week.week}: you have submitted ${you.submittedPicks} of ${week.maxPicksPerUser} picks (${you.remainingPicks} remaining); picks close ${week.closesAt}.`,
+          },
+          {
+            citation: {
+              detail: `${week.season} week ${week.week}, league tally`,
+              href,
+              label: "Pick'em tally",
+            },
+            summary: `The league is ${league.correctPicks} for ${league.scorablePicks} on scorable picks (${formatOdds(
+              league.accuracy,
+            )} accuracy) with ${formatOdds(league.participationRate)} participation${
+              league.isEligibleForWeeklyPrize
+                ? ", eligible for the weekly prize"
+                : ""
+            }.`,
+          },
+        ],
+      };
+    },
+  ),
+  personalAgentTool(
+    "lineup_advice",
+    "Start/sit and waiver recommendations for the member's own team this week, projected from recent NFL stats under the league's scoring rules.",
+    z.object({ leagueId: leagueIdInput }),
+    async (context, input) => {
+      const leagueId = resolveToolLeague(context, input.leagueId);
+      const result = await getLineupAdvice(context.db, {
+        leagueId,
+        userId: context.userId,
+      });
+      const href = `/leagues/${leagueId}/you`;
+      if (result.status !== "ready") {
+        return {
+          leagueId,
+          rows: [
+            {
+              citation: {
+                detail:
+                  result.status === "no_team"
+                    ? "No claimed team"
+                    : "No roster synced",
+                href,
+                label: "Lineup advice",
+              },
+              summary:
+                result.status === "no_team"
+                  ? "The member has not claimed a team in this league, so there is no lineup to advise on."
+                  : "No roster has synced for the member's team this season yet.",
+            },
+          ],
+        };
+      }
+
+      const { advice } = result;
+      const week = `${advice.season} week ${advice.scoringPeriod}`;
+      const startSit = {
+        citation: {
+          detail: `${week}, ${advice.team.name}`,
+          href,
+          label: "Start/sit",
+        },
+        summary:
+          advice.start.length === 0 && advice.sit.length === 0
+            ? `${advice.team.name}'s current lineup is already the best projected lineup for week ${advice.scoringPeriod}.`
+            : `Week ${advice.scoringPeriod} for ${advice.team.name}: start ${advice.start
+                .map(lineupPlayerPhrase)
+                .join(", ")}; sit ${advice.sit
+                .map(lineupPlayerPhrase)
+                .join(", ")}.`,
+      };
+      const waivers = advice.waivers
+        .slice(0, WAIVER_ROW_LIMIT)
+        .map((target) => ({
+          citation: {
+            detail: `${week}, ${target.player.fullName}`,
+            href,
+            label: "Waiver wire",
+          },
+          summary: `Pick up ${lineupPlayerPhrase(target.player)}: +${formatNumber(
+            target.gain,
+            1,
+          )} over ${
+            target.replaces ? target.replaces.fullName : "an empty lineup slot"
+          }.`,
+        }));
+      return { leagueId, rows: [startSit, ...waivers] };
+    },
+  ),
+];
+
+const TOOLS_BY_NAME = new Map(
+  PERSONAL_AGENT_TOOLS.map((tool) => [tool.name, tool]),
+);
+
+export function personalAgentToolSpecs(): PersonalAgentToolSpec[] {
+  return PERSONAL_AGENT_TOOLS.map((tool) => {
+    const { $schema: _schema, ...inputSchema } = z.toJSONSchema(tool.input);
+    return {
+      description: tool.description,
+      inputSchema,
+      name: tool.name,
+    };
+  });
+}
+
+export async function runPersonalAgentTool(
+  context: PersonalAgentToolContext,
+  call: { input: unknown; name: string },
+): Promise<PersonalAgentToolResult> {
+  const tool = TOOLS_BY_NAME.get(call.name);
+  if (!tool) {
+    throw new AppError({
+      code: "PERSONAL_AGENT_TOOL_UNKNOWN",
+      message: `Unknown tool ${call.name}`,
+      status: 400,
+    });
+  }
+  return tool.run(context, call.input);
+}
@@ -1,12 +1,13 @@
 // @vitest-environment node
 import { randomUUID } from "node:crypto";
-import { sql } from "drizzle-orm";
+import { asc, eq, sql } from "drizzle-orm";
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
 import { getLeagueRecordsPageData } from "@/app/leagues/[leagueId]/records/records-page-data";
 import { type EntitlementsConfig, parseEnv } from "@/core/env/schema";
 import { createDb, type DbHandle } from "@/db/client";
 import { withLeagueContext } from "@/db/rls";
 import {
+  aiUsageEvents,
   fantasyMatchups,
   fantasyMembers,
   fantasyTeams,
@@ -16,6 +17,7 @@ import {
   leagues,
   loreClaims,
   members,
+  personalAgentMessages,
   userEntitlements,
   users,
 } from "@/db/schema";
@@ -29,6 +31,11 @@ import {
   recomputeLeagueStatistics,
 } from "@/stats";
 import { forgeCanonCatalogForTest } from "@/testing/canon";
+import type { PersonalAgentLlmRequest } from "./interfaces";
+import {
+  ScriptedPersonalAgentLlmClient,
+  type ScriptedPersonalAgentStep,
+} from "./mocks";
 import {
   getPersonalAgentAnswer,
   getPersonalAgentBriefing,
@@ -405,6 +412,7 @@ function emptyCatalog(overrides: Partial<RecordsCatalog> = {}): RecordsCatalog {
       managerRecords: [],
       seasons: [],
     },
+    customRecords: [],
     headToHead: {
       allTimePairs: [],
       longestStreaks: [],
@@ -471,13 +479,66 @@ function emptyCatalog(overrides: Partial<RecordsCatalog> = {}): RecordsCatalog {
       longestLosses: [],
       longestWins: [],
     },
+    trades: { careerRecords: [], lopsidedTrades: [] },
     ...overrides,
   };
 }
 
+type ToolRow = { ref: string; summary: string };
+
+function toolRows(request: PersonalAgentLlmRequest): ToolRow[] {
+  return request.messages.flatMap((message) =>
+    message.role === "tool"
+      ? ((JSON.parse(message.content) as { rows?: ToolRow[] }).rows ?? [])
+      : [],
+  );
+}
+
+const answerFromFirstRow: ScriptedPersonalAgentStep = (request) => {
+  const [row] = toolRows(request);
+  return {
+    text: row ? `${row.summary} [${row.ref}]` : "No rows came back.",
+    toolCalls: [],
+  };
+};
+
+function recordsCatalogCall(input: Record<string, unknown>) {
+  return {
+    text: "",
+    toolCalls: [{ id: "call-records", input, name: "records_catalog" }],
+  };
+}
+
+function squyresCatalog() {
+  return forgeCanonCatalogForTest(
+    emptyCatalog({
+      highLow: {
+        bestScoresInLosses: [],
+        highestCombinedMatchups: [],
+        highestScores: [
+          {
+            matchupId: "fixture-matchup",
+            opponentName: "Final Boss",
+            opponentPersonId: "person-opponent",
+            personId: "person-squyres",
+            personName: "Squyres18",
+            recordType: "highest_single_week_score",
+            scoringPeriod: 16,
+            season: 2022,
+            value: 247.5,
+          },
+        ],
+        lowestScores: [],
+        worstScoresInWins: [],
+      },
+    }),
+  );
+}
+
 describe("getPersonalAgentAnswer", () => {
-  it("blocks before loading curated league context when the individual gate is closed", async () => {
+  it("blocks before calling the model when the individual gate is closed", async () => {
     const user = await seedUser("answer-blocked");
+    const llm = new ScriptedPersonalAgentLlmClient([]);
 
     const result = await getPersonalAgentAnswer({
       context: {
@@ -488,6 +549,7 @@ describe("getPersonalAgentAnswer", () => {
       },
       db: handle.db,
       env: entitlementEnv(),
+      llm,
       loadLeagueQuestionContext: async () => {
         throw new Error("curated context should not load");
       },
@@ -503,58 +565,52 @@ describe("getPersonalAgentAnswer", () => {
       },
       status: "blocked",
     });
+    expect(llm.requests).toHaveLength(0);
   });
 
-  it("answers era and segment aware record questions from curated context", async () => {
+  it("runs the model's tool calls and cites the rows the answer used", async () => {
     const user = await seedUser("answer-ready");
-    const leagueId = "00000000-0000-4000-8000-000000000041";
+    const league = await seedLeague("answer-ready");
+    const lensRequests: unknown[] = [];
+    const llm = new ScriptedPersonalAgentLlmClient([
+      recordsCatalogCall({ era: 2, segment: "playoff" }),
+      (request) => {
+        const [row] = toolRows(request);
+        return {
+          text: `Squyres18 owns the top playoff score in Era 2 [${row?.ref}].`,
+          toolCalls: [],
+        };
+      },
+    ]);
 
     const result = await getPersonalAgentAnswer({
       context: {
-        leagueId,
-        pathname: `/leagues/${leagueId}/records`,
+        leagueId: league.id,
+        pathname: `/leagues/${league.id}/records`,
         scope: "league",
         sectionId: "records",
       },
       db: handle.db,
       env: entitlementEnv({ devOverride: true }),
-      loadLeagueQuestionContext: async () => ({
-        canonFacts: ["The Squyres Standard: playoff eruptions count as lore"],
-        catalog: forgeCanonCatalogForTest(
-          emptyCatalog({
-            highLow: {
-              bestScoresInLosses: [],
-              highestCombinedMatchups: [],
-              highestScores: [
-                {
-                  matchupId: "fixture-matchup",
-                  opponentName: "Final Boss",
-                  opponentPersonId: "person-opponent",
-                  personId: "person-squyres",
-                  personName: "Squyres18",
-                  recordType: "highest_single_week_score",
-                  scoringPeriod: 16,
-                  season: 2022,
-                  value: 247.5,
-                },
-              ],
-              lowestScores: [],
-              worstScoresInWins: [],
+      llm,
+      loadLandingData: async () => ({ leagues: [] }),
+      loadLeagueQuestionContext: async ({ era, leagueId, segment }) => {
+        lensRequests.push({ era, leagueId, segment });
+        return {
+          catalog: squyresCatalog(),
+          leagueId,
+          leagueName: "Personal Agent answer-ready",
+          lens: {
+            grouping: {
+              id: "era-two",
+              name: "Era 2",
+              ordinal: 2,
+              seasons: [2020, 2021, 2022, 2023],
             },
-          }),
-        ),
-        leagueId,
-        leagueName: "Fixture League",
-        lens: {
-          grouping: {
-            id: "era-two",
-            name: "Era 2",
-            ordinal: 2,
-            seasons: [2020, 2021, 2022, 2023],
+            segment: "playoff",
           },
-          segment: "playoff",
-        },
-      }),
+        };
+      },
       now: () => now,
       question: "Who has the most playoff points in era 2?",
       userId: user.id,
@@ -565,37 +621,212 @@ describe("getPersonalAgentAnswer", () => {
       throw new Error("expected answer to be ready");
     }
 
-    expect(result.entitlement).toMatchObject({
-      allowed: true,
-      reason: "DEV_OVERRIDE",
+    expect(lensRequests).toEqual([
+      { era: 2, leagueId: league.id, segment: "playoff" },
+    ]);
+    expect(llm.requests[0]?.tools.map((tool) => tool.name)).toEqual([
+      "league_home",
+      "records_catalog",
+      "h2h_ledger",
+      "lore_canon",
+      "pickem_tally",
+    ]);
+    expect(llm.requests[0]?.system).toContain(
+      `Personal Agent answer-ready (leagueId ${league.id}) [current page]`,
+    );
+    expect(toolRows(llm.requests[1] as PersonalAgentLlmRequest)[0]).toEqual({
+      ref: "r1",
+      summary: "Squyres18 scored 247.50 points (2022, Week 16, vs Final Boss).",
     });
     expect(result.answer).toMatchObject({
+      citations: [
+        {
+          detail:
+            "247.50 pts, 2022, Week 16, vs Final Boss; segment=playoff; era=Era 2 (2020, 2021, 2022, 2023)",
+          href: `/leagues/${league.id}/records`,
+          label: "Highest score",
+        },
+      ],
       generatedAt: now.toISOString(),
       scope: {
         kind: "league",
-        leagueId,
-        leagueName: "Fixture League",
+        leagueId: league.id,
+        leagueName: "Personal Agent answer-ready",
         sectionId: "records",
       },
+      text: "Squyres18 owns the top playoff score in Era 2.",
     });
-    expect(result.answer.text).toContain("Squyres18");
-    expect(result.answer.text).toContain("247.50");
-    expect(result.answer.text).toContain("playoff score in Era 2");
-    expect(result.answer.citations).toEqual(
-      expect.arrayContaining([
-        expect.objectContaining({
-          detail: "segment=playoff; era=Era 2 (2020, 2021, 2022, 2023)",
-          label: "Curated Record Book",
-        }),
-        expect.objectContaining({
-          label: "Ratified canon checked",
-        }),
+
+    const stored = await handle.db
+      .select({
+        citations: personalAgentMessages.citations,
+        content: personalAgentMessages.content,
+        role: personalAgentMessages.role,
+        toolCalls: personalAgentMessages.toolCalls,
+      })
+      .from(personalAgentMessages)
+      .where(eq(personalAgentMessages.threadId, result.answer.threadId))
+      .orderBy(asc(personalAgentMessages.createdAt));
+    expect(stored).toEqual([
+      {
+        citations: [],
+        content: "Who has the most playoff points in era 2?",
+        role: "user",
+        toolCalls: [],
+      },
+      {
+        citations: result.answer.citations,
+        content: "Squyres18 owns the top playoff score in Era 2.",
+        role: "assistant",
+        toolCalls: [
+          {
+            input: { era: 2, segment: "playoff" },
+            name: "records_catalog",
+            refs: ["r1"],
+          },
+        ],
+      },
+    ]);
+
+    const usage = await withLeagueContext(handle.db, league.id, (tx) =>
+      tx
+        .select({
+          contentType: aiUsageEvents.contentType,
+          operation: aiUsageEvents.operation,
+          persona: aiUsageEvents.persona,
+          provider: aiUsageEvents.provider,
+        })
+        .from(aiUsageEvents)
+        .where(
+          eq(
+            aiUsageEvents.triggerKey,
+            `personal-agent:${result.answer.threadId}`,
+          ),
+        ),
+    );
+    expect(usage).toEqual([
+      {
+        contentType: "personal_agent",
+        operation: "llm.personal_agent",
+        persona: "analyst",
+        provider: "mock",
+      },
+      {
+        contentType: "personal_agent",
+        operation: "llm.personal_agent",
+        persona: "analyst",
+        provider: "mock",
+      },
+    ]);
+  });
+
+  it("replays a thread's earlier turns and keeps threads private to their owner", async () => {
+    const user = await seedUser("answer-thread");
+    const stranger = await seedUser("answer-thread-stranger");
+    const league = await seedLeague("answer-thread");
+    const context = {
+      leagueId: league.id,
+      pathname: `/leagues/${league.id}`,
+      scope: "league" as const,
+      sectionId: null,
+    };
+    const first = await getPersonalAgentAnswer({
+      context,
+      db: handle.db,
+      env: entitlementEnv({ devOverride: true }),
+      llm: new ScriptedPersonalAgentLlmClient([
+        { text: "Ask me about the records.", toolCalls: [] },
       ]),
+      loadLandingData: async () => ({ leagues: [] }),
+      now: () => now,
+      question: "Hi there",
+      userId: user.id,
+    });
+    if (first.status !== "ready") {
+      throw new Error("expected first answer");
+    }
+
+    const llm = new ScriptedPersonalAgentLlmClient([
+      { text: "Still here.", toolCalls: [] },
+    ]);
+    const second = await getPersonalAgentAnswer({
+      context,
+      db: handle.db,
+      env: entitlementEnv({ devOverride: true }),
+      llm,
+      loadLandingData: async () => ({ leagues: [] }),
+      now: () => new Date(now.getTime() + 60_000),
+      question: "Are you still there?",
+      threadId: first.answer.threadId,
+      userId: user.id,
+    });
+
+    expect(second.status === "ready" && second.answer.threadId).toBe(
+      first.answer.threadId,
     );
+    expect(llm.requests[0]?.messages).toEqual([
+      { content: "Hi there", role: "user" },
+      { content: "Ask me about the records.", role: "assistant" },
+      { content: "Are you still there?", role: "user" },
+    ]);
+
+    await expect(
+      getPersonalAgentAnswer({
+        context,
+        db: handle.db,
+        env: entitlementEnv({ devOverride: true }),
+        llm: new ScriptedPersonalAgentLlmClient([]),
+        loadLandingData: async () => ({ leagues: [] }),
+        now: () => now,
+        question: "Whose thread is this?",
+        threadId: first.answer.threadId,
+        userId: stranger.id,
+      }),
+    ).rejects.toMatchObject({
+      code: "PERSONAL_AGENT_THREAD_NOT_FOUND",
+      status: 404,
+    });
   });
 
-  it("answers a capped global question when no league context is selected", async () => {
+  it("limits tools to the covered leagues on the global surface", async () => {
     const user = await seedUser("answer-global");
+    const [alpha, beta, gamma] = await Promise.all([
+      seedLeague("answer-global-alpha"),
+      seedLeague("answer-global-beta"),
+      seedLeague("answer-global-gamma"),
+    ]);
+    const card = (id: string, name: string) => ({
+      href: `/leagues/${id}`,
+      latestPress: null,
+      leagueId: id,
+      logo: null,
+      matchup: null,
+      name,
+      provider: "espn" as const,
+      providerLabel: "ESPN",
+    });
+    const llm = new ScriptedPersonalAgentLlmClient([
+      {
+        text: "",
+        toolCalls: [
+          {
+            id: "call-gamma",
+            input: { leagueId: gamma?.id },
+            name: "records_catalog",
+          },
+        ],
+      },
+      (request) => {
+        const result = request.messages.at(-1);
+        return {
+          text:
+            result?.role === "tool" && result.isError
+              ? "I can only read Alpha League and Beta League."
+              : "Unexpected read.",
+          toolCalls: [],
+        };
+      },
+    ]);
 
     const result = await getPersonalAgentAnswer({
       context: {
@@ -608,42 +839,19 @@ describe("getPersonalAgentAnswer", () => {
         caps: { individualLeaguesCovered: 2 },
         devOverride: true,
       }),
+      llm,
       loadLandingData: async () => ({
         leagues: [
-          {
-            href: "/leagues/league-alpha",
-            latestPress: null,
-            leagueId: "league-alpha",
-            logo: null,
-            matchup: null,
-            name: "Alpha League",
-            provider: "espn",
-            providerLabel: "ESPN",
-          },
-          {
-            href: "/leagues/league-beta",
-            latestPress: null,
-            leagueId: "league-beta",
-            logo: null,
-            matchup: null,
-            name: "Beta League",
-            provider: "sleeper",
-            providerLabel: "Sleeper",
-          },
-          {
-            href: "/leagues/league-gamma",
-            latestPress: null,
-            leagueId: "league-gamma",
-            logo: null,
-            matchup: null,
-            name: "Gamma League",
-            provider: "yahoo",
-            providerLabel: "Yahoo",
-          },
+          card(alpha?.id ?? "", "Alpha League"),
+          card(beta?.id ?? "", "Beta League"),
+          card(gamma?.id ?? "", "Gamma League"),
         ],
       }),
+      loadLeagueQuestionContext: async () => {
+        throw new Error("uncovered league should not load");
+      },
       now: () => now,
-      question: "What should I look at first?",
+      question: "What is the top score in Gamma League?",
       userId: user.id,
     });
 
@@ -657,23 +865,24 @@ describe("getPersonalAgentAnswer", () => {
       scope: "global",
       sectionId: "overview",
     });
-    expect(result.answer.citations).toEqual([
-      {
-        detail: "2 covered of 3 connected leagues",
-        href: "/you",
-        label: "Personal briefing",
-      },
-    ]);
-    expect(result.answer.text).toContain("Alpha League, Beta League");
-    expect(result.answer.text).not.toContain("Gamma League");
-    expect(result.answer.text).toContain("first 2 leagues by recency");
+    expect(llm.requests[0]?.system).toContain("Alpha League");
+    expect(llm.requests[0]?.system).toContain("Beta League");
+    expect(llm.requests[0]?.system).not.toContain("Gamma League");
+    expect(llm.requests[1]?.messages.at(-1)).toMatchObject({
+      isError: true,
+      role: "tool",
+      toolCallId: "call-gamma",
+    });
+    expect(result.answer).toMatchObject({
+      citations: [],
+      text: "I can only read Alpha League and Beta League.",
+    });
   });
 
   it("answers era and segment questions through the real engine-backed context loader", async () => {
     const user = await seedUser("answer-real-seam");
     await handle.db.insert(userEntitlements).values({ userId: user.id });
     const league = await seedEngineBackedAnswerLeague("answer-real-seam");
-    const question = "Who has the most regular points in era 2?";
 
     const canonContext = await getLeagueCanonRecordsContext(handle.db, {
       leagueId: league.leagueId,
@@ -703,8 +912,12 @@ describe("getPersonalAgentAnswer", () => {
       },
       db: handle.db,
       env: entitlementEnv(),
+      llm: new ScriptedPersonalAgentLlmClient([
+        recordsCatalogCall({ era: 2, segment: "regular" }),
+        answerFromFirstRow,
+      ]),
       now: () => now,
-      question,
+      question: "Who has the most regular points in era 2?",
       userId: user.id,
     });
 
@@ -724,22 +937,14 @@ describe("getPersonalAgentAnswer", () => {
     });
     expect(result.answer.text).toContain(canonLeader.personName);
     expect(result.answer.text).toContain("188.50");
-    expect(result.answer.text).toContain("top regular-season score in Era 2");
-    expect(result.answer.citations).toEqual(
-      expect.arrayContaining([
-        expect.objectContaining({
-          detail: "segment=regular-season; era=Era 2 (2025)",
-          label: "Curated Record Book",
-        }),
-        expect.objectContaining({
-          detail: "Era 2: 2025",
-          label: "Confirmed era grouping",
-        }),
-        expect.objectContaining({
-          label: "Ratified canon checked",
-        }),
-      ]),
-    );
+    expect(result.answer.citations).toEqual([
+      expect.objectContaining({
+        detail: expect.stringContaining(
+          "segment=regular-season; era=Era 2 (2025)",
+        ),
+        label: "Highest score",
+      }),
+    ]);
   });
 
   it("keeps unpushed score edits out of the Record Book and personal-agent canon", async () => {
@@ -803,6 +1008,10 @@ describe("getPersonalAgentAnswer", () => {
       },
       db: handle.db,
       env: entitlementEnv(),
+      llm: new ScriptedPersonalAgentLlmClient([
+        recordsCatalogCall({ era: 2, segment: "regular" }),
+        answerFromFirstRow,
+      ]),
       now: () => now,
       question: "Who has the most regular points in era 2?",
       userId: user.id,
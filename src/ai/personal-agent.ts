@@ -1,7 +1,8 @@
-import { and, asc, eq } from "drizzle-orm";
+import { randomUUID } from "node:crypto";
+import { eq } from "drizzle-orm";
+import { AppError } from "@/core/result";
 import type { Db } from "@/db/client";
-import { withLeagueContext } from "@/db/rls";
-import { leagues, loreClaims } from "@/db/schema";
+import { leagues, type PersonalAgentMessageToolCall } from "@/db/schema";
 import type {
   EntitlementResolution,
   EntitlementResolverEnv,
@@ -13,14 +14,28 @@ import {
   type YourLeagueMatchup,
   type YourLeagueMatchupSide,
 } from "@/home/your-leagues";
+import type {
+  PersonalAgentLlmClient,
+  PersonalAgentLlmMessage,
+  PersonalAgentLlmTurn,
+  PersonalAgentToolCall,
+} from "./interfaces";
+import {
+  createPersonalAgentThreadStore,
+  type PersonalAgentThreadHistory,
+  type PersonalAgentThreadStore,
+} from "./personal-agent-threads";
+import {
+  type PersonalAgentLeagueQuestionContext,
+  type PersonalAgentLeagueQuestionContextInput,
+  type PersonalAgentToolContext,
+  personalAgentToolSpecs,
+  runPersonalAgentTool,
+} from "./personal-agent-tools";
 import {
-  type CanonCatalog,
-  getLeagueCanonRecordsContext,
-  type ManagerChampionshipRecord,
-  type RecordBookSegment,
-  type RecordsGroupingOption,
-  type RecordsLensInput,
-} from "@/stats";
+  type RecordAiUsageEventInput,
+  recordAiUsageEvent,
+} from "./usage-attribution";
 
 export interface PersonalAgentBriefingInput {
   readonly db: Db;
@@ -59,6 +74,7 @@ export interface PersonalAgentAnswer {
   readonly scope: PersonalAgentAnswerScope;
   readonly suggestions: string[];
   readonly text: string;
+  readonly threadId: string;
 }
 
 export interface PersonalAgentCitation {
@@ -82,46 +98,19 @@ export type PersonalAgentAnswerScope =
       readonly sectionId?: string | null;
     };
 
-export interface PersonalAgentSeasonGroupingContext {
-  readonly id: string;
-  readonly name: string;
-  readonly ordinal: number;
-  readonly seasons: number[];
-}
-
-export interface PersonalAgentQuestionLens {
-  readonly grouping: PersonalAgentSeasonGroupingContext | null;
-  readonly segment: RecordBookSegment;
-}
-
-export interface PersonalAgentLeagueQuestionContext {
-  readonly canonFacts: string[];
-  readonly catalog: CanonCatalog;
-  readonly leagueId: string;
-  readonly leagueName: string;
-  readonly lens: PersonalAgentQuestionLens;
-}
-
 export interface PersonalAgentAnswerInput extends PersonalAgentBriefingInput {
   readonly context?: PersonalAgentPageContext;
+  readonly llm: PersonalAgentLlmClient;
   readonly loadLeagueQuestionContext?: (
     input: PersonalAgentLeagueQuestionContextInput,
   ) => Promise<PersonalAgentLeagueQuestionContext>;
   readonly question: string;
+  readonly recordUsage?: (event: RecordAiUsageEventInput) => Promise<unknown>;
+  /** Continues an existing conversation; omitted starts a new thread. */
+  readonly threadId?: string | null;
+  readonly threads?: PersonalAgentThreadStore;
 }
 
-export interface PersonalAgentLeagueQuestionContextInput {
-  readonly db: Db;
-  readonly leagueId: string;
-  readonly question: string;
-}
-
-type PersonalAgentQuestionIntent =
-  | "best_season"
-  | "championships"
-  | "playoff_choker"
-  | "top_score";
-
 export type PersonalAgentBriefingResult =
   | PersonalAgentBriefingBlocked
   | PersonalAgentBriefingReady;
@@ -169,348 +158,10 @@ function currentTimestamp(input: PersonalAgentBriefingInput): Date {
   return input.now?.() ?? new Date();
 }
 
-function formatNumber(value: number, maximumFractionDigits = 2): string {
-  return new Intl.NumberFormat("en-US", {
-    maximumFractionDigits,
-    minimumFractionDigits: Number.isInteger(value)
-      ? 0
-      : Math.min(2, maximumFractionDigits),
-  }).format(value);
-}
-
 function cleanQuestion(question: string): string {
   return question.trim().replace(/\s+/gu, " ").slice(0, 400);
 }
 
-function inferSegment(question: string): RecordBookSegment {
-  const lower = question.toLowerCase();
-  if (/\b(playoff|postseason|championship|title)\b/u.test(lower)) {
-    return "playoff";
-  }
-  if (/\bregular\b/u.test(lower)) {
-    return "regular";
-  }
-  return "both";
-}
-
-function inferIntent(question: string): PersonalAgentQuestionIntent {
-  const lower = question.toLowerCase();
-  if (/\b(choker|collapse|snakebit|can't win|cant win)\b/u.test(lower)) {
-    return "playoff_choker";
-  }
-  if (/\b(champion|championship|title)\b/u.test(lower)) {
-    return "championships";
-  }
-  if (/\b(best season|best year|season)\b/u.test(lower)) {
-    return "best_season";
-  }
-  return "top_score";
-}
-
-function requestedEraOrdinal(question: string): number | null {
-  const match = /\bera\s*(\d+)\b/iu.exec(question);
-  if (!match?.[1]) {
-    return null;
-  }
-
-  const ordinal = Number(match[1]);
-  return Number.isInteger(ordinal) && ordinal > 0 ? ordinal : null;
-}
-
-function segmentLabel(segment: RecordBookSegment): string {
-  switch (segment) {
-    case "both":
-      return "regular plus playoff";
-    case "playoff":
-      return "playoff";
-    case "regular":
-      return "regular-season";
-  }
-}
-
-function lensDetail(lens: PersonalAgentQuestionLens): string {
-  const pieces = [`segment=${segmentLabel(lens.segment)}`];
-  if (lens.grouping) {
-    pieces.push(
-      `era=${lens.grouping.name} (${lens.grouping.seasons.join(", ")})`,
-    );
-  } else {
-    pieces.push("era=cumulative");
-  }
-  return pieces.join("; ");
-}
-
-function eraPhrase(lens: PersonalAgentQuestionLens): string {
-  return lens.grouping ? ` in ${lens.grouping.name}` : "";
-}
-
-function matchupPhrase(row: {
-  opponentName: string | null;
-  scoringPeriod: number;
-  season: number;
-}): string {
-  return [
-    String(row.season),
-    `Week ${row.scoringPeriod}`,
-    row.opponentName ? `vs ${row.opponentName}` : null,
-  ]
-    .filter((piece): piece is string => Boolean(piece))
-    .join(", ");
-}
-
-function answerTopScore(context: PersonalAgentLeagueQuestionContext): string {
-  const top = context.catalog.highLow.highestScores[0];
-  if (!top) {
-    return `I do not have a ratified score leader for the ${segmentLabel(
-      context.lens.segment,
-    )} lens${eraPhrase(
-      context.lens,
-    )} yet. The answer stays empty until the curated Record Book has data for that slice.`;
-  }
-
-  return `${top.personName} owns the top ${segmentLabel(
-    context.lens.segment,
-  )} score${eraPhrase(context.lens)}: ${formatNumber(top.value)} points (${matchupPhrase(
-    top,
-  )}). I am reading the curated Record Book lens, so this uses confirmed era seasons and the segment filter instead of raw imported rows.`;
-}
-
-function answerBestSeason(context: PersonalAgentLeagueQuestionContext): string {
-  const candidates = context.catalog.allTimeStandings
-    .flatMap((row) =>
-      row.bestSeason
-        ? [
-            {
-              personName: row.personName,
-              season: row.bestSeason,
-            },
-          ]
-        : [],
-    )
-    .sort(
-      (left, right) =>
-        right.season.winPercentage - left.season.winPercentage ||
-        right.season.pointsFor - left.season.pointsFor ||
-        left.personName.localeCompare(right.personName),
-    );
-  const top = candidates[0];
-
-  if (!top) {
-    return `I do not have enough curated season rows to name an era-adjusted best season${eraPhrase(
-      context.lens,
-    )}.`;
-  }
-
-  return `${top.personName}'s ${top.season.season} season is the best season${eraPhrase(
-    context.lens,
-  )} in this lens: ${top.season.wins}-${top.season.losses}${
-    top.season.ties ? `-${top.season.ties}` : ""
-  }, ${formatNumber(top.season.pointsFor)} points for, ${formatNumber(
-    top.season.winPercentage * 100,
-    1,
-  )}% win rate. I am comparing the curated season summaries inside the selected era/segment lens.`;
-}
-
-function playoffChokerScore(row: ManagerChampionshipRecord): number {
-  return (
-    row.playoffAppearances * 100 +
-    row.championshipGameLosses * 20 +
-    row.runnerUps * 15 -
-    row.championships * 200 -
-    row.championshipGameWins * 10
-  );
-}
-
-function answerPlayoffChoker(
-  context: PersonalAgentLeagueQuestionContext,
-): string {
-  const rows = context.catalog.championships.managerRecords
-    .filter((row) => row.playoffAppearances > 0)
-    .sort(
-      (left, right) =>
-        playoffChokerScore(right) - playoffChokerScore(left) ||
-        right.playoffAppearances - left.playoffAppearances ||
-        left.personName.localeCompare(right.personName),
-    );
-  const top = rows[0];
-
-  if (!top) {
-    return `The curated playoff ledger does not show enough playoff appearances${eraPhrase(
-      context.lens,
-    )} to call that fairly.`;
-  }
-
-  return `${top.personName} is the strongest data-backed playoff pain candidate${eraPhrase(
-    context.lens,
-  )}: ${top.playoffAppearances} playoff trips, ${top.runnerUps} runner-up finishes, and ${top.championships} championships. That is a records answer, not canon lore; I will not turn it into league mythology unless the league ratifies that claim.`;
-}
-
-function answerChampionships(
-  context: PersonalAgentLeagueQuestionContext,
-): string {
-  const top = context.catalog.championships.managerRecords
-    .filter((row) => row.championships > 0)
-    .sort(
-      (left, right) =>
-        right.championships - left.championships ||
-        right.championshipAppearances - left.championshipAppearances ||
-        left.personName.localeCompare(right.personName),
-    )[0];
-
-  if (!top) {
-    return `The curated championship ledger has no confirmed champion in this lens${eraPhrase(
-      context.lens,
-    )}.`;
-  }
-
-  return `${top.personName} leads the championship ledger${eraPhrase(
-    context.lens,
-  )}: ${top.championships} titles in ${top.championshipAppearances} title-game appearances, with ${top.playoffAppearances} playoff trips.`;
-}
-
-function answerLeagueQuestion(
-  generatedAt: Date,
-  question: string,
-  context: PersonalAgentLeagueQuestionContext,
-): PersonalAgentAnswer {
-  const intent = inferIntent(question);
-  const text =
-    intent === "best_season"
-      ? answerBestSeason(context)
-      : intent === "championships"
-        ? answerChampionships(context)
-        : intent === "playoff_choker"
-          ? answerPlayoffChoker(context)
-          : answerTopScore(context);
-
-  const citations: PersonalAgentCitation[] = [
-    {
-      detail: lensDetail(context.lens),
-      href: `/leagues/${context.leagueId}/records`,
-      label: "Curated Record Book",
-    },
-  ];
-  if (context.lens.grouping) {
-    citations.push({
-      detail: `${context.lens.grouping.name}: ${context.lens.grouping.seasons.join(
-        ", ",
-      )}`,
-      href: `/leagues/${context.leagueId}/records`,
-      label: "Confirmed era grouping",
-    });
-  }
-  citations.push(
-    ...context.canonFacts.slice(0, 2).map((fact) => ({
-      detail: fact,
-      href: `/leagues/${context.leagueId}/lore`,
-      label: "Ratified canon checked",
-    })),
-  );
-
-  return {
-    citations,
-    generatedAt: generatedAt.toISOString(),
-    question,
-    scope: {
-      kind: "league",
-      leagueId: context.leagueId,
-      leagueName: context.leagueName,
-    },
-    suggestions: [
-      "Show me the regular-season version.",
-      "Who owns the best season in this era?",
-      "What canon lore changes this answer?",
-    ],
-    text,
-  };
-}
-
-function selectedGrouping(
-  question: string,
-  groupings: readonly PersonalAgentSeasonGroupingContext[],
-): PersonalAgentSeasonGroupingContext | null {
-  const ordinal = requestedEraOrdinal(question);
-  if (!ordinal) {
-    return null;
-  }
-  return (
-    groupings.find((grouping) => grouping.ordinal === ordinal) ??
-    groupings[ordinal - 1] ??
-    null
-  );
-}
-
-function toAgentGrouping(
-  grouping: RecordsGroupingOption,
-): PersonalAgentSeasonGroupingContext {
-  return {
-    id: grouping.id,
-    name: grouping.name,
-    ordinal: grouping.ordinal,
-    seasons: grouping.seasons,
-  };
-}
-
-export async function loadPersonalAgentLeagueQuestionContext({
-  db,
-  leagueId,
-  question,
-}: PersonalAgentLeagueQuestionContextInput): Promise<PersonalAgentLeagueQuestionContext> {
-  const [league] = await db
-    .select({ name: leagues.name })
-    .from(leagues)
-    .where(eq(leagues.id, leagueId))
-    .limit(1);
-
-  const canonFacts = await withLeagueContext(db, leagueId, async (tx) => {
-    const canonRows = await tx
-      .select({
-        statement: loreClaims.statement,
-        title: loreClaims.title,
-      })
-      .from(loreClaims)
-      .where(
-        and(eq(loreClaims.leagueId, leagueId), eq(loreClaims.status, "canon")),
-      )
-      .orderBy(asc(loreClaims.createdAt))
-      .limit(3);
-
-    return canonRows.map((row) => `${row.title}: ${row.statement}`);
-  });
-
-  const canonContext = await getLeagueCanonRecordsContext(db, {
-    leagueId,
-    limit: 5,
-    resolveLens: (groupings): RecordsLensInput => {
-      const eraGroupings = groupings
-        .filter((grouping) => grouping.kind === "era")
-        .map(toAgentGrouping);
-      const selected = selectedGrouping(question, eraGroupings);
-      return {
-        groupingId: selected?.id ?? null,
-        segment: inferSegment(question),
-      };
-    },
-  });
-  const grouping = canonContext.lens.groupingId
-    ? (canonContext.lens.groupings
-        .filter((option) => option.kind === "era")
-        .map(toAgentGrouping)
-        .find((option) => option.id === canonContext.lens.groupingId) ?? null)
-    : null;
-
-  return {
-    canonFacts,
-    catalog: canonContext.catalog,
-    leagueId,
-    leagueName: league?.name ?? "Current league",
-    lens: {
-      grouping,
-      segment: canonContext.lens.segment,
-    },
-  };
-}
-
 function userAndOpponentSides(
   matchup: YourLeagueMatchup,
 ): { opponent: YourLeagueMatchupSide; user: YourLeagueMatchupSide } | null {
@@ -605,6 +256,181 @@ export async function getPersonalAgentBriefing(
   };
 }
 
+/**
+ * Model turns per question. The last turn is offered no tools, so the agent
+ * always ends with an answer instead of another lookup.
+ */
+const MAX_AGENT_ROUNDS = 4;
+
+const CITATION_MARKER = /\[(r\d+(?:\s*,\s*r\d+)*)\]/gu;
+
+const NO_ANSWER_TEXT =
+  "I could not put together an answer from the league data this time. Try asking it a different way.";
+
+interface AgentLeague {
+  readonly id: string;
+  readonly name: string;
+}
+
+interface AgentRun {
+  readonly messages: PersonalAgentLlmMessage[];
+  readonly refs: Map<string, PersonalAgentCitation>;
+  readonly toolLog: PersonalAgentMessageToolCall[];
+}
+
+async function contextLeagueName(db: Db, leagueId: string): Promise<string> {
+  const [league] = await db
+    .select({ name: leagues.name })
+    .from(leagues)
+    .where(eq(leagues.id, leagueId))
+    .limit(1);
+  return league?.name ?? "Current league";
+}
+
+function personalAgentSystemPrompt(input: {
+  context?: PersonalAgentPageContext;
+  defaultLeagueId: string | null;
+  leagues: readonly AgentLeague[];
+}): string {
+  const leagueLines =
+    input.leagues.length > 0
+      ? input.leagues
+          .map(
+            (league) =>
+              `- ${league.name} (leagueId ${league.id})${
+                league.id === input.defaultLeagueId ? " [current page]" : ""
+              }`,
+          )
+          .join("\n")
+      : "- none connected yet";
+  return [
+    "You are the member's personal Rumbledore agent for their fantasy football leagues.",
+    "Answer only from rows returned by your tools. Every factual sentence ends with the ref of the row it came from, like [r3]. Never invent a ref.",
+    "If the rows do not answer the question, say what is missing instead of guessing.",
+    "Records are data, canon lore is what the league ratified; do not present one as the other.",
+    "Keep answers to a short paragraph in plain language.",
+    "",
+    "Leagues you may read:",
+    leagueLines,
+    input.context?.pathname
+      ? `The member is viewing ${input.context.pathname}${
+          input.context.sectionId ? ` (section ${input.context.sectionId})` : ""
+        }.`
+      : null,
+  ]
+    .filter((line): line is string => line !== null)
+    .join("\n");
+}
+
+function historyMessages(
+  history: PersonalAgentThreadHistory | null,
+): PersonalAgentLlmMessage[] {
+  return (history?.messages ?? []).map((message) => ({
+    content: message.content,
+    role: message.role,
+  }));
+}
+
+async function runToolCall(
+  run: AgentRun,
+  toolContext: PersonalAgentToolContext,
+  call: PersonalAgentToolCall,
+): Promise<PersonalAgentLlmMessage> {
+  try {
+    const result = await runPersonalAgentTool(toolContext, call);
+    const rows = result.rows.map((row) => {
+      const ref = `r${run.refs.size + 1}`;
+      run.refs.set(ref, row.citation);
+      return { ref, summary: row.summary };
+    });
+    run.toolLog.push({
+      input: call.input,
+      name: call.name,
+      refs: rows.map((row) => row.ref),
+    });
+    return {
+      content: JSON.stringify({
+        leagueId: result.leagueId,
+        leagueName: toolContext.leagues.get(result.leagueId),
+        rows,
+      }),
+      role: "tool",
+      toolCallId: call.id,
+    };
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      throw error;
+    }
+    run.toolLog.push({ input: call.input, name: call.name, refs: [] });
+    return {
+      content: JSON.stringify({ error: error.message }),
+      isError: true,
+      role: "tool",
+      toolCallId: call.id,
+    };
+  }
+}
+
+/**
+ * Pulls `[r1]`-style markers out of the model's text: known refs become the
+ * answer's citations (first mention first), and every marker is dropped from
+ * the prose the member reads.
+ */
+function citedAnswer(
+  text: string,
+  refs: ReadonlyMap<string, PersonalAgentCitation>,
+): { citations: PersonalAgentCitation[]; text: string } {
+  const cited = new Map<string, PersonalAgentCitation>();
+  for (const match of text.matchAll(CITATION_MARKER)) {
+    for (const ref of (match[1] ?? "").split(",")) {
+      const citation = refs.get(ref.trim());
+      if (citation && !cited.has(ref.trim())) {
+        cited.set(ref.trim(), citation);
+      }
+    }
+  }
+  return {
+    citations: [...cited.values()],
+    text: text
+      .replace(CITATION_MARKER, "")
+      .replace(/[ \t]+([.,;:!?])/gu, "$1")
+      .replace(/[ \t]{2,}/gu, " ")
+      .trim(),
+  };
+}
+
+async function meterTurn(
+  recordUsage: (event: RecordAiUsageEventInput) => Promise<unknown>,
+  input: {
+    leagueId: string | null;
+    round: number;
+    threadId: string;
+    turn: PersonalAgentLlmTurn;
+  },
+): Promise<void> {
+  // Usage is attributed to the league whose data the agent was asked about;
+  // a member with no league has nothing to bill against yet.
+  if (!input.leagueId) {
+    return;
+  }
+  await recordUsage({
+    contentType: "personal_agent",
+    estimated: input.turn.estimated ?? false,
+    leagueId: input.leagueId,
+    metadata: {
+      round: input.round,
+      threadId: input.threadId,
+      toolCalls: input.turn.toolCalls.map((call) => call.name),
+    },
+    model: input.turn.model,
+    operation: "llm.personal_agent",
+    persona: "analyst",
+    provider: input.turn.provider,
+    triggerKey: `personal-agent:${input.threadId}`,
+    usage: input.turn.usage,
+  });
+}
+
 export async function getPersonalAgentAnswer(
   input: PersonalAgentAnswerInput,
 ): Promise<PersonalAgentAnswerResult> {
@@ -625,79 +451,141 @@ export async function getPersonalAgentAnswer(
     };
   }
 
-  if (input.context?.leagueId) {
-    const loadLeagueQuestionContext =
-      input.loadLeagueQuestionContext ?? loadPersonalAgentLeagueQuestionContext;
-    const leagueContext = await loadLeagueQuestionContext({
-      db: input.db,
-      leagueId: input.context.leagueId,
-      question,
+  const threads = input.threads ?? createPersonalAgentThreadStore(input.db);
+  const recordUsage =
+    input.recordUsage ??
+    ((event: RecordAiUsageEventInput) => recordAiUsageEvent(input.db, event));
+  const history = input.threadId
+    ? await threads.load({ threadId: input.threadId, userId: input.userId })
+    : null;
+  const threadId = history?.id ?? randomUUID();
+
+  const loadLandingData = input.loadLandingData ?? getYourLeaguesLandingData;
+  const landing = await loadLandingData(input.db, { userId: input.userId });
+  const agentLeagues: AgentLeague[] = landing.leagues
+    .slice(0, entitlement.caps.individualLeaguesCovered)
+    .map((league) => ({ id: league.leagueId, name: league.name }));
+  const pageLeagueId = input.context?.leagueId ?? null;
+  if (
+    pageLeagueId &&
+    !agentLeagues.some((league) => league.id === pageLeagueId)
+  ) {
+    agentLeagues.unshift({
+      id: pageLeagueId,
+      name: await contextLeagueName(input.db, pageLeagueId),
     });
-    const answer = answerLeagueQuestion(generatedAt, question, leagueContext);
-    return {
-      answer: {
-        ...answer,
-        scope: {
-          ...answer.scope,
-          pathname: input.context.pathname,
-          sectionId: input.context.sectionId,
-        },
-      },
-      entitlement,
-      status: "ready",
-    };
   }
+  const defaultLeagueId =
+    pageLeagueId ??
+    history?.leagueId ??
+    (agentLeagues.length === 1 ? (agentLeagues[0]?.id ?? null) : null);
 
-  const briefing = await getPersonalAgentBriefing({
+  const toolContext: PersonalAgentToolContext = {
     db: input.db,
-    env: input.env,
-    loadLandingData: input.loadLandingData,
-    now: input.now,
+    defaultLeagueId,
+    leagues: new Map(agentLeagues.map((league) => [league.id, league.name])),
+    loadLeagueQuestionContext: input.loadLeagueQuestionContext,
+    now: generatedAt,
     userId: input.userId,
+  };
+  const system = personalAgentSystemPrompt({
+    context: input.context,
+    defaultLeagueId,
+    leagues: agentLeagues,
   });
+  const tools = personalAgentToolSpecs();
+  const run: AgentRun = {
+    messages: [
+      ...historyMessages(history),
+      { content: question, role: "user" },
+    ],
+    refs: new Map(),
+    toolLog: [],
+  };
+  const meteredLeagueId = defaultLeagueId ?? agentLeagues[0]?.id ?? null;
+
+  let finalText = "";
+  for (let round = 1; round <= MAX_AGENT_ROUNDS; round += 1) {
+    const lastRound = round === MAX_AGENT_ROUNDS;
+    const turn = await input.llm.respond({
+      messages: [...run.messages],
+      system,
+      tools: lastRound ? [] : tools,
+      userId: input.userId,
+    });
+    await meterTurn(recordUsage, {
+      leagueId: meteredLeagueId,
+      round,
+      threadId,
+      turn,
+    });
 
-  if (briefing.status === "blocked") {
-    return briefing;
-  }
+    if (turn.toolCalls.length === 0 || lastRound) {
+      finalText = turn.text;
+      break;
+    }
 
-  const covered = briefing.briefing.leagues;
-  const leagueList = covered
-    .slice(0, 3)
-    .map((league) => league.name)
-    .join(", ");
-  const capped = briefing.briefing.capped
-    ? ` I am showing the first ${briefing.briefing.leagueLimit} leagues by recency.`
-    : "";
+    run.messages.push({
+      content: turn.text,
+      role: "assistant",
+      toolCalls: turn.toolCalls,
+    });
+    for (const call of turn.toolCalls) {
+      run.messages.push(await runToolCall(run, toolContext, call));
+    }
+  }
 
-  return {
+  const cited = citedAnswer(finalText, run.refs);
+  const text = cited.text || NO_ANSWER_TEXT;
+  await threads.append({
     answer: {
-      citations: [
-        {
-          detail: `${briefing.briefing.coveredLeagueCount} covered of ${briefing.briefing.totalLeagueCount} connected leagues`,
-          href: "/you",
-          label: "Personal briefing",
-        },
-      ],
-      generatedAt: generatedAt.toISOString(),
-      question,
-      scope: {
+      citations: cited.citations,
+      text,
+      toolCalls: run.toolLog,
+    },
+    at: generatedAt,
+    leagueId: history ? history.leagueId : pageLeagueId,
+    question,
+    threadId,
+    userId: input.userId,
+  });
+
+  const scope: PersonalAgentAnswerScope = pageLeagueId
+    ? {
+        kind: "league",
+        leagueId: pageLeagueId,
+        leagueName: toolContext.leagues.get(pageLeagueId) ?? "Current league",
+        pathname: input.context?.pathname,
+        sectionId: input.context?.sectionId,
+      }
+    : {
         kind: "global",
         pathname: input.context?.pathname,
         scope:
           input.context?.scope === "league" ? undefined : input.context?.scope,
         sectionId: input.context?.sectionId,
-      },
-      suggestions: [
-        "Open a league and ask about playoff records.",
-        "Which league needs attention this week?",
-        "Show my current matchups.",
-      ],
-      text:
-        covered.length > 0
-          ? `I am scoped across your personal league set: ${leagueList}.${
-              covered.length > 3 ? " and more." : ""
-            }${capped} Open a league page when you want me to reason over that league's curated era-aware records.`
-          : "I do not see a connected league yet. Connect or import a league, then I can reason over its curated records, canon lore, and current page context.",
+      };
+
+  return {
+    answer: {
+      citations: cited.citations,
+      generatedAt: generatedAt.toISOString(),
+      question,
+      scope,
+      suggestions:
+        scope.kind === "league"
+          ? [
+              "Who owns the best season in this era?",
+              "Who leads the all-time head-to-head here?",
+              "What canon lore changes this answer?",
+            ]
+          : [
+              "Which league needs attention this week?",
+              "Show my current matchups.",
+              "Open a league and ask about playoff records.",
+            ],
+      text,
+      threadId,
     },
     entitlement,
     status: "ready",
@@ -1,11 +1,10 @@
 import type { CanonCatalog, RecordsCatalog } from "@/stats";
-import type { PersonalAgentLeagueQuestionContext } from "./personal-agent";
+import type { PersonalAgentLeagueQuestionContext } from "./personal-agent-tools";
 
 declare const canonCatalog: CanonCatalog;
 declare const liveCatalog: RecordsCatalog;
 
 const canonContext: PersonalAgentLeagueQuestionContext = {
-  canonFacts: [],
   catalog: canonCatalog,
   leagueId: "league-canon",
   leagueName: "Canon League",
@@ -13,7 +12,6 @@ const canonContext: PersonalAgentLeagueQuestionContext = {
 };
 
 const liveContext: PersonalAgentLeagueQuestionContext = {
-  canonFacts: [],
   // @ts-expect-error live records catalogs must not satisfy the CanonCatalog brand
   catalog: liveCatalog,
   leagueId: "league-live",
@@ -293,6 +293,14 @@ class RecordingWebhookDeliverer implements WebhookDeliverer {
     this.deliveries.push(input);
     return { delivered: 1, failed: 0, skipped: 0 };
   }
+
+  async deliverLeagueEvent(): Promise<{
+    delivered: number;
+    failed: number;
+    skipped: number;
+  }> {
+    return { delivered: 0, failed: 0, skipped: 0 };
+  }
 }
 
 class PassingLlmJudge implements LlmJudge {
@@ -64,7 +64,15 @@ import {
   REALTIME_EVENTS,
   type RealtimePublisher,
 } from "@/realtime";
-import { RECORD_TYPE_LABELS, type RecordType } from "@/stats";
+import {
+  allTimeRecordLabel,
+  type DraftPickGrade,
+  formatScheduleLuckRecord,
+  loadDraftRetrospective,
+  loadPlayoffOdds,
+  loadScheduleLuck,
+  loadTradeLedger,
+} from "@/stats";
 import { MockWebhookDeliverer, type WebhookDeliverer } from "@/webhooks";
 import {
   blogDraftMetadata,
@@ -92,6 +100,8 @@ import type {
   LeagueContextCanonLore,
   LeagueContextCorrection,
   LeagueContextDisputedLore,
+  LeagueContextDraftGrades,
+  LeagueContextDraftPick,
   LeagueContextGeneralNfl,
   LeagueContextGeneralNflPlayerFact,
   LeagueContextInstigation,
@@ -103,10 +113,13 @@ import type {
   LeagueContextPendingLore,
   LeagueContextPerson,
   LeagueContextPlayerProjection,
+  LeagueContextPlayoffOdds,
   LeagueContextPoll,
   LeagueContextRefutedLore,
   LeagueContextRivalry,
+  LeagueContextScheduleLuck,
   LeagueContextTeam,
+  LeagueContextTrade,
   LeagueContextTrigger,
   LeagueContextWaivers,
   LeaguePersonaCard,
@@ -438,9 +451,15 @@ async function generateAttributedDraft({
 }
 
 type TriggerContextTarget =
+  | {
+      kind: "draft_grades";
+      season: number;
+      throughScoringPeriod: number | null;
+    }
   | { kind: "instigation"; id: string }
   | { kind: "poll"; id: string }
-  | { kind: "claim"; id: string };
+  | { kind: "claim"; id: string }
+  | { kind: "transaction"; id: string };
 
 const NFL_PHASES = [
   "offseason",
@@ -475,9 +494,36 @@ function parseTriggerContextTarget(
       kind: "claim",
     };
   }
+  if (triggerKey.startsWith("transaction:")) {
+    return {
+      id: triggerKey.slice("transaction:".length),
+      kind: "transaction",
+    };
+  }
+  if (triggerKey.startsWith("draft-grades:")) {
+    return draftGradesTargetFromKey(triggerKey);
+  }
   return null;
 }
 
+/** `draft-grades:<season>:week-<n>` or `draft-grades:<season>:final`. */
+function draftGradesTargetFromKey(
+  triggerKey: string,
+): TriggerContextTarget | null {
+  const [, seasonPart, checkpoint] = triggerKey.split(":");
+  const season = Number(seasonPart);
+  if (!Number.isInteger(season) || season <= 0) {
+    return null;
+  }
+  if (checkpoint === "final") {
+    return { kind: "draft_grades", season, throughScoringPeriod: null };
+  }
+  const week = Number(checkpoint?.replace(/^week-/, ""));
+  return checkpoint?.startsWith("week-") && Number.isInteger(week) && week > 0
+    ? { kind: "draft_grades", season, throughScoringPeriod: week }
+    : null;
+}
+
 function triggerTargetIdFromKey(prefix: string, triggerKey: string): string {
   const rest = triggerKey.slice(`${prefix}:`.length);
   const parts = rest.split(":");
@@ -532,7 +578,11 @@ function stakesForFrame({
   if (cadence === "offseason-beat") {
     return ["quiet_week"];
   }
-  if (event === "bet.settled" || event === "arena.standings.swing") {
+  if (
+    event === "bet.settled" ||
+    event === "arena.standings.swing" ||
+    event === "arena.division.moved"
+  ) {
     return ["arena_movement"];
   }
   return [];
@@ -641,6 +691,16 @@ function parseTriggerCadenceFrame(
       prefix: "arena-swing",
       triggerKey,
     }) ??
+    parseFramedReactiveKey({
+      event: "arena.division.moved",
+      prefix: "arena-division",
+      triggerKey,
+    }) ??
+    parseFramedReactiveKey({
+      event: "pool.eliminated",
+      prefix: "pool-eliminated",
+      triggerKey,
+    }) ??
     null
   );
 }
@@ -663,13 +723,6 @@ function managerNamesFor(
   return names.length > 0 ? names : ["Unknown manager"];
 }
 
-function recordLabel(recordType: string): string {
-  return (
-    RECORD_TYPE_LABELS[recordType as RecordType] ??
-    recordType.replaceAll("_", " ")
-  );
-}
-
 function maxPriorSimilarity(
   embedding: readonly number[],
   memories: readonly LeagueContextMemory[],
@@ -825,6 +878,7 @@ function stableAuthenticityFacts(context: LeagueBlogContext) {
 function emptyArenaContext(): LeagueContextArena {
   return {
     computedAt: null,
+    division: null,
     fieldLeader: null,
     headToHead: null,
     leagueStanding: null,
@@ -1567,9 +1621,25 @@ async function loadArenaContext({
         rival: arenaStandingFromHeadToHeadLeague(data.headToHead.rival),
       }
     : null;
+  const division = data.divisions.find((candidate) =>
+    candidate.rows.some((row) => row.id === leagueId),
+  );
+  const divisionRow = division?.rows.find((row) => row.id === leagueId);
 
   return {
     computedAt: data.computedAt,
+    division:
+      division && divisionRow
+        ? {
+            divisionRank: divisionRow.divisionRank,
+            movement: divisionRow.movement,
+            name: division.name,
+            previousTier: divisionRow.previousTier,
+            size: division.rows.length,
+            tier: division.tier,
+            zone: divisionRow.zone,
+          }
+        : null,
     fieldLeader: topLeagueStandings[0] ?? null,
     headToHead,
     leagueStanding:
@@ -2103,6 +2173,7 @@ export function buildPromptParts({
     editorialRecall: context.preGenerationContext,
     generalNflContext: context.generalNfl,
     matchups: context.matchups ?? [],
+    playoffOdds: context.playoffOdds ?? [],
     priorPosts: context.preGenerationContext
       ? []
       : context.priorPosts.map((post) => ({
@@ -2110,6 +2181,7 @@ export function buildPromptParts({
           summary: post.summary,
           title: post.title,
         })),
+    scheduleLuck: context.scheduleLuck ?? [],
     trigger: context.trigger,
     triggerKey,
     untrustedLeagueLore: leagueLoreBlock(context),
@@ -2286,6 +2358,101 @@ async function loadPollContext({
   return row ?? null;
 }
 
+async function loadTradeContext({
+  id,
+  leagueId,
+  tx,
+}: {
+  id: string;
+  leagueId: string;
+  tx: LeagueScopedTx;
+}): Promise<LeagueContextTrade | null> {
+  const [entry] = await loadTradeLedger(tx, {
+    fantasyTransactionIds: [id],
+    leagueId,
+  });
+  if (!entry) {
+    return null;
+  }
+  return {
+    id: entry.fantasyTransactionId,
+    margin: entry.margin,
+    scoringPeriod: entry.scoringPeriod,
+    season: entry.season,
+    sides: entry.sides.map((side) => ({
+      acquired: side.acquiredPlayers.map((player) => player.name),
+      points: side.points,
+      team: side.teamName,
+    })),
+    status: entry.status,
+    throughScoringPeriod: entry.throughScoringPeriod,
+    winner: entry.winnerTeamName,
+  };
+}
+
+function draftPickContext(
+  pick: DraftPickGrade | null,
+): LeagueContextDraftPick | null {
+  return pick
+    ? {
+        expectedPoints: pick.expectedPoints,
+        player: pick.playerName,
+        points: pick.points,
+        position: pick.position,
+        round: pick.round,
+      }
+    : null;
+}
+
+async function loadDraftGradesContext({
+  leagueId,
+  season,
+  throughScoringPeriod,
+  tx,
+}: {
+  leagueId: string;
+  season: number;
+  throughScoringPeriod: number | null;
+  tx: LeagueScopedTx;
+}): Promise<LeagueContextDraftGrades | null> {
+  const retrospective = await loadDraftRetrospective(tx, {
+    leagueId,
+    season,
+    throughScoringPeriod,
+  });
+  if (!retrospective) {
+    return null;
+  }
+  const { careers, current } = retrospective;
+  return {
+    baselineSeasons: current.baselineSeasons,
+    checkpoint: throughScoringPeriod === null ? "final" : "in_season",
+    managers: current.managers.map((manager) => ({
+      bestPick: draftPickContext(manager.bestPick),
+      expectedPoints: manager.expectedPoints,
+      grade: manager.grade,
+      pastGrades: (
+        careers.find((career) => career.managerKey === manager.managerKey)
+          ?.seasons ?? []
+      )
+        .filter((row) => row.season !== season)
+        .map((row) => ({
+          grade: row.grade,
+          season: row.season,
+          surplus: row.surplus,
+        }))
+        .reverse(),
+      points: manager.points,
+      rank: manager.rank,
+      surplus: manager.surplus,
+      team: manager.managerName,
+      worstPick: draftPickContext(manager.worstPick),
+    })),
+    season,
+    throughScoringPeriod,
+  };
+}
+
 async function loadLoreClaimContext({
   id,
   leagueId,
@@ -2440,6 +2607,25 @@ async function loadTriggerContext({
     return empty;
   }
 
+  if (target.kind === "transaction") {
+    const trade = await loadTradeContext({
+      id: target.id,
+      leagueId: input.leagueId,
+      tx,
+    });
+    return { ...empty, trade };
+  }
+
+  if (target.kind === "draft_grades") {
+    const draftGrades = await loadDraftGradesContext({
+      leagueId: input.leagueId,
+      season: target.season,
+      throughScoringPeriod: target.throughScoringPeriod,
+      tx,
+    });
+    return { ...empty, draftGrades };
+  }
+
   if (target.kind === "instigation") {
     const instigation = await loadInstigationContext({
       id: target.id,
@@ -2746,6 +2932,36 @@ async function prepareGeneration({
     tx,
   });
 
+  const teamNamesByProviderId = new Map(
+    teamRows.map((team) => [team.providerTeamId, team.name]),
+  );
+  const playoffOdds: LeagueContextPlayoffOdds[] = (
+    await loadPlayoffOdds(tx, {
+      leagueId: input.leagueId,
+      season: league.season,
+    })
+  ).flatMap((odds) => {
+    const team = teamNamesByProviderId.get(odds.providerTeamId);
+    return team
+      ? [
+          {
+            asOfScoringPeriod: odds.asOfScoringPeriod,
+            byeOdds: odds.byeOdds,
+            clinchedBye: odds.clinchedBye,
+            clinchedDivision: odds.clinchedDivision,
+            clinchedPlayoff: odds.clinchedPlayoff,
+            eliminated: odds.eliminated,
+            lastPlaceOdds: odds.lastPlaceOdds,
+            playoffOdds: odds.playoffOdds,
+            playoffOddsDelta: odds.delta?.playoffOdds ?? null,
+            team,
+            titleOdds: odds.titleOdds,
+            titleOddsDelta: odds.delta?.titleOdds ?? null,
+          },
+        ]
+      : [];
+  });
+
   const unresolvedIntegrityFailures = await tx
     .select({ id: dataIntegrityChecks.id })
     .from(dataIntegrityChecks)
@@ -2765,6 +2981,7 @@ async function prepareGeneration({
           .select({
             holderPersonId: allTimeRecords.holderPersonId,
             id: allTimeRecords.id,
+            metadata: allTimeRecords.metadata,
             previousRecordId: allTimeRecords.previousRecordId,
             recordType: allTimeRecords.recordType,
             scoringPeriod: allTimeRecords.scoringPeriod,
@@ -2787,6 +3004,7 @@ async function prepareGeneration({
           .select({
             holderPersonId: allTimeRecords.holderPersonId,
             id: allTimeRecords.id,
+            metadata: allTimeRecords.metadata,
             previousRecordId: allTimeRecords.previousRecordId,
             recordType: allTimeRecords.recordType,
             scoringPeriod: allTimeRecords.scoringPeriod,
@@ -2915,6 +3133,30 @@ async function prepareGeneration({
   const personNamesById = new Map(
     allPersonRows.map((person) => [person.id, person.canonicalName]),
   );
+  const seasonLuck = await loadScheduleLuck(tx, {
+    leagueId: input.leagueId,
+    season: league.season,
+  });
+  const scheduleLuck: LeagueContextScheduleLuck[] = (
+    seasonLuck?.standings ?? []
+  ).flatMap((standing) => {
+    const manager = personNamesById.get(standing.personId);
+    return manager
+      ? [
+          {
+            actualRecord: formatScheduleLuckRecord(standing.actual),
+            allPlayRecord: formatScheduleLuckRecord(standing.allPlay),
+            expectedWins: standing.expectedWins,
+            luck: standing.luck,
+            manager,
+            medianRecord: formatScheduleLuckRecord(standing.medianStandings),
+            ref: `schedule-luck:${league.season}:${standing.personId}`,
+            scheduleSwapAverageWins: standing.scheduleSwapAverageWins,
+            season: league.season,
+          },
+        ]
+      : [];
+  });
 
   const canonRows = await tx
     .select({
@@ -3048,7 +3290,7 @@ async function prepareGeneration({
         ? (personNamesById.get(record.holderPersonId) ?? null)
         : null,
       id: record.id,
-      label: recordLabel(record.recordType),
+      label: allTimeRecordLabel(record.recordType, record.metadata),
       previousHolderName: previous?.holderPersonId
         ? (personNamesById.get(previous.holderPersonId) ?? null)
         : null,
@@ -3159,9 +3401,11 @@ async function prepareGeneration({
       matchups: columnContext.matchups,
       memory,
       persona,
+      playoffOdds,
       preGenerationContext: null,
       priorPosts,
       records,
+      scheduleLuck,
       teams,
       trigger,
       waivers: columnContext.waivers,
@@ -14,6 +14,7 @@ function contextFixture(): LeagueBlogContext {
   return {
     arena: {
       computedAt: null,
+      division: null,
       fieldLeader: null,
       headToHead: null,
       leagueStanding: null,
@@ -26,6 +26,7 @@ import {
   AnthropicLlmClient,
   AnthropicLlmJudge,
   type AnthropicMessagesClient,
+  AnthropicPersonalAgentLlmClient,
   anthropicModelForTier,
   OpenAiCompatibleLlmClient,
   TavilyWebGrounding,
@@ -68,6 +69,7 @@ function requestFor(
       },
       arena: {
         computedAt: null,
+        division: null,
         fieldLeader: null,
         headToHead: null,
         leagueStanding: null,
@@ -790,6 +792,130 @@ describe("AnthropicLlmJudge", () => {
   });
 });
 
+describe("AnthropicPersonalAgentLlmClient", () => {
+  it("maps agent turns to Anthropic tool_use and tool_result blocks", async () => {
+    const calls: unknown[] = [];
+    const client = {
+      messages: {
+        create: async (params: unknown) => {
+          calls.push(params);
+          return {
+            content: [
+              { text: "Checking the ledger.", type: "text" },
+              {
+                id: "toolu_2",
+                input: { manager: "Riley" },
+                name: "h2h_ledger",
+                type: "tool_use",
+              },
+            ],
+            usage: { input_tokens: 120, output_tokens: 30 },
+          };
+        },
+      },
+    } as unknown as AnthropicMessagesClient;
+    const llm = new AnthropicPersonalAgentLlmClient({
+      apiKey: fakeKey(),
+      client,
+    });
+
+    const turn = await llm.respond({
+      messages: [
+        { content: "Who owns the top score?", role: "user" },
+        {
+          content: "",
+          role: "assistant",
+          toolCalls: [{ id: "toolu_1", input: {}, name: "records_catalog" }],
+        },
+        { content: '{"rows":[]}', role: "tool", toolCallId: "toolu_1" },
+      ],
+      system: "Cite rows.",
+      tools: [
+        {
+          description: "Records",
+          inputSchema: { properties: {}, type: "object" },
+          name: "records_catalog",
+        },
+      ],
+      userId: "user-1",
+    });
+
+    expect(turn).toEqual({
+      model: ANTHROPIC_BULK_MODEL,
+      provider: "anthropic",
+      text: "Checking the ledger.",
+      toolCalls: [
+        { id: "toolu_2", input: { manager: "Riley" }, name: "h2h_ledger" },
+      ],
+      usage: {
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0,
+        inputTokens: 120,
+        outputTokens: 30,
+      },
+    });
+    expect(calls[0]).toMatchObject({
+      messages: [
+        {
+          content: [{ text: "Who owns the top score?", type: "text" }],
+          role: "user",
+        },
+        {
+          content: [
+            {
+              id: "toolu_1",
+              input: {},
+              name: "records_catalog",
+              type: "tool_use",
+            },
+          ],
+          role: "assistant",
+        },
+        {
+          content: [
+            {
+              content: '{"rows":[]}',
+              tool_use_id: "toolu_1",
+              type: "tool_result",
+            },
+          ],
+          role: "user",
+        },
+      ],
+      metadata: { user_id: "user-1" },
+      system: [{ text: "Cite rows.", type: "text" }],
+      tools: [
+        {
+          description: "Records",
+          input_schema: { properties: {}, type: "object" },
+          name: "records_catalog",
+        },
+      ],
+    });
+  });
+
+  it("wraps provider failures so the spend guard can fall back", async () => {
+    const client = {
+      messages: {
+        create: async () => {
+          throw new Error("overloaded");
+        },
+      },
+    } as unknown as AnthropicMessagesClient;
+    const llm = new AnthropicPersonalAgentLlmClient({
+      apiKey: fakeKey(),
+      client,
+    });
+
+    await expect(
+      llm.respond({ messages: [], system: "", tools: [], userId: "user-1" }),
+    ).rejects.toMatchObject({
+      code: "AI_LLM_GENERATION_FAILED",
+      status: 502,
+    } satisfies Partial<AppError>);
+  });
+});
+
 describe("model provider LLM factories", () => {
   it("builds Anthropic-compatible clients with a custom endpoint", () => {
     const llm = createLlmClient({
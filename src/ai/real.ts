@@ -28,6 +28,10 @@ import type {
   LlmJudgeScore,
   LlmUsageBreakdown,
   NewsItem,
+  PersonalAgentLlmClient,
+  PersonalAgentLlmMessage,
+  PersonalAgentLlmRequest,
+  PersonalAgentLlmTurn,
   UsageReportingCentralLlmClient,
   UsageReportingEmbeddingProvider,
   UsageReportingLlmClient,
@@ -258,6 +262,24 @@ const structureSchemas = {
       .max(5),
     type: z.literal("awards_superlatives"),
   }),
+  draft_grades: z.object({
+    bust: z.string().trim().min(1),
+    checkpoint: z.string().trim().min(1),
+    grades: z
+      .array(
+        z.object({
+          bestPick: z.string().trim().min(1),
+          grade: z.string().trim().min(1),
+          rationale: z.string().trim().min(1),
+          team: z.string().trim().min(1),
+          worstPick: z.string().trim().min(1),
+        }),
+      )
+      .min(1),
+    steal: z.string().trim().min(1),
+    trend: z.string().trim().min(1),
+    type: z.literal("draft_grades"),
+  }),
   instigation_column: z.object({
     provocation: z.string().trim().min(1),
     settleItCta: z.string().trim().min(1),
@@ -400,6 +422,13 @@ export interface AnthropicLlmJudgeOptions {
   model?: string;
 }
 
+export interface AnthropicPersonalAgentLlmClientOptions {
+  apiKey: string;
+  baseURL?: string;
+  client?: AnthropicMessagesClient;
+  model?: string;
+}
+
 export type AnthropicUsageBreakdown = LlmUsageBreakdown;
 export type AnthropicGenerateResult = LlmGenerateResult;
 
@@ -897,6 +926,134 @@ export class AnthropicLlmJudge implements UsageReportingLlmJudge {
   }
 }
 
+const PERSONAL_AGENT_MAX_TOKENS = 1024;
+
+type AnthropicMessageParam = Anthropic.Messages.MessageParam;
+type AnthropicToolResultBlockParam = Anthropic.Messages.ToolResultBlockParam;
+
+// Anthropic wants tool results as user turns, with every result for one
+// assistant turn batched into a single message.
+function anthropicPersonalAgentMessages(
+  messages: readonly PersonalAgentLlmMessage[],
+): AnthropicMessageParam[] {
+  const mapped: AnthropicMessageParam[] = [];
+  let pendingResults: AnthropicToolResultBlockParam[] = [];
+  const flushResults = () => {
+    if (pendingResults.length > 0) {
+      mapped.push({ content: pendingResults, role: "user" });
+      pendingResults = [];
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === "tool") {
+      pendingResults.push({
+        content: message.content,
+        ...(message.isError ? { is_error: true } : {}),
+        tool_use_id: message.toolCallId,
+        type: "tool_result",
+      });
+      continue;
+    }
+    flushResults();
+    if (message.role === "user") {
+      mapped.push({
+        content: [{ text: message.content, type: "text" }],
+        role: "user",
+      });
+      continue;
+    }
+    mapped.push({
+      content: [
+        ...(message.content.trim()
+          ? [{ text: message.content, type: "text" as const }]
+          : []),
+        ...(message.toolCalls ?? []).map((call) => ({
+          id: call.id,
+          input: call.input,
+          name: call.name,
+          type: "tool_use" as const,
+        })),
+      ],
+      role: "assistant",
+    });
+  }
+  flushResults();
+  return mapped;
+}
+
+export class AnthropicPersonalAgentLlmClient implements PersonalAgentLlmClient {
+  private readonly client: AnthropicMessagesClient;
+  private readonly model: string;
+
+  constructor(options: AnthropicPersonalAgentLlmClientOptions) {
+    this.client =
+      options.client ??
+      new Anthropic({
+        apiKey: options.apiKey,
+        ...(options.baseURL ? { baseURL: options.baseURL } : {}),
+      });
+    this.model = options.model ?? ANTHROPIC_BULK_MODEL;
+  }
+
+  async respond(
+    request: PersonalAgentLlmRequest,
+  ): Promise<PersonalAgentLlmTurn> {
+    let response: Anthropic.Messages.Message;
+    try {
+      response = await this.client.messages.create({
+        max_tokens: PERSONAL_AGENT_MAX_TOKENS,
+        messages: anthropicPersonalAgentMessages(request.messages),
+        metadata: { user_id: request.userId },
+        model: this.model,
+        system: [{ text: request.system, type: "text" }],
+        tools: request.tools.map((tool) => ({
+          description: tool.description,
+          input_schema: {
+            ...tool.inputSchema,
+            type: "object" as const,
+          },
+          name: tool.name,
+        })),
+      });
+    } catch (cause) {
+      throw new AppError({
+        cause,
+        code: "AI_LLM_GENERATION_FAILED",
+        message: "Anthropic personal agent turn failed",
+        status: 502,
+      });
+    }
+
+    const text = response.content
+      .flatMap((block) => (block.type === "text" ? [block.text] : []))
+      .join("\n")
+      .trim();
+    const toolCalls = response.content.flatMap((block) =>
+      block.type === "tool_use"
+        ? [
+            {
+              id: block.id,
+              input:
+                block.input && typeof block.input === "object"
+                  ? (block.input as Record<string, unknown>)
+                  : {},
+              name: block.name,
+            },
+          ]
+        : [],
+    );
+
+    return {
+      model: this.model,
+      provider: "anthropic",
+      text,
+      toolCalls,
+      usage: usageFromAnthropicResponse(response),
+    };
+  }
+}
+
 interface OpenAiCompatibleUsage {
   completion_tokens?: number;
   prompt_tokens?: number;
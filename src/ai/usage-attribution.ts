@@ -19,14 +19,21 @@ const DEFAULT_WEEK_LIMIT = 12;
 const DEFAULT_RECENT_CALL_LIMIT = 25;
 const MAX_RECENT_CALL_LIMIT = 100;
 
+/**
+ * League-attributed calls that are not blog generation. The personal agent
+ * bills to the league whose data it read.
+ */
+export type AiUsageAuxiliaryContentType = "personal_agent";
+
 export interface RecordAiUsageEventInput {
-  readonly contentType: AiContentType;
+  readonly contentType: AiContentType | AiUsageAuxiliaryContentType;
   readonly createdAt?: Date;
   readonly estimated: boolean;
   readonly generationRunId?: string | null;
   readonly leagueId: string;
   readonly metadata?: Record<string, unknown>;
   readonly model: string;
+  readonly operation?: string;
   readonly persona: AiPersona;
   readonly provider: string;
   readonly triggerKey: string;
@@ -270,6 +277,7 @@ export async function recordAiUsageEvent(
         leagueId: input.leagueId,
         metadata: input.metadata ?? {},
         model: input.model,
+        ...(input.operation ? { operation: input.operation } : {}),
         outputTokens: nonnegativeInt(input.usage.outputTokens),
         persona: input.persona,
         provider: input.provider,
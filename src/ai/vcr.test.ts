@@ -39,6 +39,7 @@ function requestFor(
       },
       arena: {
         computedAt: null,
+        division: null,
         fieldLeader: null,
         headToHead: null,
         leagueStanding: null,
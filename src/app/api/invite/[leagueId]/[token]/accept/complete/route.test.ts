@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AppError, err, ok } from "@/core/result";
+import { GET } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  completeLeagueInviteAccountClaim: vi.fn(),
+  db: {},
+  requireSession: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireSession: mocks.requireSession,
+}));
+
+vi.mock("@/onboarding/invites", () => ({
+  completeLeagueInviteAccountClaim: mocks.completeLeagueInviteAccountClaim,
+}));
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const claimId = "00000000-0000-4000-8000-000000000003";
+const userId = "00000000-0000-4000-8000-000000000002";
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId, token: "invite-token" }) };
+}
+
+function request(): Request {
+  return new Request(
+    `https://rumbledore.test/api/invite/${leagueId}/invite-token/accept/complete?claim=${claimId}`,
+  );
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("GET /api/invite/[leagueId]/[token]/accept/complete", () => {
+  it("finishes the claim for the verified session and opens the league", async () => {
+    mocks.requireSession.mockResolvedValue(
+      ok({ session: { user: { id: userId } }, userId }),
+    );
+    mocks.completeLeagueInviteAccountClaim.mockResolvedValue(
+      ok({ league: { id: leagueId } }),
+    );
+
+    const response = await GET(request(), routeContext());
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe(
+      `https://rumbledore.test/leagues/${leagueId}`,
+    );
+    expect(mocks.completeLeagueInviteAccountClaim).toHaveBeenCalledWith(
+      { db: mocks.db },
+      { claimId, leagueId, token: "invite-token", userId },
+    );
+  });
+
+  it("sends a failed claim back to the invite with its error code", async () => {
+    mocks.requireSession.mockResolvedValue(
+      ok({ session: { user: { id: userId } }, userId }),
+    );
+    mocks.completeLeagueInviteAccountClaim.mockResolvedValue(
+      err(
+        new AppError({
+          code: "LEAGUE_INVITE_PENDING_CLAIM_EMAIL_MISMATCH",
+          message: "Sign in with the email this invite was claimed with.",
+          status: 403,
+        }),
+      ),
+    );
+
+    const response = await GET(request(), routeContext());
+
+    expect(response.headers.get("location")).toBe(
+      `https://rumbledore.test/invite/${leagueId}/invite-token?error=LEAGUE_INVITE_PENDING_CLAIM_EMAIL_MISMATCH`,
+    );
+  });
+
+  it("does not finish a claim without a session", async () => {
+    mocks.requireSession.mockResolvedValue(
+      err(
+        new AppError({
+          code: "UNAUTHORIZED",
+          message: "Sign in required",
+          status: 401,
+        }),
+      ),
+    );
+
+    const response = await GET(request(), routeContext());
+
+    expect(response.headers.get("location")).toBe(
+      `https://rumbledore.test/invite/${leagueId}/invite-token?error=UNAUTHORIZED`,
+    );
+    expect(mocks.completeLeagueInviteAccountClaim).not.toHaveBeenCalled();
+  });
+});
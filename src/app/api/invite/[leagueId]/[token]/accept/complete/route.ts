@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { recordApiHandler } from "@/core/metrics";
+import { getDb } from "@/db";
+import { requireUserId } from "@/onboarding/http";
+import { completeLeagueInviteAccountClaim } from "@/onboarding/invites";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface InviteClaimCompleteRouteContext {
+  params: Promise<{ leagueId: string; token: string }>;
+}
+
+function redirectToInvite(
+  request: Request,
+  input: { errorCode: string; leagueId: string; token: string },
+) {
+  const url = new URL(
+    `/invite/${encodeURIComponent(input.leagueId)}/${encodeURIComponent(input.token)}`,
+    request.url,
+  );
+  url.searchParams.set("error", input.errorCode);
+  return NextResponse.redirect(url);
+}
+
+/**
+ * Magic-link landing for a signed-out invite claim. Better Auth has already
+ * verified the email and signed the invitee in, so the pending claim can be
+ * finished for this session; any failure goes back to the invite page with
+ * the error code.
+ */
+async function inviteClaimCompleteGet(
+  request: Request,
+  context: InviteClaimCompleteRouteContext,
+) {
+  const { leagueId, token } = await context.params;
+  const userId = await requireUserId(request);
+  if (!userId.ok) {
+    return redirectToInvite(request, {
+      errorCode: userId.error.code,
+      leagueId,
+      token,
+    });
+  }
+
+  const result = await completeLeagueInviteAccountClaim(
+    { db: getDb() },
+    {
+      claimId: new URL(request.url).searchParams.get("claim") ?? "",
+      leagueId,
+      token,
+      userId: userId.value,
+    },
+  );
+  if (!result.ok) {
+    return redirectToInvite(request, {
+      errorCode: result.error.code,
+      leagueId,
+      token,
+    });
+  }
+
+  return NextResponse.redirect(
+    new URL(`/leagues/${result.value.league.id}`, request.url),
+  );
+}
+
+export const GET = recordApiHandler(
+  { method: "GET", route: "/api/invite/[leagueId]/[token]/accept/complete" },
+  inviteClaimCompleteGet,
+);
@@ -1,4 +1,7 @@
+import { createHash } from "node:crypto";
 import { z } from "zod";
+import { getAuth } from "@/auth";
+import { logger } from "@/core/logging";
 import { recordApiHandler } from "@/core/metrics";
 import { enforceApiRateLimit } from "@/core/rate-limit";
 import { AppError } from "@/core/result";
@@ -10,7 +13,11 @@ import {
   requireUserId,
   resultJson,
 } from "@/onboarding/http";
-import { acceptLeagueInvite } from "@/onboarding/invites";
+import {
+  acceptLeagueInvite,
+  type LeagueInviteNewAccount,
+  requestLeagueInviteAccountClaim,
+} from "@/onboarding/invites";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -20,10 +27,73 @@ const RATE_LIMIT_RETRY_AFTER_SECONDS = "60";
 
 const acceptInviteSchema = z
   .object({
+    // Signed-out invitees claim with a new passwordless account.
+    account: z
+      .object({
+        displayName: z.string().trim().min(1).max(80),
+        email: z.email().max(320),
+      })
+      .strict()
+      .optional(),
     providerMemberId: z.string().trim().min(1).max(256).optional(),
   })
   .strict();
 
+function rateLimitedResponse(): Response {
+  return Response.json(
+    {
+      error: {
+        code: "RATE_LIMITED",
+        message: "Too many invite accept attempts. Try again shortly.",
+      },
+    },
+    {
+      headers: { "Retry-After": RATE_LIMIT_RETRY_AFTER_SECONDS },
+      status: 429,
+    },
+  );
+}
+
+/**
+ * Signed-out claims have no user to key the bucket on, so they share one per
+ * invite link. The token is hashed so it never reaches the counter key.
+ */
+function inviteRateLimitSubject(leagueId: string, token: string): string {
+  return createHash("sha256").update(`${leagueId}:${token}`).digest("hex");
+}
+
+/**
+ * Emails the magic link that proves the invitee owns the address. Better Auth
+ * creates the verified account when the link is opened and lands on the
+ * complete route, which finishes the pending claim. Nothing is claimed if
+ * delivery fails; the invitee claims again from the invite page.
+ */
+async function sendClaimLink(
+  request: Request,
+  input: {
+    account: LeagueInviteNewAccount;
+    completeUrl: string;
+    inviteUrl: string;
+  },
+): Promise<boolean> {
+  try {
+    await getAuth().api.signInMagicLink({
+      body: {
+        callbackURL: input.completeUrl,
+        email: input.account.email,
+        errorCallbackURL: input.inviteUrl,
+        name: input.account.displayName,
+        newUserCallbackURL: input.completeUrl,
+      },
+      headers: request.headers,
+    });
+    return true;
+  } catch (error) {
+    logger.warn("invite_accept_magic_link_failed", { error });
+    return false;
+  }
+}
+
 interface InviteAcceptRouteContext {
   params: Promise<{ leagueId: string; token: string }>;
 }
@@ -32,31 +102,6 @@ async function inviteAcceptPost(
   request: Request,
   context: InviteAcceptRouteContext,
 ) {
-  const userId = await requireUserId(request);
-  if (!userId.ok) {
-    return errorJson(userId.error);
-  }
-  const limit = await enforceApiRateLimit({
-    max: 10,
-    scope: "invite-accept",
-    subject: userId.value,
-    windowSeconds: 60,
-  });
-  if (!limit.allowed) {
-    return Response.json(
-      {
-        error: {
-          code: "RATE_LIMITED",
-          message: "Too many invite accept attempts. Try again shortly.",
-        },
-      },
-      {
-        headers: { "Retry-After": RATE_LIMIT_RETRY_AFTER_SECONDS },
-        status: 429,
-      },
-    );
-  }
-
   const { leagueId, token } = await context.params;
   const body = await readJsonBody(request, MAX_ACCEPT_BODY_BYTES);
   if (!body.ok) {
@@ -74,13 +119,70 @@ async function inviteAcceptPost(
     );
   }
 
+  // A signed-in member always claims as themselves; the account fields only
+  // matter when there is no session.
+  const userId = await requireUserId(request);
+  const account = parsed.data.account;
+  let claimant:
+    | { userId: string }
+    | { newAccount: NonNullable<typeof account> };
+  if (userId.ok) {
+    claimant = { userId: userId.value };
+  } else if (account) {
+    claimant = { newAccount: account };
+  } else {
+    return errorJson(userId.error);
+  }
+
+  const limit = await enforceApiRateLimit(
+    "userId" in claimant
+      ? {
+          max: 10,
+          scope: "invite-accept",
+          subject: claimant.userId,
+          windowSeconds: 60,
+        }
+      : {
+          max: 5,
+          scope: "invite-accept-new-account",
+          subject: inviteRateLimitSubject(leagueId, token),
+          windowSeconds: 600,
+        },
+  );
+  if (!limit.allowed) {
+    return rateLimitedResponse();
+  }
+
+  if ("newAccount" in claimant) {
+    const pending = await requestLeagueInviteAccountClaim(
+      { db: getDb() },
+      {
+        leagueId,
+        newAccount: claimant.newAccount,
+        providerMemberId: parsed.data.providerMemberId,
+        token,
+      },
+    );
+    if (!pending.ok) {
+      return resultJson(pending);
+    }
+
+    const invitePath = `/invite/${leagueId}/${token}`;
+    const magicLinkSent = await sendClaimLink(request, {
+      account: claimant.newAccount,
+      completeUrl: `/api${invitePath}/accept/complete?claim=${pending.value.claimId}`,
+      inviteUrl: invitePath,
+    });
+    return okJson({ ...pending.value, magicLinkSent });
+  }
+
   const result = await acceptLeagueInvite(
     { db: getDb() },
     {
       leagueId,
       providerMemberId: parsed.data.providerMemberId,
       token,
-      userId: userId.value,
+      userId: claimant.userId,
     },
   );
 
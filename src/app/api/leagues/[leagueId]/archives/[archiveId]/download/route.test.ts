@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { archiveDownloadPath } from "@/archive/download-link";
+import { GET } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  getEnv: vi.fn(),
+  loadLeagueArchiveDocument: vi.fn(),
+}));
+
+vi.mock("@/core/env", () => ({
+  getEnv: mocks.getEnv,
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+vi.mock("@/archive", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/archive")>();
+  return {
+    ...actual,
+    loadLeagueArchiveDocument: mocks.loadLeagueArchiveDocument,
+  };
+});
+
+const secret = "archive-download-test-secret";
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const archiveId = "00000000-0000-4000-8000-0000000000a1";
+
+function routeContext() {
+  return { params: Promise.resolve({ archiveId, leagueId }) };
+}
+
+function request(path: string): Request {
+  return new Request(`https://rumbledore.test${path}`);
+}
+
+beforeEach(() => {
+  mocks.getEnv.mockReturnValue({ auth: { secret } });
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("GET /api/leagues/[leagueId]/archives/[archiveId]/download", () => {
+  it("serves a ready archive to a signed link as a named attachment", async () => {
+    const archive = {
+      format: "rumbledore.league-archive",
+      league: { name: "Rumble League!" },
+    };
+    mocks.loadLeagueArchiveDocument.mockResolvedValue({
+      archive,
+      createdAt: new Date("2026-10-01T12:00:00.000Z"),
+    });
+
+    const response = await GET(
+      request(
+        archiveDownloadPath({ archiveId, leagueId, now: new Date() }, secret),
+      ),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="rumble-league-archive-2026-10-01.json"',
+    );
+    expect(response.headers.get("Cache-Control")).toBe("private, no-store");
+    await expect(response.json()).resolves.toEqual(archive);
+    expect(mocks.loadLeagueArchiveDocument).toHaveBeenCalledWith(mocks.db, {
+      archiveId,
+      leagueId,
+    });
+  });
+
+  it("refuses an unsigned or expired link before reading the archive", async () => {
+    const expired = archiveDownloadPath(
+      { archiveId, leagueId, now: new Date("2020-01-01T00:00:00.000Z") },
+      secret,
+    );
+
+    for (const path of [
+      `/api/leagues/${leagueId}/archives/${archiveId}/download`,
+      expired,
+    ]) {
+      const response = await GET(request(path), routeContext());
+      expect(response.status).toBe(403);
+      await expect(response.json()).resolves.toMatchObject({
+        error: { code: "ARCHIVE_DOWNLOAD_LINK_INVALID" },
+      });
+    }
+    expect(mocks.loadLeagueArchiveDocument).not.toHaveBeenCalled();
+  });
+
+  it("answers 404 while the archive is not ready", async () => {
+    mocks.loadLeagueArchiveDocument.mockResolvedValue(null);
+
+    const response = await GET(
+      request(
+        archiveDownloadPath({ archiveId, leagueId, now: new Date() }, secret),
+      ),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,86 @@
+import { loadLeagueArchiveDocument, verifyArchiveDownload } from "@/archive";
+import { getEnv } from "@/core/env";
+import { recordApiHandler } from "@/core/metrics";
+import { AppError } from "@/core/result";
+import { getDb } from "@/db";
+import { errorJson } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface ArchiveDownloadRouteContext {
+  params: Promise<{ archiveId: string; leagueId: string }>;
+}
+
+function archiveFileName(leagueName: string, createdAt: Date): string {
+  const slug =
+    leagueName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/gu, "-")
+      .replace(/^-+|-+$/gu, "")
+      .slice(0, 60) || "league";
+  return `${slug}-archive-${createdAt.toISOString().slice(0, 10)}.json`;
+}
+
+/**
+ * Serves a finished archive to whoever holds a valid signed link. There is no
+ * session check: the link is the authority, minted only for members holding
+ * `league:manage` (the commissioner and co-commissioners).
+ */
+async function archiveDownloadGet(
+  request: Request,
+  context: ArchiveDownloadRouteContext,
+) {
+  const { archiveId, leagueId } = await context.params;
+  const verified = verifyArchiveDownload(
+    {
+      archiveId,
+      leagueId,
+      now: new Date(),
+      params: new URL(request.url).searchParams,
+    },
+    getEnv().auth.secret,
+  );
+  if (!verified) {
+    return errorJson(
+      new AppError({
+        code: "ARCHIVE_DOWNLOAD_LINK_INVALID",
+        message: "This download link is invalid or has expired",
+        status: 403,
+      }),
+    );
+  }
+
+  const document = await loadLeagueArchiveDocument(getDb(), {
+    archiveId,
+    leagueId,
+  });
+  if (!document) {
+    return errorJson(
+      new AppError({
+        code: "LEAGUE_ARCHIVE_NOT_FOUND",
+        message: "League archive was not found",
+        status: 404,
+      }),
+    );
+  }
+
+  return new Response(JSON.stringify(document.archive), {
+    headers: {
+      "Cache-Control": "private, no-store",
+      "Content-Disposition": `attachment; filename="${archiveFileName(
+        document.archive.league.name,
+        document.createdAt,
+      )}"`,
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+export const GET = recordApiHandler(
+  {
+    method: "GET",
+    route: "/api/leagues/[leagueId]/archives/[archiveId]/download",
+  },
+  archiveDownloadGet,
+);
@@ -0,0 +1,173 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { requireLeagueRole } from "@/auth/guards";
+import { AppError, err, ok } from "@/core/result";
+import { POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  parseLeagueArchive: vi.fn(),
+  requireLeagueRole: vi.fn(),
+  restoreLeagueArchive: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+// Restores are rare commissioner uploads; the limiter is stubbed so these
+// cases exercise the guard and the body checks without a Redis connection.
+vi.mock("@/core/rate-limit", () => ({
+  enforceApiRateLimitOrReject: vi.fn(async () => null),
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/archive", () => ({
+  parseLeagueArchive: mocks.parseLeagueArchive,
+  restoreLeagueArchive: mocks.restoreLeagueArchive,
+}));
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+const archive = { version: 1 };
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId }) };
+}
+
+function request(body: string): Request {
+  return new Request(
+    `https://rumbledore.test/api/leagues/${leagueId}/archives/restore`,
+    {
+      body,
+      headers: { "content-type": "application/json" },
+      method: "POST",
+    },
+  );
+}
+
+function mockAccess() {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role: "commissioner",
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/leagues/[leagueId]/archives/restore", () => {
+  it("restores a parsed archive for a league manager", async () => {
+    mockAccess();
+    mocks.parseLeagueArchive.mockReturnValue({ archive, ok: true });
+    mocks.restoreLeagueArchive.mockResolvedValue(ok({ teamSeasons: 12 }));
+
+    const response = await POST(
+      request(JSON.stringify({ archive })),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ teamSeasons: 12 });
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:manage" }),
+    );
+    expect(mocks.restoreLeagueArchive).toHaveBeenCalledWith(mocks.db, {
+      actorUserId: userId,
+      archive,
+      leagueId,
+    });
+  });
+
+  it("keeps restores to members who manage the league", async () => {
+    mocks.requireLeagueRole.mockResolvedValue({
+      error: new AppError({
+        code: "FORBIDDEN",
+        message: "League management access is required",
+        status: 403,
+      }),
+      ok: false,
+    });
+
+    const response = await POST(
+      request(JSON.stringify({ archive })),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(403);
+    expect(mocks.parseLeagueArchive).not.toHaveBeenCalled();
+    expect(mocks.restoreLeagueArchive).not.toHaveBeenCalled();
+  });
+
+  it("refuses an upload over the 8 MB cap before parsing it", async () => {
+    mockAccess();
+
+    const response = await POST(
+      request(`{"archive":"${"x".repeat(8 * 1024 * 1024)}"}`),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(413);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "REQUEST_BODY_TOO_LARGE" },
+    });
+    expect(mocks.parseLeagueArchive).not.toHaveBeenCalled();
+  });
+
+  it("reports why a file is not a readable archive", async () => {
+    mockAccess();
+    mocks.parseLeagueArchive.mockReturnValue({
+      issues: ["teamSeasons: Required"],
+      ok: false,
+    });
+
+    const response = await POST(
+      request(JSON.stringify({ archive: { version: 1 } })),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(422);
+    await expect(response.json()).resolves.toMatchObject({
+      error: {
+        code: "LEAGUE_ARCHIVE_INVALID",
+        details: {
+          issues: [{ message: "teamSeasons: Required", section: "bundle" }],
+        },
+      },
+    });
+    expect(mocks.restoreLeagueArchive).not.toHaveBeenCalled();
+  });
+
+  it("passes through the conflict for a league that is not fresh", async () => {
+    mockAccess();
+    mocks.parseLeagueArchive.mockReturnValue({ archive, ok: true });
+    mocks.restoreLeagueArchive.mockResolvedValue(
+      err(
+        new AppError({
+          code: "ARCHIVE_RESTORE_LEAGUE_NOT_FRESH",
+          message:
+            "This league already has curation, house records or canon lore; restore an archive into a newly imported league",
+          status: 409,
+        }),
+      ),
+    );
+
+    const response = await POST(
+      request(JSON.stringify({ archive })),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "ARCHIVE_RESTORE_LEAGUE_NOT_FRESH" },
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { parseLeagueArchive, restoreLeagueArchive } from "@/archive";
+import { requireLeagueRole } from "@/auth/guards";
+import { recordApiHandler } from "@/core/metrics";
+import { AppError } from "@/core/result";
+import { getDb } from "@/db";
+import { errorJson, readJsonBody, resultJson } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Matches the file-import cap, which is where the same archive was uploaded
+// to rebuild this league's history.
+const MAX_ARCHIVE_RESTORE_BYTES = 8 * 1024 * 1024;
+
+const bodySchema = z.object({
+  archive: z.record(z.string(), z.unknown()),
+});
+
+interface ArchiveRestoreRouteContext {
+  params: Promise<{ leagueId: string }>;
+}
+
+async function archiveRestorePost(
+  request: Request,
+  context: ArchiveRestoreRouteContext,
+) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:manage",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const body = await readJsonBody(request, MAX_ARCHIVE_RESTORE_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+
+  const parsedBody = bodySchema.safeParse(body.value);
+  if (!parsedBody.success) {
+    return errorJson(
+      new AppError({
+        code: "INVALID_REQUEST",
+        message: "A league archive is required",
+        status: 400,
+      }),
+    );
+  }
+
+  const parsed = parseLeagueArchive(parsedBody.data.archive);
+  if (!parsed.ok) {
+    return errorJson(
+      new AppError({
+        code: "LEAGUE_ARCHIVE_INVALID",
+        details: {
+          issues: parsed.issues.map((message) => ({
+            message,
+            section: "bundle",
+          })),
+        },
+        message: "This file is not a readable league archive",
+        status: 422,
+      }),
+    );
+  }
+
+  return resultJson(
+    await restoreLeagueArchive(db, {
+      actorUserId: access.value.userId,
+      archive: parsed.archive,
+      leagueId,
+    }),
+  );
+}
+
+export const POST = recordApiHandler(
+  { method: "POST", route: "/api/leagues/[leagueId]/archives/restore" },
+  archiveRestorePost,
+);
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { requireLeagueRole } from "@/auth/guards";
+import { AppError } from "@/core/result";
+import { POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  getEnv: vi.fn(),
+  inngestSend: vi.fn(),
+  requestLeagueArchive: vi.fn(),
+  requireLeagueRole: vi.fn(),
+  runLeagueArchiveExport: vi.fn(),
+}));
+
+vi.mock("@/core/env", () => ({
+  getEnv: mocks.getEnv,
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+// The limiter is mocked so this suite never depends on Redis and never carries
+// counter state between runs; src/core/rate-limit.test.ts covers the guard.
+vi.mock("@/core/rate-limit", () => ({
+  enforceApiRateLimitOrReject: vi.fn(async () => null),
+}));
+
+vi.mock("@/jobs/client", () => ({
+  inngest: { send: mocks.inngestSend },
+}));
+
+vi.mock("@/jobs/functions/league-archive-export", () => ({
+  runLeagueArchiveExportWithDefaultDependencies: mocks.runLeagueArchiveExport,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/archive", () => ({
+  listLeagueArchives: vi.fn(),
+  requestLeagueArchive: mocks.requestLeagueArchive,
+}));
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+const archiveId = "00000000-0000-4000-8000-0000000000a1";
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId }) };
+}
+
+function request(): Request {
+  return new Request(
+    `https://rumbledore.test/api/leagues/${leagueId}/archives`,
+    { method: "POST" },
+  );
+}
+
+function mockAccess() {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role: "commissioner",
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+beforeEach(() => {
+  mocks.getEnv.mockReturnValue({ jobs: { inngest: { mode: "live" } } });
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/leagues/[leagueId]/archives", () => {
+  it("queues an export and sends its build job once", async () => {
+    mockAccess();
+    mocks.requestLeagueArchive.mockResolvedValue({ archiveId, queued: true });
+
+    const response = await POST(request(), routeContext());
+
+    expect(response.status).toBe(202);
+    await expect(response.json()).resolves.toEqual({
+      archiveId,
+      queued: true,
+    });
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:manage" }),
+    );
+    expect(mocks.requestLeagueArchive).toHaveBeenCalledWith(mocks.db, {
+      leagueId,
+      userId,
+    });
+    expect(mocks.inngestSend).toHaveBeenCalledWith({
+      data: { archiveId, leagueId },
+      id: `league.archive.requested:${archiveId}`,
+      name: "league.archive.requested",
+    });
+  });
+
+  it("hands back an export already building without sending it again", async () => {
+    mockAccess();
+    mocks.requestLeagueArchive.mockResolvedValue({ archiveId, queued: false });
+
+    const response = await POST(request(), routeContext());
+
+    expect(response.status).toBe(202);
+    expect(mocks.inngestSend).not.toHaveBeenCalled();
+  });
+
+  it("builds inline when jobs run in mock mode", async () => {
+    mockAccess();
+    mocks.getEnv.mockReturnValue({ jobs: { inngest: { mode: "mock" } } });
+    mocks.requestLeagueArchive.mockResolvedValue({ archiveId, queued: true });
+
+    await POST(request(), routeContext());
+
+    expect(mocks.runLeagueArchiveExport).toHaveBeenCalledWith({
+      archiveId,
+      leagueId,
+    });
+    expect(mocks.inngestSend).not.toHaveBeenCalled();
+  });
+
+  it("keeps exports to the commissioner", async () => {
+    mocks.requireLeagueRole.mockResolvedValue({
+      error: new AppError({
+        code: "FORBIDDEN",
+        message: "Commissioner access is required",
+        status: 403,
+      }),
+      ok: false,
+    });
+
+    const response = await POST(request(), routeContext());
+
+    expect(response.status).toBe(403);
+    expect(mocks.requestLeagueArchive).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { listLeagueArchives, requestLeagueArchive } from "@/archive";
+import { requireLeagueRole } from "@/auth/guards";
+import { getEnv } from "@/core/env";
+import { recordApiHandler } from "@/core/metrics";
+import { getDb } from "@/db";
+import { inngest } from "@/jobs/client";
+import { JOB_EVENTS, type LeagueArchiveRequestedData } from "@/jobs/events";
+import { errorJson, okJson } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface ArchivesRouteContext {
+  params: Promise<{ leagueId: string }>;
+}
+
+async function dispatchLeagueArchiveExport(data: LeagueArchiveRequestedData) {
+  if (getEnv().jobs.inngest.mode === "mock") {
+    const { runLeagueArchiveExportWithDefaultDependencies } = await import(
+      "@/jobs/functions/league-archive-export"
+    );
+    await runLeagueArchiveExportWithDefaultDependencies(data);
+    return;
+  }
+
+  await inngest.send({
+    data,
+    id: `${JOB_EVENTS.leagueArchiveRequested}:${data.archiveId}`,
+    name: JOB_EVENTS.leagueArchiveRequested,
+  });
+}
+
+async function archivesGet(request: Request, context: ArchivesRouteContext) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:manage",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  return okJson({
+    archives: await listLeagueArchives(db, {
+      leagueId,
+      now: new Date(),
+      signingSecret: getEnv().auth.secret,
+    }),
+  });
+}
+
+async function archivesPost(request: Request, context: ArchivesRouteContext) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:manage",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const requested = await requestLeagueArchive(db, {
+    leagueId,
+    userId: access.value.userId,
+  });
+  if (requested.queued) {
+    await dispatchLeagueArchiveExport({
+      archiveId: requested.archiveId,
+      leagueId,
+    });
+  }
+  return okJson(requested, 202);
+}
+
+export const GET = recordApiHandler(
+  { method: "GET", route: "/api/leagues/[leagueId]/archives" },
+  archivesGet,
+);
+
+export const POST = recordApiHandler(
+  { method: "POST", route: "/api/leagues/[leagueId]/archives" },
+  archivesPost,
+);
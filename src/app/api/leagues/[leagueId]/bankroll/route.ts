@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { requireLeagueRole } from "@/auth/guards";
+import { setLeagueBankrollMode } from "@/betting/bankroll";
+import { recordApiHandler } from "@/core/metrics";
+import { AppError, toAppError } from "@/core/result";
+import { getDb } from "@/db";
+import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_SETTINGS_BODY_BYTES = 1024;
+
+const bankrollSettingsSchema = z.object({
+  enabled: z.boolean(),
+  maxParlayLegs: z.number().int().min(1).max(12).optional(),
+  weeklyAllowance: z.number().int().positive().max(1_000_000).optional(),
+});
+
+interface BankrollRouteContext {
+  params: Promise<{ leagueId: string }>;
+}
+
+async function bankrollPut(request: Request, context: BankrollRouteContext) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  // Bankroll mode changes what every member sees on the bet desk, so it is a
+  // commissioner decision rather than a personal preference.
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:manage",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const body = await readJsonBody(request, MAX_SETTINGS_BODY_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+
+  const parsed = bankrollSettingsSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        cause: parsed.error,
+        code: "INVALID_BANKROLL_SETTINGS",
+        message: "Bankroll settings require an enabled flag",
+        status: 400,
+      }),
+    );
+  }
+
+  try {
+    const settings = await setLeagueBankrollMode(db, {
+      actorUserId: access.value.userId,
+      enabled: parsed.data.enabled,
+      leagueId,
+      maxParlayLegs: parsed.data.maxParlayLegs,
+      weeklyAllowance: parsed.data.weeklyAllowance,
+    });
+    return okJson({ settings });
+  } catch (error) {
+    return errorJson(
+      toAppError(error, {
+        code: "BANKROLL_SETTINGS_FAILED",
+        message: "Bankroll settings could not be saved",
+        status: 500,
+      }),
+    );
+  }
+}
+
+export const PUT = recordApiHandler(
+  { method: "PUT", route: "/api/leagues/[leagueId]/bankroll" },
+  bankrollPut,
+);
@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { requireLeagueRole } from "@/auth/guards";
+import { placeBankrollSlip } from "@/betting/bankroll";
+import { AppError } from "@/core/result";
+import { POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  placeBankrollSlip: vi.fn(),
+  requireLeagueRole: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+// Slip submissions are rate limited, and with no Redis in vitest the limiter
+// keeps an in-memory count across these tests. Stubbed so they assert the
+// route; src/core/rate-limit.test.ts covers the limiter.
+vi.mock("@/core/rate-limit", () => ({
+  enforceApiRateLimitOrReject: async () => null,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/betting/bankroll", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/betting/bankroll")>();
+  return {
+    ...actual,
+    placeBankrollSlip: mocks.placeBankrollSlip,
+  };
+});
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+const snapshotA = "00000000-0000-4000-8000-000000000003";
+const snapshotB = "00000000-0000-4000-8000-000000000004";
+const pickWeekId = "00000000-0000-4000-8000-000000000005";
+const slipId = "00000000-0000-4000-8000-000000000006";
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId }) };
+}
+
+function slipRequest(body: unknown): Request {
+  return new Request(
+    `https://rumbledore.test/api/leagues/${leagueId}/bankroll/slips`,
+    {
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+      method: "POST",
+    },
+  );
+}
+
+function validBody(overrides: Record<string, unknown> = {}) {
+  return {
+    idempotencyKey: "slip-once",
+    legs: [
+      { oddsSnapshotId: snapshotA, selection: "home" },
+      { oddsSnapshotId: snapshotB, selection: "over" },
+    ],
+    pickWeekId,
+    stake: 50,
+    ...overrides,
+  };
+}
+
+function mockAccess() {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role: "member",
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+function mockPlace(deduplicated = false) {
+  mocks.placeBankrollSlip.mockResolvedValue({
+    deduplicated,
+    lockedPrice: 264,
+    potentialPayout: 182.23,
+    remainingAllowance: 950,
+    slipId,
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/leagues/[leagueId]/bankroll/slips", () => {
+  it("places the parsed slip as the session user", async () => {
+    mockAccess();
+    mockPlace();
+
+    const response = await POST(
+      slipRequest(
+        validBody({ userId: "00000000-0000-4000-8000-0000000000ff" }),
+      ),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(201);
+    await expect(response.json()).resolves.toMatchObject({
+      deduplicated: false,
+      lockedPrice: 264,
+      potentialPayout: 182.23,
+      remainingAllowance: 950,
+      slipId,
+    });
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:participate" }),
+    );
+    expect(placeBankrollSlip).toHaveBeenCalledWith(mocks.db, {
+      idempotencyKey: "slip-once",
+      leagueId,
+      legs: [
+        { oddsSnapshotId: snapshotA, selection: "home" },
+        { oddsSnapshotId: snapshotB, selection: "over" },
+      ],
+      pickWeekId,
+      stake: 50,
+      userId,
+    });
+  });
+
+  it("answers 200 when a retried slip is deduplicated", async () => {
+    mockAccess();
+    mockPlace(true);
+
+    const response = await POST(slipRequest(validBody()), routeContext());
+
+    expect(response.status).toBe(200);
+  });
+
+  it("rejects empty slips and non-positive stakes before the domain", async () => {
+    mockAccess();
+
+    const empty = await POST(
+      slipRequest(validBody({ legs: [] })),
+      routeContext(),
+    );
+    const free = await POST(
+      slipRequest(validBody({ stake: 0 })),
+      routeContext(),
+    );
+
+    expect(empty.status).toBe(400);
+    expect(free.status).toBe(400);
+    await expect(free.json()).resolves.toMatchObject({
+      error: { code: "INVALID_BANKROLL_SLIP_REQUEST" },
+    });
+    expect(placeBankrollSlip).not.toHaveBeenCalled();
+  });
+
+  it("preserves domain refusals such as an exhausted allowance", async () => {
+    mockAccess();
+    mocks.placeBankrollSlip.mockRejectedValue(
+      new AppError({
+        code: "BANKROLL_ALLOWANCE_EXHAUSTED",
+        message: "Stake exceeds this week's remaining allowance",
+        status: 409,
+      }),
+    );
+
+    const response = await POST(slipRequest(validBody()), routeContext());
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "BANKROLL_ALLOWANCE_EXHAUSTED" },
+    });
+  });
+});
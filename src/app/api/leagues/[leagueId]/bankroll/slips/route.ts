@@ -0,0 +1,117 @@
+import { z } from "zod";
+import { requireLeagueRole } from "@/auth/guards";
+import { placeBankrollSlip } from "@/betting/bankroll";
+import { PICK_SELECTIONS } from "@/betting/pickem";
+import { recordApiHandler } from "@/core/metrics";
+import { enforceApiRateLimitOrReject } from "@/core/rate-limit";
+import { AppError, toAppError } from "@/core/result";
+import { getDb } from "@/db";
+import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_SLIP_BODY_BYTES = 4096;
+
+// The leg cap here is the schema ceiling; the league's own, usually lower,
+// cap is enforced by `placeBankrollSlip` against its settings.
+const placeSlipSchema = z.object({
+  idempotencyKey: z.string().trim().min(1).max(200),
+  legs: z
+    .array(
+      z.object({
+        oddsSnapshotId: z.uuid(),
+        selection: z.enum(PICK_SELECTIONS),
+      }),
+    )
+    .min(1)
+    .max(12),
+  pickWeekId: z.uuid(),
+  stake: z.number().positive(),
+});
+
+interface BankrollSlipsRouteContext {
+  params: Promise<{ leagueId: string }>;
+}
+
+async function bankrollSlipsPost(
+  request: Request,
+  context: BankrollSlipsRouteContext,
+) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:participate",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  // Same bound and rationale as pick submission: the allowance caps stakes
+  // that land, not attempts the server refuses.
+  const limited = await enforceApiRateLimitOrReject({
+    max: 60,
+    message: "Too many slips. Try again shortly.",
+    scope: "league-bankroll-slips",
+    subject: access.value.userId,
+    windowSeconds: 60,
+  });
+  if (limited) {
+    return limited;
+  }
+
+  const body = await readJsonBody(request, MAX_SLIP_BODY_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+
+  const parsed = placeSlipSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        cause: parsed.error,
+        code: "INVALID_BANKROLL_SLIP_REQUEST",
+        message: "Slips require a week, a stake, priced legs, and a key",
+        status: 400,
+      }),
+    );
+  }
+
+  try {
+    const result = await placeBankrollSlip(db, {
+      idempotencyKey: parsed.data.idempotencyKey,
+      leagueId,
+      legs: parsed.data.legs,
+      pickWeekId: parsed.data.pickWeekId,
+      stake: parsed.data.stake,
+      userId: access.value.userId,
+    });
+
+    return okJson(
+      {
+        deduplicated: result.deduplicated,
+        lockedPrice: result.lockedPrice,
+        potentialPayout: result.potentialPayout,
+        remainingAllowance: result.remainingAllowance,
+        slipId: result.slipId,
+      },
+      result.deduplicated ? 200 : 201,
+    );
+  } catch (error) {
+    return errorJson(
+      toAppError(error, {
+        code: "BANKROLL_SLIP_FAILED",
+        message: "Slip could not be placed",
+        status: 500,
+      }),
+    );
+  }
+}
+
+export const POST = recordApiHandler(
+  { method: "POST", route: "/api/leagues/[leagueId]/bankroll/slips" },
+  bankrollSlipsPost,
+);
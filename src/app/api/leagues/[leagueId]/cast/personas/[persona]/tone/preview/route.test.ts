@@ -1,13 +1,13 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
 import { previewPersonaToneProfile } from "@/ai";
-import { requirePlatformAdmin } from "@/auth/guards";
+import { requireLeaguePermissionOrPlatformAdmin } from "@/auth/guards";
 import { AppError } from "@/core/result";
 import { POST } from "./route";
 
 const mocks = vi.hoisted(() => ({
   db: {},
   previewPersonaToneProfile: vi.fn(),
-  requirePlatformAdmin: vi.fn(),
+  requireLeaguePermissionOrPlatformAdmin: vi.fn(),
 }));
 
 vi.mock("@/db", () => ({
@@ -24,7 +24,8 @@ vi.mock("@/auth/guards", async (importOriginal) => {
   const actual = await importOriginal<typeof import("@/auth/guards")>();
   return {
     ...actual,
-    requirePlatformAdmin: mocks.requirePlatformAdmin,
+    requireLeaguePermissionOrPlatformAdmin:
+      mocks.requireLeaguePermissionOrPlatformAdmin,
   };
 });
 
@@ -62,7 +63,7 @@ function toneProfile() {
 }
 
 function mockAdminAccess() {
-  mocks.requirePlatformAdmin.mockResolvedValue({
+  mocks.requireLeaguePermissionOrPlatformAdmin.mockResolvedValue({
     ok: true,
     value: {
       session: { user: { id: userId } },
@@ -96,8 +97,12 @@ describe("POST /api/leagues/[leagueId]/cast/personas/[persona]/tone/preview", ()
       sampleParagraph: "Preview paragraph",
       toneVersion: 2,
     });
-    expect(requirePlatformAdmin).toHaveBeenCalledWith(
-      expect.objectContaining({ db: mocks.db }),
+    expect(requireLeaguePermissionOrPlatformAdmin).toHaveBeenCalledWith(
+      expect.objectContaining({
+        db: mocks.db,
+        leagueId,
+        permission: "cast:edit",
+      }),
     );
     expect(previewPersonaToneProfile).toHaveBeenCalledWith(
       { db: mocks.db },
@@ -109,11 +114,11 @@ describe("POST /api/leagues/[leagueId]/cast/personas/[persona]/tone/preview", ()
     );
   });
 
-  it("rejects a league commissioner before generation preview work", async () => {
-    mocks.requirePlatformAdmin.mockResolvedValue({
+  it("rejects a member without cast:edit before generation preview work", async () => {
+    mocks.requireLeaguePermissionOrPlatformAdmin.mockResolvedValue({
       error: new AppError({
-        code: "PLATFORM_ADMIN_FORBIDDEN",
-        message: "Platform administrator access is required",
+        code: "LEAGUE_FORBIDDEN",
+        message: "League access requires membership",
         status: 403,
       }),
       ok: false,
@@ -126,7 +131,7 @@ describe("POST /api/leagues/[leagueId]/cast/personas/[persona]/tone/preview", ()
 
     expect(response.status).toBe(403);
     await expect(response.json()).resolves.toMatchObject({
-      error: { code: "PLATFORM_ADMIN_FORBIDDEN" },
+      error: { code: "LEAGUE_FORBIDDEN" },
     });
     expect(previewPersonaToneProfile).not.toHaveBeenCalled();
   });
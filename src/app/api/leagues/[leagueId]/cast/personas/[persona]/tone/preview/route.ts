@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { parseAiPersona, previewPersonaToneProfile } from "@/ai";
-import { isValidLeagueId, requirePlatformAdmin } from "@/auth/guards";
+import { requireLeaguePermissionOrPlatformAdmin } from "@/auth/guards";
 import { recordApiHandler } from "@/core/metrics";
 import { enforceApiRateLimitOrReject } from "@/core/rate-limit";
 import { AppError, toAppError } from "@/core/result";
@@ -36,22 +36,15 @@ async function personaTonePreviewPost(
 ) {
   const { leagueId, persona: personaParam } = await context.params;
   const db = getDb();
-  const access = await requirePlatformAdmin({
+  const access = await requireLeaguePermissionOrPlatformAdmin({
     db,
     headers: request.headers,
+    leagueId,
+    permission: "cast:edit",
   });
   if (!access.ok) {
     return errorJson(access.error);
   }
-  if (!isValidLeagueId(leagueId)) {
-    return errorJson(
-      new AppError({
-        code: "INVALID_LEAGUE_ID",
-        message: "League id must be a UUID",
-        status: 400,
-      }),
-    );
-  }
 
   const limited = await enforceApiRateLimitOrReject({
     max: 20,
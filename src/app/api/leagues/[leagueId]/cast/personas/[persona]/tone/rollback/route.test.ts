@@ -1,12 +1,12 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
 import { rollbackPersonaToneProfile } from "@/ai";
-import { requirePlatformAdmin } from "@/auth/guards";
+import { requireLeaguePermissionOrPlatformAdmin } from "@/auth/guards";
 import { AppError } from "@/core/result";
 import { POST } from "./route";
 
 const mocks = vi.hoisted(() => ({
   db: {},
-  requirePlatformAdmin: vi.fn(),
+  requireLeaguePermissionOrPlatformAdmin: vi.fn(),
   rollbackPersonaToneProfile: vi.fn(),
 }));
 
@@ -18,7 +18,8 @@ vi.mock("@/auth/guards", async (importOriginal) => {
   const actual = await importOriginal<typeof import("@/auth/guards")>();
   return {
     ...actual,
-    requirePlatformAdmin: mocks.requirePlatformAdmin,
+    requireLeaguePermissionOrPlatformAdmin:
+      mocks.requireLeaguePermissionOrPlatformAdmin,
   };
 });
 
@@ -46,7 +47,7 @@ function request(body: unknown): Request {
 }
 
 function mockAdminAccess() {
-  mocks.requirePlatformAdmin.mockResolvedValue({
+  mocks.requireLeaguePermissionOrPlatformAdmin.mockResolvedValue({
     ok: true,
     value: {
       session: { user: { id: userId } },
@@ -79,8 +80,12 @@ describe("POST /api/leagues/[leagueId]/cast/personas/[persona]/tone/rollback", (
       previousToneVersion: 2,
       status: "changed",
     });
-    expect(requirePlatformAdmin).toHaveBeenCalledWith(
-      expect.objectContaining({ db: mocks.db }),
+    expect(requireLeaguePermissionOrPlatformAdmin).toHaveBeenCalledWith(
+      expect.objectContaining({
+        db: mocks.db,
+        leagueId,
+        permission: "cast:edit",
+      }),
     );
     expect(rollbackPersonaToneProfile).toHaveBeenCalledWith(
       { db: mocks.db },
@@ -103,11 +108,11 @@ describe("POST /api/leagues/[leagueId]/cast/personas/[persona]/tone/rollback", (
     expect(rollbackPersonaToneProfile).not.toHaveBeenCalled();
   });
 
-  it("rejects a league commissioner without rolling tone config back", async () => {
-    mocks.requirePlatformAdmin.mockResolvedValue({
+  it("rejects a member without cast:edit before rolling tone config back", async () => {
+    mocks.requireLeaguePermissionOrPlatformAdmin.mockResolvedValue({
       error: new AppError({
-        code: "PLATFORM_ADMIN_FORBIDDEN",
-        message: "Platform administrator access is required",
+        code: "LEAGUE_FORBIDDEN",
+        message: "League access requires membership",
         status: 403,
       }),
       ok: false,
@@ -117,7 +122,7 @@ describe("POST /api/leagues/[leagueId]/cast/personas/[persona]/tone/rollback", (
 
     expect(response.status).toBe(403);
     await expect(response.json()).resolves.toMatchObject({
-      error: { code: "PLATFORM_ADMIN_FORBIDDEN" },
+      error: { code: "LEAGUE_FORBIDDEN" },
     });
     expect(rollbackPersonaToneProfile).not.toHaveBeenCalled();
   });
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { parseAiPersona, rollbackPersonaToneProfile } from "@/ai";
-import { isValidLeagueId, requirePlatformAdmin } from "@/auth/guards";
+import { requireLeaguePermissionOrPlatformAdmin } from "@/auth/guards";
 import { recordApiHandler } from "@/core/metrics";
 import { AppError, toAppError } from "@/core/result";
 import { getDb } from "@/db";
@@ -26,22 +26,15 @@ async function personaToneRollbackPost(
 ) {
   const { leagueId, persona: personaParam } = await context.params;
   const db = getDb();
-  const access = await requirePlatformAdmin({
+  const access = await requireLeaguePermissionOrPlatformAdmin({
     db,
     headers: request.headers,
+    leagueId,
+    permission: "cast:edit",
   });
   if (!access.ok) {
     return errorJson(access.error);
   }
-  if (!isValidLeagueId(leagueId)) {
-    return errorJson(
-      new AppError({
-        code: "INVALID_LEAGUE_ID",
-        message: "League id must be a UUID",
-        status: 400,
-      }),
-    );
-  }
 
   const body = await readJsonBody(request, MAX_TONE_BODY_BYTES);
   if (!body.ok) {
@@ -1,13 +1,13 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
 import { editPersonaToneProfile } from "@/ai";
-import { requirePlatformAdmin } from "@/auth/guards";
+import { requireLeaguePermissionOrPlatformAdmin } from "@/auth/guards";
 import { AppError } from "@/core/result";
 import { POST } from "./route";
 
 const mocks = vi.hoisted(() => ({
   db: {},
   editPersonaToneProfile: vi.fn(),
-  requirePlatformAdmin: vi.fn(),
+  requireLeaguePermissionOrPlatformAdmin: vi.fn(),
 }));
 
 vi.mock("@/db", () => ({
@@ -18,7 +18,8 @@ vi.mock("@/auth/guards", async (importOriginal) => {
   const actual = await importOriginal<typeof import("@/auth/guards")>();
   return {
     ...actual,
-    requirePlatformAdmin: mocks.requirePlatformAdmin,
+    requireLeaguePermissionOrPlatformAdmin:
+      mocks.requireLeaguePermissionOrPlatformAdmin,
   };
 });
 
@@ -56,7 +57,7 @@ function toneProfile() {
 }
 
 function mockAdminAccess() {
-  mocks.requirePlatformAdmin.mockResolvedValue({
+  mocks.requireLeaguePermissionOrPlatformAdmin.mockResolvedValue({
     ok: true,
     value: {
       session: { user: { id: userId } },
@@ -93,8 +94,12 @@ describe("POST /api/leagues/[leagueId]/cast/personas/[persona]/tone", () => {
       previousToneVersion: 1,
       status: "changed",
     });
-    expect(requirePlatformAdmin).toHaveBeenCalledWith(
-      expect.objectContaining({ db: mocks.db }),
+    expect(requireLeaguePermissionOrPlatformAdmin).toHaveBeenCalledWith(
+      expect.objectContaining({
+        db: mocks.db,
+        leagueId,
+        permission: "cast:edit",
+      }),
     );
     expect(editPersonaToneProfile).toHaveBeenCalledWith(
       { db: mocks.db },
@@ -121,11 +126,11 @@ describe("POST /api/leagues/[leagueId]/cast/personas/[persona]/tone", () => {
     expect(editPersonaToneProfile).not.toHaveBeenCalled();
   });
 
-  it("rejects a league commissioner without changing tone config", async () => {
-    mocks.requirePlatformAdmin.mockResolvedValue({
+  it("rejects a member without cast:edit before changing tone config", async () => {
+    mocks.requireLeaguePermissionOrPlatformAdmin.mockResolvedValue({
       error: new AppError({
-        code: "PLATFORM_ADMIN_FORBIDDEN",
-        message: "Platform administrator access is required",
+        code: "LEAGUE_FORBIDDEN",
+        message: "League access requires membership",
         status: 403,
       }),
       ok: false,
@@ -138,7 +143,7 @@ describe("POST /api/leagues/[leagueId]/cast/personas/[persona]/tone", () => {
 
     expect(response.status).toBe(403);
     await expect(response.json()).resolves.toMatchObject({
-      error: { code: "PLATFORM_ADMIN_FORBIDDEN" },
+      error: { code: "LEAGUE_FORBIDDEN" },
     });
     expect(editPersonaToneProfile).not.toHaveBeenCalled();
   });
@@ -97,7 +97,7 @@ describe("POST /api/leagues/[leagueId]/commissioner/handoff", () => {
       expect.objectContaining({
         db: mocks.db,
         leagueId,
-        minRole: "commissioner",
+        permission: "league:transfer",
       }),
     );
     expect(transferCommissionerRole).toHaveBeenCalledWith(mocks.db, {
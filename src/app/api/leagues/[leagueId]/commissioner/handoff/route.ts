@@ -30,7 +30,7 @@ async function commissionerHandoffPost(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "commissioner",
+    permission: "league:transfer",
   });
   if (!access.ok) {
     return errorJson(access.error);
@@ -6,14 +6,27 @@ import { POST } from "./route";
 
 const mocks = vi.hoisted(() => ({
   db: {},
+  push: { notifyLeague: vi.fn() },
   requireLeagueRole: vi.fn(),
   restoreCurationCheckpoint: vi.fn(),
 }));
 
+vi.mock("@/core/env", () => ({
+  getEnv: () => ({}),
+}));
+
 vi.mock("@/db", () => ({
   getDb: () => mocks.db,
 }));
 
+vi.mock("@/push", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/push")>();
+  return {
+    ...actual,
+    createPushNotifier: () => mocks.push,
+  };
+});
+
 vi.mock("@/auth/guards", () => ({
   requireLeagueRole: mocks.requireLeagueRole,
 }));
@@ -79,14 +92,18 @@ describe("POST /api/leagues/[leagueId]/curation/checkpoints/[checkpointId]/resto
       checkpoint: { id: checkpointId, seasons: [2011, 2012] },
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "data_steward" }),
+      expect.objectContaining({ permission: "leagueData:manage" }),
+    );
+    expect(restoreCurationCheckpoint).toHaveBeenCalledWith(
+      mocks.db,
+      {
+        actorUserId: userId,
+        checkpointId,
+        leagueId,
+        reason: "undo bad draft",
+      },
+      { push: mocks.push },
     );
-    expect(restoreCurationCheckpoint).toHaveBeenCalledWith(mocks.db, {
-      actorUserId: userId,
-      checkpointId,
-      leagueId,
-      reason: "undo bad draft",
-    });
   });
 
   it("rejects malformed checkpoint ids before role checks", async () => {
@@ -1,9 +1,11 @@
 import { z } from "zod";
 import { requireLeagueRole } from "@/auth/guards";
+import { getEnv } from "@/core/env";
 import { recordApiHandler } from "@/core/metrics";
 import { AppError, ok, toAppError } from "@/core/result";
 import { getDb } from "@/db";
 import { errorJson, readJsonBody, resultJson } from "@/onboarding/http";
+import { createPushNotifier } from "@/push";
 import { restoreCurationCheckpoint } from "@/stats";
 
 export const runtime = "nodejs";
@@ -40,7 +42,7 @@ async function curationCheckpointRestorePost(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "data_steward",
+    permission: "leagueData:manage",
   });
   if (!access.ok) {
     return errorJson(access.error);
@@ -64,12 +66,16 @@ async function curationCheckpointRestorePost(
   try {
     return resultJson(
       ok({
-        checkpoint: await restoreCurationCheckpoint(db, {
-          actorUserId: access.value.userId,
-          checkpointId: parsedCheckpointId.data,
-          leagueId,
-          reason: parsed.data.reason,
-        }),
+        checkpoint: await restoreCurationCheckpoint(
+          db,
+          {
+            actorUserId: access.value.userId,
+            checkpointId: parsedCheckpointId.data,
+            leagueId,
+            reason: parsed.data.reason,
+          },
+          { push: createPushNotifier(db, getEnv()) },
+        ),
       }),
     );
   } catch (error) {
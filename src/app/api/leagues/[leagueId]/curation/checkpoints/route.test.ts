@@ -94,7 +94,7 @@ describe("/api/leagues/[leagueId]/curation/checkpoints", () => {
       checkpoints: [{ id: checkpointId, seasons: [2011, 2012] }],
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "data_steward" }),
+      expect.objectContaining({ permission: "leagueData:manage" }),
     );
     expect(listCurationCheckpoints).toHaveBeenCalledWith(mocks.db, {
       leagueId,
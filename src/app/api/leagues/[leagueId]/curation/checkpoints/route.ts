@@ -30,7 +30,7 @@ async function curationCheckpointsGet(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "data_steward",
+    permission: "leagueData:manage",
   });
   if (!access.ok) {
     return errorJson(access.error);
@@ -58,7 +58,7 @@ async function curationCheckpointsPost(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "data_steward",
+    permission: "leagueData:manage",
   });
   if (!access.ok) {
     return errorJson(access.error);
@@ -7,13 +7,26 @@ import { POST } from "./route";
 const mocks = vi.hoisted(() => ({
   applyCuratedDataEdit: vi.fn(),
   db: {},
+  push: { notifyLeague: vi.fn() },
   requireLeagueRole: vi.fn(),
 }));
 
+vi.mock("@/core/env", () => ({
+  getEnv: () => ({}),
+}));
+
 vi.mock("@/db", () => ({
   getDb: () => mocks.db,
 }));
 
+vi.mock("@/push", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/push")>();
+  return {
+    ...actual,
+    createPushNotifier: () => mocks.push,
+  };
+});
+
 vi.mock("@/auth/guards", () => ({
   requireLeagueRole: mocks.requireLeagueRole,
 }));
@@ -93,20 +106,24 @@ describe("POST /api/leagues/[leagueId]/curation/edits", () => {
       editId: "00000000-0000-4000-8000-000000000004",
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "data_steward" }),
+      expect.objectContaining({ permission: "leagueData:manage" }),
+    );
+    expect(applyCuratedDataEdit).toHaveBeenCalledWith(
+      mocks.db,
+      {
+        actorUserId: userId,
+        editClass: "cosmetic",
+        field: "canonical_name",
+        leagueId,
+        reason: "spelling",
+        scope: "all_years",
+        season: undefined,
+        targetId: personId,
+        targetKind: "person",
+        value: "Fixture Manager",
+      },
+      { push: mocks.push },
     );
-    expect(applyCuratedDataEdit).toHaveBeenCalledWith(mocks.db, {
-      actorUserId: userId,
-      editClass: "cosmetic",
-      field: "canonical_name",
-      leagueId,
-      reason: "spelling",
-      scope: "all_years",
-      season: undefined,
-      targetId: personId,
-      targetKind: "person",
-      value: "Fixture Manager",
-    });
   });
 
   it("rejects malformed edit payloads before applying", async () => {
@@ -161,6 +178,7 @@ describe("POST /api/leagues/[leagueId]/curation/edits", () => {
         targetId: matchupId,
         targetKind: "matchup",
       }),
+      { push: mocks.push },
     );
   });
 
@@ -192,18 +210,22 @@ describe("POST /api/leagues/[leagueId]/curation/edits", () => {
     );
 
     expect(response.status).toBe(200);
-    expect(applyCuratedDataEdit).toHaveBeenCalledWith(mocks.db, {
-      actorUserId: userId,
-      editClass: "cosmetic",
-      field: "team_name",
-      leagueId,
-      reason: "season-specific team brand",
-      scope: "this_year_only",
-      season: 2012,
-      targetId: teamSeasonId,
-      targetKind: "team_season",
-      value: "Fixture 2012",
-    });
+    expect(applyCuratedDataEdit).toHaveBeenCalledWith(
+      mocks.db,
+      {
+        actorUserId: userId,
+        editClass: "cosmetic",
+        field: "team_name",
+        leagueId,
+        reason: "season-specific team brand",
+        scope: "this_year_only",
+        season: 2012,
+        targetId: teamSeasonId,
+        targetKind: "team_season",
+        value: "Fixture 2012",
+      },
+      { push: mocks.push },
+    );
   });
 
   it("returns role guard errors before applying", async () => {
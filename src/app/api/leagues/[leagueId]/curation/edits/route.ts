@@ -1,9 +1,11 @@
 import { z } from "zod";
 import { requireLeagueRole } from "@/auth/guards";
+import { getEnv } from "@/core/env";
 import { recordApiHandler } from "@/core/metrics";
 import { AppError, ok, toAppError } from "@/core/result";
 import { getDb } from "@/db";
 import { errorJson, readJsonBody, resultJson } from "@/onboarding/http";
+import { createPushNotifier } from "@/push";
 import { applyCuratedDataEdit } from "@/stats";
 
 export const runtime = "nodejs";
@@ -60,7 +62,7 @@ async function curationEditsPost(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "data_steward",
+    permission: "leagueData:manage",
   });
   if (!access.ok) {
     return errorJson(access.error);
@@ -85,18 +87,22 @@ async function curationEditsPost(
   try {
     return resultJson(
       ok(
-        await applyCuratedDataEdit(db, {
-          actorUserId: access.value.userId,
-          editClass: serverEditClassFor(parsed.data),
-          field: parsed.data.field,
-          leagueId,
-          reason: parsed.data.reason,
-          scope: parsed.data.scope,
-          season: parsed.data.season,
-          targetId: parsed.data.targetId,
-          targetKind: parsed.data.targetKind,
-          value: parsed.data.value,
-        }),
+        await applyCuratedDataEdit(
+          db,
+          {
+            actorUserId: access.value.userId,
+            editClass: serverEditClassFor(parsed.data),
+            field: parsed.data.field,
+            leagueId,
+            reason: parsed.data.reason,
+            scope: parsed.data.scope,
+            season: parsed.data.season,
+            targetId: parsed.data.targetId,
+            targetKind: parsed.data.targetKind,
+            value: parsed.data.value,
+          },
+          { push: createPushNotifier(db, getEnv()) },
+        ),
       ),
     );
   } catch (error) {
@@ -97,7 +97,7 @@ describe("POST /api/leagues/[leagueId]/curation/groupings", () => {
       grouping: { id: groupingId, seasons: [2013, 2015], status: "confirmed" },
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "data_steward" }),
+      expect.objectContaining({ permission: "leagueData:manage" }),
     );
     expect(confirmLeagueSeasonGrouping).toHaveBeenCalledWith(mocks.db, {
       actorUserId: userId,
@@ -44,7 +44,7 @@ async function curationGroupingsPost(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "data_steward",
+    permission: "leagueData:manage",
   });
   if (!access.ok) {
     return errorJson(access.error);
@@ -107,7 +107,7 @@ describe("GET /api/leagues/[leagueId]/curation/ledger", () => {
       },
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "member" }),
+      expect.objectContaining({ permission: "league:view" }),
     );
     expect(listUnifiedDataLedgerPage).toHaveBeenCalledWith(mocks.db, {
       leagueId,
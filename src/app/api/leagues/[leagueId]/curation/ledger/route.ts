@@ -20,6 +20,7 @@ const ledgerTargetKindSchema = z
     "member",
     "curation_checkpoint",
     "curation_push",
+    "record_definition",
     "integrity_check",
   ])
   .optional();
@@ -41,7 +42,7 @@ async function curationLedgerGet(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
   if (!access.ok) {
     return errorJson(access.error);
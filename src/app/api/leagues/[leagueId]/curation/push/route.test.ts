@@ -6,15 +6,28 @@ import { POST } from "./route";
 
 const mocks = vi.hoisted(() => ({
   db: {},
+  push: { notifyLeague: vi.fn() },
   pushAllCurationSeasons: vi.fn(),
   pushCurationSeason: vi.fn(),
   requireLeagueRole: vi.fn(),
 }));
 
+vi.mock("@/core/env", () => ({
+  getEnv: () => ({}),
+}));
+
 vi.mock("@/db", () => ({
   getDb: () => mocks.db,
 }));
 
+vi.mock("@/push", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/push")>();
+  return {
+    ...actual,
+    createPushNotifier: () => mocks.push,
+  };
+});
+
 vi.mock("@/auth/guards", () => ({
   requireLeagueRole: mocks.requireLeagueRole,
 }));
@@ -87,15 +100,19 @@ describe("POST /api/leagues/[leagueId]/curation/push", () => {
       push: { checkpointId, season: 2012 },
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "data_steward" }),
+      expect.objectContaining({ permission: "leagueData:manage" }),
+    );
+    expect(pushCurationSeason).toHaveBeenCalledWith(
+      mocks.db,
+      {
+        actorUserId: userId,
+        checkpointId,
+        leagueId,
+        reason: "2012 verified",
+        season: 2012,
+      },
+      { push: mocks.push },
     );
-    expect(pushCurationSeason).toHaveBeenCalledWith(mocks.db, {
-      actorUserId: userId,
-      checkpointId,
-      leagueId,
-      reason: "2012 verified",
-      season: 2012,
-    });
     expect(pushAllCurationSeasons).not.toHaveBeenCalled();
   });
 
@@ -115,12 +132,16 @@ describe("POST /api/leagues/[leagueId]/curation/push", () => {
     await expect(response.json()).resolves.toMatchObject({
       pushes: [{ season: 2011 }, { season: 2012 }],
     });
-    expect(pushAllCurationSeasons).toHaveBeenCalledWith(mocks.db, {
-      actorUserId: userId,
-      checkpointId: undefined,
-      leagueId,
-      reason: "all verified",
-    });
+    expect(pushAllCurationSeasons).toHaveBeenCalledWith(
+      mocks.db,
+      {
+        actorUserId: userId,
+        checkpointId: undefined,
+        leagueId,
+        reason: "all verified",
+      },
+      { push: mocks.push },
+    );
   });
 
   it("rejects invalid push payloads", async () => {
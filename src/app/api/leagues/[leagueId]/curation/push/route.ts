@@ -1,9 +1,11 @@
 import { z } from "zod";
 import { requireLeagueRole } from "@/auth/guards";
+import { getEnv } from "@/core/env";
 import { recordApiHandler } from "@/core/metrics";
 import { AppError, ok, toAppError } from "@/core/result";
 import { getDb } from "@/db";
 import { errorJson, readJsonBody, resultJson } from "@/onboarding/http";
+import { createPushNotifier } from "@/push";
 import { pushAllCurationSeasons, pushCurationSeason } from "@/stats";
 
 export const runtime = "nodejs";
@@ -39,7 +41,7 @@ async function curationPushPost(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "data_steward",
+    permission: "leagueData:manage",
   });
   if (!access.ok) {
     return errorJson(access.error);
@@ -64,24 +66,32 @@ async function curationPushPost(
     if (parsed.data.action === "pushAll") {
       return resultJson(
         ok({
-          pushes: await pushAllCurationSeasons(db, {
-            actorUserId: access.value.userId,
-            checkpointId: parsed.data.checkpointId,
-            leagueId,
-            reason: parsed.data.reason,
-          }),
+          pushes: await pushAllCurationSeasons(
+            db,
+            {
+              actorUserId: access.value.userId,
+              checkpointId: parsed.data.checkpointId,
+              leagueId,
+              reason: parsed.data.reason,
+            },
+            { push: createPushNotifier(db, getEnv()) },
+          ),
         }),
       );
     }
     return resultJson(
       ok({
-        push: await pushCurationSeason(db, {
-          actorUserId: access.value.userId,
-          checkpointId: parsed.data.checkpointId,
-          leagueId,
-          reason: parsed.data.reason,
-          season: parsed.data.season,
-        }),
+        push: await pushCurationSeason(
+          db,
+          {
+            actorUserId: access.value.userId,
+            checkpointId: parsed.data.checkpointId,
+            leagueId,
+            reason: parsed.data.reason,
+            season: parsed.data.season,
+          },
+          { push: createPushNotifier(db, getEnv()) },
+        ),
       }),
     );
   } catch (error) {
@@ -79,7 +79,7 @@ describe("POST /api/leagues/[leagueId]/curation/seasons/[season]/mode", () => {
       state: { mode: "finalized", season: 2026 },
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "data_steward" }),
+      expect.objectContaining({ permission: "leagueData:manage" }),
     );
     expect(setCurationSeasonMode).toHaveBeenCalledWith(mocks.db, {
       actorUserId: userId,
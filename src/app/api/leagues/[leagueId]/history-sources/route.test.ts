@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AppError, err, ok } from "@/core/result";
+import { OnboardingError } from "@/onboarding/provider-service";
+import { GET, POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  linkLeagueHistorySource: vi.fn(),
+  listLeagueHistoryTimeline: vi.fn(),
+  requireLeagueRole: vi.fn(),
+}));
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/onboarding/deps", () => ({
+  getLeagueHistorySourceDependencies: () => ({ db: mocks.db }),
+}));
+
+vi.mock("@/onboarding/history-sources", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("@/onboarding/history-sources")>();
+  return {
+    ...actual,
+    linkLeagueHistorySource: mocks.linkLeagueHistorySource,
+    listLeagueHistoryTimeline: mocks.listLeagueHistoryTimeline,
+  };
+});
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId }) };
+}
+
+function request(method: "GET" | "POST", body?: unknown): Request {
+  return new Request(
+    `https://rumbledore.test/api/leagues/${leagueId}/history-sources`,
+    {
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+      headers: { "Content-Type": "application/json" },
+      method,
+    },
+  );
+}
+
+function mockAccess(role: "commissioner" | "member") {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role,
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+const yahooSource = {
+  firstSeason: 2009,
+  lastSeason: 2016,
+  provider: "yahoo",
+  providerLeagueId: "359.l.12345",
+  season: 2016,
+};
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("/api/leagues/[leagueId]/history-sources", () => {
+  it("lists the combined timeline for league members", async () => {
+    mockAccess("member");
+    mocks.listLeagueHistoryTimeline.mockResolvedValue(
+      ok({
+        seasons: [
+          { leagueProviderId: "359.l.12345", provider: "yahoo", season: 2016 },
+          { leagueProviderId: "44", provider: "espn", season: 2017 },
+        ],
+        sources: [],
+      }),
+    );
+
+    const response = await GET(request("GET"), routeContext());
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      seasons: [{ provider: "yahoo" }, { provider: "espn" }],
+    });
+    expect(mocks.requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:view" }),
+    );
+  });
+
+  it("links a provider league as the commissioner", async () => {
+    mockAccess("commissioner");
+    mocks.linkLeagueHistorySource.mockResolvedValue(
+      ok({
+        firstSeason: 2009,
+        id: "00000000-0000-4000-8000-000000000003",
+        lastSeason: 2016,
+        linkedAt: "2026-10-18T00:00:00.000Z",
+        provider: "yahoo",
+        providerLeagueId: "359.l.12345",
+      }),
+    );
+
+    const response = await POST(request("POST", yahooSource), routeContext());
+
+    expect(response.status).toBe(200);
+    expect(mocks.requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:manage" }),
+    );
+    expect(mocks.linkLeagueHistorySource).toHaveBeenCalledWith(
+      { db: mocks.db },
+      { ...yahooSource, leagueId, userId },
+    );
+  });
+
+  it("surfaces overlapping seasons as a conflict", async () => {
+    mockAccess("commissioner");
+    mocks.linkLeagueHistorySource.mockResolvedValue(
+      err(
+        new OnboardingError({
+          code: "LEAGUE_HISTORY_SOURCE_OVERLAP",
+          details: { seasons: [2016] },
+          message: "Those seasons already come from another provider",
+          status: 409,
+        }),
+      ),
+    );
+
+    const response = await POST(request("POST", yahooSource), routeContext());
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "LEAGUE_HISTORY_SOURCE_OVERLAP" },
+    });
+  });
+
+  it("rejects an invalid payload before linking", async () => {
+    mockAccess("commissioner");
+
+    const response = await POST(
+      request("POST", { ...yahooSource, provider: "fleaflicker" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(400);
+    expect(mocks.linkLeagueHistorySource).not.toHaveBeenCalled();
+  });
+
+  it("rejects non-commissioners before linking", async () => {
+    mocks.requireLeagueRole.mockResolvedValue(
+      err(
+        new AppError({
+          code: "LEAGUE_FORBIDDEN",
+          message: "League access requires a higher role",
+          status: 403,
+        }),
+      ),
+    );
+
+    const response = await POST(request("POST", yahooSource), routeContext());
+
+    expect(response.status).toBe(403);
+    expect(mocks.linkLeagueHistorySource).not.toHaveBeenCalled();
+  });
+});
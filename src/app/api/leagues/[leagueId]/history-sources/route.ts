@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { requireLeagueRole } from "@/auth/guards";
+import { recordApiHandler } from "@/core/metrics";
+import { AppError } from "@/core/result";
+import { getDb } from "@/db";
+import { getLeagueHistorySourceDependencies } from "@/onboarding/deps";
+import {
+  linkLeagueHistorySource,
+  listLeagueHistoryTimeline,
+} from "@/onboarding/history-sources";
+import { errorJson, readJsonBody, resultJson } from "@/onboarding/http";
+import { FANTASY_PROVIDER_IDS } from "@/providers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const seasonSchema = z.number().int().min(2000).max(2100);
+
+const historySourceSchema = z.object({
+  firstSeason: seasonSchema,
+  lastSeason: seasonSchema,
+  provider: z.enum(FANTASY_PROVIDER_IDS),
+  providerLeagueId: z.string().trim().min(1).max(200),
+  season: seasonSchema,
+});
+
+interface HistorySourcesRouteContext {
+  params: Promise<{ leagueId: string }>;
+}
+
+async function historySourcesGet(
+  request: Request,
+  context: HistorySourcesRouteContext,
+) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:view",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  return resultJson(await listLeagueHistoryTimeline({ db }, { leagueId }));
+}
+
+async function historySourcesPost(
+  request: Request,
+  context: HistorySourcesRouteContext,
+) {
+  const { leagueId } = await context.params;
+  const deps = getLeagueHistorySourceDependencies();
+  const access = await requireLeagueRole({
+    db: deps.db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:manage",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const body = await readJsonBody(request);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+
+  const parsed = historySourceSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        code: "INVALID_LEAGUE_HISTORY_SOURCE",
+        message: "League history source payload is invalid",
+        status: 400,
+      }),
+    );
+  }
+
+  return resultJson(
+    await linkLeagueHistorySource(deps, {
+      ...parsed.data,
+      leagueId,
+      userId: access.value.userId,
+    }),
+  );
+}
+
+export const GET = recordApiHandler(
+  { method: "GET", route: "/api/leagues/[leagueId]/history-sources" },
+  historySourcesGet,
+);
+
+export const POST = recordApiHandler(
+  { method: "POST", route: "/api/leagues/[leagueId]/history-sources" },
+  historySourcesPost,
+);
@@ -77,7 +77,7 @@ async function authorize(request: Request, leagueId: string) {
     db: getDb(),
     headers: request.headers,
     leagueId,
-    minRole: "member",
+    permission: "league:participate",
   });
 }
 
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { requireLeagueRole } from "@/auth/guards";
+import { AppError } from "@/core/result";
+import { updateKeeperBoard } from "@/keepers/keeper-board";
+import { POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  requireLeagueRole: vi.fn(),
+  updateKeeperBoard: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/keepers/keeper-board", () => ({
+  updateKeeperBoard: mocks.updateKeeperBoard,
+}));
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId }) };
+}
+
+function boardRequest(body: unknown): Request {
+  return new Request(
+    `https://rumbledore.test/api/leagues/${leagueId}/keepers/board`,
+    {
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+      method: "POST",
+    },
+  );
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/leagues/[leagueId]/keepers/board", () => {
+  it("requires the commissioner and passes the deadline, lock and rules through", async () => {
+    mocks.requireLeagueRole.mockResolvedValue({
+      ok: true,
+      value: { leagueId, role: "commissioner", userId },
+    });
+    mocks.updateKeeperBoard.mockResolvedValue({
+      deadlineAt: "2026-08-30T17:00:00.000Z",
+      lockedAt: null,
+      season: 2026,
+    });
+
+    const response = await POST(
+      boardRequest({
+        deadlineAt: "2026-08-30T17:00:00.000Z",
+        locked: false,
+        rules: { maxKeepers: 3 },
+      }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:manage" }),
+    );
+    expect(updateKeeperBoard).toHaveBeenCalledWith(mocks.db, {
+      actorUserId: userId,
+      deadlineAt: new Date("2026-08-30T17:00:00.000Z"),
+      leagueId,
+      locked: false,
+      rules: { maxKeepers: 3 },
+    });
+  });
+
+  it("rejects unknown rule keys", async () => {
+    mocks.requireLeagueRole.mockResolvedValue({
+      ok: true,
+      value: { leagueId, role: "commissioner", userId },
+    });
+
+    const response = await POST(
+      boardRequest({ rules: { keeperTax: 2 } }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(400);
+    expect(updateKeeperBoard).not.toHaveBeenCalled();
+  });
+
+  it("turns away members without touching the board", async () => {
+    mocks.requireLeagueRole.mockResolvedValue({
+      error: new AppError({
+        code: "LEAGUE_ROLE_FORBIDDEN",
+        message: "League role is not sufficient",
+        status: 403,
+      }),
+      ok: false,
+    });
+
+    const response = await POST(boardRequest({ locked: true }), routeContext());
+
+    expect(response.status).toBe(403);
+    expect(updateKeeperBoard).not.toHaveBeenCalled();
+  });
+});
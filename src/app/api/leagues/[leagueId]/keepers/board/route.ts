@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { requireLeagueRole } from "@/auth/guards";
+import { recordApiHandler } from "@/core/metrics";
+import { AppError, toAppError } from "@/core/result";
+import { getDb } from "@/db";
+import { updateKeeperBoard } from "@/keepers/keeper-board";
+import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_KEEPER_BOARD_BODY_BYTES = 1024;
+
+const roundSetting = z.number().int().min(0).max(30).nullable().optional();
+
+const keeperBoardSchema = z
+  .object({
+    deadlineAt: z.iso.datetime({ offset: true }).nullable().optional(),
+    locked: z.boolean().optional(),
+    rules: z
+      .object({
+        maxKeepers: roundSetting,
+        maxYearsKept: roundSetting,
+        roundPenalty: roundSetting,
+        undraftedRound: roundSetting,
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+interface KeeperBoardRouteContext {
+  params: Promise<{ leagueId: string }>;
+}
+
+async function keeperBoardPost(
+  request: Request,
+  context: KeeperBoardRouteContext,
+) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:manage",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const body = await readJsonBody(request, MAX_KEEPER_BOARD_BODY_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+  const parsed = keeperBoardSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        cause: parsed.error,
+        code: "INVALID_KEEPER_BOARD_REQUEST",
+        message: "Keeper board updates take a deadline, a lock, or rules",
+        status: 400,
+      }),
+    );
+  }
+
+  try {
+    const result = await updateKeeperBoard(db, {
+      actorUserId: access.value.userId,
+      deadlineAt:
+        parsed.data.deadlineAt === undefined
+          ? undefined
+          : parsed.data.deadlineAt === null
+            ? null
+            : new Date(parsed.data.deadlineAt),
+      leagueId,
+      locked: parsed.data.locked,
+      rules: parsed.data.rules,
+    });
+    return okJson(result);
+  } catch (error) {
+    return errorJson(
+      toAppError(error, {
+        code: "KEEPER_BOARD_UPDATE_FAILED",
+        message: "Keeper board could not be updated",
+        status: 500,
+      }),
+    );
+  }
+}
+
+export const POST = recordApiHandler(
+  { method: "POST", route: "/api/leagues/[leagueId]/keepers/board" },
+  keeperBoardPost,
+);
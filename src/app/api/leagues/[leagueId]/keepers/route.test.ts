@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { requireLeagueRole } from "@/auth/guards";
+import { AppError } from "@/core/result";
+import { setKeeperDeclaration } from "@/keepers/keeper-board";
+import { POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  requireLeagueRole: vi.fn(),
+  setKeeperDeclaration: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+// The limiter has no Redis in vitest and falls back to an in-memory counter
+// whose state leaks between runs; src/core/rate-limit.test.ts covers the guard
+// itself. Mocked here so these tests assert the route, not the counter.
+vi.mock("@/core/rate-limit", () => ({
+  enforceApiRateLimitOrReject: async () => null,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/keepers/keeper-board", () => ({
+  setKeeperDeclaration: mocks.setKeeperDeclaration,
+}));
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId }) };
+}
+
+function keeperRequest(body: unknown): Request {
+  return new Request(
+    `https://rumbledore.test/api/leagues/${leagueId}/keepers`,
+    {
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+      method: "POST",
+    },
+  );
+}
+
+function mockAccess(role = "member") {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role,
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/leagues/[leagueId]/keepers", () => {
+  it("declares a keeper as the session user with their league role", async () => {
+    mockAccess();
+    mocks.setKeeperDeclaration.mockResolvedValue({
+      costRound: 3,
+      providerPlayerId: "4241457",
+      providerTeamId: "1",
+      status: "declared",
+    });
+
+    const response = await POST(
+      keeperRequest({ action: "declare", providerPlayerId: "4241457" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(201);
+    await expect(response.json()).resolves.toMatchObject({ costRound: 3 });
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:participate" }),
+    );
+    expect(setKeeperDeclaration).toHaveBeenCalledWith(mocks.db, {
+      action: "declare",
+      actorRole: "member",
+      actorUserId: userId,
+      leagueId,
+      providerPlayerId: "4241457",
+      providerTeamId: undefined,
+    });
+  });
+
+  it("rejects malformed bodies before touching the board", async () => {
+    mockAccess();
+
+    const response = await POST(
+      keeperRequest({ action: "trade", providerPlayerId: "" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "INVALID_KEEPER_REQUEST" },
+    });
+    expect(setKeeperDeclaration).not.toHaveBeenCalled();
+  });
+
+  it("keeps the lock refusal as a 409", async () => {
+    mockAccess();
+    mocks.setKeeperDeclaration.mockRejectedValue(
+      new AppError({
+        code: "KEEPER_BOARD_LOCKED",
+        message: "The commissioner has locked the keeper board",
+        status: 409,
+      }),
+    );
+
+    const response = await POST(
+      keeperRequest({ action: "release", providerPlayerId: "4241457" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "KEEPER_BOARD_LOCKED" },
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { requireLeagueRole } from "@/auth/guards";
+import { recordApiHandler } from "@/core/metrics";
+import { enforceApiRateLimitOrReject } from "@/core/rate-limit";
+import { AppError, toAppError } from "@/core/result";
+import { getDb } from "@/db";
+import { setKeeperDeclaration } from "@/keepers/keeper-board";
+import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_KEEPER_BODY_BYTES = 1024;
+
+const keeperDeclarationSchema = z.object({
+  action: z.enum(["declare", "release"]),
+  providerPlayerId: z.string().trim().min(1).max(100),
+  providerTeamId: z.string().trim().min(1).max(100).optional(),
+});
+
+interface KeepersRouteContext {
+  params: Promise<{ leagueId: string }>;
+}
+
+async function keepersPost(request: Request, context: KeepersRouteContext) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:participate",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  // Every declaration recomputes the league's keeper projections, so a script
+  // toggling a keeper on and off would churn full roster scans.
+  const limited = await enforceApiRateLimitOrReject({
+    max: 30,
+    message: "Too many keeper changes. Try again shortly.",
+    scope: "league-keepers",
+    subject: access.value.userId,
+    windowSeconds: 60,
+  });
+  if (limited) {
+    return limited;
+  }
+
+  const body = await readJsonBody(request, MAX_KEEPER_BODY_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+  const parsed = keeperDeclarationSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        cause: parsed.error,
+        code: "INVALID_KEEPER_REQUEST",
+        message: "Keeper requests require an action and a player",
+        status: 400,
+      }),
+    );
+  }
+
+  try {
+    const result = await setKeeperDeclaration(db, {
+      action: parsed.data.action,
+      actorRole: access.value.role,
+      actorUserId: access.value.userId,
+      leagueId,
+      providerPlayerId: parsed.data.providerPlayerId,
+      providerTeamId: parsed.data.providerTeamId,
+    });
+    return okJson(result, result.status === "declared" ? 201 : 200);
+  } catch (error) {
+    return errorJson(
+      toAppError(error, {
+        code: "KEEPER_UPDATE_FAILED",
+        message: "Keeper could not be updated",
+        status: 500,
+      }),
+    );
+  }
+}
+
+export const POST = recordApiHandler(
+  { method: "POST", route: "/api/leagues/[leagueId]/keepers" },
+  keepersPost,
+);
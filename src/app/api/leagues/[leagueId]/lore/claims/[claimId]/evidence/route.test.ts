@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AppError } from "@/core/result";
+import { attachLoreEvidence } from "@/lore";
+import { POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  attachLoreEvidence: vi.fn(),
+  db: { select: vi.fn() },
+  getLoreClaimEvidence: vi.fn(),
+  requireLeagueRole: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+vi.mock("@/core/rate-limit", () => ({
+  enforceApiRateLimitOrReject: vi.fn(async () => null),
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/lore", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lore")>();
+  return {
+    ...actual,
+    attachLoreEvidence: mocks.attachLoreEvidence,
+  };
+});
+
+vi.mock("@/lore/member-experience", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("@/lore/member-experience")>();
+  return {
+    ...actual,
+    getLoreClaimEvidence: mocks.getLoreClaimEvidence,
+  };
+});
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+const memberId = "00000000-0000-4000-8000-000000000003";
+const claimId = "00000000-0000-4000-8000-000000000004";
+const matchupId = "00000000-0000-4000-8000-000000000005";
+
+function routeContext() {
+  return { params: Promise.resolve({ claimId, leagueId }) };
+}
+
+function request(body: unknown): Request {
+  return new Request(
+    `https://rumbledore.test/api/leagues/${leagueId}/lore/claims/${claimId}/evidence`,
+    {
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+      method: "POST",
+    },
+  );
+}
+
+function mockAccess() {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role: "member",
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+function mockMembership() {
+  const limit = vi.fn().mockResolvedValue([{ id: memberId }]);
+  const where = vi.fn(() => ({ limit }));
+  const from = vi.fn(() => ({ where }));
+  mocks.db.select.mockReturnValue({ from });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/leagues/[leagueId]/lore/claims/[claimId]/evidence", () => {
+  it("attaches matchup evidence as the calling member and returns the list", async () => {
+    mockAccess();
+    mockMembership();
+    mocks.getLoreClaimEvidence.mockResolvedValue([
+      {
+        attachedAt: "2026-10-18T12:00:00.000Z",
+        attachedByName: "Fixture Manager",
+        href: null,
+        id: "00000000-0000-4000-8000-000000000006",
+        kind: "matchup",
+        label: "2025 Week 3: 141.2-98.4",
+        note: "The box score",
+      },
+    ]);
+
+    const response = await POST(
+      request({ kind: "matchup", matchupId, note: "The box score" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      claimId,
+      evidence: [{ kind: "matchup", label: "2025 Week 3: 141.2-98.4" }],
+    });
+    expect(attachLoreEvidence).toHaveBeenCalledWith({
+      deps: { db: mocks.db },
+      input: {
+        claimId,
+        kind: "matchup",
+        leagueId,
+        matchupId,
+        memberId,
+        note: "The box score",
+      },
+    });
+  });
+
+  it("rejects screenshot evidence without a valid link", async () => {
+    mockAccess();
+
+    const response = await POST(
+      request({ kind: "screenshot", url: "not a link" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "INVALID_LORE_EVIDENCE_REQUEST" },
+    });
+    expect(attachLoreEvidence).not.toHaveBeenCalled();
+  });
+
+  it("surfaces engine errors such as the evidence limit", async () => {
+    mockAccess();
+    mockMembership();
+    mocks.attachLoreEvidence.mockRejectedValue(
+      new AppError({
+        code: "LORE_EVIDENCE_LIMIT",
+        message: "Lore claims can hold at most 20 pieces of evidence",
+        status: 409,
+      }),
+    );
+
+    const response = await POST(
+      request({ kind: "screenshot", url: "https://example.test/shot.png" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "LORE_EVIDENCE_LIMIT" },
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { recordApiHandler } from "@/core/metrics";
+import { enforceApiRateLimitOrReject } from "@/core/rate-limit";
+import { AppError, toAppError } from "@/core/result";
+import { uuidParamError } from "@/core/uuid";
+import { attachLoreEvidence } from "@/lore";
+import { getLoreClaimEvidence } from "@/lore/member-experience";
+import type { LoreEvidenceAttachResponse } from "@/lore/member-ui";
+import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
+import {
+  authorizeLoreMember,
+  getMemberIdForUser,
+} from "../../../lore-route-helpers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_LORE_EVIDENCE_BODY_BYTES = 4096;
+
+const note = z.string().max(280).optional();
+const attachLoreEvidenceSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("matchup"), matchupId: z.uuid(), note }),
+  z.object({ allTimeRecordId: z.uuid(), kind: z.literal("record"), note }),
+  z.object({ kind: z.literal("screenshot"), note, url: z.url() }),
+]);
+
+interface LoreEvidenceRouteContext {
+  params: Promise<{ claimId: string; leagueId: string }>;
+}
+
+async function loreEvidencePost(
+  request: Request,
+  context: LoreEvidenceRouteContext,
+) {
+  const { claimId, leagueId } = await context.params;
+  const { access, db } = await authorizeLoreMember(
+    request,
+    leagueId,
+    "league:participate",
+  );
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const invalidClaimId = uuidParamError(claimId, {
+    code: "INVALID_CLAIM_ID",
+    label: "Lore claim id",
+  });
+  if (invalidClaimId) {
+    return errorJson(invalidClaimId);
+  }
+
+  const limited = await enforceApiRateLimitOrReject({
+    max: 20,
+    message: "Too much lore evidence at once. Try again shortly.",
+    scope: "lore-claim-evidence",
+    subject: access.value.userId,
+    windowSeconds: 60,
+  });
+  if (limited) {
+    return limited;
+  }
+
+  const body = await readJsonBody(request, MAX_LORE_EVIDENCE_BODY_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+
+  const parsed = attachLoreEvidenceSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        code: "INVALID_LORE_EVIDENCE_REQUEST",
+        message: "Lore evidence payload is invalid",
+        status: 400,
+      }),
+    );
+  }
+
+  try {
+    const memberId = await getMemberIdForUser(db, {
+      leagueId,
+      userId: access.value.userId,
+    });
+    await attachLoreEvidence({
+      deps: { db },
+      input: { ...parsed.data, claimId, leagueId, memberId },
+    });
+
+    return okJson({
+      claimId,
+      evidence: await getLoreClaimEvidence(db, { claimId, leagueId }),
+    } satisfies LoreEvidenceAttachResponse);
+  } catch (error) {
+    return errorJson(
+      toAppError(error, {
+        code: "LORE_EVIDENCE_FAILED",
+        message: "Lore evidence could not be attached",
+        status: 500,
+      }),
+    );
+  }
+}
+
+export const POST = recordApiHandler(
+  {
+    method: "POST",
+    route: "/api/leagues/[leagueId]/lore/claims/[claimId]/evidence",
+  },
+  loreEvidencePost,
+);
@@ -77,6 +77,10 @@ describe("GET /api/leagues/[leagueId]/lore/claims/[claimId]", () => {
 
     expect(response.status).toBe(200);
     await expect(response.json()).resolves.toMatchObject({ claimId });
+    // Spectators read lore; only writes ask for league:participate.
+    expect(mocks.requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:view" }),
+    );
   });
 
   it("answers a malformed claim id with a 400 instead of a Postgres 500", async () => {
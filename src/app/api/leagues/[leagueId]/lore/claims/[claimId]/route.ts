@@ -18,7 +18,11 @@ interface LoreClaimRouteContext {
 
 async function loreClaimGet(request: Request, context: LoreClaimRouteContext) {
   const { claimId, leagueId } = await context.params;
-  const { access, db } = await authorizeLoreMember(request, leagueId);
+  const { access, db } = await authorizeLoreMember(
+    request,
+    leagueId,
+    "league:view",
+  );
   if (!access.ok) {
     return errorJson(access.error);
   }
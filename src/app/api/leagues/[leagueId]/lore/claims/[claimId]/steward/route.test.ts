@@ -12,7 +12,9 @@ const mocks = vi.hoisted(() => ({
   realtime: { publishLeagueLoreCanonized: vi.fn() },
   createPushNotifier: vi.fn(),
   createRealtimePublisher: vi.fn(),
+  createWebhookDeliverer: vi.fn(),
   stewardLoreClaim: vi.fn(),
+  webhooks: { config: { mock: true } },
 }));
 
 vi.mock("@/core/env", () => ({
@@ -27,9 +29,14 @@ vi.mock("@/realtime", () => ({
   createRealtimePublisher: mocks.createRealtimePublisher,
 }));
 
+vi.mock("@/webhooks/dependencies", () => ({
+  createWebhookDeliverer: mocks.createWebhookDeliverer,
+}));
+
 vi.mock("@/push", () => ({
   PUSH_EVENTS: {
     leagueLoreCanonized: "league.lore.canonized",
+    leagueLoreDisputed: "league.lore.disputed",
     leagueLoreVoteOpened: "league.lore.vote.opened",
   },
   createPushNotifier: mocks.createPushNotifier,
@@ -99,6 +106,7 @@ beforeEach(() => {
   mocks.getEnv.mockReturnValue({ realtime: { mock: true } });
   mocks.createPushNotifier.mockReturnValue(mocks.push);
   mocks.createRealtimePublisher.mockReturnValue(mocks.realtime);
+  mocks.createWebhookDeliverer.mockReturnValue(mocks.webhooks);
 });
 
 afterEach(() => {
@@ -141,11 +149,16 @@ describe("POST /api/leagues/[leagueId]/lore/claims/[claimId]/steward", () => {
       expect.objectContaining({
         db: mocks.db,
         leagueId,
-        minRole: "data_steward",
+        permission: "lore:steward",
       }),
     );
     expect(stewardLoreClaim).toHaveBeenCalledWith({
-      deps: { db: mocks.db, push: mocks.push, realtime: mocks.realtime },
+      deps: {
+        db: mocks.db,
+        push: mocks.push,
+        realtime: mocks.realtime,
+        webhooks: mocks.webhooks,
+      },
       input: {
         action: "ratify",
         actorMemberId: memberId,
@@ -212,7 +225,12 @@ describe("POST /api/leagues/[leagueId]/lore/claims/[claimId]/steward", () => {
 
     expect(response.status).toBe(200);
     expect(stewardLoreClaim).toHaveBeenCalledWith({
-      deps: { db: mocks.db, push: mocks.push, realtime: mocks.realtime },
+      deps: {
+        db: mocks.db,
+        push: mocks.push,
+        realtime: mocks.realtime,
+        webhooks: mocks.webhooks,
+      },
       input: {
         action: "override",
         actorMemberId: memberId,
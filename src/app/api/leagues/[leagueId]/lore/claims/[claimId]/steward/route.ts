@@ -12,6 +12,7 @@ import {
 import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
 import { createPushNotifier } from "@/push";
 import { createRealtimePublisher } from "@/realtime";
+import { createWebhookDeliverer } from "@/webhooks/dependencies";
 import {
   authorizeLoreMember,
   getMemberIdForUser,
@@ -66,7 +67,7 @@ async function loreStewardPost(
   const { access, db } = await authorizeLoreMember(
     request,
     leagueId,
-    "data_steward",
+    "lore:steward",
   );
   if (!access.ok) {
     return errorJson(access.error);
@@ -107,6 +108,7 @@ async function loreStewardPost(
         db,
         push: createPushNotifier(db, env),
         realtime: createRealtimePublisher(env),
+        webhooks: createWebhookDeliverer(db, env),
       },
       input: {
         action: parsed.data.action,
@@ -122,7 +122,7 @@ describe("POST /api/leagues/[leagueId]/lore/claims/[claimId]/votes", () => {
       expect.objectContaining({
         db: mocks.db,
         leagueId,
-        minRole: "member",
+        permission: "league:participate",
       }),
     );
     expect(castLoreVote).toHaveBeenCalledWith({
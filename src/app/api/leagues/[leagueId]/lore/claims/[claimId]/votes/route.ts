@@ -27,7 +27,11 @@ interface LoreVotesRouteContext {
 
 async function loreVotesPost(request: Request, context: LoreVotesRouteContext) {
   const { claimId, leagueId } = await context.params;
-  const { access, db } = await authorizeLoreMember(request, leagueId);
+  const { access, db } = await authorizeLoreMember(
+    request,
+    leagueId,
+    "league:participate",
+  );
   if (!access.ok) {
     return errorJson(access.error);
   }
@@ -3,19 +3,22 @@ import { requireLeagueRole } from "@/auth/guards";
 import { AppError } from "@/core/result";
 import { submitLoreClaim } from "@/lore";
 import { getLoreClaimVerificationSummary } from "@/lore/member-experience";
-import { POST } from "./route";
+import { GET, POST } from "./route";
 
 const mocks = vi.hoisted(() => ({
   db: { select: vi.fn() },
   getEnv: vi.fn(),
   getLoreClaimVerificationSummary: vi.fn(),
+  getLoreSectionData: vi.fn(),
   inngestSend: vi.fn(),
   push: { notifyLeague: vi.fn() },
   requireLeagueRole: vi.fn(),
   realtime: { publishLeagueLoreVoteOpened: vi.fn() },
   createPushNotifier: vi.fn(),
   createRealtimePublisher: vi.fn(),
+  createWebhookDeliverer: vi.fn(),
   submitLoreClaim: vi.fn(),
+  webhooks: { config: { mock: true } },
 }));
 
 vi.mock("@/core/env", () => ({
@@ -40,9 +43,14 @@ vi.mock("@/realtime", () => ({
   createRealtimePublisher: mocks.createRealtimePublisher,
 }));
 
+vi.mock("@/webhooks/dependencies", () => ({
+  createWebhookDeliverer: mocks.createWebhookDeliverer,
+}));
+
 vi.mock("@/push", () => ({
   PUSH_EVENTS: {
     leagueLoreCanonized: "league.lore.canonized",
+    leagueLoreDisputed: "league.lore.disputed",
     leagueLoreVoteOpened: "league.lore.vote.opened",
   },
   createPushNotifier: mocks.createPushNotifier,
@@ -66,6 +74,7 @@ vi.mock("@/lore/member-experience", async (importOriginal) => {
   return {
     ...actual,
     getLoreClaimVerificationSummary: mocks.getLoreClaimVerificationSummary,
+    getLoreSectionData: mocks.getLoreSectionData,
   };
 });
 
@@ -114,6 +123,7 @@ beforeEach(() => {
   mocks.getEnv.mockReturnValue({ jobs: { inngest: { mode: "mock" } } });
   mocks.createPushNotifier.mockReturnValue(mocks.push);
   mocks.createRealtimePublisher.mockReturnValue(mocks.realtime);
+  mocks.createWebhookDeliverer.mockReturnValue(mocks.webhooks);
 });
 
 afterEach(() => {
@@ -156,11 +166,16 @@ describe("POST /api/leagues/[leagueId]/lore/claims", () => {
       expect.objectContaining({
         db: mocks.db,
         leagueId,
-        minRole: "member",
+        permission: "league:participate",
       }),
     );
     expect(submitLoreClaim).toHaveBeenCalledWith({
-      deps: { db: mocks.db, push: mocks.push, realtime: mocks.realtime },
+      deps: {
+        db: mocks.db,
+        push: mocks.push,
+        realtime: mocks.realtime,
+        webhooks: mocks.webhooks,
+      },
       input: expect.objectContaining({
         authorMemberId: memberId,
         body: "This trade lives in shame.",
@@ -253,7 +268,12 @@ describe("POST /api/leagues/[leagueId]/lore/claims", () => {
       },
     });
     expect(submitLoreClaim).toHaveBeenCalledWith({
-      deps: { db: mocks.db, push: mocks.push, realtime: mocks.realtime },
+      deps: {
+        db: mocks.db,
+        push: mocks.push,
+        realtime: mocks.realtime,
+        webhooks: mocks.webhooks,
+      },
       input: expect.objectContaining({
         assertions: [
           {
@@ -306,7 +326,12 @@ describe("POST /api/leagues/[leagueId]/lore/claims", () => {
       status: "vote",
     });
     expect(submitLoreClaim).toHaveBeenCalledWith({
-      deps: { db: mocks.db, push: mocks.push, realtime: mocks.realtime },
+      deps: {
+        db: mocks.db,
+        push: mocks.push,
+        realtime: mocks.realtime,
+        webhooks: mocks.webhooks,
+      },
       input: expect.objectContaining({
         authorMemberId: memberId,
         body: "The old canon needs to be overturned.",
@@ -354,3 +379,37 @@ describe("POST /api/leagues/[leagueId]/lore/claims", () => {
     expect(submitLoreClaim).not.toHaveBeenCalled();
   });
 });
+
+describe("GET /api/leagues/[leagueId]/lore/claims", () => {
+  it("lets a spectator read the lore section", async () => {
+    mocks.requireLeagueRole.mockResolvedValue({
+      ok: true,
+      value: {
+        leagueId,
+        role: "spectator",
+        session: { user: { id: userId } },
+        userId,
+      },
+    });
+    mocks.getLoreSectionData.mockResolvedValue({
+      data: { claims: [] },
+      status: "ready",
+    });
+
+    const response = await GET(
+      new Request(
+        `https://rumbledore.test/api/leagues/${leagueId}/lore/claims`,
+      ),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:view" }),
+    );
+    expect(mocks.getLoreSectionData).toHaveBeenCalledWith(mocks.db, {
+      isSteward: false,
+      leagueId,
+    });
+  });
+});
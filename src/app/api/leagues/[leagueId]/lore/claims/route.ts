@@ -21,6 +21,7 @@ import { SEASON_LORE_METRICS, WEEKLY_LORE_METRICS } from "@/lore/member-ui";
 import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
 import { createPushNotifier } from "@/push";
 import { createRealtimePublisher } from "@/realtime";
+import { createWebhookDeliverer } from "@/webhooks/dependencies";
 import { authorizeLoreMember, getMemberIdForUser } from "../lore-route-helpers";
 
 export const runtime = "nodejs";
@@ -126,7 +127,11 @@ async function loreClaimsPost(
   context: LoreClaimsRouteContext,
 ) {
   const { leagueId } = await context.params;
-  const { access, db } = await authorizeLoreMember(request, leagueId);
+  const { access, db } = await authorizeLoreMember(
+    request,
+    leagueId,
+    "league:participate",
+  );
   if (!access.ok) {
     return errorJson(access.error);
   }
@@ -165,6 +170,7 @@ async function loreClaimsPost(
         db,
         push: createPushNotifier(db, env),
         realtime: createRealtimePublisher(env),
+        webhooks: createWebhookDeliverer(db, env),
       },
       input: {
         ...(parsed.data.assertions
@@ -216,7 +222,11 @@ async function loreClaimsGet(
   context: LoreClaimsRouteContext,
 ) {
   const { leagueId } = await context.params;
-  const { access, db } = await authorizeLoreMember(request, leagueId);
+  const { access, db } = await authorizeLoreMember(
+    request,
+    leagueId,
+    "league:view",
+  );
   if (!access.ok) {
     return errorJson(access.error);
   }
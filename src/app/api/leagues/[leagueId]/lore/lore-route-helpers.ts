@@ -1,4 +1,4 @@
-import { requireLeagueRole } from "@/auth/guards";
+import { type LeaguePermission, requireLeagueRole } from "@/auth/guards";
 import { getDb } from "@/db";
 
 export {
@@ -6,10 +6,15 @@ export {
   isLoreSteward,
 } from "@/lore/member-auth";
 
+/**
+ * Resolves the caller's league access for a lore or poll route. There is no
+ * default permission: reads ask for `league:view` so spectators get through,
+ * writes ask for `league:participate`.
+ */
 export async function authorizeLoreMember(
   request: Request,
   leagueId: string,
-  minRole: "data_steward" | "member" = "member",
+  permission: LeaguePermission,
 ) {
   const db = getDb();
   return {
@@ -17,7 +22,7 @@ export async function authorizeLoreMember(
       db,
       headers: request.headers,
       leagueId,
-      minRole,
+      permission,
     }),
     db,
   };
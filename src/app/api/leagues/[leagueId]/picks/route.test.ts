@@ -98,7 +98,11 @@ describe("POST /api/leagues/[leagueId]/picks", () => {
       remainingPicks: 9,
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ db: mocks.db, leagueId, minRole: "member" }),
+      expect.objectContaining({
+        db: mocks.db,
+        leagueId,
+        permission: "league:participate",
+      }),
     );
   });
 
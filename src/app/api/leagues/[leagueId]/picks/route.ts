@@ -30,7 +30,7 @@ async function picksPost(request: Request, context: PicksRouteContext) {
     db,
     headers: request.headers,
     leagueId,
-    minRole: "member",
+    permission: "league:participate",
   });
   if (!access.ok) {
     return errorJson(access.error);
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { requireLeagueRole } from "@/auth/guards";
+import { submitBracketChallengePicks } from "@/betting/bracket-challenge";
+import { AppError } from "@/core/result";
+import { POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  requireLeagueRole: vi.fn(),
+  submitBracketChallengePicks: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+// Bracket entries are rate limited. Without Redis the limiter counts in
+// memory for the whole file, so it is stubbed here and tested on its own in
+// src/core/rate-limit.test.ts.
+vi.mock("@/core/rate-limit", () => ({
+  enforceApiRateLimitOrReject: async () => null,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/betting/bracket-challenge", () => ({
+  submitBracketChallengePicks: mocks.submitBracketChallengePicks,
+}));
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId }) };
+}
+
+function bracketRequest(body: unknown): Request {
+  return new Request(
+    `https://rumbledore.test/api/leagues/${leagueId}/playoffs/bracket-challenge`,
+    {
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+      method: "POST",
+    },
+  );
+}
+
+function mockAccess() {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role: "member",
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/leagues/[leagueId]/playoffs/bracket-challenge", () => {
+  it("saves the session user's bracket", async () => {
+    mockAccess();
+    mocks.submitBracketChallengePicks.mockResolvedValue({
+      savedPicks: 2,
+      season: 2026,
+    });
+    const picks = [
+      { gameId: "winners-1-1", providerTeamId: "4" },
+      { gameId: "winners-2-0", providerTeamId: "1" },
+    ];
+
+    const response = await POST(bracketRequest({ picks }), routeContext());
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      savedPicks: 2,
+      season: 2026,
+    });
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:participate" }),
+    );
+    expect(submitBracketChallengePicks).toHaveBeenCalledWith(mocks.db, {
+      leagueId,
+      picks,
+      userId,
+    });
+  });
+
+  it("rejects a malformed body before touching the bracket", async () => {
+    mockAccess();
+
+    const response = await POST(
+      bracketRequest({
+        picks: [{ gameId: "toilet_bowl-1-0", providerTeamId: "9" }],
+        userId,
+      }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "INVALID_BRACKET_CHALLENGE_REQUEST" },
+    });
+    expect(submitBracketChallengePicks).not.toHaveBeenCalled();
+  });
+
+  it("keeps the locked-bracket refusal as a 409", async () => {
+    mockAccess();
+    mocks.submitBracketChallengePicks.mockRejectedValue(
+      new AppError({
+        code: "BRACKET_CHALLENGE_LOCKED",
+        message: "The playoffs have started, so brackets are locked",
+        status: 409,
+      }),
+    );
+
+    const response = await POST(bracketRequest({ picks: [] }), routeContext());
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "BRACKET_CHALLENGE_LOCKED" },
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { requireLeagueRole } from "@/auth/guards";
+import { submitBracketChallengePicks } from "@/betting/bracket-challenge";
+import { recordApiHandler } from "@/core/metrics";
+import { enforceApiRateLimitOrReject } from "@/core/rate-limit";
+import { AppError, toAppError } from "@/core/result";
+import { getDb } from "@/db";
+import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_BRACKET_BODY_BYTES = 8192;
+
+// A 32-team bracket plays 31 games; no league playoff comes close.
+const MAX_BRACKET_GAMES = 31;
+
+const bracketPicksSchema = z
+  .object({
+    picks: z
+      .array(
+        z
+          .object({
+            gameId: z.string().regex(/^winners-\d{1,2}-\d{1,2}$/),
+            providerTeamId: z.string().trim().min(1).max(100),
+          })
+          .strict(),
+      )
+      .max(MAX_BRACKET_GAMES),
+  })
+  .strict();
+
+interface BracketChallengeRouteContext {
+  params: Promise<{ leagueId: string }>;
+}
+
+async function bracketChallengePost(
+  request: Request,
+  context: BracketChallengeRouteContext,
+) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:participate",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const limited = await enforceApiRateLimitOrReject({
+    max: 30,
+    message: "Too many bracket saves. Try again shortly.",
+    scope: "league-bracket-challenge",
+    subject: access.value.userId,
+    windowSeconds: 60,
+  });
+  if (limited) {
+    return limited;
+  }
+
+  const body = await readJsonBody(request, MAX_BRACKET_BODY_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+  const parsed = bracketPicksSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        cause: parsed.error,
+        code: "INVALID_BRACKET_CHALLENGE_REQUEST",
+        message: "A bracket is a list of games, each with a picked team",
+        status: 400,
+      }),
+    );
+  }
+
+  try {
+    const result = await submitBracketChallengePicks(db, {
+      leagueId,
+      picks: parsed.data.picks,
+      userId: access.value.userId,
+    });
+    return okJson(result);
+  } catch (error) {
+    return errorJson(
+      toAppError(error, {
+        code: "BRACKET_CHALLENGE_SAVE_FAILED",
+        message: "Bracket could not be saved",
+        status: 500,
+      }),
+    );
+  }
+}
+
+export const POST = recordApiHandler(
+  {
+    method: "POST",
+    route: "/api/leagues/[leagueId]/playoffs/bracket-challenge",
+  },
+  bracketChallengePost,
+);
@@ -121,7 +121,7 @@ describe("POST /api/leagues/[leagueId]/polls/[pollId]/votes", () => {
       expect.objectContaining({
         db: mocks.db,
         leagueId,
-        minRole: "member",
+        permission: "league:participate",
       }),
     );
     expect(castPollVote).toHaveBeenCalledWith({
@@ -27,7 +27,11 @@ interface PollVotesRouteContext {
 
 async function pollVotesPost(request: Request, context: PollVotesRouteContext) {
   const { leagueId, pollId } = await context.params;
-  const { access, db } = await authorizeLoreMember(request, leagueId);
+  const { access, db } = await authorizeLoreMember(
+    request,
+    leagueId,
+    "league:participate",
+  );
   if (!access.ok) {
     return errorJson(access.error);
   }
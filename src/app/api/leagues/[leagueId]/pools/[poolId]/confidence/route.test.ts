@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { submitConfidencePicks } from "@/betting/confidence-pool";
+import { AppError } from "@/core/result";
+import { POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  requireLeagueRole: vi.fn(),
+  submitConfidencePicks: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+// Stubbed so the repeated confidence submissions below exercise the route,
+// not the limiter's in-memory fallback counter (vitest has no Redis).
+// src/core/rate-limit.test.ts tests the limiter.
+vi.mock("@/core/rate-limit", () => ({
+  enforceApiRateLimitOrReject: async () => null,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/betting/confidence-pool", () => ({
+  submitConfidencePicks: mocks.submitConfidencePicks,
+}));
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+const poolId = "00000000-0000-4000-8000-000000000003";
+const pickWeekId = "00000000-0000-4000-8000-000000000004";
+const firstGame = "00000000-0000-4000-8000-000000000005";
+const secondGame = "00000000-0000-4000-8000-000000000006";
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId, poolId }) };
+}
+
+function confidenceRequest(body: unknown): Request {
+  return new Request(
+    `https://rumbledore.test/api/leagues/${leagueId}/pools/${poolId}/confidence`,
+    {
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+      method: "POST",
+    },
+  );
+}
+
+function mockAccess() {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role: "member",
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/leagues/[leagueId]/pools/[poolId]/confidence", () => {
+  it("saves the ranking as the session user", async () => {
+    mockAccess();
+    mocks.submitConfidencePicks.mockResolvedValue({ gameCount: 2, saved: 2 });
+    const picks = [
+      { bettingEventId: firstGame, confidence: 2, selection: "home" },
+      { bettingEventId: secondGame, confidence: 1, selection: "away" },
+    ];
+
+    const response = await POST(
+      confidenceRequest({ pickWeekId, picks }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      gameCount: 2,
+      saved: 2,
+    });
+    expect(submitConfidencePicks).toHaveBeenCalledWith(mocks.db, {
+      leagueId,
+      pickWeekId,
+      picks,
+      poolId,
+      userId,
+    });
+  });
+
+  it("rejects a rank that is not a positive whole number", async () => {
+    mockAccess();
+
+    const response = await POST(
+      confidenceRequest({
+        pickWeekId,
+        picks: [
+          { bettingEventId: firstGame, confidence: 0, selection: "home" },
+        ],
+      }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "INVALID_CONFIDENCE_PICKS_REQUEST" },
+    });
+    expect(submitConfidencePicks).not.toHaveBeenCalled();
+  });
+
+  it("passes the ranking refusal through as a 400", async () => {
+    mockAccess();
+    mocks.submitConfidencePicks.mockRejectedValue(
+      new AppError({
+        code: "SIDE_POOL_INVALID_RANKS",
+        message: "Confidence rank 2 is used more than once",
+        status: 400,
+      }),
+    );
+
+    const response = await POST(
+      confidenceRequest({
+        pickWeekId,
+        picks: [
+          { bettingEventId: firstGame, confidence: 2, selection: "home" },
+          { bettingEventId: secondGame, confidence: 2, selection: "away" },
+        ],
+      }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "SIDE_POOL_INVALID_RANKS" },
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { requireLeagueRole } from "@/auth/guards";
+import { submitConfidencePicks } from "@/betting/confidence-pool";
+import { recordApiHandler } from "@/core/metrics";
+import { enforceApiRateLimitOrReject } from "@/core/rate-limit";
+import { AppError, toAppError } from "@/core/result";
+import { uuidParamError } from "@/core/uuid";
+import { getDb } from "@/db";
+import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_CONFIDENCE_BODY_BYTES = 8192;
+
+// An NFL week tops out at 16 games; the cap leaves room without inviting a
+// body the rank check would have to walk for nothing.
+const MAX_RANKED_GAMES = 32;
+
+const confidencePicksSchema = z
+  .object({
+    pickWeekId: z.uuid(),
+    picks: z
+      .array(
+        z
+          .object({
+            bettingEventId: z.uuid(),
+            confidence: z.number().int().min(1).max(MAX_RANKED_GAMES),
+            selection: z.enum(["home", "away"]),
+          })
+          .strict(),
+      )
+      .max(MAX_RANKED_GAMES),
+  })
+  .strict();
+
+interface ConfidenceRouteContext {
+  params: Promise<{ leagueId: string; poolId: string }>;
+}
+
+async function confidencePost(
+  request: Request,
+  context: ConfidenceRouteContext,
+) {
+  const { leagueId, poolId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:participate",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const invalidPoolId = uuidParamError(poolId, {
+    code: "INVALID_SIDE_POOL_ID",
+    label: "Pool id",
+  });
+  if (invalidPoolId) {
+    return errorJson(invalidPoolId);
+  }
+
+  const limited = await enforceApiRateLimitOrReject({
+    max: 60,
+    message: "Too many pool picks. Try again shortly.",
+    scope: "league-pool-picks",
+    subject: access.value.userId,
+    windowSeconds: 60,
+  });
+  if (limited) {
+    return limited;
+  }
+
+  const body = await readJsonBody(request, MAX_CONFIDENCE_BODY_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+  const parsed = confidencePicksSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        cause: parsed.error,
+        code: "INVALID_CONFIDENCE_PICKS_REQUEST",
+        message: "Confidence picks need a week and a ranked side per game",
+        status: 400,
+      }),
+    );
+  }
+
+  try {
+    const result = await submitConfidencePicks(db, {
+      leagueId,
+      pickWeekId: parsed.data.pickWeekId,
+      picks: parsed.data.picks,
+      poolId,
+      userId: access.value.userId,
+    });
+    return okJson(result);
+  } catch (error) {
+    return errorJson(
+      toAppError(error, {
+        code: "CONFIDENCE_PICKS_FAILED",
+        message: "Confidence picks could not be saved",
+        status: 500,
+      }),
+    );
+  }
+}
+
+export const POST = recordApiHandler(
+  {
+    method: "POST",
+    route: "/api/leagues/[leagueId]/pools/[poolId]/confidence",
+  },
+  confidencePost,
+);
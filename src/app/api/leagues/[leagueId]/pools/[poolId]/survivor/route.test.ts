@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { requireLeagueRole } from "@/auth/guards";
+import { submitSurvivorPick } from "@/betting/survivor";
+import { AppError } from "@/core/result";
+import { POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  requireLeagueRole: vi.fn(),
+  submitSurvivorPick: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+// Survivor picks go through the rate limiter, which counts in memory when
+// vitest has no Redis and would carry that count across these posts. The
+// limiter has its own suite in src/core/rate-limit.test.ts.
+vi.mock("@/core/rate-limit", () => ({
+  enforceApiRateLimitOrReject: async () => null,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/betting/survivor", () => ({
+  submitSurvivorPick: mocks.submitSurvivorPick,
+}));
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+const poolId = "00000000-0000-4000-8000-000000000003";
+const pickWeekId = "00000000-0000-4000-8000-000000000004";
+const bettingEventId = "00000000-0000-4000-8000-000000000005";
+
+function routeContext(pool = poolId) {
+  return { params: Promise.resolve({ leagueId, poolId: pool }) };
+}
+
+function survivorRequest(body: unknown): Request {
+  return new Request(
+    `https://rumbledore.test/api/leagues/${leagueId}/pools/${poolId}/survivor`,
+    {
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+      method: "POST",
+    },
+  );
+}
+
+function mockAccess() {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role: "member",
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/leagues/[leagueId]/pools/[poolId]/survivor", () => {
+  it("picks a team as the session user", async () => {
+    mockAccess();
+    mocks.submitSurvivorPick.mockResolvedValue({
+      pickId: "pick-1",
+      replaced: false,
+      team: "Kansas City Chiefs",
+    });
+
+    const response = await POST(
+      survivorRequest({ bettingEventId, pickWeekId, selection: "home" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(201);
+    await expect(response.json()).resolves.toMatchObject({
+      team: "Kansas City Chiefs",
+    });
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:participate" }),
+    );
+    expect(submitSurvivorPick).toHaveBeenCalledWith(mocks.db, {
+      bettingEventId,
+      leagueId,
+      pickWeekId,
+      poolId,
+      selection: "home",
+      userId,
+    });
+  });
+
+  it("answers 200 when the pick replaced the week's earlier one", async () => {
+    mockAccess();
+    mocks.submitSurvivorPick.mockResolvedValue({
+      pickId: "pick-2",
+      replaced: true,
+      team: "Buffalo Bills",
+    });
+
+    const response = await POST(
+      survivorRequest({ bettingEventId, pickWeekId, selection: "away" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  it("rejects a malformed pool id and body before touching the pool", async () => {
+    mockAccess();
+
+    const badPool = await POST(
+      survivorRequest({ bettingEventId, pickWeekId, selection: "home" }),
+      routeContext("not-a-pool"),
+    );
+    const badBody = await POST(
+      survivorRequest({ pickWeekId, selection: "draw", userId }),
+      routeContext(),
+    );
+
+    expect(badPool.status).toBe(400);
+    expect(badBody.status).toBe(400);
+    await expect(badBody.json()).resolves.toMatchObject({
+      error: { code: "INVALID_SURVIVOR_PICK_REQUEST" },
+    });
+    expect(submitSurvivorPick).not.toHaveBeenCalled();
+  });
+
+  it("keeps the used-team refusal as a 409", async () => {
+    mockAccess();
+    mocks.submitSurvivorPick.mockRejectedValue(
+      new AppError({
+        code: "SIDE_POOL_TEAM_USED",
+        message: "You already used Buffalo Bills in this pool",
+        status: 409,
+      }),
+    );
+
+    const response = await POST(
+      survivorRequest({ bettingEventId, pickWeekId, selection: "away" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "SIDE_POOL_TEAM_USED" },
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { requireLeagueRole } from "@/auth/guards";
+import { submitSurvivorPick } from "@/betting/survivor";
+import { recordApiHandler } from "@/core/metrics";
+import { enforceApiRateLimitOrReject } from "@/core/rate-limit";
+import { AppError, toAppError } from "@/core/result";
+import { uuidParamError } from "@/core/uuid";
+import { getDb } from "@/db";
+import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_SURVIVOR_BODY_BYTES = 1024;
+
+const survivorPickSchema = z
+  .object({
+    bettingEventId: z.uuid(),
+    pickWeekId: z.uuid(),
+    selection: z.enum(["home", "away"]),
+  })
+  .strict();
+
+interface SurvivorRouteContext {
+  params: Promise<{ leagueId: string; poolId: string }>;
+}
+
+async function survivorPost(request: Request, context: SurvivorRouteContext) {
+  const { leagueId, poolId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:participate",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const invalidPoolId = uuidParamError(poolId, {
+    code: "INVALID_SIDE_POOL_ID",
+    label: "Pool id",
+  });
+  if (invalidPoolId) {
+    return errorJson(invalidPoolId);
+  }
+
+  const limited = await enforceApiRateLimitOrReject({
+    max: 60,
+    message: "Too many pool picks. Try again shortly.",
+    scope: "league-pool-picks",
+    subject: access.value.userId,
+    windowSeconds: 60,
+  });
+  if (limited) {
+    return limited;
+  }
+
+  const body = await readJsonBody(request, MAX_SURVIVOR_BODY_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+  const parsed = survivorPickSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        cause: parsed.error,
+        code: "INVALID_SURVIVOR_PICK_REQUEST",
+        message: "Survivor picks need a week, a game, and a side",
+        status: 400,
+      }),
+    );
+  }
+
+  try {
+    const result = await submitSurvivorPick(db, {
+      bettingEventId: parsed.data.bettingEventId,
+      leagueId,
+      pickWeekId: parsed.data.pickWeekId,
+      poolId,
+      selection: parsed.data.selection,
+      userId: access.value.userId,
+    });
+    return okJson(result, result.replaced ? 200 : 201);
+  } catch (error) {
+    return errorJson(
+      toAppError(error, {
+        code: "SURVIVOR_PICK_FAILED",
+        message: "Survivor pick could not be saved",
+        status: 500,
+      }),
+    );
+  }
+}
+
+export const POST = recordApiHandler(
+  { method: "POST", route: "/api/leagues/[leagueId]/pools/[poolId]/survivor" },
+  survivorPost,
+);
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { requireLeagueRole } from "@/auth/guards";
+import { createSidePool } from "@/betting/side-pools";
+import { POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  createSidePool: vi.fn(),
+  db: {},
+  requireLeagueRole: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/betting/side-pools", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/betting/side-pools")>()),
+  createSidePool: mocks.createSidePool,
+}));
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId }) };
+}
+
+function poolRequest(body: unknown): Request {
+  return new Request(`https://rumbledore.test/api/leagues/${leagueId}/pools`, {
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+    method: "POST",
+  });
+}
+
+function mockAccess() {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role: "commissioner",
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/leagues/[leagueId]/pools", () => {
+  it("lets the commissioner start a pool", async () => {
+    mockAccess();
+    mocks.createSidePool.mockResolvedValue({ created: true, poolId: "pool-1" });
+
+    const response = await POST(
+      poolRequest({ mode: "survivor" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(201);
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId, permission: "league:manage" }),
+    );
+    expect(createSidePool).toHaveBeenCalledWith(mocks.db, {
+      actorUserId: userId,
+      leagueId,
+      mode: "survivor",
+      name: undefined,
+    });
+  });
+
+  it("answers 200 when the season already has that pool", async () => {
+    mockAccess();
+    mocks.createSidePool.mockResolvedValue({
+      created: false,
+      poolId: "pool-1",
+    });
+
+    const response = await POST(
+      poolRequest({ mode: "confidence", name: "Lock of the week" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      created: false,
+      poolId: "pool-1",
+    });
+  });
+
+  it("rejects a mode the league cannot play", async () => {
+    mockAccess();
+
+    const response = await POST(
+      poolRequest({ mode: "bracket" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(400);
+    expect(createSidePool).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { requireLeagueRole } from "@/auth/guards";
+import { createSidePool, SIDE_POOL_MODES } from "@/betting/side-pools";
+import { recordApiHandler } from "@/core/metrics";
+import { AppError, toAppError } from "@/core/result";
+import { getDb } from "@/db";
+import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_POOL_BODY_BYTES = 1024;
+
+const createPoolSchema = z
+  .object({
+    mode: z.enum(SIDE_POOL_MODES),
+    name: z.string().trim().min(1).max(80).optional(),
+  })
+  .strict();
+
+interface PoolsRouteContext {
+  params: Promise<{ leagueId: string }>;
+}
+
+async function poolsPost(request: Request, context: PoolsRouteContext) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:manage",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const body = await readJsonBody(request, MAX_POOL_BODY_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+  const parsed = createPoolSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        cause: parsed.error,
+        code: "INVALID_SIDE_POOL_REQUEST",
+        message: "Pools need a mode: survivor or confidence",
+        status: 400,
+      }),
+    );
+  }
+
+  try {
+    const result = await createSidePool(db, {
+      actorUserId: access.value.userId,
+      leagueId,
+      mode: parsed.data.mode,
+      name: parsed.data.name,
+    });
+    // Starting a pool the season already has returns it, so a double click
+    // answers 200 with the same id rather than failing.
+    return okJson(result, result.created ? 201 : 200);
+  } catch (error) {
+    return errorJson(
+      toAppError(error, {
+        code: "SIDE_POOL_CREATE_FAILED",
+        message: "Pool could not be started",
+        status: 500,
+      }),
+    );
+  }
+}
+
+export const POST = recordApiHandler(
+  { method: "POST", route: "/api/leagues/[leagueId]/pools" },
+  poolsPost,
+);
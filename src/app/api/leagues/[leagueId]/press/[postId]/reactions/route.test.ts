@@ -80,7 +80,7 @@ describe("POST /api/leagues/[leagueId]/press/[postId]/reactions", () => {
       total: 1,
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "member" }),
+      expect.objectContaining({ permission: "league:participate" }),
     );
     expect(setContentReaction).toHaveBeenCalledWith(
       { db: mocks.db },
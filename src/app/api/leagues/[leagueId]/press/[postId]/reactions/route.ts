@@ -32,7 +32,7 @@ async function contentReactionPost(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "member",
+    permission: "league:participate",
   });
   if (!access.ok) {
     return errorJson(access.error);
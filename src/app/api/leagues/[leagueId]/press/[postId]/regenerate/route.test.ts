@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { afterEach, describe, expect, it, vi } from "vitest";
 import { createAiDependencies } from "@/ai/dependencies";
-import { requirePlatformAdmin } from "@/auth/guards";
+import { requireLeaguePermissionOrPlatformAdmin } from "@/auth/guards";
 import { regenerateEditorialContentItem } from "@/content/editorial";
 import { AppError } from "@/core/result";
 import { POST } from "./route";
@@ -12,7 +12,7 @@ const mocks = vi.hoisted(() => ({
   db: {},
   env: {},
   regenerateEditorialContentItem: vi.fn(),
-  requirePlatformAdmin: vi.fn(),
+  requireLeaguePermissionOrPlatformAdmin: vi.fn(),
 }));
 
 vi.mock("@/db", () => ({
@@ -33,7 +33,8 @@ vi.mock("@/auth/guards", async (importOriginal) => {
   const actual = await importOriginal<typeof import("@/auth/guards")>();
   return {
     ...actual,
-    requirePlatformAdmin: mocks.requirePlatformAdmin,
+    requireLeaguePermissionOrPlatformAdmin:
+      mocks.requireLeaguePermissionOrPlatformAdmin,
   };
 });
 
@@ -65,7 +66,7 @@ function request(body: unknown): Request {
 }
 
 function mockAdminAccess() {
-  mocks.requirePlatformAdmin.mockResolvedValue({
+  mocks.requireLeaguePermissionOrPlatformAdmin.mockResolvedValue({
     ok: true,
     value: {
       session: { user: { id: userId } },
@@ -100,8 +101,12 @@ describe("POST /api/leagues/[leagueId]/press/[postId]/regenerate", () => {
       replacementContentItemId: "replacement-1",
       status: "published",
     });
-    expect(requirePlatformAdmin).toHaveBeenCalledWith(
-      expect.objectContaining({ db: mocks.db }),
+    expect(requireLeaguePermissionOrPlatformAdmin).toHaveBeenCalledWith(
+      expect.objectContaining({
+        db: mocks.db,
+        leagueId,
+        permission: "press:moderate",
+      }),
     );
     expect(createAiDependencies).toHaveBeenCalledWith(mocks.db, mocks.env);
     expect(regenerateEditorialContentItem).toHaveBeenCalledWith(mocks.aiDeps, {
@@ -156,11 +161,11 @@ describe("POST /api/leagues/[leagueId]/press/[postId]/regenerate", () => {
     expect(regenerateEditorialContentItem).not.toHaveBeenCalled();
   });
 
-  it("rejects a league commissioner before any generation work", async () => {
-    mocks.requirePlatformAdmin.mockResolvedValue({
+  it("rejects a member without press:moderate before any generation work", async () => {
+    mocks.requireLeaguePermissionOrPlatformAdmin.mockResolvedValue({
       error: new AppError({
-        code: "PLATFORM_ADMIN_FORBIDDEN",
-        message: "Platform administrator access is required",
+        code: "LEAGUE_FORBIDDEN",
+        message: "League access requires membership",
         status: 403,
       }),
       ok: false,
@@ -170,7 +175,7 @@ describe("POST /api/leagues/[leagueId]/press/[postId]/regenerate", () => {
 
     expect(response.status).toBe(403);
     await expect(response.json()).resolves.toMatchObject({
-      error: { code: "PLATFORM_ADMIN_FORBIDDEN" },
+      error: { code: "LEAGUE_FORBIDDEN" },
     });
     expect(createAiDependencies).not.toHaveBeenCalled();
     expect(regenerateEditorialContentItem).not.toHaveBeenCalled();
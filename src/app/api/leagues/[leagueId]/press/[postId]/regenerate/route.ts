@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { createAiDependencies } from "@/ai/dependencies";
-import { isValidLeagueId, requirePlatformAdmin } from "@/auth/guards";
+import { requireLeaguePermissionOrPlatformAdmin } from "@/auth/guards";
 import { regenerateEditorialContentItem } from "@/content/editorial";
 import { getEnv } from "@/core/env";
 import { recordApiHandler } from "@/core/metrics";
@@ -29,22 +29,15 @@ async function editorialRegeneratePost(
 ) {
   const { leagueId, postId } = await context.params;
   const db = getDb();
-  const access = await requirePlatformAdmin({
+  const access = await requireLeaguePermissionOrPlatformAdmin({
     db,
     headers: request.headers,
+    leagueId,
+    permission: "press:moderate",
   });
   if (!access.ok) {
     return errorJson(access.error);
   }
-  if (!isValidLeagueId(leagueId)) {
-    return errorJson(
-      new AppError({
-        code: "INVALID_LEAGUE_ID",
-        message: "League id must be a UUID",
-        status: 400,
-      }),
-    );
-  }
 
   const invalidPostId = uuidParamError(postId, {
     code: "INVALID_POST_ID",
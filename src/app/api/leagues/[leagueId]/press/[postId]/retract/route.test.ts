@@ -98,7 +98,7 @@ describe("POST /api/leagues/[leagueId]/press/[postId]/retract", () => {
       status: "changed",
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "data_steward" }),
+      expect.objectContaining({ permission: "press:moderate" }),
     );
     expect(retractEditorialContentItem).toHaveBeenCalledWith(
       {
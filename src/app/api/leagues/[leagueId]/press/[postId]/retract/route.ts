@@ -33,7 +33,7 @@ async function editorialRetractPost(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "data_steward",
+    permission: "press:moderate",
   });
   if (!access.ok) {
     return errorJson(access.error);
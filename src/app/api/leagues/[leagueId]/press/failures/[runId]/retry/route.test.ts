@@ -93,7 +93,7 @@ describe("POST /api/leagues/[leagueId]/press/failures/[runId]/retry", () => {
       status: "published",
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "data_steward" }),
+      expect.objectContaining({ permission: "press:moderate" }),
     );
     expect(createAiDependencies).toHaveBeenCalledWith(mocks.db, mocks.env);
     expect(retryGenerationFailureRun).toHaveBeenCalledWith(mocks.aiDeps, {
@@ -26,7 +26,7 @@ async function generationFailureRetryPost(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "data_steward",
+    permission: "press:moderate",
   });
   if (!access.ok) {
     return errorJson(access.error);
@@ -0,0 +1,201 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { requireLeagueRole } from "@/auth/guards";
+import { AppError, ok } from "@/core/result";
+import {
+  archiveLeagueRecordDefinition,
+  listLeagueRecordDefinitions,
+  saveLeagueRecordDefinition,
+} from "@/stats";
+import { GET, POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  archiveLeagueRecordDefinition: vi.fn(),
+  db: {},
+  listLeagueRecordDefinitions: vi.fn(),
+  requireLeagueRole: vi.fn(),
+  saveLeagueRecordDefinition: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/stats", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/stats")>();
+  return {
+    ...actual,
+    archiveLeagueRecordDefinition: mocks.archiveLeagueRecordDefinition,
+    listLeagueRecordDefinitions: mocks.listLeagueRecordDefinitions,
+    saveLeagueRecordDefinition: mocks.saveLeagueRecordDefinition,
+  };
+});
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+const definitionId = "00000000-0000-4000-8000-000000000003";
+const routeUrl = `https://rumbledore.test/api/leagues/${leagueId}/records/definitions`;
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId }) };
+}
+
+function request(body: unknown): Request {
+  return new Request(routeUrl, {
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+    method: "POST",
+  });
+}
+
+function mockAccess() {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role: "commissioner",
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+const giantSlayer = {
+  aggregation: "count",
+  direction: "max",
+  filters: { opponentFinish: "champion", results: ["win"] },
+  label: "Giant slayer",
+  metric: "points_for",
+  recordKey: "giant_slayer",
+  scope: "career",
+};
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("GET /api/leagues/[leagueId]/records/definitions", () => {
+  it("lists active definitions for league members", async () => {
+    mockAccess();
+    mocks.listLeagueRecordDefinitions.mockResolvedValue(
+      ok([{ ...giantSlayer, id: definitionId, status: "active" }]),
+    );
+
+    const response = await GET(new Request(routeUrl), routeContext());
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject([
+      { id: definitionId, recordKey: "giant_slayer" },
+    ]);
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ permission: "league:view" }),
+    );
+    expect(listLeagueRecordDefinitions).toHaveBeenCalledWith(mocks.db, {
+      includeArchived: false,
+      leagueId,
+    });
+  });
+});
+
+describe("POST /api/leagues/[leagueId]/records/definitions", () => {
+  it("requires commissioner access and saves a normalized definition", async () => {
+    mockAccess();
+    mocks.saveLeagueRecordDefinition.mockResolvedValue(
+      ok({
+        definition: { ...giantSlayer, id: definitionId, status: "active" },
+        ledgerEntryId: "ledger-1",
+        records: 1,
+      }),
+    );
+
+    const response = await POST(
+      request({ action: "save", definition: giantSlayer }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({ permission: "league:manage" }),
+    );
+    expect(saveLeagueRecordDefinition).toHaveBeenCalledWith(mocks.db, {
+      actorUserId: userId,
+      definition: {
+        ...giantSlayer,
+        description: null,
+        segment: "both",
+      },
+      leagueId,
+      reason: undefined,
+    });
+  });
+
+  it("archives by record key", async () => {
+    mockAccess();
+    mocks.archiveLeagueRecordDefinition.mockResolvedValue(
+      ok({
+        definition: { ...giantSlayer, id: definitionId, status: "archived" },
+        ledgerEntryId: "ledger-2",
+        records: 1,
+      }),
+    );
+
+    const response = await POST(
+      request({ action: "archive", recordKey: "giant_slayer" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+    expect(archiveLeagueRecordDefinition).toHaveBeenCalledWith(mocks.db, {
+      actorUserId: userId,
+      leagueId,
+      reason: undefined,
+      recordKey: "giant_slayer",
+    });
+    expect(saveLeagueRecordDefinition).not.toHaveBeenCalled();
+  });
+
+  it("rejects malformed record keys and unknown filters", async () => {
+    mockAccess();
+
+    const badKey = await POST(
+      request({
+        action: "save",
+        definition: { ...giantSlayer, recordKey: "Giant Slayer!" },
+      }),
+      routeContext(),
+    );
+    const badFilter = await POST(
+      request({
+        action: "save",
+        definition: { ...giantSlayer, filters: { weather: "snow" } },
+      }),
+      routeContext(),
+    );
+
+    expect(badKey.status).toBe(400);
+    expect(badFilter.status).toBe(400);
+    expect(saveLeagueRecordDefinition).not.toHaveBeenCalled();
+  });
+
+  it("rejects non-commissioners before saving", async () => {
+    mocks.requireLeagueRole.mockResolvedValue({
+      error: new AppError({
+        code: "LEAGUE_FORBIDDEN",
+        message: "League access requires commissioner",
+        status: 403,
+      }),
+      ok: false,
+    });
+
+    const response = await POST(
+      request({ action: "save", definition: giantSlayer }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(403);
+    expect(saveLeagueRecordDefinition).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,175 @@
+import { z } from "zod";
+import { requireLeagueRole } from "@/auth/guards";
+import { recordApiHandler } from "@/core/metrics";
+import { AppError } from "@/core/result";
+import { getDb } from "@/db";
+import { errorJson, readJsonBody, resultJson } from "@/onboarding/http";
+import {
+  archiveLeagueRecordDefinition,
+  CUSTOM_RECORD_AGGREGATIONS,
+  CUSTOM_RECORD_DIRECTIONS,
+  CUSTOM_RECORD_METRICS,
+  CUSTOM_RECORD_OPPONENT_FINISHES,
+  CUSTOM_RECORD_SCOPES,
+  CUSTOM_RECORD_SEGMENTS,
+  isCustomRecordKey,
+  listLeagueRecordDefinitions,
+  saveLeagueRecordDefinition,
+} from "@/stats";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_RECORD_DEFINITION_BODY_BYTES = 8192;
+
+const recordKeySchema = z
+  .string()
+  .trim()
+  .refine(isCustomRecordKey, "record key must be a lowercase slug");
+
+const boundsSchema = z
+  .object({
+    gt: z.number().finite().optional(),
+    gte: z.number().finite().optional(),
+    lt: z.number().finite().optional(),
+    lte: z.number().finite().optional(),
+  })
+  .strict();
+
+const filtersSchema = z
+  .object({
+    margin: boundsSchema.optional(),
+    matchupKinds: z
+      .array(z.enum(["head_to_head", "median", "all_play"]))
+      .min(1)
+      .optional(),
+    minGames: z.number().int().min(1).max(500).optional(),
+    opponentFinish: z.enum(CUSTOM_RECORD_OPPONENT_FINISHES).optional(),
+    pointsAgainst: boundsSchema.optional(),
+    pointsFor: boundsSchema.optional(),
+    results: z
+      .array(z.enum(["win", "loss", "tie"]))
+      .min(1)
+      .optional(),
+    starterPositionPoints: z
+      .array(
+        z.object({
+          bounds: boundsSchema,
+          position: z.string().trim().min(1).max(8),
+        }),
+      )
+      .max(4)
+      .optional(),
+  })
+  .strict();
+
+const recordDefinitionActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("save"),
+    definition: z.object({
+      aggregation: z.enum(CUSTOM_RECORD_AGGREGATIONS).nullable().default(null),
+      description: z.string().trim().max(280).nullable().default(null),
+      direction: z.enum(CUSTOM_RECORD_DIRECTIONS),
+      filters: filtersSchema.default({}),
+      label: z.string().trim().min(1).max(80),
+      metric: z.enum(CUSTOM_RECORD_METRICS),
+      recordKey: recordKeySchema,
+      scope: z.enum(CUSTOM_RECORD_SCOPES),
+      segment: z.enum(CUSTOM_RECORD_SEGMENTS).default("both"),
+    }),
+    reason: z.string().trim().min(1).max(500).optional(),
+  }),
+  z.object({
+    action: z.literal("archive"),
+    reason: z.string().trim().min(1).max(500).optional(),
+    recordKey: recordKeySchema,
+  }),
+]);
+
+interface RecordDefinitionsRouteContext {
+  params: Promise<{ leagueId: string }>;
+}
+
+async function recordDefinitionsGet(
+  request: Request,
+  context: RecordDefinitionsRouteContext,
+) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:view",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const url = new URL(request.url);
+  return resultJson(
+    await listLeagueRecordDefinitions(db, {
+      includeArchived: url.searchParams.get("includeArchived") === "true",
+      leagueId,
+    }),
+  );
+}
+
+async function recordDefinitionsPost(
+  request: Request,
+  context: RecordDefinitionsRouteContext,
+) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "league:manage",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const body = await readJsonBody(request, MAX_RECORD_DEFINITION_BODY_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+
+  const parsed = recordDefinitionActionSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        code: "INVALID_RECORD_DEFINITION",
+        message: "Record definition payload is invalid",
+        status: 400,
+      }),
+    );
+  }
+
+  return resultJson(
+    parsed.data.action === "save"
+      ? await saveLeagueRecordDefinition(db, {
+          actorUserId: access.value.userId,
+          definition: parsed.data.definition,
+          leagueId,
+          reason: parsed.data.reason,
+        })
+      : await archiveLeagueRecordDefinition(db, {
+          actorUserId: access.value.userId,
+          leagueId,
+          reason: parsed.data.reason,
+          recordKey: parsed.data.recordKey,
+        }),
+  );
+}
+
+export const GET = recordApiHandler(
+  { method: "GET", route: "/api/leagues/[leagueId]/records/definitions" },
+  recordDefinitionsGet,
+);
+
+export const POST = recordApiHandler(
+  { method: "POST", route: "/api/leagues/[leagueId]/records/definitions" },
+  recordDefinitionsPost,
+);
@@ -77,7 +77,7 @@ describe("POST /api/leagues/[leagueId]/roast-consent", () => {
       status: "changed",
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "member" }),
+      expect.objectContaining({ permission: "league:participate" }),
     );
     expect(setLeagueRoastConsent).toHaveBeenCalledWith(
       { db: mocks.db },
@@ -37,7 +37,7 @@ async function roastConsentPost(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "member",
+    permission: "league:participate",
   });
   if (!access.ok) {
     return errorJson(access.error);
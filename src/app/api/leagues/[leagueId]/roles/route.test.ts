@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { requireLeagueRole } from "@/auth/guards";
+import { AppError, ok } from "@/core/result";
+import { grantLeagueRole } from "@/members/league-roles";
+import { POST } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  grantLeagueRole: vi.fn(),
+  requireLeagueRole: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({
+  getDb: () => mocks.db,
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireLeagueRole: mocks.requireLeagueRole,
+}));
+
+vi.mock("@/members/league-roles", () => ({
+  grantLeagueRole: mocks.grantLeagueRole,
+}));
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const userId = "00000000-0000-4000-8000-000000000002";
+const memberId = "00000000-0000-4000-8000-000000000003";
+const targetUserId = "00000000-0000-4000-8000-000000000004";
+
+function routeContext() {
+  return { params: Promise.resolve({ leagueId }) };
+}
+
+function grantRequest(body: unknown): Request {
+  return new Request(`https://rumbledore.test/api/leagues/${leagueId}/roles`, {
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+    method: "POST",
+  });
+}
+
+function mockAccess() {
+  mocks.requireLeagueRole.mockResolvedValue({
+    ok: true,
+    value: {
+      leagueId,
+      role: "commissioner",
+      session: { user: { id: userId } },
+      userId,
+    },
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/leagues/[leagueId]/roles", () => {
+  it("authorizes role granters and changes the member's role", async () => {
+    mockAccess();
+    mocks.grantLeagueRole.mockResolvedValue(
+      ok({
+        grant: {
+          actorDisplayName: "Commissioner",
+          createdAt: "2026-10-18T12:00:00.000Z",
+          id: "00000000-0000-4000-8000-000000000005",
+          previousRole: "member",
+          reason: "Runs the Press",
+          role: "editor",
+          targetDisplayName: "Fixture Manager",
+        },
+        member: {
+          displayName: "Fixture Manager",
+          email: "fixture@example.com",
+          memberId,
+          role: "editor",
+          userId: targetUserId,
+        },
+        status: "changed",
+      }),
+    );
+
+    const response = await POST(
+      grantRequest({ memberId, reason: " Runs the Press ", role: "editor" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({
+      grant: { previousRole: "member", role: "editor" },
+      member: { memberId, role: "editor" },
+      status: "changed",
+    });
+    expect(requireLeagueRole).toHaveBeenCalledWith(
+      expect.objectContaining({
+        db: mocks.db,
+        leagueId,
+        permission: "roles:grant",
+      }),
+    );
+    expect(grantLeagueRole).toHaveBeenCalledWith(mocks.db, {
+      actorUserId: userId,
+      leagueId,
+      reason: "Runs the Press",
+      role: "editor",
+      target: { memberId },
+    });
+  });
+
+  it("seats an account as a spectator by email", async () => {
+    mockAccess();
+    mocks.grantLeagueRole.mockResolvedValue(
+      ok({
+        grant: null,
+        member: {
+          displayName: "Fan",
+          email: "fan@example.com",
+          memberId,
+          role: "spectator",
+          userId: targetUserId,
+        },
+        status: "already_current",
+      }),
+    );
+
+    const response = await POST(
+      grantRequest({ email: "fan@example.com", role: "spectator" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(200);
+    expect(grantLeagueRole).toHaveBeenCalledWith(mocks.db, {
+      actorUserId: userId,
+      leagueId,
+      reason: undefined,
+      role: "spectator",
+      target: { email: "fan@example.com" },
+    });
+  });
+
+  it.each([
+    ["a malformed member id", { memberId: "not-a-uuid", role: "editor" }],
+    ["the commissioner role", { memberId, role: "commissioner" }],
+    [
+      "a non-spectator role by email",
+      { email: "fan@example.com", role: "editor" },
+    ],
+    ["both targets", { email: "fan@example.com", memberId, role: "spectator" }],
+  ])("rejects %s before granting", async (_label, body) => {
+    mockAccess();
+
+    const response = await POST(grantRequest(body), routeContext());
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toMatchObject({
+      error: { code: "INVALID_LEAGUE_ROLE_GRANT" },
+    });
+    expect(grantLeagueRole).not.toHaveBeenCalled();
+  });
+
+  it("returns auth guard errors before granting", async () => {
+    mocks.requireLeagueRole.mockResolvedValue({
+      error: new AppError({
+        code: "LEAGUE_FORBIDDEN",
+        message: "League access requires the roles:grant permission",
+        status: 403,
+      }),
+      ok: false,
+    });
+
+    const response = await POST(
+      grantRequest({ memberId, role: "editor" }),
+      routeContext(),
+    );
+
+    expect(response.status).toBe(403);
+    expect(grantLeagueRole).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { requireLeagueRole } from "@/auth/guards";
+import { recordApiHandler } from "@/core/metrics";
+import { AppError } from "@/core/result";
+import { getDb } from "@/db";
+import { GRANTABLE_LEAGUE_ROLES } from "@/members/league-role-types";
+import { grantLeagueRole } from "@/members/league-roles";
+import { errorJson, readJsonBody, resultJson } from "@/onboarding/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_ROLE_GRANT_BODY_BYTES = 2048;
+
+const reasonSchema = z.string().trim().min(1).max(280).optional();
+
+// A member already in the league may take any grantable role; an account
+// outside it is named by email and can only join as a spectator.
+const roleGrantSchema = z.union([
+  z.strictObject({
+    memberId: z.uuid(),
+    reason: reasonSchema,
+    role: z.enum(GRANTABLE_LEAGUE_ROLES),
+  }),
+  z.strictObject({
+    email: z.email().max(320),
+    reason: reasonSchema,
+    role: z.literal("spectator"),
+  }),
+]);
+
+interface RolesRouteContext {
+  params: Promise<{ leagueId: string }>;
+}
+
+async function rolesPost(request: Request, context: RolesRouteContext) {
+  const { leagueId } = await context.params;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: request.headers,
+    leagueId,
+    permission: "roles:grant",
+  });
+  if (!access.ok) {
+    return errorJson(access.error);
+  }
+
+  const body = await readJsonBody(request, MAX_ROLE_GRANT_BODY_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+
+  const parsed = roleGrantSchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        code: "INVALID_LEAGUE_ROLE_GRANT",
+        message: "League role grant payload is invalid",
+        status: 400,
+      }),
+    );
+  }
+
+  const { reason, role } = parsed.data;
+  return resultJson(
+    await grantLeagueRole(db, {
+      actorUserId: access.value.userId,
+      leagueId,
+      reason,
+      role,
+      target:
+        "memberId" in parsed.data
+          ? { memberId: parsed.data.memberId }
+          : { email: parsed.data.email },
+    }),
+  );
+}
+
+export const POST = recordApiHandler(
+  { method: "POST", route: "/api/leagues/[leagueId]/roles" },
+  rolesPost,
+);
@@ -67,7 +67,7 @@ async function authorize(request: Request, leagueId: string) {
     db: getDb(),
     headers: request.headers,
     leagueId,
-    minRole: "data_steward",
+    permission: "leagueData:manage",
   });
 }
 
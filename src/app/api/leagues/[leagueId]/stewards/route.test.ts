@@ -91,7 +91,7 @@ describe("POST /api/leagues/[leagueId]/stewards", () => {
       expect.objectContaining({
         db: mocks.db,
         leagueId,
-        minRole: "commissioner",
+        permission: "roles:grant",
       }),
     );
     expect(assignDataSteward).toHaveBeenCalledWith(mocks.db, {
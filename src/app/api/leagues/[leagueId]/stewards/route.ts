@@ -26,7 +26,7 @@ async function stewardsPost(request: Request, context: StewardsRouteContext) {
     db,
     headers: request.headers,
     leagueId,
-    minRole: "commissioner",
+    permission: "roles:grant",
   });
   if (!access.ok) {
     return errorJson(access.error);
@@ -27,9 +27,10 @@ vi.mock("@/auth/guards", () => ({
   requireLeagueRole: mocks.requireLeagueRole,
 }));
 
-vi.mock("@/webhooks", () => ({
+vi.mock("@/webhooks", async () => ({
   deleteLeagueWebhook: mocks.deleteLeagueWebhook,
   updateLeagueWebhook: mocks.updateLeagueWebhook,
+  WEBHOOK_EVENTS: (await import("@/webhooks/events")).WEBHOOK_EVENTS,
 }));
 
 const leagueId = "00000000-0000-4000-8000-000000000001";
@@ -102,7 +103,7 @@ describe("PATCH /api/leagues/[leagueId]/webhooks/[webhookId]", () => {
       webhook: { id: webhookId },
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "commissioner" }),
+      expect.objectContaining({ permission: "league:manage" }),
     );
     expect(getEnv).toHaveBeenCalled();
     expect(updateLeagueWebhook).toHaveBeenCalledWith(
@@ -188,7 +189,7 @@ describe("DELETE /api/leagues/[leagueId]/webhooks/[webhookId]", () => {
       webhook: { id: webhookId },
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "commissioner" }),
+      expect.objectContaining({ permission: "league:manage" }),
     );
     expect(getEnv).not.toHaveBeenCalled();
     expect(deleteLeagueWebhook).toHaveBeenCalledWith(
@@ -10,6 +10,7 @@ import {
   deleteLeagueWebhook,
   type LeagueWebhookMutationResult,
   updateLeagueWebhook,
+  WEBHOOK_EVENTS,
 } from "@/webhooks";
 
 export const runtime = "nodejs";
@@ -25,21 +26,20 @@ const leagueWebhookSectionSchema = z.enum([
   "previews",
 ]);
 
-const leagueWebhookEventSchema = z.enum([
-  "content.published",
-  "content.corrected",
-]);
+const leagueWebhookEventSchema = z.enum(WEBHOOK_EVENTS);
 
 const eventSelectionSchema = z.object({
   contentSections: z.array(leagueWebhookSectionSchema).min(1).max(5),
-  events: z.array(leagueWebhookEventSchema).min(1).max(2),
+  events: z.array(leagueWebhookEventSchema).min(1).max(WEBHOOK_EVENTS.length),
 });
 
 const updateWebhookSchema = z.object({
   eventSelection: eventSelectionSchema.optional(),
   name: z.string().trim().min(1).max(80).optional(),
   status: z.enum(["active", "disabled"]).optional(),
-  targetKind: z.enum(["discord", "generic"]).optional(),
+  targetKind: z
+    .enum(["discord", "generic", "slack", "groupme", "telegram"])
+    .optional(),
   url: z.url().optional(),
 });
 
@@ -78,7 +78,7 @@ async function leagueWebhookPatch(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "commissioner",
+    permission: "league:manage",
   });
   if (!access.ok) {
     return errorJson(access.error);
@@ -142,7 +142,7 @@ async function leagueWebhookDelete(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "commissioner",
+    permission: "league:manage",
   });
   if (!access.ok) {
     return errorJson(access.error);
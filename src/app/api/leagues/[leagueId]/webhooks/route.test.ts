@@ -26,8 +26,9 @@ vi.mock("@/auth/guards", () => ({
   requireLeagueRole: mocks.requireLeagueRole,
 }));
 
-vi.mock("@/webhooks", () => ({
+vi.mock("@/webhooks", async () => ({
   createLeagueWebhook: mocks.createLeagueWebhook,
+  WEBHOOK_EVENTS: (await import("@/webhooks/events")).WEBHOOK_EVENTS,
 }));
 
 const leagueId = "00000000-0000-4000-8000-000000000001";
@@ -93,7 +94,7 @@ describe("POST /api/leagues/[leagueId]/webhooks", () => {
       webhook: { id: "webhook-1" },
     });
     expect(requireLeagueRole).toHaveBeenCalledWith(
-      expect.objectContaining({ minRole: "commissioner" }),
+      expect.objectContaining({ permission: "league:manage" }),
     );
     expect(getEnv).toHaveBeenCalled();
     expect(createLeagueWebhook).toHaveBeenCalledWith(
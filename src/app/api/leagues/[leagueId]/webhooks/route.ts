@@ -5,7 +5,7 @@ import { recordApiHandler } from "@/core/metrics";
 import { AppError, toAppError } from "@/core/result";
 import { getDb } from "@/db";
 import { errorJson, okJson, readJsonBody } from "@/onboarding/http";
-import { createLeagueWebhook } from "@/webhooks";
+import { createLeagueWebhook, WEBHOOK_EVENTS } from "@/webhooks";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -20,20 +20,17 @@ const leagueWebhookSectionSchema = z.enum([
   "previews",
 ]);
 
-const leagueWebhookEventSchema = z.enum([
-  "content.published",
-  "content.corrected",
-]);
+const leagueWebhookEventSchema = z.enum(WEBHOOK_EVENTS);
 
 const eventSelectionSchema = z.object({
   contentSections: z.array(leagueWebhookSectionSchema).min(1).max(5),
-  events: z.array(leagueWebhookEventSchema).min(1).max(2),
+  events: z.array(leagueWebhookEventSchema).min(1).max(WEBHOOK_EVENTS.length),
 });
 
 const createWebhookSchema = z.object({
   eventSelection: eventSelectionSchema.optional(),
   name: z.string().trim().min(1).max(80),
-  targetKind: z.enum(["discord", "generic"]),
+  targetKind: z.enum(["discord", "generic", "slack", "groupme", "telegram"]),
   url: z.url(),
 });
 
@@ -51,7 +48,7 @@ async function leagueWebhooksPost(
     db,
     headers: request.headers,
     leagueId,
-    minRole: "commissioner",
+    permission: "league:manage",
   });
   if (!access.ok) {
     return errorJson(access.error);
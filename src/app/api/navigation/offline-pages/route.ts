@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { requireSession } from "@/auth/guards";
+import { getDb } from "@/db";
+import { listOfflinePagesForUser } from "@/navigation/offline-pages";
+
+export const dynamic = "force-dynamic";
+
+/** Read by the service worker to refresh the pages it keeps for offline. */
+export async function GET(request: Request) {
+  const session = await requireSession({ headers: request.headers });
+  if (!session.ok) {
+    return NextResponse.json({ paths: [] }, { status: session.error.status });
+  }
+
+  const result = await listOfflinePagesForUser(getDb(), {
+    userId: session.value.userId,
+  });
+  if (!result.ok) {
+    return NextResponse.json({ paths: [] }, { status: result.error.status });
+  }
+
+  return NextResponse.json(
+    { paths: result.value },
+    { headers: { "Cache-Control": "private, no-store" } },
+  );
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AppError } from "@/core/result";
+import { DELETE } from "./route";
+
+const mocks = vi.hoisted(() => ({
+  db: {},
+  getDb: vi.fn(),
+  requireSession: vi.fn(),
+  unlinkProviderCredential: vi.fn(),
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireSession: mocks.requireSession,
+}));
+
+vi.mock("@/db", () => ({
+  getDb: mocks.getDb,
+}));
+
+vi.mock("@/onboarding/linked-identities", () => ({
+  unlinkProviderCredential: mocks.unlinkProviderCredential,
+}));
+
+const userId = "00000000-0000-4000-8000-000000000001";
+const credentialId = "00000000-0000-4000-8000-0000000000c1";
+
+function request(): Request {
+  return new Request(
+    `https://rumbledore.test/api/onboarding/connections/${credentialId}`,
+    { method: "DELETE" },
+  );
+}
+
+function context(id = credentialId) {
+  return { params: Promise.resolve({ credentialId: id }) };
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("DELETE /api/onboarding/connections/[credentialId]", () => {
+  it("unlinks the session user's credential", async () => {
+    mocks.getDb.mockReturnValue(mocks.db);
+    mocks.requireSession.mockResolvedValue({ ok: true, value: { userId } });
+    mocks.unlinkProviderCredential.mockResolvedValue({
+      ok: true,
+      value: { provider: "espn", subjectProviderId: "{SWID}" },
+    });
+
+    const response = await DELETE(request(), context());
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      provider: "espn",
+      subjectProviderId: "{SWID}",
+    });
+    expect(mocks.unlinkProviderCredential).toHaveBeenCalledWith(mocks.db, {
+      credentialId,
+      userId,
+    });
+  });
+
+  it("rejects signed-out callers and malformed ids before touching the db", async () => {
+    mocks.requireSession.mockResolvedValueOnce({
+      error: new AppError({
+        code: "UNAUTHENTICATED",
+        message: "Sign in required",
+        status: 401,
+      }),
+      ok: false,
+    });
+    expect((await DELETE(request(), context())).status).toBe(401);
+
+    mocks.requireSession.mockResolvedValueOnce({ ok: true, value: { userId } });
+    expect((await DELETE(request(), context("not-a-uuid"))).status).toBe(404);
+    expect(mocks.unlinkProviderCredential).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { recordApiHandler } from "@/core/metrics";
+import { AppError } from "@/core/result";
+import { getDb } from "@/db";
+import { errorJson, requireUserId, resultJson } from "@/onboarding/http";
+import { unlinkProviderCredential } from "@/onboarding/linked-identities";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const credentialIdSchema = z.uuid();
+
+interface ProviderConnectionRouteContext {
+  params: Promise<{ credentialId: string }>;
+}
+
+async function providerConnectionDelete(
+  request: Request,
+  context: ProviderConnectionRouteContext,
+) {
+  const userId = await requireUserId(request);
+  if (!userId.ok) {
+    return errorJson(userId.error);
+  }
+
+  const { credentialId } = await context.params;
+  const parsed = credentialIdSchema.safeParse(credentialId);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        code: "PROVIDER_CONNECTION_NOT_FOUND",
+        message: "That provider connection was not found",
+        status: 404,
+      }),
+    );
+  }
+
+  const result = await unlinkProviderCredential(getDb(), {
+    credentialId: parsed.data,
+    userId: userId.value,
+  });
+  return resultJson(result);
+}
+
+export const DELETE = recordApiHandler(
+  {
+    method: "DELETE",
+    route: "/api/onboarding/connections/[credentialId]",
+  },
+  providerConnectionDelete,
+);
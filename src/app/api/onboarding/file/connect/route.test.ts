@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from "vitest";
+import { ok } from "@/core/result";
+import { POST } from "./route";
+
+vi.mock("server-only", () => ({}));
+
+// The limiter is mocked so this suite never depends on Redis and never carries
+// counter state between runs; src/core/rate-limit.test.ts covers the guard.
+vi.mock("@/core/rate-limit", () => ({
+  enforceApiRateLimitOrReject: vi.fn(async () => null),
+}));
+
+vi.mock("@/auth/guards", () => ({
+  requireSession: vi.fn(async () =>
+    ok({ session: { user: { id: "user-1" } }, userId: "user-1" }),
+  ),
+}));
+
+const connectProviderWithCredentials = vi.hoisted(() =>
+  vi.fn(async () =>
+    ok({ credentialId: "credential-1", discoveredLeagues: [] }),
+  ),
+);
+
+vi.mock("@/onboarding/deps", () => ({
+  getFileImportOnboardingDependencies: vi.fn(() => ({})),
+}));
+
+vi.mock("@/onboarding/provider-service", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("@/onboarding/provider-service")>();
+  return { ...actual, connectProviderWithCredentials };
+});
+
+function upload(body: unknown): Request {
+  return new Request("https://rumbledore.test/api/onboarding/file/connect", {
+    body: JSON.stringify(body),
+    method: "POST",
+  });
+}
+
+const validBundle = {
+  format: "json",
+  league: { name: "The League" },
+  sections: {
+    matchups: [
+      {
+        away_score: 98.2,
+        away_team_id: "2",
+        home_score: 110.5,
+        home_team_id: "1",
+        season: 2024,
+        week: 1,
+      },
+    ],
+    members: [
+      { display_name: "Avery", member_id: "m1", season: 2024 },
+      { display_name: "Blake", member_id: "m2", season: 2024 },
+    ],
+    teams: [
+      { name: "Avery's Team", owner_ids: "m1", season: 2024, team_id: "1" },
+      { name: "Blake's Team", owner_ids: "m2", season: 2024, team_id: "2" },
+    ],
+  },
+};
+
+describe("POST /api/onboarding/file/connect", () => {
+  it("stores a valid bundle under a per-uploader league id", async () => {
+    const response = await POST(upload({ bundle: validBundle }));
+
+    expect(response.status).toBe(200);
+    expect(connectProviderWithCredentials).toHaveBeenCalledWith(
+      expect.objectContaining({
+        credentials: {
+          bundle: validBundle,
+          providerLeagueId: expect.stringMatching(/^file-[0-9a-f]{24}$/),
+        },
+        flow: "upload",
+        provider: "file",
+        userId: "user-1",
+      }),
+    );
+  });
+
+  it("reports bad rows with their section, row, and column", async () => {
+    connectProviderWithCredentials.mockClear();
+    const response = await POST(
+      upload({
+        bundle: {
+          ...validBundle,
+          sections: {
+            ...validBundle.sections,
+            matchups: [{ ...validBundle.sections.matchups[0], week: "one" }],
+          },
+        },
+      }),
+    );
+
+    expect(response.status).toBe(422);
+    const json = await response.json();
+    expect(json.error.code).toBe("ONBOARDING_FILE_IMPORT_INVALID");
+    expect(json.error.details.issues).toContainEqual(
+      expect.objectContaining({ column: "week", row: 1, section: "matchups" }),
+    );
+    expect(connectProviderWithCredentials).not.toHaveBeenCalled();
+  });
+
+  it("rejects a body without a bundle", async () => {
+    const response = await POST(upload({}));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe("INVALID_REQUEST");
+  });
+});
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { recordApiHandler } from "@/core/metrics";
+import { enforceApiRateLimitOrReject } from "@/core/rate-limit";
+import { AppError } from "@/core/result";
+import { getFileImportOnboardingDependencies } from "@/onboarding/deps";
+import { connectFileImport } from "@/onboarding/file-import-service";
+import {
+  errorJson,
+  readJsonBody,
+  requireUserId,
+  resultJson,
+} from "@/onboarding/http";
+
+export const runtime = "nodejs";
+
+// A decade of matchups, drafts, and transactions for a 14-team league fits in
+// well under a megabyte. The headroom is for verbose CSV exports and for league
+// archives, which carry Press pieces and the record book alongside the bundle.
+const MAX_FILE_IMPORT_BYTES = 8 * 1024 * 1024;
+
+const bodySchema = z.object({
+  bundle: z.record(z.string(), z.unknown()),
+});
+
+async function fileConnectPost(request: Request) {
+  const userId = await requireUserId(request);
+  if (!userId.ok) {
+    return errorJson(userId.error);
+  }
+  // Each upload parses and encrypts up to the full body cap.
+  const limited = await enforceApiRateLimitOrReject({
+    max: 10,
+    message: "Too many league file uploads. Try again shortly.",
+    scope: "file-import-connect",
+    subject: userId.value,
+    windowSeconds: 60,
+  });
+  if (limited) {
+    return limited;
+  }
+
+  const body = await readJsonBody(request, MAX_FILE_IMPORT_BYTES);
+  if (!body.ok) {
+    return errorJson(body.error);
+  }
+
+  const parsed = bodySchema.safeParse(body.value);
+  if (!parsed.success) {
+    return errorJson(
+      new AppError({
+        code: "INVALID_REQUEST",
+        message: "A league file bundle is required",
+        status: 400,
+      }),
+    );
+  }
+
+  const result = await connectFileImport(
+    getFileImportOnboardingDependencies(),
+    {
+      bundle: parsed.data.bundle,
+      userId: userId.value,
+    },
+  );
+  return resultJson(result);
+}
+
+export const POST = recordApiHandler(
+  { method: "POST", route: "/api/onboarding/file/connect" },
+  fileConnectPost,
+);
@@ -1,10 +1,12 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
+import { createPersonalAgentLlmClient } from "@/ai/dependencies";
 import { getPersonalAgentAnswer } from "@/ai/personal-agent";
 import { requireLeagueRoleForUser, requireSession } from "@/auth/guards";
 import { getEnv } from "@/core/env";
 import { recordApiHandler } from "@/core/metrics";
 import { enforceApiRateLimitOrReject } from "@/core/rate-limit";
+import { AppError } from "@/core/result";
 import { getDb } from "@/db";
 
 export const dynamic = "force-dynamic";
@@ -22,6 +24,7 @@ const personalAgentMessageSchema = z.object({
     })
     .optional(),
   question: z.string().trim().min(1).max(400),
+  threadId: z.string().uuid().nullable().optional(),
 });
 
 async function personalAgentMessagePost(request: Request) {
@@ -100,15 +103,27 @@ async function personalAgentMessagePost(request: Request) {
   }
 
   const env = getEnv();
-  const result = await getPersonalAgentAnswer({
-    context: parsed.data.context,
-    db,
-    env: { entitlements: env.entitlements },
-    question: parsed.data.question,
-    userId: session.value.userId,
-  });
+  try {
+    const result = await getPersonalAgentAnswer({
+      context: parsed.data.context,
+      db,
+      env: { entitlements: env.entitlements },
+      llm: createPersonalAgentLlmClient(env),
+      question: parsed.data.question,
+      threadId: parsed.data.threadId,
+      userId: session.value.userId,
+    });
 
-  return NextResponse.json(result);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.toJSON() },
+        { status: error.status },
+      );
+    }
+    throw error;
+  }
 }
 
 export const POST = recordApiHandler(
@@ -26,9 +26,12 @@ vi.mock("@/push", () => ({
     "league.blog.published",
     "league.lore.vote.opened",
     "league.lore.canonized",
+    "league.lore.disputed",
     "arena.rival.passed",
     "content.retracted",
     "content.superseded",
+    "league.pool.eliminated",
+    "league.pool.scored",
   ],
   setNotificationChannelPreference: mocks.setNotificationChannelPreference,
   setPushNotificationPreference: mocks.setPushNotificationPreference,
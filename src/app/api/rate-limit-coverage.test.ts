@@ -26,6 +26,7 @@ const RATE_LIMITED = new Set([
   "onboarding/espn/browser/start/route.ts",
   "onboarding/espn/import/route.ts",
   "onboarding/espn/manual/route.ts",
+  "onboarding/file/connect/route.ts",
   "onboarding/import/route.ts",
   "onboarding/sleeper/connect/route.ts",
   "onboarding/sleeper/import/route.ts",
@@ -33,10 +34,16 @@ const RATE_LIMITED = new Set([
   "onboarding/yahoo/start/route.ts",
   // Member-facing writes that a script could otherwise churn.
   "invite/[leagueId]/[token]/accept/route.ts",
+  "leagues/[leagueId]/lore/claims/[claimId]/evidence/route.ts",
   "leagues/[leagueId]/lore/claims/[claimId]/votes/route.ts",
   "leagues/[leagueId]/lore/claims/route.ts",
   "leagues/[leagueId]/polls/[pollId]/votes/route.ts",
+  "leagues/[leagueId]/bankroll/slips/route.ts",
+  "leagues/[leagueId]/keepers/route.ts",
   "leagues/[leagueId]/picks/route.ts",
+  "leagues/[leagueId]/playoffs/bracket-challenge/route.ts",
+  "leagues/[leagueId]/pools/[poolId]/confidence/route.ts",
+  "leagues/[leagueId]/pools/[poolId]/survivor/route.ts",
   "leagues/[leagueId]/press/[postId]/reactions/route.ts",
 ]);
 
@@ -50,11 +57,11 @@ const EXEMPT = new Map([
   ["admin/entitlements/route.ts", "platform-administrator only"],
   [
     "leagues/[leagueId]/cast/personas/[persona]/tone/rollback/route.ts",
-    "platform-administrator only; no provider call",
+    "platform administrators and cast:edit roles only; no provider call",
   ],
   [
     "leagues/[leagueId]/cast/personas/[persona]/tone/route.ts",
-    "platform-administrator only; no provider call",
+    "platform administrators and cast:edit roles only; no provider call",
   ],
   ["leagues/[leagueId]/commissioner/handoff/route.ts", "commissioner only"],
   [
@@ -69,14 +76,53 @@ const EXEMPT = new Map([
     "leagues/[leagueId]/curation/seasons/[season]/mode/route.ts",
     "data steward only",
   ],
+  [
+    "leagues/[leagueId]/archives/restore/route.ts",
+    "league:manage (commissioner or co-commissioner); refuses any league that is not freshly imported",
+  ],
+  [
+    "leagues/[leagueId]/archives/route.ts",
+    "league:manage (commissioner or co-commissioner); one queued export per league at a time",
+  ],
+  [
+    "leagues/[leagueId]/bankroll/route.ts",
+    "league:manage (commissioner or co-commissioner)",
+  ],
+  [
+    "leagues/[leagueId]/history-sources/route.ts",
+    "league:manage (commissioner or co-commissioner); links an already-discovered league, no provider call",
+  ],
   ["leagues/[leagueId]/invites/route.ts", "commissioner-gated invite issuance"],
+  [
+    "leagues/[leagueId]/keepers/board/route.ts",
+    "league:manage (commissioner or co-commissioner)",
+  ],
   ["leagues/[leagueId]/lore/claims/[claimId]/steward/route.ts", "steward only"],
+  [
+    "leagues/[leagueId]/pools/route.ts",
+    "league:manage (commissioner or co-commissioner)",
+  ],
   ["leagues/[leagueId]/press/[postId]/retract/route.ts", "steward only"],
+  [
+    "leagues/[leagueId]/records/definitions/route.ts",
+    "league:manage (commissioner or co-commissioner); no provider call",
+  ],
   ["leagues/[leagueId]/roast-consent/route.ts", "one row per member"],
+  ["leagues/[leagueId]/roles/route.ts", "commissioner only"],
   ["leagues/[leagueId]/steward/integrity/route.ts", "steward only"],
   ["leagues/[leagueId]/stewards/route.ts", "commissioner only"],
-  ["leagues/[leagueId]/webhooks/[webhookId]/route.ts", "commissioner only"],
-  ["leagues/[leagueId]/webhooks/route.ts", "commissioner only"],
+  [
+    "leagues/[leagueId]/webhooks/[webhookId]/route.ts",
+    "league:manage (commissioner or co-commissioner)",
+  ],
+  [
+    "leagues/[leagueId]/webhooks/route.ts",
+    "league:manage (commissioner or co-commissioner)",
+  ],
+  [
+    "onboarding/connections/[credentialId]/route.ts",
+    "deletes one of the caller's own credential rows; no provider call",
+  ],
   ["onboarding/quarantine/review/route.ts", "data steward only"],
   ["push/preferences/route.ts", "one preference row per member"],
   ["push/subscriptions/account/route.ts", "one row per browser subscription"],
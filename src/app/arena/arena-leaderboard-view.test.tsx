@@ -10,7 +10,104 @@ vi.mock("next/navigation", () => ({
 }));
 
 const data: ArenaLeaderboardData = {
+  bankroll: {
+    individualStandings: [],
+    leagueStandings: [
+      {
+        accuracyBps: 6_000,
+        displayName: "Arena League A",
+        id: "league-a",
+        netUnits: 412.5,
+        previousRank: null,
+        rank: 1,
+        rankDelta: 0,
+        roiBps: 1_375,
+        settledSlips: 12,
+        stakedUnits: 3_000,
+        weeksPlayed: 2,
+        wonSlips: 5,
+      },
+      {
+        accuracyBps: 7_500,
+        displayName: "Arena League B",
+        id: "league-b",
+        netUnits: -220,
+        previousRank: null,
+        rank: 2,
+        rankDelta: 0,
+        roiBps: -1_100,
+        settledSlips: 8,
+        stakedUnits: 2_000,
+        weeksPlayed: 1,
+        wonSlips: 4,
+      },
+    ],
+  },
   computedAt: "2026-09-09T00:00:00.000Z",
+  divisions: [
+    {
+      movers: {
+        fallers: [],
+        risers: [
+          {
+            accuracyBps: 7_500,
+            displayName: "Arena League B",
+            divisionRank: 1,
+            id: "league-b",
+            movement: "promoted",
+            overallRank: 1,
+            previousTier: 2,
+            rankDelta: 1,
+            zone: "safe",
+          },
+        ],
+      },
+      name: "Premier Division",
+      rows: [
+        {
+          accuracyBps: 7_500,
+          displayName: "Arena League B",
+          divisionRank: 1,
+          id: "league-b",
+          movement: "promoted",
+          overallRank: 1,
+          previousTier: 2,
+          rankDelta: 1,
+          zone: "safe",
+        },
+        {
+          accuracyBps: 5_000,
+          displayName: "Arena League A",
+          divisionRank: 2,
+          id: "league-a",
+          movement: "held",
+          overallRank: 2,
+          previousTier: 1,
+          rankDelta: -1,
+          zone: "relegation",
+        },
+      ],
+      tier: 1,
+    },
+    {
+      movers: { fallers: [], risers: [] },
+      name: "Division 2",
+      rows: [
+        {
+          accuracyBps: null,
+          displayName: "Arena League C",
+          divisionRank: 1,
+          id: "league-c",
+          movement: "new",
+          overallRank: null,
+          previousTier: null,
+          rankDelta: 0,
+          zone: "promotion",
+        },
+      ],
+      tier: 2,
+    },
+  ],
   headToHead: {
     anchor: {
       accuracyBps: 7_500,
@@ -24,6 +121,7 @@ const data: ArenaLeaderboardData = {
       weeksPlayed: 1,
     },
     comparison: "leading",
+    divisionName: "Premier Division",
     leader: {
       accuracyBps: 7_500,
       correctPicks: 30,
@@ -52,6 +150,9 @@ const data: ArenaLeaderboardData = {
   individualStandings: [
     {
       accuracyBps: 7_500,
+      beatCloseBps: 6_000,
+      beatClosePicks: 6,
+      clvPicks: 10,
       correctPicks: 15,
       displayName: "Arena Gamma",
       eligibleWeeks: 1,
@@ -68,6 +169,9 @@ const data: ArenaLeaderboardData = {
   leagueStandings: [
     {
       accuracyBps: 7_500,
+      beatCloseBps: 6_500,
+      beatClosePicks: 13,
+      clvPicks: 20,
       correctPicks: 30,
       displayName: "Arena League B",
       eligibleWeeks: 1,
@@ -82,6 +186,9 @@ const data: ArenaLeaderboardData = {
     },
     {
       accuracyBps: 5_000,
+      beatCloseBps: 0,
+      beatClosePicks: 0,
+      clvPicks: 0,
       correctPicks: 20,
       displayName: "Arena League A",
       eligibleWeeks: 1,
@@ -193,6 +300,12 @@ test("arena leaderboard view renders league and individual standings", () => {
   expect(
     screen.getAllByText("30/40 correct · 1/1 weeks").length,
   ).toBeGreaterThanOrEqual(2);
+  // Beat-the-close rides along as a secondary column, and a subject with no
+  // recorded closes shows a dash rather than a 0% it never earned.
+  const leagueTable = screen.getByRole("table", { name: "League leaderboard" });
+  const leagueRows = within(leagueTable).getAllByRole("row");
+  expect(within(leagueRows[1] as HTMLElement).getByText("65%")).toBeDefined();
+  expect(within(leagueRows[2] as HTMLElement).getByText("--")).toBeDefined();
   expect(
     within(arenaTabs)
       .getByRole("tab", { name: /League vs League/i })
@@ -237,6 +350,49 @@ test("arena matchup section renders rivalry and analytics", () => {
   expect(screen.getByRole("heading", { name: "Duel margin" })).toBeDefined();
 });
 
+test("arena divisions section tiers leagues with their zones", () => {
+  render(<ArenaLeaderboardView data={data} sectionId="divisions" />);
+
+  const premier = screen.getByRole("table", {
+    name: "Premier Division standings",
+  });
+  const rows = within(premier).getAllByRole("row");
+  expect(
+    within(rows[1] as HTMLElement).getByText("Promoted from Division 2"),
+  ).toBeDefined();
+  expect(within(rows[2] as HTMLElement).getByText("Relegation")).toBeDefined();
+  const lower = screen.getByRole("table", { name: "Division 2 standings" });
+  expect(within(lower).getByText("New this season")).toBeDefined();
+  expect(within(lower).getByText("unranked")).toBeDefined();
+
+  cleanup();
+  render(
+    <ArenaLeaderboardView
+      data={{ ...data, divisions: [] }}
+      sectionId="divisions"
+    />,
+  );
+  expect(screen.getByText("Divisions not drawn yet")).toBeDefined();
+});
+
+test("arena bankroll section ranks ROI beside accuracy", () => {
+  render(<ArenaLeaderboardView data={data} sectionId="bankroll" />);
+
+  const table = screen.getByRole("table", { name: "League ROI" });
+  const rows = within(table).getAllByRole("row");
+  // The accuracy leader trails on ROI: the track exists to show that split.
+  expect(
+    within(rows[1] as HTMLElement).getByText("Arena League A"),
+  ).toBeDefined();
+  expect(within(rows[1] as HTMLElement).getByText("+13.8%")).toBeDefined();
+  expect(within(rows[1] as HTMLElement).getByText("60%")).toBeDefined();
+  expect(within(rows[2] as HTMLElement).getByText("-11%")).toBeDefined();
+  expect(within(rows[2] as HTMLElement).getByText("75%")).toBeDefined();
+  expect(
+    screen.getAllByText("No bankroll slips have settled this season.").length,
+  ).toBeGreaterThanOrEqual(1);
+});
+
 test("arena movers section renders rank movement", () => {
   render(<ArenaLeaderboardView data={data} sectionId="movers" />);
 
@@ -283,7 +439,9 @@ test("arena leaderboard view renders empty states", () => {
   render(
     <ArenaLeaderboardView
       data={{
+        bankroll: { individualStandings: [], leagueStandings: [] },
         computedAt: null,
+        divisions: [],
         headToHead: null,
         individualStandings: [],
         leagueOptions: [],
@@ -313,7 +471,9 @@ test("arena leaderboard view renders empty states", () => {
 
 test("arena subsection empty states stay coherent for solo or zero-league users", () => {
   const emptyData: ArenaLeaderboardData = {
+    bankroll: { individualStandings: [], leagueStandings: [] },
     computedAt: null,
+    divisions: [],
     headToHead: null,
     individualStandings: [],
     leagueOptions: [],
@@ -11,6 +11,9 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import type {
+  ArenaBankrollRow,
+  ArenaDivision,
+  ArenaDivisionRow,
   ArenaHeadToHead,
   ArenaHeadToHeadLeague,
   ArenaLeaderboardData,
@@ -74,6 +77,13 @@ function formatAccuracy(value: number): string {
   }).format(value / 10_000);
 }
 
+/** Closing-line value is only a rate once some pick has a recorded close. */
+function formatBeatClose(
+  row: Pick<ArenaLeaderboardRow, "beatCloseBps" | "clvPicks">,
+): string {
+  return row.clvPicks === 0 ? "--" : formatAccuracy(row.beatCloseBps);
+}
+
 /** For gaps and margins, where the sign carries meaning. */
 function formatAccuracyGap(value: number): string {
   return `${new Intl.NumberFormat("en-US", {
@@ -82,6 +92,22 @@ function formatAccuracyGap(value: number): string {
   }).format(value / 100)} pts`;
 }
 
+/** ROI in basis points, signed: 1250 -> "+12.5%". */
+function formatRoi(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: 1,
+    signDisplay: "exceptZero",
+    style: "percent",
+  }).format(value / 10_000);
+}
+
+function formatUnits(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: 2,
+    signDisplay: "exceptZero",
+  }).format(value);
+}
+
 /** Accuracy relative to the coin flip: 6250 -> "+12.5 pts". */
 function accuracyEdgeBps(value: number): number {
   return value - COIN_FLIP_BPS;
@@ -155,6 +181,43 @@ function seasonStatusTone(status: ArenaSeasonSummary["status"]): StatusTone {
   }
 }
 
+function divisionZoneLabel(zone: ArenaDivisionRow["zone"]): string {
+  switch (zone) {
+    case "promotion":
+      return "Promotion";
+    case "relegation":
+      return "Relegation";
+    case "safe":
+      return "Safe";
+  }
+}
+
+function divisionZoneTone(zone: ArenaDivisionRow["zone"]): StatusTone {
+  switch (zone) {
+    case "promotion":
+      return "success";
+    case "relegation":
+      return "danger";
+    case "safe":
+      return "neutral";
+  }
+}
+
+function divisionArrivalCopy(row: ArenaDivisionRow): string {
+  switch (row.movement) {
+    case "promoted":
+      return `Promoted from Division ${row.previousTier}`;
+    case "relegated":
+      return row.previousTier === 1
+        ? "Relegated from the Premier Division"
+        : `Relegated from Division ${row.previousTier}`;
+    case "held":
+      return "Held its place";
+    case "new":
+      return "New this season";
+  }
+}
+
 function subjectKindLabel(kind: ArenaMover["kind"]): string {
   return kind === "league" ? "League" : "Player";
 }
@@ -430,6 +493,11 @@ function leaderboardKVItems(
       tone: "muted",
       value: `${row.eligibleWeeks}/${row.weeksPlayed}`,
     },
+    {
+      label: "Beat the close",
+      tone: "muted",
+      value: formatBeatClose(row),
+    },
   ];
 }
 
@@ -611,6 +679,9 @@ function RivalryPanel({
           <div className="flex items-center gap-2 text-primary">
             <Swords className="size-4" aria-hidden="true" />
             <Tag>League head-to-head</Tag>
+            {headToHead.divisionName ? (
+              <Tag>{headToHead.divisionName}</Tag>
+            ) : null}
           </div>
           <h2 className="mt-1 text-lg font-medium">
             {headToHead.anchor.displayName} vs. {headToHead.rival.displayName}
@@ -930,6 +1001,17 @@ function LeaderboardSection({
       id: "edge",
       priority: "desktop",
     },
+    {
+      align: "right",
+      cell: (row) => (
+        <span className="tabular-nums text-muted-foreground">
+          {formatBeatClose(row)}
+        </span>
+      ),
+      header: "Beat close",
+      id: "beat-close",
+      priority: "desktop",
+    },
   ];
   const mobileRows = rows.map((row) =>
     leaderboardMobileRow(row, netLabel, highlightedRowId),
@@ -964,6 +1046,302 @@ function LeaderboardSection({
   );
 }
 
+/**
+ * The bankroll track. Accuracy sits in the last column on purpose: ROI rewards
+ * pricing and sizing, accuracy rewards being right, and the rows where the two
+ * ranks disagree are the ones worth reading.
+ */
+function BankrollTrackSection({
+  emptyText,
+  highlightedRowId,
+  rows,
+  title,
+}: {
+  emptyText: string;
+  highlightedRowId?: string | null;
+  rows: ArenaBankrollRow[];
+  title: string;
+}) {
+  const columns: readonly DataTableColumn<ArenaBankrollRow>[] = [
+    {
+      cell: (row) => (
+        <div>
+          <p className="metric text-muted-foreground">#{row.rank}</p>
+          <Edge
+            className="mt-1"
+            tone={edgeTone(row.rankDelta)}
+            value={movementLabel(row.rankDelta)}
+          />
+        </div>
+      ),
+      header: "#",
+      id: "rank",
+    },
+    {
+      cell: (row) => (
+        <div className="flex min-w-0 items-center gap-3">
+          <Avatar name={row.displayName} size="sm" />
+          <div className="min-w-0">
+            <p className="truncate font-medium">{row.displayName}</p>
+            <p className="truncate text-xs text-muted-foreground">
+              {row.wonSlips}/{row.settledSlips} slips won · {row.weeksPlayed}{" "}
+              weeks
+            </p>
+          </div>
+        </div>
+      ),
+      header: "Name",
+      id: "name",
+    },
+    {
+      align: "right",
+      cell: (row) => (
+        <SignedValue className="font-semibold" tone={cellTone(row.roiBps)}>
+          {formatRoi(row.roiBps)}
+        </SignedValue>
+      ),
+      header: "ROI",
+      id: "roi",
+    },
+    {
+      align: "right",
+      cell: (row) => (
+        <SignedValue tone={cellTone(row.netUnits)}>
+          {formatUnits(row.netUnits)}
+        </SignedValue>
+      ),
+      header: "Net units",
+      id: "net",
+      priority: "desktop",
+    },
+    {
+      align: "right",
+      cell: (row) => (
+        <span className="tabular-nums">
+          {row.accuracyBps === null ? "--" : formatAccuracy(row.accuracyBps)}
+        </span>
+      ),
+      header: "Accuracy",
+      id: "accuracy",
+    },
+  ];
+  const mobileRows: DataCardRow[] = rows.map((row) => ({
+    cells: [
+      { label: "Rank", value: `#${row.rank}` },
+      {
+        label: "ROI",
+        tone: metricTone(row.roiBps),
+        value: formatRoi(row.roiBps),
+      },
+      {
+        label: "Net units",
+        tone: metricTone(row.netUnits),
+        value: formatUnits(row.netUnits),
+      },
+      {
+        label: "Accuracy",
+        tone: "muted",
+        value:
+          row.accuracyBps === null ? "--" : formatAccuracy(row.accuracyBps),
+      },
+    ],
+    id: row.id,
+    leading: <Avatar name={row.displayName} size="sm" />,
+    meta: `${row.wonSlips}/${row.settledSlips} slips won · ${row.weeksPlayed} weeks`,
+    selected: row.id === highlightedRowId,
+    title: row.displayName,
+  }));
+
+  return (
+    <section className="panel">
+      <div className="flex items-center justify-between gap-3 p-4">
+        <div className="flex items-center gap-2">
+          <h2 className="heading-auspex text-lg">{title}</h2>
+          <Badge label={`${rows.length} rows`} value={rows.length} />
+        </div>
+        <Tag leadingIcon={<Trophy aria-hidden="true" />}>ROI track</Tag>
+      </div>
+      <div className="px-4 pb-4">
+        <DataTable
+          ariaLabel={title}
+          columns={columns}
+          empty={
+            <p className="rounded-control border border-dashed border-border bg-elevated px-3 py-3 text-sm text-muted-foreground">
+              {emptyText}
+            </p>
+          }
+          getRowId={(row) => row.id}
+          getRowName={(row) => row.displayName}
+          mobileRows={mobileRows}
+          rows={rows}
+          selectedRowIds={highlightedRowId ? [highlightedRowId] : []}
+        />
+      </div>
+    </section>
+  );
+}
+
+function DivisionsSection({
+  divisions,
+  highlightedRowId,
+}: {
+  divisions: ArenaDivision[];
+  highlightedRowId?: string | null;
+}) {
+  if (divisions.length === 0) {
+    return (
+      <EmptyState
+        className="border-dashed"
+        icon={<Trophy className="size-4" />}
+        title="Divisions not drawn yet"
+      >
+        <p>
+          Leagues are placed into divisions once they have a standing this
+          season, or when the season before it ends.
+        </p>
+      </EmptyState>
+    );
+  }
+
+  return (
+    <section aria-label="Arena divisions" className="grid gap-6">
+      {divisions.map((division) => (
+        <DivisionTable
+          division={division}
+          highlightedRowId={highlightedRowId}
+          key={division.tier}
+        />
+      ))}
+    </section>
+  );
+}
+
+function DivisionTable({
+  division,
+  highlightedRowId,
+}: {
+  division: ArenaDivision;
+  highlightedRowId?: string | null;
+}) {
+  const columns: readonly DataTableColumn<ArenaDivisionRow>[] = [
+    {
+      cell: (row) => (
+        <div>
+          <p className="metric text-muted-foreground">#{row.divisionRank}</p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {row.overallRank === null
+              ? "unranked"
+              : `#${row.overallRank} overall`}
+          </p>
+        </div>
+      ),
+      header: "#",
+      id: "rank",
+    },
+    {
+      cell: (row) => (
+        <div className="flex min-w-0 items-center gap-3">
+          <Avatar name={row.displayName} size="sm" />
+          <div className="min-w-0">
+            <p className="truncate font-medium">{row.displayName}</p>
+            <p className="truncate text-xs text-muted-foreground">
+              {divisionArrivalCopy(row)}
+            </p>
+          </div>
+        </div>
+      ),
+      header: "Name",
+      id: "name",
+    },
+    {
+      align: "right",
+      cell: (row) => (
+        <span className="tabular-nums">
+          {row.accuracyBps === null ? "--" : formatAccuracy(row.accuracyBps)}
+        </span>
+      ),
+      header: "Accuracy",
+      id: "accuracy",
+    },
+    {
+      align: "right",
+      cell: (row) => (
+        <StatusPill tone={divisionZoneTone(row.zone)}>
+          {divisionZoneLabel(row.zone)}
+        </StatusPill>
+      ),
+      header: "Zone",
+      id: "zone",
+      priority: "desktop",
+    },
+  ];
+  const mobileRows: DataCardRow[] = division.rows.map((row) => ({
+    cells: [
+      { label: "Rank", value: `#${row.divisionRank}` },
+      {
+        label: "Accuracy",
+        tone: "muted",
+        value:
+          row.accuracyBps === null ? "--" : formatAccuracy(row.accuracyBps),
+      },
+      {
+        label: "Zone",
+        tone:
+          row.zone === "promotion"
+            ? "positive"
+            : row.zone === "relegation"
+              ? "negative"
+              : "muted",
+        value: divisionZoneLabel(row.zone),
+      },
+    ],
+    id: row.id,
+    leading: <Avatar name={row.displayName} size="sm" />,
+    meta: divisionArrivalCopy(row),
+    selected: row.id === highlightedRowId,
+    title: row.displayName,
+  }));
+  const movers = [...division.movers.risers, ...division.movers.fallers];
+
+  return (
+    <article className="panel">
+      <div className="flex items-center justify-between gap-3 p-4">
+        <div className="flex items-center gap-2">
+          <h2 className="heading-auspex text-lg">{division.name}</h2>
+          <Badge
+            label={`${division.rows.length} leagues`}
+            value={division.rows.length}
+          />
+        </div>
+        <Tag leadingIcon={<Trophy aria-hidden="true" />}>
+          Tier {division.tier}
+        </Tag>
+      </div>
+      <div className="px-4 pb-4">
+        <DataTable
+          ariaLabel={`${division.name} standings`}
+          columns={columns}
+          getRowId={(row) => row.id}
+          getRowName={(row) => row.displayName}
+          mobileRows={mobileRows}
+          rows={division.rows}
+          selectedRowIds={highlightedRowId ? [highlightedRowId] : []}
+        />
+        {movers.length > 0 ? (
+          <KVList
+            className="mt-4 grid gap-x-4 sm:grid-cols-2 sm:divide-y-0"
+            items={movers.map((row) => ({
+              label: row.displayName,
+              tone: metricTone(row.rankDelta),
+              value: movementLabel(row.rankDelta),
+            }))}
+          />
+        ) : null}
+      </div>
+    </article>
+  );
+}
+
 function ArenaRulesSection() {
   return (
     <section className="panel grid gap-4 p-4" aria-label="Arena rules">
@@ -995,11 +1373,20 @@ function ArenaRulesSection() {
         </div>
       </div>
       <KVList
-        className="grid gap-x-4 sm:grid-cols-3 sm:divide-y-0"
+        className="grid gap-x-4 sm:grid-cols-2 sm:divide-y-0"
         items={[
           { label: "League ladder", value: "Collective accuracy" },
           { label: "Individual ladder", value: "Personal accuracy" },
+          { label: "Bankroll track", value: "Paper ROI, opt-in leagues" },
           { label: "Movement", value: "Delta vs prior materialization" },
+          {
+            label: "Divisions",
+            value: "Top two up, bottom two down each season",
+          },
+          {
+            label: "Beat close",
+            value: "Picks that beat the kickoff line, never ranked",
+          },
         ]}
       />
     </section>
@@ -1012,6 +1399,10 @@ function arenaSectionDeck(sectionId: ArenaSectionId): string {
       return "The main league and individual ladders.";
     case "leagues":
       return "Your league's aggregate duel against the field.";
+    case "divisions":
+      return "Tiered leagues, with promotion and relegation each season.";
+    case "bankroll":
+      return "Paper ROI for bankroll-mode leagues, beside their accuracy.";
     case "matchups":
       return "Head-to-head rival framing and duel margin.";
     case "movers":
@@ -1218,6 +1609,29 @@ export function ArenaLeaderboardView({
           </>
         ) : null}
 
+        {sectionId === "divisions" ? (
+          <DivisionsSection
+            divisions={data.divisions}
+            highlightedRowId={focusedLeagueId}
+          />
+        ) : null}
+
+        {sectionId === "bankroll" ? (
+          <div className="grid gap-6">
+            <BankrollTrackSection
+              emptyText="No bankroll-mode league has settled a slip this season."
+              highlightedRowId={focusedLeagueId}
+              rows={data.bankroll.leagueStandings}
+              title="League ROI"
+            />
+            <BankrollTrackSection
+              emptyText="No bankroll slips have settled this season."
+              rows={data.bankroll.individualStandings}
+              title="Individual ROI"
+            />
+          </div>
+        ) : null}
+
         {sectionId === "movers" ? (
           <>
             <MovementSummary {...data.movers} />
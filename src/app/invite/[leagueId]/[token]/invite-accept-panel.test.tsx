@@ -29,6 +29,7 @@ test("invite accept panel sends unauthenticated users to provider onboarding", (
       claimTargets={[]}
       isAuthenticated={false}
       onboardingUrl="/onboarding/espn"
+      signInUrl="/sign-in"
     />,
   );
 
@@ -50,6 +51,7 @@ test("invite accept panel preserves return-to onboarding links", () => {
       claimTargets={[]}
       isAuthenticated={false}
       onboardingUrl="/onboarding/espn?returnTo=%2Finvite%2Fleague%2Ftoken"
+      signInUrl="/sign-in"
     />,
   );
 
@@ -72,6 +74,7 @@ test("invite accept panel posts acceptance and surfaces claim errors", async ()
       claimTargets={[]}
       isAuthenticated={true}
       onboardingUrl="/onboarding/espn"
+      signInUrl="/sign-in"
     />,
   );
 
@@ -115,6 +118,7 @@ test("open invite accept panel posts the selected provider member", async () =>
       ]}
       isAuthenticated={true}
       onboardingUrl="/onboarding/espn"
+      signInUrl="/sign-in"
     />,
   );
 
@@ -148,6 +152,7 @@ test("accepting an invite routes with the app router instead of reloading", asyn
       claimTargets={[]}
       isAuthenticated={true}
       onboardingUrl="/onboarding/espn"
+      signInUrl="/sign-in"
     />,
   );
 
@@ -161,3 +166,156 @@ test("accepting an invite routes with the app router instead of reloading", asyn
 
   vi.unstubAllGlobals();
 });
+
+test("signed-out invitees claim a targeted invite with just an email", async () => {
+  const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+    new Response(
+      JSON.stringify({
+        claimId: "claim-a",
+        email: "sam@example.test",
+        magicLinkSent: true,
+      }),
+      { status: 200 },
+    ),
+  );
+
+  render(
+    <InviteAcceptPanel
+      acceptUrl="/api/invite/league/token/accept"
+      claimMode="targeted"
+      claimTargets={[]}
+      isAuthenticated={false}
+      onboardingUrl="/onboarding/espn"
+      signInUrl="/sign-in?returnTo=%2Finvite%2Fleague%2Ftoken"
+    />,
+  );
+
+  expect(
+    screen.getByRole("link", { name: "Sign in" }).getAttribute("href"),
+  ).toBe("/sign-in?returnTo=%2Finvite%2Fleague%2Ftoken");
+  const claim = screen.getByRole("button", { name: /claim with email/i });
+  expect((claim as HTMLButtonElement).disabled).toBe(true);
+
+  fireEvent.change(screen.getByLabelText("Email"), {
+    target: { value: "sam@example.test" },
+  });
+  fireEvent.change(screen.getByLabelText("Your name"), {
+    target: { value: "Sam" },
+  });
+  fireEvent.click(claim);
+
+  expect(
+    await screen.findByText("Check sam@example.test to finish claiming"),
+  ).toBeTruthy();
+  expect(fetchMock).toHaveBeenCalledWith(
+    "/api/invite/league/token/accept",
+    expect.objectContaining({
+      body: JSON.stringify({
+        account: { displayName: "Sam", email: "sam@example.test" },
+      }),
+      method: "POST",
+    }),
+  );
+  expect(router.push).not.toHaveBeenCalled();
+});
+
+test("a claim link that could not be finished explains why", () => {
+  render(
+    <InviteAcceptPanel
+      acceptUrl="/api/invite/league/token/accept"
+      claimErrorCode="LEAGUE_INVITE_PENDING_CLAIM_EMAIL_MISMATCH"
+      claimMode="targeted"
+      claimTargets={[]}
+      isAuthenticated={true}
+      onboardingUrl="/onboarding/espn"
+      signInUrl="/sign-in"
+    />,
+  );
+
+  expect(screen.getByRole("alert").textContent).toBe(
+    "Sign in with the email this invite was claimed with.",
+  );
+});
+
+test("an unsent claim link lets the invitee try again", async () => {
+  vi.spyOn(globalThis, "fetch").mockResolvedValue(
+    new Response(JSON.stringify({ claimId: "claim-a", magicLinkSent: false }), {
+      status: 200,
+    }),
+  );
+
+  render(
+    <InviteAcceptPanel
+      acceptUrl="/api/invite/league/token/accept"
+      claimMode="targeted"
+      claimTargets={[]}
+      isAuthenticated={false}
+      onboardingUrl="/onboarding/espn"
+      signInUrl="/sign-in"
+    />,
+  );
+
+  fireEvent.change(screen.getByLabelText("Email"), {
+    target: { value: "sam@example.test" },
+  });
+  fireEvent.change(screen.getByLabelText("Your name"), {
+    target: { value: "Sam" },
+  });
+  fireEvent.click(screen.getByRole("button", { name: /claim with email/i }));
+
+  expect(await screen.findByText("We could not send your link")).toBeTruthy();
+  fireEvent.click(screen.getByRole("button", { name: "Try again" }));
+  expect(
+    screen.getByRole("button", { name: /claim with email/i }),
+  ).toBeTruthy();
+});
+
+test("an email that already has an account is sent to sign in", async () => {
+  vi.spyOn(globalThis, "fetch").mockResolvedValue(
+    new Response(
+      JSON.stringify({ error: { code: "LEAGUE_INVITE_ACCOUNT_EXISTS" } }),
+      { status: 409 },
+    ),
+  );
+
+  render(
+    <InviteAcceptPanel
+      acceptUrl="/api/invite/league/token/accept"
+      claimMode="targeted"
+      claimTargets={[]}
+      isAuthenticated={false}
+      onboardingUrl="/onboarding/espn"
+      signInUrl="/sign-in"
+    />,
+  );
+
+  fireEvent.change(screen.getByLabelText("Email"), {
+    target: { value: "sam@example.test" },
+  });
+  fireEvent.change(screen.getByLabelText("Your name"), {
+    target: { value: "Sam" },
+  });
+  fireEvent.click(screen.getByRole("button", { name: /claim with email/i }));
+
+  expect((await screen.findByRole("alert")).textContent).toContain(
+    "Sign in to accept this invite",
+  );
+});
+
+test("open invites keep the email claim behind sign-in", () => {
+  render(
+    <InviteAcceptPanel
+      acceptUrl="/api/invite/league/token/accept"
+      claimMode="open"
+      claimTargets={[]}
+      isAuthenticated={false}
+      onboardingUrl="/onboarding/espn"
+      signInUrl="/sign-in"
+    />,
+  );
+
+  expect(screen.queryByRole("button", { name: /claim with email/i })).toBe(
+    null,
+  );
+  expect(screen.getByRole("link", { name: "Sign in" })).toBeTruthy();
+});
@@ -1,19 +1,30 @@
 "use client";
 
-import { ArrowRight, CheckCircle2, CircleDot } from "lucide-react";
+import {
+  ArrowRight,
+  CheckCircle2,
+  CircleDot,
+  LogIn,
+  MailCheck,
+} from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { type FormEvent, useState } from "react";
 import { Alert } from "@/components/ui/alert";
 import { Button, buttonVariants } from "@/components/ui/button";
+import { Field } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
 
 interface InviteAcceptPanelProps {
   acceptUrl: string;
+  /** Error code from a claim link that could not be finished, if any. */
+  claimErrorCode?: string | null;
   claimMode: "targeted" | "open";
   claimTargets: ClaimTarget[];
   isAuthenticated: boolean;
   onboardingUrl: string;
+  signInUrl: string;
 }
 
 interface ClaimTarget {
@@ -26,6 +37,49 @@ interface AcceptedInviteResponse {
   leagueUrl: string;
 }
 
+interface PendingClaimResponse {
+  magicLinkSent?: boolean;
+}
+
+interface ErrorResponse {
+  error?: { code?: string };
+}
+
+async function errorCode(response: Response): Promise<string | null> {
+  try {
+    const body = (await response.json()) as ErrorResponse;
+    return body.error?.code ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function newAccountErrorMessage(status: number, code: string | null): string {
+  if (code === "LEAGUE_INVITE_ACCOUNT_EXISTS") {
+    return "An account already uses that email. Sign in to accept this invite.";
+  }
+  if (status === 400) {
+    return "Enter your email and the name your league knows you by.";
+  }
+  return errorMessage(status);
+}
+
+function claimLinkErrorMessage(code: string | null | undefined): string | null {
+  switch (code) {
+    case null:
+    case undefined:
+    case "":
+      return null;
+    case "LEAGUE_INVITE_PENDING_CLAIM_EMAIL_MISMATCH":
+      return "Sign in with the email this invite was claimed with.";
+    case "LEAGUE_INVITE_ALREADY_ACCEPTED":
+    case "LEAGUE_INVITE_CLAIM_CONFLICT":
+      return "This invite has already been claimed.";
+    default:
+      return "That claim link has expired. Claim the invite again.";
+  }
+}
+
 function errorMessage(status: number): string {
   if (status === 401) {
     return "Sign in before accepting this invite.";
@@ -54,16 +108,37 @@ function isOpenClaimMode(mode: InviteAcceptPanelProps["claimMode"]): boolean {
   }
 }
 
+function InviteError({ message }: { message: string }) {
+  return (
+    <p
+      className="rounded-control border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm font-medium text-destructive"
+      role="alert"
+    >
+      {message}
+    </p>
+  );
+}
+
 export function InviteAcceptPanel({
   acceptUrl,
+  claimErrorCode,
   claimMode,
   claimTargets,
   isAuthenticated,
   onboardingUrl,
+  signInUrl,
 }: InviteAcceptPanelProps) {
   const router = useRouter();
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(() =>
+    claimLinkErrorMessage(claimErrorCode),
+  );
   const [isAccepting, setIsAccepting] = useState(false);
+  const [email, setEmail] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [claimedAs, setClaimedAs] = useState<{
+    email: string;
+    magicLinkSent: boolean;
+  } | null>(null);
   const [selectedProviderMemberId, setSelectedProviderMemberId] = useState(
     claimTargets[0]?.providerMemberId ?? "",
   );
@@ -105,21 +180,161 @@ export function InviteAcceptPanel({
     }
   }
 
+  async function claimWithEmail(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setIsAccepting(true);
+    const controller = new AbortController();
+    const timeout = window.setTimeout(() => controller.abort(), 10_000);
+    try {
+      const response = await fetch(acceptUrl, {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ account: { displayName, email } }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        setError(
+          newAccountErrorMessage(response.status, await errorCode(response)),
+        );
+        return;
+      }
+
+      const pending = (await response.json()) as PendingClaimResponse;
+      setClaimedAs({
+        email: email.trim(),
+        magicLinkSent: pending.magicLinkSent === true,
+      });
+    } catch {
+      setError("This invite could not be accepted.");
+    } finally {
+      window.clearTimeout(timeout);
+      setIsAccepting(false);
+    }
+  }
+
+  if (!isAuthenticated && claimedAs) {
+    return (
+      <section className="panel grid gap-3 p-4" aria-live="polite">
+        <div className="flex items-start gap-3">
+          <MailCheck
+            aria-hidden="true"
+            className="mt-0.5 size-5 shrink-0 text-primary"
+          />
+          <div className="grid gap-1">
+            <p className="eyebrow text-primary">One more step</p>
+            <h2 className="font-display text-base font-medium text-foreground">
+              {claimedAs.magicLinkSent
+                ? `Check ${claimedAs.email} to finish claiming`
+                : "We could not send your link"}
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {claimedAs.magicLinkSent
+                ? "Your team is yours once you open the link. It expires in 15 minutes; claim again here if it runs out."
+                : "Nothing was claimed yet. Try again in a moment."}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 max-sm:grid">
+          <Button
+            onClick={() => setClaimedAs(null)}
+            type="button"
+            variant="outline"
+          >
+            {claimedAs.magicLinkSent ? "Use a different email" : "Try again"}
+          </Button>
+        </div>
+      </section>
+    );
+  }
+
   if (!isAuthenticated) {
+    // Targeted invites name the team already, so a new member can claim it
+    // with just an email. Open invites keep their roster behind sign-in.
+    const canClaimWithEmail = !isOpenMode;
     return (
-      <section className="panel grid gap-3 p-4">
+      <section className="panel grid gap-4 p-4">
         <div className="grid gap-1">
-          <p className="eyebrow text-primary">Claim requires an account</p>
+          <p className="eyebrow text-primary">
+            {canClaimWithEmail
+              ? "Claim without a password"
+              : "Claim requires an account"}
+          </p>
           <h2 className="font-display text-base font-medium text-foreground">
-            Sign in, then come back to this exact team.
+            {canClaimWithEmail
+              ? "Claim with your email, then open the link we send to finish."
+              : "Sign in, then come back to this exact team."}
           </h2>
           <p className="text-sm text-muted-foreground">
             The invite link stays attached to this league and team claim through
             onboarding.
           </p>
         </div>
+        {canClaimWithEmail ? (
+          <form
+            className="grid gap-3"
+            onSubmit={(event) => void claimWithEmail(event)}
+          >
+            <Field controlId="invite-claim-email" label="Email">
+              {({ controlProps }) => (
+                <Input
+                  {...controlProps}
+                  autoComplete="email"
+                  onChange={(event) => setEmail(event.currentTarget.value)}
+                  required
+                  type="email"
+                  value={email}
+                />
+              )}
+            </Field>
+            <Field controlId="invite-claim-name" label="Your name">
+              {({ controlProps }) => (
+                <Input
+                  {...controlProps}
+                  autoComplete="name"
+                  maxLength={80}
+                  onChange={(event) =>
+                    setDisplayName(event.currentTarget.value)
+                  }
+                  required
+                  value={displayName}
+                />
+              )}
+            </Field>
+            <Button
+              className="justify-self-start max-sm:justify-self-stretch"
+              disabled={
+                isAccepting ||
+                email.trim().length === 0 ||
+                displayName.trim().length === 0
+              }
+              loading={isAccepting}
+              type="submit"
+            >
+              {isAccepting ? null : <CheckCircle2 data-icon="inline-start" />}
+              Claim with email
+            </Button>
+          </form>
+        ) : null}
         <div className="flex flex-wrap gap-2 max-sm:grid">
-          <Link href={onboardingUrl} className={cn(buttonVariants())}>
+          <Link
+            href={signInUrl}
+            className={cn(
+              buttonVariants({
+                variant: canClaimWithEmail ? "outline" : "default",
+              }),
+            )}
+          >
+            <LogIn data-icon="inline-start" />
+            Sign in
+          </Link>
+          <Link
+            href={onboardingUrl}
+            className={cn(buttonVariants({ variant: "outline" }))}
+          >
             Connect fantasy account
             <ArrowRight data-icon="inline-end" />
           </Link>
@@ -127,6 +342,7 @@ export function InviteAcceptPanel({
             Home
           </Link>
         </div>
+        {error ? <InviteError message={error} /> : null}
       </section>
     );
   }
@@ -209,14 +425,7 @@ export function InviteAcceptPanel({
         Claiming maps your account to the imported provider member and opens the
         league home with your team waiting.
       </p>
-      {error ? (
-        <p
-          className="rounded-control border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm font-medium text-destructive"
-          role="alert"
-        >
-          {error}
-        </p>
-      ) : null}
+      {error ? <InviteError message={error} /> : null}
     </section>
   );
 }
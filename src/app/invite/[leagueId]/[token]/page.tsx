@@ -13,6 +13,7 @@ export const dynamic = "force-dynamic";
 
 interface InvitePreviewPageProps {
   params: Promise<{ leagueId: string; token: string }>;
+  searchParams?: Promise<{ error?: string | string[] }>;
 }
 
 export async function generateMetadata({
@@ -47,8 +48,11 @@ function isOpenClaimMode(mode: "targeted" | "open"): boolean {
 
 export default async function InvitePreviewPage({
   params,
+  searchParams,
 }: InvitePreviewPageProps) {
   const { leagueId, token } = await params;
+  // Set by a claim link that could not be finished.
+  const claimError = (await searchParams)?.error;
   const invite = await getLeagueInviteLanding(
     { db: getDb() },
     { leagueId, token },
@@ -135,10 +139,12 @@ export default async function InvitePreviewPage({
 
       <InviteAcceptPanel
         acceptUrl={`/api/invite/${leagueId}/${token}/accept`}
+        claimErrorCode={typeof claimError === "string" ? claimError : null}
         claimMode={invite.value.claimMode}
         claimTargets={authenticatedClaimTargets}
         isAuthenticated={isAuthenticated}
         onboardingUrl={onboardingUrl}
+        signInUrl={withReturnTo("/sign-in", invitePath)}
       />
     </main>
   );
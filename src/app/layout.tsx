@@ -1,5 +1,6 @@
 import type { Metadata, Viewport } from "next";
 import { cookies } from "next/headers";
+import { OfflineSync } from "@/components/pwa/offline-sync";
 import { ServiceWorkerRegistration } from "@/components/pwa/service-worker-registration";
 import { PWA_BACKGROUND_HEX } from "@/lib/pwa";
 import { NavigationShell } from "@/navigation/navigation-shell";
@@ -58,6 +59,7 @@ export default async function RootLayout({
           </div>
         </ThemeProvider>
         <ServiceWorkerRegistration />
+        <OfflineSync />
       </body>
     </html>
   );
@@ -0,0 +1,178 @@
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within,
+} from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { postJson } from "@/app/onboarding/client-http";
+import type { LeagueArchiveSummary } from "@/archive";
+import { LeagueArchiveView } from "./archive-view";
+
+const mocks = vi.hoisted(() => ({
+  postJson: vi.fn(),
+  refresh: vi.fn(),
+}));
+
+vi.mock("@/app/onboarding/client-http", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("@/app/onboarding/client-http")>();
+  return {
+    ...actual,
+    postJson: mocks.postJson,
+  };
+});
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ refresh: mocks.refresh }),
+}));
+
+afterEach(() => {
+  cleanup();
+  mocks.postJson.mockReset();
+  mocks.refresh.mockClear();
+});
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const league = { id: leagueId, name: "Rumble League" };
+
+function uploadFile(text: string, name: string): File {
+  return Object.assign(new File([text], name), { text: async () => text });
+}
+
+function archive(
+  overrides: Partial<LeagueArchiveSummary> = {},
+): LeagueArchiveSummary {
+  return {
+    byteSize: 2_400_000,
+    completedAt: "2026-10-01T12:01:00.000Z",
+    createdAt: "2026-10-01T12:00:00.000Z",
+    downloadPath: `/api/leagues/${leagueId}/archives/a1/download?expires=1&s=ab`,
+    error: null,
+    id: "a1",
+    requestedBy: "Sam",
+    status: "ready",
+    ...overrides,
+  };
+}
+
+describe("LeagueArchiveView", () => {
+  it("lists exports with download links for the ready ones", () => {
+    render(
+      <LeagueArchiveView
+        data={{
+          archives: [
+            archive(),
+            archive({
+              byteSize: null,
+              downloadPath: null,
+              error: "statement timeout",
+              id: "a2",
+              status: "failed",
+            }),
+          ],
+          league,
+        }}
+      />,
+    );
+
+    const table = screen.getByRole("table", { name: "League archives" });
+    expect(within(table).getByText("2.3 MB")).toBeDefined();
+    expect(
+      within(table)
+        .getByRole("link", { name: "Download" })
+        .getAttribute("href"),
+    ).toBe(archive().downloadPath);
+    expect(within(table).getByText("statement timeout")).toBeDefined();
+    expect(
+      (
+        screen.getByRole("button", {
+          name: /export league/i,
+        }) as HTMLButtonElement
+      ).disabled,
+    ).toBe(false);
+  });
+
+  it("queues an export and offers a progress check while it builds", async () => {
+    mocks.postJson.mockResolvedValue({ archiveId: "a3", queued: true });
+    const { rerender } = render(
+      <LeagueArchiveView data={{ archives: [], league }} />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: /export league/i }));
+    await waitFor(() => expect(mocks.refresh).toHaveBeenCalled());
+    expect(postJson).toHaveBeenCalledWith(
+      `/api/leagues/${leagueId}/archives`,
+      {},
+    );
+
+    rerender(
+      <LeagueArchiveView
+        data={{
+          archives: [
+            archive({
+              byteSize: null,
+              completedAt: null,
+              downloadPath: null,
+              id: "a3",
+              status: "queued",
+            }),
+          ],
+          league,
+        }}
+      />,
+    );
+    expect(
+      within(screen.getByRole("table", { name: "League archives" })).getByText(
+        "Building",
+      ),
+    ).toBeDefined();
+    expect(
+      (
+        screen.getByRole("button", {
+          name: /export league/i,
+        }) as HTMLButtonElement
+      ).disabled,
+    ).toBe(true);
+    fireEvent.click(screen.getByRole("button", { name: /check progress/i }));
+    expect(mocks.refresh).toHaveBeenCalledTimes(2);
+  });
+
+  it("restores an uploaded archive and reports what came back", async () => {
+    mocks.postJson.mockResolvedValue({
+      content: 4,
+      dataEdits: 12,
+      loreClaims: 3,
+      persons: 10,
+      recordDefinitions: 2,
+      skippedDataEdits: 1,
+      teamSeasons: 5,
+    });
+    render(<LeagueArchiveView data={{ archives: [], league }} />);
+
+    const panel = screen.getByRole("region", { name: "Restore" });
+    const document = { format: "rumbledore.league-archive", version: 1 };
+    fireEvent.change(within(panel).getByLabelText("Archive file"), {
+      target: {
+        files: [uploadFile(JSON.stringify(document), "archive.json")],
+      },
+    });
+    const restore = within(panel).getByRole("button", {
+      name: /restore archive/i,
+    }) as HTMLButtonElement;
+    await waitFor(() => expect(restore.disabled).toBe(false));
+    fireEvent.click(restore);
+
+    await waitFor(() =>
+      expect(within(panel).getByText("Archive restored")).toBeDefined(),
+    );
+    expect(postJson).toHaveBeenCalledWith(
+      `/api/leagues/${leagueId}/archives/restore`,
+      { archive: document },
+    );
+    expect(within(panel).getByText(/10 people, 12 corrections/)).toBeDefined();
+    expect(within(panel).getByText(/1 corrections had nothing/)).toBeDefined();
+  });
+});
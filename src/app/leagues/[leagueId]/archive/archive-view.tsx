@@ -0,0 +1,309 @@
+"use client";
+
+import {
+  Archive,
+  ArrowLeft,
+  Download,
+  RefreshCw,
+  RotateCcw,
+} from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type ChangeEvent, type ReactNode, useState } from "react";
+import { onboardingPanelError, postJson } from "@/app/onboarding/client-http";
+import type {
+  LeagueArchivePageData,
+  LeagueArchiveRestoreSummary,
+  LeagueArchiveStatus,
+  LeagueArchiveSummary,
+} from "@/archive";
+import { Banner } from "@/components/ui/banner";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Field } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { StatusPill } from "@/components/ui/status-pill";
+import { DataTable, type DataTableColumn } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+
+const STATUS_PILLS: Record<
+  LeagueArchiveStatus,
+  { label: string; tone: "danger" | "info" | "success" }
+> = {
+  failed: { label: "Failed", tone: "danger" },
+  queued: { label: "Building", tone: "info" },
+  ready: { label: "Ready", tone: "success" },
+};
+
+function formatDateTime(value: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    month: "short",
+    year: "numeric",
+  }).format(new Date(value));
+}
+
+function formatSize(bytes: number | null): string {
+  if (bytes === null) {
+    return "–";
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function restoredLine(summary: LeagueArchiveRestoreSummary): string {
+  const parts = [
+    `${summary.persons} people`,
+    `${summary.dataEdits} corrections`,
+    `${summary.recordDefinitions} house records`,
+    `${summary.loreClaims} canon lore`,
+    `${summary.content} articles`,
+  ];
+  const skipped =
+    summary.skippedDataEdits > 0
+      ? ` ${summary.skippedDataEdits} corrections had nothing to attach to and were left out.`
+      : "";
+  return `Restored ${parts.join(", ")}.${skipped}`;
+}
+
+export function LeagueArchiveView({ data }: { data: LeagueArchivePageData }) {
+  const { archives, league } = data;
+
+  return (
+    <main className="mx-auto flex min-h-dvh w-full max-w-4xl flex-col gap-6 px-4 py-5 pb-[calc(--spacing(6)+env(safe-area-inset-bottom))] sm:px-6">
+      <header className="panel grid gap-3 p-4">
+        <Link
+          href={`/leagues/${league.id}`}
+          className={cn(
+            buttonVariants({ className: "w-fit", variant: "ghost" }),
+          )}
+        >
+          <ArrowLeft data-icon="inline-start" />
+          League home
+        </Link>
+        <p className="eyebrow text-primary">Archive</p>
+        <h1 className="heading-auspex text-xl leading-tight">
+          {league.name} archive
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          One file with the league's imported history, people, corrections,
+          house records, canon lore and published articles.
+        </p>
+      </header>
+      <ExportPanel archives={archives} leagueId={league.id} />
+      <RestorePanel leagueId={league.id} />
+    </main>
+  );
+}
+
+function ExportPanel({
+  archives,
+  leagueId,
+}: {
+  archives: readonly LeagueArchiveSummary[];
+  leagueId: string;
+}) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [requesting, setRequesting] = useState(false);
+  const building = archives.some((archive) => archive.status === "queued");
+
+  async function requestExport() {
+    setRequesting(true);
+    setError(null);
+    try {
+      await postJson(`/api/leagues/${leagueId}/archives`, {});
+      router.refresh();
+    } catch (cause) {
+      setError(onboardingPanelError(cause).message);
+    } finally {
+      setRequesting(false);
+    }
+  }
+
+  const columns: readonly DataTableColumn<LeagueArchiveSummary>[] = [
+    {
+      cell: (row) => formatDateTime(row.createdAt),
+      header: "Requested",
+      id: "requested",
+    },
+    {
+      cell: (row) => row.requestedBy ?? "Former member",
+      header: "By",
+      id: "by",
+      priority: "desktop",
+    },
+    {
+      cell: (row) => (
+        <StatusPill tone={STATUS_PILLS[row.status].tone}>
+          {STATUS_PILLS[row.status].label}
+        </StatusPill>
+      ),
+      header: "Status",
+      id: "status",
+    },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{formatSize(row.byteSize)}</span>,
+      header: "Size",
+      id: "size",
+      priority: "desktop",
+    },
+    {
+      align: "right",
+      cell: (row) =>
+        row.downloadPath ? (
+          <a
+            className={cn(buttonVariants({ size: "sm", variant: "outline" }))}
+            download
+            href={row.downloadPath}
+          >
+            <Download data-icon="inline-start" />
+            Download
+          </a>
+        ) : row.status === "failed" ? (
+          <span className="text-sm text-muted-foreground">{row.error}</span>
+        ) : null,
+      header: "File",
+      id: "file",
+    },
+  ];
+
+  return (
+    <section aria-label="Export" className="panel grid gap-4 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Archive aria-hidden="true" className="size-4 text-primary" />
+        <h2 className="heading-auspex text-lg leading-tight">Export</h2>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Exports build in the background. Download links last fifteen minutes;
+        reload the page for a fresh one.
+      </p>
+      {error ? (
+        <Banner title="Export not started" tone="danger">
+          {error}
+        </Banner>
+      ) : null}
+      <div className="flex flex-wrap gap-2">
+        <Button
+          disabled={building}
+          loading={requesting}
+          loadingLabel="Requesting export"
+          onClick={requestExport}
+          type="button"
+        >
+          <Archive data-icon="inline-start" />
+          Export league
+        </Button>
+        {building ? (
+          <Button
+            onClick={() => router.refresh()}
+            type="button"
+            variant="ghost"
+          >
+            <RefreshCw data-icon="inline-start" />
+            Check progress
+          </Button>
+        ) : null}
+      </div>
+      <DataTable
+        ariaLabel="League archives"
+        columns={columns}
+        empty="No archives yet."
+        getRowId={(row) => row.id}
+        getRowName={(row) => `Archive from ${formatDateTime(row.createdAt)}`}
+        rows={archives}
+      />
+    </section>
+  );
+}
+
+function RestorePanel({ leagueId }: { leagueId: string }) {
+  const router = useRouter();
+  const [archive, setArchive] = useState<unknown>(null);
+  const [error, setError] = useState<ReactNode>(null);
+  const [restored, setRestored] = useState<LeagueArchiveRestoreSummary | null>(
+    null,
+  );
+  const [restoring, setRestoring] = useState(false);
+
+  async function chooseFile(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    setError(null);
+    setRestored(null);
+    setArchive(null);
+    if (!file) {
+      return;
+    }
+    try {
+      setArchive(JSON.parse(await file.text()));
+    } catch {
+      setError("That file is not JSON. Choose the file an export downloaded.");
+    }
+  }
+
+  async function restore() {
+    setRestoring(true);
+    setError(null);
+    try {
+      setRestored(
+        await postJson<LeagueArchiveRestoreSummary>(
+          `/api/leagues/${leagueId}/archives/restore`,
+          { archive },
+        ),
+      );
+      router.refresh();
+    } catch (cause) {
+      setError(onboardingPanelError(cause).message);
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  return (
+    <section aria-label="Restore" className="panel grid gap-4 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <RotateCcw aria-hidden="true" className="size-4 text-primary" />
+        <h2 className="heading-auspex text-lg leading-tight">Restore</h2>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        To rebuild a league, upload its archive through the file import first.
+        Once the import finishes, restore the same file here to bring back its
+        people, corrections, house records, canon lore and articles. Only a
+        league without its own curation yet can be restored.
+      </p>
+      {error ? (
+        <Banner title="Archive not restored" tone="danger">
+          {error}
+        </Banner>
+      ) : null}
+      {restored ? (
+        <Banner title="Archive restored" tone="success">
+          {restoredLine(restored)}
+        </Banner>
+      ) : null}
+      <Field label="Archive file">
+        <Input
+          accept=".json,application/json"
+          onChange={(event) => void chooseFile(event)}
+          type="file"
+        />
+      </Field>
+      <Button
+        className="w-fit"
+        disabled={archive === null}
+        loading={restoring}
+        loadingLabel="Restoring archive"
+        onClick={restore}
+        type="button"
+        variant="outline"
+      >
+        <RotateCcw data-icon="inline-start" />
+        Restore archive
+      </Button>
+    </section>
+  );
+}
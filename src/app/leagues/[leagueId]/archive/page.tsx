@@ -0,0 +1,73 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { getLeagueArchivePageData } from "@/archive";
+import { requireLeagueRole } from "@/auth/guards";
+import { getEnv } from "@/core/env";
+import { getDb } from "@/db";
+import { markLeagueOpened } from "@/navigation/league-switcher-data";
+import {
+  type LeagueDeepLinkSearchParams,
+  redirectToLeagueDeepLinkOnboarding,
+} from "../league-deep-link-routing";
+import { LeagueSectionAccessState } from "../league-section-access-state";
+import { LeagueArchiveView } from "./archive-view";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "League Archive | Rumbledore",
+  description: "Export the league's whole history, or restore it from a file.",
+};
+
+interface LeagueArchivePageProps {
+  params: Promise<{ leagueId: string }>;
+  searchParams?: Promise<LeagueDeepLinkSearchParams>;
+}
+
+export default async function LeagueArchivePage({
+  params,
+  searchParams,
+}: LeagueArchivePageProps) {
+  const { leagueId } = await params;
+  const query = await searchParams;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: await headers(),
+    leagueId,
+    permission: "league:manage",
+  });
+
+  if (!access.ok) {
+    if (access.error.code === "INVALID_LEAGUE_ID") {
+      notFound();
+    }
+    if (access.error.status === 401) {
+      redirectToLeagueDeepLinkOnboarding({
+        leagueId,
+        searchParams: query,
+        segments: ["archive"],
+      });
+    }
+    return (
+      <LeagueSectionAccessState
+        title="No archive access"
+        body="League archives are exported and restored by the league commissioner and co-commissioners."
+      />
+    );
+  }
+
+  await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+
+  const data = await getLeagueArchivePageData(db, {
+    leagueId,
+    now: new Date(),
+    signingSecret: getEnv().auth.secret,
+  });
+  if (!data) {
+    notFound();
+  }
+
+  return <LeagueArchiveView data={data} />;
+}
@@ -0,0 +1,212 @@
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+import type { LeagueBankrollData } from "@/betting/league-bankroll";
+import type { PickemSlateOption } from "@/betting/league-pickem";
+import { LeagueBankrollPanel } from "./league-bankroll-panel";
+
+const navigation = vi.hoisted(() => ({ refresh: vi.fn() }));
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ refresh: navigation.refresh }),
+}));
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const pickWeekId = "00000000-0000-4000-8000-0000000000aa";
+
+const slate: PickemSlateOption[] = [
+  {
+    awayPrice: -110,
+    awayTeam: "New York",
+    eventId: "event-1",
+    homePrice: -110,
+    homeTeam: "Chicago",
+    line: -3.5,
+    locked: false,
+    movement: null,
+    player: null,
+    propType: null,
+    marketId: "market-1",
+    marketType: "spread",
+    oddsSnapshotId: "snapshot-1",
+    overPrice: null,
+    startTime: "2026-09-13T17:00:00.000Z",
+    underPrice: null,
+  },
+  {
+    awayPrice: null,
+    awayTeam: "New York",
+    eventId: "event-1",
+    homePrice: null,
+    homeTeam: "Chicago",
+    line: 44.5,
+    locked: false,
+    movement: null,
+    player: null,
+    propType: null,
+    marketId: "market-1-total",
+    marketType: "total",
+    oddsSnapshotId: "snapshot-1-total",
+    overPrice: -105,
+    startTime: "2026-09-13T17:00:00.000Z",
+    underPrice: -115,
+  },
+  {
+    awayPrice: -110,
+    awayTeam: "Denver",
+    eventId: "event-3",
+    homePrice: -110,
+    homeTeam: "Seattle",
+    line: 2.5,
+    locked: false,
+    movement: null,
+    player: null,
+    propType: null,
+    marketId: "market-3",
+    marketType: "spread",
+    oddsSnapshotId: "snapshot-3",
+    overPrice: null,
+    startTime: "2026-09-13T20:00:00.000Z",
+    underPrice: null,
+  },
+];
+
+const bankroll: LeagueBankrollData = {
+  ladder: [
+    {
+      accuracyBps: 7500,
+      displayName: "Sharp Sam",
+      netUnits: -40,
+      roiBps: -2000,
+      settledSlips: 4,
+      stakedUnits: 200,
+      userId: "user-a",
+      wonSlips: 1,
+    },
+  ],
+  season: 2026,
+  settings: { enabled: true, maxParlayLegs: 6, weeklyAllowance: 1000 },
+  week: { pickWeekId, remainingAllowance: 900, stakedThisWeek: 100 },
+  you: {
+    netUnits: 0,
+    roiBps: 0,
+    settledSlips: 0,
+    slips: [],
+    stakedUnits: 0,
+    wonSlips: 0,
+  },
+};
+
+function bodyOf(call: unknown[]): Record<string, unknown> {
+  const init = call[1] as RequestInit;
+  return JSON.parse(String(init.body));
+}
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", vi.fn());
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.clearAllMocks();
+});
+
+test("prices a two-leg parlay and posts it with the stake", async () => {
+  const fetchMock = vi.mocked(fetch);
+  fetchMock.mockResolvedValue(
+    new Response(JSON.stringify({ slipId: "slip-1" }), { status: 201 }),
+  );
+
+  render(
+    <LeagueBankrollPanel
+      bankroll={bankroll}
+      leagueId={leagueId}
+      slate={slate}
+    />,
+  );
+  fireEvent.click(screen.getByRole("button", { name: /Chicago -3\.5/ }));
+  fireEvent.click(screen.getByRole("button", { name: /Seattle \+2\.5/ }));
+  fireEvent.change(screen.getByLabelText("Stake"), {
+    target: { value: "50" },
+  });
+
+  expect(screen.getByText(/2-leg parlay at \+264 · returns 182/)).toBeDefined();
+  fireEvent.click(screen.getByRole("button", { name: "Place slip" }));
+
+  await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+  expect(fetchMock.mock.calls[0][0]).toBe(
+    `/api/leagues/${leagueId}/bankroll/slips`,
+  );
+  expect(bodyOf(fetchMock.mock.calls[0])).toMatchObject({
+    legs: [
+      { oddsSnapshotId: "snapshot-1", selection: "home" },
+      { oddsSnapshotId: "snapshot-3", selection: "home" },
+    ],
+    pickWeekId,
+    stake: 50,
+  });
+});
+
+test("keeps one leg per game and reuses the slip key on retry", async () => {
+  const fetchMock = vi.mocked(fetch);
+  fetchMock.mockResolvedValueOnce(
+    new Response(JSON.stringify({ error: { message: "Server exploded" } }), {
+      status: 500,
+    }),
+  );
+
+  render(
+    <LeagueBankrollPanel
+      bankroll={bankroll}
+      leagueId={leagueId}
+      slate={slate}
+    />,
+  );
+  // The total on the same game replaces the spread leg rather than joining it.
+  fireEvent.click(screen.getByRole("button", { name: /Chicago -3\.5/ }));
+  fireEvent.click(screen.getByRole("button", { name: /Over \+44\.5/ }));
+  expect(screen.getByText(/Straight bet at -105/)).toBeDefined();
+
+  fireEvent.change(screen.getByLabelText("Stake"), {
+    target: { value: "25" },
+  });
+  fireEvent.click(screen.getByRole("button", { name: "Place slip" }));
+  await screen.findByText("Server exploded");
+  const firstKey = bodyOf(fetchMock.mock.calls[0]).idempotencyKey;
+
+  fetchMock.mockResolvedValueOnce(
+    new Response(JSON.stringify({ deduplicated: true }), { status: 200 }),
+  );
+  fireEvent.click(screen.getByRole("button", { name: "Place slip" }));
+
+  await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+  expect(bodyOf(fetchMock.mock.calls[1]).idempotencyKey).toBe(firstKey);
+});
+
+test("blocks stakes above the remaining allowance and shows ROI beside accuracy", () => {
+  render(
+    <LeagueBankrollPanel
+      bankroll={bankroll}
+      leagueId={leagueId}
+      slate={slate}
+    />,
+  );
+  fireEvent.click(screen.getByRole("button", { name: /Chicago -3\.5/ }));
+  fireEvent.change(screen.getByLabelText("Stake"), {
+    target: { value: "901" },
+  });
+
+  expect(screen.getByRole("button", { name: "Place slip" })).toHaveProperty(
+    "disabled",
+    true,
+  );
+  expect(screen.getByText("Sharp Sam")).toBeDefined();
+  expect(screen.getByText("-20%")).toBeDefined();
+  expect(screen.getByText("75%")).toBeDefined();
+});
@@ -0,0 +1,462 @@
+"use client";
+
+import { CircleCheck, Layers, Wallet } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+import { parlayPrice, potentialPayout } from "@/betting/bankroll-scoring";
+import type { LeagueBankrollData } from "@/betting/league-bankroll";
+import type { PickemSlateOption } from "@/betting/league-pickem";
+import type { PickSelection } from "@/betting/pickem";
+import { Banner } from "@/components/ui/banner";
+import { Button } from "@/components/ui/button";
+import { Field } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { StatTile } from "@/components/ui/stat-tile";
+import { StatusPill } from "@/components/ui/status-pill";
+import {
+  formatAmericanOdds,
+  mintIdempotencyKey,
+  selectionsFor,
+} from "./slate-selections";
+
+/**
+ * The bankroll desk, rendered under Pick 'em when the league has bankroll
+ * mode on.
+ *
+ * It carries the same key discipline as the Pick 'em desk: the slip's
+ * idempotency key is minted when its first leg is staged and survives every
+ * retry, and is only dropped once the server has accepted the slip or the
+ * user clears it. A retried slip therefore cannot stake the allowance twice.
+ */
+
+interface StagedLeg {
+  readonly eventId: string;
+  readonly label: string;
+  readonly marketId: string;
+  readonly oddsSnapshotId: string;
+  readonly price: number;
+  readonly selection: PickSelection;
+}
+
+type SlipState =
+  | { readonly message: null; readonly status: "idle" }
+  | { readonly message: null; readonly status: "submitting" }
+  | { readonly message: string; readonly status: "error" }
+  | { readonly message: string; readonly status: "success" };
+
+function formatUnits(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatSignedUnits(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: 2,
+    signDisplay: "exceptZero",
+  }).format(value);
+}
+
+function formatRoi(roiBps: number): string {
+  return new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: 1,
+    signDisplay: "exceptZero",
+    style: "percent",
+  }).format(roiBps / 10_000);
+}
+
+function formatAccuracy(accuracyBps: number | null): string {
+  if (accuracyBps === null) return "--";
+  return new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: 1,
+    style: "percent",
+  }).format(accuracyBps / 10_000);
+}
+
+function slipTone(
+  status: string,
+): "danger" | "neutral" | "success" | "warning" {
+  switch (status) {
+    case "won":
+      return "success";
+    case "lost":
+      return "danger";
+    case "push":
+    case "void":
+      return "warning";
+    default:
+      return "neutral";
+  }
+}
+
+function slipErrorMessage(payload: unknown): string {
+  if (
+    typeof payload === "object" &&
+    payload !== null &&
+    "error" in payload &&
+    typeof payload.error === "object" &&
+    payload.error !== null &&
+    "message" in payload.error &&
+    typeof payload.error.message === "string" &&
+    payload.error.message.length > 0
+  ) {
+    return payload.error.message;
+  }
+  return "That slip could not be placed. Try again.";
+}
+
+export function LeagueBankrollPanel({
+  bankroll,
+  leagueId,
+  slate,
+}: {
+  readonly bankroll: LeagueBankrollData;
+  readonly leagueId: string;
+  readonly slate: readonly PickemSlateOption[];
+}) {
+  const router = useRouter();
+  // Keyed by event: one leg per game. Legs on the same game are correlated
+  // and the server refuses them, so the builder never offers the combination.
+  const [legs, setLegs] = useState<Record<string, StagedLeg>>({});
+  const [slipKey, setSlipKey] = useState<string | null>(null);
+  const [stakeText, setStakeText] = useState("");
+  const [slipState, setSlipState] = useState<SlipState>({
+    message: null,
+    status: "idle",
+  });
+
+  const legList = useMemo(() => Object.values(legs), [legs]);
+  const legPrices = legList.map((leg) => leg.price);
+  const price = parlayPrice(legPrices);
+  const stake = Number(stakeText);
+  const stakeValid = Number.isFinite(stake) && stake > 0;
+  const remaining = bankroll.week?.remainingAllowance ?? 0;
+  const maxLegs = bankroll.settings.maxParlayLegs;
+
+  function toggleLeg(option: PickemSlateOption, selection: PickSelection) {
+    const side = selectionsFor(option).find(
+      (row) => row.selection === selection,
+    );
+    if (!side || side.price === null) return;
+    const legPrice = side.price;
+    setLegs((current) => {
+      const next = { ...current };
+      const existing = next[option.eventId];
+      if (
+        existing &&
+        existing.marketId === option.marketId &&
+        existing.selection === selection
+      ) {
+        delete next[option.eventId];
+        return next;
+      }
+      if (!existing && Object.keys(next).length >= maxLegs) {
+        return current;
+      }
+      next[option.eventId] = {
+        eventId: option.eventId,
+        label: `${side.label} ${formatAmericanOdds(legPrice)}`,
+        marketId: option.marketId,
+        oddsSnapshotId: option.oddsSnapshotId,
+        price: legPrice,
+        selection,
+      };
+      return next;
+    });
+    setSlipKey((current) => current ?? mintIdempotencyKey());
+  }
+
+  function clearSlip() {
+    setLegs({});
+    setSlipKey(null);
+    setStakeText("");
+  }
+
+  async function placeSlip() {
+    const week = bankroll.week;
+    if (!week || legList.length === 0 || !stakeValid || slipKey === null) {
+      return;
+    }
+    setSlipState({ message: null, status: "submitting" });
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 15_000);
+    let response: Response;
+    try {
+      response = await fetch(`/api/leagues/${leagueId}/bankroll/slips`, {
+        body: JSON.stringify({
+          idempotencyKey: slipKey,
+          legs: legList.map((leg) => ({
+            oddsSnapshotId: leg.oddsSnapshotId,
+            selection: leg.selection,
+          })),
+          pickWeekId: week.pickWeekId,
+          stake,
+        }),
+        headers: { "Content-Type": "application/json" },
+        method: "POST",
+        signal: controller.signal,
+      });
+    } catch (error) {
+      setSlipState({
+        message:
+          error instanceof DOMException && error.name === "AbortError"
+            ? "That slip timed out. Try again — it will not be staked twice."
+            : "The slip could not be sent. Check your connection.",
+        status: "error",
+      });
+      return;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+      setSlipState({
+        message: slipErrorMessage(await response.json().catch(() => ({}))),
+        status: "error",
+      });
+      return;
+    }
+
+    clearSlip();
+    setSlipState({
+      message:
+        legList.length === 1
+          ? "Straight bet placed."
+          : `${legList.length}-leg parlay placed.`,
+      status: "success",
+    });
+    router.refresh();
+  }
+
+  const openSlate = slate.filter((option) => !option.locked);
+
+  return (
+    <section className="grid gap-4" aria-labelledby="bankroll-heading">
+      <div className="flex flex-wrap items-center gap-2 text-primary">
+        <Wallet className="size-5" aria-hidden="true" />
+        <h2 id="bankroll-heading" className="eyebrow">
+          Bankroll
+        </h2>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Paper money only. {formatUnits(bankroll.settings.weeklyAllowance)} units
+        a week to stake on the same slate, paid at the price you lock. It runs
+        beside Pick &rsquo;em and never changes your accuracy.
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <StatTile
+          label="Allowance left"
+          value={formatUnits(remaining)}
+          caption={`of ${formatUnits(bankroll.settings.weeklyAllowance)} this week`}
+        />
+        <StatTile
+          label="Season net"
+          tone={bankroll.you.netUnits >= 0 ? "lilac" : "default"}
+          value={formatSignedUnits(bankroll.you.netUnits)}
+          caption={`${formatUnits(bankroll.you.stakedUnits)} staked and settled`}
+        />
+        <StatTile
+          label="ROI"
+          tone="amber"
+          value={formatRoi(bankroll.you.roiBps)}
+          caption="Net over settled stakes"
+        />
+        <StatTile
+          label="Slips won"
+          value={`${bankroll.you.wonSlips} / ${bankroll.you.settledSlips}`}
+          caption="Settled slips only"
+        />
+      </div>
+
+      {slipState.status === "error" ? (
+        <Banner tone="danger" title="The slip did not land">
+          {slipState.message}
+        </Banner>
+      ) : null}
+      {slipState.status === "success" ? (
+        <Banner tone="ok" title="Slip placed">
+          {slipState.message}
+        </Banner>
+      ) : null}
+
+      {bankroll.week === null ? null : (
+        <div className="panel grid gap-3 p-4">
+          <h3 className="flex items-center gap-2 text-sm font-semibold">
+            <Layers className="size-4" aria-hidden="true" />
+            Build a slip
+          </h3>
+          {openSlate.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Every game on the board has started.
+            </p>
+          ) : (
+            <ul className="grid gap-2">
+              {openSlate.map((option) => {
+                const staged = legs[option.eventId];
+                return (
+                  <li
+                    key={option.marketId}
+                    className="grid gap-2 sm:grid-cols-[1fr_auto_auto] sm:items-center"
+                  >
+                    <span className="text-sm">
+                      {option.awayTeam} at {option.homeTeam}
+                    </span>
+                    {selectionsFor(option).map((row) => {
+                      const isStaged =
+                        staged?.marketId === option.marketId &&
+                        staged.selection === row.selection;
+                      return (
+                        <Button
+                          key={row.selection}
+                          type="button"
+                          size="sm"
+                          variant={isStaged ? "default" : "outline"}
+                          disabled={row.price === null}
+                          aria-pressed={isStaged}
+                          onClick={() => toggleLeg(option, row.selection)}
+                        >
+                          {isStaged ? (
+                            <CircleCheck data-icon="inline-start" />
+                          ) : null}
+                          {row.label} {formatAmericanOdds(row.price)}
+                        </Button>
+                      );
+                    })}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {legList.length > 0 ? (
+            <div className="grid gap-3 border-t border-border pt-3">
+              <ul className="grid gap-1 text-sm">
+                {legList.map((leg) => (
+                  <li key={leg.eventId}>{leg.label}</li>
+                ))}
+              </ul>
+              <Field controlId="bankroll-stake" label="Stake">
+                {({ controlProps }) => (
+                  <Input
+                    {...controlProps}
+                    inputMode="decimal"
+                    onChange={(event) =>
+                      setStakeText(event.currentTarget.value)
+                    }
+                    placeholder="50"
+                    tone="money"
+                    value={stakeText}
+                  />
+                )}
+              </Field>
+              <p className="text-sm text-muted-foreground">
+                {legList.length === 1
+                  ? "Straight bet"
+                  : `${legList.length}-leg parlay`}{" "}
+                at {formatAmericanOdds(price)}
+                {price !== null && stakeValid
+                  ? ` · returns ${formatUnits(potentialPayout(stake, legPrices))}`
+                  : ""}
+                {legList.length >= maxLegs ? ` · ${maxLegs}-leg limit` : ""}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  type="button"
+                  onClick={placeSlip}
+                  disabled={
+                    slipState.status === "submitting" ||
+                    !stakeValid ||
+                    stake > remaining ||
+                    price === null
+                  }
+                >
+                  {slipState.status === "submitting"
+                    ? "Placing..."
+                    : "Place slip"}
+                </Button>
+                <Button type="button" variant="ghost" onClick={clearSlip}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+          ) : null}
+        </div>
+      )}
+
+      {bankroll.you.slips.length > 0 ? (
+        <div className="panel grid gap-3 p-4">
+          <h3 className="text-sm font-semibold">Your slips</h3>
+          <ul className="grid gap-3">
+            {bankroll.you.slips.map((slip) => (
+              <li key={slip.slipId} className="grid gap-1 text-sm">
+                <div className="flex items-center justify-between gap-3">
+                  <span>
+                    {formatUnits(slip.stake)} at{" "}
+                    {formatAmericanOdds(slip.lockedPrice)}
+                    <span className="text-muted-foreground">
+                      {" "}
+                      &middot;{" "}
+                      {slip.payout === null
+                        ? `to return ${formatUnits(slip.potentialPayout)}`
+                        : `returned ${formatUnits(slip.payout)}`}
+                    </span>
+                  </span>
+                  <StatusPill tone={slipTone(slip.status)}>
+                    {slip.status}
+                  </StatusPill>
+                </div>
+                <ul className="grid gap-0.5 text-xs text-muted-foreground">
+                  {slip.legs.map((leg) => (
+                    <li key={`${slip.slipId}-${leg.awayTeam}-${leg.homeTeam}`}>
+                      {leg.awayTeam} at {leg.homeTeam} &middot; {leg.selection}{" "}
+                      {formatAmericanOdds(leg.lockedPrice)} &middot;{" "}
+                      {leg.status}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      <div className="panel grid gap-3 p-4">
+        <h3 className="text-sm font-semibold">League ladder</h3>
+        {bankroll.ladder.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No slips have settled this season yet.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-muted-foreground">
+              <tr>
+                <th className="py-1 font-medium">Player</th>
+                <th className="py-1 text-right font-medium">ROI</th>
+                <th className="py-1 text-right font-medium">Net</th>
+                <th className="py-1 text-right font-medium">Accuracy</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bankroll.ladder.map((row) => (
+                <tr key={row.userId} className="border-t border-border">
+                  <td className="py-1.5">{row.displayName}</td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {formatRoi(row.roiBps)}
+                  </td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {formatSignedUnits(row.netUnits)}
+                  </td>
+                  <td className="py-1.5 text-right tabular-nums">
+                    {formatAccuracy(row.accuracyBps)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -7,6 +7,7 @@ import {
 } from "@testing-library/react";
 import { afterEach, beforeEach, expect, test, vi } from "vitest";
 import type { LeaguePickemData } from "@/betting/league-pickem";
+import { OFFLINE_QUEUE_HEADER } from "@/components/pwa/offline-queue";
 import { LeaguePickemView } from "./league-pickem-view";
 
 const navigation = vi.hoisted(() => ({ refresh: vi.fn() }));
@@ -25,6 +26,7 @@ const data: LeaguePickemData = {
     participationRate: 0.95,
     scorablePicks: 40,
   },
+  props: [],
   slate: [
     {
       awayPrice: -110,
@@ -34,6 +36,9 @@ const data: LeaguePickemData = {
       homeTeam: "Chicago",
       line: -3.5,
       locked: false,
+      movement: null,
+      player: null,
+      propType: null,
       marketId: "market-1",
       marketType: "spread",
       oddsSnapshotId: "snapshot-1",
@@ -49,6 +54,9 @@ const data: LeaguePickemData = {
       homeTeam: "Green Bay",
       line: null,
       locked: true,
+      movement: null,
+      player: null,
+      propType: null,
       marketId: "market-2",
       marketType: "moneyline",
       oddsSnapshotId: "snapshot-2",
@@ -173,6 +181,28 @@ test("keeps one key per market when the user switches sides before submitting",
   expect(bodyOf(fetchMock.mock.calls[0])).toMatchObject({ selection: "away" });
 });
 
+test("treats a pick the service worker queued offline as saved, not failed", async () => {
+  const fetchMock = vi.mocked(fetch);
+  fetchMock.mockResolvedValue(
+    new Response(JSON.stringify({ offlineQueued: true, queueId: "q1" }), {
+      status: 202,
+    }),
+  );
+
+  render(<LeaguePickemView data={data} leagueId={leagueId} />);
+  fireEvent.click(screen.getByRole("button", { name: /Chicago -3\.5/ }));
+  fireEvent.click(screen.getByRole("button", { name: /Submit 1 pick/ }));
+
+  await screen.findByText("1 pick saved offline. Sends when you reconnect.");
+  const init = fetchMock.mock.calls[0]?.[1] as RequestInit;
+  expect(
+    decodeURIComponent(
+      (init.headers as Record<string, string>)[OFFLINE_QUEUE_HEADER] ?? "",
+    ),
+  ).toMatch(/^Pick: /);
+  expect(screen.queryByText(/Staged picks/)).toBeNull();
+});
+
 test("refuses to stage a market whose game has already started", () => {
   // The server rejects these too; blocking the button keeps the client from
   // teaching the user that a doomed pick was accepted.
@@ -218,3 +248,89 @@ test("shows an empty state instead of a slate when no week is open", () => {
   expect(screen.getByText("No pick week is open")).toBeDefined();
   expect(screen.queryByRole("button", { name: /Chicago/ })).toBeNull();
 });
+
+test("charts a market's line movement on its card", () => {
+  const [first, second] = data.slate;
+  if (!first || !second) {
+    throw new Error("slate fixture is missing");
+  }
+  const open = { at: "2026-09-08T14:00:00.000Z", line: -2.5, price: -110 };
+  const close = { at: "2026-09-10T18:00:00.000Z", line: -3.5, price: -110 };
+
+  render(
+    <LeaguePickemView
+      data={{
+        ...data,
+        slate: [
+          {
+            ...first,
+            movement: {
+              close,
+              highLine: -2.5,
+              lowLine: -3.5,
+              marketId: first.marketId,
+              open,
+              points: [open, close],
+              snapshotCount: 14,
+            },
+          },
+          second,
+        ],
+      }}
+      leagueId={leagueId}
+    />,
+  );
+
+  expect(screen.getAllByText("Line movement").length).toBeGreaterThan(0);
+  expect(screen.getByText("Opened -2.5 · now -3.5")).toBeDefined();
+});
+
+test("offers props on rostered players in their own section", async () => {
+  const fetchMock = vi.mocked(fetch);
+  fetchMock.mockResolvedValue(
+    new Response(JSON.stringify({ pickId: "p1" }), { status: 201 }),
+  );
+
+  render(
+    <LeaguePickemView
+      data={{
+        ...data,
+        props: [
+          {
+            awayPrice: null,
+            awayTeam: "New York",
+            eventId: "event-1",
+            homePrice: null,
+            homeTeam: "Chicago",
+            line: 0.5,
+            locked: false,
+            marketId: "market-prop",
+            marketType: "player_prop",
+            movement: null,
+            oddsSnapshotId: "snapshot-prop",
+            overPrice: 145,
+            player: { name: "Cole Kmet", rosteredBy: "Tight End U" },
+            propType: "anytime_td",
+            startTime: "2026-09-13T17:00:00.000Z",
+            underPrice: -180,
+          },
+        ],
+      }}
+      leagueId={leagueId}
+    />,
+  );
+
+  expect(screen.getByText("Player props")).toBeDefined();
+  expect(screen.getByText("Cole Kmet · Anytime TD")).toBeDefined();
+  expect(screen.getByText(/Tight End U/)).toBeDefined();
+
+  fireEvent.click(screen.getByRole("button", { name: /Yes/ }));
+  expect(screen.getByText(/Cole Kmet Yes/)).toBeDefined();
+  fireEvent.click(screen.getByRole("button", { name: /Submit 1 pick/ }));
+
+  await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+  expect(bodyOf(fetchMock.mock.calls[0])).toMatchObject({
+    oddsSnapshotId: "snapshot-prop",
+    selection: "over",
+  });
+});
@@ -4,18 +4,31 @@ import { ArrowLeft, CircleCheck, Target, Trophy } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useMemo, useState } from "react";
+import type { LeagueBankrollData } from "@/betting/league-bankroll";
 import type {
   LeaguePickemData,
   PickemSlateOption,
 } from "@/betting/league-pickem";
 import type { PickSelection } from "@/betting/pickem";
+import { isPlayerPropType, PLAYER_PROPS } from "@/betting/player-props";
+import {
+  isOfflineQueued,
+  offlineQueueHeaders,
+} from "@/components/pwa/offline-queue";
 import { Banner } from "@/components/ui/banner";
 import { Button, buttonVariants } from "@/components/ui/button";
+import { Chart, type OddsMovementChartSpec } from "@/components/ui/chart";
 import { EmptyState } from "@/components/ui/empty-state";
 import { Progress } from "@/components/ui/progress";
 import { StatTile } from "@/components/ui/stat-tile";
 import { StatusPill } from "@/components/ui/status-pill";
 import { cn } from "@/lib/utils";
+import { LeagueBankrollPanel } from "./league-bankroll-panel";
+import {
+  formatAmericanOdds,
+  mintIdempotencyKey,
+  selectionsFor,
+} from "./slate-selections";
 
 /**
  * The league Pick 'em desk.
@@ -51,26 +64,6 @@ type SubmitState =
   | { readonly message: string; readonly status: "error" }
   | { readonly message: string; readonly status: "success" };
 
-let fallbackKeyCounter = 0;
-
-function mintIdempotencyKey(): string {
-  if (typeof globalThis.crypto?.randomUUID === "function") {
-    return globalThis.crypto.randomUUID();
-  }
-  fallbackKeyCounter += 1;
-  return `pick-${fallbackKeyCounter}-${String(performance.now()).replace(".", "")}`;
-}
-
-function formatAmericanOdds(price: number | null): string {
-  if (price === null) return "--";
-  return price > 0 ? `+${price}` : String(price);
-}
-
-function formatLine(line: number | null): string {
-  if (line === null) return "";
-  return line > 0 ? `+${line}` : String(line);
-}
-
 function formatPercent(ratio: number): string {
   return `${new Intl.NumberFormat("en-US", {
     maximumFractionDigits: 1,
@@ -88,6 +81,47 @@ function formatKickoff(value: string): string {
   }).format(new Date(value));
 }
 
+function formatMovementTime(value: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    day: "numeric",
+    hour: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  }).format(new Date(value));
+}
+
+/**
+ * The market card's movement chart. Line markets chart the number; moneylines
+ * chart the tracked price. A single candle is not movement, so it draws
+ * nothing.
+ */
+function movementChartSpec(
+  option: PickemSlateOption,
+): OddsMovementChartSpec | null {
+  const movement = option.movement;
+  if (!movement) return null;
+  const tracksLine = movement.points.some((point) => point.line !== null);
+  const data = movement.points.flatMap((point) => {
+    const value = tracksLine ? point.line : point.price;
+    return value === null
+      ? []
+      : [{ label: formatMovementTime(point.at), value }];
+  });
+  if (data.length < 2) return null;
+  const format = (point: typeof movement.open) =>
+    tracksLine ? String(point.line ?? "--") : formatAmericanOdds(point.price);
+  return {
+    caption: `Opened ${format(movement.open)} · now ${format(movement.close)}`,
+    kind: "odds-movement",
+    series: {
+      data,
+      id: movement.marketId,
+      label: tracksLine ? "Line" : "Price",
+    },
+    title: "Line movement",
+  };
+}
+
 function marketTypeLabel(type: string): string {
   switch (type) {
     case "moneyline":
@@ -103,44 +137,10 @@ function marketTypeLabel(type: string): string {
   }
 }
 
-/**
- * Which sides a market offers. Totals are over/under; everything else is
- * home/away. Offering the wrong pair would let a user submit a selection the
- * grader cannot score.
- */
-function selectionsFor(option: PickemSlateOption): readonly {
-  label: string;
-  selection: PickSelection;
-  price: number | null;
-}[] {
-  if (option.marketType === "total") {
-    return [
-      {
-        label: `Over ${formatLine(option.line)}`.trim(),
-        price: option.overPrice,
-        selection: "over",
-      },
-      {
-        label: `Under ${formatLine(option.line)}`.trim(),
-        price: option.underPrice,
-        selection: "under",
-      },
-    ];
-  }
-  const spread = option.marketType === "spread" ? formatLine(option.line) : "";
-  return [
-    {
-      label:
-        `${option.awayTeam} ${spread ? formatLine(-(option.line ?? 0)) : ""}`.trim(),
-      price: option.awayPrice,
-      selection: "away",
-    },
-    {
-      label: `${option.homeTeam} ${spread}`.trim(),
-      price: option.homePrice,
-      selection: "home",
-    },
-  ];
+function propTypeLabel(propType: string | null): string {
+  return isPlayerPropType(propType)
+    ? PLAYER_PROPS[propType].label
+    : (propType ?? "Player prop");
 }
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -157,10 +157,22 @@ function submitErrorMessage(payload: unknown): string {
   return "That pick could not be submitted. Try again.";
 }
 
+function submittedMessage(accepted: number, queued: number): string {
+  const picks = (count: number) => `${count} ${count === 1 ? "pick" : "picks"}`;
+  if (queued === 0) {
+    return `${picks(accepted)} locked in.`;
+  }
+  const saved = `${picks(queued)} saved offline. Sends when you reconnect.`;
+  return accepted === 0 ? saved : `${picks(accepted)} locked in. ${saved}`;
+}
+
 export function LeaguePickemView({
+  bankroll = null,
   data,
   leagueId,
 }: {
+  /** Present only when the league has bankroll mode on. */
+  readonly bankroll?: LeagueBankrollData | null;
   readonly data: LeaguePickemData;
   readonly leagueId: string;
 }) {
@@ -213,9 +225,13 @@ export function LeaguePickemView({
         marketId: option.marketId,
         oddsSnapshotId: option.oddsSnapshotId,
         selection,
-        selectionLabel:
+        selectionLabel: [
+          option.player?.name,
           selectionsFor(option).find((row) => row.selection === selection)
             ?.label ?? selection,
+        ]
+          .filter(Boolean)
+          .join(" "),
       };
       return next;
     });
@@ -227,6 +243,7 @@ export function LeaguePickemView({
 
     const failed: Record<string, StagedPick> = {};
     let accepted = 0;
+    let queued = 0;
     let lastError: string | null = null;
 
     for (const pick of stagedList) {
@@ -246,7 +263,10 @@ export function LeaguePickemView({
             pickWeekId: week.pickWeekId,
             selection: pick.selection,
           }),
-          headers: { "Content-Type": "application/json" },
+          headers: {
+            "Content-Type": "application/json",
+            ...offlineQueueHeaders(`Pick: ${pick.selectionLabel}`),
+          },
           method: "POST",
           signal: controller.signal,
         });
@@ -268,6 +288,20 @@ export function LeaguePickemView({
         lastError = submitErrorMessage(await response.json().catch(() => ({})));
         continue;
       }
+      // Offline, the service worker keeps the pick (key and all) and sends it
+      // when the connection returns; the server's lock still has the last word.
+      if (
+        response.status === 202 &&
+        isOfflineQueued(
+          await response
+            .clone()
+            .json()
+            .catch(() => null),
+        )
+      ) {
+        queued += 1;
+        continue;
+      }
       accepted += 1;
     }
 
@@ -276,13 +310,68 @@ export function LeaguePickemView({
       setSubmitState({ message: lastError, status: "error" });
     } else {
       setSubmitState({
-        message: `${accepted} ${accepted === 1 ? "pick" : "picks"} locked in.`,
+        message: submittedMessage(accepted, queued),
         status: "success",
       });
     }
     router.refresh();
   }
 
+  function renderOption(option: PickemSlateOption) {
+    const stagedHere = staged[option.marketId];
+    const movementSpec = movementChartSpec(option);
+    return (
+      <li key={option.marketId} className="panel grid gap-2 p-4">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <p className="font-semibold">
+            {option.player
+              ? `${option.player.name} · ${propTypeLabel(option.propType)}`
+              : `${option.awayTeam} at ${option.homeTeam}`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {option.player
+              ? `${option.awayTeam} at ${option.homeTeam}`
+              : marketTypeLabel(option.marketType)}{" "}
+            &middot; {formatKickoff(option.startTime)}
+          </p>
+        </div>
+        {option.player ? (
+          <p className="text-xs text-muted-foreground">
+            On {option.player.rosteredBy}&rsquo;s roster
+          </p>
+        ) : null}
+        <div className="grid gap-2 sm:grid-cols-2">
+          {selectionsFor(option).map((row) => {
+            const isStaged = stagedHere?.selection === row.selection;
+            // A market the user has no allowance left for stays
+            // visible but unpickable: hiding it would make the board
+            // look like it shrank.
+            const blocked = option.locked || (allowanceExhausted && !isStaged);
+            return (
+              <Button
+                key={row.selection}
+                type="button"
+                variant={isStaged ? "default" : "outline"}
+                disabled={blocked}
+                aria-pressed={isStaged}
+                onClick={() => toggle(option, row.selection)}
+              >
+                {isStaged ? <CircleCheck data-icon="inline-start" /> : null}
+                {row.label} {formatAmericanOdds(row.price)}
+              </Button>
+            );
+          })}
+        </div>
+        {movementSpec ? <Chart spec={movementSpec} /> : null}
+        {option.locked ? (
+          <p className="text-xs text-muted-foreground">
+            Locked &mdash; this game has started.
+          </p>
+        ) : null}
+      </li>
+    );
+  }
+
   return (
     <main className="mx-auto grid min-h-dvh w-full max-w-5xl gap-6 px-4 py-5 sm:px-6">
       <header className="panel grid gap-4 p-4 sm:p-5">
@@ -400,57 +489,21 @@ export function LeaguePickemView({
             next slate is priced.
           </EmptyState>
         ) : (
-          <ul className="grid gap-3">
-            {data.slate.map((option) => {
-              const stagedHere = staged[option.marketId];
-              return (
-                <li key={option.marketId} className="panel grid gap-2 p-4">
-                  <div className="flex flex-wrap items-baseline justify-between gap-2">
-                    <p className="font-semibold">
-                      {option.awayTeam} at {option.homeTeam}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      {marketTypeLabel(option.marketType)} &middot;{" "}
-                      {formatKickoff(option.startTime)}
-                    </p>
-                  </div>
-                  <div className="grid gap-2 sm:grid-cols-2">
-                    {selectionsFor(option).map((row) => {
-                      const isStaged = stagedHere?.selection === row.selection;
-                      // A market the user has no allowance left for stays
-                      // visible but unpickable: hiding it would make the board
-                      // look like it shrank.
-                      const blocked =
-                        option.locked || (allowanceExhausted && !isStaged);
-                      return (
-                        <Button
-                          key={row.selection}
-                          type="button"
-                          variant={isStaged ? "default" : "outline"}
-                          disabled={blocked}
-                          aria-pressed={isStaged}
-                          onClick={() => toggle(option, row.selection)}
-                        >
-                          {isStaged ? (
-                            <CircleCheck data-icon="inline-start" />
-                          ) : null}
-                          {row.label} {formatAmericanOdds(row.price)}
-                        </Button>
-                      );
-                    })}
-                  </div>
-                  {option.locked ? (
-                    <p className="text-xs text-muted-foreground">
-                      Locked &mdash; this game has started.
-                    </p>
-                  ) : null}
-                </li>
-              );
-            })}
-          </ul>
+          <ul className="grid gap-3">{data.slate.map(renderOption)} </ul>
         )}
       </section>
 
+      {data.props.length > 0 ? (
+        <section className="grid gap-3">
+          <h2 className="text-sm font-semibold">Player props</h2>
+          <p className="text-sm text-muted-foreground">
+            Props on players rostered in this league. They count against the
+            same weekly allowance as game picks.
+          </p>
+          <ul className="grid gap-3">{data.props.map(renderOption)}</ul>
+        </section>
+      ) : null}
+
       {data.you.picks.length > 0 ? (
         <section className="panel grid gap-3 p-4">
           <h2 className="flex items-center gap-2 text-sm font-semibold">
@@ -486,6 +539,14 @@ export function LeaguePickemView({
           </ul>
         </section>
       ) : null}
+
+      {bankroll?.settings.enabled ? (
+        <LeagueBankrollPanel
+          bankroll={bankroll}
+          leagueId={leagueId}
+          slate={data.slate}
+        />
+      ) : null}
     </main>
   );
 }
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { headers } from "next/headers";
 import { notFound } from "next/navigation";
 import { requireLeagueRole } from "@/auth/guards";
+import { getLeagueBankrollData } from "@/betting/league-bankroll";
 import { getLeaguePickemData } from "@/betting/league-pickem";
 import { getDb } from "@/db";
 import { markLeagueOpened } from "@/navigation/league-switcher-data";
@@ -16,7 +17,8 @@ export const dynamic = "force-dynamic";
 
 export const metadata: Metadata = {
   title: "Pick 'em | Rumbledore",
-  description: "League-scoped weekly picks, accuracy, and the slate.",
+  description:
+    "League-scoped weekly picks, accuracy, the slate, and the optional bankroll desk.",
 };
 
 interface LeagueBetPageProps {
@@ -35,7 +37,7 @@ export default async function LeagueBetPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
@@ -59,10 +61,12 @@ export default async function LeagueBetPage({
 
   await markLeagueOpened(db, { leagueId, userId: access.value.userId });
 
-  const data = await getLeaguePickemData(db, {
-    leagueId,
-    userId: access.value.userId,
-  });
+  const [data, bankroll] = await Promise.all([
+    getLeaguePickemData(db, { leagueId, userId: access.value.userId }),
+    getLeagueBankrollData(db, { leagueId, userId: access.value.userId }),
+  ]);
 
-  return <LeaguePickemView data={data} leagueId={leagueId} />;
+  return (
+    <LeaguePickemView bankroll={bankroll} data={data} leagueId={leagueId} />
+  );
 }
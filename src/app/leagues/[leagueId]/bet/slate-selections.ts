@@ -0,0 +1,88 @@
+import type { PickemSlateOption } from "@/betting/league-pickem";
+import type { PickSelection } from "@/betting/pickem";
+import { isPlayerPropType, PLAYER_PROPS } from "@/betting/player-props";
+
+/**
+ * Slate helpers shared by the Pick 'em desk and the bankroll panel. Both
+ * stake the same markets, so both must offer the same sides with the same
+ * labels — a bankroll leg labelled differently from the pick on the same line
+ * would read as a different bet.
+ */
+
+let fallbackKeyCounter = 0;
+
+export function mintIdempotencyKey(): string {
+  if (typeof globalThis.crypto?.randomUUID === "function") {
+    return globalThis.crypto.randomUUID();
+  }
+  fallbackKeyCounter += 1;
+  return `pick-${fallbackKeyCounter}-${String(performance.now()).replace(".", "")}`;
+}
+
+export function formatAmericanOdds(price: number | null): string {
+  if (price === null) return "--";
+  return price > 0 ? `+${price}` : String(price);
+}
+
+function formatLine(line: number | null): string {
+  if (line === null) return "";
+  return line > 0 ? `+${line}` : String(line);
+}
+
+/**
+ * Which sides a market offers. Totals and player props are over/under;
+ * everything else is home/away. Offering the wrong pair would let a user
+ * submit a selection the grader cannot score.
+ */
+export function selectionsFor(option: PickemSlateOption): readonly {
+  label: string;
+  selection: PickSelection;
+  price: number | null;
+}[] {
+  if (option.marketType === "player_prop") {
+    // Yes/no props are stored as an over/under on half a unit, so "yes" is
+    // the over; the line itself would only read as noise.
+    const yesNo =
+      isPlayerPropType(option.propType) && PLAYER_PROPS[option.propType].yesNo;
+    return [
+      {
+        label: yesNo ? "Yes" : `Over ${option.line ?? ""}`.trim(),
+        price: option.overPrice,
+        selection: "over",
+      },
+      {
+        label: yesNo ? "No" : `Under ${option.line ?? ""}`.trim(),
+        price: option.underPrice,
+        selection: "under",
+      },
+    ];
+  }
+  if (option.marketType === "total") {
+    return [
+      {
+        label: `Over ${formatLine(option.line)}`.trim(),
+        price: option.overPrice,
+        selection: "over",
+      },
+      {
+        label: `Under ${formatLine(option.line)}`.trim(),
+        price: option.underPrice,
+        selection: "under",
+      },
+    ];
+  }
+  const spread = option.marketType === "spread" ? formatLine(option.line) : "";
+  return [
+    {
+      label:
+        `${option.awayTeam} ${spread ? formatLine(-(option.line ?? 0)) : ""}`.trim(),
+      price: option.awayPrice,
+      selection: "away",
+    },
+    {
+      label: `${option.homeTeam} ${spread}`.trim(),
+      price: option.homePrice,
+      selection: "home",
+    },
+  ];
+}
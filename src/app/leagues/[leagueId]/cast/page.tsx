@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { headers } from "next/headers";
 import { notFound } from "next/navigation";
 import { isPlatformAdminUser, requireLeagueRole } from "@/auth/guards";
+import { hasLeaguePermission } from "@/auth/permissions";
 import { getLeagueCastPresenceData } from "@/cast/league-cast";
 import { getDb } from "@/db";
 import { markLeagueOpened } from "@/navigation/league-switcher-data";
@@ -35,7 +36,7 @@ export default async function LeagueCastPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
@@ -69,7 +70,10 @@ export default async function LeagueCastPage({
     case "ready":
       return (
         <LeagueCastView
-          canEditTone={await isPlatformAdminUser(db, access.value.userId)}
+          canEditTone={
+            hasLeaguePermission(access.value.role, "cast:edit") ||
+            (await isPlatformAdminUser(db, access.value.userId))
+          }
           data={result.data}
         />
       );
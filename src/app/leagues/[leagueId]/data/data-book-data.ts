@@ -31,9 +31,11 @@ import type {
   ProviderProbeVerdict,
 } from "@/providers/model";
 import {
+  buildSeasonScheduleLuck,
   listLeagueSeasonGroupings,
   type PersistedSeasonGrouping,
   proposeLeagueSeasonGroupings,
+  type SeasonScheduleLuck,
 } from "@/stats";
 
 type LeagueRow = Pick<
@@ -136,7 +138,7 @@ type LeagueDataEditMarkerRow = Pick<
   "afterValue" | "createdAt" | "field" | "id" | "targetId" | "targetKind"
 >;
 
-export type DataBookGrain = "people" | "settings" | "weeks";
+export type DataBookGrain = "luck" | "people" | "settings" | "weeks";
 
 export interface DataBookLeagueSummary {
   id: string;
@@ -225,6 +227,8 @@ export interface DataBookSeasonSummary {
 
 export interface DataBookSeason {
   people: DataBookPersonRow[];
+  /** All-play, median, and schedule-swap standings from the imported weeks. */
+  scheduleLuck: SeasonScheduleLuck | null;
   season: number;
   settings: DataBookSettingRow[];
   summary: DataBookSeasonSummary;
@@ -413,9 +417,12 @@ function isCheckpointMarker(row: LeagueDataEditMarkerRow): boolean {
 }
 
 function isDraftMutationMarker(row: LeagueDataEditMarkerRow): boolean {
+  // Record definitions are league configuration, not curated data, so saving
+  // one never leaves a curation draft behind.
   return (
     row.targetKind !== "curation_checkpoint" &&
-    row.targetKind !== "curation_push"
+    row.targetKind !== "curation_push" &&
+    row.targetKind !== "record_definition"
   );
 }
 
@@ -1025,6 +1032,7 @@ function buildSeasonData(input: {
 
   return {
     people: buildPeopleRows(input),
+    scheduleLuck: buildSeasonScheduleLuck(input.weeklyRows, input.season),
     season: input.season,
     settings: buildSettingRows({
       matchupRows: input.matchupRows,
@@ -0,0 +1,117 @@
+import type { TableExportSchema } from "@/lib/table-export";
+import type { ScheduleLuckStanding } from "@/stats";
+import type {
+  DataBookPersonRow,
+  DataBookSeason,
+  DataBookSettingRow,
+  DataBookWeekRow,
+} from "./data-book-data";
+
+/**
+ * Download schemas for the data book's grains, one season at a time. As on
+ * the record book, headers are a contract: columns are appended, never
+ * renamed or reordered, and values stay raw (points as numbers, booleans as
+ * TRUE/FALSE) so a spreadsheet can sum them.
+ */
+
+export interface DataBookLuckExportRow extends ScheduleLuckStanding {
+  managerName: string;
+}
+
+/**
+ * Teams: Team, Manager, Owners, Division, Provider team ID, Mapping,
+ * Confidence.
+ */
+export const DATA_BOOK_PEOPLE_EXPORT: TableExportSchema<DataBookPersonRow> = {
+  columns: [
+    { header: "Team", value: (row) => row.teamName },
+    { header: "Manager", value: (row) => row.personName },
+    { header: "Owners", value: (row) => row.ownerNames.join("; ") },
+    { header: "Division", value: (row) => row.division },
+    { header: "Provider team ID", value: (row) => row.providerTeamId },
+    { header: "Mapping", value: (row) => row.mappingMethod },
+    { header: "Confidence", value: (row) => row.confidence },
+  ],
+  title: "People",
+};
+
+/**
+ * Team-weeks: Week, Span, Manager, Team, Opponent, Opponent team, Result,
+ * Points for, Points against, Weekly rank, Playoff, Championship.
+ */
+export const DATA_BOOK_WEEKS_EXPORT: TableExportSchema<DataBookWeekRow> = {
+  columns: [
+    { header: "Week", value: (row) => row.scoringPeriod },
+    { header: "Span", value: (row) => row.span },
+    { header: "Manager", value: (row) => row.managerName },
+    { header: "Team", value: (row) => row.teamName },
+    { header: "Opponent", value: (row) => row.opponent },
+    { header: "Opponent team", value: (row) => row.opponentTeamName },
+    { header: "Result", value: (row) => row.result },
+    { header: "Points for", value: (row) => row.pointsFor },
+    { header: "Points against", value: (row) => row.pointsAgainst },
+    { header: "Weekly rank", value: (row) => row.weeklyRank },
+    { header: "Playoff", value: (row) => row.isPlayoff },
+    { header: "Championship", value: (row) => row.isChampionship },
+  ],
+  title: "Weeks",
+};
+
+/**
+ * Settings and the season summary: Group, Setting, Value, Detail. The
+ * "Season totals" group is the season summary.
+ */
+export const DATA_BOOK_SETTINGS_EXPORT: TableExportSchema<DataBookSettingRow> =
+  {
+    columns: [
+      { header: "Group", value: (row) => row.group },
+      { header: "Setting", value: (row) => row.label },
+      { header: "Value", value: (row) => row.value },
+      { header: "Detail", value: (row) => row.detail },
+    ],
+    title: "Settings",
+  };
+
+/**
+ * Schedule luck: Manager, Wins, Losses, Ties, Points for, All-play wins,
+ * All-play losses, All-play ties, All-play win %, Median wins, Median
+ * losses, Median ties, Expected wins, Schedule-swap average wins, Luck.
+ */
+export const DATA_BOOK_LUCK_EXPORT: TableExportSchema<DataBookLuckExportRow> = {
+  columns: [
+    { header: "Manager", value: (row) => row.managerName },
+    { header: "Wins", value: (row) => row.actual.wins },
+    { header: "Losses", value: (row) => row.actual.losses },
+    { header: "Ties", value: (row) => row.actual.ties },
+    { header: "Points for", value: (row) => row.pointsFor },
+    { header: "All-play wins", value: (row) => row.allPlay.wins },
+    { header: "All-play losses", value: (row) => row.allPlay.losses },
+    { header: "All-play ties", value: (row) => row.allPlay.ties },
+    { header: "All-play win %", value: (row) => row.allPlayWinPercentage },
+    { header: "Median wins", value: (row) => row.median.wins },
+    { header: "Median losses", value: (row) => row.median.losses },
+    { header: "Median ties", value: (row) => row.median.ties },
+    { header: "Expected wins", value: (row) => row.expectedWins },
+    {
+      header: "Schedule-swap average wins",
+      value: (row) => row.scheduleSwapAverageWins,
+    },
+    { header: "Luck", value: (row) => row.luck },
+  ],
+  title: "Schedule luck",
+};
+
+/** Luck standings carry person ids; the download names the managers. */
+export function dataBookLuckExportRows(
+  season: DataBookSeason,
+): DataBookLuckExportRow[] {
+  const names = new Map(
+    season.people.flatMap((person) =>
+      person.personId ? [[person.personId, person.personName] as const] : [],
+    ),
+  );
+  return (season.scheduleLuck?.standings ?? []).map((standing) => ({
+    ...standing,
+    managerName: names.get(standing.personId) ?? "Unknown manager",
+  }));
+}
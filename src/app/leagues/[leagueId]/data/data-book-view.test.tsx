@@ -30,6 +30,7 @@ const leagueId = "00000000-0000-4000-8000-000000000001";
 function season(overrides: Partial<DataBookSeason>): DataBookSeason {
   return {
     people: [],
+    scheduleLuck: null,
     season: 2026,
     settings: [],
     summary: {
@@ -189,6 +190,25 @@ const data: DataBookPageData = {
           teamSeasonId: "team-season-2026-2",
         },
       ],
+      scheduleLuck: {
+        season: 2026,
+        standings: [
+          {
+            actual: { losses: 0, ties: 0, wins: 1 },
+            allPlay: { losses: 0, ties: 0, wins: 1 },
+            allPlayWinPercentage: 1,
+            expectedWins: 1,
+            luck: 0,
+            median: { losses: 0, ties: 0, wins: 1 },
+            medianStandings: { losses: 0, ties: 0, wins: 2 },
+            personId: "person-1",
+            pointsFor: 144.2,
+            scheduleSwapAverageWins: 1,
+          },
+        ],
+        swapMatrix: [],
+        weeks: 1,
+      },
       season: 2026,
       settings: [
         {
@@ -458,6 +478,14 @@ test("Data Book renders the People grain for the selected season", () => {
   expect(within(table).getByText("Alex Manager")).toBeDefined();
   expect(within(table).getByText("Alpha Current")).toBeDefined();
   expect(within(table).getByText("Bailey Manager")).toBeDefined();
+  expect(
+    screen.getByRole("button", { name: "Download 2026 people as CSV" }),
+  ).toBeDefined();
+  expect(
+    screen.getByRole("button", {
+      name: "Download 2026 people as a spreadsheet",
+    }),
+  ).toBeDefined();
 });
 
 test("Data Book switches grains with the secondary selector", () => {
@@ -494,6 +522,14 @@ test("Data Book switches grains with the secondary selector", () => {
       "Player depth: 2011\u20132017 + current \u2014 measured, provider-limited",
     ),
   ).toBeDefined();
+
+  fireEvent.click(screen.getByRole("radio", { name: "Luck" }));
+
+  const luckTable = screen.getByRole("table", {
+    name: "Schedule luck standings",
+  });
+  expect(within(luckTable).getByText("Alex Manager")).toBeDefined();
+  expect(within(luckTable).getByText("2-0-0")).toBeDefined();
 });
 
 test("steward Settings shows the read-only measured coverage panel", () => {
@@ -7,6 +7,7 @@ import {
   Check,
   ChevronDown,
   Database,
+  Dices,
   Edit3,
   LockKeyhole,
   Radio,
@@ -34,7 +35,9 @@ import {
   type DataTableColumn,
   SignedValue,
 } from "@/components/ui/table";
+import { TableExportButtons } from "@/components/ui/table-export";
 import { LeagueDataMasthead } from "../league-data-masthead";
+import { ScheduleLuckStandingsTable } from "../records/schedule-luck-tables";
 import type {
   DataBookCapabilityRow,
   DataBookCheckpointOption,
@@ -43,6 +46,7 @@ import type {
   DataBookCurationState,
   DataBookEraProposal,
   DataBookGrain,
+  DataBookLeagueSummary,
   DataBookPageData,
   DataBookPersonRow,
   DataBookRosterEntry,
@@ -51,6 +55,13 @@ import type {
   DataBookSettingRow,
   DataBookWeekRow,
 } from "./data-book-data";
+import {
+  DATA_BOOK_LUCK_EXPORT,
+  DATA_BOOK_PEOPLE_EXPORT,
+  DATA_BOOK_SETTINGS_EXPORT,
+  DATA_BOOK_WEEKS_EXPORT,
+  dataBookLuckExportRows,
+} from "./data-book-export";
 
 type CuratedEditScope = "all_years" | "this_year_only";
 
@@ -142,6 +153,11 @@ const grains: readonly {
     label: "Weeks",
     value: "weeks",
   },
+  {
+    deck: "All-play, median, and schedule-swap standings from regular-season weeks.",
+    label: "Luck",
+    value: "luck",
+  },
 ];
 
 function formatNumber(value: number, digits = 2): string {
@@ -1005,6 +1021,8 @@ function GrainSelector({
         <Users aria-hidden="true" className="size-4" />
       ) : grain.value === "settings" ? (
         <Database aria-hidden="true" className="size-4" />
+      ) : grain.value === "luck" ? (
+        <Dices aria-hidden="true" className="size-4" />
       ) : (
         <BookOpen aria-hidden="true" className="size-4" />
       ),
@@ -1027,7 +1045,7 @@ function GrainSelector({
       </div>
       <Segmented
         aria-label="Data Book grain"
-        className="w-full sm:min-w-[22rem]"
+        className="w-full sm:min-w-[28rem]"
         onValueChange={(value) => onGrainChange(value as DataBookGrain)}
         options={options}
         value={activeGrain}
@@ -1036,10 +1054,70 @@ function GrainSelector({
   );
 }
 
+function GrainExport({
+  grain,
+  league,
+  season,
+}: {
+  grain: DataBookGrain;
+  league: DataBookLeagueSummary;
+  season: DataBookSeason;
+}) {
+  const fileName = [league.name, String(season.season), "data book", grain];
+  const notes = [
+    ["League", league.name],
+    ["Season", String(season.season)],
+  ] as const;
+  const label = `${season.season} ${grain}`;
+  switch (grain) {
+    case "luck":
+      return (
+        <TableExportButtons
+          fileName={fileName}
+          label={label}
+          notes={notes}
+          rows={dataBookLuckExportRows(season)}
+          schema={DATA_BOOK_LUCK_EXPORT}
+        />
+      );
+    case "people":
+      return (
+        <TableExportButtons
+          fileName={fileName}
+          label={label}
+          notes={notes}
+          rows={season.people}
+          schema={DATA_BOOK_PEOPLE_EXPORT}
+        />
+      );
+    case "settings":
+      return (
+        <TableExportButtons
+          fileName={fileName}
+          label={label}
+          notes={notes}
+          rows={season.settings}
+          schema={DATA_BOOK_SETTINGS_EXPORT}
+        />
+      );
+    case "weeks":
+      return (
+        <TableExportButtons
+          fileName={fileName}
+          label={label}
+          notes={notes}
+          rows={season.weeks}
+          schema={DATA_BOOK_WEEKS_EXPORT}
+        />
+      );
+  }
+}
+
 function GrainSummary({
   activeGrain,
   busyAction,
   canEditData,
+  league,
   onOpenPushDialog,
   onSave,
   onSeasonChange,
@@ -1050,6 +1128,7 @@ function GrainSummary({
   activeGrain: DataBookGrain;
   busyAction: string | null;
   canEditData: boolean;
+  league: DataBookLeagueSummary;
   onOpenPushDialog: (intent: PushIntent) => void;
   onSave: () => void;
   onSeasonChange: (season: number) => void;
@@ -1088,6 +1167,7 @@ function GrainSummary({
               {formatNumber(season.summary.seasonTotalPoints)} PF
             </StatusPill>
           </div>
+          <GrainExport grain={activeGrain} league={league} season={season} />
         </div>
         {canEditData ? (
           <div className="flex flex-wrap items-center gap-2 xl:justify-end">
@@ -2242,6 +2322,20 @@ function WeeksTable({
   );
 }
 
+function ScheduleLuckGrain({ season }: { season: DataBookSeason }) {
+  const names = new Map(
+    season.people.flatMap((person) =>
+      person.personId ? [[person.personId, person.personName] as const] : [],
+    ),
+  );
+  return (
+    <ScheduleLuckStandingsTable
+      managerName={(personId) => names.get(personId) ?? "Unknown manager"}
+      standings={season.scheduleLuck?.standings ?? []}
+    />
+  );
+}
+
 function ActiveGrain({
   activeGrain,
   canEditData,
@@ -2258,6 +2352,8 @@ function ActiveGrain({
   season: DataBookSeason;
 }) {
   switch (activeGrain) {
+    case "luck":
+      return <ScheduleLuckGrain season={season} />;
     case "people":
       return (
         <PeopleTable
@@ -2719,6 +2815,7 @@ export function DataBookView({
             activeGrain={activeGrain}
             busyAction={busyAction}
             canEditData={canEditData}
+            league={draftData.league}
             onOpenPushDialog={(intent) => {
               setPushError(null);
               setPushIntent(intent);
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { headers } from "next/headers";
 import { notFound } from "next/navigation";
 import { type LeagueRole, requireLeagueRole } from "@/auth/guards";
+import { hasLeaguePermission } from "@/auth/permissions";
 import { getDb } from "@/db";
 import { markLeagueOpened } from "@/navigation/league-switcher-data";
 import {
@@ -25,13 +26,7 @@ interface LeagueDataBookPageProps {
 }
 
 function canEditDataBook(role: LeagueRole): boolean {
-  switch (role) {
-    case "commissioner":
-    case "data_steward":
-      return true;
-    case "member":
-      return false;
-  }
+  return hasLeaguePermission(role, "leagueData:manage");
 }
 
 function selectedSeasonFromSearchParams(
@@ -57,7 +52,7 @@ export default async function LeagueDataBookPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
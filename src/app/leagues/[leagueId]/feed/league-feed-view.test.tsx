@@ -210,6 +210,22 @@ test("league press view hides editorial actions from members", () => {
   expect(screen.queryByRole("link", { name: "Webhooks" })).toBeNull();
 });
 
+test("league press view gates each editorial action on its own permission", () => {
+  render(<LeagueFeedView data={{ ...data, userRole: "editor" }} />);
+
+  expect(screen.getByRole("link", { name: "Failure queue" })).toBeTruthy();
+  expect(screen.getByRole("link", { name: "AI usage" })).toBeTruthy();
+  expect(screen.queryByRole("link", { name: "Webhooks" })).toBeNull();
+  cleanup();
+
+  for (const userRole of ["lore_keeper", "spectator"] as const) {
+    render(<LeagueFeedView data={{ ...data, userRole }} />);
+    expect(screen.queryByRole("link", { name: "Failure queue" })).toBeNull();
+    expect(screen.queryByRole("link", { name: "Webhooks" })).toBeNull();
+    cleanup();
+  }
+});
+
 test("league press view renders an empty state", () => {
   render(<LeagueFeedView data={{ ...data, items: [] }} />);
 
@@ -6,6 +6,7 @@ import {
   Newspaper,
   PlugZap,
 } from "lucide-react";
+import { hasLeaguePermission } from "@/auth/permissions";
 import {
   PublicationFrontLayout,
   PublicationMasthead,
@@ -82,7 +83,9 @@ export function LeagueFeedView({ data }: { data: LeagueFeedData }) {
       label: section.label,
     })),
   ];
-  const canManageEditorial = data.userRole !== "member";
+  // Each link shows only for roles its page lets in.
+  const canModeratePress = hasLeaguePermission(data.userRole, "press:moderate");
+  const canManageLeague = hasLeaguePermission(data.userRole, "league:manage");
 
   return (
     <main className="mx-auto flex min-h-dvh w-full max-w-7xl flex-col gap-6 px-4 py-5 pb-[calc(--spacing(6)+env(safe-area-inset-bottom))] sm:px-6">
@@ -107,7 +110,7 @@ export function LeagueFeedView({ data }: { data: LeagueFeedData }) {
             icon: <Landmark data-icon="inline-start" />,
             label: "Lore",
           },
-          ...(canManageEditorial
+          ...(canModeratePress
             ? [
                 {
                   href: `/leagues/${data.league.id}/press/failures`,
@@ -119,6 +122,10 @@ export function LeagueFeedView({ data }: { data: LeagueFeedData }) {
                   icon: <Gauge data-icon="inline-start" />,
                   label: "AI usage",
                 },
+              ]
+            : []),
+          ...(canManageLeague
+            ? [
                 {
                   href: `/leagues/${data.league.id}/press/webhooks`,
                   icon: <PlugZap data-icon="inline-start" />,
@@ -27,6 +27,7 @@ import { Input } from "@/components/ui/input";
 import { StatusPill } from "@/components/ui/status-pill";
 import { Tag } from "@/components/ui/tag";
 import { cn } from "@/lib/utils";
+import type { LeagueRolesData } from "@/members/league-role-types";
 import {
   type LeagueRoastConsentData,
   type LeagueRoastConsentMutationResult,
@@ -35,6 +36,7 @@ import {
   ROAST_LEVELS,
   type RoastLevel,
 } from "@/members/roast-consent-types";
+import { LeagueRolesPanel } from "./league-roles-panel";
 
 interface LeagueInviteTarget {
   displayName: string;
@@ -65,7 +67,14 @@ interface DataStewardCandidate {
   email: string;
   isDataSteward: boolean;
   memberId: string;
-  role: "member" | "data_steward" | "commissioner";
+  role:
+    | "commissioner"
+    | "co_commissioner"
+    | "data_steward"
+    | "editor"
+    | "lore_keeper"
+    | "member"
+    | "spectator";
   userId: string;
 }
 
@@ -467,10 +476,12 @@ function DataStewardDoorwayCard({
 
 export function LeagueInviteView({
   initialSummary,
+  leagueRoles,
   roastConsent,
   stewardDoorway,
 }: {
   initialSummary: LeagueInviteSummary;
+  leagueRoles?: LeagueRolesData | null;
   roastConsent?: LeagueRoastConsentData;
   stewardDoorway?: DataStewardDoorwaySummary;
 }) {
@@ -743,6 +754,8 @@ export function LeagueInviteView({
 
       {roastConsent ? <RoastConsentPanel data={roastConsent} /> : null}
 
+      {leagueRoles ? <LeagueRolesPanel data={leagueRoles} /> : null}
+
       {stewardDoorwayState ? (
         <DataStewardDoorwayCard
           busyKey={busyKey}
@@ -0,0 +1,187 @@
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { afterEach, expect, test, vi } from "vitest";
+import type { LeagueRolesData } from "@/members/league-role-types";
+import { LeagueRolesPanel } from "./league-roles-panel";
+
+const apiUrl = "/api/leagues/00000000-0000-4000-8000-000000000001/roles";
+
+const data: LeagueRolesData = {
+  apiUrl,
+  grants: [
+    {
+      actorDisplayName: "Fixture Commissioner",
+      createdAt: "2026-10-01T12:00:00.000Z",
+      id: "grant-1",
+      previousRole: "member",
+      reason: "Keeps the spreadsheet",
+      role: "data_steward",
+      targetDisplayName: "Fixture Steward",
+    },
+  ],
+  members: [
+    {
+      displayName: "Fixture Commissioner",
+      email: "commissioner@example.com",
+      memberId: "member-row-1",
+      role: "commissioner",
+      userId: "user-1",
+    },
+    {
+      displayName: "Fixture Manager Two",
+      email: "two@example.com",
+      memberId: "member-row-2",
+      role: "member",
+      userId: "user-2",
+    },
+  ],
+  viewerUserId: "user-1",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { "content-type": "application/json" },
+    status,
+  });
+}
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+test("roles panel changes a member's role and records the grant", async () => {
+  const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+    jsonResponse({
+      grant: {
+        actorDisplayName: "Fixture Commissioner",
+        createdAt: "2026-10-18T12:00:00.000Z",
+        id: "grant-2",
+        previousRole: "member",
+        reason: "Runs the Press",
+        role: "editor",
+        targetDisplayName: "Fixture Manager Two",
+      },
+      member: { ...data.members[1], role: "editor" },
+      status: "changed",
+    }),
+  );
+
+  render(<LeagueRolesPanel data={data} />);
+
+  expect(
+    screen.getByText("Fixture Steward: Member → Data steward"),
+  ).toBeDefined();
+  expect(
+    screen.queryByRole("combobox", { name: "Role for Fixture Commissioner" }),
+  ).toBeNull();
+
+  fireEvent.change(screen.getByRole("textbox", { name: "Reason" }), {
+    target: { value: " Runs the Press " },
+  });
+  fireEvent.change(
+    screen.getByRole("combobox", { name: "Role for Fixture Manager Two" }),
+    { target: { value: "editor" } },
+  );
+
+  await waitFor(() => {
+    expect(fetchMock).toHaveBeenCalledWith(
+      apiUrl,
+      expect.objectContaining({
+        body: JSON.stringify({
+          memberId: "member-row-2",
+          role: "editor",
+          reason: "Runs the Press",
+        }),
+        method: "POST",
+      }),
+    );
+  });
+  expect(
+    await screen.findByText("Fixture Manager Two: Member → Editor"),
+  ).toBeDefined();
+  expect(
+    (
+      screen.getByRole("combobox", {
+        name: "Role for Fixture Manager Two",
+      }) as HTMLSelectElement
+    ).value,
+  ).toBe("editor");
+});
+
+test("roles panel seats a spectator by email and surfaces errors", async () => {
+  const fetchMock = vi
+    .spyOn(globalThis, "fetch")
+    .mockResolvedValueOnce(
+      jsonResponse(
+        {
+          error: {
+            code: "LEAGUE_ROLE_ACCOUNT_NOT_FOUND",
+            message:
+              "No account uses that email. Ask them to sign in once, then try again.",
+          },
+        },
+        404,
+      ),
+    )
+    .mockResolvedValueOnce(
+      jsonResponse({
+        grant: {
+          actorDisplayName: "Fixture Commissioner",
+          createdAt: "2026-10-18T12:00:00.000Z",
+          id: "grant-3",
+          previousRole: null,
+          reason: null,
+          role: "spectator",
+          targetDisplayName: "Fixture Fan",
+        },
+        member: {
+          displayName: "Fixture Fan",
+          email: "fan@example.com",
+          memberId: "member-row-3",
+          role: "spectator",
+          userId: "user-3",
+        },
+        status: "changed",
+      }),
+    );
+
+  render(<LeagueRolesPanel data={data} />);
+
+  const addButton = screen.getByRole("button", {
+    name: "Add spectator",
+  }) as HTMLButtonElement;
+  expect(addButton.disabled).toBe(true);
+
+  const email = screen.getByRole("textbox", { name: "Add a spectator" });
+  fireEvent.change(email, { target: { value: "fan@example.com" } });
+  fireEvent.click(addButton);
+
+  expect(
+    await screen.findByText(
+      "No account uses that email. Ask them to sign in once, then try again.",
+    ),
+  ).toBeDefined();
+  expect((email as HTMLInputElement).value).toBe("fan@example.com");
+
+  fireEvent.click(addButton);
+
+  expect(
+    await screen.findByText("Fixture Fan joined as Spectator"),
+  ).toBeDefined();
+  expect(fetchMock).toHaveBeenLastCalledWith(
+    apiUrl,
+    expect.objectContaining({
+      body: JSON.stringify({ email: "fan@example.com", role: "spectator" }),
+    }),
+  );
+  expect((email as HTMLInputElement).value).toBe("");
+  expect(
+    screen.getByRole("combobox", { name: "Role for Fixture Fan" }),
+  ).toBeDefined();
+});
@@ -0,0 +1,246 @@
+"use client";
+
+import { History, KeyRound, UserPlus } from "lucide-react";
+import { type FormEvent, useState } from "react";
+import {
+  type OnboardingPanelError,
+  onboardingPanelError,
+  postJson,
+} from "@/app/onboarding/client-http";
+import { Alert } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Field } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { StatusPill } from "@/components/ui/status-pill";
+import {
+  GRANTABLE_LEAGUE_ROLES,
+  type GrantableLeagueRole,
+  LEAGUE_ROLE_DISPLAY,
+  type LeagueRoleGrantEntry,
+  type LeagueRoleGrantResult,
+  type LeagueRoleMember,
+  type LeagueRolesData,
+} from "@/members/league-role-types";
+
+const ROLE_OPTIONS = GRANTABLE_LEAGUE_ROLES.map((role) => ({
+  description: LEAGUE_ROLE_DISPLAY[role].description,
+  label: LEAGUE_ROLE_DISPLAY[role].label,
+  value: role,
+}));
+
+function isGrantableRole(value: string): value is GrantableLeagueRole {
+  return (GRANTABLE_LEAGUE_ROLES as readonly string[]).includes(value);
+}
+
+function grantSummary(grant: LeagueRoleGrantEntry): string {
+  const target = grant.targetDisplayName ?? "A former member";
+  const role = LEAGUE_ROLE_DISPLAY[grant.role].label;
+  return grant.previousRole
+    ? `${target}: ${LEAGUE_ROLE_DISPLAY[grant.previousRole].label} → ${role}`
+    : `${target} joined as ${role}`;
+}
+
+function upsertMember(
+  current: LeagueRoleMember[],
+  member: LeagueRoleMember,
+): LeagueRoleMember[] {
+  return current.some((candidate) => candidate.memberId === member.memberId)
+    ? current.map((candidate) =>
+        candidate.memberId === member.memberId ? member : candidate,
+      )
+    : [...current, member];
+}
+
+function RoleMemberRow({
+  busyKey,
+  member,
+  onChange,
+  viewerUserId,
+}: {
+  busyKey: string | null;
+  member: LeagueRoleMember;
+  onChange: (member: LeagueRoleMember, role: GrantableLeagueRole) => void;
+  viewerUserId: string;
+}) {
+  const locked =
+    member.role === "commissioner" || member.userId === viewerUserId;
+  return (
+    <div className="cell grid gap-2 px-3 py-3 sm:grid-cols-[minmax(0,1fr)_12rem] sm:items-center">
+      <div className="min-w-0">
+        <p className="truncate text-sm font-medium">{member.displayName}</p>
+        <p className="truncate text-xs text-muted-foreground">{member.email}</p>
+      </div>
+      {locked ? (
+        <StatusPill
+          tone={member.role === "commissioner" ? "live" : "neutral"}
+          className="justify-self-start sm:justify-self-end"
+        >
+          {LEAGUE_ROLE_DISPLAY[member.role].label}
+        </StatusPill>
+      ) : (
+        <Select
+          aria-label={`Role for ${member.displayName}`}
+          disabled={busyKey !== null}
+          onValueChange={(value) => {
+            if (isGrantableRole(value) && value !== member.role) {
+              onChange(member, value);
+            }
+          }}
+          options={ROLE_OPTIONS}
+          value={member.role}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Commissioner-only roles panel: moves members between the built-in roles,
+ * seats a fan as a spectator by email and shows the grant history. Role
+ * definitions live in `src/auth/permissions.ts`.
+ */
+export function LeagueRolesPanel({ data }: { data: LeagueRolesData }) {
+  const [roleMembers, setRoleMembers] = useState(data.members);
+  const [grants, setGrants] = useState(data.grants);
+  const [reason, setReason] = useState("");
+  const [spectatorEmail, setSpectatorEmail] = useState("");
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<OnboardingPanelError | null>(null);
+
+  async function grant(
+    key: string,
+    body: Record<string, string>,
+  ): Promise<LeagueRoleGrantResult | null> {
+    setBusyKey(key);
+    setError(null);
+    try {
+      const trimmedReason = reason.trim();
+      const result = await postJson<LeagueRoleGrantResult>(data.apiUrl, {
+        ...body,
+        ...(trimmedReason ? { reason: trimmedReason } : {}),
+      });
+      setRoleMembers((current) => upsertMember(current, result.member));
+      const entry = result.grant;
+      if (entry) {
+        setGrants((current) => [entry, ...current]);
+        setReason("");
+      }
+      return result;
+    } catch (cause) {
+      setError(onboardingPanelError(cause));
+      return null;
+    } finally {
+      setBusyKey(null);
+    }
+  }
+
+  async function changeRole(
+    member: LeagueRoleMember,
+    role: GrantableLeagueRole,
+  ) {
+    await grant(member.memberId, { memberId: member.memberId, role });
+  }
+
+  async function addSpectator(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const email = spectatorEmail.trim();
+    if (!email) {
+      return;
+    }
+    const result = await grant("spectator", { email, role: "spectator" });
+    if (result) {
+      setSpectatorEmail("");
+    }
+  }
+
+  return (
+    <section className="panel grid gap-4 p-4">
+      <div className="min-w-0">
+        <p className="flex items-center gap-2 font-display text-sm font-medium text-foreground">
+          <KeyRound className="size-4 shrink-0 text-primary" aria-hidden />
+          League roles
+        </p>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Co-commissioners run the league with you. Editors handle the Press and
+          the cast, lore keepers rule on lore, and spectators follow along
+          without a team.
+        </p>
+      </div>
+
+      {error ? <Alert tone="danger">{error.message}</Alert> : null}
+
+      <Field
+        label="Reason"
+        hint="Optional. Saved with the next role change in the history below."
+      >
+        <Input
+          maxLength={280}
+          value={reason}
+          onChange={(event) => setReason(event.currentTarget.value)}
+        />
+      </Field>
+
+      <div className="grid gap-2">
+        {roleMembers.map((member) => (
+          <RoleMemberRow
+            busyKey={busyKey}
+            key={member.memberId}
+            member={member}
+            onChange={(target, role) => void changeRole(target, role)}
+            viewerUserId={data.viewerUserId}
+          />
+        ))}
+      </div>
+
+      <form
+        className="grid gap-2 sm:grid-cols-[minmax(0,1fr)_auto] sm:items-end"
+        onSubmit={addSpectator}
+      >
+        <Field
+          label="Add a spectator"
+          hint="They need a Rumbledore account. Spectators read the league and post nothing."
+        >
+          <Input
+            type="email"
+            value={spectatorEmail}
+            onChange={(event) => setSpectatorEmail(event.currentTarget.value)}
+          />
+        </Field>
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={busyKey !== null || spectatorEmail.trim() === ""}
+        >
+          <UserPlus data-icon="inline-start" />
+          Add spectator
+        </Button>
+      </form>
+
+      <div className="grid gap-2">
+        <p className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+          <History className="size-3.5" aria-hidden />
+          Recent role changes
+        </p>
+        {grants.length > 0 ? (
+          <ul className="grid gap-1">
+            {grants.map((entry) => (
+              <li key={entry.id} className="cell px-3 py-2 text-sm">
+                <p>{grantSummary(entry)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {entry.actorDisplayName ?? "Unknown"} ·{" "}
+                  {new Date(entry.createdAt).toLocaleString()}
+                  {entry.reason ? ` · ${entry.reason}` : null}
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="rounded-control border border-dashed border-border bg-muted/25 px-3 py-3 text-sm text-muted-foreground">
+            No roles have changed yet.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
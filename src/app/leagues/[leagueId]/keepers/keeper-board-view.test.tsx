@@ -0,0 +1,229 @@
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within,
+} from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { postJson } from "@/app/onboarding/client-http";
+import type {
+  KeeperBoardData,
+  KeeperCandidate,
+} from "@/keepers/keeper-board-types";
+import { KeeperBoardEmptyView, KeeperBoardView } from "./keeper-board-view";
+
+const mocks = vi.hoisted(() => ({
+  postJson: vi.fn(),
+  refresh: vi.fn(),
+}));
+
+vi.mock("@/app/onboarding/client-http", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("@/app/onboarding/client-http")>();
+  return {
+    ...actual,
+    postJson: mocks.postJson,
+  };
+});
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ refresh: mocks.refresh }),
+}));
+
+afterEach(() => {
+  cleanup();
+  mocks.postJson.mockReset();
+  mocks.refresh.mockClear();
+});
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+
+function candidate(overrides: Partial<KeeperCandidate>): KeeperCandidate {
+  return {
+    acquisition: "draft",
+    costRound: 3,
+    draftRound: 3,
+    eligible: true,
+    history: [],
+    ineligibleReason: null,
+    playerName: "Puka Nacua",
+    position: "WR",
+    projectedCostRound: 2,
+    providerPlayerId: "p-1",
+    providerTeamId: "1",
+    seasonPoints: 240,
+    value: 32.5,
+    yearsKept: 0,
+    ...overrides,
+  };
+}
+
+function boardData(overrides: Partial<KeeperBoardData> = {}): KeeperBoardData {
+  return {
+    apiUrl: `/api/leagues/${leagueId}/keepers`,
+    board: {
+      deadlineAt: "2026-08-30T17:00:00.000Z",
+      lockedAt: null,
+      season: 2026,
+      status: "open",
+    },
+    canManage: false,
+    fromSeason: 2025,
+    league: { id: leagueId, name: "NHS Alumni Annual" },
+    rules: {
+      maxKeepers: 2,
+      maxYearsKept: 2,
+      roundPenalty: 1,
+      undraftedRound: 10,
+    },
+    teams: [
+      {
+        candidates: [
+          candidate({}),
+          candidate({
+            eligible: false,
+            ineligibleReason: "Kept the maximum 2 seasons",
+            playerName: "Derrick Henry",
+            projectedCostRound: null,
+            providerPlayerId: "p-2",
+            value: null,
+            yearsKept: 2,
+          }),
+        ],
+        declarations: [],
+        isYours: true,
+        name: "Tom's Team",
+        providerTeamId: "1",
+      },
+      {
+        candidates: [
+          candidate({
+            playerName: "Bijan Robinson",
+            providerPlayerId: "p-3",
+            providerTeamId: "2",
+          }),
+        ],
+        declarations: [
+          {
+            costRound: 2,
+            declaredAt: "2026-08-01T12:00:00.000Z",
+            playerName: "Bijan Robinson",
+            position: "RB",
+            providerPlayerId: "p-3",
+          },
+        ],
+        isYours: false,
+        name: "Rival Team",
+        providerTeamId: "2",
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("KeeperBoardView", () => {
+  it("lets a manager keep their own eligible players only", async () => {
+    mocks.postJson.mockResolvedValue({
+      costRound: 2,
+      providerPlayerId: "p-1",
+      providerTeamId: "1",
+      status: "declared",
+    });
+    render(<KeeperBoardView data={boardData()} />);
+
+    const yours = screen.getByRole("region", { name: "Tom's Team keepers" });
+    const table = within(yours).getByRole("table");
+    expect(within(table).getByText("Kept the maximum 2 seasons")).toBeDefined();
+    expect(
+      within(table).queryByRole("button", { name: "Keep Derrick Henry" }),
+    ).toBeNull();
+    const rival = screen.getByRole("region", { name: "Rival Team keepers" });
+    expect(within(rival).queryAllByRole("button")).toHaveLength(0);
+    expect(
+      screen.queryByRole("region", { name: "Commissioner controls" }),
+    ).toBeNull();
+
+    fireEvent.click(
+      within(table).getByRole("button", { name: "Keep Puka Nacua" }),
+    );
+
+    await waitFor(() => expect(postJson).toHaveBeenCalledTimes(1));
+    expect(postJson).toHaveBeenCalledWith(`/api/leagues/${leagueId}/keepers`, {
+      action: "declare",
+      providerPlayerId: "p-1",
+    });
+    await waitFor(() => expect(mocks.refresh).toHaveBeenCalledTimes(1));
+  });
+
+  it("lets the commissioner release for any team and lock the board", async () => {
+    mocks.postJson.mockResolvedValue({});
+    render(<KeeperBoardView data={boardData({ canManage: true })} />);
+
+    const rival = screen.getByRole("region", { name: "Rival Team keepers" });
+    fireEvent.click(
+      within(within(rival).getByRole("table")).getByRole("button", {
+        name: "Release Bijan Robinson",
+      }),
+    );
+    await waitFor(() => expect(postJson).toHaveBeenCalledTimes(1));
+    expect(postJson).toHaveBeenCalledWith(`/api/leagues/${leagueId}/keepers`, {
+      action: "release",
+      providerPlayerId: "p-3",
+      providerTeamId: "2",
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "Lock board" }));
+    await waitFor(() => expect(postJson).toHaveBeenCalledTimes(2));
+    expect(postJson).toHaveBeenLastCalledWith(
+      `/api/leagues/${leagueId}/keepers/board`,
+      { locked: true },
+    );
+  });
+
+  it("hides keeper actions once the board is locked", () => {
+    render(
+      <KeeperBoardView
+        data={boardData({
+          board: {
+            deadlineAt: null,
+            lockedAt: "2026-08-31T12:00:00.000Z",
+            season: 2026,
+            status: "locked",
+          },
+        })}
+      />,
+    );
+
+    expect(screen.getByText("Locked by the commissioner")).toBeDefined();
+    expect(screen.queryAllByRole("button", { name: /^Keep / })).toHaveLength(0);
+  });
+
+  it("shows the failure when a keeper cannot be saved", async () => {
+    mocks.postJson.mockRejectedValue(new Error("Keeper limit reached."));
+    render(<KeeperBoardView data={boardData()} />);
+
+    const yours = screen.getByRole("region", { name: "Tom's Team keepers" });
+    fireEvent.click(
+      within(within(yours).getByRole("table")).getByRole("button", {
+        name: "Keep Puka Nacua",
+      }),
+    );
+
+    expect(await screen.findByText("Keeper not saved")).toBeDefined();
+    expect(mocks.refresh).not.toHaveBeenCalled();
+  });
+});
+
+describe("KeeperBoardEmptyView", () => {
+  it("explains that rosters are needed first", () => {
+    render(
+      <KeeperBoardEmptyView
+        league={{ id: leagueId, name: "NHS Alumni Annual" }}
+      />,
+    );
+
+    expect(screen.getByText("No rosters yet")).toBeDefined();
+  });
+});
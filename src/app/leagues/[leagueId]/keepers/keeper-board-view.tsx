@@ -0,0 +1,438 @@
+"use client";
+
+import { ArrowLeft, Lock, LockOpen, Save } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { onboardingPanelError, postJson } from "@/app/onboarding/client-http";
+import { Banner } from "@/components/ui/banner";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Field } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { KVList } from "@/components/ui/kv";
+import { StatusPill, type StatusTone } from "@/components/ui/status-pill";
+import {
+  DataTable,
+  type DataTableColumn,
+  SignedValue,
+} from "@/components/ui/table";
+import {
+  KEEPER_BOARD_STATUS_LABELS,
+  type KeeperBoardData,
+  type KeeperBoardStatus,
+  type KeeperBoardTeam,
+  type KeeperCandidate,
+  type KeeperDeclarationMutationResult,
+  type KeeperRules,
+} from "@/keepers/keeper-board-types";
+import { cn } from "@/lib/utils";
+
+const statusTones: Record<KeeperBoardStatus, StatusTone> = {
+  closed: "neutral",
+  locked: "warning",
+  open: "success",
+};
+
+const acquisitionLabels: Record<KeeperCandidate["acquisition"], string> = {
+  draft: "Drafted",
+  free_agent: "Free agent",
+  keeper: "Kept",
+  trade: "Traded for",
+  waiver: "Waivers",
+};
+
+function formatDateTime(value: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    month: "short",
+  }).format(new Date(value));
+}
+
+/** `datetime-local` wants local wall-clock time without a zone. */
+function toLocalInputValue(value: string | null): string {
+  if (!value) {
+    return "";
+  }
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function roundLabel(value: number | null): string {
+  return value === null ? "-" : `Rd ${value}`;
+}
+
+function signedPoints(value: number): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+function rulesItems(rules: KeeperRules) {
+  return [
+    {
+      label: "Keepers per team",
+      value: rules.maxKeepers === null ? "Unlimited" : `${rules.maxKeepers}`,
+    },
+    {
+      label: "Seasons a player can be kept",
+      value:
+        rules.maxYearsKept === null ? "Unlimited" : `${rules.maxYearsKept}`,
+    },
+    {
+      label: "Rounds added per year kept",
+      value: `${rules.roundPenalty}`,
+    },
+    { label: "Undrafted players cost", value: `Rd ${rules.undraftedRound}` },
+  ];
+}
+
+function TeamBoard({
+  busy,
+  canAct,
+  onToggle,
+  team,
+}: {
+  busy: string | null;
+  canAct: boolean;
+  onToggle: (team: KeeperBoardTeam, candidate: KeeperCandidate) => void;
+  team: KeeperBoardTeam;
+}) {
+  const declared = new Set(
+    team.declarations.map((row) => row.providerPlayerId),
+  );
+  const action = (candidate: KeeperCandidate) => {
+    const isDeclared = declared.has(candidate.providerPlayerId);
+    if (!canAct || (!isDeclared && !candidate.eligible)) {
+      return null;
+    }
+    return (
+      <Button
+        aria-label={`${isDeclared ? "Release" : "Keep"} ${candidate.playerName}`}
+        disabled={busy !== null}
+        loading={busy === candidate.providerPlayerId}
+        loadingLabel="Saving keeper"
+        onClick={() => onToggle(team, candidate)}
+        size="sm"
+        type="button"
+        variant={isDeclared ? "ghost" : "outline"}
+      >
+        {isDeclared ? "Release" : "Keep"}
+      </Button>
+    );
+  };
+  const columns: readonly DataTableColumn<KeeperCandidate>[] = [
+    {
+      cell: (row) => (
+        <span className="grid">
+          <span className="font-medium">{row.playerName}</span>
+          <span className="text-xs text-muted-foreground">
+            {[row.position, acquisitionLabels[row.acquisition]]
+              .filter(Boolean)
+              .join(" - ")}
+          </span>
+        </span>
+      ),
+      header: "Player",
+      id: "player",
+    },
+    {
+      align: "right",
+      cell: (row) => (
+        <span className="metric">{roundLabel(row.costRound)}</span>
+      ),
+      header: "Cost now",
+      id: "cost",
+      priority: "desktop",
+    },
+    {
+      align: "right",
+      cell: (row) => `${row.yearsKept}`,
+      header: "Years kept",
+      id: "years-kept",
+      priority: "desktop",
+    },
+    {
+      align: "right",
+      cell: (row) =>
+        row.eligible ? (
+          <span className="metric">{roundLabel(row.projectedCostRound)}</span>
+        ) : (
+          <span className="text-xs text-muted-foreground">
+            {row.ineligibleReason}
+          </span>
+        ),
+      header: "Keeper cost",
+      id: "projected-cost",
+    },
+    {
+      align: "right",
+      cell: (row) =>
+        row.value === null ? (
+          "-"
+        ) : (
+          <SignedValue
+            tone={
+              row.value > 0 ? "positive" : row.value < 0 ? "negative" : "muted"
+            }
+          >
+            {signedPoints(row.value)}
+          </SignedValue>
+        ),
+      header: "Value",
+      id: "value",
+    },
+    {
+      align: "right",
+      cell: (row) => action(row),
+      header: <span className="sr-only">Action</span>,
+      id: "action",
+    },
+  ];
+
+  return (
+    <section
+      aria-label={`${team.name} keepers`}
+      className="panel grid gap-3 p-4"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="heading-auspex text-lg leading-tight">{team.name}</h2>
+        {team.isYours ? <StatusPill tone="info">Your team</StatusPill> : null}
+        <StatusPill tone="neutral">
+          {team.declarations.length} declared
+        </StatusPill>
+      </div>
+      {team.declarations.length > 0 ? (
+        <ul className="flex flex-wrap gap-2">
+          {team.declarations.map((row) => (
+            <li
+              className="rounded-control border border-primary/40 px-2 py-1 text-sm"
+              key={row.providerPlayerId}
+            >
+              {row.playerName}{" "}
+              <span className="metric text-muted-foreground">
+                {roundLabel(row.costRound)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <DataTable
+        ariaLabel={`${team.name} keeper candidates`}
+        columns={columns}
+        empty="No players on the final roster."
+        getRowId={(row) => row.providerPlayerId}
+        getRowName={(row) => row.playerName}
+        mobileRows={team.candidates.map((row) => ({
+          actions: action(row),
+          cells: [
+            { label: "Cost now", value: roundLabel(row.costRound) },
+            {
+              label: "Keeper cost",
+              value: row.eligible
+                ? roundLabel(row.projectedCostRound)
+                : (row.ineligibleReason ?? "-"),
+            },
+            {
+              label: "Value",
+              value: row.value === null ? "-" : signedPoints(row.value),
+            },
+          ],
+          id: row.providerPlayerId,
+          meta: acquisitionLabels[row.acquisition],
+          selected: declared.has(row.providerPlayerId),
+          title: row.playerName,
+        }))}
+        rows={team.candidates}
+        selectedRowIds={[...declared]}
+      />
+    </section>
+  );
+}
+
+function CommissionerControls({ data }: { data: KeeperBoardData }) {
+  const router = useRouter();
+  const [deadline, setDeadline] = useState(
+    toLocalInputValue(data.board.deadlineAt),
+  );
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const locked = data.board.status === "locked";
+
+  async function update(action: string, body: Record<string, unknown>) {
+    setBusy(action);
+    setError(null);
+    try {
+      await postJson(`${data.apiUrl}/board`, body);
+      router.refresh();
+    } catch (cause) {
+      setError(onboardingPanelError(cause).message);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <section
+      aria-label="Commissioner controls"
+      className="cell grid gap-3 p-3 sm:p-4"
+    >
+      <p className="eyebrow text-primary">Commissioner</p>
+      <div className="flex flex-wrap items-end gap-3">
+        <Field controlId="keeper-deadline" label="Deadline">
+          <Input
+            id="keeper-deadline"
+            onChange={(event) => setDeadline(event.currentTarget.value)}
+            type="datetime-local"
+            value={deadline}
+          />
+        </Field>
+        <Button
+          disabled={busy !== null}
+          loading={busy === "deadline"}
+          loadingLabel="Saving deadline"
+          onClick={() =>
+            update("deadline", {
+              deadlineAt: deadline ? new Date(deadline).toISOString() : null,
+            })
+          }
+          type="button"
+          variant="steel"
+        >
+          <Save data-icon="inline-start" />
+          Save deadline
+        </Button>
+        <Button
+          disabled={busy !== null}
+          loading={busy === "lock"}
+          loadingLabel={locked ? "Unlocking board" : "Locking board"}
+          onClick={() => update("lock", { locked: !locked })}
+          type="button"
+          variant="outline"
+        >
+          {locked ? (
+            <LockOpen data-icon="inline-start" />
+          ) : (
+            <Lock data-icon="inline-start" />
+          )}
+          {locked ? "Unlock board" : "Lock board"}
+        </Button>
+      </div>
+      {error ? (
+        <Banner title="Keeper board update failed" tone="danger">
+          {error}
+        </Banner>
+      ) : null}
+    </section>
+  );
+}
+
+export function KeeperBoardView({ data }: { data: KeeperBoardData }) {
+  const router = useRouter();
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const open = data.board.status === "open";
+
+  async function toggleKeeper(
+    team: KeeperBoardTeam,
+    candidate: KeeperCandidate,
+  ) {
+    const declared = team.declarations.some(
+      (row) => row.providerPlayerId === candidate.providerPlayerId,
+    );
+    setBusy(candidate.providerPlayerId);
+    setError(null);
+    try {
+      await postJson<KeeperDeclarationMutationResult>(data.apiUrl, {
+        action: declared ? "release" : "declare",
+        providerPlayerId: candidate.providerPlayerId,
+        ...(team.isYours ? {} : { providerTeamId: team.providerTeamId }),
+      });
+      router.refresh();
+    } catch (cause) {
+      setError(onboardingPanelError(cause).message);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <main className="mx-auto flex min-h-dvh w-full max-w-6xl flex-col gap-6 px-4 py-5 pb-[calc(--spacing(6)+env(safe-area-inset-bottom))] sm:px-6">
+      <header className="panel grid gap-4 p-4">
+        <Link
+          href={`/leagues/${data.league.id}`}
+          className={cn(
+            buttonVariants({ className: "w-fit", variant: "ghost" }),
+          )}
+        >
+          <ArrowLeft data-icon="inline-start" />
+          League home
+        </Link>
+        <div className="grid gap-3 md:grid-cols-[minmax(0,1fr)_minmax(16rem,22rem)]">
+          <div className="grid content-start gap-2">
+            <p className="eyebrow text-primary">Keeper board</p>
+            <h1 className="heading-auspex text-xl leading-tight">
+              {data.league.name} {data.board.season} keepers
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Costs and eligibility project from the {data.fromSeason} final
+              rosters. Value is season points over the average pick in the
+              keeper's round.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <StatusPill tone={statusTones[data.board.status]}>
+                {KEEPER_BOARD_STATUS_LABELS[data.board.status]}
+              </StatusPill>
+              {data.board.deadlineAt ? (
+                <StatusPill tone="neutral">
+                  Deadline {formatDateTime(data.board.deadlineAt)}
+                </StatusPill>
+              ) : null}
+            </div>
+          </div>
+          <KVList aria-label="Keeper rules" items={rulesItems(data.rules)} />
+        </div>
+      </header>
+
+      {data.canManage ? <CommissionerControls data={data} /> : null}
+      {error ? (
+        <Banner title="Keeper not saved" tone="danger">
+          {error}
+        </Banner>
+      ) : null}
+
+      {data.teams.map((team) => (
+        <TeamBoard
+          busy={busy}
+          canAct={open && (team.isYours || data.canManage)}
+          key={team.providerTeamId}
+          onToggle={toggleKeeper}
+          team={team}
+        />
+      ))}
+    </main>
+  );
+}
+
+export function KeeperBoardEmptyView({
+  league,
+}: {
+  league: KeeperBoardData["league"];
+}) {
+  return (
+    <main className="mx-auto flex min-h-dvh w-full max-w-3xl flex-col gap-6 px-4 py-5 sm:px-6">
+      <Link
+        href={`/leagues/${league.id}`}
+        className={cn(buttonVariants({ className: "w-fit", variant: "ghost" }))}
+      >
+        <ArrowLeft data-icon="inline-start" />
+        League home
+      </Link>
+      <EmptyState title="No rosters yet">
+        Keeper projections for {league.name} start once a season's rosters have
+        been imported.
+      </EmptyState>
+    </main>
+  );
+}
@@ -0,0 +1,76 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { requireLeagueRole } from "@/auth/guards";
+import { getDb } from "@/db";
+import { getKeeperBoard } from "@/keepers/keeper-board";
+import { markLeagueOpened } from "@/navigation/league-switcher-data";
+import {
+  type LeagueDeepLinkSearchParams,
+  redirectToLeagueDeepLinkOnboarding,
+} from "../league-deep-link-routing";
+import { LeagueSectionAccessState } from "../league-section-access-state";
+import { KeeperBoardEmptyView, KeeperBoardView } from "./keeper-board-view";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Keepers | Rumbledore",
+  description: "Keeper costs, eligibility and declarations for next season.",
+};
+
+interface LeagueKeepersPageProps {
+  params: Promise<{ leagueId: string }>;
+  searchParams?: Promise<LeagueDeepLinkSearchParams>;
+}
+
+export default async function LeagueKeepersPage({
+  params,
+  searchParams,
+}: LeagueKeepersPageProps) {
+  const { leagueId } = await params;
+  const query = await searchParams;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: await headers(),
+    leagueId,
+    permission: "league:view",
+  });
+
+  if (!access.ok) {
+    if (access.error.code === "INVALID_LEAGUE_ID") {
+      notFound();
+    }
+    if (access.error.status === 401) {
+      redirectToLeagueDeepLinkOnboarding({
+        leagueId,
+        searchParams: query,
+        segments: ["keepers"],
+      });
+    }
+    return (
+      <LeagueSectionAccessState
+        title="No league access"
+        body="This account is not a member of that league."
+      />
+    );
+  }
+
+  await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+
+  const result = await getKeeperBoard(db, {
+    leagueId,
+    userId: access.value.userId,
+    userRole: access.value.role,
+  });
+
+  switch (result.status) {
+    case "ready":
+      return <KeeperBoardView data={result.data} />;
+    case "no_rosters":
+      return <KeeperBoardEmptyView league={result.league} />;
+    case "not_found":
+      notFound();
+  }
+}
@@ -92,6 +92,7 @@ const data: LeagueHomeData = {
       losses: 0,
       managerNames: ["Fixture Manager 12"],
       name: "Fixture Team 01",
+      odds: null,
       playoffLineAfter: false,
       pointsAgainst: 0,
       pointsFor: 0,
@@ -108,6 +109,7 @@ const data: LeagueHomeData = {
       losses: 0,
       managerNames: ["Fixture Manager 15"],
       name: "Fixture Team 02",
+      odds: null,
       playoffLineAfter: false,
       pointsAgainst: 0,
       pointsFor: 0,
@@ -198,6 +200,18 @@ test("league home view renders standings, teams, and current matchups", () => {
   expect(screen.getByRole("link", { name: "Cast" }).getAttribute("href")).toBe(
     "/leagues/00000000-0000-4000-8000-000000000001/cast",
   );
+  expect(
+    screen.getByRole("link", { name: "Keepers" }).getAttribute("href"),
+  ).toBe("/leagues/00000000-0000-4000-8000-000000000001/keepers");
+  expect(screen.getByRole("link", { name: "Pools" }).getAttribute("href")).toBe(
+    "/leagues/00000000-0000-4000-8000-000000000001/pools",
+  );
+  expect(
+    screen.getByRole("link", { name: "Playoffs" }).getAttribute("href"),
+  ).toBe("/leagues/00000000-0000-4000-8000-000000000001/playoffs");
+  expect(
+    screen.getByRole("link", { name: "Archive" }).getAttribute("href"),
+  ).toBe("/leagues/00000000-0000-4000-8000-000000000001/archive");
 
   fireEvent.click(within(sectionTabs).getByRole("tab", { name: "This Week" }));
   expect(
@@ -236,6 +250,66 @@ test("league home view renders standings, teams, and current matchups", () => {
   expect(screen.getByText("1 on the board")).toBeDefined();
 });
 
+test("league home view shows simulated playoff odds with clinch markers", () => {
+  const [first, second] = data.standings;
+  if (!first || !second) {
+    throw new Error("standings fixture is missing");
+  }
+  const odds = {
+    byeOdds: 0,
+    clinchedBye: false,
+    clinchedDivision: false,
+    clinchedPlayoff: false,
+    eliminated: false,
+    lastPlaceOdds: 0,
+  };
+
+  render(
+    <LeagueHomeView
+      data={{
+        ...data,
+        standings: [
+          {
+            ...first,
+            odds: {
+              ...odds,
+              clinchedPlayoff: true,
+              delta: {
+                byeOdds: 0,
+                lastPlaceOdds: 0,
+                playoffOdds: 0.124,
+                titleOdds: 0.05,
+              },
+              playoffOdds: 1,
+              titleOdds: 0.62,
+            },
+          },
+          {
+            ...second,
+            odds: {
+              ...odds,
+              delta: null,
+              eliminated: true,
+              lastPlaceOdds: 1,
+              playoffOdds: 0,
+              titleOdds: 0,
+            },
+          },
+        ],
+      }}
+    />,
+  );
+
+  fireEvent.click(screen.getByRole("tab", { name: "Standings" }));
+  expect(screen.getAllByText("Playoffs").length).toBeGreaterThan(0);
+  expect(screen.getAllByText("62.0%").length).toBeGreaterThan(0);
+  expect(screen.getAllByText("x").length).toBeGreaterThan(0);
+  expect(screen.getAllByText("e").length).toBeGreaterThan(0);
+  expect(
+    screen.getByLabelText("Playoff odds up 12.4 points this week"),
+  ).toBeDefined();
+});
+
 test("league home view renders the claimed-team activation hook", () => {
   const claimedStanding = data.standings[0];
   if (!claimedStanding) {
@@ -1,19 +1,24 @@
 import type { LucideIcon } from "lucide-react";
 import {
   Activity,
+  Archive,
   ArrowRight,
   Bot,
   CalendarDays,
   Clapperboard,
+  ClipboardList,
+  KeyRound,
   ListOrdered,
   Newspaper,
   Rss,
+  ShieldHalf,
   Trophy,
   UserPlus,
   Users,
   WalletCards,
 } from "lucide-react";
 import Link from "next/link";
+import { hasLeaguePermission } from "@/auth/permissions";
 import {
   type PublicationStory,
   PublicationStoryCard,
@@ -959,6 +964,61 @@ export function LeagueHomeView({
                   <UserPlus data-icon="inline-start" />
                   Invite
                 </Link>
+                {data.teams.some((team) => team.isClaimedByUser) ? (
+                  <Link
+                    href={`/leagues/${data.league.id}/you`}
+                    className={cn(
+                      buttonVariants({
+                        className: "w-fit",
+                        variant: "outline",
+                      }),
+                    )}
+                  >
+                    <ClipboardList data-icon="inline-start" />
+                    Your team
+                  </Link>
+                ) : null}
+                <Link
+                  href={`/leagues/${data.league.id}/keepers`}
+                  className={cn(
+                    buttonVariants({ className: "w-fit", variant: "outline" }),
+                  )}
+                >
+                  <KeyRound data-icon="inline-start" />
+                  Keepers
+                </Link>
+                <Link
+                  href={`/leagues/${data.league.id}/pools`}
+                  className={cn(
+                    buttonVariants({ className: "w-fit", variant: "outline" }),
+                  )}
+                >
+                  <ShieldHalf data-icon="inline-start" />
+                  Pools
+                </Link>
+                <Link
+                  href={`/leagues/${data.league.id}/playoffs`}
+                  className={cn(
+                    buttonVariants({ className: "w-fit", variant: "outline" }),
+                  )}
+                >
+                  <Trophy data-icon="inline-start" />
+                  Playoffs
+                </Link>
+                {hasLeaguePermission(data.userRole, "league:manage") ? (
+                  <Link
+                    href={`/leagues/${data.league.id}/archive`}
+                    className={cn(
+                      buttonVariants({
+                        className: "w-fit",
+                        variant: "outline",
+                      }),
+                    )}
+                  >
+                    <Archive data-icon="inline-start" />
+                    Archive
+                  </Link>
+                ) : null}
                 <Link
                   href={`/leagues/${data.league.id}/cast`}
                   className={cn(
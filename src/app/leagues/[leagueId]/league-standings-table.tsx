@@ -26,6 +26,49 @@ function formatGamesBack(value: number): string {
   return Number.isInteger(value) ? String(value) : value.toFixed(1);
 }
 
+function formatOdds(value: number): string {
+  if (value > 0 && value < 0.001) {
+    return "<0.1%";
+  }
+  if (value < 1 && value > 0.999) {
+    return ">99.9%";
+  }
+  return `${(value * 100).toFixed(value === 0 || value === 1 ? 0 : 1)}%`;
+}
+
+/** Standings-page shorthand: x playoff spot, y division, z bye, e eliminated. */
+function clinchMarker(row: LeagueHomeStanding): string | null {
+  if (!row.odds) {
+    return null;
+  }
+  if (row.odds.eliminated) {
+    return "e";
+  }
+  if (row.odds.clinchedBye) {
+    return "z";
+  }
+  if (row.odds.clinchedDivision) {
+    return "y";
+  }
+  return row.odds.clinchedPlayoff ? "x" : null;
+}
+
+function OddsMovement({ row }: { row: LeagueHomeStanding }) {
+  const delta = row.odds?.delta?.playoffOdds ?? 0;
+  const points = Math.abs(delta * 100);
+  if (points < 0.05) {
+    return <Edge className="mt-1" tone="neutral" value="even" />;
+  }
+  return (
+    <Edge
+      aria-label={`Playoff odds ${delta > 0 ? "up" : "down"} ${points.toFixed(1)} points this week`}
+      className="mt-1"
+      tone={delta > 0 ? "positive" : "negative"}
+      value={points.toFixed(1)}
+    />
+  );
+}
+
 function recordLabel(row: LeagueHomeStanding): string {
   return `${row.wins}-${row.losses}-${row.ties}`;
 }
@@ -65,6 +108,9 @@ function compareRows(
     case "games-back":
       result = left.gamesBack - right.gamesBack;
       break;
+    case "playoff-odds":
+      result = (right.odds?.playoffOdds ?? -1) - (left.odds?.playoffOdds ?? -1);
+      break;
     default:
       result = left.rank - right.rank;
       break;
@@ -90,6 +136,9 @@ function mobileRow(row: LeagueHomeStanding): {
       { label: "PF", value: formatPoints(row.pointsFor) },
       { label: "PA", value: formatPoints(row.pointsAgainst) },
       { label: "GB", value: formatGamesBack(row.gamesBack) },
+      ...(row.odds
+        ? [{ label: "Playoffs", value: formatOdds(row.odds.playoffOdds) }]
+        : []),
     ],
     id: row.id,
     meta: row.managerNames.join(", "),
@@ -141,12 +190,13 @@ export function LeagueStandingsTable({
     .filter((row) => row.isClaimedByUser)
     .map((row) => row.id);
   const playoffLine = rows.find((row) => row.playoffLineAfter);
+  const hasOdds = rows.some((row) => row.odds !== null);
   const columns: readonly DataTableColumn<LeagueHomeStanding>[] = [
     {
       cell: (row) => (
         <div>
           <p className="metric text-muted-foreground">#{row.rank}</p>
-          <Edge className="mt-1" tone="neutral" value="even" />
+          <OddsMovement row={row} />
         </div>
       ),
       header: "#",
@@ -201,6 +251,42 @@ export function LeagueStandingsTable({
       priority: "desktop",
       sortable: true,
     },
+    ...(hasOdds
+      ? [
+          {
+            align: "right" as const,
+            cell: (row: LeagueHomeStanding) => {
+              const marker = clinchMarker(row);
+              return row.odds ? (
+                <span className="metric text-foreground">
+                  {formatOdds(row.odds.playoffOdds)}
+                  {marker ? (
+                    <span className="ml-1 text-xs text-muted-foreground">
+                      {marker}
+                    </span>
+                  ) : null}
+                </span>
+              ) : (
+                <SignedValue tone="muted">-</SignedValue>
+              );
+            },
+            header: "Playoffs",
+            id: "playoff-odds",
+            sortable: true,
+          },
+          {
+            align: "right" as const,
+            cell: (row: LeagueHomeStanding) => (
+              <SignedValue tone="muted">
+                {row.odds ? formatOdds(row.odds.titleOdds) : "-"}
+              </SignedValue>
+            ),
+            header: "Title",
+            id: "title-odds",
+            priority: "desktop" as const,
+          },
+        ]
+      : []),
   ];
 
   if (rows.length === 0) {
@@ -247,6 +333,12 @@ export function LeagueStandingsTable({
           Playoff line after rank {playoffLine.rank}
         </p>
       ) : null}
+      {hasOdds ? (
+        <p className="text-center text-xs text-muted-foreground">
+          Simulated odds. x clinched playoffs · y clinched division · z clinched
+          bye · e eliminated
+        </p>
+      ) : null}
     </div>
   );
 }
@@ -35,7 +35,7 @@ export default async function LeagueEditLedgerPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
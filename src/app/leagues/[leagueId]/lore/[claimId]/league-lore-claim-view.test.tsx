@@ -6,12 +6,13 @@ import {
   waitFor,
 } from "@testing-library/react";
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { postJson } from "@/app/onboarding/client-http";
+import { postJson, requestJson } from "@/app/onboarding/client-http";
 import type { LoreClaimDetailData } from "@/lore/member-ui";
 import { LeagueLoreClaimView } from "./league-lore-claim-view";
 
 const mocks = vi.hoisted(() => ({
   postJson: vi.fn(),
+  requestJson: vi.fn(),
 }));
 
 vi.mock("@/app/onboarding/client-http", async (importOriginal) => {
@@ -20,6 +21,7 @@ vi.mock("@/app/onboarding/client-http", async (importOriginal) => {
   return {
     ...actual,
     postJson: mocks.postJson,
+    requestJson: mocks.requestJson,
   };
 });
 
@@ -65,6 +67,8 @@ const data: LoreClaimDetailData = {
       voteOpensAt: "2026-06-15T12:00:00.000Z",
     },
   },
+  evidence: [],
+  evidenceApiUrl: `/api/leagues/${leagueId}/lore/claims/${claimId}/evidence`,
   isSteward: true,
   league: {
     id: leagueId,
@@ -85,7 +89,7 @@ afterEach(() => {
 
 describe("LeagueLoreClaimView", () => {
   it("casts a vote and updates the tally", async () => {
-    mocks.postJson.mockResolvedValue({
+    mocks.requestJson.mockResolvedValue({
       affirmNeeded: 0,
       claimId,
       currentChoice: "affirm",
@@ -109,10 +113,14 @@ describe("LeagueLoreClaimView", () => {
 
     fireEvent.click(screen.getByRole("radio", { name: /affirm/i }));
 
-    await waitFor(() => expect(postJson).toHaveBeenCalledTimes(1));
-    expect(postJson).toHaveBeenCalledWith(data.voteApiUrl, {
-      choice: "affirm",
-    });
+    await waitFor(() => expect(requestJson).toHaveBeenCalledTimes(1));
+    expect(requestJson).toHaveBeenCalledWith(
+      data.voteApiUrl,
+      expect.objectContaining({
+        body: JSON.stringify({ choice: "affirm" }),
+        method: "POST",
+      }),
+    );
     expect(await screen.findByText("Vote recorded: affirm.")).toBeDefined();
     expect(screen.getByText("Your vote")).toBeDefined();
     expect(screen.getAllByText("4").length).toBeGreaterThan(0);
@@ -333,4 +341,63 @@ describe("LeagueLoreClaimView", () => {
     expect(branchType.textContent).not.toContain("Challenge");
     expect(branchType.textContent).not.toContain("Re-litigation");
   });
+
+  it("attaches screenshot evidence and lists what comes back", async () => {
+    mocks.postJson.mockResolvedValue({
+      claimId,
+      evidence: [
+        {
+          attachedAt: "2026-06-16T12:00:00.000Z",
+          attachedByName: "Fixture Manager",
+          href: "https://example.test/final-score.png",
+          id: "00000000-0000-4000-8000-000000000009",
+          kind: "screenshot",
+          label: "Screenshot",
+          note: "Final score from the app",
+        },
+      ],
+    });
+
+    render(<LeagueLoreClaimView data={data} />);
+
+    fireEvent.click(screen.getByRole("radio", { name: "Screenshot" }));
+    fireEvent.change(screen.getByLabelText("Screenshot link"), {
+      target: { value: "https://example.test/final-score.png" },
+    });
+    fireEvent.change(screen.getByLabelText("Note"), {
+      target: { value: "Final score from the app" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: /attach evidence/i }));
+
+    await waitFor(() =>
+      expect(postJson).toHaveBeenCalledWith(data.evidenceApiUrl, {
+        kind: "screenshot",
+        note: "Final score from the app",
+        url: "https://example.test/final-score.png",
+      }),
+    );
+    expect(await screen.findByText("Final score from the app")).toBeDefined();
+  });
+
+  it("labels claims that corrected data disputed", () => {
+    render(
+      <LeagueLoreClaimView
+        data={{
+          ...data,
+          claim: {
+            ...data.claim,
+            kind: "data_verifiable",
+            status: "disputed",
+            verification: "refuted",
+            vote: null,
+          },
+        }}
+      />,
+    );
+
+    expect(
+      screen.getByText("Disputed · corrected data disagrees"),
+    ).toBeDefined();
+    expect(screen.getByRole("button", { name: /veto canon/i })).toBeDefined();
+  });
 });
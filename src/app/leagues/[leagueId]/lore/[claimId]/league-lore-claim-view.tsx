@@ -6,6 +6,7 @@ import {
   FilePlus2,
   GitBranch,
   Landmark,
+  Paperclip,
   ShieldCheck,
   X,
 } from "lucide-react";
@@ -31,12 +32,18 @@ import { Segmented } from "@/components/ui/segmented";
 import { StatusPill } from "@/components/ui/status-pill";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
-import type { LoreClaimRelation, StewardLoreAction } from "@/lore";
+import type {
+  LoreClaimRelation,
+  LoreEvidenceKind,
+  StewardLoreAction,
+} from "@/lore";
 import type {
   LoreClaimAuthorSummary,
   LoreClaimCard,
   LoreClaimDetailData,
   LoreClaimSubmitResponse,
+  LoreEvidenceAttachResponse,
+  LoreEvidenceSummary,
   LoreStewardActionResponse,
 } from "@/lore/member-ui";
 
@@ -67,7 +74,9 @@ function statusLabel(claim: LoreClaimCard): string {
       }
       return "Canon";
     case "disputed":
-      return "Canon under challenge";
+      return claim.verification === "refuted"
+        ? "Disputed · corrected data disagrees"
+        : "Canon under challenge";
     case "pending":
       return "Pending";
     case "rejected":
@@ -386,7 +395,7 @@ function StewardControls({
   const [reason, setReason] = useState("");
   const [busyAction, setBusyAction] = useState<StewardLoreAction | null>(null);
   const actions: Array<{ action: StewardLoreAction; label: string }> =
-    claim.status === "canon"
+    claim.status === "canon" || claim.status === "disputed"
       ? [{ action: "veto", label: "Veto canon" }]
       : claim.status === "vote"
         ? [
@@ -597,6 +606,173 @@ function BranchControls({
   );
 }
 
+const EVIDENCE_KIND_OPTIONS: Array<{
+  kind: LoreEvidenceKind;
+  label: string;
+}> = [
+  { kind: "matchup", label: "Matchup" },
+  { kind: "record", label: "Record" },
+  { kind: "screenshot", label: "Screenshot" },
+];
+
+function evidenceRefLabel(kind: LoreEvidenceKind): string {
+  switch (kind) {
+    case "matchup":
+      return "Matchup id";
+    case "record":
+      return "Record id";
+    case "screenshot":
+      return "Screenshot link";
+  }
+}
+
+function evidencePayload(kind: LoreEvidenceKind, ref: string, note: string) {
+  const trimmedNote = note.trim();
+  const extra = trimmedNote ? { note: trimmedNote } : {};
+  switch (kind) {
+    case "matchup":
+      return { kind, matchupId: ref, ...extra };
+    case "record":
+      return { allTimeRecordId: ref, kind, ...extra };
+    case "screenshot":
+      return { kind, url: ref, ...extra };
+  }
+}
+
+function EvidencePanel({
+  evidence,
+  evidenceApiUrl,
+}: {
+  evidence: readonly LoreEvidenceSummary[];
+  evidenceApiUrl: string;
+}) {
+  const [items, setItems] = useState(evidence);
+  const [kind, setKind] = useState<LoreEvidenceKind>("matchup");
+  const [ref, setRef] = useState("");
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function attach(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (busy || !ref.trim()) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await postJson<LoreEvidenceAttachResponse>(
+        evidenceApiUrl,
+        evidencePayload(kind, ref.trim(), note),
+      );
+      setItems(result.evidence);
+      setRef("");
+      setNote("");
+    } catch (cause) {
+      setError(onboardingPanelError(cause).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section className="panel grid gap-4 p-4">
+      <div>
+        <p className="flex items-center gap-2 font-display text-sm font-medium text-foreground">
+          <Paperclip className="size-4 text-primary" aria-hidden="true" />
+          Evidence
+        </p>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Back the claim up with a matchup, a record, or a screenshot.
+        </p>
+      </div>
+      {items.length > 0 ? (
+        <ul aria-label="Lore claim evidence" className="grid gap-2">
+          {items.map((item) => (
+            <li key={item.id} className="grid gap-1 text-sm">
+              {item.href ? (
+                <a
+                  className="font-medium text-primary underline-offset-4 hover:underline"
+                  href={item.href}
+                  rel="noreferrer"
+                  target={item.kind === "screenshot" ? "_blank" : undefined}
+                >
+                  {item.label}
+                </a>
+              ) : (
+                <span className="font-medium">{item.label}</span>
+              )}
+              {item.note ? (
+                <span className="text-muted-foreground">{item.note}</span>
+              ) : null}
+              <span className="text-xs text-muted-foreground">
+                {item.attachedByName} · {formatDateTime(item.attachedAt)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <form className="grid gap-3" onSubmit={attach}>
+        <Field controlId="evidence-kind" label="Evidence type">
+          <Segmented
+            aria-label="Evidence type"
+            onValueChange={(nextValue) => {
+              setKind(nextValue as LoreEvidenceKind);
+              setRef("");
+            }}
+            options={EVIDENCE_KIND_OPTIONS.map((option) => ({
+              label: option.label,
+              value: option.kind,
+            }))}
+            value={kind}
+          />
+        </Field>
+        <Field controlId="evidence-ref" label={evidenceRefLabel(kind)}>
+          {({ controlProps }) => (
+            <Input
+              {...controlProps}
+              inputMode={kind === "screenshot" ? "url" : undefined}
+              onChange={(event) => setRef(event.currentTarget.value)}
+              required
+              value={ref}
+            />
+          )}
+        </Field>
+        <Field controlId="evidence-note" label="Note">
+          {({ controlProps }) => (
+            <Input
+              {...controlProps}
+              maxLength={280}
+              onChange={(event) => setNote(event.currentTarget.value)}
+              value={note}
+            />
+          )}
+        </Field>
+        {error ? (
+          <Alert
+            role="alert"
+            title="Evidence could not be attached"
+            tone="danger"
+          >
+            <p>{error}</p>
+          </Alert>
+        ) : null}
+        <Button
+          className="w-fit"
+          disabled={busy || !ref.trim()}
+          loading={busy}
+          type="submit"
+          variant="secondary"
+        >
+          <Paperclip data-icon="inline-start" />
+          Attach evidence
+        </Button>
+      </form>
+    </section>
+  );
+}
+
 export function LeagueLoreClaimView({ data }: { data: LoreClaimDetailData }) {
   const loreHref = `/leagues/${encodeURIComponent(data.league.id)}/lore`;
   const [claim, setClaim] = useState(data.claim);
@@ -786,6 +962,11 @@ export function LeagueLoreClaimView({ data }: { data: LoreClaimDetailData }) {
         </section>
       ) : null}
 
+      <EvidencePanel
+        evidence={data.evidence}
+        evidenceApiUrl={data.evidenceApiUrl}
+      />
+
       <BranchControls
         claim={claim}
         onSubmitted={branchSubmitted}
@@ -36,7 +36,7 @@ export default async function LeagueLoreClaimPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
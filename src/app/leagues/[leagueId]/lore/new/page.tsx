@@ -36,7 +36,7 @@ export default async function LeagueLoreNewPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "member",
+    permission: "league:participate",
   });
 
   if (!access.ok) {
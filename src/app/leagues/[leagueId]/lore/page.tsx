@@ -41,7 +41,7 @@ export default async function LeagueLorePage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
@@ -35,7 +35,7 @@ export default async function LoreStewardReviewPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "data_steward",
+    permission: "lore:steward",
   });
 
   if (!access.ok) {
@@ -3,6 +3,7 @@ import { headers } from "next/headers";
 import { notFound } from "next/navigation";
 import { requireLeagueRole } from "@/auth/guards";
 import { getDb } from "@/db";
+import { getLeagueRolesData } from "@/members/league-roles";
 import { getLeagueRoastConsentData } from "@/members/roast-consent";
 import { markLeagueOpened } from "@/navigation/league-switcher-data";
 import { getLeagueInviteDependencies } from "@/onboarding/deps";
@@ -38,7 +39,7 @@ export default async function LeagueMembersPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "member",
+    permission: "league:participate",
   });
 
   if (!access.ok) {
@@ -103,9 +104,15 @@ export default async function LeagueMembersPage({
     userRole: access.value.role,
   });
 
+  const leagueRoles = await getLeagueRolesData(db, {
+    leagueId,
+    userId: access.value.userId,
+  });
+
   return (
     <LeagueInviteView
       initialSummary={result.value}
+      leagueRoles={leagueRoles}
       roastConsent={roastConsent}
       stewardDoorway={stewardDoorway.value}
     />
@@ -1,5 +1,6 @@
 import { and, asc, desc, eq, inArray } from "drizzle-orm";
 import type { LeagueRole } from "@/auth/guards";
+import { hasLeaguePermission } from "@/auth/permissions";
 import type { Db } from "@/db/client";
 import { withLeagueContext } from "@/db/rls";
 import {
@@ -66,13 +67,7 @@ export interface DataCurationSummary {
 }
 
 function canEditData(role: LeagueRole): boolean {
-  switch (role) {
-    case "commissioner":
-    case "data_steward":
-      return true;
-    case "member":
-      return false;
-  }
+  return hasLeaguePermission(role, "leagueData:manage");
 }
 
 function teamLookupKey(season: number, providerTeamId: string): string {
@@ -232,7 +227,10 @@ export async function loadDataCurationSummary(
   input: { leagueId: string; userRole: LeagueRole },
 ): Promise<DataCurationSummary> {
   const canEdit = canEditData(input.userRole);
-  const canConfirmGroupings = input.userRole === "commissioner";
+  const canConfirmGroupings = hasLeaguePermission(
+    input.userRole,
+    "league:manage",
+  );
 
   const rows = await loadCurationRows(db, input.leagueId);
   const groupings = canConfirmGroupings
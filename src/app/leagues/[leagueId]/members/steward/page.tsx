@@ -3,6 +3,7 @@ import type { Metadata } from "next";
 import { headers } from "next/headers";
 import { notFound } from "next/navigation";
 import { requireLeagueRole } from "@/auth/guards";
+import { hasLeaguePermission } from "@/auth/permissions";
 import { getDb } from "@/db";
 import { leagues } from "@/db/schema";
 import { markLeagueOpened } from "@/navigation/league-switcher-data";
@@ -41,7 +42,7 @@ export default async function DataStewardReviewPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
@@ -93,14 +94,13 @@ export default async function DataStewardReviewPage({
     );
   }
 
-  const review =
-    access.value.role === "member"
-      ? {
-          integrityChecks: [],
-          payloadDriftAlerts: [],
-          suggestedIdentityLinks: [],
-        }
-      : await listDataStewardReview(db, { leagueId });
+  const review = !hasLeaguePermission(access.value.role, "leagueData:review")
+    ? {
+        integrityChecks: [],
+        payloadDriftAlerts: [],
+        suggestedIdentityLinks: [],
+      }
+    : await listDataStewardReview(db, { leagueId });
   if ("ok" in review && !review.ok) {
     return (
       <LeagueSectionAccessState
@@ -6,6 +6,7 @@ import { getEnv } from "@/core/env";
 import { getDb } from "@/db";
 import { resolveEntitlement } from "@/entitlements";
 import { getLeagueHomeData } from "@/home/league-home";
+import { PWA_PRECACHE_HEADER } from "@/lib/pwa";
 import { markLeagueOpened } from "@/navigation/league-switcher-data";
 import { getLeagueRouteShareMetadata } from "@/news";
 import { leagueHomeMetadata } from "@/share/route-metadata";
@@ -43,11 +44,12 @@ export default async function LeagueHomePage({
   const { leagueId } = await params;
   const query = await searchParams;
   const db = getDb();
+  const requestHeaders = await headers();
   const access = await requireLeagueRole({
     db,
-    headers: await headers(),
+    headers: requestHeaders,
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
@@ -65,7 +67,9 @@ export default async function LeagueHomePage({
     );
   }
 
-  await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+  if (!requestHeaders.has(PWA_PRECACHE_HEADER)) {
+    await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+  }
 
   const result = await getLeagueHomeData(db, {
     leagueId,
@@ -0,0 +1,75 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { requireLeagueRole } from "@/auth/guards";
+import { getLeaguePlayoffsData } from "@/betting/league-playoffs";
+import { getDb } from "@/db";
+import { markLeagueOpened } from "@/navigation/league-switcher-data";
+import {
+  type LeagueDeepLinkSearchParams,
+  redirectToLeagueDeepLinkOnboarding,
+} from "../league-deep-link-routing";
+import { LeagueSectionAccessState } from "../league-section-access-state";
+import { PlayoffsEmptyView, PlayoffsView } from "./playoffs-view";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Playoffs | Rumbledore",
+  description: "The league's live playoff bracket and bracket challenge.",
+};
+
+interface LeaguePlayoffsPageProps {
+  params: Promise<{ leagueId: string }>;
+  searchParams?: Promise<LeagueDeepLinkSearchParams>;
+}
+
+export default async function LeaguePlayoffsPage({
+  params,
+  searchParams,
+}: LeaguePlayoffsPageProps) {
+  const { leagueId } = await params;
+  const query = await searchParams;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: await headers(),
+    leagueId,
+    permission: "league:view",
+  });
+
+  if (!access.ok) {
+    if (access.error.code === "INVALID_LEAGUE_ID") {
+      notFound();
+    }
+    if (access.error.status === 401) {
+      redirectToLeagueDeepLinkOnboarding({
+        leagueId,
+        searchParams: query,
+        segments: ["playoffs"],
+      });
+    }
+    return (
+      <LeagueSectionAccessState
+        title="No league access"
+        body="This account is not a member of that league."
+      />
+    );
+  }
+
+  await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+
+  const data = await getLeaguePlayoffsData(db, {
+    leagueId,
+    userId: access.value.userId,
+  });
+  if (!data) {
+    notFound();
+  }
+
+  return data.status === "ready" ? (
+    <PlayoffsView data={data} />
+  ) : (
+    <PlayoffsEmptyView league={data.league} season={data.season} />
+  );
+}
@@ -0,0 +1,196 @@
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within,
+} from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { postJson } from "@/app/onboarding/client-http";
+import type { BracketChallengeData } from "@/betting/bracket-challenge";
+import {
+  buildPlayoffBracket,
+  type PlayoffBracketMatchupInput,
+} from "@/stats/playoff-bracket";
+import { PlayoffsEmptyView, PlayoffsView } from "./playoffs-view";
+
+const mocks = vi.hoisted(() => ({
+  postJson: vi.fn(),
+  refresh: vi.fn(),
+}));
+
+vi.mock("@/app/onboarding/client-http", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("@/app/onboarding/client-http")>();
+  return {
+    ...actual,
+    postJson: mocks.postJson,
+  };
+});
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ refresh: mocks.refresh }),
+}));
+
+vi.mock("@/realtime/client", () => ({
+  LeagueRealtimeRefresh: () => null,
+}));
+
+afterEach(() => {
+  cleanup();
+  mocks.postJson.mockReset();
+  mocks.refresh.mockClear();
+});
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+
+function bracket(matchups: PlayoffBracketMatchupInput[] = []) {
+  return {
+    ...buildPlayoffBracket({
+      matchups,
+      regularSeasonComplete: true,
+      rules: {
+        divisionWinnersSeeded: false,
+        playoffMatchupPeriodLength: 1,
+        playoffStartScoringPeriod: 15,
+        playoffTeamCount: 4,
+      },
+      teams: ["Aces", "Bruisers", "Comets", "Dynamo"].map((name, index) => ({
+        division: null,
+        losses: index,
+        name,
+        pointsFor: 1_500 - index * 10,
+        providerTeamId: `t${index + 1}`,
+        ties: 0,
+        wins: 10 - index,
+      })),
+    }),
+    season: 2026,
+  };
+}
+
+function challenge(
+  overrides: Partial<BracketChallengeData> = {},
+): BracketChallengeData {
+  return {
+    open: true,
+    standings: [],
+    you: {
+      picks: [],
+      score: {
+        accuracy: 0,
+        correctPicks: 0,
+        livePicks: 0,
+        maxAccuracy: 0,
+        potentialPicks: 3,
+        submittedPicks: 0,
+      },
+    },
+    ...overrides,
+  };
+}
+
+const league = { id: leagueId, name: "Rumble League" };
+
+describe("PlayoffsView", () => {
+  it("builds a bracket from the member's own winners and saves it whole", async () => {
+    mocks.postJson.mockResolvedValue({ savedPicks: 3, season: 2026 });
+    render(
+      <PlayoffsView
+        data={{
+          bracket: bracket(),
+          challenge: challenge(),
+          league,
+          status: "ready",
+        }}
+      />,
+    );
+
+    const panel = screen.getByRole("region", { name: "Bracket challenge" });
+    const final = within(panel).getByRole("listitem", {
+      name: "Championship game 1",
+    });
+    expect(within(final).queryAllByRole("button")).toHaveLength(0);
+
+    fireEvent.click(within(panel).getByRole("button", { name: "Dynamo" }));
+    fireEvent.click(within(panel).getByRole("button", { name: "Bruisers" }));
+    fireEvent.click(within(final).getByRole("button", { name: "Dynamo" }));
+    // Changing the semifinal strands the final pick, so it is dropped.
+    fireEvent.click(within(panel).getByRole("button", { name: "Aces" }));
+    fireEvent.click(within(final).getByRole("button", { name: "Bruisers" }));
+    fireEvent.click(screen.getByRole("button", { name: /save bracket/i }));
+
+    await waitFor(() => expect(mocks.refresh).toHaveBeenCalled());
+    expect(postJson).toHaveBeenCalledWith(
+      `/api/leagues/${leagueId}/playoffs/bracket-challenge`,
+      {
+        picks: [
+          { gameId: "winners-1-0", providerTeamId: "t1" },
+          { gameId: "winners-1-1", providerTeamId: "t2" },
+          { gameId: "winners-2-0", providerTeamId: "t2" },
+        ],
+      },
+    );
+  });
+
+  it("shows live scores and locks the challenge once games start", () => {
+    render(
+      <PlayoffsView
+        data={{
+          bracket: bracket([
+            {
+              awayScore: 88.4,
+              awayTeamProviderId: "t4",
+              homeScore: 91.2,
+              homeTeamProviderId: "t1",
+              scoringPeriod: 15,
+              scoringPeriodSpan: 1,
+              status: "in_progress",
+              winner: "unknown",
+            },
+          ]),
+          challenge: challenge({
+            open: false,
+            standings: [
+              {
+                accuracy: 0,
+                correctPicks: 0,
+                displayName: "Sam",
+                livePicks: 3,
+                maxAccuracy: 1,
+                potentialPicks: 3,
+                rank: 1,
+                submittedPicks: 3,
+                userId: "user-1",
+              },
+            ],
+          }),
+          league,
+          status: "ready",
+        }}
+      />,
+    );
+
+    expect(screen.getByText("Playoffs under way")).toBeDefined();
+    const game = screen.getByRole("listitem", { name: "Aces against Dynamo" });
+    expect(within(game).getByText("91.2")).toBeDefined();
+    expect(within(game).getByText("Live")).toBeDefined();
+    expect(screen.getByText("Locked")).toBeDefined();
+    expect(screen.queryByRole("button", { name: /save bracket/i })).toBeNull();
+    expect(
+      within(
+        screen.getByRole("table", { name: "Bracket challenge standings" }),
+      ).getByText("Sam"),
+    ).toBeDefined();
+  });
+
+  it("explains a league without a playoff schedule", () => {
+    render(<PlayoffsEmptyView league={league} season={2026} />);
+
+    expect(screen.getByText("No playoff schedule yet")).toBeDefined();
+    expect(
+      screen.getByRole("link", { name: "League home" }).getAttribute("href"),
+    ).toBe(`/leagues/${leagueId}`);
+  });
+});
@@ -0,0 +1,540 @@
+"use client";
+
+import { ArrowLeft, Save, Trophy } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { type ReactNode, useState } from "react";
+import { onboardingPanelError, postJson } from "@/app/onboarding/client-http";
+import type {
+  BracketChallengeData,
+  BracketChallengeStandingRow,
+} from "@/betting/bracket-challenge";
+import type { LeaguePlayoffsData } from "@/betting/league-playoffs";
+import { Banner } from "@/components/ui/banner";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { EmptyState } from "@/components/ui/empty-state";
+import { StatusPill } from "@/components/ui/status-pill";
+import { DataTable, type DataTableColumn } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { LeagueRealtimeRefresh } from "@/realtime/client";
+import type {
+  PlayoffBracketEntrant,
+  PlayoffBracketGame,
+  PlayoffBracketStatus,
+  PlayoffBracketView,
+  PlayoffSeed,
+} from "@/stats";
+
+type ReadyData = Extract<LeaguePlayoffsData, { status: "ready" }>;
+
+const STATUS_PILLS: Record<
+  PlayoffBracketStatus,
+  { label: string; tone: "info" | "live" | "neutral" | "success" }
+> = {
+  complete: { label: "Playoffs complete", tone: "success" },
+  in_progress: { label: "Playoffs under way", tone: "live" },
+  projected: { label: "Projected from the standings", tone: "neutral" },
+  seeded: { label: "Seeds set", tone: "info" },
+};
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? "–" : value.toFixed(1);
+}
+
+function weeksLabel(start: number, end: number): string {
+  return start === end ? `Week ${start}` : `Weeks ${start}–${end}`;
+}
+
+function winnersGames(bracket: PlayoffBracketView): PlayoffBracketGame[] {
+  return (
+    bracket.sections
+      .find((section) => section.kind === "winners")
+      ?.rounds.flatMap((round) => round.games) ?? []
+  );
+}
+
+/**
+ * The teams a draft could send into a game: the two first-round entrants,
+ * or whoever the draft (or a bye) moves on from the two games that feed it.
+ */
+function draftOptions(
+  game: PlayoffBracketGame,
+  byPosition: ReadonlyMap<string, PlayoffBracketGame>,
+  draft: ReadonlyMap<string, string>,
+): (string | null)[] {
+  if (game.round === 1) {
+    return [
+      game.top?.providerTeamId ?? null,
+      game.bottom?.providerTeamId ?? null,
+    ];
+  }
+  return [game.slot * 2, game.slot * 2 + 1].map((slot) => {
+    const feeder = byPosition.get(`${game.round - 1}:${slot}`);
+    if (!feeder) {
+      return null;
+    }
+    return feeder.status === "bye"
+      ? feeder.winnerProviderTeamId
+      : (draft.get(feeder.id) ?? null);
+  });
+}
+
+/** Drops later picks a changed earlier pick has stranded. */
+function pruneDraft(
+  games: readonly PlayoffBracketGame[],
+  draft: ReadonlyMap<string, string>,
+): Map<string, string> {
+  const byPosition = new Map(
+    games.map((game) => [`${game.round}:${game.slot}`, game]),
+  );
+  const next = new Map<string, string>();
+  for (const game of [...games].sort(
+    (left, right) => left.round - right.round,
+  )) {
+    const picked = draft.get(game.id);
+    if (
+      picked !== undefined &&
+      draftOptions(game, byPosition, next).includes(picked)
+    ) {
+      next.set(game.id, picked);
+    }
+  }
+  return next;
+}
+
+function EntrantRow({
+  entrant,
+  winner,
+}: {
+  entrant: PlayoffBracketEntrant | null;
+  winner: boolean;
+}) {
+  if (!entrant) {
+    return <span className="text-sm text-muted-foreground">To be decided</span>;
+  }
+  return (
+    <span
+      className={cn(
+        "flex items-center justify-between gap-2 text-sm",
+        winner ? "font-semibold" : null,
+      )}
+    >
+      <span className="truncate">
+        <span className="metric mr-1 text-muted-foreground">
+          {entrant.seed}
+        </span>
+        {entrant.name}
+      </span>
+      <span className="metric">{formatScore(entrant.score)}</span>
+    </span>
+  );
+}
+
+function GameCell({ game }: { game: PlayoffBracketGame }) {
+  const label =
+    game.status === "bye"
+      ? `${game.top?.name ?? "Top seed"} has a bye`
+      : `${game.top?.name ?? "To be decided"} against ${game.bottom?.name ?? "to be decided"}`;
+  return (
+    <li aria-label={label} className="cell grid gap-1 p-3">
+      <EntrantRow
+        entrant={game.top}
+        winner={
+          game.top !== null &&
+          game.winnerProviderTeamId === game.top.providerTeamId &&
+          game.status === "final"
+        }
+      />
+      {game.status === "bye" ? (
+        <span className="text-xs text-muted-foreground">Bye</span>
+      ) : (
+        <EntrantRow
+          entrant={game.bottom}
+          winner={
+            game.bottom !== null &&
+            game.winnerProviderTeamId === game.bottom.providerTeamId &&
+            game.status === "final"
+          }
+        />
+      )}
+      {game.status === "live" ? (
+        <StatusPill tone="live">Live</StatusPill>
+      ) : null}
+    </li>
+  );
+}
+
+function BracketSections({ bracket }: { bracket: PlayoffBracketView }) {
+  return (
+    <>
+      {bracket.sections.map((section) => (
+        <section
+          aria-label={section.name}
+          className="panel grid gap-4 p-4"
+          key={section.kind}
+        >
+          <h2 className="heading-auspex text-lg leading-tight">
+            {section.name}
+          </h2>
+          <div className="grid gap-4 sm:grid-flow-col sm:auto-cols-fr">
+            {section.rounds.map((round) => (
+              <div className="grid content-start gap-2" key={round.round}>
+                <p className="eyebrow text-primary">
+                  {round.name} ·{" "}
+                  {weeksLabel(round.scoringPeriodStart, round.scoringPeriodEnd)}
+                </p>
+                <ul className="grid gap-2">
+                  {round.games.map((game) => (
+                    <GameCell game={game} key={game.id} />
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+    </>
+  );
+}
+
+function SeedsTable({ seeds }: { seeds: readonly PlayoffSeed[] }) {
+  const columns: readonly DataTableColumn<PlayoffSeed>[] = [
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{row.seed}</span>,
+      header: "Seed",
+      id: "seed",
+    },
+    { cell: (row) => row.name, header: "Team", id: "team" },
+    {
+      cell: (row) =>
+        row.ties > 0
+          ? `${row.wins}-${row.losses}-${row.ties}`
+          : `${row.wins}-${row.losses}`,
+      header: "Record",
+      id: "record",
+    },
+    {
+      cell: (row) =>
+        row.bye ? (
+          <StatusPill tone="success">Bye</StatusPill>
+        ) : row.inPlayoffs ? (
+          <StatusPill tone="info">Playoffs</StatusPill>
+        ) : (
+          <StatusPill tone="neutral">Out</StatusPill>
+        ),
+      header: "Status",
+      id: "status",
+    },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{row.pointsFor.toFixed(1)}</span>,
+      header: "Points for",
+      id: "points",
+      priority: "desktop",
+    },
+  ];
+  return (
+    <section aria-label="Seeds" className="panel grid gap-4 p-4">
+      <h2 className="heading-auspex text-lg leading-tight">Seeds</h2>
+      <DataTable
+        ariaLabel="Playoff seeds"
+        columns={columns}
+        empty="No teams yet."
+        getRowId={(row) => row.providerTeamId}
+        getRowName={(row) => row.name}
+        rows={seeds}
+      />
+    </section>
+  );
+}
+
+function BracketChallengePanel({
+  bracket,
+  challenge,
+  leagueId,
+}: {
+  bracket: PlayoffBracketView;
+  challenge: BracketChallengeData;
+  leagueId: string;
+}) {
+  const router = useRouter();
+  const [draft, setDraft] = useState<Map<string, string>>(
+    () =>
+      new Map(
+        challenge.you.picks.map((pick) => [pick.gameId, pick.providerTeamId]),
+      ),
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const games = winnersGames(bracket);
+  const byPosition = new Map(
+    games.map((game) => [`${game.round}:${game.slot}`, game]),
+  );
+  const names = new Map(
+    bracket.seeds.map((seed) => [seed.providerTeamId, seed.name]),
+  );
+  const rounds =
+    bracket.sections.find((section) => section.kind === "winners")?.rounds ??
+    [];
+  const { score } = challenge.you;
+
+  function pick(gameId: string, providerTeamId: string) {
+    setDraft((current) =>
+      pruneDraft(games, new Map(current).set(gameId, providerTeamId)),
+    );
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+    try {
+      await postJson(`/api/leagues/${leagueId}/playoffs/bracket-challenge`, {
+        picks: [...draft].map(([gameId, providerTeamId]) => ({
+          gameId,
+          providerTeamId,
+        })),
+      });
+      router.refresh();
+    } catch (cause) {
+      setError(onboardingPanelError(cause).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const columns: readonly DataTableColumn<BracketChallengeStandingRow>[] = [
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{row.rank}</span>,
+      header: "Rank",
+      id: "rank",
+    },
+    { cell: (row) => row.displayName, header: "Member", id: "member" },
+    {
+      align: "right",
+      cell: (row) => (
+        <span className="metric">
+          {row.correctPicks}/{row.potentialPicks}
+        </span>
+      ),
+      header: "Correct",
+      id: "correct",
+    },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{percent(row.accuracy)}</span>,
+      header: "Accuracy",
+      id: "accuracy",
+    },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{percent(row.maxAccuracy)}</span>,
+      header: "Best possible",
+      id: "max",
+      priority: "desktop",
+    },
+  ];
+
+  return (
+    <section aria-label="Bracket challenge" className="panel grid gap-4 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Trophy aria-hidden="true" className="size-4 text-primary" />
+        <h2 className="heading-auspex text-lg leading-tight">
+          Bracket challenge
+        </h2>
+        {challenge.open ? (
+          <StatusPill tone="info">Open until the first game</StatusPill>
+        ) : bracket.status === "projected" ? (
+          <StatusPill tone="neutral">Opens when the seeds are set</StatusPill>
+        ) : (
+          <StatusPill tone="neutral">Locked</StatusPill>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Pick the winner of every championship bracket game. Accuracy counts
+        every game, so a game left unpicked counts as a miss.
+      </p>
+      {score.submittedPicks > 0 ? (
+        <p className="text-sm">
+          Your bracket: {score.correctPicks} of {score.potentialPicks} right,{" "}
+          {score.livePicks} still alive.
+        </p>
+      ) : null}
+      {error ? (
+        <Banner title="Bracket not saved" tone="danger">
+          {error}
+        </Banner>
+      ) : null}
+      {challenge.open ? (
+        <>
+          <div className="grid gap-4 sm:grid-flow-col sm:auto-cols-fr">
+            {rounds.map((round) => (
+              <div className="grid content-start gap-2" key={round.round}>
+                <p className="eyebrow text-primary">{round.name}</p>
+                <ul className="grid gap-2">
+                  {round.games
+                    .filter((game) => game.status !== "bye")
+                    .map((game) => (
+                      <li
+                        aria-label={`${round.name} game ${game.slot + 1}`}
+                        className="cell flex flex-wrap gap-2 p-3"
+                        key={game.id}
+                      >
+                        {draftOptions(game, byPosition, draft).map(
+                          (providerTeamId, side) =>
+                            providerTeamId ? (
+                              <Button
+                                aria-pressed={
+                                  draft.get(game.id) === providerTeamId
+                                }
+                                disabled={saving}
+                                key={providerTeamId}
+                                onClick={() => pick(game.id, providerTeamId)}
+                                size="sm"
+                                type="button"
+                                variant={
+                                  draft.get(game.id) === providerTeamId
+                                    ? "default"
+                                    : "outline"
+                                }
+                              >
+                                {names.get(providerTeamId) ?? providerTeamId}
+                              </Button>
+                            ) : (
+                              <span
+                                className="text-sm text-muted-foreground"
+                                key={side === 0 ? "top" : "bottom"}
+                              >
+                                Pick the game before
+                              </span>
+                            ),
+                        )}
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+          <Button
+            className="w-fit"
+            loading={saving}
+            loadingLabel="Saving bracket"
+            onClick={save}
+            type="button"
+          >
+            <Save data-icon="inline-start" />
+            Save bracket
+          </Button>
+        </>
+      ) : null}
+      <DataTable
+        ariaLabel="Bracket challenge standings"
+        columns={columns}
+        empty="Nobody has entered a bracket yet."
+        getRowId={(row) => row.userId}
+        getRowName={(row) => row.displayName}
+        rows={challenge.standings}
+      />
+    </section>
+  );
+}
+
+function PlayoffsShell({
+  children,
+  heading,
+  leagueId,
+}: {
+  children: ReactNode;
+  heading: ReactNode;
+  leagueId: string;
+}) {
+  return (
+    <main className="mx-auto flex min-h-dvh w-full max-w-4xl flex-col gap-6 px-4 py-5 pb-[calc(--spacing(6)+env(safe-area-inset-bottom))] sm:px-6">
+      <header className="panel grid gap-3 p-4">
+        <Link
+          href={`/leagues/${leagueId}`}
+          className={cn(
+            buttonVariants({ className: "w-fit", variant: "ghost" }),
+          )}
+        >
+          <ArrowLeft data-icon="inline-start" />
+          League home
+        </Link>
+        <p className="eyebrow text-primary">Playoffs</p>
+        {heading}
+      </header>
+      {children}
+    </main>
+  );
+}
+
+export function PlayoffsEmptyView({
+  league,
+  season,
+}: {
+  league: { id: string; name: string };
+  season: number;
+}) {
+  return (
+    <PlayoffsShell
+      heading={
+        <h1 className="heading-auspex text-xl leading-tight">
+          {season} playoffs
+        </h1>
+      }
+      leagueId={league.id}
+    >
+      <EmptyState
+        icon={<Trophy className="size-4" />}
+        title="No playoff schedule yet"
+      >
+        The bracket appears once the provider reports when the playoffs start.
+      </EmptyState>
+    </PlayoffsShell>
+  );
+}
+
+export function PlayoffsView({ data }: { data: ReadyData }) {
+  const { bracket, challenge, league } = data;
+  const pill = STATUS_PILLS[bracket.status];
+  const names = new Map(
+    bracket.seeds.map((seed) => [seed.providerTeamId, seed.name]),
+  );
+  const champion = bracket.placements.champion
+    ? names.get(bracket.placements.champion)
+    : undefined;
+
+  return (
+    <PlayoffsShell
+      heading={
+        <>
+          <h1 className="heading-auspex text-xl leading-tight">
+            {bracket.season} playoffs
+          </h1>
+          <div className="flex flex-wrap gap-2">
+            <StatusPill tone={pill.tone}>{pill.label}</StatusPill>
+            {champion ? (
+              <StatusPill tone="success">Champion: {champion}</StatusPill>
+            ) : null}
+          </div>
+        </>
+      }
+      leagueId={league.id}
+    >
+      <LeagueRealtimeRefresh channelKinds={["scores"]} leagueId={league.id} />
+      <BracketSections bracket={bracket} />
+      <BracketChallengePanel
+        bracket={bracket}
+        challenge={challenge}
+        leagueId={league.id}
+      />
+      <SeedsTable seeds={bracket.seeds} />
+    </PlayoffsShell>
+  );
+}
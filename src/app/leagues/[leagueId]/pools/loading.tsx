@@ -0,0 +1,5 @@
+import { MobileRouteSkeleton } from "@/components/pwa/mobile-route-skeleton";
+
+export default function Loading() {
+  return <MobileRouteSkeleton variant="table" />;
+}
@@ -0,0 +1,78 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { requireLeagueRole } from "@/auth/guards";
+import { hasLeaguePermission } from "@/auth/permissions";
+import { getLeagueSidePoolsData } from "@/betting/league-side-pools";
+import { getDb } from "@/db";
+import { markLeagueOpened } from "@/navigation/league-switcher-data";
+import {
+  type LeagueDeepLinkSearchParams,
+  redirectToLeagueDeepLinkOnboarding,
+} from "../league-deep-link-routing";
+import { LeagueSectionAccessState } from "../league-section-access-state";
+import { SidePoolsView } from "./side-pools-view";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Pools | Rumbledore",
+  description: "Survivor and confidence pools on the league's NFL weeks.",
+};
+
+interface LeaguePoolsPageProps {
+  params: Promise<{ leagueId: string }>;
+  searchParams?: Promise<LeagueDeepLinkSearchParams>;
+}
+
+export default async function LeaguePoolsPage({
+  params,
+  searchParams,
+}: LeaguePoolsPageProps) {
+  const { leagueId } = await params;
+  const query = await searchParams;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: await headers(),
+    leagueId,
+    permission: "league:view",
+  });
+
+  if (!access.ok) {
+    if (access.error.code === "INVALID_LEAGUE_ID") {
+      notFound();
+    }
+    if (access.error.status === 401) {
+      redirectToLeagueDeepLinkOnboarding({
+        leagueId,
+        searchParams: query,
+        segments: ["pools"],
+      });
+    }
+    return (
+      <LeagueSectionAccessState
+        title="No league access"
+        body="This account is not a member of that league."
+      />
+    );
+  }
+
+  await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+
+  const data = await getLeagueSidePoolsData(db, {
+    leagueId,
+    userId: access.value.userId,
+  });
+  if (!data) {
+    notFound();
+  }
+
+  return (
+    <SidePoolsView
+      canManage={hasLeaguePermission(access.value.role, "league:manage")}
+      data={data}
+      leagueId={leagueId}
+    />
+  );
+}
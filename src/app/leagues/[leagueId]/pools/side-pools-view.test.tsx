@@ -0,0 +1,207 @@
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { postJson } from "@/app/onboarding/client-http";
+import type {
+  ConfidencePoolData,
+  LeagueSidePoolsData,
+  SurvivorPoolData,
+} from "@/betting/league-side-pools";
+import { SidePoolsView } from "./side-pools-view";
+
+const mocks = vi.hoisted(() => ({
+  postJson: vi.fn(),
+  refresh: vi.fn(),
+}));
+
+vi.mock("@/app/onboarding/client-http", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("@/app/onboarding/client-http")>();
+  return {
+    ...actual,
+    postJson: mocks.postJson,
+  };
+});
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ refresh: mocks.refresh }),
+}));
+
+afterEach(() => {
+  cleanup();
+  mocks.postJson.mockReset();
+  mocks.refresh.mockClear();
+});
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const pickWeekId = "week-3";
+
+const games = [
+  {
+    awayTeam: "Buffalo Bills",
+    eventId: "event-1",
+    homeTeam: "Kansas City Chiefs",
+    locked: false,
+    startTime: "2026-09-20T17:00:00.000Z",
+  },
+  {
+    awayTeam: "Dallas Cowboys",
+    eventId: "event-2",
+    homeTeam: "Philadelphia Eagles",
+    locked: false,
+    startTime: "2026-09-21T00:20:00.000Z",
+  },
+];
+
+const survivor: SurvivorPoolData = {
+  mode: "survivor",
+  name: "Survivor pool",
+  poolId: "pool-s",
+  standings: [
+    {
+      alive: true,
+      displayName: "Sam",
+      eliminatedWeek: null,
+      rank: 1,
+      userId: "user-1",
+      weeksSurvived: 2,
+    },
+  ],
+  you: {
+    score: {
+      alive: true,
+      eliminatedWeek: null,
+      usedTeams: ["Buffalo Bills"],
+      weeksSurvived: 2,
+    },
+    weekPick: null,
+  },
+};
+
+const confidence: ConfidencePoolData = {
+  mode: "confidence",
+  name: "Confidence pool",
+  poolId: "pool-c",
+  standings: [],
+  you: { weekPicks: [] },
+};
+
+function pageData(
+  overrides: Partial<LeagueSidePoolsData> = {},
+): LeagueSidePoolsData {
+  return {
+    availableModes: [],
+    games,
+    pools: [survivor, confidence],
+    season: 2026,
+    week: {
+      closesAt: "2026-09-23T00:00:00.000Z",
+      opensAt: "2026-09-16T00:00:00.000Z",
+      pickWeekId,
+      week: 3,
+    },
+    ...overrides,
+  };
+}
+
+describe("SidePoolsView", () => {
+  it("picks a survivor team and keeps spent teams off the board", async () => {
+    mocks.postJson.mockResolvedValue({});
+    render(
+      <SidePoolsView canManage={false} data={pageData()} leagueId={leagueId} />,
+    );
+
+    const survivorPanel = screen.getByRole("region", { name: "Survivor pool" });
+    const bills = survivorPanel.querySelector<HTMLButtonElement>(
+      "button[aria-pressed]",
+    );
+    expect(bills?.textContent).toBe("Buffalo Bills");
+    expect(bills?.disabled).toBe(true);
+
+    fireEvent.click(
+      screen.getAllByRole("button", { name: "Kansas City Chiefs" })[0],
+    );
+
+    await waitFor(() => expect(mocks.refresh).toHaveBeenCalled());
+    expect(postJson).toHaveBeenCalledWith(
+      `/api/leagues/${leagueId}/pools/pool-s/survivor`,
+      { bettingEventId: "event-1", pickWeekId, selection: "home" },
+    );
+  });
+
+  it("submits the whole confidence ranking for the open games", async () => {
+    mocks.postJson.mockResolvedValue({ gameCount: 2, saved: 2 });
+    render(
+      <SidePoolsView canManage={false} data={pageData()} leagueId={leagueId} />,
+    );
+
+    fireEvent.change(
+      screen.getByRole("combobox", {
+        name: "Confidence for Dallas Cowboys at Philadelphia Eagles",
+      }),
+      { target: { value: "2" } },
+    );
+    fireEvent.change(
+      screen.getByRole("combobox", {
+        name: "Confidence for Buffalo Bills at Kansas City Chiefs",
+      }),
+      { target: { value: "1" } },
+    );
+    fireEvent.click(screen.getByRole("button", { name: /save ranking/i }));
+
+    await waitFor(() => expect(mocks.refresh).toHaveBeenCalled());
+    expect(postJson).toHaveBeenCalledWith(
+      `/api/leagues/${leagueId}/pools/pool-c/confidence`,
+      {
+        pickWeekId,
+        picks: [
+          { bettingEventId: "event-1", confidence: 1, selection: "home" },
+          { bettingEventId: "event-2", confidence: 2, selection: "home" },
+        ],
+      },
+    );
+  });
+
+  it("offers the commissioner the modes the season has not started", async () => {
+    mocks.postJson.mockResolvedValue({ created: true, poolId: "pool-c" });
+    render(
+      <SidePoolsView
+        canManage={true}
+        data={pageData({ availableModes: ["confidence"], pools: [survivor] })}
+        leagueId={leagueId}
+      />,
+    );
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Start confidence pool" }),
+    );
+
+    await waitFor(() => expect(mocks.refresh).toHaveBeenCalled());
+    expect(postJson).toHaveBeenCalledWith(`/api/leagues/${leagueId}/pools`, {
+      mode: "confidence",
+    });
+    expect(
+      screen.queryByRole("button", { name: "Start survivor pool" }),
+    ).toBeNull();
+  });
+
+  it("tells a member when no pool has started", () => {
+    render(
+      <SidePoolsView
+        canManage={false}
+        data={pageData({ pools: [] })}
+        leagueId={leagueId}
+      />,
+    );
+
+    expect(screen.getByText("No pools this season")).toBeDefined();
+    expect(
+      screen.getByText("The commissioner has not started a pool yet."),
+    ).toBeDefined();
+  });
+});
@@ -0,0 +1,513 @@
+"use client";
+
+import { ArrowLeft, ListOrdered, Save, ShieldHalf } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { onboardingPanelError, postJson } from "@/app/onboarding/client-http";
+import type {
+  ConfidencePoolData,
+  LeagueSidePoolsData,
+  SidePoolSlateGame,
+  SurvivorPoolData,
+} from "@/betting/league-side-pools";
+import { Banner } from "@/components/ui/banner";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Select } from "@/components/ui/select";
+import { StatusPill } from "@/components/ui/status-pill";
+import { DataTable, type DataTableColumn } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+
+type Side = "home" | "away";
+
+const MODE_LABELS = {
+  confidence: "Confidence pool",
+  survivor: "Survivor pool",
+} as const;
+
+function formatKickoff(value: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    month: "short",
+    weekday: "short",
+  }).format(new Date(value));
+}
+
+function usePoolPost() {
+  const router = useRouter();
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function post(key: string, url: string, body: unknown) {
+    setBusy(key);
+    setError(null);
+    try {
+      await postJson(url, body);
+      router.refresh();
+    } catch (cause) {
+      setError(onboardingPanelError(cause).message);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return { busy, error, post };
+}
+
+function SurvivorPoolPanel({
+  data,
+  games,
+  leagueId,
+  pickWeekId,
+  pool,
+}: {
+  data: LeagueSidePoolsData;
+  games: readonly SidePoolSlateGame[];
+  leagueId: string;
+  pickWeekId: string | null;
+  pool: SurvivorPoolData;
+}) {
+  const { busy, error, post } = usePoolPost();
+  const { score, weekPick } = pool.you;
+  const weekPickLocked = weekPick
+    ? games.some((game) => game.eventId === weekPick.eventId && game.locked)
+    : false;
+  // The week's own pick is still movable, so its team is not spent yet.
+  const spent = new Set(
+    score.usedTeams.filter((team) => team !== weekPick?.team),
+  );
+  const canPick =
+    pickWeekId !== null && score.alive && !weekPickLocked && games.length > 0;
+
+  const teamButton = (game: SidePoolSlateGame, side: Side) => {
+    const team = side === "home" ? game.homeTeam : game.awayTeam;
+    const picked = weekPick?.eventId === game.eventId && weekPick.team === team;
+    return (
+      <Button
+        aria-pressed={picked}
+        disabled={!canPick || game.locked || spent.has(team) || busy !== null}
+        key={side}
+        loading={busy === `${game.eventId}:${side}`}
+        loadingLabel={`Picking ${team}`}
+        onClick={() =>
+          post(
+            `${game.eventId}:${side}`,
+            `/api/leagues/${leagueId}/pools/${pool.poolId}/survivor`,
+            { bettingEventId: game.eventId, pickWeekId, selection: side },
+          )
+        }
+        size="sm"
+        type="button"
+        variant={picked ? "default" : "outline"}
+      >
+        {team}
+      </Button>
+    );
+  };
+
+  const columns: readonly DataTableColumn<
+    SurvivorPoolData["standings"][number]
+  >[] = [
+    { cell: (row) => row.displayName, header: "Member", id: "member" },
+    {
+      cell: (row) =>
+        row.alive ? (
+          <StatusPill tone="success">Alive</StatusPill>
+        ) : (
+          <StatusPill tone="neutral">Out week {row.eliminatedWeek}</StatusPill>
+        ),
+      header: "Status",
+      id: "status",
+    },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{row.weeksSurvived}</span>,
+      header: "Weeks survived",
+      id: "weeks",
+    },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{row.rank}</span>,
+      header: "Rank",
+      id: "rank",
+      priority: "desktop",
+    },
+  ];
+
+  return (
+    <section aria-label={pool.name} className="panel grid gap-4 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <ShieldHalf aria-hidden="true" className="size-4 text-primary" />
+        <h2 className="heading-auspex text-lg leading-tight">{pool.name}</h2>
+        {score.alive ? (
+          <StatusPill tone="success">
+            Alive · {score.weeksSurvived} survived
+          </StatusPill>
+        ) : (
+          <StatusPill tone="danger">
+            Eliminated in week {score.eliminatedWeek}
+          </StatusPill>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        One team a week, never the same team twice. A loss ends your run; a tie
+        or a game that is not played counts as a survived week.
+      </p>
+      {weekPick ? (
+        <p className="text-sm">
+          Week {data.week?.week} pick:{" "}
+          <span className="font-medium">{weekPick.team}</span>
+        </p>
+      ) : null}
+      {error ? (
+        <Banner title="Survivor pick not saved" tone="danger">
+          {error}
+        </Banner>
+      ) : null}
+      {score.alive && games.length > 0 ? (
+        <ul className="grid gap-2">
+          {games.map((game) => (
+            <li
+              className="cell flex flex-wrap items-center justify-between gap-2 p-3"
+              key={game.eventId}
+            >
+              <span className="text-xs text-muted-foreground">
+                {game.locked ? "Kicked off" : formatKickoff(game.startTime)}
+              </span>
+              <span className="flex flex-wrap gap-2">
+                {teamButton(game, "away")}
+                {teamButton(game, "home")}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <DataTable
+        ariaLabel={`${pool.name} standings`}
+        columns={columns}
+        empty="Nobody has picked yet."
+        getRowId={(row) => row.userId}
+        getRowName={(row) => row.displayName}
+        rows={pool.standings}
+      />
+    </section>
+  );
+}
+
+interface RankDraft {
+  readonly confidence: number;
+  readonly selection: Side;
+}
+
+/**
+ * Seeds the ranking form: saved ranks where the member has them, then the
+ * remaining ranks, highest first, down the slate in kickoff order.
+ */
+function initialRanks(
+  games: readonly SidePoolSlateGame[],
+  pool: ConfidencePoolData,
+): Record<string, RankDraft> {
+  const saved = new Map(pool.you.weekPicks.map((pick) => [pick.eventId, pick]));
+  const used = new Set(pool.you.weekPicks.map((pick) => pick.confidence));
+  const free = games
+    .map((_, index) => games.length - index)
+    .filter((rank) => !used.has(rank));
+  const drafts: Record<string, RankDraft> = {};
+  for (const game of games) {
+    const pick = saved.get(game.eventId);
+    if (pick) {
+      drafts[game.eventId] = {
+        confidence: pick.confidence,
+        selection: pick.selection,
+      };
+    } else if (!game.locked) {
+      drafts[game.eventId] = {
+        confidence: free.shift() ?? 1,
+        selection: "home",
+      };
+    }
+  }
+  return drafts;
+}
+
+function ConfidencePoolPanel({
+  games,
+  leagueId,
+  pickWeekId,
+  pool,
+}: {
+  games: readonly SidePoolSlateGame[];
+  leagueId: string;
+  pickWeekId: string | null;
+  pool: ConfidencePoolData;
+}) {
+  const { busy, error, post } = usePoolPost();
+  const [drafts, setDrafts] = useState(() => initialRanks(games, pool));
+  const openGames = games.filter((game) => !game.locked);
+  const rankOptions = games.map((_, index) => ({
+    label: `${games.length - index}`,
+    value: `${games.length - index}`,
+  }));
+
+  function update(eventId: string, change: Partial<RankDraft>) {
+    setDrafts((current) => {
+      const existing = current[eventId];
+      return existing
+        ? { ...current, [eventId]: { ...existing, ...change } }
+        : current;
+    });
+  }
+
+  const columns: readonly DataTableColumn<
+    ConfidencePoolData["standings"][number]
+  >[] = [
+    { cell: (row) => row.displayName, header: "Member", id: "member" },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{row.points}</span>,
+      header: "Points",
+      id: "points",
+    },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{row.weekPoints}</span>,
+      header: "This week",
+      id: "week",
+    },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{row.correct}</span>,
+      header: "Correct",
+      id: "correct",
+      priority: "desktop",
+    },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{row.rank}</span>,
+      header: "Rank",
+      id: "rank",
+      priority: "desktop",
+    },
+  ];
+
+  return (
+    <section aria-label={pool.name} className="panel grid gap-4 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <ListOrdered aria-hidden="true" className="size-4 text-primary" />
+        <h2 className="heading-auspex text-lg leading-tight">{pool.name}</h2>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Rank every game from {games.length || "N"} down to 1 and pick a winner
+        in each. A correct pick scores its rank.
+      </p>
+      {error ? (
+        <Banner title="Ranking not saved" tone="danger">
+          {error}
+        </Banner>
+      ) : null}
+      {games.length > 0 ? (
+        <ul className="grid gap-2">
+          {games.map((game) => {
+            const draft = drafts[game.eventId];
+            return (
+              <li
+                className="cell grid gap-2 p-3 sm:grid-cols-[minmax(0,1fr)_auto_6rem] sm:items-center"
+                key={game.eventId}
+              >
+                <span className="text-xs text-muted-foreground">
+                  {game.locked ? "Kicked off" : formatKickoff(game.startTime)}
+                </span>
+                <span className="flex flex-wrap gap-2">
+                  {(["away", "home"] as const).map((side) => (
+                    <Button
+                      aria-pressed={draft?.selection === side}
+                      disabled={game.locked || !draft}
+                      key={side}
+                      onClick={() => update(game.eventId, { selection: side })}
+                      size="sm"
+                      type="button"
+                      variant={
+                        draft?.selection === side ? "default" : "outline"
+                      }
+                    >
+                      {side === "home" ? game.homeTeam : game.awayTeam}
+                    </Button>
+                  ))}
+                </span>
+                {draft ? (
+                  <Select
+                    aria-label={`Confidence for ${game.awayTeam} at ${game.homeTeam}`}
+                    disabled={game.locked}
+                    onValueChange={(value) =>
+                      update(game.eventId, { confidence: Number(value) })
+                    }
+                    options={rankOptions}
+                    value={`${draft.confidence}`}
+                  />
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    Not ranked
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+      {pickWeekId && openGames.length > 0 ? (
+        <Button
+          className="w-fit"
+          disabled={busy !== null}
+          loading={busy === "ranking"}
+          loadingLabel="Saving ranking"
+          onClick={() =>
+            post(
+              "ranking",
+              `/api/leagues/${leagueId}/pools/${pool.poolId}/confidence`,
+              {
+                pickWeekId,
+                picks: openGames.flatMap((game) => {
+                  const draft = drafts[game.eventId];
+                  return draft
+                    ? [{ bettingEventId: game.eventId, ...draft }]
+                    : [];
+                }),
+              },
+            )
+          }
+          type="button"
+        >
+          <Save data-icon="inline-start" />
+          Save ranking
+        </Button>
+      ) : null}
+      <DataTable
+        ariaLabel={`${pool.name} standings`}
+        columns={columns}
+        empty="Nobody has ranked a week yet."
+        getRowId={(row) => row.userId}
+        getRowName={(row) => row.displayName}
+        rows={pool.standings}
+      />
+    </section>
+  );
+}
+
+function StartPoolControls({
+  data,
+  leagueId,
+}: {
+  data: LeagueSidePoolsData;
+  leagueId: string;
+}) {
+  const { busy, error, post } = usePoolPost();
+  return (
+    <section
+      aria-label="Commissioner controls"
+      className="cell grid gap-3 p-3 sm:p-4"
+    >
+      <p className="eyebrow text-primary">Commissioner</p>
+      <div className="flex flex-wrap gap-2">
+        {data.availableModes.map((mode) => (
+          <Button
+            disabled={busy !== null}
+            key={mode}
+            loading={busy === mode}
+            loadingLabel={`Starting ${MODE_LABELS[mode].toLowerCase()}`}
+            onClick={() =>
+              post(mode, `/api/leagues/${leagueId}/pools`, { mode })
+            }
+            type="button"
+            variant="steel"
+          >
+            Start {MODE_LABELS[mode].toLowerCase()}
+          </Button>
+        ))}
+      </div>
+      {error ? (
+        <Banner title="Pool not started" tone="danger">
+          {error}
+        </Banner>
+      ) : null}
+    </section>
+  );
+}
+
+export function SidePoolsView({
+  canManage,
+  data,
+  leagueId,
+}: {
+  canManage: boolean;
+  data: LeagueSidePoolsData;
+  leagueId: string;
+}) {
+  const pickWeekId = data.week?.pickWeekId ?? null;
+
+  return (
+    <main className="mx-auto flex min-h-dvh w-full max-w-4xl flex-col gap-6 px-4 py-5 pb-[calc(--spacing(6)+env(safe-area-inset-bottom))] sm:px-6">
+      <header className="panel grid gap-3 p-4">
+        <Link
+          href={`/leagues/${leagueId}`}
+          className={cn(
+            buttonVariants({ className: "w-fit", variant: "ghost" }),
+          )}
+        >
+          <ArrowLeft data-icon="inline-start" />
+          League home
+        </Link>
+        <p className="eyebrow text-primary">Side games</p>
+        <h1 className="heading-auspex text-xl leading-tight">
+          {data.season} pools
+        </h1>
+        <div className="flex flex-wrap gap-2">
+          {data.week ? (
+            <StatusPill tone="info">
+              Week {data.week.week} · {data.games.length} games
+            </StatusPill>
+          ) : (
+            <StatusPill tone="neutral">No open week</StatusPill>
+          )}
+        </div>
+      </header>
+
+      {canManage && data.availableModes.length > 0 ? (
+        <StartPoolControls data={data} leagueId={leagueId} />
+      ) : null}
+
+      {data.pools.length === 0 ? (
+        <EmptyState
+          icon={<ShieldHalf className="size-4" />}
+          title="No pools this season"
+        >
+          {canManage
+            ? "Start a survivor or confidence pool above."
+            : "The commissioner has not started a pool yet."}
+        </EmptyState>
+      ) : null}
+
+      {data.pools.map((pool) =>
+        pool.mode === "survivor" ? (
+          <SurvivorPoolPanel
+            data={data}
+            games={data.games}
+            key={pool.poolId}
+            leagueId={leagueId}
+            pickWeekId={pickWeekId}
+            pool={pool}
+          />
+        ) : (
+          <ConfidencePoolPanel
+            games={data.games}
+            key={pool.poolId}
+            leagueId={leagueId}
+            pickWeekId={pickWeekId}
+            pool={pool}
+          />
+        ),
+      )}
+    </main>
+  );
+}
@@ -4,6 +4,7 @@ import { notFound } from "next/navigation";
 import { requireLeagueRole } from "@/auth/guards";
 import { LeagueArticleTeaserView } from "@/components/publication/article-teaser-view";
 import { getDb } from "@/db";
+import { PWA_PRECACHE_HEADER } from "@/lib/pwa";
 import { markLeagueOpened } from "@/navigation/league-switcher-data";
 import {
   getLeagueFeedData,
@@ -86,11 +87,12 @@ export default async function LeaguePressPostPage({
   const query = await searchParams;
   const activeTag = firstSearchValue(query?.tag);
   const db = getDb();
+  const requestHeaders = await headers();
   const access = await requireLeagueRole({
     db,
-    headers: await headers(),
+    headers: requestHeaders,
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
@@ -136,7 +138,9 @@ export default async function LeaguePressPostPage({
     );
   }
 
-  await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+  if (!requestHeaders.has(PWA_PRECACHE_HEADER)) {
+    await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+  }
 
   const section = getLeaguePublicationSectionBySlug(postId);
   if (section) {
@@ -125,7 +125,8 @@ function sectionLabel(item: GenerationFailureQueueItem): string {
             item.contentType === "arena_recap"
           ? ("recaps" satisfies LeaguePublicationSectionId)
           : item.contentType === "milestone_record" ||
-              item.contentType === "verdict_column"
+              item.contentType === "verdict_column" ||
+              item.contentType === "draft_grades"
             ? ("records" satisfies LeaguePublicationSectionId)
             : item.contentType === "matchup_preview" ||
                 item.contentType === "transaction_reaction"
@@ -35,7 +35,7 @@ export default async function GenerationFailureQueuePage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "data_steward",
+    permission: "press:moderate",
   });
 
   if (!access.ok) {
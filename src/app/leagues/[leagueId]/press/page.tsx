@@ -3,6 +3,7 @@ import { headers } from "next/headers";
 import { notFound } from "next/navigation";
 import { requireLeagueRole } from "@/auth/guards";
 import { getDb } from "@/db";
+import { PWA_PRECACHE_HEADER } from "@/lib/pwa";
 import { markLeagueOpened } from "@/navigation/league-switcher-data";
 import { getLeagueFeedData, getLeagueRouteShareMetadata } from "@/news";
 import { leaguePressFrontMetadata } from "@/share/route-metadata";
@@ -45,11 +46,12 @@ export default async function LeaguePressPage({
   const query = await searchParams;
   const activeTag = firstSearchValue(query?.tag);
   const db = getDb();
+  const requestHeaders = await headers();
   const access = await requireLeagueRole({
     db,
-    headers: await headers(),
+    headers: requestHeaders,
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
@@ -71,7 +73,9 @@ export default async function LeaguePressPage({
     );
   }
 
-  await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+  if (!requestHeaders.has(PWA_PRECACHE_HEADER)) {
+    await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+  }
 
   const result = await getLeagueFeedData(db, {
     leagueId,
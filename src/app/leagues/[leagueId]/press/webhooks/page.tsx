@@ -35,7 +35,7 @@ export default async function LeagueWebhookManagerPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "commissioner",
+    permission: "league:manage",
   });
 
   if (!access.ok) {
@@ -52,7 +52,7 @@ export default async function LeagueWebhookManagerPage({
     return (
       <LeagueSectionAccessState
         title="No webhook access"
-        body="Group-chat delivery targets are managed by the league commissioner."
+        body="Group-chat delivery targets are managed by the league commissioner and co-commissioners."
       />
     );
   }
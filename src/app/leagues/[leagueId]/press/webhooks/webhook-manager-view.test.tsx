@@ -8,6 +8,7 @@ import {
 } from "@testing-library/react";
 import { afterEach, expect, test, vi } from "vitest";
 import type { LeagueWebhookManagerData } from "@/webhooks";
+import { WEBHOOK_EVENTS } from "@/webhooks/events";
 import { LeagueWebhookManagerView } from "./webhook-manager-view";
 
 const router = vi.hoisted(() => ({ refresh: vi.fn() }));
@@ -125,6 +126,13 @@ test("LeagueWebhookManagerView posts create requests and refreshes", async () =>
   fireEvent.change(screen.getByLabelText("Webhook URL"), {
     target: { value: "https://discord.com/api/webhooks/new-target" },
   });
+  const [createArenaToggle] = screen.getAllByRole("checkbox", {
+    name: "Arena rival passed",
+  });
+  if (!createArenaToggle) {
+    throw new Error("create webhook arena toggle was not rendered");
+  }
+  fireEvent.click(createArenaToggle);
   fireEvent.click(screen.getByRole("button", { name: "Create target" }));
 
   await waitFor(() => {
@@ -144,7 +152,7 @@ test("LeagueWebhookManagerView posts create requests and refreshes", async () =>
         "records",
         "previews",
       ],
-      events: ["content.published", "content.corrected"],
+      events: WEBHOOK_EVENTS.filter((event) => event !== "arena.rival_passed"),
     },
     name: "New Discord",
     targetKind: "discord",
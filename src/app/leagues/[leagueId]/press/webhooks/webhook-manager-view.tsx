@@ -31,12 +31,18 @@ import {
   type LeaguePublicationSectionId,
 } from "@/news/sections";
 import type {
-  LeagueWebhookContentEvent,
   LeagueWebhookEventSelection,
   LeagueWebhookManagerData,
   LeagueWebhookSummary,
   LeagueWebhookTargetKind,
 } from "@/webhooks";
+import {
+  type LeagueWebhookEvent,
+  WEBHOOK_EVENT_CATALOG,
+  WEBHOOK_EVENT_GROUPS,
+  WEBHOOK_EVENTS,
+  webhookEventLabel,
+} from "@/webhooks/events";
 
 type RequestState =
   | { status: "idle" }
@@ -47,31 +53,36 @@ type RequestStatus = RequestState["status"];
 
 interface WebhookFormState {
   contentSections: LeaguePublicationSectionId[];
-  events: LeagueWebhookContentEvent[];
+  events: LeagueWebhookEvent[];
   name: string;
   status: "active" | "disabled";
   targetKind: LeagueWebhookTargetKind;
   url: string;
 }
 
-const WEBHOOK_EVENTS = [
-  {
-    description: "New league posts from cadence, regeneration, and launch.",
-    label: "Published content",
-    value: "content.published",
-  },
-  {
-    description: "Correction notes that supersede stale score-driven prose.",
-    label: "Corrections",
-    value: "content.corrected",
-  },
-] as const;
+const WEBHOOK_EVENT_TOGGLE_GROUPS = WEBHOOK_EVENT_GROUPS.map((group) => ({
+  ...group,
+  events: WEBHOOK_EVENTS.filter(
+    (event) => WEBHOOK_EVENT_CATALOG[event].group === group.id,
+  ),
+}));
 
 const TARGET_OPTIONS = [
   { label: "Discord", value: "discord" },
+  { label: "Slack", value: "slack" },
+  { label: "GroupMe", value: "groupme" },
+  { label: "Telegram", value: "telegram" },
   { label: "Generic JSON", value: "generic" },
 ];
 
+const TARGET_URL_PLACEHOLDER = {
+  discord: "https://discord.com/api/webhooks/...",
+  generic: "https://example.com/hooks/...",
+  groupme: "https://api.groupme.com/v3/bots/post?bot_id=...",
+  slack: "https://hooks.slack.com/services/...",
+  telegram: "https://api.telegram.org/bot<token>/sendMessage?chat_id=...",
+} as const satisfies Record<LeagueWebhookTargetKind, string>;
+
 const STATUS_OPTIONS = [
   { label: "Active", value: "active" },
   { label: "Disabled", value: "disabled" },
@@ -99,7 +110,7 @@ const WEBHOOK_REQUEST_TIMEOUT_MS = 10_000;
 function initialCreateState(): WebhookFormState {
   return {
     contentSections: LEAGUE_PUBLICATION_SECTIONS.map((section) => section.id),
-    events: ["content.published", "content.corrected"],
+    events: [...WEBHOOK_EVENTS],
     name: "",
     status: "active",
     targetKind: "discord",
@@ -221,23 +232,30 @@ function EventSelector({
   onChange,
   value,
 }: {
-  readonly onChange: (value: LeagueWebhookContentEvent[]) => void;
-  readonly value: readonly LeagueWebhookContentEvent[];
+  readonly onChange: (value: LeagueWebhookEvent[]) => void;
+  readonly value: readonly LeagueWebhookEvent[];
 }) {
   return (
-    <fieldset className="grid gap-2">
+    <fieldset className="grid gap-3">
       <legend className="eyebrow text-muted-foreground">Events</legend>
-      <div className="grid gap-1 sm:grid-cols-2">
-        {WEBHOOK_EVENTS.map((event) => (
-          <Checkbox
-            checked={value.includes(event.value)}
-            description={event.description}
-            key={event.value}
-            label={event.label}
-            onCheckedChange={() => onChange(toggleValue(value, event.value))}
-          />
-        ))}
-      </div>
+      {WEBHOOK_EVENT_TOGGLE_GROUPS.map((group) => (
+        <div className="grid gap-1" key={group.id}>
+          <p className="text-xs font-medium text-muted-foreground">
+            {group.label}
+          </p>
+          <div className="grid gap-1 sm:grid-cols-2">
+            {group.events.map((event) => (
+              <Checkbox
+                checked={value.includes(event)}
+                description={WEBHOOK_EVENT_CATALOG[event].description}
+                key={event}
+                label={WEBHOOK_EVENT_CATALOG[event].label}
+                onCheckedChange={() => onChange(toggleValue(value, event))}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
     </fieldset>
   );
 }
@@ -324,7 +342,7 @@ function WebhookCreatePanel({ leagueId }: { readonly leagueId: string }) {
             onChange={(event) =>
               setForm((current) => ({ ...current, url: event.target.value }))
             }
-            placeholder="https://discord.com/api/webhooks/..."
+            placeholder={TARGET_URL_PLACEHOLDER[form.targetKind]}
             required
             type="url"
             value={form.url}
@@ -587,7 +605,7 @@ export function LeagueWebhookManagerView({
             label: "The Press",
           },
         ]}
-        deck={`${data.league.season} ${data.league.provider.toUpperCase()} fantasy football. New league posts can arrive in the group chat without exposing webhook URLs.`}
+        deck={`${data.league.season} ${data.league.provider.toUpperCase()} fantasy football. League posts, polls, lore, picks, records, and arena moves can arrive in the group chat without exposing webhook URLs.`}
         eyebrow="DISTRIBUTION"
         navAriaLabel="Press sections"
         navItems={leaguePressNavItems(data.league.id)}
@@ -625,8 +643,8 @@ export function LeagueWebhookManagerView({
             icon={<PlugZap className="size-4" />}
             title="No webhook targets yet"
           >
-            Add a Discord or generic JSON target to mirror league posts into the
-            group chat.
+            Add a Discord, Slack, GroupMe, Telegram, or generic JSON target to
+            mirror league activity into the group chat.
           </EmptyState>
         ) : (
           <div className="grid gap-3 xl:grid-cols-2">
@@ -660,7 +678,7 @@ export function LeagueWebhookManagerView({
               <thead>
                 <tr className="border-b border-[var(--hair)] text-left text-xs uppercase tracking-[0.14em] text-muted-foreground">
                   <th className="px-4 py-3 font-mono">Target</th>
-                  <th className="px-4 py-3 font-mono">Post</th>
+                  <th className="px-4 py-3 font-mono">Subject</th>
                   <th className="px-4 py-3 font-mono">Event</th>
                   <th className="px-4 py-3 font-mono">Status</th>
                   <th className="px-4 py-3 font-mono">At</th>
@@ -676,7 +694,10 @@ export function LeagueWebhookManagerView({
                       {delivery.webhookName}
                     </td>
                     <td className="max-w-[280px] truncate px-4 py-3 text-muted-foreground">
-                      {delivery.contentTitle ?? "Unknown post"}
+                      {delivery.contentTitle ??
+                        (delivery.contentItemId
+                          ? "Unknown post"
+                          : webhookEventLabel(delivery.eventType))}
                     </td>
                     <td className="px-4 py-3 text-muted-foreground">
                       {delivery.eventType}
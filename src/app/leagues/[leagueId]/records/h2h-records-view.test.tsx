@@ -78,6 +78,7 @@ const data: HeadToHeadRecordsPageData = {
       narrowestWins: [],
     },
     championships: { managerRecords: [], seasons: [] },
+    customRecords: [],
     headToHead: {
       allTimePairs: [pair],
       longestStreaks: [],
@@ -141,6 +142,7 @@ const data: HeadToHeadRecordsPageData = {
       worstWinPercentages: [],
     },
     streaks: { longestLosses: [], longestWins: [] },
+    trades: { careerRecords: [], lopsidedTrades: [] },
   },
   currentRecords: [],
   league: {
@@ -157,6 +159,7 @@ const data: HeadToHeadRecordsPageData = {
     groupingId: null,
     groupings: [],
     scope: "all",
+    scoring: null,
     seasonSet: [],
     segment: "both",
   },
@@ -12,9 +12,10 @@ import {
   leagueRecordsHref,
   managerHref,
 } from "./records-format";
-import type {
-  HeadToHeadMeeting,
-  HeadToHeadRecordsPageData,
+import {
+  type HeadToHeadMeeting,
+  type HeadToHeadRecordsPageData,
+  recordsTableDownload,
 } from "./records-page-data";
 import { H2HSeasonPairsTable } from "./records-tables";
 
@@ -245,6 +246,13 @@ export function HeadToHeadRecordsView({
         <section className="grid gap-3">
           <h2 className="heading-auspex text-lg">Season ledgers</h2>
           <H2HSeasonPairsTable
+            download={recordsTableDownload(
+              data.league,
+              data.lens,
+              data.personA.name,
+              "vs",
+              data.personB.name,
+            )}
             personAName={data.personA.name}
             personBName={data.personB.name}
             rows={data.seasonPairs}
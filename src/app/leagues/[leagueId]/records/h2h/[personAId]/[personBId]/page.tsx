@@ -44,7 +44,7 @@ export default async function HeadToHeadRecordsPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
@@ -1,5 +1,5 @@
-import { cleanup, render, screen } from "@testing-library/react";
-import { afterEach, expect, test } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, expect, test, vi } from "vitest";
 import { LeagueRecordsView } from "./league-records-view";
 import type { RecordsPageData } from "./records-page-data";
 
@@ -108,6 +108,7 @@ const data: RecordsPageData = {
         },
       ],
     },
+    customRecords: [],
     headToHead: {
       allTimePairs: [
         {
@@ -276,6 +277,7 @@ const data: RecordsPageData = {
       worstWinPercentages: [],
     },
     streaks: { longestLosses: [], longestWins: [] },
+    trades: { careerRecords: [], lopsidedTrades: [] },
   },
   currentRecords: [
     {
@@ -308,6 +310,7 @@ const data: RecordsPageData = {
     groupingId: null,
     groupings: [],
     scope: "all",
+    scoring: null,
     seasonSet: [],
     segment: "both",
   },
@@ -326,6 +329,7 @@ const data: RecordsPageData = {
 
 afterEach(() => {
   cleanup();
+  vi.restoreAllMocks();
 });
 
 test("league records view renders structured record book sections", () => {
@@ -433,6 +437,61 @@ test("player categories state their measured provider-limited season basis", ()
   ).toBeDefined();
 });
 
+test("trade records link to the full trade ledger", () => {
+  render(
+    <LeagueRecordsView
+      data={{
+        ...data,
+        catalog: {
+          ...data.catalog,
+          trades: {
+            careerRecords: [
+              {
+                losses: 1,
+                netPoints: 42.5,
+                personId: managerAId,
+                personName: "Fixture Manager 12",
+                pushes: 0,
+                trades: 4,
+                winPercentage: 0.75,
+                wins: 3,
+              },
+            ],
+            lopsidedTrades: [
+              {
+                fantasyTransactionId: "trade-1",
+                loser: {
+                  personId: managerBId,
+                  personName: "Fixture Manager 15",
+                },
+                margin: 61.2,
+                scoringPeriod: 6,
+                season: 2025,
+                winner: {
+                  personId: managerAId,
+                  personName: "Fixture Manager 12",
+                },
+              },
+            ],
+          },
+        },
+      }}
+    />,
+  );
+
+  expect(screen.getByRole("heading", { name: "Trades" })).toBeDefined();
+  expect(screen.getByText("3-1-0")).toBeDefined();
+  expect(screen.getByText("+61.20")).toBeDefined();
+  expect(
+    screen.getByText("over Fixture Manager 15 - 2025 - Week 6"),
+  ).toBeDefined();
+  expect(
+    screen
+      .getByRole("link", { name: "Full trade ledger" })
+      .getAttribute("href"),
+  ).toBe(`/leagues/${leagueId}/records/trades`);
+});
+
 test("league records view renders era lens controls when confirmed groupings exist", () => {
   render(
     <LeagueRecordsView
@@ -451,6 +510,7 @@ test("league records view renders era lens controls when confirmed groupings exi
             },
           ],
           scope: "all",
+          scoring: null,
           seasonSet: [2020, 2021, 2022],
           segment: "regular",
         },
@@ -467,4 +527,61 @@ test("league records view renders era lens controls when confirmed groupings exi
   ).toBe(
     `/leagues/${leagueId}/records?segment=playoff&grouping=00000000-0000-4000-8000-000000000777`,
   );
+  expect(screen.getByRole("link", { name: "PPR" }).getAttribute("href")).toBe(
+    `/leagues/${leagueId}/records?segment=regular&grouping=00000000-0000-4000-8000-000000000777&scoring=ppr`,
+  );
+});
+
+test("record book downloads are named for the active lens", () => {
+  Object.assign(URL, {
+    createObjectURL: vi.fn(() => "blob:records"),
+    revokeObjectURL: vi.fn(),
+  });
+  const downloads: string[] = [];
+  vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(function (
+    this: HTMLAnchorElement,
+  ) {
+    downloads.push(this.download);
+  });
+  render(
+    <LeagueRecordsView
+      data={{
+        ...data,
+        lens: {
+          ...data.lens,
+          groupingId: "00000000-0000-4000-8000-000000000777",
+          groupings: [
+            {
+              formatType: "traditional",
+              id: "00000000-0000-4000-8000-000000000777",
+              kind: "era",
+              name: "Era 2",
+              ordinal: 2,
+              seasons: [2020, 2021, 2022],
+            },
+          ],
+          scoring: "ppr",
+          segment: "playoff",
+        },
+      }}
+    />,
+  );
+
+  fireEvent.click(
+    screen.getByRole("button", { name: "Download record book as CSV" }),
+  );
+  fireEvent.click(
+    screen.getByRole("button", {
+      name: "Download all-time standings as a spreadsheet",
+    }),
+  );
+  fireEvent.click(
+    screen.getByRole("button", { name: "Download head-to-head as CSV" }),
+  );
+
+  expect(downloads).toEqual([
+    "nhs-alumni-annual-record-book-playoff-era-2-ppr.csv",
+    "nhs-alumni-annual-all-time-standings-playoff-era-2-ppr.xlsx",
+    "nhs-alumni-annual-head-to-head-playoff-era-2-ppr.csv",
+  ]);
 });
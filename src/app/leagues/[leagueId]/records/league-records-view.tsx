@@ -1,7 +1,9 @@
 import {
   ArrowLeft,
+  ArrowRightLeft,
   Crown,
   Database,
+  Dices,
   Landmark,
   Swords,
   Trophy,
@@ -18,8 +20,12 @@ import { KVList } from "@/components/ui/kv";
 import { StatusPill } from "@/components/ui/status-pill";
 import { cn } from "@/lib/utils";
 import {
+  type CustomRecordLeaderEntry,
   type HeadToHeadPairCatalogEntry,
+  isCustomRecordType,
   RECORD_CATEGORY_REGISTRY,
+  SCORING_PRESETS,
+  type ScoringPresetId,
 } from "@/stats";
 import {
   formatNumber,
@@ -28,13 +34,16 @@ import {
   h2hHref,
   leagueRecordsHref,
   managerHref,
+  scheduleLuckHref,
+  tradesHref,
 } from "./records-format";
-import type {
-  CurrentRecordBookEntry,
-  RecordsLensInput,
-  RecordsPageData,
+import {
+  type CurrentRecordBookEntry,
+  type RecordsLensInput,
+  type RecordsPageData,
+  recordsTableDownload,
 } from "./records-page-data";
-import { AllTimeStandingsTable } from "./records-tables";
+import { AllTimeStandingsTable, RecordsTableExport } from "./records-tables";
 
 function recordGroup(
   records: readonly CurrentRecordBookEntry[],
@@ -61,6 +70,17 @@ const segmentOptions = [
   { label: "Playoff", value: "playoff" },
 ] as const;
 
+const scoringOptions: ReadonlyArray<{
+  label: string;
+  value: ScoringPresetId | null;
+}> = [
+  { label: "League", value: null },
+  ...(["standard", "half_ppr", "ppr"] as const).map((value) => ({
+    label: SCORING_PRESETS[value].label,
+    value,
+  })),
+];
+
 function lensInput(
   data: RecordsPageData,
   updates: Partial<RecordsLensInput>,
@@ -70,6 +90,8 @@ function lensInput(
       updates.groupingId === undefined
         ? data.lens.groupingId
         : updates.groupingId,
+    scoring:
+      updates.scoring === undefined ? data.lens.scoring : updates.scoring,
     segment: updates.segment ?? data.lens.segment,
   };
 }
@@ -97,7 +119,8 @@ function LensControls({ data }: { data: RecordsPageData }) {
         <p className="eyebrow text-primary">Lens</p>
         <p className="text-sm text-muted-foreground">
           Records recalculate by segment and confirmed era; cumulative remains
-          the default.
+          the default. What-if scoring re-scores every player week from box
+          scores without changing the pushed history.
         </p>
       </div>
       <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.35fr)]">
@@ -129,6 +152,34 @@ function LensControls({ data }: { data: RecordsPageData }) {
             })}
           </div>
         </div>
+        <div className="grid gap-2">
+          <p className="font-mono text-xs uppercase tracking-[0.16em] text-ink-4">
+            Scoring
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {scoringOptions.map((option) => {
+              const selected = data.lens.scoring === option.value;
+              return (
+                <Link
+                  aria-current={selected ? "page" : undefined}
+                  className={cn(
+                    "inline-flex min-h-11 items-center rounded-full border px-3 py-2 font-mono text-xs uppercase tracking-[0.08em] transition-[background-color,box-shadow,color,border-color]",
+                    selected
+                      ? "border-primary/50 bg-primary/20 text-lilac-hi shadow-[0_0_18px_var(--glow-lilac)]"
+                      : "border-[var(--hair-2)] bg-[var(--control-inset)] text-ink-3 hover:border-primary/40 hover:text-foreground",
+                  )}
+                  href={leagueRecordsHref(
+                    data.league,
+                    lensInput(data, { scoring: option.value }),
+                  )}
+                  key={option.value ?? "league"}
+                >
+                  {option.label}
+                </Link>
+              );
+            })}
+          </div>
+        </div>
         {data.lens.groupings.length > 0 ? (
           <div className="grid gap-2">
             <p className="font-mono text-xs uppercase tracking-[0.16em] text-ink-4">
@@ -187,7 +238,25 @@ function LensControls({ data }: { data: RecordsPageData }) {
             ? `${selectedGrouping.name} · ${seasonSetLabel(selectedGrouping.seasons)}`
             : "Cumulative"}
         </StatusPill>
+        {data.lens.scoring ? (
+          <StatusPill tone="warning">
+            What-if: {SCORING_PRESETS[data.lens.scoring].label}
+          </StatusPill>
+        ) : null}
         <StatusPill tone="neutral">Scope: league</StatusPill>
+        {data.currentRecords.length > 0 ? (
+          <div className="ml-auto">
+            <RecordsTableExport
+              download={recordsTableDownload(
+                data.league,
+                data.lens,
+                "record book",
+              )}
+              rows={data.currentRecords}
+              table="recordBook"
+            />
+          </div>
+        ) : null}
       </div>
     </section>
   );
@@ -254,11 +323,13 @@ function RecordCard({
 }
 
 function Section({
+  actions,
   children,
   icon,
   id,
   title,
 }: {
+  actions?: React.ReactNode;
   children: React.ReactNode;
   icon?: React.ReactNode;
   id?: string;
@@ -269,6 +340,7 @@ function Section({
       <div className="flex items-center gap-2">
         {icon}
         <h2 className="heading-auspex text-lg">{title}</h2>
+        {actions ? <div className="ml-auto">{actions}</div> : null}
       </div>
       {children}
     </section>
@@ -288,6 +360,11 @@ function AllTimeStandings({ data }: { data: RecordsPageData }) {
       title="All-time"
     >
       <AllTimeStandingsTable
+        download={recordsTableDownload(
+          data.league,
+          data.lens,
+          "all-time standings",
+        )}
         league={data.league}
         lens={data.lens}
         rows={standings}
@@ -569,6 +646,19 @@ function HeadToHeadSection({ data }: { data: RecordsPageData }) {
 
   return (
     <Section
+      actions={
+        pairs.length > 0 ? (
+          <RecordsTableExport
+            download={recordsTableDownload(
+              data.league,
+              data.lens,
+              "head to head",
+            )}
+            rows={pairs}
+            table="headToHeadPairs"
+          />
+        ) : null
+      }
       icon={<Swords className="size-4 text-primary" aria-hidden="true" />}
       id="head-to-head"
       title="Head-to-head"
@@ -751,6 +841,56 @@ function PlayersSection({ data }: { data: RecordsPageData }) {
   );
 }
 
+function TradesSection({ data }: { data: RecordsPageData }) {
+  const trades = data.catalog.trades;
+  if (trades.careerRecords.length === 0 && trades.lopsidedTrades.length === 0) {
+    return null;
+  }
+
+  return (
+    <Section
+      icon={
+        <ArrowRightLeft className="size-4 text-primary" aria-hidden="true" />
+      }
+      id="trades"
+      title="Trades"
+    >
+      <div className="grid gap-3 lg:grid-cols-2">
+        <CompactList
+          items={trades.careerRecords.map((row) => ({
+            context: `${row.trades} trades - ${formatNumber(row.netPoints)} net points`,
+            id: `trade-career-${row.personId}`,
+            label: row.personName,
+            value: `${row.wins}-${row.losses}-${row.pushes}`,
+          }))}
+          title="Best traders"
+        />
+        <CompactList
+          items={trades.lopsidedTrades.map((row) => ({
+            context: [
+              row.loser ? `over ${row.loser.personName}` : null,
+              row.season,
+              row.scoringPeriod ? `Week ${row.scoringPeriod}` : null,
+            ]
+              .filter(Boolean)
+              .join(" - "),
+            id: `trade-lopsided-${row.fantasyTransactionId}`,
+            label: row.winner.personName,
+            value: `+${formatNumber(row.margin)}`,
+          }))}
+          title="Most lopsided trades"
+        />
+      </div>
+      <Link
+        className="w-fit text-sm font-medium underline-offset-4 hover:underline"
+        href={tradesHref(data.league)}
+      >
+        Full trade ledger
+      </Link>
+    </Section>
+  );
+}
+
 function AchievementsSection({ data }: { data: RecordsPageData }) {
   const records = recordGroup(data.currentRecords, [
     "best_score_in_loss",
@@ -899,6 +1039,49 @@ function LowlightsSection({ data }: { data: RecordsPageData }) {
   );
 }
 
+function customLeaderContext(row: CustomRecordLeaderEntry): string {
+  return [
+    row.season ? String(row.season) : "Career",
+    row.scoringPeriod ? `Week ${row.scoringPeriod}` : null,
+    row.opponentName ? `vs ${row.opponentName}` : null,
+    row.games > 1 ? `${row.games} games` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function HouseSection({ data }: { data: RecordsPageData }) {
+  const customRecords = data.catalog.customRecords;
+  if (customRecords.length === 0) {
+    return null;
+  }
+
+  return (
+    <Section id="house" title="House records">
+      <RecordCardGrid
+        data={data}
+        records={data.currentRecords.filter((record) =>
+          isCustomRecordType(record.recordType),
+        )}
+      />
+      <div className="grid gap-3 lg:grid-cols-3">
+        {customRecords.map((entry) => (
+          <CompactList
+            items={entry.leaders.map((row, index) => ({
+              context: customLeaderContext(row),
+              id: `house-${entry.recordKey}-${row.personId}-${index}`,
+              label: row.personName,
+              value: formatNumber(row.value),
+            }))}
+            key={entry.recordKey}
+            title={entry.label}
+          />
+        ))}
+      </div>
+    </Section>
+  );
+}
+
 const recordBookNav: PublicationNavItem[] = RECORD_CATEGORY_REGISTRY.map(
   (category, index) => ({
     active: index === 0,
@@ -922,6 +1105,16 @@ export function LeagueRecordsView({ data }: { data: RecordsPageData }) {
             icon: <Landmark data-icon="inline-start" />,
             label: "Lore",
           },
+          {
+            href: tradesHref(data.league),
+            icon: <ArrowRightLeft data-icon="inline-start" />,
+            label: "Trades",
+          },
+          {
+            href: scheduleLuckHref(data.league),
+            icon: <Dices data-icon="inline-start" />,
+            label: "Schedule luck",
+          },
         ]}
         controls={<LensControls data={data} />}
         deck={`${data.managers.length} managers, ${data.catalog.allTimeStandings.length} career rows, and pushed canonical snapshots only.`}
@@ -964,8 +1157,10 @@ export function LeagueRecordsView({ data }: { data: RecordsPageData }) {
           <PlayoffSection data={data} />
           <HeadToHeadSection data={data} />
           <PlayersSection data={data} />
+          <TradesSection data={data} />
           <AchievementsSection data={data} />
           <LowlightsSection data={data} />
+          <HouseSection data={data} />
         </>
       ) : null}
     </main>
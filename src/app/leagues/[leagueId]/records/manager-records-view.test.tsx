@@ -50,6 +50,7 @@ const data: ManagerRecordsPageData = {
       narrowestWins: [],
     },
     championships: { managerRecords: [], seasons: [] },
+    customRecords: [],
     headToHead: {
       allTimePairs: [],
       longestStreaks: [],
@@ -113,6 +114,7 @@ const data: ManagerRecordsPageData = {
       worstWinPercentages: [],
     },
     streaks: { longestLosses: [], longestWins: [] },
+    trades: { careerRecords: [], lopsidedTrades: [] },
   },
   championshipRecord: {
     bestFinish: null,
@@ -209,6 +211,7 @@ const data: ManagerRecordsPageData = {
     groupingId: null,
     groupings: [],
     scope: "all",
+    scoring: null,
     seasonSet: [],
     segment: "both",
   },
@@ -14,10 +14,11 @@ import {
   h2hHref,
   leagueRecordsHref,
 } from "./records-format";
-import type {
-  CurrentRecordBookEntry,
-  ManagerRecordsPageData,
-  ManagerWeeklyHighlight,
+import {
+  type CurrentRecordBookEntry,
+  type ManagerRecordsPageData,
+  type ManagerWeeklyHighlight,
+  recordsTableDownload,
 } from "./records-page-data";
 import { ManagerH2HLedgersTable, ManagerSeasonTable } from "./records-tables";
 
@@ -286,7 +287,15 @@ export function ManagerRecordsView({ data }: { data: ManagerRecordsPageData }) {
           </Section>
           {data.seasonLines.length > 0 ? (
             <Section title="Season by season">
-              <ManagerSeasonTable rows={data.seasonLines} />
+              <ManagerSeasonTable
+                download={recordsTableDownload(
+                  data.league,
+                  data.lens,
+                  data.manager.name,
+                  "seasons",
+                )}
+                rows={data.seasonLines}
+              />
             </Section>
           ) : null}
           <Section title="Signature weeks">
@@ -317,6 +326,12 @@ export function ManagerRecordsView({ data }: { data: ManagerRecordsPageData }) {
               title="Head-to-head ledgers"
             >
               <ManagerH2HLedgersTable
+                download={recordsTableDownload(
+                  data.league,
+                  data.lens,
+                  data.manager.name,
+                  "head to head",
+                )}
                 league={data.league}
                 lens={data.lens}
                 managerId={data.manager.id}
@@ -38,7 +38,7 @@ export default async function ManagerRecordsPage({
     db,
     headers: await headers(),
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
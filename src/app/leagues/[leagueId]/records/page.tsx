@@ -3,6 +3,7 @@ import { headers } from "next/headers";
 import { notFound } from "next/navigation";
 import { requireLeagueRole } from "@/auth/guards";
 import { getDb } from "@/db";
+import { PWA_PRECACHE_HEADER } from "@/lib/pwa";
 import { markLeagueOpened } from "@/navigation/league-switcher-data";
 import {
   type LeagueDeepLinkSearchParams,
@@ -34,11 +35,12 @@ export default async function LeagueRecordsPage({
   const { leagueId } = await params;
   const query = await searchParams;
   const db = getDb();
+  const requestHeaders = await headers();
   const access = await requireLeagueRole({
     db,
-    headers: await headers(),
+    headers: requestHeaders,
     leagueId,
-    minRole: "member",
+    permission: "league:view",
   });
 
   if (!access.ok) {
@@ -60,7 +62,9 @@ export default async function LeagueRecordsPage({
     );
   }
 
-  await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+  if (!requestHeaders.has(PWA_PRECACHE_HEADER)) {
+    await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+  }
 
   const result = await getLeagueRecordsPageData(db, {
     lens: recordsLensFromSearchParams(query),
@@ -0,0 +1,214 @@
+import type {
+  TableExportColumn,
+  TableExportNotes,
+  TableExportSchema,
+} from "@/lib/table-export";
+import type {
+  AllTimeStandingCatalogRow,
+  HeadToHeadPairCatalogEntry,
+  ManagerHeadToHeadLedgerEntry,
+} from "@/stats";
+import type {
+  CurrentRecordBookEntry,
+  ManagerSeasonLine,
+} from "./records-page-data";
+
+/**
+ * Download schemas for the record book's tables. Headers are part of the
+ * contract: members keep spreadsheets that look columns up by name, so a
+ * column is only ever added at the end, never renamed or moved. Values are
+ * raw numbers (a win percentage is 0.625, not "62.5%") and every row has
+ * already been through the page's lens, so a download holds exactly the
+ * rows on screen.
+ */
+
+export interface RecordsExportRows {
+  /**
+   * Career standings: Rank, Manager, Wins, Losses, Ties, Win %, Points for,
+   * Points against, Point differential, Seasons, Championships, Runner-ups,
+   * Playoff appearances, Regular-season titles, Career luck, Best season,
+   * Worst season.
+   */
+  allTimeStandings: AllTimeStandingCatalogRow;
+  /**
+   * All-time rivalries, one row per pair: Manager A, Manager B, A wins,
+   * B wins, Ties, Meetings, A points, B points, Playoff meetings, Title
+   * meetings, Last season, Last week.
+   */
+  headToHeadPairs: HeadToHeadPairCatalogEntry;
+  /**
+   * One manager against each opponent: Opponent, Wins, Losses, Ties,
+   * Meetings, Points for, Points against, High score, Opponent high score,
+   * Playoff meetings, Title meetings, Last season, Last week.
+   */
+  managerLedgers: ManagerHeadToHeadLedgerEntry;
+  /**
+   * One manager's seasons: Season, Wins, Losses, Ties, Win %, Points for,
+   * Points against, Point differential, Luck, Final rank, Finish, Playoff
+   * seed, Longest win streak, Longest loss streak.
+   */
+  managerSeasons: ManagerSeasonLine;
+  /**
+   * Record book entries: Record, Record key, Value, Holder, Opponent,
+   * Season, Week, Previous holder, Previous value.
+   */
+  recordBook: CurrentRecordBookEntry;
+  /**
+   * Two managers season by season: Season, Manager A, A wins, A losses,
+   * A points, Manager B, B wins, B losses, B points, Ties, Playoff meetings,
+   * Title meetings.
+   */
+  seasonPairs: HeadToHeadPairCatalogEntry;
+}
+
+export type RecordsExportTable = keyof RecordsExportRows;
+
+/** Built on the server from the page's lens; see `recordsTableDownload`. */
+export interface RecordsTableDownload {
+  readonly fileName: readonly string[];
+  readonly notes: TableExportNotes;
+}
+
+function placement(
+  summary: { finalPlacement: string; season: number } | null,
+): string | null {
+  return summary
+    ? `${summary.season} ${summary.finalPlacement.replaceAll("_", " ")}`
+    : null;
+}
+
+const wins = <Row extends { wins: number }>(): TableExportColumn<Row> => ({
+  header: "Wins",
+  value: (row) => row.wins,
+});
+const losses = <Row extends { losses: number }>(): TableExportColumn<Row> => ({
+  header: "Losses",
+  value: (row) => row.losses,
+});
+const ties = <Row extends { ties: number }>(): TableExportColumn<Row> => ({
+  header: "Ties",
+  value: (row) => row.ties,
+});
+
+export const RECORDS_EXPORT_SCHEMAS: {
+  readonly [Table in RecordsExportTable]: TableExportSchema<
+    RecordsExportRows[Table]
+  >;
+} = {
+  allTimeStandings: {
+    columns: [
+      { header: "Rank", value: (row) => row.rank },
+      { header: "Manager", value: (row) => row.personName },
+      wins(),
+      losses(),
+      ties(),
+      { header: "Win %", value: (row) => row.winPercentage },
+      { header: "Points for", value: (row) => row.pointsFor },
+      { header: "Points against", value: (row) => row.pointsAgainst },
+      { header: "Point differential", value: (row) => row.pointDifferential },
+      { header: "Seasons", value: (row) => row.seasons },
+      { header: "Championships", value: (row) => row.championships },
+      { header: "Runner-ups", value: (row) => row.runnerUps },
+      { header: "Playoff appearances", value: (row) => row.playoffAppearances },
+      {
+        header: "Regular-season titles",
+        value: (row) => row.regularSeasonTitles,
+      },
+      { header: "Career luck", value: (row) => row.careerLuck },
+      { header: "Best season", value: (row) => placement(row.bestSeason) },
+      { header: "Worst season", value: (row) => placement(row.worstSeason) },
+    ],
+    title: "All-time standings",
+  },
+  headToHeadPairs: {
+    columns: [
+      { header: "Manager A", value: (row) => row.personA.personName },
+      { header: "Manager B", value: (row) => row.personB.personName },
+      { header: "A wins", value: (row) => row.personA.wins },
+      { header: "B wins", value: (row) => row.personB.wins },
+      ties(),
+      { header: "Meetings", value: (row) => row.meetings },
+      { header: "A points", value: (row) => row.personA.points },
+      { header: "B points", value: (row) => row.personB.points },
+      { header: "Playoff meetings", value: (row) => row.playoffMeetings },
+      { header: "Title meetings", value: (row) => row.championshipMeetings },
+      { header: "Last season", value: (row) => row.lastSeason },
+      { header: "Last week", value: (row) => row.lastScoringPeriod },
+    ],
+    title: "Head-to-head",
+  },
+  managerLedgers: {
+    columns: [
+      { header: "Opponent", value: (row) => row.opponentName },
+      wins(),
+      losses(),
+      ties(),
+      { header: "Meetings", value: (row) => row.meetings },
+      { header: "Points for", value: (row) => row.pointsFor },
+      { header: "Points against", value: (row) => row.pointsAgainst },
+      { header: "High score", value: (row) => row.highestScore },
+      {
+        header: "Opponent high score",
+        value: (row) => row.opponentHighestScore,
+      },
+      { header: "Playoff meetings", value: (row) => row.playoffMeetings },
+      { header: "Title meetings", value: (row) => row.championshipMeetings },
+      { header: "Last season", value: (row) => row.lastSeason },
+      { header: "Last week", value: (row) => row.lastScoringPeriod },
+    ],
+    title: "Head-to-head ledgers",
+  },
+  managerSeasons: {
+    columns: [
+      { header: "Season", value: (row) => row.season },
+      wins(),
+      losses(),
+      ties(),
+      { header: "Win %", value: (row) => row.winPercentage },
+      { header: "Points for", value: (row) => row.pointsFor },
+      { header: "Points against", value: (row) => row.pointsAgainst },
+      { header: "Point differential", value: (row) => row.pointDifferential },
+      { header: "Luck", value: (row) => row.luck },
+      { header: "Final rank", value: (row) => row.finalRank },
+      {
+        header: "Finish",
+        value: (row) => row.finalPlacement.replaceAll("_", " "),
+      },
+      { header: "Playoff seed", value: (row) => row.playoffSeed },
+      { header: "Longest win streak", value: (row) => row.longestWinStreak },
+      { header: "Longest loss streak", value: (row) => row.longestLossStreak },
+    ],
+    title: "Season by season",
+  },
+  recordBook: {
+    columns: [
+      { header: "Record", value: (row) => row.label },
+      { header: "Record key", value: (row) => row.recordType },
+      { header: "Value", value: (row) => row.value },
+      { header: "Holder", value: (row) => row.holderName },
+      { header: "Opponent", value: (row) => row.opponentName },
+      { header: "Season", value: (row) => row.season },
+      { header: "Week", value: (row) => row.scoringPeriod },
+      { header: "Previous holder", value: (row) => row.previousHolderName },
+      { header: "Previous value", value: (row) => row.previousValue },
+    ],
+    title: "Record book",
+  },
+  seasonPairs: {
+    columns: [
+      { header: "Season", value: (row) => row.season },
+      { header: "Manager A", value: (row) => row.personA.personName },
+      { header: "A wins", value: (row) => row.personA.wins },
+      { header: "A losses", value: (row) => row.personA.losses },
+      { header: "A points", value: (row) => row.personA.points },
+      { header: "Manager B", value: (row) => row.personB.personName },
+      { header: "B wins", value: (row) => row.personB.wins },
+      { header: "B losses", value: (row) => row.personB.losses },
+      { header: "B points", value: (row) => row.personB.points },
+      ties(),
+      { header: "Playoff meetings", value: (row) => row.playoffMeetings },
+      { header: "Title meetings", value: (row) => row.championshipMeetings },
+    ],
+    title: "Season ledgers",
+  },
+};
@@ -76,6 +76,9 @@ function lensQuery(lens?: RecordsLensInput | null): string {
   if (lens?.groupingId) {
     params.set("grouping", lens.groupingId);
   }
+  if (lens?.scoring) {
+    params.set("scoring", lens.scoring);
+  }
   const query = params.toString();
   return query ? `?${query}` : "";
 }
@@ -103,3 +106,17 @@ export function h2hHref(
 ): string {
   return `/leagues/${league.id}/records/h2h/${personAId}/${personBId}${lensQuery(lens)}`;
 }
+
+export function tradesHref(
+  league: Pick<RecordsLeagueSummary, "id">,
+  season?: number | null,
+): string {
+  return `/leagues/${league.id}/records/trades${season ? `?season=${season}` : ""}`;
+}
+
+export function scheduleLuckHref(
+  league: Pick<RecordsLeagueSummary, "id">,
+  season?: number | null,
+): string {
+  return `/leagues/${league.id}/records/luck${season ? `?season=${season}` : ""}`;
+}
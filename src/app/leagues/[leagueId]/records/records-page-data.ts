@@ -7,11 +7,14 @@ import {
 } from "@/ingestion/capability-map";
 import type { FantasyProviderId } from "@/providers";
 import {
+  type AllTimeRecordType,
   type BlowoutCatalogEntry,
   type ChampionshipRecordRow,
+  type CustomRecordCatalogEntry,
   compareStable,
   getLeagueCanonRecordsContext,
   type HeadToHeadPairCatalogEntry,
+  isScoringPresetId,
   type ManagerChampionshipRecord,
   type ManagerHeadToHeadLedgerEntry,
   RECORD_TYPE_LABELS,
@@ -23,11 +26,13 @@ import {
   type RecordsPersonSummary,
   type RecordType,
   round,
+  SCORING_PRESETS,
   type SeasonStatisticsRow,
   type StreakCatalogEntry,
   type WeeklyCatalogEntry,
   type WeeklyStatisticsRow,
 } from "@/stats";
+import type { RecordsTableDownload } from "./records-export";
 
 const DETAIL_LIMIT = 8;
 
@@ -71,7 +76,7 @@ export interface CurrentRecordBookEntry {
   previousHolderName: string | null;
   previousRecordId: string | null;
   previousValue: number | null;
-  recordType: RecordType;
+  recordType: AllTimeRecordType;
   scoringPeriod: number | null;
   season: number | null;
   value: number;
@@ -193,6 +198,7 @@ export function recordsLensFromSearchParams(
     | undefined,
 ): RecordsLensInput {
   const segment = firstSearchValue(searchParams?.segment);
+  const scoring = firstSearchValue(searchParams?.scoring);
   const grouping =
     firstSearchValue(searchParams?.grouping) ??
     firstSearchValue(searchParams?.groupingId) ??
@@ -202,6 +208,7 @@ export function recordsLensFromSearchParams(
       grouping && !["all", "cumulative", "none"].includes(grouping)
         ? grouping
         : null,
+    scoring: isScoringPresetId(scoring) ? scoring : null,
     segment:
       segment && RECORD_SEGMENTS.has(segment as RecordBookSegment)
         ? (segment as RecordBookSegment)
@@ -209,6 +216,53 @@ export function recordsLensFromSearchParams(
   };
 }
 
+/**
+ * File name and About-sheet notes for a table download. The lens goes into
+ * both, so downloads taken under different lenses never overwrite each other
+ * and a workbook still says which games it counts once it leaves the page.
+ */
+export function recordsTableDownload(
+  league: Pick<RecordsLeagueSummary, "name">,
+  lens: RecordsLensSelection,
+  ...table: string[]
+): RecordsTableDownload {
+  const grouping = lens.groupingId
+    ? (lens.groupings.find((option) => option.id === lens.groupingId) ?? null)
+    : null;
+  return {
+    fileName: [
+      league.name,
+      ...table,
+      lens.segment === "both" ? null : lens.segment,
+      grouping?.name ?? null,
+      lens.scoring,
+    ].filter((part): part is string => Boolean(part)),
+    notes: [
+      ["League", league.name],
+      [
+        "Games",
+        lens.segment === "both"
+          ? "All games"
+          : lens.segment === "regular"
+            ? "Regular season"
+            : "Playoffs",
+      ],
+      [
+        "Seasons",
+        grouping
+          ? `${grouping.name} (${grouping.seasons.join(", ")})`
+          : "Cumulative",
+      ],
+      [
+        "Scoring",
+        lens.scoring
+          ? `What-if: ${SCORING_PRESETS[lens.scoring].label}`
+          : "As scored",
+      ],
+    ],
+  };
+}
+
 export function canonicalizeHeadToHeadPersonIds(
   personAId: string,
   personBId: string,
@@ -257,20 +311,22 @@ function personName(
 
 function lensRecordId(
   lens: RecordsLensSelection,
-  recordType: RecordType,
+  recordType: AllTimeRecordType,
   suffix: string,
 ): string {
   const grouping = lens.groupingId ?? "cumulative";
-  return `lens-${lens.segment}-${grouping}-${recordType}-${suffix}`;
+  const scoring = lens.scoring ? `${lens.scoring}-` : "";
+  return `lens-${lens.segment}-${grouping}-${scoring}${recordType}-${suffix}`;
 }
 
 function lensRecordEntry(input: {
   holderPersonId: string | null;
+  label?: string;
   lens: RecordsLensSelection;
   opponentName?: string | null;
   opponentPersonId?: string | null;
   personNames: ReadonlyMap<string, string>;
-  recordType: RecordType;
+  recordType: AllTimeRecordType;
   scoringPeriod?: number | null;
   season?: number | null;
   suffix: string;
@@ -280,7 +336,7 @@ function lensRecordEntry(input: {
     holderName: personName(input.personNames, input.holderPersonId),
     holderPersonId: input.holderPersonId,
     id: lensRecordId(input.lens, input.recordType, input.suffix),
-    label: recordLabel(input.recordType),
+    label: input.label ?? recordLabel(input.recordType),
     opponentName: input.opponentName ?? null,
     opponentPersonId: input.opponentPersonId ?? null,
     previousHolderName: null,
@@ -377,6 +433,35 @@ function countCatalogRecord(
   });
 }
 
+function customCatalogRecord(
+  entry: CustomRecordCatalogEntry,
+  lens: RecordsLensSelection,
+  personNames: ReadonlyMap<string, string>,
+): CurrentRecordBookEntry | null {
+  const leader = entry.leaders[0];
+  if (!leader) {
+    return null;
+  }
+  return lensRecordEntry({
+    holderPersonId: leader.personId,
+    label: entry.label,
+    lens,
+    opponentName: leader.opponentName,
+    opponentPersonId: leader.opponentPersonId,
+    personNames,
+    recordType: entry.recordType,
+    scoringPeriod: leader.scoringPeriod,
+    season: leader.season,
+    suffix: [
+      leader.personId,
+      leader.season ?? "all",
+      leader.scoringPeriod ?? "all",
+      leader.opponentPersonId ?? "field",
+    ].join("-"),
+    value: leader.value,
+  });
+}
+
 function compareRecordCandidate(
   left: {
     personId: string;
@@ -750,6 +835,9 @@ function derivedCurrentRecords(
       lens,
       personNames,
     ),
+    ...catalog.customRecords.map((entry) =>
+      customCatalogRecord(entry, lens, personNames),
+    ),
   ].filter((record): record is CurrentRecordBookEntry => Boolean(record));
 }
 
@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { useMemo, useState } from "react";
+import { type ReactNode, useMemo, useState } from "react";
 import type { KVItem } from "@/components/ui/kv";
 import {
   DataTable,
@@ -9,11 +9,19 @@ import {
   type DataTableSort,
   SignedValue,
 } from "@/components/ui/table";
+import { TableExportButtons } from "@/components/ui/table-export";
+import type { TableExportSchema } from "@/lib/table-export";
 import type {
   AllTimeStandingCatalogRow,
   HeadToHeadPairCatalogEntry,
   ManagerHeadToHeadLedgerEntry,
 } from "@/stats";
+import {
+  RECORDS_EXPORT_SCHEMAS,
+  type RecordsExportRows,
+  type RecordsExportTable,
+  type RecordsTableDownload,
+} from "./records-export";
 import {
   formatNumber,
   formatPercent,
@@ -49,6 +57,53 @@ function recordLabel(row: {
   return `${row.wins}-${row.losses}-${row.ties}`;
 }
 
+/** CSV and spreadsheet downloads of the rows a records table shows. */
+export function RecordsTableExport<Table extends RecordsExportTable>({
+  download,
+  rows,
+  table,
+}: {
+  readonly download: RecordsTableDownload;
+  readonly rows: readonly RecordsExportRows[Table][];
+  readonly table: Table;
+}) {
+  const schema = RECORDS_EXPORT_SCHEMAS[table] as TableExportSchema<
+    RecordsExportRows[Table]
+  >;
+  return (
+    <TableExportButtons
+      className="justify-end"
+      fileName={download.fileName}
+      label={schema.title.toLowerCase()}
+      notes={download.notes}
+      rows={rows}
+      schema={schema}
+    />
+  );
+}
+
+function ExportableTable<Table extends RecordsExportTable>({
+  children,
+  download,
+  rows,
+  table,
+}: {
+  readonly children: ReactNode;
+  readonly download: RecordsTableDownload | undefined;
+  readonly rows: readonly RecordsExportRows[Table][];
+  readonly table: Table;
+}) {
+  if (!download) {
+    return children;
+  }
+  return (
+    <div className="grid gap-2">
+      <RecordsTableExport download={download} rows={rows} table={table} />
+      {children}
+    </div>
+  );
+}
+
 function standingMobileRow(row: AllTimeStandingCatalogRow): {
   cells: readonly KVItem[];
   id: string;
@@ -108,10 +163,12 @@ function compareStandings(
 }
 
 export function AllTimeStandingsTable({
+  download,
   league,
   lens,
   rows,
 }: {
+  readonly download?: RecordsTableDownload;
   readonly league: RecordsLeagueSummary;
   readonly lens?: RecordsLensInput | null;
   readonly rows: readonly AllTimeStandingCatalogRow[];
@@ -201,18 +258,24 @@ export function AllTimeStandingsTable({
   ];
 
   return (
-    <DataTable
-      ariaLabel="All-time standings"
-      caption="Sortable all-time manager standings"
-      columns={columns}
-      empty="No all-time standings have been calculated yet."
-      getRowId={(row) => row.personId}
-      getRowName={(row) => row.personName}
-      mobileRows={sortedRows.map(standingMobileRow)}
-      onSortChange={setSort}
+    <ExportableTable
+      download={download}
       rows={sortedRows}
-      sort={sort}
-    />
+      table="allTimeStandings"
+    >
+      <DataTable
+        ariaLabel="All-time standings"
+        caption="Sortable all-time manager standings"
+        columns={columns}
+        empty="No all-time standings have been calculated yet."
+        getRowId={(row) => row.personId}
+        getRowName={(row) => row.personName}
+        mobileRows={sortedRows.map(standingMobileRow)}
+        onSortChange={setSort}
+        rows={sortedRows}
+        sort={sort}
+      />
+    </ExportableTable>
   );
 }
 
@@ -255,8 +318,10 @@ function compareSeasonLines(
 }
 
 export function ManagerSeasonTable({
+  download,
   rows,
 }: {
+  readonly download?: RecordsTableDownload;
   readonly rows: readonly ManagerSeasonLine[];
 }) {
   const [sort, setSort] = useState<DataTableSort | null>({
@@ -329,29 +394,35 @@ export function ManagerSeasonTable({
   ];
 
   return (
-    <DataTable
-      ariaLabel="Season by season"
-      caption="Sortable manager season lines"
-      columns={columns}
-      empty="No season lines have been calculated yet."
-      getRowId={(row) => String(row.season)}
-      getRowName={(row) => `Season ${row.season}`}
-      mobileRows={sortedRows.map((row) => ({
-        cells: [
-          { label: "Record", value: recordLabel(row) },
-          { label: "Win %", value: formatPercent(row.winPercentage) },
-          { label: "PF", value: formatNumber(row.pointsFor) },
-          { label: "PA", value: formatNumber(row.pointsAgainst) },
-          { label: "Finish", value: `#${row.finalRank}` },
-        ],
-        id: String(row.season),
-        meta: row.finalPlacement.replaceAll("_", " "),
-        title: `Season ${row.season}`,
-      }))}
-      onSortChange={setSort}
+    <ExportableTable
+      download={download}
       rows={sortedRows}
-      sort={sort}
-    />
+      table="managerSeasons"
+    >
+      <DataTable
+        ariaLabel="Season by season"
+        caption="Sortable manager season lines"
+        columns={columns}
+        empty="No season lines have been calculated yet."
+        getRowId={(row) => String(row.season)}
+        getRowName={(row) => `Season ${row.season}`}
+        mobileRows={sortedRows.map((row) => ({
+          cells: [
+            { label: "Record", value: recordLabel(row) },
+            { label: "Win %", value: formatPercent(row.winPercentage) },
+            { label: "PF", value: formatNumber(row.pointsFor) },
+            { label: "PA", value: formatNumber(row.pointsAgainst) },
+            { label: "Finish", value: `#${row.finalRank}` },
+          ],
+          id: String(row.season),
+          meta: row.finalPlacement.replaceAll("_", " "),
+          title: `Season ${row.season}`,
+        }))}
+        onSortChange={setSort}
+        rows={sortedRows}
+        sort={sort}
+      />
+    </ExportableTable>
   );
 }
 
@@ -393,11 +464,13 @@ function compareLedgers(
 }
 
 export function ManagerH2HLedgersTable({
+  download,
   league,
   lens,
   managerId,
   rows,
 }: {
+  readonly download?: RecordsTableDownload;
   readonly league: RecordsLeagueSummary;
   readonly lens?: RecordsLensInput | null;
   readonly managerId: string;
@@ -468,36 +541,42 @@ export function ManagerH2HLedgersTable({
   ];
 
   return (
-    <DataTable
-      ariaLabel="Head-to-head ledgers"
-      caption="Sortable head-to-head manager ledgers"
-      columns={columns}
-      empty="No head-to-head ledgers have been calculated yet."
-      getRowId={(row) => row.opponentPersonId}
-      getRowName={(row) => row.opponentName}
-      mobileRows={sortedRows.map((row) => ({
-        cells: [
-          { label: "Series", value: recordLabel(row) },
-          {
-            label: "Points",
-            value: `${formatNumber(row.pointsFor)} / ${formatNumber(row.pointsAgainst)}`,
-          },
-          { label: "High", value: formatNumber(row.highestScore) },
-          {
-            label: "Playoff",
-            value: `${row.playoffMeetings} / ${row.championshipMeetings}`,
-          },
-        ],
-        id: row.opponentPersonId,
-        meta: row.lastSeason
-          ? `Last ${row.lastSeason} W${row.lastScoringPeriod ?? "?"}`
-          : "No last meeting",
-        title: row.opponentName,
-      }))}
-      onSortChange={setSort}
+    <ExportableTable
+      download={download}
       rows={sortedRows}
-      sort={sort}
-    />
+      table="managerLedgers"
+    >
+      <DataTable
+        ariaLabel="Head-to-head ledgers"
+        caption="Sortable head-to-head manager ledgers"
+        columns={columns}
+        empty="No head-to-head ledgers have been calculated yet."
+        getRowId={(row) => row.opponentPersonId}
+        getRowName={(row) => row.opponentName}
+        mobileRows={sortedRows.map((row) => ({
+          cells: [
+            { label: "Series", value: recordLabel(row) },
+            {
+              label: "Points",
+              value: `${formatNumber(row.pointsFor)} / ${formatNumber(row.pointsAgainst)}`,
+            },
+            { label: "High", value: formatNumber(row.highestScore) },
+            {
+              label: "Playoff",
+              value: `${row.playoffMeetings} / ${row.championshipMeetings}`,
+            },
+          ],
+          id: row.opponentPersonId,
+          meta: row.lastSeason
+            ? `Last ${row.lastSeason} W${row.lastScoringPeriod ?? "?"}`
+            : "No last meeting",
+          title: row.opponentName,
+        }))}
+        onSortChange={setSort}
+        rows={sortedRows}
+        sort={sort}
+      />
+    </ExportableTable>
   );
 }
 
@@ -536,10 +615,12 @@ function compareSeasonPairs(
 }
 
 export function H2HSeasonPairsTable({
+  download,
   personAName,
   personBName,
   rows,
 }: {
+  readonly download?: RecordsTableDownload;
   readonly personAName: string;
   readonly personBName: string;
   readonly rows: readonly HeadToHeadPairCatalogEntry[];
@@ -600,36 +681,38 @@ export function H2HSeasonPairsTable({
   ];
 
   return (
-    <DataTable
-      ariaLabel="Season ledgers"
-      caption="Sortable head-to-head season ledgers"
-      columns={columns}
-      empty="No season ledgers have been calculated yet."
-      getRowId={(row) => String(row.season)}
-      getRowName={(row) => `Season ${row.season}`}
-      mobileRows={sortedRows.map((row) => ({
-        cells: [
-          {
-            label: personAName,
-            value: `${row.personA.wins}-${row.personA.losses}`,
-          },
-          {
-            label: personBName,
-            value: `${row.personB.wins}-${row.personB.losses}`,
-          },
-          { label: "Ties", value: row.ties },
-          {
-            label: "Points",
-            value: `${formatNumber(row.personA.points)} / ${formatNumber(row.personB.points)}`,
-          },
-        ],
-        id: String(row.season),
-        meta: `${row.playoffMeetings} playoff · ${row.championshipMeetings} title`,
-        title: `Season ${row.season}`,
-      }))}
-      onSortChange={setSort}
-      rows={sortedRows}
-      sort={sort}
-    />
+    <ExportableTable download={download} rows={sortedRows} table="seasonPairs">
+      <DataTable
+        ariaLabel="Season ledgers"
+        caption="Sortable head-to-head season ledgers"
+        columns={columns}
+        empty="No season ledgers have been calculated yet."
+        getRowId={(row) => String(row.season)}
+        getRowName={(row) => `Season ${row.season}`}
+        mobileRows={sortedRows.map((row) => ({
+          cells: [
+            {
+              label: personAName,
+              value: `${row.personA.wins}-${row.personA.losses}`,
+            },
+            {
+              label: personBName,
+              value: `${row.personB.wins}-${row.personB.losses}`,
+            },
+            { label: "Ties", value: row.ties },
+            {
+              label: "Points",
+              value: `${formatNumber(row.personA.points)} / ${formatNumber(row.personB.points)}`,
+            },
+          ],
+          id: String(row.season),
+          meta: `${row.playoffMeetings} playoff · ${row.championshipMeetings} title`,
+          title: `Season ${row.season}`,
+        }))}
+        onSortChange={setSort}
+        rows={sortedRows}
+        sort={sort}
+      />
+    </ExportableTable>
   );
 }
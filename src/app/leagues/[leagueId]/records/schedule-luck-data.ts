@@ -0,0 +1,88 @@
+import { eq } from "drizzle-orm";
+import type { Db } from "@/db/client";
+import { leagues } from "@/db/schema";
+import {
+  buildScheduleLuck,
+  composeCanonicalSnapshot,
+  personRowsFromSnapshot,
+  type SeasonScheduleLuck,
+  weeklyRowsFromSnapshot,
+} from "@/stats";
+import type { RecordsDataResult } from "./records-page-data";
+
+export type {
+  ScheduleLuckRecord,
+  ScheduleLuckStanding,
+  SeasonScheduleLuck,
+} from "@/stats";
+
+export interface ScheduleLuckPageData {
+  league: {
+    id: string;
+    name: string;
+    provider: string;
+    season: number;
+  };
+  /** Manager names by person id. */
+  managers: Record<string, string>;
+  seasons: number[];
+  selected: SeasonScheduleLuck | null;
+}
+
+export function scheduleLuckSeasonFromSearchParams(
+  searchParams:
+    | Record<string, string | string[] | undefined>
+    | null
+    | undefined,
+): number | null {
+  const raw = searchParams?.season;
+  const value = Number(Array.isArray(raw) ? raw[0] : raw);
+  return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+/**
+ * Reads the pushed canonical snapshot, like the record book, so alternate
+ * standings never disagree with the records they sit beside.
+ */
+export async function getScheduleLuckPageData(
+  db: Db,
+  input: { leagueId: string; season?: number | null },
+): Promise<RecordsDataResult<ScheduleLuckPageData>> {
+  const [league] = await db
+    .select({
+      id: leagues.id,
+      name: leagues.name,
+      provider: leagues.provider,
+      season: leagues.season,
+    })
+    .from(leagues)
+    .where(eq(leagues.id, input.leagueId))
+    .limit(1);
+
+  if (!league) {
+    return { status: "not_found" };
+  }
+
+  const snapshot = await composeCanonicalSnapshot(db, {
+    leagueId: input.leagueId,
+  });
+  const seasons = buildScheduleLuck(weeklyRowsFromSnapshot(snapshot));
+
+  return {
+    data: {
+      league,
+      managers: Object.fromEntries(
+        personRowsFromSnapshot(snapshot).map((person) => [
+          person.id,
+          person.name,
+        ]),
+      ),
+      seasons: seasons.map((row) => row.season),
+      selected:
+        seasons.find((row) => row.season === input.season) ??
+        seasons[0] ??
+        null,
+    },
+    status: "ready",
+  };
+}
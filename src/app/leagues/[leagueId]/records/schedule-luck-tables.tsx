@@ -0,0 +1,106 @@
+import {
+  DataTable,
+  type DataTableColumn,
+  SignedValue,
+} from "@/components/ui/table";
+import type { ScheduleLuckRecord, ScheduleLuckStanding } from "@/stats";
+import { formatNumber } from "./records-format";
+
+export function recordLabel(record: ScheduleLuckRecord): string {
+  return `${record.wins}-${record.losses}-${record.ties}`;
+}
+
+function signedLuck(value: number): string {
+  return `${value > 0 ? "+" : ""}${formatNumber(value)}`;
+}
+
+/**
+ * Alternate standings for one season, luckiest first. Shared by the record
+ * book's schedule-luck page and the data book's luck grain.
+ */
+export function ScheduleLuckStandingsTable({
+  managerName,
+  standings,
+}: {
+  readonly managerName: (personId: string) => string;
+  readonly standings: readonly ScheduleLuckStanding[];
+}) {
+  const columns: readonly DataTableColumn<ScheduleLuckStanding>[] = [
+    {
+      cell: (row) => (
+        <span className="font-medium">{managerName(row.personId)}</span>
+      ),
+      header: "Manager",
+      id: "manager",
+    },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{recordLabel(row.actual)}</span>,
+      header: "W-L-T",
+      id: "actual",
+    },
+    {
+      align: "right",
+      cell: (row) => <span className="metric">{recordLabel(row.allPlay)}</span>,
+      header: "All-play",
+      id: "all-play",
+    },
+    {
+      align: "right",
+      cell: (row) => (
+        <span className="metric">{recordLabel(row.medianStandings)}</span>
+      ),
+      header: "With median",
+      id: "median",
+    },
+    {
+      align: "right",
+      cell: (row) => formatNumber(row.expectedWins),
+      header: "Expected W",
+      id: "expected-wins",
+      priority: "desktop",
+    },
+    {
+      align: "right",
+      cell: (row) => formatNumber(row.scheduleSwapAverageWins),
+      header: "Avg W, any schedule",
+      id: "swap-average",
+      priority: "desktop",
+    },
+    {
+      align: "right",
+      cell: (row) => (
+        <SignedValue
+          tone={row.luck > 0 ? "positive" : row.luck < 0 ? "negative" : "muted"}
+        >
+          {signedLuck(row.luck)}
+        </SignedValue>
+      ),
+      header: "Luck",
+      id: "luck",
+    },
+  ];
+
+  return (
+    <DataTable
+      ariaLabel="Schedule luck standings"
+      caption="Head-to-head records beside all-play and median standings"
+      columns={columns}
+      empty="No regular-season games have been played yet."
+      getRowId={(row) => row.personId}
+      getRowName={(row) => managerName(row.personId)}
+      mobileRows={standings.map((row) => ({
+        cells: [
+          { label: "W-L-T", value: recordLabel(row.actual) },
+          { label: "All-play", value: recordLabel(row.allPlay) },
+          { label: "With median", value: recordLabel(row.medianStandings) },
+          { label: "Luck", value: signedLuck(row.luck) },
+        ],
+        id: row.personId,
+        meta: `${formatNumber(row.expectedWins)} expected wins`,
+        title: managerName(row.personId),
+      }))}
+      rows={standings}
+    />
+  );
+}
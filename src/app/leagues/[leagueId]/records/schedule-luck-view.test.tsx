@@ -0,0 +1,108 @@
+import { cleanup, render, screen, within } from "@testing-library/react";
+import { afterEach, expect, test } from "vitest";
+import type { ScheduleLuckPageData } from "./schedule-luck-data";
+import { ScheduleLuckView } from "./schedule-luck-view";
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+
+const data: ScheduleLuckPageData = {
+  league: {
+    id: leagueId,
+    name: "NHS Alumni Annual",
+    provider: "espn",
+    season: 2026,
+  },
+  managers: {
+    alpha: "Alex Alpha",
+    bravo: "Bea Bravo",
+  },
+  seasons: [2025, 2024],
+  selected: {
+    season: 2025,
+    standings: [
+      {
+        actual: { losses: 0, ties: 0, wins: 2 },
+        allPlay: { losses: 1, ties: 0, wins: 1 },
+        allPlayWinPercentage: 0.5,
+        expectedWins: 1,
+        luck: 1,
+        median: { losses: 1, ties: 0, wins: 1 },
+        medianStandings: { losses: 1, ties: 0, wins: 3 },
+        personId: "alpha",
+        pointsFor: 180,
+        scheduleSwapAverageWins: 1.5,
+      },
+      {
+        actual: { losses: 2, ties: 0, wins: 0 },
+        allPlay: { losses: 1, ties: 0, wins: 1 },
+        allPlayWinPercentage: 0.5,
+        expectedWins: 1,
+        luck: -1,
+        median: { losses: 1, ties: 0, wins: 1 },
+        medianStandings: { losses: 3, ties: 0, wins: 1 },
+        personId: "bravo",
+        pointsFor: 175,
+        scheduleSwapAverageWins: 0.5,
+      },
+    ],
+    swapMatrix: [
+      {
+        personId: "alpha",
+        schedules: [
+          {
+            record: { losses: 0, ties: 0, wins: 2 },
+            scheduleOwnerPersonId: "alpha",
+          },
+          {
+            record: { losses: 1, ties: 0, wins: 1 },
+            scheduleOwnerPersonId: "bravo",
+          },
+        ],
+      },
+      {
+        personId: "bravo",
+        schedules: [
+          {
+            record: { losses: 1, ties: 0, wins: 1 },
+            scheduleOwnerPersonId: "alpha",
+          },
+          {
+            record: { losses: 2, ties: 0, wins: 0 },
+            scheduleOwnerPersonId: "bravo",
+          },
+        ],
+      },
+    ],
+    weeks: 2,
+  },
+};
+
+afterEach(() => {
+  cleanup();
+});
+
+test("schedule luck shows alternate standings and the swap matrix", () => {
+  render(<ScheduleLuckView data={data} />);
+
+  expect(
+    screen.getByRole("heading", { name: "NHS Alumni Annual schedule luck" }),
+  ).toBeDefined();
+  const standings = within(
+    screen.getByRole("table", { name: "Schedule luck standings" }),
+  );
+  expect(standings.getByText("+1")).toBeDefined();
+  expect(standings.getByText("3-1-0")).toBeDefined();
+  const matrix = within(screen.getByRole("region", { name: "Schedule swap" }));
+  expect(matrix.getAllByText("1-1-0")).toHaveLength(2);
+  expect(matrix.getByRole("rowheader", { name: "Bea Bravo" })).toBeDefined();
+  expect(screen.getByRole("link", { name: "2024" }).getAttribute("href")).toBe(
+    `/leagues/${leagueId}/records/luck?season=2024`,
+  );
+});
+
+test("schedule luck explains a league without pushed seasons", () => {
+  render(<ScheduleLuckView data={{ ...data, seasons: [], selected: null }} />);
+
+  expect(screen.getByText("No pushed seasons yet")).toBeDefined();
+  expect(screen.queryByRole("navigation", { name: "Luck seasons" })).toBeNull();
+});
@@ -0,0 +1,202 @@
+import { ArrowLeft, BookOpen, Dices } from "lucide-react";
+import Link from "next/link";
+import { buttonVariants } from "@/components/ui/button";
+import { EmptyState } from "@/components/ui/empty-state";
+import { StatTile } from "@/components/ui/stat-tile";
+import { cn } from "@/lib/utils";
+import {
+  formatNumber,
+  leagueRecordsHref,
+  scheduleLuckHref,
+} from "./records-format";
+import type {
+  ScheduleLuckPageData,
+  SeasonScheduleLuck,
+} from "./schedule-luck-data";
+import {
+  recordLabel,
+  ScheduleLuckStandingsTable,
+} from "./schedule-luck-tables";
+
+function SwapMatrix({
+  luck,
+  managerName,
+}: {
+  luck: SeasonScheduleLuck;
+  managerName: (personId: string) => string;
+}) {
+  return (
+    <section aria-label="Schedule swap" className="panel grid gap-3 p-4">
+      <div>
+        <p className="eyebrow text-primary">Schedule swap</p>
+        <h2 className="heading-auspex text-lg leading-tight">
+          Every team on every schedule
+        </h2>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Each row replays that team's scores against the opponents in each
+          column's schedule. The diagonal is what actually happened.
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[36rem] border-collapse text-sm">
+          <thead>
+            <tr>
+              <th className="p-2 text-left font-mono text-xs uppercase tracking-[0.12em] text-ink-4">
+                Team / schedule
+              </th>
+              {luck.swapMatrix.map((row) => (
+                <th
+                  className="p-2 text-right font-mono text-xs uppercase tracking-[0.12em] text-ink-4"
+                  key={row.personId}
+                  scope="col"
+                >
+                  {managerName(row.personId)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {luck.swapMatrix.map((row) => (
+              <tr
+                className="border-t border-[var(--hair-2)]"
+                key={row.personId}
+              >
+                <th className="p-2 text-left font-medium" scope="row">
+                  {managerName(row.personId)}
+                </th>
+                {row.schedules.map((cell) => (
+                  <td
+                    className={cn(
+                      "metric p-2 text-right",
+                      cell.scheduleOwnerPersonId === row.personId
+                        ? "text-primary"
+                        : "text-muted-foreground",
+                    )}
+                    key={cell.scheduleOwnerPersonId}
+                  >
+                    {recordLabel(cell.record)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+export function ScheduleLuckView({ data }: { data: ScheduleLuckPageData }) {
+  const managerName = (personId: string) =>
+    data.managers[personId] ?? "Unknown manager";
+  const luck = data.selected;
+  const luckiest = luck?.standings[0] ?? null;
+  const unluckiest = luck?.standings.at(-1) ?? null;
+
+  return (
+    <main className="mx-auto flex min-h-dvh w-full max-w-6xl flex-col gap-7 px-4 py-5 pb-[calc(--spacing(6)+env(safe-area-inset-bottom))] sm:px-6">
+      <header className="panel grid gap-4 p-4">
+        <div className="flex flex-wrap gap-2">
+          <Link
+            href={leagueRecordsHref(data.league)}
+            className={cn(
+              buttonVariants({ className: "w-fit", variant: "ghost" }),
+            )}
+          >
+            <ArrowLeft data-icon="inline-start" />
+            Records
+          </Link>
+          <Link
+            href={`/leagues/${data.league.id}`}
+            className={cn(
+              buttonVariants({ className: "w-fit", variant: "outline" }),
+            )}
+          >
+            <BookOpen data-icon="inline-start" />
+            League home
+          </Link>
+        </div>
+        <div className="grid gap-3">
+          <div className="flex items-center gap-2 text-primary">
+            <Dices className="size-5" aria-hidden="true" />
+            <p className="eyebrow">Schedule luck</p>
+          </div>
+          <div className="max-w-2xl">
+            <h1 className="heading-auspex text-xl leading-tight">
+              {data.league.name} schedule luck
+            </h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              What the regular season looks like if everyone played everyone,
+              played the weekly median, or swapped schedules. Read from pushed
+              history only.
+            </p>
+          </div>
+          {data.seasons.length > 1 ? (
+            <nav aria-label="Luck seasons" className="flex flex-wrap gap-2">
+              {data.seasons.map((season) => (
+                <Link
+                  aria-current={luck?.season === season ? "page" : undefined}
+                  className={cn(
+                    buttonVariants({
+                      size: "sm",
+                      variant: luck?.season === season ? "outline" : "ghost",
+                    }),
+                  )}
+                  href={scheduleLuckHref(data.league, season)}
+                  key={season}
+                >
+                  {season}
+                </Link>
+              ))}
+            </nav>
+          ) : null}
+        </div>
+      </header>
+
+      {luck ? (
+        <>
+          <section className="grid gap-3 sm:grid-cols-3">
+            <StatTile label="Season" value={`${luck.season}`} />
+            <StatTile
+              caption={
+                luckiest
+                  ? `${formatNumber(luckiest.expectedWins)} expected wins`
+                  : undefined
+              }
+              label="Luckiest"
+              value={luckiest ? managerName(luckiest.personId) : "-"}
+            />
+            <StatTile
+              caption={
+                unluckiest
+                  ? `${formatNumber(unluckiest.expectedWins)} expected wins`
+                  : undefined
+              }
+              label="Unluckiest"
+              value={unluckiest ? managerName(unluckiest.personId) : "-"}
+            />
+          </section>
+          <section aria-label="Alternate standings" className="grid gap-3">
+            <div>
+              <p className="eyebrow text-primary">Alternate standings</p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                {luck.weeks} regular-season weeks. Luck is actual wins minus the
+                wins those scores earn against an average opponent.
+              </p>
+            </div>
+            <ScheduleLuckStandingsTable
+              managerName={managerName}
+              standings={luck.standings}
+            />
+          </section>
+          <SwapMatrix luck={luck} managerName={managerName} />
+        </>
+      ) : (
+        <EmptyState title="No pushed seasons yet">
+          Schedule luck appears once a season with regular-season games has been
+          pushed from the Data Book.
+        </EmptyState>
+      )}
+    </main>
+  );
+}
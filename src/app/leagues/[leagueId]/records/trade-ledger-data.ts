@@ -0,0 +1,99 @@
+import { eq } from "drizzle-orm";
+import type { Db } from "@/db/client";
+import { leagues } from "@/db/schema";
+import { listTradeLedger, type TradeLedgerEntry } from "@/stats";
+import type { RecordsDataResult } from "./records-page-data";
+
+export type {
+  TradeLedgerEntry,
+  TradeLedgerSide,
+  TradeLedgerVerdict,
+} from "@/stats";
+
+export interface TradeLedgerPageData {
+  league: {
+    id: string;
+    name: string;
+    provider: string;
+    season: number;
+  };
+  seasons: number[];
+  selectedSeason: number | null;
+  summary: {
+    final: number;
+    inProgress: number;
+    pending: number;
+    verdictsCalled: number;
+    verdictsMissed: number;
+  };
+  trades: TradeLedgerEntry[];
+}
+
+export function tradeLedgerSeasonFromSearchParams(
+  searchParams:
+    | Record<string, string | string[] | undefined>
+    | null
+    | undefined,
+): number | null {
+  const raw = searchParams?.season;
+  const value = Number(Array.isArray(raw) ? raw[0] : raw);
+  return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+export function summarizeTradeLedger(
+  trades: readonly TradeLedgerEntry[],
+): TradeLedgerPageData["summary"] {
+  return {
+    final: trades.filter((trade) => trade.status === "final").length,
+    inProgress: trades.filter((trade) => trade.status === "in_progress").length,
+    pending: trades.filter((trade) => trade.status === "pending").length,
+    verdictsCalled: trades.filter(
+      (trade) => trade.verdict?.matchesLedger === true,
+    ).length,
+    verdictsMissed: trades.filter(
+      (trade) => trade.verdict?.matchesLedger === false,
+    ).length,
+  };
+}
+
+export async function getTradeLedgerPageData(
+  db: Db,
+  input: { leagueId: string; season?: number | null },
+): Promise<RecordsDataResult<TradeLedgerPageData>> {
+  const [league] = await db
+    .select({
+      id: leagues.id,
+      name: leagues.name,
+      provider: leagues.provider,
+      season: leagues.season,
+    })
+    .from(leagues)
+    .where(eq(leagues.id, input.leagueId))
+    .limit(1);
+
+  if (!league) {
+    return { status: "not_found" };
+  }
+
+  const allTrades = await listTradeLedger(db, { leagueId: input.leagueId });
+  const seasons = [...new Set(allTrades.map((trade) => trade.season))].sort(
+    (left, right) => right - left,
+  );
+  const selectedSeason =
+    input.season && seasons.includes(input.season) ? input.season : null;
+  const trades =
+    selectedSeason === null
+      ? allTrades
+      : allTrades.filter((trade) => trade.season === selectedSeason);
+
+  return {
+    data: {
+      league,
+      seasons,
+      selectedSeason,
+      summary: summarizeTradeLedger(trades),
+      trades,
+    },
+    status: "ready",
+  };
+}
@@ -0,0 +1,142 @@
+import { cleanup, render, screen } from "@testing-library/react";
+import { afterEach, expect, test } from "vitest";
+import type { TradeLedgerPageData } from "./trade-ledger-data";
+import { TradeLedgerView } from "./trade-ledger-view";
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+
+const data: TradeLedgerPageData = {
+  league: {
+    id: leagueId,
+    name: "NHS Alumni Annual",
+    provider: "espn",
+    season: 2026,
+  },
+  seasons: [2026, 2025],
+  selectedSeason: null,
+  summary: {
+    final: 1,
+    inProgress: 1,
+    pending: 0,
+    verdictsCalled: 0,
+    verdictsMissed: 1,
+  },
+  trades: [
+    {
+      fantasyTransactionId: "00000000-0000-4000-8000-000000000301",
+      margin: 18.5,
+      occurredAt: "2026-10-07T12:00:00.000Z",
+      scoringPeriod: 5,
+      season: 2026,
+      sides: [
+        {
+          acquiredPlayers: [{ name: "Alpha Receiver", providerPlayerId: "1" }],
+          cumulativePoints: [
+            { points: 20, scoringPeriod: 5 },
+            { points: 44.5, scoringPeriod: 6 },
+          ],
+          points: 44.5,
+          providerTeamId: "1",
+          teamName: "Gridiron Ghosts",
+        },
+        {
+          acquiredPlayers: [{ name: "Beta Runner", providerPlayerId: "2" }],
+          cumulativePoints: [
+            { points: 12, scoringPeriod: 5 },
+            { points: 26, scoringPeriod: 6 },
+          ],
+          points: 26,
+          providerTeamId: "2",
+          teamName: "Fourth and Long",
+        },
+      ],
+      status: "in_progress",
+      throughScoringPeriod: 6,
+      untrackedPlayers: [{ name: "Gamma Kicker", providerPlayerId: "3" }],
+      verdict: {
+        contentItemId: "00000000-0000-4000-8000-000000000401",
+        grade: "B+",
+        matchesLedger: false,
+        title: "Fourth and Long fleece the Ghosts",
+        winner: "Fourth and Long",
+      },
+      winnerProviderTeamId: "1",
+      winnerTeamName: "Gridiron Ghosts",
+    },
+    {
+      fantasyTransactionId: "00000000-0000-4000-8000-000000000302",
+      margin: 0,
+      occurredAt: "2025-11-02T12:00:00.000Z",
+      scoringPeriod: 9,
+      season: 2025,
+      sides: [
+        {
+          acquiredPlayers: [],
+          cumulativePoints: [],
+          points: 0,
+          providerTeamId: "3",
+          teamName: "Team 3",
+        },
+        {
+          acquiredPlayers: [],
+          cumulativePoints: [],
+          points: 0,
+          providerTeamId: "4",
+          teamName: "Team 4",
+        },
+      ],
+      status: "final",
+      throughScoringPeriod: null,
+      untrackedPlayers: [],
+      verdict: null,
+      winnerProviderTeamId: null,
+      winnerTeamName: null,
+    },
+  ],
+};
+
+afterEach(() => {
+  cleanup();
+});
+
+test("trade ledger shows each side, the leader, and the press box call", () => {
+  render(<TradeLedgerView data={data} />);
+
+  expect(
+    screen.getByRole("heading", { name: "NHS Alumni Annual trades" }),
+  ).toBeDefined();
+  expect(screen.getByText("Gridiron Ghosts leads by 18.50")).toBeDefined();
+  expect(screen.getByText("2026 - Week 5 - through Week 6")).toBeDefined();
+  expect(screen.getByText("Got Alpha Receiver")).toBeDefined();
+  expect(screen.getByText("Not graded: Gamma Kicker")).toBeDefined();
+  expect(screen.getByText("Missed")).toBeDefined();
+  expect(screen.getByText("0-1")).toBeDefined();
+  expect(screen.getByText("Dead even so far")).toBeDefined();
+  expect(screen.getByRole("link", { name: "2025" }).getAttribute("href")).toBe(
+    `/leagues/${leagueId}/records/trades?season=2025`,
+  );
+});
+
+test("trade ledger explains an empty league", () => {
+  render(
+    <TradeLedgerView
+      data={{
+        ...data,
+        seasons: [],
+        summary: {
+          final: 0,
+          inProgress: 0,
+          pending: 0,
+          verdictsCalled: 0,
+          verdictsMissed: 0,
+        },
+        trades: [],
+      }}
+    />,
+  );
+
+  expect(screen.getByText("No trades yet")).toBeDefined();
+  expect(
+    screen.queryByRole("navigation", { name: "Trade seasons" }),
+  ).toBeNull();
+});
@@ -0,0 +1,243 @@
+import { ArrowLeft, ArrowRightLeft, BookOpen } from "lucide-react";
+import Link from "next/link";
+import { buttonVariants } from "@/components/ui/button";
+import { Chart } from "@/components/ui/chart";
+import { Edge } from "@/components/ui/edge";
+import { EmptyState } from "@/components/ui/empty-state";
+import { StatTile } from "@/components/ui/stat-tile";
+import { StatusPill } from "@/components/ui/status-pill";
+import { cn } from "@/lib/utils";
+import { formatNumber, leagueRecordsHref, tradesHref } from "./records-format";
+import type {
+  TradeLedgerEntry,
+  TradeLedgerPageData,
+  TradeLedgerVerdict,
+} from "./trade-ledger-data";
+
+const STATUS_LABELS: Record<TradeLedgerEntry["status"], string> = {
+  final: "Final",
+  in_progress: "In progress",
+  pending: "Pending",
+};
+
+function tradeContext(trade: TradeLedgerEntry): string {
+  const through = trade.throughScoringPeriod
+    ? `through Week ${trade.throughScoringPeriod}`
+    : "no weeks played since";
+  return [
+    trade.season,
+    trade.scoringPeriod ? `Week ${trade.scoringPeriod}` : null,
+    through,
+  ]
+    .filter(Boolean)
+    .join(" - ");
+}
+
+function VerdictLine({ verdict }: { verdict: TradeLedgerVerdict }) {
+  const tone =
+    verdict.matchesLedger === null
+      ? "neutral"
+      : verdict.matchesLedger
+        ? "success"
+        : "danger";
+  const label =
+    verdict.matchesLedger === null
+      ? "Too early"
+      : verdict.matchesLedger
+        ? "Called it"
+        : "Missed";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <StatusPill tone={tone}>{label}</StatusPill>
+      <p className="text-muted-foreground">
+        Press box picked {verdict.winner}
+        {verdict.grade ? ` (${verdict.grade})` : ""} in "{verdict.title}"
+      </p>
+    </div>
+  );
+}
+
+function TradeCard({ trade }: { trade: TradeLedgerEntry }) {
+  const weeksPlayed = trade.sides.some(
+    (side) => side.cumulativePoints.length > 1,
+  );
+
+  return (
+    <article className="panel grid gap-4 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium">{tradeContext(trade)}</p>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {trade.winnerTeamName
+              ? `${trade.winnerTeamName} leads by ${formatNumber(trade.margin)}`
+              : "Dead even so far"}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <StatusPill tone={trade.status === "final" ? "info" : "neutral"}>
+            {STATUS_LABELS[trade.status]}
+          </StatusPill>
+          {trade.winnerTeamName ? (
+            <Edge
+              eyebrow="margin"
+              tone="positive"
+              value={formatNumber(trade.margin)}
+            />
+          ) : null}
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {trade.sides.map((side) => (
+          <div className="cell grid gap-2 p-3" key={side.providerTeamId}>
+            <div className="flex items-center justify-between gap-3">
+              <p className="font-display text-base font-medium">
+                {side.teamName}
+              </p>
+              <p className="metric text-sm font-semibold">
+                {formatNumber(side.points)}
+              </p>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Got{" "}
+              {side.acquiredPlayers.length > 0
+                ? side.acquiredPlayers.map((player) => player.name).join(", ")
+                : "nothing tracked"}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {weeksPlayed ? (
+        <Chart
+          spec={{
+            kind: "multi-line",
+            series: trade.sides.map((side) => ({
+              data: side.cumulativePoints.map((week) => ({
+                label: `W${week.scoringPeriod}`,
+                value: week.points,
+              })),
+              emphasized: side.providerTeamId === trade.winnerProviderTeamId,
+              id: side.providerTeamId,
+              label: side.teamName,
+            })),
+            title: "Points since the trade",
+          }}
+        />
+      ) : null}
+
+      {trade.untrackedPlayers.length > 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Not graded:{" "}
+          {trade.untrackedPlayers.map((player) => player.name).join(", ")}
+        </p>
+      ) : null}
+
+      {trade.verdict ? <VerdictLine verdict={trade.verdict} /> : null}
+    </article>
+  );
+}
+
+export function TradeLedgerView({ data }: { data: TradeLedgerPageData }) {
+  return (
+    <main className="mx-auto flex min-h-dvh w-full max-w-6xl flex-col gap-7 px-4 py-5 pb-[calc(--spacing(6)+env(safe-area-inset-bottom))] sm:px-6">
+      <header className="panel grid gap-4 p-4">
+        <div className="flex flex-wrap gap-2">
+          <Link
+            href={leagueRecordsHref(data.league)}
+            className={cn(
+              buttonVariants({ className: "w-fit", variant: "ghost" }),
+            )}
+          >
+            <ArrowLeft data-icon="inline-start" />
+            Records
+          </Link>
+          <Link
+            href={`/leagues/${data.league.id}`}
+            className={cn(
+              buttonVariants({ className: "w-fit", variant: "outline" }),
+            )}
+          >
+            <BookOpen data-icon="inline-start" />
+            League home
+          </Link>
+        </div>
+        <div className="grid gap-3">
+          <div className="flex items-center gap-2 text-primary">
+            <ArrowRightLeft className="size-5" aria-hidden="true" />
+            <p className="eyebrow">Trade ledger</p>
+          </div>
+          <div className="max-w-2xl">
+            <h1 className="heading-auspex text-xl leading-tight">
+              {data.league.name} trades
+            </h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Every trade graded by the points each side got after the deal.
+              Trades go final when their season ends.
+            </p>
+          </div>
+          {data.seasons.length > 1 ? (
+            <nav aria-label="Trade seasons" className="flex flex-wrap gap-2">
+              <Link
+                aria-current={data.selectedSeason === null ? "page" : undefined}
+                className={cn(
+                  buttonVariants({
+                    size: "sm",
+                    variant: data.selectedSeason === null ? "outline" : "ghost",
+                  }),
+                )}
+                href={tradesHref(data.league)}
+              >
+                All seasons
+              </Link>
+              {data.seasons.map((season) => (
+                <Link
+                  aria-current={
+                    data.selectedSeason === season ? "page" : undefined
+                  }
+                  className={cn(
+                    buttonVariants({
+                      size: "sm",
+                      variant:
+                        data.selectedSeason === season ? "outline" : "ghost",
+                    }),
+                  )}
+                  href={tradesHref(data.league, season)}
+                  key={season}
+                >
+                  {season}
+                </Link>
+              ))}
+            </nav>
+          ) : null}
+        </div>
+      </header>
+
+      <section className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <StatTile label="Trades" value={`${data.trades.length}`} />
+        <StatTile label="Final" value={`${data.summary.final}`} />
+        <StatTile
+          label="Still playing out"
+          value={`${data.summary.inProgress + data.summary.pending}`}
+        />
+        <StatTile
+          label="Press box calls"
+          value={`${data.summary.verdictsCalled}-${data.summary.verdictsMissed}`}
+        />
+      </section>
+
+      {data.trades.length > 0 ? (
+        <section className="grid gap-4">
+          {data.trades.map((trade) => (
+            <TradeCard key={trade.fantasyTransactionId} trade={trade} />
+          ))}
+        </section>
+      ) : (
+        <EmptyState title="No trades yet">
+          Trades show up here after the next sync picks them up.
+        </EmptyState>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,76 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import { requireLeagueRole } from "@/auth/guards";
+import { getDb } from "@/db";
+import { markLeagueOpened } from "@/navigation/league-switcher-data";
+import {
+  type LeagueDeepLinkSearchParams,
+  redirectToLeagueDeepLinkOnboarding,
+} from "../../league-deep-link-routing";
+import { LeagueSectionAccessState } from "../../league-section-access-state";
+import {
+  getTradeLedgerPageData,
+  tradeLedgerSeasonFromSearchParams,
+} from "../trade-ledger-data";
+import { TradeLedgerView } from "../trade-ledger-view";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Trades | Rumbledore",
+  description: "Every trade in this league, graded by what each side got.",
+};
+
+interface TradeLedgerPageProps {
+  params: Promise<{ leagueId: string }>;
+  searchParams?: Promise<LeagueDeepLinkSearchParams>;
+}
+
+export default async function TradeLedgerPage({
+  params,
+  searchParams,
+}: TradeLedgerPageProps) {
+  const { leagueId } = await params;
+  const query = await searchParams;
+  const db = getDb();
+  const access = await requireLeagueRole({
+    db,
+    headers: await headers(),
+    leagueId,
+    permission: "league:view",
+  });
+
+  if (!access.ok) {
+    if (access.error.code === "INVALID_LEAGUE_ID") {
+      notFound();
+    }
+    if (access.error.status === 401) {
+      redirectToLeagueDeepLinkOnboarding({
+        leagueId,
+        searchParams: query,
+        segments: ["records", "trades"],
+      });
+    }
+    return (
+      <LeagueSectionAccessState
+        title="No league access"
+        body="This account is not a member of that league."
+      />
+    );
+  }
+
+  await markLeagueOpened(db, { leagueId, userId: access.value.userId });
+
+  const result = await getTradeLedgerPageData(db, {
+    leagueId,
+    season: tradeLedgerSeasonFromSearchParams(query),
+  });
+
+  switch (result.status) {
+    case "ready":
+      return <TradeLedgerView data={result.data} />;
+    case "not_found":
+      notFound();
+  }
+}
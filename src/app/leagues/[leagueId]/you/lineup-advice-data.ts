@@ -0,0 +1,51 @@
+import { eq } from "drizzle-orm";
+import type { Db } from "@/db/client";
+import { leagues } from "@/db/schema";
+import { getLineupAdvice, type LineupAdviceResult } from "@/stats";
+
+export type {
+  LineupAdvice,
+  LineupAdvicePlayer,
+  LineupAdviceResult,
+  LineupWaiverTarget,
+} from "@/stats";
+
+export interface LineupAdvicePageData {
+  advice: LineupAdviceResult;
+  league: {
+    id: string;
+    name: string;
+    season: number;
+  };
+}
+
+export type LineupAdvicePageResult =
+  | { data: LineupAdvicePageData; status: "ready" }
+  | { status: "not_found" };
+
+export async function getLineupAdvicePageData(
+  db: Db,
+  input: { leagueId: string; userId: string },
+): Promise<LineupAdvicePageResult> {
+  const [league] = await db
+    .select({
+      id: leagues.id,
+      name: leagues.name,
+      season: leagues.season,
+    })
+    .from(leagues)
+    .where(eq(leagues.id, input.leagueId))
+    .limit(1);
+
+  if (!league) {
+    return { status: "not_found" };
+  }
+
+  return {
+    data: {
+      advice: await getLineupAdvice(db, input),
+      league,
+    },
+    status: "ready",
+  };
+}
@@ -0,0 +1,99 @@
+import { cleanup, render, screen, within } from "@testing-library/react";
+import { afterEach, expect, test } from "vitest";
+import type {
+  LineupAdvicePageData,
+  LineupAdvicePlayer,
+} from "./lineup-advice-data";
+import { LineupAdviceView } from "./lineup-advice-view";
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const league = { id: leagueId, name: "NHS Alumni Annual", season: 2026 };
+
+function player(
+  fullName: string,
+  position: string,
+  projectedPoints: number,
+  overrides: Partial<LineupAdvicePlayer> = {},
+): LineupAdvicePlayer {
+  return {
+    fullName,
+    matchupFactor: 1,
+    nflPlayerId: `nfl-${fullName}`,
+    nflTeam: "KC",
+    onBye: false,
+    opponent: "BUF",
+    position,
+    projectedPoints,
+    providerPlayerId: fullName,
+    recentAverage: projectedPoints,
+    recentGames: 3,
+    ...overrides,
+  };
+}
+
+const starter = player("Star Back", "RB", 18.4);
+const slumping = player("Slumping Back", "RB", 6, { onBye: true });
+const bench = player("Bench Receiver", "WR", 12.2);
+
+afterEach(() => {
+  cleanup();
+});
+
+test("shows the recommended lineup, start/sit moves and waiver targets", () => {
+  const data: LineupAdvicePageData = {
+    advice: {
+      advice: {
+        lineup: [
+          { current: starter, recommended: starter, slot: "RB" },
+          { current: slumping, recommended: bench, slot: "FLEX" },
+        ],
+        scoring: "league",
+        scoringPeriod: 7,
+        season: 2026,
+        sit: [slumping],
+        start: [bench],
+        team: { name: "Gridiron Ghosts", providerTeamId: "1" },
+        waivers: [
+          {
+            gain: 3.5,
+            player: player("Breakout Receiver", "WR", 15.7, {
+              providerPlayerId: null,
+            }),
+            replaces: bench,
+          },
+        ],
+      },
+      status: "ready",
+    },
+    league,
+  };
+
+  render(<LineupAdviceView data={data} />);
+
+  expect(
+    screen.getByRole("heading", { name: "Gridiron Ghosts" }),
+  ).toBeDefined();
+  expect(screen.getByText("League scoring rules")).toBeDefined();
+  expect(
+    within(screen.getByRole("region", { name: "Start" })).getByText(
+      "Bench Receiver",
+    ),
+  ).toBeDefined();
+  expect(
+    within(screen.getByRole("region", { name: "Sit" })).getByText(
+      "RB - KC - Bye",
+    ),
+  ).toBeDefined();
+  const waivers = screen.getByRole("region", { name: "Waiver targets" });
+  expect(within(waivers).getByText("Breakout Receiver")).toBeDefined();
+  expect(within(waivers).getByText("Replaces Bench Receiver")).toBeDefined();
+});
+
+test("asks the member to claim a team before advising", () => {
+  render(<LineupAdviceView data={{ advice: { status: "no_team" }, league }} />);
+
+  expect(screen.getByText("Claim your team first")).toBeDefined();
+  expect(
+    screen.getByRole("heading", { name: "NHS Alumni Annual" }),
+  ).toBeDefined();
+});
@@ -0,0 +1,244 @@
+import { ArrowLeft, ClipboardList } from "lucide-react";
+import Link from "next/link";
+import { buttonVariants } from "@/components/ui/button";
+import { Edge } from "@/components/ui/edge";
+import { EmptyState } from "@/components/ui/empty-state";
+import { StatTile } from "@/components/ui/stat-tile";
+import { StatusPill } from "@/components/ui/status-pill";
+import { cn } from "@/lib/utils";
+import { formatNumber } from "../records/records-format";
+import type {
+  LineupAdvice,
+  LineupAdvicePageData,
+  LineupAdvicePlayer,
+} from "./lineup-advice-data";
+
+function matchupLabel(player: LineupAdvicePlayer): string {
+  if (player.onBye) {
+    return "Bye";
+  }
+  return player.opponent ? `vs ${player.opponent}` : "Opponent TBD";
+}
+
+function PlayerLine({ player }: { player: LineupAdvicePlayer }) {
+  return (
+    <div className="flex min-w-0 items-center justify-between gap-3">
+      <div className="min-w-0">
+        <p className="truncate text-sm font-medium">{player.fullName}</p>
+        <p className="text-xs text-muted-foreground">
+          {player.position}
+          {player.nflTeam ? ` - ${player.nflTeam}` : ""} -{" "}
+          {matchupLabel(player)}
+        </p>
+      </div>
+      <p className="metric text-sm font-semibold">
+        {formatNumber(player.projectedPoints, 1)}
+      </p>
+    </div>
+  );
+}
+
+function LineupTable({ advice }: { advice: LineupAdvice }) {
+  return (
+    <section aria-label="Recommended lineup" className="panel grid gap-3 p-4">
+      <div>
+        <p className="eyebrow text-primary">Best lineup</p>
+        <h2 className="heading-auspex text-lg leading-tight">
+          Week {advice.scoringPeriod} projections
+        </h2>
+      </div>
+      <ul className="grid gap-2">
+        {advice.lineup.map((slot, index) => {
+          const changed =
+            slot.recommended !== null &&
+            slot.recommended.providerPlayerId !== slot.current.providerPlayerId;
+          return (
+            <li
+              className="cell grid grid-cols-[3.5rem_1fr] items-center gap-3 p-3"
+              key={`${slot.slot}-${index}`}
+            >
+              <StatusPill tone={changed ? "info" : "neutral"}>
+                {slot.slot}
+              </StatusPill>
+              {slot.recommended ? (
+                <PlayerLine player={slot.recommended} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No eligible player
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
+
+function MoveList({
+  empty,
+  players,
+  title,
+}: {
+  empty: string;
+  players: readonly LineupAdvicePlayer[];
+  title: string;
+}) {
+  return (
+    <section aria-label={title} className="panel grid content-start gap-3 p-4">
+      <p className="eyebrow text-primary">{title}</p>
+      {players.length > 0 ? (
+        <ul className="grid gap-2">
+          {players.map((player) => (
+            <li
+              className="cell p-3"
+              key={player.nflPlayerId ?? player.fullName}
+            >
+              <PlayerLine player={player} />
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">{empty}</p>
+      )}
+    </section>
+  );
+}
+
+function WaiverList({ advice }: { advice: LineupAdvice }) {
+  return (
+    <section aria-label="Waiver targets" className="panel grid gap-3 p-4">
+      <div>
+        <p className="eyebrow text-primary">Waiver wire</p>
+        <h2 className="heading-auspex text-lg leading-tight">
+          Unrostered upgrades
+        </h2>
+      </div>
+      {advice.waivers.length > 0 ? (
+        <ol className="grid gap-2">
+          {advice.waivers.map((target) => (
+            <li
+              className="cell grid gap-2 p-3"
+              key={target.player.nflPlayerId ?? target.player.fullName}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <PlayerLine player={target.player} />
+                <Edge
+                  eyebrow="gain"
+                  tone="positive"
+                  value={formatNumber(target.gain, 1)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {target.replaces
+                  ? `Replaces ${target.replaces.fullName}`
+                  : "Fills an empty slot"}
+              </p>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Nobody on the wire projects above your current starters.
+        </p>
+      )}
+    </section>
+  );
+}
+
+export function LineupAdviceView({ data }: { data: LineupAdvicePageData }) {
+  const { advice } = data;
+
+  return (
+    <main className="mx-auto flex min-h-dvh w-full max-w-6xl flex-col gap-7 px-4 py-5 pb-[calc(--spacing(6)+env(safe-area-inset-bottom))] sm:px-6">
+      <header className="panel grid gap-4 p-4">
+        <Link
+          href={`/leagues/${data.league.id}`}
+          className={cn(
+            buttonVariants({ className: "w-fit", variant: "ghost" }),
+          )}
+        >
+          <ArrowLeft data-icon="inline-start" />
+          League home
+        </Link>
+        <div className="grid gap-3">
+          <div className="flex items-center gap-2 text-primary">
+            <ClipboardList className="size-5" aria-hidden="true" />
+            <p className="eyebrow">Your team</p>
+          </div>
+          <div className="max-w-2xl">
+            <h1 className="heading-auspex text-xl leading-tight">
+              {advice.status === "ready"
+                ? advice.advice.team.name
+                : data.league.name}
+            </h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Projections average each player's last three games under this
+              league's scoring, adjusted for how many points this week's
+              opponent has allowed. Kickers and defenses are left as set.
+            </p>
+          </div>
+        </div>
+      </header>
+
+      {advice.status === "ready" ? (
+        <>
+          <section className="grid gap-3 sm:grid-cols-3">
+            <StatTile
+              label="Projected"
+              value={formatNumber(
+                advice.advice.lineup.reduce(
+                  (total, slot) =>
+                    total + (slot.recommended?.projectedPoints ?? 0),
+                  0,
+                ),
+                1,
+              )}
+            />
+            <StatTile
+              label="Lineup moves"
+              value={`${advice.advice.start.length}`}
+            />
+            <StatTile
+              caption={
+                advice.advice.scoring === "league"
+                  ? "League scoring rules"
+                  : "Stat source points"
+              }
+              label="Scoring"
+              value={`${advice.advice.season}`}
+            />
+          </section>
+          <div className="grid gap-4 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+            <LineupTable advice={advice.advice} />
+            <div className="grid content-start gap-4">
+              <MoveList
+                empty="Your lineup is already the best projected lineup."
+                players={advice.advice.start}
+                title="Start"
+              />
+              <MoveList
+                empty="Nobody to bench."
+                players={advice.advice.sit}
+                title="Sit"
+              />
+            </div>
+          </div>
+          <WaiverList advice={advice.advice} />
+        </>
+      ) : (
+        <EmptyState
+          title={
+            advice.status === "no_team"
+              ? "Claim your team first"
+              : "No roster yet"
+          }
+        >
+          {advice.status === "no_team"
+            ? "Lineup advice follows the team you have claimed in this league."
+            : "Lineup advice appears after the next sync brings in your roster."}
+        </EmptyState>
+      )}
+    </main>
+  );
+}
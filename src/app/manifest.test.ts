@@ -1,6 +1,12 @@
 import { existsSync, readFileSync } from "node:fs";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
+import {
+  OFFLINE_QUEUE_HEADER,
+  OFFLINE_RESUME_MESSAGE,
+  OFFLINE_SYNC_MESSAGE,
+} from "@/components/pwa/offline-queue";
+import { PWA_PRECACHE_HEADER } from "@/lib/pwa";
 import manifest from "./manifest";
 
 const publicDir = path.join(__dirname, "..", "..", "public");
@@ -44,6 +50,7 @@ describe("service worker", () => {
       "fetch",
       "push",
       "notificationclick",
+      "sync",
     ]) {
       expect(sw).toContain(`addEventListener("${event}"`);
     }
@@ -52,7 +59,7 @@ describe("service worker", () => {
 
   it("keeps runtime caches RLS-safe", () => {
     const sw = readFileSync(path.join(publicDir, "sw.js"), "utf8");
-    expect(sw).toContain('const VERSION = "v2"');
+    expect(sw).toContain('const VERSION = "v3"');
     expect(sw).toContain('url.pathname.startsWith("/api/")');
     expect(sw).toContain('request.method !== "GET"');
     expect(sw).toContain("url.origin !== self.location.origin");
@@ -71,4 +78,34 @@ describe("service worker", () => {
     expect(sw).toContain("event.data?.type !== SIGN_OUT_MESSAGE");
     expect(sw).toContain("deleteCachesWithPrefix(PAGES_CACHE_PREFIX)");
   });
+
+  it("keeps saved league pages under the sign-out prefix and skips redirects", () => {
+    const sw = readFileSync(path.join(publicDir, "sw.js"), "utf8");
+    expect(sw).toContain(
+      "const OFFLINE_PAGES_CACHE = `rumbledore-pages-offline-",
+    );
+    expect(sw).toContain(
+      'const OFFLINE_PAGES_URL = "/api/navigation/offline-pages"',
+    );
+    expect(sw).toContain(`const PRECACHE_HEADER = "${PWA_PRECACHE_HEADER}"`);
+    expect(sw).toContain("response.redirected");
+    expect(sw).toContain("listing.status === 401");
+  });
+
+  it("queues only opted-in, replay-safe writes and clears them on sign-out", () => {
+    const sw = readFileSync(path.join(publicDir, "sw.js"), "utf8");
+    expect(sw).toContain(
+      `const OFFLINE_QUEUE_HEADER = "${OFFLINE_QUEUE_HEADER}"`,
+    );
+    expect(sw).toContain(`const RESUME_MESSAGE = "${OFFLINE_RESUME_MESSAGE}"`);
+    expect(sw).toContain(
+      `const OFFLINE_SYNC_MESSAGE = "${OFFLINE_SYNC_MESSAGE}"`,
+    );
+    expect(sw).toContain("request.headers.has(OFFLINE_QUEUE_HEADER)");
+    expect(sw).toContain('request.method === "POST"');
+    expect(sw).toContain("return `picks:");
+    expect(sw).toContain(
+      'withWriteQueue("readwrite", (store) => store.clear())',
+    );
+  });
 });
@@ -1,6 +1,9 @@
 import type { ProviderReconnectAction } from "@/onboarding/reconnect";
+import type { FileImportIssue } from "@/providers/file/bundle";
 
 export interface OnboardingPanelError {
+  /** Row-level problems in an uploaded league file. */
+  issues?: readonly FileImportIssue[];
   message: string;
   reconnect?: ProviderReconnectAction;
 }
@@ -8,6 +11,7 @@ export interface OnboardingPanelError {
 interface ApiErrorPayload {
   error?: {
     details?: {
+      issues?: unknown;
       reconnect?: unknown;
     };
     message?: string;
@@ -15,11 +19,17 @@ interface ApiErrorPayload {
 }
 
 class OnboardingRequestError extends Error {
+  readonly issues: readonly FileImportIssue[] | undefined;
   readonly reconnect: ProviderReconnectAction | undefined;
 
-  constructor(message: string, reconnect?: ProviderReconnectAction) {
+  constructor(
+    message: string,
+    reconnect?: ProviderReconnectAction,
+    issues?: readonly FileImportIssue[],
+  ) {
     super(message);
     this.name = "OnboardingRequestError";
+    this.issues = issues;
     this.reconnect = reconnect;
   }
 }
@@ -38,10 +48,24 @@ function isReconnectAction(value: unknown): value is ProviderReconnectAction {
   );
 }
 
+function fileImportIssues(value: unknown): FileImportIssue[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value.filter(
+    (issue): issue is FileImportIssue =>
+      Boolean(issue) &&
+      typeof issue === "object" &&
+      typeof issue.message === "string" &&
+      typeof issue.section === "string",
+  );
+}
+
 export function onboardingPanelError(cause: unknown): OnboardingPanelError {
   if (cause instanceof OnboardingRequestError) {
     return {
       message: cause.message,
+      ...(cause.issues?.length ? { issues: cause.issues } : {}),
       ...(cause.reconnect ? { reconnect: cause.reconnect } : {}),
     };
   }
@@ -65,6 +89,7 @@ export async function requestJson<T>(
     throw new OnboardingRequestError(
       payload.error?.message ?? "Request failed",
       isReconnectAction(reconnect) ? reconnect : undefined,
+      fileImportIssues(payload.error?.details?.issues),
     );
   }
   return payload as T;
@@ -0,0 +1,110 @@
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { afterEach, expect, test, vi } from "vitest";
+import { FileConnectPanel } from "./file-connect-panel";
+
+function jsonResponse(body: unknown, init: ResponseInit = {}) {
+  return Promise.resolve(
+    new Response(JSON.stringify(body), {
+      ...init,
+      headers: { "content-type": "application/json" },
+    }),
+  );
+}
+
+// jsdom's File predates Blob.text(), which the panel reads uploads with.
+function uploadFile(text: string, name: string): File {
+  return Object.assign(new File([text], name), { text: async () => text });
+}
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+test("file connect panel uploads section CSVs and lists rejected rows", async () => {
+  const uploads: unknown[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+      const url = input.toString();
+      if (url === "/api/onboarding/discovered") {
+        return jsonResponse([]);
+      }
+      if (url === "/api/onboarding/file/connect") {
+        uploads.push(JSON.parse(init?.body?.toString() ?? "{}"));
+        return jsonResponse(
+          {
+            error: {
+              code: "ONBOARDING_FILE_IMPORT_INVALID",
+              details: {
+                issues: [
+                  {
+                    column: "home_score",
+                    message: "must be a number",
+                    row: 14,
+                    section: "matchups",
+                  },
+                ],
+              },
+              message: "League file has 1 problem",
+            },
+          },
+          { status: 422 },
+        );
+      }
+      return jsonResponse({}, { status: 404 });
+    }),
+  );
+
+  render(<FileConnectPanel />);
+  fireEvent.change(screen.getByLabelText("League files"), {
+    target: {
+      files: [
+        uploadFile("season,team_id,name,owner_ids\n", "teams.csv"),
+        uploadFile("season,week\n", "matchups.csv"),
+      ],
+    },
+  });
+  fireEvent.change(await screen.findByLabelText("League name"), {
+    target: { value: "Basement League" },
+  });
+  fireEvent.click(screen.getByRole("button", { name: /validate and upload/i }));
+
+  expect(await screen.findByText("League file has 1 problem")).toBeDefined();
+  expect(screen.getByText("matchups row 14, home_score")).toBeDefined();
+  expect(screen.getByText("must be a number")).toBeDefined();
+  await waitFor(() => expect(uploads).toHaveLength(1));
+  expect(uploads[0]).toEqual({
+    bundle: {
+      format: "csv",
+      league: { name: "Basement League" },
+      sections: {
+        matchups: "season,week\n",
+        teams: "season,team_id,name,owner_ids\n",
+      },
+    },
+  });
+});
+
+test("file connect panel explains misnamed CSV files before uploading", async () => {
+  const fetchMock = vi.fn(() => jsonResponse([]));
+  vi.stubGlobal("fetch", fetchMock);
+
+  render(<FileConnectPanel />);
+  fireEvent.change(screen.getByLabelText("League files"), {
+    target: { files: [uploadFile("a,b\n", "Sheet1.csv")] },
+  });
+  await screen.findByLabelText("League name");
+  fireEvent.click(screen.getByRole("button", { name: /validate and upload/i }));
+
+  expect(
+    await screen.findByText(/Sheet1\.csv is not a section file/),
+  ).toBeDefined();
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,419 @@
+"use client";
+
+import { FileUp, Upload } from "lucide-react";
+import {
+  type ChangeEvent,
+  type FormEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { Button } from "@/components/ui/button";
+import { Field } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { StatusPill } from "@/components/ui/status-pill";
+import { type StepItem, Steps } from "@/components/ui/steps";
+import type { FantasyProviderId } from "@/providers";
+import {
+  getJson,
+  type OnboardingPanelError,
+  onboardingPanelError,
+  postJson,
+} from "../client-http";
+import {
+  canImportLeague,
+  type DiscoveredLeagueCandidate,
+  type ImportResult,
+  leagueKey,
+  OnboardingLeagueInventory,
+  ProviderConnectPanelShell,
+  useOnlineStatus,
+} from "../onboarding-flow";
+import { OnboardingErrorBanner } from "../reconnect-cta";
+import { ReturnToInviteLink } from "../return-to-invite-link";
+import {
+  continueToReturnTo,
+  returnToAfterConnection,
+  returnToAfterImport,
+} from "../return-to-navigation";
+import {
+  bundleFromLeagueFiles,
+  fileImportIssueLocation,
+  type LeagueFileInput,
+} from "./league-file";
+
+interface ConnectResult {
+  credentialId: string;
+}
+
+const DISCOVERED_LEAGUES_URL = "/api/onboarding/discovered";
+
+export function FileConnectPanel({ returnTo }: { returnTo?: string | null }) {
+  const [connection, setConnection] = useState<ConnectResult | null>(null);
+  const [discoveredLeagues, setDiscoveredLeagues] = useState<
+    DiscoveredLeagueCandidate[]
+  >([]);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [error, setError] = useState<OnboardingPanelError | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [files, setFiles] = useState<LeagueFileInput[]>([]);
+  const [leagueName, setLeagueName] = useState("");
+  const [imports, setImports] = useState<Record<string, ImportResult>>({});
+  const [discoveryLoading, setDiscoveryLoading] = useState(true);
+  const isOnline = useOnlineStatus();
+  const isBusy = Boolean(busy);
+  const isCsvUpload =
+    files.length > 0 &&
+    !(files.length === 1 && files[0]?.name.toLowerCase().endsWith(".json"));
+
+  const selectedLeagues = useMemo(
+    () =>
+      discoveredLeagues.filter(
+        (league) =>
+          selectedKeys.includes(leagueKey(league)) && canImportLeague(league),
+      ),
+    [discoveredLeagues, selectedKeys],
+  );
+  const remainingImportCount = discoveredLeagues.filter(canImportLeague).length;
+  const connectedProviders = useMemo(
+    () =>
+      Array.from(
+        new Set(discoveredLeagues.map((league) => league.provider)),
+      ) as FantasyProviderId[],
+    [discoveredLeagues],
+  );
+  const uploaded = discoveredLeagues.some(
+    (league) => league.provider === "file",
+  );
+
+  const replaceDiscoveredLeagues = useCallback(
+    (nextLeagues: DiscoveredLeagueCandidate[], preserveSelection: boolean) => {
+      setDiscoveredLeagues(nextLeagues);
+      setSelectedKeys((current) => {
+        const selectableKeys = new Set(
+          nextLeagues.filter(canImportLeague).map(leagueKey),
+        );
+        if (preserveSelection) {
+          return current.filter((key) => selectableKeys.has(key));
+        }
+        return nextLeagues
+          .filter(
+            (league) =>
+              league.provider === "file" &&
+              league.isRecommendedImport &&
+              canImportLeague(league),
+          )
+          .map(leagueKey);
+      });
+    },
+    [],
+  );
+
+  async function loadDiscoveredLeagues({
+    preserveSelection = false,
+    silent = false,
+  }: {
+    preserveSelection?: boolean;
+    silent?: boolean;
+  } = {}) {
+    try {
+      if (!silent) {
+        setDiscoveryLoading(true);
+      }
+      const leagues = await getJson<DiscoveredLeagueCandidate[]>(
+        DISCOVERED_LEAGUES_URL,
+      );
+      replaceDiscoveredLeagues(leagues, preserveSelection);
+      return leagues;
+    } catch (cause) {
+      if (!silent) {
+        setError(onboardingPanelError(cause));
+      }
+      return null;
+    } finally {
+      if (!silent) {
+        setDiscoveryLoading(false);
+      }
+    }
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      setDiscoveryLoading(true);
+      const leagues = await getJson<DiscoveredLeagueCandidate[]>(
+        DISCOVERED_LEAGUES_URL,
+      ).catch(() => null);
+      if (!cancelled && leagues) {
+        replaceDiscoveredLeagues(leagues, false);
+      }
+      if (!cancelled) {
+        setDiscoveryLoading(false);
+      }
+    }
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [replaceDiscoveredLeagues]);
+
+  async function run<T>(
+    label: string,
+    action: () => Promise<T>,
+  ): Promise<T | null> {
+    setBusy(label);
+    setError(null);
+    try {
+      return await action();
+    } catch (cause) {
+      setError(onboardingPanelError(cause));
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function chooseFiles(event: ChangeEvent<HTMLInputElement>) {
+    const picked = Array.from(event.target.files ?? []);
+    setError(null);
+    setFiles(
+      await Promise.all(
+        picked.map(async (file) => ({
+          name: file.name,
+          text: await file.text(),
+        })),
+      ),
+    );
+  }
+
+  async function submitUpload(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const built = bundleFromLeagueFiles(files, leagueName);
+    if (!built.ok) {
+      setError({ message: built.message });
+      return;
+    }
+    const connected = await run("connect", () =>
+      postJson<ConnectResult>("/api/onboarding/file/connect", {
+        bundle: built.bundle,
+      }),
+    );
+    if (connected) {
+      const returnHref = returnToAfterConnection(returnTo);
+      if (continueToReturnTo(returnHref)) {
+        return;
+      }
+      setConnection(connected);
+      setImports({});
+      await loadDiscoveredLeagues({ silent: true });
+    }
+  }
+
+  function toggleLeague(league: DiscoveredLeagueCandidate, checked: boolean) {
+    const key = leagueKey(league);
+    setSelectedKeys((current) => {
+      if (checked) {
+        return current.includes(key) ? current : [...current, key];
+      }
+      return current.filter((selectedKey) => selectedKey !== key);
+    });
+  }
+
+  async function importLeagues(leagues: readonly DiscoveredLeagueCandidate[]) {
+    if (leagues.length === 0) {
+      return;
+    }
+
+    const imported = await run("import-selected", async () => {
+      const results: Record<string, ImportResult> = {};
+      for (const league of leagues) {
+        results[leagueKey(league)] = await postJson<ImportResult>(
+          "/api/onboarding/import",
+          {
+            provider: league.provider,
+            providerLeagueId: league.providerId,
+            season: league.season,
+          },
+        );
+      }
+      return results;
+    });
+
+    if (imported) {
+      setImports((current) => ({ ...current, ...imported }));
+      await loadDiscoveredLeagues({ preserveSelection: true, silent: true });
+      const liveLeagueIds = Object.values(imported)
+        .filter((result) => result.onboardingState === "live")
+        .map((result) => result.leagueId);
+      if (liveLeagueIds.length > 0) {
+        continueToReturnTo(returnToAfterImport(returnTo, liveLeagueIds));
+      }
+    }
+  }
+
+  return (
+    <ProviderConnectPanelShell
+      connectedProviders={connectedProviders}
+      provider="file"
+      returnTo={returnTo}
+    >
+      <ReturnToInviteLink returnTo={returnTo} />
+      <Steps
+        aria-label="League file onboarding progress"
+        steps={buildFileOnboardingSteps({
+          imported:
+            Object.keys(imports).length > 0 ||
+            discoveredLeagues.some(
+              (league) => league.provider === "file" && league.imported,
+            ),
+          uploaded: Boolean(connection) || uploaded,
+        })}
+      />
+      <form onSubmit={submitUpload} className="panel grid gap-4 p-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="eyebrow text-primary">Upload</p>
+            <h2 className="mt-1 font-display text-base font-medium text-foreground">
+              League history file
+            </h2>
+            <p className="mt-1 max-w-2xl text-sm text-muted-foreground">
+              Upload one JSON bundle, or one CSV per section named teams.csv,
+              members.csv, matchups.csv, standings.csv, draft.csv, and
+              transactions.csv. A league archive exported from Rumbledore
+              uploads as its JSON file.
+            </p>
+          </div>
+          <span
+            aria-hidden="true"
+            className={busy === "connect" ? "orb orb-md think" : "orb orb-md"}
+            data-persona="analyst"
+            data-state={
+              busy === "connect" ? "think" : connection ? "speaking" : "idle"
+            }
+          >
+            <FileUp className="size-3.5" />
+          </span>
+        </div>
+        <output aria-live="polite" className="cell grid gap-2 px-3 py-3">
+          <StatusPill
+            tone={connection ? "success" : isOnline ? "neutral" : "warning"}
+          >
+            {connection ? "validated" : isOnline ? "ready" : "offline"}
+          </StatusPill>
+          <p className="text-sm text-muted-foreground">
+            {connection
+              ? "The file validated. Import the league below to run the pre-live checks."
+              : isOnline
+                ? "Every row is checked before anything is stored; problems are listed by section, row, and column."
+                : "You are offline. Uploads resume when the network returns."}
+          </p>
+        </output>
+        <div className="grid gap-3">
+          <Field label="League files">
+            <Input
+              accept=".json,.csv,application/json,text/csv"
+              multiple
+              onChange={(event) => void chooseFiles(event)}
+              type="file"
+            />
+          </Field>
+          {isCsvUpload ? (
+            <Field label="League name">
+              <Input
+                value={leagueName}
+                onChange={(event) => setLeagueName(event.target.value)}
+                autoComplete="off"
+              />
+            </Field>
+          ) : null}
+          <Button
+            type="submit"
+            disabled={isBusy || !isOnline || files.length === 0}
+          >
+            <Upload data-icon="inline-start" />
+            Validate and upload
+          </Button>
+        </div>
+      </form>
+
+      {error ? <OnboardingErrorBanner error={error} /> : null}
+      {error?.issues?.length ? (
+        <section aria-label="League file problems" className="panel p-4">
+          <ol className="grid gap-2 text-sm">
+            {error.issues.map((issue, index) => (
+              <li
+                className="cell grid gap-1 px-3 py-2"
+                // Issues have no identity beyond their position in the report.
+                // biome-ignore lint/suspicious/noArrayIndexKey: static report
+                key={index}
+              >
+                <span className="font-medium text-foreground">
+                  {fileImportIssueLocation(issue)}
+                </span>
+                <span className="text-muted-foreground">{issue.message}</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+      ) : null}
+
+      <OnboardingLeagueInventory
+        imports={imports}
+        isBusy={isBusy}
+        isOnline={isOnline}
+        leagues={discoveredLeagues}
+        loading={discoveryLoading}
+        onImportLeague={(league) => void importLeagues([league])}
+        onImportSelected={() => void importLeagues(selectedLeagues)}
+        onRefresh={() =>
+          void loadDiscoveredLeagues({ preserveSelection: true })
+        }
+        onToggleLeague={toggleLeague}
+        remainingImportCount={remainingImportCount}
+        selectedKeys={selectedKeys}
+        selectedLeagues={selectedLeagues}
+      />
+    </ProviderConnectPanelShell>
+  );
+}
+
+function buildFileOnboardingSteps({
+  imported,
+  uploaded,
+}: {
+  readonly imported: boolean;
+  readonly uploaded: boolean;
+}): readonly StepItem[] {
+  const current = imported ? "invite" : uploaded ? "claim" : "upload";
+  const order = ["upload", "claim", "invite"] as const;
+  const status = (step: (typeof order)[number]): StepItem["status"] => {
+    const difference = order.indexOf(step) - order.indexOf(current);
+    return difference < 0
+      ? "complete"
+      : difference === 0
+        ? "current"
+        : "upcoming";
+  };
+
+  return [
+    {
+      description: "Validate every row.",
+      id: "upload",
+      label: "Upload",
+      status: status("upload"),
+    },
+    {
+      description: "Import the league history.",
+      id: "claim",
+      label: "Claim",
+      status: status("claim"),
+    },
+    {
+      description: "Bring leaguemates in.",
+      id: "invite",
+      label: "Invite",
+      status: status("invite"),
+    },
+  ];
+}
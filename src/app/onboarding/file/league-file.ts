@@ -0,0 +1,86 @@
+import {
+  FILE_IMPORT_SECTIONS,
+  type FileImportIssue,
+  type FileImportSection,
+} from "@/providers/file/bundle";
+
+export interface LeagueFileInput {
+  readonly name: string;
+  readonly text: string;
+}
+
+export type LeagueFileBundleResult =
+  | { readonly bundle: Record<string, unknown>; readonly ok: true }
+  | { readonly message: string; readonly ok: false };
+
+function isSection(value: string): value is FileImportSection {
+  return (FILE_IMPORT_SECTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Builds the upload body from the files a commissioner picked. One `.json`
+ * file is sent as the whole bundle; otherwise every file must be a `.csv`
+ * named after its section (`teams.csv`, `matchups.csv`, ...), which is how a
+ * spreadsheet exports one sheet at a time.
+ */
+export function bundleFromLeagueFiles(
+  files: readonly LeagueFileInput[],
+  leagueName: string,
+): LeagueFileBundleResult {
+  if (files.length === 0) {
+    return { message: "Choose a league file to upload.", ok: false };
+  }
+
+  const [only] = files;
+  if (files.length === 1 && only?.name.toLowerCase().endsWith(".json")) {
+    try {
+      const bundle = JSON.parse(only.text) as unknown;
+      if (!bundle || typeof bundle !== "object" || Array.isArray(bundle)) {
+        return { message: `${only.name} is not a league bundle.`, ok: false };
+      }
+      return { bundle: bundle as Record<string, unknown>, ok: true };
+    } catch {
+      return { message: `${only.name} is not valid JSON.`, ok: false };
+    }
+  }
+
+  const sections: Partial<Record<FileImportSection, string>> = {};
+  for (const file of files) {
+    const match = /^(.+)\.csv$/i.exec(file.name);
+    const section = match?.[1]?.toLowerCase() ?? "";
+    if (!isSection(section)) {
+      return {
+        message: `${file.name} is not a section file. Name CSV files ${FILE_IMPORT_SECTIONS.map(
+          (name) => `${name}.csv`,
+        ).join(", ")}.`,
+        ok: false,
+      };
+    }
+    sections[section] = file.text;
+  }
+
+  if (!leagueName.trim()) {
+    return { message: "Enter the league name for CSV uploads.", ok: false };
+  }
+
+  return {
+    bundle: {
+      format: "csv",
+      league: { name: leagueName.trim() },
+      sections,
+    },
+    ok: true,
+  };
+}
+
+/** "matchups row 14, home_score" — the location half of an issue line. */
+export function fileImportIssueLocation(issue: FileImportIssue): string {
+  return [
+    issue.row === undefined
+      ? issue.section
+      : `${issue.section} row ${issue.row}`,
+    issue.column,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
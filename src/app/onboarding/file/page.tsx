@@ -0,0 +1,29 @@
+import { returnToFromSearchParams } from "@/onboarding/return-to";
+import { FileConnectPanel } from "./file-connect-panel";
+
+interface FileOnboardingPageProps {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function FileOnboardingPage({
+  searchParams,
+}: FileOnboardingPageProps = {}) {
+  const returnTo = returnToFromSearchParams(await searchParams);
+
+  return (
+    <main className="mx-auto flex min-h-dvh w-full max-w-4xl flex-col gap-5 px-4 py-5 pb-[calc(--spacing(6)+env(safe-area-inset-bottom))] sm:px-6">
+      <header className="panel grid gap-3 p-5">
+        <p className="eyebrow text-primary">League file</p>
+        <h1 className="heading-auspex text-xl leading-tight">
+          Bring any league's history into Rumbledore
+        </h1>
+        <p className="max-w-2xl text-base text-muted-foreground">
+          Upload a CSV or JSON export of teams, members, matchups, standings,
+          drafts, and transactions from any platform or spreadsheet. It runs
+          through the same checks as a connected provider.
+        </p>
+      </header>
+      <FileConnectPanel returnTo={returnTo} />
+    </main>
+  );
+}
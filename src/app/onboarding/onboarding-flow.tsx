@@ -101,6 +101,12 @@ const providerCards = [
     label: "OAuth",
     provider: "yahoo",
   },
+  {
+    body: "CSV or JSON history export for leagues on other platforms or kept in a spreadsheet.",
+    href: "/onboarding/file",
+    label: "League file",
+    provider: "file",
+  },
 ] satisfies readonly ProviderCard[];
 
 function useOnlineStatus(): boolean {
@@ -152,8 +158,9 @@ function OnboardingProviderPicker({
             Provider options stay open
           </h2>
           <p className="mt-1 max-w-2xl text-sm text-muted-foreground">
-            Add ESPN, Sleeper, or Yahoo accounts into one inventory. A second
-            provider appends leagues instead of replacing the first.
+            Add ESPN, Sleeper, or Yahoo accounts, or upload a league file, into
+            one inventory. A second provider appends leagues instead of
+            replacing the first.
           </p>
         </div>
         <span
@@ -163,7 +170,7 @@ function OnboardingProviderPicker({
           data-state="idle"
         />
       </div>
-      <div className="mt-4 grid gap-3 md:grid-cols-3">
+      <div className="mt-4 grid gap-3 md:grid-cols-2 xl:grid-cols-4">
         {providerCards.map((card) => {
           const isActive = card.provider === activeProvider;
           const isConnected = connected.has(card.provider);
@@ -0,0 +1,49 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { requireSession } from "@/auth/guards";
+import { returnToFromSearchParams } from "@/onboarding/return-to";
+import { SignInPanel } from "./sign-in-panel";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Sign in | Rumbledore",
+  description: "Sign in to Rumbledore with a passkey or an email link.",
+};
+
+interface SignInPageProps {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}
+
+function firstValue(value: string | string[] | undefined): string | null {
+  const candidate = Array.isArray(value) ? value[0] : value;
+  return candidate?.trim() ? candidate.trim() : null;
+}
+
+export default async function SignInPage({
+  searchParams,
+}: SignInPageProps = {}) {
+  const query = await searchParams;
+  const returnTo = returnToFromSearchParams(query) ?? "/";
+  const session = await requireSession({ headers: await headers() });
+  if (session.ok) {
+    redirect(returnTo);
+  }
+
+  return (
+    <main className="mx-auto flex min-h-dvh w-full max-w-xl flex-col justify-center gap-5 px-4 py-5 pb-[calc(--spacing(6)+env(safe-area-inset-bottom))] sm:px-6">
+      <header className="panel grid gap-3 p-5">
+        <p className="eyebrow text-primary">Sign in</p>
+        <h1 className="heading-auspex text-xl leading-tight">
+          Welcome back to the league
+        </h1>
+        <p className="text-base text-muted-foreground">
+          Rumbledore accounts don't need a password. Use a passkey on this
+          device or have a sign-in link emailed to you.
+        </p>
+      </header>
+      <SignInPanel linkError={firstValue(query?.error)} returnTo={returnTo} />
+    </main>
+  );
+}
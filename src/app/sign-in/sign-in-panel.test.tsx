@@ -0,0 +1,83 @@
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { SignInPanel } from "./sign-in-panel";
+
+const router = vi.hoisted(() => ({ push: vi.fn(), refresh: vi.fn() }));
+const signIn = vi.hoisted(() => ({
+  magicLink: vi.fn(),
+  passkey: vi.fn(),
+}));
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => router,
+}));
+
+vi.mock("@/lib/auth-client", () => ({ signIn }));
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+describe("SignInPanel", () => {
+  it("emails a sign-in link that returns to the requested page", async () => {
+    signIn.magicLink.mockResolvedValue({ data: { status: true }, error: null });
+    render(<SignInPanel linkError={null} returnTo="/invite/league/token" />);
+
+    fireEvent.change(screen.getByLabelText("Email"), {
+      target: { value: " sam@example.test " },
+    });
+    fireEvent.click(
+      screen.getByRole("button", { name: "Email me a sign-in link" }),
+    );
+
+    expect(
+      await screen.findByText("Check sam@example.test for your sign-in link"),
+    ).toBeTruthy();
+    expect(signIn.magicLink).toHaveBeenCalledWith({
+      callbackURL: "/invite/league/token",
+      email: "sam@example.test",
+      errorCallbackURL: "/sign-in?returnTo=%2Finvite%2Fleague%2Ftoken",
+    });
+  });
+
+  it("signs in with a passkey and follows the return path", async () => {
+    signIn.passkey.mockResolvedValue({ data: {}, error: null });
+    render(<SignInPanel linkError={null} returnTo="/you" />);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Sign in with a passkey" }),
+    );
+
+    await waitFor(() => expect(router.push).toHaveBeenCalledWith("/you"));
+    expect(router.refresh).toHaveBeenCalled();
+  });
+
+  it("explains a failed passkey and an expired link", async () => {
+    signIn.passkey.mockResolvedValue({
+      data: null,
+      error: { status: 401, statusText: "Unauthorized" },
+    });
+    render(<SignInPanel linkError="EXPIRED_TOKEN" returnTo="/" />);
+
+    expect(screen.getByRole("alert").textContent).toContain(
+      "sign-in link expired",
+    );
+    fireEvent.click(
+      screen.getByRole("button", { name: "Sign in with a passkey" }),
+    );
+
+    await waitFor(() =>
+      expect(screen.getByRole("alert").textContent).toContain(
+        "No passkey signed you in",
+      ),
+    );
+    expect(router.push).not.toHaveBeenCalled();
+  });
+});
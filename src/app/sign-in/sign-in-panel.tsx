@@ -0,0 +1,157 @@
+"use client";
+
+import { Fingerprint, Send } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { type FormEvent, useState } from "react";
+import { Alert } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Field } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { signIn } from "@/lib/auth-client";
+import { withReturnTo } from "@/onboarding/return-to";
+
+interface SignInPanelProps {
+  /** Error code Better Auth appends when a magic link fails to verify. */
+  linkError: string | null;
+  returnTo: string;
+}
+
+function linkErrorMessage(code: string): string {
+  switch (code) {
+    case "EXPIRED_TOKEN":
+      return "That sign-in link expired. Send yourself a new one.";
+    case "INVALID_TOKEN":
+      return "That sign-in link was already used or is invalid. Send yourself a new one.";
+    default:
+      return "That sign-in link did not work. Send yourself a new one.";
+  }
+}
+
+export function SignInPanel({ linkError, returnTo }: SignInPanelProps) {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(
+    linkError ? linkErrorMessage(linkError) : null,
+  );
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [isUsingPasskey, setIsUsingPasskey] = useState(false);
+
+  async function sendMagicLink(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setError(null);
+    setIsSending(true);
+    try {
+      const address = email.trim();
+      const result = await signIn.magicLink({
+        callbackURL: returnTo,
+        email: address,
+        errorCallbackURL: withReturnTo("/sign-in", returnTo),
+      });
+      if (result.error) {
+        setError("We could not send a sign-in link to that address.");
+        return;
+      }
+      setSentTo(address);
+    } catch {
+      setError("We could not send a sign-in link to that address.");
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  async function signInWithPasskey() {
+    setError(null);
+    setIsUsingPasskey(true);
+    try {
+      const result = await signIn.passkey();
+      if (result?.error) {
+        setError(
+          "No passkey signed you in. Use a sign-in link, then add a passkey from your account page.",
+        );
+        return;
+      }
+      router.push(returnTo);
+      router.refresh();
+    } catch {
+      setError("Passkey sign-in is not available in this browser.");
+    } finally {
+      setIsUsingPasskey(false);
+    }
+  }
+
+  return (
+    <section className="panel grid gap-5 p-5">
+      <div className="grid gap-3">
+        <div className="grid gap-1">
+          <p className="eyebrow text-primary">Passkey</p>
+          <p className="text-sm text-muted-foreground">
+            Use the fingerprint, face or screen lock you set up on this device.
+          </p>
+        </div>
+        <Button
+          className="justify-self-start max-sm:justify-self-stretch"
+          disabled={isUsingPasskey}
+          loading={isUsingPasskey}
+          onClick={() => void signInWithPasskey()}
+          type="button"
+        >
+          {isUsingPasskey ? null : <Fingerprint data-icon="inline-start" />}
+          Sign in with a passkey
+        </Button>
+      </div>
+
+      <div className="grid gap-3 border-t border-border pt-5">
+        <div className="grid gap-1">
+          <p className="eyebrow text-primary">Email link</p>
+          <p className="text-sm text-muted-foreground">
+            No password needed. We email you a link that signs you in for 15
+            minutes. New here? The link creates your account.
+          </p>
+        </div>
+        {sentTo ? (
+          <Alert tone="ok" title={`Check ${sentTo} for your sign-in link`}>
+            Open it on this device to land back where you were.
+          </Alert>
+        ) : (
+          <form
+            className="grid gap-3"
+            onSubmit={(event) => void sendMagicLink(event)}
+          >
+            <Field controlId="sign-in-email" label="Email">
+              {({ controlProps }) => (
+                <Input
+                  {...controlProps}
+                  autoComplete="email webauthn"
+                  onChange={(event) => setEmail(event.currentTarget.value)}
+                  required
+                  type="email"
+                  value={email}
+                />
+              )}
+            </Field>
+            <Button
+              className="justify-self-start max-sm:justify-self-stretch"
+              disabled={isSending || email.trim().length === 0}
+              loading={isSending}
+              type="submit"
+              variant="outline"
+            >
+              {isSending ? null : <Send data-icon="inline-start" />}
+              Email me a sign-in link
+            </Button>
+          </form>
+        )}
+      </div>
+
+      {error ? (
+        <p
+          className="rounded-control border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm font-medium text-destructive"
+          role="alert"
+        >
+          {error}
+        </p>
+      ) : null}
+    </section>
+  );
+}
@@ -8,13 +8,15 @@ import { requireSession } from "@/auth/guards";
 import { buttonVariants } from "@/components/ui/button";
 import { getEnv } from "@/core/env";
 import { getDb } from "@/db";
-import { providerCredentials, users } from "@/db/schema";
+import { passkeys, users } from "@/db/schema";
 import { cn } from "@/lib/utils";
 import {
   getProviderBadgeLabel,
   serializeLeagueSwitcherItem,
 } from "@/navigation";
 import { listLeagueSwitcherItemsForUser } from "@/navigation/league-switcher-data";
+import { listLinkedIdentities } from "@/onboarding/linked-identities";
+import { withReturnTo } from "@/onboarding/return-to";
 import { listNotificationChannelPreferences } from "@/push";
 import type { LeagueNotificationPreference } from "./notification-preference-matrix";
 import { type YouAccountData, YouAccountView } from "./you-account-view";
@@ -37,12 +39,20 @@ function SignInRequired() {
           Connect a league or sign in before opening account settings.
         </p>
       </div>
-      <Link
-        href="/onboarding/espn"
-        className={cn(buttonVariants({ className: "w-fit" }))}
-      >
-        Connect ESPN
-      </Link>
+      <div className="flex flex-wrap gap-2">
+        <Link
+          href={withReturnTo("/sign-in", "/you")}
+          className={cn(buttonVariants())}
+        >
+          Sign in
+        </Link>
+        <Link
+          href="/onboarding/espn"
+          className={cn(buttonVariants({ variant: "outline" }))}
+        >
+          Connect ESPN
+        </Link>
+      </div>
     </main>
   );
 }
@@ -69,18 +79,16 @@ export default async function YouPage() {
     notFound();
   }
 
-  const credentialRows = await db
+  const passkeyRows = await db
     .select({
-      connectionFlow: providerCredentials.connectionFlow,
-      invalidAt: providerCredentials.invalidAt,
-      lastValidatedAt: providerCredentials.lastValidatedAt,
-      provider: providerCredentials.provider,
-      status: providerCredentials.status,
-      subjectProviderId: providerCredentials.subjectProviderId,
+      backedUp: passkeys.backedUp,
+      createdAt: passkeys.createdAt,
+      id: passkeys.id,
+      name: passkeys.name,
     })
-    .from(providerCredentials)
-    .where(eq(providerCredentials.userId, session.value.userId))
-    .orderBy(asc(providerCredentials.provider));
+    .from(passkeys)
+    .where(eq(passkeys.userId, session.value.userId))
+    .orderBy(asc(passkeys.createdAt));
 
   const leagues = await listLeagueSwitcherItemsForUser(db, {
     userId: session.value.userId,
@@ -100,6 +108,11 @@ export default async function YouPage() {
       })),
     );
 
+  const identities = await listLinkedIdentities(db, {
+    leagues: leagues.value,
+    userId: session.value.userId,
+  });
+
   const personalAgent = await getPersonalAgentBriefing({
     db,
     env: { entitlements: env.entitlements },
@@ -107,8 +120,9 @@ export default async function YouPage() {
   });
 
   const data: YouAccountData = {
-    connections: credentialRows.map((credential) => ({
+    connections: identities.credentials.map((credential) => ({
       connectionFlow: credential.connectionFlow,
+      id: credential.id,
       invalidAt: credential.invalidAt?.toISOString() ?? null,
       lastValidatedAt: credential.lastValidatedAt.toISOString(),
       provider: credential.provider,
@@ -116,8 +130,22 @@ export default async function YouPage() {
       status: credential.status,
       subjectProviderId: credential.subjectProviderId,
     })),
+    leagueIdentities: identities.leagueIdentities.map((identity) => ({
+      claimedAt: identity.claimedAt.toISOString(),
+      displayName: identity.displayName,
+      leagueId: identity.leagueId,
+      leagueName: identity.leagueName,
+      providerLabel: getProviderBadgeLabel(identity.provider),
+      providerMemberId: identity.providerMemberId,
+    })),
     leagues: leagues.value.map(serializeLeagueSwitcherItem),
     notificationPreferences,
+    passkeys: passkeyRows.map((passkey) => ({
+      backedUp: passkey.backedUp,
+      createdAt: passkey.createdAt.toISOString(),
+      id: passkey.id,
+      name: passkey.name,
+    })),
     personalAgent,
     user,
   };
@@ -0,0 +1,141 @@
+"use client";
+
+import { Fingerprint, KeyRound, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { EmptyState } from "@/components/ui/empty-state";
+import { StatusPill } from "@/components/ui/status-pill";
+import { authClient } from "@/lib/auth-client";
+
+export interface YouPasskey {
+  readonly backedUp: boolean;
+  readonly createdAt: string;
+  readonly id: string;
+  readonly name: string | null;
+}
+
+function formatDate(value: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+    year: "numeric",
+  }).format(new Date(value));
+}
+
+/**
+ * Lists the account's passkeys and registers new ones through the browser's
+ * WebAuthn prompt. The server page owns the list; every change refreshes it.
+ */
+export function PasskeyManager({ passkeys }: { passkeys: YouPasskey[] }) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  async function addPasskey() {
+    setError(null);
+    setIsAdding(true);
+    try {
+      const result = await authClient.passkey.addPasskey();
+      if (result?.error) {
+        setError(
+          "No passkey was added. Try again on a device with a screen lock.",
+        );
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError("Passkeys are not available in this browser.");
+    } finally {
+      setIsAdding(false);
+    }
+  }
+
+  async function removePasskey(id: string) {
+    setError(null);
+    setPendingId(id);
+    try {
+      const result = await authClient.passkey.deletePasskey({ id });
+      if (result.error) {
+        setError("That passkey could not be removed.");
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError("That passkey could not be removed.");
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  return (
+    <div className="grid gap-3">
+      {passkeys.length > 0 ? (
+        <ul className="grid gap-2">
+          {passkeys.map((passkey) => (
+            <li
+              className="cell flex flex-wrap items-center justify-between gap-3 p-3"
+              key={passkey.id}
+            >
+              <div className="flex min-w-0 items-center gap-2">
+                <KeyRound
+                  aria-hidden="true"
+                  className="size-4 shrink-0 text-primary"
+                />
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-semibold">
+                    {passkey.name ?? "Passkey"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Added {formatDate(passkey.createdAt)}
+                  </p>
+                </div>
+                {passkey.backedUp ? (
+                  <StatusPill showDot={false} tone="neutral">
+                    Synced
+                  </StatusPill>
+                ) : null}
+              </div>
+              <Button
+                aria-label={`Remove ${passkey.name ?? "passkey"}`}
+                disabled={pendingId !== null}
+                loading={pendingId === passkey.id}
+                onClick={() => void removePasskey(passkey.id)}
+                size="sm"
+                type="button"
+                variant="ghost"
+              >
+                <Trash2 data-icon="inline-start" className="size-3.5" />
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <EmptyState title="No passkeys yet">
+          Add a passkey to sign in on this device with its fingerprint, face or
+          screen lock instead of an email link.
+        </EmptyState>
+      )}
+      <Button
+        className="justify-self-start"
+        disabled={isAdding}
+        loading={isAdding}
+        onClick={() => void addPasskey()}
+        size="sm"
+        type="button"
+        variant="outline"
+      >
+        {isAdding ? null : <Fingerprint data-icon="inline-start" />}
+        Add a passkey
+      </Button>
+      {error ? (
+        <p className="text-sm font-medium text-destructive" role="alert">
+          {error}
+        </p>
+      ) : null}
+    </div>
+  );
+}
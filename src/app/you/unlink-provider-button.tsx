@@ -0,0 +1,99 @@
+"use client";
+
+import { Unlink } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog } from "@/components/ui/dialog";
+
+interface UnlinkProviderButtonProps {
+  credentialId: string;
+  providerLabel: string;
+  subjectProviderId: string;
+}
+
+export function UnlinkProviderButton({
+  credentialId,
+  providerLabel,
+  subjectProviderId,
+}: UnlinkProviderButtonProps) {
+  const router = useRouter();
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlinking, setIsUnlinking] = useState(false);
+
+  async function unlink() {
+    setError(null);
+    setIsUnlinking(true);
+    try {
+      const response = await fetch(
+        `/api/onboarding/connections/${encodeURIComponent(credentialId)}`,
+        { headers: { Accept: "application/json" }, method: "DELETE" },
+      );
+      if (!response.ok && response.status !== 404) {
+        setError("This connection could not be removed. Try again.");
+        return;
+      }
+      setConfirming(false);
+      router.refresh();
+    } catch {
+      setError("This connection could not be removed. Try again.");
+    } finally {
+      setIsUnlinking(false);
+    }
+  }
+
+  return (
+    <>
+      <Button
+        className="justify-self-start"
+        onClick={() => setConfirming(true)}
+        size="sm"
+        type="button"
+        variant="ghost"
+      >
+        <Unlink data-icon="inline-start" className="size-3.5" />
+        Unlink
+      </Button>
+      <Dialog
+        closeLabel="Keep connection"
+        description={`Unlink ${providerLabel} account ${subjectProviderId}. Rumbledore deletes the stored credentials and stops syncing leagues through it.`}
+        error={error}
+        footer={
+          <>
+            <Button
+              disabled={isUnlinking}
+              onClick={() => setConfirming(false)}
+              type="button"
+              variant="ghost"
+            >
+              Cancel
+            </Button>
+            <Button
+              loading={isUnlinking}
+              loadingLabel="Unlinking"
+              onClick={() => void unlink()}
+              type="button"
+              variant="danger"
+            >
+              Unlink {providerLabel}
+            </Button>
+          </>
+        }
+        loading={isUnlinking}
+        onOpenChange={(open) => {
+          if (!open && !isUnlinking) {
+            setConfirming(false);
+          }
+        }}
+        open={confirming}
+        title={`Unlink ${providerLabel}`}
+      >
+        <p className="text-sm text-muted-foreground">
+          Imported leagues keep their history and your team claims. Connect the
+          account again any time to resume syncing.
+        </p>
+      </Dialog>
+    </>
+  );
+}
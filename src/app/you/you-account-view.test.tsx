@@ -1,16 +1,27 @@
-import { cleanup, render, screen, within } from "@testing-library/react";
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within,
+} from "@testing-library/react";
 import { afterEach, expect, test, vi } from "vitest";
 import type { YouAccountData } from "./you-account-view";
 import { YouAccountView } from "./you-account-view";
 
+const router = vi.hoisted(() => ({ refresh: vi.fn(), replace: vi.fn() }));
+const passkeyClient = vi.hoisted(() => ({
+  addPasskey: vi.fn(),
+  deletePasskey: vi.fn(),
+}));
+
 vi.mock("next/navigation", () => ({
-  useRouter: () => ({
-    refresh: vi.fn(),
-    replace: vi.fn(),
-  }),
+  useRouter: () => router,
 }));
 
 vi.mock("@/lib/auth-client", () => ({
+  authClient: { passkey: passkeyClient },
   signOut: vi.fn(),
 }));
 
@@ -22,6 +33,7 @@ const data: YouAccountData = {
   connections: [
     {
       connectionFlow: "oauth",
+      id: "00000000-0000-4000-8000-0000000000c1",
       invalidAt: null,
       lastValidatedAt: "2026-06-14T00:00:00.000Z",
       provider: "yahoo",
@@ -30,6 +42,16 @@ const data: YouAccountData = {
       subjectProviderId: "subject-1",
     },
   ],
+  leagueIdentities: [
+    {
+      claimedAt: "2026-06-10T00:00:00.000Z",
+      displayName: "Fixture Manager",
+      leagueId: "00000000-0000-4000-8000-000000000001",
+      leagueName: "NHS Alumni Annual",
+      providerLabel: "ESPN",
+      providerMemberId: "{MEMBER-1}",
+    },
+  ],
   leagues: [
     {
       lastOpenedAt: "2026-06-14T00:00:00.000Z",
@@ -53,6 +75,14 @@ const data: YouAccountData = {
       name: "NHS Alumni Annual",
     },
   ],
+  passkeys: [
+    {
+      backedUp: true,
+      createdAt: "2026-06-12T00:00:00.000Z",
+      id: "passkey-1",
+      name: "Pixel 9",
+    },
+  ],
   personalAgent: {
     briefing: {
       capped: false,
@@ -103,6 +133,8 @@ const data: YouAccountData = {
 
 afterEach(() => {
   cleanup();
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
 });
 
 test("you account view renders identity, providers, and installed leagues", () => {
@@ -215,3 +247,45 @@ test("you account view renders the personal agent locked state", () => {
   ).toBe("#upgrade-options");
   expect(screen.getByText("Premium league")).toBeDefined();
 });
+
+test("you account view lists league claims and passkeys", () => {
+  render(<YouAccountView data={data} />);
+
+  expect(screen.getByText("Claimed in leagues")).toBeDefined();
+  expect(screen.getByText("Fixture Manager")).toBeDefined();
+  expect(screen.getByText("ESPN · since Jun 10, 2026")).toBeDefined();
+  expect(screen.getByText("Pixel 9")).toBeDefined();
+  expect(screen.getByText("Synced")).toBeDefined();
+});
+
+test("you account view unlinks a provider after confirmation", async () => {
+  const fetchMock = vi
+    .spyOn(globalThis, "fetch")
+    .mockResolvedValue(new Response(JSON.stringify({}), { status: 200 }));
+  render(<YouAccountView data={data} />);
+
+  fireEvent.click(screen.getByRole("button", { name: "Unlink" }));
+  expect(fetchMock).not.toHaveBeenCalled();
+  fireEvent.click(await screen.findByRole("button", { name: "Unlink Yahoo" }));
+
+  await waitFor(() => expect(router.refresh).toHaveBeenCalled());
+  expect(fetchMock).toHaveBeenCalledWith(
+    "/api/onboarding/connections/00000000-0000-4000-8000-0000000000c1",
+    expect.objectContaining({ method: "DELETE" }),
+  );
+});
+
+test("you account view adds and removes passkeys", async () => {
+  passkeyClient.addPasskey.mockResolvedValue({ data: {}, error: null });
+  passkeyClient.deletePasskey.mockResolvedValue({ data: {}, error: null });
+  render(<YouAccountView data={data} />);
+
+  fireEvent.click(screen.getByRole("button", { name: "Add a passkey" }));
+  await waitFor(() => expect(router.refresh).toHaveBeenCalledTimes(1));
+
+  fireEvent.click(screen.getByRole("button", { name: "Remove Pixel 9" }));
+  await waitFor(() => expect(router.refresh).toHaveBeenCalledTimes(2));
+  expect(passkeyClient.deletePasskey).toHaveBeenCalledWith({
+    id: "passkey-1",
+  });
+});
@@ -1,4 +1,4 @@
-import { ArrowRight, Bell, Bot, Link2, User } from "lucide-react";
+import { ArrowRight, Bell, Bot, Fingerprint, Link2, User } from "lucide-react";
 import Link from "next/link";
 import type { PersonalAgentBriefingResult } from "@/ai/personal-agent";
 import { ReconnectActionLink } from "@/app/onboarding/reconnect-cta";
@@ -20,7 +20,9 @@ import {
   type LeagueNotificationPreference,
   NotificationPreferenceMatrix,
 } from "./notification-preference-matrix";
+import { PasskeyManager, type YouPasskey } from "./passkey-manager";
 import { SignOutButton } from "./sign-out-button";
+import { UnlinkProviderButton } from "./unlink-provider-button";
 
 export interface YouProviderConnection {
   readonly connectionFlow:
@@ -28,7 +30,9 @@ export interface YouProviderConnection {
     | "extension"
     | "manual"
     | "oauth"
-    | "public";
+    | "public"
+    | "upload";
+  readonly id: string;
   readonly invalidAt: string | null;
   readonly lastValidatedAt: string;
   readonly provider: FantasyProviderId;
@@ -37,10 +41,22 @@ export interface YouProviderConnection {
   readonly subjectProviderId: string;
 }
 
+/** An imported league member this account claimed. */
+export interface YouLeagueIdentity {
+  readonly claimedAt: string;
+  readonly displayName: string | null;
+  readonly leagueId: string;
+  readonly leagueName: string;
+  readonly providerLabel: string;
+  readonly providerMemberId: string;
+}
+
 export interface YouAccountData {
   readonly connections: YouProviderConnection[];
+  readonly leagueIdentities: YouLeagueIdentity[];
   readonly leagues: LeagueSwitcherViewItem[];
   readonly notificationPreferences: LeagueNotificationPreference[];
+  readonly passkeys: YouPasskey[];
   readonly personalAgent: PersonalAgentBriefingResult;
   readonly user: {
     readonly displayName: string;
@@ -77,6 +93,8 @@ function flowLabel(flow: YouProviderConnection["connectionFlow"]): string {
       return "OAuth";
     case "public":
       return "Public ID";
+    case "upload":
+      return "League file";
   }
 }
 
@@ -160,6 +178,11 @@ function ProviderConnectionCard({
           <ReconnectActionLink action={reconnect} />
         </div>
       ) : null}
+      <UnlinkProviderButton
+        credentialId={connection.id}
+        providerLabel={connection.providerLabel}
+        subjectProviderId={connection.subjectProviderId}
+      />
     </article>
   );
 }
@@ -321,6 +344,33 @@ export function YouAccountView({ data }: { data: YouAccountData }) {
               </EmptyState>
             )}
           </div>
+          {data.leagueIdentities.length > 0 ? (
+            <div className="grid gap-2 border-t border-[var(--hair)] pt-3">
+              <h3 className="eyebrow text-muted-foreground">
+                Claimed in leagues
+              </h3>
+              <ul className="grid gap-2">
+                {data.leagueIdentities.map((identity) => (
+                  <li
+                    className="flex flex-wrap items-baseline justify-between gap-2 text-sm"
+                    key={`${identity.leagueId}-${identity.providerMemberId}`}
+                  >
+                    <span className="min-w-0 truncate">
+                      {identity.displayName ?? identity.providerMemberId}
+                      <span className="text-muted-foreground">
+                        {" "}
+                        · {identity.leagueName}
+                      </span>
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {identity.providerLabel} · since{" "}
+                      {formatDate(identity.claimedAt)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
           <div className="flex flex-wrap gap-2">
             <Link
               href="/onboarding/espn"
@@ -343,6 +393,21 @@ export function YouAccountView({ data }: { data: YouAccountData }) {
           </div>
         </div>
 
+        <div className="panel grid content-start gap-4 p-4">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <p className="eyebrow text-primary">Sign-in methods</p>
+              <h2 className="mt-1 heading-auspex text-lg">Passkeys</h2>
+            </div>
+            <Fingerprint className="size-5 text-primary" aria-hidden="true" />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Email sign-in links always work for {data.user.email}. Passkeys skip
+            the inbox on devices you trust.
+          </p>
+          <PasskeyManager passkeys={data.passkeys} />
+        </div>
+
         <PersonalAgentPanel personalAgent={data.personalAgent} />
 
         <div className="panel grid gap-3 p-4">
@@ -1,5 +1,6 @@
 import {
   ArrowRight,
+  LogIn,
   type LucideIcon,
   Newspaper,
   Plug,
@@ -156,9 +157,18 @@ function UnlockCell({
   );
 }
 
-function GlobalLinks() {
+function GlobalLinks({ showSignIn }: { showSignIn: boolean }) {
   return (
     <div className="flex flex-wrap gap-2">
+      {showSignIn ? (
+        <Link
+          href="/sign-in"
+          className={cn(buttonVariants({ className: "w-fit" }))}
+        >
+          <LogIn data-icon="inline-start" />
+          Sign in
+        </Link>
+      ) : null}
       <Link
         href="/news"
         className={cn(
@@ -185,10 +195,12 @@ function ConnectEntry({
   eyebrow,
   title,
   blurb,
+  showSignIn = false,
 }: {
   eyebrow: string;
   title: string;
   blurb: string;
+  showSignIn?: boolean;
 }) {
   return (
     <main className="mx-auto grid w-full max-w-5xl gap-6 px-4 py-6 pb-[calc(--spacing(6)+env(safe-area-inset-bottom))] sm:px-6">
@@ -197,7 +209,7 @@ function ConnectEntry({
         <h1 className="heading-auspex text-xl leading-tight">{title}</h1>
         <p className="max-w-2xl text-sm leading-relaxed text-ink-2">{blurb}</p>
         <div className="mt-1">
-          <GlobalLinks />
+          <GlobalLinks showSignIn={showSignIn} />
         </div>
       </header>
 
@@ -231,6 +243,7 @@ export function LoggedOutLanding() {
     <ConnectEntry
       blurb="Connect a league once to unlock its home base, Press headlines, records, AI cast, and paper-betting arena. News and Arena stay open while you get set up."
       eyebrow="Rumbledore"
+      showSignIn
       title="Your fantasy league becomes the show"
     />
   );
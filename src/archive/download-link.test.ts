@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  ARCHIVE_DOWNLOAD_TTL_SECONDS,
+  archiveDownloadPath,
+  verifyArchiveDownload,
+} from "./download-link";
+
+const secret = "archive-download-test-secret";
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const archiveId = "00000000-0000-4000-8000-0000000000a1";
+const now = new Date("2026-10-01T12:00:00.000Z");
+
+function paramsOf(path: string): URLSearchParams {
+  return new URL(path, "https://rumbledore.test").searchParams;
+}
+
+describe("archive download links", () => {
+  it("verifies its own link until it expires", () => {
+    const path = archiveDownloadPath({ archiveId, leagueId, now }, secret);
+    const params = paramsOf(path);
+
+    expect(
+      path.startsWith(
+        `/api/leagues/${leagueId}/archives/${archiveId}/download?`,
+      ),
+    ).toBe(true);
+    expect(
+      verifyArchiveDownload({ archiveId, leagueId, now, params }, secret),
+    ).toBe(true);
+    expect(
+      verifyArchiveDownload(
+        {
+          archiveId,
+          leagueId,
+          now: new Date(
+            now.getTime() + (ARCHIVE_DOWNLOAD_TTL_SECONDS + 1) * 1000,
+          ),
+          params,
+        },
+        secret,
+      ),
+    ).toBe(false);
+  });
+
+  it("refuses a link for another archive, league or secret", () => {
+    const params = paramsOf(
+      archiveDownloadPath({ archiveId, leagueId, now }, secret),
+    );
+
+    expect(
+      verifyArchiveDownload(
+        { archiveId: "other", leagueId, now, params },
+        secret,
+      ),
+    ).toBe(false);
+    expect(
+      verifyArchiveDownload(
+        { archiveId, leagueId: "other", now, params },
+        secret,
+      ),
+    ).toBe(false);
+    expect(
+      verifyArchiveDownload({ archiveId, leagueId, now, params }, "rotated"),
+    ).toBe(false);
+  });
+
+  it("refuses a stretched expiry or a malformed signature", () => {
+    const params = paramsOf(
+      archiveDownloadPath({ archiveId, leagueId, now }, secret),
+    );
+    const stretched = new URLSearchParams(params);
+    stretched.set("expires", String(Number(params.get("expires")) + 3600));
+    const malformed = new URLSearchParams(params);
+    malformed.set("s", "not-hex");
+
+    expect(
+      verifyArchiveDownload(
+        { archiveId, leagueId, now, params: stretched },
+        secret,
+      ),
+    ).toBe(false);
+    expect(
+      verifyArchiveDownload(
+        { archiveId, leagueId, now, params: malformed },
+        secret,
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Signed, expiring download links for finished archives. The link carries its
+ * own authority so a browser download (or a commissioner's script) can fetch
+ * the file without a session cookie; the archive page mints a fresh link on
+ * every render, so a leaked one is only good until it expires.
+ */
+
+export const ARCHIVE_DOWNLOAD_TTL_SECONDS = 15 * 60;
+
+const SIGNING_NAMESPACE = "league-archive-download";
+
+function downloadSignature(
+  input: { archiveId: string; expires: number; leagueId: string },
+  secret: string,
+): string {
+  return createHmac("sha256", secret)
+    .update(
+      `${SIGNING_NAMESPACE}:${input.leagueId}:${input.archiveId}:${input.expires}`,
+    )
+    .digest("hex");
+}
+
+export function archiveDownloadPath(
+  input: { archiveId: string; leagueId: string; now: Date },
+  secret: string,
+): string {
+  const expires =
+    Math.floor(input.now.getTime() / 1000) + ARCHIVE_DOWNLOAD_TTL_SECONDS;
+  const params = new URLSearchParams({
+    expires: String(expires),
+    s: downloadSignature({ ...input, expires }, secret),
+  });
+  return `/api/leagues/${input.leagueId}/archives/${input.archiveId}/download?${params}`;
+}
+
+export function verifyArchiveDownload(
+  input: {
+    archiveId: string;
+    leagueId: string;
+    now: Date;
+    params: URLSearchParams;
+  },
+  secret: string,
+): boolean {
+  const expires = Number(input.params.get("expires"));
+  const signature = input.params.get("s") ?? "";
+  if (
+    !Number.isInteger(expires) ||
+    expires < Math.floor(input.now.getTime() / 1000) ||
+    !/^[0-9a-f]{64}$/u.test(signature)
+  ) {
+    return false;
+  }
+  const expected = downloadSignature({ ...input, expires }, secret);
+  return timingSafeEqual(
+    Buffer.from(signature, "hex"),
+    Buffer.from(expected, "hex"),
+  );
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import { parseFileImportBundle } from "@/providers/file/bundle";
+import { assembleLeagueArchive, type LeagueArchiveSource } from "./export";
+import { isLeagueArchive, parseLeagueArchive } from "./format";
+
+const leagueId = "00000000-0000-4000-8000-000000000001";
+const createdAt = new Date("2026-09-01T12:00:00.000Z");
+
+function team(teamId: string, name: string, ownerId: string) {
+  return {
+    abbrev: "",
+    division: null,
+    name,
+    ownerMemberIds: [ownerId],
+    providerTeamId: teamId,
+    season: 2025,
+  };
+}
+
+function matchup(
+  id: string,
+  overrides: Partial<LeagueArchiveSource["matchups"][number]> = {},
+): LeagueArchiveSource["matchups"][number] {
+  return {
+    awayScore: 98.5,
+    awayTeamProviderId: "t2",
+    homeScore: 110.25,
+    homeTeamProviderId: "t1",
+    id,
+    kind: "head_to_head",
+    scoringPeriod: 1,
+    season: 2025,
+    status: "final",
+    ...overrides,
+  };
+}
+
+function source(
+  overrides: Partial<LeagueArchiveSource> = {},
+): LeagueArchiveSource {
+  return {
+    content: [],
+    dataEdits: [],
+    draftPicks: [],
+    exportedAt: new Date("2026-10-01T00:00:00.000Z"),
+    league: {
+      id: leagueId,
+      name: "Rumble League",
+      provider: "espn",
+      scoringType: "PPR",
+      season: 2026,
+    },
+    loreClaims: [],
+    loreSubjects: [],
+    mappings: [
+      { personId: "p1", providerTeamId: "t1", season: 2025 },
+      { personId: "p2", providerTeamId: "t2", season: 2025 },
+    ],
+    matchups: [
+      matchup("m1"),
+      matchup("m2", { kind: "all_play" }),
+      matchup("m3", { scoringPeriod: 2, status: "in_progress" }),
+      matchup("m4", { homeTeamProviderId: "t9" }),
+    ],
+    members: [
+      {
+        displayName: "Sam",
+        providerMemberId: "u1",
+        role: "commissioner",
+        season: 2025,
+      },
+      {
+        displayName: "Alex",
+        providerMemberId: "u2",
+        role: "unknown",
+        season: 2025,
+      },
+    ],
+    persons: [
+      { canonicalName: "Sam", id: "p1", ownerHistory: [] },
+      { canonicalName: "Alex", id: "p2", ownerHistory: [] },
+    ],
+    recordDefinitions: [],
+    standings: [],
+    teamSeasons: [
+      {
+        division: null,
+        id: "ts1",
+        ownerMemberIds: ["u1"],
+        ownerNames: ["Sam"],
+        providerTeamId: "t1",
+        season: 2025,
+        teamName: "Aces",
+      },
+    ],
+    teams: [team("t1", "Aces", "u1"), team("t2", "Bruisers", "u-gone")],
+    transactions: [],
+    ...overrides,
+  };
+}
+
+describe("assembleLeagueArchive", () => {
+  it("carries a history bundle the file import accepts", () => {
+    const archive = assembleLeagueArchive(source());
+
+    expect(isLeagueArchive(archive)).toBe(true);
+    expect(parseLeagueArchive(archive).ok).toBe(true);
+    const parsed = parseFileImportBundle(archive.history);
+    expect(parsed.ok).toBe(true);
+    expect(archive.history.league.key).toBe(`archive-${leagueId}`);
+    // An owner who is not a member that season would dangle in the import.
+    expect(archive.history.sections.teams?.[1]).toMatchObject({
+      owner_ids: [],
+    });
+  });
+
+  it("counts the rows the bundle has no place for instead of bending them", () => {
+    const archive = assembleLeagueArchive(
+      source({
+        draftPicks: [
+          {
+            auctionValue: null,
+            isKeeper: false,
+            pickOverall: 1,
+            playerName: null,
+            position: null,
+            providerPlayerId: "x",
+            providerTeamId: "t1",
+            round: 1,
+            season: 2025,
+          },
+        ],
+      }),
+    );
+
+    expect(archive.history.sections.matchups).toHaveLength(1);
+    expect(archive.omitted).toEqual({
+      allPlayMatchups: 1,
+      draftPicks: 1,
+      matchupsWithoutTeams: 1,
+      unfinishedMatchups: 1,
+    });
+  });
+
+  it("names ledger targets by what survives a rebuild", () => {
+    const edit = {
+      afterValue: "Aces High",
+      beforeValue: "Aces",
+      createdAt,
+      editClass: "cosmetic" as const,
+      field: "team_name",
+      reason: null,
+      scope: "all_years" as const,
+    };
+    const archive = assembleLeagueArchive(
+      source({
+        dataEdits: [
+          { ...edit, targetId: "ts1", targetKind: "team_season" },
+          { ...edit, targetId: "m1", targetKind: "matchup" },
+          { ...edit, targetId: "gone", targetKind: "person" },
+        ],
+      }),
+    );
+
+    expect(archive.dataEdits.map((row) => row.target)).toEqual([
+      { kind: "team_season", season: 2025, teamId: "t1" },
+      {
+        awayTeamId: "t2",
+        homeTeamId: "t1",
+        kind: "matchup",
+        season: 2025,
+        week: 1,
+      },
+      null,
+    ]);
+    expect(archive.persons[0]?.teamSeasons).toEqual([
+      { season: 2025, teamId: "t1" },
+    ]);
+  });
+});
+
+describe("parseLeagueArchive", () => {
+  it("names the version it cannot read", () => {
+    const archive = { ...assembleLeagueArchive(source()), version: 2 };
+
+    expect(parseLeagueArchive(archive)).toEqual({
+      issues: [
+        "This archive is format version 2; this instance reads version 1",
+      ],
+      ok: false,
+    });
+  });
+});
@@ -0,0 +1,697 @@
+import { and, asc, eq } from "drizzle-orm";
+import { AppError } from "@/core/result";
+import type { Db } from "@/db/client";
+import { withLeagueContext } from "@/db/rls";
+import {
+  contentItems,
+  fantasyDraftPicks,
+  fantasyMatchups,
+  fantasyMembers,
+  fantasyPlayers,
+  fantasyTeams,
+  fantasyTransactions,
+  identityMappings,
+  leagueDataEdits,
+  leagueRecordDefinitions,
+  leagues,
+  loreClaims,
+  loreSubjects,
+  persons,
+  providerFinalStandings,
+  teamSeasons,
+} from "@/db/schema";
+import type {
+  FileImportBundleInput,
+  FileImportDraftRow,
+  FileImportMatchupRow,
+  FileImportMemberRow,
+  FileImportStandingRow,
+  FileImportTeamRow,
+  FileImportTransactionRow,
+} from "@/providers/file/bundle";
+import { getLeagueRecordsCatalog } from "@/stats";
+import {
+  LEAGUE_ARCHIVE_FORMAT,
+  LEAGUE_ARCHIVE_VERSION,
+  type LeagueArchive,
+  type LeagueArchiveDataEditTarget,
+} from "./format";
+
+/**
+ * Builds a league archive from the database. The reads happen in one league
+ * transaction so the sections agree with each other; `assembleLeagueArchive`
+ * is the pure half and decides what the history bundle can carry.
+ */
+
+type Row<T extends { $inferSelect: unknown }> = T["$inferSelect"];
+
+export interface LeagueArchiveSource {
+  readonly catalog?: unknown;
+  readonly content: readonly Pick<
+    Row<typeof contentItems>,
+    | "authorPersona"
+    | "body"
+    | "dedupKey"
+    | "kind"
+    | "metadata"
+    | "publishedAt"
+    | "source"
+    | "sourceUrl"
+    | "summary"
+    | "title"
+  >[];
+  readonly dataEdits: readonly Pick<
+    Row<typeof leagueDataEdits>,
+    | "afterValue"
+    | "beforeValue"
+    | "createdAt"
+    | "editClass"
+    | "field"
+    | "reason"
+    | "scope"
+    | "targetId"
+    | "targetKind"
+  >[];
+  readonly draftPicks: readonly (Pick<
+    Row<typeof fantasyDraftPicks>,
+    | "auctionValue"
+    | "isKeeper"
+    | "pickOverall"
+    | "providerPlayerId"
+    | "providerTeamId"
+    | "round"
+    | "season"
+  > & { playerName: string | null; position: string | null })[];
+  readonly exportedAt: Date;
+  readonly league: Pick<
+    Row<typeof leagues>,
+    "id" | "name" | "provider" | "scoringType" | "season"
+  >;
+  readonly loreClaims: readonly Pick<
+    Row<typeof loreClaims>,
+    | "authorPersona"
+    | "body"
+    | "createdAt"
+    | "evidenceRefs"
+    | "id"
+    | "kind"
+    | "origin"
+    | "ratifiedAt"
+    | "ratifiedBy"
+    | "statement"
+    | "title"
+    | "verification"
+  >[];
+  readonly loreSubjects: readonly Pick<
+    Row<typeof loreSubjects>,
+    | "claimId"
+    | "metadata"
+    | "personAId"
+    | "personBId"
+    | "personId"
+    | "recordType"
+    | "season"
+    | "subjectType"
+    | "week"
+  >[];
+  readonly mappings: readonly Pick<
+    Row<typeof identityMappings>,
+    "personId" | "providerTeamId" | "season"
+  >[];
+  readonly matchups: readonly Pick<
+    Row<typeof fantasyMatchups>,
+    | "awayScore"
+    | "awayTeamProviderId"
+    | "homeScore"
+    | "homeTeamProviderId"
+    | "id"
+    | "kind"
+    | "scoringPeriod"
+    | "season"
+    | "status"
+  >[];
+  readonly members: readonly Pick<
+    Row<typeof fantasyMembers>,
+    "displayName" | "providerMemberId" | "role" | "season"
+  >[];
+  readonly persons: readonly Pick<
+    Row<typeof persons>,
+    "canonicalName" | "id" | "ownerHistory"
+  >[];
+  readonly recordDefinitions: readonly Pick<
+    Row<typeof leagueRecordDefinitions>,
+    | "aggregation"
+    | "description"
+    | "direction"
+    | "filters"
+    | "id"
+    | "label"
+    | "metric"
+    | "recordKey"
+    | "scope"
+    | "segment"
+    | "status"
+  >[];
+  readonly standings: readonly Pick<
+    Row<typeof providerFinalStandings>,
+    | "finalRank"
+    | "losses"
+    | "playoffSeed"
+    | "pointsAgainst"
+    | "pointsFor"
+    | "providerTeamId"
+    | "rankSource"
+    | "season"
+    | "ties"
+    | "wins"
+  >[];
+  readonly teamSeasons: readonly Pick<
+    Row<typeof teamSeasons>,
+    | "division"
+    | "id"
+    | "ownerMemberIds"
+    | "ownerNames"
+    | "providerTeamId"
+    | "season"
+    | "teamName"
+  >[];
+  readonly teams: readonly Pick<
+    Row<typeof fantasyTeams>,
+    | "abbrev"
+    | "division"
+    | "name"
+    | "ownerMemberIds"
+    | "providerTeamId"
+    | "season"
+  >[];
+  readonly transactions: readonly Pick<
+    Row<typeof fantasyTransactions>,
+    | "occurredAt"
+    | "playerProviderIds"
+    | "providerTransactionId"
+    | "scoringPeriod"
+    | "season"
+    | "teamProviderIds"
+    | "type"
+  >[];
+}
+
+const BUNDLE_TRANSACTION_TYPES = new Set<string>([
+  "add",
+  "drop",
+  "trade",
+  "waiver",
+]);
+
+function seasonTeamKey(season: number, teamId: string): string {
+  return `${season}:${teamId}`;
+}
+
+function count(omitted: Record<string, number>, reason: string): void {
+  omitted[reason] = (omitted[reason] ?? 0) + 1;
+}
+
+function bundleText(value: string, max: number): string {
+  return value.trim().slice(0, max);
+}
+
+/**
+ * Turns database rows into an archive. Rows the file bundle has no column
+ * for are dropped and counted in `omitted` rather than bent into a shape
+ * that would import as something else:
+ *
+ * - all-play matchups (the engine derives them again) and matchups that are
+ *   not final, which the file import would otherwise treat as played;
+ * - standings ranked by regular-season fallback, which the import derives
+ *   again from the same matchups;
+ * - draft picks with no player name, and transactions of a type the bundle
+ *   does not know or with no team.
+ */
+export function assembleLeagueArchive(
+  source: LeagueArchiveSource,
+): LeagueArchive {
+  const omitted: Record<string, number> = {};
+
+  const teamKeys = new Set(
+    source.teams.map((team) => seasonTeamKey(team.season, team.providerTeamId)),
+  );
+  const memberKeys = new Set(
+    source.members.map((member) =>
+      seasonTeamKey(member.season, member.providerMemberId),
+    ),
+  );
+  const hasTeam = (season: number, teamId: string) =>
+    teamKeys.has(seasonTeamKey(season, teamId));
+
+  const teams: FileImportTeamRow[] = source.teams.map((team) => ({
+    ...(team.abbrev ? { abbrev: team.abbrev } : {}),
+    ...(team.division ? { division: team.division } : {}),
+    name: team.name,
+    owner_ids: team.ownerMemberIds.filter((ownerId) =>
+      memberKeys.has(seasonTeamKey(team.season, ownerId)),
+    ),
+    season: team.season,
+    team_id: team.providerTeamId,
+  }));
+
+  const members: FileImportMemberRow[] = source.members.map((member) => ({
+    display_name: member.displayName,
+    member_id: member.providerMemberId,
+    ...(member.role === "commissioner" || member.role === "member"
+      ? { role: member.role }
+      : {}),
+    season: member.season,
+  }));
+
+  const matchups: FileImportMatchupRow[] = [];
+  for (const matchup of source.matchups) {
+    if (matchup.kind === "all_play") {
+      count(omitted, "allPlayMatchups");
+      continue;
+    }
+    if (matchup.status !== "final") {
+      count(omitted, "unfinishedMatchups");
+      continue;
+    }
+    const away = matchup.awayTeamProviderId;
+    if (
+      !hasTeam(matchup.season, matchup.homeTeamProviderId) ||
+      (away && !hasTeam(matchup.season, away))
+    ) {
+      count(omitted, "matchupsWithoutTeams");
+      continue;
+    }
+    matchups.push({
+      ...(away ? { away_score: matchup.awayScore, away_team_id: away } : {}),
+      home_score: matchup.homeScore,
+      home_team_id: matchup.homeTeamProviderId,
+      kind: matchup.kind,
+      season: matchup.season,
+      week: matchup.scoringPeriod,
+    });
+  }
+
+  const standings: FileImportStandingRow[] = [];
+  for (const standing of source.standings) {
+    if (standing.rankSource === "regular_season_fallback") {
+      count(omitted, "fallbackStandings");
+      continue;
+    }
+    if (!hasTeam(standing.season, standing.providerTeamId)) {
+      count(omitted, "standingsWithoutTeams");
+      continue;
+    }
+    standings.push({
+      losses: standing.losses,
+      ...(standing.playoffSeed ? { playoff_seed: standing.playoffSeed } : {}),
+      points_against: standing.pointsAgainst,
+      points_for: standing.pointsFor,
+      rank: standing.finalRank,
+      season: standing.season,
+      team_id: standing.providerTeamId,
+      ties: standing.ties,
+      wins: standing.wins,
+    });
+  }
+
+  const draft: FileImportDraftRow[] = [];
+  for (const pick of source.draftPicks) {
+    if (
+      !pick.playerName?.trim() ||
+      !hasTeam(pick.season, pick.providerTeamId)
+    ) {
+      count(omitted, "draftPicks");
+      continue;
+    }
+    draft.push({
+      ...(pick.auctionValue !== null
+        ? { auction_value: pick.auctionValue }
+        : {}),
+      is_keeper: pick.isKeeper,
+      ...(pick.pickOverall ? { pick: pick.pickOverall } : {}),
+      ...(pick.providerPlayerId ? { player_id: pick.providerPlayerId } : {}),
+      player_name: pick.playerName,
+      ...(pick.position && pick.position !== "unknown"
+        ? { position: pick.position }
+        : {}),
+      round: pick.round,
+      season: pick.season,
+      team_id: pick.providerTeamId,
+    });
+  }
+
+  const transactions: FileImportTransactionRow[] = [];
+  for (const transaction of source.transactions) {
+    const teamIds = transaction.teamProviderIds.filter((teamId) =>
+      hasTeam(transaction.season, teamId),
+    );
+    if (
+      !BUNDLE_TRANSACTION_TYPES.has(transaction.type) ||
+      teamIds.length === 0
+    ) {
+      count(omitted, "transactions");
+      continue;
+    }
+    transactions.push({
+      player_ids: transaction.playerProviderIds,
+      season: transaction.season,
+      team_ids: teamIds,
+      timestamp: transaction.occurredAt,
+      transaction_id: transaction.providerTransactionId,
+      type: transaction.type as FileImportTransactionRow["type"],
+      ...(transaction.scoringPeriod ? { week: transaction.scoringPeriod } : {}),
+    });
+  }
+
+  const history: FileImportBundleInput = {
+    format: "json",
+    league: {
+      key: `archive-${source.league.id}`,
+      name: bundleText(source.league.name, 120),
+      ...(source.league.scoringType.trim()
+        ? { scoring_type: bundleText(source.league.scoringType, 40) }
+        : {}),
+    },
+    sections: {
+      draft,
+      matchups,
+      members,
+      standings,
+      teams,
+      transactions: transactions.map((row) => ({
+        ...row,
+        timestamp: row.timestamp.toISOString(),
+      })),
+    },
+    version: 1,
+  };
+
+  const personIds = new Set(source.persons.map((person) => person.id));
+  const teamSeasonById = new Map(
+    source.teamSeasons.map((row) => [row.id, row]),
+  );
+  const matchupById = new Map(source.matchups.map((row) => [row.id, row]));
+  const recordKeyById = new Map(
+    source.recordDefinitions.map((row) => [row.id, row.recordKey]),
+  );
+  const targetOf = (
+    edit: LeagueArchiveSource["dataEdits"][number],
+  ): LeagueArchiveDataEditTarget | null => {
+    switch (edit.targetKind) {
+      case "person":
+        return personIds.has(edit.targetId)
+          ? { kind: "person", personId: edit.targetId }
+          : null;
+      case "team_season": {
+        const row = teamSeasonById.get(edit.targetId);
+        return row
+          ? {
+              kind: "team_season",
+              season: row.season,
+              teamId: row.providerTeamId,
+            }
+          : null;
+      }
+      case "matchup": {
+        const row = matchupById.get(edit.targetId);
+        return row
+          ? {
+              awayTeamId: row.awayTeamProviderId,
+              homeTeamId: row.homeTeamProviderId,
+              kind: "matchup",
+              season: row.season,
+              week: row.scoringPeriod,
+            }
+          : null;
+      }
+      case "record_definition": {
+        const recordKey = recordKeyById.get(edit.targetId);
+        return recordKey ? { kind: "record_definition", recordKey } : null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const subjectsByClaim = new Map<
+    string,
+    LeagueArchiveSource["loreSubjects"][number][]
+  >();
+  for (const subject of source.loreSubjects) {
+    const bucket = subjectsByClaim.get(subject.claimId) ?? [];
+    bucket.push(subject);
+    subjectsByClaim.set(subject.claimId, bucket);
+  }
+  const archivedPerson = (personId: string | null) =>
+    personId && personIds.has(personId) ? personId : null;
+
+  return {
+    content: source.content.map((item) => ({
+      authorPersona: item.authorPersona,
+      body: item.body,
+      dedupKey: item.dedupKey,
+      kind: item.kind,
+      metadata: item.metadata,
+      publishedAt: item.publishedAt.toISOString(),
+      source: item.source,
+      sourceUrl: item.sourceUrl,
+      summary: item.summary,
+      title: item.title,
+    })),
+    dataEdits: source.dataEdits.map((edit) => ({
+      afterValue: edit.afterValue,
+      beforeValue: edit.beforeValue,
+      createdAt: edit.createdAt.toISOString(),
+      editClass: edit.editClass,
+      field: edit.field,
+      reason: edit.reason,
+      scope: edit.scope,
+      target: targetOf(edit),
+      targetKind: edit.targetKind,
+    })),
+    exportedAt: source.exportedAt.toISOString(),
+    format: LEAGUE_ARCHIVE_FORMAT,
+    history,
+    league: {
+      id: source.league.id,
+      name: source.league.name,
+      provider: source.league.provider,
+      scoringType: source.league.scoringType,
+      season: source.league.season,
+    },
+    lore: source.loreClaims.map((claim) => ({
+      authorPersona: claim.authorPersona,
+      body: claim.body,
+      createdAt: claim.createdAt.toISOString(),
+      evidenceRefs: claim.evidenceRefs,
+      kind: claim.kind,
+      origin: claim.origin,
+      ratifiedAt: claim.ratifiedAt?.toISOString() ?? null,
+      ratifiedBy: claim.ratifiedBy,
+      statement: claim.statement,
+      subjects: (subjectsByClaim.get(claim.id) ?? []).map((subject) => ({
+        metadata: subject.metadata,
+        personAId: archivedPerson(subject.personAId),
+        personBId: archivedPerson(subject.personBId),
+        personId: archivedPerson(subject.personId),
+        recordType: subject.recordType,
+        season: subject.season,
+        subjectType: subject.subjectType,
+        week: subject.week,
+      })),
+      title: claim.title,
+      verification: claim.verification,
+    })),
+    omitted,
+    persons: source.persons.map((person) => ({
+      canonicalName: person.canonicalName,
+      id: person.id,
+      ownerHistory: person.ownerHistory,
+      teamSeasons: source.mappings
+        .filter((mapping) => mapping.personId === person.id)
+        .map((mapping) => ({
+          season: mapping.season,
+          teamId: mapping.providerTeamId,
+        })),
+    })),
+    records: {
+      ...(source.catalog === undefined ? {} : { catalog: source.catalog }),
+      definitions: source.recordDefinitions.map((definition) => ({
+        aggregation: definition.aggregation,
+        description: definition.description,
+        direction: definition.direction,
+        filters: { ...definition.filters },
+        label: definition.label,
+        metric: definition.metric,
+        recordKey: definition.recordKey,
+        scope: definition.scope,
+        segment: definition.segment,
+        status: definition.status,
+      })),
+    },
+    teamSeasons: source.teamSeasons.map((row) => ({
+      division: row.division,
+      id: row.id,
+      ownerMemberIds: row.ownerMemberIds,
+      ownerNames: row.ownerNames,
+      season: row.season,
+      teamId: row.providerTeamId,
+      teamName: row.teamName,
+    })),
+    version: LEAGUE_ARCHIVE_VERSION,
+  };
+}
+
+/** Reads every section of a league and assembles its archive. */
+export async function buildLeagueArchive(
+  db: Db,
+  input: { leagueId: string; now: Date },
+): Promise<LeagueArchive> {
+  const { leagueId } = input;
+  const source = await withLeagueContext(db, leagueId, async (tx) => {
+    const [league] = await tx
+      .select({
+        id: leagues.id,
+        name: leagues.name,
+        provider: leagues.provider,
+        scoringType: leagues.scoringType,
+        season: leagues.season,
+      })
+      .from(leagues)
+      .where(eq(leagues.id, leagueId))
+      .limit(1);
+    if (!league) {
+      throw new AppError({
+        code: "LEAGUE_NOT_FOUND",
+        message: "League was not found",
+        status: 404,
+      });
+    }
+
+    const teams = await tx
+      .select()
+      .from(fantasyTeams)
+      .where(eq(fantasyTeams.leagueId, leagueId))
+      .orderBy(asc(fantasyTeams.season), asc(fantasyTeams.providerTeamId));
+    const members = await tx
+      .select()
+      .from(fantasyMembers)
+      .where(eq(fantasyMembers.leagueId, leagueId))
+      .orderBy(
+        asc(fantasyMembers.season),
+        asc(fantasyMembers.providerMemberId),
+      );
+    const matchups = await tx
+      .select()
+      .from(fantasyMatchups)
+      .where(eq(fantasyMatchups.leagueId, leagueId))
+      .orderBy(asc(fantasyMatchups.season), asc(fantasyMatchups.scoringPeriod));
+    const standings = await tx
+      .select()
+      .from(providerFinalStandings)
+      .where(eq(providerFinalStandings.leagueId, leagueId))
+      .orderBy(
+        asc(providerFinalStandings.season),
+        asc(providerFinalStandings.finalRank),
+      );
+    const draftPicks = await tx
+      .select({
+        auctionValue: fantasyDraftPicks.auctionValue,
+        isKeeper: fantasyDraftPicks.isKeeper,
+        pickOverall: fantasyDraftPicks.pickOverall,
+        playerName: fantasyPlayers.fullName,
+        position: fantasyPlayers.position,
+        providerPlayerId: fantasyDraftPicks.providerPlayerId,
+        providerTeamId: fantasyDraftPicks.providerTeamId,
+        round: fantasyDraftPicks.round,
+        season: fantasyDraftPicks.season,
+      })
+      .from(fantasyDraftPicks)
+      .leftJoin(
+        fantasyPlayers,
+        eq(fantasyPlayers.id, fantasyDraftPicks.fantasyPlayerId),
+      )
+      .where(eq(fantasyDraftPicks.leagueId, leagueId))
+      .orderBy(
+        asc(fantasyDraftPicks.season),
+        asc(fantasyDraftPicks.round),
+        asc(fantasyDraftPicks.pickOverall),
+      );
+    const transactions = await tx
+      .select()
+      .from(fantasyTransactions)
+      .where(eq(fantasyTransactions.leagueId, leagueId))
+      .orderBy(asc(fantasyTransactions.occurredAt));
+    const personRows = await tx
+      .select()
+      .from(persons)
+      .where(eq(persons.leagueId, leagueId))
+      .orderBy(asc(persons.canonicalName));
+    const mappings = await tx
+      .select()
+      .from(identityMappings)
+      .where(eq(identityMappings.leagueId, leagueId))
+      .orderBy(asc(identityMappings.season));
+    const teamSeasonRows = await tx
+      .select()
+      .from(teamSeasons)
+      .where(eq(teamSeasons.leagueId, leagueId))
+      .orderBy(asc(teamSeasons.season), asc(teamSeasons.providerTeamId));
+    const dataEdits = await tx
+      .select()
+      .from(leagueDataEdits)
+      .where(eq(leagueDataEdits.leagueId, leagueId))
+      .orderBy(asc(leagueDataEdits.createdAt));
+    const recordDefinitions = await tx
+      .select()
+      .from(leagueRecordDefinitions)
+      .where(eq(leagueRecordDefinitions.leagueId, leagueId))
+      .orderBy(asc(leagueRecordDefinitions.recordKey));
+    const claimRows = await tx
+      .select()
+      .from(loreClaims)
+      .where(
+        and(eq(loreClaims.leagueId, leagueId), eq(loreClaims.status, "canon")),
+      )
+      .orderBy(asc(loreClaims.createdAt));
+    const subjectRows = await tx
+      .select()
+      .from(loreSubjects)
+      .where(eq(loreSubjects.leagueId, leagueId));
+    const content = await tx
+      .select()
+      .from(contentItems)
+      .where(
+        and(
+          eq(contentItems.leagueId, leagueId),
+          eq(contentItems.status, "published"),
+        ),
+      )
+      .orderBy(asc(contentItems.publishedAt));
+
+    return {
+      content,
+      dataEdits,
+      draftPicks,
+      league,
+      loreClaims: claimRows,
+      loreSubjects: subjectRows,
+      mappings,
+      matchups,
+      members,
+      persons: personRows,
+      recordDefinitions,
+      standings,
+      teamSeasons: teamSeasonRows,
+      teams,
+      transactions,
+    };
+  });
+
+  const catalog = await getLeagueRecordsCatalog(db, { leagueId });
+  return assembleLeagueArchive({
+    ...source,
+    catalog,
+    exportedAt: input.now,
+  });
+}
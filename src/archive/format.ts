@@ -0,0 +1,247 @@
+import { z } from "zod";
+import {
+  aiPersona,
+  contentItemKind,
+  leagueDataEditClass,
+  leagueDataEditTargetKind,
+  leagueRecordAggregation,
+  leagueRecordDefinitionStatus,
+  leagueRecordDirection,
+  leagueRecordMetric,
+  leagueRecordScope,
+  leagueRecordSegment,
+  loreClaimKind,
+  loreClaimOrigin,
+  loreClaimRatifiedBy,
+  loreClaimVerification,
+  loreSubjectType,
+} from "@/db/schema";
+import { fileImportBundleSchema } from "@/providers/file/bundle";
+
+/**
+ * The portable league archive: everything a commissioner needs to keep a
+ * league's history outside this instance, and to bring it back.
+ *
+ * The provider data (teams, members, matchups, standings, drafts and
+ * transactions) travels as a file-import bundle in `history`, so a fresh
+ * league is rebuilt through the same import, quarantine and identity pipeline
+ * as any uploaded league. The curated layers ride alongside it, keyed by the
+ * things that survive that rebuild (season and team id, record key) rather
+ * than by this instance's row ids:
+ *
+ * - `persons`: canonical people and the team seasons each one owns.
+ * - `teamSeasons`: curated team names, owners and divisions.
+ * - `dataEdits`: the curation ledger, each edit's target named portably.
+ * - `lore`: canon claims and their subjects.
+ * - `content`: published Press pieces.
+ * - `records`: house record definitions, plus the catalog as it stood at
+ *   export. The catalog is a snapshot for readers; a restored league
+ *   recomputes its own.
+ *
+ * `version` only moves when an older reader could misread a newer archive.
+ * Added sections are optional instead.
+ */
+
+export const LEAGUE_ARCHIVE_FORMAT = "rumbledore.league-archive";
+export const LEAGUE_ARCHIVE_VERSION = 1;
+
+const archiveId = z.string().min(1).max(200);
+const isoTimestamp = z.iso.datetime({ offset: true });
+
+const personSchema = z.object({
+  canonicalName: z.string().trim().min(1).max(200),
+  id: archiveId,
+  ownerHistory: z
+    .array(
+      z.object({
+        endSeason: z.number().int().nullable(),
+        ownerNames: z.array(z.string()),
+        providerMemberIds: z.array(z.string()),
+        startSeason: z.number().int(),
+      }),
+    )
+    .default([]),
+  teamSeasons: z.array(
+    z.object({ season: z.number().int(), teamId: archiveId }),
+  ),
+});
+
+const teamSeasonSchema = z.object({
+  division: z.string().nullable(),
+  id: archiveId,
+  ownerMemberIds: z.array(z.string()),
+  ownerNames: z.array(z.string()),
+  season: z.number().int(),
+  teamId: archiveId,
+  teamName: z.string().trim().min(1).max(200),
+});
+
+/**
+ * Where an edit pointed, in terms a rebuilt league can find again. `null` for
+ * targets that do not survive the rebuild (a weekly statistic, a grouping, a
+ * curation checkpoint); those edits stay in the archive as a record but are
+ * not restored.
+ */
+const dataEditTargetSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("person"), personId: archiveId }),
+  z.object({
+    kind: z.literal("team_season"),
+    season: z.number().int(),
+    teamId: archiveId,
+  }),
+  z.object({
+    awayTeamId: archiveId.nullable(),
+    homeTeamId: archiveId,
+    kind: z.literal("matchup"),
+    season: z.number().int(),
+    week: z.number().int(),
+  }),
+  z.object({ kind: z.literal("record_definition"), recordKey: archiveId }),
+]);
+
+const dataEditSchema = z.object({
+  afterValue: z.unknown(),
+  beforeValue: z.unknown(),
+  createdAt: isoTimestamp,
+  editClass: z.enum(leagueDataEditClass.enumValues),
+  field: z.string().min(1).max(200),
+  reason: z.string().nullable(),
+  scope: z.enum(["all_years", "this_year_only"]).nullable(),
+  target: dataEditTargetSchema.nullable(),
+  targetKind: z.enum(leagueDataEditTargetKind.enumValues),
+});
+
+const loreSubjectSchema = z.object({
+  metadata: z.record(z.string(), z.unknown()).default({}),
+  personAId: archiveId.nullable(),
+  personBId: archiveId.nullable(),
+  personId: archiveId.nullable(),
+  recordType: z.string().nullable(),
+  season: z.number().int().nullable(),
+  subjectType: z.enum(loreSubjectType.enumValues),
+  week: z.number().int().nullable(),
+});
+
+const loreClaimSchema = z.object({
+  authorPersona: z.enum(aiPersona.enumValues).nullable(),
+  body: z.string(),
+  createdAt: isoTimestamp,
+  evidenceRefs: z.array(z.record(z.string(), z.unknown())).default([]),
+  kind: z.enum(loreClaimKind.enumValues),
+  origin: z.enum(loreClaimOrigin.enumValues),
+  ratifiedAt: isoTimestamp.nullable(),
+  ratifiedBy: z.enum(loreClaimRatifiedBy.enumValues).nullable(),
+  statement: z.string().min(1),
+  subjects: z.array(loreSubjectSchema).default([]),
+  title: z.string().min(1),
+  verification: z.enum(loreClaimVerification.enumValues),
+});
+
+const contentItemSchema = z.object({
+  authorPersona: z.enum(aiPersona.enumValues).nullable(),
+  body: z.string(),
+  dedupKey: z.string().min(1),
+  kind: z.enum(contentItemKind.enumValues),
+  metadata: z.record(z.string(), z.unknown()).default({}),
+  publishedAt: isoTimestamp,
+  source: z.string().nullable(),
+  sourceUrl: z.string().nullable(),
+  summary: z.string(),
+  title: z.string().min(1),
+});
+
+const recordDefinitionSchema = z.object({
+  aggregation: z.enum(leagueRecordAggregation.enumValues).nullable(),
+  description: z.string().nullable(),
+  direction: z.enum(leagueRecordDirection.enumValues),
+  filters: z.record(z.string(), z.unknown()).default({}),
+  label: z.string().trim().min(1).max(200),
+  metric: z.enum(leagueRecordMetric.enumValues),
+  recordKey: archiveId,
+  scope: z.enum(leagueRecordScope.enumValues),
+  segment: z.enum(leagueRecordSegment.enumValues),
+  status: z.enum(leagueRecordDefinitionStatus.enumValues),
+});
+
+export const leagueArchiveSchema = z.object({
+  content: z.array(contentItemSchema).default([]),
+  dataEdits: z.array(dataEditSchema).default([]),
+  exportedAt: isoTimestamp,
+  format: z.literal(LEAGUE_ARCHIVE_FORMAT),
+  history: fileImportBundleSchema,
+  league: z.object({
+    id: archiveId,
+    name: z.string().min(1),
+    provider: z.string().min(1),
+    scoringType: z.string(),
+    season: z.number().int(),
+  }),
+  lore: z.array(loreClaimSchema).default([]),
+  /**
+   * Provider rows the history bundle cannot carry, counted so a reader knows
+   * what the rebuilt league will lack.
+   */
+  omitted: z.record(z.string(), z.number().int().min(0)).default({}),
+  persons: z.array(personSchema).default([]),
+  records: z
+    .object({
+      catalog: z.unknown().optional(),
+      definitions: z.array(recordDefinitionSchema).default([]),
+    })
+    .default({ definitions: [] }),
+  teamSeasons: z.array(teamSeasonSchema).default([]),
+  version: z.literal(LEAGUE_ARCHIVE_VERSION),
+});
+
+export type LeagueArchive = z.infer<typeof leagueArchiveSchema>;
+export type LeagueArchiveInput = z.input<typeof leagueArchiveSchema>;
+export type LeagueArchiveDataEdit = LeagueArchive["dataEdits"][number];
+export type LeagueArchiveDataEditTarget = NonNullable<
+  LeagueArchiveDataEdit["target"]
+>;
+
+/** Cheap check for routing an upload: it says it is an archive. */
+export function isLeagueArchive(value: unknown): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { format?: unknown }).format === LEAGUE_ARCHIVE_FORMAT
+  );
+}
+
+export type LeagueArchiveParseResult =
+  | { readonly archive: LeagueArchive; readonly ok: true }
+  | { readonly issues: readonly string[]; readonly ok: false };
+
+/** Caps the report, like the file import does, for a wholly wrong upload. */
+const MAX_REPORTED_ARCHIVE_ISSUES = 50;
+
+export function parseLeagueArchive(value: unknown): LeagueArchiveParseResult {
+  if (
+    isLeagueArchive(value) &&
+    (value as { version?: unknown }).version !== LEAGUE_ARCHIVE_VERSION
+  ) {
+    return {
+      issues: [
+        `This archive is format version ${String(
+          (value as { version?: unknown }).version,
+        )}; this instance reads version ${LEAGUE_ARCHIVE_VERSION}`,
+      ],
+      ok: false,
+    };
+  }
+  const parsed = leagueArchiveSchema.safeParse(value);
+  if (!parsed.success) {
+    return {
+      issues: parsed.error.issues
+        .slice(0, MAX_REPORTED_ARCHIVE_ISSUES)
+        .map((issue) =>
+          issue.path.length > 0
+            ? `${issue.path.join(".")}: ${issue.message}`
+            : issue.message,
+        ),
+      ok: false,
+    };
+  }
+  return { archive: parsed.data, ok: true };
+}
@@ -0,0 +1,34 @@
+export {
+  ARCHIVE_DOWNLOAD_TTL_SECONDS,
+  archiveDownloadPath,
+  verifyArchiveDownload,
+} from "./download-link";
+export {
+  assembleLeagueArchive,
+  buildLeagueArchive,
+  type LeagueArchiveSource,
+} from "./export";
+export {
+  isLeagueArchive,
+  LEAGUE_ARCHIVE_FORMAT,
+  LEAGUE_ARCHIVE_VERSION,
+  type LeagueArchive,
+  type LeagueArchiveInput,
+  type LeagueArchiveParseResult,
+  leagueArchiveSchema,
+  parseLeagueArchive,
+} from "./format";
+export {
+  type LeagueArchiveRestoreSummary,
+  restoreLeagueArchive,
+} from "./restore";
+export {
+  completeLeagueArchive,
+  getLeagueArchivePageData,
+  type LeagueArchivePageData,
+  type LeagueArchiveStatus,
+  type LeagueArchiveSummary,
+  listLeagueArchives,
+  loadLeagueArchiveDocument,
+  requestLeagueArchive,
+} from "./service";
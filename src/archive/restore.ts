@@ -0,0 +1,373 @@
+import { createHash } from "node:crypto";
+import { and, eq, inArray } from "drizzle-orm";
+import { AppError, err, ok, type Result, toAppError } from "@/core/result";
+import type { Db } from "@/db/client";
+import { withLeagueContext } from "@/db/rls";
+import {
+  contentItems,
+  fantasyMatchups,
+  identityAuditLog,
+  identityMappings,
+  type LeagueRecordDefinitionFilters,
+  leagueDataEdits,
+  leagueRecordDefinitions,
+  loreClaims,
+  loreSubjects,
+  persons,
+  teamSeasons,
+} from "@/db/schema";
+import { isCustomRecordKey, recomputeLeagueStatistics } from "@/stats";
+import type { LeagueArchive, LeagueArchiveDataEditTarget } from "./format";
+
+/**
+ * Restores an archive's curated layers onto a league rebuilt from its
+ * `history` bundle. The league must be fresh: restoring over curation would
+ * leave two ledgers claiming the same fields. Every archived team season must
+ * already exist, which is how a restore knows the history it is decorating is
+ * the archive's own.
+ */
+
+export interface LeagueArchiveRestoreSummary {
+  readonly content: number;
+  readonly dataEdits: number;
+  readonly loreClaims: number;
+  readonly persons: number;
+  readonly recordDefinitions: number;
+  /** Ledger entries whose target the rebuilt league does not have. */
+  readonly skippedDataEdits: number;
+  readonly teamSeasons: number;
+}
+
+const RESTORE_REASON = "restored from league archive";
+
+function restoreError(code: string, message: string): AppError {
+  return new AppError({ code, message, status: 409 });
+}
+
+function seasonTeamKey(season: number, teamId: string): string {
+  return `${season}:${teamId}`;
+}
+
+function matchupKey(input: {
+  awayTeamId: string | null;
+  homeTeamId: string;
+  season: number;
+  week: number;
+}): string {
+  return `${input.season}:${input.week}:${input.homeTeamId}:${input.awayTeamId ?? "bye"}`;
+}
+
+function valuesDiffer(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) !== JSON.stringify(right);
+}
+
+export async function restoreLeagueArchive(
+  db: Db,
+  input: { actorUserId: string; archive: LeagueArchive; leagueId: string },
+): Promise<Result<LeagueArchiveRestoreSummary, AppError>> {
+  const { actorUserId, archive, leagueId } = input;
+  try {
+    const summary = await withLeagueContext(db, leagueId, async (tx) => {
+      const [edited] = await tx
+        .select({ id: leagueDataEdits.id })
+        .from(leagueDataEdits)
+        .where(eq(leagueDataEdits.leagueId, leagueId))
+        .limit(1);
+      const [defined] = await tx
+        .select({ id: leagueRecordDefinitions.id })
+        .from(leagueRecordDefinitions)
+        .where(eq(leagueRecordDefinitions.leagueId, leagueId))
+        .limit(1);
+      const [canon] = await tx
+        .select({ id: loreClaims.id })
+        .from(loreClaims)
+        .where(
+          and(
+            eq(loreClaims.leagueId, leagueId),
+            eq(loreClaims.status, "canon"),
+          ),
+        )
+        .limit(1);
+      if (edited || defined || canon) {
+        throw restoreError(
+          "ARCHIVE_RESTORE_LEAGUE_NOT_FRESH",
+          "This league already has curation, house records or canon lore; restore an archive into a newly imported league",
+        );
+      }
+
+      const seasonRows = await tx
+        .select()
+        .from(teamSeasons)
+        .where(eq(teamSeasons.leagueId, leagueId));
+      const seasonByKey = new Map(
+        seasonRows.map((row) => [
+          seasonTeamKey(row.season, row.providerTeamId),
+          row,
+        ]),
+      );
+      const missing = archive.teamSeasons.filter(
+        (row) => !seasonByKey.has(seasonTeamKey(row.season, row.teamId)),
+      );
+      if (seasonRows.length === 0 || missing.length > 0) {
+        throw restoreError(
+          "ARCHIVE_HISTORY_MISMATCH",
+          seasonRows.length === 0
+            ? "This league has no imported history yet; wait for the archive's import to finish"
+            : `This league's history does not match the archive: ${missing.length} archived team seasons are missing`,
+        );
+      }
+
+      let restoredTeamSeasons = 0;
+      for (const archived of archive.teamSeasons) {
+        const row = seasonByKey.get(
+          seasonTeamKey(archived.season, archived.teamId),
+        );
+        if (
+          !row ||
+          (row.teamName === archived.teamName &&
+            row.division === archived.division &&
+            !valuesDiffer(row.ownerNames, archived.ownerNames))
+        ) {
+          continue;
+        }
+        await tx
+          .update(teamSeasons)
+          .set({
+            division: archived.division,
+            ownerNames: archived.ownerNames,
+            teamName: archived.teamName,
+            updatedAt: new Date(),
+          })
+          .where(eq(teamSeasons.id, row.id));
+        restoredTeamSeasons += 1;
+      }
+
+      const recordIdByKey = new Map<string, string>();
+      for (const definition of archive.records.definitions) {
+        if (!isCustomRecordKey(definition.recordKey)) {
+          continue;
+        }
+        const [row] = await tx
+          .insert(leagueRecordDefinitions)
+          .values({
+            aggregation: definition.aggregation,
+            createdByUserId: actorUserId,
+            description: definition.description,
+            direction: definition.direction,
+            filters: definition.filters as LeagueRecordDefinitionFilters,
+            label: definition.label,
+            leagueId,
+            metric: definition.metric,
+            recordKey: definition.recordKey,
+            scope: definition.scope,
+            segment: definition.segment,
+            status: definition.status,
+            updatedByUserId: actorUserId,
+          })
+          .returning({ id: leagueRecordDefinitions.id });
+        if (row) {
+          recordIdByKey.set(definition.recordKey, row.id);
+        }
+      }
+
+      // Each archived person becomes a new person holding the same team
+      // seasons. The automatic people the import made for those seasons are
+      // left unmapped, and the recompute below removes them.
+      const personIdByArchiveId = new Map<string, string>();
+      for (const person of archive.persons) {
+        const teamSeasonIds = person.teamSeasons
+          .map((ref) => seasonByKey.get(seasonTeamKey(ref.season, ref.teamId)))
+          .filter((row) => row !== undefined)
+          .map((row) => row.id);
+        if (teamSeasonIds.length === 0) {
+          continue;
+        }
+        const [created] = await tx
+          .insert(persons)
+          .values({
+            canonicalName: person.canonicalName,
+            leagueId,
+            ownerHistory: person.ownerHistory,
+          })
+          .returning({ id: persons.id });
+        if (!created) {
+          throw new Error("restored person was not created");
+        }
+        personIdByArchiveId.set(person.id, created.id);
+        await tx
+          .update(identityMappings)
+          .set({
+            confidence: 1,
+            method: "manual",
+            personId: created.id,
+            resolvedBy: actorUserId,
+            updatedAt: new Date(),
+          })
+          .where(
+            and(
+              eq(identityMappings.leagueId, leagueId),
+              inArray(identityMappings.teamSeasonId, teamSeasonIds),
+            ),
+          );
+        await tx.insert(identityAuditLog).values({
+          action: "create",
+          actorUserId,
+          afterState: {
+            canonicalName: person.canonicalName,
+            teamSeasonIds,
+          },
+          leagueId,
+          personId: created.id,
+          reason: RESTORE_REASON,
+        });
+      }
+
+      const matchupRows = await tx
+        .select({
+          awayTeamId: fantasyMatchups.awayTeamProviderId,
+          homeTeamId: fantasyMatchups.homeTeamProviderId,
+          id: fantasyMatchups.id,
+          season: fantasyMatchups.season,
+          week: fantasyMatchups.scoringPeriod,
+        })
+        .from(fantasyMatchups)
+        .where(eq(fantasyMatchups.leagueId, leagueId));
+      const matchupIdByKey = new Map(
+        matchupRows.map((row) => [matchupKey(row), row.id]),
+      );
+      const targetIdOf = (
+        target: LeagueArchiveDataEditTarget | null,
+      ): string | undefined => {
+        switch (target?.kind) {
+          case "person":
+            return personIdByArchiveId.get(target.personId);
+          case "team_season":
+            return seasonByKey.get(seasonTeamKey(target.season, target.teamId))
+              ?.id;
+          case "matchup":
+            return matchupIdByKey.get(matchupKey(target));
+          case "record_definition":
+            return recordIdByKey.get(target.recordKey);
+          default:
+            return undefined;
+        }
+      };
+
+      const ledger = archive.dataEdits.flatMap((edit) => {
+        const targetId = targetIdOf(edit.target);
+        return targetId
+          ? [
+              {
+                afterValue: edit.afterValue,
+                beforeValue: edit.beforeValue,
+                createdAt: new Date(edit.createdAt),
+                editClass: edit.editClass,
+                field: edit.field,
+                leagueId,
+                reason: edit.reason,
+                scope: edit.scope,
+                targetId,
+                targetKind: edit.targetKind,
+              },
+            ]
+          : [];
+      });
+      if (ledger.length > 0) {
+        await tx.insert(leagueDataEdits).values(ledger);
+      }
+
+      const mappedPerson = (archiveId: string | null) =>
+        archiveId ? (personIdByArchiveId.get(archiveId) ?? null) : null;
+      for (const claim of archive.lore) {
+        const [created] = await tx
+          .insert(loreClaims)
+          .values({
+            authorPersona: claim.authorPersona,
+            body: claim.body,
+            createdAt: new Date(claim.createdAt),
+            evidenceRefs: claim.evidenceRefs,
+            kind: claim.kind,
+            leagueId,
+            origin: claim.origin,
+            ratifiedAt: claim.ratifiedAt ? new Date(claim.ratifiedAt) : null,
+            ratifiedBy: claim.ratifiedBy,
+            statement: claim.statement,
+            status: "canon",
+            title: claim.title,
+            verification: claim.verification,
+          })
+          .returning({ id: loreClaims.id });
+        if (!created) {
+          throw new Error("restored lore claim was not created");
+        }
+        if (claim.subjects.length > 0) {
+          await tx.insert(loreSubjects).values(
+            claim.subjects.map((subject) => ({
+              claimId: created.id,
+              leagueId,
+              metadata: subject.metadata,
+              personAId: mappedPerson(subject.personAId),
+              personBId: mappedPerson(subject.personBId),
+              personId: mappedPerson(subject.personId),
+              recordType: subject.recordType,
+              season: subject.season,
+              subjectType: subject.subjectType,
+              week: subject.week,
+            })),
+          );
+        }
+      }
+
+      let restoredContent = 0;
+      for (const item of archive.content) {
+        const inserted = await tx
+          .insert(contentItems)
+          .values({
+            authorPersona: item.authorPersona,
+            body: item.body,
+            contentHash: createHash("sha256")
+              .update(`${item.title}\n${item.summary}\n${item.body}`)
+              .digest("hex"),
+            dedupKey: item.dedupKey,
+            kind: item.kind,
+            leagueId,
+            metadata: item.metadata,
+            publishedAt: new Date(item.publishedAt),
+            source: item.source,
+            sourceUrl: item.sourceUrl,
+            summary: item.summary,
+            title: item.title,
+          })
+          .onConflictDoNothing({
+            target: [
+              contentItems.leagueId,
+              contentItems.kind,
+              contentItems.dedupKey,
+            ],
+          })
+          .returning({ id: contentItems.id });
+        restoredContent += inserted.length;
+      }
+
+      return {
+        content: restoredContent,
+        dataEdits: ledger.length,
+        loreClaims: archive.lore.length,
+        persons: personIdByArchiveId.size,
+        recordDefinitions: recordIdByKey.size,
+        skippedDataEdits: archive.dataEdits.length - ledger.length,
+        teamSeasons: restoredTeamSeasons,
+      };
+    });
+
+    await recomputeLeagueStatistics(db, { leagueId });
+    return ok(summary);
+  } catch (error) {
+    return err(
+      toAppError(error, {
+        code: "ARCHIVE_RESTORE_FAILED",
+        message: "The league archive could not be restored",
+      }),
+    );
+  }
+}
@@ -0,0 +1,226 @@
+import { and, desc, eq } from "drizzle-orm";
+import { AppError } from "@/core/result";
+import type { Db } from "@/db/client";
+import { withLeagueContext } from "@/db/rls";
+import {
+  type leagueArchiveStatus,
+  leagueArchives,
+  leagues,
+  users,
+} from "@/db/schema";
+import { archiveDownloadPath } from "./download-link";
+import { buildLeagueArchive } from "./export";
+import { LEAGUE_ARCHIVE_VERSION, type LeagueArchive } from "./format";
+
+/**
+ * The `league_archives` lifecycle: a commissioner asks for an export, the
+ * `league-archive-export` job builds it, and the archive page lists the
+ * results with their download links.
+ */
+
+export type LeagueArchiveStatus =
+  (typeof leagueArchiveStatus.enumValues)[number];
+
+export interface LeagueArchiveSummary {
+  readonly byteSize: number | null;
+  readonly completedAt: string | null;
+  readonly createdAt: string;
+  /** A freshly signed link for a ready archive; see `download-link`. */
+  readonly downloadPath: string | null;
+  readonly error: string | null;
+  readonly id: string;
+  readonly requestedBy: string | null;
+  readonly status: LeagueArchiveStatus;
+}
+
+export interface LeagueArchivePageData {
+  readonly archives: readonly LeagueArchiveSummary[];
+  readonly league: { readonly id: string; readonly name: string };
+}
+
+/** How many past exports the archive page shows. */
+const LISTED_ARCHIVES = 20;
+
+/**
+ * Queues an export. A league with one already queued gets that one back, so
+ * a double click or a retry does not build the same archive twice.
+ */
+export async function requestLeagueArchive(
+  db: Db,
+  input: { leagueId: string; userId: string },
+): Promise<{ archiveId: string; queued: boolean }> {
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const [pending] = await tx
+      .select({ id: leagueArchives.id })
+      .from(leagueArchives)
+      .where(
+        and(
+          eq(leagueArchives.leagueId, input.leagueId),
+          eq(leagueArchives.status, "queued"),
+        ),
+      )
+      .limit(1);
+    if (pending) {
+      return { archiveId: pending.id, queued: false };
+    }
+
+    const [created] = await tx
+      .insert(leagueArchives)
+      .values({
+        formatVersion: LEAGUE_ARCHIVE_VERSION,
+        leagueId: input.leagueId,
+        requestedByUserId: input.userId,
+      })
+      .returning({ id: leagueArchives.id });
+    if (!created) {
+      throw new Error("league archive request was not created");
+    }
+    return { archiveId: created.id, queued: true };
+  });
+}
+
+export async function listLeagueArchives(
+  db: Db,
+  input: { leagueId: string; now: Date; signingSecret: string },
+): Promise<LeagueArchiveSummary[]> {
+  const rows = await withLeagueContext(db, input.leagueId, (tx) =>
+    tx
+      .select({
+        byteSize: leagueArchives.byteSize,
+        completedAt: leagueArchives.completedAt,
+        createdAt: leagueArchives.createdAt,
+        displayName: users.displayName,
+        error: leagueArchives.error,
+        id: leagueArchives.id,
+        status: leagueArchives.status,
+      })
+      .from(leagueArchives)
+      .leftJoin(users, eq(users.id, leagueArchives.requestedByUserId))
+      .where(eq(leagueArchives.leagueId, input.leagueId))
+      .orderBy(desc(leagueArchives.createdAt))
+      .limit(LISTED_ARCHIVES),
+  );
+  return rows.map((row) => ({
+    byteSize: row.byteSize,
+    completedAt: row.completedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+    downloadPath:
+      row.status === "ready"
+        ? archiveDownloadPath(
+            { archiveId: row.id, leagueId: input.leagueId, now: input.now },
+            input.signingSecret,
+          )
+        : null,
+    error: row.error,
+    id: row.id,
+    requestedBy: row.displayName,
+    status: row.status,
+  }));
+}
+
+export async function getLeagueArchivePageData(
+  db: Db,
+  input: { leagueId: string; now: Date; signingSecret: string },
+): Promise<LeagueArchivePageData | null> {
+  const [league] = await db
+    .select({ id: leagues.id, name: leagues.name })
+    .from(leagues)
+    .where(eq(leagues.id, input.leagueId))
+    .limit(1);
+  if (!league) {
+    return null;
+  }
+  return { archives: await listLeagueArchives(db, input), league };
+}
+
+/**
+ * Builds a queued archive and stores it on its row. A build that throws marks
+ * the row failed with the reason instead of leaving it queued forever; the
+ * commissioner can ask again.
+ */
+export async function completeLeagueArchive(
+  db: Db,
+  input: { archiveId: string; leagueId: string; now: Date },
+): Promise<{ byteSize: number; status: LeagueArchiveStatus }> {
+  const [row] = await withLeagueContext(db, input.leagueId, (tx) =>
+    tx
+      .select({ status: leagueArchives.status })
+      .from(leagueArchives)
+      .where(
+        and(
+          eq(leagueArchives.leagueId, input.leagueId),
+          eq(leagueArchives.id, input.archiveId),
+        ),
+      )
+      .limit(1),
+  );
+  if (!row) {
+    throw new AppError({
+      code: "LEAGUE_ARCHIVE_NOT_FOUND",
+      message: "League archive was not found",
+      status: 404,
+    });
+  }
+  if (row.status !== "queued") {
+    return { byteSize: 0, status: row.status };
+  }
+
+  let update: Partial<typeof leagueArchives.$inferInsert>;
+  try {
+    const archive = await buildLeagueArchive(db, {
+      leagueId: input.leagueId,
+      now: input.now,
+    });
+    update = {
+      archive,
+      byteSize: Buffer.byteLength(JSON.stringify(archive)),
+      status: "ready",
+    };
+  } catch (error) {
+    update = {
+      error: error instanceof Error ? error.message : "Archive build failed",
+      status: "failed",
+    };
+  }
+
+  await withLeagueContext(db, input.leagueId, (tx) =>
+    tx
+      .update(leagueArchives)
+      .set({ ...update, completedAt: input.now, updatedAt: input.now })
+      .where(eq(leagueArchives.id, input.archiveId)),
+  );
+  return {
+    byteSize: update.byteSize ?? 0,
+    status: update.status ?? "failed",
+  };
+}
+
+/** The stored document of a finished archive, or `null` when not ready. */
+export async function loadLeagueArchiveDocument(
+  db: Db,
+  input: { archiveId: string; leagueId: string },
+): Promise<{ archive: LeagueArchive; createdAt: Date } | null> {
+  const [row] = await withLeagueContext(db, input.leagueId, (tx) =>
+    tx
+      .select({
+        archive: leagueArchives.archive,
+        createdAt: leagueArchives.createdAt,
+        status: leagueArchives.status,
+      })
+      .from(leagueArchives)
+      .where(
+        and(
+          eq(leagueArchives.leagueId, input.leagueId),
+          eq(leagueArchives.id, input.archiveId),
+        ),
+      )
+      .limit(1),
+  );
+  if (!row || row.status !== "ready" || !row.archive) {
+    return null;
+  }
+  return {
+    archive: row.archive as unknown as LeagueArchive,
+    createdAt: row.createdAt,
+  };
+}
@@ -7,6 +7,7 @@ import { createDb, type DbHandle } from "@/db/client";
 import { accounts, leagues, members, users } from "@/db/schema";
 import { migrateSerialized } from "@/db/test-support";
 import { type Auth, createAuth } from "./instance";
+import { RecordingMagicLinkSender } from "./magic-link";
 
 /**
  * Integration test against the local stack (`pnpm db:up`). Exercises the
@@ -67,6 +68,7 @@ beforeAll(async () => {
     secret: "auth-test-secret", // ubs:ignore — test fixture
     baseURL: "http://localhost:3000",
     google: { mock: true },
+    magicLinkSender: new RecordingMagicLinkSender(),
     redisUrl: parseEnv(process.env).redisUrl,
   });
 });
@@ -8,6 +8,7 @@ import { leagues, members, platformAdmins, users } from "@/db/schema";
 import { migrateSerialized } from "@/db/test-support";
 import {
   listLeagueMembershipsForUser,
+  requireLeaguePermissionOrPlatformAdmin,
   requireLeagueRole,
   requireLeagueRoleForUser,
   requirePlatformAdmin,
@@ -20,6 +21,8 @@ let handle: DbHandle;
 let memberUserId: string;
 let stewardUserId: string;
 let commissionerUserId: string;
+let editorUserId: string;
+let spectatorUserId: string;
 let outsiderUserId: string;
 let platformAdminUserId: string;
 let leagueId: string;
@@ -72,12 +75,16 @@ beforeAll(async () => {
     memberUserId,
     stewardUserId,
     commissionerUserId,
+    editorUserId,
+    spectatorUserId,
     outsiderUserId,
     platformAdminUserId,
   ] = await Promise.all([
     seedUser("member"),
     seedUser("steward"),
     seedUser("commissioner"),
+    seedUser("editor"),
+    seedUser("spectator"),
     seedUser("outsider"),
     seedUser("platform-admin"),
   ]);
@@ -89,6 +96,8 @@ beforeAll(async () => {
   await handle.db.insert(members).values([
     { organizationId: leagueId, role: "member", userId: memberUserId },
     { organizationId: leagueId, role: "data_steward", userId: stewardUserId },
+    { organizationId: leagueId, role: "editor", userId: editorUserId },
+    { organizationId: leagueId, role: "spectator", userId: spectatorUserId },
     {
       organizationId: leagueId,
       role: "commissioner",
@@ -153,7 +162,7 @@ describe("auth guards", () => {
       getSession: sessionFor(stewardUserId),
       headers: new Headers(),
       leagueId,
-      minRole: "member",
+      permission: "league:view",
     });
 
     expect(result.ok).toBe(true);
@@ -165,7 +174,7 @@ describe("auth guards", () => {
     });
   });
 
-  it("rejects non-members and insufficient roles", async () => {
+  it("rejects non-members and roles without the permission", async () => {
     const nonMember = await requireLeagueRoleForUser(handle.db, {
       leagueId,
       userId: outsiderUserId,
@@ -177,7 +186,7 @@ describe("auth guards", () => {
 
     const memberAsCommissioner = await requireLeagueRoleForUser(handle.db, {
       leagueId,
-      minRole: "commissioner",
+      permission: "league:manage",
       userId: memberUserId,
     });
     expect(memberAsCommissioner.ok).toBe(false);
@@ -187,35 +196,70 @@ describe("auth guards", () => {
   });
 
   it("admits a data_steward to a steward gate but not to a commissioner gate", async () => {
-    // Pins the collapsed ladder from the other side: after `league_admin` was
-    // folded into `commissioner` (migration 0082) there is exactly one rung
-    // above `data_steward`, and the steward must not have been promoted into it.
     const atStewardGate = await requireLeagueRoleForUser(handle.db, {
       leagueId,
-      minRole: "data_steward",
+      permission: "leagueData:manage",
       userId: stewardUserId,
     });
     expect(atStewardGate.ok).toBe(true);
 
     const atCommissionerGate = await requireLeagueRoleForUser(handle.db, {
       leagueId,
-      minRole: "commissioner",
+      permission: "league:manage",
       userId: stewardUserId,
     });
     expect(atCommissionerGate.ok).toBe(false);
   });
 
+  it("resolves granular roles through the matrix rather than a ladder", async () => {
+    const editorAtPress = await requireLeagueRoleForUser(handle.db, {
+      leagueId,
+      permission: "press:moderate",
+      userId: editorUserId,
+    });
+    expect(editorAtPress.ok).toBe(true);
+
+    const editorAtLore = await requireLeagueRoleForUser(handle.db, {
+      leagueId,
+      permission: "lore:steward",
+      userId: editorUserId,
+    });
+    expect(editorAtLore.ok).toBe(false);
+  });
+
+  it("lets a spectator read but keeps the default gate at participation", async () => {
+    const reading = await requireLeagueRoleForUser(handle.db, {
+      leagueId,
+      permission: "league:view",
+      userId: spectatorUserId,
+    });
+    expect(reading.ok).toBe(true);
+
+    const writing = await requireLeagueRoleForUser(handle.db, {
+      leagueId,
+      userId: spectatorUserId,
+    });
+    expect(writing.ok).toBe(false);
+    if (writing.ok) return;
+    expect(writing.error.code).toBe("LEAGUE_FORBIDDEN");
+  });
+
   it("clears every gate for a commissioner, including the steward gate", async () => {
     // The maintainer's ruling made concrete: an admin (= commissioner) may do
     // anything an assigned role can. A `league_admin` row seeded before 0082 is
     // now stored as `commissioner`, so this is the path such a user takes.
-    for (const minRole of ["member", "data_steward", "commissioner"] as const) {
+    for (const permission of [
+      "league:view",
+      "leagueData:manage",
+      "league:manage",
+      "roles:grant",
+    ] as const) {
       const result = await requireLeagueRoleForUser(handle.db, {
         leagueId,
-        minRole,
+        permission,
         userId: commissionerUserId,
       });
-      expect(result.ok, `commissioner denied at minRole=${minRole}`).toBe(true);
+      expect(result.ok, `commissioner denied ${permission}`).toBe(true);
       if (!result.ok) return;
       expect(result.value.role).toBe("commissioner");
     }
@@ -224,7 +268,7 @@ describe("auth guards", () => {
   it("lists requested memberships through the shared role filter", async () => {
     const result = await listLeagueMembershipsForUser(handle.db, {
       leagueIds: [leagueId, otherLeagueId],
-      minRole: "commissioner",
+      permission: "league:manage",
       userId: commissionerUserId,
     });
 
@@ -265,6 +309,37 @@ describe("auth guards", () => {
     });
   });
 
+  it("opens platform-admin surfaces to league roles holding the permission", async () => {
+    const admin = await requireLeaguePermissionOrPlatformAdmin({
+      db: handle.db,
+      getSession: sessionFor(platformAdminUserId),
+      headers: new Headers(),
+      leagueId,
+      permission: "cast:edit",
+    });
+    expect(admin.ok).toBe(true);
+
+    const editor = await requireLeaguePermissionOrPlatformAdmin({
+      db: handle.db,
+      getSession: sessionFor(editorUserId),
+      headers: new Headers(),
+      leagueId,
+      permission: "cast:edit",
+    });
+    expect(editor.ok).toBe(true);
+
+    const member = await requireLeaguePermissionOrPlatformAdmin({
+      db: handle.db,
+      getSession: sessionFor(memberUserId),
+      headers: new Headers(),
+      leagueId,
+      permission: "cast:edit",
+    });
+    expect(member.ok).toBe(false);
+    if (member.ok) return;
+    expect(member.error.code).toBe("LEAGUE_FORBIDDEN");
+  });
+
   it("does not treat league commissioners as platform admins", async () => {
     const result = await requirePlatformAdmin({
       db: handle.db,
@@ -2,6 +2,9 @@ import { and, eq, inArray } from "drizzle-orm";
 import { AppError, err, ok, type Result } from "@/core/result";
 import type { Db } from "@/db/client";
 import { type Member, members, platformAdmins } from "@/db/schema";
+import { hasLeaguePermission, type LeaguePermission } from "./permissions";
+
+export type { LeaguePermission } from "./permissions";
 
 export type LeagueRole = Member["role"];
 
@@ -31,7 +34,8 @@ export interface SessionGuardInput {
 export interface LeagueRoleGuardInput extends SessionGuardInput {
   db: Db;
   leagueId: string;
-  minRole?: LeagueRole;
+  /** Defaults to `league:participate`, the authority a plain member holds. */
+  permission?: LeaguePermission;
 }
 
 export interface PlatformAdminGuardInput extends SessionGuardInput {
@@ -41,17 +45,13 @@ export interface PlatformAdminGuardInput extends SessionGuardInput {
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-// The enforced authority ladder. `league_admin` used to sit between
-// `data_steward` and `commissioner`; migration 0082 collapsed it into
-// `commissioner` because the two carried identical authority (an admin may do
-// anything an assigned role can — PROJECT_CONTEXT.md Q16/§7.1). Adding a rung
-// here means adding it to the `league_role` pg enum and to `roles` in
-// ./permissions.ts; ./permissions.test.ts fails if the three drift apart.
-const ROLE_RANK: Record<LeagueRole, number> = {
-  member: 0,
-  data_steward: 1,
-  commissioner: 2,
-};
+// Guards used to compare roles on a linear ladder. Granular roles are not a
+// ladder (an editor may moderate the Press but not steward lore; a lore keeper
+// the reverse), so every guard now asks the permission matrix in
+// ./permissions.ts. A guard that omits `permission` demands
+// `league:participate`, so a spectator only gets in where the caller asked
+// for `league:view`.
+const DEFAULT_PERMISSION: LeaguePermission = "league:participate";
 
 function authError(): AppError {
   return new AppError({
@@ -92,10 +92,6 @@ async function defaultGetSession(
   return getAuth().api.getSession({ headers });
 }
 
-function canSatisfyRole(role: LeagueRole, minRole: LeagueRole): boolean {
-  return ROLE_RANK[role] >= ROLE_RANK[minRole];
-}
-
 export function isValidLeagueId(leagueId: string): boolean {
   return UUID_RE.test(leagueId);
 }
@@ -114,13 +110,17 @@ export async function requireSession({
 
 export async function requireLeagueRoleForUser(
   db: Db,
-  input: { leagueId: string; minRole?: LeagueRole; userId: string },
+  input: {
+    leagueId: string;
+    permission?: LeaguePermission;
+    userId: string;
+  },
 ): Promise<Result<Omit<LeagueRoleAccess, "session">, AppError>> {
   if (!isValidLeagueId(input.leagueId)) {
     return err(invalidLeagueIdError());
   }
 
-  const minRole = input.minRole ?? "member";
+  const permission = input.permission ?? DEFAULT_PERMISSION;
   const [membership] = await db
     .select({ role: members.role })
     .from(members)
@@ -132,7 +132,7 @@ export async function requireLeagueRoleForUser(
     )
     .limit(1);
 
-  if (!membership || !canSatisfyRole(membership.role, minRole)) {
+  if (!membership || !hasLeaguePermission(membership.role, permission)) {
     return err(forbiddenLeagueError());
   }
 
@@ -148,7 +148,7 @@ export async function requireLeagueRole({
   getSession,
   headers,
   leagueId,
-  minRole,
+  permission,
 }: LeagueRoleGuardInput): Promise<Result<LeagueRoleAccess, AppError>> {
   const session = await requireSession({ getSession, headers });
   if (!session.ok) {
@@ -157,7 +157,7 @@ export async function requireLeagueRole({
 
   const access = await requireLeagueRoleForUser(db, {
     leagueId,
-    minRole,
+    permission,
     userId: session.value.userId,
   });
   if (!access.ok) {
@@ -202,11 +202,44 @@ export async function requirePlatformAdmin({
   return ok(session.value);
 }
 
+/**
+ * For surfaces that platform administrators have always run across every
+ * league (persona tone, Press regeneration) and that the matrix now also opens
+ * to league roles holding `permission`.
+ */
+export async function requireLeaguePermissionOrPlatformAdmin({
+  db,
+  getSession,
+  headers,
+  leagueId,
+  permission,
+}: LeagueRoleGuardInput & {
+  permission: LeaguePermission;
+}): Promise<Result<AuthenticatedSession, AppError>> {
+  const session = await requireSession({ getSession, headers });
+  if (!session.ok) {
+    return session;
+  }
+  if (!isValidLeagueId(leagueId)) {
+    return err(invalidLeagueIdError());
+  }
+  if (await isPlatformAdminUser(db, session.value.userId)) {
+    return ok(session.value);
+  }
+
+  const access = await requireLeagueRoleForUser(db, {
+    leagueId,
+    permission,
+    userId: session.value.userId,
+  });
+  return access.ok ? ok(session.value) : access;
+}
+
 export async function listLeagueMembershipsForUser(
   db: Db,
   input: {
     leagueIds?: readonly string[];
-    minRole?: LeagueRole;
+    permission?: LeaguePermission;
     userId: string;
   },
 ): Promise<Result<Array<{ leagueId: string; role: LeagueRole }>, AppError>> {
@@ -228,9 +261,9 @@ export async function listLeagueMembershipsForUser(
     .from(members)
     .where(and(...filters));
 
-  const minRole = input.minRole ?? "member";
+  const permission = input.permission ?? DEFAULT_PERMISSION;
   const memberships = rows
-    .filter((row) => canSatisfyRole(row.role, minRole))
+    .filter((row) => hasLeaguePermission(row.role, permission))
     .map((row) => ({ leagueId: row.leagueId, role: row.role }))
     .sort((left, right) => left.leagueId.localeCompare(right.leagueId));
 
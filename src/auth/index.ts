@@ -2,9 +2,11 @@ import "server-only";
 import { getEnv } from "@/core/env";
 import { getDb } from "@/db";
 import { type Auth, createAuth } from "./instance";
+import { RecordingMagicLinkSender } from "./magic-link";
 
 // Memoized on globalThis so dev-server HMR doesn't rebuild the auth instance.
 const globalForAuth = globalThis as { __rumbledoreAuth?: Auth };
+const magicLinkSender = new RecordingMagicLinkSender();
 
 /** Lazily-initialized Better Auth instance bound to the validated env. */
 export function getAuth(): Auth {
@@ -14,11 +16,17 @@ export function getAuth(): Auth {
       secret: env.auth.secret,
       baseURL: env.auth.url,
       google: env.auth.google,
+      magicLinkSender,
       redisUrl: env.redisUrl,
     });
   }
   return globalForAuth.__rumbledoreAuth;
 }
 
+export function getRecordedMagicLinkSender(): RecordingMagicLinkSender {
+  return magicLinkSender;
+}
+
 export type { Auth } from "./instance";
+export type { MagicLinkEmail, MagicLinkSender } from "./magic-link";
 export { ac, roles } from "./permissions";
@@ -1,6 +1,7 @@
+import { passkey } from "@better-auth/passkey";
 import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
-import { organization } from "better-auth/plugins";
+import { magicLink, organization } from "better-auth/plugins";
 import type { GoogleOAuthConfig } from "@/core/env/schema";
 import type { Db } from "@/db/client";
 import {
@@ -8,10 +9,12 @@ import {
   invitations,
   leagues,
   members,
+  passkeys,
   sessions,
   users,
   verifications,
 } from "@/db/schema";
+import type { MagicLinkSender } from "./magic-link";
 import { ac, roles } from "./permissions";
 import { createRedisSecondaryStorage } from "./redis-secondary-storage";
 
@@ -25,6 +28,7 @@ export interface AuthOptions {
   secret: string;
   baseURL: string;
   google: GoogleOAuthConfig;
+  magicLinkSender: MagicLinkSender;
   redisUrl: string;
 }
 
@@ -35,7 +39,11 @@ const MOCK_GOOGLE = {
   clientSecret: "mock-google-client-secret", // ubs:ignore — placeholder, not a credential
 };
 
+// Long enough to switch from the SMS thread to the mail app and back.
+const MAGIC_LINK_TTL_SECONDS = 15 * 60;
+
 export function createAuth(db: Db, options: AuthOptions) {
+  const appUrl = new URL(options.baseURL);
   return betterAuth({
     secret: options.secret,
     baseURL: options.baseURL,
@@ -51,6 +59,7 @@ export function createAuth(db: Db, options: AuthOptions) {
         organization: leagues,
         member: members,
         invitation: invitations,
+        passkey: passkeys,
       },
     }),
     rateLimit: {
@@ -82,6 +91,19 @@ export function createAuth(db: Db, options: AuthOptions) {
           },
     },
     plugins: [
+      // Members invited by SMS often never set a password: they sign in with
+      // an emailed link, then add a passkey from /you.
+      magicLink({
+        expiresIn: MAGIC_LINK_TTL_SECONDS,
+        sendMagicLink: ({ email, url }) =>
+          options.magicLinkSender.sendMagicLink({ email, url }),
+        storeToken: "hashed",
+      }),
+      passkey({
+        origin: appUrl.origin,
+        rpID: appUrl.hostname,
+        rpName: "Rumbledore",
+      }),
       organization({
         ac,
         roles,
@@ -0,0 +1,26 @@
+/**
+ * Delivery seam for Better Auth's magic-link plugin. Email goes out through
+ * mocks until a real provider is wired (specs/04 §External), so the default
+ * sender records the link instead of sending it, like the invite notifier.
+ */
+
+export interface MagicLinkEmail {
+  email: string;
+  url: string;
+}
+
+export interface MagicLinkSender {
+  sendMagicLink(input: MagicLinkEmail): Promise<void>;
+}
+
+export class RecordingMagicLinkSender implements MagicLinkSender {
+  readonly links: MagicLinkEmail[] = [];
+
+  clear(): void {
+    this.links.length = 0;
+  }
+
+  async sendMagicLink(input: MagicLinkEmail): Promise<void> {
+    this.links.push(input);
+  }
+}
@@ -1,98 +1,128 @@
 import { describe, expect, it } from "vitest";
 import { leagueRole } from "@/db/schema";
 import type { LeagueRole } from "./guards";
-import { roles } from "./permissions";
+import {
+  hasLeaguePermission,
+  type LeaguePermission,
+  leagueRolesWithPermission,
+  roles,
+} from "./permissions";
 
 /**
- * The codebase carries three descriptions of league authority:
+ * The codebase used to carry three descriptions of league authority: the
+ * `league_role` pg enum, a `ROLE_RANK` ladder in `./guards.ts` that every route
+ * guard resolved through, and the Better Auth statements in `./permissions.ts`
+ * that nothing enforced. The ladder and the ACL disagreed once (T-008) and
+ * named one authority level twice after that (T-008a, migration 0082).
  *
- *   1. The `league_role` pg enum in `@/db/schema` — what a row may hold.
- *   2. `ROLE_RANK` in `./guards.ts` — a linear ladder every route guard
- *      resolves through. This is the ENFORCED model.
- *   3. `roles` in `./permissions.ts` — the Better Auth access-control
- *      statements. Nothing server-side calls `hasPermission`, so this model is
- *      currently DECLARATIVE.
- *
- * (2) and (3) disagreed: `league_admin` outranked `data_steward` in the ladder
- * while being denied `leagueData:manage` in the ACL. The ladder silently won, so
- * an admin already passed every steward gate and the ACL misled anyone reading
- * it. T-008 aligned the ACL to the ladder per the owner's ruling
- * (PROJECT_CONTEXT.md §7.1): an admin may do anything an assigned role can do,
- * while an assigned role cannot do everything an admin can.
- *
- * That left `league_admin` and `commissioner` as two names for one authority
- * level — the drift hazard itself. T-008a collapsed them (migration 0082), so
- * the vocabulary now has exactly three rungs.
- *
- * These tests pin all three models together so they cannot drift apart again —
- * whichever one a future change edits, the others must follow.
+ * Granular roles retired the ladder: guards now ask `hasLeaguePermission`,
+ * which reads the same statements Better Auth holds, so the ACL is the enforced
+ * model. Two descriptions remain, and these tests pin them together and pin
+ * the matrix rows the product decisions depend on.
  */
 
-// Mirrors ROLE_RANK in ./guards.ts, lowest authority first. Kept as a literal
-// rather than imported because ROLE_RANK is module-private; the ordering
-// assertion below is what keeps the duplicate honest.
-const RANK_ASCENDING: readonly LeagueRole[] = [
-  "member",
-  "data_steward",
-  "commissioner",
+const EVERY_PERMISSION: readonly LeaguePermission[] = [
+  "cast:edit",
+  "league:manage",
+  "league:participate",
+  "league:transfer",
+  "league:view",
+  "leagueData:manage",
+  "leagueData:review",
+  "lore:steward",
+  "press:moderate",
+  "roles:grant",
 ];
 
-function leagueDataCapabilities(role: LeagueRole): readonly string[] {
-  // `roles` is a heterogeneous map of Better Auth Role objects whose statement
-  // types differ per role, so index it through a narrowed structural view
-  // rather than fighting the generic parameters.
-  const table = roles as unknown as Record<
-    string,
-    { statements?: Record<string, readonly string[] | undefined> } | undefined
-  >;
-  return table[role]?.statements?.leagueData ?? [];
+function permissionsOf(role: LeagueRole): LeaguePermission[] {
+  return EVERY_PERMISSION.filter((permission) =>
+    hasLeaguePermission(role, permission),
+  );
 }
 
 describe("league role permissions", () => {
-  it("keeps the pg enum, the rank ladder, and the ACL on one vocabulary", () => {
-    // The collapse is only durable if all three lists stay identical. If a
-    // future change adds `league_admin` (or anything else) back to one of them
-    // and not the others, this fails before the disagreement can reach a guard.
+  it("keeps the pg enum and the ACL on one vocabulary", () => {
     const enumValues = [...leagueRole.enumValues].sort();
 
-    expect(enumValues).toEqual(["commissioner", "data_steward", "member"]);
+    expect(enumValues).toEqual([
+      "co_commissioner",
+      "commissioner",
+      "data_steward",
+      "editor",
+      "lore_keeper",
+      "member",
+      "spectator",
+    ]);
     expect(Object.keys(roles).sort()).toEqual(enumValues);
-    expect([...RANK_ASCENDING].sort()).toEqual(enumValues);
-  });
-
-  it("grants the commissioner every leagueData capability a data_steward has", () => {
-    // The divergence this suite exists for: the top of the ladder must not be
-    // denied a capability an assigned role holds.
-    const steward = new Set(leagueDataCapabilities("data_steward"));
-    const commissioner = new Set(leagueDataCapabilities("commissioner"));
-
-    expect([...steward].sort()).toEqual(["manage", "review"]);
-    for (const capability of steward) {
-      expect(commissioner).toContain(capability);
-    }
   });
 
-  it("keeps leagueData capabilities monotonic along the rank ladder", () => {
-    // Generalises the rule: every step up the ladder is a superset of the step
-    // below it. Catches any future role edit that reintroduces a disagreement,
-    // not just the commissioner/data_steward case.
-    for (let index = 1; index < RANK_ASCENDING.length; index += 1) {
-      const lower = RANK_ASCENDING[index - 1] as LeagueRole;
-      const higher = RANK_ASCENDING[index] as LeagueRole;
-      const lowerCaps = new Set(leagueDataCapabilities(lower));
-      const higherCaps = new Set(leagueDataCapabilities(higher));
-
-      for (const capability of lowerCaps) {
+  it("grants the commissioner every permission any role holds", () => {
+    // The maintainer's ruling (PROJECT_CONTEXT.md §7.1): an admin may do
+    // anything an assigned role can do.
+    expect(permissionsOf("commissioner")).toEqual(EVERY_PERMISSION);
+    for (const role of leagueRole.enumValues) {
+      for (const permission of permissionsOf(role)) {
         expect(
-          higherCaps.has(capability),
-          `${higher} outranks ${lower} but is missing leagueData:${capability}`,
+          hasLeaguePermission("commissioner", permission),
+          `${role} holds ${permission} but the commissioner does not`,
         ).toBe(true);
       }
     }
   });
 
-  it("still withholds leagueData:manage from a plain member", () => {
-    // Monotonicity must not be satisfied by granting everything to everyone.
-    expect(leagueDataCapabilities("member")).not.toContain("manage");
+  it("keeps role grants and the handoff with the commissioner alone", () => {
+    expect(leagueRolesWithPermission("roles:grant")).toEqual(["commissioner"]);
+    expect(leagueRolesWithPermission("league:transfer")).toEqual([
+      "commissioner",
+    ]);
+  });
+
+  it("lets a co-commissioner run the league without changing roles", () => {
+    expect(permissionsOf("co_commissioner")).toEqual(
+      EVERY_PERMISSION.filter(
+        (permission) =>
+          permission !== "roles:grant" && permission !== "league:transfer",
+      ),
+    );
+    // Better Auth's organization endpoints read the same statements, so the
+    // co-commissioner must not hold its member-management actions either.
+    const statements = roles.co_commissioner.statements as Record<
+      string,
+      readonly string[] | undefined
+    >;
+    expect(statements.member ?? []).toEqual([]);
+  });
+
+  it("scopes the specialist roles to their duty", () => {
+    expect(permissionsOf("data_steward")).toEqual([
+      "league:participate",
+      "league:view",
+      "leagueData:manage",
+      "leagueData:review",
+      "lore:steward",
+      "press:moderate",
+    ]);
+    expect(permissionsOf("editor")).toEqual([
+      "cast:edit",
+      "league:participate",
+      "league:view",
+      "press:moderate",
+    ]);
+    expect(permissionsOf("lore_keeper")).toEqual([
+      "league:participate",
+      "league:view",
+      "lore:steward",
+    ]);
+  });
+
+  it("keeps a spectator read-only and a member a plain participant", () => {
+    expect(permissionsOf("spectator")).toEqual(["league:view"]);
+    expect(permissionsOf("member")).toEqual([
+      "league:participate",
+      "league:view",
+    ]);
+    expect(leagueRolesWithPermission("league:view")).toEqual(
+      leagueRole.enumValues,
+    );
   });
 });
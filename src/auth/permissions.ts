@@ -4,46 +4,142 @@ import {
   memberAc,
   ownerAc,
 } from "better-auth/plugins/organization/access";
+import type { Member } from "@/db/schema";
 
 /**
  * League-role access control (spec 01 §Auth). Role keys MUST match the
  * `league_role` pg enum in `src/db/schema.ts` — Better Auth writes them
  * verbatim into `members.role`/`invitations.role`.
  *
- * `leagueData` is the custom resource for the data-steward duty: reviewing
- * and cleaning a league's ingested history (spec 00 §data steward).
+ * This is the league permission matrix: every league route guard resolves
+ * through `hasLeaguePermission`, which asks these role statements. Changing
+ * what a role may do means editing its row below and nothing else.
+ *
+ * Custom resources beyond Better Auth's organization defaults:
+ * - `league`: `view` (read pages and feeds), `participate` (picks, votes,
+ *   reactions, lore claims, invites), `manage` (settings, pools, webhooks,
+ *   archives, keeper board, record definitions), `transfer` (commissioner
+ *   handoff).
+ * - `leagueData`: the data-steward duty — reviewing and cleaning a league's
+ *   ingested history (spec 00 §data steward).
+ * - `press`: `moderate` retracts, regenerates and retries Press pieces.
+ * - `cast`: `edit` changes persona tone profiles.
+ * - `lore`: `steward` adjudicates lore claims.
+ * - `roles`: `grant` changes another member's league role.
  */
 const statement = {
   ...defaultStatements,
+  cast: ["edit"],
+  league: ["view", "participate", "manage", "transfer"],
   leagueData: ["review", "manage"],
+  lore: ["steward"],
+  press: ["moderate"],
+  roles: ["grant"],
 } as const;
 
+type LeagueStatement = typeof statement;
+
+type CustomResource = Exclude<
+  keyof LeagueStatement,
+  keyof typeof defaultStatements
+>;
+
+/** A matrix cell as guards name it, e.g. `"press:moderate"`. */
+export type LeaguePermission = {
+  [Resource in CustomResource]: `${Resource}:${LeagueStatement[Resource][number]}`;
+}[CustomResource];
+
+type LeagueRoleKey = Member["role"];
+
 export const ac = createAccessControl(statement);
 
+const participant = {
+  league: ["view", "participate"],
+} as const;
+
 export const roles = {
   // Org owner *and* org admin equivalent: full control of the league plus its
-  // data, and the only role that may assign roles (PROJECT_CONTEXT.md Q17).
+  // data, and the only role that may assign roles or hand off the league
+  // (PROJECT_CONTEXT.md Q17).
   //
   // `league_admin` used to be a separate key here. T-008 granted it
   // `leagueData: ["review", "manage"]` so the ACL would stop contradicting
-  // ROLE_RANK in src/auth/guards.ts — which left two names for one authority
-  // level. That is the state a later edit would have broken again by amending
-  // one name and not the other, so migration 0082 collapsed the value into
-  // `commissioner` in the `league_role` pg enum and this key went with it
-  // (PROJECT_CONTEXT.md Q16/§7.1, DD-5). Nothing is lost by dropping the key:
-  // Better Auth's `ownerAc` statements are a strict superset of `adminAc`'s
-  // (owner additionally holds `organization: delete`), so every action the old
-  // `league_admin` could express is still expressible here.
+  // the old rank ladder in src/auth/guards.ts — which left two names for one
+  // authority level. That is the state a later edit would have broken again
+  // by amending one name and not the other, so migration 0082 collapsed the
+  // value into `commissioner` in the `league_role` pg enum and this key went
+  // with it (PROJECT_CONTEXT.md Q16/§7.1, DD-5). Nothing is lost by dropping
+  // the key: Better Auth's `ownerAc` statements are a strict superset of
+  // `adminAc`'s (owner additionally holds `organization: delete`), so every
+  // action the old `league_admin` could express is still expressible here.
   commissioner: ac.newRole({
     ...ownerAc.statements,
+    cast: ["edit"],
+    league: ["view", "participate", "manage", "transfer"],
+    leagueData: ["review", "manage"],
+    lore: ["steward"],
+    press: ["moderate"],
+    roles: ["grant"],
+  }),
+  // Runs the league alongside the commissioner. Keeps Better Auth's member
+  // statements so the organization endpoints cannot be used to change roles
+  // around `roles: grant`.
+  co_commissioner: ac.newRole({
+    ...memberAc.statements,
+    cast: ["edit"],
+    league: ["view", "participate", "manage"],
     leagueData: ["review", "manage"],
+    lore: ["steward"],
+    press: ["moderate"],
   }),
-  // Regular member plus the data-cleaning mandate.
+  // Regular member plus the data-cleaning mandate. Stewards have adjudicated
+  // lore and retracted Press pieces since before the matrix existed.
   data_steward: ac.newRole({
     ...memberAc.statements,
+    ...participant,
     leagueData: ["review", "manage"],
+    lore: ["steward"],
+    press: ["moderate"],
+  }),
+  editor: ac.newRole({
+    ...memberAc.statements,
+    ...participant,
+    cast: ["edit"],
+    press: ["moderate"],
+  }),
+  lore_keeper: ac.newRole({
+    ...memberAc.statements,
+    ...participant,
+    lore: ["steward"],
   }),
   member: ac.newRole({
     ...memberAc.statements,
+    ...participant,
   }),
-};
+  // A fan who follows the league without a team: reads everything a member
+  // reads and writes nothing.
+  spectator: ac.newRole({
+    ...memberAc.statements,
+    league: ["view"],
+  }),
+} satisfies Record<LeagueRoleKey, unknown>;
+
+export function hasLeaguePermission(
+  role: LeagueRoleKey,
+  permission: LeaguePermission,
+): boolean {
+  const [resource, action] = permission.split(":") as [CustomResource, string];
+  const allowed: readonly string[] | undefined = (
+    roles[role].statements as Partial<Record<CustomResource, readonly string[]>>
+  )[resource];
+  return allowed?.includes(action) ?? false;
+}
+
+/** Every role holding `permission`, in enum order, for role-filtered queries. */
+export function leagueRolesWithPermission(
+  permission: LeaguePermission,
+): LeagueRoleKey[] {
+  return (Object.keys(roles) as LeagueRoleKey[]).filter((role) =>
+    hasLeaguePermission(role, permission),
+  );
+}
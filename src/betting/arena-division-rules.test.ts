@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import {
+  type ArenaDivisionLeague,
+  arenaDivisionName,
+  arenaDivisionSwapCount,
+  buildArenaDivisions,
+  placeNewArenaLeagues,
+  promoteAndRelegate,
+  seedArenaDivisions,
+} from "./arena-division-rules";
+
+function ids(count: number, prefix = "l"): string[] {
+  return Array.from({ length: count }, (_, index) => `${prefix}${index + 1}`);
+}
+
+function league(
+  leagueId: string,
+  tier: number,
+  rank: number | null,
+  overrides: Partial<ArenaDivisionLeague> = {},
+): ArenaDivisionLeague {
+  return {
+    displayName: leagueId.toUpperCase(),
+    leagueId,
+    movement: "held",
+    previousTier: tier,
+    standing:
+      rank === null
+        ? null
+        : {
+            accuracyBps: 9_000 - rank * 100,
+            previousRank: rank,
+            rank,
+            rankDelta: 0,
+            scorablePicks: 40,
+          },
+    tier,
+    ...overrides,
+  };
+}
+
+describe("arena division rules", () => {
+  it("names the top tier and numbers the rest", () => {
+    expect(arenaDivisionName(1)).toBe("Premier Division");
+    expect(arenaDivisionName(3)).toBe("Division 3");
+  });
+
+  it("seeds divisions in ladder order, eight to a tier", () => {
+    const placements = seedArenaDivisions(ids(10));
+
+    expect(placements.filter((row) => row.tier === 1)).toHaveLength(8);
+    expect(placements.slice(8)).toEqual([
+      { leagueId: "l9", movement: "new", previousTier: null, tier: 2 },
+      { leagueId: "l10", movement: "new", previousTier: null, tier: 2 },
+    ]);
+  });
+
+  it("never swaps more than half of the smaller division", () => {
+    expect(arenaDivisionSwapCount(8, 8)).toBe(2);
+    expect(arenaDivisionSwapCount(8, 3)).toBe(1);
+    expect(arenaDivisionSwapCount(8, 1)).toBe(0);
+    expect(arenaDivisionSwapCount(8, 8, { promotionSpots: 3 })).toBe(3);
+  });
+
+  it("fills the bottom division before opening a new one", () => {
+    const placements = placeNewArenaLeagues(
+      new Map([
+        [1, 8],
+        [2, 7],
+      ]),
+      ["n1", "n2"],
+    );
+
+    expect(placements.map((row) => [row.leagueId, row.tier])).toEqual([
+      ["n1", 2],
+      ["n2", 3],
+    ]);
+  });
+
+  it("promotes the top and relegates the bottom of neighbouring divisions", () => {
+    const placements = promoteAndRelegate(
+      [
+        { leagueIds: ids(8, "a"), tier: 1 },
+        { leagueIds: ids(8, "b"), tier: 2 },
+        { leagueIds: ids(3, "c"), tier: 3 },
+      ],
+      ["new"],
+    );
+    const byLeague = new Map(placements.map((row) => [row.leagueId, row]));
+
+    expect(byLeague.get("a8")).toEqual({
+      leagueId: "a8",
+      movement: "relegated",
+      previousTier: 1,
+      tier: 2,
+    });
+    expect(byLeague.get("b1")).toMatchObject({
+      movement: "promoted",
+      tier: 1,
+    });
+    // Only one swap with a three-league division below.
+    expect(byLeague.get("b7")).toMatchObject({ movement: "held", tier: 2 });
+    expect(byLeague.get("b8")).toMatchObject({
+      movement: "relegated",
+      tier: 3,
+    });
+    expect(byLeague.get("c1")).toMatchObject({
+      movement: "promoted",
+      tier: 2,
+    });
+    expect(byLeague.get("new")).toMatchObject({ movement: "new", tier: 3 });
+
+    // One-for-one swaps keep every division its size.
+    const sizes = [1, 2, 3].map(
+      (tier) => placements.filter((row) => row.tier === tier).length,
+    );
+    expect(sizes).toEqual([8, 8, 4]);
+  });
+
+  it("closes ranks over an emptied division", () => {
+    const placements = promoteAndRelegate(
+      [
+        { leagueIds: ["a1", "a2"], tier: 1 },
+        { leagueIds: [], tier: 2 },
+        { leagueIds: ["c1", "c2"], tier: 3 },
+      ],
+      [],
+    );
+
+    expect(placements.map((row) => [row.leagueId, row.tier])).toEqual([
+      ["a1", 1],
+      ["a2", 2],
+      ["c1", 1],
+      ["c2", 2],
+    ]);
+    expect(placements.find((row) => row.leagueId === "c1")).toMatchObject({
+      movement: "promoted",
+      previousTier: 3,
+    });
+  });
+
+  it("orders each division by the ladder and marks its zones", () => {
+    const divisions = buildArenaDivisions([
+      league("a2", 1, 4),
+      league("a1", 1, 1),
+      league("a3", 1, 5),
+      league("a4", 1, 9),
+      league("b1", 2, 2),
+      league("b2", 2, 6),
+      league("b3", 2, null, { movement: "new", previousTier: null }),
+      league("b4", 2, 3),
+    ]);
+
+    expect(divisions.map((division) => division.name)).toEqual([
+      "Premier Division",
+      "Division 2",
+    ]);
+    const [premier, second] = divisions;
+    expect(premier?.rows.map((row) => [row.id, row.zone])).toEqual([
+      ["a1", "safe"],
+      ["a2", "safe"],
+      ["a3", "relegation"],
+      ["a4", "relegation"],
+    ]);
+    // A league without a standing sits at the foot, unranked overall.
+    expect(second?.rows.map((row) => [row.id, row.zone])).toEqual([
+      ["b1", "promotion"],
+      ["b4", "promotion"],
+      ["b2", "safe"],
+      ["b3", "safe"],
+    ]);
+    expect(second?.rows[3]).toMatchObject({
+      accuracyBps: null,
+      movement: "new",
+      overallRank: null,
+    });
+  });
+
+  it("shares a division rank on tied accuracy and lists the division's movers", () => {
+    const [division] = buildArenaDivisions([
+      league("x", 1, 1, {
+        standing: {
+          accuracyBps: 7_000,
+          previousRank: 3,
+          rank: 1,
+          rankDelta: 2,
+          scorablePicks: 40,
+        },
+      }),
+      league("y", 1, 1, {
+        standing: {
+          accuracyBps: 7_000,
+          previousRank: 1,
+          rank: 1,
+          rankDelta: 0,
+          scorablePicks: 30,
+        },
+      }),
+      league("z", 1, 3, {
+        standing: {
+          accuracyBps: 6_000,
+          previousRank: 2,
+          rank: 3,
+          rankDelta: -1,
+          scorablePicks: 40,
+        },
+      }),
+    ]);
+
+    expect(division?.rows.map((row) => [row.id, row.divisionRank])).toEqual([
+      ["x", 1],
+      ["y", 1],
+      ["z", 3],
+    ]);
+    expect(division?.movers.risers.map((row) => row.id)).toEqual(["x"]);
+    expect(division?.movers.fallers.map((row) => row.id)).toEqual(["z"]);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Arena division rules.
+ *
+ * Each arena season tiers the leagues into divisions of at most
+ * `ARENA_DIVISION_SIZE`, tier 1 on top. At rollover the bottom of each
+ * division swaps places with the top of the one below it; a league seen for
+ * the first time joins the bottom division, or opens a new one when that is
+ * full. Swaps are always one for one, so every division keeps its size.
+ *
+ * Pure, like `pickem-scoring`, so the tiering can be pinned without a
+ * database. `arena-divisions` holds it against the tables.
+ */
+
+export const ARENA_DIVISION_SIZE = 8;
+export const ARENA_PROMOTION_SPOTS = 2;
+const DEFAULT_DIVISION_MOVER_LIMIT = 3;
+
+export type ArenaDivisionMovement = "new" | "held" | "promoted" | "relegated";
+export type ArenaDivisionZone = "promotion" | "relegation" | "safe";
+
+export interface ArenaDivisionOptions {
+  readonly divisionSize?: number;
+  readonly promotionSpots?: number;
+}
+
+export interface ArenaDivisionPlacement {
+  readonly leagueId: string;
+  readonly tier: number;
+  readonly previousTier: number | null;
+  readonly movement: ArenaDivisionMovement;
+}
+
+/** One division's leagues at season end, best finish first. */
+export interface ArenaDivisionFinish {
+  readonly tier: number;
+  readonly leagueIds: readonly string[];
+}
+
+/** A placed league, with its season standing when it has one. */
+export interface ArenaDivisionLeague {
+  readonly leagueId: string;
+  readonly displayName: string;
+  readonly tier: number;
+  readonly previousTier: number | null;
+  readonly movement: ArenaDivisionMovement;
+  readonly standing: {
+    readonly accuracyBps: number;
+    readonly previousRank: number | null;
+    readonly rank: number;
+    readonly rankDelta: number;
+    readonly scorablePicks: number;
+  } | null;
+}
+
+export interface ArenaDivisionRow {
+  /** Null until the league has a standing this season. */
+  accuracyBps: number | null;
+  displayName: string;
+  divisionRank: number;
+  id: string;
+  movement: ArenaDivisionMovement;
+  /** Rank on the overall league ladder; null without a standing. */
+  overallRank: number | null;
+  previousTier: number | null;
+  rankDelta: number;
+  zone: ArenaDivisionZone;
+}
+
+export interface ArenaDivision {
+  movers: {
+    fallers: ArenaDivisionRow[];
+    risers: ArenaDivisionRow[];
+  };
+  name: string;
+  rows: ArenaDivisionRow[];
+  tier: number;
+}
+
+export function arenaDivisionName(tier: number): string {
+  return tier === 1 ? "Premier Division" : `Division ${tier}`;
+}
+
+function divisionSizeFrom(options: ArenaDivisionOptions): number {
+  return Math.max(1, Math.trunc(options.divisionSize ?? ARENA_DIVISION_SIZE));
+}
+
+/**
+ * How many leagues trade places between two neighbouring divisions. Never
+ * more than half of either, so a small division cannot be emptied into the
+ * one next to it.
+ */
+export function arenaDivisionSwapCount(
+  upperSize: number,
+  lowerSize: number,
+  options: ArenaDivisionOptions = {},
+): number {
+  const spots = Math.max(
+    0,
+    Math.trunc(options.promotionSpots ?? ARENA_PROMOTION_SPOTS),
+  );
+  return Math.max(
+    0,
+    Math.min(spots, Math.floor(upperSize / 2), Math.floor(lowerSize / 2)),
+  );
+}
+
+/**
+ * Places leagues that have no division yet. They fill the bottom division up
+ * to the division size, then open new divisions below it, in the order given.
+ */
+export function placeNewArenaLeagues(
+  tierSizes: ReadonlyMap<number, number>,
+  leagueIds: readonly string[],
+  options: ArenaDivisionOptions = {},
+): ArenaDivisionPlacement[] {
+  const divisionSize = divisionSizeFrom(options);
+  let tier = Math.max(0, ...tierSizes.keys());
+  let filled = tier === 0 ? divisionSize : (tierSizes.get(tier) ?? 0);
+
+  return leagueIds.map((leagueId) => {
+    if (filled >= divisionSize) {
+      tier += 1;
+      filled = 0;
+    }
+    filled += 1;
+    return { leagueId, movement: "new", previousTier: null, tier };
+  });
+}
+
+/** The first season's divisions, straight from an ordered ladder. */
+export function seedArenaDivisions(
+  orderedLeagueIds: readonly string[],
+  options: ArenaDivisionOptions = {},
+): ArenaDivisionPlacement[] {
+  return placeNewArenaLeagues(new Map(), orderedLeagueIds, options);
+}
+
+/**
+ * Next season's divisions from this season's finish. Empty divisions drop
+ * out and the rest close ranks, so a tier number always names a division
+ * that has leagues in it.
+ */
+export function promoteAndRelegate(
+  finishes: readonly ArenaDivisionFinish[],
+  newLeagueIds: readonly string[],
+  options: ArenaDivisionOptions = {},
+): ArenaDivisionPlacement[] {
+  const divisions = [...finishes]
+    .filter((division) => division.leagueIds.length > 0)
+    .sort((left, right) => left.tier - right.tier);
+
+  const placements: ArenaDivisionPlacement[] = [];
+  divisions.forEach((division, index) => {
+    const tier = index + 1;
+    const above = divisions[index - 1];
+    const below = divisions[index + 1];
+    const size = division.leagueIds.length;
+    const up = above
+      ? arenaDivisionSwapCount(above.leagueIds.length, size, options)
+      : 0;
+    const down = below
+      ? arenaDivisionSwapCount(size, below.leagueIds.length, options)
+      : 0;
+
+    division.leagueIds.forEach((leagueId, position) => {
+      const movement: ArenaDivisionMovement =
+        position < up
+          ? "promoted"
+          : position >= size - down
+            ? "relegated"
+            : "held";
+      placements.push({
+        leagueId,
+        movement,
+        previousTier: division.tier,
+        tier:
+          movement === "promoted"
+            ? tier - 1
+            : movement === "relegated"
+              ? tier + 1
+              : tier,
+      });
+    });
+  });
+
+  const tierSizes = new Map<number, number>();
+  for (const placement of placements) {
+    tierSizes.set(placement.tier, (tierSizes.get(placement.tier) ?? 0) + 1);
+  }
+  const placed = new Set(placements.map((placement) => placement.leagueId));
+  return [
+    ...placements,
+    ...placeNewArenaLeagues(
+      tierSizes,
+      newLeagueIds.filter((leagueId) => !placed.has(leagueId)),
+      options,
+    ),
+  ];
+}
+
+function compareDivisionLeagues(
+  left: ArenaDivisionLeague,
+  right: ArenaDivisionLeague,
+): number {
+  if (left.standing && right.standing) {
+    return (
+      left.standing.rank - right.standing.rank ||
+      // Same tie-break as the overall ladder: the larger denominator first.
+      right.standing.scorablePicks - left.standing.scorablePicks ||
+      left.leagueId.localeCompare(right.leagueId)
+    );
+  }
+  if (left.standing) return -1;
+  if (right.standing) return 1;
+  return (
+    left.displayName.localeCompare(right.displayName) ||
+    left.leagueId.localeCompare(right.leagueId)
+  );
+}
+
+/**
+ * Orders each division by the overall ladder and marks its zones. Ties on
+ * accuracy share a division rank, as they do overall; the zones still go by
+ * position, because a rollover has to move exactly as many leagues as it
+ * takes in. Leagues with no standing yet sit at the foot, level with each
+ * other.
+ */
+export function buildArenaDivisions(
+  leagues: readonly ArenaDivisionLeague[],
+  options: ArenaDivisionOptions & { moverLimit?: number } = {},
+): ArenaDivision[] {
+  const byTier = new Map<number, ArenaDivisionLeague[]>();
+  for (const league of leagues) {
+    const bucket = byTier.get(league.tier) ?? [];
+    bucket.push(league);
+    byTier.set(league.tier, bucket);
+  }
+  const tiers = [...byTier.keys()].sort((left, right) => left - right);
+  const moverLimit = Math.max(
+    0,
+    Math.trunc(options.moverLimit ?? DEFAULT_DIVISION_MOVER_LIMIT),
+  );
+
+  return tiers.map((tier, index) => {
+    const members = [...(byTier.get(tier) ?? [])].sort(compareDivisionLeagues);
+    const aboveSize = byTier.get(tiers[index - 1] ?? -1)?.length ?? 0;
+    const belowSize = byTier.get(tiers[index + 1] ?? -1)?.length ?? 0;
+    const up = aboveSize
+      ? arenaDivisionSwapCount(aboveSize, members.length, options)
+      : 0;
+    const down = belowSize
+      ? arenaDivisionSwapCount(members.length, belowSize, options)
+      : 0;
+
+    let divisionRank = 0;
+    const rows = members.map((league, position): ArenaDivisionRow => {
+      const previous = members[position - 1];
+      if (
+        !previous ||
+        previous.standing?.accuracyBps !== league.standing?.accuracyBps
+      ) {
+        divisionRank = position + 1;
+      }
+      return {
+        accuracyBps: league.standing?.accuracyBps ?? null,
+        displayName: league.displayName,
+        divisionRank,
+        id: league.leagueId,
+        movement: league.movement,
+        overallRank: league.standing?.rank ?? null,
+        previousTier: league.previousTier,
+        rankDelta: league.standing?.rankDelta ?? 0,
+        zone:
+          position < up
+            ? "promotion"
+            : position >= members.length - down
+              ? "relegation"
+              : "safe",
+      };
+    });
+
+    const moved = rows.filter((row, position) => {
+      const standing = members[position]?.standing;
+      return (
+        Boolean(standing && standing.previousRank !== null) &&
+        row.rankDelta !== 0
+      );
+    });
+    return {
+      movers: {
+        fallers: moved
+          .filter((row) => row.rankDelta < 0)
+          .sort(
+            (left, right) =>
+              left.rankDelta - right.rankDelta ||
+              left.divisionRank - right.divisionRank,
+          )
+          .slice(0, moverLimit),
+        risers: moved
+          .filter((row) => row.rankDelta > 0)
+          .sort(
+            (left, right) =>
+              right.rankDelta - left.rankDelta ||
+              left.divisionRank - right.divisionRank,
+          )
+          .slice(0, moverLimit),
+      },
+      name: arenaDivisionName(tier),
+      rows,
+      tier,
+    };
+  });
+}
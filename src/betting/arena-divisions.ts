@@ -0,0 +1,315 @@
+import { and, asc, desc, eq, isNull, lt, lte } from "drizzle-orm";
+import { AppError } from "@/core/result";
+import type { Db } from "@/db/client";
+import {
+  type ArenaSeason,
+  arenaDivisionPlacements,
+  arenaSeasons,
+  arenaStandings,
+  leagues,
+} from "@/db/schema";
+import {
+  type ArenaDivision,
+  type ArenaDivisionLeague,
+  type ArenaDivisionPlacement,
+  buildArenaDivisions,
+  placeNewArenaLeagues,
+  promoteAndRelegate,
+  seedArenaDivisions,
+} from "./arena-division-rules";
+
+/**
+ * Arena divisions held against the tables. The tiering rules live in
+ * `arena-division-rules`.
+ *
+ * A season is placed once. The rollover job places it when it starts and the
+ * season before it has ended, promoting and relegating from that season's
+ * finish. A season with no placed predecessor is seeded instead, by the prior
+ * ladder when there is one, and the standings rebuild may do that seeding
+ * itself. After that, the rebuild only adds leagues it has not seen before.
+ */
+
+export interface ArenaDivisionMove {
+  fromTier: number;
+  leagueId: string;
+  movement: "promoted" | "relegated";
+  seasonId: string;
+  toTier: number;
+}
+
+export interface RolloverArenaDivisionsResult {
+  moves: ArenaDivisionMove[];
+  placedSeasonIds: string[];
+}
+
+interface LeagueStandingRow {
+  accuracyBps: number;
+  leagueId: string;
+  previousRank: number | null;
+  rank: number;
+  rankDelta: number;
+  scorablePicks: number;
+}
+
+async function loadLeagueStandings(
+  db: Db,
+  seasonId: string,
+): Promise<LeagueStandingRow[]> {
+  const rows = await db
+    .select({
+      accuracyBps: arenaStandings.accuracyBps,
+      leagueId: arenaStandings.subjectId,
+      previousRank: arenaStandings.previousRank,
+      rank: arenaStandings.rank,
+      rankDelta: arenaStandings.rankDelta,
+      scorablePicks: arenaStandings.scorablePicks,
+    })
+    .from(arenaStandings)
+    .where(
+      and(
+        eq(arenaStandings.seasonId, seasonId),
+        eq(arenaStandings.kind, "league"),
+      ),
+    );
+  return rows.sort(
+    (left, right) =>
+      left.rank - right.rank ||
+      right.scorablePicks - left.scorablePicks ||
+      left.leagueId.localeCompare(right.leagueId),
+  );
+}
+
+async function loadDivisionLeagues(
+  db: Db,
+  seasonId: string,
+): Promise<ArenaDivisionLeague[]> {
+  const [placements, standings] = await Promise.all([
+    db
+      .select({
+        leagueId: arenaDivisionPlacements.leagueId,
+        leagueName: leagues.name,
+        movement: arenaDivisionPlacements.movement,
+        previousTier: arenaDivisionPlacements.previousTier,
+        tier: arenaDivisionPlacements.tier,
+      })
+      .from(arenaDivisionPlacements)
+      .leftJoin(leagues, eq(leagues.id, arenaDivisionPlacements.leagueId))
+      .where(eq(arenaDivisionPlacements.seasonId, seasonId)),
+    loadLeagueStandings(db, seasonId),
+  ]);
+  const standingByLeague = new Map(
+    standings.map((standing) => [standing.leagueId, standing]),
+  );
+
+  return placements.map((placement) => ({
+    displayName: placement.leagueName ?? "Unknown league",
+    leagueId: placement.leagueId,
+    movement: placement.movement,
+    previousTier: placement.previousTier,
+    standing: standingByLeague.get(placement.leagueId) ?? null,
+    tier: placement.tier,
+  }));
+}
+
+async function priorSeasonFor(
+  db: Db,
+  season: ArenaSeason,
+): Promise<ArenaSeason | null> {
+  const [prior] = await db
+    .select()
+    .from(arenaSeasons)
+    .where(lt(arenaSeasons.startsAt, season.startsAt))
+    .orderBy(desc(arenaSeasons.startsAt))
+    .limit(1);
+  return prior ?? null;
+}
+
+async function seasonHasPlacements(db: Db, seasonId: string) {
+  const [placement] = await db
+    .select({ id: arenaDivisionPlacements.id })
+    .from(arenaDivisionPlacements)
+    .where(eq(arenaDivisionPlacements.seasonId, seasonId))
+    .limit(1);
+  return Boolean(placement);
+}
+
+async function insertPlacements(
+  db: Db,
+  seasonId: string,
+  placements: readonly ArenaDivisionPlacement[],
+) {
+  if (placements.length === 0) {
+    return [];
+  }
+  // A rollover and a rebuild can race to place the same league; whichever
+  // lands first keeps it.
+  return db
+    .insert(arenaDivisionPlacements)
+    .values(placements.map((placement) => ({ ...placement, seasonId })))
+    .onConflictDoNothing({
+      target: [
+        arenaDivisionPlacements.seasonId,
+        arenaDivisionPlacements.leagueId,
+      ],
+    })
+    .returning();
+}
+
+/**
+ * A season's opening divisions: promotion and relegation from the prior
+ * season's divisions, or a seed from the prior ladder, then from this
+ * season's own ladder for leagues the prior season never saw.
+ */
+async function openingPlacements(
+  db: Db,
+  season: ArenaSeason,
+  prior: ArenaSeason | null,
+): Promise<ArenaDivisionPlacement[]> {
+  const current = await loadLeagueStandings(db, season.id);
+  if (!prior) {
+    return seedArenaDivisions(current.map((row) => row.leagueId));
+  }
+
+  const [priorLeagues, priorStandings] = await Promise.all([
+    loadDivisionLeagues(db, prior.id),
+    loadLeagueStandings(db, prior.id),
+  ]);
+  const ordered = [
+    ...new Set([
+      ...priorStandings.map((row) => row.leagueId),
+      ...current.map((row) => row.leagueId),
+    ]),
+  ];
+  if (priorLeagues.length === 0) {
+    return seedArenaDivisions(ordered);
+  }
+
+  // `buildArenaDivisions` already orders each division by its finish, which
+  // is exactly the order promotion and relegation read.
+  const finishes = buildArenaDivisions(priorLeagues).map((division) => ({
+    leagueIds: division.rows.map((row) => row.id),
+    tier: division.tier,
+  }));
+  return promoteAndRelegate(finishes, ordered);
+}
+
+/**
+ * Keeps a season's divisions in step with its ladder. Leagues that appear
+ * mid-season join the bottom division. A season that has not been placed is
+ * seeded here only when nothing before it has divisions: a promotion and
+ * relegation rollover is left to the rollover job, which announces it.
+ */
+export async function syncArenaDivisions(
+  db: Db,
+  input: { seasonId: string },
+): Promise<ArenaDivisionPlacement[]> {
+  const [season] = await db
+    .select()
+    .from(arenaSeasons)
+    .where(eq(arenaSeasons.id, input.seasonId))
+    .limit(1);
+  if (!season) {
+    throw new AppError({
+      code: "ARENA_SEASON_NOT_FOUND",
+      message: "Arena season was not found",
+      status: 404,
+    });
+  }
+
+  const placed = await loadDivisionLeagues(db, season.id);
+  if (placed.length === 0) {
+    const prior = await priorSeasonFor(db, season);
+    if (prior && (await seasonHasPlacements(db, prior.id))) {
+      return [];
+    }
+    return insertPlacements(
+      db,
+      season.id,
+      await openingPlacements(db, season, prior),
+    );
+  }
+
+  const placedIds = new Set(placed.map((league) => league.leagueId));
+  const tierSizes = new Map<number, number>();
+  for (const league of placed) {
+    tierSizes.set(league.tier, (tierSizes.get(league.tier) ?? 0) + 1);
+  }
+  const standings = await loadLeagueStandings(db, season.id);
+  return insertPlacements(
+    db,
+    season.id,
+    placeNewArenaLeagues(
+      tierSizes,
+      standings
+        .map((row) => row.leagueId)
+        .filter((leagueId) => !placedIds.has(leagueId)),
+    ),
+  );
+}
+
+/**
+ * Places every season that has started, has no divisions yet, and whose
+ * predecessor has finished. Returns the promotions and relegations it made,
+ * one per league, for the job to announce.
+ */
+export async function rolloverArenaDivisions(
+  db: Db,
+  input: { now?: Date } = {},
+): Promise<RolloverArenaDivisionsResult> {
+  const now = input.now ?? new Date();
+  const unplaced = await db
+    .select({ season: arenaSeasons })
+    .from(arenaSeasons)
+    .leftJoin(
+      arenaDivisionPlacements,
+      eq(arenaDivisionPlacements.seasonId, arenaSeasons.id),
+    )
+    .where(
+      and(lte(arenaSeasons.startsAt, now), isNull(arenaDivisionPlacements.id)),
+    )
+    .orderBy(asc(arenaSeasons.startsAt));
+
+  const moves: ArenaDivisionMove[] = [];
+  const placedSeasonIds: string[] = [];
+  for (const { season } of unplaced) {
+    const prior = await priorSeasonFor(db, season);
+    if (prior && now < prior.endsAt) {
+      continue;
+    }
+    const inserted = await insertPlacements(
+      db,
+      season.id,
+      await openingPlacements(db, season, prior),
+    );
+    if (inserted.length === 0) {
+      continue;
+    }
+    placedSeasonIds.push(season.id);
+    for (const placement of inserted) {
+      if (
+        (placement.movement === "promoted" ||
+          placement.movement === "relegated") &&
+        placement.previousTier !== null
+      ) {
+        moves.push({
+          fromTier: placement.previousTier,
+          leagueId: placement.leagueId,
+          movement: placement.movement,
+          seasonId: season.id,
+          toTier: placement.tier,
+        });
+      }
+    }
+  }
+
+  return { moves, placedSeasonIds };
+}
+
+export async function loadArenaDivisions(
+  db: Db,
+  input: { moverLimit?: number; seasonId: string },
+): Promise<ArenaDivision[]> {
+  return buildArenaDivisions(await loadDivisionLeagues(db, input.seasonId), {
+    moverLimit: input.moverLimit,
+  });
+}
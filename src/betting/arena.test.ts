@@ -334,6 +334,10 @@ describe("arena leaderboard materialization", () => {
         rank: 1,
       }),
       comparison: "leading",
+      // Seasons are global, so whether this one has been seeded into
+      // divisions depends on what other suites left behind. When it has, the
+      // two leagues share the top division.
+      divisionName: expect.toBeOneOf([null, "Premier Division"]),
       leader: expect.objectContaining({
         displayName: "Arena League A",
         id: leagueA.id,
@@ -13,13 +13,18 @@ import { AppError } from "@/core/result";
 import type { Db } from "@/db/client";
 import { type LeagueScopedTx, withLeagueContext } from "@/db/rls";
 import {
+  type ArenaBankrollStanding,
   type ArenaSeason,
   type ArenaStanding,
+  arenaBankrollStandings,
   arenaSeasons,
   arenaStandings,
   leagues,
   users,
 } from "@/db/schema";
+import type { ArenaDivision } from "./arena-division-rules";
+import { loadArenaDivisions, syncArenaDivisions } from "./arena-divisions";
+import { toRoiBps, toStoredUnits } from "./bankroll-scoring";
 import { scorePickWeek, WEEKLY_PARTICIPATION_FLOOR } from "./pickem-scoring";
 
 const DEFAULT_LIMIT = 25;
@@ -34,6 +39,8 @@ type ArenaSeasonStatus = "active" | "complete" | "upcoming";
  * produces a row, with `user_id` null -- the league denominator must count it.
  */
 interface PickMetricRow {
+  beat_close_picks: number | string | null;
+  clv_picks: number | string | null;
   correct_picks: number | string | null;
   league_id: string;
   league_name: string;
@@ -47,6 +54,17 @@ interface PickMetricRow {
   void_picks: number | string | null;
 }
 
+/** One row per (league, week, user) with at least one settled bankroll slip. */
+interface BankrollMetricRow {
+  league_id: string;
+  net_units: number | string | null;
+  pick_week_id: string;
+  settled_slips: number | string | null;
+  staked_units: number | string | null;
+  user_id: string;
+  won_slips: number | string | null;
+}
+
 interface LeagueListRow {
   id: string;
   name: string;
@@ -54,6 +72,9 @@ interface LeagueListRow {
 
 interface ComputedStanding {
   accuracyBps: number;
+  beatCloseBps: number;
+  beatClosePicks: number;
+  clvPicks: number;
   correctPicks: number;
   eligibleWeeks: number;
   kind: ArenaStandingKind;
@@ -67,6 +88,20 @@ interface ComputedStanding {
   weeksPlayed: number;
 }
 
+interface ComputedBankrollStanding {
+  kind: ArenaStandingKind;
+  leagueId: string | null;
+  netUnits: number;
+  rank: number;
+  roiBps: number;
+  settledSlips: number;
+  stakedUnits: number;
+  subjectId: string;
+  userId: string | null;
+  weeksPlayed: number;
+  wonSlips: number;
+}
+
 export interface EnsureArenaSeasonInput {
   endsAt: Date;
   name: string;
@@ -75,6 +110,13 @@ export interface EnsureArenaSeasonInput {
 
 export interface ArenaLeaderboardRow {
   accuracyBps: number;
+  /**
+   * Share of CLV-measured picks that beat the closing line, in basis points.
+   * A secondary metric: reported beside accuracy, never used to rank.
+   */
+  beatCloseBps: number;
+  beatClosePicks: number;
+  clvPicks: number;
   correctPicks: number;
   displayName: string;
   eligibleWeeks: number;
@@ -88,6 +130,26 @@ export interface ArenaLeaderboardRow {
   weeksPlayed: number;
 }
 
+/**
+ * A row on the bankroll track. `accuracyBps` is the same subject's Pick 'em
+ * accuracy, carried alongside so the two ladders read side by side; it is null
+ * for a subject with no accuracy standing in the season.
+ */
+export interface ArenaBankrollRow {
+  accuracyBps: number | null;
+  displayName: string;
+  id: string;
+  netUnits: number;
+  previousRank: number | null;
+  rank: number;
+  rankDelta: number;
+  roiBps: number;
+  settledSlips: number;
+  stakedUnits: number;
+  weeksPlayed: number;
+  wonSlips: number;
+}
+
 export interface ArenaSeasonSummary {
   computedAt: string | null;
   endsAt: string;
@@ -126,6 +188,8 @@ export interface ArenaHeadToHeadLeague extends ArenaLeagueRivalOption {
 export interface ArenaHeadToHead {
   anchor: ArenaHeadToHeadLeague;
   comparison: "leading" | "tied" | "trailing";
+  /** The division both leagues play in; null when they are in different ones. */
+  divisionName: string | null;
   leader: ArenaHeadToHeadLeague | null;
   /** Accuracy gap in basis points. Absolute, so it never encodes direction. */
   marginBps: number;
@@ -134,7 +198,13 @@ export interface ArenaHeadToHead {
 }
 
 export interface ArenaLeaderboardData {
+  bankroll: {
+    individualStandings: ArenaBankrollRow[];
+    leagueStandings: ArenaBankrollRow[];
+  };
   computedAt: string | null;
+  /** The season's divisions, top tier first; empty until it is placed. */
+  divisions: ArenaDivision[];
   headToHead: ArenaHeadToHead | null;
   individualStandings: ArenaLeaderboardRow[];
   leagueOptions: ArenaLeagueRivalOption[];
@@ -154,6 +224,7 @@ export interface ArenaLeaderboardData {
 }
 
 export interface RebuildArenaStandingsResult extends ArenaLeaderboardData {
+  materializedBankrollRows: ArenaBankrollStanding[];
   materializedRows: ArenaStanding[];
 }
 
@@ -377,7 +448,9 @@ async function loadPickMetrics(
         u.email as user_email,
         count(p.id) filter (where p.status = 'correct')::int as correct_picks,
         count(p.id) filter (where p.status = 'void')::int as void_picks,
-        count(p.id)::int as submitted_picks
+        count(p.id)::int as submitted_picks,
+        count(p.id) filter (where p.closing_line_value is not null)::int as clv_picks,
+        count(p.id) filter (where p.closing_line_value > 0)::int as beat_close_picks
       from pick_weeks pw
       left join picks p
         on p.pick_week_id = pw.id
@@ -434,6 +507,8 @@ function rankStandings(
 }
 
 interface WeekTotals {
+  beatClosePicks: number;
+  clvPicks: number;
   correctPicks: number;
   maxPicksPerUser: number;
   rosterSize: number;
@@ -456,6 +531,8 @@ function computeLeagueStandings(
   const byWeek = new Map<string, WeekTotals & { leagueId: string }>();
   for (const row of rows) {
     const existing = byWeek.get(row.pick_week_id) ?? {
+      beatClosePicks: 0,
+      clvPicks: 0,
       correctPicks: 0,
       leagueId: row.league_id,
       maxPicksPerUser: integer(row.max_picks_per_user),
@@ -463,6 +540,8 @@ function computeLeagueStandings(
       submittedPicks: 0,
       voidPicks: 0,
     };
+    existing.beatClosePicks += integer(row.beat_close_picks);
+    existing.clvPicks += integer(row.clv_picks);
     existing.correctPicks += integer(row.correct_picks);
     existing.submittedPicks += integer(row.submitted_picks);
     existing.voidPicks += integer(row.void_picks);
@@ -483,6 +562,9 @@ function computeLeagueStandings(
 
     const existing = byLeague.get(week.leagueId) ?? {
       accuracyBps: 0,
+      beatCloseBps: 0,
+      beatClosePicks: 0,
+      clvPicks: 0,
       correctPicks: 0,
       eligibleWeeks: 0,
       kind: "league" as const,
@@ -494,6 +576,8 @@ function computeLeagueStandings(
       voidPicks: 0,
       weeksPlayed: 0,
     };
+    existing.beatClosePicks += week.beatClosePicks;
+    existing.clvPicks += week.clvPicks;
     existing.correctPicks += week.correctPicks;
     existing.scorablePicks += score.scorablePicks;
     existing.submittedPicks += week.submittedPicks - week.voidPicks;
@@ -509,6 +593,13 @@ function computeLeagueStandings(
       existing.correctPicks,
       existing.scorablePicks,
     );
+    // Over submitted picks with a recorded close, not the absolute
+    // denominator: CLV grades the picks that were made, and an unmade pick
+    // has no price to compare.
+    existing.beatCloseBps = percentageBps(
+      existing.beatClosePicks,
+      existing.clvPicks,
+    );
     byLeague.set(week.leagueId, existing);
   }
 
@@ -544,6 +635,9 @@ function computeIndividualStandings(
     const voidPicks = integer(row.void_picks);
     const existing = byUser.get(userId) ?? {
       accuracyBps: 0,
+      beatCloseBps: 0,
+      beatClosePicks: 0,
+      clvPicks: 0,
       correctPicks: 0,
       eligibleWeeks: 0,
       kind: "individual" as const,
@@ -558,6 +652,8 @@ function computeIndividualStandings(
 
     const allowance = integer(row.max_picks_per_user);
     const submitted = integer(row.submitted_picks) - voidPicks;
+    existing.beatClosePicks += integer(row.beat_close_picks);
+    existing.clvPicks += integer(row.clv_picks);
     existing.correctPicks += integer(row.correct_picks);
     // Pushes void: they leave the denominator rather than counting as wrong.
     existing.scorablePicks += Math.max(allowance - voidPicks, 0);
@@ -574,6 +670,10 @@ function computeIndividualStandings(
       existing.correctPicks,
       existing.scorablePicks,
     );
+    existing.beatCloseBps = percentageBps(
+      existing.beatClosePicks,
+      existing.clvPicks,
+    );
 
     byUser.set(userId, existing);
   }
@@ -581,6 +681,145 @@ function computeIndividualStandings(
   return rankStandings([...byUser.values()]);
 }
 
+/**
+ * Loads settled bankroll totals for every league, one row per (league, week,
+ * user). Per league for the same RLS reason as `loadPickMetrics`.
+ *
+ * Unlike the pick metrics there is no LEFT JOIN to empty weeks: ROI is a
+ * return on what was staked, so a week with no settled slips has nothing to
+ * return on and must not count as a loss.
+ */
+async function loadBankrollMetrics(
+  db: Db,
+  season: Pick<ArenaSeason, "endsAt" | "startsAt">,
+): Promise<BankrollMetricRow[]> {
+  const leagueRows: LeagueListRow[] = await db
+    .select({ id: leagues.id, name: leagues.name })
+    .from(leagues)
+    .orderBy(leagues.name);
+  const rows: BankrollMetricRow[] = [];
+
+  for (const league of leagueRows) {
+    const leagueRowsForSeason = await withLeagueContext(db, league.id, (tx) =>
+      executeRows<BankrollMetricRow>(
+        tx,
+        sql`
+      select
+        s.league_id,
+        s.pick_week_id,
+        s.user_id,
+        sum(s.stake)::float8 as staked_units,
+        sum(s.payout - s.stake)::float8 as net_units,
+        count(*)::int as settled_slips,
+        count(*) filter (where s.status = 'won')::int as won_slips
+      from bankroll_slips s
+      join pick_weeks pw
+        on pw.id = s.pick_week_id
+        and pw.league_id = s.league_id
+      where s.league_id = ${league.id}
+        and s.status <> 'pending'
+        and pw.opens_at >= ${season.startsAt}
+        and pw.opens_at < ${season.endsAt}
+      group by s.league_id, s.pick_week_id, s.user_id
+    `,
+      ),
+    );
+    rows.push(...leagueRowsForSeason);
+  }
+
+  return rows;
+}
+
+/**
+ * Ranks the bankroll track by ROI, sharing ranks on exact ties like the
+ * accuracy ladder. More units staked at the same ROI is the harder result, so
+ * volume orders a tie without breaking it.
+ */
+function rankBankrollStandings(
+  rows: Omit<ComputedBankrollStanding, "rank">[],
+): ComputedBankrollStanding[] {
+  const sorted = [...rows].sort((a, b) => {
+    const roi = b.roiBps - a.roiBps;
+    if (roi !== 0) return roi;
+    const volume = b.stakedUnits - a.stakedUnits;
+    if (volume !== 0) return volume;
+    return a.subjectId.localeCompare(b.subjectId);
+  });
+
+  const ranked: ComputedBankrollStanding[] = [];
+  let rank = 0;
+  let seen = 0;
+  let previousRoi: number | null = null;
+  for (const row of sorted) {
+    seen += 1;
+    if (previousRoi === null || row.roiBps !== previousRoi) {
+      rank = seen;
+      previousRoi = row.roiBps;
+    }
+    ranked.push({ ...row, rank });
+  }
+  return ranked;
+}
+
+/**
+ * League and individual bankroll standings. A league's ROI is its members'
+ * pooled net over their pooled stakes — summed units, not averaged member
+ * ROIs, so one member's lucky single cannot carry the whole league.
+ */
+function computeBankrollStandings(rows: readonly BankrollMetricRow[]): {
+  individualStandings: ComputedBankrollStanding[];
+  leagueStandings: ComputedBankrollStanding[];
+} {
+  const bySubject = new Map<
+    string,
+    Omit<ComputedBankrollStanding, "rank" | "roiBps"> & { weeks: Set<string> }
+  >();
+  for (const row of rows) {
+    const subjects = [
+      { key: `league:${row.league_id}`, kind: "league" as const },
+      { key: `individual:${row.user_id}`, kind: "individual" as const },
+    ];
+    for (const subject of subjects) {
+      const existing = bySubject.get(subject.key) ?? {
+        kind: subject.kind,
+        leagueId: subject.kind === "league" ? row.league_id : null,
+        netUnits: 0,
+        settledSlips: 0,
+        stakedUnits: 0,
+        subjectId: subject.kind === "league" ? row.league_id : row.user_id,
+        userId: subject.kind === "individual" ? row.user_id : null,
+        weeks: new Set<string>(),
+        weeksPlayed: 0,
+        wonSlips: 0,
+      };
+      existing.netUnits += Number(row.net_units ?? 0);
+      existing.settledSlips += integer(row.settled_slips);
+      existing.stakedUnits += Number(row.staked_units ?? 0);
+      existing.wonSlips += integer(row.won_slips);
+      existing.weeks.add(row.pick_week_id);
+      existing.weeksPlayed = existing.weeks.size;
+      bySubject.set(subject.key, existing);
+    }
+  }
+
+  const standings = [...bySubject.values()].map(
+    ({ weeks: _weeks, ...row }) => ({
+      ...row,
+      netUnits: toStoredUnits(row.netUnits),
+      roiBps: toRoiBps(row.netUnits, row.stakedUnits),
+      stakedUnits: toStoredUnits(row.stakedUnits),
+    }),
+  );
+  return {
+    individualStandings: rankBankrollStandings(
+      standings.filter((row) => row.kind === "individual"),
+    ),
+    leagueStandings: rankBankrollStandings(
+      standings.filter((row) => row.kind === "league"),
+    ),
+  };
+}
+
 export async function ensureArenaSeason(
   db: Db,
   input: EnsureArenaSeasonInput,
@@ -616,13 +855,19 @@ export async function computeArenaStandings(
   db: Db,
   input: { seasonId: string },
 ): Promise<{
+  bankroll: {
+    individualStandings: ComputedBankrollStanding[];
+    leagueStandings: ComputedBankrollStanding[];
+  };
   individualStandings: ComputedStanding[];
   leagueStandings: ComputedStanding[];
   season: ArenaSeason;
 }> {
   const season = await requireArenaSeason(db, input.seasonId);
   const rows = await loadPickMetrics(db, season);
+  const bankrollRows = await loadBankrollMetrics(db, season);
   return {
+    bankroll: computeBankrollStandings(bankrollRows),
     individualStandings: computeIndividualStandings(rows),
     leagueStandings: computeLeagueStandings(rows),
     season,
@@ -644,6 +889,11 @@ export async function rebuildArenaStandings(
     ...computed.individualStandings,
   ];
 
+  const bankrollStandings = [
+    ...computed.bankroll.leagueStandings,
+    ...computed.bankroll.individualStandings,
+  ];
+
   const materializedRows = await db.transaction(async (tx) => {
     const previousRows = await tx
       .select({
@@ -672,6 +922,9 @@ export async function rebuildArenaStandings(
             previousRankBySubject.get(`${row.kind}:${row.subjectId}`) ?? null;
           return {
             accuracyBps: row.accuracyBps,
+            beatCloseBps: row.beatCloseBps,
+            beatClosePicks: row.beatClosePicks,
+            clvPicks: row.clvPicks,
             computedAt,
             correctPicks: row.correctPicks,
             eligibleWeeks: row.eligibleWeeks,
@@ -693,17 +946,76 @@ export async function rebuildArenaStandings(
       .returning();
   });
 
+  // Its own transaction and its own previous ranks: the two tracks move
+  // independently, so a rank change on one must never read as movement on
+  // the other.
+  const materializedBankrollRows = await db.transaction(async (tx) => {
+    const previousRows = await tx
+      .select({
+        kind: arenaBankrollStandings.kind,
+        rank: arenaBankrollStandings.rank,
+        subjectId: arenaBankrollStandings.subjectId,
+      })
+      .from(arenaBankrollStandings)
+      .where(eq(arenaBankrollStandings.seasonId, input.seasonId));
+    const previousRankBySubject = new Map(
+      previousRows.map((row) => [`${row.kind}:${row.subjectId}`, row.rank]),
+    );
+
+    await tx
+      .delete(arenaBankrollStandings)
+      .where(eq(arenaBankrollStandings.seasonId, input.seasonId));
+    if (bankrollStandings.length === 0) {
+      return [];
+    }
+
+    return tx
+      .insert(arenaBankrollStandings)
+      .values(
+        bankrollStandings.map((row) => {
+          const previousRank =
+            previousRankBySubject.get(`${row.kind}:${row.subjectId}`) ?? null;
+          return {
+            computedAt,
+            kind: row.kind,
+            leagueId: row.leagueId,
+            netUnits: row.netUnits,
+            previousRank,
+            rank: row.rank,
+            rankDelta: previousRank === null ? 0 : previousRank - row.rank,
+            roiBps: row.roiBps,
+            seasonId: input.seasonId,
+            settledSlips: row.settledSlips,
+            stakedUnits: row.stakedUnits,
+            subjectId: row.subjectId,
+            userId: row.userId,
+            weeksPlayed: row.weeksPlayed,
+            wonSlips: row.wonSlips,
+          };
+        }),
+      )
+      .returning();
+  });
+
+  // After the ladder is written: a league's first standing is what gives it
+  // a division.
+  await syncArenaDivisions(db, { seasonId: input.seasonId });
+  const divisions = await loadArenaDivisions(db, { seasonId: input.seasonId });
+
   const leagueStandings = await standingsForKind(db, input.seasonId, "league");
   return {
+    bankroll: await bankrollStandingsForSeason(db, input.seasonId),
     computedAt: computedAt.toISOString(),
+    divisions,
     individualStandings: await standingsForKind(
       db,
       input.seasonId,
       "individual",
     ),
-    headToHead: buildHeadToHead(leagueStandings),
+    headToHead: buildHeadToHead(leagueStandings, { divisions }),
     leagueOptions: leagueRivalOptions(leagueStandings),
     leagueStandings,
+    materializedBankrollRows,
     materializedRows,
     movers: await movementForSeason(db, input.seasonId),
     season: seasonDto(computed.season),
@@ -810,6 +1122,9 @@ async function standingsForKind(
   const rows = await db
     .select({
       accuracyBps: arenaStandings.accuracyBps,
+      beatCloseBps: arenaStandings.beatCloseBps,
+      beatClosePicks: arenaStandings.beatClosePicks,
+      clvPicks: arenaStandings.clvPicks,
       correctPicks: arenaStandings.correctPicks,
       eligibleWeeks: arenaStandings.eligibleWeeks,
       kind: arenaStandings.kind,
@@ -836,6 +1151,9 @@ async function standingsForKind(
 
   return rows.map((row) => ({
     accuracyBps: row.accuracyBps,
+    beatCloseBps: row.beatCloseBps,
+    beatClosePicks: row.beatClosePicks,
+    clvPicks: row.clvPicks,
     correctPicks: row.correctPicks,
     displayName:
       kind === "league"
@@ -853,6 +1171,81 @@ async function standingsForKind(
   }));
 }
 
+async function bankrollStandingsForKind(
+  db: Db,
+  seasonId: string,
+  kind: ArenaStandingKind,
+  input: { limit?: number } = {},
+): Promise<ArenaBankrollRow[]> {
+  const limit = boundedLimit(input.limit);
+  const rows = await db
+    .select({
+      accuracyBps: arenaStandings.accuracyBps,
+      leagueName: leagues.name,
+      netUnits: arenaBankrollStandings.netUnits,
+      previousRank: arenaBankrollStandings.previousRank,
+      rank: arenaBankrollStandings.rank,
+      rankDelta: arenaBankrollStandings.rankDelta,
+      roiBps: arenaBankrollStandings.roiBps,
+      settledSlips: arenaBankrollStandings.settledSlips,
+      stakedUnits: arenaBankrollStandings.stakedUnits,
+      subjectId: arenaBankrollStandings.subjectId,
+      userDisplayName: users.displayName,
+      userEmail: users.email,
+      weeksPlayed: arenaBankrollStandings.weeksPlayed,
+      wonSlips: arenaBankrollStandings.wonSlips,
+    })
+    .from(arenaBankrollStandings)
+    .leftJoin(
+      arenaStandings,
+      and(
+        eq(arenaStandings.seasonId, arenaBankrollStandings.seasonId),
+        eq(arenaStandings.kind, arenaBankrollStandings.kind),
+        eq(arenaStandings.subjectId, arenaBankrollStandings.subjectId),
+      ),
+    )
+    .leftJoin(leagues, eq(leagues.id, arenaBankrollStandings.leagueId))
+    .leftJoin(users, eq(users.id, arenaBankrollStandings.userId))
+    .where(
+      and(
+        eq(arenaBankrollStandings.seasonId, seasonId),
+        eq(arenaBankrollStandings.kind, kind),
+      ),
+    )
+    .orderBy(arenaBankrollStandings.rank)
+    .limit(limit);
+
+  return rows.map((row) => ({
+    accuracyBps: row.accuracyBps,
+    displayName:
+      kind === "league"
+        ? (row.leagueName ?? "Unknown league")
+        : (row.userDisplayName ?? row.userEmail ?? "Unknown player"),
+    id: row.subjectId,
+    netUnits: row.netUnits,
+    previousRank: row.previousRank,
+    rank: row.rank,
+    rankDelta: row.rankDelta,
+    roiBps: row.roiBps,
+    settledSlips: row.settledSlips,
+    stakedUnits: row.stakedUnits,
+    weeksPlayed: row.weeksPlayed,
+    wonSlips: row.wonSlips,
+  }));
+}
+
+async function bankrollStandingsForSeason(
+  db: Db,
+  seasonId: string,
+  input: { limit?: number } = {},
+): Promise<ArenaLeaderboardData["bankroll"]> {
+  const [leagueStandings, individualStandings] = await Promise.all([
+    bankrollStandingsForKind(db, seasonId, "league", input),
+    bankrollStandingsForKind(db, seasonId, "individual", input),
+  ]);
+  return { individualStandings, leagueStandings };
+}
+
 async function movementForSeason(
   db: Db,
   seasonId: string,
@@ -945,9 +1338,31 @@ function naturalRivalFor(
   return rows[index - 1] ?? rows[index + 1] ?? null;
 }
 
+function divisionOf(
+  leagueId: string,
+  divisions: readonly ArenaDivision[],
+): ArenaDivision | null {
+  return (
+    divisions.find((division) =>
+      division.rows.some((row) => row.id === leagueId),
+    ) ?? null
+  );
+}
+
+/**
+ * The natural rival is the league just above the anchor, or just below when
+ * it leads. Once the season has divisions the rival comes from the anchor's
+ * own division, since those are the leagues it is racing for promotion or
+ * against relegation; the whole ladder is the fallback for a league playing
+ * alone in its division.
+ */
 function buildHeadToHead(
   rows: readonly ArenaLeaderboardRow[],
-  input: { leagueId?: string; rivalLeagueId?: string } = {},
+  input: {
+    divisions?: readonly ArenaDivision[];
+    leagueId?: string;
+    rivalLeagueId?: string;
+  } = {},
 ): ArenaHeadToHead | null {
   if (rows.length < 2) return null;
 
@@ -960,7 +1375,16 @@ function buildHeadToHead(
     input.rivalLeagueId && input.rivalLeagueId !== anchor.id
       ? rows.find((row) => row.id === input.rivalLeagueId)
       : null;
-  const rival = explicitRival ?? naturalRivalFor(anchor, rows);
+  const divisions = input.divisions ?? [];
+  const anchorDivision = divisionOf(anchor.id, divisions);
+  const divisionIds = new Set(anchorDivision?.rows.map((row) => row.id));
+  const rival =
+    explicitRival ??
+    naturalRivalFor(
+      anchor,
+      rows.filter((row) => divisionIds.has(row.id)),
+    ) ??
+    naturalRivalFor(anchor, rows);
   if (!rival) return null;
 
   const anchorLeague = headToHeadLeague(anchor);
@@ -971,6 +1395,8 @@ function buildHeadToHead(
   return {
     anchor: anchorLeague,
     comparison: gap > 0 ? "leading" : gap < 0 ? "trailing" : "tied",
+    divisionName:
+      anchorDivision && divisionIds.has(rival.id) ? anchorDivision.name : null,
     leader,
     marginBps: Math.abs(gap),
     rankGap: Math.abs(anchor.rank - rival.rank),
@@ -1010,7 +1436,9 @@ export async function getArenaLeaderboardData(
 
   if (!season) {
     return {
+      bankroll: { individualStandings: [], leagueStandings: [] },
       computedAt: null,
+      divisions: [],
       headToHead: null,
       individualStandings: [],
       leagueOptions: [],
@@ -1028,18 +1456,27 @@ export async function getArenaLeaderboardData(
   //
   // The two remaining queries are independent, so they run concurrently rather
   // than as a waterfall — this is the central arena page, hit by every league.
-  const [allLeagueStandings, individualStandings] = await Promise.all([
-    standingsForKind(db, season.id, "league", { limit: MAX_LIMIT }),
-    standingsForKind(db, season.id, "individual", { limit: input.limit }),
-  ]);
+  const [allLeagueStandings, individualStandings, bankroll, divisions] =
+    await Promise.all([
+      standingsForKind(db, season.id, "league", { limit: MAX_LIMIT }),
+      standingsForKind(db, season.id, "individual", { limit: input.limit }),
+      bankrollStandingsForSeason(db, season.id, { limit: input.limit }),
+      loadArenaDivisions(db, {
+        moverLimit: input.movementLimit,
+        seasonId: season.id,
+      }),
+    ]);
   const leagueStandings = allLeagueStandings.slice(
     0,
     boundedLimit(input.limit),
   );
 
   return {
+    bankroll,
     computedAt: computedAtBySeason.get(season.id) ?? null,
+    divisions,
     headToHead: buildHeadToHead(allLeagueStandings, {
+      divisions,
       leagueId: input.leagueId,
       rivalLeagueId: input.rivalLeagueId,
     }),
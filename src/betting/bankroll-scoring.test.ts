@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  americanToDecimal,
+  parlayPrice,
+  potentialPayout,
+  settleBankrollSlip,
+  toRoiBps,
+} from "./bankroll-scoring";
+
+describe("bankroll pricing", () => {
+  it("converts American prices and refuses ones no book posts", () => {
+    expect(americanToDecimal(150)).toBe(2.5);
+    expect(americanToDecimal(-200)).toBe(1.5);
+    // -100 < price < +100 would pay less than the stake on a win.
+    expect(americanToDecimal(50)).toBeNull();
+    expect(americanToDecimal(Number.NaN)).toBeNull();
+  });
+
+  it("leaves a straight bet at its own price", () => {
+    expect(parlayPrice([-110])).toBe(-110);
+    expect(parlayPrice([])).toBeNull();
+    expect(parlayPrice([75])).toBeNull();
+  });
+
+  it("compounds parlay legs through decimal odds", () => {
+    // Two -110 legs: 1.909... squared is 3.645..., i.e. +264.
+    expect(parlayPrice([-110, -110])).toBe(264);
+    expect(parlayPrice([100, 100, 100])).toBe(700);
+    expect(potentialPayout(50, [-110, -110])).toBe(182.23);
+  });
+
+  it("pays a settled parlay exactly what it showed as its potential payout", () => {
+    // Three -110 legs round to +596 as one American price, which would pay
+    // 696.00 on 100; the exact legs pay 695.79.
+    const prices = [-110, -110, -110];
+    expect(parlayPrice(prices)).toBe(596);
+
+    const settled = settleBankrollSlip({
+      legs: prices.map((price) => ({ price, status: "won" as const })),
+      stake: 100,
+    });
+
+    expect(settled).toEqual({
+      payout: potentialPayout(100, prices),
+      status: "won",
+    });
+    expect(settled.payout).toBe(695.79);
+  });
+});
+
+describe("bankroll slip settlement", () => {
+  const stake = 100;
+
+  it("loses the slip on any lost leg, even with legs still pending", () => {
+    expect(
+      settleBankrollSlip({
+        legs: [
+          { price: -110, status: "lost" },
+          { price: -110, status: "pending" },
+        ],
+        stake,
+      }),
+    ).toEqual({ payout: 0, status: "lost" });
+  });
+
+  it("stays pending until every leg decides", () => {
+    expect(
+      settleBankrollSlip({
+        legs: [
+          { price: -110, status: "won" },
+          { price: -110, status: "pending" },
+        ],
+        stake,
+      }),
+    ).toEqual({ payout: null, status: "pending" });
+  });
+
+  it("drops pushed legs out of the parlay instead of killing it", () => {
+    expect(
+      settleBankrollSlip({
+        legs: [
+          { price: 100, status: "won" },
+          { price: -110, status: "push" },
+        ],
+        stake,
+      }),
+    ).toEqual({ payout: 200, status: "won" });
+  });
+
+  it("returns the stake when nothing decided", () => {
+    expect(
+      settleBankrollSlip({
+        legs: [
+          { price: 100, status: "push" },
+          { price: -110, status: "void" },
+        ],
+        stake,
+      }).status,
+    ).toBe("push");
+    expect(
+      settleBankrollSlip({ legs: [{ price: 100, status: "void" }], stake }),
+    ).toEqual({ payout: 100, status: "void" });
+  });
+
+  it("reports ROI in integer basis points", () => {
+    expect(toRoiBps(25, 200)).toBe(1250);
+    expect(toRoiBps(-30, 120)).toBe(-2500);
+    expect(toRoiBps(10, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,159 @@
+import type { GradedOutcome } from "./grading";
+
+/**
+ * Bankroll mode pricing and settlement — the optional paper-money track that
+ * runs alongside Pick 'em accuracy.
+ *
+ * Pick 'em answers "how often is this league right"; bankroll mode answers
+ * "how well does it size and price its conviction". The two are deliberately
+ * separate ladders: a league that only takes heavy favourites can lead on
+ * accuracy and trail on ROI, and that gap is the point of showing both.
+ *
+ * Everything here is pure. Leg outcomes come from the shared `gradeSelection`,
+ * so a parlay leg and a pick on the same line can never grade differently.
+ */
+
+/** Paper units granted per pick week when a league has not set its own. */
+export const DEFAULT_WEEKLY_BANKROLL_ALLOWANCE = 1000;
+
+/** Parlay length cap when a league has not set its own. */
+export const DEFAULT_MAX_PARLAY_LEGS = 6;
+
+export type BankrollOutcome = "pending" | GradedOutcome;
+
+export interface BankrollLegInput {
+  /** American price locked at placement. */
+  readonly price: number;
+  readonly status: BankrollOutcome;
+}
+
+export interface BankrollSlipSettlement {
+  readonly status: BankrollOutcome;
+  /** Total returned, stake included. Null while the slip is pending. */
+  readonly payout: number | null;
+}
+
+/** Rounds to the cent, which is what the numeric(12,2) columns store. */
+export function toStoredUnits(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Converts an American price to decimal odds, or `null` for a price no book
+ * would post. Prices strictly between -100 and +100 do not exist; accepting
+ * one would let a malformed snapshot mint a leg that pays out less than the
+ * stake on a win.
+ */
+export function americanToDecimal(price: number): number | null {
+  if (!Number.isFinite(price) || Math.abs(price) < 100) {
+    return null;
+  }
+  return price > 0 ? 1 + price / 100 : 1 + 100 / Math.abs(price);
+}
+
+/** Converts decimal odds back to the nearest American price. */
+export function decimalToAmerican(decimal: number): number {
+  if (decimal >= 2) {
+    return Math.round((decimal - 1) * 100);
+  }
+  return Math.round(-100 / (decimal - 1));
+}
+
+/**
+ * Compounds leg prices into one unrounded decimal price, or `null` when any
+ * leg has no valid price. Payouts — shown and settled — come from this value,
+ * never from the rounded American slip price.
+ */
+export function parlayDecimal(prices: readonly number[]): number | null {
+  if (prices.length === 0) {
+    return null;
+  }
+  let decimal = 1;
+  for (const price of prices) {
+    const legDecimal = americanToDecimal(price);
+    if (legDecimal === null) {
+      return null;
+    }
+    decimal *= legDecimal;
+  }
+  return decimal;
+}
+
+/**
+ * Compounds leg prices into one slip price for display and storage. A
+ * single-leg slip returns its own price unchanged, so a straight bet never
+ * drifts by a rounding step.
+ */
+export function parlayPrice(prices: readonly number[]): number | null {
+  const [first, ...rest] = prices;
+  if (first === undefined) {
+    return null;
+  }
+  const decimal = parlayDecimal(prices);
+  if (decimal === null) {
+    return null;
+  }
+  return rest.length === 0 ? first : decimalToAmerican(decimal);
+}
+
+/** What a slip returns if every leg wins, stake included. */
+export function potentialPayout(
+  stake: number,
+  legPrices: readonly number[],
+): number {
+  const decimal = parlayDecimal(legPrices);
+  return decimal === null ? 0 : toStoredUnits(stake * decimal);
+}
+
+/**
+ * Settles a slip from its legs' outcomes.
+ *
+ * Standard parlay rules: any lost leg loses the slip at once, even with other
+ * legs still pending. Pushed and voided legs drop out at even money rather
+ * than killing the parlay, so the slip pays on the legs that did decide. A
+ * slip whose every leg pushed or voided returns its stake.
+ */
+export function settleBankrollSlip(input: {
+  readonly legs: readonly BankrollLegInput[];
+  readonly stake: number;
+}): BankrollSlipSettlement {
+  if (input.legs.some((leg) => leg.status === "lost")) {
+    return { payout: 0, status: "lost" };
+  }
+  if (
+    input.legs.length === 0 ||
+    input.legs.some((leg) => leg.status === "pending")
+  ) {
+    return { payout: null, status: "pending" };
+  }
+
+  const won = input.legs.filter((leg) => leg.status === "won");
+  if (won.length === 0) {
+    const allVoid = input.legs.every((leg) => leg.status === "void");
+    return {
+      payout: toStoredUnits(input.stake),
+      status: allVoid ? "void" : "push",
+    };
+  }
+
+  return {
+    payout: potentialPayout(
+      input.stake,
+      won.map((leg) => leg.price),
+    ),
+    status: "won",
+  };
+}
+
+/**
+ * Return on investment in basis points: net over staked.
+ *
+ * Integer for the same reason accuracy is stored in basis points — two equal
+ * ROIs must compare exactly equal so the ladder can share a rank.
+ */
+export function toRoiBps(netUnits: number, stakedUnits: number): number {
+  if (stakedUnits <= 0) {
+    return 0;
+  }
+  return Math.round((netUnits / stakedUnits) * 10_000);
+}
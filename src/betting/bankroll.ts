@@ -0,0 +1,732 @@
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { AppError } from "@/core/result";
+import type { Db, LeagueScopedTx } from "@/db";
+import { withLeagueContext } from "@/db/rls";
+import {
+  bankrollSlipLegs,
+  bankrollSlips,
+  bettingEvents,
+  bettingMarkets,
+  leagueBankrollSettings,
+  oddsSnapshots,
+  pickWeeks,
+} from "@/db/schema";
+import {
+  type BankrollOutcome,
+  DEFAULT_MAX_PARLAY_LEGS,
+  DEFAULT_WEEKLY_BANKROLL_ALLOWANCE,
+  parlayPrice,
+  potentialPayout,
+  settleBankrollSlip,
+  toStoredUnits,
+} from "./bankroll-scoring";
+import { gradeSelection } from "./grading";
+import type { EventResult } from "./interfaces";
+import type { PickSelection } from "./pickem";
+import { loadRosteredNflPlayers } from "./player-prop-markets";
+
+/**
+ * Stake placement and settlement for the optional bankroll mode.
+ *
+ * Mirrors `pickem.ts` deliberately: the same idempotency contract, the same
+ * kickoff lock evaluated against the priced snapshot, the same server-side
+ * allowance check inside one league-scoped transaction. A slip differs from a
+ * pick only in carrying a stake and one or more legs.
+ */
+
+export interface LeagueBankrollSettingsSummary {
+  readonly enabled: boolean;
+  readonly maxParlayLegs: number;
+  readonly weeklyAllowance: number;
+}
+
+export interface BankrollLegRequest {
+  readonly oddsSnapshotId: string;
+  readonly selection: PickSelection;
+}
+
+export interface PlaceBankrollSlipInput {
+  readonly leagueId: string;
+  readonly userId: string;
+  readonly pickWeekId: string;
+  readonly stake: number;
+  readonly legs: readonly BankrollLegRequest[];
+  /** Minted once per staged slip by the caller and reused across retries. */
+  readonly idempotencyKey: string;
+  readonly now?: Date;
+}
+
+export interface PlaceBankrollSlipResult {
+  readonly slipId: string;
+  readonly deduplicated: boolean;
+  readonly lockedPrice: number;
+  readonly potentialPayout: number;
+  readonly remainingAllowance: number;
+}
+
+function appError(code: string, message: string, status: number): AppError {
+  return new AppError({ code, message, status });
+}
+
+const DISABLED_SETTINGS: LeagueBankrollSettingsSummary = {
+  enabled: false,
+  maxParlayLegs: DEFAULT_MAX_PARLAY_LEGS,
+  weeklyAllowance: DEFAULT_WEEKLY_BANKROLL_ALLOWANCE,
+};
+
+export async function loadLeagueBankrollSettings(
+  tx: LeagueScopedTx,
+  leagueId: string,
+): Promise<LeagueBankrollSettingsSummary> {
+  const [row] = await tx
+    .select({
+      enabled: leagueBankrollSettings.enabled,
+      maxParlayLegs: leagueBankrollSettings.maxParlayLegs,
+      weeklyAllowance: leagueBankrollSettings.weeklyAllowance,
+    })
+    .from(leagueBankrollSettings)
+    .where(eq(leagueBankrollSettings.leagueId, leagueId))
+    .limit(1);
+  return row ?? DISABLED_SETTINGS;
+}
+
+/**
+ * Switches bankroll mode on or off for a league. Turning it off hides the
+ * bankroll desk and stops new slips; slips already placed still settle, so a
+ * mid-week toggle never strands a member's stake.
+ */
+export async function setLeagueBankrollMode(
+  db: Db,
+  input: {
+    readonly actorUserId: string;
+    readonly enabled: boolean;
+    readonly leagueId: string;
+    readonly maxParlayLegs?: number;
+    readonly weeklyAllowance?: number;
+  },
+): Promise<LeagueBankrollSettingsSummary> {
+  if (
+    input.weeklyAllowance !== undefined &&
+    (!Number.isInteger(input.weeklyAllowance) || input.weeklyAllowance <= 0)
+  ) {
+    throw appError(
+      "BANKROLL_INVALID_ALLOWANCE",
+      "Weekly allowance must be a positive whole number",
+      400,
+    );
+  }
+  if (
+    input.maxParlayLegs !== undefined &&
+    (!Number.isInteger(input.maxParlayLegs) ||
+      input.maxParlayLegs < 1 ||
+      input.maxParlayLegs > 12)
+  ) {
+    throw appError(
+      "BANKROLL_INVALID_PARLAY_LEGS",
+      "Parlays allow between 1 and 12 legs",
+      400,
+    );
+  }
+
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const now = new Date();
+    const values = {
+      enabled: input.enabled,
+      updatedAt: now,
+      updatedByUserId: input.actorUserId,
+      ...(input.maxParlayLegs === undefined
+        ? {}
+        : { maxParlayLegs: input.maxParlayLegs }),
+      ...(input.weeklyAllowance === undefined
+        ? {}
+        : { weeklyAllowance: input.weeklyAllowance }),
+    };
+    const [row] = await tx
+      .insert(leagueBankrollSettings)
+      .values({ ...values, leagueId: input.leagueId })
+      .onConflictDoUpdate({
+        set: values,
+        target: [leagueBankrollSettings.leagueId],
+      })
+      .returning({
+        enabled: leagueBankrollSettings.enabled,
+        maxParlayLegs: leagueBankrollSettings.maxParlayLegs,
+        weeklyAllowance: leagueBankrollSettings.weeklyAllowance,
+      });
+    if (!row) {
+      throw appError(
+        "BANKROLL_SETTINGS_SAVE_FAILED",
+        "Bankroll settings could not be saved",
+        500,
+      );
+    }
+    return row;
+  });
+}
+
+function validateIdempotencyKey(key: string): string {
+  const trimmed = key.trim();
+  if (trimmed.length < 8 || trimmed.length > 200) {
+    throw appError(
+      "BANKROLL_INVALID_IDEMPOTENCY_KEY",
+      "Slip idempotency key must be between 8 and 200 characters",
+      400,
+    );
+  }
+  return trimmed;
+}
+
+function validateStake(stake: number): number {
+  if (!Number.isFinite(stake) || stake <= 0 || toStoredUnits(stake) !== stake) {
+    throw appError(
+      "BANKROLL_INVALID_STAKE",
+      "Stake must be a positive amount in whole cents",
+      400,
+    );
+  }
+  return stake;
+}
+
+/**
+ * The snapshot price for the side a leg takes. Player-prop sides price off the
+ * over/under columns, the same way the slate offers them.
+ */
+function priceForSelection(
+  snapshot: {
+    awayPrice: number | null;
+    homePrice: number | null;
+    outcomePrice: number | null;
+    overPrice: number | null;
+    underPrice: number | null;
+  },
+  selection: PickSelection,
+): number | null {
+  switch (selection) {
+    case "home":
+      return snapshot.homePrice;
+    case "away":
+      return snapshot.awayPrice;
+    case "over":
+      return snapshot.overPrice;
+    case "under":
+      return snapshot.underPrice;
+    case "outcome":
+      return snapshot.outcomePrice;
+  }
+}
+
+async function loadExistingSlip(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; userId: string; idempotencyKey: string },
+) {
+  const [existing] = await tx
+    .select({
+      id: bankrollSlips.id,
+      lockedPrice: bankrollSlips.lockedPrice,
+      stake: bankrollSlips.stake,
+    })
+    .from(bankrollSlips)
+    .where(
+      and(
+        eq(bankrollSlips.leagueId, input.leagueId),
+        eq(bankrollSlips.userId, input.userId),
+        eq(bankrollSlips.idempotencyKey, input.idempotencyKey),
+      ),
+    )
+    .limit(1);
+  if (!existing) {
+    return null;
+  }
+  const legs = await tx
+    .select({ lockedPrice: bankrollSlipLegs.lockedPrice })
+    .from(bankrollSlipLegs)
+    .where(
+      and(
+        eq(bankrollSlipLegs.leagueId, input.leagueId),
+        eq(bankrollSlipLegs.slipId, existing.id),
+      ),
+    );
+  return { ...existing, legPrices: legs.map((leg) => leg.lockedPrice) };
+}
+
+/**
+ * Places one slip — a single when it has one leg, a parlay otherwise.
+ *
+ * The weekly allowance is spent on stakes only; winnings accrue to the
+ * season's net rather than back into the allowance, so every member starts
+ * each week level and one big Sunday cannot snowball into a bankroll nobody
+ * else can catch.
+ *
+ * Every leg is priced from its market's latest snapshot: a slip built against
+ * a quote the odds have since moved off is refused rather than locked at the
+ * stale number.
+ */
+export async function placeBankrollSlip(
+  db: Db,
+  input: PlaceBankrollSlipInput,
+): Promise<PlaceBankrollSlipResult> {
+  const idempotencyKey = validateIdempotencyKey(input.idempotencyKey);
+  const stake = validateStake(input.stake);
+  const now = input.now ?? new Date();
+
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const settings = await loadLeagueBankrollSettings(tx, input.leagueId);
+    if (!settings.enabled) {
+      throw appError(
+        "BANKROLL_MODE_DISABLED",
+        "Bankroll mode is not enabled for this league",
+        409,
+      );
+    }
+
+    const [week] = await tx
+      .select({
+        closesAt: pickWeeks.closesAt,
+        opensAt: pickWeeks.opensAt,
+      })
+      .from(pickWeeks)
+      .where(
+        and(
+          eq(pickWeeks.id, input.pickWeekId),
+          eq(pickWeeks.leagueId, input.leagueId),
+        ),
+      )
+      .limit(1);
+    if (!week) {
+      throw appError("PICK_WEEK_NOT_FOUND", "Pick week was not found", 404);
+    }
+
+    // Serializes one member's submits for the week. Two slips sent at once
+    // would otherwise both read the same spent total and together overspend
+    // the allowance.
+    await tx.execute(
+      sql`select pg_advisory_xact_lock(hashtextextended(${`bankroll-slip:${input.leagueId}:${input.userId}:${input.pickWeekId}`}, 0))`,
+    );
+
+    const [spent] = await tx
+      .select({
+        total: sql<number>`coalesce(sum(${bankrollSlips.stake}), 0)::float8`,
+      })
+      .from(bankrollSlips)
+      .where(
+        and(
+          eq(bankrollSlips.leagueId, input.leagueId),
+          eq(bankrollSlips.userId, input.userId),
+          eq(bankrollSlips.pickWeekId, input.pickWeekId),
+        ),
+      );
+    const remaining = toStoredUnits(
+      Math.max(settings.weeklyAllowance - (spent?.total ?? 0), 0),
+    );
+
+    // A replayed submit returns the original slip without spending allowance.
+    const existing = await loadExistingSlip(tx, {
+      idempotencyKey,
+      leagueId: input.leagueId,
+      userId: input.userId,
+    });
+    if (existing) {
+      return {
+        deduplicated: true,
+        lockedPrice: existing.lockedPrice,
+        potentialPayout: potentialPayout(existing.stake, existing.legPrices),
+        remainingAllowance: remaining,
+        slipId: existing.id,
+      };
+    }
+
+    if (now < week.opensAt) {
+      throw appError("PICK_WEEK_NOT_OPEN", "Pick week is not open yet", 409);
+    }
+    if (now >= week.closesAt) {
+      throw appError("PICK_WEEK_CLOSED", "Pick week is closed", 409);
+    }
+    if (input.legs.length === 0 || input.legs.length > settings.maxParlayLegs) {
+      throw appError(
+        "BANKROLL_INVALID_LEG_COUNT",
+        `A slip needs between 1 and ${settings.maxParlayLegs} legs`,
+        400,
+      );
+    }
+    if (stake > remaining) {
+      throw appError(
+        "BANKROLL_ALLOWANCE_EXHAUSTED",
+        `Only ${remaining} units remain in this week's allowance`,
+        409,
+      );
+    }
+
+    const snapshotIds = [
+      ...new Set(input.legs.map((leg) => leg.oddsSnapshotId)),
+    ];
+    const snapshots = await tx
+      .select({
+        awayPrice: oddsSnapshots.awayPrice,
+        capturedAt: oddsSnapshots.capturedAt,
+        eventId: bettingEvents.id,
+        eventStartTime: bettingEvents.startTime,
+        homePrice: oddsSnapshots.homePrice,
+        line: oddsSnapshots.line,
+        marketId: bettingMarkets.id,
+        marketStatus: bettingMarkets.status,
+        marketType: bettingMarkets.type,
+        nflPlayerId: bettingMarkets.nflPlayerId,
+        outcomePrice: oddsSnapshots.outcomePrice,
+        overPrice: oddsSnapshots.overPrice,
+        snapshotId: oddsSnapshots.id,
+        underPrice: oddsSnapshots.underPrice,
+      })
+      .from(oddsSnapshots)
+      .innerJoin(bettingMarkets, eq(bettingMarkets.id, oddsSnapshots.marketId))
+      .innerJoin(bettingEvents, eq(bettingEvents.id, bettingMarkets.eventId))
+      .where(inArray(oddsSnapshots.id, snapshotIds));
+    const snapshotById = new Map(snapshots.map((row) => [row.snapshotId, row]));
+    const latestQuotes = await tx
+      .selectDistinctOn([oddsSnapshots.marketId], {
+        capturedAt: oddsSnapshots.capturedAt,
+        marketId: oddsSnapshots.marketId,
+      })
+      .from(oddsSnapshots)
+      .where(
+        inArray(
+          oddsSnapshots.marketId,
+          snapshots.map((row) => row.marketId),
+        ),
+      )
+      .orderBy(oddsSnapshots.marketId, desc(oddsSnapshots.capturedAt));
+    const latestQuoteByMarket = new Map(
+      latestQuotes.map((row) => [row.marketId, row.capturedAt]),
+    );
+    const rostered = snapshots.some((row) => row.marketType === "player_prop")
+      ? await loadRosteredNflPlayers(tx, input.leagueId)
+      : null;
+
+    const legs = input.legs.map((leg) => {
+      const snapshot = snapshotById.get(leg.oddsSnapshotId);
+      if (!snapshot) {
+        throw appError(
+          "BANKROLL_SNAPSHOT_NOT_FOUND",
+          "Odds snapshot was not found",
+          404,
+        );
+      }
+      if (snapshot.marketStatus !== "open") {
+        throw appError(
+          "BANKROLL_MARKET_CLOSED",
+          "Selected market is not open",
+          409,
+        );
+      }
+      if (now >= snapshot.eventStartTime) {
+        throw appError(
+          "BANKROLL_EVENT_STARTED",
+          "This event has already started",
+          409,
+        );
+      }
+      // The week's slate is every game kicking off inside its window, the
+      // same line the side pools draw.
+      if (
+        snapshot.eventStartTime < week.opensAt ||
+        snapshot.eventStartTime >= week.closesAt
+      ) {
+        throw appError(
+          "BANKROLL_EVENT_NOT_IN_WEEK",
+          "That game is not on this week's slate",
+          400,
+        );
+      }
+      const latestCapturedAt = latestQuoteByMarket.get(snapshot.marketId);
+      if (latestCapturedAt && snapshot.capturedAt < latestCapturedAt) {
+        throw appError(
+          "BANKROLL_PRICE_MOVED",
+          "The odds have moved since this slip was built. Review the new price and submit again.",
+          409,
+        );
+      }
+      // Props are held to the Pick 'em desk's line: only players rostered in
+      // this league.
+      if (
+        snapshot.marketType === "player_prop" &&
+        (!snapshot.nflPlayerId || !rostered?.has(snapshot.nflPlayerId))
+      ) {
+        throw appError(
+          "BANKROLL_PROP_NOT_ROSTERED",
+          "Props are only offered on players rostered in this league",
+          409,
+        );
+      }
+      const price = priceForSelection(snapshot, leg.selection);
+      if (price === null) {
+        throw appError(
+          "BANKROLL_SELECTION_UNPRICED",
+          "That side has no posted price",
+          409,
+        );
+      }
+      return { ...leg, price, snapshot };
+    });
+
+    // One leg per game. Two legs on the same event are correlated — a
+    // favourite covering and the over hitting move together — and pricing
+    // them as independent would overpay every same-game parlay.
+    const eventIds = new Set(legs.map((leg) => leg.snapshot.eventId));
+    if (eventIds.size !== legs.length) {
+      throw appError(
+        "BANKROLL_CORRELATED_LEGS",
+        "A parlay can include only one leg per game",
+        400,
+      );
+    }
+
+    const lockedPrice = parlayPrice(legs.map((leg) => leg.price));
+    if (lockedPrice === null) {
+      throw appError(
+        "BANKROLL_SELECTION_UNPRICED",
+        "That slip has a leg with no valid price",
+        409,
+      );
+    }
+
+    const [inserted] = await tx
+      .insert(bankrollSlips)
+      .values({
+        idempotencyKey,
+        leagueId: input.leagueId,
+        lockedPrice,
+        pickWeekId: input.pickWeekId,
+        placedAt: now,
+        stake,
+        status: "pending",
+        userId: input.userId,
+      })
+      .onConflictDoNothing({
+        target: [
+          bankrollSlips.leagueId,
+          bankrollSlips.userId,
+          bankrollSlips.idempotencyKey,
+        ],
+      })
+      .returning({ id: bankrollSlips.id });
+
+    if (!inserted) {
+      // Lost an insert race against a concurrent replay of the same key.
+      const raced = await loadExistingSlip(tx, {
+        idempotencyKey,
+        leagueId: input.leagueId,
+        userId: input.userId,
+      });
+      if (!raced) {
+        throw appError(
+          "BANKROLL_INSERT_FAILED",
+          "Slip could not be inserted or reloaded",
+          500,
+        );
+      }
+      return {
+        deduplicated: true,
+        lockedPrice: raced.lockedPrice,
+        potentialPayout: potentialPayout(raced.stake, raced.legPrices),
+        remainingAllowance: remaining,
+        slipId: raced.id,
+      };
+    }
+
+    await tx.insert(bankrollSlipLegs).values(
+      legs.map((leg) => ({
+        leagueId: input.leagueId,
+        lockedLine: leg.snapshot.line,
+        lockedPrice: leg.price,
+        marketId: leg.snapshot.marketId,
+        oddsSnapshotId: leg.snapshot.snapshotId,
+        selection: leg.selection,
+        slipId: inserted.id,
+      })),
+    );
+
+    return {
+      deduplicated: false,
+      lockedPrice,
+      potentialPayout: potentialPayout(
+        stake,
+        legs.map((leg) => leg.price),
+      ),
+      remainingAllowance: toStoredUnits(remaining - stake),
+      slipId: inserted.id,
+    };
+  });
+}
+
+export interface SettleBankrollSlipsForEventResult {
+  readonly affectedLeagueIds: readonly string[];
+  readonly gradedLegs: number;
+  readonly settledSlips: number;
+}
+
+/**
+ * Grades pending legs on a finished event and settles every slip those legs
+ * belong to.
+ *
+ * Follows `gradePicksForEvent`: a narrow central read for the league ids, then
+ * each league's writes under its own RLS context, and only `pending` rows are
+ * ever touched so a retried job cannot regrade a settled slip.
+ */
+export async function settleBankrollSlipsForEvent(
+  db: Db,
+  input: {
+    readonly bettingEventId: string;
+    readonly gradedAt?: Date;
+    readonly result: EventResult;
+  },
+): Promise<SettleBankrollSlipsForEventResult> {
+  const gradedAt = input.gradedAt ?? new Date();
+  const leagueRows = await db
+    .selectDistinct({ leagueId: bankrollSlipLegs.leagueId })
+    .from(bankrollSlipLegs)
+    .innerJoin(bettingMarkets, eq(bettingMarkets.id, bankrollSlipLegs.marketId))
+    .where(
+      and(
+        eq(bettingMarkets.eventId, input.bettingEventId),
+        eq(bankrollSlipLegs.status, "pending"),
+      ),
+    );
+
+  let gradedLegs = 0;
+  let settledSlips = 0;
+  const affectedLeagueIds: string[] = [];
+
+  for (const { leagueId } of leagueRows) {
+    const settled = await withLeagueContext(db, leagueId, async (tx) => {
+      const pending = await tx
+        .select({
+          legId: bankrollSlipLegs.id,
+          lockedLine: bankrollSlipLegs.lockedLine,
+          marketSubject: bettingMarkets.subject,
+          marketType: bettingMarkets.type,
+          propType: bettingMarkets.propType,
+          selection: bankrollSlipLegs.selection,
+          slipId: bankrollSlipLegs.slipId,
+        })
+        .from(bankrollSlipLegs)
+        .innerJoin(
+          bettingMarkets,
+          eq(bettingMarkets.id, bankrollSlipLegs.marketId),
+        )
+        .where(
+          and(
+            eq(bankrollSlipLegs.leagueId, leagueId),
+            eq(bettingMarkets.eventId, input.bettingEventId),
+            eq(bankrollSlipLegs.status, "pending"),
+          ),
+        );
+
+      let legs = 0;
+      const touchedSlipIds = new Set<string>();
+      for (const row of pending) {
+        const outcome = gradeSelection(
+          {
+            lockedLine: row.lockedLine,
+            marketSubject: row.marketSubject,
+            marketType: row.marketType,
+            propType: row.propType,
+            selection: row.selection,
+          },
+          input.result,
+        );
+        // Undecidable for now; a later, more complete result settles it.
+        if (!outcome) continue;
+
+        await tx
+          .update(bankrollSlipLegs)
+          .set({
+            gradedAt,
+            resultDetail: { detail: outcome.detail },
+            status: outcome.status,
+            updatedAt: gradedAt,
+          })
+          .where(
+            and(
+              eq(bankrollSlipLegs.id, row.legId),
+              eq(bankrollSlipLegs.status, "pending"),
+            ),
+          );
+        legs += 1;
+        touchedSlipIds.add(row.slipId);
+      }
+
+      if (touchedSlipIds.size === 0) {
+        return { legs, slips: 0 };
+      }
+
+      const slipIds = [...touchedSlipIds];
+      const [slipRows, legRows] = await Promise.all([
+        tx
+          .select({ id: bankrollSlips.id, stake: bankrollSlips.stake })
+          .from(bankrollSlips)
+          .where(
+            and(
+              eq(bankrollSlips.leagueId, leagueId),
+              inArray(bankrollSlips.id, slipIds),
+              eq(bankrollSlips.status, "pending"),
+            ),
+          ),
+        tx
+          .select({
+            price: bankrollSlipLegs.lockedPrice,
+            slipId: bankrollSlipLegs.slipId,
+            status: bankrollSlipLegs.status,
+          })
+          .from(bankrollSlipLegs)
+          .where(
+            and(
+              eq(bankrollSlipLegs.leagueId, leagueId),
+              inArray(bankrollSlipLegs.slipId, slipIds),
+            ),
+          ),
+      ]);
+
+      const legsBySlip = new Map<
+        string,
+        { price: number; status: BankrollOutcome }[]
+      >();
+      for (const leg of legRows) {
+        const list = legsBySlip.get(leg.slipId) ?? [];
+        list.push({ price: leg.price, status: leg.status });
+        legsBySlip.set(leg.slipId, list);
+      }
+
+      let slips = 0;
+      for (const slip of slipRows) {
+        const settlement = settleBankrollSlip({
+          legs: legsBySlip.get(slip.id) ?? [],
+          stake: slip.stake,
+        });
+        if (settlement.status === "pending") continue;
+        await tx
+          .update(bankrollSlips)
+          .set({
+            payout: settlement.payout,
+            settledAt: gradedAt,
+            status: settlement.status,
+            updatedAt: gradedAt,
+          })
+          .where(
+            and(
+              eq(bankrollSlips.id, slip.id),
+              eq(bankrollSlips.status, "pending"),
+            ),
+          );
+        slips += 1;
+      }
+      return { legs, slips };
+    });
+
+    gradedLegs += settled.legs;
+    settledSlips += settled.slips;
+    if (settled.slips > 0) {
+      affectedLeagueIds.push(leagueId);
+    }
+  }
+
+  return { affectedLeagueIds, gradedLegs, settledSlips };
+}
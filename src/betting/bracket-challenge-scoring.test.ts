@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPlayoffBracket,
+  type PlayoffBracketMatchupInput,
+} from "@/stats/playoff-bracket";
+import {
+  bracketChallengeGames,
+  bracketPicksProblem,
+  rankBracketEntries,
+  scoreBracketEntry,
+} from "./bracket-challenge-scoring";
+
+function winnersGames(
+  playoffTeamCount: number,
+  matchups: PlayoffBracketMatchupInput[] = [],
+) {
+  const bracket = buildPlayoffBracket({
+    matchups,
+    regularSeasonComplete: true,
+    rules: {
+      divisionWinnersSeeded: false,
+      playoffMatchupPeriodLength: 1,
+      playoffStartScoringPeriod: 15,
+      playoffTeamCount,
+    },
+    teams: Array.from({ length: 6 }, (_, index) => ({
+      division: null,
+      losses: index,
+      name: `Team ${index + 1}`,
+      pointsFor: 1_000 - index,
+      providerTeamId: `t${index + 1}`,
+      ties: 0,
+      wins: 10 - index,
+    })),
+  });
+  return bracket.sections[0]?.rounds.flatMap((round) => round.games) ?? [];
+}
+
+function final(
+  scoringPeriod: number,
+  winner: string,
+  loser: string,
+): PlayoffBracketMatchupInput {
+  return {
+    awayScore: 90,
+    awayTeamProviderId: loser,
+    homeScore: 110,
+    homeTeamProviderId: winner,
+    scoringPeriod,
+    scoringPeriodSpan: 1,
+    status: "final",
+    winner: "home",
+  };
+}
+
+describe("bracket challenge scoring", () => {
+  it("leaves byes out of the games to pick", () => {
+    const games = bracketChallengeGames(winnersGames(6));
+
+    expect(games.map((game) => game.id)).toEqual([
+      "winners-1-1",
+      "winners-1-3",
+      "winners-2-0",
+      "winners-2-1",
+      "winners-3-0",
+    ]);
+  });
+
+  it("accepts a bracket built from its own winners and the byes", () => {
+    const games = winnersGames(6);
+
+    expect(
+      bracketPicksProblem(games, [
+        { gameId: "winners-1-1", providerTeamId: "t5" },
+        { gameId: "winners-2-0", providerTeamId: "t5" },
+        { gameId: "winners-2-1", providerTeamId: "t2" },
+        { gameId: "winners-3-0", providerTeamId: "t2" },
+      ]),
+    ).toBeNull();
+  });
+
+  it("refuses picks that could not reach their game", () => {
+    const games = winnersGames(6);
+
+    expect(
+      bracketPicksProblem(games, [
+        { gameId: "winners-1-1", providerTeamId: "t1" },
+      ]),
+    ).toMatch(/first-round/);
+    // t4 was not this entry's winner of the game that feeds the semifinal.
+    expect(
+      bracketPicksProblem(games, [
+        { gameId: "winners-1-1", providerTeamId: "t5" },
+        { gameId: "winners-2-0", providerTeamId: "t4" },
+      ]),
+    ).toMatch(/round before/);
+    expect(
+      bracketPicksProblem(games, [
+        { gameId: "winners-1-0", providerTeamId: "t1" },
+      ]),
+    ).toMatch(/not in the championship bracket/);
+    expect(
+      bracketPicksProblem(games, [
+        { gameId: "winners-1-1", providerTeamId: "t4" },
+        { gameId: "winners-1-1", providerTeamId: "t5" },
+      ]),
+    ).toMatch(/once/);
+  });
+
+  it("counts unpicked games as wrong and knocked-out picks as dead", () => {
+    const games = winnersGames(4, [
+      final(15, "t1", "t4"),
+      final(15, "t3", "t2"),
+    ]);
+
+    const score = scoreBracketEntry(games, [
+      { gameId: "winners-1-0", providerTeamId: "t1" },
+      { gameId: "winners-1-1", providerTeamId: "t2" },
+      // t2 is out, so this pick can no longer land.
+      { gameId: "winners-2-0", providerTeamId: "t2" },
+    ]);
+
+    expect(score).toEqual({
+      accuracy: 1 / 3,
+      correctPicks: 1,
+      livePicks: 0,
+      maxAccuracy: 1 / 3,
+      potentialPicks: 3,
+      submittedPicks: 3,
+    });
+    expect(
+      scoreBracketEntry(games, [
+        { gameId: "winners-1-0", providerTeamId: "t1" },
+        { gameId: "winners-2-0", providerTeamId: "t1" },
+      ]),
+    ).toMatchObject({ accuracy: 1 / 3, livePicks: 1, maxAccuracy: 2 / 3 });
+  });
+
+  it("ranks on accuracy, then on what is still reachable, sharing ties", () => {
+    const ranked = rankBracketEntries([
+      { accuracy: 1 / 3, id: "dead", maxAccuracy: 1 / 3 },
+      { accuracy: 2 / 3, id: "leader", maxAccuracy: 2 / 3 },
+      { accuracy: 1 / 3, id: "alive", maxAccuracy: 2 / 3 },
+      { accuracy: 1 / 3, id: "alive-too", maxAccuracy: 2 / 3 },
+    ]);
+
+    expect(ranked.map((entry) => [entry.id, entry.rank])).toEqual([
+      ["leader", 1],
+      ["alive", 2],
+      ["alive-too", 2],
+      ["dead", 4],
+    ]);
+  });
+});
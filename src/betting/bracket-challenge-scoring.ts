@@ -0,0 +1,185 @@
+import type { PlayoffBracketGame } from "@/stats";
+import { scorePickWeek, toStoredAccuracy } from "./pickem-scoring";
+
+/**
+ * Bracket challenge scoring.
+ *
+ * Before the playoffs start a member picks the winner of every championship
+ * bracket game, later rounds from their own earlier picks. The entry is
+ * scored by `scorePickWeek` as a one-member week with one pick per game, so
+ * the denominator is every game the bracket plays: a game left unpicked
+ * counts as a wrong pick, exactly as it does in Pick 'em. Byes are not games.
+ * Nothing is void, because the bracket breaks its own ties.
+ *
+ * Pure, like `pickem-scoring`, so the bracket rules can be pinned without a
+ * database.
+ */
+
+export interface BracketChallengePick {
+  readonly gameId: string;
+  readonly providerTeamId: string;
+}
+
+export interface BracketEntryScore {
+  /** correct ÷ every game, in [0,1]. */
+  readonly accuracy: number;
+  readonly correctPicks: number;
+  /** Picks on unfinished games whose team has not been knocked out. */
+  readonly livePicks: number;
+  /** The best accuracy still reachable if every live pick lands. */
+  readonly maxAccuracy: number;
+  readonly potentialPicks: number;
+  readonly submittedPicks: number;
+}
+
+type ChallengeGame = Pick<
+  PlayoffBracketGame,
+  "bottom" | "id" | "round" | "slot" | "status" | "top" | "winnerProviderTeamId"
+>;
+
+/** The games a member picks: every championship-bracket game but the byes. */
+export function bracketChallengeGames<T extends ChallengeGame>(
+  winnersGames: readonly T[],
+): T[] {
+  return winnersGames.filter((game) => game.status !== "bye");
+}
+
+/**
+ * Checks a whole entry against the bracket. Returns a reason when it breaks
+ * the rules, null when it holds. Every pick must name a game once, and the
+ * team must be able to reach that game: a first-round entrant, or the
+ * entry's own pick (or the bye) in one of the two games that feed it. An
+ * entry may leave games unpicked; they score as wrong.
+ */
+export function bracketPicksProblem(
+  winnersGames: readonly ChallengeGame[],
+  picks: readonly BracketChallengePick[],
+): string | null {
+  const gamesById = new Map(winnersGames.map((game) => [game.id, game]));
+  const byPosition = new Map(
+    winnersGames.map((game) => [`${game.round}:${game.slot}`, game]),
+  );
+  const pickByGame = new Map<string, string>();
+  for (const pick of picks) {
+    const game = gamesById.get(pick.gameId);
+    if (!game || game.status === "bye") {
+      return "That game is not in the championship bracket";
+    }
+    if (pickByGame.has(pick.gameId)) {
+      return "Each game can be picked once";
+    }
+    pickByGame.set(pick.gameId, pick.providerTeamId);
+  }
+
+  const advancing = (game: ChallengeGame | undefined) =>
+    game?.status === "bye"
+      ? (game.winnerProviderTeamId ?? null)
+      : game
+        ? (pickByGame.get(game.id) ?? null)
+        : null;
+  for (const pick of picks) {
+    const game = gamesById.get(pick.gameId);
+    if (!game) {
+      continue;
+    }
+    const reachable =
+      game.round === 1
+        ? [game.top?.providerTeamId, game.bottom?.providerTeamId]
+        : [
+            advancing(byPosition.get(`${game.round - 1}:${game.slot * 2}`)),
+            advancing(byPosition.get(`${game.round - 1}:${game.slot * 2 + 1}`)),
+          ];
+    if (!reachable.includes(pick.providerTeamId)) {
+      return game.round === 1
+        ? "Pick one of the two teams in each first-round game"
+        : "A later-round pick has to be one of your winners from the round before";
+    }
+  }
+  return null;
+}
+
+export function scoreBracketEntry(
+  winnersGames: readonly ChallengeGame[],
+  picks: readonly BracketChallengePick[],
+): BracketEntryScore {
+  const games = bracketChallengeGames(winnersGames);
+  const pickByGame = new Map(
+    picks.map((pick) => [pick.gameId, pick.providerTeamId]),
+  );
+  const knockedOut = new Set<string>();
+  for (const game of games) {
+    if (game.status === "final" && game.top && game.bottom) {
+      knockedOut.add(
+        game.winnerProviderTeamId === game.top.providerTeamId
+          ? game.bottom.providerTeamId
+          : game.top.providerTeamId,
+      );
+    }
+  }
+
+  let correctPicks = 0;
+  let livePicks = 0;
+  let submittedPicks = 0;
+  for (const game of games) {
+    const picked = pickByGame.get(game.id);
+    if (picked === undefined) {
+      continue;
+    }
+    submittedPicks += 1;
+    if (game.status === "final") {
+      correctPicks += picked === game.winnerProviderTeamId ? 1 : 0;
+    } else if (!knockedOut.has(picked)) {
+      livePicks += 1;
+    }
+  }
+
+  const week = {
+    maxPicksPerUser: games.length,
+    rosterSize: 1,
+    submittedPicks,
+    voidPicks: 0,
+  };
+  return {
+    accuracy: scorePickWeek({ ...week, correctPicks }).accuracy,
+    correctPicks,
+    livePicks,
+    maxAccuracy: scorePickWeek({
+      ...week,
+      correctPicks: correctPicks + livePicks,
+    }).accuracy,
+    potentialPicks: games.length,
+    submittedPicks,
+  };
+}
+
+/**
+ * Orders entries by accuracy, best first, at the precision the leaderboards
+ * store. The best accuracy still reachable breaks a tie; entries level on
+ * both share a rank.
+ */
+export function rankBracketEntries<
+  T extends Pick<BracketEntryScore, "accuracy" | "maxAccuracy">,
+>(entries: readonly T[]): (T & { readonly rank: number })[] {
+  const key = (entry: T) =>
+    [
+      toStoredAccuracy(entry.accuracy),
+      toStoredAccuracy(entry.maxAccuracy),
+    ] as const;
+  const sorted = [...entries].sort((left, right) => {
+    const [leftAccuracy, leftMax] = key(left);
+    const [rightAccuracy, rightMax] = key(right);
+    return rightAccuracy - leftAccuracy || rightMax - leftMax;
+  });
+  let rank = 0;
+  return sorted.map((entry, index) => {
+    const previous = sorted[index - 1];
+    if (
+      !previous ||
+      key(previous)[0] !== key(entry)[0] ||
+      key(previous)[1] !== key(entry)[1]
+    ) {
+      rank = index + 1;
+    }
+    return { ...entry, rank };
+  });
+}
@@ -0,0 +1,214 @@
+import { and, eq } from "drizzle-orm";
+import { AppError } from "@/core/result";
+import type { Db, LeagueScopedTx } from "@/db";
+import { withLeagueContext } from "@/db/rls";
+import { bracketChallengePicks, leagues, users } from "@/db/schema";
+import {
+  loadPlayoffBracket,
+  type PlayoffBracketGame,
+  type PlayoffBracketView,
+} from "@/stats";
+import {
+  type BracketChallengePick,
+  type BracketEntryScore,
+  bracketPicksProblem,
+  rankBracketEntries,
+  scoreBracketEntry,
+} from "./bracket-challenge-scoring";
+
+/**
+ * Bracket challenge read and write paths. The rules live in
+ * `bracket-challenge-scoring`; this module holds them against the database
+ * and the live bracket from `loadPlayoffBracket`.
+ *
+ * Entries open once the regular season is final and the seeds are set, and
+ * close when the first playoff game kicks off.
+ */
+
+export interface SubmitBracketPicksInput {
+  readonly leagueId: string;
+  readonly userId: string;
+  readonly picks: readonly BracketChallengePick[];
+}
+
+export interface SubmitBracketPicksResult {
+  readonly season: number;
+  readonly savedPicks: number;
+}
+
+export interface BracketChallengeStandingRow extends BracketEntryScore {
+  readonly displayName: string;
+  readonly rank: number;
+  readonly userId: string;
+}
+
+export interface BracketChallengeData {
+  readonly open: boolean;
+  readonly standings: readonly BracketChallengeStandingRow[];
+  readonly you: {
+    readonly picks: readonly BracketChallengePick[];
+    readonly score: BracketEntryScore;
+  };
+}
+
+function bracketChallengeError(
+  code: string,
+  message: string,
+  status: number,
+): AppError {
+  return new AppError({ code, message, status });
+}
+
+function gameId(row: { round: number; slot: number }): string {
+  return `winners-${row.round}-${row.slot}`;
+}
+
+function winnersBracketGames(
+  bracket: PlayoffBracketView,
+): PlayoffBracketGame[] {
+  return (
+    bracket.sections
+      .find((section) => section.kind === "winners")
+      ?.rounds.flatMap((round) => round.games) ?? []
+  );
+}
+
+/**
+ * Saves a member's whole bracket, replacing any earlier entry. The entry is
+ * checked as a whole, so a changed early pick cannot strand a later one.
+ */
+export async function submitBracketChallengePicks(
+  db: Db,
+  input: SubmitBracketPicksInput,
+): Promise<SubmitBracketPicksResult> {
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const [league] = await tx
+      .select({ season: leagues.season })
+      .from(leagues)
+      .where(eq(leagues.id, input.leagueId))
+      .limit(1);
+    if (!league) {
+      throw bracketChallengeError(
+        "LEAGUE_NOT_FOUND",
+        "League was not found",
+        404,
+      );
+    }
+
+    const bracket = await loadPlayoffBracket(tx, {
+      leagueId: input.leagueId,
+      season: league.season,
+    });
+    if (!bracket) {
+      throw bracketChallengeError(
+        "BRACKET_UNAVAILABLE",
+        "This league has no playoff schedule yet",
+        409,
+      );
+    }
+    if (bracket.status === "projected") {
+      throw bracketChallengeError(
+        "BRACKET_CHALLENGE_NOT_OPEN",
+        "Brackets open once the regular season ends and the seeds are set",
+        409,
+      );
+    }
+    if (bracket.status !== "seeded") {
+      throw bracketChallengeError(
+        "BRACKET_CHALLENGE_LOCKED",
+        "The playoffs have started, so brackets are locked",
+        409,
+      );
+    }
+
+    const games = winnersBracketGames(bracket);
+    const problem = bracketPicksProblem(games, input.picks);
+    if (problem) {
+      throw bracketChallengeError("INVALID_BRACKET_PICKS", problem, 400);
+    }
+    const positions = new Map(games.map((game) => [game.id, game]));
+
+    await tx
+      .delete(bracketChallengePicks)
+      .where(
+        and(
+          eq(bracketChallengePicks.leagueId, input.leagueId),
+          eq(bracketChallengePicks.season, league.season),
+          eq(bracketChallengePicks.userId, input.userId),
+        ),
+      );
+    if (input.picks.length > 0) {
+      await tx.insert(bracketChallengePicks).values(
+        input.picks.map((pick) => {
+          const game = positions.get(pick.gameId);
+          return {
+            leagueId: input.leagueId,
+            providerTeamId: pick.providerTeamId,
+            round: game?.round ?? 1,
+            season: league.season,
+            slot: game?.slot ?? 0,
+            userId: input.userId,
+          };
+        }),
+      );
+    }
+
+    return { savedPicks: input.picks.length, season: league.season };
+  });
+}
+
+/**
+ * Standings for the season's challenge, plus the asking member's own entry.
+ * The standings carry totals only: a member's picks stay their own.
+ */
+export async function loadBracketChallenge(
+  tx: LeagueScopedTx,
+  input: { bracket: PlayoffBracketView; leagueId: string; userId: string },
+): Promise<BracketChallengeData> {
+  const rows = await tx
+    .select({
+      displayName: users.displayName,
+      email: users.email,
+      providerTeamId: bracketChallengePicks.providerTeamId,
+      round: bracketChallengePicks.round,
+      slot: bracketChallengePicks.slot,
+      userId: bracketChallengePicks.userId,
+    })
+    .from(bracketChallengePicks)
+    .leftJoin(users, eq(users.id, bracketChallengePicks.userId))
+    .where(
+      and(
+        eq(bracketChallengePicks.leagueId, input.leagueId),
+        eq(bracketChallengePicks.season, input.bracket.season),
+      ),
+    );
+
+  const byUser = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const bucket = byUser.get(row.userId) ?? [];
+    bucket.push(row);
+    byUser.set(row.userId, bucket);
+  }
+  const games = winnersBracketGames(input.bracket);
+  const picksOf = (entry: typeof rows): BracketChallengePick[] =>
+    entry.map((row) => ({
+      gameId: gameId(row),
+      providerTeamId: row.providerTeamId,
+    }));
+
+  const standings = rankBracketEntries(
+    [...byUser].map(([userId, entry]) => ({
+      ...scoreBracketEntry(games, picksOf(entry)),
+      displayName:
+        entry[0]?.displayName ?? entry[0]?.email ?? "A league member",
+      userId,
+    })),
+  );
+  const yours = picksOf(byUser.get(input.userId) ?? []);
+
+  return {
+    open: input.bracket.status === "seeded",
+    standings,
+    you: { picks: yours, score: scoreBracketEntry(games, yours) },
+  };
+}
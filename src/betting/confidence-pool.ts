@@ -0,0 +1,255 @@
+import { and, eq, inArray } from "drizzle-orm";
+import type { Db, LeagueScopedTx } from "@/db";
+import { withLeagueContext } from "@/db/rls";
+import { sidePoolPicks, users } from "@/db/schema";
+import {
+  type ConfidenceWeekScore,
+  confidenceRankProblem,
+  rankConfidenceEntries,
+  scoreConfidenceWeek,
+} from "./confidence-scoring";
+import {
+  loadOpenPoolWeek,
+  loadPoolWeekGames,
+  loadSidePoolForMode,
+  selectedTeam,
+  sidePoolError,
+} from "./side-pools";
+
+/**
+ * Confidence pool read and write paths. The rank rules and the arithmetic
+ * live in `confidence-scoring`; this module holds them against the database.
+ */
+
+export interface ConfidencePickInput {
+  readonly bettingEventId: string;
+  readonly selection: "home" | "away";
+  readonly confidence: number;
+}
+
+export interface SubmitConfidencePicksInput {
+  readonly leagueId: string;
+  readonly poolId: string;
+  readonly userId: string;
+  readonly pickWeekId: string;
+  readonly picks: readonly ConfidencePickInput[];
+  readonly now?: Date;
+}
+
+export interface SubmitConfidencePicksResult {
+  readonly saved: number;
+  readonly gameCount: number;
+}
+
+/**
+ * Saves a member's ranking for the week.
+ *
+ * The ranking is submitted whole: every game that has not kicked off must be
+ * in it. Games already underway keep the rank they were given, and their
+ * ranks stay spent, so re-ranking can only shuffle what is still open. A game
+ * that kicked off before the member ranked it scores nothing, and its rank
+ * goes unused.
+ */
+export async function submitConfidencePicks(
+  db: Db,
+  input: SubmitConfidencePicksInput,
+): Promise<SubmitConfidencePicksResult> {
+  const now = input.now ?? new Date();
+
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    await loadSidePoolForMode(tx, {
+      leagueId: input.leagueId,
+      mode: "confidence",
+      poolId: input.poolId,
+    });
+    const week = await loadOpenPoolWeek(tx, {
+      leagueId: input.leagueId,
+      now,
+      pickWeekId: input.pickWeekId,
+    });
+    const games = await loadPoolWeekGames(tx, week);
+    if (games.length === 0) {
+      throw sidePoolError(
+        "SIDE_POOL_NO_GAMES",
+        "This week has no games to rank yet",
+        409,
+      );
+    }
+
+    const gamesById = new Map(games.map((game) => [game.eventId, game]));
+    const openIds = new Set(
+      games.filter((game) => now < game.startTime).map((game) => game.eventId),
+    );
+    const seen = new Set<string>();
+    for (const pick of input.picks) {
+      if (seen.has(pick.bettingEventId)) {
+        throw sidePoolError(
+          "SIDE_POOL_DUPLICATE_GAME",
+          "Each game can be ranked only once",
+          400,
+        );
+      }
+      seen.add(pick.bettingEventId);
+      if (!gamesById.has(pick.bettingEventId)) {
+        throw sidePoolError(
+          "SIDE_POOL_EVENT_NOT_IN_WEEK",
+          "That game is not on this week's slate",
+          400,
+        );
+      }
+      if (!openIds.has(pick.bettingEventId)) {
+        throw sidePoolError(
+          "SIDE_POOL_PICK_LOCKED",
+          "A ranked game has already started",
+          409,
+        );
+      }
+    }
+    if ([...openIds].some((eventId) => !seen.has(eventId))) {
+      throw sidePoolError(
+        "SIDE_POOL_RANKING_INCOMPLETE",
+        "Rank every game that has not kicked off",
+        400,
+      );
+    }
+
+    const existing = await tx
+      .select({
+        bettingEventId: sidePoolPicks.bettingEventId,
+        confidence: sidePoolPicks.confidence,
+      })
+      .from(sidePoolPicks)
+      .where(
+        and(
+          eq(sidePoolPicks.poolId, input.poolId),
+          eq(sidePoolPicks.pickWeekId, week.id),
+          eq(sidePoolPicks.userId, input.userId),
+        ),
+      );
+    const lockedRanks = existing
+      .filter(
+        (row) =>
+          gamesById.has(row.bettingEventId) && !openIds.has(row.bettingEventId),
+      )
+      .flatMap((row) => row.confidence ?? []);
+    const problem = confidenceRankProblem(
+      [...lockedRanks, ...input.picks.map((pick) => pick.confidence)],
+      games.length,
+    );
+    if (problem) {
+      throw sidePoolError("SIDE_POOL_INVALID_RANKS", problem, 400);
+    }
+
+    if (openIds.size > 0) {
+      await tx
+        .delete(sidePoolPicks)
+        .where(
+          and(
+            eq(sidePoolPicks.poolId, input.poolId),
+            eq(sidePoolPicks.pickWeekId, week.id),
+            eq(sidePoolPicks.userId, input.userId),
+            inArray(sidePoolPicks.bettingEventId, [...openIds]),
+          ),
+        );
+    }
+    if (input.picks.length > 0) {
+      await tx.insert(sidePoolPicks).values(
+        input.picks.map((pick) => {
+          const game = gamesById.get(pick.bettingEventId);
+          return {
+            bettingEventId: pick.bettingEventId,
+            confidence: pick.confidence,
+            leagueId: input.leagueId,
+            pickWeekId: week.id,
+            poolId: input.poolId,
+            selection: pick.selection,
+            team: game ? selectedTeam(game, pick.selection) : "",
+            userId: input.userId,
+          };
+        }),
+      );
+    }
+
+    return { gameCount: games.length, saved: input.picks.length };
+  });
+}
+
+export interface ConfidenceStandingRow extends ConfidenceWeekScore {
+  readonly rank: number;
+  readonly userId: string;
+  readonly displayName: string;
+  /** Points scored in the open week so far. */
+  readonly weekPoints: number;
+}
+
+export interface ConfidenceMemberPick {
+  readonly eventId: string;
+  readonly selection: "home" | "away";
+  readonly confidence: number;
+  readonly status: string;
+}
+
+/**
+ * Season standings for a pool, plus the asking member's picks for the open
+ * week. Other members' ranks are never returned, only their totals.
+ */
+export async function loadConfidenceStandings(
+  tx: LeagueScopedTx,
+  input: { poolId: string; userId: string; pickWeekId: string | null },
+): Promise<{
+  standings: ConfidenceStandingRow[];
+  you: { weekPicks: ConfidenceMemberPick[] };
+}> {
+  const rows = await tx
+    .select({
+      confidence: sidePoolPicks.confidence,
+      displayName: users.displayName,
+      email: users.email,
+      eventId: sidePoolPicks.bettingEventId,
+      pickWeekId: sidePoolPicks.pickWeekId,
+      selection: sidePoolPicks.selection,
+      status: sidePoolPicks.status,
+      userId: sidePoolPicks.userId,
+    })
+    .from(sidePoolPicks)
+    .leftJoin(users, eq(users.id, sidePoolPicks.userId))
+    .where(eq(sidePoolPicks.poolId, input.poolId));
+
+  const byUser = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const bucket = byUser.get(row.userId) ?? [];
+    bucket.push(row);
+    byUser.set(row.userId, bucket);
+  }
+
+  const toRecord = (row: (typeof rows)[number]) => ({
+    confidence: row.confidence ?? 0,
+    status: row.status,
+  });
+  const standings = rankConfidenceEntries(
+    [...byUser].map(([userId, picks]) => ({
+      ...scoreConfidenceWeek(picks.map(toRecord)),
+      displayName:
+        picks[0]?.displayName ?? picks[0]?.email ?? "A league member",
+      userId,
+      weekPoints: scoreConfidenceWeek(
+        picks
+          .filter((row) => row.pickWeekId === input.pickWeekId)
+          .map(toRecord),
+      ).points,
+    })),
+  );
+
+  const weekPicks = (byUser.get(input.userId) ?? [])
+    .filter((row) => row.pickWeekId === input.pickWeekId)
+    .map((row) => ({
+      confidence: row.confidence ?? 0,
+      eventId: row.eventId,
+      selection:
+        row.selection === "away" ? ("away" as const) : ("home" as const),
+      status: row.status,
+    }))
+    .sort((left, right) => right.confidence - left.confidence);
+
+  return { standings, you: { weekPicks } };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  confidenceRankProblem,
+  rankConfidenceEntries,
+  scoreConfidenceWeek,
+} from "./confidence-scoring";
+
+describe("confidence scoring", () => {
+  it("accepts a full, distinct 1..N ranking", () => {
+    expect(confidenceRankProblem([3, 1, 2], 3)).toBeNull();
+    // Ranks left unused by games that kicked off unranked are allowed.
+    expect(confidenceRankProblem([3, 1], 3)).toBeNull();
+  });
+
+  it("names what is wrong with a broken ranking", () => {
+    expect(confidenceRankProblem([1, 2, 3, 4], 3)).toBe(
+      "Only 3 games can be ranked this week",
+    );
+    expect(confidenceRankProblem([0, 1], 3)).toBe(
+      "Confidence ranks run from 1 to 3",
+    );
+    expect(confidenceRankProblem([1.5], 3)).toBe(
+      "Confidence ranks run from 1 to 3",
+    );
+    expect(confidenceRankProblem([2, 2], 3)).toBe(
+      "Confidence rank 2 is used more than once",
+    );
+  });
+
+  it("scores correct picks at their rank and nothing else", () => {
+    expect(
+      scoreConfidenceWeek([
+        { confidence: 5, status: "correct" },
+        { confidence: 4, status: "incorrect" },
+        { confidence: 3, status: "void" },
+        { confidence: 2, status: "correct" },
+        { confidence: 1, status: "pending" },
+      ]),
+    ).toEqual({
+      correct: 2,
+      incorrect: 1,
+      pendingPoints: 1,
+      points: 7,
+      void: 1,
+    });
+  });
+
+  it("breaks a points tie on correct picks and shares a full tie", () => {
+    const ranked = rankConfidenceEntries([
+      { correct: 1, id: "one-big", points: 10 },
+      { correct: 3, id: "three-small", points: 10 },
+      { correct: 2, id: "leader", points: 12 },
+      { correct: 1, id: "one-big-twin", points: 10 },
+    ]);
+
+    expect(ranked.map((entry) => [entry.id, entry.rank])).toEqual([
+      ["leader", 1],
+      ["three-small", 2],
+      ["one-big", 3],
+      ["one-big-twin", 3],
+    ]);
+  });
+});
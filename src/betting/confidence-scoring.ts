@@ -0,0 +1,108 @@
+/**
+ * Confidence pool scoring.
+ *
+ * Each week a member ranks every game 1..N, N being the week's game count,
+ * and picks a winner in each. A correct pick scores its rank; a wrong one
+ * scores nothing. A void scores nothing and costs nothing: the game was tied
+ * or never played.
+ *
+ * Pure, like `pickem-scoring`, so the rank rules and the arithmetic can be
+ * pinned without a database.
+ */
+
+export type ConfidencePickStatus = "pending" | "correct" | "incorrect" | "void";
+
+export interface ConfidencePickRecord {
+  readonly confidence: number;
+  readonly status: ConfidencePickStatus;
+}
+
+export interface ConfidenceWeekScore {
+  readonly points: number;
+  readonly correct: number;
+  readonly incorrect: number;
+  readonly void: number;
+  /** Points still riding on ungraded games: the most the total can still grow. */
+  readonly pendingPoints: number;
+}
+
+/**
+ * Checks one week's ranks. Returns a reason when they break the rules, null
+ * when they hold. Ranks must be whole numbers from 1 to `gameCount`, and no
+ * rank may be used twice. A member may leave ranks unused only for games that
+ * kicked off before they ranked them; the caller enforces that part.
+ */
+export function confidenceRankProblem(
+  ranks: readonly number[],
+  gameCount: number,
+): string | null {
+  if (ranks.length > gameCount) {
+    return `Only ${gameCount} games can be ranked this week`;
+  }
+  const seen = new Set<number>();
+  for (const rank of ranks) {
+    if (!Number.isInteger(rank) || rank < 1 || rank > gameCount) {
+      return `Confidence ranks run from 1 to ${gameCount}`;
+    }
+    if (seen.has(rank)) {
+      return `Confidence rank ${rank} is used more than once`;
+    }
+    seen.add(rank);
+  }
+  return null;
+}
+
+export function scoreConfidenceWeek(
+  picks: readonly ConfidencePickRecord[],
+): ConfidenceWeekScore {
+  let points = 0;
+  let correct = 0;
+  let incorrect = 0;
+  let voided = 0;
+  let pendingPoints = 0;
+
+  for (const pick of picks) {
+    switch (pick.status) {
+      case "correct":
+        points += pick.confidence;
+        correct += 1;
+        break;
+      case "incorrect":
+        incorrect += 1;
+        break;
+      case "void":
+        voided += 1;
+        break;
+      case "pending":
+        pendingPoints += pick.confidence;
+        break;
+    }
+  }
+
+  return { correct, incorrect, pendingPoints, points, void: voided };
+}
+
+/**
+ * Orders entries by points, best first. Ties share a rank, then more correct
+ * picks breaks the tie: a member who won several small games outlasts one
+ * who won a single big one.
+ */
+export function rankConfidenceEntries<
+  T extends { readonly points: number; readonly correct: number },
+>(entries: readonly T[]): (T & { readonly rank: number })[] {
+  const sorted = [...entries].sort(
+    (left, right) => right.points - left.points || right.correct - left.correct,
+  );
+  let rank = 0;
+  return sorted.map((entry, index) => {
+    const previous = sorted[index - 1];
+    if (
+      !previous ||
+      previous.points !== entry.points ||
+      previous.correct !== entry.correct
+    ) {
+      rank = index + 1;
+    }
+    return { ...entry, rank };
+  });
+}
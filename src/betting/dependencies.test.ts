@@ -14,6 +14,7 @@ import {
 } from "./dependencies";
 import type { OddsProvider, ResultsProvider } from "./interfaces";
 import { MockOddsProvider, MockResultsProvider } from "./mocks";
+import { PlayerStatsResultsProvider } from "./player-stats-results";
 import { SportsDataIoResultsProvider, TheOddsApiProvider } from "./real";
 
 function fakeKey() {
@@ -170,7 +171,10 @@ describe("createResolveBettingEventDependencies", () => {
   it("keeps results mocked with zero paid configuration", () => {
     const deps = createResolveBettingEventDependencies({} as Db, parseEnv({}));
 
-    expect(deps.resultsProvider).toBeInstanceOf(MockResultsProvider);
+    expect(deps.resultsProvider).toBeInstanceOf(PlayerStatsResultsProvider);
+    expect(
+      (deps.resultsProvider as PlayerStatsResultsProvider).delegate,
+    ).toBeInstanceOf(MockResultsProvider);
   });
 
   it("selects SportsDataIO when its key is present", () => {
@@ -179,10 +183,12 @@ describe("createResolveBettingEventDependencies", () => {
       parseEnv({ SPORTSDATAIO_API_KEY: fakeKey() }),
     );
 
-    expect(deps.resultsProvider).toBeInstanceOf(GuardedResultsProvider);
-    expect(
-      (deps.resultsProvider as GuardedResultsProvider).real,
-    ).toBeInstanceOf(SportsDataIoResultsProvider);
+    const guarded = (deps.resultsProvider as PlayerStatsResultsProvider)
+      .delegate;
+    expect(guarded).toBeInstanceOf(GuardedResultsProvider);
+    expect((guarded as GuardedResultsProvider).real).toBeInstanceOf(
+      SportsDataIoResultsProvider,
+    );
   });
 
   it("keeps SportsDataIO mocked when forced even if its key is present", () => {
@@ -194,7 +200,9 @@ describe("createResolveBettingEventDependencies", () => {
       }),
     );
 
-    expect(deps.resultsProvider).toBeInstanceOf(MockResultsProvider);
+    expect(
+      (deps.resultsProvider as PlayerStatsResultsProvider).delegate,
+    ).toBeInstanceOf(MockResultsProvider);
   });
 
   it("falls back to mock results after an unavailable SportsDataIO response", async () => {
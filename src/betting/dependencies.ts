@@ -22,6 +22,8 @@ import type {
   ResultsProviderInput,
 } from "./interfaces";
 import { MockOddsProvider, MockResultsProvider } from "./mocks";
+import { PLAYER_PROP_TYPES } from "./player-props";
+import { PlayerStatsResultsProvider } from "./player-stats-results";
 import {
   ODDS_CREDITS_PER_LIST_CALL,
   SportsDataIoResultsProvider,
@@ -39,9 +41,15 @@ function isBettingProviderUnavailableError(error: unknown): boolean {
   );
 }
 
+function meteredCredits(provider: OddsProvider): number | null {
+  const credits = (provider as { creditsUsed?: unknown }).creditsUsed;
+  return typeof credits === "number" ? credits : null;
+}
+
 export class GuardedOddsProvider implements OddsProvider {
   private delegate: OddsProvider | null = null;
   private demotedDelegate = false;
+  private recordedCredits = 0;
   private recordedRealUsage = false;
 
   constructor(
@@ -123,20 +131,29 @@ export class GuardedOddsProvider implements OddsProvider {
    * guard under-protected threefold: a cap reading "250" was really 750
    * credits of exposure, and the gap widens with every market added.
    *
-   * Recording once per instance is deliberate and stays: `TheOddsApiProvider`
-   * memoizes `fetchOdds` per sport, and there is exactly one sport, so one
-   * instance makes at most one real HTTP request. If a second sport is ever
-   * added that stops being true and this must move to per-fetch accounting.
+   * A provider that meters its own credits (`creditsUsed`) is charged the
+   * growth since the last call, because per-event prop requests make one
+   * instance issue many fetches. One that does not is charged one featured
+   * list call, once: `fetchOdds` is memoized per sport and there is one sport.
    */
   private async recordRealUsage(operation: string): Promise<void> {
-    if (this.recordedRealUsage) {
-      return;
+    const metered = meteredCredits(this.real);
+    let units: number;
+    if (metered === null) {
+      if (this.recordedRealUsage) {
+        return;
+      }
+      this.recordedRealUsage = true;
+      units = ODDS_CREDITS_PER_LIST_CALL;
+    } else {
+      units = metered - this.recordedCredits;
+      if (units <= 0) {
+        return;
+      }
+      this.recordedCredits = metered;
     }
 
-    this.recordedRealUsage = true;
-    const record = await this.guard.record("odds", {
-      units: ODDS_CREDITS_PER_LIST_CALL,
-    });
+    const record = await this.guard.record("odds", { units });
     logProviderUsage({
       cap: record.cap,
       capReached: record.breached,
@@ -234,7 +251,12 @@ export function createOddsDependencies(
     provider: env.services.odds.mock
       ? mockProvider
       : new GuardedOddsProvider(
-          new TheOddsApiProvider({ apiKey: env.services.odds.apiKey }),
+          // Props bill per event; the guard meters every fetch, so the cap
+          // demotes to mock odds before props can overrun it.
+          new TheOddsApiProvider({
+            apiKey: env.services.odds.apiKey,
+            playerProps: PLAYER_PROP_TYPES,
+          }),
           mockProvider,
           spendGuard,
         ),
@@ -249,16 +271,20 @@ export function createResolveBettingEventDependencies(
   const spendGuard = options.spendGuard ?? createSpendGuard(env);
   const mockResultsProvider = new MockResultsProvider();
 
+  // Props grade from the stats warehouse whichever scores provider is live.
   return {
     db,
-    resultsProvider: env.services.sportsdataio.mock
-      ? mockResultsProvider
-      : new GuardedResultsProvider(
-          new SportsDataIoResultsProvider({
-            apiKey: env.services.sportsdataio.apiKey,
-          }),
-          mockResultsProvider,
-          spendGuard,
-        ),
+    resultsProvider: new PlayerStatsResultsProvider(
+      db,
+      env.services.sportsdataio.mock
+        ? mockResultsProvider
+        : new GuardedResultsProvider(
+            new SportsDataIoResultsProvider({
+              apiKey: env.services.sportsdataio.apiKey,
+            }),
+            mockResultsProvider,
+            spendGuard,
+          ),
+    ),
   };
 }
@@ -1,6 +1,23 @@
-import { and, desc, eq, inArray, lt, notInArray } from "drizzle-orm";
+import {
+  and,
+  desc,
+  eq,
+  exists,
+  gt,
+  inArray,
+  lt,
+  notInArray,
+  or,
+} from "drizzle-orm";
 import type { Db } from "@/db";
-import { bettingEvents, bettingMarkets, picks, pickWeeks } from "@/db/schema";
+import {
+  bettingEvents,
+  bettingMarkets,
+  picks,
+  pickWeeks,
+  sidePoolPicks,
+} from "@/db/schema";
+import { PLAYER_STATS_GRACE_MS } from "./player-stats-results";
 
 /**
  * Finds real-world events that have finished and the entries that care about
@@ -62,7 +79,7 @@ const DEFAULT_LIMIT = 100;
 
 /**
  * Returns finished-looking events paired with the leagues holding pending picks
- * on them.
+ * on them, Pick 'em or side-pool.
  *
  * The league fan-out is deliberately derived from **pending picks** rather than
  * from "every league": an event nobody picked needs no grading pass, and a
@@ -77,6 +94,9 @@ export async function findFinishedEvents(
 ): Promise<FinishedEventCandidate[]> {
   const settleAfterMs = input.settleAfterMs ?? DEFAULT_SETTLE_AFTER_MS;
   const cutoff = new Date(input.now.getTime() - settleAfterMs);
+  const propGraceCutoff = new Date(
+    input.now.getTime() - PLAYER_STATS_GRACE_MS - settleAfterMs,
+  );
 
   // Candidate events: kicked off long enough ago to be plausibly over, and not
   // already resolved. Central catalog, so no league context applies.
@@ -86,12 +106,38 @@ export async function findFinishedEvents(
     .where(
       and(
         lt(bettingEvents.startTime, cutoff),
-        // Exclude states that can never yield a result. `final` is already
-        // graded; `canceled` never will be, and polling it forever would mean
-        // the settle path returning `result_not_final` on every pass for the
-        // rest of the season. `postponed` stays a candidate on purpose — a
-        // rescheduled game moves its startTime and should be graded then.
-        notInArray(bettingEvents.status, ["final", "canceled"]),
+        or(
+          // Exclude states that can never yield a result. `final` is already
+          // graded; `canceled` never will be, and polling it forever would
+          // mean the settle path returning `result_not_final` on every pass
+          // for the rest of the season. `postponed` stays a candidate on
+          // purpose — a rescheduled game moves its startTime and should be
+          // graded then.
+          notInArray(bettingEvents.status, ["final", "canceled"]),
+          // The exception: a final game whose props are still waiting on the
+          // stats warehouse. Once the grace period passes the grader voids
+          // them, so this cannot poll one event forever.
+          and(
+            eq(bettingEvents.status, "final"),
+            gt(bettingEvents.startTime, propGraceCutoff),
+            exists(
+              db
+                .select({ id: picks.id })
+                .from(picks)
+                .innerJoin(
+                  bettingMarkets,
+                  eq(bettingMarkets.id, picks.marketId),
+                )
+                .where(
+                  and(
+                    eq(bettingMarkets.eventId, bettingEvents.id),
+                    eq(bettingMarkets.type, "player_prop"),
+                    eq(picks.status, "pending"),
+                  ),
+                ),
+            ),
+          ),
+        ),
       ),
     )
     // Newest kickoff first, and the ordering is load-bearing rather than
@@ -132,8 +178,22 @@ export async function findFinishedEvents(
       and(inArray(bettingEvents.id, eventIds), eq(picks.status, "pending")),
     );
 
+  // Survivor and confidence pools wait on the same games.
+  const poolInterested = await db
+    .selectDistinct({
+      eventId: sidePoolPicks.bettingEventId,
+      leagueId: sidePoolPicks.leagueId,
+    })
+    .from(sidePoolPicks)
+    .where(
+      and(
+        inArray(sidePoolPicks.bettingEventId, eventIds),
+        eq(sidePoolPicks.status, "pending"),
+      ),
+    );
+
   const byEvent = new Map<string, Set<string>>();
-  for (const row of interested) {
+  for (const row of [...interested, ...poolInterested]) {
     const bucket = byEvent.get(row.eventId);
     if (bucket) {
       bucket.add(row.leagueId);
@@ -150,6 +150,21 @@ describe("selection grading", () => {
     ).toBe("void");
   });
 
+  it("holds a prop whose box score has not landed yet", () => {
+    expect(
+      gradeSelection(
+        {
+          lockedLine: 0.5,
+          marketSubject: "late-player",
+          marketType: "player_prop",
+          propType: "anytime_td",
+          selection: "over",
+        },
+        result({ playerStatsComplete: false }),
+      ),
+    ).toBeNull();
+  });
+
   it("returns null — not void — while the event is unfinished", () => {
     // The distinction is load-bearing: null means "ask again later", void means
     // "this will never resolve". Collapsing them would either abandon a live
@@ -78,8 +78,8 @@ function gradeFromComparison(
 }
 
 /**
- * Grades one selection, or returns `null` when the event has not finished and
- * therefore cannot be graded yet.
+ * Grades one selection, or returns `null` when the event has not finished, or
+ * a prop's box score has not arrived, and it therefore cannot be graded yet.
  *
  * `null` and `void` mean different things and must not be collapsed: `null` is
  * "ask again later", while `void` is "this will never resolve, stop asking".
@@ -149,7 +149,12 @@ export function gradeSelection(
         selection.propType,
       );
       if (stat === null) {
-        return { detail: "player prop result missing stat", status: "void" };
+        // Box scores can land after the final whistle. Until they have, a
+        // missing stat is "ask again later"; afterwards the player did not
+        // play, which voids the prop.
+        return result.playerStatsComplete === false
+          ? null
+          : { detail: "player prop result missing stat", status: "void" };
       }
       const wantsOver =
         selection.selection === "over" || selection.selection === "player_over";
@@ -1,4 +1,5 @@
 export {
+  type ArenaBankrollRow,
   type ArenaHeadToHead,
   type ArenaHeadToHeadLeague,
   type ArenaLeaderboardData,
@@ -16,6 +17,32 @@ export {
   rebuildAllArenaStandings,
   rebuildArenaStandings,
 } from "./arena";
+export {
+  ARENA_DIVISION_SIZE,
+  ARENA_PROMOTION_SPOTS,
+  type ArenaDivision,
+  type ArenaDivisionMovement,
+  type ArenaDivisionRow,
+  type ArenaDivisionZone,
+  arenaDivisionName,
+} from "./arena-division-rules";
+export {
+  type ArenaDivisionMove,
+  loadArenaDivisions,
+  type RolloverArenaDivisionsResult,
+  rolloverArenaDivisions,
+  syncArenaDivisions,
+} from "./arena-divisions";
+export {
+  type BracketChallengeData,
+  type BracketChallengeStandingRow,
+  submitBracketChallengePicks,
+} from "./bracket-challenge";
+export {
+  type BracketChallengePick,
+  type BracketEntryScore,
+  scoreBracketEntry,
+} from "./bracket-challenge-scoring";
 export {
   loadBettingEvent,
   type ResolveBettingEventDependencies,
@@ -47,5 +74,45 @@ export type {
   ResultsProvider,
   ResultsProviderInput,
 } from "./interfaces";
+export {
+  closingLineValue,
+  compressOddsSnapshots,
+  type LineMovementCandle,
+  type LineMovementSeries,
+  loadLineMovement,
+  type RecordClosingLineValuesResult,
+  type RefreshLineMovementResult,
+  recordClosingLineValues,
+  refreshLineMovement,
+  summarizeLineMovement,
+} from "./line-movement";
 export { MockOddsProvider, MockResultsProvider } from "./mocks";
+export {
+  type LinkPlayerPropMarketsResult,
+  linkPlayerPropMarkets,
+  loadRosteredNflPlayers,
+} from "./player-prop-markets";
+export {
+  isPlayerPropType,
+  PLAYER_PROP_TYPES,
+  PLAYER_PROPS,
+  type PlayerPropType,
+  playerPropStat,
+} from "./player-props";
+export {
+  loadWarehousePlayerStats,
+  PLAYER_STATS_GRACE_MS,
+  PlayerStatsResultsProvider,
+} from "./player-stats-results";
 export { SportsDataIoResultsProvider, TheOddsApiProvider } from "./real";
+export {
+  type ConfidenceWeekScored,
+  type GradeSidePoolPicksResult,
+  gradeSidePoolPicksForEvent,
+  type SurvivorElimination,
+} from "./side-pool-grading";
+export {
+  createSidePool,
+  SIDE_POOL_MODES,
+  type SidePoolMode,
+} from "./side-pools";
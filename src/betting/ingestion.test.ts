@@ -170,7 +170,7 @@ describe("odds catalog ingestion", () => {
     }>(`
         select relname, relrowsecurity, relforcerowsecurity
         from pg_class
-        where relname in ('betting_event', 'betting_market', 'odds_snapshot')
+        where relname in ('betting_event', 'betting_market', 'odds_line_movement', 'odds_snapshot')
         order by relname
       `);
 
@@ -185,6 +185,11 @@ describe("odds catalog ingestion", () => {
         relname: "betting_market",
         relrowsecurity: false,
       },
+      {
+        relforcerowsecurity: false,
+        relname: "odds_line_movement",
+        relrowsecurity: false,
+      },
       {
         relforcerowsecurity: false,
         relname: "odds_snapshot",
@@ -17,7 +17,15 @@ import type {
   OddsProvider,
   OddsQuote,
 } from "./interfaces";
+import {
+  type RefreshLineMovementResult,
+  refreshLineMovement,
+} from "./line-movement";
 import { MockOddsProvider } from "./mocks";
+import {
+  type LinkPlayerPropMarketsResult,
+  linkPlayerPropMarkets,
+} from "./player-prop-markets";
 
 const DEFAULT_SPORT: BettingSport = "nfl";
 const DEFAULT_EVENT_LIMIT = 50;
@@ -42,7 +50,9 @@ export interface PersistStats {
 
 export interface RefreshOddsCatalogResult {
   events: PersistStats & { fetched: number; skipped: number };
+  lineMovement: RefreshLineMovementResult;
   markets: PersistStats & { fetched: number; skipped: number };
+  playerProps: LinkPlayerPropMarketsResult;
   snapshots: { inserted: number; skipped: number };
   sport: BettingSport;
 }
@@ -455,6 +465,8 @@ export async function refreshOddsCatalog({
   const eventStats = { inserted: 0, unchanged: 0, updated: 0 };
   const marketStats = { inserted: 0, unchanged: 0, updated: 0 };
   const snapshotStats = { inserted: 0, skipped: 0 };
+  const movedMarketIds = new Set<string>();
+  const propMarketIds = new Set<string>();
   let skippedEvents = 0;
   let skippedMarkets = 0;
   let fetchedMarkets = 0;
@@ -506,6 +518,9 @@ export async function refreshOddsCatalog({
         item: normalizedMarket,
       });
       bump(marketStats, persistedMarket.status);
+      if (normalizedMarket.values.type === "player_prop") {
+        propMarketIds.add(persistedMarket.id);
+      }
       marketIds.set(
         `${normalizedMarket.values.provider}:${normalizedMarket.values.providerMarketId}`,
         persistedMarket.id,
@@ -534,20 +549,37 @@ export async function refreshOddsCatalog({
         marketId,
       });
       snapshotStats[status] += 1;
+      if (status === "inserted") {
+        movedMarketIds.add(marketId);
+      }
     }
   }
 
+  // Only markets that took a new quote can have moved.
+  const lineMovement = await refreshLineMovement(deps.db, {
+    marketIds: [...movedMarketIds],
+    now: at,
+  });
+
+  // The warehouse may have learned a player since the last pull, so every
+  // unlinked prop seen this run gets another try.
+  const playerProps = await linkPlayerPropMarkets(deps.db, {
+    marketIds: [...propMarketIds],
+  });
+
   return {
     events: {
       fetched: sourceEvents.length,
       skipped: skippedEvents,
       ...eventStats,
     },
+    lineMovement,
     markets: {
       fetched: fetchedMarkets,
       skipped: skippedMarkets,
       ...marketStats,
     },
+    playerProps,
     snapshots: snapshotStats,
     sport,
   };
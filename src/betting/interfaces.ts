@@ -104,6 +104,11 @@ export interface EventResult {
   finalStatus: BettingEventStatus;
   homeScore: number | null;
   playerStats: ResultsPlayerStat[];
+  /**
+   * False while some player's box score has not landed yet. A prop missing
+   * its stat then stays pending; absent or true, a missing stat voids.
+   */
+  playerStatsComplete?: boolean;
   provider: ResultsProviderId;
   sourcePayload?: unknown;
 }
@@ -0,0 +1,347 @@
+import { and, asc, desc, eq, gt, inArray, sql } from "drizzle-orm";
+import type { Db } from "@/db";
+import { withLeagueContext } from "@/db/rls";
+import {
+  bankrollSlipLegs,
+  bankrollSlips,
+  bettingEvents,
+  bettingMarkets,
+  picks,
+  pickWeeks,
+  users,
+} from "@/db/schema";
+import type { LeagueBankrollSettingsSummary } from "./bankroll";
+import { loadLeagueBankrollSettings } from "./bankroll";
+import { potentialPayout, toRoiBps, toStoredUnits } from "./bankroll-scoring";
+
+/**
+ * Read path for a league's bankroll desk, shown beside the Pick 'em desk on
+ * `/leagues/[leagueId]/bet` when the league has bankroll mode on.
+ *
+ * The ladder puts each member's pick accuracy next to their ROI on purpose:
+ * the two measure different skills, and the interesting rows are the ones
+ * where they disagree.
+ */
+
+export interface BankrollSlipLegView {
+  readonly awayTeam: string;
+  readonly homeTeam: string;
+  readonly lockedLine: number | null;
+  readonly lockedPrice: number;
+  readonly marketType: string;
+  readonly selection: string;
+  readonly status: string;
+}
+
+export interface BankrollSlipView {
+  readonly legs: readonly BankrollSlipLegView[];
+  readonly lockedPrice: number;
+  readonly payout: number | null;
+  readonly placedAt: string;
+  readonly potentialPayout: number;
+  readonly slipId: string;
+  readonly stake: number;
+  readonly status: string;
+}
+
+export interface BankrollTotals {
+  readonly netUnits: number;
+  readonly roiBps: number;
+  readonly settledSlips: number;
+  readonly stakedUnits: number;
+  readonly wonSlips: number;
+}
+
+export interface BankrollLadderRow extends BankrollTotals {
+  /** Graded-pick hit rate, for the side-by-side. Null before any pick grades. */
+  readonly accuracyBps: number | null;
+  readonly displayName: string;
+  readonly userId: string;
+}
+
+export interface LeagueBankrollData {
+  readonly ladder: readonly BankrollLadderRow[];
+  readonly season: number | null;
+  readonly settings: LeagueBankrollSettingsSummary;
+  readonly week: {
+    readonly pickWeekId: string;
+    readonly remainingAllowance: number;
+    readonly stakedThisWeek: number;
+  } | null;
+  readonly you: BankrollTotals & {
+    readonly slips: readonly BankrollSlipView[];
+  };
+}
+
+const EMPTY_TOTALS: BankrollTotals = {
+  netUnits: 0,
+  roiBps: 0,
+  settledSlips: 0,
+  stakedUnits: 0,
+  wonSlips: 0,
+};
+
+interface SlipTotalsRow {
+  netUnits: number;
+  settledSlips: number;
+  stakedUnits: number;
+  userId: string;
+  wonSlips: number;
+}
+
+function totalsFrom(row: SlipTotalsRow | undefined): BankrollTotals {
+  if (!row) return EMPTY_TOTALS;
+  return {
+    netUnits: toStoredUnits(row.netUnits),
+    roiBps: toRoiBps(row.netUnits, row.stakedUnits),
+    settledSlips: row.settledSlips,
+    stakedUnits: toStoredUnits(row.stakedUnits),
+    wonSlips: row.wonSlips,
+  };
+}
+
+export async function getLeagueBankrollData(
+  db: Db,
+  input: {
+    readonly leagueId: string;
+    readonly now?: Date;
+    readonly slipLimit?: number;
+    readonly userId: string;
+  },
+): Promise<LeagueBankrollData> {
+  const now = input.now ?? new Date();
+
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const settings = await loadLeagueBankrollSettings(tx, input.leagueId);
+
+    const [openWeek] = await tx
+      .select({ id: pickWeeks.id, season: pickWeeks.season })
+      .from(pickWeeks)
+      .where(
+        and(
+          eq(pickWeeks.leagueId, input.leagueId),
+          gt(pickWeeks.closesAt, now),
+        ),
+      )
+      .orderBy(asc(pickWeeks.opensAt))
+      .limit(1);
+    const [latestWeek] = openWeek
+      ? [openWeek]
+      : await tx
+          .select({ id: pickWeeks.id, season: pickWeeks.season })
+          .from(pickWeeks)
+          .where(eq(pickWeeks.leagueId, input.leagueId))
+          .orderBy(desc(pickWeeks.opensAt))
+          .limit(1);
+    const season = latestWeek?.season ?? null;
+
+    if (!settings.enabled || season === null) {
+      return {
+        ladder: [],
+        season,
+        settings,
+        week: null,
+        you: { ...EMPTY_TOTALS, slips: [] },
+      };
+    }
+
+    const seasonWeekIds = tx
+      .select({ id: pickWeeks.id })
+      .from(pickWeeks)
+      .where(
+        and(
+          eq(pickWeeks.leagueId, input.leagueId),
+          eq(pickWeeks.season, season),
+        ),
+      );
+
+    // Settled slips only: an open parlay has no return yet, and counting its
+    // stake would drag ROI down until it settled.
+    const slipTotals = await tx
+      .select({
+        netUnits: sql<number>`coalesce(sum(${bankrollSlips.payout} - ${bankrollSlips.stake}), 0)::float8`,
+        settledSlips: sql<number>`count(*)::int`,
+        stakedUnits: sql<number>`coalesce(sum(${bankrollSlips.stake}), 0)::float8`,
+        userId: bankrollSlips.userId,
+        wonSlips: sql<number>`count(*) filter (where ${bankrollSlips.status} = 'won')::int`,
+      })
+      .from(bankrollSlips)
+      .where(
+        and(
+          eq(bankrollSlips.leagueId, input.leagueId),
+          inArray(bankrollSlips.pickWeekId, seasonWeekIds),
+          sql`${bankrollSlips.status} <> 'pending'`,
+        ),
+      )
+      .groupBy(bankrollSlips.userId);
+
+    const pickTotals = await tx
+      .select({
+        correct: sql<number>`count(*) filter (where ${picks.status} = 'correct')::int`,
+        graded: sql<number>`count(*) filter (where ${picks.status} in ('correct', 'incorrect'))::int`,
+        userId: picks.userId,
+      })
+      .from(picks)
+      .where(
+        and(
+          eq(picks.leagueId, input.leagueId),
+          inArray(picks.pickWeekId, seasonWeekIds),
+        ),
+      )
+      .groupBy(picks.userId);
+    const picksByUser = new Map(pickTotals.map((row) => [row.userId, row]));
+
+    const ladderUserIds = [...new Set(slipTotals.map((row) => row.userId))];
+    const names =
+      ladderUserIds.length === 0
+        ? []
+        : await tx
+            .select({
+              displayName: users.displayName,
+              email: users.email,
+              id: users.id,
+            })
+            .from(users)
+            .where(inArray(users.id, ladderUserIds));
+    const nameById = new Map(
+      names.map((row) => [row.id, row.displayName ?? row.email]),
+    );
+
+    const ladder: BankrollLadderRow[] = slipTotals
+      .map((row) => {
+        const pickRow = picksByUser.get(row.userId);
+        return {
+          ...totalsFrom(row),
+          accuracyBps:
+            pickRow && pickRow.graded > 0
+              ? Math.round((pickRow.correct / pickRow.graded) * 10_000)
+              : null,
+          displayName: nameById.get(row.userId) ?? "Unknown player",
+          userId: row.userId,
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.roiBps - a.roiBps ||
+          b.stakedUnits - a.stakedUnits ||
+          a.displayName.localeCompare(b.displayName),
+      );
+
+    let week: LeagueBankrollData["week"] = null;
+    if (openWeek) {
+      const [spent] = await tx
+        .select({
+          total: sql<number>`coalesce(sum(${bankrollSlips.stake}), 0)::float8`,
+        })
+        .from(bankrollSlips)
+        .where(
+          and(
+            eq(bankrollSlips.leagueId, input.leagueId),
+            eq(bankrollSlips.userId, input.userId),
+            eq(bankrollSlips.pickWeekId, openWeek.id),
+          ),
+        );
+      const stakedThisWeek = toStoredUnits(spent?.total ?? 0);
+      week = {
+        pickWeekId: openWeek.id,
+        remainingAllowance: toStoredUnits(
+          Math.max(settings.weeklyAllowance - stakedThisWeek, 0),
+        ),
+        stakedThisWeek,
+      };
+    }
+
+    const slipRows = await tx
+      .select({
+        id: bankrollSlips.id,
+        lockedPrice: bankrollSlips.lockedPrice,
+        payout: bankrollSlips.payout,
+        placedAt: bankrollSlips.placedAt,
+        stake: bankrollSlips.stake,
+        status: bankrollSlips.status,
+      })
+      .from(bankrollSlips)
+      .where(
+        and(
+          eq(bankrollSlips.leagueId, input.leagueId),
+          eq(bankrollSlips.userId, input.userId),
+          inArray(bankrollSlips.pickWeekId, seasonWeekIds),
+        ),
+      )
+      .orderBy(desc(bankrollSlips.placedAt))
+      .limit(input.slipLimit ?? 25);
+
+    const legRows =
+      slipRows.length === 0
+        ? []
+        : await tx
+            .select({
+              awayTeam: bettingEvents.awayTeam,
+              homeTeam: bettingEvents.homeTeam,
+              lockedLine: bankrollSlipLegs.lockedLine,
+              lockedPrice: bankrollSlipLegs.lockedPrice,
+              marketType: bettingMarkets.type,
+              selection: bankrollSlipLegs.selection,
+              slipId: bankrollSlipLegs.slipId,
+              startTime: bettingEvents.startTime,
+              status: bankrollSlipLegs.status,
+            })
+            .from(bankrollSlipLegs)
+            .innerJoin(
+              bettingMarkets,
+              eq(bettingMarkets.id, bankrollSlipLegs.marketId),
+            )
+            .innerJoin(
+              bettingEvents,
+              eq(bettingEvents.id, bettingMarkets.eventId),
+            )
+            .where(
+              and(
+                eq(bankrollSlipLegs.leagueId, input.leagueId),
+                inArray(
+                  bankrollSlipLegs.slipId,
+                  slipRows.map((row) => row.id),
+                ),
+              ),
+            )
+            .orderBy(asc(bettingEvents.startTime));
+
+    const legsBySlip = new Map<string, BankrollSlipLegView[]>();
+    for (const leg of legRows) {
+      const list = legsBySlip.get(leg.slipId) ?? [];
+      list.push({
+        awayTeam: leg.awayTeam,
+        homeTeam: leg.homeTeam,
+        lockedLine: leg.lockedLine,
+        lockedPrice: leg.lockedPrice,
+        marketType: leg.marketType,
+        selection: leg.selection,
+        status: leg.status,
+      });
+      legsBySlip.set(leg.slipId, list);
+    }
+
+    return {
+      ladder,
+      season,
+      settings,
+      week,
+      you: {
+        ...totalsFrom(slipTotals.find((row) => row.userId === input.userId)),
+        slips: slipRows.map((row) => ({
+          legs: legsBySlip.get(row.id) ?? [],
+          lockedPrice: row.lockedPrice,
+          payout: row.payout,
+          placedAt: row.placedAt.toISOString(),
+          potentialPayout: potentialPayout(
+            row.stake,
+            (legsBySlip.get(row.id) ?? []).map((leg) => leg.lockedPrice),
+          ),
+          slipId: row.id,
+          stake: row.stake,
+          status: row.status,
+        })),
+      },
+    };
+  });
+}
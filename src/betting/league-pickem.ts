@@ -4,11 +4,14 @@ import { withLeagueContext } from "@/db/rls";
 import {
   bettingEvents,
   bettingMarkets,
+  nflPlayers,
   oddsSnapshots,
   picks,
   pickWeeks,
 } from "@/db/schema";
+import { type LineMovementSeries, loadLineMovement } from "./line-movement";
 import { scorePickWeek } from "./pickem-scoring";
+import { loadRosteredNflPlayers } from "./player-prop-markets";
 
 /**
  * Read path for a league's Pick 'em desk.
@@ -38,6 +41,15 @@ export interface PickemSlateOption {
   readonly underPrice: number | null;
   /** True once the event has started; the server rejects these regardless. */
   readonly locked: boolean;
+  /** Compressed line history for the market card; null before any candle. */
+  readonly movement: LineMovementSeries | null;
+  /** Null on game markets. */
+  readonly propType: string | null;
+  /** The prop's player and the fantasy team rostering them; null on game markets. */
+  readonly player: {
+    readonly name: string;
+    readonly rosteredBy: string;
+  } | null;
 }
 
 export interface PickemSubmittedPick {
@@ -76,6 +88,11 @@ export interface LeaguePickemData {
     readonly isEligibleForWeeklyPrize: boolean;
   };
   readonly slate: readonly PickemSlateOption[];
+  /**
+   * Player props, limited to players on a roster in this league: a prop on
+   * someone's starter is a pick the league has a stake in.
+   */
+  readonly props: readonly PickemSlateOption[];
 }
 
 const EMPTY: LeaguePickemData = {
@@ -86,6 +103,7 @@ const EMPTY: LeaguePickemData = {
     participationRate: 0,
     scorablePicks: 0,
   },
+  props: [],
   slate: [],
   status: "no_open_week",
   week: null,
@@ -179,7 +197,10 @@ export async function getLeaguePickemData(
         line: oddsSnapshots.line,
         marketId: bettingMarkets.id,
         marketType: bettingMarkets.type,
+        nflPlayerId: bettingMarkets.nflPlayerId,
         overPrice: oddsSnapshots.overPrice,
+        playerName: nflPlayers.fullName,
+        propType: bettingMarkets.propType,
         snapshotId: oddsSnapshots.id,
         startTime: bettingEvents.startTime,
         underPrice: oddsSnapshots.underPrice,
@@ -187,6 +208,7 @@ export async function getLeaguePickemData(
       .from(oddsSnapshots)
       .innerJoin(bettingMarkets, eq(bettingMarkets.id, oddsSnapshots.marketId))
       .innerJoin(bettingEvents, eq(bettingEvents.id, bettingMarkets.eventId))
+      .leftJoin(nflPlayers, eq(nflPlayers.id, bettingMarkets.nflPlayerId))
       .where(
         and(
           eq(bettingMarkets.status, "open"),
@@ -206,24 +228,53 @@ export async function getLeaguePickemData(
       }
     }
 
-    const slate: PickemSlateOption[] = [...latestByMarket.values()]
-      .filter((row) => !pickedMarketIds.has(row.marketId))
-      .slice(0, input.slateLimit ?? 100)
-      .map((row) => ({
-        awayPrice: row.awayPrice,
-        awayTeam: row.awayTeam,
-        eventId: row.eventId,
-        homePrice: row.homePrice,
-        homeTeam: row.homeTeam,
-        line: row.line,
-        locked: row.startTime <= now,
-        marketId: row.marketId,
-        marketType: row.marketType,
-        oddsSnapshotId: row.snapshotId,
-        overPrice: row.overPrice,
-        startTime: row.startTime.toISOString(),
-        underPrice: row.underPrice,
-      }));
+    const openRows = [...latestByMarket.values()].filter(
+      (row) => !pickedMarketIds.has(row.marketId),
+    );
+    const slateLimit = input.slateLimit ?? 100;
+    const rostered = await loadRosteredNflPlayers(tx, input.leagueId);
+    const slateRows = openRows
+      .filter((row) => row.marketType !== "player_prop")
+      .slice(0, slateLimit);
+    // A prop whose player never linked to the warehouse cannot be matched to
+    // a roster, so it stays off this league's desk.
+    const propRows = openRows
+      .filter(
+        (row) =>
+          row.marketType === "player_prop" &&
+          row.nflPlayerId !== null &&
+          rostered.has(row.nflPlayerId),
+      )
+      .slice(0, slateLimit);
+    const movementByMarket = await loadLineMovement(
+      tx,
+      [...slateRows, ...propRows].map((row) => row.marketId),
+    );
+
+    const toOption = (row: (typeof openRows)[number]): PickemSlateOption => ({
+      awayPrice: row.awayPrice,
+      awayTeam: row.awayTeam,
+      eventId: row.eventId,
+      homePrice: row.homePrice,
+      homeTeam: row.homeTeam,
+      line: row.line,
+      locked: row.startTime <= now,
+      marketId: row.marketId,
+      marketType: row.marketType,
+      movement: movementByMarket.get(row.marketId) ?? null,
+      oddsSnapshotId: row.snapshotId,
+      overPrice: row.overPrice,
+      player:
+        row.nflPlayerId && row.playerName
+          ? {
+              name: row.playerName,
+              rosteredBy: rostered.get(row.nflPlayerId) ?? "",
+            }
+          : null,
+      propType: row.propType,
+      startTime: row.startTime.toISOString(),
+      underPrice: row.underPrice,
+    });
 
     return {
       league: {
@@ -233,7 +284,8 @@ export async function getLeaguePickemData(
         participationRate: score.participationRate,
         scorablePicks: score.scorablePicks,
       },
-      slate,
+      props: propRows.map(toOption),
+      slate: slateRows.map(toOption),
       status: "ready" as const,
       week: {
         closesAt: week.closesAt.toISOString(),
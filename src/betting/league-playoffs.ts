@@ -0,0 +1,66 @@
+import { eq } from "drizzle-orm";
+import type { Db } from "@/db";
+import { withLeagueContext } from "@/db/rls";
+import { leagues } from "@/db/schema";
+import { loadPlayoffBracket, type PlayoffBracketView } from "@/stats";
+import {
+  type BracketChallengeData,
+  loadBracketChallenge,
+} from "./bracket-challenge";
+
+/**
+ * Read path for a league's playoffs page: the live bracket and the bracket
+ * challenge played on it.
+ *
+ * Server-side and free of React, like `league-side-pools`, so the shape can
+ * be asserted without a component harness.
+ */
+
+export type LeaguePlayoffsData =
+  | {
+      readonly bracket: PlayoffBracketView;
+      readonly challenge: BracketChallengeData;
+      readonly league: { readonly id: string; readonly name: string };
+      readonly status: "ready";
+    }
+  | {
+      readonly league: { readonly id: string; readonly name: string };
+      readonly season: number;
+      readonly status: "no_bracket";
+    };
+
+export async function getLeaguePlayoffsData(
+  db: Db,
+  input: { leagueId: string; userId: string },
+): Promise<LeaguePlayoffsData | null> {
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const [league] = await tx
+      .select({ id: leagues.id, name: leagues.name, season: leagues.season })
+      .from(leagues)
+      .where(eq(leagues.id, input.leagueId))
+      .limit(1);
+    if (!league) {
+      return null;
+    }
+
+    const bracket = await loadPlayoffBracket(tx, {
+      leagueId: input.leagueId,
+      season: league.season,
+    });
+    const summary = { id: league.id, name: league.name };
+    if (!bracket) {
+      return { league: summary, season: league.season, status: "no_bracket" };
+    }
+
+    return {
+      bracket,
+      challenge: await loadBracketChallenge(tx, {
+        bracket,
+        leagueId: input.leagueId,
+        userId: input.userId,
+      }),
+      league: summary,
+      status: "ready",
+    };
+  });
+}
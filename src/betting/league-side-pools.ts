@@ -0,0 +1,168 @@
+import { and, asc, eq, gt } from "drizzle-orm";
+import type { Db } from "@/db";
+import { withLeagueContext } from "@/db/rls";
+import { leagues, pickWeeks, sidePools } from "@/db/schema";
+import {
+  type ConfidenceMemberPick,
+  type ConfidenceStandingRow,
+  loadConfidenceStandings,
+} from "./confidence-pool";
+import {
+  loadPoolWeekGames,
+  SIDE_POOL_MODES,
+  type SidePoolMode,
+} from "./side-pools";
+import {
+  loadClosedSurvivorWeeks,
+  loadSurvivorStandings,
+  type SurvivorMemberView,
+  type SurvivorStandingRow,
+} from "./survivor";
+
+/**
+ * Read path for a league's side-game pools page: the open week's slate, and
+ * each pool's standings with the asking member's own entry.
+ *
+ * Server-side and free of React, like `league-pickem`, so the shape can be
+ * asserted without a component harness.
+ */
+
+export interface SidePoolSlateGame {
+  readonly eventId: string;
+  readonly homeTeam: string;
+  readonly awayTeam: string;
+  readonly startTime: string;
+  /** True once the game has kicked off; picks on it are settled. */
+  readonly locked: boolean;
+}
+
+export interface SurvivorPoolData {
+  readonly mode: "survivor";
+  readonly poolId: string;
+  readonly name: string;
+  readonly standings: readonly SurvivorStandingRow[];
+  readonly you: SurvivorMemberView;
+}
+
+export interface ConfidencePoolData {
+  readonly mode: "confidence";
+  readonly poolId: string;
+  readonly name: string;
+  readonly standings: readonly ConfidenceStandingRow[];
+  readonly you: { readonly weekPicks: readonly ConfidenceMemberPick[] };
+}
+
+export type SidePoolData = SurvivorPoolData | ConfidencePoolData;
+
+export interface LeagueSidePoolsData {
+  readonly season: number;
+  readonly week: {
+    readonly pickWeekId: string;
+    readonly week: number;
+    readonly opensAt: string;
+    readonly closesAt: string;
+  } | null;
+  /** The open week's games, earliest kickoff first; empty with no open week. */
+  readonly games: readonly SidePoolSlateGame[];
+  readonly pools: readonly SidePoolData[];
+  /** Modes the league has not started a pool for this season. */
+  readonly availableModes: readonly SidePoolMode[];
+}
+
+export async function getLeagueSidePoolsData(
+  db: Db,
+  input: { leagueId: string; userId: string; now?: Date },
+): Promise<LeagueSidePoolsData | null> {
+  const now = input.now ?? new Date();
+
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const [league] = await tx
+      .select({ season: leagues.season })
+      .from(leagues)
+      .where(eq(leagues.id, input.leagueId))
+      .limit(1);
+    if (!league) {
+      return null;
+    }
+
+    // Same open-week rule as the Pick 'em desk: the earliest week that has
+    // not closed yet.
+    const [week] = await tx
+      .select()
+      .from(pickWeeks)
+      .where(
+        and(
+          eq(pickWeeks.leagueId, input.leagueId),
+          gt(pickWeeks.closesAt, now),
+        ),
+      )
+      .orderBy(asc(pickWeeks.opensAt))
+      .limit(1);
+
+    const games = week ? await loadPoolWeekGames(tx, week) : [];
+    const pools = await tx
+      .select()
+      .from(sidePools)
+      .where(
+        and(
+          eq(sidePools.leagueId, input.leagueId),
+          eq(sidePools.season, league.season),
+        ),
+      )
+      .orderBy(asc(sidePools.mode));
+
+    const poolData: SidePoolData[] = [];
+    for (const pool of pools) {
+      const scope = {
+        pickWeekId: week?.id ?? null,
+        poolId: pool.id,
+        userId: input.userId,
+      };
+      if (pool.mode === "survivor") {
+        const closedWeeks = await loadClosedSurvivorWeeks(tx, {
+          leagueId: input.leagueId,
+          now,
+          season: pool.season,
+        });
+        poolData.push({
+          mode: "survivor",
+          name: pool.name,
+          poolId: pool.id,
+          ...(await loadSurvivorStandings(tx, {
+            ...scope,
+            closedWeeks: closedWeeks.map((row) => row.week),
+          })),
+        });
+      } else {
+        poolData.push({
+          mode: "confidence",
+          name: pool.name,
+          poolId: pool.id,
+          ...(await loadConfidenceStandings(tx, scope)),
+        });
+      }
+    }
+
+    const started = new Set(pools.map((pool) => pool.mode));
+    return {
+      availableModes: SIDE_POOL_MODES.filter((mode) => !started.has(mode)),
+      games: games.map((game) => ({
+        awayTeam: game.awayTeam,
+        eventId: game.eventId,
+        homeTeam: game.homeTeam,
+        locked: game.startTime <= now,
+        startTime: game.startTime.toISOString(),
+      })),
+      pools: poolData,
+      season: league.season,
+      week: week
+        ? {
+            closesAt: week.closesAt.toISOString(),
+            opensAt: week.opensAt.toISOString(),
+            pickWeekId: week.id,
+            week: week.week,
+          }
+        : null,
+    };
+  });
+}
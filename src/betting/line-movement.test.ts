@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  americanImpliedProbability,
+  closingLineValue,
+  compressOddsSnapshots,
+  summarizeLineMovement,
+} from "./line-movement";
+
+function quote(
+  capturedAt: string,
+  overrides: { homePrice?: number | null; line?: number | null } = {},
+) {
+  return {
+    awayPrice: -110,
+    capturedAt: new Date(capturedAt),
+    homePrice: overrides.homePrice ?? -110,
+    line: overrides.line === undefined ? -3 : overrides.line,
+    outcomePrice: null,
+    overPrice: null,
+    underPrice: null,
+  };
+}
+
+const even = {
+  awayPrice: -110,
+  homePrice: -110,
+  outcomePrice: null,
+  overPrice: -110,
+  underPrice: -110,
+};
+
+describe("line-movement candles", () => {
+  it("compresses quotes into hourly open/high/low/close candles", () => {
+    const candles = compressOddsSnapshots([
+      quote("2026-09-10T12:40:00.000Z", { line: -3.5 }),
+      quote("2026-09-10T12:05:00.000Z", { line: -3 }),
+      quote("2026-09-10T12:20:00.000Z", { line: -2.5 }),
+      quote("2026-09-10T13:10:00.000Z", { homePrice: -120, line: -4 }),
+    ]);
+
+    expect(candles).toHaveLength(2);
+    expect(candles[0]).toMatchObject({
+      bucketStart: new Date("2026-09-10T12:00:00.000Z"),
+      closeLine: -3.5,
+      highLine: -2.5,
+      lowLine: -3.5,
+      openLine: -3,
+      snapshotCount: 3,
+    });
+    expect(candles[1]).toMatchObject({ closePrice: -120, snapshotCount: 1 });
+  });
+
+  it("summarizes candles into the series the market card charts", () => {
+    const series = summarizeLineMovement(
+      "market-1",
+      compressOddsSnapshots([
+        quote("2026-09-10T12:05:00.000Z", { line: -3 }),
+        quote("2026-09-10T15:30:00.000Z", { line: -4.5 }),
+      ]),
+    );
+
+    expect(series?.open.line).toBe(-3);
+    expect(series?.close.line).toBe(-4.5);
+    expect(series?.points).toHaveLength(2);
+    expect(series?.lowLine).toBe(-4.5);
+    expect(summarizeLineMovement("market-1", [])).toBeNull();
+  });
+});
+
+describe("closing-line value", () => {
+  it("credits the home side when the spread closes more negative", () => {
+    const locked = { ...even, line: -3 };
+    const closing = { ...even, line: -4.5 };
+
+    expect(
+      closingLineValue({
+        closing,
+        locked,
+        marketType: "spread",
+        selection: "home",
+      }),
+    ).toBe(1.5);
+    expect(
+      closingLineValue({
+        closing,
+        locked,
+        marketType: "spread",
+        selection: "away",
+      }),
+    ).toBe(-1.5);
+  });
+
+  it("credits the over when the total closes higher", () => {
+    expect(
+      closingLineValue({
+        closing: { ...even, line: 47 },
+        locked: { ...even, line: 45.5 },
+        marketType: "total",
+        selection: "over",
+      }),
+    ).toBe(1.5);
+  });
+
+  it("falls back to implied probability when there is no line to compare", () => {
+    // Locked the home side at +120; it closed at -110. The close implies
+    // 52.38%, the lock 45.45%, so the picker beat the close by 6.93 points.
+    expect(
+      closingLineValue({
+        closing: { ...even, line: null },
+        locked: { ...even, homePrice: 120, line: null },
+        marketType: "moneyline",
+        selection: "home",
+      }),
+    ).toBe(6.93);
+    expect(americanImpliedProbability(0)).toBeNull();
+  });
+});
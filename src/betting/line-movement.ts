@@ -0,0 +1,504 @@
+import { and, asc, eq, inArray, isNull, lte, sql } from "drizzle-orm";
+import type { Db } from "@/db";
+import { type LeagueScopedTx, withLeagueContext } from "@/db/rls";
+import {
+  bettingEvents,
+  bettingMarkets,
+  type NewOddsLineMovement,
+  oddsLineMovement,
+  oddsSnapshots,
+  picks,
+} from "@/db/schema";
+import type { BettingMarketType } from "./interfaces";
+
+/**
+ * Line movement and closing-line value (CLV).
+ *
+ * `odds_snapshot` appends a row whenever a quote changes, which is the right
+ * audit trail and the wrong thing to chart: a busy market collects hundreds of
+ * rows. The movement service compresses each market into hourly
+ * open/high/low/close candles, and the market card charts those.
+ *
+ * CLV asks whether a pick beat the number the market settled on at kickoff. It
+ * is the standard measure of picking skill that does not wait on results, so
+ * the arena reports how often a league or player beat the close beside the
+ * accuracy ladder — never instead of it.
+ */
+
+export const LINE_MOVEMENT_BUCKET_MS = 60 * 60 * 1000;
+
+/** The quote fields movement and CLV read. */
+export interface LineMovementQuote {
+  readonly awayPrice: number | null;
+  readonly capturedAt: Date;
+  readonly homePrice: number | null;
+  readonly line: number | null;
+  readonly outcomePrice: number | null;
+  readonly overPrice: number | null;
+  readonly underPrice: number | null;
+}
+
+export interface LineMovementCandle {
+  readonly bucketStart: Date;
+  readonly closeLine: number | null;
+  readonly closePrice: number | null;
+  readonly firstCapturedAt: Date;
+  readonly highLine: number | null;
+  readonly highPrice: number | null;
+  readonly lastCapturedAt: Date;
+  readonly lowLine: number | null;
+  readonly lowPrice: number | null;
+  readonly openLine: number | null;
+  readonly openPrice: number | null;
+  readonly snapshotCount: number;
+}
+
+export interface LineMovementPoint {
+  readonly at: string;
+  readonly line: number | null;
+  readonly price: number | null;
+}
+
+/** A market's movement from its first quote to its latest, for charting. */
+export interface LineMovementSeries {
+  readonly close: LineMovementPoint;
+  readonly highLine: number | null;
+  readonly lowLine: number | null;
+  readonly marketId: string;
+  readonly open: LineMovementPoint;
+  /** One point per candle, at the candle's close. */
+  readonly points: readonly LineMovementPoint[];
+  readonly snapshotCount: number;
+}
+
+/**
+ * The price a candle tracks: the home side, the over, or the single outcome.
+ * One side is enough to show direction; the other side moves opposite it.
+ */
+export function trackedPrice(
+  quote: Pick<LineMovementQuote, "homePrice" | "outcomePrice" | "overPrice">,
+): number | null {
+  return quote.homePrice ?? quote.overPrice ?? quote.outcomePrice;
+}
+
+function extreme(
+  values: readonly (number | null)[],
+  pick: (left: number, right: number) => number,
+): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length === 0
+    ? null
+    : present.reduce((left, right) => pick(left, right));
+}
+
+function firstPresent(values: readonly (number | null)[]): number | null {
+  return values.find((value) => value !== null) ?? null;
+}
+
+function bucketStartFor(capturedAt: Date, bucketMs: number): Date {
+  return new Date(Math.floor(capturedAt.getTime() / bucketMs) * bucketMs);
+}
+
+/** Compresses one market's quotes into open/high/low/close candles. */
+export function compressOddsSnapshots(
+  quotes: readonly LineMovementQuote[],
+  options: { bucketMs?: number } = {},
+): LineMovementCandle[] {
+  const bucketMs = options.bucketMs ?? LINE_MOVEMENT_BUCKET_MS;
+  const byBucket = new Map<number, LineMovementQuote[]>();
+  for (const quote of [...quotes].sort(
+    (left, right) => left.capturedAt.getTime() - right.capturedAt.getTime(),
+  )) {
+    const key = bucketStartFor(quote.capturedAt, bucketMs).getTime();
+    const rows = byBucket.get(key) ?? [];
+    rows.push(quote);
+    byBucket.set(key, rows);
+  }
+
+  return [...byBucket]
+    .sort(([left], [right]) => left - right)
+    .map(([bucketStart, rows]) => {
+      const lines = rows.map((row) => row.line);
+      const prices = rows.map(trackedPrice);
+      return {
+        bucketStart: new Date(bucketStart),
+        closeLine: firstPresent([...lines].reverse()),
+        closePrice: firstPresent([...prices].reverse()),
+        firstCapturedAt: rows[0]?.capturedAt as Date,
+        highLine: extreme(lines, Math.max),
+        highPrice: extreme(prices, Math.max),
+        lastCapturedAt: rows.at(-1)?.capturedAt as Date,
+        lowLine: extreme(lines, Math.min),
+        lowPrice: extreme(prices, Math.min),
+        openLine: firstPresent(lines),
+        openPrice: firstPresent(prices),
+        snapshotCount: rows.length,
+      };
+    });
+}
+
+/** Folds a market's candles into the series the market card charts. */
+export function summarizeLineMovement(
+  marketId: string,
+  candles: readonly LineMovementCandle[],
+): LineMovementSeries | null {
+  const first = candles[0];
+  const last = candles.at(-1);
+  if (!first || !last) {
+    return null;
+  }
+  return {
+    close: {
+      at: last.lastCapturedAt.toISOString(),
+      line: last.closeLine,
+      price: last.closePrice,
+    },
+    highLine: extreme(
+      candles.map((candle) => candle.highLine),
+      Math.max,
+    ),
+    lowLine: extreme(
+      candles.map((candle) => candle.lowLine),
+      Math.min,
+    ),
+    marketId,
+    open: {
+      at: first.firstCapturedAt.toISOString(),
+      line: first.openLine,
+      price: first.openPrice,
+    },
+    points: candles.map((candle) => ({
+      at: candle.lastCapturedAt.toISOString(),
+      line: candle.closeLine,
+      price: candle.closePrice,
+    })),
+    snapshotCount: candles.reduce(
+      (total, candle) => total + candle.snapshotCount,
+      0,
+    ),
+  };
+}
+
+/** American odds to implied win probability, vig included. */
+export function americanImpliedProbability(
+  price: number | null,
+): number | null {
+  if (price === null || !Number.isFinite(price) || price === 0) {
+    return null;
+  }
+  return price < 0 ? -price / (-price + 100) : 100 / (price + 100);
+}
+
+function sidePrice(
+  quote: Omit<LineMovementQuote, "capturedAt">,
+  selection: string,
+): number | null {
+  switch (selection) {
+    case "home":
+      return quote.homePrice;
+    case "away":
+      return quote.awayPrice;
+    case "over":
+    case "player_over":
+      return quote.overPrice;
+    case "under":
+    case "player_under":
+      return quote.underPrice;
+    default:
+      return quote.outcomePrice;
+  }
+}
+
+function round(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Signed CLV for one pick: positive when the market moved toward the picker
+ * after they locked.
+ *
+ * Spreads and totals compare lines, in points. The spread line is the home
+ * line, so the home side gains when the close is more negative and the away
+ * side gains when it is more positive. When the line did not move, or the
+ * market has no line, the side's implied probability decides instead, in
+ * percentage points: a shorter closing price means the locked price was the
+ * better one. Returns null when there is nothing comparable.
+ */
+export function closingLineValue(input: {
+  closing: Omit<LineMovementQuote, "capturedAt">;
+  locked: Omit<LineMovementQuote, "capturedAt">;
+  marketType: BettingMarketType;
+  selection: string;
+}): number | null {
+  const { closing, locked } = input;
+  if (
+    input.marketType !== "moneyline" &&
+    locked.line !== null &&
+    closing.line !== null
+  ) {
+    const moved = closing.line - locked.line;
+    if (Math.abs(moved) >= 1e-9) {
+      const gainsWhenLineRises =
+        input.selection === "away" ||
+        input.selection === "over" ||
+        input.selection === "player_over";
+      return round(gainsWhenLineRises ? moved : -moved);
+    }
+  }
+
+  const lockedProbability = americanImpliedProbability(
+    sidePrice(locked, input.selection),
+  );
+  const closingProbability = americanImpliedProbability(
+    sidePrice(closing, input.selection),
+  );
+  if (lockedProbability === null || closingProbability === null) {
+    return null;
+  }
+  return round((closingProbability - lockedProbability) * 100);
+}
+
+export interface RefreshLineMovementResult {
+  readonly candles: number;
+  readonly markets: number;
+}
+
+/**
+ * Recompresses the given markets from their raw snapshots. Whole markets are
+ * rebuilt rather than patched bucket by bucket: a market holds at most a few
+ * hundred snapshots, and a full rebuild cannot drift from its source.
+ */
+export async function refreshLineMovement(
+  db: Db,
+  input: { marketIds: readonly string[]; now?: Date },
+): Promise<RefreshLineMovementResult> {
+  const marketIds = [...new Set(input.marketIds)];
+  if (marketIds.length === 0) {
+    return { candles: 0, markets: 0 };
+  }
+  const now = input.now ?? new Date();
+  const snapshots = await db
+    .select({
+      awayPrice: oddsSnapshots.awayPrice,
+      capturedAt: oddsSnapshots.capturedAt,
+      homePrice: oddsSnapshots.homePrice,
+      line: oddsSnapshots.line,
+      marketId: oddsSnapshots.marketId,
+      outcomePrice: oddsSnapshots.outcomePrice,
+      overPrice: oddsSnapshots.overPrice,
+      underPrice: oddsSnapshots.underPrice,
+    })
+    .from(oddsSnapshots)
+    .where(inArray(oddsSnapshots.marketId, marketIds))
+    .orderBy(asc(oddsSnapshots.capturedAt));
+
+  const byMarket = new Map<string, LineMovementQuote[]>();
+  for (const { marketId, ...quote } of snapshots) {
+    const rows = byMarket.get(marketId) ?? [];
+    rows.push(quote);
+    byMarket.set(marketId, rows);
+  }
+
+  const values: NewOddsLineMovement[] = [...byMarket].flatMap(
+    ([marketId, quotes]) =>
+      compressOddsSnapshots(quotes).map((candle) => ({
+        ...candle,
+        marketId,
+        updatedAt: now,
+      })),
+  );
+  if (values.length > 0) {
+    await db
+      .insert(oddsLineMovement)
+      .values(values)
+      .onConflictDoUpdate({
+        set: {
+          closeLine: sql`excluded.close_line`,
+          closePrice: sql`excluded.close_price`,
+          firstCapturedAt: sql`excluded.first_captured_at`,
+          highLine: sql`excluded.high_line`,
+          highPrice: sql`excluded.high_price`,
+          lastCapturedAt: sql`excluded.last_captured_at`,
+          lowLine: sql`excluded.low_line`,
+          lowPrice: sql`excluded.low_price`,
+          openLine: sql`excluded.open_line`,
+          openPrice: sql`excluded.open_price`,
+          snapshotCount: sql`excluded.snapshot_count`,
+          updatedAt: sql`excluded.updated_at`,
+        },
+        target: [oddsLineMovement.marketId, oddsLineMovement.bucketStart],
+      });
+  }
+
+  return { candles: values.length, markets: byMarket.size };
+}
+
+/**
+ * Reads the stored candles for the given markets, keyed by market id. The
+ * candles are central catalog rows, so a league-scoped transaction reads them
+ * as freely as the root handle does.
+ */
+export async function loadLineMovement(
+  db: Db | LeagueScopedTx,
+  marketIds: readonly string[],
+): Promise<Map<string, LineMovementSeries>> {
+  if (marketIds.length === 0) {
+    return new Map();
+  }
+  const rows = await db
+    .select()
+    .from(oddsLineMovement)
+    .where(inArray(oddsLineMovement.marketId, [...new Set(marketIds)]))
+    .orderBy(asc(oddsLineMovement.bucketStart));
+
+  const byMarket = new Map<string, LineMovementCandle[]>();
+  for (const row of rows) {
+    const candles = byMarket.get(row.marketId) ?? [];
+    candles.push(row);
+    byMarket.set(row.marketId, candles);
+  }
+  const series = new Map<string, LineMovementSeries>();
+  for (const [marketId, candles] of byMarket) {
+    const summary = summarizeLineMovement(marketId, candles);
+    if (summary) {
+      series.set(marketId, summary);
+    }
+  }
+  return series;
+}
+
+export interface RecordClosingLineValuesResult {
+  readonly bettingEventId: string;
+  readonly leagueIds: readonly string[];
+  readonly recorded: number;
+}
+
+/**
+ * Stamps every pick on a started event with the closing quote and its CLV.
+ *
+ * The close is the last snapshot captured at or before kickoff; anything later
+ * is an in-game line no pick could have been made against. Only picks without
+ * a closing quote are touched, so a retry never rewrites a recorded close.
+ */
+export async function recordClosingLineValues(
+  db: Db,
+  input: { bettingEventId: string },
+): Promise<RecordClosingLineValuesResult> {
+  const [event] = await db
+    .select({ startTime: bettingEvents.startTime })
+    .from(bettingEvents)
+    .where(eq(bettingEvents.id, input.bettingEventId))
+    .limit(1);
+  if (!event) {
+    return { bettingEventId: input.bettingEventId, leagueIds: [], recorded: 0 };
+  }
+
+  const closingRows = await db
+    .select({
+      awayPrice: oddsSnapshots.awayPrice,
+      capturedAt: oddsSnapshots.capturedAt,
+      homePrice: oddsSnapshots.homePrice,
+      id: oddsSnapshots.id,
+      line: oddsSnapshots.line,
+      marketId: oddsSnapshots.marketId,
+      outcomePrice: oddsSnapshots.outcomePrice,
+      overPrice: oddsSnapshots.overPrice,
+      underPrice: oddsSnapshots.underPrice,
+    })
+    .from(oddsSnapshots)
+    .innerJoin(bettingMarkets, eq(bettingMarkets.id, oddsSnapshots.marketId))
+    .where(
+      and(
+        eq(bettingMarkets.eventId, input.bettingEventId),
+        lte(oddsSnapshots.capturedAt, event.startTime),
+      ),
+    )
+    .orderBy(asc(oddsSnapshots.capturedAt), asc(oddsSnapshots.createdAt));
+  // Rows arrive oldest first, so the last one written per market is its close.
+  const closingByMarket = new Map(
+    closingRows.map((row) => [row.marketId, row]),
+  );
+  if (closingByMarket.size === 0) {
+    return { bettingEventId: input.bettingEventId, leagueIds: [], recorded: 0 };
+  }
+
+  // League ids only, read centrally for the same reason the grader does:
+  // picks are RLS-protected, so each league's writes run in its own context.
+  const leagueRows = await db
+    .selectDistinct({ leagueId: picks.leagueId })
+    .from(picks)
+    .innerJoin(bettingMarkets, eq(bettingMarkets.id, picks.marketId))
+    .where(
+      and(
+        eq(bettingMarkets.eventId, input.bettingEventId),
+        isNull(picks.closingOddsSnapshotId),
+      ),
+    );
+
+  let recorded = 0;
+  const leagueIds: string[] = [];
+  for (const { leagueId } of leagueRows) {
+    const count = await withLeagueContext(db, leagueId, async (tx) => {
+      const open = await tx
+        .select({
+          awayPrice: oddsSnapshots.awayPrice,
+          homePrice: oddsSnapshots.homePrice,
+          lockedLine: picks.lockedLine,
+          marketId: picks.marketId,
+          marketType: bettingMarkets.type,
+          outcomePrice: oddsSnapshots.outcomePrice,
+          overPrice: oddsSnapshots.overPrice,
+          pickId: picks.id,
+          selection: picks.selection,
+          snapshotLine: oddsSnapshots.line,
+          underPrice: oddsSnapshots.underPrice,
+        })
+        .from(picks)
+        .innerJoin(bettingMarkets, eq(bettingMarkets.id, picks.marketId))
+        .innerJoin(oddsSnapshots, eq(oddsSnapshots.id, picks.oddsSnapshotId))
+        .where(
+          and(
+            eq(picks.leagueId, leagueId),
+            eq(bettingMarkets.eventId, input.bettingEventId),
+            isNull(picks.closingOddsSnapshotId),
+          ),
+        );
+
+      let updated = 0;
+      for (const row of open) {
+        const closing = closingByMarket.get(row.marketId);
+        if (!closing) continue;
+        await tx
+          .update(picks)
+          .set({
+            closingLine: closing.line,
+            closingLineValue: closingLineValue({
+              closing,
+              locked: {
+                ...row,
+                line: row.lockedLine ?? row.snapshotLine,
+              },
+              marketType: row.marketType,
+              selection: row.selection,
+            }),
+            closingOddsSnapshotId: closing.id,
+          })
+          .where(
+            and(
+              eq(picks.leagueId, leagueId),
+              eq(picks.id, row.pickId),
+              isNull(picks.closingOddsSnapshotId),
+            ),
+          );
+        updated += 1;
+      }
+      return updated;
+    });
+    recorded += count;
+    if (count > 0) {
+      leagueIds.push(leagueId);
+    }
+  }
+
+  return { bettingEventId: input.bettingEventId, leagueIds, recorded };
+}
@@ -9,19 +9,18 @@ import type {
   ResultsProvider,
   ResultsProviderInput,
 } from "./interfaces";
+import type { PlayerPropType } from "./player-props";
 
 const MOCK_PROVIDER = "mock_odds";
 const MOCK_RESULTS_PROVIDER = "mock_results";
 const MOCK_CAPTURED_AT = new Date("2026-09-10T12:00:00.000Z");
 
-type MockPropType = "passing_yards" | "receptions" | "rushing_yards";
-
 type MockPlayerPropFixture = {
   line: number;
   overPrice: number;
   playerId: string;
   playerName: string;
-  propType: MockPropType;
+  propType: PlayerPropType;
   stat: number;
   underPrice: number;
 };
@@ -67,6 +66,15 @@ const MOCK_EVENT_FIXTURES: MockEventFixture[] = [
         stat: 5,
         underPrice: -125,
       },
+      {
+        line: 0.5,
+        overPrice: 145,
+        playerId: "mock-sea-te",
+        playerName: "Mock Tight End",
+        propType: "anytime_td",
+        stat: 1,
+        underPrice: -180,
+      },
     ],
     providerEventId: "mock-nfl-2026-week-01-ari-sea",
     spread: { awayPrice: -110, homePrice: -110, line: -2.5 },
@@ -90,6 +98,15 @@ const MOCK_EVENT_FIXTURES: MockEventFixture[] = [
         stat: 71,
         underPrice: -118,
       },
+      {
+        line: 58.5,
+        overPrice: -110,
+        playerId: "mock-nyj-wr",
+        playerName: "Fixture Flanker",
+        propType: "receiving_yards",
+        stat: 44,
+        underPrice: -110,
+      },
     ],
     providerEventId: "mock-nfl-2026-week-01-nyj-buf",
     spread: { awayPrice: -112, homePrice: -108, line: -3.5 },
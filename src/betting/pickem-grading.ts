@@ -45,6 +45,14 @@ export interface GradePicksForEventResult {
   readonly skipped: number;
   /** Leagues whose standings are now stale and need a rebuild. */
   readonly affectedLeagueIds: readonly string[];
+  /**
+   * Weeks this run graded the last pending pick of. A week with picks on
+   * later games stays out until its final game grades.
+   */
+  readonly completedPickWeeks: readonly {
+    readonly leagueId: string;
+    readonly pickWeekId: string;
+  }[];
 }
 
 /**
@@ -69,6 +77,7 @@ export async function gradePicksForEvent(
   const empty: GradePicksForEventResult = {
     affectedLeagueIds: [],
     bettingEventId: input.bettingEventId,
+    completedPickWeeks: [],
     correct: 0,
     incorrect: 0,
     skipped: 0,
@@ -101,6 +110,7 @@ export async function gradePicksForEvent(
   let voided = 0;
   let skipped = 0;
   const affectedLeagueIds: string[] = [];
+  const completedPickWeeks: { leagueId: string; pickWeekId: string }[] = [];
 
   for (const { leagueId } of leagueRows) {
     const graded = await withLeagueContext(db, leagueId, async (tx) => {
@@ -110,6 +120,7 @@ export async function gradePicksForEvent(
           marketSubject: bettingMarkets.subject,
           marketType: bettingMarkets.type,
           pickId: picks.id,
+          pickWeekId: picks.pickWeekId,
           propType: bettingMarkets.propType,
           selection: picks.selection,
           // The line the user was shown, used only when the pick did not
@@ -128,6 +139,7 @@ export async function gradePicksForEvent(
         );
 
       const byOutcome = new Map<string, string[]>();
+      const gradedWeekIds = new Set<string>();
       let localSkipped = 0;
 
       for (const row of pending) {
@@ -158,6 +170,7 @@ export async function gradePicksForEvent(
         const ids = byOutcome.get(status) ?? [];
         ids.push(row.pickId);
         byOutcome.set(status, ids);
+        gradedWeekIds.add(row.pickWeekId);
       }
 
       const counts = { correct: 0, incorrect: 0, void: 0 };
@@ -182,7 +195,28 @@ export async function gradePicksForEvent(
         counts[status as keyof typeof counts] = ids.length;
       }
 
-      return { ...counts, skipped: localSkipped };
+      const stillPending =
+        gradedWeekIds.size > 0
+          ? await tx
+              .selectDistinct({ pickWeekId: picks.pickWeekId })
+              .from(picks)
+              .where(
+                and(
+                  eq(picks.leagueId, leagueId),
+                  inArray(picks.pickWeekId, [...gradedWeekIds]),
+                  eq(picks.status, "pending"),
+                ),
+              )
+          : [];
+      const pendingWeekIds = new Set(stillPending.map((row) => row.pickWeekId));
+
+      return {
+        ...counts,
+        completedWeekIds: [...gradedWeekIds].filter(
+          (pickWeekId) => !pendingWeekIds.has(pickWeekId),
+        ),
+        skipped: localSkipped,
+      };
     });
 
     correct += graded.correct;
@@ -192,11 +226,15 @@ export async function gradePicksForEvent(
     if (graded.correct + graded.incorrect + graded.void > 0) {
       affectedLeagueIds.push(leagueId);
     }
+    for (const pickWeekId of graded.completedWeekIds) {
+      completedPickWeeks.push({ leagueId, pickWeekId });
+    }
   }
 
   return {
     affectedLeagueIds,
     bettingEventId: input.bettingEventId,
+    completedPickWeeks,
     correct,
     incorrect,
     skipped,
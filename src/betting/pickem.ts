@@ -1,4 +1,5 @@
 import { and, count, eq, sql } from "drizzle-orm";
+import { logger } from "@/core/logging";
 import { AppError } from "@/core/result";
 import type { Db, LeagueScopedTx } from "@/db";
 import { withLeagueContext } from "@/db/rls";
@@ -9,7 +10,9 @@ import {
   picks,
   pickWeeks,
 } from "@/db/schema";
+import type { WebhookDeliverer } from "@/webhooks";
 import { DEFAULT_MAX_PICKS_PER_USER } from "./pickem-scoring";
+import { loadRosteredNflPlayers } from "./player-prop-markets";
 
 /**
  * Pick submission for the inter-league Pick 'em competition.
@@ -186,6 +189,8 @@ export async function submitPick(
         line: oddsSnapshots.line,
         marketId: bettingMarkets.id,
         marketStatus: bettingMarkets.status,
+        marketType: bettingMarkets.type,
+        nflPlayerId: bettingMarkets.nflPlayerId,
         snapshotId: oddsSnapshots.id,
       })
       .from(oddsSnapshots)
@@ -219,6 +224,19 @@ export async function submitPick(
       );
     }
 
+    // The desk only offers props on players rostered in this league; the
+    // server holds the same line so a hand-built request cannot widen it.
+    if (snapshot.marketType === "player_prop") {
+      const rostered = await loadRosteredNflPlayers(tx, input.leagueId);
+      if (!snapshot.nflPlayerId || !rostered.has(snapshot.nflPlayerId)) {
+        throw appError(
+          "PICK_PROP_NOT_ROSTERED",
+          "Props are only offered on players rostered in this league",
+          409,
+        );
+      }
+    }
+
     const [inserted] = await tx
       .insert(picks)
       .values({
@@ -285,10 +303,14 @@ export interface OpenPickWeekInput {
  * recomputed, so a league cannot shrink its own denominator mid-week by cutting
  * inactive members. Re-opening the same (league, season, week) is idempotent
  * and deliberately does NOT re-snapshot, for the same reason.
+ *
+ * Only the open that creates the week announces it to league webhooks; a
+ * re-open is a no-op and stays quiet.
  */
 export async function openPickWeek(
   db: Db,
   input: OpenPickWeekInput,
+  options: { webhooks?: WebhookDeliverer } = {},
 ): Promise<{ pickWeekId: string; created: boolean }> {
   if (input.rosterSize <= 0) {
     throw appError(
@@ -298,6 +320,37 @@ export async function openPickWeek(
     );
   }
 
+  const opened = await insertPickWeek(db, input);
+  if (opened.created && options.webhooks) {
+    try {
+      await options.webhooks.deliverLeagueEvent({
+        event: {
+          data: {
+            closesAt: input.closesAt.toISOString(),
+            pickWeekId: opened.pickWeekId,
+            season: input.season,
+            week: input.week,
+          },
+          key: opened.pickWeekId,
+          type: "picks.week_opened",
+        },
+        leagueId: input.leagueId,
+      });
+    } catch (error) {
+      logger.warn("Webhook pick week-opened delivery failed", {
+        error,
+        leagueId: input.leagueId,
+        pickWeekId: opened.pickWeekId,
+      });
+    }
+  }
+  return opened;
+}
+
+async function insertPickWeek(
+  db: Db,
+  input: OpenPickWeekInput,
+): Promise<{ pickWeekId: string; created: boolean }> {
   return withLeagueContext(db, input.leagueId, async (tx) => {
     const [inserted] = await tx
       .insert(pickWeeks)
@@ -348,6 +401,8 @@ export interface PickWeekTallyRow {
   readonly voidPicks: number;
   readonly rosterSize: number;
   readonly maxPicksPerUser: number;
+  readonly season: number;
+  readonly week: number;
 }
 
 /** Loads the graded totals a week's score is computed from. */
@@ -360,6 +415,8 @@ export async function loadPickWeekTally(
       .select({
         maxPicksPerUser: pickWeeks.maxPicksPerUser,
         rosterSize: pickWeeks.rosterSize,
+        season: pickWeeks.season,
+        week: pickWeeks.week,
       })
       .from(pickWeeks)
       .where(
@@ -392,10 +449,12 @@ export async function loadPickWeekTally(
       correctPicks: tally?.correctPicks ?? 0,
       maxPicksPerUser: week.maxPicksPerUser,
       rosterSize: week.rosterSize,
+      season: week.season,
       // A void pick was submitted but is not scorable, so it must not inflate
       // the submitted count the participation gate reads.
       submittedPicks: (tally?.submittedPicks ?? 0) - (tally?.voidPicks ?? 0),
       voidPicks: tally?.voidPicks ?? 0,
+      week: week.week,
     };
   });
 }
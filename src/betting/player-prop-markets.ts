@@ -0,0 +1,208 @@
+import { and, asc, eq, inArray, isNull, max, or, sql } from "drizzle-orm";
+import type { Db } from "@/db";
+import type { LeagueScopedTx } from "@/db/rls";
+import {
+  bettingMarkets,
+  fantasyPlayers,
+  fantasyRosterEntries,
+  fantasyTeams,
+  leagues,
+  nflPlayers,
+} from "@/db/schema";
+import { normalizePlayerName } from "./player-props";
+
+/**
+ * Where prop markets meet the rest of the product: the link from a market to
+ * the `nfl_players` row that grades it, and the league rosters that decide
+ * which props a league's Pick 'em desk offers.
+ */
+
+function metadataPlayerName(metadata: Record<string, unknown>): string | null {
+  const value = metadata.playerName;
+  return typeof value === "string" && value.trim().length > 0 ? value : null;
+}
+
+export interface LinkPlayerPropMarketsResult {
+  readonly linked: number;
+  readonly unmatched: number;
+}
+
+/**
+ * Links unlinked prop markets to their warehouse player.
+ *
+ * A subject that is a warehouse source id wins outright. Otherwise the
+ * provider's player name has to match exactly one warehouse player; two
+ * players sharing a name stay unlinked rather than grading one of them
+ * against the other's box score.
+ */
+export async function linkPlayerPropMarkets(
+  db: Db,
+  input: { marketIds: readonly string[] },
+): Promise<LinkPlayerPropMarketsResult> {
+  if (input.marketIds.length === 0) {
+    return { linked: 0, unmatched: 0 };
+  }
+
+  const markets = await db
+    .select({
+      id: bettingMarkets.id,
+      metadata: bettingMarkets.metadata,
+      subject: bettingMarkets.subject,
+    })
+    .from(bettingMarkets)
+    .where(
+      and(
+        inArray(bettingMarkets.id, [...input.marketIds]),
+        eq(bettingMarkets.type, "player_prop"),
+        isNull(bettingMarkets.nflPlayerId),
+      ),
+    );
+  if (markets.length === 0) {
+    return { linked: 0, unmatched: 0 };
+  }
+
+  const subjects = [...new Set(markets.map((market) => market.subject))];
+  const names = [
+    ...new Set(
+      markets.flatMap((market) => {
+        const name = metadataPlayerName(market.metadata);
+        return name ? [name.toLowerCase()] : [];
+      }),
+    ),
+  ];
+  const candidates = await db
+    .select({
+      fullName: nflPlayers.fullName,
+      id: nflPlayers.id,
+      sourcePlayerId: nflPlayers.sourcePlayerId,
+    })
+    .from(nflPlayers)
+    .where(
+      or(
+        inArray(nflPlayers.sourcePlayerId, subjects),
+        names.length > 0
+          ? inArray(sql`lower(${nflPlayers.fullName})`, names)
+          : undefined,
+      ),
+    );
+
+  const bySourceId = new Map<string, string>();
+  const byName = new Map<string, string[]>();
+  for (const player of candidates) {
+    bySourceId.set(player.sourcePlayerId, player.id);
+    const key = normalizePlayerName(player.fullName);
+    byName.set(key, [...(byName.get(key) ?? []), player.id]);
+  }
+
+  let linked = 0;
+  for (const market of markets) {
+    const name = metadataPlayerName(market.metadata);
+    const named = name ? byName.get(normalizePlayerName(name)) : undefined;
+    const nflPlayerId =
+      bySourceId.get(market.subject) ??
+      (named?.length === 1 ? named[0] : undefined);
+    if (!nflPlayerId) {
+      continue;
+    }
+    await db
+      .update(bettingMarkets)
+      .set({ nflPlayerId, updatedAt: new Date() })
+      .where(
+        and(
+          eq(bettingMarkets.id, market.id),
+          isNull(bettingMarkets.nflPlayerId),
+        ),
+      );
+    linked += 1;
+  }
+
+  return { linked, unmatched: markets.length - linked };
+}
+
+/**
+ * Warehouse players on a roster in this league, to the fantasy team that
+ * holds them. Reads the latest roster snapshot of the league's season; a
+ * roster player with no warehouse match is left out, since no prop can name
+ * them.
+ */
+export async function loadRosteredNflPlayers(
+  tx: LeagueScopedTx,
+  leagueId: string,
+): Promise<Map<string, string>> {
+  const [league] = await tx
+    .select({ provider: leagues.provider, season: leagues.season })
+    .from(leagues)
+    .where(eq(leagues.id, leagueId))
+    .limit(1);
+  if (!league) {
+    return new Map();
+  }
+
+  const [latest] = await tx
+    .select({ scoringPeriod: max(fantasyRosterEntries.scoringPeriod) })
+    .from(fantasyRosterEntries)
+    .where(
+      and(
+        eq(fantasyRosterEntries.leagueId, leagueId),
+        eq(fantasyRosterEntries.season, league.season),
+      ),
+    );
+  if (latest?.scoringPeriod === null || latest?.scoringPeriod === undefined) {
+    return new Map();
+  }
+
+  const rows = await tx
+    .select({
+      nflPlayerId: fantasyPlayers.nflPlayerId,
+      providerPlayerId: fantasyRosterEntries.providerPlayerId,
+      teamName: fantasyTeams.name,
+    })
+    .from(fantasyRosterEntries)
+    .leftJoin(
+      fantasyPlayers,
+      eq(fantasyRosterEntries.fantasyPlayerId, fantasyPlayers.id),
+    )
+    .innerJoin(
+      fantasyTeams,
+      and(
+        eq(fantasyTeams.leagueId, fantasyRosterEntries.leagueId),
+        eq(fantasyTeams.season, fantasyRosterEntries.season),
+        eq(fantasyTeams.providerTeamId, fantasyRosterEntries.providerTeamId),
+      ),
+    )
+    .where(
+      and(
+        eq(fantasyRosterEntries.leagueId, leagueId),
+        eq(fantasyRosterEntries.season, league.season),
+        eq(fantasyRosterEntries.scoringPeriod, latest.scoringPeriod),
+      ),
+    )
+    .orderBy(asc(fantasyRosterEntries.providerPlayerId));
+
+  // Roster rows written before the player catalog linked them still match
+  // through the warehouse's own record of provider ids.
+  const unlinked = rows
+    .filter((row) => !row.nflPlayerId)
+    .map((row) => row.providerPlayerId);
+  const byProviderId = new Map<string, string>();
+  if (unlinked.length > 0) {
+    const providerId = sql<string>`${nflPlayers.fantasyProviderIds} ->> ${league.provider}`;
+    const matches = await tx
+      .select({ id: nflPlayers.id, providerPlayerId: providerId })
+      .from(nflPlayers)
+      .where(inArray(providerId, unlinked));
+    for (const match of matches) {
+      byProviderId.set(match.providerPlayerId, match.id);
+    }
+  }
+
+  const rostered = new Map<string, string>();
+  for (const row of rows) {
+    const nflPlayerId =
+      row.nflPlayerId ?? byProviderId.get(row.providerPlayerId);
+    if (nflPlayerId && !rostered.has(nflPlayerId)) {
+      rostered.set(nflPlayerId, row.teamName);
+    }
+  }
+  return rostered;
+}
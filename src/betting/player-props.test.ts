@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizePlayerName,
+  PLAYER_PROP_TYPES,
+  PLAYER_PROPS,
+  playerPropForOddsApiMarket,
+  playerPropStat,
+} from "./player-props";
+import { mergePlayerStats } from "./player-stats-results";
+
+const line = {
+  passingYards: 281,
+  receivingTouchdowns: 1,
+  receivingYards: 12,
+  receptions: 2,
+  rushingTouchdowns: 1,
+  rushingYards: 18,
+};
+
+describe("player prop catalog", () => {
+  it("maps every supported prop to and from its odds API market", () => {
+    for (const propType of PLAYER_PROP_TYPES) {
+      expect(
+        playerPropForOddsApiMarket(PLAYER_PROPS[propType].oddsApiMarket),
+      ).toBe(propType);
+    }
+    expect(playerPropForOddsApiMarket("player_tackles")).toBeNull();
+  });
+
+  it("reads each prop off a warehouse stat line", () => {
+    expect(playerPropStat("passing_yards", line)).toBe(281);
+    expect(playerPropStat("receptions", line)).toBe(2);
+    // Scoring touchdowns count; thrown ones do not.
+    expect(playerPropStat("anytime_td", line)).toBe(2);
+  });
+
+  it("normalizes names across sources", () => {
+    expect(normalizePlayerName("Kenneth Walker III")).toBe("kenneth walker");
+    expect(normalizePlayerName("D'Andre Swift")).toBe("dandre swift");
+    expect(normalizePlayerName("A.J. Brown Jr.")).toBe("aj brown");
+  });
+});
+
+describe("mergePlayerStats", () => {
+  it("lets warehouse stats win for the same subject and prop", () => {
+    expect(
+      mergePlayerStats(
+        [{ playerId: "qb", stats: { passing_yards: 250, receptions: 0 } }],
+        [
+          { playerId: "qb", stats: { passing_yards: 281 } },
+          { playerId: "wr", stats: { receptions: 6 } },
+        ],
+      ),
+    ).toEqual([
+      { playerId: "qb", stats: { passing_yards: 281, receptions: 0 } },
+      { playerId: "wr", stats: { receptions: 6 } },
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import type { nflPlayerWeekStats } from "@/db/schema";
+
+/**
+ * Player prop catalog.
+ *
+ * A prop market arrives with the odds provider's own player subject and a
+ * `propType`. This module owns the props the product supports and how each
+ * one reads off a warehouse stat line. It stays free of database imports so
+ * the Pick 'em desk can label props in the browser.
+ *
+ * Anytime touchdown is a yes/no market. It is stored as an over/under on 0.5
+ * touchdowns so the shared grader settles it with the same comparison as every
+ * other prop: "yes" is the over, "no" is the under.
+ */
+
+export const PLAYER_PROP_TYPES = [
+  "passing_yards",
+  "rushing_yards",
+  "receiving_yards",
+  "receptions",
+  "anytime_td",
+] as const;
+
+export type PlayerPropType = (typeof PLAYER_PROP_TYPES)[number];
+
+export interface PlayerPropDefinition {
+  readonly label: string;
+  /** The Odds API market key for this prop. */
+  readonly oddsApiMarket: string;
+  /** Yes/no props are stored as over/under on {@link YES_NO_PROP_LINE}. */
+  readonly yesNo: boolean;
+}
+
+export const PLAYER_PROPS: Readonly<
+  Record<PlayerPropType, PlayerPropDefinition>
+> = {
+  anytime_td: {
+    label: "Anytime TD",
+    oddsApiMarket: "player_anytime_td",
+    yesNo: true,
+  },
+  passing_yards: {
+    label: "Passing yards",
+    oddsApiMarket: "player_pass_yds",
+    yesNo: false,
+  },
+  receiving_yards: {
+    label: "Receiving yards",
+    oddsApiMarket: "player_reception_yds",
+    yesNo: false,
+  },
+  receptions: {
+    label: "Receptions",
+    oddsApiMarket: "player_receptions",
+    yesNo: false,
+  },
+  rushing_yards: {
+    label: "Rushing yards",
+    oddsApiMarket: "player_rush_yds",
+    yesNo: false,
+  },
+};
+
+export const YES_NO_PROP_LINE = 0.5;
+
+export function isPlayerPropType(value: unknown): value is PlayerPropType {
+  return (
+    typeof value === "string" &&
+    (PLAYER_PROP_TYPES as readonly string[]).includes(value)
+  );
+}
+
+export function playerPropForOddsApiMarket(
+  marketKey: string,
+): PlayerPropType | null {
+  return (
+    PLAYER_PROP_TYPES.find(
+      (propType) => PLAYER_PROPS[propType].oddsApiMarket === marketKey,
+    ) ?? null
+  );
+}
+
+/** Reads one prop's graded value off a warehouse stat line. */
+export function playerPropStat(
+  propType: PlayerPropType,
+  stat: Pick<
+    typeof nflPlayerWeekStats.$inferSelect,
+    | "passingYards"
+    | "receivingTouchdowns"
+    | "receivingYards"
+    | "receptions"
+    | "rushingTouchdowns"
+    | "rushingYards"
+  >,
+): number {
+  switch (propType) {
+    case "passing_yards":
+      return stat.passingYards;
+    case "rushing_yards":
+      return stat.rushingYards;
+    case "receiving_yards":
+      return stat.receivingYards;
+    case "receptions":
+      return stat.receptions;
+    case "anytime_td":
+      // Scoring a touchdown, not throwing one: passing TDs do not count.
+      return stat.rushingTouchdowns + stat.receivingTouchdowns;
+  }
+}
+
+/** Case, punctuation and generational suffixes differ between sources. */
+export function normalizePlayerName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/\b(jr|sr|ii|iii|iv|v)\b/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
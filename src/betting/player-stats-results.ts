@@ -0,0 +1,206 @@
+import { and, eq, gte, inArray, isNotNull, lte } from "drizzle-orm";
+import type { Db } from "@/db";
+import {
+  bettingMarkets,
+  nflPlayers,
+  nflPlayerWeekStats,
+  nflSchedule,
+} from "@/db/schema";
+import type {
+  EventResult,
+  ResultsPlayerStat,
+  ResultsProvider,
+  ResultsProviderEvent,
+  ResultsProviderInput,
+} from "./interfaces";
+import { isPlayerPropType, playerPropStat } from "./player-props";
+
+/**
+ * Grades player props from the stats warehouse.
+ *
+ * The scores provider keys its box score by its own player ids, which no prop
+ * market carries. This provider wraps it: scores and status come from the
+ * delegate, and every linked prop on the event gets its stat from
+ * `nfl_player_week_stats`, keyed by the market's subject so the shared grader
+ * finds it.
+ *
+ * The warehouse usually lands after the final whistle. Until every linked
+ * player's game has stat lines, the result says so through
+ * `playerStatsComplete: false`, and the grader leaves those props pending
+ * instead of voiding them. Once the game is loaded, a player with no line did
+ * not play and the prop voids, as a sportsbook would.
+ */
+
+/** How far a warehouse game time may sit from the betting event's kickoff. */
+const GAME_MATCH_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * After this long the warehouse is presumed complete, so a prop on a game
+ * that never loaded voids instead of waiting forever.
+ */
+export const PLAYER_STATS_GRACE_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface WarehousePlayerStats {
+  readonly complete: boolean;
+  readonly playerStats: readonly ResultsPlayerStat[];
+}
+
+/** Warehouse stat lines for the linked props on one event. */
+export async function loadWarehousePlayerStats(
+  db: Db,
+  input: { event: Pick<ResultsProviderEvent, "id" | "startTime">; now: Date },
+): Promise<WarehousePlayerStats> {
+  const markets = await db
+    .select({
+      nflPlayerId: bettingMarkets.nflPlayerId,
+      propType: bettingMarkets.propType,
+      subject: bettingMarkets.subject,
+    })
+    .from(bettingMarkets)
+    .where(
+      and(
+        eq(bettingMarkets.eventId, input.event.id),
+        eq(bettingMarkets.type, "player_prop"),
+        isNotNull(bettingMarkets.nflPlayerId),
+      ),
+    );
+  if (markets.length === 0) {
+    return { complete: true, playerStats: [] };
+  }
+
+  const playerIds = [
+    ...new Set(markets.flatMap((row) => row.nflPlayerId ?? [])),
+  ];
+  const from = new Date(input.event.startTime.getTime() - GAME_MATCH_WINDOW_MS);
+  const to = new Date(input.event.startTime.getTime() + GAME_MATCH_WINDOW_MS);
+
+  const players = await db
+    .select({ id: nflPlayers.id, team: nflPlayers.team })
+    .from(nflPlayers)
+    .where(inArray(nflPlayers.id, playerIds));
+  const teams = [...new Set(players.map((player) => player.team))];
+  const games =
+    teams.length > 0
+      ? await db
+          .select({
+            awayTeam: nflSchedule.awayTeam,
+            homeTeam: nflSchedule.homeTeam,
+            source: nflSchedule.source,
+            sourceGameId: nflSchedule.sourceGameId,
+          })
+          .from(nflSchedule)
+          .where(
+            and(
+              gte(nflSchedule.gameTime, from),
+              lte(nflSchedule.gameTime, to),
+              eq(nflSchedule.status, "final"),
+            ),
+          )
+      : [];
+  const teamGames = games.filter(
+    (game) => teams.includes(game.homeTeam) || teams.includes(game.awayTeam),
+  );
+  const gameIds = [...new Set(teamGames.map((game) => game.sourceGameId))];
+
+  const loaded =
+    gameIds.length > 0
+      ? await db
+          .selectDistinct({ sourceGameId: nflPlayerWeekStats.sourceGameId })
+          .from(nflPlayerWeekStats)
+          .where(inArray(nflPlayerWeekStats.sourceGameId, gameIds))
+      : [];
+  const loadedGameIds = new Set(loaded.map((row) => row.sourceGameId));
+
+  const lines =
+    gameIds.length > 0
+      ? await db
+          .select()
+          .from(nflPlayerWeekStats)
+          .where(
+            and(
+              inArray(nflPlayerWeekStats.playerId, playerIds),
+              inArray(nflPlayerWeekStats.sourceGameId, gameIds),
+            ),
+          )
+      : [];
+  const lineByPlayer = new Map(lines.map((line) => [line.playerId, line]));
+
+  const gameLoaded = players.every((player) =>
+    teamGames.some(
+      (game) =>
+        (game.homeTeam === player.team || game.awayTeam === player.team) &&
+        loadedGameIds.has(game.sourceGameId),
+    ),
+  );
+  const pastGrace =
+    input.now.getTime() - input.event.startTime.getTime() >=
+    PLAYER_STATS_GRACE_MS;
+
+  const bySubject = new Map<string, Record<string, number>>();
+  for (const market of markets) {
+    const line = market.nflPlayerId
+      ? lineByPlayer.get(market.nflPlayerId)
+      : undefined;
+    if (!line || !isPlayerPropType(market.propType)) {
+      continue;
+    }
+    bySubject.set(market.subject, {
+      ...bySubject.get(market.subject),
+      [market.propType]: playerPropStat(market.propType, line),
+    });
+  }
+
+  return {
+    complete: gameLoaded || pastGrace,
+    playerStats: [...bySubject].map(([playerId, stats]) => ({
+      playerId,
+      stats,
+    })),
+  };
+}
+
+/** Warehouse stats win over the delegate's for the same subject and prop. */
+export function mergePlayerStats(
+  base: readonly ResultsPlayerStat[],
+  overrides: readonly ResultsPlayerStat[],
+): ResultsPlayerStat[] {
+  const merged = new Map(
+    base.map((entry) => [entry.playerId, { ...entry.stats }]),
+  );
+  for (const entry of overrides) {
+    merged.set(entry.playerId, {
+      ...merged.get(entry.playerId),
+      ...entry.stats,
+    });
+  }
+  return [...merged].map(([playerId, stats]) => ({ playerId, stats }));
+}
+
+export class PlayerStatsResultsProvider implements ResultsProvider {
+  readonly id: string;
+
+  constructor(
+    private readonly db: Db,
+    readonly delegate: ResultsProvider,
+  ) {
+    this.id = delegate.id;
+  }
+
+  async getEventResult(input: ResultsProviderInput): Promise<EventResult> {
+    const result = await this.delegate.getEventResult(input);
+    if (result.finalStatus !== "final") {
+      return result;
+    }
+
+    const warehouse = await loadWarehousePlayerStats(this.db, {
+      event: input.event,
+      now: input.now ?? new Date(),
+    });
+    return {
+      ...result,
+      playerStats: mergePlayerStats(result.playerStats, warehouse.playerStats),
+      playerStatsComplete:
+        warehouse.complete && result.playerStatsComplete !== false,
+    };
+  }
+}
@@ -123,6 +123,104 @@ describe("TheOddsApiProvider", () => {
       },
     ]);
   });
+
+  it("maps per-event player props and meters their credits", async () => {
+    const calls: string[] = [];
+    const provider = new TheOddsApiProvider({
+      apiKey: fakeKey(),
+      fetcher: async (url) => {
+        calls.push(url);
+        const event = {
+          away_team: "Dallas Cowboys",
+          commence_time: "2026-09-10T20:20:00.000Z",
+          home_team: "Tampa Bay Buccaneers",
+          id: "fixture-event-1",
+          sport_key: "americanfootball_nfl",
+        };
+        const isPropCall = new URL(url).pathname.includes("/events/");
+        return {
+          json: async () =>
+            isPropCall
+              ? {
+                  ...event,
+                  bookmakers: [
+                    {
+                      key: "fixture_book",
+                      markets: [
+                        {
+                          key: "player_pass_yds",
+                          last_update: "2026-09-10T10:04:00.000Z",
+                          outcomes: [
+                            {
+                              description: "Baker Mayfield",
+                              name: "Over",
+                              point: 241.5,
+                              price: -115,
+                            },
+                            {
+                              description: "Baker Mayfield",
+                              name: "Under",
+                              point: 241.5,
+                              price: -105,
+                            },
+                          ],
+                        },
+                        {
+                          key: "player_anytime_td",
+                          last_update: "2026-09-10T10:05:00.000Z",
+                          outcomes: [
+                            {
+                              description: "CeeDee Lamb",
+                              name: "Yes",
+                              price: 120,
+                            },
+                          ],
+                        },
+                      ],
+                      title: "Fixture Book",
+                    },
+                  ],
+                }
+              : [{ ...event, bookmakers: [] }],
+          ok: true,
+          status: 200,
+          statusText: "OK",
+        };
+      },
+      playerProps: ["passing_yards", "anytime_td"],
+    });
+
+    const odds = await provider.getOdds({
+      providerEventId: "fixture-event-1",
+      sport: "nfl",
+    });
+
+    const propCall = new URL(calls[1]);
+    expect(propCall.pathname).toBe(
+      "/v4/sports/americanfootball_nfl/events/fixture-event-1/odds",
+    );
+    expect(propCall.searchParams.get("markets")).toBe(
+      "player_pass_yds,player_anytime_td",
+    );
+    expect(odds).toMatchObject([
+      {
+        line: 241.5,
+        metadata: { playerName: "Baker Mayfield" },
+        overPrice: -115,
+        providerMarketId:
+          "fixture-event-1:fixture_book:player_pass_yds:baker-mayfield",
+        underPrice: -105,
+      },
+      {
+        line: 0.5,
+        overPrice: 120,
+        underPrice: null,
+      },
+    ]);
+    // Three featured markets on the list call, plus two prop markets, all in
+    // one region.
+    expect(provider.creditsUsed).toBe(5);
+  });
 });
 
 describe("SportsDataIoResultsProvider", () => {
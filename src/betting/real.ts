@@ -13,6 +13,12 @@ import type {
   ResultsProvider,
   ResultsProviderInput,
 } from "./interfaces";
+import {
+  PLAYER_PROPS,
+  type PlayerPropType,
+  playerPropForOddsApiMarket,
+  YES_NO_PROP_LINE,
+} from "./player-props";
 
 type FetchResponse = Pick<Response, "json" | "ok" | "status" | "statusText">;
 type Fetcher = (url: string, init?: RequestInit) => Promise<FetchResponse>;
@@ -50,6 +56,11 @@ export interface TheOddsApiProviderOptions {
   apiKey: string;
   baseUrl?: string;
   fetcher?: Fetcher;
+  /**
+   * Props to request per event. Off by default: props come from the per-event
+   * endpoint, so each event polled costs another `props x regions` credits.
+   */
+  playerProps?: readonly PlayerPropType[];
 }
 
 export interface SportsDataIoResultsProviderOptions {
@@ -158,6 +169,73 @@ function assertResponseArray(value: unknown): TheOddsApiEvent[] {
   return value as TheOddsApiEvent[];
 }
 
+function assertResponseEvent(value: unknown): TheOddsApiEvent {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new AppError({
+      code: "ODDS_PROVIDER_INVALID_RESPONSE",
+      message: "The Odds API returned an invalid event odds response",
+      status: 502,
+    });
+  }
+
+  return value as TheOddsApiEvent;
+}
+
+function playerSubject(playerName: string): string {
+  return playerName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+interface PlayerPropOffer {
+  line: number | null;
+  overPrice: number | null;
+  playerName: string;
+  underPrice: number | null;
+}
+
+/**
+ * Groups a prop market's outcomes by player. The API lists one outcome per
+ * player and side, naming the player in `description`. Yes/no props become an
+ * over/under on the fixed line so they grade like every other prop.
+ */
+function playerPropOffers(
+  market: TheOddsApiMarket,
+  propType: PlayerPropType,
+): PlayerPropOffer[] {
+  const yesNo = PLAYER_PROPS[propType].yesNo;
+  const byPlayer = new Map<string, PlayerPropOffer>();
+  for (const outcome of market.outcomes ?? []) {
+    const playerName = cleanText(outcome.description);
+    const side = cleanText(outcome.name).toLowerCase();
+    if (!playerName) {
+      continue;
+    }
+    const offer = byPlayer.get(playerName) ?? {
+      line: yesNo ? YES_NO_PROP_LINE : null,
+      overPrice: null,
+      playerName,
+      underPrice: null,
+    };
+    if (side === "over" || side === "yes") {
+      offer.overPrice = price(outcome.price);
+    } else if (side === "under" || side === "no") {
+      offer.underPrice = price(outcome.price);
+    } else {
+      continue;
+    }
+    if (!yesNo && typeof outcome.point === "number") {
+      offer.line = outcome.point;
+    }
+    byPlayer.set(playerName, offer);
+  }
+  // A prop nobody can take the over on is not a market.
+  return [...byPlayer.values()].filter(
+    (offer) => offer.overPrice !== null && offer.line !== null,
+  );
+}
+
 function sportsDataDate(date: Date): string {
   const month = [
     "JAN",
@@ -255,11 +333,20 @@ export class TheOddsApiProvider implements OddsProvider {
     BettingSport,
     Promise<TheOddsApiEvent[]>
   >();
+  private readonly playerProps: readonly PlayerPropType[];
+  private readonly propCache = new Map<string, Promise<TheOddsApiEvent>>();
+  private spentCredits = 0;
 
   constructor(options: TheOddsApiProviderOptions) {
     this.apiKey = options.apiKey;
     this.baseUrl = options.baseUrl ?? "https://api.the-odds-api.com";
     this.fetcher = options.fetcher ?? fetch;
+    this.playerProps = options.playerProps ?? [];
+  }
+
+  /** Credits billed by the requests this instance has made so far. */
+  get creditsUsed(): number {
+    return this.spentCredits;
   }
 
   async listEvents(input: OddsProviderListInput): Promise<OddsEvent[]> {
@@ -293,7 +380,7 @@ export class TheOddsApiProvider implements OddsProvider {
       return [];
     }
 
-    return (event.bookmakers ?? []).flatMap((bookmaker) => {
+    const featured = (event.bookmakers ?? []).flatMap((bookmaker) => {
       const bookmakerKey = cleanText(bookmaker.key);
       if (!bookmakerKey) {
         return [];
@@ -328,6 +415,13 @@ export class TheOddsApiProvider implements OddsProvider {
         ];
       });
     });
+    const props = await this.fetchPlayerProps(input);
+    return [
+      ...featured,
+      ...this.propMarkets(props, input.providerEventId).map(
+        ({ market }) => market,
+      ),
+    ];
   }
 
   async getOdds(input: OddsProviderEventInput): Promise<OddsQuote[]> {
@@ -338,7 +432,7 @@ export class TheOddsApiProvider implements OddsProvider {
 
     const homeTeam = cleanText(event.home_team);
     const awayTeam = cleanText(event.away_team);
-    return (event.bookmakers ?? []).flatMap((bookmaker) => {
+    const featured = (event.bookmakers ?? []).flatMap((bookmaker) => {
       const bookmakerKey = cleanText(bookmaker.key);
       if (!bookmakerKey) {
         return [];
@@ -426,6 +520,75 @@ export class TheOddsApiProvider implements OddsProvider {
         return [];
       });
     });
+    const props = await this.fetchPlayerProps(input);
+    return [
+      ...featured,
+      ...this.propMarkets(props, input.providerEventId).map(
+        ({ quote }) => quote,
+      ),
+    ];
+  }
+
+  /** One market and its quote per bookmaker, prop, and player. */
+  private propMarkets(
+    event: TheOddsApiEvent | null,
+    providerEventId: string,
+  ): { market: OddsMarket; quote: OddsQuote }[] {
+    if (!event) {
+      return [];
+    }
+    return (event.bookmakers ?? []).flatMap((bookmaker) => {
+      const bookmakerKey = cleanText(bookmaker.key);
+      if (!bookmakerKey) {
+        return [];
+      }
+
+      return (bookmaker.markets ?? []).flatMap((market) => {
+        const marketKey = cleanText(market.key);
+        const propType = playerPropForOddsApiMarket(marketKey);
+        if (!propType) {
+          return [];
+        }
+
+        return playerPropOffers(market, propType).map((offer) => {
+          const subject = playerSubject(offer.playerName);
+          const metadata = {
+            bookmaker: bookmakerKey,
+            marketKey,
+            playerName: offer.playerName,
+            sourceTitle: cleanText(bookmaker.title),
+          };
+          const id = `${providerMarketId({
+            bookmakerKey,
+            eventId: providerEventId,
+            marketKey,
+          })}:${subject}`;
+          return {
+            market: {
+              metadata,
+              period: "full_game" as const,
+              propType,
+              provider: "the_odds_api",
+              providerEventId,
+              providerMarketId: id,
+              status: "open" as const,
+              subject,
+              type: "player_prop" as const,
+            },
+            quote: {
+              capturedAt: parseDate(market.last_update, new Date()),
+              line: offer.line,
+              metadata,
+              overPrice: offer.overPrice,
+              provider: "the_odds_api",
+              providerMarketId: id,
+              sourcePayload: { bookmakerKey, eventId: event.id, market },
+              underPrice: offer.underPrice,
+            },
+          };
+        });
+      });
+    });
   }
 
   private async findEvent(
@@ -458,11 +621,53 @@ export class TheOddsApiProvider implements OddsProvider {
         });
       }
 
+      this.spentCredits += ODDS_CREDITS_PER_LIST_CALL;
       return assertResponseArray(await response.json());
     });
     this.oddsCache.set(sport, loaded);
     return loaded;
   }
+
+  private async fetchPlayerProps(
+    input: OddsProviderEventInput,
+  ): Promise<TheOddsApiEvent | null> {
+    if (this.playerProps.length === 0) {
+      return null;
+    }
+    const cached = this.propCache.get(input.providerEventId);
+    if (cached) {
+      return cached;
+    }
+
+    const url = new URL(
+      `/v4/sports/${SPORT_KEYS[input.sport]}/events/${encodeURIComponent(input.providerEventId)}/odds`,
+      this.baseUrl,
+    );
+    url.searchParams.set("regions", ODDS_REGIONS.join(","));
+    url.searchParams.set(
+      "markets",
+      this.playerProps
+        .map((propType) => PLAYER_PROPS[propType].oddsApiMarket)
+        .join(","),
+    );
+    url.searchParams.set("oddsFormat", "american");
+    url.searchParams.set("apiKey", this.apiKey);
+
+    const loaded = this.fetcher(url.toString()).then(async (response) => {
+      if (!response.ok) {
+        throw new AppError({
+          code: "ODDS_PROVIDER_HTTP_ERROR",
+          message: `The Odds API request failed with HTTP ${response.status}`,
+          status: response.status >= 500 ? 502 : 400,
+        });
+      }
+
+      this.spentCredits += this.playerProps.length * ODDS_REGIONS.length;
+      return assertResponseEvent(await response.json());
+    });
+    this.propCache.set(input.providerEventId, loaded);
+    return loaded;
+  }
 }
 
 export class SportsDataIoResultsProvider implements ResultsProvider {
@@ -0,0 +1,271 @@
+import { and, eq, inArray } from "drizzle-orm";
+import type { Db, LeagueScopedTx } from "@/db";
+import { withLeagueContext } from "@/db/rls";
+import { pickWeeks, sidePoolPicks, sidePools } from "@/db/schema";
+import { scoreConfidenceWeek } from "./confidence-scoring";
+import { gradeSelection, toPickOutcome } from "./grading";
+import type { EventResult } from "./interfaces";
+
+/**
+ * Grades survivor and confidence picks against a finished event.
+ *
+ * A pool pick is a straight-up winner, so it grades as a moneyline through
+ * the shared `gradeSelection`: the pools and Pick 'em cannot disagree about
+ * who won a game. A tie is a push, and a push is void, the same as in Pick
+ * 'em.
+ *
+ * Idempotent the same way as `gradePicksForEvent`: only `pending` picks are
+ * touched, so a replayed job cannot regrade a pick or eliminate anyone twice.
+ */
+
+export interface SurvivorElimination {
+  readonly leagueId: string;
+  readonly poolId: string;
+  readonly poolName: string;
+  readonly userId: string;
+  /** The losing pick's team; null when the entry missed the week. */
+  readonly team: string | null;
+  readonly week: number;
+}
+
+/** A member's confidence week whose last pending pick just graded. */
+export interface ConfidenceWeekScored {
+  readonly leagueId: string;
+  readonly poolId: string;
+  readonly poolName: string;
+  readonly userId: string;
+  readonly week: number;
+  readonly points: number;
+}
+
+export interface GradeSidePoolPicksResult {
+  readonly bettingEventId: string;
+  readonly correct: number;
+  readonly incorrect: number;
+  readonly void: number;
+  /** Leagues whose pool standings moved. */
+  readonly affectedLeagueIds: readonly string[];
+  /** Survivor entries this game ended. */
+  readonly eliminations: readonly SurvivorElimination[];
+  readonly scoredConfidenceWeeks: readonly ConfidenceWeekScored[];
+}
+
+export async function gradeSidePoolPicksForEvent(
+  db: Db,
+  input: {
+    bettingEventId: string;
+    result: EventResult;
+    gradedAt?: Date;
+  },
+): Promise<GradeSidePoolPicksResult> {
+  const gradedAt = input.gradedAt ?? new Date();
+
+  // League ids only, read centrally for the same reason as Pick 'em grading:
+  // the updates run per league inside its own context.
+  const leagueRows = await db
+    .selectDistinct({ leagueId: sidePoolPicks.leagueId })
+    .from(sidePoolPicks)
+    .where(
+      and(
+        eq(sidePoolPicks.bettingEventId, input.bettingEventId),
+        eq(sidePoolPicks.status, "pending"),
+      ),
+    );
+
+  const totals = { correct: 0, incorrect: 0, void: 0 };
+  const affectedLeagueIds: string[] = [];
+  const eliminations: SurvivorElimination[] = [];
+  const scoredConfidenceWeeks: ConfidenceWeekScored[] = [];
+
+  for (const { leagueId } of leagueRows) {
+    const graded = await withLeagueContext(db, leagueId, async (tx) => {
+      const pending = await tx
+        .select({
+          mode: sidePools.mode,
+          pickId: sidePoolPicks.id,
+          pickWeekId: sidePoolPicks.pickWeekId,
+          poolId: sidePoolPicks.poolId,
+          poolName: sidePools.name,
+          selection: sidePoolPicks.selection,
+          team: sidePoolPicks.team,
+          userId: sidePoolPicks.userId,
+          week: pickWeeks.week,
+        })
+        .from(sidePoolPicks)
+        .innerJoin(sidePools, eq(sidePools.id, sidePoolPicks.poolId))
+        .innerJoin(pickWeeks, eq(pickWeeks.id, sidePoolPicks.pickWeekId))
+        .where(
+          and(
+            eq(sidePoolPicks.leagueId, leagueId),
+            eq(sidePoolPicks.bettingEventId, input.bettingEventId),
+            eq(sidePoolPicks.status, "pending"),
+          ),
+        );
+
+      const byOutcome = new Map<string, typeof pending>();
+      for (const row of pending) {
+        const outcome = gradeSelection(
+          {
+            lockedLine: null,
+            marketType: "moneyline",
+            selection: row.selection,
+          },
+          input.result,
+        );
+        if (!outcome) {
+          continue;
+        }
+        const status = toPickOutcome(outcome.status);
+        const bucket = byOutcome.get(status) ?? [];
+        bucket.push(row);
+        byOutcome.set(status, bucket);
+      }
+
+      const counts = { correct: 0, incorrect: 0, void: 0 };
+      const eliminated: SurvivorElimination[] = [];
+      for (const [status, rows] of byOutcome) {
+        const updated = await tx
+          .update(sidePoolPicks)
+          .set({
+            gradedAt,
+            status: status as "correct" | "incorrect" | "void",
+            updatedAt: gradedAt,
+          })
+          .where(
+            and(
+              eq(sidePoolPicks.leagueId, leagueId),
+              inArray(
+                sidePoolPicks.id,
+                rows.map((row) => row.pickId),
+              ),
+              // Re-checked inside the write, as in Pick 'em grading.
+              eq(sidePoolPicks.status, "pending"),
+            ),
+          )
+          .returning({ id: sidePoolPicks.id });
+        counts[status as keyof typeof counts] = updated.length;
+
+        if (status === "incorrect") {
+          // Only the rows this run flipped, so a concurrent grader cannot
+          // announce the same elimination twice.
+          const flipped = new Set(updated.map((row) => row.id));
+          for (const row of rows) {
+            if (row.mode === "survivor" && flipped.has(row.pickId)) {
+              eliminated.push({
+                leagueId,
+                poolId: row.poolId,
+                poolName: row.poolName,
+                team: row.team,
+                userId: row.userId,
+                week: row.week,
+              });
+            }
+          }
+        }
+      }
+      const scored = await loadScoredConfidenceWeeks(tx, {
+        graded: [...byOutcome.values()]
+          .flat()
+          .filter((row) => row.mode === "confidence"),
+        leagueId,
+      });
+      return { counts, eliminated, scored };
+    });
+
+    totals.correct += graded.counts.correct;
+    totals.incorrect += graded.counts.incorrect;
+    totals.void += graded.counts.void;
+    eliminations.push(...graded.eliminated);
+    scoredConfidenceWeeks.push(...graded.scored);
+    if (
+      graded.counts.correct + graded.counts.incorrect + graded.counts.void >
+      0
+    ) {
+      affectedLeagueIds.push(leagueId);
+    }
+  }
+
+  return {
+    affectedLeagueIds,
+    bettingEventId: input.bettingEventId,
+    eliminations,
+    scoredConfidenceWeeks,
+    ...totals,
+  };
+}
+
+/**
+ * Of the confidence weeks this run touched, the ones with nothing left
+ * pending, and the points each scored.
+ */
+async function loadScoredConfidenceWeeks(
+  tx: LeagueScopedTx,
+  input: {
+    leagueId: string;
+    graded: readonly {
+      pickWeekId: string;
+      poolId: string;
+      poolName: string;
+      userId: string;
+      week: number;
+    }[];
+  },
+): Promise<ConfidenceWeekScored[]> {
+  if (input.graded.length === 0) {
+    return [];
+  }
+  const entries = new Map(
+    input.graded.map((row) => [
+      `${row.poolId}:${row.pickWeekId}:${row.userId}`,
+      row,
+    ]),
+  );
+  const picks = await tx
+    .select({
+      confidence: sidePoolPicks.confidence,
+      pickWeekId: sidePoolPicks.pickWeekId,
+      poolId: sidePoolPicks.poolId,
+      status: sidePoolPicks.status,
+      userId: sidePoolPicks.userId,
+    })
+    .from(sidePoolPicks)
+    .where(
+      and(
+        eq(sidePoolPicks.leagueId, input.leagueId),
+        inArray(sidePoolPicks.poolId, [
+          ...new Set(input.graded.map((row) => row.poolId)),
+        ]),
+        inArray(sidePoolPicks.pickWeekId, [
+          ...new Set(input.graded.map((row) => row.pickWeekId)),
+        ]),
+        inArray(sidePoolPicks.userId, [
+          ...new Set(input.graded.map((row) => row.userId)),
+        ]),
+      ),
+    );
+
+  return [...entries].flatMap(([key, entry]) => {
+    const week = picks.filter(
+      (pick) => `${pick.poolId}:${pick.pickWeekId}:${pick.userId}` === key,
+    );
+    const score = scoreConfidenceWeek(
+      week.map((pick) => ({
+        confidence: pick.confidence ?? 0,
+        status: pick.status,
+      })),
+    );
+    if (week.some((pick) => pick.status === "pending")) {
+      return [];
+    }
+    return [
+      {
+        leagueId: input.leagueId,
+        points: score.points,
+        poolId: entry.poolId,
+        poolName: entry.poolName,
+        userId: entry.userId,
+        week: entry.week,
+      },
+    ];
+  });
+}
@@ -0,0 +1,204 @@
+import { and, asc, eq, gte, lt, ne } from "drizzle-orm";
+import { AppError } from "@/core/result";
+import type { Db, LeagueScopedTx } from "@/db";
+import { withLeagueContext } from "@/db/rls";
+import {
+  bettingEvents,
+  leagues,
+  pickWeeks,
+  sidePoolMode,
+  sidePools,
+} from "@/db/schema";
+
+/**
+ * Side-game pools: survivor and confidence.
+ *
+ * League game modes that run next to Pick 'em on the same `pick_weeks`
+ * windows. A pool's slate is every NFL `betting_event` kicking off inside the
+ * week's window, and its picks grade through the same event resolution and
+ * shared grader as Pick 'em entries, as straight-up winners. The modes differ
+ * only in what a week's entry is and how it scores. `survivor.ts` and
+ * `confidence-pool.ts` own those rules; this module owns what they share.
+ */
+
+export const SIDE_POOL_MODES = sidePoolMode.enumValues;
+
+export type SidePoolMode = (typeof SIDE_POOL_MODES)[number];
+
+export interface SidePoolGame {
+  readonly eventId: string;
+  readonly homeTeam: string;
+  readonly awayTeam: string;
+  readonly startTime: Date;
+  readonly status: string;
+}
+
+export function sidePoolError(
+  code: string,
+  message: string,
+  status: number,
+): AppError {
+  return new AppError({ code, message, status });
+}
+
+export interface CreateSidePoolInput {
+  readonly leagueId: string;
+  readonly mode: SidePoolMode;
+  readonly name?: string;
+  readonly actorUserId: string;
+}
+
+const DEFAULT_POOL_NAMES: Record<SidePoolMode, string> = {
+  confidence: "Confidence pool",
+  survivor: "Survivor pool",
+};
+
+/**
+ * Starts a pool for the league's current season. One pool per mode per
+ * season, so starting one that already exists returns it unchanged.
+ */
+export async function createSidePool(
+  db: Db,
+  input: CreateSidePoolInput,
+): Promise<{ poolId: string; created: boolean }> {
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const [league] = await tx
+      .select({ season: leagues.season })
+      .from(leagues)
+      .where(eq(leagues.id, input.leagueId))
+      .limit(1);
+    if (!league) {
+      throw sidePoolError("LEAGUE_NOT_FOUND", "League was not found", 404);
+    }
+
+    const [inserted] = await tx
+      .insert(sidePools)
+      .values({
+        createdByUserId: input.actorUserId,
+        leagueId: input.leagueId,
+        mode: input.mode,
+        name: input.name?.trim() || DEFAULT_POOL_NAMES[input.mode],
+        season: league.season,
+      })
+      .onConflictDoNothing({
+        target: [sidePools.leagueId, sidePools.season, sidePools.mode],
+      })
+      .returning({ id: sidePools.id });
+    if (inserted) {
+      return { created: true, poolId: inserted.id };
+    }
+
+    const [existing] = await tx
+      .select({ id: sidePools.id })
+      .from(sidePools)
+      .where(
+        and(
+          eq(sidePools.leagueId, input.leagueId),
+          eq(sidePools.season, league.season),
+          eq(sidePools.mode, input.mode),
+        ),
+      )
+      .limit(1);
+    if (!existing) {
+      throw sidePoolError(
+        "SIDE_POOL_CREATE_FAILED",
+        "Pool could not be created or reloaded",
+        500,
+      );
+    }
+    return { created: false, poolId: existing.id };
+  });
+}
+
+/** Loads a pool and checks it is the mode the caller is about to play. */
+export async function loadSidePoolForMode(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; poolId: string; mode: SidePoolMode },
+) {
+  const [pool] = await tx
+    .select()
+    .from(sidePools)
+    .where(
+      and(
+        eq(sidePools.id, input.poolId),
+        eq(sidePools.leagueId, input.leagueId),
+      ),
+    )
+    .limit(1);
+  if (!pool) {
+    throw sidePoolError("SIDE_POOL_NOT_FOUND", "Pool was not found", 404);
+  }
+  if (pool.mode !== input.mode) {
+    throw sidePoolError(
+      "SIDE_POOL_WRONG_MODE",
+      `This is a ${pool.mode} pool`,
+      409,
+    );
+  }
+  return pool;
+}
+
+/** Loads a pick week and refuses one that is not open at `now`. */
+export async function loadOpenPoolWeek(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; pickWeekId: string; now: Date },
+) {
+  const [week] = await tx
+    .select()
+    .from(pickWeeks)
+    .where(
+      and(
+        eq(pickWeeks.id, input.pickWeekId),
+        eq(pickWeeks.leagueId, input.leagueId),
+      ),
+    )
+    .limit(1);
+  if (!week) {
+    throw sidePoolError("PICK_WEEK_NOT_FOUND", "Pick week was not found", 404);
+  }
+  if (input.now < week.opensAt) {
+    throw sidePoolError("PICK_WEEK_NOT_OPEN", "Pick week is not open yet", 409);
+  }
+  if (input.now >= week.closesAt) {
+    throw sidePoolError("PICK_WEEK_CLOSED", "Pick week is closed", 409);
+  }
+  return week;
+}
+
+/**
+ * The week's slate: NFL events kicking off inside the pick week's window.
+ * Canceled games are left off, so they never count toward a confidence
+ * pool's N. A game canceled after picks were made voids those picks instead.
+ */
+export async function loadPoolWeekGames(
+  tx: LeagueScopedTx,
+  week: { opensAt: Date; closesAt: Date },
+): Promise<SidePoolGame[]> {
+  const rows = await tx
+    .select({
+      awayTeam: bettingEvents.awayTeam,
+      eventId: bettingEvents.id,
+      homeTeam: bettingEvents.homeTeam,
+      startTime: bettingEvents.startTime,
+      status: bettingEvents.status,
+    })
+    .from(bettingEvents)
+    .where(
+      and(
+        eq(bettingEvents.sport, "nfl"),
+        gte(bettingEvents.startTime, week.opensAt),
+        lt(bettingEvents.startTime, week.closesAt),
+        ne(bettingEvents.status, "canceled"),
+      ),
+    )
+    .orderBy(asc(bettingEvents.startTime), asc(bettingEvents.id));
+  return rows;
+}
+
+/** The team a home/away selection names on a game. */
+export function selectedTeam(
+  game: Pick<SidePoolGame, "homeTeam" | "awayTeam">,
+  selection: "home" | "away",
+): string {
+  return selection === "home" ? game.homeTeam : game.awayTeam;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  availableSurvivorTeams,
+  rankSurvivorEntries,
+  scoreSurvivorEntry,
+} from "./survivor-scoring";
+
+describe("survivor scoring", () => {
+  it("ends the entry on the first loss and ignores anything after it", () => {
+    const score = scoreSurvivorEntry(
+      [
+        { status: "correct", team: "KC", week: 1 },
+        { status: "incorrect", team: "BUF", week: 2 },
+        // A pick recorded after the loss cannot revive the entry.
+        { status: "correct", team: "PHI", week: 3 },
+      ],
+      [1, 2, 3],
+    );
+
+    expect(score).toEqual({
+      alive: false,
+      eliminatedWeek: 2,
+      usedTeams: ["KC", "BUF", "PHI"],
+      weeksSurvived: 1,
+    });
+  });
+
+  it("carries a void through the week and leaves a pending pick alive", () => {
+    const score = scoreSurvivorEntry(
+      [
+        { status: "pending", team: "DAL", week: 3 },
+        { status: "void", team: "SF", week: 2 },
+        { status: "correct", team: "KC", week: 1 },
+      ],
+      [1, 2],
+    );
+
+    expect(score).toMatchObject({
+      alive: true,
+      eliminatedWeek: null,
+      weeksSurvived: 2,
+    });
+    // Week order, not insertion order.
+    expect(score.usedTeams).toEqual(["KC", "SF", "DAL"]);
+  });
+
+  it("ends the entry on a closed week with no pick", () => {
+    const picks = [
+      { status: "correct", team: "KC", week: 1 },
+      { status: "correct", team: "BUF", week: 2 },
+    ] as const;
+
+    // Weeks closed before the first pick are not the entry's to miss, and an
+    // open week without a pick yet is still pickable.
+    expect(scoreSurvivorEntry(picks, [1, 2])).toMatchObject({
+      alive: true,
+      weeksSurvived: 2,
+    });
+    expect(
+      scoreSurvivorEntry(
+        [{ status: "correct", team: "SF", week: 3 }],
+        [1, 2, 3],
+      ),
+    ).toMatchObject({ alive: true, weeksSurvived: 1 });
+
+    const missed = scoreSurvivorEntry(picks, [1, 2, 3, 4]);
+    expect(missed).toEqual({
+      alive: false,
+      eliminatedWeek: 3,
+      usedTeams: ["KC", "BUF"],
+      weeksSurvived: 2,
+    });
+
+    // The idle entry now ranks below one that lasted longer.
+    const ranked = rankSurvivorEntries([
+      { ...missed, id: "idle" },
+      { alive: false, eliminatedWeek: 4, id: "lost-week-4", weeksSurvived: 3 },
+    ]);
+    expect(ranked.map((entry) => entry.id)).toEqual(["lost-week-4", "idle"]);
+  });
+
+  it("offers only the week's teams not yet spent", () => {
+    expect(
+      availableSurvivorTeams(["KC", "BUF", "DAL", "PHI"], ["BUF", "SEA"]),
+    ).toEqual(["KC", "DAL", "PHI"]);
+  });
+
+  it("ranks the living first, then the longest run, with ties shared", () => {
+    const ranked = rankSurvivorEntries([
+      { alive: false, eliminatedWeek: 4, id: "late-out", weeksSurvived: 3 },
+      { alive: true, eliminatedWeek: null, id: "alive-2", weeksSurvived: 2 },
+      { alive: false, eliminatedWeek: 2, id: "early-out", weeksSurvived: 1 },
+      { alive: true, eliminatedWeek: null, id: "alive-2b", weeksSurvived: 2 },
+    ]);
+
+    expect(ranked.map((entry) => [entry.id, entry.rank])).toEqual([
+      ["alive-2", 1],
+      ["alive-2b", 1],
+      ["late-out", 3],
+      ["early-out", 4],
+    ]);
+  });
+});
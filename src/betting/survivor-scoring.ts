@@ -0,0 +1,117 @@
+/**
+ * Survivor pool scoring.
+ *
+ * One team a week, straight up, never the same team twice. A loss ends the
+ * entry; a win or a void carries it into next week. A void is the shared
+ * grader's verdict on a tie or a game that was not played. The member did not
+ * pick a loser, so the entry survives the week. A week that closes without a
+ * pick ends the entry too: otherwise an entry that stops picking would stay
+ * alive forever and outrank everyone still playing.
+ *
+ * Pure, like `pickem-scoring`: elimination decides who wins the pool, and it
+ * should be testable without a fixture league.
+ */
+
+export type SurvivorPickStatus = "pending" | "correct" | "incorrect" | "void";
+
+export interface SurvivorPickRecord {
+  readonly week: number;
+  readonly team: string;
+  readonly status: SurvivorPickStatus;
+}
+
+export interface SurvivorEntryScore {
+  readonly alive: boolean;
+  /**
+   * The week of the losing pick, or the first closed week with no pick; null
+   * while the entry is alive.
+   */
+  readonly eliminatedWeek: number | null;
+  /** Weeks won or voided before any elimination. */
+  readonly weeksSurvived: number;
+  /** Teams already spent, in week order. None of them can be picked again. */
+  readonly usedTeams: readonly string[];
+}
+
+/**
+ * `closedWeeks` are the pool season's weeks whose pick window has closed. An
+ * entry begins with its first pick, so only closed weeks after that one can
+ * eliminate it.
+ */
+export function scoreSurvivorEntry(
+  picks: readonly SurvivorPickRecord[],
+  closedWeeks: readonly number[],
+): SurvivorEntryScore {
+  const ordered = [...picks].sort((left, right) => left.week - right.week);
+  const pickByWeek = new Map(ordered.map((pick) => [pick.week, pick]));
+  const firstWeek = ordered[0]?.week;
+  const weeks = [
+    ...new Set([
+      ...pickByWeek.keys(),
+      ...closedWeeks.filter(
+        (week) => firstWeek !== undefined && week > firstWeek,
+      ),
+    ]),
+  ].sort((left, right) => left - right);
+  let weeksSurvived = 0;
+  let eliminatedWeek: number | null = null;
+
+  for (const week of weeks) {
+    const pick = pickByWeek.get(week);
+    if (!pick || pick.status === "incorrect") {
+      eliminatedWeek = week;
+      break;
+    }
+    if (pick.status === "correct" || pick.status === "void") {
+      weeksSurvived += 1;
+    }
+  }
+
+  return {
+    alive: eliminatedWeek === null,
+    eliminatedWeek,
+    usedTeams: ordered.map((pick) => pick.team),
+    weeksSurvived,
+  };
+}
+
+/** The week's teams a surviving entry can still pick. */
+export function availableSurvivorTeams(
+  weekTeams: readonly string[],
+  usedTeams: readonly string[],
+): string[] {
+  const used = new Set(usedTeams);
+  return weekTeams.filter((team) => !used.has(team));
+}
+
+/**
+ * Orders entries for the standings: the living first, then the longest run,
+ * then whoever lasted to the later week. Entries that tie on all three share
+ * a rank, and the caller shows them as tied.
+ */
+export function rankSurvivorEntries<
+  T extends Pick<
+    SurvivorEntryScore,
+    "alive" | "eliminatedWeek" | "weeksSurvived"
+  >,
+>(entries: readonly T[]): (T & { readonly rank: number })[] {
+  const sorted = [...entries].sort(
+    (left, right) =>
+      Number(right.alive) - Number(left.alive) ||
+      right.weeksSurvived - left.weeksSurvived ||
+      (right.eliminatedWeek ?? 0) - (left.eliminatedWeek ?? 0),
+  );
+  let rank = 0;
+  return sorted.map((entry, index) => {
+    const previous = sorted[index - 1];
+    if (
+      !previous ||
+      previous.alive !== entry.alive ||
+      previous.weeksSurvived !== entry.weeksSurvived ||
+      previous.eliminatedWeek !== entry.eliminatedWeek
+    ) {
+      rank = index + 1;
+    }
+    return { ...entry, rank };
+  });
+}
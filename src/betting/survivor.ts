@@ -0,0 +1,384 @@
+import { and, eq, inArray, lte } from "drizzle-orm";
+import type { Db, LeagueScopedTx } from "@/db";
+import { withLeagueContext } from "@/db/rls";
+import {
+  bettingEvents,
+  pickWeeks,
+  sidePoolPicks,
+  sidePools,
+  survivorMissedWeeks,
+  users,
+} from "@/db/schema";
+import type { SurvivorElimination } from "./side-pool-grading";
+import {
+  loadOpenPoolWeek,
+  loadPoolWeekGames,
+  loadSidePoolForMode,
+  selectedTeam,
+  sidePoolError,
+} from "./side-pools";
+import {
+  rankSurvivorEntries,
+  type SurvivorEntryScore,
+  scoreSurvivorEntry,
+} from "./survivor-scoring";
+
+/**
+ * Survivor pool read and write paths. The rules live in `survivor-scoring`;
+ * this module holds them against the database.
+ */
+
+export interface SubmitSurvivorPickInput {
+  readonly leagueId: string;
+  readonly poolId: string;
+  readonly userId: string;
+  readonly pickWeekId: string;
+  readonly bettingEventId: string;
+  readonly selection: "home" | "away";
+  readonly now?: Date;
+}
+
+export interface SubmitSurvivorPickResult {
+  readonly pickId: string;
+  readonly team: string;
+  /** True when this replaced the member's earlier pick for the week. */
+  readonly replaced: boolean;
+}
+
+async function loadMemberSurvivorPicks(
+  tx: LeagueScopedTx,
+  input: { poolId: string; userIds?: readonly string[] },
+) {
+  return tx
+    .select({
+      displayName: users.displayName,
+      email: users.email,
+      eventId: sidePoolPicks.bettingEventId,
+      eventStartTime: bettingEvents.startTime,
+      pickId: sidePoolPicks.id,
+      pickWeekId: sidePoolPicks.pickWeekId,
+      status: sidePoolPicks.status,
+      team: sidePoolPicks.team,
+      userId: sidePoolPicks.userId,
+      week: pickWeeks.week,
+    })
+    .from(sidePoolPicks)
+    .innerJoin(pickWeeks, eq(pickWeeks.id, sidePoolPicks.pickWeekId))
+    .innerJoin(
+      bettingEvents,
+      eq(bettingEvents.id, sidePoolPicks.bettingEventId),
+    )
+    .leftJoin(users, eq(users.id, sidePoolPicks.userId))
+    .where(
+      and(
+        eq(sidePoolPicks.poolId, input.poolId),
+        input.userIds
+          ? inArray(sidePoolPicks.userId, input.userIds)
+          : undefined,
+      ),
+    );
+}
+
+/** The pool season's pick weeks whose window has closed by `now`. */
+export async function loadClosedSurvivorWeeks(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; season: number; now: Date },
+) {
+  return tx
+    .select({ pickWeekId: pickWeeks.id, week: pickWeeks.week })
+    .from(pickWeeks)
+    .where(
+      and(
+        eq(pickWeeks.leagueId, input.leagueId),
+        eq(pickWeeks.season, input.season),
+        lte(pickWeeks.closesAt, input.now),
+      ),
+    );
+}
+
+/**
+ * Picks, or re-picks, a member's team for the week.
+ *
+ * A member may change their pick until the picked game kicks off. After
+ * that the week is decided, win or lose. The used-team and one-a-week rules
+ * are also unique indexes, so a race between two submits cannot break them.
+ */
+export async function submitSurvivorPick(
+  db: Db,
+  input: SubmitSurvivorPickInput,
+): Promise<SubmitSurvivorPickResult> {
+  const now = input.now ?? new Date();
+
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const pool = await loadSidePoolForMode(tx, {
+      leagueId: input.leagueId,
+      mode: "survivor",
+      poolId: input.poolId,
+    });
+    const week = await loadOpenPoolWeek(tx, {
+      leagueId: input.leagueId,
+      now,
+      pickWeekId: input.pickWeekId,
+    });
+
+    const history = await loadMemberSurvivorPicks(tx, {
+      poolId: input.poolId,
+      userIds: [input.userId],
+    });
+    const closedWeeks = await loadClosedSurvivorWeeks(tx, {
+      leagueId: input.leagueId,
+      now,
+      season: pool.season,
+    });
+    const score = scoreSurvivorEntry(
+      history,
+      closedWeeks.map((row) => row.week),
+    );
+    if (!score.alive) {
+      throw sidePoolError(
+        "SIDE_POOL_ELIMINATED",
+        `You were eliminated in week ${score.eliminatedWeek}`,
+        409,
+      );
+    }
+
+    const games = await loadPoolWeekGames(tx, week);
+    const game = games.find((row) => row.eventId === input.bettingEventId);
+    if (!game) {
+      throw sidePoolError(
+        "SIDE_POOL_EVENT_NOT_IN_WEEK",
+        "That game is not on this week's slate",
+        400,
+      );
+    }
+    if (now >= game.startTime) {
+      throw sidePoolError(
+        "SIDE_POOL_PICK_LOCKED",
+        "That game has already started",
+        409,
+      );
+    }
+
+    const team = selectedTeam(game, input.selection);
+    const thisWeek = history.find((row) => row.pickWeekId === week.id);
+    if (thisWeek && now >= thisWeek.eventStartTime) {
+      throw sidePoolError(
+        "SIDE_POOL_PICK_LOCKED",
+        `Your week ${week.week} pick has already kicked off`,
+        409,
+      );
+    }
+    if (
+      history.some((row) => row.pickWeekId !== week.id && row.team === team)
+    ) {
+      throw sidePoolError(
+        "SIDE_POOL_TEAM_USED",
+        `You already used ${team} in this pool`,
+        409,
+      );
+    }
+
+    if (thisWeek) {
+      await tx
+        .delete(sidePoolPicks)
+        .where(
+          and(
+            eq(sidePoolPicks.id, thisWeek.pickId),
+            eq(sidePoolPicks.status, "pending"),
+          ),
+        );
+    }
+    const [inserted] = await tx
+      .insert(sidePoolPicks)
+      .values({
+        bettingEventId: game.eventId,
+        leagueId: input.leagueId,
+        pickWeekId: week.id,
+        poolId: input.poolId,
+        selection: input.selection,
+        team,
+        userId: input.userId,
+      })
+      .returning({ id: sidePoolPicks.id });
+    if (!inserted) {
+      throw sidePoolError(
+        "SIDE_POOL_PICK_FAILED",
+        "Survivor pick could not be saved",
+        500,
+      );
+    }
+    return { pickId: inserted.id, replaced: Boolean(thisWeek), team };
+  });
+}
+
+export interface SurvivorStandingRow
+  extends Omit<SurvivorEntryScore, "usedTeams"> {
+  readonly rank: number;
+  readonly userId: string;
+  readonly displayName: string;
+}
+
+export interface SurvivorMemberView {
+  readonly score: SurvivorEntryScore;
+  /** This week's pick; null until one is made. */
+  readonly weekPick: {
+    readonly eventId: string;
+    readonly team: string;
+    readonly status: string;
+  } | null;
+}
+
+/**
+ * Standings for a pool, plus the asking member's own entry: their spent
+ * teams and this week's pick.
+ */
+export async function loadSurvivorStandings(
+  tx: LeagueScopedTx,
+  input: {
+    poolId: string;
+    userId: string;
+    pickWeekId: string | null;
+    /** Closed weeks of the pool's season; see `scoreSurvivorEntry`. */
+    closedWeeks: readonly number[];
+  },
+): Promise<{
+  standings: SurvivorStandingRow[];
+  you: SurvivorMemberView;
+}> {
+  const rows = await loadMemberSurvivorPicks(tx, { poolId: input.poolId });
+  const byUser = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const bucket = byUser.get(row.userId) ?? [];
+    bucket.push(row);
+    byUser.set(row.userId, bucket);
+  }
+
+  // Spent teams stay out of the shared standings: the newest one is this
+  // week's pick, and a pick is private until its game kicks off.
+  const standings = rankSurvivorEntries(
+    [...byUser].map(([userId, picks]) => {
+      const { usedTeams: _private, ...score } = scoreSurvivorEntry(
+        picks,
+        input.closedWeeks,
+      );
+      return {
+        ...score,
+        displayName:
+          picks[0]?.displayName ?? picks[0]?.email ?? "A league member",
+        userId,
+      };
+    }),
+  );
+
+  const yours = byUser.get(input.userId) ?? [];
+  const weekPick = input.pickWeekId
+    ? yours.find((row) => row.pickWeekId === input.pickWeekId)
+    : undefined;
+
+  return {
+    standings,
+    you: {
+      score: scoreSurvivorEntry(yours, input.closedWeeks),
+      weekPick: weekPick
+        ? {
+            eventId: weekPick.eventId,
+            status: weekPick.status,
+            team: weekPick.team,
+          }
+        : null,
+    },
+  };
+}
+
+/**
+ * Finds the league's survivor entries that a closed week without a pick has
+ * just ended, and records each one so it is announced once.
+ *
+ * Scoring already counts the missed week; nothing else marks the moment, so
+ * the game-final job asks after grading. The unique index on the entry makes
+ * a replayed or concurrent sweep report nothing new.
+ */
+export async function eliminateMissedSurvivorWeeks(
+  db: Db,
+  input: { leagueId: string; now?: Date },
+): Promise<SurvivorElimination[]> {
+  const now = input.now ?? new Date();
+
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const pools = await tx
+      .select({
+        id: sidePools.id,
+        name: sidePools.name,
+        season: sidePools.season,
+      })
+      .from(sidePools)
+      .where(
+        and(
+          eq(sidePools.leagueId, input.leagueId),
+          eq(sidePools.mode, "survivor"),
+        ),
+      );
+
+    const eliminations: SurvivorElimination[] = [];
+    for (const pool of pools) {
+      const closedWeeks = await loadClosedSurvivorWeeks(tx, {
+        leagueId: input.leagueId,
+        now,
+        season: pool.season,
+      });
+      if (closedWeeks.length === 0) {
+        continue;
+      }
+      const weekIds = new Map(
+        closedWeeks.map((row) => [row.week, row.pickWeekId]),
+      );
+      const picks = await loadMemberSurvivorPicks(tx, { poolId: pool.id });
+      const byUser = new Map<string, typeof picks>();
+      for (const pick of picks) {
+        const bucket = byUser.get(pick.userId) ?? [];
+        bucket.push(pick);
+        byUser.set(pick.userId, bucket);
+      }
+
+      for (const [userId, entry] of byUser) {
+        const { eliminatedWeek } = scoreSurvivorEntry(entry, [
+          ...weekIds.keys(),
+        ]);
+        // Alive, or out on a losing pick, which grading already announced.
+        if (
+          eliminatedWeek === null ||
+          entry.some((pick) => pick.week === eliminatedWeek)
+        ) {
+          continue;
+        }
+        const missedWeekId = weekIds.get(eliminatedWeek);
+        if (!missedWeekId) {
+          continue;
+        }
+        const [recorded] = await tx
+          .insert(survivorMissedWeeks)
+          .values({
+            leagueId: input.leagueId,
+            pickWeekId: missedWeekId,
+            poolId: pool.id,
+            userId,
+          })
+          .onConflictDoNothing({
+            target: [survivorMissedWeeks.poolId, survivorMissedWeeks.userId],
+          })
+          .returning({ id: survivorMissedWeeks.id });
+        if (recorded) {
+          eliminations.push({
+            leagueId: input.leagueId,
+            poolId: pool.id,
+            poolName: pool.name,
+            team: null,
+            userId,
+            week: eliminatedWeek,
+          });
+        }
+      }
+    }
+    return eliminations;
+  });
+}
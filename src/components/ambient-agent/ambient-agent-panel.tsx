@@ -108,6 +108,9 @@ function responseErrorMessage(status: number): string {
   if (status === 403) {
     return "This league is not available to your account.";
   }
+  if (status === 404) {
+    return "That conversation is no longer available. Ask again to start a new one.";
+  }
   return "The personal agent could not answer that request.";
 }
 
@@ -247,6 +250,7 @@ export function AmbientAgentPanel({
   const [messages, setMessages] = useState<AmbientMessage[]>([]);
   const [state, setState] = useState<AmbientAgentState>("empty");
   const [error, setError] = useState<string | null>(null);
+  const [threadId, setThreadId] = useState<string | null>(null);
   const triggerRef = useRef<HTMLButtonElement | null>(null);
   const panelRef = useRef<HTMLDivElement | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
@@ -330,6 +334,7 @@ export function AmbientAgentPanel({
           body: JSON.stringify({
             context: contextFromActiveState(activeState),
             question,
+            threadId,
           }),
           headers: {
             "Content-Type": "application/json",
@@ -338,6 +343,9 @@ export function AmbientAgentPanel({
         });
 
         if (!response.ok) {
+          if (response.status === 404) {
+            setThreadId(null);
+          }
           throw new Error(responseErrorMessage(response.status));
         }
 
@@ -347,6 +355,7 @@ export function AmbientAgentPanel({
           return;
         }
 
+        setThreadId(payload.answer.threadId);
         setMessages((current) => [
           ...current,
           {
@@ -366,7 +375,7 @@ export function AmbientAgentPanel({
         setState("error");
       }
     },
-    [activeState],
+    [activeState, threadId],
   );
 
   function onSubmit(event: FormEvent<HTMLFormElement>) {
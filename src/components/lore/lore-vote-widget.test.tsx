@@ -6,7 +6,8 @@ import {
   waitFor,
 } from "@testing-library/react";
 import { afterEach, describe, expect, it, vi } from "vitest";
-import { postJson } from "@/app/onboarding/client-http";
+import { requestJson } from "@/app/onboarding/client-http";
+import { OFFLINE_QUEUE_HEADER } from "@/components/pwa/offline-queue";
 import type {
   LorePollStatusSummary,
   LoreVoteStatusSummary,
@@ -14,7 +15,7 @@ import type {
 import { LoreVoteWidget } from "./lore-vote-widget";
 
 const mocks = vi.hoisted(() => ({
-  postJson: vi.fn(),
+  requestJson: vi.fn(),
 }));
 
 vi.mock("@/app/onboarding/client-http", async (importOriginal) => {
@@ -22,7 +23,7 @@ vi.mock("@/app/onboarding/client-http", async (importOriginal) => {
     await importOriginal<typeof import("@/app/onboarding/client-http")>();
   return {
     ...actual,
-    postJson: mocks.postJson,
+    requestJson: mocks.requestJson,
   };
 });
 
@@ -72,7 +73,7 @@ afterEach(() => {
 
 describe("LoreVoteWidget", () => {
   it("casts lore affirm/reject/abstain votes and shows the fresh tally", async () => {
-    mocks.postJson.mockResolvedValue({
+    mocks.requestJson.mockResolvedValue({
       ...loreVote,
       affirmNeeded: 0,
       currentChoice: "affirm",
@@ -95,17 +96,21 @@ describe("LoreVoteWidget", () => {
 
     fireEvent.click(screen.getByRole("radio", { name: /affirm/i }));
 
-    await waitFor(() => expect(postJson).toHaveBeenCalledTimes(1));
-    expect(postJson).toHaveBeenCalledWith("/api/lore-vote", {
-      choice: "affirm",
-    });
+    await waitFor(() => expect(requestJson).toHaveBeenCalledTimes(1));
+    expect(requestJson).toHaveBeenCalledWith(
+      "/api/lore-vote",
+      expect.objectContaining({
+        body: JSON.stringify({ choice: "affirm" }),
+        method: "POST",
+      }),
+    );
     expect(await screen.findByText("Vote recorded: affirm.")).toBeDefined();
     expect(screen.getByText("Your vote")).toBeDefined();
     expect(screen.getAllByText("4").length).toBeGreaterThan(0);
   });
 
   it("casts an instigator poll vote against the poll route", async () => {
-    mocks.postJson.mockResolvedValue({
+    mocks.requestJson.mockResolvedValue({
       ...poll,
       currentOptionIdx: 1,
       options: [
@@ -120,8 +125,14 @@ describe("LoreVoteWidget", () => {
 
     fireEvent.click(screen.getByRole("radio", { name: /away antagonists/i }));
 
-    await waitFor(() => expect(postJson).toHaveBeenCalledTimes(1));
-    expect(postJson).toHaveBeenCalledWith(poll.voteApiUrl, { optionIdx: 1 });
+    await waitFor(() => expect(requestJson).toHaveBeenCalledTimes(1));
+    expect(requestJson).toHaveBeenCalledWith(
+      poll.voteApiUrl,
+      expect.objectContaining({
+        body: JSON.stringify({ optionIdx: 1 }),
+        method: "POST",
+      }),
+    );
     expect(
       await screen.findByText("Poll vote recorded: Away Antagonists."),
     ).toBeDefined();
@@ -131,6 +142,25 @@ describe("LoreVoteWidget", () => {
     ).toBe(true);
   });
 
+  it("keeps the tally and says so when the vote is queued offline", async () => {
+    mocks.requestJson.mockResolvedValue({ offlineQueued: true, queueId: "q1" });
+
+    render(<LoreVoteWidget mode="poll" poll={poll} />);
+    fireEvent.click(screen.getByRole("radio", { name: /away antagonists/i }));
+
+    expect(
+      await screen.findByText(
+        "Poll vote saved offline: Away Antagonists. Sends when you reconnect.",
+      ),
+    ).toBeDefined();
+    const init = mocks.requestJson.mock.calls[0]?.[1] as RequestInit;
+    expect(
+      decodeURIComponent(
+        (init.headers as Record<string, string>)[OFFLINE_QUEUE_HEADER] ?? "",
+      ),
+    ).toBe("Poll vote: Away Antagonists");
+  });
+
   it("adopts a refreshed server snapshot instead of freezing the tally at load", () => {
     const { rerender } = render(
       <LoreVoteWidget
@@ -2,7 +2,15 @@
 
 import { Check, Clock3, Scale, Vote } from "lucide-react";
 import { useId, useState } from "react";
-import { onboardingPanelError, postJson } from "@/app/onboarding/client-http";
+import {
+  onboardingPanelError,
+  requestJson,
+} from "@/app/onboarding/client-http";
+import {
+  isOfflineQueued,
+  type OfflineQueuedPayload,
+  offlineQueueHeaders,
+} from "@/components/pwa/offline-queue";
 import { StatusPill } from "@/components/ui/status-pill";
 import { cn } from "@/lib/utils";
 import type { LoreVoteChoice } from "@/lore";
@@ -220,6 +228,22 @@ function PollMeter({ poll }: { readonly poll: LorePollStatusSummary }) {
   );
 }
 
+/** Votes overwrite the member's previous choice, so they are safe to queue. */
+function postOfflineQueueable<T>(
+  url: string,
+  body: unknown,
+  label: string,
+): Promise<T | OfflineQueuedPayload> {
+  return requestJson<T | OfflineQueuedPayload>(url, {
+    body: JSON.stringify(body),
+    headers: {
+      "content-type": "application/json",
+      ...offlineQueueHeaders(label),
+    },
+    method: "POST",
+  });
+}
+
 function LoreVoteWidget(props: LoreVoteWidgetProps) {
   const id = useId();
   const serverVote = props.mode === "lore" ? props.vote : null;
@@ -251,9 +275,15 @@ function LoreVoteWidget(props: LoreVoteWidgetProps) {
     setError(null);
     setMessage(null);
     try {
-      const response = await postJson<LoreVoteCastResponse>(props.voteApiUrl, {
-        choice,
-      });
+      const response = await postOfflineQueueable<LoreVoteCastResponse>(
+        props.voteApiUrl,
+        { choice },
+        `Lore vote: ${choice}`,
+      );
+      if (isOfflineQueued(response)) {
+        setMessage(`Vote saved offline: ${choice}. Sends when you reconnect.`);
+        return;
+      }
       setLoreVote(response);
       setMessage(`Vote recorded: ${choice}.`);
     } catch (cause) {
@@ -271,10 +301,18 @@ function LoreVoteWidget(props: LoreVoteWidgetProps) {
     setError(null);
     setMessage(null);
     try {
-      const response = await postJson<LorePollVoteCastResponse>(
+      const optionLabel = poll.options[optionIdx]?.label ?? "option";
+      const response = await postOfflineQueueable<LorePollVoteCastResponse>(
         poll.voteApiUrl,
         { optionIdx },
+        `Poll vote: ${optionLabel}`,
       );
+      if (isOfflineQueued(response)) {
+        setMessage(
+          `Poll vote saved offline: ${optionLabel}. Sends when you reconnect.`,
+        );
+        return;
+      }
       setPoll(response);
       setMessage(
         `Poll vote recorded: ${response.options[optionIdx]?.label ?? "option"}.`,
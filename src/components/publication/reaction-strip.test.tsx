@@ -140,3 +140,27 @@ test("content reaction strip renders read-only counts without an API URL", () =>
       .hasAttribute("disabled"),
   ).toBe(true);
 });
+
+test("content reaction strip keeps an offline-queued reaction in place", async () => {
+  vi.spyOn(globalThis, "fetch").mockResolvedValue(
+    new Response(JSON.stringify({ offlineQueued: true, queueId: "q1" }), {
+      headers: { "content-type": "application/json" },
+      status: 202,
+    }),
+  );
+
+  render(<ContentReactionStrip summary={summary()} variant="article" />);
+  fireEvent.click(screen.getByRole("button", { name: /skull reaction/i }));
+
+  await waitFor(() => {
+    expect(
+      screen.getByText("Saved offline. Sends when you reconnect."),
+    ).toBeDefined();
+  });
+  expect(screen.getByText("2 total")).toBeDefined();
+  expect(
+    screen
+      .getByRole("button", { name: /skull reaction, 1 vote/i })
+      .getAttribute("aria-pressed"),
+  ).toBe("true");
+});
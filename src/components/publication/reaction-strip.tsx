@@ -1,6 +1,10 @@
 "use client";
 
 import { useRef, useState } from "react";
+import {
+  isOfflineQueued,
+  offlineQueueHeaders,
+} from "@/components/pwa/offline-queue";
 import { buttonVariants } from "@/components/ui/button";
 import {
   CONTENT_REACTION_DISPLAY,
@@ -36,19 +40,26 @@ function recastSummary(
   };
 }
 
+/** Resolves to `null` when the service worker queued the reaction offline. */
 async function postReaction(
   apiUrl: string,
   emoji: ContentReactionEmoji,
-): Promise<ContentReactionSummary> {
+): Promise<ContentReactionSummary | null> {
   const response = await fetch(apiUrl, {
     body: JSON.stringify({ emoji }),
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      "Content-Type": "application/json",
+      ...offlineQueueHeaders(
+        `${CONTENT_REACTION_DISPLAY[emoji].label} reaction`,
+      ),
+    },
     method: "POST",
   });
   if (!response.ok) {
     throw new Error("Reaction failed");
   }
-  return (await response.json()) as ContentReactionSummary;
+  const payload: unknown = await response.json();
+  return isOfflineQueued(payload) ? null : (payload as ContentReactionSummary);
 }
 
 export function ContentReactionStrip({
@@ -62,6 +73,7 @@ export function ContentReactionStrip({
 }) {
   const [state, setState] = useState(summary);
   const [error, setError] = useState<string | null>(null);
+  const [queuedOffline, setQueuedOffline] = useState(false);
   const [isPending, setIsPending] = useState(false);
   // `useTransition`'s `isPending` used to be the in-flight guard, but the transition scope
   // scheduled no state update — the fetch was fired with `void` and settled in a `.then`
@@ -83,9 +95,17 @@ export function ContentReactionStrip({
     inFlight.current = true;
     setIsPending(true);
     setError(null);
+    setQueuedOffline(false);
     setState((current) => recastSummary(current, emoji));
     void postReaction(apiUrl, emoji)
-      .then((next) => setState(next))
+      .then((next) => {
+        // Queued offline: the optimistic count stands until the replay lands.
+        if (next === null) {
+          setQueuedOffline(true);
+          return;
+        }
+        setState(next);
+      })
       .catch(() => {
         setState(previous);
         setError("Reaction not saved.");
@@ -163,6 +183,11 @@ export function ContentReactionStrip({
       {error ? (
         <output className="text-xs text-destructive">{error}</output>
       ) : null}
+      {queuedOffline ? (
+        <output className="text-xs text-muted-foreground">
+          Saved offline. Sends when you reconnect.
+        </output>
+      ) : null}
     </fieldset>
   );
 }
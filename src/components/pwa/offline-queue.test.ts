@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  clearOfflineWriteQueue,
+  isOfflineQueued,
+  isOfflineSyncReport,
+  OFFLINE_QUEUE_DB,
+  OFFLINE_QUEUE_HEADER,
+  OFFLINE_RESUME_MESSAGE,
+  OFFLINE_SYNC_MESSAGE,
+  offlineQueueHeaders,
+  requestOfflineResume,
+} from "./offline-queue";
+
+describe("offline write queue", () => {
+  it("sends the label as a header-safe value", () => {
+    const headers = offlineQueueHeaders("Pick: Bills −3.5 “home”");
+
+    expect(() => new Headers(headers)).not.toThrow();
+    expect(decodeURIComponent(headers[OFFLINE_QUEUE_HEADER] ?? "")).toBe(
+      "Pick: Bills −3.5 “home”",
+    );
+  });
+
+  it("recognizes queued answers and replay reports", () => {
+    expect(isOfflineQueued({ offlineQueued: true, queueId: "q1" })).toBe(true);
+    expect(isOfflineQueued({ counts: [], total: 0 })).toBe(false);
+    expect(isOfflineQueued(null)).toBe(false);
+
+    expect(
+      isOfflineSyncReport({
+        applied: [{ label: "Poll vote: Yes" }],
+        conflicts: [],
+        pending: 0,
+        type: OFFLINE_SYNC_MESSAGE,
+      }),
+    ).toBe(true);
+    expect(isOfflineSyncReport({ type: "RUMBLEDORE_SIGN_OUT" })).toBe(false);
+  });
+
+  it("asks the controlling worker to resume", () => {
+    const controller = { postMessage: vi.fn() } as unknown as ServiceWorker;
+
+    requestOfflineResume({ controller });
+    requestOfflineResume({ controller: null });
+    requestOfflineResume(null);
+
+    expect(controller.postMessage).toHaveBeenCalledTimes(1);
+    expect(controller.postMessage).toHaveBeenCalledWith({
+      type: OFFLINE_RESUME_MESSAGE,
+    });
+  });
+
+  it("deletes the queue database without waiting on a busy worker", async () => {
+    const request = {} as IDBOpenDBRequest;
+    const deleteDatabase = vi.fn(() => {
+      queueMicrotask(() => request.onblocked?.({} as IDBVersionChangeEvent));
+      return request;
+    });
+
+    await expect(
+      clearOfflineWriteQueue({ deleteDatabase }),
+    ).resolves.toBeUndefined();
+    expect(deleteDatabase).toHaveBeenCalledWith(OFFLINE_QUEUE_DB);
+    await expect(clearOfflineWriteQueue(null)).resolves.toBeUndefined();
+  });
+});
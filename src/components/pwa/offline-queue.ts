@@ -0,0 +1,108 @@
+"use client";
+
+/**
+ * Client half of the service worker's offline write queue (`public/sw.js`).
+ *
+ * A write opts in by sending `OFFLINE_QUEUE_HEADER` with a short label for
+ * the member ("Pick: Bills -3.5"). When the network is down, the worker keeps
+ * the request and answers 202 with an `OfflineQueuedPayload` instead of
+ * failing; it replays the request when the connection returns. Only
+ * endpoints that are safe to replay are queued: picks carry their
+ * idempotency key, and votes and reactions overwrite the member's previous
+ * choice. A write without the header fails offline exactly as before.
+ */
+
+export const OFFLINE_QUEUE_HEADER = "X-Rumbledore-Offline-Queue";
+export const OFFLINE_SYNC_MESSAGE = "RUMBLEDORE_OFFLINE_SYNC";
+export const OFFLINE_RESUME_MESSAGE = "RUMBLEDORE_RESUME";
+export const OFFLINE_QUEUE_DB = "rumbledore-offline";
+
+export interface OfflineQueuedPayload {
+  readonly offlineQueued: true;
+  readonly queueId: string;
+}
+
+/** Posted by the worker after a replay pass. */
+export interface OfflineSyncReport {
+  readonly applied: readonly { readonly label: string }[];
+  /** Writes the server refused because it moved on, e.g. a closed poll. */
+  readonly conflicts: readonly {
+    readonly label: string;
+    readonly message: string;
+  }[];
+  readonly pending: number;
+  readonly type: typeof OFFLINE_SYNC_MESSAGE;
+}
+
+type ServiceWorkerContainerSubset = Pick<ServiceWorkerContainer, "controller">;
+type IDBFactorySubset = Pick<IDBFactory, "deleteDatabase">;
+
+/** Header values are Latin-1 only, so the label travels URI-encoded. */
+export function offlineQueueHeaders(label: string): Record<string, string> {
+  return { [OFFLINE_QUEUE_HEADER]: encodeURIComponent(label) };
+}
+
+export function isOfflineQueued(value: unknown): value is OfflineQueuedPayload {
+  return (
+    Boolean(value) &&
+    typeof value === "object" &&
+    (value as { offlineQueued?: unknown }).offlineQueued === true
+  );
+}
+
+export function isOfflineSyncReport(
+  value: unknown,
+): value is OfflineSyncReport {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const report = value as Partial<OfflineSyncReport>;
+  return (
+    report.type === OFFLINE_SYNC_MESSAGE &&
+    Array.isArray(report.applied) &&
+    Array.isArray(report.conflicts) &&
+    typeof report.pending === "number"
+  );
+}
+
+function browserServiceWorker(): ServiceWorkerContainerSubset | null {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
+    return null;
+  }
+  return navigator.serviceWorker;
+}
+
+function browserIndexedDb(): IDBFactorySubset | null {
+  return typeof indexedDB === "undefined" ? null : indexedDB;
+}
+
+/**
+ * Asks the worker to replay queued writes and refresh the saved league pages.
+ * Browsers without Background Sync rely on this alone, so it is sent on load
+ * and on every `online` event.
+ */
+export function requestOfflineResume(
+  serviceWorker: ServiceWorkerContainerSubset | null = browserServiceWorker(),
+): void {
+  serviceWorker?.controller?.postMessage({ type: OFFLINE_RESUME_MESSAGE });
+}
+
+/**
+ * Drops every queued write. The worker clears its queue on the sign-out
+ * message too; this covers a browser where no worker is controlling the page.
+ */
+export function clearOfflineWriteQueue(
+  factory: IDBFactorySubset | null = browserIndexedDb(),
+): Promise<void> {
+  if (!factory) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const request = factory.deleteDatabase(OFFLINE_QUEUE_DB);
+    request.onsuccess = () => resolve();
+    // Blocked means the worker holds a connection mid-replay; its own
+    // sign-out handler clears the store, so sign-out need not wait.
+    request.onblocked = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,77 @@
+import { act, cleanup, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { OFFLINE_RESUME_MESSAGE, OFFLINE_SYNC_MESSAGE } from "./offline-queue";
+import { OfflineSync } from "./offline-sync";
+
+let serviceWorker: EventTarget & { controller: { postMessage: () => void } };
+
+beforeEach(() => {
+  serviceWorker = Object.assign(new EventTarget(), {
+    controller: { postMessage: vi.fn() },
+  });
+  Object.defineProperty(navigator, "serviceWorker", {
+    configurable: true,
+    value: serviceWorker,
+  });
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  delete (navigator as { serviceWorker?: unknown }).serviceWorker;
+});
+
+function postReport(data: unknown) {
+  act(() => {
+    serviceWorker.dispatchEvent(new MessageEvent("message", { data }));
+  });
+}
+
+describe("OfflineSync", () => {
+  it("asks the worker to resume on load and when the browser reconnects", () => {
+    render(<OfflineSync />);
+    act(() => {
+      window.dispatchEvent(new Event("online"));
+    });
+
+    expect(serviceWorker.controller.postMessage).toHaveBeenCalledTimes(2);
+    expect(serviceWorker.controller.postMessage).toHaveBeenCalledWith({
+      type: OFFLINE_RESUME_MESSAGE,
+    });
+  });
+
+  it("reports sent writes and names each refused one", async () => {
+    render(<OfflineSync />);
+
+    postReport({
+      applied: [{ label: "Pick: Bills -3.5" }],
+      conflicts: [
+        { label: "Poll vote: Yes", message: "This poll has closed." },
+      ],
+      pending: 0,
+      type: OFFLINE_SYNC_MESSAGE,
+    });
+
+    expect(
+      (
+        await screen.findAllByText(
+          "Sent while you were offline: Pick: Bills -3.5",
+        )
+      ).length,
+    ).toBeGreaterThan(0);
+    expect(
+      (await screen.findAllByText("Not saved: Poll vote: Yes")).length,
+    ).toBeGreaterThan(0);
+    expect(screen.getAllByText("This poll has closed.").length).toBeGreaterThan(
+      0,
+    );
+  });
+
+  it("ignores unrelated worker messages", () => {
+    render(<OfflineSync />);
+
+    postReport({ type: "RUMBLEDORE_SIGN_OUT" });
+
+    expect(document.querySelector('[data-slot="toast"]')).toBeNull();
+  });
+});
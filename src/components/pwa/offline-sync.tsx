@@ -0,0 +1,92 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { type ToastOptions, useToast } from "@/components/ui/toast";
+import { Toaster } from "@/components/ui/toaster";
+import {
+  isOfflineSyncReport,
+  type OfflineSyncReport,
+  requestOfflineResume,
+} from "./offline-queue";
+
+function appliedTitle(report: OfflineSyncReport): string {
+  const count = report.applied.length;
+  return count === 1
+    ? `Sent while you were offline: ${report.applied[0]?.label}`
+    : `${count} offline actions sent`;
+}
+
+function OfflineSyncNotices() {
+  const { notify } = useToast();
+  // `useToast` hands out a fresh `notify` every render; the listeners below
+  // are attached once, so they read it through a ref.
+  const notifyRef = useRef(notify);
+  useEffect(() => {
+    notifyRef.current = notify;
+  });
+
+  useEffect(() => {
+    const notify = (options: ToastOptions) => notifyRef.current(options);
+    const serviceWorker =
+      "serviceWorker" in navigator ? navigator.serviceWorker : null;
+
+    function onMessage(event: MessageEvent) {
+      if (!isOfflineSyncReport(event.data)) {
+        return;
+      }
+      const report = event.data;
+      if (report.applied.length > 0) {
+        notify({ title: appliedTitle(report), tone: "ok" });
+      }
+      // Each refusal gets its own notice: the member needs to know which pick
+      // or vote did not land, and the server's reason says why.
+      for (const conflict of report.conflicts) {
+        notify({
+          description: conflict.message,
+          title: `Not saved: ${conflict.label}`,
+          tone: "warn",
+        });
+      }
+    }
+
+    function onOnline() {
+      requestOfflineResume();
+    }
+
+    function onOffline() {
+      notify({
+        description:
+          "Saved league pages stay readable. Picks, votes and reactions send when you reconnect.",
+        title: "You're offline",
+        tone: "info",
+      });
+    }
+
+    serviceWorker?.addEventListener("message", onMessage);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    if (navigator.onLine) {
+      requestOfflineResume();
+    }
+    return () => {
+      serviceWorker?.removeEventListener("message", onMessage);
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, []);
+
+  return null;
+}
+
+/**
+ * Drives the service worker's offline queue from the page: asks it to replay
+ * writes and refresh the saved league pages whenever the browser comes back
+ * online, and reports what the replay did.
+ */
+export function OfflineSync() {
+  return (
+    <Toaster>
+      <OfflineSyncNotices />
+    </Toaster>
+  );
+}
@@ -1,5 +1,7 @@
 "use client";
 
+import { clearOfflineWriteQueue } from "./offline-queue";
+
 export const PWA_PAGE_CACHE_PREFIX = "rumbledore-pages-";
 export const PWA_SIGN_OUT_MESSAGE = "RUMBLEDORE_SIGN_OUT";
 export const PUSH_ACCOUNT_CLEANUP_ENDPOINT = "/api/push/subscriptions/account";
@@ -165,6 +167,7 @@ export async function clearPwaSessionState(): Promise<void> {
 
   await Promise.all([
     swallowCleanupFailure(() => clearPwaPageCaches()),
+    swallowCleanupFailure(() => clearOfflineWriteQueue()),
     swallowCleanupFailure(() => notifyServiceWorkerSignOut(serviceWorker)),
     swallowCleanupFailure(() => unsubscribeBrowserPush(serviceWorker)),
   ]);
@@ -161,6 +161,8 @@ export type {
   SortDirection,
 } from "./table";
 export { DataTable, nextSort, SignedValue } from "./table";
+export type { TableExportButtonsProps } from "./table-export";
+export { TableExportButtons } from "./table-export";
 export type {
   TabButtonItem,
   TabLinkItem,
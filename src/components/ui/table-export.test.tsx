@@ -0,0 +1,163 @@
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  crc32,
+  type TableExportSchema,
+  tableExportCsv,
+  tableExportFileName,
+  tableExportXlsx,
+} from "@/lib/table-export";
+import { TableExportButtons } from "./table-export";
+
+interface Row {
+  name: string;
+  playoff: boolean;
+  points: number | null;
+}
+
+const schema: TableExportSchema<Row> = {
+  columns: [
+    { header: "Manager", value: (row) => row.name },
+    { header: "Points", value: (row) => row.points },
+    { header: "Playoff", value: (row) => row.playoff },
+  ],
+  title: "All-time standings",
+};
+
+const rows: Row[] = [
+  { name: 'Sam "The Hammer", Jr.', playoff: true, points: 1204.5 },
+  { name: "=HYPERLINK(1)", playoff: false, points: null },
+];
+
+function zipEntries(bytes: Uint8Array): Map<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const crc = view.getUint32(offset + 14, true);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const start = offset + 30 + nameLength + extraLength;
+    const data = bytes.subarray(start, start + size);
+    expect(crc32(data)).toBe(crc);
+    entries.set(
+      decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength)),
+      decoder.decode(data),
+    );
+    offset = start + size;
+  }
+  return entries;
+}
+
+describe("table export encoding", () => {
+  it("writes RFC 4180 CSV and defuses formula cells", () => {
+    expect(tableExportCsv(schema, rows)).toBe(
+      'Manager,Points,Playoff\r\n"Sam ""The Hammer"", Jr.",1204.5,true\r\n\'=HYPERLINK(1),,false\r\n',
+    );
+  });
+
+  it("slugs file names and falls back when nothing survives", () => {
+    expect(
+      tableExportFileName(
+        ["Dynasty League", "All-time standings", null],
+        "csv",
+      ),
+    ).toBe("dynasty-league-all-time-standings.csv");
+    expect(tableExportFileName(["!!!"], "xlsx")).toBe("table.xlsx");
+  });
+
+  it("writes a workbook with typed cells and an About sheet", () => {
+    const bytes = tableExportXlsx(schema, rows, [["Games", "Playoffs"]]);
+    const entries = zipEntries(bytes);
+
+    expect([...entries.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+    ]);
+    expect(entries.get("xl/workbook.xml")).toContain(
+      '<sheet name="All-time standings" sheetId="1" r:id="rId1"/><sheet name="About"',
+    );
+    const sheet = entries.get("xl/worksheets/sheet1.xml") ?? "";
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr">');
+    expect(sheet).toContain(
+      '<t xml:space="preserve">Sam &quot;The Hammer&quot;, Jr.</t>',
+    );
+    expect(sheet).toContain('<c r="B2"><v>1204.5</v></c>');
+    expect(sheet).toContain('<c r="C2" t="b"><v>1</v></c>');
+    expect(sheet).not.toContain('r="B3"');
+    expect(entries.get("xl/worksheets/sheet2.xml")).toContain("Playoffs");
+
+    // Same table, same bytes: nothing in the archive depends on the clock.
+    expect(tableExportXlsx(schema, rows, [["Games", "Playoffs"]])).toEqual(
+      bytes,
+    );
+  });
+});
+
+describe("TableExportButtons", () => {
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it("downloads the rows as a named CSV file", () => {
+    const createObjectURL = vi.fn((_blob: Blob) => "blob:export");
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, "click")
+      .mockImplementation(function (this: HTMLAnchorElement) {
+        expect(this.download).toBe("dynasty-standings.csv");
+      });
+
+    render(
+      <TableExportButtons
+        fileName={["Dynasty", "standings"]}
+        label="standings"
+        rows={rows}
+        schema={schema}
+      />,
+    );
+    fireEvent.click(
+      screen.getByRole("button", { name: "Download standings as CSV" }),
+    );
+
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(createObjectURL.mock.calls[0]?.[0]?.type).toBe(
+      "text/csv;charset=utf-8",
+    );
+  });
+
+  it("disables both downloads for an empty table", () => {
+    render(
+      <TableExportButtons
+        fileName={["Dynasty"]}
+        label="standings"
+        rows={[]}
+        schema={schema}
+      />,
+    );
+
+    expect(
+      (
+        screen.getByRole("button", {
+          name: "Download standings as CSV",
+        }) as HTMLButtonElement
+      ).disabled,
+    ).toBe(true);
+    expect(
+      (
+        screen.getByRole("button", {
+          name: "Download standings as a spreadsheet",
+        }) as HTMLButtonElement
+      ).disabled,
+    ).toBe(true);
+  });
+});
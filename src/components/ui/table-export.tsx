@@ -0,0 +1,100 @@
+"use client";
+
+import { Download } from "lucide-react";
+import type { ComponentPropsWithoutRef } from "react";
+
+import {
+  CSV_MIME_TYPE,
+  type TableExportNotes,
+  type TableExportSchema,
+  tableExportCsv,
+  tableExportFileName,
+  tableExportXlsx,
+  XLSX_MIME_TYPE,
+} from "@/lib/table-export";
+import { cn } from "@/lib/utils";
+import { Button } from "./button";
+
+interface TableExportButtonsProps<Row>
+  extends Omit<ComponentPropsWithoutRef<"div">, "children"> {
+  /** File-name parts before the extension, e.g. league, table and lens. */
+  readonly fileName: readonly (string | null | undefined)[];
+  /** Names the table in the buttons' accessible labels. */
+  readonly label: string;
+  readonly notes?: TableExportNotes;
+  readonly rows: readonly Row[];
+  readonly schema: TableExportSchema<Row>;
+}
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked on the next task so the click has started the download.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+function TableExportButtons<Row>({
+  className,
+  fileName,
+  label,
+  notes,
+  rows,
+  schema,
+  ...props
+}: TableExportButtonsProps<Row>) {
+  function downloadCsv() {
+    // The byte-order mark is how Excel knows the file is UTF-8.
+    saveBlob(
+      new Blob(["\uFEFF", tableExportCsv(schema, rows)], {
+        type: CSV_MIME_TYPE,
+      }),
+      tableExportFileName(fileName, "csv"),
+    );
+  }
+
+  function downloadXlsx() {
+    saveBlob(
+      new Blob([tableExportXlsx(schema, rows, notes) as BlobPart], {
+        type: XLSX_MIME_TYPE,
+      }),
+      tableExportFileName(fileName, "xlsx"),
+    );
+  }
+
+  return (
+    <div
+      className={cn("flex flex-wrap items-center gap-1", className)}
+      data-slot="table-export"
+      {...props}
+    >
+      <Button
+        aria-label={`Download ${label} as CSV`}
+        disabled={rows.length === 0}
+        onClick={downloadCsv}
+        size="xs"
+        type="button"
+        variant="ghost"
+      >
+        <Download data-icon="inline-start" />
+        CSV
+      </Button>
+      <Button
+        aria-label={`Download ${label} as a spreadsheet`}
+        disabled={rows.length === 0}
+        onClick={downloadXlsx}
+        size="xs"
+        type="button"
+        variant="ghost"
+      >
+        <Download data-icon="inline-start" />
+        XLSX
+      </Button>
+    </div>
+  );
+}
+
+export { TableExportButtons };
+export type { TableExportButtonsProps };
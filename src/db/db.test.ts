@@ -335,8 +335,12 @@ describe("league_role collapse (migration 0082)", () => {
     );
     expect(labels.map((row) => row.label)).toEqual([
       "commissioner",
+      "co_commissioner",
       "data_steward",
+      "editor",
+      "lore_keeper",
       "member",
+      "spectator",
     ]);
 
     for (const table of ["members", "invitations"]) {
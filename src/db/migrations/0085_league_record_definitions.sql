@@ -0,0 +1,59 @@
+-- League-defined ("house") records.
+--
+-- A commissioner describes a record declaratively -- a metric, a scope (single
+-- week, season, career, or against one opponent), an aggregation, a direction
+-- and optional filters such as "opponent was that season's champion" or "your
+-- started kicker outscored N points". The stats engine evaluates every active
+-- definition on each recompute and writes the holder into `all_time_record`
+-- under the record type `custom:<record_key>`, so house records share the
+-- progression chain, lore hooks and record.broken events of built-in records.
+--
+-- The definition row is the source of truth; `all_time_record` rows for an
+-- archived definition are removed on the next recompute like any other
+-- record type that stops producing candidates.
+--
+-- League-scoped, so the table declares a current_league_id() policy AND has
+-- FORCE ROW LEVEL SECURITY hand-added below (see migration 0002).
+
+ALTER TYPE "public"."league_data_edit_target_kind" ADD VALUE 'record_definition';--> statement-breakpoint
+
+CREATE TYPE "public"."league_record_scope" AS ENUM('week', 'season', 'career', 'h2h');--> statement-breakpoint
+CREATE TYPE "public"."league_record_metric" AS ENUM('points_for', 'points_against', 'margin', 'combined_points');--> statement-breakpoint
+CREATE TYPE "public"."league_record_aggregation" AS ENUM('count', 'sum', 'average', 'max', 'min');--> statement-breakpoint
+CREATE TYPE "public"."league_record_direction" AS ENUM('max', 'min');--> statement-breakpoint
+CREATE TYPE "public"."league_record_segment" AS ENUM('both', 'regular', 'playoff');--> statement-breakpoint
+CREATE TYPE "public"."league_record_definition_status" AS ENUM('active', 'archived');--> statement-breakpoint
+
+CREATE TABLE "league_record_definition" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"record_key" text NOT NULL,
+	"label" text NOT NULL,
+	"description" text,
+	"metric" "league_record_metric" NOT NULL,
+	"scope" "league_record_scope" NOT NULL,
+	"aggregation" "league_record_aggregation",
+	"direction" "league_record_direction" NOT NULL,
+	"segment" "league_record_segment" DEFAULT 'both' NOT NULL,
+	"filters" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" "league_record_definition_status" DEFAULT 'active' NOT NULL,
+	"created_by_user_id" uuid,
+	"updated_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "league_record_definition_aggregation_scope" CHECK (("league_record_definition"."scope" = 'week') = ("league_record_definition"."aggregation" IS NULL))
+);--> statement-breakpoint
+
+ALTER TABLE "league_record_definition" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+
+ALTER TABLE "league_record_definition" ADD CONSTRAINT "league_record_definition_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_record_definition" ADD CONSTRAINT "league_record_definition_created_by_user_id_users_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_record_definition" ADD CONSTRAINT "league_record_definition_updated_by_user_id_users_id_fk" FOREIGN KEY ("updated_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+
+CREATE UNIQUE INDEX "league_record_definition_key_unique" ON "league_record_definition" USING btree ("league_id","record_key");--> statement-breakpoint
+CREATE INDEX "league_record_definition_status_idx" ON "league_record_definition" USING btree ("league_id","status");--> statement-breakpoint
+
+CREATE POLICY "league_record_definition_isolation" ON "league_record_definition" AS PERMISSIVE FOR ALL TO public USING ("league_record_definition"."league_id" = current_league_id()) WITH CHECK ("league_record_definition"."league_id" = current_league_id());--> statement-breakpoint
+
+-- drizzle-kit does not emit FORCE; hand-added per the repo convention.
+ALTER TABLE "league_record_definition" FORCE ROW LEVEL SECURITY;
@@ -0,0 +1,50 @@
+-- Monte Carlo playoff odds.
+--
+-- `refreshPlayoffOdds` simulates the rest of the current season from the
+-- remaining schedule, each team's weekly scoring distribution and the league's
+-- playoff rules, then upserts one row per team keyed by the last final scoring
+-- period. The row for the previous period is the week-over-week baseline the
+-- home page and the content pipeline cite as odds movement.
+--
+-- Clinch and elimination flags are mathematical (best/worst remaining case),
+-- not read off the simulation, so a 100% simulated team is not "clinched"
+-- until no schedule outcome can knock it out.
+
+ALTER TYPE "public"."stats_calculation_type" ADD VALUE 'playoff_odds' BEFORE 'all';--> statement-breakpoint
+
+CREATE TABLE "playoff_odds_snapshot" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"season" integer NOT NULL,
+	"as_of_scoring_period" integer NOT NULL,
+	"provider_team_id" text NOT NULL,
+	"person_id" uuid,
+	"playoff_odds" double precision NOT NULL,
+	"bye_odds" double precision NOT NULL,
+	"title_odds" double precision NOT NULL,
+	"last_place_odds" double precision NOT NULL,
+	"projected_wins" double precision NOT NULL,
+	"projected_seed" double precision NOT NULL,
+	"clinched_playoff" boolean DEFAULT false NOT NULL,
+	"clinched_bye" boolean DEFAULT false NOT NULL,
+	"clinched_division" boolean DEFAULT false NOT NULL,
+	"eliminated" boolean DEFAULT false NOT NULL,
+	"simulations" integer NOT NULL,
+	"metadata" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "playoff_odds_snapshot_simulations_positive" CHECK ("playoff_odds_snapshot"."simulations" >= 1)
+);--> statement-breakpoint
+
+ALTER TABLE "playoff_odds_snapshot" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+
+ALTER TABLE "playoff_odds_snapshot" ADD CONSTRAINT "playoff_odds_snapshot_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "playoff_odds_snapshot" ADD CONSTRAINT "playoff_odds_snapshot_person_id_person_id_fk" FOREIGN KEY ("person_id") REFERENCES "public"."person"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+
+CREATE UNIQUE INDEX "playoff_odds_snapshot_team_period_unique" ON "playoff_odds_snapshot" USING btree ("league_id","season","as_of_scoring_period","provider_team_id");--> statement-breakpoint
+CREATE INDEX "playoff_odds_snapshot_league_season_idx" ON "playoff_odds_snapshot" USING btree ("league_id","season","as_of_scoring_period");--> statement-breakpoint
+
+CREATE POLICY "playoff_odds_snapshot_isolation" ON "playoff_odds_snapshot" AS PERMISSIVE FOR ALL TO public USING ("playoff_odds_snapshot"."league_id" = current_league_id()) WITH CHECK ("playoff_odds_snapshot"."league_id" = current_league_id());--> statement-breakpoint
+
+-- drizzle-kit does not emit FORCE; hand-added per the repo convention.
+ALTER TABLE "playoff_odds_snapshot" FORCE ROW LEVEL SECURITY;
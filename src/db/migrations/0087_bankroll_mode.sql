@@ -0,0 +1,118 @@
+-- Optional per-league paper bankroll mode, alongside Pick 'em.
+--
+-- 0084 dropped the original bankroll engine when Pick 'em replaced it. This
+-- brings a smaller version back as an opt-in mode rather than a replacement:
+-- Pick 'em accuracy stays the primary arena ladder, and leagues that enable
+-- bankroll mode also get stakes, parlays, and a second arena track ranked on
+-- ROI. None of the 0084 tables are recreated; the ledger is derived from the
+-- slips themselves, and the weekly allowance rides on `pick_weeks`.
+--
+-- `bet_leg_selection` survived 0084 as the Pick 'em vocabulary and is reused
+-- for the leg selection here.
+
+CREATE TYPE "public"."bankroll_outcome" AS ENUM('pending', 'won', 'lost', 'push', 'void');--> statement-breakpoint
+
+CREATE TABLE "league_bankroll_settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL,
+	"weekly_allowance" integer DEFAULT 1000 NOT NULL,
+	"max_parlay_legs" integer DEFAULT 6 NOT NULL,
+	"updated_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "league_bankroll_settings_allowance_positive" CHECK ("league_bankroll_settings"."weekly_allowance" > 0),
+	CONSTRAINT "league_bankroll_settings_parlay_legs_range" CHECK ("league_bankroll_settings"."max_parlay_legs" between 1 and 12)
+);--> statement-breakpoint
+
+CREATE TABLE "bankroll_slips" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"pick_week_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"stake" numeric(12, 2) NOT NULL,
+	"locked_price" integer NOT NULL,
+	"status" "bankroll_outcome" DEFAULT 'pending' NOT NULL,
+	"payout" numeric(12, 2),
+	"placed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"settled_at" timestamp with time zone,
+	"idempotency_key" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "bankroll_slips_stake_positive" CHECK ("bankroll_slips"."stake" > 0)
+);--> statement-breakpoint
+
+CREATE TABLE "bankroll_slip_legs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"slip_id" uuid NOT NULL,
+	"market_id" uuid NOT NULL,
+	"odds_snapshot_id" uuid NOT NULL,
+	"selection" "bet_leg_selection" NOT NULL,
+	"locked_line" numeric(10, 2),
+	"locked_price" integer NOT NULL,
+	"status" "bankroll_outcome" DEFAULT 'pending' NOT NULL,
+	"graded_at" timestamp with time zone,
+	"result_detail" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+CREATE TABLE "arena_bankroll_standing" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"season_id" uuid NOT NULL,
+	"kind" "arena_standing_kind" NOT NULL,
+	"subject_id" uuid NOT NULL,
+	"league_id" uuid,
+	"user_id" uuid,
+	"rank" integer NOT NULL,
+	"previous_rank" integer,
+	"rank_delta" integer DEFAULT 0 NOT NULL,
+	"staked_units" numeric(14, 2) DEFAULT 0 NOT NULL,
+	"net_units" numeric(14, 2) DEFAULT 0 NOT NULL,
+	"roi_bps" integer DEFAULT 0 NOT NULL,
+	"settled_slips" integer DEFAULT 0 NOT NULL,
+	"won_slips" integer DEFAULT 0 NOT NULL,
+	"weeks_played" integer NOT NULL,
+	"computed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+ALTER TABLE "league_bankroll_settings" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "bankroll_slips" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "bankroll_slip_legs" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+
+ALTER TABLE "league_bankroll_settings" ADD CONSTRAINT "league_bankroll_settings_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_bankroll_settings" ADD CONSTRAINT "league_bankroll_settings_updated_by_user_id_users_id_fk" FOREIGN KEY ("updated_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bankroll_slips" ADD CONSTRAINT "bankroll_slips_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bankroll_slips" ADD CONSTRAINT "bankroll_slips_pick_week_id_pick_weeks_id_fk" FOREIGN KEY ("pick_week_id") REFERENCES "public"."pick_weeks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bankroll_slips" ADD CONSTRAINT "bankroll_slips_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bankroll_slip_legs" ADD CONSTRAINT "bankroll_slip_legs_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bankroll_slip_legs" ADD CONSTRAINT "bankroll_slip_legs_slip_id_bankroll_slips_id_fk" FOREIGN KEY ("slip_id") REFERENCES "public"."bankroll_slips"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bankroll_slip_legs" ADD CONSTRAINT "bankroll_slip_legs_market_id_betting_market_id_fk" FOREIGN KEY ("market_id") REFERENCES "public"."betting_market"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bankroll_slip_legs" ADD CONSTRAINT "bankroll_slip_legs_odds_snapshot_id_odds_snapshot_id_fk" FOREIGN KEY ("odds_snapshot_id") REFERENCES "public"."odds_snapshot"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "arena_bankroll_standing" ADD CONSTRAINT "arena_bankroll_standing_season_id_arena_season_id_fk" FOREIGN KEY ("season_id") REFERENCES "public"."arena_season"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "arena_bankroll_standing" ADD CONSTRAINT "arena_bankroll_standing_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "arena_bankroll_standing" ADD CONSTRAINT "arena_bankroll_standing_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+
+CREATE UNIQUE INDEX "league_bankroll_settings_league_unique" ON "league_bankroll_settings" USING btree ("league_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "bankroll_slips_idempotency_unique" ON "bankroll_slips" USING btree ("league_id","user_id","idempotency_key");--> statement-breakpoint
+CREATE INDEX "bankroll_slips_week_user_idx" ON "bankroll_slips" USING btree ("pick_week_id","user_id");--> statement-breakpoint
+CREATE INDEX "bankroll_slips_league_status_idx" ON "bankroll_slips" USING btree ("league_id","status");--> statement-breakpoint
+CREATE UNIQUE INDEX "bankroll_slip_legs_slip_market_unique" ON "bankroll_slip_legs" USING btree ("slip_id","market_id");--> statement-breakpoint
+CREATE INDEX "bankroll_slip_legs_market_status_idx" ON "bankroll_slip_legs" USING btree ("market_id","status");--> statement-breakpoint
+CREATE INDEX "bankroll_slip_legs_league_idx" ON "bankroll_slip_legs" USING btree ("league_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "arena_bankroll_standing_subject_unique" ON "arena_bankroll_standing" USING btree ("season_id","kind","subject_id");--> statement-breakpoint
+CREATE INDEX "arena_bankroll_standing_leaderboard_idx" ON "arena_bankroll_standing" USING btree ("season_id","kind","rank");--> statement-breakpoint
+CREATE INDEX "arena_bankroll_standing_league_idx" ON "arena_bankroll_standing" USING btree ("league_id");--> statement-breakpoint
+CREATE INDEX "arena_bankroll_standing_user_idx" ON "arena_bankroll_standing" USING btree ("user_id");--> statement-breakpoint
+
+CREATE POLICY "league_bankroll_settings_isolation" ON "league_bankroll_settings" AS PERMISSIVE FOR ALL TO public USING ("league_bankroll_settings"."league_id" = current_league_id()) WITH CHECK ("league_bankroll_settings"."league_id" = current_league_id());--> statement-breakpoint
+CREATE POLICY "bankroll_slips_isolation" ON "bankroll_slips" AS PERMISSIVE FOR ALL TO public USING ("bankroll_slips"."league_id" = current_league_id()) WITH CHECK ("bankroll_slips"."league_id" = current_league_id());--> statement-breakpoint
+CREATE POLICY "bankroll_slip_legs_isolation" ON "bankroll_slip_legs" AS PERMISSIVE FOR ALL TO public USING ("bankroll_slip_legs"."league_id" = current_league_id()) WITH CHECK ("bankroll_slip_legs"."league_id" = current_league_id());--> statement-breakpoint
+
+-- drizzle-kit does not emit FORCE; hand-added per the repo convention.
+ALTER TABLE "league_bankroll_settings" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "bankroll_slips" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "bankroll_slip_legs" FORCE ROW LEVEL SECURITY;
@@ -0,0 +1,2 @@
+ALTER TYPE "public"."fantasy_provider" ADD VALUE 'file';--> statement-breakpoint
+ALTER TYPE "public"."onboarding_connection_flow" ADD VALUE 'upload';
@@ -0,0 +1,25 @@
+-- Multi-provider league history.
+--
+-- A league that moved providers (Yahoo, then ESPN, then Sleeper) keeps one
+-- canonical `leagues` row. Each earlier provider league is linked to it here,
+-- with the seasons it covers, and its historical import lands in the canonical
+-- league. Provider-normalized rows already carry their own provider and
+-- provider league id, so no league-scoped table changes.
+
+CREATE TABLE "league_history_sources" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"provider" "fantasy_provider" NOT NULL,
+	"provider_league_id" text NOT NULL,
+	"first_season" integer NOT NULL,
+	"last_season" integer NOT NULL,
+	"linked_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "league_history_sources_season_range" CHECK ("league_history_sources"."first_season" <= "league_history_sources"."last_season")
+);--> statement-breakpoint
+
+ALTER TABLE "league_history_sources" ADD CONSTRAINT "league_history_sources_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_history_sources" ADD CONSTRAINT "league_history_sources_linked_by_user_id_users_id_fk" FOREIGN KEY ("linked_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "league_history_sources_provider_league_unique" ON "league_history_sources" USING btree ("provider","provider_league_id");--> statement-breakpoint
+CREATE INDEX "league_history_sources_league_idx" ON "league_history_sources" USING btree ("league_id");
@@ -0,0 +1,3 @@
+ALTER TYPE "public"."push_notification_type" ADD VALUE IF NOT EXISTS 'league.lore.disputed';--> statement-breakpoint
+ALTER TABLE "lore_verifications" ADD COLUMN "assertions" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "lore_verifications" ADD COLUMN "verified_at" timestamp with time zone DEFAULT now() NOT NULL;
@@ -0,0 +1,3 @@
+ALTER TYPE "public"."league_webhook_target_kind" ADD VALUE IF NOT EXISTS 'slack';--> statement-breakpoint
+ALTER TYPE "public"."league_webhook_target_kind" ADD VALUE IF NOT EXISTS 'groupme';--> statement-breakpoint
+ALTER TYPE "public"."league_webhook_target_kind" ADD VALUE IF NOT EXISTS 'telegram';
@@ -0,0 +1,41 @@
+-- Trade analyzer.
+--
+-- `refreshTradeAnalyses` credits each player in a trade to the side that
+-- rostered him after the deal and sums his `fantasy_player_week_stat_breakdowns`
+-- points for that side over the rest of the season. The row is rewritten as
+-- weeks play out, so `winner_provider_team_id` can change hands until the
+-- season completes and `status` settles on 'final'.
+
+CREATE TABLE "trade_analysis" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"fantasy_transaction_id" uuid NOT NULL,
+	"provider" "fantasy_provider" NOT NULL,
+	"league_provider_id" text NOT NULL,
+	"season" integer NOT NULL,
+	"scoring_period" integer,
+	"through_scoring_period" integer,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"sides" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"untracked_player_provider_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"winner_provider_team_id" text,
+	"margin" double precision DEFAULT 0 NOT NULL,
+	"occurred_at" timestamp with time zone NOT NULL,
+	"content_hash" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "trade_analysis_status_valid" CHECK ("trade_analysis"."status" IN ('pending', 'in_progress', 'final'))
+);--> statement-breakpoint
+
+ALTER TABLE "trade_analysis" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+
+ALTER TABLE "trade_analysis" ADD CONSTRAINT "trade_analysis_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trade_analysis" ADD CONSTRAINT "trade_analysis_fantasy_transaction_id_fantasy_transactions_id_fk" FOREIGN KEY ("fantasy_transaction_id") REFERENCES "public"."fantasy_transactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+
+CREATE UNIQUE INDEX "trade_analysis_transaction_unique" ON "trade_analysis" USING btree ("league_id","fantasy_transaction_id");--> statement-breakpoint
+CREATE INDEX "trade_analysis_league_season_idx" ON "trade_analysis" USING btree ("league_id","season","occurred_at");--> statement-breakpoint
+
+CREATE POLICY "trade_analysis_isolation" ON "trade_analysis" AS PERMISSIVE FOR ALL TO public USING ("trade_analysis"."league_id" = current_league_id()) WITH CHECK ("trade_analysis"."league_id" = current_league_id());--> statement-breakpoint
+
+-- drizzle-kit does not emit FORCE; hand-added per the repo convention.
+ALTER TABLE "trade_analysis" FORCE ROW LEVEL SECURITY;
@@ -0,0 +1,35 @@
+-- Personal agent conversation threads.
+--
+-- Threads are owned by a user and optionally pinned to the league the
+-- conversation started in. Global threads read across every league the user
+-- belongs to, so neither table is league-scoped: no RLS, and the service
+-- filters on `user_id`. Only user and assistant turns are stored; tool
+-- traffic is summarised on the assistant row in `tool_calls`.
+
+CREATE TABLE "personal_agent_threads" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"league_id" uuid,
+	"title" text NOT NULL,
+	"last_message_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+CREATE TABLE "personal_agent_messages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"thread_id" uuid NOT NULL,
+	"role" text NOT NULL,
+	"content" text NOT NULL,
+	"citations" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"tool_calls" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "personal_agent_messages_role_valid" CHECK ("personal_agent_messages"."role" IN ('user', 'assistant'))
+);--> statement-breakpoint
+
+ALTER TABLE "personal_agent_threads" ADD CONSTRAINT "personal_agent_threads_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "personal_agent_threads" ADD CONSTRAINT "personal_agent_threads_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "personal_agent_messages" ADD CONSTRAINT "personal_agent_messages_thread_id_personal_agent_threads_id_fk" FOREIGN KEY ("thread_id") REFERENCES "public"."personal_agent_threads"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+
+CREATE INDEX "personal_agent_threads_user_last_message_idx" ON "personal_agent_threads" USING btree ("user_id","last_message_at");--> statement-breakpoint
+CREATE INDEX "personal_agent_messages_thread_created_idx" ON "personal_agent_messages" USING btree ("thread_id","created_at");
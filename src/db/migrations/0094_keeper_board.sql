@@ -0,0 +1,50 @@
+-- Keeper board.
+--
+-- `keeper_boards` holds one row per league season with the commissioner's
+-- rule overrides, the declaration deadline and the lock. Managers declare
+-- keepers into `keeper_declarations`; the projected cost round is stored on
+-- the row so a later rule change does not reprice a keeper already declared.
+
+CREATE TABLE "keeper_boards" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"season" integer NOT NULL,
+	"rules" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"deadline_at" timestamp with time zone,
+	"locked_at" timestamp with time zone,
+	"locked_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+CREATE TABLE "keeper_declarations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"keeper_board_id" uuid NOT NULL,
+	"provider_team_id" text NOT NULL,
+	"provider_player_id" text NOT NULL,
+	"cost_round" integer,
+	"declared_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+ALTER TABLE "keeper_boards" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "keeper_declarations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+
+ALTER TABLE "keeper_boards" ADD CONSTRAINT "keeper_boards_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "keeper_boards" ADD CONSTRAINT "keeper_boards_locked_by_user_id_users_id_fk" FOREIGN KEY ("locked_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "keeper_declarations" ADD CONSTRAINT "keeper_declarations_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "keeper_declarations" ADD CONSTRAINT "keeper_declarations_keeper_board_id_keeper_boards_id_fk" FOREIGN KEY ("keeper_board_id") REFERENCES "public"."keeper_boards"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "keeper_declarations" ADD CONSTRAINT "keeper_declarations_declared_by_user_id_users_id_fk" FOREIGN KEY ("declared_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+
+CREATE UNIQUE INDEX "keeper_boards_league_season_unique" ON "keeper_boards" USING btree ("league_id","season");--> statement-breakpoint
+CREATE UNIQUE INDEX "keeper_declarations_board_player_unique" ON "keeper_declarations" USING btree ("keeper_board_id","provider_player_id");--> statement-breakpoint
+CREATE INDEX "keeper_declarations_board_team_idx" ON "keeper_declarations" USING btree ("keeper_board_id","provider_team_id");--> statement-breakpoint
+
+CREATE POLICY "keeper_boards_isolation" ON "keeper_boards" AS PERMISSIVE FOR ALL TO public USING ("keeper_boards"."league_id" = current_league_id()) WITH CHECK ("keeper_boards"."league_id" = current_league_id());--> statement-breakpoint
+CREATE POLICY "keeper_declarations_isolation" ON "keeper_declarations" AS PERMISSIVE FOR ALL TO public USING ("keeper_declarations"."league_id" = current_league_id()) WITH CHECK ("keeper_declarations"."league_id" = current_league_id());--> statement-breakpoint
+
+-- drizzle-kit does not emit FORCE; hand-added per the repo convention.
+ALTER TABLE "keeper_boards" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "keeper_declarations" FORCE ROW LEVEL SECURITY;
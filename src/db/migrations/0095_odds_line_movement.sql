@@ -0,0 +1,39 @@
+-- Odds line movement and closing-line value.
+--
+-- `odds_line_movement` compresses `odds_snapshot` into open/high/low/close
+-- candles per market. It is part of the central betting catalog, so like
+-- `odds_snapshot` it carries no league RLS. Picks gain the closing quote and
+-- their CLV, and arena standings gain the beat-the-close counts that the
+-- leaderboard reports beside accuracy.
+
+CREATE TABLE "odds_line_movement" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"market_id" uuid NOT NULL,
+	"bucket_start" timestamp with time zone NOT NULL,
+	"open_line" numeric(10, 2),
+	"high_line" numeric(10, 2),
+	"low_line" numeric(10, 2),
+	"close_line" numeric(10, 2),
+	"open_price" integer,
+	"high_price" integer,
+	"low_price" integer,
+	"close_price" integer,
+	"snapshot_count" integer NOT NULL,
+	"first_captured_at" timestamp with time zone NOT NULL,
+	"last_captured_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "odds_line_movement_snapshot_count_positive" CHECK ("odds_line_movement"."snapshot_count" > 0)
+);--> statement-breakpoint
+
+ALTER TABLE "odds_line_movement" ADD CONSTRAINT "odds_line_movement_market_id_betting_market_id_fk" FOREIGN KEY ("market_id") REFERENCES "public"."betting_market"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "odds_line_movement_market_bucket_unique" ON "odds_line_movement" USING btree ("market_id","bucket_start");--> statement-breakpoint
+
+ALTER TABLE "picks" ADD COLUMN "closing_odds_snapshot_id" uuid;--> statement-breakpoint
+ALTER TABLE "picks" ADD COLUMN "closing_line" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "picks" ADD COLUMN "closing_line_value" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "picks" ADD CONSTRAINT "picks_closing_odds_snapshot_id_odds_snapshot_id_fk" FOREIGN KEY ("closing_odds_snapshot_id") REFERENCES "public"."odds_snapshot"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+
+ALTER TABLE "arena_standing" ADD COLUMN "clv_picks" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "arena_standing" ADD COLUMN "beat_close_picks" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "arena_standing" ADD COLUMN "beat_close_bps" integer DEFAULT 0 NOT NULL;
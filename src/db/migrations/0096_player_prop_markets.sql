@@ -0,0 +1,10 @@
+-- Player prop markets.
+--
+-- A prop market names its player with the odds provider's own subject, which
+-- grading cannot join to the stats warehouse. `nfl_player_id` records the
+-- matched `nfl_players` row so props grade from `nfl_player_week_stats` and
+-- the Pick 'em slate can offer props on players rostered in a league.
+
+ALTER TABLE "betting_market" ADD COLUMN "nfl_player_id" uuid;--> statement-breakpoint
+ALTER TABLE "betting_market" ADD CONSTRAINT "betting_market_nfl_player_id_nfl_players_id_fk" FOREIGN KEY ("nfl_player_id") REFERENCES "public"."nfl_players"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "betting_market_nfl_player_idx" ON "betting_market" USING btree ("nfl_player_id");
@@ -0,0 +1,65 @@
+-- Side-game pools.
+--
+-- `side_pools` holds one survivor and/or one confidence pool per league
+-- season. `side_pool_picks` holds every pick in either mode; a null
+-- `confidence` marks a survivor pick, and the partial unique indexes enforce
+-- each mode's rules (one team a week and no repeats; each rank once a week).
+
+ALTER TYPE "public"."push_notification_type" ADD VALUE IF NOT EXISTS 'league.pool.eliminated';--> statement-breakpoint
+ALTER TYPE "public"."push_notification_type" ADD VALUE IF NOT EXISTS 'league.pool.scored';--> statement-breakpoint
+CREATE TYPE "public"."side_pool_mode" AS ENUM('survivor', 'confidence');--> statement-breakpoint
+
+CREATE TABLE "side_pools" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"season" integer NOT NULL,
+	"mode" "side_pool_mode" NOT NULL,
+	"name" text NOT NULL,
+	"created_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "side_pools_name_nonempty" CHECK (length("side_pools"."name") > 0)
+);--> statement-breakpoint
+
+CREATE TABLE "side_pool_picks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"pool_id" uuid NOT NULL,
+	"pick_week_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"betting_event_id" uuid NOT NULL,
+	"selection" "bet_leg_selection" NOT NULL,
+	"team" text NOT NULL,
+	"confidence" integer,
+	"status" "pick_status" DEFAULT 'pending' NOT NULL,
+	"graded_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "side_pool_picks_confidence_positive" CHECK ("side_pool_picks"."confidence" is null or "side_pool_picks"."confidence" > 0),
+	CONSTRAINT "side_pool_picks_selection_side" CHECK ("side_pool_picks"."selection" in ('home', 'away'))
+);--> statement-breakpoint
+
+ALTER TABLE "side_pools" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "side_pool_picks" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+
+ALTER TABLE "side_pools" ADD CONSTRAINT "side_pools_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "side_pools" ADD CONSTRAINT "side_pools_created_by_user_id_users_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "side_pool_picks" ADD CONSTRAINT "side_pool_picks_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "side_pool_picks" ADD CONSTRAINT "side_pool_picks_pool_id_side_pools_id_fk" FOREIGN KEY ("pool_id") REFERENCES "public"."side_pools"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "side_pool_picks" ADD CONSTRAINT "side_pool_picks_pick_week_id_pick_weeks_id_fk" FOREIGN KEY ("pick_week_id") REFERENCES "public"."pick_weeks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "side_pool_picks" ADD CONSTRAINT "side_pool_picks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "side_pool_picks" ADD CONSTRAINT "side_pool_picks_betting_event_id_betting_event_id_fk" FOREIGN KEY ("betting_event_id") REFERENCES "public"."betting_event"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+
+CREATE UNIQUE INDEX "side_pools_league_season_mode_unique" ON "side_pools" USING btree ("league_id","season","mode");--> statement-breakpoint
+CREATE UNIQUE INDEX "side_pool_picks_user_event_unique" ON "side_pool_picks" USING btree ("pool_id","pick_week_id","user_id","betting_event_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "side_pool_picks_survivor_week_unique" ON "side_pool_picks" USING btree ("pool_id","user_id","pick_week_id") WHERE "side_pool_picks"."confidence" is null;--> statement-breakpoint
+CREATE UNIQUE INDEX "side_pool_picks_survivor_team_unique" ON "side_pool_picks" USING btree ("pool_id","user_id","team") WHERE "side_pool_picks"."confidence" is null;--> statement-breakpoint
+CREATE UNIQUE INDEX "side_pool_picks_confidence_rank_unique" ON "side_pool_picks" USING btree ("pool_id","user_id","pick_week_id","confidence") WHERE "side_pool_picks"."confidence" is not null;--> statement-breakpoint
+CREATE INDEX "side_pool_picks_event_status_idx" ON "side_pool_picks" USING btree ("betting_event_id","status");--> statement-breakpoint
+
+CREATE POLICY "side_pools_isolation" ON "side_pools" AS PERMISSIVE FOR ALL TO public USING ("side_pools"."league_id" = current_league_id()) WITH CHECK ("side_pools"."league_id" = current_league_id());--> statement-breakpoint
+CREATE POLICY "side_pool_picks_isolation" ON "side_pool_picks" AS PERMISSIVE FOR ALL TO public USING ("side_pool_picks"."league_id" = current_league_id()) WITH CHECK ("side_pool_picks"."league_id" = current_league_id());--> statement-breakpoint
+
+-- drizzle-kit does not emit FORCE; hand-added per the repo convention.
+ALTER TABLE "side_pools" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "side_pool_picks" FORCE ROW LEVEL SECURITY;
@@ -0,0 +1,22 @@
+-- Arena divisions: each season tiers leagues by the prior season's finish,
+-- with promotion and relegation between neighbouring tiers at rollover.
+-- Central like arena_standing, so no row-level security.
+CREATE TYPE "public"."arena_division_movement" AS ENUM('new', 'held', 'promoted', 'relegated');--> statement-breakpoint
+
+CREATE TABLE "arena_division_placement" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"season_id" uuid NOT NULL,
+	"league_id" uuid NOT NULL,
+	"tier" integer NOT NULL,
+	"previous_tier" integer,
+	"movement" "arena_division_movement" NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "arena_division_placement_tier_positive" CHECK ("arena_division_placement"."tier" >= 1)
+);--> statement-breakpoint
+
+ALTER TABLE "arena_division_placement" ADD CONSTRAINT "arena_division_placement_season_id_arena_season_id_fk" FOREIGN KEY ("season_id") REFERENCES "public"."arena_season"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "arena_division_placement" ADD CONSTRAINT "arena_division_placement_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+
+CREATE UNIQUE INDEX "arena_division_placement_league_unique" ON "arena_division_placement" USING btree ("season_id","league_id");--> statement-breakpoint
+CREATE INDEX "arena_division_placement_tier_idx" ON "arena_division_placement" USING btree ("season_id","tier");
@@ -0,0 +1,31 @@
+-- Bracket challenge picks.
+--
+-- One row per member, season and championship-bracket position. The bracket
+-- is rebuilt from the league's matchups on read, so picks carry no grading
+-- state of their own.
+
+CREATE TABLE "bracket_challenge_picks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"season" integer NOT NULL,
+	"user_id" uuid NOT NULL,
+	"round" integer NOT NULL,
+	"slot" integer NOT NULL,
+	"provider_team_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "bracket_challenge_picks_round_positive" CHECK ("bracket_challenge_picks"."round" >= 1),
+	CONSTRAINT "bracket_challenge_picks_slot_nonnegative" CHECK ("bracket_challenge_picks"."slot" >= 0)
+);--> statement-breakpoint
+
+ALTER TABLE "bracket_challenge_picks" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+
+ALTER TABLE "bracket_challenge_picks" ADD CONSTRAINT "bracket_challenge_picks_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bracket_challenge_picks" ADD CONSTRAINT "bracket_challenge_picks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+
+CREATE UNIQUE INDEX "bracket_challenge_picks_game_unique" ON "bracket_challenge_picks" USING btree ("league_id","season","user_id","round","slot");--> statement-breakpoint
+
+CREATE POLICY "bracket_challenge_picks_isolation" ON "bracket_challenge_picks" AS PERMISSIVE FOR ALL TO public USING ("bracket_challenge_picks"."league_id" = current_league_id()) WITH CHECK ("bracket_challenge_picks"."league_id" = current_league_id());--> statement-breakpoint
+
+-- drizzle-kit does not emit FORCE; hand-added per the repo convention.
+ALTER TABLE "bracket_challenge_picks" FORCE ROW LEVEL SECURITY;
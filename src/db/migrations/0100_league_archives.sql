@@ -0,0 +1,33 @@
+-- League archives.
+--
+-- One row per commissioner-requested export. The archive document is built
+-- by the `league-archive-export` job and stored on the row, so a download
+-- link stays valid without a second build.
+
+CREATE TYPE "public"."league_archive_status" AS ENUM('queued', 'ready', 'failed');--> statement-breakpoint
+
+CREATE TABLE "league_archives" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"requested_by_user_id" uuid,
+	"status" "league_archive_status" DEFAULT 'queued' NOT NULL,
+	"format_version" integer NOT NULL,
+	"archive" jsonb,
+	"byte_size" integer,
+	"error" text,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+ALTER TABLE "league_archives" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+
+ALTER TABLE "league_archives" ADD CONSTRAINT "league_archives_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_archives" ADD CONSTRAINT "league_archives_requested_by_user_id_users_id_fk" FOREIGN KEY ("requested_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+
+CREATE INDEX "league_archives_league_created_idx" ON "league_archives" USING btree ("league_id","created_at");--> statement-breakpoint
+
+CREATE POLICY "league_archives_isolation" ON "league_archives" AS PERMISSIVE FOR ALL TO public USING ("league_archives"."league_id" = current_league_id()) WITH CHECK ("league_archives"."league_id" = current_league_id());--> statement-breakpoint
+
+-- drizzle-kit does not emit FORCE; hand-added per the repo convention.
+ALTER TABLE "league_archives" FORCE ROW LEVEL SECURITY;
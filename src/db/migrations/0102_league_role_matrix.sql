@@ -0,0 +1,40 @@
+-- Granular league roles and the role audit log.
+--
+-- Adds co-commissioner, editor, lore keeper and spectator to `league_role`.
+-- What each role may do is the permission matrix in src/auth/permissions.ts,
+-- not a rank, so label order here only keeps related roles together.
+-- `ADD VALUE` is safe inside the migration transaction because nothing below
+-- writes the new labels.
+--
+-- `league_role_audit_log` records every role change with the member who made
+-- it. League-scoped like `identity_audit_log`, so it gets the isolation policy
+-- and forced RLS.
+
+ALTER TYPE "league_role" ADD VALUE IF NOT EXISTS 'co_commissioner' AFTER 'commissioner';--> statement-breakpoint
+ALTER TYPE "league_role" ADD VALUE IF NOT EXISTS 'editor' AFTER 'data_steward';--> statement-breakpoint
+ALTER TYPE "league_role" ADD VALUE IF NOT EXISTS 'lore_keeper' AFTER 'editor';--> statement-breakpoint
+ALTER TYPE "league_role" ADD VALUE IF NOT EXISTS 'spectator' AFTER 'member';--> statement-breakpoint
+
+CREATE TABLE "league_role_audit_log" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"actor_user_id" uuid,
+	"target_user_id" uuid,
+	"previous_role" "league_role",
+	"role" "league_role" NOT NULL,
+	"reason" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+ALTER TABLE "league_role_audit_log" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+
+ALTER TABLE "league_role_audit_log" ADD CONSTRAINT "league_role_audit_log_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_role_audit_log" ADD CONSTRAINT "league_role_audit_log_actor_user_id_users_id_fk" FOREIGN KEY ("actor_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_role_audit_log" ADD CONSTRAINT "league_role_audit_log_target_user_id_users_id_fk" FOREIGN KEY ("target_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+
+CREATE INDEX "league_role_audit_log_league_created_idx" ON "league_role_audit_log" USING btree ("league_id","created_at");--> statement-breakpoint
+
+CREATE POLICY "league_role_audit_log_isolation" ON "league_role_audit_log" AS PERMISSIVE FOR ALL TO public USING ("league_role_audit_log"."league_id" = current_league_id()) WITH CHECK ("league_role_audit_log"."league_id" = current_league_id());--> statement-breakpoint
+
+-- drizzle-kit does not emit FORCE; hand-added per the repo convention.
+ALTER TABLE "league_role_audit_log" FORCE ROW LEVEL SECURITY;
@@ -0,0 +1,29 @@
+-- Survivor missed weeks.
+--
+-- A survivor entry that lets a closed week pass without a pick is out that
+-- week. Scoring derives the elimination from the pick weeks; this table only
+-- records that it was announced, one row per entry, so the elimination push
+-- and the `pool.eliminated` content trigger fire once.
+
+CREATE TABLE "survivor_missed_weeks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"pool_id" uuid NOT NULL,
+	"pick_week_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+ALTER TABLE "survivor_missed_weeks" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+
+ALTER TABLE "survivor_missed_weeks" ADD CONSTRAINT "survivor_missed_weeks_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "survivor_missed_weeks" ADD CONSTRAINT "survivor_missed_weeks_pool_id_side_pools_id_fk" FOREIGN KEY ("pool_id") REFERENCES "public"."side_pools"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "survivor_missed_weeks" ADD CONSTRAINT "survivor_missed_weeks_pick_week_id_pick_weeks_id_fk" FOREIGN KEY ("pick_week_id") REFERENCES "public"."pick_weeks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "survivor_missed_weeks" ADD CONSTRAINT "survivor_missed_weeks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+
+CREATE UNIQUE INDEX "survivor_missed_weeks_entry_unique" ON "survivor_missed_weeks" USING btree ("pool_id","user_id");--> statement-breakpoint
+
+CREATE POLICY "survivor_missed_weeks_isolation" ON "survivor_missed_weeks" AS PERMISSIVE FOR ALL TO public USING ("survivor_missed_weeks"."league_id" = current_league_id()) WITH CHECK ("survivor_missed_weeks"."league_id" = current_league_id());--> statement-breakpoint
+
+-- drizzle-kit does not emit FORCE; hand-added per the repo convention.
+ALTER TABLE "survivor_missed_weeks" FORCE ROW LEVEL SECURITY;
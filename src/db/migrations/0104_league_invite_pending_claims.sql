@@ -0,0 +1,30 @@
+-- League invite pending claims.
+--
+-- A signed-out invitee who claims a targeted invite by email no longer gets an
+-- account on the spot. The claim waits here until they open the magic link
+-- sent to that address; Better Auth creates the verified user and the claim is
+-- completed for that session.
+
+CREATE TABLE "league_invite_pending_claims" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"invite_id" uuid NOT NULL,
+	"provider_member_id" text NOT NULL,
+	"email" text NOT NULL,
+	"display_name" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+
+ALTER TABLE "league_invite_pending_claims" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+
+ALTER TABLE "league_invite_pending_claims" ADD CONSTRAINT "league_invite_pending_claims_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_invite_pending_claims" ADD CONSTRAINT "league_invite_pending_claims_invite_id_league_invites_id_fk" FOREIGN KEY ("invite_id") REFERENCES "public"."league_invites"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+
+CREATE INDEX "league_invite_pending_claims_invite_idx" ON "league_invite_pending_claims" USING btree ("invite_id");--> statement-breakpoint
+
+CREATE POLICY "league_invite_pending_claims_isolation" ON "league_invite_pending_claims" AS PERMISSIVE FOR ALL TO public USING ("league_invite_pending_claims"."league_id" = current_league_id()) WITH CHECK ("league_invite_pending_claims"."league_id" = current_league_id());--> statement-breakpoint
+
+-- drizzle-kit does not emit FORCE; hand-added per the repo convention.
+ALTER TABLE "league_invite_pending_claims" FORCE ROW LEVEL SECURITY;
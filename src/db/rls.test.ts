@@ -42,6 +42,9 @@ describe("RLS catalog state (migration 0002)", () => {
     "ai_persona_tone_history",
     "ai_usage_event",
     "all_time_record",
+    "bankroll_slip_legs",
+    "bankroll_slips",
+    "bracket_challenge_picks",
     "championship_record",
     "content_reactions",
     "data_correction_audit_log",
@@ -58,20 +61,32 @@ describe("RLS catalog state (migration 0002)", () => {
     "historical_import_checkpoints",
     "identity_audit_log",
     "identity_mapping",
+    "keeper_boards",
+    "keeper_declarations",
+    "league_archives",
     "league_data_edits",
     "league_grouping_seasons",
+    "league_bankroll_settings",
     "league_invites",
+    "league_invite_pending_claims",
     "league_member_identity_claims",
+    "league_record_definition",
+    "league_role_audit_log",
     "league_season_groupings",
     "league_season_settings",
     "pick_weeks",
     "picks",
     "person",
+    "playoff_odds_snapshot",
     "provider_final_standings",
     "push_subscription",
     "season_statistics",
+    "side_pool_picks",
+    "side_pools",
     "stats_calculation",
+    "survivor_missed_weeks",
     "team_season",
+    "trade_analysis",
     "weekly_statistics",
   ] as const;
   const mixedScopeTables = ["ai_memory", "content_item"] as const;
@@ -197,6 +212,18 @@ describe("RLS completeness (schema-driven — every league_id table is isolated)
       "arena_standing",
       "central cross-league leaderboard derived from league ledgers (spec 15)",
     ],
+    [
+      "arena_bankroll_standing",
+      "central cross-league ROI track, derived like arena_standing",
+    ],
+    [
+      "arena_division_placement",
+      "central arena division tiers, derived from arena_standing at rollover",
+    ],
+    [
+      "league_history_sources",
+      "central provider-league routing; imports resolve the canonical league before any league context exists",
+    ],
     [
       "league_entitlements",
       "auth-plane-central; entitlements must be readable before a league context exists",
@@ -154,6 +154,7 @@ export const leagueDataEditTargetKind = pgEnum("league_data_edit_target_kind", [
   "member",
   "curation_checkpoint",
   "curation_push",
+  "record_definition",
 ]);
 
 export const leagueDataEditClass = pgEnum("league_data_edit_class", [
@@ -177,6 +178,7 @@ export const onboardingConnectionFlow = pgEnum("onboarding_connection_flow", [
   "extension",
   "public",
   "oauth",
+  "upload",
 ]);
 
 export const onboardingBrowserSessionStatus = pgEnum(
@@ -229,6 +231,7 @@ export const statsCalculationType = pgEnum("stats_calculation_type", [
   "head_to_head",
   "records",
   "championships",
+  "playoff_odds",
   "all",
 ]);
 
@@ -432,6 +435,13 @@ export const arenaStandingKind = pgEnum("arena_standing_kind", [
   "individual",
 ]);
 
+export const arenaDivisionMovement = pgEnum("arena_division_movement", [
+  "new",
+  "held",
+  "promoted",
+  "relegated",
+]);
+
 export const pushSubscriptionStatus = pgEnum("push_subscription_status", [
   "active",
   "disabled",
@@ -442,9 +452,12 @@ export const pushNotificationType = pgEnum("push_notification_type", [
   "league.blog.published",
   "league.lore.vote.opened",
   "league.lore.canonized",
+  "league.lore.disputed",
   "arena.rival.passed",
   "content.retracted",
   "content.superseded",
+  "league.pool.eliminated",
+  "league.pool.scored",
 ]);
 
 export const notificationEventFamily = pgEnum("notification_event_family", [
@@ -463,6 +476,9 @@ export const notificationChannel = pgEnum("notification_channel", [
 export const leagueWebhookTargetKind = pgEnum("league_webhook_target_kind", [
   "discord",
   "generic",
+  "slack",
+  "groupme",
+  "telegram",
 ]);
 
 export const leagueWebhookStatus = pgEnum("league_webhook_status", [
@@ -503,13 +519,18 @@ export interface LeagueWebhookEventSelection {
 // `league_admin` was collapsed into `commissioner` by migration 0082: the two
 // named the same authority level (PROJECT_CONTEXT.md Q16/§7.1, DD-5), so any
 // future edit to one and not the other would have silently reintroduced the
-// disagreement T-008 had just removed. Keep this list identical to the keys of
-// `roles` in `src/auth/permissions.ts` and to `ROLE_RANK` in
-// `src/auth/guards.ts`; `src/auth/permissions.test.ts` asserts that.
+// disagreement T-008 had just removed. Migration 0102 added the granular
+// roles; what each one may do lives in `roles` in `src/auth/permissions.ts`.
+// Keep this list identical to the keys of that map;
+// `src/auth/permissions.test.ts` asserts that.
 export const leagueRole = pgEnum("league_role", [
   "commissioner",
+  "co_commissioner",
   "data_steward",
+  "editor",
+  "lore_keeper",
   "member",
+  "spectator",
 ]);
 
 export const leagueEntitlementTier = pgEnum("league_entitlement_tier", [
@@ -1241,6 +1262,39 @@ export const historicalImportCheckpoints = pgTable(
   ],
 );
 
+// Central routing for leagues whose history spans more than one provider (for
+// example Yahoo, then ESPN, then Sleeper). Each row sends one provider league,
+// and only the seasons in its range, into a canonical league. No RLS: imports
+// look a provider league up here before any league context exists.
+export const leagueHistorySources = pgTable(
+  "league_history_sources",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    provider: fantasyProvider("provider").notNull(),
+    providerLeagueId: text("provider_league_id").notNull(),
+    firstSeason: integer("first_season").notNull(),
+    lastSeason: integer("last_season").notNull(),
+    linkedByUserId: uuid("linked_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("league_history_sources_provider_league_unique").on(
+      table.provider,
+      table.providerLeagueId,
+    ),
+    index("league_history_sources_league_idx").on(table.leagueId),
+    check(
+      "league_history_sources_season_range",
+      sql`${table.firstSeason} <= ${table.lastSeason}`,
+    ),
+  ],
+);
+
 export const dataCapabilityObservations = pgTable(
   "data_capability_observation",
   {
@@ -2374,6 +2428,126 @@ export const recordBookAllTimeStandings = pgTable(
   ],
 );
 
+// League-defined ("house") records. A definition is declarative: the stats
+// engine evaluates it over `weekly_statistics` facts on every recompute and
+// writes the result into `all_time_record` under `custom:<record_key>`, so a
+// house record gets the same progression chain and record-broken hooks as a
+// built-in one. Keep these value lists identical to the constants in
+// `src/stats/custom-records.ts`.
+export const leagueRecordScope = pgEnum("league_record_scope", [
+  "week",
+  "season",
+  "career",
+  "h2h",
+]);
+
+export const leagueRecordMetric = pgEnum("league_record_metric", [
+  "points_for",
+  "points_against",
+  "margin",
+  "combined_points",
+]);
+
+export const leagueRecordAggregation = pgEnum("league_record_aggregation", [
+  "count",
+  "sum",
+  "average",
+  "max",
+  "min",
+]);
+
+export const leagueRecordDirection = pgEnum("league_record_direction", [
+  "max",
+  "min",
+]);
+
+export const leagueRecordSegment = pgEnum("league_record_segment", [
+  "both",
+  "regular",
+  "playoff",
+]);
+
+export const leagueRecordDefinitionStatus = pgEnum(
+  "league_record_definition_status",
+  ["active", "archived"],
+);
+
+/** Inclusive/exclusive numeric bounds; every present bound must hold. */
+export interface LeagueRecordNumericBounds {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export interface LeagueRecordDefinitionFilters {
+  margin?: LeagueRecordNumericBounds;
+  /** Only matchups of these kinds; defaults to `head_to_head`. */
+  matchupKinds?: string[];
+  /** Minimum matching games before an aggregate scope produces a candidate. */
+  minGames?: number;
+  /** The opponent's final placement in that season. */
+  opponentFinish?: "champion" | "last_place" | "runner_up";
+  pointsAgainst?: LeagueRecordNumericBounds;
+  pointsFor?: LeagueRecordNumericBounds;
+  results?: ("loss" | "tie" | "win")[];
+  /** Started-lineup points at one position for that team and week. */
+  starterPositionPoints?: {
+    bounds: LeagueRecordNumericBounds;
+    position: string;
+  }[];
+}
+
+export const leagueRecordDefinitions = pgTable(
+  "league_record_definition",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    recordKey: text("record_key").notNull(),
+    label: text("label").notNull(),
+    description: text("description"),
+    metric: leagueRecordMetric("metric").notNull(),
+    scope: leagueRecordScope("scope").notNull(),
+    // NULL for `week` scope: a single matchup has nothing to aggregate.
+    aggregation: leagueRecordAggregation("aggregation"),
+    direction: leagueRecordDirection("direction").notNull(),
+    segment: leagueRecordSegment("segment").notNull().default("both"),
+    filters: jsonb("filters")
+      .$type<LeagueRecordDefinitionFilters>()
+      .notNull()
+      .default(sql`'{}'::jsonb`),
+    status: leagueRecordDefinitionStatus("status").notNull().default("active"),
+    createdByUserId: uuid("created_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    updatedByUserId: uuid("updated_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("league_record_definition_key_unique").on(
+      table.leagueId,
+      table.recordKey,
+    ),
+    index("league_record_definition_status_idx").on(
+      table.leagueId,
+      table.status,
+    ),
+    check(
+      "league_record_definition_aggregation_scope",
+      sql`(${table.scope} = 'week') = (${table.aggregation} IS NULL)`,
+    ),
+    pgPolicy("league_record_definition_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
 export const recordBookMilestones = pgTable(
   "record_book_milestone",
   {
@@ -2420,6 +2594,221 @@ export const recordBookMilestones = pgTable(
   ],
 );
 
+// Monte Carlo playoff odds, one row per team per "as of" scoring period: the
+// last regular-season or playoff period whose games were final when the
+// simulation ran. Re-running within a period overwrites that period's row, so
+// the previous period's row is always the week-over-week baseline.
+export const playoffOddsSnapshots = pgTable(
+  "playoff_odds_snapshot",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    season: integer("season").notNull(),
+    asOfScoringPeriod: integer("as_of_scoring_period").notNull(),
+    providerTeamId: text("provider_team_id").notNull(),
+    personId: uuid("person_id").references(() => persons.id, {
+      onDelete: "set null",
+    }),
+    playoffOdds: doublePrecision("playoff_odds").notNull(),
+    byeOdds: doublePrecision("bye_odds").notNull(),
+    titleOdds: doublePrecision("title_odds").notNull(),
+    lastPlaceOdds: doublePrecision("last_place_odds").notNull(),
+    projectedWins: doublePrecision("projected_wins").notNull(),
+    projectedSeed: doublePrecision("projected_seed").notNull(),
+    clinchedPlayoff: boolean("clinched_playoff").notNull().default(false),
+    clinchedBye: boolean("clinched_bye").notNull().default(false),
+    clinchedDivision: boolean("clinched_division").notNull().default(false),
+    eliminated: boolean("eliminated").notNull().default(false),
+    simulations: integer("simulations").notNull(),
+    metadata: jsonb("metadata")
+      .$type<Record<string, unknown>>()
+      .notNull()
+      .default(sql`'{}'::jsonb`),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("playoff_odds_snapshot_team_period_unique").on(
+      table.leagueId,
+      table.season,
+      table.asOfScoringPeriod,
+      table.providerTeamId,
+    ),
+    index("playoff_odds_snapshot_league_season_idx").on(
+      table.leagueId,
+      table.season,
+      table.asOfScoringPeriod,
+    ),
+    pgPolicy("playoff_odds_snapshot_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+    check(
+      "playoff_odds_snapshot_simulations_positive",
+      sql`${table.simulations} >= 1`,
+    ),
+  ],
+);
+
+export const TRADE_ANALYSIS_STATUSES = [
+  "pending",
+  "in_progress",
+  "final",
+] as const;
+
+export type TradeAnalysisStatus = (typeof TRADE_ANALYSIS_STATUSES)[number];
+
+export interface TradeAnalysisSide {
+  acquiredPlayerProviderIds: string[];
+  points: number;
+  providerTeamId: string;
+  /** Points per scoring period since the trade, zero-filled. */
+  weeklyPoints: { points: number; scoringPeriod: number }[];
+}
+
+// Rest-of-season scoring for every trade, one row per fantasy transaction.
+// Re-derived from `fantasy_player_week_stat_breakdowns` whenever player stats
+// or trades change, so `winner_provider_team_id` moves as weeks play out and
+// settles once the season is complete.
+export const tradeAnalyses = pgTable(
+  "trade_analysis",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    fantasyTransactionId: uuid("fantasy_transaction_id")
+      .notNull()
+      .references(() => fantasyTransactions.id, { onDelete: "cascade" }),
+    provider: fantasyProvider("provider").notNull(),
+    leagueProviderId: text("league_provider_id").notNull(),
+    season: integer("season").notNull(),
+    scoringPeriod: integer("scoring_period"),
+    throughScoringPeriod: integer("through_scoring_period"),
+    status: text("status")
+      .$type<TradeAnalysisStatus>()
+      .notNull()
+      .default("pending"),
+    sides: jsonb("sides")
+      .$type<TradeAnalysisSide[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    untrackedPlayerProviderIds: jsonb("untracked_player_provider_ids")
+      .$type<string[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    winnerProviderTeamId: text("winner_provider_team_id"),
+    margin: doublePrecision("margin").notNull().default(0),
+    occurredAt: timestamp("occurred_at", { withTimezone: true }).notNull(),
+    contentHash: text("content_hash").notNull(),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("trade_analysis_transaction_unique").on(
+      table.leagueId,
+      table.fantasyTransactionId,
+    ),
+    index("trade_analysis_league_season_idx").on(
+      table.leagueId,
+      table.season,
+      table.occurredAt,
+    ),
+    pgPolicy("trade_analysis_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+    check(
+      "trade_analysis_status_valid",
+      sql`${table.status} IN ('pending', 'in_progress', 'final')`,
+    ),
+  ],
+);
+
+/**
+ * Commissioner-set keeper rules. Null fields fall back to the provider's
+ * keeper settings (`keeperCount`) or the engine defaults.
+ */
+export interface KeeperRulesOverride {
+  maxKeepers?: number | null;
+  maxYearsKept?: number | null;
+  roundPenalty?: number | null;
+  undraftedRound?: number | null;
+}
+
+// One keeper board per league season. Declarations close at `deadline_at` or
+// when a commissioner sets `locked_at`, whichever comes first.
+export const keeperBoards = pgTable(
+  "keeper_boards",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    season: integer("season").notNull(),
+    rules: jsonb("rules")
+      .$type<KeeperRulesOverride>()
+      .notNull()
+      .default(sql`'{}'::jsonb`),
+    deadlineAt: timestamp("deadline_at", { withTimezone: true }),
+    lockedAt: timestamp("locked_at", { withTimezone: true }),
+    lockedByUserId: uuid("locked_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("keeper_boards_league_season_unique").on(
+      table.leagueId,
+      table.season,
+    ),
+    pgPolicy("keeper_boards_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
+// A manager's declared keeper. `cost_round` is the projection at the time of
+// declaring, so a later rule change cannot silently reprice a declared keeper.
+export const keeperDeclarations = pgTable(
+  "keeper_declarations",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    keeperBoardId: uuid("keeper_board_id")
+      .notNull()
+      .references(() => keeperBoards.id, { onDelete: "cascade" }),
+    providerTeamId: text("provider_team_id").notNull(),
+    providerPlayerId: text("provider_player_id").notNull(),
+    costRound: integer("cost_round"),
+    declaredByUserId: uuid("declared_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("keeper_declarations_board_player_unique").on(
+      table.keeperBoardId,
+      table.providerPlayerId,
+    ),
+    index("keeper_declarations_board_team_idx").on(
+      table.keeperBoardId,
+      table.providerTeamId,
+    ),
+    pgPolicy("keeper_declarations_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
 export const statsCalculations = pgTable(
   "stats_calculation",
   {
@@ -2749,6 +3138,11 @@ export const bettingMarkets = pgTable(
     type: bettingMarketType("type").notNull(),
     subject: text("subject").notNull().default("game"),
     propType: text("prop_type"),
+    // The warehouse player a prop market is about; null for game markets and
+    // for props whose player could not be matched unambiguously.
+    nflPlayerId: uuid("nfl_player_id").references(() => nflPlayers.id, {
+      onDelete: "set null",
+    }),
     period: bettingMarketPeriod("period").notNull().default("full_game"),
     status: bettingMarketStatus("status").notNull().default("open"),
     lastUpdated: timestamp("last_updated", { withTimezone: true })
@@ -2768,6 +3162,7 @@ export const bettingMarkets = pgTable(
     ),
     index("betting_market_event_status_idx").on(table.eventId, table.status),
     index("betting_market_type_status_idx").on(table.type, table.status),
+    index("betting_market_nfl_player_idx").on(table.nflPlayerId),
   ],
 );
 
@@ -2804,6 +3199,52 @@ export const oddsSnapshots = pgTable(
   ],
 );
 
+// Line movement compressed from `odds_snapshot`: one open/high/low/close
+// candle per market per bucket. `odds_snapshot` keeps every quote; this is the
+// shape the market card charts, so a busy market does not ship hundreds of
+// raw rows to the slate. `line` tracks the point spread or total; `price`
+// tracks the home/over/outcome side price, which is all a moneyline moves.
+export const oddsLineMovement = pgTable(
+  "odds_line_movement",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    marketId: uuid("market_id")
+      .notNull()
+      .references(() => bettingMarkets.id, { onDelete: "cascade" }),
+    bucketStart: timestamp("bucket_start", { withTimezone: true }).notNull(),
+    openLine: numeric("open_line", { mode: "number", precision: 10, scale: 2 }),
+    highLine: numeric("high_line", { mode: "number", precision: 10, scale: 2 }),
+    lowLine: numeric("low_line", { mode: "number", precision: 10, scale: 2 }),
+    closeLine: numeric("close_line", {
+      mode: "number",
+      precision: 10,
+      scale: 2,
+    }),
+    openPrice: integer("open_price"),
+    highPrice: integer("high_price"),
+    lowPrice: integer("low_price"),
+    closePrice: integer("close_price"),
+    snapshotCount: integer("snapshot_count").notNull(),
+    firstCapturedAt: timestamp("first_captured_at", {
+      withTimezone: true,
+    }).notNull(),
+    lastCapturedAt: timestamp("last_captured_at", {
+      withTimezone: true,
+    }).notNull(),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("odds_line_movement_market_bucket_unique").on(
+      table.marketId,
+      table.bucketStart,
+    ),
+    check(
+      "odds_line_movement_snapshot_count_positive",
+      sql`${table.snapshotCount} > 0`,
+    ),
+  ],
+);
+
 // ── Central arena standings (cross-league; derived from ledgers) ──────────
 
 export const arenaSeasons = pgTable(
@@ -2853,6 +3294,11 @@ export const arenaStandings = pgTable(
     // Weeks that cleared the 90% participation floor. Reported only -- it
     // gates weekly prizes and never adjusts accuracy.
     eligibleWeeks: integer("eligible_weeks").notNull().default(0),
+    // Closing-line value, a secondary metric: how often submitted picks beat
+    // the closing line. Reported beside accuracy and never used to rank.
+    clvPicks: integer("clv_picks").notNull().default(0),
+    beatClosePicks: integer("beat_close_picks").notNull().default(0),
+    beatCloseBps: integer("beat_close_bps").notNull().default(0),
     computedAt: timestamp("computed_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -2874,41 +3320,130 @@ export const arenaStandings = pgTable(
   ],
 );
 
-// ── Paper betting bankroll state (league-scoped; RLS enforced) ────────────
-
-// ── Inter-league Pick 'em (replaces the bankroll model; specs 08/15 rewrite) ──
-//
-// A weekly entry with a SNAPSHOTTED roster size, plus one row per pick. Scoring
-// is "absolute denominator": accuracy is graded against the entry's maximum
-// POSSIBLE picks, so an unsubmitted pick is mathematically identical to a wrong
-// one and league size normalises away (a 10-person and a 12-person league
-// compete on the same percentage). See PROJECT_CONTEXT.md §3.3.
-//
-// The competitor is modelled as an ENTRY carrying its own roster size rather
-// than as "a paid league", so a future free/AMOE entrant needs no schema change
-// (PROJECT_CONTEXT.md §9 P1).
-
-export const pickStatus = pgEnum("pick_status", [
-  "pending",
-  "correct",
-  "incorrect",
-  // A push (result lands exactly on the line) is VOID: it counts toward neither
-  // the numerator nor that user's denominator. Grading it incorrect would
-  // punish an undecidable outcome and push users off whole-number lines,
-  // narrowing the pick pool through the back door (IMPLEMENTATION_PLAN.md DD-2).
-  "void",
-]);
-
-export const pickWeeks = pgTable(
-  "pick_weeks",
+// The bankroll track: the same seasons and subjects as `arena_standing`,
+// ranked on paper ROI instead of accuracy. A separate table rather than a
+// discriminator column because the two tracks share no metric columns, and a
+// league that never enabled bankroll mode must not appear here with a 0% ROI
+// it never had the chance to earn.
+export const arenaBankrollStandings = pgTable(
+  "arena_bankroll_standing",
   {
     id: uuid("id").primaryKey().defaultRandom(),
-    leagueId: uuid("league_id")
+    seasonId: uuid("season_id")
       .notNull()
-      .references(() => leagues.id, { onDelete: "cascade" }),
-    season: integer("season").notNull(),
-    week: integer("week").notNull(),
-    // Snapshotted when the week opens so a league cannot shrink its denominator
+      .references(() => arenaSeasons.id, { onDelete: "cascade" }),
+    kind: arenaStandingKind("kind").notNull(),
+    subjectId: uuid("subject_id").notNull(),
+    leagueId: uuid("league_id").references(() => leagues.id, {
+      onDelete: "cascade",
+    }),
+    userId: uuid("user_id").references(() => users.id, {
+      onDelete: "cascade",
+    }),
+    rank: integer("rank").notNull(),
+    previousRank: integer("previous_rank"),
+    rankDelta: integer("rank_delta").notNull().default(0),
+    // Settled slips only. A pending slip has no return yet, so counting its
+    // stake would drag ROI down for every open parlay.
+    stakedUnits: numeric("staked_units", {
+      mode: "number",
+      precision: 14,
+      scale: 2,
+    })
+      .notNull()
+      .default(0),
+    netUnits: numeric("net_units", { mode: "number", precision: 14, scale: 2 })
+      .notNull()
+      .default(0),
+    // ROI in basis points, integer for the same exact-tie reason as accuracy.
+    roiBps: integer("roi_bps").notNull().default(0),
+    settledSlips: integer("settled_slips").notNull().default(0),
+    wonSlips: integer("won_slips").notNull().default(0),
+    weeksPlayed: integer("weeks_played").notNull(),
+    computedAt: timestamp("computed_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("arena_bankroll_standing_subject_unique").on(
+      table.seasonId,
+      table.kind,
+      table.subjectId,
+    ),
+    index("arena_bankroll_standing_leaderboard_idx").on(
+      table.seasonId,
+      table.kind,
+      table.rank,
+    ),
+    index("arena_bankroll_standing_league_idx").on(table.leagueId),
+    index("arena_bankroll_standing_user_idx").on(table.userId),
+  ],
+);
+
+// A league's division for one arena season. Placed once, at the season's
+// start, from the prior season's finish; `previousTier` is null for a league
+// that had no division last season. Leagues first seen mid-season join the
+// bottom division as `new` and keep that placement until the next rollover.
+export const arenaDivisionPlacements = pgTable(
+  "arena_division_placement",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    seasonId: uuid("season_id")
+      .notNull()
+      .references(() => arenaSeasons.id, { onDelete: "cascade" }),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    // 1 is the top division.
+    tier: integer("tier").notNull(),
+    previousTier: integer("previous_tier"),
+    movement: arenaDivisionMovement("movement").notNull(),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("arena_division_placement_league_unique").on(
+      table.seasonId,
+      table.leagueId,
+    ),
+    index("arena_division_placement_tier_idx").on(table.seasonId, table.tier),
+    check("arena_division_placement_tier_positive", sql`${table.tier} >= 1`),
+  ],
+);
+
+// ── Inter-league Pick 'em (replaces the bankroll model; specs 08/15 rewrite) ──
+//
+// A weekly entry with a SNAPSHOTTED roster size, plus one row per pick. Scoring
+// is "absolute denominator": accuracy is graded against the entry's maximum
+// POSSIBLE picks, so an unsubmitted pick is mathematically identical to a wrong
+// one and league size normalises away (a 10-person and a 12-person league
+// compete on the same percentage). See PROJECT_CONTEXT.md §3.3.
+//
+// The competitor is modelled as an ENTRY carrying its own roster size rather
+// than as "a paid league", so a future free/AMOE entrant needs no schema change
+// (PROJECT_CONTEXT.md §9 P1).
+
+export const pickStatus = pgEnum("pick_status", [
+  "pending",
+  "correct",
+  "incorrect",
+  // A push (result lands exactly on the line) is VOID: it counts toward neither
+  // the numerator nor that user's denominator. Grading it incorrect would
+  // punish an undecidable outcome and push users off whole-number lines,
+  // narrowing the pick pool through the back door (IMPLEMENTATION_PLAN.md DD-2).
+  "void",
+]);
+
+export const pickWeeks = pgTable(
+  "pick_weeks",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    season: integer("season").notNull(),
+    week: integer("week").notNull(),
+    // Snapshotted when the week opens so a league cannot shrink its denominator
     // by cutting inactive members mid-week.
     rosterSize: integer("roster_size").notNull(),
     maxPicksPerUser: integer("max_picks_per_user").notNull().default(10),
@@ -2959,6 +3494,24 @@ export const picks = pgTable(
       precision: 10,
       scale: 2,
     }),
+    // The last quote before kickoff, recorded once the event starts. CLV is
+    // signed from the picker's side: positive means the market moved toward
+    // them after they locked. Points of line for spreads and totals, points of
+    // implied probability for price-only markets.
+    closingOddsSnapshotId: uuid("closing_odds_snapshot_id").references(
+      () => oddsSnapshots.id,
+      { onDelete: "set null" },
+    ),
+    closingLine: numeric("closing_line", {
+      mode: "number",
+      precision: 10,
+      scale: 2,
+    }),
+    closingLineValue: numeric("closing_line_value", {
+      mode: "number",
+      precision: 10,
+      scale: 2,
+    }),
     status: pickStatus("status").notNull().default("pending"),
     submittedAt: timestamp("submitted_at", { withTimezone: true })
       .notNull()
@@ -2995,6 +3548,385 @@ export const picks = pgTable(
   ],
 );
 
+// ── Paper bankroll mode (optional per league; RLS enforced) ────────────────
+//
+// Runs alongside Pick 'em, never instead of it: accuracy stays the arena's
+// primary ladder, and bankroll mode adds a second, ROI-ranked track for the
+// leagues that switch it on. Stakes are paper units from a weekly allowance
+// tied to the same `pick_weeks` window, priced from the `odds_snapshot` the
+// member staked against, and graded through the shared `gradeSelection`.
+
+export const bankrollOutcome = pgEnum("bankroll_outcome", [
+  "pending",
+  "won",
+  "lost",
+  "push",
+  "void",
+]);
+
+export const leagueBankrollSettings = pgTable(
+  "league_bankroll_settings",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    enabled: boolean("enabled").notNull().default(false),
+    // Paper units granted per pick week. Winnings are tracked as season net,
+    // not added back to the allowance, so every week starts level.
+    weeklyAllowance: integer("weekly_allowance").notNull().default(1000),
+    maxParlayLegs: integer("max_parlay_legs").notNull().default(6),
+    updatedByUserId: uuid("updated_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("league_bankroll_settings_league_unique").on(table.leagueId),
+    check(
+      "league_bankroll_settings_allowance_positive",
+      sql`${table.weeklyAllowance} > 0`,
+    ),
+    check(
+      "league_bankroll_settings_parlay_legs_range",
+      sql`${table.maxParlayLegs} between 1 and 12`,
+    ),
+    pgPolicy("league_bankroll_settings_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
+export const bankrollSlips = pgTable(
+  "bankroll_slips",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    pickWeekId: uuid("pick_week_id")
+      .notNull()
+      .references(() => pickWeeks.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    stake: numeric("stake", {
+      mode: "number",
+      precision: 12,
+      scale: 2,
+    }).notNull(),
+    // American price of the whole slip at placement: the leg price for a
+    // single, the compounded price for a parlay.
+    lockedPrice: integer("locked_price").notNull(),
+    status: bankrollOutcome("status").notNull().default("pending"),
+    // Total returned, stake included. Null until the slip settles.
+    payout: numeric("payout", { mode: "number", precision: 12, scale: 2 }),
+    placedAt: timestamp("placed_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    settledAt: timestamp("settled_at", { withTimezone: true }),
+    idempotencyKey: text("idempotency_key").notNull(),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("bankroll_slips_idempotency_unique").on(
+      table.leagueId,
+      table.userId,
+      table.idempotencyKey,
+    ),
+    index("bankroll_slips_week_user_idx").on(table.pickWeekId, table.userId),
+    index("bankroll_slips_league_status_idx").on(table.leagueId, table.status),
+    check("bankroll_slips_stake_positive", sql`${table.stake} > 0`),
+    pgPolicy("bankroll_slips_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
+export const bankrollSlipLegs = pgTable(
+  "bankroll_slip_legs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    slipId: uuid("slip_id")
+      .notNull()
+      .references(() => bankrollSlips.id, { onDelete: "cascade" }),
+    marketId: uuid("market_id")
+      .notNull()
+      .references(() => bettingMarkets.id, { onDelete: "cascade" }),
+    oddsSnapshotId: uuid("odds_snapshot_id")
+      .notNull()
+      .references(() => oddsSnapshots.id, { onDelete: "cascade" }),
+    selection: betLegSelection("selection").notNull(),
+    lockedLine: numeric("locked_line", {
+      mode: "number",
+      precision: 10,
+      scale: 2,
+    }),
+    lockedPrice: integer("locked_price").notNull(),
+    status: bankrollOutcome("status").notNull().default("pending"),
+    gradedAt: timestamp("graded_at", { withTimezone: true }),
+    resultDetail: jsonb("result_detail")
+      .$type<Record<string, unknown>>()
+      .notNull()
+      .default(sql`'{}'::jsonb`),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("bankroll_slip_legs_slip_market_unique").on(
+      table.slipId,
+      table.marketId,
+    ),
+    index("bankroll_slip_legs_market_status_idx").on(
+      table.marketId,
+      table.status,
+    ),
+    index("bankroll_slip_legs_league_idx").on(table.leagueId),
+    pgPolicy("bankroll_slip_legs_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
+// ── Side-game pools: survivor and confidence (league-scoped; RLS enforced) ─
+//
+// League game modes that ride on the same `pick_weeks` windows and central
+// `betting_event` rows as Pick 'em, and grade through the same event
+// resolution. A pool picks winners straight up, so there is no market or
+// snapshot to lock: the pick names the event and the side.
+
+export const sidePoolMode = pgEnum("side_pool_mode", [
+  "survivor",
+  "confidence",
+]);
+
+export const sidePools = pgTable(
+  "side_pools",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    season: integer("season").notNull(),
+    mode: sidePoolMode("mode").notNull(),
+    name: text("name").notNull(),
+    createdByUserId: uuid("created_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("side_pools_league_season_mode_unique").on(
+      table.leagueId,
+      table.season,
+      table.mode,
+    ),
+    check("side_pools_name_nonempty", sql`length(${table.name}) > 0`),
+    pgPolicy("side_pools_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
+export const sidePoolPicks = pgTable(
+  "side_pool_picks",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    poolId: uuid("pool_id")
+      .notNull()
+      .references(() => sidePools.id, { onDelete: "cascade" }),
+    pickWeekId: uuid("pick_week_id")
+      .notNull()
+      .references(() => pickWeeks.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    bettingEventId: uuid("betting_event_id")
+      .notNull()
+      .references(() => bettingEvents.id, { onDelete: "cascade" }),
+    selection: betLegSelection("selection").notNull(),
+    // The picked team's name, copied so "no repeats" is one unique index
+    // rather than a join through every past event.
+    team: text("team").notNull(),
+    // Confidence pools only: this game's rank in the week, 1..N. Null marks a
+    // survivor pick, which is what the partial indexes below key on.
+    confidence: integer("confidence"),
+    status: pickStatus("status").notNull().default("pending"),
+    gradedAt: timestamp("graded_at", { withTimezone: true }),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("side_pool_picks_user_event_unique").on(
+      table.poolId,
+      table.pickWeekId,
+      table.userId,
+      table.bettingEventId,
+    ),
+    // Survivor: one team a week, and never the same team twice.
+    uniqueIndex("side_pool_picks_survivor_week_unique")
+      .on(table.poolId, table.userId, table.pickWeekId)
+      .where(sql`${table.confidence} is null`),
+    uniqueIndex("side_pool_picks_survivor_team_unique")
+      .on(table.poolId, table.userId, table.team)
+      .where(sql`${table.confidence} is null`),
+    // Confidence: every rank used at most once per week.
+    uniqueIndex("side_pool_picks_confidence_rank_unique")
+      .on(table.poolId, table.userId, table.pickWeekId, table.confidence)
+      .where(sql`${table.confidence} is not null`),
+    index("side_pool_picks_event_status_idx").on(
+      table.bettingEventId,
+      table.status,
+    ),
+    check(
+      "side_pool_picks_confidence_positive",
+      sql`${table.confidence} is null or ${table.confidence} > 0`,
+    ),
+    check(
+      "side_pool_picks_selection_side",
+      sql`${table.selection} in ('home', 'away')`,
+    ),
+    pgPolicy("side_pool_picks_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
+// A survivor entry that let a closed week pass without a pick. Scoring
+// already treats that week as the entry's elimination; this row records that
+// the elimination was announced, so the sweep that finds it tells the member
+// and the league once.
+export const survivorMissedWeeks = pgTable(
+  "survivor_missed_weeks",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    poolId: uuid("pool_id")
+      .notNull()
+      .references(() => sidePools.id, { onDelete: "cascade" }),
+    pickWeekId: uuid("pick_week_id")
+      .notNull()
+      .references(() => pickWeeks.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("survivor_missed_weeks_entry_unique").on(
+      table.poolId,
+      table.userId,
+    ),
+    pgPolicy("survivor_missed_weeks_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
+// ── Bracket challenge (league-scoped; RLS enforced) ──────────────────────
+//
+// Members pick every championship-bracket game before the playoffs start.
+// The bracket itself is derived on read from the league's matchups, so a
+// pick is only a position and a team; grading happens against the live
+// bracket rather than a stored status.
+
+export const bracketChallengePicks = pgTable(
+  "bracket_challenge_picks",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    season: integer("season").notNull(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    round: integer("round").notNull(),
+    slot: integer("slot").notNull(),
+    providerTeamId: text("provider_team_id").notNull(),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex("bracket_challenge_picks_game_unique").on(
+      table.leagueId,
+      table.season,
+      table.userId,
+      table.round,
+      table.slot,
+    ),
+    check("bracket_challenge_picks_round_positive", sql`${table.round} >= 1`),
+    check("bracket_challenge_picks_slot_nonnegative", sql`${table.slot} >= 0`),
+    pgPolicy("bracket_challenge_picks_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
+// ── League archives (league-scoped; RLS enforced) ─────────────────────────
+//
+// Commissioner-requested exports of a league's whole history in the portable
+// archive format (`src/archive/format.ts`). The document is built by a job and
+// kept on the row; downloads are served from here through signed links.
+
+export const leagueArchiveStatus = pgEnum("league_archive_status", [
+  "queued",
+  "ready",
+  "failed",
+]);
+
+export const leagueArchives = pgTable(
+  "league_archives",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    requestedByUserId: uuid("requested_by_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    status: leagueArchiveStatus("status").notNull().default("queued"),
+    formatVersion: integer("format_version").notNull(),
+    archive: jsonb("archive").$type<Record<string, unknown>>(),
+    byteSize: integer("byte_size"),
+    error: text("error"),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    ...timestamps,
+  },
+  (table) => [
+    index("league_archives_league_created_idx").on(
+      table.leagueId,
+      table.createdAt,
+    ),
+    pgPolicy("league_archives_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
 // ── Content and AI blogger state ──────────────────────────────────────────
 
 export const contentItems = pgTable(
@@ -3917,6 +4849,31 @@ export const verifications = pgTable(
   (table) => [index("verifications_identifier_idx").on(table.identifier)],
 );
 
+// Better Auth passkey plugin (WebAuthn). Field names follow the plugin's
+// model, hence `credentialID`.
+export const passkeys = pgTable(
+  "passkeys",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name"),
+    publicKey: text("public_key").notNull(),
+    credentialID: text("credential_id").notNull(),
+    counter: integer("counter").notNull(),
+    deviceType: text("device_type").notNull(),
+    backedUp: boolean("backed_up").notNull(),
+    transports: text("transports"),
+    aaguid: text("aaguid"),
+    ...timestamps,
+  },
+  (table) => [
+    index("passkeys_user_idx").on(table.userId),
+    uniqueIndex("passkeys_credential_id_unique").on(table.credentialID),
+  ],
+);
+
 export const members = pgTable(
   "members",
   {
@@ -3941,6 +4898,42 @@ export const members = pgTable(
   ],
 );
 
+// Who granted which league role to whom. `members.role` holds only the current
+// role, so this is the history: role grants, steward designations and
+// commissioner handoffs each write a row in the same transaction as the change.
+export const leagueRoleAuditLog = pgTable(
+  "league_role_audit_log",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    actorUserId: uuid("actor_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    targetUserId: uuid("target_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    previousRole: leagueRole("previous_role"),
+    role: leagueRole("role").notNull(),
+    reason: text("reason"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("league_role_audit_log_league_created_idx").on(
+      table.leagueId,
+      table.createdAt,
+    ),
+    pgPolicy("league_role_audit_log_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
 export const contentReactions = pgTable(
   "content_reactions",
   {
@@ -4382,6 +5375,13 @@ export const loreVerifications = pgTable(
       .$type<Record<string, unknown>[]>()
       .notNull()
       .default(sql`'[]'::jsonb`),
+    assertions: jsonb("assertions")
+      .$type<Record<string, unknown>[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    verifiedAt: timestamp("verified_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -4717,6 +5717,109 @@ export const leagueMemberIdentityClaims = pgTable(
   ],
 );
 
+// A signed-out invitee's claim waits here until they open the magic link sent
+// to `email`; only then does it become an identity claim and a membership.
+export const leagueInvitePendingClaims = pgTable(
+  "league_invite_pending_claims",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    leagueId: uuid("league_id")
+      .notNull()
+      .references(() => leagues.id, { onDelete: "cascade" }),
+    inviteId: uuid("invite_id")
+      .notNull()
+      .references(() => leagueInvites.id, { onDelete: "cascade" }),
+    providerMemberId: text("provider_member_id").notNull(),
+    email: text("email").notNull(),
+    displayName: text("display_name").notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("league_invite_pending_claims_invite_idx").on(table.inviteId),
+    pgPolicy("league_invite_pending_claims_isolation", {
+      for: "all",
+      using: sql`${table.leagueId} = current_league_id()`,
+      withCheck: sql`${table.leagueId} = current_league_id()`,
+    }),
+  ],
+);
+
+export interface PersonalAgentMessageCitation {
+  detail: string;
+  href?: string;
+  label: string;
+}
+
+export interface PersonalAgentMessageToolCall {
+  input: Record<string, unknown>;
+  name: string;
+  refs: string[];
+}
+
+// Personal agent threads belong to a user, not a league: a thread started on
+// the global surface can read every league the user belongs to, so these
+// tables carry no RLS policy and the service filters by `user_id`.
+export const personalAgentThreads = pgTable(
+  "personal_agent_threads",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    leagueId: uuid("league_id").references(() => leagues.id, {
+      onDelete: "cascade",
+    }),
+    title: text("title").notNull(),
+    lastMessageAt: timestamp("last_message_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    ...timestamps,
+  },
+  (table) => [
+    index("personal_agent_threads_user_last_message_idx").on(
+      table.userId,
+      table.lastMessageAt,
+    ),
+  ],
+);
+
+export const personalAgentMessages = pgTable(
+  "personal_agent_messages",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    threadId: uuid("thread_id")
+      .notNull()
+      .references(() => personalAgentThreads.id, { onDelete: "cascade" }),
+    role: text("role").$type<"assistant" | "user">().notNull(),
+    content: text("content").notNull(),
+    citations: jsonb("citations")
+      .$type<PersonalAgentMessageCitation[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    toolCalls: jsonb("tool_calls")
+      .$type<PersonalAgentMessageToolCall[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("personal_agent_messages_thread_created_idx").on(
+      table.threadId,
+      table.createdAt,
+    ),
+    check(
+      "personal_agent_messages_role_valid",
+      sql`${table.role} IN ('user', 'assistant')`,
+    ),
+  ],
+);
+
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type League = typeof leagues.$inferSelect;
@@ -4765,10 +5868,18 @@ export type BettingMarket = typeof bettingMarkets.$inferSelect;
 export type NewBettingMarket = typeof bettingMarkets.$inferInsert;
 export type OddsSnapshot = typeof oddsSnapshots.$inferSelect;
 export type NewOddsSnapshot = typeof oddsSnapshots.$inferInsert;
+export type OddsLineMovement = typeof oddsLineMovement.$inferSelect;
+export type NewOddsLineMovement = typeof oddsLineMovement.$inferInsert;
 export type ArenaSeason = typeof arenaSeasons.$inferSelect;
 export type NewArenaSeason = typeof arenaSeasons.$inferInsert;
 export type ArenaStanding = typeof arenaStandings.$inferSelect;
 export type NewArenaStanding = typeof arenaStandings.$inferInsert;
+export type ArenaBankrollStanding = typeof arenaBankrollStandings.$inferSelect;
+export type NewArenaBankrollStanding =
+  typeof arenaBankrollStandings.$inferInsert;
+export type LeagueBankrollSettings = typeof leagueBankrollSettings.$inferSelect;
+export type BankrollSlip = typeof bankrollSlips.$inferSelect;
+export type BankrollSlipLeg = typeof bankrollSlipLegs.$inferSelect;
 export type ContentItem = typeof contentItems.$inferSelect;
 export type NewContentItem = typeof contentItems.$inferInsert;
 export type ContentReaction = typeof contentReactions.$inferSelect;
@@ -4809,6 +5920,7 @@ export type NewPlatformAdmin = typeof platformAdmins.$inferInsert;
 export type Session = typeof sessions.$inferSelect;
 export type Account = typeof accounts.$inferSelect;
 export type Member = typeof members.$inferSelect;
+export type LeagueRoleAuditLog = typeof leagueRoleAuditLog.$inferSelect;
 export type Invitation = typeof invitations.$inferSelect;
 export type LeagueEntitlement = typeof leagueEntitlements.$inferSelect;
 export type NewLeagueEntitlement = typeof leagueEntitlements.$inferInsert;
@@ -4848,3 +5960,7 @@ export type LeagueMemberIdentityClaim =
   typeof leagueMemberIdentityClaims.$inferSelect;
 export type NewLeagueMemberIdentityClaim =
   typeof leagueMemberIdentityClaims.$inferInsert;
+export type PersonalAgentThread = typeof personalAgentThreads.$inferSelect;
+export type NewPersonalAgentThread = typeof personalAgentThreads.$inferInsert;
+export type PersonalAgentMessage = typeof personalAgentMessages.$inferSelect;
+export type NewPersonalAgentMessage = typeof personalAgentMessages.$inferInsert;
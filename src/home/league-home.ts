@@ -36,7 +36,14 @@ import {
   resolveLeaguePublicationSection,
 } from "@/news/sections";
 import type { FantasyProviderId } from "@/providers";
-import { RECORD_TYPE_LABELS, type RecordType } from "@/stats";
+import {
+  type AllTimeRecordType,
+  allTimeRecordLabel,
+  isCustomRecordType,
+  loadPlayoffOdds,
+  type PlayoffOddsStanding,
+  RECORD_TYPE_LABELS,
+} from "@/stats";
 
 export interface LeagueHomeTeam {
   id: string;
@@ -48,6 +55,19 @@ export interface LeagueHomeTeam {
   managerNames: string[];
 }
 
+export type LeagueHomeStandingOdds = Pick<
+  PlayoffOddsStanding,
+  | "byeOdds"
+  | "clinchedBye"
+  | "clinchedDivision"
+  | "clinchedPlayoff"
+  | "delta"
+  | "eliminated"
+  | "lastPlaceOdds"
+  | "playoffOdds"
+  | "titleOdds"
+>;
+
 export interface LeagueHomeStanding extends LeagueHomeTeam {
   rank: number;
   wins: number;
@@ -56,6 +76,8 @@ export interface LeagueHomeStanding extends LeagueHomeTeam {
   pointsFor: number;
   pointsAgainst: number;
   gamesBack: number;
+  /** Latest simulated odds; null until the season has been simulated. */
+  odds: LeagueHomeStandingOdds | null;
   playoffLineAfter: boolean;
 }
 
@@ -78,7 +100,7 @@ export interface LeagueHomeMatchup {
 export interface LeagueHomeRecord {
   id: string;
   label: string;
-  recordType: RecordType;
+  recordType: AllTimeRecordType;
   holderName: string | null;
   opponentName: string | null;
   value: number;
@@ -211,6 +233,7 @@ type RecordRow = Pick<
   typeof allTimeRecords.$inferSelect,
   | "holderPersonId"
   | "id"
+  | "metadata"
   | "opponentPersonId"
   | "previousRecordId"
   | "recordType"
@@ -281,11 +304,34 @@ function recordGamesBack(
   );
 }
 
+function toStandingOdds(
+  odds: PlayoffOddsStanding | undefined,
+): LeagueHomeStandingOdds | null {
+  if (!odds) {
+    return null;
+  }
+  return {
+    byeOdds: odds.byeOdds,
+    clinchedBye: odds.clinchedBye,
+    clinchedDivision: odds.clinchedDivision,
+    clinchedPlayoff: odds.clinchedPlayoff,
+    delta: odds.delta,
+    eliminated: odds.eliminated,
+    lastPlaceOdds: odds.lastPlaceOdds,
+    playoffOdds: odds.playoffOdds,
+    titleOdds: odds.titleOdds,
+  };
+}
+
 function buildStandings(
   teams: readonly FantasyTeamRow[],
   membersByProviderId: ReadonlyMap<string, string>,
   claimedProviderTeamIds: ReadonlySet<string>,
+  playoffOdds: readonly PlayoffOddsStanding[],
 ): LeagueHomeStanding[] {
+  const oddsByTeamId = new Map(
+    playoffOdds.map((odds) => [odds.providerTeamId, odds]),
+  );
   const sorted = [...teams].sort((left, right) => {
     return (
       right.wins - left.wins ||
@@ -303,6 +349,7 @@ function buildStandings(
     ...toHomeTeam(team, membersByProviderId, claimedProviderTeamIds),
     gamesBack: recordGamesBack(team, leader),
     losses: team.losses,
+    odds: toStandingOdds(oddsByTeamId.get(team.providerTeamId)),
     playoffLineAfter: playoffCut > 0 && index + 1 === playoffCut,
     pointsAgainst: team.pointsAgainst,
     pointsFor: team.pointsFor,
@@ -371,33 +418,32 @@ function buildCurrentMatchups(
     });
 }
 
-function recordLabel(recordType: string): string {
-  return (
-    RECORD_TYPE_LABELS[recordType as RecordType] ??
-    recordType.replaceAll("_", " ")
-  );
-}
-
 function buildRecords(
   records: readonly RecordRow[],
   personNamesById: ReadonlyMap<string, string>,
 ): LeagueHomeRecord[] {
   return records
-    .filter((record) => record.recordType in RECORD_TYPE_LABELS)
+    .filter(
+      (record) =>
+        record.recordType in RECORD_TYPE_LABELS ||
+        isCustomRecordType(record.recordType),
+    )
     .sort((left, right) =>
-      recordLabel(left.recordType).localeCompare(recordLabel(right.recordType)),
+      allTimeRecordLabel(left.recordType, left.metadata).localeCompare(
+        allTimeRecordLabel(right.recordType, right.metadata),
+      ),
     )
     .map((record) => ({
       holderName: record.holderPersonId
         ? (personNamesById.get(record.holderPersonId) ?? null)
         : null,
       id: record.id,
-      label: recordLabel(record.recordType),
+      label: allTimeRecordLabel(record.recordType, record.metadata),
       opponentName: record.opponentPersonId
         ? (personNamesById.get(record.opponentPersonId) ?? null)
         : null,
       previousRecordId: record.previousRecordId,
-      recordType: record.recordType as RecordType,
+      recordType: record.recordType as AllTimeRecordType,
       scoringPeriod: record.scoringPeriod,
       season: record.season,
       value: record.value,
@@ -742,6 +788,11 @@ export async function getLeagueHomeData(
         asc(fantasyMatchups.providerMatchupId),
       );
 
+    const playoffOdds = await loadPlayoffOdds(tx, {
+      leagueId: input.leagueId,
+      season: league.season,
+    });
+
     const unresolvedIntegrityFailures = await tx
       .select({ id: dataIntegrityChecks.id })
       .from(dataIntegrityChecks)
@@ -760,6 +811,7 @@ export async function getLeagueHomeData(
             .select({
               holderPersonId: allTimeRecords.holderPersonId,
               id: allTimeRecords.id,
+              metadata: allTimeRecords.metadata,
               opponentPersonId: allTimeRecords.opponentPersonId,
               previousRecordId: allTimeRecords.previousRecordId,
               recordType: allTimeRecords.recordType,
@@ -944,6 +996,7 @@ export async function getLeagueHomeData(
       personNamesById: new Map(
         personRows.map((person) => [person.id, person.canonicalName]),
       ),
+      playoffOdds,
       records: recordRows satisfies RecordRow[],
       reactionSummaries,
       storylines: storylineRows satisfies StorylineRow[],
@@ -984,6 +1037,7 @@ export async function getLeagueHomeData(
     scoped.teams,
     membersByProviderId,
     claimedProviderTeamIds,
+    scoped.playoffOdds,
   );
   const storylines = buildStorylines(
     scoped.storylines,
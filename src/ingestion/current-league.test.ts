@@ -1,7 +1,7 @@
 // @vitest-environment node
 import { randomUUID } from "node:crypto";
 import { asc, eq, sql } from "drizzle-orm";
-import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
 import { getLeagueDataBookData } from "@/app/leagues/[leagueId]/data/data-book-data";
 import { parseEnv } from "@/core/env/schema";
 import { err, ok } from "@/core/result";
@@ -1776,6 +1776,54 @@ describe("syncCurrentLeague", () => {
     });
   });
 
+  it("keeps a scoring sync green when the playoff odds refresh fails", async () => {
+    const providerLeagueId = `${marker}-95050-odds-error`;
+    const refreshOdds = vi.fn(async (_db: unknown, _input: unknown) => {
+      throw new Error("simulation exploded");
+    });
+
+    const synced = await syncCurrentLeague({
+      db: handle.db,
+      provider: providerFor(leagueFixtureFor(providerLeagueId)),
+      ref: fixtureRef(providerLeagueId),
+      refreshPlayoffOdds: refreshOdds,
+      session: fixtureSession(),
+    });
+
+    expect(synced.ok).toBe(true);
+    if (!synced.ok) throw synced.error;
+    expect(refreshOdds).toHaveBeenCalledWith(handle.db, {
+      leagueId: synced.value.league.id,
+    });
+    const rows = await selectIngestedRows(synced.value.league.id);
+    expect(rows.matchups).toHaveLength(84);
+  });
+
+  it("keeps a trade sync green when the trade analysis refresh fails", async () => {
+    const providerLeagueId = `${marker}-trades-analysis-error`;
+    const refreshTrades = vi.fn(async (_db: unknown, _input: unknown) => {
+      throw new Error("grader exploded");
+    });
+
+    const synced = await syncCurrentLeague({
+      dataClasses: ["league", "teams", "members", "transactions"],
+      db: handle.db,
+      provider: transactionCapableProviderFor(providerLeagueId, "trade"),
+      ref: fixtureRef(providerLeagueId),
+      refreshTradeAnalyses: refreshTrades,
+      session: fixtureSession(),
+    });
+
+    expect(synced.ok).toBe(true);
+    if (!synced.ok) throw synced.error;
+    expect(synced.value.changedTransactions).toEqual([
+      { id: expect.any(String), type: "trade" },
+    ]);
+    expect(refreshTrades).toHaveBeenCalledTimes(1);
+    const rows = await selectIngestedRows(synced.value.league.id);
+    expect(rows.transactions).toHaveLength(1);
+  });
+
   it("publishes scores.updated after changed matchup rows commit", async () => {
     const providerLeagueId = `${marker}-95050-scores`;
     const firstProvider = providerFor(leagueFixtureFor(providerLeagueId));
@@ -25,6 +25,7 @@ import {
   providerFinalStandings,
   teamSeasons,
 } from "@/db/schema";
+import { reverifyLoreClaims } from "@/lore";
 import type {
   DataCoverageStatus,
   FantasyProvider,
@@ -46,13 +47,18 @@ import type {
   ProviderProbeVerdict,
 } from "@/providers";
 import { PROVIDER_DATA_CLASSES } from "@/providers";
+import type { PushNotifier } from "@/push";
 import { REALTIME_EVENTS, type RealtimePublisher } from "@/realtime";
 import {
+  deliverRecordBrokenWebhooks,
   type RecordBrokenHook,
   type RecordBrokenLoreHookResult,
   recomputeChangedMatchupStatistics,
+  refreshPlayoffOdds,
+  refreshTradeAnalyses,
   seedRecordBrokenLoreHooks,
 } from "@/stats";
+import type { WebhookDeliverer } from "@/webhooks";
 import { stableContentHash } from "./hash";
 
 export type CurrentLeagueProvider<Session extends FantasyProviderSession> =
@@ -154,10 +160,14 @@ export interface CurrentLeagueSyncInput<
   leagueId?: string;
   now?: () => Date;
   provider: CurrentLeagueProvider<Session>;
+  push?: PushNotifier;
   ref: ProviderLeagueRef;
   realtime?: RealtimePublisher;
   recomputeChangedMatchups?: typeof recomputeChangedMatchupStatistics;
+  refreshPlayoffOdds?: typeof refreshPlayoffOdds;
+  refreshTradeAnalyses?: typeof refreshTradeAnalyses;
   session: Session;
+  webhooks?: WebhookDeliverer;
 }
 
 type LeagueUpsertResult = {
@@ -3539,6 +3549,42 @@ export async function syncCurrentLeague<Session extends FantasyProviderSession>(
     leagueId: leagueWrite.id,
     matchupIds: scoped.changedMatchupIds,
   });
+  if (scoped.changedMatchupIds.length > 0) {
+    try {
+      await (input.refreshPlayoffOdds ?? refreshPlayoffOdds)(db, {
+        leagueId: leagueWrite.id,
+      });
+    } catch (error) {
+      logger.warn("Playoff odds refresh failed", {
+        error,
+        leagueId: leagueWrite.id,
+      });
+    }
+  }
+  if (
+    scoped.playerStatBreakdownStats.changed > 0 ||
+    scoped.changedTransactions.some(
+      (transaction) => transaction.type === "trade",
+    )
+  ) {
+    try {
+      await (input.refreshTradeAnalyses ?? refreshTradeAnalyses)(db, {
+        leagueId: leagueWrite.id,
+        seasons: [leagueValue?.season ?? ref.season],
+      });
+    } catch (error) {
+      logger.warn("Trade analysis refresh failed", {
+        error,
+        leagueId: leagueWrite.id,
+      });
+    }
+  }
+  if (recompute.seasons.length > 0) {
+    await reverifyLoreClaims({
+      deps: { db, now: input.now, push: input.push },
+      input: { leagueId: leagueWrite.id, seasons: recompute.seasons },
+    });
+  }
   const recordLoreClaims =
     recompute.recordBrokenHooks.length > 0
       ? await seedRecordBrokenLoreHooks({
@@ -3549,6 +3595,13 @@ export async function syncCurrentLeague<Session extends FantasyProviderSession>(
           realtime: input.realtime,
         })
       : [];
+  if (input.webhooks && recompute.recordBrokenHooks.length > 0) {
+    await deliverRecordBrokenWebhooks({
+      hooks: recompute.recordBrokenHooks,
+      leagueId: leagueWrite.id,
+      webhooks: input.webhooks,
+    });
+  }
 
   return ok({
     changedFinalMatchups,
@@ -7,6 +7,7 @@ import {
   type HistoricalImportCheckpoint,
   type HistoricalImportCheckpointCursor,
   historicalImportCheckpoints,
+  leagueHistorySources,
   leagues,
 } from "@/db/schema";
 import type {
@@ -81,7 +82,13 @@ export interface HistoricalImportResult {
 
 export type HistoricalImportError = ProviderError;
 
-type LeagueRoot = { id: string; created: boolean };
+type SeasonRange = { firstSeason: number; lastSeason: number };
+type LeagueRoot = {
+  id: string;
+  created: boolean;
+  // Set when the provider league is a linked history source of another league.
+  source?: SeasonRange;
+};
 
 interface HistoricalImportProgressCheckpoint {
   status: "running" | "completed" | "failed";
@@ -301,6 +308,31 @@ async function ensureLeagueRoot(
   db: Db,
   ref: ProviderLeagueRef,
 ): Promise<LeagueRoot> {
+  const [source] = await db
+    .select({
+      firstSeason: leagueHistorySources.firstSeason,
+      lastSeason: leagueHistorySources.lastSeason,
+      leagueId: leagueHistorySources.leagueId,
+    })
+    .from(leagueHistorySources)
+    .where(
+      and(
+        eq(leagueHistorySources.provider, ref.provider),
+        eq(leagueHistorySources.providerLeagueId, ref.providerId),
+      ),
+    )
+    .limit(1);
+  if (source) {
+    return {
+      created: false,
+      id: source.leagueId,
+      source: {
+        firstSeason: source.firstSeason,
+        lastSeason: source.lastSeason,
+      },
+    };
+  }
+
   const [inserted] = await db
     .insert(leagues)
     .values({
@@ -341,6 +373,41 @@ async function ensureLeagueRoot(
   return { id: existing.id, created: false };
 }
 
+function inSeasonRange(season: number, range: SeasonRange): boolean {
+  return season >= range.firstSeason && season <= range.lastSeason;
+}
+
+/**
+ * Keeps each season of a multi-provider league on exactly one provider. A
+ * linked source imports only the seasons it was linked for; the league's own
+ * provider skips seasons that a linked source covers.
+ */
+async function seasonsOwnedByRef({
+  db,
+  league,
+  seasons,
+}: {
+  db: Db;
+  league: LeagueRoot;
+  seasons: readonly number[];
+}): Promise<number[]> {
+  const source = league.source;
+  if (source) {
+    return seasons.filter((season) => inSeasonRange(season, source));
+  }
+
+  const linkedRanges = await db
+    .select({
+      firstSeason: leagueHistorySources.firstSeason,
+      lastSeason: leagueHistorySources.lastSeason,
+    })
+    .from(leagueHistorySources)
+    .where(eq(leagueHistorySources.leagueId, league.id));
+  return seasons.filter(
+    (season) => !linkedRanges.some((range) => inSeasonRange(season, range)),
+  );
+}
+
 async function selectCheckpoint({
   db,
   leagueId,
@@ -710,12 +777,16 @@ export async function importLeagueHistory<
 }: HistoricalImportInput<Session>): Promise<
   Result<HistoricalImportResult, HistoricalImportError>
 > {
-  const seasons = normalizeRequestedSeasons({
-    currentSeason: ref.season,
-    maxSeasons,
-    seasons: inputSeasons,
-  });
   const league = await ensureLeagueRoot(db, ref);
+  const seasons = await seasonsOwnedByRef({
+    db,
+    league,
+    seasons: normalizeRequestedSeasons({
+      currentSeason: ref.season,
+      maxSeasons,
+      seasons: inputSeasons,
+    }),
+  });
   const checkpoint = await selectCheckpoint({ db, leagueId: league.id, ref });
   const canReuseCheckpoint =
     !forceReimport && checkpoint?.startSeason === seasons[0];
@@ -25,6 +25,7 @@ import {
 } from "@/db/schema";
 import { PUSH_EVENTS } from "@/push";
 import { REALTIME_EVENTS } from "@/realtime";
+import type { LeagueWebhookDomainEvent } from "@/webhooks";
 
 export const INSTIGATION_KINDS = [
   "settle_it_poll",
@@ -202,6 +203,30 @@ async function publishInstigationLoreCanonized({
   }
 }
 
+async function deliverPollWebhookEvent({
+  deps,
+  event,
+  leagueId,
+}: {
+  deps: AiGenerationDependencies;
+  event: Extract<
+    LeagueWebhookDomainEvent,
+    { type: "poll.closed" | "poll.opened" }
+  >;
+  leagueId: string;
+}): Promise<void> {
+  try {
+    await deps.webhooks?.deliverLeagueEvent({ event, leagueId });
+  } catch (error) {
+    logger.warn("Webhook poll delivery failed", {
+      error,
+      eventType: event.type,
+      leagueId,
+      pollId: event.data.pollId,
+    });
+  }
+}
+
 function cleanText(value: string, field: string): string {
   const text = value.replace(/\s+/g, " ").trim();
   if (!text) {
@@ -667,6 +692,21 @@ export async function seedInstigation({
         leagueId: input.leagueId,
         timestamp,
       });
+      await deliverPollWebhookEvent({
+        deps,
+        event: {
+          data: {
+            claimId,
+            closesAt: closesAt.toISOString(),
+            options: validated.options,
+            pollId,
+            question: validated.promptText,
+          },
+          key: pollId,
+          type: "poll.opened",
+        },
+        leagueId: input.leagueId,
+      });
     }
   }
 
@@ -895,6 +935,7 @@ export async function closePoll({
           return {
             kind: "canonized" as const,
             loreClaimId: existingClaim.id,
+            question: poll.question,
             reused: true,
             totalVotes: 0,
             winningOption: poll.options[poll.winningOptionIdx] ?? "",
@@ -904,6 +945,7 @@ export async function closePoll({
 
         return {
           kind: "skipped" as const,
+          question: poll.question,
           reason: "no_votes" as const,
           reused: true,
           totalVotes: 0,
@@ -1001,6 +1043,7 @@ export async function closePoll({
         }
         return {
           kind: "skipped" as const,
+          question: poll.question,
           reason: "no_votes" as const,
           reused: false,
           totalVotes: votes.length,
@@ -1067,6 +1110,7 @@ export async function closePoll({
         }
         return {
           kind: "skipped" as const,
+          question: poll.question,
           reason: "tie" as const,
           reused: false,
           totalVotes: votes.length,
@@ -1251,6 +1295,7 @@ export async function closePoll({
       return {
         kind: "canonized" as const,
         loreClaimId: loreClaim.id,
+        question: poll.question,
         reused: !claimWasRatified,
         totalVotes: votes.length,
         winningOption,
@@ -1259,6 +1304,25 @@ export async function closePoll({
     },
   );
 
+  if (!closed.reused) {
+    await deliverPollWebhookEvent({
+      deps,
+      event: {
+        data: {
+          outcome: closed.kind === "canonized" ? "decided" : closed.reason,
+          pollId: input.pollId,
+          question: closed.question,
+          totalVotes: closed.totalVotes,
+          winningOption:
+            closed.kind === "canonized" ? closed.winningOption : null,
+        },
+        key: input.pollId,
+        type: "poll.closed",
+      },
+      leagueId: input.leagueId,
+    });
+  }
+
   if (closed.kind === "skipped") {
     return {
       pollId: input.pollId,
@@ -0,0 +1,167 @@
+// @vitest-environment node
+import { randomUUID } from "node:crypto";
+import { eq, sql } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ensureArenaSeason } from "@/betting/arena";
+import { parseEnv } from "@/core/env/schema";
+import { createDb, type DbHandle } from "@/db/client";
+import {
+  arenaDivisionPlacements,
+  arenaSeasons,
+  arenaStandings,
+  type League,
+  leagues,
+} from "@/db/schema";
+import { migrateSerialized } from "@/db/test-support";
+import { JOB_EVENTS } from "./events";
+import {
+  arenaDivisionRollover,
+  runArenaDivisionRollover,
+} from "./functions/arena-division-rollover";
+import { functions } from "./index";
+
+const marker = `divisions-${randomUUID()}`;
+/** Far from other suites' seasons so no foreign season sits between ours. */
+const testYear =
+  2600 + (Number.parseInt(marker.slice("divisions-".length, 18), 16) % 300);
+
+let handle: DbHandle;
+let divisionLeagues: League[] = [];
+
+function at(month: number, day = 1): Date {
+  return new Date(Date.UTC(testYear, month, day));
+}
+
+beforeAll(async () => {
+  handle = createDb(parseEnv(process.env).databaseUrl);
+  await handle.pool.query("select 1");
+  await migrateSerialized(handle);
+
+  divisionLeagues = await handle.db
+    .insert(leagues)
+    .values(
+      Array.from({ length: 6 }, (_, index) => ({
+        name: `Division League ${index + 1}`,
+        provider: "espn" as const,
+        providerLeagueId: `${marker}-${index + 1}`,
+      })),
+    )
+    .returning();
+}, 90_000);
+
+afterAll(async () => {
+  if (!handle) return;
+  await handle.db
+    .delete(arenaSeasons)
+    .where(sql`${arenaSeasons.name} like ${`${marker}%`}`);
+  await handle.db
+    .delete(leagues)
+    .where(sql`${leagues.providerLeagueId} like ${`${marker}%`}`);
+  await handle.pool.end();
+});
+
+describe("arena division rollover", () => {
+  it("promotes and relegates once the prior season ends", async () => {
+    const prior = await ensureArenaSeason(handle.db, {
+      endsAt: at(6, 15),
+      name: `${marker} prior`,
+      startsAt: at(0),
+    });
+    const next = await ensureArenaSeason(handle.db, {
+      endsAt: at(11),
+      name: `${marker} next`,
+      startsAt: at(6),
+    });
+
+    // Two divisions of three. Within each, the league listed last finished
+    // first, so the rollover has to read the ladder, not the insert order.
+    const [l1, l2, l3, l4, l5, l6] = divisionLeagues.map((row) => row.id);
+    const finish = [
+      { leagueId: l1, rank: 3, tier: 1 },
+      { leagueId: l2, rank: 2, tier: 1 },
+      { leagueId: l3, rank: 4, tier: 1 },
+      { leagueId: l4, rank: 5, tier: 2 },
+      { leagueId: l5, rank: 6, tier: 2 },
+      { leagueId: l6, rank: 1, tier: 2 },
+    ] as { leagueId: string; rank: number; tier: number }[];
+    await handle.db.insert(arenaDivisionPlacements).values(
+      finish.map((row) => ({
+        leagueId: row.leagueId,
+        movement: "held" as const,
+        seasonId: prior.id,
+        tier: row.tier,
+      })),
+    );
+    await handle.db.insert(arenaStandings).values(
+      finish.map((row) => ({
+        accuracyBps: 9_000 - row.rank * 100,
+        kind: "league" as const,
+        leagueId: row.leagueId,
+        rank: row.rank,
+        seasonId: prior.id,
+        subjectId: row.leagueId,
+        weeksPlayed: 1,
+      })),
+    );
+
+    // The next season has started, but the prior one is still running.
+    const early = await runArenaDivisionRollover({
+      deps: { db: handle.db, now: () => at(6, 5) },
+    });
+    expect(early.placedSeasonIds).not.toContain(next.id);
+
+    const result = await runArenaDivisionRollover({
+      deps: { db: handle.db, now: () => at(6, 16) },
+    });
+
+    expect(result.placedSeasonIds).toContain(next.id);
+    const planned = result.planned.filter(
+      (event) => event.data.seasonId === next.id,
+    );
+    expect(
+      planned.map((event) => event.data).sort((a, b) => a.toTier - b.toTier),
+    ).toEqual([
+      {
+        fromTier: 2,
+        leagueId: l6,
+        movement: "promoted",
+        seasonId: next.id,
+        toTier: 1,
+      },
+      {
+        fromTier: 1,
+        leagueId: l3,
+        movement: "relegated",
+        seasonId: next.id,
+        toTier: 2,
+      },
+    ]);
+    expect(planned[0]?.id).toBe(
+      `${JOB_EVENTS.arenaDivisionMoved}:${planned[0]?.data.leagueId}:${next.id}`,
+    );
+
+    const placements = await handle.db
+      .select({
+        leagueId: arenaDivisionPlacements.leagueId,
+        tier: arenaDivisionPlacements.tier,
+      })
+      .from(arenaDivisionPlacements)
+      .where(eq(arenaDivisionPlacements.seasonId, next.id));
+    expect(
+      placements
+        .filter((row) => row.tier === 1)
+        .map((row) => row.leagueId)
+        .sort(),
+    ).toEqual([l1, l2, l6].sort());
+
+    // Placed once: a second tick finds nothing to announce.
+    const again = await runArenaDivisionRollover({
+      deps: { db: handle.db, now: () => at(6, 17) },
+    });
+    expect(again.placedSeasonIds).not.toContain(next.id);
+  });
+
+  it("is registered with the job runner", () => {
+    expect(functions).toContain(arenaDivisionRollover);
+  });
+});
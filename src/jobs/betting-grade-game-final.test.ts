@@ -11,6 +11,8 @@ import {
   type ResultsProviderInput,
 } from "@/betting";
 import { openPickWeek } from "@/betting/pickem";
+import { createSidePool } from "@/betting/side-pools";
+import { submitSurvivorPick } from "@/betting/survivor";
 import { parseEnv } from "@/core/env/schema";
 import { createDb, type DbHandle } from "@/db/client";
 import { withLeagueContext } from "@/db/rls";
@@ -290,6 +292,66 @@ describe("betting game.final grading job", () => {
     expect(rival).toMatchObject({ accuracyBps: 0, correctPicks: 0 });
   }, 90_000);
 
+  it("eliminates the survivor entry that picked the loser", async () => {
+    const { event } = await seedEventWithMarkets("survivor");
+    const week = await openPickWeek(handle.db, {
+      closesAt: new Date("2037-09-14T00:00:00.000Z"),
+      leagueId: league.id,
+      maxPicksPerUser: 1,
+      opensAt: new Date("2037-09-01T00:00:00.000Z"),
+      rosterSize: 1,
+      season: 2037,
+      week: 5,
+    });
+    const pool = await createSidePool(handle.db, {
+      actorUserId: user.id,
+      leagueId: league.id,
+      mode: "survivor",
+    });
+    const beforeKickoff = new Date("2037-09-05T00:00:00.000Z");
+    for (const [userId, selection] of [
+      [user.id, "home"],
+      [rivalUser.id, "away"],
+    ] as const) {
+      await submitSurvivorPick(handle.db, {
+        bettingEventId: event.id,
+        leagueId: league.id,
+        now: beforeKickoff,
+        pickWeekId: week.pickWeekId,
+        poolId: pool.poolId,
+        selection,
+        userId,
+      });
+    }
+
+    const resolved = deps();
+    const result = await runBettingGradeGameFinal({
+      data: { bettingEventId: event.id, leagueId: league.id },
+      deps: resolved,
+    });
+
+    // Only the away pick lost; one content trigger for the pool, and the push
+    // goes to the eliminated member alone.
+    expect(result.poolEliminatedEvents).toEqual([
+      {
+        data: {
+          bettingEventId: event.id,
+          eliminatedCount: 1,
+          leagueId: league.id,
+          poolId: pool.poolId,
+          week: 5,
+        },
+        id: `${JOB_EVENTS.poolEliminated}:${league.id}:${pool.poolId}:${event.id}`,
+        name: JOB_EVENTS.poolEliminated,
+      },
+    ]);
+    const eliminated = resolved.push.notifications.filter(
+      (notification) => notification.type === "league.pool.eliminated",
+    );
+    expect(eliminated).toHaveLength(1);
+    expect(eliminated[0]?.userIds).toEqual([rivalUser.id]);
+  }, 90_000);
+
   it("leaves picks pending when the provider has no final result", async () => {
     const { event, markets } = await seedEventWithMarkets("pending");
     await seedPicks(markets, 2);
@@ -55,10 +55,12 @@ import {
   runContentPlanLaunchEdition,
 } from "./functions/content-plan-launch-edition";
 import {
+  contentPlanArenaDivisionMoved,
   contentPlanArenaStandingsSwing,
   contentPlanLoreCanonized,
   contentPlanPicksGraded,
   contentPlanPollClosed,
+  contentPlanPoolEliminated,
   contentPlanRecordBroken,
   contentPlanTransaction,
   contentPlanWaiver,
@@ -1446,6 +1448,31 @@ describe("content planning", () => {
       },
     ]);
 
+    expect(
+      (
+        await planTriggeredContent({
+          db: handle.db,
+          env: openEntitlementEnv,
+          data: {
+            fromTier: 2,
+            leagueId,
+            movement: "promoted",
+            seasonId: "season-2",
+            toTier: 1,
+          },
+          eventName: JOB_EVENTS.arenaDivisionMoved,
+          nflWeekState: regularQuietState,
+        })
+      ).planned.map((event) => event.data),
+    ).toEqual([
+      {
+        contentType: "arena_recap",
+        leagueId,
+        persona: "narrator",
+        triggerKey: "arena-division:regular:7:season-2:promoted",
+      },
+    ]);
+
     expect(
       (
         await planTriggeredContent({
@@ -1778,5 +1805,7 @@ describe("content planning", () => {
     expect(functions).toContain(contentPlanPollClosed);
     expect(functions).toContain(contentPlanPicksGraded);
     expect(functions).toContain(contentPlanArenaStandingsSwing);
+    expect(functions).toContain(contentPlanArenaDivisionMoved);
+    expect(functions).toContain(contentPlanPoolEliminated);
   });
 });
@@ -8,6 +8,7 @@ import type { Db } from "@/db/client";
 import { withLeagueContext } from "@/db/rls";
 import {
   aiGenerationRuns,
+  fantasyDraftPicks,
   fantasyMatchups,
   fantasyTeams,
   headToHeadRecords,
@@ -28,6 +29,7 @@ import {
   nflWeekToken,
 } from "@/sports/nfl-calendar";
 import {
+  type ArenaDivisionMovedData,
   type ArenaStandingsSwingData,
   type ContentGenerateData,
   type GameFinalData,
@@ -36,6 +38,7 @@ import {
   type LoreCanonizedData,
   type PicksGradedData,
   type PollClosedData,
+  type PoolEliminatedData,
   type RecordBrokenData,
   type TransactionData,
   type WaiverData,
@@ -60,6 +63,8 @@ export const CONTENT_PLAN_TRIGGER_EVENTS = [
   JOB_EVENTS.pollClosed,
   JOB_EVENTS.picksGraded,
   JOB_EVENTS.arenaStandingsSwing,
+  JOB_EVENTS.arenaDivisionMoved,
+  JOB_EVENTS.poolEliminated,
 ] as const;
 
 export type ContentPlanTriggerEventName =
@@ -124,6 +129,8 @@ const ACTIVE_LEAGUE_STATUSES = ["preseason", "in_season"] as const;
 const CAP_COUNTED_GENERATION_STATUSES = ["running", "published"] as const;
 const BLOWOUT_MARGIN = 25;
 const RIVALRY_MEETINGS_THRESHOLD = 5;
+/** The regular-season week whose mid-week column carries early draft grades. */
+const DRAFT_GRADE_CHECKPOINT_WEEK = 4;
 interface ContentCandidate {
   persona: AiPersona;
   contentType: AiContentType;
@@ -156,6 +163,12 @@ const TRIGGER_CANDIDATES: Record<
   [JOB_EVENTS.arenaStandingsSwing]: [
     { contentType: "arena_recap", persona: "narrator" },
   ],
+  [JOB_EVENTS.arenaDivisionMoved]: [
+    { contentType: "arena_recap", persona: "narrator" },
+  ],
+  [JOB_EVENTS.poolEliminated]: [
+    { contentType: "awards_superlatives", persona: "trash_talker" },
+  ],
   [JOB_EVENTS.loreCanonized]: [
     { contentType: "verdict_column", persona: "commissioner" },
     { contentType: "milestone_record", persona: "narrator" },
@@ -402,7 +415,9 @@ function contentTriggerKey(
   eventName: ContentPlanTriggerEventName,
   data:
     | PicksGradedData
+    | PoolEliminatedData
     | ArenaStandingsSwingData
+    | ArenaDivisionMovedData
     | LoreCanonizedData
     | PollClosedData
     | RecordBrokenData
@@ -453,6 +468,16 @@ function contentTriggerKey(
         weekState,
       });
     }
+    case JOB_EVENTS.poolEliminated: {
+      const poolData = data as PoolEliminatedData;
+      return framedReactiveTriggerKey({
+        now,
+        prefix: "pool-eliminated",
+        // One recap per pool per game, however many entries it ended.
+        sourceKey: `${poolData.poolId}:${poolData.bettingEventId}`,
+        weekState,
+      });
+    }
     case JOB_EVENTS.arenaStandingsSwing: {
       const swingData = data as ArenaStandingsSwingData;
       return framedReactiveTriggerKey({
@@ -462,6 +487,16 @@ function contentTriggerKey(
         weekState,
       });
     }
+    case JOB_EVENTS.arenaDivisionMoved: {
+      const movedData = data as ArenaDivisionMovedData;
+      return framedReactiveTriggerKey({
+        now,
+        prefix: "arena-division",
+        // A league moves once per season, so the season names the recap.
+        sourceKey: `${movedData.seasonId}:${movedData.movement}`,
+        weekState,
+      });
+    }
   }
 }
 
@@ -561,6 +596,63 @@ function hasScheduledGamesPhase(phase: NflWeekState["phase"]): boolean {
   );
 }
 
+function draftGradesTriggerKey({
+  cadence,
+  column,
+  league,
+  weekState,
+}: {
+  cadence: ContentPlanCronCadence;
+  column: LeagueColumn | null;
+  league: { season: number; status: string };
+  weekState: NflWeekState;
+}): string | null {
+  if (!cadenceMatchesWeekState({ cadence, column, weekState })) {
+    return null;
+  }
+  if (
+    column?.id === "power-rankings-summary" &&
+    weekState.phase === "regular" &&
+    weekState.seasonWeek === DRAFT_GRADE_CHECKPOINT_WEEK
+  ) {
+    return `draft-grades:${league.season}:week-${DRAFT_GRADE_CHECKPOINT_WEEK}`;
+  }
+  // Every offseason beat re-plans the same key; the finished run is reused.
+  if (
+    cadence === "offseason-beat" &&
+    weekState.phase === "offseason" &&
+    league.status === "complete"
+  ) {
+    return `draft-grades:${league.season}:final`;
+  }
+  return null;
+}
+
+async function hasDraftPicks({
+  db,
+  leagueId,
+  season,
+}: {
+  db: Db;
+  leagueId: string;
+  season: number;
+}): Promise<boolean> {
+  return withLeagueContext(db, leagueId, async (tx) => {
+    const [row] = await tx
+      .select({ id: fantasyDraftPicks.id })
+      .from(fantasyDraftPicks)
+      .where(
+        and(
+          eq(fantasyDraftPicks.leagueId, leagueId),
+          eq(fantasyDraftPicks.season, season),
+        ),
+      )
+      .limit(1);
+
+    return Boolean(row);
+  });
+}
+
 async function hasRivalrySignal({
   db,
   leagueId,
@@ -619,6 +711,8 @@ export async function planCronContent({
   const activeLeagues = await db
     .select({
       id: leagues.id,
+      season: leagues.season,
+      status: leagues.status,
     })
     .from(leagues)
     .where(
@@ -679,6 +773,26 @@ export async function planCronContent({
           : toPlannedEvent(data),
       );
     }
+
+    const draftTriggerKey = draftGradesTriggerKey({
+      cadence,
+      column,
+      league,
+      weekState: resolvedNflWeekState,
+    });
+    if (
+      draftTriggerKey &&
+      (await hasDraftPicks({ db, leagueId: league.id, season: league.season }))
+    ) {
+      planned.push(
+        toPlannedEvent({
+          contentType: "draft_grades",
+          leagueId: league.id,
+          persona: "analyst",
+          triggerKey: draftTriggerKey,
+        }),
+      );
+    }
   }
 
   return {
@@ -981,7 +1095,9 @@ function planTriggeredContentEvents({
 }: {
   data:
     | PicksGradedData
+    | PoolEliminatedData
     | ArenaStandingsSwingData
+    | ArenaDivisionMovedData
     | LoreCanonizedData
     | PollClosedData
     | RecordBrokenData
@@ -1021,7 +1137,9 @@ export async function planTriggeredContent({
 }: {
   data:
     | PicksGradedData
+    | PoolEliminatedData
     | ArenaStandingsSwingData
+    | ArenaDivisionMovedData
     | LoreCanonizedData
     | PollClosedData
     | RecordBrokenData
@@ -48,6 +48,21 @@ export const JOB_EVENTS = {
    */
   picksGraded: "picks.graded",
   arenaStandingsSwing: "arena.standings.swing",
+  /** Manual kick of the arena division rollover; it also runs on a cron. */
+  arenaDivisionRollover: "arena.division.rollover",
+  /**
+   * Emitted once per league promoted or relegated when a new arena season is
+   * placed into divisions.
+   */
+  arenaDivisionMoved: "arena.division.moved",
+  /**
+   * Emitted once per survivor pool and finished game that knocked entries
+   * out. The content hook for eliminations; the members themselves hear by
+   * push.
+   */
+  poolEliminated: "pool.eliminated",
+  /** A commissioner asked for a league archive; the export job builds it. */
+  leagueArchiveRequested: "league.archive.requested",
 } as const;
 
 export type JobEventName = (typeof JOB_EVENTS)[keyof typeof JOB_EVENTS];
@@ -60,7 +75,7 @@ export interface AppPingData {
 export interface ImportRequestedData {
   credentialId: string;
   leagueId: string;
-  provider: Extract<FantasyProviderId, "espn" | "sleeper" | "yahoo">;
+  provider: Extract<FantasyProviderId, "espn" | "file" | "sleeper" | "yahoo">;
   providerLeagueId: string;
   season: number;
   sport: "ffl" | "unknown";
@@ -228,12 +243,33 @@ export interface PicksGradedData {
   leagueId: string;
 }
 
+export interface PoolEliminatedData {
+  bettingEventId: string;
+  eliminatedCount: number;
+  leagueId: string;
+  poolId: string;
+  week: number;
+}
+
+export interface LeagueArchiveRequestedData {
+  archiveId: string;
+  leagueId: string;
+}
+
 export interface ArenaStandingsSwingData {
   leagueId: string;
   seasonId: string;
   swingKey: string;
 }
 
+export interface ArenaDivisionMovedData {
+  fromTier: number;
+  leagueId: string;
+  movement: "promoted" | "relegated";
+  seasonId: string;
+  toTier: number;
+}
+
 export interface GameFinalData {
   bettingEventId?: string;
   leagueId: string;
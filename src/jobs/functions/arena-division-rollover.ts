@@ -0,0 +1,101 @@
+import { cron } from "inngest";
+import { rolloverArenaDivisions } from "@/betting/arena-divisions";
+import { recordJobRun } from "@/core/metrics";
+import type { Db } from "@/db/client";
+import { inngest } from "../client";
+import { type ArenaDivisionMovedData, JOB_EVENTS } from "../events";
+
+/**
+ * Places each new arena season into divisions once the season before it has
+ * ended, promoting and relegating from that season's finish, and announces
+ * every league that moved.
+ *
+ * A poller for the same reason as `betting-event-poll`: nothing marks the
+ * moment a season ends, so the question is asked on a schedule. Placement is
+ * once per season, so a tick that finds nothing to place is cheap.
+ */
+
+export interface ArenaDivisionRolloverDependencies {
+  db: Db;
+  now?: () => Date;
+}
+
+export interface PlannedArenaDivisionMovedEvent {
+  data: ArenaDivisionMovedData;
+  id: string;
+  name: typeof JOB_EVENTS.arenaDivisionMoved;
+}
+
+export interface ArenaDivisionRolloverResponse {
+  eventName: typeof JOB_EVENTS.arenaDivisionMoved;
+  ok: true;
+  placedSeasonIds: string[];
+  planned: PlannedArenaDivisionMovedEvent[];
+}
+
+async function getDefaultDependencies(): Promise<ArenaDivisionRolloverDependencies> {
+  const { getDb } = await import("@/db");
+  return { db: getDb() };
+}
+
+export async function runArenaDivisionRollover({
+  deps,
+}: {
+  deps: ArenaDivisionRolloverDependencies;
+}): Promise<ArenaDivisionRolloverResponse> {
+  const now = deps.now?.() ?? new Date();
+  const result = await rolloverArenaDivisions(deps.db, { now });
+
+  // One per league and season: a league moves at most once per rollover, so
+  // the pair is a stable id across retries.
+  const planned = result.moves.map((move) => ({
+    data: {
+      fromTier: move.fromTier,
+      leagueId: move.leagueId,
+      movement: move.movement,
+      seasonId: move.seasonId,
+      toTier: move.toTier,
+    },
+    id: `${JOB_EVENTS.arenaDivisionMoved}:${move.leagueId}:${move.seasonId}`,
+    name: JOB_EVENTS.arenaDivisionMoved,
+  }));
+
+  return {
+    eventName: JOB_EVENTS.arenaDivisionMoved,
+    ok: true,
+    placedSeasonIds: result.placedSeasonIds,
+    planned,
+  };
+}
+
+export function createArenaDivisionRolloverFunction(
+  resolveDeps: () =>
+    | ArenaDivisionRolloverDependencies
+    | Promise<ArenaDivisionRolloverDependencies> = getDefaultDependencies,
+) {
+  return inngest.createFunction(
+    {
+      description:
+        "Places new arena seasons into divisions with promotion and relegation.",
+      id: "arena-division-rollover",
+      name: "Arena division rollover",
+      triggers: [
+        { event: JOB_EVENTS.arenaDivisionRollover },
+        cron("TZ=UTC 5 * * * *"),
+      ],
+    },
+    async ({ step }): Promise<ArenaDivisionRolloverResponse> =>
+      recordJobRun("arena-division-rollover", async () => {
+        const deps = await resolveDeps();
+        const result = await step.run("rollover-arena-divisions", () =>
+          runArenaDivisionRollover({ deps }),
+        );
+        if (result.planned.length > 0) {
+          await step.sendEvent("send-arena-division-moved", result.planned);
+        }
+        return result;
+      }),
+  );
+}
+
+export const arenaDivisionRollover = createArenaDivisionRolloverFunction();
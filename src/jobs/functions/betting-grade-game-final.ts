@@ -6,17 +6,22 @@ import {
   findArenaSeasonIdsForWeekStarts,
   rebuildAllArenaStandings,
 } from "@/betting/arena";
+import { settleBankrollSlipsForEvent } from "@/betting/bankroll";
 import { createResolveBettingEventDependencies } from "@/betting/dependencies";
 import {
   type ResolveBettingEventDependencies,
   resolveBettingEvent,
 } from "@/betting/event-resolution";
+import { recordClosingLineValues } from "@/betting/line-movement";
+import { loadPickWeekTally } from "@/betting/pickem";
 import { gradePicksForEvent } from "@/betting/pickem-grading";
+import { gradeSidePoolPicksForEvent } from "@/betting/side-pool-grading";
+import { eliminateMissedSurvivorWeeks } from "@/betting/survivor";
 import { logger } from "@/core/logging";
 import { recordJobRun } from "@/core/metrics";
 import { AppError } from "@/core/result";
 import type { Db } from "@/db/client";
-import { members } from "@/db/schema";
+import { members, users } from "@/db/schema";
 import { createPushNotifier, PUSH_EVENTS, type PushNotifier } from "@/push";
 import {
   type ArenaLeaderboardUpdatedPayload,
@@ -25,17 +30,20 @@ import {
   REALTIME_EVENTS,
   type RealtimePublisher,
 } from "@/realtime";
+import type { WebhookDeliverer } from "@/webhooks";
+import { createWebhookDeliverer } from "@/webhooks/dependencies";
 import { inngest } from "../client";
 import {
   type ArenaStandingsSwingData,
   type BettingEventFinalData,
   JOB_EVENTS,
   type PicksGradedData,
+  type PoolEliminatedData,
 } from "../events";
 
 /**
- * `game.final` consumer: resolve the event, grade Pick 'em entries, rebuild
- * the arena, fan out.
+ * `game.final` consumer: resolve the event, grade Pick 'em entries and side-
+ * game pool picks, settle bankroll-mode slips, rebuild the arena, fan out.
  *
  * Replaces `betting-settle-game-final`. That job settled paper bet slips
  * against a bankroll; the bankroll is gone (T-011) and the arena ranks on pick
@@ -56,10 +64,17 @@ interface PlannedPicksGradedEvent {
   data: PicksGradedData;
 }
 
+interface PlannedPoolEliminatedEvent {
+  id: string;
+  name: typeof JOB_EVENTS.poolEliminated;
+  data: PoolEliminatedData;
+}
+
 export interface BettingGradeGameFinalDependencies
   extends ResolveBettingEventDependencies {
   push: PushNotifier;
   realtime: RealtimePublisher;
+  webhooks?: WebhookDeliverer;
 }
 
 export interface BettingGradeGameFinalResponse {
@@ -71,7 +86,9 @@ export interface BettingGradeGameFinalResponse {
   gradedPicks: { correct: number; incorrect: number; void: number };
   leagueId: string;
   ok: true;
+  settledBankrollSlips: number;
   picksGradedEvents: PlannedPicksGradedEvent[];
+  poolEliminatedEvents: PlannedPoolEliminatedEvent[];
   skippedReason: "event_not_found" | "result_not_final" | null;
 }
 
@@ -120,6 +137,7 @@ async function getDefaultDependencies(): Promise<BettingGradeGameFinalDependenci
     ...createResolveBettingEventDependencies(db, env),
     push: createPushNotifier(db, env),
     realtime: createRealtimePublisher(env),
+    webhooks: createWebhookDeliverer(db, env),
   };
 }
 
@@ -134,17 +152,48 @@ function uniqueValues(values: readonly string[]): string[] {
  * no class instances.
  */
 export interface GameFinalGradingFacts {
+  /** Bankroll-mode leagues with a slip settled, whose ROI track is stale. */
+  bankrollAffectedLeagueIds: string[];
   bettingEventId: string;
+  /** Picks on this game stamped with their closing line. */
+  closingLinePicks: number;
+  /** Pick 'em weeks whose last pending pick this game graded. */
+  completedPickWeeks: { leagueId: string; pickWeekId: string }[];
   /** ISO kickoff, used to locate the arena season the game belongs to. */
   eventStartTime: string | null;
   gradedPicks: { correct: number; incorrect: number; void: number };
   leagueId: string;
   /** Leagues whose picks were graded, and whose standings are now stale. */
   pickAffectedLeagueIds: string[];
+  /**
+   * Survivor entries this game ended, and the league's entries found out on
+   * a closed week they never picked in (`team` null).
+   */
+  poolEliminations: {
+    leagueId: string;
+    poolId: string;
+    poolName: string;
+    team: string | null;
+    userId: string;
+    week: number;
+  }[];
+  /** Confidence weeks whose last pending pick this game graded. */
+  poolScoredWeeks: {
+    leagueId: string;
+    points: number;
+    poolId: string;
+    poolName: string;
+    userId: string;
+    week: number;
+  }[];
+  settledBankrollSlips: number;
   skippedReason: "event_not_found" | "result_not_final" | null;
 }
 
-/** Step 1: the database writes. Resolve the event, grade the picks. */
+/**
+ * Step 1: the database writes. Resolve the event, grade the picks and the
+ * pool picks, settle the bankroll slips.
+ */
 export async function gradeGameFinalFacts({
   data: rawData,
   deps,
@@ -160,22 +209,51 @@ export async function gradeGameFinalFacts({
 
   if (!resolution.resolved || !resolution.result) {
     return {
+      bankrollAffectedLeagueIds: [],
       bettingEventId: resolution.bettingEventId,
+      closingLinePicks: 0,
+      completedPickWeeks: [],
       eventStartTime: resolution.event?.startTime.toISOString() ?? null,
       gradedPicks: { correct: 0, incorrect: 0, void: 0 },
       leagueId: data.leagueId,
       pickAffectedLeagueIds: [],
+      poolEliminations: [],
+      poolScoredWeeks: [],
+      settledBankrollSlips: 0,
       skippedReason: resolution.skippedReason,
     };
   }
 
+  // The close is fixed at kickoff, so it is recorded before grading; the
+  // arena rebuild that grading triggers then reads the new CLV with it.
+  const closing = await recordClosingLineValues(deps.db, {
+    bettingEventId: resolution.bettingEventId,
+  });
   const graded = await gradePicksForEvent(deps.db, {
     bettingEventId: resolution.bettingEventId,
     result: resolution.result,
   });
+  const pools = await gradeSidePoolPicksForEvent(deps.db, {
+    bettingEventId: resolution.bettingEventId,
+    result: resolution.result,
+  });
+  const missed = await eliminateMissedSurvivorWeeks(deps.db, {
+    leagueId: data.leagueId,
+    now: deps.now?.(),
+  });
+  const settled = await settleBankrollSlipsForEvent(deps.db, {
+    bettingEventId: resolution.bettingEventId,
+    result: resolution.result,
+  });
 
   return {
+    bankrollAffectedLeagueIds: [...settled.affectedLeagueIds],
     bettingEventId: resolution.bettingEventId,
+    closingLinePicks: closing.recorded,
+    completedPickWeeks: graded.completedPickWeeks.map((week) => ({
+      leagueId: week.leagueId,
+      pickWeekId: week.pickWeekId,
+    })),
     eventStartTime: resolution.event?.startTime.toISOString() ?? null,
     gradedPicks: {
       correct: graded.correct,
@@ -184,6 +262,13 @@ export async function gradeGameFinalFacts({
     },
     leagueId: data.leagueId,
     pickAffectedLeagueIds: [...graded.affectedLeagueIds],
+    poolEliminations: [...pools.eliminations, ...missed].map((elimination) => ({
+      ...elimination,
+    })),
+    poolScoredWeeks: pools.scoredConfidenceWeeks.map((scored) => ({
+      ...scored,
+    })),
+    settledBankrollSlips: settled.settledSlips,
     skippedReason: null,
   };
 }
@@ -272,6 +357,181 @@ async function sendArenaRivalPassedPushNotifications({
   }
 }
 
+async function loadUserNames(
+  db: Db,
+  userIds: readonly string[],
+): Promise<Map<string, string>> {
+  const uniqueUserIds = uniqueValues(userIds);
+  if (uniqueUserIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({ name: users.displayName, userId: users.id })
+    .from(users)
+    .where(inArray(users.id, uniqueUserIds));
+  return new Map(rows.map((row) => [row.userId, row.name]));
+}
+
+/**
+ * The group-chat side of a rival pass. Push tells the member who fell; the
+ * league webhook tells everyone else, once per league the member belongs to.
+ */
+async function sendArenaRivalPassedWebhooks({
+  arenaSwingSignals,
+  bettingEventId,
+  deps,
+}: {
+  arenaSwingSignals: readonly ArenaStandingsSwingPayload[];
+  bettingEventId: string;
+  deps: BettingGradeGameFinalDependencies;
+}): Promise<void> {
+  const webhooks = deps.webhooks;
+  if (!webhooks) {
+    return;
+  }
+
+  const passed = arenaSwingSignals.flatMap((payload) =>
+    payload.swings.flatMap((swing) =>
+      swing.kind === "individual" && swing.userId && swing.rankDelta < 0
+        ? [{ ...swing, seasonId: payload.seasonId, userId: swing.userId }]
+        : [],
+    ),
+  );
+  if (passed.length === 0) {
+    return;
+  }
+
+  const userIds = passed.map((swing) => swing.userId);
+  const leagueIdsByUser = await loadLeagueIdsByUser(deps.db, userIds);
+  const namesByUser = await loadUserNames(deps.db, userIds);
+  for (const swing of passed) {
+    for (const leagueId of leagueIdsByUser.get(swing.userId) ?? []) {
+      try {
+        await webhooks.deliverLeagueEvent({
+          event: {
+            data: {
+              arenaSeasonId: swing.seasonId,
+              memberName: namesByUser.get(swing.userId) || "A league member",
+              newRank: swing.newRank,
+              oldRank: swing.oldRank,
+            },
+            key: `${swing.seasonId}:${swing.userId}:${bettingEventId}`,
+            type: "arena.rival_passed",
+          },
+          leagueId,
+        });
+      } catch (error) {
+        logger.warn("Webhook arena rival-passed delivery failed", {
+          error,
+          leagueId,
+          userId: swing.userId,
+        });
+      }
+    }
+  }
+}
+
+/** Announces each Pick 'em week whose final pending pick just graded. */
+async function sendPickWeekGradedWebhooks({
+  deps,
+  facts,
+}: {
+  deps: BettingGradeGameFinalDependencies;
+  facts: GameFinalGradingFacts;
+}): Promise<void> {
+  const webhooks = deps.webhooks;
+  if (!webhooks) {
+    return;
+  }
+
+  for (const week of facts.completedPickWeeks) {
+    try {
+      const tally = await loadPickWeekTally(deps.db, week);
+      if (!tally) {
+        continue;
+      }
+      await webhooks.deliverLeagueEvent({
+        event: {
+          data: {
+            correctPicks: tally.correctPicks,
+            pickWeekId: week.pickWeekId,
+            season: tally.season,
+            submittedPicks: tally.submittedPicks,
+            voidPicks: tally.voidPicks,
+            week: tally.week,
+          },
+          key: week.pickWeekId,
+          type: "picks.week_graded",
+        },
+        leagueId: week.leagueId,
+      });
+    } catch (error) {
+      logger.warn("Webhook pick week-graded delivery failed", {
+        error,
+        leagueId: week.leagueId,
+        pickWeekId: week.pickWeekId,
+      });
+    }
+  }
+}
+
+/**
+ * Tells each member their own pool news: a survivor entry that just died, or
+ * a confidence week that just finished scoring. Only the member hears it;
+ * the league hears about eliminations through the content planner.
+ */
+async function sendSidePoolPushNotifications({
+  deps,
+  facts,
+}: {
+  deps: BettingGradeGameFinalDependencies;
+  facts: GameFinalGradingFacts;
+}): Promise<void> {
+  for (const elimination of facts.poolEliminations) {
+    try {
+      await deps.push.notifyLeague({
+        body:
+          elimination.team === null
+            ? `No pick in week ${elimination.week}. Your ${elimination.poolName} run is over.`
+            : `${elimination.team} lost in week ${elimination.week}. Your ${elimination.poolName} run is over.`,
+        leagueId: elimination.leagueId,
+        tag: `pool:${elimination.poolId}:eliminated:${elimination.userId}`,
+        title: "Eliminated",
+        type: PUSH_EVENTS.leaguePoolEliminated,
+        url: `/leagues/${elimination.leagueId}/pools`,
+        userIds: [elimination.userId],
+      });
+    } catch (error) {
+      logger.warn("Push pool elimination notification failed", {
+        error,
+        leagueId: elimination.leagueId,
+        userId: elimination.userId,
+      });
+    }
+  }
+
+  for (const scored of facts.poolScoredWeeks) {
+    try {
+      await deps.push.notifyLeague({
+        body: `Week ${scored.week} is in the books: ${scored.points} points.`,
+        leagueId: scored.leagueId,
+        tag: `pool:${scored.poolId}:week-${scored.week}:${scored.userId}`,
+        title: `${scored.poolName} week scored`,
+        type: PUSH_EVENTS.leaguePoolScored,
+        url: `/leagues/${scored.leagueId}/pools`,
+        userIds: [scored.userId],
+      });
+    } catch (error) {
+      logger.warn("Push pool week-scored notification failed", {
+        error,
+        leagueId: scored.leagueId,
+        userId: scored.userId,
+      });
+    }
+  }
+}
+
 async function publishArenaRealtimeSignals({
   arenaResults,
   at,
@@ -403,7 +663,14 @@ export async function publishGameFinalEffects({
   arenaRecapEvents: PlannedArenaStandingsSwingEvent[];
   arenaSwingSignals: ArenaStandingsSwingPayload[];
 }> {
-  if (facts.pickAffectedLeagueIds.length === 0) {
+  // Pools do not feed the arena, so their pushes go out whether or not any
+  // Pick 'em or bankroll league moved.
+  await sendSidePoolPushNotifications({ deps, facts });
+
+  if (
+    facts.pickAffectedLeagueIds.length === 0 &&
+    facts.bankrollAffectedLeagueIds.length === 0
+  ) {
     return {
       arenaLeaderboardUpdates: [],
       arenaRecapEvents: [],
@@ -435,6 +702,12 @@ export async function publishGameFinalEffects({
     arenaSwingSignals: realtimeUpdates.arenaSwingSignals,
     deps,
   });
+  await sendArenaRivalPassedWebhooks({
+    arenaSwingSignals: realtimeUpdates.arenaSwingSignals,
+    bettingEventId: facts.bettingEventId,
+    deps,
+  });
+  await sendPickWeekGradedWebhooks({ deps, facts });
 
   return { ...realtimeUpdates, arenaRecapEvents };
 }
@@ -460,6 +733,35 @@ function picksGradedEventsFor(
   }));
 }
 
+/**
+ * One content-planning trigger per pool that lost entries on this game, keyed
+ * on (pool, event) like the Pick 'em trigger.
+ */
+function poolEliminatedEventsFor(
+  facts: GameFinalGradingFacts,
+): PlannedPoolEliminatedEvent[] {
+  const byPool = new Map<string, PlannedPoolEliminatedEvent>();
+  for (const elimination of facts.poolEliminations) {
+    const planned = byPool.get(elimination.poolId);
+    if (planned) {
+      planned.data.eliminatedCount += 1;
+      continue;
+    }
+    byPool.set(elimination.poolId, {
+      data: {
+        bettingEventId: facts.bettingEventId,
+        eliminatedCount: 1,
+        leagueId: elimination.leagueId,
+        poolId: elimination.poolId,
+        week: elimination.week,
+      },
+      id: `${JOB_EVENTS.poolEliminated}:${elimination.leagueId}:${elimination.poolId}:${facts.bettingEventId}`,
+      name: JOB_EVENTS.poolEliminated,
+    });
+  }
+  return [...byPool.values()];
+}
+
 export async function runBettingGradeGameFinal({
   data: rawData,
   deps,
@@ -477,6 +779,8 @@ export async function runBettingGradeGameFinal({
     leagueId: facts.leagueId,
     ok: true,
     picksGradedEvents: picksGradedEventsFor(facts),
+    poolEliminatedEvents: poolEliminatedEventsFor(facts),
+    settledBankrollSlips: facts.settledBankrollSlips,
     skippedReason: facts.skippedReason,
   };
 }
@@ -489,7 +793,7 @@ export function createBettingGradeGameFinalFunction(
   return inngest.createFunction(
     {
       description:
-        "Resolves a finished NFL event and grades the Pick 'em entries on it.",
+        "Resolves a finished NFL event and grades the Pick 'em and pool entries on it.",
       id: "betting-grade-game-final",
       idempotency: "event.data.leagueId + ':' + event.data.bettingEventId",
       name: "Betting game-final grading",
@@ -510,6 +814,13 @@ export function createBettingGradeGameFinalFunction(
         if (picksGradedEvents.length > 0) {
           await step.sendEvent("send-picks-graded-events", picksGradedEvents);
         }
+        const poolEliminatedEvents = poolEliminatedEventsFor(facts);
+        if (poolEliminatedEvents.length > 0) {
+          await step.sendEvent(
+            "send-pool-eliminated-events",
+            poolEliminatedEvents,
+          );
+        }
         if (effects.arenaRecapEvents.length > 0) {
           await step.sendEvent(
             "send-arena-swing-content-events",
@@ -524,6 +835,8 @@ export function createBettingGradeGameFinalFunction(
           leagueId: facts.leagueId,
           ok: true,
           picksGradedEvents,
+          poolEliminatedEvents,
+          settledBankrollSlips: facts.settledBankrollSlips,
           skippedReason: facts.skippedReason,
         };
       }),
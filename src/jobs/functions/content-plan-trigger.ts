@@ -33,6 +33,12 @@ const leagueScopedDataSchema = z.object({
 });
 
 const triggerDataSchemas = {
+  [JOB_EVENTS.arenaDivisionMoved]: leagueScopedDataSchema.extend({
+    fromTier: z.number().int().min(1),
+    movement: z.enum(["promoted", "relegated"]),
+    seasonId: idValue,
+    toTier: z.number().int().min(1),
+  }),
   [JOB_EVENTS.arenaStandingsSwing]: leagueScopedDataSchema.extend({
     seasonId: idValue,
     swingKey: keyValue,
@@ -41,6 +47,12 @@ const triggerDataSchemas = {
     bettingEventId: idValue,
     correctPicks: z.number().int().min(0),
   }),
+  [JOB_EVENTS.poolEliminated]: leagueScopedDataSchema.extend({
+    bettingEventId: idValue,
+    eliminatedCount: z.number().int().min(1),
+    poolId: idValue,
+    week: z.number().int().min(0),
+  }),
   [JOB_EVENTS.loreCanonized]: leagueScopedDataSchema.extend({
     claimId: idValue,
     sourcePollId: idValue.optional(),
@@ -200,3 +212,15 @@ export const contentPlanArenaStandingsSwing = createContentPlanTriggerFunction({
   functionId: "content-plan-arena-standings-swing",
   name: "AI content arena standings swing planner",
 });
+
+export const contentPlanArenaDivisionMoved = createContentPlanTriggerFunction({
+  eventName: JOB_EVENTS.arenaDivisionMoved,
+  functionId: "content-plan-arena-division-moved",
+  name: "AI content arena division moved planner",
+});
+
+export const contentPlanPoolEliminated = createContentPlanTriggerFunction({
+  eventName: JOB_EVENTS.poolEliminated,
+  functionId: "content-plan-pool-eliminated",
+  name: "AI content pool-eliminated planner",
+});
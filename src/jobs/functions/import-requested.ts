@@ -6,6 +6,7 @@ import { recordJobRun } from "@/core/metrics";
 import { AppError, err, ok, type Result } from "@/core/result";
 import type { Db } from "@/db/client";
 import {
+  leagueHistorySources,
   leagues,
   members,
   onboardingDiscoveredLeagues,
@@ -34,6 +35,10 @@ import {
   createYahooOAuthClient,
 } from "@/onboarding/yahoo-service";
 import { createEspnDiscoveryProvider } from "@/providers/espn/client";
+import {
+  createFileProvider,
+  fileCredentialsSchema,
+} from "@/providers/file/client";
 import type {
   FantasyProvider,
   FantasyProviderId,
@@ -62,7 +67,7 @@ type ImportRequestedProvider = Pick<
 >;
 type ImportableProviderId = Extract<
   FantasyProviderId,
-  "espn" | "sleeper" | "yahoo"
+  "espn" | "file" | "sleeper" | "yahoo"
 >;
 type ImportRequestedProviderRegistry = Partial<
   Record<ImportableProviderId, unknown>
@@ -111,6 +116,7 @@ const storedEspnCredentialsSchema = z.object({
 
 const storedCredentialSchemas = {
   espn: storedEspnCredentialsSchema,
+  file: fileCredentialsSchema,
   sleeper: storedSleeperCredentialsSchema,
   yahoo: yahooCredentialsSchema,
 } satisfies Record<ImportableProviderId, z.ZodType<unknown>>;
@@ -124,7 +130,7 @@ interface AuthenticatedProviderSession {
 const importRequestedDataSchema = z.object({
   credentialId: z.uuid(),
   leagueId: z.uuid(),
-  provider: z.enum(["espn", "sleeper", "yahoo"]),
+  provider: z.enum(["espn", "file", "sleeper", "yahoo"]),
   providerLeagueId: z.string().trim().min(1),
   season: z.number().int().min(2000).max(2100),
   sport: z.enum(["ffl", "unknown"]),
@@ -134,7 +140,7 @@ const importRequestedDataSchema = z.object({
   seasons: z
     .array(z.number().int().min(2000).max(2100))
     .min(1)
-    .max(10)
+    .max(25)
     .optional(),
   maxSeasons: z.number().int().min(1).max(25).optional(),
   shadowAttempt: z.number().int().positive().optional(),
@@ -208,6 +214,46 @@ function resolveProvider(
   return provider as ImportRequestedProvider;
 }
 
+/**
+ * The league an import writes into: the provider league's own root, or the
+ * canonical league it was linked to as a history source.
+ */
+async function loadImportTargetLeague({
+  data,
+  deps,
+}: {
+  data: ImportRequestedData;
+  deps: ImportRequestedDependencies;
+}): Promise<{ id: string } | undefined> {
+  const [league] = await deps.db
+    .select({ id: leagues.id })
+    .from(leagues)
+    .where(
+      and(
+        eq(leagues.id, data.leagueId),
+        eq(leagues.provider, data.provider),
+        eq(leagues.providerLeagueId, data.providerLeagueId),
+      ),
+    )
+    .limit(1);
+  if (league) {
+    return league;
+  }
+
+  const [source] = await deps.db
+    .select({ id: leagueHistorySources.leagueId })
+    .from(leagueHistorySources)
+    .where(
+      and(
+        eq(leagueHistorySources.leagueId, data.leagueId),
+        eq(leagueHistorySources.provider, data.provider),
+        eq(leagueHistorySources.providerLeagueId, data.providerLeagueId),
+      ),
+    )
+    .limit(1);
+  return source;
+}
+
 async function loadImportAuthorization({
   data,
   deps,
@@ -230,17 +276,7 @@ async function loadImportAuthorization({
     )
     .limit(1);
 
-  const [league] = await deps.db
-    .select({ id: leagues.id })
-    .from(leagues)
-    .where(
-      and(
-        eq(leagues.id, data.leagueId),
-        eq(leagues.provider, data.provider),
-        eq(leagues.providerLeagueId, data.providerLeagueId),
-      ),
-    )
-    .limit(1);
+  const league = await loadImportTargetLeague({ data, deps });
 
   if (!credential || !league) {
     throw toNonRetriable(
@@ -360,6 +396,7 @@ function isYahooProvider(provider: ImportableProviderId): boolean {
     case "yahoo":
       return true;
     case "espn":
+    case "file":
     case "sleeper":
       return false;
   }
@@ -451,6 +488,7 @@ async function getDefaultImportRequestedDependencies(): Promise<ImportRequestedD
       espn: browserbase.mock
         ? createFixtureEspnProvider()
         : createEspnDiscoveryProvider(),
+      file: createFileProvider(),
       sleeper: createSleeperProvider(),
       yahoo: env.auth.yahoo.mock
         ? createFixtureYahooProvider()
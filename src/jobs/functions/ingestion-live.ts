@@ -61,12 +61,15 @@ import {
   createYahooProvider,
   yahooCredentialsSchema,
 } from "@/providers/yahoo/client";
+import { createPushNotifier, type PushNotifier } from "@/push";
 import { createRealtimePublisher, type RealtimePublisher } from "@/realtime";
 import {
   defaultNflCalendar,
   type NflCalendar,
   type NflWeekState,
 } from "@/sports/nfl-calendar";
+import type { WebhookDeliverer } from "@/webhooks";
+import { createWebhookDeliverer } from "@/webhooks/dependencies";
 import { inngest } from "../client";
 import {
   type ContentCorrectionNeededData,
@@ -180,8 +183,10 @@ export interface LeagueIngestDependencies {
   db: Db;
   now?: () => Date;
   providers: LeagueIngestProviderRegistry;
+  push?: PushNotifier;
   realtime?: RealtimePublisher;
   syncCurrent?: SyncCurrentLeagueFn;
+  webhooks?: WebhookDeliverer;
   yahooOAuthClient?: YahooCredentialRefresher;
 }
 
@@ -760,7 +765,7 @@ async function listLeagueCredentialTargets({
     return [];
   }
 
-  return db
+  const rows = await db
     .select({
       credentialId: providerCredentials.id,
       credentialInvalidAt: providerCredentials.invalidAt,
@@ -803,6 +808,9 @@ async function listLeagueCredentialTargets({
       asc(providerCredentials.provider),
       asc(providerCredentials.id),
     );
+  return rows.flatMap(({ provider, ...row }) =>
+    isIngestableProvider(provider) ? [{ ...row, provider }] : [],
+  );
 }
 
 interface RolloverCredentialTargetRow {
@@ -1460,15 +1468,19 @@ async function getDefaultLeagueIngestDependencies(): Promise<LeagueIngestDepende
   ]);
   const env = getEnv();
 
+  const db = getDb();
+
   return {
     cipher: createCredentialCipher(env.credentials.encryptionKey),
-    db: getDb(),
+    db,
     providers: {
       espn: createEspnDiscoveryProvider(),
       sleeper: createSleeperProvider(),
       yahoo: createYahooProvider(),
     },
+    push: createPushNotifier(db, env),
     realtime: createRealtimePublisher(env),
+    webhooks: createWebhookDeliverer(db, env),
     yahooOAuthClient: createYahooOAuthClientForEnv(env),
   };
 }
@@ -1625,9 +1637,11 @@ export async function runLeagueIngest({
     leagueId: data.leagueId,
     now: deps.now,
     provider,
+    push: deps.push,
     realtime: deps.realtime,
     ref: toProviderRef(data),
     session: auth.value.session,
+    webhooks: deps.webhooks,
   });
   if (
     !sync.ok &&
@@ -1655,9 +1669,11 @@ export async function runLeagueIngest({
           leagueId: data.leagueId,
           now: deps.now,
           provider,
+          push: deps.push,
           realtime: deps.realtime,
           ref: toProviderRef(data),
           session: auth.value.session,
+          webhooks: deps.webhooks,
         });
       } else {
         sync = err(retryAuth.error);
@@ -0,0 +1,100 @@
+import { NonRetriableError } from "inngest";
+import { z } from "zod";
+import { completeLeagueArchive } from "@/archive";
+import { recordJobRun } from "@/core/metrics";
+import { AppError } from "@/core/result";
+import type { Db } from "@/db/client";
+import { inngest } from "../client";
+import { JOB_EVENTS, type LeagueArchiveRequestedData } from "../events";
+
+/**
+ * Builds a commissioner-requested league archive. The build reads every
+ * history table in the league, so it runs here rather than in the request;
+ * the archive page picks up the finished row on its next load.
+ */
+
+export interface LeagueArchiveExportDependencies {
+  db: Db;
+  now?: () => Date;
+}
+
+export interface LeagueArchiveExportResponse {
+  archiveId: string;
+  byteSize: number;
+  ok: true;
+  status: "queued" | "ready" | "failed";
+}
+
+const leagueArchiveRequestedDataSchema = z.object({
+  archiveId: z.uuid(),
+  leagueId: z.uuid(),
+});
+
+function parseLeagueArchiveRequestedData(
+  data: unknown,
+): LeagueArchiveRequestedData {
+  const parsed = leagueArchiveRequestedDataSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new NonRetriableError("League archive request payload is invalid", {
+      cause: new AppError({
+        cause: parsed.error,
+        code: "LEAGUE_ARCHIVE_REQUEST_INVALID",
+        message: "League archive request payload is invalid",
+        status: 400,
+      }),
+    });
+  }
+  return parsed.data;
+}
+
+async function getDefaultDependencies(): Promise<LeagueArchiveExportDependencies> {
+  const { getDb } = await import("@/db");
+  return { db: getDb() };
+}
+
+export async function runLeagueArchiveExport({
+  data: rawData,
+  deps,
+}: {
+  data: unknown;
+  deps: LeagueArchiveExportDependencies;
+}): Promise<LeagueArchiveExportResponse> {
+  const data = parseLeagueArchiveRequestedData(rawData);
+  const result = await completeLeagueArchive(deps.db, {
+    archiveId: data.archiveId,
+    leagueId: data.leagueId,
+    now: deps.now?.() ?? new Date(),
+  });
+  return { archiveId: data.archiveId, ok: true, ...result };
+}
+
+/** Inline path for mock job mode, where nothing would consume the event. */
+export async function runLeagueArchiveExportWithDefaultDependencies(
+  data: LeagueArchiveRequestedData,
+): Promise<LeagueArchiveExportResponse> {
+  return runLeagueArchiveExport({ data, deps: await getDefaultDependencies() });
+}
+
+export function createLeagueArchiveExportFunction(
+  resolveDeps: () =>
+    | LeagueArchiveExportDependencies
+    | Promise<LeagueArchiveExportDependencies> = getDefaultDependencies,
+) {
+  return inngest.createFunction(
+    {
+      description: "Builds a league archive a commissioner asked for.",
+      id: "league-archive-export",
+      name: "League archive export",
+      triggers: [{ event: JOB_EVENTS.leagueArchiveRequested }],
+    },
+    async ({ event, step }): Promise<LeagueArchiveExportResponse> =>
+      recordJobRun("league-archive-export", async () => {
+        const deps = await resolveDeps();
+        return step.run("build-league-archive", () =>
+          runLeagueArchiveExport({ data: event.data, deps }),
+        );
+      }),
+  );
+}
+
+export const leagueArchiveExport = createLeagueArchiveExportFunction();
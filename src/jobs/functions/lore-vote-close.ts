@@ -44,12 +44,14 @@ async function getDefaultLoreVoteCloseDependencies(): Promise<LoreVoteCloseDepen
   const { getDb } = await import("@/db");
   const { createPushNotifier } = await import("@/push");
   const { createRealtimePublisher } = await import("@/realtime");
+  const { createWebhookDeliverer } = await import("@/webhooks/dependencies");
   const env = getEnv();
   const db = getDb();
   return {
     db,
     push: createPushNotifier(db, env),
     realtime: createRealtimePublisher(env),
+    webhooks: createWebhookDeliverer(db, env),
   };
 }
 
@@ -150,6 +150,12 @@ function parseTickData(data: unknown): PayloadDriftCanaryData & {
   };
 }
 
+function isCanaryProvider(
+  provider: FantasyProviderId,
+): provider is CanaryProviderId {
+  return provider === "espn" || provider === "sleeper" || provider === "yahoo";
+}
+
 function parseLeagueData(data: unknown): PayloadDriftCanaryLeagueData {
   const parsed = payloadDriftCanaryLeagueDataSchema.safeParse(data);
   if (!parsed.success) {
@@ -219,11 +225,11 @@ export async function listPayloadDriftCanaryTargets({
     .limit(Math.min(MAX_CANARY_LIMIT * 4, limit * 4));
 
   const targets = new Map<string, PayloadDriftCanaryTarget>();
-  for (const row of rows) {
-    if (targets.has(row.leagueId)) {
+  for (const { provider, ...row } of rows) {
+    if (!isCanaryProvider(provider) || targets.has(row.leagueId)) {
       continue;
     }
-    targets.set(row.leagueId, row);
+    targets.set(row.leagueId, { ...row, provider });
     if (targets.size >= limit) {
       break;
     }
@@ -1,4 +1,5 @@
 import { appPing } from "./functions/app-ping";
+import { arenaDivisionRollover } from "./functions/arena-division-rollover";
 import { bettingEventPoll } from "./functions/betting-event-poll";
 import { bettingGradeGameFinal } from "./functions/betting-grade-game-final";
 import { centralContentGenerate } from "./functions/central-content-generate";
@@ -15,10 +16,12 @@ import {
 import { contentPlanGameFinal } from "./functions/content-plan-game-final";
 import { contentPlanLaunchEdition } from "./functions/content-plan-launch-edition";
 import {
+  contentPlanArenaDivisionMoved,
   contentPlanArenaStandingsSwing,
   contentPlanLoreCanonized,
   contentPlanPicksGraded,
   contentPlanPollClosed,
+  contentPlanPoolEliminated,
   contentPlanRecordBroken,
   contentPlanTransaction,
   contentPlanWaiver,
@@ -30,6 +33,7 @@ import {
   seasonRolloverCheck,
 } from "./functions/ingestion-live";
 import { instigationSeed } from "./functions/instigation-seed";
+import { leagueArchiveExport } from "./functions/league-archive-export";
 import { loreVoteClose } from "./functions/lore-vote-close";
 import { newsRefresh } from "./functions/news-refresh";
 import { oddsPoll } from "./functions/odds-poll";
@@ -43,6 +47,7 @@ import { weeklyDigest } from "./functions/weekly-digest";
 export { inngest } from "./client";
 export { JOB_EVENTS } from "./events";
 export { appPing } from "./functions/app-ping";
+export { arenaDivisionRollover } from "./functions/arena-division-rollover";
 export { bettingEventPoll } from "./functions/betting-event-poll";
 export { bettingGradeGameFinal } from "./functions/betting-grade-game-final";
 export { centralContentGenerate } from "./functions/central-content-generate";
@@ -59,10 +64,12 @@ export {
 export { contentPlanGameFinal } from "./functions/content-plan-game-final";
 export { contentPlanLaunchEdition } from "./functions/content-plan-launch-edition";
 export {
+  contentPlanArenaDivisionMoved,
   contentPlanArenaStandingsSwing,
   contentPlanLoreCanonized,
   contentPlanPicksGraded,
   contentPlanPollClosed,
+  contentPlanPoolEliminated,
   contentPlanRecordBroken,
   contentPlanTransaction,
   contentPlanWaiver,
@@ -74,6 +81,7 @@ export {
   seasonRolloverCheck,
 } from "./functions/ingestion-live";
 export { instigationSeed } from "./functions/instigation-seed";
+export { leagueArchiveExport } from "./functions/league-archive-export";
 export { loreVoteClose } from "./functions/lore-vote-close";
 export { newsRefresh } from "./functions/news-refresh";
 export { oddsPoll } from "./functions/odds-poll";
@@ -112,11 +120,15 @@ export const functions = [
   contentPlanPollClosed,
   contentPlanPicksGraded,
   contentPlanArenaStandingsSwing,
+  contentPlanArenaDivisionMoved,
+  contentPlanPoolEliminated,
   instigationSeed,
   pollClose,
   loreVoteClose,
   bettingEventPoll,
   bettingGradeGameFinal,
+  arenaDivisionRollover,
+  leagueArchiveExport,
   newsRefresh,
   oddsPoll,
   payloadDriftCanary,
@@ -1370,6 +1370,7 @@ describe("live ingestion jobs", () => {
             {
               allTimeRecordId,
               holderPersonId,
+              label: "Highest weekly score",
               previousRecordId,
               recordKey,
               recordType: "highest_single_week_score",
@@ -0,0 +1,215 @@
+// @vitest-environment node
+import { randomUUID } from "node:crypto";
+import { eq, sql } from "drizzle-orm";
+import { NonRetriableError } from "inngest";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  LEAGUE_ARCHIVE_VERSION,
+  loadLeagueArchiveDocument,
+  parseLeagueArchive,
+  restoreLeagueArchive,
+} from "@/archive";
+import { parseEnv } from "@/core/env/schema";
+import { createDb, type DbHandle } from "@/db/client";
+import { withLeagueContext } from "@/db/rls";
+import {
+  fantasyMatchups,
+  fantasyMembers,
+  fantasyTeams,
+  type League,
+  leagueArchives,
+  leagues,
+} from "@/db/schema";
+import { migrateSerialized } from "@/db/test-support";
+import { parseFileImportBundle } from "@/providers/file/bundle";
+import { JOB_EVENTS } from "./events";
+import {
+  leagueArchiveExport,
+  runLeagueArchiveExport,
+} from "./functions/league-archive-export";
+import { functions } from "./index";
+
+const marker = `archive-${randomUUID()}`;
+const now = new Date("2026-10-01T12:00:00.000Z");
+
+let handle: DbHandle;
+let league: League;
+let freshLeague: League;
+
+beforeAll(async () => {
+  handle = createDb(parseEnv(process.env).databaseUrl);
+  await handle.pool.query("select 1");
+  await migrateSerialized(handle);
+
+  [league, freshLeague] = (await handle.db
+    .insert(leagues)
+    .values([
+      {
+        name: "Archive League",
+        provider: "espn" as const,
+        providerLeagueId: `${marker}-1`,
+      },
+      {
+        name: "Fresh League",
+        provider: "espn" as const,
+        providerLeagueId: `${marker}-2`,
+      },
+    ])
+    .returning()) as [League, League];
+
+  const leagueProviderId = `${marker}-1`;
+  await withLeagueContext(handle.db, league.id, async (tx) => {
+    await tx.insert(fantasyMembers).values(
+      ["u1", "u2"].map((memberId) => ({
+        contentHash: memberId,
+        displayName: memberId === "u1" ? "Sam" : "Alex",
+        leagueId: league.id,
+        leagueProviderId,
+        provider: "espn" as const,
+        providerMemberId: memberId,
+        season: 2025,
+      })),
+    );
+    await tx.insert(fantasyTeams).values(
+      [
+        { name: "Aces", owner: "u1", teamId: "t1" },
+        { name: "Bruisers", owner: "u2", teamId: "t2" },
+      ].map((team) => ({
+        contentHash: team.teamId,
+        leagueId: league.id,
+        leagueProviderId,
+        name: team.name,
+        ownerMemberIds: [team.owner],
+        provider: "espn" as const,
+        providerTeamId: team.teamId,
+        season: 2025,
+      })),
+    );
+    await tx.insert(fantasyMatchups).values([
+      {
+        awayScore: 98.5,
+        awayTeamProviderId: "t2",
+        contentHash: "m1",
+        homeScore: 110.25,
+        homeTeamProviderId: "t1",
+        leagueId: league.id,
+        leagueProviderId,
+        provider: "espn" as const,
+        providerMatchupId: "m1",
+        scoringPeriod: 1,
+        season: 2025,
+        status: "final" as const,
+        winner: "home" as const,
+      },
+      {
+        awayTeamProviderId: "t1",
+        contentHash: "m2",
+        homeTeamProviderId: "t2",
+        leagueId: league.id,
+        leagueProviderId,
+        provider: "espn" as const,
+        providerMatchupId: "m2",
+        scoringPeriod: 2,
+        season: 2025,
+      },
+    ]);
+  });
+}, 90_000);
+
+afterAll(async () => {
+  if (!handle) return;
+  await handle.db
+    .delete(leagues)
+    .where(sql`${leagues.providerLeagueId} like ${`${marker}%`}`);
+  await handle.pool.end();
+});
+
+async function queueArchive(leagueId: string): Promise<string> {
+  const [row] = await withLeagueContext(handle.db, leagueId, (tx) =>
+    tx
+      .insert(leagueArchives)
+      .values({ formatVersion: LEAGUE_ARCHIVE_VERSION, leagueId })
+      .returning({ id: leagueArchives.id }),
+  );
+  if (!row) {
+    throw new Error("archive row was not created");
+  }
+  return row.id;
+}
+
+describe("league archive export", () => {
+  it("is registered for the archive request event", () => {
+    expect(functions).toContain(leagueArchiveExport);
+    expect(JOB_EVENTS.leagueArchiveRequested).toBe("league.archive.requested");
+  });
+
+  it("builds a queued archive whose history the file import accepts", async () => {
+    const archiveId = await queueArchive(league.id);
+
+    const result = await runLeagueArchiveExport({
+      data: { archiveId, leagueId: league.id },
+      deps: { db: handle.db, now: () => now },
+    });
+
+    expect(result).toMatchObject({ archiveId, ok: true, status: "ready" });
+    expect(result.byteSize).toBeGreaterThan(0);
+    const document = await loadLeagueArchiveDocument(handle.db, {
+      archiveId,
+      leagueId: league.id,
+    });
+    expect(document).not.toBeNull();
+    const parsed = parseLeagueArchive(document?.archive);
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.archive.exportedAt).toBe(now.toISOString());
+    expect(parsed.archive.history.sections.matchups).toHaveLength(1);
+    expect(parsed.archive.omitted).toEqual({ unfinishedMatchups: 1 });
+    expect(parseFileImportBundle(parsed.archive.history).ok).toBe(true);
+
+    // A redelivered event finds the row finished and leaves it alone.
+    const again = await runLeagueArchiveExport({
+      data: { archiveId, leagueId: league.id },
+      deps: { db: handle.db, now: () => now },
+    });
+    expect(again).toMatchObject({ byteSize: 0, status: "ready" });
+    const [row] = await withLeagueContext(handle.db, league.id, (tx) =>
+      tx
+        .select({ completedAt: leagueArchives.completedAt })
+        .from(leagueArchives)
+        .where(eq(leagueArchives.id, archiveId)),
+    );
+    expect(row?.completedAt?.toISOString()).toBe(now.toISOString());
+  });
+
+  it("refuses to restore onto a league whose history was never imported", async () => {
+    const archiveId = await queueArchive(league.id);
+    await runLeagueArchiveExport({
+      data: { archiveId, leagueId: league.id },
+      deps: { db: handle.db, now: () => now },
+    });
+    const document = await loadLeagueArchiveDocument(handle.db, {
+      archiveId,
+      leagueId: league.id,
+    });
+    if (!document) throw new Error("archive was not built");
+
+    const restored = await restoreLeagueArchive(handle.db, {
+      actorUserId: randomUUID(),
+      archive: document.archive,
+      leagueId: freshLeague.id,
+    });
+
+    expect(restored.ok).toBe(false);
+    if (restored.ok) return;
+    expect(restored.error.code).toBe("ARCHIVE_HISTORY_MISMATCH");
+  });
+
+  it("drops a malformed event without retrying it", async () => {
+    await expect(
+      runLeagueArchiveExport({
+        data: { archiveId: "not-a-uuid", leagueId: league.id },
+        deps: { db: handle.db },
+      }),
+    ).rejects.toBeInstanceOf(NonRetriableError);
+  });
+});
@@ -0,0 +1,59 @@
+import type { KeeperCandidate, KeeperRules } from "@/stats";
+
+export type { KeeperCandidate, KeeperRules } from "@/stats";
+
+export type KeeperBoardStatus = "closed" | "locked" | "open";
+
+export interface KeeperDeclarationRow {
+  costRound: number | null;
+  declaredAt: string;
+  playerName: string;
+  position: string | null;
+  providerPlayerId: string;
+}
+
+export interface KeeperBoardTeam {
+  candidates: KeeperCandidate[];
+  declarations: KeeperDeclarationRow[];
+  isYours: boolean;
+  name: string;
+  providerTeamId: string;
+}
+
+export interface KeeperBoardData {
+  apiUrl: string;
+  board: {
+    deadlineAt: string | null;
+    lockedAt: string | null;
+    /** The season keepers are declared for. */
+    season: number;
+    status: KeeperBoardStatus;
+  };
+  canManage: boolean;
+  /** The season whose final rosters the projections start from. */
+  fromSeason: number;
+  league: {
+    id: string;
+    name: string;
+  };
+  rules: KeeperRules;
+  teams: KeeperBoardTeam[];
+}
+
+export type KeeperBoardResult =
+  | { data: KeeperBoardData; status: "ready" }
+  | { league: { id: string; name: string }; status: "no_rosters" }
+  | { status: "not_found" };
+
+export interface KeeperDeclarationMutationResult {
+  costRound: number | null;
+  providerPlayerId: string;
+  providerTeamId: string;
+  status: "declared" | "released" | "unchanged";
+}
+
+export const KEEPER_BOARD_STATUS_LABELS: Record<KeeperBoardStatus, string> = {
+  closed: "Deadline passed",
+  locked: "Locked by the commissioner",
+  open: "Open",
+};
@@ -0,0 +1,522 @@
+import { and, asc, count, eq } from "drizzle-orm";
+import type { LeagueRole } from "@/auth/guards";
+import { hasLeaguePermission } from "@/auth/permissions";
+import { AppError } from "@/core/result";
+import type { Db } from "@/db/client";
+import { type LeagueScopedTx, withLeagueContext } from "@/db/rls";
+import {
+  fantasyTeams,
+  type KeeperRulesOverride,
+  keeperBoards,
+  keeperDeclarations,
+  leagueMemberIdentityClaims,
+  leagues,
+} from "@/db/schema";
+import { type KeeperValueResult, loadKeeperValue } from "@/stats";
+import type {
+  KeeperBoardResult,
+  KeeperBoardStatus,
+  KeeperDeclarationMutationResult,
+} from "./keeper-board-types";
+
+// Keeper board. Projections come from `loadKeeperValue`, which reads the
+// latest season with rosters; the board itself belongs to the season after
+// it, so in-season the board is next year's and after the provider rolls the
+// league over (before any new rosters exist) it is the new season's.
+
+type KeeperBoardRow = typeof keeperBoards.$inferSelect;
+
+export interface KeeperDeclarationInput {
+  action: "declare" | "release";
+  actorRole: LeagueRole;
+  actorUserId: string;
+  leagueId: string;
+  now?: Date;
+  providerPlayerId: string;
+  /** Commissioners may act for any team; everyone else acts for their own. */
+  providerTeamId?: string;
+}
+
+export interface KeeperBoardUpdateInput {
+  actorUserId: string;
+  deadlineAt?: Date | null;
+  leagueId: string;
+  locked?: boolean;
+  now?: Date;
+  rules?: KeeperRulesOverride;
+}
+
+function appError(code: string, message: string, status: number): AppError {
+  return new AppError({ code, message, status });
+}
+
+function boardStatus(
+  board: KeeperBoardRow | null,
+  now: Date,
+): KeeperBoardStatus {
+  if (board?.lockedAt) {
+    return "locked";
+  }
+  return board?.deadlineAt && board.deadlineAt <= now ? "closed" : "open";
+}
+
+async function loadLeague(tx: LeagueScopedTx, leagueId: string) {
+  const [league] = await tx
+    .select({ id: leagues.id, name: leagues.name, season: leagues.season })
+    .from(leagues)
+    .where(eq(leagues.id, leagueId))
+    .limit(1);
+  return league ?? null;
+}
+
+async function loadBoard(
+  tx: LeagueScopedTx,
+  input: { forUpdate?: boolean; leagueId: string; season: number },
+): Promise<KeeperBoardRow | null> {
+  const query = tx
+    .select()
+    .from(keeperBoards)
+    .where(
+      and(
+        eq(keeperBoards.leagueId, input.leagueId),
+        eq(keeperBoards.season, input.season),
+      ),
+    )
+    .limit(1);
+  const [board] = input.forUpdate ? await query.for("update") : await query;
+  return board ?? null;
+}
+
+async function ensureBoard(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; season: number },
+): Promise<KeeperBoardRow> {
+  await tx
+    .insert(keeperBoards)
+    .values({ leagueId: input.leagueId, season: input.season })
+    .onConflictDoNothing({
+      target: [keeperBoards.leagueId, keeperBoards.season],
+    });
+  const board = await loadBoard(tx, { ...input, forUpdate: true });
+  if (!board) {
+    throw appError(
+      "KEEPER_BOARD_UNAVAILABLE",
+      "Keeper board could not be opened",
+      500,
+    );
+  }
+  return board;
+}
+
+/** Projections plus the board they feed, or null before any rosters exist. */
+async function loadProjection(
+  tx: LeagueScopedTx,
+  input: { forUpdate?: boolean; leagueId: string; throughSeason: number },
+): Promise<{
+  board: KeeperBoardRow | null;
+  value: KeeperValueResult;
+} | null> {
+  const probe = await loadKeeperValue(tx, {
+    leagueId: input.leagueId,
+    throughSeason: input.throughSeason,
+  });
+  if (!probe) {
+    return null;
+  }
+  const board = await loadBoard(tx, {
+    forUpdate: input.forUpdate,
+    leagueId: input.leagueId,
+    season: probe.season + 1,
+  });
+  if (!board || Object.keys(board.rules).length === 0) {
+    return { board, value: probe };
+  }
+  const value = await loadKeeperValue(tx, {
+    leagueId: input.leagueId,
+    rulesOverride: board.rules,
+    throughSeason: input.throughSeason,
+  });
+  return value ? { board, value } : null;
+}
+
+async function loadTeams(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; season: number },
+) {
+  return tx
+    .select({
+      name: fantasyTeams.name,
+      ownerMemberIds: fantasyTeams.ownerMemberIds,
+      providerTeamId: fantasyTeams.providerTeamId,
+    })
+    .from(fantasyTeams)
+    .where(
+      and(
+        eq(fantasyTeams.leagueId, input.leagueId),
+        eq(fantasyTeams.season, input.season),
+      ),
+    )
+    .orderBy(asc(fantasyTeams.providerTeamId));
+}
+
+async function claimedTeamId(
+  tx: LeagueScopedTx,
+  input: {
+    leagueId: string;
+    teams: readonly { ownerMemberIds: string[]; providerTeamId: string }[];
+    userId: string;
+  },
+): Promise<string | null> {
+  const claims = await tx
+    .select({
+      providerMemberId: leagueMemberIdentityClaims.providerMemberId,
+      providerTeamIds: leagueMemberIdentityClaims.providerTeamIds,
+    })
+    .from(leagueMemberIdentityClaims)
+    .where(
+      and(
+        eq(leagueMemberIdentityClaims.leagueId, input.leagueId),
+        eq(leagueMemberIdentityClaims.userId, input.userId),
+      ),
+    );
+  const claimedTeamIds = new Set(
+    claims.flatMap((claim) => claim.providerTeamIds),
+  );
+  const claimedMemberIds = new Set(
+    claims.map((claim) => claim.providerMemberId),
+  );
+  const team =
+    input.teams.find((row) => claimedTeamIds.has(row.providerTeamId)) ??
+    input.teams.find((row) =>
+      row.ownerMemberIds.some((memberId) => claimedMemberIds.has(memberId)),
+    );
+  return team?.providerTeamId ?? null;
+}
+
+export async function getKeeperBoard(
+  db: Db,
+  input: {
+    leagueId: string;
+    now?: Date;
+    userId: string;
+    userRole: LeagueRole;
+  },
+): Promise<KeeperBoardResult> {
+  const now = input.now ?? new Date();
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const league = await loadLeague(tx, input.leagueId);
+    if (!league) {
+      return { status: "not_found" };
+    }
+    const projection = await loadProjection(tx, {
+      leagueId: input.leagueId,
+      throughSeason: league.season,
+    });
+    if (!projection) {
+      return {
+        league: { id: league.id, name: league.name },
+        status: "no_rosters",
+      };
+    }
+
+    const { board, value } = projection;
+    const teams = await loadTeams(tx, {
+      leagueId: input.leagueId,
+      season: value.season,
+    });
+    const yourTeamId = await claimedTeamId(tx, {
+      leagueId: input.leagueId,
+      teams,
+      userId: input.userId,
+    });
+    const declarations = board
+      ? await tx
+          .select({
+            costRound: keeperDeclarations.costRound,
+            createdAt: keeperDeclarations.createdAt,
+            providerPlayerId: keeperDeclarations.providerPlayerId,
+            providerTeamId: keeperDeclarations.providerTeamId,
+          })
+          .from(keeperDeclarations)
+          .where(eq(keeperDeclarations.keeperBoardId, board.id))
+          .orderBy(asc(keeperDeclarations.createdAt))
+      : [];
+    const candidateByPlayer = new Map(
+      value.candidates.map((candidate) => [
+        candidate.providerPlayerId,
+        candidate,
+      ]),
+    );
+
+    return {
+      data: {
+        apiUrl: `/api/leagues/${league.id}/keepers`,
+        board: {
+          deadlineAt: board?.deadlineAt?.toISOString() ?? null,
+          lockedAt: board?.lockedAt?.toISOString() ?? null,
+          season: value.season + 1,
+          status: boardStatus(board, now),
+        },
+        canManage: hasLeaguePermission(input.userRole, "league:manage"),
+        fromSeason: value.season,
+        league: { id: league.id, name: league.name },
+        rules: value.rules,
+        teams: teams
+          .map((team) => ({
+            candidates: value.candidates.filter(
+              (candidate) => candidate.providerTeamId === team.providerTeamId,
+            ),
+            declarations: declarations
+              .filter((row) => row.providerTeamId === team.providerTeamId)
+              .map((row) => {
+                const candidate = candidateByPlayer.get(row.providerPlayerId);
+                return {
+                  costRound: row.costRound,
+                  declaredAt: row.createdAt.toISOString(),
+                  playerName:
+                    candidate?.playerName ?? `Player ${row.providerPlayerId}`,
+                  position: candidate?.position ?? null,
+                  providerPlayerId: row.providerPlayerId,
+                };
+              }),
+            isYours: team.providerTeamId === yourTeamId,
+            name: team.name,
+            providerTeamId: team.providerTeamId,
+          }))
+          // Your team first, then provider order.
+          .sort((left, right) => Number(right.isYours) - Number(left.isYours)),
+      },
+      status: "ready",
+    };
+  });
+}
+
+/**
+ * Declares or releases one keeper. The board row is locked for the length of
+ * the transaction so two declarations cannot both squeeze under the limit.
+ */
+export async function setKeeperDeclaration(
+  db: Db,
+  input: KeeperDeclarationInput,
+): Promise<KeeperDeclarationMutationResult> {
+  const now = input.now ?? new Date();
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const league = await loadLeague(tx, input.leagueId);
+    if (!league) {
+      throw appError("KEEPER_LEAGUE_NOT_FOUND", "League was not found", 404);
+    }
+    const probe = await loadProjection(tx, {
+      leagueId: input.leagueId,
+      throughSeason: league.season,
+    });
+    if (!probe) {
+      throw appError(
+        "KEEPER_BOARD_NO_ROSTERS",
+        "Keepers open once rosters have been imported",
+        409,
+      );
+    }
+    const board = await ensureBoard(tx, {
+      leagueId: input.leagueId,
+      season: probe.value.season + 1,
+    });
+    const status = boardStatus(board, now);
+    if (status !== "open") {
+      throw appError(
+        status === "locked" ? "KEEPER_BOARD_LOCKED" : "KEEPER_DEADLINE_PASSED",
+        status === "locked"
+          ? "The commissioner has locked the keeper board"
+          : "The keeper deadline has passed",
+        409,
+      );
+    }
+
+    const teams = await loadTeams(tx, {
+      leagueId: input.leagueId,
+      season: probe.value.season,
+    });
+    const providerTeamId =
+      hasLeaguePermission(input.actorRole, "league:manage") &&
+      input.providerTeamId
+        ? input.providerTeamId
+        : await claimedTeamId(tx, {
+            leagueId: input.leagueId,
+            teams,
+            userId: input.actorUserId,
+          });
+    if (!providerTeamId) {
+      throw appError(
+        "KEEPER_TEAM_NOT_CLAIMED",
+        "Claim your team before declaring keepers",
+        403,
+      );
+    }
+    if (input.providerTeamId && input.providerTeamId !== providerTeamId) {
+      throw appError(
+        "KEEPER_TEAM_FORBIDDEN",
+        "Only a commissioner or co-commissioner can declare keepers for another team",
+        403,
+      );
+    }
+
+    const [existing] = await tx
+      .select({
+        costRound: keeperDeclarations.costRound,
+        id: keeperDeclarations.id,
+        providerTeamId: keeperDeclarations.providerTeamId,
+      })
+      .from(keeperDeclarations)
+      .where(
+        and(
+          eq(keeperDeclarations.keeperBoardId, board.id),
+          eq(keeperDeclarations.providerPlayerId, input.providerPlayerId),
+        ),
+      )
+      .limit(1);
+
+    if (input.action === "release") {
+      if (!existing || existing.providerTeamId !== providerTeamId) {
+        return {
+          costRound: null,
+          providerPlayerId: input.providerPlayerId,
+          providerTeamId,
+          status: "unchanged",
+        };
+      }
+      await tx
+        .delete(keeperDeclarations)
+        .where(eq(keeperDeclarations.id, existing.id));
+      return {
+        costRound: existing.costRound,
+        providerPlayerId: input.providerPlayerId,
+        providerTeamId,
+        status: "released",
+      };
+    }
+
+    if (existing) {
+      return {
+        costRound: existing.costRound,
+        providerPlayerId: input.providerPlayerId,
+        providerTeamId: existing.providerTeamId,
+        status: "unchanged",
+      };
+    }
+    const candidate = probe.value.candidates.find(
+      (row) =>
+        row.providerPlayerId === input.providerPlayerId &&
+        row.providerTeamId === providerTeamId,
+    );
+    if (!candidate) {
+      throw appError(
+        "KEEPER_PLAYER_NOT_ROSTERED",
+        "Only players on the team's final roster can be kept",
+        404,
+      );
+    }
+    if (!candidate.eligible) {
+      throw appError(
+        "KEEPER_PLAYER_INELIGIBLE",
+        candidate.ineligibleReason ?? "Player is not keeper-eligible",
+        409,
+      );
+    }
+    const maxKeepers = probe.value.rules.maxKeepers;
+    if (maxKeepers !== null) {
+      const [declared] = await tx
+        .select({ total: count() })
+        .from(keeperDeclarations)
+        .where(
+          and(
+            eq(keeperDeclarations.keeperBoardId, board.id),
+            eq(keeperDeclarations.providerTeamId, providerTeamId),
+          ),
+        );
+      if ((declared?.total ?? 0) >= maxKeepers) {
+        throw appError(
+          "KEEPER_LIMIT_REACHED",
+          `Teams may keep at most ${maxKeepers} ${maxKeepers === 1 ? "player" : "players"}`,
+          409,
+        );
+      }
+    }
+
+    await tx.insert(keeperDeclarations).values({
+      costRound: candidate.projectedCostRound,
+      declaredByUserId: input.actorUserId,
+      keeperBoardId: board.id,
+      leagueId: input.leagueId,
+      providerPlayerId: input.providerPlayerId,
+      providerTeamId,
+    });
+    return {
+      costRound: candidate.projectedCostRound,
+      providerPlayerId: input.providerPlayerId,
+      providerTeamId,
+      status: "declared",
+    };
+  });
+}
+
+/** Commissioner controls: the deadline, the lock, and rule overrides. */
+export async function updateKeeperBoard(
+  db: Db,
+  input: KeeperBoardUpdateInput,
+): Promise<{
+  deadlineAt: string | null;
+  lockedAt: string | null;
+  season: number;
+}> {
+  const now = input.now ?? new Date();
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const league = await loadLeague(tx, input.leagueId);
+    if (!league) {
+      throw appError("KEEPER_LEAGUE_NOT_FOUND", "League was not found", 404);
+    }
+    const probe = await loadKeeperValue(tx, {
+      leagueId: input.leagueId,
+      throughSeason: league.season,
+    });
+    if (!probe) {
+      throw appError(
+        "KEEPER_BOARD_NO_ROSTERS",
+        "Keepers open once rosters have been imported",
+        409,
+      );
+    }
+    const board = await ensureBoard(tx, {
+      leagueId: input.leagueId,
+      season: probe.season + 1,
+    });
+    const [updated] = await tx
+      .update(keeperBoards)
+      .set({
+        ...(input.deadlineAt === undefined
+          ? {}
+          : { deadlineAt: input.deadlineAt }),
+        ...(input.locked === undefined
+          ? {}
+          : input.locked
+            ? {
+                lockedAt: board.lockedAt ?? now,
+                lockedByUserId: board.lockedByUserId ?? input.actorUserId,
+              }
+            : { lockedAt: null, lockedByUserId: null }),
+        ...(input.rules === undefined
+          ? {}
+          : { rules: { ...board.rules, ...input.rules } }),
+        updatedAt: now,
+      })
+      .where(eq(keeperBoards.id, board.id))
+      .returning({
+        deadlineAt: keeperBoards.deadlineAt,
+        lockedAt: keeperBoards.lockedAt,
+        season: keeperBoards.season,
+      });
+    return {
+      deadlineAt: updated?.deadlineAt?.toISOString() ?? null,
+      lockedAt: updated?.lockedAt?.toISOString() ?? null,
+      season: updated?.season ?? board.season,
+    };
+  });
+}
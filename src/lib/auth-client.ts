@@ -1,16 +1,26 @@
 "use client";
 
-import { organizationClient } from "better-auth/client/plugins";
+import { passkeyClient } from "@better-auth/passkey/client";
+import {
+  magicLinkClient,
+  organizationClient,
+} from "better-auth/client/plugins";
 import { createAuthClient } from "better-auth/react";
 import { ac, roles } from "@/auth/permissions";
 
 /**
  * Browser-side auth client (same-origin baseURL). The organization plugin is
  * configured with the same access-control roles as the server so
- * `checkRolePermission` agrees with server-side `hasPermission`.
+ * `checkRolePermission` agrees with server-side `hasPermission`; the
+ * magic-link and passkey plugins mirror the passwordless sign-in the server
+ * mounts.
  */
 export const authClient = createAuthClient({
-  plugins: [organizationClient({ ac, roles })],
+  plugins: [
+    organizationClient({ ac, roles }),
+    magicLinkClient(),
+    passkeyClient(),
+  ],
 });
 
 export const { signIn, signUp, signOut, useSession } = authClient;
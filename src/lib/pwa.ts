@@ -1,6 +1,14 @@
 // AUSPEX void background. Manifest and theme-color metadata require a hex color.
 export const PWA_BACKGROUND_HEX = "#08090f";
 
+/**
+ * Sent by the service worker (`public/sw.js`) when it fetches a page to keep
+ * for offline reading. Pages that stamp the league as last opened skip the
+ * stamp for these requests: saving a league is not the member opening it,
+ * and the switcher orders leagues by that stamp.
+ */
+export const PWA_PRECACHE_HEADER = "x-rumbledore-precache";
+
 /**
  * Literal colors for `src/app/global-error.tsx`.
  *
@@ -0,0 +1,306 @@
+/**
+ * CSV and XLSX encoding for the tables members download. A schema names each
+ * column once and reads its value from the same row the table renders, so a
+ * download matches the screen and keeps its columns when the table's layout
+ * changes.
+ *
+ * The XLSX writer is deliberately small: inline strings, one optional notes
+ * sheet, and an uncompressed zip. Spreadsheet apps open it like any other
+ * workbook, and it adds nothing to the client bundle beyond this file.
+ */
+
+export type TableExportValue = boolean | number | string | null;
+
+export interface TableExportColumn<Row> {
+  readonly header: string;
+  readonly value: (row: Row) => TableExportValue;
+}
+
+export interface TableExportSchema<Row> {
+  readonly columns: readonly TableExportColumn<Row>[];
+  /** Worksheet name, and the table's name in file names. */
+  readonly title: string;
+}
+
+/** Label/value pairs written to an "About" sheet, e.g. the active lens. */
+export type TableExportNotes = readonly (readonly [string, string])[];
+
+export const CSV_MIME_TYPE = "text/csv;charset=utf-8";
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/** Spreadsheet apps run a cell that starts with one of these as a formula. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/u;
+
+function csvCell(value: TableExportValue): string {
+  if (value === null) {
+    return "";
+  }
+  if (typeof value !== "string") {
+    return String(value);
+  }
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/u.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export function tableExportCsv<Row>(
+  schema: TableExportSchema<Row>,
+  rows: readonly Row[],
+): string {
+  const lines = [
+    schema.columns.map((column) => csvCell(column.header)).join(","),
+    ...rows.map((row) =>
+      schema.columns.map((column) => csvCell(column.value(row))).join(","),
+    ),
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/** A file-name-safe slug; parts that slug to nothing are dropped. */
+export function tableExportFileName(
+  parts: readonly (string | null | undefined)[],
+  extension: "csv" | "xlsx",
+): string {
+  const stem = parts
+    .map((part) =>
+      (part ?? "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/gu, "-")
+        .replace(/^-+|-+$/gu, ""),
+    )
+    .filter(Boolean)
+    .join("-")
+    .slice(0, 120);
+  return `${stem || "table"}.${extension}`;
+}
+
+function xmlText(value: string): string {
+  return (
+    value
+      // XML 1.0 has no escape for most control characters; drop them.
+      // biome-ignore lint/suspicious/noControlCharactersInRegex: stripping them is the point
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/gu, "")
+      .replaceAll("&", "&amp;")
+      .replaceAll("<", "&lt;")
+      .replaceAll(">", "&gt;")
+      .replaceAll('"', "&quot;")
+  );
+}
+
+function columnName(index: number): string {
+  let name = "";
+  for (let rest = index + 1; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    name = String.fromCharCode(65 + ((rest - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function xlsxCell(value: TableExportValue, ref: string, style = 0): string {
+  const styled = style ? ` s="${style}"` : "";
+  if (value === null || value === "") {
+    return "";
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value)
+      ? `<c r="${ref}"${styled}><v>${value}</v></c>`
+      : "";
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}"${styled} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${styled} t="inlineStr"><is><t xml:space="preserve">${xmlText(value)}</t></is></c>`;
+}
+
+function worksheetXml(
+  rows: readonly (readonly TableExportValue[])[],
+  headerRow: boolean,
+): string {
+  const body = rows
+    .map(
+      (cells, rowIndex) =>
+        `<row r="${rowIndex + 1}">${cells
+          .map((value, columnIndex) =>
+            xlsxCell(
+              value,
+              `${columnName(columnIndex)}${rowIndex + 1}`,
+              headerRow && rowIndex === 0 ? 1 : 0,
+            ),
+          )
+          .join("")}</row>`,
+    )
+    .join("");
+  const frozen = headerRow
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : "";
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${frozen}<sheetData>${body}</sheetData></worksheet>`;
+}
+
+/** Excel refuses sheet names over 31 characters or with any of `[]:*?/\`. */
+function sheetName(title: string): string {
+  return (
+    title
+      .replace(/[[\]:*?/\\]/gu, " ")
+      .trim()
+      .slice(0, 31) || "Table"
+  );
+}
+
+export function tableExportXlsx<Row>(
+  schema: TableExportSchema<Row>,
+  rows: readonly Row[],
+  notes: TableExportNotes = [],
+): Uint8Array {
+  const sheets = [
+    {
+      name: sheetName(schema.title),
+      xml: worksheetXml(
+        [
+          schema.columns.map((column) => column.header),
+          ...rows.map((row) =>
+            schema.columns.map((column) => column.value(row)),
+          ),
+        ],
+        true,
+      ),
+    },
+    ...(notes.length > 0
+      ? [
+          {
+            name: "About",
+            xml: worksheetXml(
+              notes.map(([label, value]) => [label, value]),
+              false,
+            ),
+          },
+        ]
+      : []),
+  ];
+
+  const files: Array<[string, string]> = [
+    [
+      "[Content_Types].xml",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets
+        .map(
+          (_, index) =>
+            `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+        )
+        .join("")}</Types>`,
+    ],
+    [
+      "_rels/.rels",
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>',
+    ],
+    [
+      "xl/workbook.xml",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheets
+        .map(
+          (sheet, index) =>
+            `<sheet name="${xmlText(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`,
+        )
+        .join("")}</sheets></workbook>`,
+    ],
+    [
+      "xl/_rels/workbook.xml.rels",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+        .map(
+          (_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`,
+        )
+        .join(
+          "",
+        )}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    ],
+    [
+      "xl/styles.xml",
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>',
+    ],
+    ...sheets.map((sheet, index): [string, string] => [
+      `xl/worksheets/sheet${index + 1}.xml`,
+      sheet.xml,
+    ]),
+  ];
+  return storedZip(files);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * A zip with every entry stored uncompressed. Entries carry the DOS epoch as
+ * their timestamp, so the same table always encodes to the same bytes.
+ */
+function storedZip(files: readonly (readonly [string, string])[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of files) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 0x0800, true);
+    header.setUint16(8, 0, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, 0x21, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, nameBytes.length, true);
+    header.setUint16(28, 0, true);
+    local.push(new Uint8Array(header.buffer), nameBytes, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 0, true);
+    entry.setUint16(12, 0, true);
+    entry.setUint16(14, 0x21, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, nameBytes.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const centralSize = central.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let cursor = 0;
+  for (const part of parts) {
+    zip.set(part, cursor);
+    cursor += part.length;
+  }
+  return zip;
+}
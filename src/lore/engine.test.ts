@@ -21,11 +21,14 @@ import {
   weeklyStatistics,
 } from "@/db/schema";
 import { migrateSerialized } from "@/db/test-support";
+import type { PushNotifier } from "@/push";
 import { REALTIME_EVENTS, RecordingRealtimePublisher } from "@/realtime";
 import {
+  attachLoreEvidence,
   castLoreVote,
   closeLoreVote,
   openOpinionClaim,
+  reverifyLoreClaims,
   stewardLoreClaim,
   submitLoreClaim,
 } from ".";
@@ -1591,4 +1594,182 @@ describe("lore claim voting lifecycle", () => {
     });
     expect(rows.events.map((event) => event.reason)).toContain("steward:veto");
   });
+
+  it("disputes canon when corrected data contradicts it and restores it once the data agrees again", async () => {
+    const league = await seedLeague("reverify", [
+      "commissioner",
+      "data_steward",
+      "member",
+    ]);
+    const weekly = await seedWeeklyScore({ league, tag: "reverify-score" });
+    const notifications: Parameters<PushNotifier["notifyLeague"]>[0][] = [];
+    const push: PushNotifier = {
+      async notifyLeague(input) {
+        notifications.push(input);
+        return { attempted: 0, expired: 0, failed: 0, sent: 0 };
+      },
+    };
+
+    const submitted = await submitLoreClaim({
+      deps: deps(),
+      input: {
+        assertions: [
+          {
+            assertedValue: 200.4,
+            metric: "points_for",
+            personId: weekly.personId,
+            scoringPeriod: weekly.scoringPeriod,
+            season: weekly.season,
+            source: "weekly_statistics",
+          },
+        ],
+        authorMemberId: league.members[2]?.id,
+        body: "I scored 200.4 in Week 5, 2017.",
+        leagueId: league.id,
+        title: "The 200-point game",
+      },
+    });
+    expect(submitted).toMatchObject({ status: "canonized" });
+
+    const setPointsFor = (pointsFor: number) =>
+      withLeagueContext(handle.db, league.id, (tx) =>
+        tx
+          .update(weeklyStatistics)
+          .set({ pointsFor })
+          .where(eq(weeklyStatistics.id, weekly.weeklyStatisticId)),
+      );
+
+    await setPointsFor(190.4);
+    const unrelated = await reverifyLoreClaims({
+      deps: { ...deps(), push },
+      input: { leagueId: league.id, seasons: [2018] },
+    });
+    expect(unrelated).toEqual({ checked: 0, disputed: [], restored: [] });
+
+    const disputed = await reverifyLoreClaims({
+      deps: { ...deps(), push },
+      input: { leagueId: league.id, seasons: [weekly.season] },
+    });
+    expect(disputed).toEqual({
+      checked: 1,
+      disputed: [submitted.claimId],
+      restored: [],
+    });
+    expect(notifications).toEqual([
+      expect.objectContaining({
+        leagueId: league.id,
+        type: "league.lore.disputed",
+        userIds: expect.arrayContaining([
+          memberWithRole(league, "commissioner").userId,
+          memberWithRole(league, "data_steward").userId,
+        ]),
+      }),
+    ]);
+    expect(notifications[0]?.userIds).toHaveLength(2);
+
+    const afterDispute = await withLeagueContext(
+      handle.db,
+      league.id,
+      async (tx) => ({
+        claim: (
+          await tx
+            .select()
+            .from(loreClaims)
+            .where(eq(loreClaims.id, submitted.claimId))
+        )[0],
+        verification: (
+          await tx
+            .select()
+            .from(loreVerifications)
+            .where(eq(loreVerifications.claimId, submitted.claimId))
+        )[0],
+      }),
+    );
+    expect(afterDispute.claim).toMatchObject({
+      status: "disputed",
+      verification: "refuted",
+    });
+    expect(afterDispute.verification).toMatchObject({
+      actualValue: "190.4",
+      assertedValue: "200.4",
+      result: "contradiction",
+    });
+
+    await setPointsFor(200.4);
+    const restored = await reverifyLoreClaims({
+      deps: { ...deps(), push },
+      input: { leagueId: league.id, seasons: [weekly.season] },
+    });
+    expect(restored).toEqual({
+      checked: 1,
+      disputed: [],
+      restored: [submitted.claimId],
+    });
+
+    const events = await withLeagueContext(handle.db, league.id, (tx) =>
+      tx
+        .select()
+        .from(loreEvents)
+        .where(eq(loreEvents.claimId, submitted.claimId)),
+    );
+    expect(events.map((event) => event.reason)).toEqual(
+      expect.arrayContaining([
+        "reverification:contradiction",
+        "reverification:match",
+      ]),
+    );
+    expect(notifications).toHaveLength(1);
+  });
+
+  it("attaches member evidence to a claim and rejects non-https screenshots", async () => {
+    const league = await seedLeague("evidence", ["commissioner", "member"]);
+    const weekly = await seedWeeklyScore({ league, tag: "evidence-score" });
+    const claim = await openClaim(league, "The comeback week");
+    const member = memberWithRole(league, "member");
+    const [matchup] = await withLeagueContext(handle.db, league.id, (tx) =>
+      tx
+        .select({ id: fantasyMatchups.id })
+        .from(fantasyMatchups)
+        .where(eq(fantasyMatchups.season, weekly.season)),
+    );
+
+    const evidence = await attachLoreEvidence({
+      deps: deps(),
+      input: {
+        claimId: claim.claimId,
+        kind: "matchup",
+        leagueId: league.id,
+        matchupId: matchup?.id ?? "",
+        memberId: member.id,
+        note: "  The box score  ",
+      },
+    });
+    expect(evidence).toMatchObject({
+      attachedByMemberId: member.id,
+      kind: "matchup",
+      matchupId: matchup?.id,
+      note: "The box score",
+    });
+
+    await expect(
+      attachLoreEvidence({
+        deps: deps(),
+        input: {
+          claimId: claim.claimId,
+          kind: "screenshot",
+          leagueId: league.id,
+          memberId: member.id,
+          url: "http://example.test/shot.png",
+        },
+      }),
+    ).rejects.toMatchObject({ code: "LORE_EVIDENCE_INVALID" });
+
+    const [stored] = await withLeagueContext(handle.db, league.id, (tx) =>
+      tx
+        .select({ evidenceRefs: loreClaims.evidenceRefs })
+        .from(loreClaims)
+        .where(eq(loreClaims.id, claim.claimId)),
+    );
+    expect(stored?.evidenceRefs).toEqual([evidence]);
+  });
 });
@@ -1,10 +1,16 @@
-import { and, eq, inArray } from "drizzle-orm";
+import { randomUUID } from "node:crypto";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import {
+  hasLeaguePermission,
+  leagueRolesWithPermission,
+} from "@/auth/permissions";
 import { logger } from "@/core/logging";
 import { AppError } from "@/core/result";
 import type { Db } from "@/db/client";
 import { type LeagueScopedTx, withLeagueContext } from "@/db/rls";
 import {
   allTimeRecords,
+  fantasyMatchups,
   type LoreClaim,
   loreClaims,
   loreEvents,
@@ -19,10 +25,13 @@ import {
 } from "@/db/schema";
 import { PUSH_EVENTS, type PushNotifier } from "@/push";
 import { REALTIME_EVENTS, type RealtimePublisher } from "@/realtime";
+import type { WebhookDeliverer } from "@/webhooks";
 
 const DEFAULT_VOTE_DAYS = 7;
 const DEFAULT_QUORUM_RATIO = 0.34;
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MAX_CLAIM_EVIDENCE = 20;
+const MAX_EVIDENCE_NOTE_LENGTH = 280;
 
 export type LoreVoteChoice = "affirm" | "reject" | "abstain";
 export type LoreClaimOrigin = "member" | "ai";
@@ -108,6 +117,7 @@ export interface LoreDependencies {
   now?: () => Date;
   push?: PushNotifier;
   realtime?: RealtimePublisher;
+  webhooks?: WebhookDeliverer;
 }
 
 export interface OpenOpinionClaimInput {
@@ -229,6 +239,41 @@ export type StewardLoreClaimResult =
       voteClosesAt: Date;
     };
 
+export interface ReverifyLoreClaimsInput {
+  leagueId: string;
+  seasons: readonly number[];
+}
+
+export interface ReverifyLoreClaimsResult {
+  checked: number;
+  disputed: string[];
+  restored: string[];
+}
+
+export type LoreEvidenceKind = "matchup" | "record" | "screenshot";
+
+export type AttachLoreEvidenceInput = {
+  leagueId: string;
+  claimId: string;
+  memberId: string;
+  note?: string;
+} & (
+  | { kind: "matchup"; matchupId: string }
+  | { kind: "record"; allTimeRecordId: string }
+  | { kind: "screenshot"; url: string }
+);
+
+export interface LoreClaimEvidence {
+  id: string;
+  kind: LoreEvidenceKind;
+  attachedAt: string;
+  attachedByMemberId: string;
+  allTimeRecordId?: string;
+  matchupId?: string;
+  note?: string;
+  url?: string;
+}
+
 function currentTime(deps: Pick<LoreDependencies, "now">): Date {
   return deps.now?.() ?? new Date();
 }
@@ -244,7 +289,7 @@ async function publishLoreVoteOpened({
   timestamp,
 }: {
   deps: LoreDependencies;
-  input: Pick<OpenOpinionClaimInput, "leagueId">;
+  input: Pick<OpenOpinionClaimInput, "leagueId" | "title">;
   result: OpenOpinionClaimResult;
   timestamp: Date;
 }): Promise<void> {
@@ -286,6 +331,29 @@ async function publishLoreVoteOpened({
       });
     }
   }
+
+  if (deps.webhooks) {
+    try {
+      await deps.webhooks.deliverLeagueEvent({
+        event: {
+          data: {
+            claimId: result.claimId,
+            title: input.title,
+            voteClosesAt: result.voteClosesAt.toISOString(),
+          },
+          key: result.claimId,
+          type: "lore.vote_opened",
+        },
+        leagueId: input.leagueId,
+      });
+    } catch (error) {
+      logger.warn("Webhook lore vote-opened delivery failed", {
+        claimId: result.claimId,
+        error,
+        leagueId: input.leagueId,
+      });
+    }
+  }
 }
 
 async function publishLoreCanonized({
@@ -339,6 +407,73 @@ async function publishLoreCanonized({
       });
     }
   }
+
+  if (deps.webhooks) {
+    try {
+      const [claim] = await withLeagueContext(deps.db, leagueId, (tx) =>
+        tx
+          .select({ title: loreClaims.title })
+          .from(loreClaims)
+          .where(
+            and(eq(loreClaims.leagueId, leagueId), eq(loreClaims.id, claimId)),
+          )
+          .limit(1),
+      );
+      if (claim) {
+        await deps.webhooks.deliverLeagueEvent({
+          event: {
+            data: { claimId, ratifiedBy, title: claim.title },
+            key: claimId,
+            type: "lore.canonized",
+          },
+          leagueId,
+        });
+      }
+    } catch (error) {
+      logger.warn("Webhook lore canonized delivery failed", {
+        claimId,
+        error,
+        leagueId,
+      });
+    }
+  }
+}
+
+async function publishLoreDisputed({
+  claimId,
+  deps,
+  leagueId,
+  stewardUserIds,
+  timestamp,
+}: {
+  claimId: string;
+  deps: LoreDependencies;
+  leagueId: string;
+  stewardUserIds: readonly string[];
+  timestamp: Date;
+}): Promise<void> {
+  if (!deps.push) {
+    return;
+  }
+
+  try {
+    await deps.push.notifyLeague({
+      at: timestamp,
+      body: "Corrected league data no longer backs a canon claim.",
+      leagueId,
+      tag: `league:${leagueId}:lore:${claimId}:disputed`,
+      title: "Lore disputed",
+      type: PUSH_EVENTS.leagueLoreDisputed,
+      url: `/leagues/${leagueId}/lore/${claimId}`,
+      userIds: stewardUserIds,
+    });
+  } catch (error) {
+    logger.warn("Push lore disputed notification failed", {
+      claimId,
+      error,
+      leagueId,
+    });
+  }
 }
 
 function cleanText(value: string, field: string): string {
@@ -652,6 +787,7 @@ interface VerificationOutcome {
   actualValue: string | null;
   allTimeRecordId?: string;
   assertedValue: string;
+  assertion: LoreVerificationAssertion;
   matchedRefs: Record<string, unknown>[];
   result: "contradiction" | "match" | "uncheckable";
   seasonStatisticId?: string;
@@ -779,7 +915,7 @@ async function verifyWeeklyAssertion({
   assertion: WeeklyLoreAssertion;
   leagueId: string;
   tx: LeagueScopedTx;
-}): Promise<VerificationOutcome> {
+}): Promise<Omit<VerificationOutcome, "assertion">> {
   const subject: LoreSubjectInput = {
     metadata: {
       metric: assertion.metric,
@@ -844,7 +980,7 @@ async function verifySeasonAssertion({
   assertion: SeasonLoreAssertion;
   leagueId: string;
   tx: LeagueScopedTx;
-}): Promise<VerificationOutcome> {
+}): Promise<Omit<VerificationOutcome, "assertion">> {
   const subject: LoreSubjectInput = {
     metadata: {
       metric: assertion.metric,
@@ -916,7 +1052,7 @@ async function verifyAllTimeRecordAssertion({
   assertion: AllTimeRecordLoreAssertion;
   leagueId: string;
   tx: LeagueScopedTx;
-}): Promise<VerificationOutcome> {
+}): Promise<Omit<VerificationOutcome, "assertion">> {
   const conditions = [
     eq(allTimeRecords.leagueId, leagueId),
     eq(allTimeRecords.recordType, assertion.recordType),
@@ -992,11 +1128,20 @@ async function verifyAssertion({
 }): Promise<VerificationOutcome> {
   switch (assertion.source) {
     case "all_time_record":
-      return verifyAllTimeRecordAssertion({ assertion, leagueId, tx });
+      return {
+        ...(await verifyAllTimeRecordAssertion({ assertion, leagueId, tx })),
+        assertion,
+      };
     case "season_statistics":
-      return verifySeasonAssertion({ assertion, leagueId, tx });
+      return {
+        ...(await verifySeasonAssertion({ assertion, leagueId, tx })),
+        assertion,
+      };
     case "weekly_statistics":
-      return verifyWeeklyAssertion({ assertion, leagueId, tx });
+      return {
+        ...(await verifyWeeklyAssertion({ assertion, leagueId, tx })),
+        assertion,
+      };
   }
 }
 
@@ -1057,6 +1202,7 @@ function verificationRecordFor({
       assertedValues.length === 1
         ? assertedValues[0]
         : JSON.stringify(assertedValues),
+    assertions: outcomes.map((outcome) => ({ ...outcome.assertion })),
     claimId,
     leagueId,
     matchedRefs: outcomes.flatMap((outcome) => outcome.matchedRefs),
@@ -1102,10 +1248,10 @@ async function assertStewardMember({
   tx: LeagueScopedTx;
 }) {
   const member = await assertLeagueMember({ leagueId, memberId, tx });
-  if (member.role !== "commissioner" && member.role !== "data_steward") {
+  if (!hasLeaguePermission(member.role, "lore:steward")) {
     throw new AppError({
       code: "LORE_STEWARD_REQUIRED",
-      message: "Lore adjudication requires a commissioner or data steward",
+      message: "Lore adjudication requires a lore steward role",
       status: 403,
     });
   }
@@ -2180,11 +2326,12 @@ export async function stewardLoreClaim({
         case "veto": {
           switch (claim.status) {
             case "canon":
+            case "disputed":
               break;
             default:
               throw new AppError({
                 code: "LORE_CLAIM_NOT_VETOABLE",
-                message: "Only canon lore claims can be vetoed",
+                message: "Only canon or disputed lore claims can be vetoed",
                 status: 409,
               });
           }
@@ -2201,7 +2348,7 @@ export async function stewardLoreClaim({
               and(
                 eq(loreClaims.leagueId, input.leagueId),
                 eq(loreClaims.id, input.claimId),
-                eq(loreClaims.status, "canon"),
+                inArray(loreClaims.status, ["canon", "disputed"]),
               ),
             )
             .returning({
@@ -2345,10 +2492,10 @@ export async function stewardLoreClaim({
           };
         }
         case "override":
-          if (stewardMember.role !== "commissioner") {
+          if (!hasLeaguePermission(stewardMember.role, "league:manage")) {
             throw new AppError({
               code: "LORE_OVERRIDE_REQUIRES_COMMISSIONER",
-              message: "Lore overrides require the league commissioner",
+              message: "Lore overrides require a league commissioner",
               status: 403,
             });
           }
@@ -2535,3 +2682,430 @@ export async function stewardLoreClaim({
 
   return result;
 }
+
+function assertionTouchesSeasons(
+  assertion: LoreVerificationAssertion,
+  seasons: ReadonlySet<number>,
+): boolean {
+  switch (assertion.source) {
+    case "all_time_record":
+      // A correction in any season can move the league's all-time records.
+      return true;
+    case "season_statistics":
+    case "weekly_statistics":
+      return seasons.has(assertion.season);
+  }
+}
+
+async function hasOpenChallenge({
+  claimId,
+  leagueId,
+  tx,
+}: {
+  claimId: string;
+  leagueId: string;
+  tx: LeagueScopedTx;
+}): Promise<boolean> {
+  const [challenge] = await tx
+    .select({ id: loreClaims.id })
+    .from(loreClaims)
+    .where(
+      and(
+        eq(loreClaims.leagueId, leagueId),
+        eq(loreClaims.branchOf, claimId),
+        inArray(loreClaims.relation, ["dispute", "relitigation"]),
+        inArray(loreClaims.status, ["pending", "vote"]),
+      ),
+    )
+    .limit(1);
+  return Boolean(challenge);
+}
+
+/**
+ * Re-runs the stored assertions of resolved data-verifiable claims after the
+ * league's statistics change for `seasons`. A canon claim the corrected data
+ * contradicts moves to disputed and its stewards are notified; a claim an
+ * earlier re-verification disputed returns to canon once the data backs it
+ * again. Claims the new data cannot check are left alone.
+ */
+export async function reverifyLoreClaims({
+  deps,
+  input,
+}: {
+  deps: LoreDependencies;
+  input: ReverifyLoreClaimsInput;
+}): Promise<ReverifyLoreClaimsResult> {
+  const seasons = new Set(input.seasons);
+  if (seasons.size === 0) {
+    return { checked: 0, disputed: [], restored: [] };
+  }
+
+  const timestamp = currentTime(deps);
+  const { result, stewardUserIds } = await withLeagueContext(
+    deps.db,
+    input.leagueId,
+    async (tx) => {
+      const rows = await tx
+        .select({
+          assertions: loreVerifications.assertions,
+          id: loreClaims.id,
+          ratifiedAt: loreClaims.ratifiedAt,
+          ratifiedBy: loreClaims.ratifiedBy,
+          status: loreClaims.status,
+          threadRootId: loreClaims.threadRootId,
+          verification: loreClaims.verification,
+          voteClosesAt: loreClaims.voteClosesAt,
+        })
+        .from(loreClaims)
+        .innerJoin(
+          loreVerifications,
+          and(
+            eq(loreVerifications.leagueId, loreClaims.leagueId),
+            eq(loreVerifications.claimId, loreClaims.id),
+          ),
+        )
+        .where(
+          and(
+            eq(loreClaims.leagueId, input.leagueId),
+            eq(loreClaims.kind, "data_verifiable"),
+            inArray(loreClaims.status, ["canon", "disputed"]),
+            inArray(loreClaims.verification, ["verified", "refuted"]),
+          ),
+        );
+
+      const summary: ReverifyLoreClaimsResult = {
+        checked: 0,
+        disputed: [],
+        restored: [],
+      };
+      for (const row of rows) {
+        const assertions =
+          row.assertions as unknown as LoreVerificationAssertion[];
+        if (
+          assertions.length === 0 ||
+          !assertions.some((assertion) =>
+            assertionTouchesSeasons(assertion, seasons),
+          )
+        ) {
+          continue;
+        }
+
+        const outcomes: VerificationOutcome[] = [];
+        for (const assertion of assertions) {
+          outcomes.push(
+            await verifyAssertion({ assertion, leagueId: input.leagueId, tx }),
+          );
+        }
+        summary.checked += 1;
+        const verificationResult = aggregateVerificationResult(outcomes);
+        if (verificationResult === "uncheckable") {
+          continue;
+        }
+
+        const {
+          claimId: _claimId,
+          leagueId: _leagueId,
+          ...record
+        } = verificationRecordFor({
+          claimId: row.id,
+          leagueId: input.leagueId,
+          outcomes,
+          result: verificationResult,
+        });
+        await tx
+          .update(loreVerifications)
+          .set({ ...record, verifiedAt: timestamp })
+          .where(
+            and(
+              eq(loreVerifications.leagueId, input.leagueId),
+              eq(loreVerifications.claimId, row.id),
+            ),
+          );
+
+        let nextStatus: "canon" | "disputed";
+        let nextVerification: "refuted" | "verified";
+        switch (verificationResult) {
+          case "contradiction":
+            if (row.verification === "refuted") {
+              continue;
+            }
+            nextStatus = "disputed";
+            nextVerification = "refuted";
+            break;
+          case "match":
+            if (row.verification === "verified" || row.status !== "disputed") {
+              continue;
+            }
+            nextStatus = (await hasOpenChallenge({
+              claimId: row.id,
+              leagueId: input.leagueId,
+              tx,
+            }))
+              ? "disputed"
+              : "canon";
+            nextVerification = "verified";
+            break;
+        }
+
+        const [updated] = await tx
+          .update(loreClaims)
+          .set({
+            status: nextStatus,
+            updatedAt: timestamp,
+            verification: nextVerification,
+          })
+          .where(
+            and(
+              eq(loreClaims.leagueId, input.leagueId),
+              eq(loreClaims.id, row.id),
+              inArray(loreClaims.status, ["canon", "disputed"]),
+            ),
+          )
+          .returning({
+            id: loreClaims.id,
+            ratifiedAt: loreClaims.ratifiedAt,
+            ratifiedBy: loreClaims.ratifiedBy,
+            status: loreClaims.status,
+            threadRootId: loreClaims.threadRootId,
+            voteClosesAt: loreClaims.voteClosesAt,
+          });
+        if (!updated) {
+          continue;
+        }
+
+        await tx.insert(loreEvents).values({
+          afterState: {
+            ...claimSnapshot(updated),
+            actualValue: record.actualValue ?? null,
+            assertedValue: record.assertedValue,
+            verification: nextVerification,
+          },
+          beforeState: {
+            ...claimSnapshot(row),
+            verification: row.verification,
+          },
+          claimId: row.id,
+          kind: "disputed",
+          leagueId: input.leagueId,
+          reason: `reverification:${verificationResult}`,
+        });
+        switch (verificationResult) {
+          case "contradiction":
+            summary.disputed.push(row.id);
+            break;
+          case "match":
+            summary.restored.push(row.id);
+            break;
+        }
+      }
+
+      if (summary.disputed.length === 0) {
+        return { result: summary, stewardUserIds: [] };
+      }
+
+      const stewards = await tx
+        .select({ userId: members.userId })
+        .from(members)
+        .where(
+          and(
+            eq(members.organizationId, input.leagueId),
+            inArray(members.role, leagueRolesWithPermission("lore:steward")),
+          ),
+        );
+      return {
+        result: summary,
+        stewardUserIds: stewards.map((steward) => steward.userId),
+      };
+    },
+  );
+
+  for (const claimId of result.disputed) {
+    await publishLoreDisputed({
+      claimId,
+      deps,
+      leagueId: input.leagueId,
+      stewardUserIds,
+      timestamp,
+    });
+  }
+
+  return result;
+}
+
+function evidenceNote(note: string | undefined): string | undefined {
+  if (note === undefined) {
+    return undefined;
+  }
+  const text = note.replace(/\s+/g, " ").trim();
+  if (text.length > MAX_EVIDENCE_NOTE_LENGTH) {
+    throw new AppError({
+      code: "LORE_EVIDENCE_INVALID",
+      message: `Evidence notes are limited to ${MAX_EVIDENCE_NOTE_LENGTH} characters`,
+      status: 400,
+    });
+  }
+  return text || undefined;
+}
+
+function parsedUrl(value: string): URL | null {
+  try {
+    return new URL(value.trim());
+  } catch {
+    return null;
+  }
+}
+
+function screenshotUrl(value: string): string {
+  const url = parsedUrl(value);
+  if (url?.protocol !== "https:") {
+    throw new AppError({
+      code: "LORE_EVIDENCE_INVALID",
+      message: "Screenshot evidence must be an https link",
+      status: 400,
+    });
+  }
+  return url.toString();
+}
+
+async function evidenceRefFor({
+  input,
+  tx,
+}: {
+  input: AttachLoreEvidenceInput;
+  tx: LeagueScopedTx;
+}): Promise<Pick<LoreClaimEvidence, "allTimeRecordId" | "matchupId" | "url">> {
+  switch (input.kind) {
+    case "matchup": {
+      const [matchup] = await tx
+        .select({ id: fantasyMatchups.id })
+        .from(fantasyMatchups)
+        .where(
+          and(
+            eq(fantasyMatchups.leagueId, input.leagueId),
+            eq(fantasyMatchups.id, input.matchupId),
+          ),
+        )
+        .limit(1);
+      if (!matchup) {
+        throw new AppError({
+          code: "LORE_EVIDENCE_NOT_FOUND",
+          message: "Evidence matchup could not be found",
+          status: 404,
+        });
+      }
+      return { matchupId: matchup.id };
+    }
+    case "record": {
+      const [record] = await tx
+        .select({ id: allTimeRecords.id })
+        .from(allTimeRecords)
+        .where(
+          and(
+            eq(allTimeRecords.leagueId, input.leagueId),
+            eq(allTimeRecords.id, input.allTimeRecordId),
+          ),
+        )
+        .limit(1);
+      if (!record) {
+        throw new AppError({
+          code: "LORE_EVIDENCE_NOT_FOUND",
+          message: "Evidence record could not be found",
+          status: 404,
+        });
+      }
+      return { allTimeRecordId: record.id };
+    }
+    case "screenshot":
+      return { url: screenshotUrl(input.url) };
+  }
+}
+
+/**
+ * Attaches a member's supporting evidence to a lore claim: a league matchup, an
+ * all-time record, or a link to a screenshot. Evidence informs the vote and any
+ * steward review; it does not change the claim's status on its own.
+ */
+export async function attachLoreEvidence({
+  deps,
+  input,
+}: {
+  deps: LoreDependencies;
+  input: AttachLoreEvidenceInput;
+}): Promise<LoreClaimEvidence> {
+  const timestamp = currentTime(deps);
+  const note = evidenceNote(input.note);
+
+  return withLeagueContext(deps.db, input.leagueId, async (tx) => {
+    await assertLeagueMember({
+      leagueId: input.leagueId,
+      memberId: input.memberId,
+      tx,
+    });
+
+    const [claim] = await tx
+      .select({
+        evidenceRefs: loreClaims.evidenceRefs,
+        status: loreClaims.status,
+      })
+      .from(loreClaims)
+      .where(
+        and(
+          eq(loreClaims.leagueId, input.leagueId),
+          eq(loreClaims.id, input.claimId),
+        ),
+      )
+      .limit(1);
+    if (!claim) {
+      throw new AppError({
+        code: "LORE_CLAIM_NOT_FOUND",
+        message: "Lore claim could not be found",
+        status: 404,
+      });
+    }
+    if (claim.status === "withdrawn") {
+      throw new AppError({
+        code: "LORE_CLAIM_WITHDRAWN",
+        message: "Withdrawn lore claims cannot take new evidence",
+        status: 409,
+      });
+    }
+    if (claim.evidenceRefs.length >= MAX_CLAIM_EVIDENCE) {
+      throw new AppError({
+        code: "LORE_EVIDENCE_LIMIT",
+        message: `Lore claims can hold at most ${MAX_CLAIM_EVIDENCE} pieces of evidence`,
+        status: 409,
+      });
+    }
+
+    const evidence: LoreClaimEvidence = {
+      attachedAt: timestamp.toISOString(),
+      attachedByMemberId: input.memberId,
+      id: randomUUID(),
+      kind: input.kind,
+      ...(await evidenceRefFor({ input, tx })),
+      ...(note ? { note } : {}),
+    };
+    await tx
+      .update(loreClaims)
+      .set({
+        evidenceRefs: sql`${loreClaims.evidenceRefs} || ${JSON.stringify([evidence])}::jsonb`,
+        updatedAt: timestamp,
+      })
+      .where(
+        and(
+          eq(loreClaims.leagueId, input.leagueId),
+          eq(loreClaims.id, input.claimId),
+        ),
+      );
+    await tx.insert(loreEvents).values({
+      actorMemberId: input.memberId,
+      afterState: { evidence: { ...evidence } },
+      claimId: input.claimId,
+      kind: "edited",
+      leagueId: input.leagueId,
+      reason: "evidence:attached",
+    });
+
+    return evidence;
+  });
+}
@@ -1,12 +1,15 @@
 export type {
+  AttachLoreEvidenceInput,
   CastLoreVoteInput,
   CastLoreVoteResult,
   CloseLoreVoteResult,
+  LoreClaimEvidence,
   LoreClaimKind,
   LoreClaimOrigin,
   LoreClaimRelation,
   LoreClaimVerification,
   LoreDependencies,
+  LoreEvidenceKind,
   LoreSubjectInput,
   LoreVerificationAssertion,
   LoreVerificationValue,
@@ -14,6 +17,8 @@ export type {
   LoreVoteTally,
   OpenOpinionClaimInput,
   OpenOpinionClaimResult,
+  ReverifyLoreClaimsInput,
+  ReverifyLoreClaimsResult,
   SeasonLoreAssertion,
   SeasonLoreMetric,
   StewardLoreAction,
@@ -26,9 +31,11 @@ export type {
   WeeklyLoreMetric,
 } from "./engine";
 export {
+  attachLoreEvidence,
   castLoreVote,
   closeLoreVote,
   openOpinionClaim,
+  reverifyLoreClaims,
   stewardLoreClaim,
   submitLoreClaim,
 } from "./engine";
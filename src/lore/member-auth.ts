@@ -1,5 +1,6 @@
 import { and, eq } from "drizzle-orm";
 import type { LeagueRoleAccess } from "@/auth/guards";
+import { hasLeaguePermission } from "@/auth/permissions";
 import { AppError } from "@/core/result";
 import type { Db } from "@/db/client";
 import { members } from "@/db/schema";
@@ -31,5 +32,5 @@ export async function getLoreMemberIdForUser(
 }
 
 export function isLoreSteward(access: LeagueRoleAccess): boolean {
-  return access.role === "commissioner" || access.role === "data_steward";
+  return hasLeaguePermission(access.role, "lore:steward");
 }
@@ -3,6 +3,7 @@ import type { Db } from "@/db/client";
 import { type LeagueScopedTx, withLeagueContext } from "@/db/rls";
 import {
   allTimeRecords,
+  fantasyMatchups,
   instigations,
   type LoreClaim,
   leagues,
@@ -18,12 +19,17 @@ import {
   users,
   weeklyStatistics,
 } from "@/db/schema";
-import type { LoreVoteChoice, LoreVoteTally } from "./engine";
+import type {
+  LoreClaimEvidence,
+  LoreVoteChoice,
+  LoreVoteTally,
+} from "./engine";
 import type {
   LoreClaimAuthorSummary,
   LoreClaimCard,
   LoreClaimDetailData,
   LoreClaimVerificationSummary,
+  LoreEvidenceSummary,
   LoreInstigationGroundingRef,
   LoreInstigationSummary,
   LorePollStatusSummary,
@@ -34,6 +40,7 @@ import type {
   LoreSubmitOptions,
   LoreVoteStatusSummary,
 } from "./member-ui";
+import { loreMetricLabel } from "./member-ui";
 
 const DEFAULT_QUORUM_RATIO = 0.34;
 const CANON_LIMIT = 25;
@@ -217,9 +224,14 @@ export async function getLoreClaimDetailData(
         leagueId: input.leagueId,
       },
     );
+    const evidence = await getLoreClaimEvidenceInContext(tx, {
+      claimId: input.claimId,
+      leagueId: input.leagueId,
+    });
 
     return {
       claim,
+      evidence,
       thread,
       verificationResult,
     };
@@ -238,6 +250,8 @@ export async function getLoreClaimDetailData(
         threadRootId: scoped.claim.threadRootId,
         updatedAt: scoped.claim.updatedAt,
       },
+      evidence: scoped.evidence,
+      evidenceApiUrl: `/api/leagues/${encodeURIComponent(input.leagueId)}/lore/claims/${encodeURIComponent(input.claimId)}/evidence`,
       isSteward: input.isSteward,
       league,
       claimSubmitApiUrl: `/api/leagues/${encodeURIComponent(input.leagueId)}/lore/claims`,
@@ -290,6 +304,15 @@ export async function getLoreStewardReviewData(
   };
 }
 
+export async function getLoreClaimEvidence(
+  db: Db,
+  input: { claimId: string; leagueId: string },
+): Promise<LoreEvidenceSummary[]> {
+  return withLeagueContext(db, input.leagueId, (tx) =>
+    getLoreClaimEvidenceInContext(tx, input),
+  );
+}
+
 export async function getLoreClaimVoteStatus(
   db: Db,
   input: { claimId: string; leagueId: string; memberId?: string },
@@ -421,6 +444,122 @@ async function getLoreClaimVerificationSummaryInContext(
   return verification ?? null;
 }
 
+async function getLoreClaimEvidenceInContext(
+  tx: LeagueScopedTx,
+  input: { claimId: string; leagueId: string },
+): Promise<LoreEvidenceSummary[]> {
+  const [claim] = await tx
+    .select({ evidenceRefs: loreClaims.evidenceRefs })
+    .from(loreClaims)
+    .where(
+      and(
+        eq(loreClaims.leagueId, input.leagueId),
+        eq(loreClaims.id, input.claimId),
+      ),
+    )
+    .limit(1);
+  const refs = (claim?.evidenceRefs ?? []) as unknown as LoreClaimEvidence[];
+  if (refs.length === 0) {
+    return [];
+  }
+
+  const matchupIds = refs.flatMap((ref) => ref.matchupId ?? []);
+  const recordIds = refs.flatMap((ref) => ref.allTimeRecordId ?? []);
+  const memberIds = [...new Set(refs.map((ref) => ref.attachedByMemberId))];
+  const [matchupRows, recordRows, memberRows] = await Promise.all([
+    matchupIds.length > 0
+      ? tx
+          .select({
+            awayScore: fantasyMatchups.awayScore,
+            homeScore: fantasyMatchups.homeScore,
+            id: fantasyMatchups.id,
+            scoringPeriod: fantasyMatchups.scoringPeriod,
+            season: fantasyMatchups.season,
+          })
+          .from(fantasyMatchups)
+          .where(
+            and(
+              eq(fantasyMatchups.leagueId, input.leagueId),
+              inArray(fantasyMatchups.id, matchupIds),
+            ),
+          )
+      : [],
+    recordIds.length > 0
+      ? tx
+          .select({
+            id: allTimeRecords.id,
+            recordType: allTimeRecords.recordType,
+            value: allTimeRecords.value,
+          })
+          .from(allTimeRecords)
+          .where(
+            and(
+              eq(allTimeRecords.leagueId, input.leagueId),
+              inArray(allTimeRecords.id, recordIds),
+            ),
+          )
+      : [],
+    tx
+      .select({ displayName: users.displayName, id: members.id })
+      .from(members)
+      .innerJoin(users, eq(users.id, members.userId))
+      .where(
+        and(
+          eq(members.organizationId, input.leagueId),
+          inArray(members.id, memberIds),
+        ),
+      ),
+  ]);
+  const matchupsById = new Map(matchupRows.map((row) => [row.id, row]));
+  const recordsById = new Map(recordRows.map((row) => [row.id, row]));
+  const namesByMemberId = new Map(
+    memberRows.map((row) => [row.id, row.displayName]),
+  );
+
+  return refs.map((ref) => {
+    let label: string;
+    let href: string | null = null;
+    switch (ref.kind) {
+      case "matchup": {
+        const matchup = ref.matchupId
+          ? matchupsById.get(ref.matchupId)
+          : undefined;
+        label = matchup
+          ? `${matchup.season} Week ${matchup.scoringPeriod}: ${matchup.homeScore}-${matchup.awayScore}`
+          : "Matchup no longer available";
+        break;
+      }
+      case "record": {
+        const record = ref.allTimeRecordId
+          ? recordsById.get(ref.allTimeRecordId)
+          : undefined;
+        label = record
+          ? `${loreMetricLabel(record.recordType)}: ${record.value}`
+          : "Record no longer available";
+        if (record) {
+          href = `/leagues/${encodeURIComponent(input.leagueId)}/records`;
+        }
+        break;
+      }
+      case "screenshot":
+        label = "Screenshot";
+        href = ref.url ?? null;
+        break;
+    }
+
+    return {
+      attachedAt: ref.attachedAt,
+      attachedByName:
+        namesByMemberId.get(ref.attachedByMemberId) ?? "League member",
+      href,
+      id: ref.id,
+      kind: ref.kind,
+      label,
+      note: ref.note ?? null,
+    };
+  });
+}
+
 type ClaimRow = Pick<
   LoreClaim,
   | "body"
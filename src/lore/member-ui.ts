@@ -4,6 +4,7 @@ import type {
   LoreClaimOrigin,
   LoreClaimRelation,
   LoreClaimVerification,
+  LoreEvidenceKind,
   LoreVoteChoice,
   LoreVoteTally,
   SeasonLoreMetric,
@@ -54,6 +55,12 @@ export const LORE_STEWARD_ACTIONS = [
   "veto",
 ] as const satisfies readonly StewardLoreAction[];
 
+export const LORE_EVIDENCE_KINDS = [
+  "matchup",
+  "record",
+  "screenshot",
+] as const satisfies readonly LoreEvidenceKind[];
+
 export type LoreAssertionSource = (typeof LORE_ASSERTION_SOURCES)[number];
 
 export type LoreClaimStatus =
@@ -201,6 +208,16 @@ export interface LoreSubjectFilter extends LoreSubjectSummary {
   readonly count: number;
 }
 
+export interface LoreEvidenceSummary {
+  readonly attachedAt: string;
+  readonly attachedByName: string;
+  readonly href: string | null;
+  readonly id: string;
+  readonly kind: LoreEvidenceKind;
+  readonly label: string;
+  readonly note: string | null;
+}
+
 export interface LoreClaimDetailData {
   readonly claim: LoreClaimCard & {
     readonly body: string;
@@ -208,6 +225,8 @@ export interface LoreClaimDetailData {
     readonly threadRootId: string | null;
     readonly updatedAt: string;
   };
+  readonly evidence: readonly LoreEvidenceSummary[];
+  readonly evidenceApiUrl: string;
   readonly isSteward: boolean;
   readonly league: {
     readonly id: string;
@@ -233,6 +252,11 @@ export type LoreVoteCastResponse = LoreClaimDetailData["claim"]["vote"] & {
   readonly claimId: string;
 };
 
+export interface LoreEvidenceAttachResponse {
+  readonly claimId: string;
+  readonly evidence: readonly LoreEvidenceSummary[];
+}
+
 export type LorePollVoteCastResponse = LorePollStatusSummary & {
   readonly pollId: string;
 };
@@ -0,0 +1,88 @@
+import type { Member } from "@/db/schema";
+
+export type LeagueRoleName = Member["role"];
+
+/**
+ * Roles a commissioner can hand out from the roles panel. `commissioner` is
+ * missing on purpose: it moves only through the commissioner handoff, which
+ * demotes the outgoing commissioner in the same step.
+ */
+export const GRANTABLE_LEAGUE_ROLES = [
+  "co_commissioner",
+  "data_steward",
+  "editor",
+  "lore_keeper",
+  "member",
+  "spectator",
+] as const satisfies readonly LeagueRoleName[];
+
+export type GrantableLeagueRole = (typeof GRANTABLE_LEAGUE_ROLES)[number];
+
+export const LEAGUE_ROLE_DISPLAY: Record<
+  LeagueRoleName,
+  { description: string; label: string }
+> = {
+  co_commissioner: {
+    description:
+      "Runs settings, pools, webhooks, archives, the cast and the Press. Cannot change roles or hand off the league.",
+    label: "Co-commissioner",
+  },
+  commissioner: {
+    description: "Everything, including roles and the league handoff.",
+    label: "Commissioner",
+  },
+  data_steward: {
+    description:
+      "Reviews and cleans league history, adjudicates lore and moderates the Press.",
+    label: "Data steward",
+  },
+  editor: {
+    description: "Retracts or regenerates Press pieces and edits personas.",
+    label: "Editor",
+  },
+  lore_keeper: {
+    description: "Adjudicates lore claims.",
+    label: "Lore keeper",
+  },
+  member: {
+    description: "Plays: picks, votes, reactions, lore claims and invites.",
+    label: "Member",
+  },
+  spectator: {
+    description: "A fan without a team. Reads everything and posts nothing.",
+    label: "Spectator",
+  },
+};
+
+export interface LeagueRoleMember {
+  displayName: string;
+  email: string;
+  memberId: string;
+  role: LeagueRoleName;
+  userId: string;
+}
+
+export interface LeagueRoleGrantEntry {
+  actorDisplayName: string | null;
+  createdAt: string;
+  id: string;
+  previousRole: LeagueRoleName | null;
+  reason: string | null;
+  role: LeagueRoleName;
+  targetDisplayName: string | null;
+}
+
+export interface LeagueRolesData {
+  apiUrl: string;
+  grants: LeagueRoleGrantEntry[];
+  members: LeagueRoleMember[];
+  viewerUserId: string;
+}
+
+export type LeagueRoleGrantTarget = { memberId: string } | { email: string };
+
+export interface LeagueRoleGrantResult {
+  grant: LeagueRoleGrantEntry | null;
+  member: LeagueRoleMember;
+  status: "already_current" | "changed";
+}
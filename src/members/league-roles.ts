@@ -0,0 +1,410 @@
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { requireLeagueRoleForUser } from "@/auth/guards";
+import { AppError, err, ok, type Result, toAppError } from "@/core/result";
+import type { Db } from "@/db/client";
+import { type LeagueScopedTx, withLeagueContext } from "@/db/rls";
+import { leagueRoleAuditLog, members, users } from "@/db/schema";
+import type {
+  GrantableLeagueRole,
+  LeagueRoleGrantEntry,
+  LeagueRoleGrantResult,
+  LeagueRoleGrantTarget,
+  LeagueRoleMember,
+  LeagueRoleName,
+  LeagueRolesData,
+} from "./league-role-types";
+
+const GRANT_HISTORY_LIMIT = 50;
+
+export interface GrantLeagueRoleInput {
+  actorUserId: string;
+  leagueId: string;
+  reason?: string;
+  role: GrantableLeagueRole;
+  target: LeagueRoleGrantTarget;
+}
+
+function roleError({
+  code,
+  message,
+  status,
+}: {
+  code: string;
+  message: string;
+  status: number;
+}): AppError {
+  return new AppError({ code, message, status });
+}
+
+function targetNotFoundError(): AppError {
+  return roleError({
+    code: "LEAGUE_ROLE_TARGET_NOT_FOUND",
+    message: "League member was not found",
+    status: 404,
+  });
+}
+
+function accountNotFoundError(): AppError {
+  return roleError({
+    code: "LEAGUE_ROLE_ACCOUNT_NOT_FOUND",
+    message:
+      "No account uses that email. Ask them to sign in once, then try again.",
+    status: 404,
+  });
+}
+
+function invalidTargetError(message: string): AppError {
+  return roleError({
+    code: "LEAGUE_ROLE_TARGET_INVALID",
+    message,
+    status: 400,
+  });
+}
+
+/**
+ * Writes the audit row for a role change. Callers pass the transaction that
+ * changes `members.role`, so the history cannot disagree with the current
+ * role.
+ */
+export async function recordLeagueRoleGrant(
+  tx: LeagueScopedTx,
+  input: {
+    actorUserId: string | null;
+    leagueId: string;
+    previousRole: LeagueRoleName | null;
+    reason?: string | null;
+    role: LeagueRoleName;
+    targetUserId: string;
+  },
+): Promise<{ createdAt: Date; id: string }> {
+  const [row] = await tx
+    .insert(leagueRoleAuditLog)
+    .values({
+      actorUserId: input.actorUserId,
+      leagueId: input.leagueId,
+      previousRole: input.previousRole,
+      reason: input.reason ?? null,
+      role: input.role,
+      targetUserId: input.targetUserId,
+    })
+    .returning({
+      createdAt: leagueRoleAuditLog.createdAt,
+      id: leagueRoleAuditLog.id,
+    });
+  if (!row) {
+    throw new Error("league role audit row was not written");
+  }
+  return row;
+}
+
+async function listRoleMembers(
+  db: Db,
+  leagueId: string,
+): Promise<LeagueRoleMember[]> {
+  return db
+    .select({
+      displayName: users.displayName,
+      email: users.email,
+      memberId: members.id,
+      role: members.role,
+      userId: users.id,
+    })
+    .from(members)
+    .innerJoin(users, eq(users.id, members.userId))
+    .where(eq(members.organizationId, leagueId))
+    .orderBy(asc(users.displayName), asc(users.email));
+}
+
+async function displayNamesById(
+  db: Db | LeagueScopedTx,
+  userIds: readonly (string | null)[],
+): Promise<Map<string, string>> {
+  const ids = [...new Set(userIds.filter((id): id is string => id !== null))];
+  if (ids.length === 0) {
+    return new Map();
+  }
+  const rows = await db
+    .select({ displayName: users.displayName, id: users.id })
+    .from(users)
+    .where(inArray(users.id, ids));
+  return new Map(rows.map((row) => [row.id, row.displayName]));
+}
+
+export async function listLeagueRoleGrants(
+  db: Db,
+  input: { leagueId: string; limit?: number },
+): Promise<LeagueRoleGrantEntry[]> {
+  const rows = await withLeagueContext(db, input.leagueId, (tx) =>
+    tx
+      .select()
+      .from(leagueRoleAuditLog)
+      .where(eq(leagueRoleAuditLog.leagueId, input.leagueId))
+      .orderBy(desc(leagueRoleAuditLog.createdAt))
+      .limit(input.limit ?? GRANT_HISTORY_LIMIT),
+  );
+  const names = await displayNamesById(
+    db,
+    rows.flatMap((row) => [row.actorUserId, row.targetUserId]),
+  );
+
+  return rows.map((row) => ({
+    actorDisplayName: row.actorUserId
+      ? (names.get(row.actorUserId) ?? null)
+      : null,
+    createdAt: row.createdAt.toISOString(),
+    id: row.id,
+    previousRole: row.previousRole,
+    reason: row.reason,
+    role: row.role,
+    targetDisplayName: row.targetUserId
+      ? (names.get(row.targetUserId) ?? null)
+      : null,
+  }));
+}
+
+/**
+ * The roles panel on the members page. Only roles holding `roles:grant` get
+ * it; everyone else sees their own role on the league home.
+ */
+export async function getLeagueRolesData(
+  db: Db,
+  input: { leagueId: string; userId: string },
+): Promise<LeagueRolesData | null> {
+  const access = await requireLeagueRoleForUser(db, {
+    leagueId: input.leagueId,
+    permission: "roles:grant",
+    userId: input.userId,
+  });
+  if (!access.ok) {
+    return null;
+  }
+
+  const [roleMembers, grants] = await Promise.all([
+    listRoleMembers(db, input.leagueId),
+    listLeagueRoleGrants(db, { leagueId: input.leagueId }),
+  ]);
+  return {
+    apiUrl: `/api/leagues/${input.leagueId}/roles`,
+    grants,
+    members: roleMembers,
+    viewerUserId: input.userId,
+  };
+}
+
+async function resolveTarget(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; target: LeagueRoleGrantTarget },
+): Promise<
+  | { kind: "member"; member: LeagueRoleMember }
+  | {
+      kind: "account";
+      user: { displayName: string; email: string; id: string };
+    }
+> {
+  if ("memberId" in input.target) {
+    const [member] = await tx
+      .select({
+        displayName: users.displayName,
+        email: users.email,
+        memberId: members.id,
+        role: members.role,
+        userId: users.id,
+      })
+      .from(members)
+      .innerJoin(users, eq(users.id, members.userId))
+      .where(
+        and(
+          eq(members.organizationId, input.leagueId),
+          eq(members.id, input.target.memberId),
+        ),
+      )
+      .limit(1);
+    if (!member) {
+      throw targetNotFoundError();
+    }
+    return { kind: "member", member };
+  }
+
+  const [user] = await tx
+    .select({
+      displayName: users.displayName,
+      email: users.email,
+      id: users.id,
+    })
+    .from(users)
+    .where(eq(users.email, input.target.email.trim().toLowerCase()))
+    .limit(1);
+  if (!user) {
+    throw accountNotFoundError();
+  }
+
+  const [member] = await tx
+    .select({ memberId: members.id, role: members.role })
+    .from(members)
+    .where(
+      and(
+        eq(members.organizationId, input.leagueId),
+        eq(members.userId, user.id),
+      ),
+    )
+    .limit(1);
+  return member
+    ? {
+        kind: "member",
+        member: {
+          displayName: user.displayName,
+          email: user.email,
+          memberId: member.memberId,
+          role: member.role,
+          userId: user.id,
+        },
+      }
+    : { kind: "account", user };
+}
+
+/**
+ * Changes a league member's role, or seats a signed-up fan as a spectator by
+ * email, and records who did it. Membership otherwise comes from claiming a
+ * team, so an account that is not yet in the league can only join as a
+ * spectator here.
+ */
+export async function grantLeagueRole(
+  db: Db,
+  input: GrantLeagueRoleInput,
+): Promise<Result<LeagueRoleGrantResult, AppError>> {
+  const access = await requireLeagueRoleForUser(db, {
+    leagueId: input.leagueId,
+    permission: "roles:grant",
+    userId: input.actorUserId,
+  });
+  if (!access.ok) {
+    return err(access.error);
+  }
+
+  try {
+    const granted = await withLeagueContext(
+      db,
+      input.leagueId,
+      async (tx): Promise<LeagueRoleGrantResult> => {
+        const target = await resolveTarget(tx, input);
+        const actorNames = await displayNamesById(tx, [input.actorUserId]);
+        const actorDisplayName = actorNames.get(input.actorUserId) ?? null;
+
+        if (target.kind === "account") {
+          if (input.role !== "spectator") {
+            throw invalidTargetError(
+              "Someone outside the league can only join as a spectator. Invite them to claim a team first.",
+            );
+          }
+          const [inserted] = await tx
+            .insert(members)
+            .values({
+              organizationId: input.leagueId,
+              role: "spectator",
+              userId: target.user.id,
+            })
+            .returning({ id: members.id });
+          if (!inserted) {
+            throw new Error("spectator membership was not written");
+          }
+          const audit = await recordLeagueRoleGrant(tx, {
+            actorUserId: input.actorUserId,
+            leagueId: input.leagueId,
+            previousRole: null,
+            reason: input.reason,
+            role: "spectator",
+            targetUserId: target.user.id,
+          });
+          const member: LeagueRoleMember = {
+            displayName: target.user.displayName,
+            email: target.user.email,
+            memberId: inserted.id,
+            role: "spectator",
+            userId: target.user.id,
+          };
+          return {
+            grant: grantEntry(audit, {
+              actorDisplayName,
+              member,
+              previousRole: null,
+              reason: input.reason,
+            }),
+            member,
+            status: "changed",
+          };
+        }
+
+        const { member } = target;
+        if (member.userId === input.actorUserId) {
+          throw invalidTargetError("Choose a different league member");
+        }
+        if (member.role === "commissioner") {
+          throw invalidTargetError(
+            "The commissioner's role changes only through the league handoff",
+          );
+        }
+        if (member.role === input.role) {
+          return { grant: null, member, status: "already_current" };
+        }
+
+        await tx
+          .update(members)
+          .set({ role: input.role, updatedAt: new Date() })
+          .where(
+            and(
+              eq(members.organizationId, input.leagueId),
+              eq(members.id, member.memberId),
+            ),
+          );
+        const audit = await recordLeagueRoleGrant(tx, {
+          actorUserId: input.actorUserId,
+          leagueId: input.leagueId,
+          previousRole: member.role,
+          reason: input.reason,
+          role: input.role,
+          targetUserId: member.userId,
+        });
+        const updated = { ...member, role: input.role };
+        return {
+          grant: grantEntry(audit, {
+            actorDisplayName,
+            member: updated,
+            previousRole: member.role,
+            reason: input.reason,
+          }),
+          member: updated,
+          status: "changed",
+        };
+      },
+    );
+
+    return ok(granted);
+  } catch (error) {
+    return err(
+      toAppError(error, {
+        code: "LEAGUE_ROLE_GRANT_FAILED",
+        message: "League role could not be changed",
+      }),
+    );
+  }
+}
+
+function grantEntry(
+  audit: { createdAt: Date; id: string },
+  input: {
+    actorDisplayName: string | null;
+    member: LeagueRoleMember;
+    previousRole: LeagueRoleName | null;
+    reason?: string;
+  },
+): LeagueRoleGrantEntry {
+  return {
+    actorDisplayName: input.actorDisplayName,
+    createdAt: audit.createdAt.toISOString(),
+    id: audit.id,
+    previousRole: input.previousRole,
+    reason: input.reason ?? null,
+    role: input.member.role,
+    targetDisplayName: input.member.displayName,
+  };
+}
@@ -1,5 +1,6 @@
 import { and, asc, eq } from "drizzle-orm";
 import type { LeagueRole } from "@/auth/guards";
+import { hasLeaguePermission } from "@/auth/permissions";
 import { AppError } from "@/core/result";
 import type { Db } from "@/db/client";
 import { withLeagueContext } from "@/db/rls";
@@ -182,7 +183,7 @@ export async function getLeagueRoastConsentData(
 
   return {
     apiUrl: `/api/leagues/${input.leagueId}/roast-consent`,
-    canManageUnclaimed: input.userRole === "commissioner",
+    canManageUnclaimed: hasLeaguePermission(input.userRole, "league:manage"),
     self: {
       displayName: self.displayName,
       memberId: self.memberId,
@@ -257,7 +258,7 @@ export async function setLeagueRoastConsent(
       };
     }
 
-    if (input.actorRole !== "commissioner") {
+    if (!hasLeaguePermission(input.actorRole, "league:manage")) {
       throw new AppError({
         code: "ROAST_CONSENT_FORBIDDEN",
         message: "Only commissioners can edit unclaimed member roast consent",
@@ -1,5 +1,5 @@
 import { and, eq, inArray } from "drizzle-orm";
-import { type LeagueRole, listLeagueMembershipsForUser } from "@/auth/guards";
+import { listLeagueMembershipsForUser } from "@/auth/guards";
 import type { AppError } from "@/core/result";
 import { err, ok, type Result } from "@/core/result";
 import type { Db } from "@/db/client";
@@ -12,7 +12,6 @@ import { getProviderBadgeLabel } from "./scope";
 
 export interface ListLeagueSwitcherItemsInput {
   readonly leagueIds?: readonly string[];
-  readonly minRole?: LeagueRole;
   readonly userId: string;
 }
 
@@ -31,7 +30,12 @@ export async function listLeagueSwitcherItemsForUser(
   db: Db,
   input: ListLeagueSwitcherItemsInput,
 ): Promise<Result<LeagueSwitcherItem[], AppError>> {
-  const memberships = await listLeagueMembershipsForUser(db, input);
+  // Every league the user may open, spectated ones included.
+  const memberships = await listLeagueMembershipsForUser(db, {
+    leagueIds: input.leagueIds,
+    permission: "league:view",
+    userId: input.userId,
+  });
   if (!memberships.ok) {
     return err(memberships.error);
   }
@@ -84,7 +88,7 @@ export async function markLeagueOpened(
 ): Promise<Result<MarkLeagueOpenedResult, AppError>> {
   const memberships = await listLeagueMembershipsForUser(db, {
     leagueIds: [input.leagueId],
-    minRole: "member",
+    permission: "league:view",
     userId: input.userId,
   });
   if (!memberships.ok) {
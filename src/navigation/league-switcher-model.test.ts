@@ -83,6 +83,7 @@ describe("league switcher model", () => {
       { href: "/onboarding/espn", label: "ESPN", provider: "espn" },
       { href: "/onboarding/sleeper", label: "Sleeper", provider: "sleeper" },
       { href: "/onboarding/yahoo", label: "Yahoo", provider: "yahoo" },
+      { href: "/onboarding/file", label: "File import", provider: "file" },
     ]);
   });
 });
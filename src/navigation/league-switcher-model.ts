@@ -2,7 +2,14 @@ import type { FantasyProviderId } from "@/providers/ids";
 import { FANTASY_PROVIDER_IDS } from "@/providers/ids";
 import { getProviderBadgeLabel } from "./scope";
 
-export type LeagueSwitcherRole = "member" | "data_steward" | "commissioner";
+export type LeagueSwitcherRole =
+  | "commissioner"
+  | "co_commissioner"
+  | "data_steward"
+  | "editor"
+  | "lore_keeper"
+  | "member"
+  | "spectator";
 
 export interface LeagueSwitcherItem {
   readonly lastOpenedAt: Date | null;
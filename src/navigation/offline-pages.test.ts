@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { offlineLeaguePaths } from "./offline-pages";
+
+describe("offlineLeaguePaths", () => {
+  it("saves the league home, Press front, newest articles and record book", () => {
+    expect(offlineLeaguePaths("league-1", ["post-2", "post-1"])).toEqual([
+      "/leagues/league-1",
+      "/leagues/league-1/press",
+      "/leagues/league-1/press/post-2",
+      "/leagues/league-1/press/post-1",
+      "/leagues/league-1/records",
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { and, desc, eq } from "drizzle-orm";
+import { contentItemIsPublished } from "@/content/lifecycle";
+import type { AppError } from "@/core/result";
+import { err, ok, type Result } from "@/core/result";
+import type { Db } from "@/db/client";
+import { withLeagueContext } from "@/db/rls";
+import { contentItems } from "@/db/schema";
+import { listLeagueSwitcherItemsForUser } from "./league-switcher-data";
+
+/**
+ * The pages the service worker saves for reading offline. Each one is a full
+ * authed render, so the list stays short: the leagues the member opened most
+ * recently, and for each its home (standings included), the Press front, the
+ * newest few articles and the record book.
+ */
+export const OFFLINE_LEAGUE_LIMIT = 5;
+export const OFFLINE_ARTICLE_LIMIT = 3;
+
+export function offlineLeaguePaths(
+  leagueId: string,
+  articleIds: readonly string[],
+): string[] {
+  const base = `/leagues/${leagueId}`;
+  return [
+    base,
+    `${base}/press`,
+    ...articleIds.map((articleId) => `${base}/press/${articleId}`),
+    `${base}/records`,
+  ];
+}
+
+export async function listOfflinePagesForUser(
+  db: Db,
+  input: { readonly userId: string },
+): Promise<Result<string[], AppError>> {
+  const leagues = await listLeagueSwitcherItemsForUser(db, {
+    userId: input.userId,
+  });
+  if (!leagues.ok) {
+    return err(leagues.error);
+  }
+
+  const paths: string[] = [];
+  for (const league of leagues.value.slice(0, OFFLINE_LEAGUE_LIMIT)) {
+    const articles = await withLeagueContext(db, league.leagueId, (tx) =>
+      tx
+        .select({ id: contentItems.id })
+        .from(contentItems)
+        .where(
+          and(
+            eq(contentItems.leagueId, league.leagueId),
+            eq(contentItems.kind, "blog"),
+            contentItemIsPublished(),
+          ),
+        )
+        .orderBy(desc(contentItems.publishedAt))
+        .limit(OFFLINE_ARTICLE_LIMIT),
+    );
+    paths.push(
+      ...offlineLeaguePaths(
+        league.leagueId,
+        articles.map((article) => article.id),
+      ),
+    );
+  }
+  return ok(paths);
+}
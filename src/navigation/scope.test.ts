@@ -77,6 +77,8 @@ describe("navigation scope taxonomy", () => {
     expect(ARENA_NAVIGATION_SECTIONS.map((section) => section.label)).toEqual([
       "Leaderboard",
       "League vs League",
+      "Divisions",
+      "Bankroll",
       "Movers",
       "Matchups",
       "Seasons",
@@ -85,6 +87,8 @@ describe("navigation scope taxonomy", () => {
     expect(ARENA_NAVIGATION_SECTIONS.map((section) => section.href)).toEqual([
       "/arena",
       "/arena/leagues",
+      "/arena/divisions",
+      "/arena/bankroll",
       "/arena/movers",
       "/arena/matchups",
       "/arena/seasons",
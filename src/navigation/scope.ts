@@ -24,6 +24,8 @@ export type NewsSectionId = "front" | CentralPublicationSectionId;
 export type ArenaSectionId =
   | "leaderboard"
   | "leagues"
+  | "divisions"
+  | "bankroll"
   | "movers"
   | "matchups"
   | "seasons"
@@ -207,6 +209,20 @@ export const ARENA_NAVIGATION_SECTIONS = [
     label: "League vs League",
     scope: "arena",
   },
+  {
+    href: "/arena/divisions",
+    icon: "landmark",
+    id: "divisions",
+    label: "Divisions",
+    scope: "arena",
+  },
+  {
+    href: "/arena/bankroll",
+    icon: "ticket",
+    id: "bankroll",
+    label: "Bankroll",
+    scope: "arena",
+  },
   {
     href: "/arena/movers",
     icon: "ticket",
@@ -241,6 +257,7 @@ export const PROVIDER_BADGE_LABELS = {
   espn: "ESPN",
   sleeper: "Sleeper",
   yahoo: "Yahoo",
+  file: "File import",
 } as const satisfies Record<FantasyProviderId, string>;
 
 const GLOBAL_SECTION_BY_SEGMENT: ReadonlyMap<string, GlobalSectionId> = new Map(
@@ -3,6 +3,7 @@ import {
   buildPersonaBylineMap,
   resolvePersonaByline,
 } from "@/ai/persona-display";
+import { hasLeaguePermission } from "@/auth/permissions";
 import type { EditLedgerEntry } from "@/components/curation/edit-ledger-types";
 import type { PublicationStory } from "@/components/publication/story";
 import { contentItemIsPublished } from "@/content/lifecycle";
@@ -261,7 +262,7 @@ function metadataNumber(value: unknown): number | null {
 }
 
 function canManageEditorial(role: Member["role"]): boolean {
-  return role === "commissioner" || role === "data_steward";
+  return hasLeaguePermission(role, "press:moderate");
 }
 
 function articleStructure(metadata: unknown): Record<string, unknown> {
@@ -546,6 +547,27 @@ function articleInlineDataBlocks(
         ],
         title: "Verdict record",
       });
+    case "draft_grades":
+      return summaryBlock({
+        caption: "Draft grades from the structured retrospective.",
+        id: "draft-grades",
+        rows: [
+          ...summaryRow("checkpoint", "Checkpoint", structure.checkpoint),
+          ...metadataArray(structure.grades).flatMap((entry, index) => {
+            const row = metadataRecord(entry);
+            return summaryRow(
+              `grade-${index}`,
+              metadataText(row.team) || "Team",
+              row.grade,
+              row.rationale,
+            );
+          }),
+          ...summaryRow("steal", "Steal", structure.steal),
+          ...summaryRow("bust", "Bust", structure.bust),
+          ...summaryRow("trend", "Trend", structure.trend),
+        ],
+        title: "Draft report card",
+      });
     default:
       return [];
   }
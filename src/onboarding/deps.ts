@@ -9,6 +9,7 @@ import {
   type LeagueConnectedData,
 } from "@/jobs/events";
 import { createEspnDiscoveryProvider } from "@/providers/espn";
+import { createFileProvider } from "@/providers/file";
 import { createSleeperProvider } from "@/providers/sleeper";
 import { createYahooProvider } from "@/providers/yahoo";
 import { createRealtimePublisher } from "@/realtime";
@@ -16,8 +17,10 @@ import { type BrowserSession, MockBrowserSession } from "./browser-session";
 import { createBrowserbaseSession } from "./browserbase-session";
 import { createCredentialCipher } from "./credential-crypto";
 import type { EspnOnboardingDependencies } from "./espn-service";
+import type { FileImportOnboardingDependencies } from "./file-import-service";
 import { createFixtureEspnProvider } from "./fixture-espn";
 import { createFixtureYahooProvider } from "./fixture-yahoo";
+import type { LeagueHistorySourceDependencies } from "./history-sources";
 import type { LeagueInviteDependencies } from "./invites";
 import { RecordingInviteNotifier } from "./notifier";
 import type { ProviderOnboardingDependencies } from "./provider-service";
@@ -110,6 +113,25 @@ export function getSleeperOnboardingDependencies(): SleeperOnboardingDependencie
   };
 }
 
+export function getFileImportOnboardingDependencies(): FileImportOnboardingDependencies {
+  const env = getEnv();
+  return {
+    cipher: createCredentialCipher(env.credentials.encryptionKey),
+    db: getDb(),
+    provider: createFileProvider(),
+    realtime: createRealtimePublisher(env),
+    requestHistoricalImport,
+    requestLeagueConnected,
+  };
+}
+
+export function getLeagueHistorySourceDependencies(): LeagueHistorySourceDependencies {
+  return {
+    db: getDb(),
+    requestHistoricalImport,
+  };
+}
+
 export function getYahooOnboardingDependencies(): YahooOnboardingDependencies {
   const env = getEnv();
   const redirectUri = env.auth.yahoo.mock
@@ -148,6 +170,7 @@ export function getProviderOnboardingDependencies(): ProviderOnboardingDependenc
       espn: browserbase.mock
         ? createFixtureEspnProvider()
         : createEspnDiscoveryProvider(),
+      file: createFileProvider(),
       sleeper: createSleeperProvider(),
       yahoo: env.auth.yahoo.mock
         ? createFixtureYahooProvider()
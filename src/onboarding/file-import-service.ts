@@ -0,0 +1,125 @@
+import { createHash } from "node:crypto";
+import { isLeagueArchive, parseLeagueArchive } from "@/archive/format";
+import { err, type Result } from "@/core/result";
+import type { Db } from "@/db/client";
+import {
+  type FileImportIssue,
+  parseFileImportBundle,
+} from "@/providers/file/bundle";
+import { FILE_PROVIDER_ID, type FileProvider } from "@/providers/file/client";
+import type { RealtimePublisher } from "@/realtime";
+import type { CredentialCipher } from "./credential-crypto";
+import {
+  connectProviderWithCredentials,
+  OnboardingError,
+  type ProviderConnectResult,
+  type ProviderOnboardingDependencies,
+  type ProviderOnboardingError,
+  type RequestHistoricalImport,
+  type RequestLeagueConnected,
+} from "./provider-service";
+
+export type FileImportConnectResult = ProviderConnectResult;
+
+export interface FileImportOnboardingDependencies {
+  cipher: CredentialCipher;
+  db: Db;
+  now?: () => Date;
+  provider: FileProvider;
+  realtime?: RealtimePublisher;
+  requestHistoricalImport?: RequestHistoricalImport;
+  requestLeagueConnected?: RequestLeagueConnected;
+}
+
+function providerDeps(
+  deps: FileImportOnboardingDependencies,
+): ProviderOnboardingDependencies {
+  return {
+    cipher: deps.cipher,
+    db: deps.db,
+    now: deps.now,
+    providers: { file: deps.provider },
+    realtime: deps.realtime,
+    requestHistoricalImport: deps.requestHistoricalImport,
+    requestLeagueConnected: deps.requestLeagueConnected,
+  };
+}
+
+/**
+ * Derives the provider league id for an uploaded league. It is scoped to the
+ * uploader, so re-uploading a corrected file updates the same league, while
+ * two commissioners who both call theirs "The League" never collide.
+ */
+export function fileImportProviderLeagueId(input: {
+  leagueKey: string;
+  userId: string;
+}): string {
+  const digest = createHash("sha256")
+    .update(`${input.userId}:${input.leagueKey}`)
+    .digest("hex");
+  return `file-${digest.slice(0, 24)}`;
+}
+
+export function fileImportInvalid(
+  issues: readonly FileImportIssue[],
+): OnboardingError {
+  return new OnboardingError({
+    code: "ONBOARDING_FILE_IMPORT_INVALID",
+    details: { issues },
+    message: `League file has ${issues.length} ${
+      issues.length === 1 ? "problem" : "problems"
+    }`,
+    status: 422,
+  });
+}
+
+/**
+ * Validates an uploaded league bundle and, when it is clean, stores it as the
+ * file provider's credential and discovers its newest season. A bundle with
+ * problems is rejected whole, with every bad row in the error details; nothing
+ * is stored until the file validates.
+ *
+ * A league archive is accepted in place of a bundle: its `history` section is
+ * a bundle, and only that is stored. The archive's curated layers are
+ * restored afterwards from the new league's archive page.
+ */
+export async function connectFileImport(
+  deps: FileImportOnboardingDependencies,
+  input: {
+    bundle: unknown;
+    userId: string;
+  },
+): Promise<Result<FileImportConnectResult, ProviderOnboardingError>> {
+  let bundle = input.bundle;
+  if (isLeagueArchive(bundle)) {
+    const archive = parseLeagueArchive(bundle);
+    if (!archive.ok) {
+      return err(
+        fileImportInvalid(
+          archive.issues.map((message) => ({ message, section: "bundle" })),
+        ),
+      );
+    }
+    bundle = archive.archive.history;
+  }
+
+  const parsed = parseFileImportBundle(bundle);
+  if (!parsed.ok) {
+    return err(fileImportInvalid(parsed.issues));
+  }
+
+  const league = parsed.bundle.league;
+  return connectProviderWithCredentials({
+    credentials: {
+      bundle,
+      providerLeagueId: fileImportProviderLeagueId({
+        leagueKey: league.key ?? league.name,
+        userId: input.userId,
+      }),
+    },
+    deps: providerDeps(deps),
+    flow: "upload",
+    provider: FILE_PROVIDER_ID,
+    userId: input.userId,
+  });
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { overlappingSeasons } from "./history-sources";
+
+describe("overlappingSeasons", () => {
+  it("accepts a range that ends before the league's own seasons", () => {
+    expect(
+      overlappingSeasons({
+        linkedRanges: [{ firstSeason: 2017, lastSeason: 2020 }],
+        presentSeasons: [2017, 2018, 2019, 2020, 2021, 2022],
+        range: { firstSeason: 2009, lastSeason: 2016 },
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports seasons the league's own provider already imported", () => {
+    expect(
+      overlappingSeasons({
+        linkedRanges: [],
+        presentSeasons: [2015, 2016, 2017],
+        range: { firstSeason: 2009, lastSeason: 2016 },
+      }),
+    ).toEqual([2015, 2016]);
+  });
+
+  it("reports seasons another linked source covers, imported or not", () => {
+    expect(
+      overlappingSeasons({
+        linkedRanges: [{ firstSeason: 2016, lastSeason: 2020 }],
+        presentSeasons: [2021, 2022],
+        range: { firstSeason: 2009, lastSeason: 2017 },
+      }),
+    ).toEqual([2016, 2017]);
+  });
+});
@@ -0,0 +1,308 @@
+import { and, asc, eq } from "drizzle-orm";
+import { err, ok, type Result } from "@/core/result";
+import type { Db } from "@/db/client";
+import { withLeagueContext } from "@/db/rls";
+import {
+  fantasyTeams,
+  leagueHistorySources,
+  leagues,
+  onboardingDiscoveredLeagues,
+} from "@/db/schema";
+import type { ImportRequestedData } from "@/jobs/events";
+import type { FantasyProviderId } from "@/providers";
+import {
+  OnboardingError,
+  type RequestHistoricalImport,
+} from "./provider-service";
+
+export interface LeagueHistorySourceDependencies {
+  db: Db;
+  requestHistoricalImport?: RequestHistoricalImport;
+}
+
+export interface LeagueHistorySource {
+  firstSeason: number;
+  id: string;
+  lastSeason: number;
+  linkedAt: string;
+  provider: FantasyProviderId;
+  providerLeagueId: string;
+}
+
+export interface LeagueSeasonSource {
+  leagueProviderId: string;
+  provider: FantasyProviderId;
+  season: number;
+}
+
+export interface LeagueHistoryTimeline {
+  seasons: LeagueSeasonSource[];
+  sources: LeagueHistorySource[];
+}
+
+interface SeasonRange {
+  firstSeason: number;
+  lastSeason: number;
+}
+
+const MAX_LINKED_SEASONS = 25;
+
+function inSeasonRange(season: number, range: SeasonRange): boolean {
+  return season >= range.firstSeason && season <= range.lastSeason;
+}
+
+function rangeSeasons(range: SeasonRange): number[] {
+  return Array.from(
+    { length: range.lastSeason - range.firstSeason + 1 },
+    (_, index) => range.lastSeason - index,
+  );
+}
+
+/**
+ * Seasons in `range` that the league already has from somewhere else: either
+ * another linked source's range or a season the league's own provider has
+ * imported. Each season of a combined history comes from exactly one provider.
+ */
+export function overlappingSeasons({
+  linkedRanges,
+  presentSeasons,
+  range,
+}: {
+  linkedRanges: readonly SeasonRange[];
+  presentSeasons: readonly number[];
+  range: SeasonRange;
+}): number[] {
+  const rootSeasons = presentSeasons.filter(
+    (season) => !linkedRanges.some((linked) => inSeasonRange(season, linked)),
+  );
+  return rangeSeasons(range)
+    .filter(
+      (season) =>
+        rootSeasons.includes(season) ||
+        linkedRanges.some((linked) => inSeasonRange(season, linked)),
+    )
+    .sort((left, right) => left - right);
+}
+
+async function listPresentSeasonSources(
+  db: Db,
+  leagueId: string,
+): Promise<LeagueSeasonSource[]> {
+  return withLeagueContext(db, leagueId, (tx) =>
+    tx
+      .selectDistinct({
+        leagueProviderId: fantasyTeams.leagueProviderId,
+        provider: fantasyTeams.provider,
+        season: fantasyTeams.season,
+      })
+      .from(fantasyTeams)
+      .where(eq(fantasyTeams.leagueId, leagueId))
+      .orderBy(
+        asc(fantasyTeams.season),
+        asc(fantasyTeams.provider),
+        asc(fantasyTeams.leagueProviderId),
+      ),
+  );
+}
+
+async function listSourceRows(db: Db, leagueId: string) {
+  return db
+    .select()
+    .from(leagueHistorySources)
+    .where(eq(leagueHistorySources.leagueId, leagueId))
+    .orderBy(asc(leagueHistorySources.firstSeason));
+}
+
+/**
+ * The league's combined timeline: every linked provider league, and which
+ * provider each imported season came from.
+ */
+export async function listLeagueHistoryTimeline(
+  deps: Pick<LeagueHistorySourceDependencies, "db">,
+  input: { leagueId: string },
+): Promise<Result<LeagueHistoryTimeline, OnboardingError>> {
+  const [sources, seasons] = await Promise.all([
+    listSourceRows(deps.db, input.leagueId),
+    listPresentSeasonSources(deps.db, input.leagueId),
+  ]);
+
+  return ok({
+    seasons,
+    sources: sources.map((source) => ({
+      firstSeason: source.firstSeason,
+      id: source.id,
+      lastSeason: source.lastSeason,
+      linkedAt: source.createdAt.toISOString(),
+      provider: source.provider,
+      providerLeagueId: source.providerLeagueId,
+    })),
+  });
+}
+
+/**
+ * Links a provider league the commissioner has connected as an earlier stretch
+ * of this league's history, then imports its seasons into this league. Identity
+ * resolution and the stats recompute run over the whole league afterwards, so
+ * persons, records, and head-to-head ledgers span the combined history.
+ */
+export async function linkLeagueHistorySource(
+  deps: LeagueHistorySourceDependencies,
+  input: {
+    firstSeason: number;
+    lastSeason: number;
+    leagueId: string;
+    provider: FantasyProviderId;
+    providerLeagueId: string;
+    season: number;
+    userId: string;
+  },
+): Promise<Result<LeagueHistorySource, OnboardingError>> {
+  const range = {
+    firstSeason: input.firstSeason,
+    lastSeason: input.lastSeason,
+  };
+  if (
+    range.firstSeason > range.lastSeason ||
+    range.lastSeason - range.firstSeason + 1 > MAX_LINKED_SEASONS ||
+    range.lastSeason > input.season
+  ) {
+    return err(
+      new OnboardingError({
+        code: "LEAGUE_HISTORY_SOURCE_RANGE_INVALID",
+        message: `Linked seasons must run forward, end by ${input.season}, and span at most ${MAX_LINKED_SEASONS} seasons`,
+        status: 400,
+      }),
+    );
+  }
+
+  const [discovered] = await deps.db
+    .select()
+    .from(onboardingDiscoveredLeagues)
+    .where(
+      and(
+        eq(onboardingDiscoveredLeagues.userId, input.userId),
+        eq(onboardingDiscoveredLeagues.provider, input.provider),
+        eq(
+          onboardingDiscoveredLeagues.providerLeagueId,
+          input.providerLeagueId,
+        ),
+        eq(onboardingDiscoveredLeagues.season, input.season),
+      ),
+    )
+    .limit(1);
+  if (!discovered) {
+    return err(
+      new OnboardingError({
+        code: "ONBOARDING_DISCOVERED_LEAGUE_NOT_FOUND",
+        message: "Discovered league was not found",
+        status: 404,
+      }),
+    );
+  }
+
+  const [ownLeague] = await deps.db
+    .select({ id: leagues.id })
+    .from(leagues)
+    .where(
+      and(
+        eq(leagues.provider, input.provider),
+        eq(leagues.providerLeagueId, input.providerLeagueId),
+      ),
+    )
+    .limit(1);
+  if (ownLeague) {
+    return err(
+      new OnboardingError({
+        code: "LEAGUE_HISTORY_SOURCE_ALREADY_IMPORTED",
+        message:
+          ownLeague.id === input.leagueId
+            ? "This provider league is already this league's own provider"
+            : "This provider league is already imported as its own league",
+        status: 409,
+      }),
+    );
+  }
+
+  const [sourceRows, presentSeasons] = await Promise.all([
+    listSourceRows(deps.db, input.leagueId),
+    listPresentSeasonSources(deps.db, input.leagueId),
+  ]);
+  const overlap = overlappingSeasons({
+    linkedRanges: sourceRows,
+    presentSeasons: presentSeasons.map((row) => row.season),
+    range,
+  });
+  if (overlap.length > 0) {
+    return err(
+      new OnboardingError({
+        code: "LEAGUE_HISTORY_SOURCE_OVERLAP",
+        details: { seasons: overlap },
+        message: "Those seasons already come from another provider",
+        status: 409,
+      }),
+    );
+  }
+
+  const [source] = await deps.db
+    .insert(leagueHistorySources)
+    .values({
+      firstSeason: range.firstSeason,
+      lastSeason: range.lastSeason,
+      leagueId: input.leagueId,
+      linkedByUserId: input.userId,
+      provider: input.provider,
+      providerLeagueId: input.providerLeagueId,
+    })
+    .onConflictDoNothing({
+      target: [
+        leagueHistorySources.provider,
+        leagueHistorySources.providerLeagueId,
+      ],
+    })
+    .returning();
+  if (!source) {
+    return err(
+      new OnboardingError({
+        code: "LEAGUE_HISTORY_SOURCE_ALREADY_LINKED",
+        message: "This provider league is already linked to a league",
+        status: 409,
+      }),
+    );
+  }
+
+  try {
+    await deps.requestHistoricalImport?.({
+      credentialId: discovered.credentialId,
+      leagueId: input.leagueId,
+      name: discovered.name,
+      provider: input.provider satisfies ImportRequestedData["provider"],
+      providerLeagueId: discovered.providerLeagueId,
+      season: discovered.season,
+      seasons: rangeSeasons(range),
+      sport: discovered.sport,
+      ...(discovered.teamName ? { teamName: discovered.teamName } : {}),
+      ...(discovered.size === null ? {} : { size: discovered.size }),
+    });
+  } catch (cause) {
+    await deps.db
+      .delete(leagueHistorySources)
+      .where(eq(leagueHistorySources.id, source.id));
+    return err(
+      new OnboardingError({
+        cause,
+        code: "ONBOARDING_IMPORT_JOB_ENQUEUE_FAILED",
+        message: "Historical import could not be enqueued",
+        status: 500,
+      }),
+    );
+  }
+
+  return ok({
+    firstSeason: source.firstSeason,
+    id: source.id,
+    lastSeason: source.lastSeason,
+    linkedAt: source.createdAt.toISOString(),
+    provider: source.provider,
+    providerLeagueId: source.providerLeagueId,
+  });
+}
@@ -8,6 +8,7 @@ import { withLeagueContext } from "@/db/rls";
 import {
   fantasyMembers,
   fantasyTeams,
+  leagueInvitePendingClaims,
   leagueInvites,
   leagueMemberIdentityClaims,
   leagues,
@@ -18,10 +19,12 @@ import {
 import { migrateSerialized } from "@/db/test-support";
 import {
   acceptLeagueInvite,
+  completeLeagueInviteAccountClaim,
   createLeaguemateInvite,
   createOpenLeagueInvite,
   getLeagueInviteLanding,
   listLeaguemateInviteTargets,
+  requestLeagueInviteAccountClaim,
 } from "./invites";
 import { RecordingInviteNotifier } from "./notifier";
 
@@ -719,6 +722,178 @@ describe("leaguemate invites", () => {
     });
   });
 
+  it("holds a signed-out email claim until the magic link verifies it", async () => {
+    const league = await seedLeague();
+    const inviter = await seedUser("new-account-inviter");
+    const existing = await seedUser("new-account-existing");
+    const imported = await seedImportedMembers({
+      leagueId: league.id,
+      leagueProviderId: league.providerLeagueId,
+    });
+    await handle.db.insert(members).values({
+      organizationId: league.id,
+      role: "commissioner",
+      userId: inviter.id,
+    });
+    await handle.db.insert(providerCredentials).values({
+      connectionFlow: "manual",
+      encryptedPayload: `${marker}-encrypted-new-account`,
+      lastValidatedAt: new Date("2026-06-12T00:00:00.000Z"),
+      provider: "espn",
+      subjectProviderId: imported.self.providerMemberId,
+      userId: inviter.id,
+    });
+
+    const shared = await createLeaguemateInvite(
+      {
+        db: handle.db,
+        notifier: new RecordingInviteNotifier(),
+        now: () => new Date("2026-06-12T12:00:00.000Z"),
+      },
+      {
+        appBaseUrl: "https://rumbledore.example",
+        channel: "share",
+        leagueId: league.id,
+        providerMemberId: imported.invited.providerMemberId,
+        userId: inviter.id,
+      },
+    );
+    expect(shared.ok).toBe(true);
+    if (!shared.ok) throw shared.error;
+    const deps = {
+      db: handle.db,
+      now: () => new Date("2026-06-12T12:05:00.000Z"),
+    };
+
+    const taken = await requestLeagueInviteAccountClaim(deps, {
+      leagueId: league.id,
+      newAccount: { displayName: "Sam", email: existing.email.toUpperCase() },
+      token: shared.value.token,
+    });
+    expect(taken.ok).toBe(false);
+    if (taken.ok) throw new Error("expected an existing email to be refused");
+    expect(taken.error).toMatchObject({
+      code: "LEAGUE_INVITE_ACCOUNT_EXISTS",
+      status: 409,
+    });
+
+    const email = `${marker}-new-account@example.com`;
+    const pending = await requestLeagueInviteAccountClaim(deps, {
+      leagueId: league.id,
+      newAccount: { displayName: "  Sam  ", email: ` ${email.toUpperCase()} ` },
+      token: shared.value.token,
+    });
+    expect(pending.ok).toBe(true);
+    if (!pending.ok) throw pending.error;
+    expect(pending.value).toMatchObject({
+      email,
+      expiresAt: "2026-06-12T13:05:00.000Z",
+      providerMemberId: imported.invited.providerMemberId,
+    });
+
+    // Holding the link proves nothing yet: no account, claim or membership
+    // exists until the magic link is opened.
+    expect(
+      await handle.db.select().from(users).where(eq(users.email, email)),
+    ).toEqual([]);
+    const claimsBefore = await withLeagueContext(handle.db, league.id, (tx) =>
+      tx
+        .select({ userId: leagueMemberIdentityClaims.userId })
+        .from(leagueMemberIdentityClaims)
+        .where(
+          eq(
+            leagueMemberIdentityClaims.providerMemberId,
+            imported.invited.providerMemberId,
+          ),
+        ),
+    );
+    expect(claimsBefore).toEqual([]);
+
+    const wrongSession = await completeLeagueInviteAccountClaim(deps, {
+      claimId: pending.value.claimId,
+      leagueId: league.id,
+      token: shared.value.token,
+      userId: existing.id,
+    });
+    expect(wrongSession.ok).toBe(false);
+    if (wrongSession.ok) throw new Error("expected another account to fail");
+    expect(wrongSession.error).toMatchObject({
+      code: "LEAGUE_INVITE_PENDING_CLAIM_EMAIL_MISMATCH",
+      status: 403,
+    });
+
+    // Better Auth creates the verified user when the magic link is opened.
+    const [created] = await handle.db
+      .insert(users)
+      .values({ displayName: "Sam", email, emailVerified: true })
+      .returning();
+    if (!created) throw new Error("account was not created");
+
+    const expired = await completeLeagueInviteAccountClaim(
+      { db: handle.db, now: () => new Date("2026-06-12T13:05:00.000Z") },
+      {
+        claimId: pending.value.claimId,
+        leagueId: league.id,
+        token: shared.value.token,
+        userId: created.id,
+      },
+    );
+    expect(expired.ok).toBe(false);
+    if (expired.ok) throw new Error("expected an expired claim to fail");
+    expect(expired.error.code).toBe("LEAGUE_INVITE_PENDING_CLAIM_NOT_FOUND");
+
+    const accepted = await completeLeagueInviteAccountClaim(deps, {
+      claimId: pending.value.claimId,
+      leagueId: league.id,
+      token: shared.value.token,
+      userId: created.id,
+    });
+    expect(accepted.ok).toBe(true);
+    if (!accepted.ok) throw accepted.error;
+
+    const [membership] = await handle.db
+      .select({ role: members.role })
+      .from(members)
+      .where(
+        and(
+          eq(members.organizationId, league.id),
+          eq(members.userId, created.id),
+        ),
+      );
+    expect(membership).toEqual({ role: "member" });
+    const claims = await withLeagueContext(handle.db, league.id, (tx) =>
+      tx
+        .select({
+          providerMemberId: leagueMemberIdentityClaims.providerMemberId,
+        })
+        .from(leagueMemberIdentityClaims)
+        .where(eq(leagueMemberIdentityClaims.userId, created.id)),
+    );
+    expect(claims).toEqual([
+      { providerMemberId: imported.invited.providerMemberId },
+    ]);
+    const [completed] = await withLeagueContext(handle.db, league.id, (tx) =>
+      tx
+        .select({ completedAt: leagueInvitePendingClaims.completedAt })
+        .from(leagueInvitePendingClaims)
+        .where(eq(leagueInvitePendingClaims.id, pending.value.claimId)),
+    );
+    expect(completed?.completedAt).toEqual(
+      new Date("2026-06-12T12:05:00.000Z"),
+    );
+
+    // The link now belongs to that account; another signed-out claim cannot
+    // start a second one.
+    const again = await requestLeagueInviteAccountClaim(deps, {
+      leagueId: league.id,
+      newAccount: { displayName: "Sam", email: `${marker}-again@example.com` },
+      token: shared.value.token,
+    });
+    expect(again.ok).toBe(false);
+    if (again.ok) throw new Error("expected a claimed invite to fail");
+    expect(again.error.code).toBe("LEAGUE_INVITE_ALREADY_ACCEPTED");
+  });
+
   it("rejects conflicting claims without granting partial membership", async () => {
     const league = await seedLeague();
     const inviter = await seedUser("conflict-inviter");
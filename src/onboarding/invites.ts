@@ -1,5 +1,5 @@
 import { createHash, randomBytes } from "node:crypto";
-import { and, asc, eq, ne } from "drizzle-orm";
+import { and, asc, eq, isNull, ne } from "drizzle-orm";
 import { type LeagueRole, requireLeagueRoleForUser } from "@/auth/guards";
 import { AppError, err, ok, type Result } from "@/core/result";
 import type { Db } from "@/db/client";
@@ -8,12 +8,14 @@ import {
   fantasyMembers,
   fantasyTeams,
   type LeagueInvite,
+  leagueInvitePendingClaims,
   leagueInvites,
   leagueMemberIdentityClaims,
   leagues,
   members,
   onboardingDiscoveredLeagues,
   providerCredentials,
+  users,
 } from "@/db/schema";
 import type { FantasyProviderId } from "@/providers";
 import type { InviteNotifier } from "./notifier";
@@ -96,6 +98,25 @@ export interface AcceptedLeagueInvite {
   teamNames: string[];
 }
 
+/**
+ * A signed-out invitee claiming with just an email and a name. The account
+ * has no password; they sign in by magic link or add a passkey later.
+ */
+export interface LeagueInviteNewAccount {
+  displayName: string;
+  email: string;
+}
+
+/** A signed-out claim held until the magic link sent to `email` is opened. */
+export interface PendingLeagueInviteClaim {
+  claimId: string;
+  email: string;
+  expiresAt: string;
+  league: AcceptedLeagueInvite["league"];
+  providerMemberId: string;
+  teamNames: string[];
+}
+
 export interface LeagueInviteDependencies {
   db: Db;
   notifier: InviteNotifier;
@@ -134,6 +155,8 @@ interface LoadedInviteTargets {
 }
 
 const INVITE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Outlives the 15-minute magic link with room for a slow inbox.
+const PENDING_CLAIM_TTL_MS = 60 * 60 * 1000;
 const UUID_RE =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -219,7 +242,43 @@ function inviteCannotBeAccepted(invite: LeagueInvite, now: Date): boolean {
   }
 }
 
-function acceptedByAnotherUser(invite: LeagueInvite, userId: string): boolean {
+function accountInvalidError(): LeagueInviteError {
+  return new AppError({
+    code: "LEAGUE_INVITE_ACCOUNT_INVALID",
+    message: "Enter a valid email and name to claim this invite",
+    status: 400,
+  });
+}
+
+function accountExistsError(): LeagueInviteError {
+  return new AppError({
+    code: "LEAGUE_INVITE_ACCOUNT_EXISTS",
+    message:
+      "An account already uses that email. Sign in to accept this invite.",
+    status: 409,
+  });
+}
+
+function pendingClaimNotFoundError(): LeagueInviteError {
+  return new AppError({
+    code: "LEAGUE_INVITE_PENDING_CLAIM_NOT_FOUND",
+    message: "That claim link has expired. Claim the invite again.",
+    status: 404,
+  });
+}
+
+function pendingClaimEmailMismatchError(): LeagueInviteError {
+  return new AppError({
+    code: "LEAGUE_INVITE_PENDING_CLAIM_EMAIL_MISMATCH",
+    message: "Sign in with the email this invite was claimed with.",
+    status: 403,
+  });
+}
+
+function acceptedByAnotherUser(
+  invite: LeagueInvite,
+  userId: string | null,
+): boolean {
   switch (invite.status) {
     case "accepted":
       break;
@@ -911,7 +970,7 @@ async function resolveInviteAcceptance(
     now: Date;
     providerMemberId?: string;
     tokenHash: string;
-    userId: string;
+    userId: string | null;
   },
 ): Promise<Result<ResolvedInviteAcceptance, LeagueInviteError>> {
   const [invite] = await withLeagueContext(deps.db, input.leagueId, (tx) =>
@@ -995,6 +1054,16 @@ async function resolveInviteAcceptance(
   return existingClaim ? err(claimConflictError()) : err(invalidTargetError());
 }
 
+function normalizedNewAccount(
+  account: LeagueInviteNewAccount,
+): LeagueInviteNewAccount | null {
+  const email = account.email.trim().toLowerCase();
+  const displayName = account.displayName.trim();
+  return EMAIL_RE.test(email) && displayName.length > 0
+    ? { displayName, email }
+    : null;
+}
+
 export async function acceptLeagueInvite(
   deps: Pick<LeagueInviteDependencies, "db" | "now">,
   input: {
@@ -1188,3 +1257,190 @@ export async function acceptLeagueInvite(
       return err(notFoundError());
   }
 }
+
+/**
+ * Holds a signed-out invitee's claim until they prove they own `email`. Nothing
+ * is created here: the caller sends a magic link, Better Auth creates the
+ * verified account when it is opened, and `completeLeagueInviteAccountClaim`
+ * finishes the claim for that session. An email that already has an account
+ * is refused so its owner signs in and accepts the usual way.
+ */
+export async function requestLeagueInviteAccountClaim(
+  deps: Pick<LeagueInviteDependencies, "db" | "now">,
+  input: {
+    leagueId: string;
+    newAccount: LeagueInviteNewAccount;
+    providerMemberId?: string;
+    token: string;
+  },
+): Promise<Result<PendingLeagueInviteClaim, LeagueInviteError>> {
+  if (!UUID_RE.test(input.leagueId) || input.token.trim().length === 0) {
+    return err(notFoundError());
+  }
+
+  const account = normalizedNewAccount(input.newAccount);
+  if (!account) {
+    return err(accountInvalidError());
+  }
+
+  const now = currentTime(deps);
+  const resolved = await resolveInviteAcceptance(deps, {
+    leagueId: input.leagueId,
+    now,
+    providerMemberId: input.providerMemberId,
+    tokenHash: inviteTokenHash(input.token),
+    userId: null,
+  });
+  if (!resolved.ok) {
+    return resolved;
+  }
+
+  const [existingUser] = await deps.db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.email, account.email))
+    .limit(1);
+  if (existingUser) {
+    return err(accountExistsError());
+  }
+
+  const { invite, league, target } = resolved.value;
+  const pending = await withLeagueContext(
+    deps.db,
+    input.leagueId,
+    async (tx) => {
+      const [claimed] = await tx
+        .select({ id: leagueMemberIdentityClaims.id })
+        .from(leagueMemberIdentityClaims)
+        .where(
+          and(
+            eq(leagueMemberIdentityClaims.leagueId, input.leagueId),
+            eq(leagueMemberIdentityClaims.provider, target.provider),
+            eq(
+              leagueMemberIdentityClaims.providerMemberId,
+              target.providerMemberId,
+            ),
+          ),
+        )
+        .limit(1);
+      if (claimed) {
+        return null;
+      }
+
+      const [row] = await tx
+        .insert(leagueInvitePendingClaims)
+        .values({
+          createdAt: now,
+          displayName: account.displayName,
+          email: account.email,
+          expiresAt: new Date(now.getTime() + PENDING_CLAIM_TTL_MS),
+          inviteId: invite.id,
+          leagueId: input.leagueId,
+          providerMemberId: target.providerMemberId,
+        })
+        .returning();
+      return row ?? null;
+    },
+  );
+  if (!pending) {
+    return err(claimConflictError());
+  }
+
+  return ok({
+    claimId: pending.id,
+    email: pending.email,
+    expiresAt: pending.expiresAt.toISOString(),
+    league: {
+      id: league.id,
+      name: league.name,
+      provider: league.provider,
+      season: league.season,
+    },
+    providerMemberId: target.providerMemberId,
+    teamNames: target.teamNames,
+  });
+}
+
+/**
+ * Finishes a pending claim for the session that opened its magic link. The
+ * signed-in account must own the claim's email, verified by that link, before
+ * the claim runs through `acceptLeagueInvite` like any signed-in acceptance.
+ */
+export async function completeLeagueInviteAccountClaim(
+  deps: Pick<LeagueInviteDependencies, "db" | "now">,
+  input: {
+    claimId: string;
+    leagueId: string;
+    token: string;
+    userId: string;
+  },
+): Promise<Result<AcceptedLeagueInvite, LeagueInviteError>> {
+  if (
+    !UUID_RE.test(input.leagueId) ||
+    !UUID_RE.test(input.claimId) ||
+    input.token.trim().length === 0
+  ) {
+    return err(pendingClaimNotFoundError());
+  }
+
+  const now = currentTime(deps);
+  const [pending] = await withLeagueContext(deps.db, input.leagueId, (tx) =>
+    tx
+      .select({
+        email: leagueInvitePendingClaims.email,
+        expiresAt: leagueInvitePendingClaims.expiresAt,
+        providerMemberId: leagueInvitePendingClaims.providerMemberId,
+      })
+      .from(leagueInvitePendingClaims)
+      .innerJoin(
+        leagueInvites,
+        eq(leagueInvites.id, leagueInvitePendingClaims.inviteId),
+      )
+      .where(
+        and(
+          eq(leagueInvitePendingClaims.id, input.claimId),
+          eq(leagueInvitePendingClaims.leagueId, input.leagueId),
+          eq(leagueInvites.tokenHash, inviteTokenHash(input.token)),
+        ),
+      )
+      .limit(1),
+  );
+  if (!pending || pending.expiresAt <= now) {
+    return err(pendingClaimNotFoundError());
+  }
+
+  const [user] = await deps.db
+    .select({ email: users.email, emailVerified: users.emailVerified })
+    .from(users)
+    .where(eq(users.id, input.userId))
+    .limit(1);
+  if (
+    !user?.emailVerified ||
+    stringValuesDiffer(user.email.toLowerCase(), pending.email)
+  ) {
+    return err(pendingClaimEmailMismatchError());
+  }
+
+  const accepted = await acceptLeagueInvite(deps, {
+    leagueId: input.leagueId,
+    providerMemberId: pending.providerMemberId,
+    token: input.token,
+    userId: input.userId,
+  });
+  if (!accepted.ok) {
+    return accepted;
+  }
+
+  await withLeagueContext(deps.db, input.leagueId, (tx) =>
+    tx
+      .update(leagueInvitePendingClaims)
+      .set({ completedAt: now })
+      .where(
+        and(
+          eq(leagueInvitePendingClaims.id, input.claimId),
+          isNull(leagueInvitePendingClaims.completedAt),
+        ),
+      ),
+  );
+  return accepted;
+}
@@ -0,0 +1,140 @@
+import { and, asc, eq } from "drizzle-orm";
+import { AppError, err, ok, type Result } from "@/core/result";
+import type { Db } from "@/db/client";
+import { withLeagueContext } from "@/db/rls";
+import {
+  fantasyMembers,
+  leagueMemberIdentityClaims,
+  providerCredentials,
+} from "@/db/schema";
+import type { FantasyProviderId } from "@/providers";
+
+/**
+ * The provider identities an account is linked to, as shown on `/you`: the
+ * ESPN/Yahoo/Sleeper credentials the member connected, and the imported
+ * league members they claimed through invites or onboarding.
+ *
+ * Unlinking removes a credential only. League claims are membership, not a
+ * login, so they stay until a commissioner changes them.
+ */
+
+export type ProviderConnectionFlow =
+  (typeof providerCredentials.$inferSelect)["connectionFlow"];
+
+export interface LinkedProviderCredential {
+  connectionFlow: ProviderConnectionFlow;
+  id: string;
+  invalidAt: Date | null;
+  lastValidatedAt: Date;
+  provider: FantasyProviderId;
+  status: (typeof providerCredentials.$inferSelect)["status"];
+  subjectProviderId: string;
+}
+
+export interface LinkedLeagueIdentity {
+  claimedAt: Date;
+  displayName: string | null;
+  leagueId: string;
+  leagueName: string;
+  provider: FantasyProviderId;
+  providerMemberId: string;
+}
+
+export interface LinkedIdentities {
+  credentials: LinkedProviderCredential[];
+  leagueIdentities: LinkedLeagueIdentity[];
+}
+
+function credentialNotFoundError(): AppError {
+  return new AppError({
+    code: "PROVIDER_CONNECTION_NOT_FOUND",
+    message: "That provider connection was not found",
+    status: 404,
+  });
+}
+
+export async function listLinkedIdentities(
+  db: Db,
+  input: {
+    leagues: readonly { leagueId: string; name: string }[];
+    userId: string;
+  },
+): Promise<LinkedIdentities> {
+  const credentials = await db
+    .select({
+      connectionFlow: providerCredentials.connectionFlow,
+      id: providerCredentials.id,
+      invalidAt: providerCredentials.invalidAt,
+      lastValidatedAt: providerCredentials.lastValidatedAt,
+      provider: providerCredentials.provider,
+      status: providerCredentials.status,
+      subjectProviderId: providerCredentials.subjectProviderId,
+    })
+    .from(providerCredentials)
+    .where(eq(providerCredentials.userId, input.userId))
+    .orderBy(
+      asc(providerCredentials.provider),
+      asc(providerCredentials.subjectProviderId),
+    );
+
+  const leagueIdentities: LinkedLeagueIdentity[] = [];
+  for (const league of input.leagues) {
+    const claims = await withLeagueContext(db, league.leagueId, (tx) =>
+      tx
+        .select({
+          claimedAt: leagueMemberIdentityClaims.claimedAt,
+          displayName: fantasyMembers.displayName,
+          provider: leagueMemberIdentityClaims.provider,
+          providerMemberId: leagueMemberIdentityClaims.providerMemberId,
+        })
+        .from(leagueMemberIdentityClaims)
+        .leftJoin(
+          fantasyMembers,
+          eq(fantasyMembers.id, leagueMemberIdentityClaims.fantasyMemberId),
+        )
+        .where(
+          and(
+            eq(leagueMemberIdentityClaims.leagueId, league.leagueId),
+            eq(leagueMemberIdentityClaims.userId, input.userId),
+          ),
+        )
+        .orderBy(asc(leagueMemberIdentityClaims.provider)),
+    );
+    leagueIdentities.push(
+      ...claims.map((claim) => ({
+        ...claim,
+        leagueId: league.leagueId,
+        leagueName: league.name,
+      })),
+    );
+  }
+
+  return { credentials, leagueIdentities };
+}
+
+/**
+ * Deletes one of the caller's provider credentials. Discovered-league
+ * inventory from that credential cascades with it; imported leagues and their
+ * history do not depend on it.
+ */
+export async function unlinkProviderCredential(
+  db: Db,
+  input: { credentialId: string; userId: string },
+): Promise<
+  Result<{ provider: FantasyProviderId; subjectProviderId: string }, AppError>
+> {
+  const [removed] = await db
+    .delete(providerCredentials)
+    .where(
+      and(
+        eq(providerCredentials.id, input.credentialId),
+        eq(providerCredentials.userId, input.userId),
+      ),
+    )
+    .returning({
+      provider: providerCredentials.provider,
+      subjectProviderId: providerCredentials.subjectProviderId,
+    });
+
+  return removed ? ok(removed) : err(credentialNotFoundError());
+}
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { AppError, err, ok, type Result } from "@/core/result";
 import type { Db } from "@/db/client";
 import {
+  leagueHistorySources,
   leagues,
   members,
   onboardingDiscoveredLeagues,
@@ -17,6 +18,7 @@ import type {
   ProviderError,
   ProviderLeagueRef,
 } from "@/providers";
+import { fileCredentialsSchema } from "@/providers/file/client";
 import { yahooCredentialsSchema } from "@/providers/yahoo/client";
 import type { RealtimePublisher } from "@/realtime";
 import {
@@ -47,7 +49,8 @@ export type OnboardingConnectionFlow =
   | "manual"
   | "extension"
   | "public"
-  | "oauth";
+  | "oauth"
+  | "upload";
 
 export interface DiscoveredLeague {
   provider: FantasyProviderId;
@@ -197,6 +200,7 @@ export const storedSleeperCredentialsSchema = z.object({
 
 const storedCredentialSchemas = {
   espn: storedEspnCredentialsSchema,
+  file: fileCredentialsSchema,
   sleeper: storedSleeperCredentialsSchema,
   yahoo: yahooCredentialsSchema,
 } satisfies Partial<Record<FantasyProviderId, z.ZodType<unknown>>>;
@@ -917,6 +921,27 @@ export async function importDiscoveredLeague(
       break;
   }
 
+  const [historySource] = await deps.db
+    .select({ leagueId: leagueHistorySources.leagueId })
+    .from(leagueHistorySources)
+    .where(
+      and(
+        eq(leagueHistorySources.provider, input.provider),
+        eq(leagueHistorySources.providerLeagueId, input.providerLeagueId),
+      ),
+    )
+    .limit(1);
+  if (historySource) {
+    return err(
+      new OnboardingError({
+        code: "ONBOARDING_LEAGUE_LINKED_AS_HISTORY",
+        details: { leagueId: historySource.leagueId },
+        message: "This league is already linked as another league's history",
+        status: 409,
+      }),
+    );
+  }
+
   let credentials: unknown;
   try {
     credentials = await loadStoredCredentials({
@@ -1020,6 +1045,7 @@ export async function importDiscoveredLeague(
     const importProvider = ref.provider;
     if (
       importProvider !== "espn" &&
+      importProvider !== "file" &&
       importProvider !== "sleeper" &&
       importProvider !== "yahoo"
     ) {
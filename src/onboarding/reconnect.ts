@@ -27,6 +27,13 @@ const providerReconnectActions = {
     label: "Reconnect Yahoo",
     message: "Your Yahoo authorization expired before imports could run.",
   },
+  file: {
+    provider: "file",
+    href: "/onboarding/file",
+    label: "Upload again",
+    message:
+      "The stored league file no longer validates. Upload a corrected file to import it.",
+  },
 } satisfies Record<FantasyProviderId, ProviderReconnectAction>;
 
 export function reconnectActionForProvider(
@@ -1,8 +1,11 @@
 import { and, asc, eq } from "drizzle-orm";
 import { type LeagueRole, requireLeagueRoleForUser } from "@/auth/guards";
+import { hasLeaguePermission } from "@/auth/permissions";
 import { AppError, err, ok, type Result, toAppError } from "@/core/result";
 import type { Db } from "@/db/client";
+import { withLeagueContext } from "@/db/rls";
 import { members, users } from "@/db/schema";
+import { recordLeagueRoleGrant } from "@/members/league-roles";
 import { listDataStewardReview } from "@/stats";
 
 export interface DataStewardCandidate {
@@ -55,17 +58,11 @@ function invalidTarget(): AppError {
 }
 
 function canOpenReview(role: LeagueRole): boolean {
-  switch (role) {
-    case "data_steward":
-    case "commissioner":
-      return true;
-    case "member":
-      return false;
-  }
+  return hasLeaguePermission(role, "leagueData:review");
 }
 
 function canAssignStewards(role: LeagueRole): boolean {
-  return role === "commissioner";
+  return hasLeaguePermission(role, "roles:grant");
 }
 
 function canBeDesignated(role: LeagueRole): boolean {
@@ -75,8 +72,16 @@ function canBeDesignated(role: LeagueRole): boolean {
       return true;
     // A commissioner already holds every steward capability, so designating one
     // would be a demotion dressed as a promotion. (Pre-0082 `league_admin` was
-    // excluded here for the same reason and collapsed into this case.)
+    // excluded here for the same reason and collapsed into this case.) The
+    // co-commissioner is in the same position.
     case "commissioner":
+    case "co_commissioner":
+      return false;
+    // Swapping a specialist role, or seating a spectator, is a role grant
+    // from the roles panel rather than a steward designation.
+    case "editor":
+    case "lore_keeper":
+    case "spectator":
       return false;
   }
 }
@@ -224,7 +229,7 @@ export async function assignDataSteward(
 ): Promise<Result<AssignDataStewardResult, AppError>> {
   const access = await requireLeagueRoleForUser(db, {
     leagueId: input.leagueId,
-    minRole: "commissioner",
+    permission: "roles:grant",
     userId: input.actorUserId,
   });
   if (!access.ok) {
@@ -258,15 +263,24 @@ export async function assignDataSteward(
     }
 
     if (target.role !== "data_steward") {
-      await db
-        .update(members)
-        .set({ role: "data_steward", updatedAt: new Date() })
-        .where(
-          and(
-            eq(members.organizationId, input.leagueId),
-            eq(members.id, input.targetMemberId),
-          ),
-        );
+      await withLeagueContext(db, input.leagueId, async (tx) => {
+        await tx
+          .update(members)
+          .set({ role: "data_steward", updatedAt: new Date() })
+          .where(
+            and(
+              eq(members.organizationId, input.leagueId),
+              eq(members.id, input.targetMemberId),
+            ),
+          );
+        await recordLeagueRoleGrant(tx, {
+          actorUserId: input.actorUserId,
+          leagueId: input.leagueId,
+          previousRole: target.role,
+          role: "data_steward",
+          targetUserId: target.userId,
+        });
+      });
     }
 
     return ok({
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, parseFileImportBundle } from "./bundle";
+
+const csvBundle = {
+  format: "csv",
+  league: { name: "Basement League" },
+  sections: {
+    matchups: [
+      "season,week,home_team_id,home_score,away_team_id,away_score",
+      "2024,1,1,110.5,2,98.2",
+      "2023,1,2,101,1,99",
+    ].join("\n"),
+    members: [
+      "season,member_id,display_name,role",
+      "2024,m1,Avery,commissioner",
+      "2024,m2,Blake,",
+      "2023,m1,Avery,commissioner",
+      "2023,m2,Blake,",
+    ].join("\n"),
+    teams: [
+      "season,team_id,name,owner_ids",
+      '2024,1,"Avery, Esq.",m1',
+      "2024,2,Blake's Team,m2",
+      "2023,1,Avery's Team,m1",
+      "2023,2,Blake's Team,m2",
+    ].join("\n"),
+  },
+};
+
+describe("parseCsv", () => {
+  it("keeps quoted commas, newlines, and doubled quotes inside one cell", () => {
+    expect(parseCsv('a,b\r\n"x, ""y""\nz",2\n')).toEqual([
+      ["a", "b"],
+      ['x, "y"\nz', "2"],
+    ]);
+  });
+
+  it("strips a byte-order mark and rejects an unterminated quote", () => {
+    expect(parseCsv("﻿season\n2024")).toEqual([["season"], ["2024"]]);
+    expect(parseCsv('season\n"2024')).toBeNull();
+  });
+});
+
+describe("parseFileImportBundle", () => {
+  it("parses a CSV bundle into typed rows with seasons newest first", () => {
+    const parsed = parseFileImportBundle(csvBundle);
+
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.bundle.seasons).toEqual([2024, 2023]);
+    expect(parsed.bundle.teams[0]).toMatchObject({
+      name: "Avery, Esq.",
+      owner_ids: ["m1"],
+      season: 2024,
+      team_id: "1",
+    });
+    expect(parsed.bundle.matchups[0]?.home_score).toBe(110.5);
+    expect(parsed.bundle.members[1]?.role).toBeUndefined();
+  });
+
+  it("reports every bad row with its spreadsheet row number and column", () => {
+    const parsed = parseFileImportBundle({
+      ...csvBundle,
+      sections: {
+        ...csvBundle.sections,
+        matchups: [
+          "season,week,home_team_id,home_score,away_team_id,away_score",
+          "2024,1,1,110.5,2,98.2",
+          "",
+          "2024,zero,1,abc,2,98.2",
+        ].join("\n"),
+      },
+    });
+
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.issues).toEqual([
+      {
+        column: "home_score",
+        message: "must be a number",
+        row: 4,
+        section: "matchups",
+      },
+      {
+        column: "week",
+        message: "must be a number",
+        row: 4,
+        section: "matchups",
+      },
+    ]);
+  });
+
+  it("numbers JSON rows from one and flags dangling references", () => {
+    const parsed = parseFileImportBundle({
+      format: "json",
+      league: { name: "Basement League" },
+      sections: {
+        matchups: [
+          { home_score: 100, home_team_id: "1", season: 2024, week: 1 },
+          {
+            away_team_id: "9",
+            home_score: 90,
+            home_team_id: "1",
+            season: 2024,
+            week: 2,
+          },
+        ],
+        members: [{ display_name: "Avery", member_id: "m1", season: 2024 }],
+        teams: [
+          { name: "Avery's Team", owner_ids: ["m1"], season: 2024, team_id: 1 },
+          { name: "Ghost", owner_ids: "m7", season: 2024, team_id: 2 },
+        ],
+      },
+    });
+
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          column: "owner_ids",
+          row: 2,
+          section: "teams",
+        }),
+        expect.objectContaining({
+          column: "away_team_id",
+          row: 2,
+          section: "matchups",
+        }),
+      ]),
+    );
+  });
+
+  it("rejects a gap between seasons", () => {
+    const parsed = parseFileImportBundle({
+      ...csvBundle,
+      sections: {
+        ...csvBundle.sections,
+        members: csvBundle.sections.members.replaceAll("2023", "2021"),
+        teams: csvBundle.sections.teams.replaceAll("2023", "2021"),
+        matchups: csvBundle.sections.matchups.replace("2023,", "2021,"),
+      },
+    });
+
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.issues).toContainEqual({
+      message: "seasons must be consecutive; 2022-2023 is missing",
+      section: "teams",
+    });
+  });
+
+  it("reports envelope problems before reading any rows", () => {
+    const parsed = parseFileImportBundle({ format: "xlsx", sections: {} });
+
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.issues.map((issue) => issue.section)).toContain("league");
+  });
+});
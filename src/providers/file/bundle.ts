@@ -0,0 +1,686 @@
+import { z } from "zod";
+
+/**
+ * The documented league-history bundle accepted by the file-import provider.
+ *
+ * Leagues on platforms Rumbledore has no adapter for (Fleaflicker, MFL,
+ * NFL.com, a commissioner's spreadsheet) can export their history into this
+ * shape and join through the same import, quarantine, and identity-resolution
+ * pipeline as ESPN, Sleeper, and Yahoo.
+ *
+ * A bundle is either JSON (`format: "json"`, each section an array of row
+ * objects) or CSV (`format: "csv"`, each section the text of one CSV file with
+ * a header row). Both carry the same snake_case columns, so a spreadsheet can
+ * be exported section by section and a script can emit JSON without the two
+ * ever disagreeing on a field name.
+ *
+ * Sections, one row per record, every row carrying its `season`:
+ *
+ * - `teams`: `season`, `team_id`, `name`, `owner_ids` (`;`-separated member
+ *   ids), optional `abbrev`, `division`.
+ * - `members`: `season`, `member_id`, `display_name`, optional `role`
+ *   (`commissioner` or `member`). Keep `member_id` stable across seasons; it
+ *   is what identity resolution follows from year to year.
+ * - `matchups`: `season`, `week`, `home_team_id`, `home_score`, optional
+ *   `away_team_id` and `away_score` (blank for a bye), optional `kind`
+ *   (`head_to_head`, `median`).
+ * - `standings`: `season`, `team_id`, `rank`, `wins`, `losses`, `ties`,
+ *   `points_for`, `points_against`, optional `playoff_seed`. Seasons without
+ *   rows fall back to regular-season order at low confidence.
+ * - `draft` (optional): `season`, `round`, `team_id`, `player_name`, optional
+ *   `pick`, `player_id`, `position`, `auction_value`, `is_keeper`.
+ * - `transactions` (optional): `season`, `transaction_id`, `type` (`add`,
+ *   `drop`, `trade`, `waiver`), `timestamp` (ISO 8601), `team_ids`
+ *   (`;`-separated), optional `player_ids`, `week`.
+ *
+ * Validation never stops at the first problem. Every bad row is reported with
+ * its section, row number, and column so the uploader can fix the file in one
+ * pass: CSV rows are numbered as a spreadsheet shows them (the header is row
+ * 1), JSON rows from 1.
+ */
+
+export const FILE_IMPORT_SECTIONS = [
+  "teams",
+  "members",
+  "matchups",
+  "standings",
+  "draft",
+  "transactions",
+] as const;
+
+export type FileImportSection = (typeof FILE_IMPORT_SECTIONS)[number];
+
+/** One problem in an uploaded bundle, pointing at the row that caused it. */
+export interface FileImportIssue {
+  readonly column?: string;
+  readonly message: string;
+  /** Spreadsheet row for CSV (header is 1), 1-based index for JSON. */
+  readonly row?: number;
+  readonly section: FileImportSection | "bundle" | "league";
+}
+
+/** Caps the report so a wholly malformed file cannot produce a huge payload. */
+export const MAX_REPORTED_FILE_IMPORT_ISSUES = 200;
+
+const MIN_SEASON = 2000;
+const MAX_SEASON = 2100;
+
+const trimmed = z.string().trim();
+const requiredText = trimmed.min(1, "is required");
+const optionalText = z.preprocess(
+  (value) =>
+    value === null || (typeof value === "string" && value.trim() === "")
+      ? undefined
+      : value,
+  trimmed.optional(),
+);
+const idText = z.preprocess(
+  (value) => (typeof value === "number" ? String(value) : value),
+  requiredText,
+);
+
+function numberCell(options: { integer?: boolean; min?: number } = {}) {
+  let schema = z.number({ error: "must be a number" });
+  if (options.integer) {
+    schema = schema.int("must be a whole number");
+  }
+  if (options.min !== undefined) {
+    schema = schema.min(options.min, `must be at least ${options.min}`);
+  }
+  return z.preprocess((value) => {
+    if (typeof value === "string") {
+      const text = value.trim();
+      return text === "" ? undefined : Number(text);
+    }
+    return value;
+  }, schema);
+}
+
+function optionalNumberCell(options: { integer?: boolean; min?: number } = {}) {
+  return z.preprocess(
+    (value) =>
+      value === null || (typeof value === "string" && value.trim() === "")
+        ? undefined
+        : value,
+    numberCell(options).optional(),
+  );
+}
+
+const idList = z.preprocess((value) => {
+  if (typeof value === "string") {
+    return value
+      .split(";")
+      .map((part) => part.trim())
+      .filter((part) => part.length > 0);
+  }
+  if (Array.isArray(value)) {
+    return value.map((part) =>
+      typeof part === "number" ? String(part) : part,
+    );
+  }
+  return value ?? [];
+}, z.array(requiredText));
+
+const booleanCell = z.preprocess((value) => {
+  if (typeof value === "string") {
+    const text = value.trim().toLowerCase();
+    if (text === "") return undefined;
+    if (["true", "yes", "y", "1"].includes(text)) return true;
+    if (["false", "no", "n", "0"].includes(text)) return false;
+  }
+  return value;
+}, z.boolean({ error: "must be true or false" }).optional());
+
+const seasonCell = numberCell({ integer: true, min: MIN_SEASON }).pipe(
+  z.number().max(MAX_SEASON, `must be at most ${MAX_SEASON}`),
+);
+
+const teamRowSchema = z.object({
+  abbrev: optionalText,
+  division: optionalText,
+  name: requiredText,
+  owner_ids: idList,
+  season: seasonCell,
+  team_id: idText,
+});
+
+const memberRowSchema = z.object({
+  display_name: requiredText,
+  member_id: idText,
+  role: z.preprocess(
+    (value) =>
+      typeof value === "string" && value.trim() === ""
+        ? undefined
+        : typeof value === "string"
+          ? value.trim().toLowerCase()
+          : value,
+    z
+      .enum(["commissioner", "member"], {
+        error: "must be commissioner or member",
+      })
+      .optional(),
+  ),
+  season: seasonCell,
+});
+
+const matchupRowSchema = z.object({
+  away_score: optionalNumberCell(),
+  away_team_id: optionalText,
+  home_score: numberCell(),
+  home_team_id: idText,
+  kind: z.preprocess(
+    (value) =>
+      typeof value === "string" && value.trim() === "" ? undefined : value,
+    z
+      .enum(["head_to_head", "median"], {
+        error: "must be head_to_head or median",
+      })
+      .optional(),
+  ),
+  season: seasonCell,
+  week: numberCell({ integer: true, min: 1 }),
+});
+
+const standingRowSchema = z.object({
+  losses: numberCell({ integer: true, min: 0 }),
+  playoff_seed: optionalNumberCell({ integer: true, min: 1 }),
+  points_against: numberCell({ min: 0 }),
+  points_for: numberCell({ min: 0 }),
+  rank: numberCell({ integer: true, min: 1 }),
+  season: seasonCell,
+  team_id: idText,
+  ties: numberCell({ integer: true, min: 0 }),
+  wins: numberCell({ integer: true, min: 0 }),
+});
+
+const draftRowSchema = z.object({
+  auction_value: optionalNumberCell({ min: 0 }),
+  is_keeper: booleanCell,
+  pick: optionalNumberCell({ integer: true, min: 1 }),
+  player_id: optionalText,
+  player_name: requiredText,
+  position: optionalText,
+  round: numberCell({ integer: true, min: 1 }),
+  season: seasonCell,
+  team_id: idText,
+});
+
+const transactionRowSchema = z.object({
+  player_ids: idList,
+  season: seasonCell,
+  team_ids: idList.pipe(z.array(z.string()).min(1, "needs at least one team")),
+  timestamp: z.preprocess(
+    (value) => (typeof value === "string" ? new Date(value.trim()) : value),
+    z.date({ error: "must be an ISO 8601 timestamp" }),
+  ),
+  transaction_id: idText,
+  type: z.preprocess(
+    (value) => (typeof value === "string" ? value.trim().toLowerCase() : value),
+    z.enum(["add", "drop", "trade", "waiver"], {
+      error: "must be add, drop, trade, or waiver",
+    }),
+  ),
+  week: optionalNumberCell({ integer: true, min: 1 }),
+});
+
+export type FileImportTeamRow = z.infer<typeof teamRowSchema>;
+export type FileImportMemberRow = z.infer<typeof memberRowSchema>;
+export type FileImportMatchupRow = z.infer<typeof matchupRowSchema>;
+export type FileImportStandingRow = z.infer<typeof standingRowSchema>;
+export type FileImportDraftRow = z.infer<typeof draftRowSchema>;
+export type FileImportTransactionRow = z.infer<typeof transactionRowSchema>;
+
+const rowSchemas = {
+  draft: draftRowSchema,
+  matchups: matchupRowSchema,
+  members: memberRowSchema,
+  standings: standingRowSchema,
+  teams: teamRowSchema,
+  transactions: transactionRowSchema,
+} satisfies Record<FileImportSection, z.ZodType<unknown>>;
+
+const sectionValue = z.union([z.string(), z.array(z.unknown())]);
+
+export const fileImportBundleSchema = z.object({
+  format: z.enum(["csv", "json"]),
+  league: z.object({
+    /** Stable key for re-uploads; defaults to the league name. */
+    key: trimmed.min(1).max(120).optional(),
+    name: trimmed.min(1).max(120),
+    scoring_type: trimmed.min(1).max(40).optional(),
+  }),
+  version: z.literal(1).optional(),
+  sections: z.object({
+    draft: sectionValue.optional(),
+    matchups: sectionValue,
+    members: sectionValue,
+    standings: sectionValue.optional(),
+    teams: sectionValue,
+    transactions: sectionValue.optional(),
+  }),
+});
+
+export type FileImportBundleInput = z.infer<typeof fileImportBundleSchema>;
+
+export interface ParsedFileImportBundle {
+  readonly draft: readonly FileImportDraftRow[];
+  readonly league: FileImportBundleInput["league"];
+  readonly matchups: readonly FileImportMatchupRow[];
+  readonly members: readonly FileImportMemberRow[];
+  /** Newest first, consecutive. */
+  readonly seasons: readonly number[];
+  readonly standings: readonly FileImportStandingRow[];
+  readonly teams: readonly FileImportTeamRow[];
+  readonly transactions: readonly FileImportTransactionRow[];
+}
+
+export type FileImportParseResult =
+  | { readonly bundle: ParsedFileImportBundle; readonly ok: true }
+  | { readonly issues: readonly FileImportIssue[]; readonly ok: false };
+
+/**
+ * Splits CSV text into rows of cells. RFC 4180 quoting: a quoted cell may hold
+ * commas, newlines, and doubled quotes. Returns `null` for an unterminated
+ * quote, which would otherwise silently swallow the rest of the file.
+ */
+export function parseCsv(text: string): string[][] | null {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const source = text.startsWith("﻿") ? text.slice(1) : text;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"') {
+        if (source[index + 1] === '"') {
+          cell += '"';
+          index += 1;
+        } else {
+          quoted = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+    if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    return null;
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function isBlankRecord(cells: readonly string[]): boolean {
+  return cells.every((value) => value.trim() === "");
+}
+
+interface SectionRow {
+  readonly row: number;
+  readonly value: unknown;
+}
+
+function sectionRows(
+  section: FileImportSection,
+  format: FileImportBundleInput["format"],
+  value: string | unknown[] | undefined,
+  issues: FileImportIssue[],
+): SectionRow[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (format === "json") {
+    if (!Array.isArray(value)) {
+      issues.push({ message: "must be an array of rows", section });
+      return [];
+    }
+    return value.map((row, index) => ({ row: index + 1, value: row }));
+  }
+
+  if (typeof value !== "string") {
+    issues.push({ message: "must be CSV text", section });
+    return [];
+  }
+  const parsed = parseCsv(value);
+  if (parsed === null) {
+    issues.push({ message: "has an unterminated quoted cell", section });
+    return [];
+  }
+  const [header, ...records] = parsed;
+  if (!header || isBlankRecord(header)) {
+    return [];
+  }
+  const columns = header.map((column) => column.trim().toLowerCase());
+  // Numbered by record, not by text line, so a quoted cell with a newline in
+  // it still matches the row a spreadsheet shows. Blank records are skipped
+  // but keep their number so later rows do not shift.
+  return records.flatMap((cells, index) =>
+    isBlankRecord(cells)
+      ? []
+      : [
+          {
+            row: index + 2,
+            value: Object.fromEntries(
+              columns.map((column, cellIndex) => [
+                column,
+                cells[cellIndex] ?? "",
+              ]),
+            ),
+          },
+        ],
+  );
+}
+
+// Zod does not echo the input on an issue by default, so "missing" is decided
+// from the raw row rather than from the issue.
+function isMissingCell(row: unknown, column: PropertyKey | undefined): boolean {
+  if (typeof column !== "string" || !row || typeof row !== "object") {
+    return false;
+  }
+  const cell = (row as Record<string, unknown>)[column];
+  return (
+    cell === undefined ||
+    cell === null ||
+    (typeof cell === "string" && cell.trim() === "")
+  );
+}
+
+function parseSection<S extends FileImportSection>(
+  section: S,
+  rows: readonly SectionRow[],
+  issues: FileImportIssue[],
+): z.infer<(typeof rowSchemas)[S]>[] {
+  const schema = rowSchemas[section];
+  const parsed: z.infer<(typeof rowSchemas)[S]>[] = [];
+  for (const { row, value } of rows) {
+    const result = schema.safeParse(value);
+    if (result.success) {
+      parsed.push(result.data as z.infer<(typeof rowSchemas)[S]>);
+      continue;
+    }
+    for (const issue of result.error.issues) {
+      const column = issue.path[0];
+      issues.push({
+        ...(typeof column === "string" ? { column } : {}),
+        message:
+          issue.code === "invalid_type" && isMissingCell(value, column)
+            ? "is required"
+            : issue.message,
+        row,
+        section,
+      });
+    }
+  }
+  return parsed;
+}
+
+function rowsWithNumbers<T>(
+  rows: readonly SectionRow[],
+  parsed: readonly T[],
+): Array<{ row: number; value: T }> {
+  // Cross-row checks run only once every row has parsed, so the two arrays
+  // line up index for index.
+  return parsed.map((value, index) => ({
+    row: rows[index]?.row ?? index + 1,
+    value,
+  }));
+}
+
+/**
+ * Validates and parses an uploaded bundle. Row-level problems are collected
+ * for the whole file before anything is returned; cross-row checks (dangling
+ * team and member references, duplicate ids, season gaps) run only once every
+ * row parses, since a reference into a broken row would be reported twice.
+ */
+export function parseFileImportBundle(input: unknown): FileImportParseResult {
+  const envelope = fileImportBundleSchema.safeParse(input);
+  if (!envelope.success) {
+    return {
+      issues: envelope.error.issues
+        .slice(0, MAX_REPORTED_FILE_IMPORT_ISSUES)
+        .map((issue) => ({
+          message: `${issue.path.join(".") || "bundle"} ${issue.message}`,
+          section: issue.path[0] === "league" ? "league" : "bundle",
+        })),
+      ok: false,
+    };
+  }
+
+  const { format, league, sections } = envelope.data;
+  const issues: FileImportIssue[] = [];
+  const raw = Object.fromEntries(
+    FILE_IMPORT_SECTIONS.map((section) => [
+      section,
+      sectionRows(section, format, sections[section], issues),
+    ]),
+  ) as Record<FileImportSection, SectionRow[]>;
+
+  const teams = parseSection("teams", raw.teams, issues);
+  const members = parseSection("members", raw.members, issues);
+  const matchups = parseSection("matchups", raw.matchups, issues);
+  const standings = parseSection("standings", raw.standings, issues);
+  const draft = parseSection("draft", raw.draft, issues);
+  const transactions = parseSection("transactions", raw.transactions, issues);
+
+  if (raw.teams.length === 0 && !issues.some((i) => i.section === "teams")) {
+    issues.push({ message: "needs at least one team", section: "teams" });
+  }
+  if (issues.length > 0) {
+    return {
+      issues: issues.slice(0, MAX_REPORTED_FILE_IMPORT_ISSUES),
+      ok: false,
+    };
+  }
+
+  checkReferences({
+    draft: rowsWithNumbers(raw.draft, draft),
+    issues,
+    matchups: rowsWithNumbers(raw.matchups, matchups),
+    members: rowsWithNumbers(raw.members, members),
+    standings: rowsWithNumbers(raw.standings, standings),
+    teams: rowsWithNumbers(raw.teams, teams),
+    transactions: rowsWithNumbers(raw.transactions, transactions),
+  });
+
+  const seasons = [...new Set(teams.map((team) => team.season))].sort(
+    (left, right) => right - left,
+  );
+  for (let index = 1; index < seasons.length; index += 1) {
+    const newer = seasons[index - 1] as number;
+    const older = seasons[index] as number;
+    if (newer - older > 1) {
+      // History imports walk backward one season at a time and stop at the
+      // first empty one, so a gap would silently drop every older season.
+      issues.push({
+        message: `seasons must be consecutive; ${older + 1}${
+          newer - older > 2 ? `-${newer - 1}` : ""
+        } is missing`,
+        section: "teams",
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    return {
+      issues: issues.slice(0, MAX_REPORTED_FILE_IMPORT_ISSUES),
+      ok: false,
+    };
+  }
+
+  return {
+    bundle: {
+      draft,
+      league,
+      matchups,
+      members,
+      seasons,
+      standings,
+      teams,
+      transactions,
+    },
+    ok: true,
+  };
+}
+
+function checkReferences(input: {
+  draft: Array<{ row: number; value: FileImportDraftRow }>;
+  issues: FileImportIssue[];
+  matchups: Array<{ row: number; value: FileImportMatchupRow }>;
+  members: Array<{ row: number; value: FileImportMemberRow }>;
+  standings: Array<{ row: number; value: FileImportStandingRow }>;
+  teams: Array<{ row: number; value: FileImportTeamRow }>;
+  transactions: Array<{ row: number; value: FileImportTransactionRow }>;
+}) {
+  const { issues } = input;
+  const key = (season: number, id: string) => `${season}:${id}`;
+
+  const teamKeys = new Set<string>();
+  for (const { row, value } of input.teams) {
+    const teamKey = key(value.season, value.team_id);
+    if (teamKeys.has(teamKey)) {
+      issues.push({
+        column: "team_id",
+        message: `duplicates team ${value.team_id} in ${value.season}`,
+        row,
+        section: "teams",
+      });
+    }
+    teamKeys.add(teamKey);
+  }
+
+  const memberKeys = new Set<string>();
+  for (const { row, value } of input.members) {
+    const memberKey = key(value.season, value.member_id);
+    if (memberKeys.has(memberKey)) {
+      issues.push({
+        column: "member_id",
+        message: `duplicates member ${value.member_id} in ${value.season}`,
+        row,
+        section: "members",
+      });
+    }
+    memberKeys.add(memberKey);
+  }
+
+  for (const { row, value } of input.teams) {
+    for (const ownerId of value.owner_ids) {
+      if (!memberKeys.has(key(value.season, ownerId))) {
+        issues.push({
+          column: "owner_ids",
+          message: `names member ${ownerId}, who has no ${value.season} members row`,
+          row,
+          section: "teams",
+        });
+      }
+    }
+  }
+
+  const requireTeam = (
+    section: FileImportSection,
+    column: string,
+    row: number,
+    season: number,
+    teamId: string,
+  ) => {
+    if (!teamKeys.has(key(season, teamId))) {
+      issues.push({
+        column,
+        message: `names team ${teamId}, which has no ${season} teams row`,
+        row,
+        section,
+      });
+    }
+  };
+
+  for (const { row, value } of input.matchups) {
+    requireTeam(
+      "matchups",
+      "home_team_id",
+      row,
+      value.season,
+      value.home_team_id,
+    );
+    if (value.away_team_id !== undefined) {
+      requireTeam(
+        "matchups",
+        "away_team_id",
+        row,
+        value.season,
+        value.away_team_id,
+      );
+      if (value.away_team_id === value.home_team_id) {
+        issues.push({
+          column: "away_team_id",
+          message: "is the same team as home_team_id",
+          row,
+          section: "matchups",
+        });
+      }
+      if (value.away_score === undefined) {
+        issues.push({
+          column: "away_score",
+          message: "is required when away_team_id is set",
+          row,
+          section: "matchups",
+        });
+      }
+    }
+  }
+
+  const standingKeys = new Set<string>();
+  for (const { row, value } of input.standings) {
+    requireTeam("standings", "team_id", row, value.season, value.team_id);
+    const standingKey = key(value.season, value.team_id);
+    if (standingKeys.has(standingKey)) {
+      issues.push({
+        column: "team_id",
+        message: `has a second ${value.season} standings row for team ${value.team_id}`,
+        row,
+        section: "standings",
+      });
+    }
+    standingKeys.add(standingKey);
+  }
+
+  for (const { row, value } of input.draft) {
+    requireTeam("draft", "team_id", row, value.season, value.team_id);
+  }
+
+  const transactionKeys = new Set<string>();
+  for (const { row, value } of input.transactions) {
+    for (const teamId of value.team_ids) {
+      requireTeam("transactions", "team_ids", row, value.season, teamId);
+    }
+    const transactionKey = key(value.season, value.transaction_id);
+    if (transactionKeys.has(transactionKey)) {
+      issues.push({
+        column: "transaction_id",
+        message: `duplicates transaction ${value.transaction_id} in ${value.season}`,
+        row,
+        section: "transactions",
+      });
+    }
+    transactionKeys.add(transactionKey);
+  }
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import type { ProviderLeagueRef } from "../model";
+import {
+  authenticateFileImport,
+  createFileProvider,
+  FileImportInvalidError,
+  type FileSession,
+} from "./client";
+
+const providerLeagueId = "file-0123456789abcdef01234567";
+
+const bundle = {
+  format: "json",
+  league: { name: "Basement League", scoring_type: "ppr" },
+  sections: {
+    draft: [
+      {
+        player_name: "Bijan Robinson",
+        position: "RB",
+        round: 1,
+        season: 2024,
+        team_id: "1",
+      },
+    ],
+    matchups: [
+      {
+        away_score: 98.2,
+        away_team_id: "2",
+        home_score: 110.5,
+        home_team_id: "1",
+        season: 2024,
+        week: 1,
+      },
+      {
+        away_score: 120,
+        away_team_id: "2",
+        home_score: 99,
+        home_team_id: "1",
+        season: 2023,
+        week: 1,
+      },
+      {
+        away_score: 130,
+        away_team_id: "2",
+        home_score: 88,
+        home_team_id: "1",
+        season: 2023,
+        week: 2,
+      },
+    ],
+    members: [2024, 2023].flatMap((season) => [
+      { display_name: "Avery", member_id: "m1", role: "commissioner", season },
+      { display_name: "Blake", member_id: "m2", season },
+    ]),
+    standings: [
+      {
+        losses: 0,
+        points_against: 98.2,
+        points_for: 110.5,
+        rank: 1,
+        season: 2024,
+        team_id: "1",
+        ties: 0,
+        wins: 1,
+      },
+      {
+        losses: 1,
+        points_against: 110.5,
+        points_for: 98.2,
+        rank: 2,
+        season: 2024,
+        team_id: "2",
+        ties: 0,
+        wins: 0,
+      },
+    ],
+    teams: [2024, 2023].flatMap((season) => [
+      { name: "Avery's Team", owner_ids: "m1", season, team_id: "1" },
+      { name: "Blake's Team", owner_ids: "m2", season, team_id: "2" },
+    ]),
+    transactions: [
+      {
+        player_ids: "p1",
+        season: 2024,
+        team_ids: "1",
+        timestamp: "2024-09-10T12:00:00Z",
+        transaction_id: "t1",
+        type: "add",
+        week: 2,
+      },
+    ],
+  },
+};
+
+function session(): FileSession {
+  const result = authenticateFileImport({ bundle, providerLeagueId });
+  if (!result.ok) {
+    throw result.error;
+  }
+  return result.value;
+}
+
+function ref(season: number): ProviderLeagueRef {
+  return {
+    name: "Basement League",
+    provider: "file",
+    providerId: providerLeagueId,
+    season,
+    sport: "ffl",
+  };
+}
+
+async function historyFor(seasons: number[]) {
+  const history = await createFileProvider().getHistory(session(), ref(2024), {
+    seasons,
+  });
+  if (!history.ok) {
+    throw history.error;
+  }
+  return history.value;
+}
+
+describe("file provider", () => {
+  it("discovers the newest season of the uploaded league", async () => {
+    const discovered = await createFileProvider().discoverLeagues(session());
+
+    expect(discovered).toEqual({
+      ok: true,
+      value: [{ ...ref(2024), size: 2 }],
+    });
+  });
+
+  it("normalizes reported standings, drafts, and transactions", async () => {
+    const [season] = await historyFor([2024]);
+
+    expect(season?.league).toMatchObject({
+      providerId: providerLeagueId,
+      scoringType: "ppr",
+      status: "complete",
+    });
+    expect(season?.finalStandings[0]).toMatchObject({
+      rank: 1,
+      rankConfidence: "high",
+      rankSource: "provider_reported",
+    });
+    expect(season?.draftPicks?.[0]).toMatchObject({
+      pickOverall: 1,
+      playerRef: { providerId: "name:bijan robinson:rb" },
+    });
+    expect(season?.transactions[0]).toMatchObject({
+      details: { source: "file_import" },
+      playerRefs: [{ provider: "file", providerId: "p1" }],
+      scoringPeriod: 2,
+      type: "add",
+    });
+  });
+
+  it("derives records and low-confidence standings when a season has none", async () => {
+    const [season] = await historyFor([2023]);
+
+    expect(
+      season?.teams.find((team) => team.providerId === "2")?.record,
+    ).toEqual({
+      losses: 0,
+      pointsAgainst: 187,
+      pointsFor: 250,
+      ties: 0,
+      wins: 2,
+    });
+    expect(season?.finalStandings[0]).toMatchObject({
+      rank: 1,
+      rankConfidence: "low",
+      rankSource: "regular_season_fallback",
+      teamRef: { providerId: "2" },
+    });
+  });
+
+  it("returns no seasons past the oldest one in the file", async () => {
+    expect(await historyFor([2022])).toEqual([]);
+  });
+
+  it("rejects a stored bundle that no longer validates with its row report", () => {
+    const result = authenticateFileImport({
+      bundle: { ...bundle, sections: { ...bundle.sections, teams: [] } },
+      providerLeagueId,
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBeInstanceOf(FileImportInvalidError);
+    expect((result.error as FileImportInvalidError).issues).toContainEqual({
+      message: "needs at least one team",
+      section: "teams",
+    });
+  });
+});
@@ -0,0 +1,479 @@
+import { z } from "zod";
+import { err, ok } from "@/core/result";
+import type {
+  FantasyProvider,
+  FantasyProviderCapabilities,
+  FantasyProviderSession,
+  NormalizedDraftPick,
+  NormalizedFinalStanding,
+  NormalizedLeague,
+  NormalizedMatchup,
+  NormalizedMember,
+  NormalizedPlayer,
+  NormalizedSeasonBundle,
+  NormalizedTeam,
+  NormalizedTransaction,
+  ProviderLeagueRef,
+  ProviderResult,
+} from "../model";
+import { ProviderNotFoundError, ProviderParseError } from "../model";
+import {
+  type FileImportIssue,
+  type ParsedFileImportBundle,
+  parseFileImportBundle,
+} from "./bundle";
+
+/**
+ * The file-import provider: a `FantasyProvider` whose "remote" is a bundle the
+ * user uploaded.
+ *
+ * The uploaded bundle is stored as this provider's credential, encrypted like
+ * any other. That is a stretch of the word, but it is the same stretch Sleeper
+ * makes with a public username — the credential is whatever the provider needs
+ * to fetch the league — and it lets discovery, shadow import, quarantine, and
+ * identity resolution run unchanged.
+ *
+ * File imports are one-shot history. There is no live source behind them, so
+ * live ingestion, season rollover, and the payload drift canary skip this
+ * provider; a league refreshes by uploading a corrected bundle.
+ */
+
+export const FILE_PROVIDER_ID = "file";
+
+export const FILE_PROVIDER_CAPABILITIES: FantasyProviderCapabilities = {
+  authKind: "none",
+  dataClasses: {
+    league: "full",
+    teams: "full",
+    members: "full",
+    rosters: "none",
+    matchups: "full",
+    // Seasons without standings rows fall back to regular-season order.
+    final_standings: "partial",
+    transactions: "partial",
+    history: "full",
+    divisions: "partial",
+    keeper_dynasty: "partial",
+    scoring_detail: "none",
+  },
+  requiresOAuth: false,
+  supportsHistory: true,
+  supportsRosters: false,
+  supportsTransactions: true,
+};
+
+export const fileCredentialsSchema = z.object({
+  bundle: z.unknown(),
+  /**
+   * Assigned by onboarding, never by the bundle: provider league ids are
+   * unique across all users, and two uploads of "The League" must not collide.
+   */
+  providerLeagueId: z.string().regex(/^file-[0-9a-f]{24}$/),
+});
+
+export type FileCredentials = z.infer<typeof fileCredentialsSchema>;
+
+export interface FileSession extends FantasyProviderSession {
+  bundle: ParsedFileImportBundle;
+  providerLeagueId: string;
+}
+
+export type FileProvider = FantasyProvider<FileCredentials, FileSession>;
+
+/** A stored bundle that no longer validates, carrying the row-level report. */
+export class FileImportInvalidError extends ProviderParseError {
+  readonly issues: readonly FileImportIssue[];
+
+  constructor(issues: readonly FileImportIssue[]) {
+    super(
+      FILE_PROVIDER_ID,
+      `League file has ${issues.length} ${issues.length === 1 ? "problem" : "problems"}`,
+    );
+    this.name = "FileImportInvalidError";
+    this.issues = issues;
+  }
+}
+
+function seasonRef(season: number, providerId: string) {
+  return {
+    provider: FILE_PROVIDER_ID,
+    providerId,
+    season,
+  } as const;
+}
+
+function playerRef(row: {
+  player_id?: string;
+  player_name: string;
+  position?: string;
+}) {
+  // Exports without player ids still need a stable ref so the same player
+  // drafted twice resolves to one record; name plus position is the closest
+  // thing a spreadsheet has to an id.
+  const providerId =
+    row.player_id ??
+    `name:${row.player_name.toLowerCase().replace(/\s+/g, " ")}:${(
+      row.position ?? ""
+    ).toLowerCase()}`;
+  return { provider: FILE_PROVIDER_ID, providerId } as const;
+}
+
+interface TeamRecord {
+  losses: number;
+  pointsAgainst: number;
+  pointsFor: number;
+  ties: number;
+  wins: number;
+}
+
+function emptyRecord(): TeamRecord {
+  return { losses: 0, pointsAgainst: 0, pointsFor: 0, ties: 0, wins: 0 };
+}
+
+function recordsFromMatchups(
+  bundle: ParsedFileImportBundle,
+  season: number,
+): Map<string, TeamRecord> {
+  const records = new Map<string, TeamRecord>();
+  const recordFor = (teamId: string) => {
+    const existing = records.get(teamId);
+    if (existing) return existing;
+    const created = emptyRecord();
+    records.set(teamId, created);
+    return created;
+  };
+  for (const matchup of bundle.matchups) {
+    if (matchup.season !== season || matchup.away_team_id === undefined) {
+      continue;
+    }
+    const home = recordFor(matchup.home_team_id);
+    const away = recordFor(matchup.away_team_id);
+    const awayScore = matchup.away_score ?? 0;
+    home.pointsFor += matchup.home_score;
+    home.pointsAgainst += awayScore;
+    away.pointsFor += awayScore;
+    away.pointsAgainst += matchup.home_score;
+    if (matchup.home_score > awayScore) {
+      home.wins += 1;
+      away.losses += 1;
+    } else if (matchup.home_score < awayScore) {
+      home.losses += 1;
+      away.wins += 1;
+    } else {
+      home.ties += 1;
+      away.ties += 1;
+    }
+  }
+  return records;
+}
+
+function normalizeSeason(
+  session: FileSession,
+  season: number,
+): NormalizedSeasonBundle {
+  const { bundle, providerLeagueId } = session;
+  const teamRows = bundle.teams.filter((team) => team.season === season);
+  const standingRows = bundle.standings.filter(
+    (standing) => standing.season === season,
+  );
+  const matchupRows = bundle.matchups.filter(
+    (matchup) => matchup.season === season,
+  );
+  const standingByTeam = new Map(
+    standingRows.map((standing) => [standing.team_id, standing]),
+  );
+  const derivedRecords = recordsFromMatchups(bundle, season);
+  const recordFor = (teamId: string): TeamRecord => {
+    const standing = standingByTeam.get(teamId);
+    if (standing) {
+      return {
+        losses: standing.losses,
+        pointsAgainst: standing.points_against,
+        pointsFor: standing.points_for,
+        ties: standing.ties,
+        wins: standing.wins,
+      };
+    }
+    return derivedRecords.get(teamId) ?? emptyRecord();
+  };
+  const lastWeek = matchupRows.reduce(
+    (latest, matchup) => Math.max(latest, matchup.week),
+    0,
+  );
+
+  const league: NormalizedLeague = {
+    currentScoringPeriod: Math.max(lastWeek, 1),
+    name: bundle.league.name,
+    provider: FILE_PROVIDER_ID,
+    providerId: providerLeagueId,
+    scoringType: bundle.league.scoring_type ?? "standard",
+    season,
+    size: teamRows.length,
+    sport: "ffl",
+    status: "complete",
+  };
+
+  const teams: NormalizedTeam[] = teamRows.map((team) => ({
+    ...seasonRef(season, team.team_id),
+    abbrev: team.abbrev ?? team.name.replace(/[^A-Za-z0-9]/g, "").slice(0, 4),
+    leagueProviderId: providerLeagueId,
+    name: team.name,
+    ownerMemberIds: team.owner_ids,
+    record: recordFor(team.team_id),
+    ...(team.division ? { division: team.division } : {}),
+  }));
+
+  const members: NormalizedMember[] = bundle.members
+    .filter((member) => member.season === season)
+    .map((member) => ({
+      displayName: member.display_name,
+      leagueProviderId: providerLeagueId,
+      provider: FILE_PROVIDER_ID,
+      providerId: member.member_id,
+      role: member.role ?? "member",
+      season,
+    }));
+
+  const matchups: NormalizedMatchup[] = matchupRows.map((matchup) => {
+    const awayScore = matchup.away_score;
+    const hasAway = matchup.away_team_id !== undefined;
+    return {
+      ...seasonRef(
+        season,
+        `${season}:${matchup.week}:${matchup.home_team_id}:${matchup.away_team_id ?? "bye"}`,
+      ),
+      homeScore: matchup.home_score,
+      homeTeamRef: seasonRef(season, matchup.home_team_id),
+      kind: matchup.kind ?? "head_to_head",
+      leagueProviderId: providerLeagueId,
+      scoringPeriod: matchup.week,
+      status: "final",
+      winner: !hasAway
+        ? "home"
+        : matchup.home_score > (awayScore ?? 0)
+          ? "home"
+          : matchup.home_score < (awayScore ?? 0)
+            ? "away"
+            : "tie",
+      ...(hasAway
+        ? {
+            awayScore,
+            awayTeamRef: seasonRef(season, matchup.away_team_id as string),
+          }
+        : {}),
+    };
+  });
+
+  const finalStandings: NormalizedFinalStanding[] =
+    standingRows.length > 0
+      ? standingRows.map((standing) => ({
+          leagueProviderId: providerLeagueId,
+          losses: standing.losses,
+          pointsAgainst: standing.points_against,
+          pointsFor: standing.points_for,
+          rank: standing.rank,
+          rankConfidence: "high",
+          rankSource: "provider_reported",
+          teamRef: seasonRef(season, standing.team_id),
+          ties: standing.ties,
+          wins: standing.wins,
+          ...(standing.playoff_seed === undefined
+            ? {}
+            : { playoffSeed: standing.playoff_seed }),
+        }))
+      : [...teams]
+          .sort(
+            (left, right) =>
+              right.record.wins - left.record.wins ||
+              right.record.pointsFor - left.record.pointsFor,
+          )
+          .map((team, index) => ({
+            leagueProviderId: providerLeagueId,
+            losses: team.record.losses,
+            pointsAgainst: team.record.pointsAgainst,
+            pointsFor: team.record.pointsFor,
+            rank: index + 1,
+            rankConfidence: "low",
+            rankSource: "regular_season_fallback",
+            teamRef: seasonRef(season, team.providerId),
+            ties: team.record.ties,
+            wins: team.record.wins,
+          }));
+
+  const players = new Map<string, NormalizedPlayer>();
+  const draftPicks: NormalizedDraftPick[] = bundle.draft
+    .filter((pick) => pick.season === season)
+    .map((pick, index) => {
+      const ref = playerRef(pick);
+      const player: NormalizedPlayer = {
+        ...ref,
+        fullName: pick.player_name,
+        position: pick.position ?? "UNK",
+      };
+      players.set(ref.providerId, player);
+      return {
+        ...seasonRef(season, `${season}:draft:${pick.pick ?? index + 1}`),
+        leagueProviderId: providerLeagueId,
+        pickOverall: pick.pick ?? index + 1,
+        player,
+        playerRef: ref,
+        round: pick.round,
+        teamRef: seasonRef(season, pick.team_id),
+        ...(pick.auction_value === undefined
+          ? {}
+          : { auctionValue: pick.auction_value }),
+        ...(pick.is_keeper === undefined ? {} : { isKeeper: pick.is_keeper }),
+      };
+    });
+
+  const transactions: NormalizedTransaction[] = bundle.transactions
+    .filter((transaction) => transaction.season === season)
+    .map((transaction) => ({
+      ...seasonRef(season, transaction.transaction_id),
+      details: { source: "file_import" },
+      leagueProviderId: providerLeagueId,
+      playerRefs: transaction.player_ids.map((providerId) => ({
+        provider: FILE_PROVIDER_ID,
+        providerId,
+      })),
+      teamRefs: transaction.team_ids.map((teamId) => seasonRef(season, teamId)),
+      timestamp: transaction.timestamp,
+      type: transaction.type,
+      ...(transaction.week === undefined
+        ? {}
+        : { scoringPeriod: transaction.week }),
+    }));
+
+  return {
+    draftPicks,
+    finalStandings,
+    league,
+    matchups,
+    members,
+    players: [...players.values()],
+    teams,
+    transactions,
+  };
+}
+
+function leagueRef(session: FileSession, season: number): ProviderLeagueRef {
+  return {
+    name: session.bundle.league.name,
+    provider: FILE_PROVIDER_ID,
+    providerId: session.providerLeagueId,
+    season,
+    size: session.bundle.teams.filter((team) => team.season === season).length,
+    sport: "ffl",
+  };
+}
+
+function seasonFor(
+  session: FileSession,
+  ref: ProviderLeagueRef,
+): ProviderResult<number> {
+  if (
+    ref.providerId !== session.providerLeagueId ||
+    !session.bundle.seasons.includes(ref.season)
+  ) {
+    return err(
+      new ProviderNotFoundError(FILE_PROVIDER_ID, {
+        providerLeagueId: ref.providerId,
+        season: ref.season,
+      }),
+    );
+  }
+  return ok(ref.season);
+}
+
+export function authenticateFileImport(
+  credentials: unknown,
+): ProviderResult<FileSession> {
+  const parsedCredentials = fileCredentialsSchema.safeParse(credentials);
+  if (!parsedCredentials.success) {
+    return err(
+      new ProviderParseError(
+        FILE_PROVIDER_ID,
+        "Stored league file is missing its league id",
+        parsedCredentials.error,
+      ),
+    );
+  }
+  const parsed = parseFileImportBundle(parsedCredentials.data.bundle);
+  if (!parsed.ok) {
+    return err(new FileImportInvalidError(parsed.issues));
+  }
+  return ok({
+    authKind: "none",
+    bundle: parsed.bundle,
+    provider: FILE_PROVIDER_ID,
+    providerLeagueId: parsedCredentials.data.providerLeagueId,
+    subjectProviderId: parsedCredentials.data.providerLeagueId,
+  });
+}
+
+export function createFileProvider(): FileProvider {
+  const forSeason = <T>(
+    session: FileSession,
+    ref: ProviderLeagueRef,
+    pick: (bundle: NormalizedSeasonBundle) => T,
+  ): Promise<ProviderResult<T>> => {
+    const season = seasonFor(session, ref);
+    return Promise.resolve(
+      season.ok ? ok(pick(normalizeSeason(session, season.value))) : season,
+    );
+  };
+
+  return {
+    id: FILE_PROVIDER_ID,
+    name: "File import",
+    capabilities: FILE_PROVIDER_CAPABILITIES,
+    authenticate: async (credentials) => authenticateFileImport(credentials),
+    // One uploaded league, discovered at its newest season. History import
+    // walks back through the older seasons from there.
+    discoverLeagues: async (session) => {
+      const newest = session.bundle.seasons[0];
+      return ok(newest === undefined ? [] : [leagueRef(session, newest)]);
+    },
+    getLeague: (session, ref) =>
+      forSeason(session, ref, (bundle) => bundle.league),
+    getTeams: (session, ref) =>
+      forSeason(session, ref, (bundle) => bundle.teams),
+    getRosters: async () => ok([]),
+    getDraftPicks: (session, ref) =>
+      forSeason(session, ref, (bundle) => bundle.draftPicks ?? []),
+    getMembers: (session, ref) =>
+      forSeason(session, ref, (bundle) => bundle.members),
+    getMatchups: (session, ref, scoringPeriod) =>
+      forSeason(session, ref, (bundle) =>
+        scoringPeriod === undefined
+          ? bundle.matchups
+          : bundle.matchups.filter(
+              (matchup) => matchup.scoringPeriod === scoringPeriod,
+            ),
+      ),
+    getTransactions: (session, ref, scoringPeriod) =>
+      forSeason(session, ref, (bundle) =>
+        scoringPeriod === undefined
+          ? bundle.transactions
+          : bundle.transactions.filter(
+              (transaction) => transaction.scoringPeriod === scoringPeriod,
+            ),
+      ),
+    getHistory: async (session, ref, options) => {
+      if (ref.providerId !== session.providerLeagueId) {
+        return err(
+          new ProviderNotFoundError(FILE_PROVIDER_ID, {
+            providerLeagueId: ref.providerId,
+          }),
+        );
+      }
+      // Seasons the file does not cover come back empty, which is how the
+      // history importer learns it has reached the oldest season.
+      return ok(
+        options.seasons
+          .filter((season) => session.bundle.seasons.includes(season))
+          .map((season) => normalizeSeason(session, season)),
+      );
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import "server-only";
+
+export {
+  FILE_IMPORT_SECTIONS,
+  type FileImportBundleInput,
+  type FileImportIssue,
+  type FileImportParseResult,
+  type FileImportSection,
+  MAX_REPORTED_FILE_IMPORT_ISSUES,
+  type ParsedFileImportBundle,
+  parseCsv,
+  parseFileImportBundle,
+} from "./bundle";
+export {
+  authenticateFileImport,
+  createFileProvider,
+  FILE_PROVIDER_CAPABILITIES,
+  FILE_PROVIDER_ID,
+  type FileCredentials,
+  FileImportInvalidError,
+  type FileProvider,
+  type FileSession,
+  fileCredentialsSchema,
+} from "./client";
@@ -1,2 +1,7 @@
-export const FANTASY_PROVIDER_IDS = ["espn", "sleeper", "yahoo"] as const;
+export const FANTASY_PROVIDER_IDS = [
+  "espn",
+  "sleeper",
+  "yahoo",
+  "file",
+] as const;
 export type FantasyProviderId = (typeof FANTASY_PROVIDER_IDS)[number];
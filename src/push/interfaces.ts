@@ -3,9 +3,12 @@ export const PUSH_EVENT_VALUES = [
   "league.blog.published",
   "league.lore.vote.opened",
   "league.lore.canonized",
+  "league.lore.disputed",
   "arena.rival.passed",
   "content.retracted",
   "content.superseded",
+  "league.pool.eliminated",
+  "league.pool.scored",
 ] as const;
 
 export const PUSH_EVENTS = {
@@ -13,7 +16,10 @@ export const PUSH_EVENTS = {
   leagueBetSettled: "league.bet.settled",
   leagueBlogPublished: "league.blog.published",
   leagueLoreCanonized: "league.lore.canonized",
+  leagueLoreDisputed: "league.lore.disputed",
   leagueLoreVoteOpened: "league.lore.vote.opened",
+  leaguePoolEliminated: "league.pool.eliminated",
+  leaguePoolScored: "league.pool.scored",
   contentRetracted: "content.retracted",
   contentSuperseded: "content.superseded",
 } as const satisfies Record<string, (typeof PUSH_EVENT_VALUES)[number]>;
@@ -41,7 +47,10 @@ export const PUSH_EVENT_FAMILIES = {
   [PUSH_EVENTS.leagueBetSettled]: "bets",
   [PUSH_EVENTS.leagueBlogPublished]: "content",
   [PUSH_EVENTS.leagueLoreCanonized]: "lore",
+  [PUSH_EVENTS.leagueLoreDisputed]: "lore",
   [PUSH_EVENTS.leagueLoreVoteOpened]: "lore",
+  [PUSH_EVENTS.leaguePoolEliminated]: "bets",
+  [PUSH_EVENTS.leaguePoolScored]: "bets",
 } as const satisfies Record<PushEventType, NotificationEventFamily>;
 
 export const DEFAULT_NOTIFICATION_CHANNEL_BY_FAMILY = {
@@ -118,7 +118,7 @@ async function requireLeagueMembership(
 ): Promise<Result<void, AppError>> {
   const access = await requireLeagueRoleForUser(db, {
     leagueId: input.leagueId,
-    minRole: "member",
+    permission: "league:view",
     userId: input.userId,
   });
   if (access.ok) {
@@ -86,7 +86,7 @@ async function requireLeagueMembership(
 ): Promise<Result<void, AppError>> {
   const access = await requireLeagueRoleForUser(db, {
     leagueId: input.leagueId,
-    minRole: "member",
+    permission: "league:view",
     userId: input.userId,
   });
   if (access.ok) {
@@ -215,7 +215,7 @@ export async function disablePushSubscriptionsForUser(
   input: DisablePushSubscriptionsForUserInput,
 ): Promise<Result<PushSubscriptionsCleanupResult, AppError>> {
   const memberships = await listLeagueMembershipsForUser(deps.db, {
-    minRole: "member",
+    permission: "league:view",
     userId: input.userId,
   });
   if (!memberships.ok) {
@@ -90,7 +90,7 @@ async function resolveMemberLeagueIds(
 ): Promise<Result<string[], AppError>> {
   const memberships = await listLeagueMembershipsForUser(db, {
     leagueIds: input.requestedLeagueIds,
-    minRole: "member",
+    permission: "league:view",
     userId: input.userId,
   });
   if (!memberships.ok) {
@@ -1,15 +1,19 @@
+import { and, eq } from "drizzle-orm";
 import type { Db } from "@/db/client";
-import type {
-  championshipRecords,
-  leagueSeasonGroupings,
-  PersonOwnerHistoryEntry,
-  seasonStatistics,
-  weeklyStatistics,
+import { withLeagueContext } from "@/db/rls";
+import {
+  type championshipRecords,
+  type leagueSeasonGroupings,
+  type PersonOwnerHistoryEntry,
+  type seasonStatistics,
+  tradeAnalyses,
+  type weeklyStatistics,
 } from "@/db/schema";
 import {
   type ComposedCanonicalSnapshot,
   composeCanonicalSnapshot,
 } from "./curated-state";
+import { loadActiveCustomRecordDefinitions } from "./custom-records";
 import {
   buildRecordsCatalog,
   type PlayerDraftRecordInput,
@@ -17,7 +21,22 @@ import {
   type RecordBookLens,
   type RecordBookSegment,
   type RecordsCatalog,
+  type TradeRecordInput,
 } from "./records-catalog";
+import {
+  isScoringPresetId,
+  loadScoringStatLines,
+  nflStatLineKey,
+  providerStatLineKey,
+  rescorePlayerPoints,
+  rescoreWeeklyRows,
+  SCORING_PRESETS,
+  type ScoringPresetId,
+  type ScoringRules,
+  type ScoringStatLines,
+  scoringDeltaKey,
+  scoringRulesFromSettings,
+} from "./scoring-rules";
 
 /**
  * Canon-provenance boundary (specs/45 §A).
@@ -64,12 +83,15 @@ export interface RecordsLensSelection {
   groupingId: string | null;
   groupings: RecordsGroupingOption[];
   scope: "all";
+  /** What-if scoring preset; null reads the points as the provider scored them. */
+  scoring: ScoringPresetId | null;
   seasonSet: number[];
   segment: RecordBookSegment;
 }
 
 export interface RecordsLensInput {
   groupingId?: string | null;
+  scoring?: ScoringPresetId | null;
   segment?: RecordBookSegment;
 }
 
@@ -483,6 +505,68 @@ export function playerDraftRowsFromSnapshot(
     .filter((row): row is PlayerDraftRecordInput => Boolean(row));
 }
 
+type TradeAnalysisRow = Pick<
+  typeof tradeAnalyses.$inferSelect,
+  | "fantasyTransactionId"
+  | "leagueProviderId"
+  | "margin"
+  | "provider"
+  | "scoringPeriod"
+  | "season"
+  | "sides"
+  | "winnerProviderTeamId"
+>;
+
+/**
+ * Maps settled trade analyses onto the snapshot's managers. Trades from
+ * seasons that were never pushed, or with a side the snapshot cannot place,
+ * stay out of the record book.
+ */
+export function tradeRowsFromSnapshot(
+  snapshot: ComposedCanonicalSnapshot,
+  analyses: readonly TradeAnalysisRow[],
+): TradeRecordInput[] {
+  const teamPersonIds = personIdByTeamSeason(snapshot);
+  const pushedSeasons = new Set(snapshot.seasons);
+  return analyses
+    .map((row) => {
+      if (!pushedSeasons.has(row.season)) {
+        return null;
+      }
+      const personFor = (providerTeamId: string) =>
+        teamPersonIds.get(
+          teamSeasonProviderKey({
+            leagueProviderId: row.leagueProviderId,
+            provider: row.provider,
+            providerTeamId,
+            season: row.season,
+          }),
+        ) ?? null;
+      const sides = row.sides.map((side) => ({
+        personId: personFor(side.providerTeamId),
+        points: side.points,
+      }));
+      if (
+        sides.length < 2 ||
+        sides.some((side) => side.personId === null) ||
+        new Set(sides.map((side) => side.personId)).size !== sides.length
+      ) {
+        return null;
+      }
+      return {
+        fantasyTransactionId: row.fantasyTransactionId,
+        margin: row.margin,
+        scoringPeriod: row.scoringPeriod,
+        season: row.season,
+        sides: sides as TradeRecordInput["sides"],
+        winnerPersonId: row.winnerProviderTeamId
+          ? personFor(row.winnerProviderTeamId)
+          : null,
+      } satisfies TradeRecordInput;
+    })
+    .filter((row): row is TradeRecordInput => Boolean(row));
+}
+
 export function weeklyRowsFromSnapshot(
   snapshot: ComposedCanonicalSnapshot,
 ): WeeklyStatisticsRow[] {
@@ -512,6 +596,75 @@ export function weeklyRowsFromSnapshot(
   }));
 }
 
+/**
+ * Re-scores pushed player weeks under alternate rules and carries each
+ * started player's change into their team's weekly rows. The snapshot itself
+ * is never modified; the result only feeds the catalog being built.
+ */
+export function applyWhatIfScoring(input: {
+  playerWeekRows: readonly PlayerWeekRecordInput[];
+  rules: ScoringRules;
+  snapshot: ComposedCanonicalSnapshot;
+  statLines: ScoringStatLines;
+  weeklyRows: readonly WeeklyStatisticsRow[];
+}): {
+  playerWeekRows: PlayerWeekRecordInput[];
+  weeklyRows: WeeklyStatisticsRow[];
+} {
+  const indexes = playerIndexes(input.snapshot);
+  const rosterEntries = new Map(
+    input.snapshot.fantasyRosterEntries.map((row) => [row.id, row]),
+  );
+  const baseRulesBySeason = new Map(
+    input.snapshot.seasonSettings.map((row) => [
+      row.season,
+      scoringRulesFromSettings(row.scoringSettings),
+    ]),
+  );
+  const pointDeltas = new Map<string, number>();
+  const playerWeekRows = input.playerWeekRows.map((row) => {
+    const entry = rosterEntries.get(row.id);
+    if (!entry) {
+      return row;
+    }
+    const nflPlayerId = playerForRosterEntry(indexes, entry)?.nflPlayerId;
+    const line =
+      input.statLines.byProviderPlayer.get(providerStatLineKey(entry)) ??
+      (nflPlayerId
+        ? input.statLines.byNflPlayer.get(
+            nflStatLineKey({
+              nflPlayerId,
+              season: row.season,
+              week: row.scoringPeriod,
+            }),
+          )
+        : undefined) ??
+      null;
+    const points = rescorePlayerPoints({
+      baseRules: baseRulesBySeason.get(row.season) ?? null,
+      line,
+      points: row.points,
+      rules: input.rules,
+    });
+    if (points === row.points) {
+      return row;
+    }
+    if (row.started) {
+      const key = scoringDeltaKey(row);
+      pointDeltas.set(
+        key,
+        round((pointDeltas.get(key) ?? 0) + points - row.points, 2),
+      );
+    }
+    return { ...row, points };
+  });
+
+  return {
+    playerWeekRows,
+    weeklyRows: rescoreWeeklyRows(input.weeklyRows, pointDeltas),
+  };
+}
+
 function regularSeasonWinnerPersonId(
   rows: readonly WeeklyStatisticsRow[],
   season: number,
@@ -632,6 +785,7 @@ export function resolveLensSelection(
     groupingId: grouping?.id ?? null,
     groupings: [...groupings],
     scope: "all",
+    scoring: isScoringPresetId(input?.scoring) ? input.scoring : null,
     seasonSet: grouping?.seasons ?? [],
     segment,
   };
@@ -847,7 +1001,10 @@ export interface CanonRecordsContext {
   seasonRowsAll: SeasonStatisticsRow[];
   /** Weekly rows filtered to the selected lens. */
   weeklyRows: WeeklyStatisticsRow[];
-  /** All weekly rows from the pushed snapshot (catalog input). */
+  /**
+   * All weekly rows from the pushed snapshot (catalog input), re-scored when
+   * the lens carries a what-if scoring preset.
+   */
   weeklyRowsAll: WeeklyStatisticsRow[];
 }
 
@@ -873,8 +1030,27 @@ export async function getLeagueCanonRecordsContext(
     input.resolveLens ? (input.resolveLens(groupings) ?? null) : input.lens,
     groupings,
   );
-  const weeklyRowsAll = weeklyRowsFromSnapshot(snapshot);
-  const playerWeekRows = playerWeekRowsFromSnapshot(snapshot, weeklyRowsAll);
+  const sourceWeeklyRows = weeklyRowsFromSnapshot(snapshot);
+  const sourcePlayerWeekRows = playerWeekRowsFromSnapshot(
+    snapshot,
+    sourceWeeklyRows,
+  );
+  const { playerWeekRows, weeklyRows: weeklyRowsAll } = lens.scoring
+    ? applyWhatIfScoring({
+        playerWeekRows: sourcePlayerWeekRows,
+        rules: SCORING_PRESETS[lens.scoring].rules,
+        snapshot,
+        statLines: await withLeagueContext(db, input.leagueId, (tx) =>
+          loadScoringStatLines(tx, {
+            leagueId: input.leagueId,
+            nflPlayerIds: uniqueSorted(
+              snapshot.fantasyPlayers.map((row) => row.nflPlayerId ?? ""),
+            ),
+          }),
+        ),
+        weeklyRows: sourceWeeklyRows,
+      })
+    : { playerWeekRows: sourcePlayerWeekRows, weeklyRows: sourceWeeklyRows };
   const playerDraftRows = playerDraftRowsFromSnapshot(snapshot);
   const championshipRowsAll = championshipRowsFromWeeklyRows(weeklyRowsAll);
   const seasonRowsAll = derivedSeasonRowsFromWeeklyRows(
@@ -893,14 +1069,42 @@ export async function getLeagueCanonRecordsContext(
     lens,
   );
 
+  const { customRecordDefinitions, tradeAnalysisRows } =
+    await withLeagueContext(db, input.leagueId, async (tx) => ({
+      customRecordDefinitions: await loadActiveCustomRecordDefinitions(
+        tx,
+        input.leagueId,
+      ),
+      tradeAnalysisRows: await tx
+        .select({
+          fantasyTransactionId: tradeAnalyses.fantasyTransactionId,
+          leagueProviderId: tradeAnalyses.leagueProviderId,
+          margin: tradeAnalyses.margin,
+          provider: tradeAnalyses.provider,
+          scoringPeriod: tradeAnalyses.scoringPeriod,
+          season: tradeAnalyses.season,
+          sides: tradeAnalyses.sides,
+          winnerProviderTeamId: tradeAnalyses.winnerProviderTeamId,
+        })
+        .from(tradeAnalyses)
+        .where(
+          and(
+            eq(tradeAnalyses.leagueId, input.leagueId),
+            eq(tradeAnalyses.status, "final"),
+          ),
+        ),
+    }));
+
   const catalog = buildRecordsCatalog({
     championshipRows,
+    customRecordDefinitions,
     lens: toRecordBookLens(lens),
     limit: input.limit,
     personNames,
     playerDraftRows,
     playerWeekRows,
     seasonRows: seasonRowsAll,
+    tradeRows: tradeRowsFromSnapshot(snapshot, tradeAnalysisRows),
     weeklyRows: weeklyRowsAll,
   }) as CanonCatalog;
 
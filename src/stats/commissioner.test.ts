@@ -8,7 +8,10 @@ import { createDb, type DbHandle } from "@/db/client";
 import { withLeagueContext } from "@/db/rls";
 import { leagueDataEdits, leagues, members, users } from "@/db/schema";
 import { migrateSerialized } from "@/db/test-support";
-import { transferCommissionerRole } from "./commissioner";
+import {
+  listCommissionerHandoffCandidates,
+  transferCommissionerRole,
+} from "./commissioner";
 
 const marker = `commissionertest-${randomUUID()}`;
 let handle: DbHandle;
@@ -116,14 +119,14 @@ describe("transferCommissionerRole", () => {
     await expect(
       requireLeagueRoleForUser(handle.db, {
         leagueId,
-        minRole: "commissioner",
+        permission: "league:transfer",
         userId: targetUserId,
       }),
     ).resolves.toMatchObject({ ok: true });
     await expect(
       requireLeagueRoleForUser(handle.db, {
         leagueId,
-        minRole: "commissioner",
+        permission: "league:transfer",
         userId: commissionerUserId,
       }),
     ).resolves.toMatchObject({ ok: false });
@@ -192,4 +195,57 @@ describe("transferCommissionerRole", () => {
       .limit(1);
     expect(targetAfter?.role).toBe("member");
   });
+
+  it("keeps spectators out of the handoff", async () => {
+    const leagueId = await seedLeague("spectator");
+    const commissionerUserId = await seedUser("spectator-commissioner");
+    const memberUserId = await seedUser("spectator-member");
+    const spectatorUserId = await seedUser("spectator-fan");
+    const insertedMembers = await handle.db
+      .insert(members)
+      .values([
+        {
+          organizationId: leagueId,
+          role: "commissioner",
+          userId: commissionerUserId,
+        },
+        { organizationId: leagueId, role: "member", userId: memberUserId },
+        {
+          organizationId: leagueId,
+          role: "spectator",
+          userId: spectatorUserId,
+        },
+      ])
+      .returning({ id: members.id });
+    const spectator = insertedMembers[2];
+    if (!spectator) {
+      throw new Error("members were not seeded");
+    }
+
+    const candidates = await listCommissionerHandoffCandidates(handle.db, {
+      leagueId,
+    });
+    expect(candidates.ok).toBe(true);
+    if (!candidates.ok) throw candidates.error;
+    expect(candidates.value.map((candidate) => candidate.userId)).toEqual([
+      memberUserId,
+    ]);
+
+    const result = await transferCommissionerRole(handle.db, {
+      actorUserId: commissionerUserId,
+      leagueId,
+      targetMemberId: spectator.id,
+    });
+
+    expect(result).toMatchObject({
+      error: { code: "COMMISSIONER_HANDOFF_TARGET_INVALID" },
+      ok: false,
+    });
+    const [spectatorAfter] = await handle.db
+      .select({ role: members.role })
+      .from(members)
+      .where(eq(members.id, spectator.id))
+      .limit(1);
+    expect(spectatorAfter?.role).toBe("spectator");
+  });
 });
@@ -4,6 +4,7 @@ import { AppError, err, ok, type Result, toAppError } from "@/core/result";
 import type { Db } from "@/db/client";
 import { withLeagueContext } from "@/db/rls";
 import { leagueDataEdits, members, users } from "@/db/schema";
+import { recordLeagueRoleGrant } from "@/members/league-roles";
 
 export interface CommissionerMemberSummary {
   displayName: string;
@@ -63,6 +64,14 @@ function toMemberSummary(row: {
   };
 }
 
+/**
+ * A spectator is a fan without a team, seated by email alone, so the handoff
+ * never offers them full league authority.
+ */
+function isHandoffCandidate(row: { role: LeagueRole }): boolean {
+  return row.role !== "commissioner" && row.role !== "spectator";
+}
+
 export async function listCommissionerHandoffCandidates(
   db: Db,
   input: { leagueId: string },
@@ -81,9 +90,7 @@ export async function listCommissionerHandoffCandidates(
       .where(eq(members.organizationId, input.leagueId))
       .orderBy(asc(users.displayName), asc(users.email));
 
-    return ok(
-      rows.filter((row) => row.role !== "commissioner").map(toMemberSummary),
-    );
+    return ok(rows.filter(isHandoffCandidate).map(toMemberSummary));
   } catch (error) {
     return err(
       toAppError(error, {
@@ -105,7 +112,7 @@ export async function transferCommissionerRole(
 ): Promise<Result<CommissionerHandoffResult, AppError>> {
   const access = await requireLeagueRoleForUser(db, {
     leagueId: input.leagueId,
-    minRole: "commissioner",
+    permission: "league:transfer",
     userId: input.actorUserId,
   });
   if (!access.ok) {
@@ -170,6 +177,11 @@ export async function transferCommissionerRole(
         if (target.role === "commissioner") {
           throw invalidTargetError("Target member is already commissioner");
         }
+        if (target.role === "spectator") {
+          throw invalidTargetError(
+            "A spectator cannot take over the league. Make them a member first.",
+          );
+        }
 
         const now = new Date();
         await tx
@@ -191,6 +203,25 @@ export async function transferCommissionerRole(
             ),
           );
 
+        const handoffReason =
+          input.reason ?? "commissioner handed off league authority";
+        await recordLeagueRoleGrant(tx, {
+          actorUserId: input.actorUserId,
+          leagueId: input.leagueId,
+          previousRole: target.role,
+          reason: handoffReason,
+          role: "commissioner",
+          targetUserId: target.userId,
+        });
+        await recordLeagueRoleGrant(tx, {
+          actorUserId: input.actorUserId,
+          leagueId: input.leagueId,
+          previousRole: "commissioner",
+          reason: handoffReason,
+          role: "member",
+          targetUserId: actor.userId,
+        });
+
         const [edit] = await tx
           .insert(leagueDataEdits)
           .values({
@@ -209,7 +240,7 @@ export async function transferCommissionerRole(
             editClass: "substantive",
             field: "commissioner_handoff",
             leagueId: input.leagueId,
-            reason: input.reason ?? "commissioner handed off league authority",
+            reason: handoffReason,
             targetId: target.memberId,
             targetKind: "member",
           })
@@ -18,6 +18,8 @@ import {
   teamSeasons,
   weeklyStatistics,
 } from "@/db/schema";
+import { reverifyLoreClaims } from "@/lore";
+import type { PushNotifier } from "@/push";
 
 type PersonRow = typeof persons.$inferSelect;
 type TeamSeasonRow = typeof teamSeasons.$inferSelect;
@@ -1566,8 +1568,9 @@ export async function restoreCurationCheckpoint(
     leagueId: string;
     reason?: string;
   },
+  options: { push?: PushNotifier } = {},
 ): Promise<CurationCheckpoint> {
-  return withLeagueContext(db, input.leagueId, async (tx) => {
+  const restored = await withLeagueContext(db, input.leagueId, async (tx) => {
     const checkpoint = await loadCheckpoint(tx, {
       checkpointId: input.checkpointId,
       leagueId: input.leagueId,
@@ -1598,6 +1601,11 @@ export async function restoreCurationCheckpoint(
     });
     return checkpoint;
   });
+  await reverifyLoreClaims({
+    deps: { db, push: options.push },
+    input: { leagueId: input.leagueId, seasons: restored.seasons },
+  });
+  return restored;
 }
 
 async function latestPushForSeason(
@@ -1700,8 +1708,9 @@ export async function pushCurationSeason(
     reason?: string;
     season: number;
   },
+  options: { push?: PushNotifier } = {},
 ): Promise<CurationSeasonPush> {
-  return withLeagueContext(db, input.leagueId, async (tx) => {
+  const push = await withLeagueContext(db, input.leagueId, async (tx) => {
     const checkpoint = await loadCheckpoint(tx, {
       checkpointId: input.checkpointId,
       leagueId: input.leagueId,
@@ -1714,6 +1723,11 @@ export async function pushCurationSeason(
       season: input.season,
     });
   });
+  await reverifyLoreClaims({
+    deps: { db, push: options.push },
+    input: { leagueId: input.leagueId, seasons: [push.season] },
+  });
+  return push;
 }
 
 export async function pushAllCurationSeasons(
@@ -1724,8 +1738,9 @@ export async function pushAllCurationSeasons(
     leagueId: string;
     reason?: string;
   },
+  options: { push?: PushNotifier } = {},
 ): Promise<CurationSeasonPush[]> {
-  return withLeagueContext(db, input.leagueId, async (tx) => {
+  const pushes = await withLeagueContext(db, input.leagueId, async (tx) => {
     const checkpoint = await loadCheckpoint(tx, {
       checkpointId: input.checkpointId,
       leagueId: input.leagueId,
@@ -1744,6 +1759,14 @@ export async function pushAllCurationSeasons(
     }
     return pushes;
   });
+  await reverifyLoreClaims({
+    deps: { db, push: options.push },
+    input: {
+      leagueId: input.leagueId,
+      seasons: pushes.map((push) => push.season),
+    },
+  });
+  return pushes;
 }
 
 export async function composeCanonicalSnapshot(
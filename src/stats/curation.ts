@@ -15,6 +15,8 @@ import {
   teamSeasons,
   weeklyStatistics,
 } from "@/db/schema";
+import { reverifyLoreClaims } from "@/lore";
+import type { PushNotifier } from "@/push";
 import {
   recomputeChangedMatchupStatistics,
   recomputeLeagueStatistics,
@@ -785,6 +787,7 @@ async function applyTargetUpdate(
 export async function applyLeagueDataEdit(
   db: Db,
   input: ApplyLeagueDataEditInput,
+  options: { push?: PushNotifier } = {},
 ): Promise<ApplyLeagueDataEditResult> {
   const applied = await withLeagueContext(db, input.leagueId, async (tx) => {
     const update = await applyTargetUpdate(tx, input);
@@ -821,6 +824,10 @@ export async function applyLeagueDataEdit(
       matchupIds: applied.matchupIds,
     });
     matchups = recompute.weeklyStatistics;
+    await reverifyLoreClaims({
+      deps: { db, push: options.push },
+      input: { leagueId: input.leagueId, seasons: recompute.seasons },
+    });
   }
 
   return {
@@ -1148,6 +1155,7 @@ async function applyTeamNameForAllYears(
 export async function applyCuratedDataEdit(
   db: Db,
   input: ApplyCuratedDataEditInput,
+  options: { push?: PushNotifier } = {},
 ): Promise<ApplyCuratedDataEditResult> {
   const scope = resolveCuratedEditScope(input);
   if (
@@ -1165,10 +1173,14 @@ export async function applyCuratedDataEdit(
     return applyTeamNameForAllYears(db, input);
   }
 
-  const edit = await applyLeagueDataEdit(db, {
-    ...input,
-    scope,
-  });
+  const edit = await applyLeagueDataEdit(
+    db,
+    {
+      ...input,
+      scope,
+    },
+    options,
+  );
   return {
     ...edit,
     affectedTargetIds: [input.targetId],
@@ -0,0 +1,264 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCustomRecordCatalog,
+  type CustomRecordDefinition,
+  type CustomRecordWeekInput,
+  customRecordCandidates,
+  customRecordType,
+  isCustomRecordKey,
+  isCustomRecordType,
+  rankCustomRecordCandidates,
+} from "./custom-records";
+
+function week(
+  overrides: Partial<CustomRecordWeekInput> &
+    Pick<CustomRecordWeekInput, "personId" | "pointsFor" | "pointsAgainst">,
+): CustomRecordWeekInput {
+  const result =
+    overrides.pointsFor > overrides.pointsAgainst
+      ? "win"
+      : overrides.pointsFor < overrides.pointsAgainst
+        ? "loss"
+        : "tie";
+  return {
+    isPlayoff: false,
+    margin: Math.abs(overrides.pointsFor - overrides.pointsAgainst),
+    matchupId: `m-${overrides.personId}-${overrides.scoringPeriod ?? 1}`,
+    matchupKind: "head_to_head",
+    opponentPersonId: "opponent",
+    periodStart: null,
+    result,
+    scoringPeriod: 1,
+    scoringPeriodSpan: 1,
+    season: 2024,
+    ...overrides,
+  };
+}
+
+function definition(
+  overrides: Partial<CustomRecordDefinition>,
+): CustomRecordDefinition {
+  return {
+    aggregation: null,
+    description: null,
+    direction: "max",
+    filters: {},
+    label: "House record",
+    metric: "points_for",
+    recordKey: "house_record",
+    scope: "week",
+    segment: "both",
+    ...overrides,
+  };
+}
+
+const seasonFinishes = [
+  { finalPlacement: "champ", finalRank: 1, personId: "champ", season: 2024 },
+  { finalPlacement: "out", finalRank: 2, personId: "alex", season: 2024 },
+  { finalPlacement: "out", finalRank: 3, personId: "blair", season: 2024 },
+  { finalPlacement: "out", finalRank: 4, personId: "cellar", season: 2024 },
+];
+
+describe("custom record keys", () => {
+  it("namespaces house records away from built-in record types", () => {
+    expect(customRecordType("giant_slayer")).toBe("custom:giant_slayer");
+    expect(isCustomRecordType("custom:giant_slayer")).toBe(true);
+    expect(isCustomRecordType("highest_single_week_score")).toBe(false);
+    expect(isCustomRecordKey("giant_slayer")).toBe(true);
+    expect(isCustomRecordKey("Giant Slayer")).toBe(false);
+    expect(isCustomRecordKey("trailing_")).toBe(false);
+  });
+});
+
+describe("customRecordCandidates", () => {
+  it("counts wins over the season champion per career", () => {
+    const rows = [
+      week({
+        opponentPersonId: "champ",
+        personId: "alex",
+        pointsAgainst: 90,
+        pointsFor: 120,
+      }),
+      week({
+        opponentPersonId: "champ",
+        personId: "alex",
+        pointsAgainst: 101,
+        pointsFor: 110,
+        scoringPeriod: 6,
+      }),
+      week({
+        opponentPersonId: "champ",
+        personId: "blair",
+        pointsAgainst: 99,
+        pointsFor: 100,
+      }),
+      week({
+        opponentPersonId: "cellar",
+        personId: "blair",
+        pointsAgainst: 80,
+        pointsFor: 140,
+        scoringPeriod: 2,
+      }),
+    ];
+    const giantSlayer = definition({
+      aggregation: "count",
+      filters: { opponentFinish: "champion", results: ["win"] },
+      scope: "career",
+    });
+
+    const ranked = rankCustomRecordCandidates(
+      customRecordCandidates({
+        definition: giantSlayer,
+        seasonFinishes,
+        weeklyRows: rows,
+      }),
+      "max",
+    );
+
+    expect(ranked.map((row) => [row.holderPersonId, row.value])).toEqual([
+      ["alex", 2],
+      ["blair", 1],
+    ]);
+    expect(ranked[0]?.season).toBeNull();
+  });
+
+  it("evaluates single weeks against positional starter output", () => {
+    const rows = [
+      week({ personId: "alex", pointsAgainst: 130, pointsFor: 101 }),
+      week({ personId: "blair", pointsAgainst: 95, pointsFor: 96 }),
+    ];
+    const kickerCarry = definition({
+      direction: "min",
+      filters: {
+        starterPositionPoints: [{ bounds: { gte: 15 }, position: "K" }],
+      },
+    });
+
+    const candidates = customRecordCandidates({
+      definition: kickerCarry,
+      seasonFinishes,
+      starterRows: [
+        {
+          personId: "alex",
+          points: 16,
+          position: "K",
+          scoringPeriod: 1,
+          season: 2024,
+          started: true,
+        },
+        {
+          personId: "blair",
+          points: 22,
+          position: "K",
+          scoringPeriod: 1,
+          season: 2024,
+          started: false,
+        },
+      ],
+      weeklyRows: rows,
+    });
+
+    expect(candidates).toEqual([
+      expect.objectContaining({
+        holderPersonId: "alex",
+        scoringPeriod: 1,
+        season: 2024,
+        value: 101,
+      }),
+    ]);
+  });
+
+  it("drops byes, other segments, and groups under the minimum games", () => {
+    const rows = [
+      week({ personId: "alex", pointsAgainst: 100, pointsFor: 150 }),
+      week({
+        isPlayoff: true,
+        personId: "alex",
+        pointsAgainst: 100,
+        pointsFor: 170,
+        scoringPeriod: 15,
+      }),
+      week({
+        personId: "blair",
+        pointsAgainst: 0,
+        pointsFor: 200,
+        result: "bye",
+      }),
+      week({ personId: "cellar", pointsAgainst: 90, pointsFor: 95 }),
+      week({
+        personId: "cellar",
+        pointsAgainst: 90,
+        pointsFor: 98,
+        scoringPeriod: 2,
+      }),
+    ];
+    const regularAverage = definition({
+      aggregation: "average",
+      filters: { minGames: 2 },
+      scope: "season",
+      segment: "regular",
+    });
+
+    const candidates = customRecordCandidates({
+      definition: regularAverage,
+      seasonFinishes,
+      weeklyRows: rows,
+    });
+
+    expect(candidates).toEqual([
+      expect.objectContaining({
+        games: 2,
+        holderPersonId: "cellar",
+        season: 2024,
+        value: 96.5,
+      }),
+    ]);
+  });
+});
+
+describe("buildCustomRecordCatalog", () => {
+  it("ranks leaders and names holders and opponents", () => {
+    const catalog = buildCustomRecordCatalog({
+      definitions: [
+        definition({
+          label: "Biggest beatdown of a rival",
+          metric: "margin",
+          recordKey: "rival_beatdown",
+        }),
+      ],
+      limit: 1,
+      personNames: new Map([
+        ["alex", "Alex"],
+        ["blair", "Blair"],
+      ]),
+      seasonFinishes,
+      weeklyRows: [
+        week({
+          opponentPersonId: "blair",
+          personId: "alex",
+          pointsAgainst: 70,
+          pointsFor: 150,
+        }),
+        week({
+          opponentPersonId: "alex",
+          personId: "blair",
+          pointsAgainst: 150,
+          pointsFor: 70,
+        }),
+      ],
+    });
+
+    expect(catalog).toEqual([
+      expect.objectContaining({
+        leaders: [
+          expect.objectContaining({
+            opponentName: "Blair",
+            personName: "Alex",
+            value: 80,
+          }),
+        ],
+        recordType: "custom:rival_beatdown",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,576 @@
+import { and, asc, eq } from "drizzle-orm";
+import type { LeagueScopedTx } from "@/db/rls";
+import {
+  fantasyPlayers,
+  fantasyRosterEntries,
+  identityMappings,
+  type LeagueRecordDefinitionFilters,
+  type LeagueRecordNumericBounds,
+  leagueRecordDefinitions,
+} from "@/db/schema";
+
+// League-defined ("house") records. A definition is data, not code: the
+// engine evaluates it on every recompute, and the record book evaluates it
+// again under the active lens. Both callers feed the same pure functions in
+// this module so the stored holder and the displayed holder cannot disagree.
+
+export const CUSTOM_RECORD_SCOPES = [
+  "week",
+  "season",
+  "career",
+  "h2h",
+] as const;
+export const CUSTOM_RECORD_METRICS = [
+  "points_for",
+  "points_against",
+  "margin",
+  "combined_points",
+] as const;
+export const CUSTOM_RECORD_AGGREGATIONS = [
+  "count",
+  "sum",
+  "average",
+  "max",
+  "min",
+] as const;
+export const CUSTOM_RECORD_DIRECTIONS = ["max", "min"] as const;
+export const CUSTOM_RECORD_SEGMENTS = ["both", "regular", "playoff"] as const;
+export const CUSTOM_RECORD_OPPONENT_FINISHES = [
+  "champion",
+  "runner_up",
+  "last_place",
+] as const;
+
+export type CustomRecordScope = (typeof CUSTOM_RECORD_SCOPES)[number];
+export type CustomRecordMetric = (typeof CUSTOM_RECORD_METRICS)[number];
+export type CustomRecordAggregation =
+  (typeof CUSTOM_RECORD_AGGREGATIONS)[number];
+export type CustomRecordDirection = (typeof CUSTOM_RECORD_DIRECTIONS)[number];
+export type CustomRecordSegment = (typeof CUSTOM_RECORD_SEGMENTS)[number];
+export type CustomRecordFilters = LeagueRecordDefinitionFilters;
+export type CustomRecordBounds = LeagueRecordNumericBounds;
+
+/** `all_time_record.record_type` value for a house record. */
+export type CustomRecordType = `custom:${string}`;
+
+export interface CustomRecordDefinition {
+  aggregation: CustomRecordAggregation | null;
+  description: string | null;
+  direction: CustomRecordDirection;
+  filters: CustomRecordFilters;
+  label: string;
+  metric: CustomRecordMetric;
+  recordKey: string;
+  scope: CustomRecordScope;
+  segment: CustomRecordSegment;
+}
+
+/**
+ * Structural subset shared by the engine's in-memory weekly facts and the
+ * persisted/snapshot `weekly_statistics` rows, so both can be evaluated.
+ */
+export interface CustomRecordWeekInput {
+  isPlayoff: boolean;
+  margin: number;
+  matchupId: string;
+  matchupKind: string;
+  opponentPersonId: string | null;
+  periodStart: number | null;
+  personId: string;
+  pointsAgainst: number;
+  pointsFor: number;
+  result: string;
+  scoringPeriod: number;
+  scoringPeriodSpan: number;
+  season: number;
+}
+
+export interface CustomRecordSeasonFinishInput {
+  finalPlacement: string;
+  finalRank: number;
+  personId: string;
+  season: number;
+}
+
+export interface CustomRecordStarterInput {
+  personId: string;
+  points: number;
+  position: string;
+  scoringPeriod: number;
+  season: number;
+  started: boolean;
+}
+
+export interface CustomRecordCandidate {
+  games: number;
+  holderPersonId: string;
+  opponentPersonId: string | null;
+  scoringPeriod: number | null;
+  season: number | null;
+  sortKey: string;
+  value: number;
+}
+
+export const CUSTOM_RECORD_TYPE_PREFIX = "custom:";
+
+const RECORD_KEY_PATTERN = /^[a-z0-9]+(?:_[a-z0-9]+)*$/;
+
+export function isCustomRecordKey(value: string): boolean {
+  return value.length <= 64 && RECORD_KEY_PATTERN.test(value);
+}
+
+export function customRecordType(recordKey: string): CustomRecordType {
+  return `${CUSTOM_RECORD_TYPE_PREFIX}${recordKey}`;
+}
+
+export function isCustomRecordType(
+  recordType: string,
+): recordType is CustomRecordType {
+  return recordType.startsWith(CUSTOM_RECORD_TYPE_PREFIX);
+}
+
+export function customRecordUsesStarterPositions(
+  definitions: readonly CustomRecordDefinition[],
+): boolean {
+  return definitions.some(
+    (definition) => (definition.filters.starterPositionPoints ?? []).length > 0,
+  );
+}
+
+function round(value: number, places = 4): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function compareStable(left: string, right: string): number {
+  if (left === right) {
+    return 0;
+  }
+  return left < right ? -1 : 1;
+}
+
+function withinBounds(
+  value: number,
+  bounds: CustomRecordBounds | undefined,
+): boolean {
+  if (!bounds) {
+    return true;
+  }
+  return (
+    (bounds.gt === undefined || value > bounds.gt) &&
+    (bounds.gte === undefined || value >= bounds.gte) &&
+    (bounds.lt === undefined || value < bounds.lt) &&
+    (bounds.lte === undefined || value <= bounds.lte)
+  );
+}
+
+function positionKey(position: string): string {
+  const normalized = position.trim().toUpperCase().replaceAll("/", "-");
+  return normalized === "DST" || normalized === "D ST" ? "D-ST" : normalized;
+}
+
+function personSeasonKey(personId: string, season: number): string {
+  return `${personId}\u001f${season}`;
+}
+
+function starterPeriodKey(
+  personId: string,
+  season: number,
+  scoringPeriod: number,
+  position: string,
+): string {
+  return `${personId}\u001f${season}\u001f${scoringPeriod}\u001f${positionKey(position)}`;
+}
+
+function opponentFinishSets(
+  seasonFinishes: readonly CustomRecordSeasonFinishInput[],
+): Record<(typeof CUSTOM_RECORD_OPPONENT_FINISHES)[number], Set<string>> {
+  const lastRankBySeason = new Map<number, number>();
+  for (const row of seasonFinishes) {
+    if (row.finalRank > 0) {
+      lastRankBySeason.set(
+        row.season,
+        Math.max(lastRankBySeason.get(row.season) ?? 0, row.finalRank),
+      );
+    }
+  }
+  const sets = {
+    champion: new Set<string>(),
+    last_place: new Set<string>(),
+    runner_up: new Set<string>(),
+  };
+  for (const row of seasonFinishes) {
+    const key = personSeasonKey(row.personId, row.season);
+    if (row.finalPlacement === "champ") {
+      sets.champion.add(key);
+    }
+    if (row.finalPlacement === "runner_up") {
+      sets.runner_up.add(key);
+    }
+    if (
+      row.finalRank > 0 &&
+      row.finalRank === lastRankBySeason.get(row.season)
+    ) {
+      sets.last_place.add(key);
+    }
+  }
+  return sets;
+}
+
+function metricValue(
+  row: CustomRecordWeekInput,
+  metric: CustomRecordMetric,
+): number {
+  switch (metric) {
+    case "points_for":
+      return row.pointsFor;
+    case "points_against":
+      return row.pointsAgainst;
+    case "margin":
+      return row.pointsFor - row.pointsAgainst;
+    case "combined_points":
+      return row.pointsFor + row.pointsAgainst;
+  }
+}
+
+function aggregate(
+  values: readonly number[],
+  aggregation: CustomRecordAggregation,
+): number {
+  switch (aggregation) {
+    case "count":
+      return values.length;
+    case "sum":
+      return values.reduce((total, value) => total + value, 0);
+    case "average":
+      return values.length > 0
+        ? values.reduce((total, value) => total + value, 0) / values.length
+        : 0;
+    case "max":
+      return Math.max(...values);
+    case "min":
+      return Math.min(...values);
+  }
+}
+
+/**
+ * Weekly rows that satisfy every filter of the definition. Byes never match:
+ * a house record is about games that were played.
+ */
+export function customRecordMatchingRows<Row extends CustomRecordWeekInput>({
+  definition,
+  seasonFinishes,
+  starterRows = [],
+  weeklyRows,
+}: {
+  definition: CustomRecordDefinition;
+  seasonFinishes: readonly CustomRecordSeasonFinishInput[];
+  starterRows?: readonly CustomRecordStarterInput[];
+  weeklyRows: readonly Row[];
+}): Row[] {
+  const filters = definition.filters;
+  const matchupKinds = new Set(filters.matchupKinds ?? ["head_to_head"]);
+  const results = filters.results ? new Set<string>(filters.results) : null;
+  const finishes = filters.opponentFinish
+    ? opponentFinishSets(seasonFinishes)[filters.opponentFinish]
+    : null;
+  const starterFilters = filters.starterPositionPoints ?? [];
+  const starterPoints = new Map<string, number>();
+  if (starterFilters.length > 0) {
+    for (const row of starterRows) {
+      if (!row.started) {
+        continue;
+      }
+      const key = starterPeriodKey(
+        row.personId,
+        row.season,
+        row.scoringPeriod,
+        row.position,
+      );
+      starterPoints.set(key, (starterPoints.get(key) ?? 0) + row.points);
+    }
+  }
+
+  return weeklyRows.filter((row) => {
+    if (row.result === "bye" || !matchupKinds.has(row.matchupKind)) {
+      return false;
+    }
+    if (definition.segment === "regular" && row.isPlayoff) {
+      return false;
+    }
+    if (definition.segment === "playoff" && !row.isPlayoff) {
+      return false;
+    }
+    if (definition.scope === "week" && row.scoringPeriodSpan !== 1) {
+      return false;
+    }
+    if (definition.scope === "h2h" && !row.opponentPersonId) {
+      return false;
+    }
+    if (results && !results.has(row.result)) {
+      return false;
+    }
+    if (
+      !withinBounds(row.pointsFor, filters.pointsFor) ||
+      !withinBounds(row.pointsAgainst, filters.pointsAgainst) ||
+      !withinBounds(row.pointsFor - row.pointsAgainst, filters.margin)
+    ) {
+      return false;
+    }
+    if (
+      finishes &&
+      (!row.opponentPersonId ||
+        !finishes.has(personSeasonKey(row.opponentPersonId, row.season)))
+    ) {
+      return false;
+    }
+    return starterFilters.every((filter) =>
+      withinBounds(
+        starterPoints.get(
+          starterPeriodKey(
+            row.personId,
+            row.season,
+            row.scoringPeriod,
+            filter.position,
+          ),
+        ) ?? 0,
+        filter.bounds,
+      ),
+    );
+  });
+}
+
+function weekStart(row: CustomRecordWeekInput): number {
+  return row.periodStart ?? row.scoringPeriod;
+}
+
+/**
+ * Every candidate the definition produces, before ranking. Week scope yields
+ * one candidate per matching game with a chronological sort key, so the
+ * engine can replay a progression; aggregate scopes yield one candidate per
+ * holder group (person+season, person, or person+opponent).
+ */
+export function customRecordCandidates(input: {
+  definition: CustomRecordDefinition;
+  seasonFinishes: readonly CustomRecordSeasonFinishInput[];
+  starterRows?: readonly CustomRecordStarterInput[];
+  weeklyRows: readonly CustomRecordWeekInput[];
+}): CustomRecordCandidate[] {
+  const { definition } = input;
+  const rows = customRecordMatchingRows(input);
+
+  if (definition.scope === "week" || !definition.aggregation) {
+    return rows.map((row) => ({
+      games: 1,
+      holderPersonId: row.personId,
+      opponentPersonId: row.opponentPersonId,
+      scoringPeriod: weekStart(row),
+      season: row.season,
+      sortKey: [
+        row.season,
+        weekStart(row),
+        row.scoringPeriod,
+        row.personId,
+        row.matchupId,
+      ].join(":"),
+      value: round(metricValue(row, definition.metric), 4),
+    }));
+  }
+
+  const groups = new Map<
+    string,
+    {
+      holderPersonId: string;
+      opponentPersonId: string | null;
+      season: number | null;
+      values: number[];
+    }
+  >();
+  for (const row of rows) {
+    const season = definition.scope === "season" ? row.season : null;
+    const opponentPersonId =
+      definition.scope === "h2h" ? row.opponentPersonId : null;
+    const key = [row.personId, season ?? "", opponentPersonId ?? ""].join(":");
+    const group = groups.get(key) ?? {
+      holderPersonId: row.personId,
+      opponentPersonId,
+      season,
+      values: [],
+    };
+    group.values.push(metricValue(row, definition.metric));
+    groups.set(key, group);
+  }
+
+  const minGames = definition.filters.minGames ?? 1;
+  const aggregation = definition.aggregation;
+  return [...groups.entries()]
+    .filter(([, group]) => group.values.length >= minGames)
+    .map(([key, group]) => ({
+      games: group.values.length,
+      holderPersonId: group.holderPersonId,
+      opponentPersonId: group.opponentPersonId,
+      scoringPeriod: null,
+      season: group.season,
+      sortKey: key,
+      value: round(aggregate(group.values, aggregation), 4),
+    }));
+}
+
+/** Best-first ordering; ties go to the earlier (then lexically lower) key. */
+export function rankCustomRecordCandidates(
+  candidates: readonly CustomRecordCandidate[],
+  direction: CustomRecordDirection,
+): CustomRecordCandidate[] {
+  return [...candidates].sort((left, right) => {
+    const valueCompare =
+      direction === "max" ? right.value - left.value : left.value - right.value;
+    return valueCompare || compareStable(left.sortKey, right.sortKey);
+  });
+}
+
+export interface CustomRecordLeaderEntry {
+  games: number;
+  opponentName: string | null;
+  opponentPersonId: string | null;
+  personId: string;
+  personName: string;
+  scoringPeriod: number | null;
+  season: number | null;
+  value: number;
+}
+
+export interface CustomRecordCatalogEntry extends CustomRecordDefinition {
+  leaders: CustomRecordLeaderEntry[];
+  recordType: CustomRecordType;
+}
+
+function personName(
+  personNames: ReadonlyMap<string, string>,
+  personId: string,
+): string {
+  return personNames.get(personId) ?? "Unknown manager";
+}
+
+/** Leaderboards for every house record, evaluated over the given rows. */
+export function buildCustomRecordCatalog(input: {
+  definitions: readonly CustomRecordDefinition[];
+  limit: number;
+  personNames: ReadonlyMap<string, string>;
+  seasonFinishes: readonly CustomRecordSeasonFinishInput[];
+  starterRows?: readonly CustomRecordStarterInput[];
+  weeklyRows: readonly CustomRecordWeekInput[];
+}): CustomRecordCatalogEntry[] {
+  return input.definitions.map((definition) => ({
+    ...definition,
+    leaders: rankCustomRecordCandidates(
+      customRecordCandidates({
+        definition,
+        seasonFinishes: input.seasonFinishes,
+        starterRows: input.starterRows,
+        weeklyRows: input.weeklyRows,
+      }),
+      definition.direction,
+    )
+      .slice(0, input.limit)
+      .map((candidate) => ({
+        games: candidate.games,
+        opponentName: candidate.opponentPersonId
+          ? personName(input.personNames, candidate.opponentPersonId)
+          : null,
+        opponentPersonId: candidate.opponentPersonId,
+        personId: candidate.holderPersonId,
+        personName: personName(input.personNames, candidate.holderPersonId),
+        scoringPeriod: candidate.scoringPeriod,
+        season: candidate.season,
+        value: candidate.value,
+      })),
+    recordType: customRecordType(definition.recordKey),
+  }));
+}
+
+export function toCustomRecordDefinition(
+  row: typeof leagueRecordDefinitions.$inferSelect,
+): CustomRecordDefinition {
+  return {
+    aggregation: row.aggregation,
+    description: row.description,
+    direction: row.direction,
+    filters: row.filters,
+    label: row.label,
+    metric: row.metric,
+    recordKey: row.recordKey,
+    scope: row.scope,
+    segment: row.segment,
+  };
+}
+
+export async function loadActiveCustomRecordDefinitions(
+  tx: LeagueScopedTx,
+  leagueId: string,
+): Promise<CustomRecordDefinition[]> {
+  const rows = await tx
+    .select()
+    .from(leagueRecordDefinitions)
+    .where(
+      and(
+        eq(leagueRecordDefinitions.leagueId, leagueId),
+        eq(leagueRecordDefinitions.status, "active"),
+      ),
+    )
+    .orderBy(asc(leagueRecordDefinitions.recordKey));
+  return rows.map(toCustomRecordDefinition);
+}
+
+/**
+ * Started-lineup points per person/week/position, for definitions that
+ * filter on positional output. Only loaded when a definition needs it.
+ */
+export async function loadCustomRecordStarterRows(
+  tx: LeagueScopedTx,
+  leagueId: string,
+): Promise<CustomRecordStarterInput[]> {
+  const rows = await tx
+    .select({
+      actualPoints: fantasyRosterEntries.actualPoints,
+      personId: identityMappings.personId,
+      points: fantasyRosterEntries.points,
+      position: fantasyPlayers.position,
+      scoringPeriod: fantasyRosterEntries.scoringPeriod,
+      season: fantasyRosterEntries.season,
+    })
+    .from(fantasyRosterEntries)
+    .innerJoin(
+      identityMappings,
+      and(
+        eq(identityMappings.leagueId, fantasyRosterEntries.leagueId),
+        eq(identityMappings.provider, fantasyRosterEntries.provider),
+        eq(
+          identityMappings.leagueProviderId,
+          fantasyRosterEntries.leagueProviderId,
+        ),
+        eq(
+          identityMappings.providerTeamId,
+          fantasyRosterEntries.providerTeamId,
+        ),
+        eq(identityMappings.season, fantasyRosterEntries.season),
+      ),
+    )
+    .leftJoin(
+      fantasyPlayers,
+      eq(fantasyPlayers.id, fantasyRosterEntries.fantasyPlayerId),
+    )
+    .where(
+      and(
+        eq(fantasyRosterEntries.leagueId, leagueId),
+        eq(fantasyRosterEntries.started, true),
+      ),
+    );
+  return rows.map((row) => ({
+    personId: row.personId,
+    points: row.actualPoints ?? row.points ?? 0,
+    position: row.position ?? "unknown",
+    scoringPeriod: row.scoringPeriod,
+    season: row.season,
+    started: true,
+  }));
+}
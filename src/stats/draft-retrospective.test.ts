@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareDraftGrades,
+  type DraftRetrospectivePick,
+  type DraftRetrospectivePlayerWeek,
+  gradeDraftSeason,
+} from "./draft-retrospective";
+
+function pick(
+  season: number,
+  providerTeamId: string,
+  providerPlayerId: string,
+  position: string,
+  pickOverall: number,
+  overrides: Partial<DraftRetrospectivePick> = {},
+): DraftRetrospectivePick {
+  return {
+    isKeeper: false,
+    managerKey: `member-${providerTeamId}`,
+    managerName: `Team ${providerTeamId}`,
+    pickOverall,
+    playerName: providerPlayerId.toUpperCase(),
+    position,
+    providerPickId: `${season}-${pickOverall}`,
+    providerPlayerId,
+    providerTeamId,
+    round: Math.ceil(pickOverall / 2),
+    season,
+    ...overrides,
+  };
+}
+
+// Each player scores half their total in week 1 and half in week 2.
+function weeks(
+  season: number,
+  providerTeamId: string,
+  providerPlayerId: string,
+  points: number,
+): DraftRetrospectivePlayerWeek[] {
+  return [1, 2].map((scoringPeriod) => ({
+    points: points / 2,
+    providerPlayerId,
+    providerTeamId,
+    scoringPeriod,
+    season,
+  }));
+}
+
+const picks = [
+  pick(2025, "1", "rb25a", "RB", 1),
+  pick(2025, "2", "rb25b", "RB", 2),
+  pick(2025, "1", "wr25a", "WR", 3),
+  pick(2025, "2", "wr25b", "WR", 4),
+  pick(2026, "1", "rb26a", "RB", 1),
+  pick(2026, "2", "rb26b", "RB", 2),
+  pick(2026, "1", "wr26a", "WR", 3),
+  pick(2026, "2", "wr26b", "WR", 4),
+];
+
+const playerWeeks = [
+  ...weeks(2025, "1", "rb25a", 100),
+  ...weeks(2025, "2", "rb25b", 60),
+  ...weeks(2025, "1", "wr25a", 50),
+  ...weeks(2025, "2", "wr25b", 70),
+  ...weeks(2026, "1", "rb26a", 40),
+  ...weeks(2026, "2", "rb26b", 80),
+  ...weeks(2026, "1", "wr26a", 60),
+  ...weeks(2026, "2", "wr26b", 60),
+];
+
+describe("gradeDraftSeason", () => {
+  it("values each pick against the league's history at that positional slot", () => {
+    const grades = gradeDraftSeason({
+      picks,
+      playerWeeks,
+      season: 2026,
+      throughScoringPeriod: null,
+    });
+
+    expect(grades?.baselineSeasons).toEqual([2025, 2026]);
+    expect(
+      grades?.managers.map((manager) => ({
+        grade: manager.grade,
+        managerKey: manager.managerKey,
+        rank: manager.rank,
+        surplus: manager.surplus,
+      })),
+    ).toEqual([
+      { grade: "A", managerKey: "member-2", rank: 1, surplus: 10 },
+      { grade: "F", managerKey: "member-1", rank: 2, surplus: -30 },
+    ]);
+    expect(grades?.managers[1]?.worstPick).toMatchObject({
+      expectedPoints: 70,
+      playerName: "RB26A",
+      points: 40,
+      positionRank: 1,
+      value: -30,
+    });
+  });
+
+  it("grades through a checkpoint week and ignores keepers and departed players", () => {
+    const grades = gradeDraftSeason({
+      picks: [...picks, pick(2026, "1", "qb26k", "QB", 5, { isKeeper: true })],
+      playerWeeks: [
+        ...playerWeeks.filter(
+          (row) =>
+            !(row.providerPlayerId === "rb26b" && row.scoringPeriod === 1),
+        ),
+        // rb26b spent week 1 on another roster before team 2 got them back.
+        {
+          points: 40,
+          providerPlayerId: "rb26b",
+          providerTeamId: "3",
+          scoringPeriod: 1,
+          season: 2026,
+        },
+        ...weeks(2026, "1", "qb26k", 300),
+      ],
+      season: 2026,
+      throughScoringPeriod: 1,
+    });
+
+    expect(grades?.throughScoringPeriod).toBe(1);
+    expect(
+      grades?.managers.flatMap((manager) =>
+        manager.picks.map((row) => row.providerPlayerId),
+      ),
+    ).not.toContain("qb26k");
+    expect(
+      grades?.managers.find((manager) => manager.managerKey === "member-2")
+        ?.picks[0],
+    ).toMatchObject({ expectedPoints: 25, points: 0, value: -25 });
+  });
+
+  it("returns null for a season without gradeable picks", () => {
+    expect(
+      gradeDraftSeason({
+        picks: [pick(2026, "1", "rb26a", "RB", 1, { isKeeper: true })],
+        playerWeeks,
+        season: 2026,
+        throughScoringPeriod: null,
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("compareDraftGrades", () => {
+  it("lines up each manager's seasons and ranks by average surplus", () => {
+    const seasons = [2026, 2025].flatMap((season) => {
+      const grades = gradeDraftSeason({
+        picks,
+        playerWeeks,
+        season,
+        throughScoringPeriod: null,
+      });
+      return grades ? [grades] : [];
+    });
+
+    expect(compareDraftGrades(seasons)).toEqual([
+      {
+        averageSurplus: 5,
+        managerKey: "member-2",
+        managerName: "Team 2",
+        seasons: [
+          { grade: "F", rank: 2, season: 2025, surplus: 0 },
+          { grade: "A", rank: 1, season: 2026, surplus: 10 },
+        ],
+      },
+      {
+        averageSurplus: -5,
+        managerKey: "member-1",
+        managerName: "Team 1",
+        seasons: [
+          { grade: "A", rank: 1, season: 2025, surplus: 20 },
+          { grade: "F", rank: 2, season: 2026, surplus: -30 },
+        ],
+      },
+    ]);
+  });
+});
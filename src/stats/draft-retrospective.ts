@@ -0,0 +1,529 @@
+import { and, eq, inArray, type SQL } from "drizzle-orm";
+import type { LeagueScopedTx } from "@/db/rls";
+import {
+  fantasyDraftPicks,
+  fantasyPlayers,
+  fantasyRosterEntries,
+  fantasyTeams,
+} from "@/db/schema";
+
+// Draft retrospective. A pick's expected output is what the league's history
+// says a player drafted at that spot in the position's pecking order scores:
+// the third RB off the board is measured against every RB2-RB4 the league has
+// drafted, over the same stretch of weeks. A manager's grade is how far the
+// draft's combined surplus sits from the rest of the room that season.
+
+/** Picks within this many slots of a positional rank share its baseline. */
+const BASELINE_RANK_WINDOW = 1;
+
+export const DRAFT_GRADE_LETTERS = ["A", "B", "C", "D", "F"] as const;
+export type DraftGradeLetter = (typeof DRAFT_GRADE_LETTERS)[number];
+
+export interface DraftRetrospectivePick {
+  isKeeper: boolean;
+  /** Stable across seasons: the team's first owner, else the team id. */
+  managerKey: string;
+  managerName: string;
+  pickOverall: number | null;
+  playerName: string;
+  position: string;
+  providerPickId: string;
+  providerPlayerId: string | null;
+  providerTeamId: string;
+  round: number;
+  season: number;
+}
+
+/** One player's points for one team in one scoring period. */
+export interface DraftRetrospectivePlayerWeek {
+  points: number;
+  providerPlayerId: string;
+  providerTeamId: string;
+  scoringPeriod: number;
+  season: number;
+}
+
+export interface DraftPickGrade {
+  expectedPoints: number;
+  pickOverall: number;
+  playerName: string;
+  points: number;
+  position: string;
+  positionRank: number;
+  providerPlayerId: string;
+  round: number;
+  /** Points over (or under) the positional baseline. */
+  value: number;
+}
+
+export interface DraftManagerGrade {
+  bestPick: DraftPickGrade | null;
+  expectedPoints: number;
+  grade: DraftGradeLetter;
+  managerKey: string;
+  managerName: string;
+  picks: DraftPickGrade[];
+  points: number;
+  rank: number;
+  surplus: number;
+  worstPick: DraftPickGrade | null;
+}
+
+export interface DraftSeasonGrades {
+  /** Seasons whose drafts fed the positional baselines. */
+  baselineSeasons: number[];
+  managers: DraftManagerGrade[];
+  season: number;
+  /** Last week counted; null grades the whole season. */
+  throughScoringPeriod: number | null;
+}
+
+export interface DraftCareerGrade {
+  averageSurplus: number;
+  managerKey: string;
+  managerName: string;
+  seasons: {
+    grade: DraftGradeLetter;
+    rank: number;
+    season: number;
+    surplus: number;
+  }[];
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+}
+
+function compareStable(left: string, right: string): number {
+  return left.localeCompare(right, undefined, {
+    numeric: true,
+    sensitivity: "base",
+  });
+}
+
+function pointsKey(input: {
+  providerPlayerId: string;
+  providerTeamId: string;
+  season: number;
+}): string {
+  return `${input.season}\u001f${input.providerTeamId}\u001f${input.providerPlayerId}`;
+}
+
+interface RankedPick {
+  pick: DraftRetrospectivePick & {
+    pickOverall: number;
+    providerPlayerId: string;
+  };
+  points: number;
+  positionRank: number;
+}
+
+/**
+ * Orders each season's non-keeper picks by position and attaches the points
+ * the drafting team got from the player inside the window.
+ */
+function rankedPicks(
+  picks: readonly DraftRetrospectivePick[],
+  playerWeeks: readonly DraftRetrospectivePlayerWeek[],
+  throughScoringPeriod: number | null,
+): RankedPick[] {
+  const points = new Map<string, number>();
+  for (const row of playerWeeks) {
+    if (
+      throughScoringPeriod !== null &&
+      row.scoringPeriod > throughScoringPeriod
+    ) {
+      continue;
+    }
+    const key = pointsKey(row);
+    points.set(key, (points.get(key) ?? 0) + row.points);
+  }
+
+  const bySeasonPosition = new Map<string, RankedPick["pick"][]>();
+  for (const pick of picks) {
+    if (pick.isKeeper || !pick.providerPlayerId || !pick.pickOverall) {
+      continue;
+    }
+    const key = `${pick.season}\u001f${pick.position}`;
+    const rows = bySeasonPosition.get(key) ?? [];
+    rows.push(pick as RankedPick["pick"]);
+    bySeasonPosition.set(key, rows);
+  }
+
+  return [...bySeasonPosition.values()].flatMap((rows) =>
+    [...rows]
+      .sort(
+        (left, right) =>
+          left.pickOverall - right.pickOverall ||
+          compareStable(left.providerPickId, right.providerPickId),
+      )
+      .map((pick, index) => ({
+        pick,
+        points: round(points.get(pointsKey(pick)) ?? 0),
+        positionRank: index + 1,
+      })),
+  );
+}
+
+function letterGrade(zScore: number): DraftGradeLetter {
+  if (zScore >= 1) {
+    return "A";
+  }
+  if (zScore >= 0.35) {
+    return "B";
+  }
+  if (zScore > -0.35) {
+    return "C";
+  }
+  if (zScore > -1) {
+    return "D";
+  }
+  return "F";
+}
+
+/**
+ * Grades one season's drafts from every imported draft in the league. Returns
+ * null when the season has no gradeable picks.
+ */
+export function gradeDraftSeason({
+  picks,
+  playerWeeks,
+  season,
+  throughScoringPeriod,
+}: {
+  picks: readonly DraftRetrospectivePick[];
+  playerWeeks: readonly DraftRetrospectivePlayerWeek[];
+  season: number;
+  throughScoringPeriod: number | null;
+}): DraftSeasonGrades | null {
+  const ranked = rankedPicks(picks, playerWeeks, throughScoringPeriod);
+  const graded = ranked.filter((row) => row.pick.season === season);
+  if (graded.length === 0) {
+    return null;
+  }
+
+  const pool = new Map<string, number[]>();
+  for (const row of ranked) {
+    const key = `${row.pick.position}\u001f${row.positionRank}`;
+    const values = pool.get(key) ?? [];
+    values.push(row.points);
+    pool.set(key, values);
+  }
+  const expectedFor = (position: string, positionRank: number): number => {
+    const values: number[] = [];
+    for (
+      let rank = Math.max(1, positionRank - BASELINE_RANK_WINDOW);
+      rank <= positionRank + BASELINE_RANK_WINDOW;
+      rank += 1
+    ) {
+      values.push(...(pool.get(`${position}\u001f${rank}`) ?? []));
+    }
+    return values.length > 0
+      ? round(values.reduce((total, value) => total + value, 0) / values.length)
+      : 0;
+  };
+
+  const byManager = new Map<
+    string,
+    { managerName: string; picks: DraftPickGrade[] }
+  >();
+  for (const row of graded) {
+    const expectedPoints = expectedFor(row.pick.position, row.positionRank);
+    const manager = byManager.get(row.pick.managerKey) ?? {
+      managerName: row.pick.managerName,
+      picks: [],
+    };
+    manager.picks.push({
+      expectedPoints,
+      pickOverall: row.pick.pickOverall,
+      playerName: row.pick.playerName,
+      points: row.points,
+      position: row.pick.position,
+      positionRank: row.positionRank,
+      providerPlayerId: row.pick.providerPlayerId,
+      round: row.pick.round,
+      value: round(row.points - expectedPoints),
+    });
+    byManager.set(row.pick.managerKey, manager);
+  }
+
+  const managers = [...byManager.entries()].map(([managerKey, manager]) => {
+    const picksInOrder = [...manager.picks].sort(
+      (left, right) => left.pickOverall - right.pickOverall,
+    );
+    const byValue = [...picksInOrder].sort(
+      (left, right) =>
+        right.value - left.value || left.pickOverall - right.pickOverall,
+    );
+    return {
+      bestPick: byValue[0] ?? null,
+      expectedPoints: round(
+        picksInOrder.reduce((total, pick) => total + pick.expectedPoints, 0),
+      ),
+      managerKey,
+      managerName: manager.managerName,
+      picks: picksInOrder,
+      points: round(
+        picksInOrder.reduce((total, pick) => total + pick.points, 0),
+      ),
+      surplus: round(
+        picksInOrder.reduce((total, pick) => total + pick.value, 0),
+      ),
+      worstPick: byValue.at(-1) ?? null,
+    };
+  });
+
+  const mean =
+    managers.reduce((total, manager) => total + manager.surplus, 0) /
+    managers.length;
+  const deviation = Math.sqrt(
+    managers.reduce(
+      (total, manager) => total + (manager.surplus - mean) ** 2,
+      0,
+    ) / managers.length,
+  );
+
+  return {
+    baselineSeasons: [...new Set(ranked.map((row) => row.pick.season))].sort(
+      (left, right) => left - right,
+    ),
+    managers: managers
+      .sort(
+        (left, right) =>
+          right.surplus - left.surplus ||
+          compareStable(left.managerName, right.managerName),
+      )
+      .map((manager, index) => ({
+        ...manager,
+        grade: letterGrade(
+          deviation > 0 ? (manager.surplus - mean) / deviation : 0,
+        ),
+        rank: index + 1,
+      })),
+    season,
+    throughScoringPeriod,
+  };
+}
+
+/** Each manager's grades side by side, best average surplus first. */
+export function compareDraftGrades(
+  seasons: readonly DraftSeasonGrades[],
+): DraftCareerGrade[] {
+  const careers = new Map<string, DraftCareerGrade>();
+  for (const season of [...seasons].sort(
+    (left, right) => left.season - right.season,
+  )) {
+    for (const manager of season.managers) {
+      const career = careers.get(manager.managerKey) ?? {
+        averageSurplus: 0,
+        managerKey: manager.managerKey,
+        managerName: manager.managerName,
+        seasons: [],
+      };
+      // Latest season's name wins so the career reads like the current room.
+      career.managerName = manager.managerName;
+      career.seasons.push({
+        grade: manager.grade,
+        rank: manager.rank,
+        season: season.season,
+        surplus: manager.surplus,
+      });
+      careers.set(manager.managerKey, career);
+    }
+  }
+
+  return [...careers.values()]
+    .map((career) => ({
+      ...career,
+      averageSurplus: round(
+        career.seasons.reduce((total, season) => total + season.surplus, 0) /
+          career.seasons.length,
+      ),
+    }))
+    .sort(
+      (left, right) =>
+        right.averageSurplus - left.averageSurplus ||
+        compareStable(left.managerName, right.managerName),
+    );
+}
+
+export interface DraftRetrospective {
+  careers: DraftCareerGrade[];
+  current: DraftSeasonGrades;
+  history: DraftSeasonGrades[];
+}
+
+/**
+ * Grades `season` through `throughScoringPeriod` (null for the full season)
+ * next to every other imported season's full-season grades.
+ */
+export async function loadDraftRetrospective(
+  tx: LeagueScopedTx,
+  input: {
+    leagueId: string;
+    season: number;
+    throughScoringPeriod: number | null;
+  },
+): Promise<DraftRetrospective | null> {
+  const pickRows = await tx
+    .select({
+      isKeeper: fantasyDraftPicks.isKeeper,
+      leagueProviderId: fantasyDraftPicks.leagueProviderId,
+      metadata: fantasyDraftPicks.metadata,
+      pickOverall: fantasyDraftPicks.pickOverall,
+      providerPickId: fantasyDraftPicks.providerPickId,
+      providerPlayerId: fantasyDraftPicks.providerPlayerId,
+      providerTeamId: fantasyDraftPicks.providerTeamId,
+      round: fantasyDraftPicks.round,
+      season: fantasyDraftPicks.season,
+    })
+    .from(fantasyDraftPicks)
+    .where(eq(fantasyDraftPicks.leagueId, input.leagueId));
+  if (!pickRows.some((row) => row.season === input.season)) {
+    return null;
+  }
+
+  const seasons = [...new Set(pickRows.map((row) => row.season))];
+  const teamRows = await tx
+    .select({
+      leagueProviderId: fantasyTeams.leagueProviderId,
+      name: fantasyTeams.name,
+      ownerMemberIds: fantasyTeams.ownerMemberIds,
+      providerTeamId: fantasyTeams.providerTeamId,
+      season: fantasyTeams.season,
+    })
+    .from(fantasyTeams)
+    .where(
+      and(
+        eq(fantasyTeams.leagueId, input.leagueId),
+        inArray(fantasyTeams.season, seasons),
+      ),
+    );
+  const teams = new Map(
+    teamRows.map((team) => [
+      `${team.leagueProviderId}\u001f${team.season}\u001f${team.providerTeamId}`,
+      team,
+    ]),
+  );
+  const playerIds = [
+    ...new Set(
+      pickRows
+        .map((row) => row.providerPlayerId)
+        .filter((id): id is string => Boolean(id)),
+    ),
+  ];
+  const playerRows =
+    playerIds.length > 0
+      ? await tx
+          .select({
+            fullName: fantasyPlayers.fullName,
+            leagueProviderId: fantasyPlayers.leagueProviderId,
+            position: fantasyPlayers.position,
+            providerPlayerId: fantasyPlayers.providerPlayerId,
+          })
+          .from(fantasyPlayers)
+          .where(
+            and(
+              eq(fantasyPlayers.leagueId, input.leagueId),
+              inArray(fantasyPlayers.providerPlayerId, playerIds),
+            ),
+          )
+      : [];
+  const players = new Map(
+    playerRows.map((player) => [
+      `${player.leagueProviderId}\u001f${player.providerPlayerId}`,
+      player,
+    ]),
+  );
+
+  const picks = pickRows.map((row): DraftRetrospectivePick => {
+    const team = teams.get(
+      `${row.leagueProviderId}\u001f${row.season}\u001f${row.providerTeamId}`,
+    );
+    const player = row.providerPlayerId
+      ? players.get(`${row.leagueProviderId}\u001f${row.providerPlayerId}`)
+      : undefined;
+    const metadataPosition = row.metadata.position;
+    return {
+      isKeeper: row.isKeeper,
+      managerKey: team?.ownerMemberIds[0] ?? `team:${row.providerTeamId}`,
+      managerName: team?.name ?? `Team ${row.providerTeamId}`,
+      pickOverall: row.pickOverall,
+      playerName:
+        player?.fullName ?? `Player ${row.providerPlayerId ?? "unknown"}`,
+      position:
+        player && player.position !== "unknown"
+          ? player.position
+          : typeof metadataPosition === "string" && metadataPosition
+            ? metadataPosition
+            : "unknown",
+      providerPickId: row.providerPickId,
+      providerPlayerId: row.providerPlayerId,
+      providerTeamId: row.providerTeamId,
+      round: row.round,
+      season: row.season,
+    };
+  });
+
+  const weekFilters: SQL[] = [
+    eq(fantasyRosterEntries.leagueId, input.leagueId),
+    inArray(fantasyRosterEntries.season, seasons),
+  ];
+  if (playerIds.length > 0) {
+    weekFilters.push(inArray(fantasyRosterEntries.providerPlayerId, playerIds));
+  }
+  const weekRows = await tx
+    .select({
+      actualPoints: fantasyRosterEntries.actualPoints,
+      points: fantasyRosterEntries.points,
+      providerPlayerId: fantasyRosterEntries.providerPlayerId,
+      providerTeamId: fantasyRosterEntries.providerTeamId,
+      scoringPeriod: fantasyRosterEntries.scoringPeriod,
+      season: fantasyRosterEntries.season,
+    })
+    .from(fantasyRosterEntries)
+    .where(and(...weekFilters));
+  const playerWeeks = weekRows.flatMap((row) => {
+    const points = row.actualPoints ?? row.points;
+    return points === null
+      ? []
+      : [
+          {
+            points,
+            providerPlayerId: row.providerPlayerId,
+            providerTeamId: row.providerTeamId,
+            scoringPeriod: row.scoringPeriod,
+            season: row.season,
+          },
+        ];
+  });
+
+  const current = gradeDraftSeason({
+    picks,
+    playerWeeks,
+    season: input.season,
+    throughScoringPeriod: input.throughScoringPeriod,
+  });
+  if (!current) {
+    return null;
+  }
+  const history = seasons
+    .filter((season) => season !== input.season)
+    .sort((left, right) => right - left)
+    .map((season) =>
+      gradeDraftSeason({
+        picks,
+        playerWeeks,
+        season,
+        throughScoringPeriod: null,
+      }),
+    )
+    .filter((grades): grades is DraftSeasonGrades => Boolean(grades));
+
+  return {
+    careers: compareDraftGrades([current, ...history]),
+    current,
+    history,
+  };
+}
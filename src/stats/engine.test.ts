@@ -5029,6 +5029,78 @@ describe("recomputeLeagueStatistics", () => {
     expect(rows.auditRows.some((row) => row.action === "rename")).toBe(true);
   });
 
+  it("links persons across providers by owner name, never by reused provider ids", async () => {
+    const providerLeagueId = `${marker}-multi-provider`;
+    const [league] = await handle.db
+      .insert(leagues)
+      .values({
+        name: `${marker} multi-provider`,
+        provider: "sleeper",
+        providerLeagueId,
+        season: 2017,
+        sport: "ffl",
+        status: "complete",
+      })
+      .returning();
+    if (!league) {
+      throw new Error("multi-provider stats test league was not created");
+    }
+    // Yahoo and Sleeper both number their teams and members from 1, so the
+    // same raw ids name different managers on each side of the move.
+    const seasonsByProvider = [
+      {
+        leagueProviderId: `${providerLeagueId}-yahoo`,
+        owners: ["Alex Manager", "Blair Manager"],
+        provider: "yahoo" as const,
+        season: 2016,
+      },
+      {
+        leagueProviderId: providerLeagueId,
+        owners: ["Blair Manager", "Alex Manager"],
+        provider: "sleeper" as const,
+        season: 2017,
+      },
+    ];
+    await withLeagueContext(handle.db, league.id, async (tx) => {
+      for (const source of seasonsByProvider) {
+        for (const [index, ownerName] of source.owners.entries()) {
+          const id = String(index + 1);
+          await tx.insert(fantasyMembers).values({
+            contentHash: `${marker}-${source.provider}-member-${id}`,
+            displayName: ownerName,
+            leagueId: league.id,
+            leagueProviderId: source.leagueProviderId,
+            provider: source.provider,
+            providerMemberId: id,
+            role: "member",
+            season: source.season,
+          });
+          await tx.insert(fantasyTeams).values({
+            contentHash: `${marker}-${source.provider}-team-${id}`,
+            leagueId: league.id,
+            leagueProviderId: source.leagueProviderId,
+            name: `${ownerName.split(" ")[0]} ${source.provider}`,
+            ownerMemberIds: [id],
+            provider: source.provider,
+            providerTeamId: id,
+            season: source.season,
+          });
+        }
+      }
+    });
+
+    await resolveLeagueIdentities(handle.db, { leagueId: league.id });
+
+    const rows = await selectStatsRows(league.id);
+    const personFor = (season: number, providerTeamId: string) =>
+      rows.mappingRows.find(
+        (row) => row.season === season && row.providerTeamId === providerTeamId,
+      )?.personId;
+    expect(rows.personRows).toHaveLength(2);
+    expect(personFor(2017, "1")).toBe(personFor(2016, "2"));
+    expect(personFor(2017, "2")).toBe(personFor(2016, "1"));
+  });
+
   it("keeps co-owner overlaps scoped to the team slot during identity resolution", async () => {
     const { leagueId } = await seedCoOwnerLeague("coowners");
 
@@ -21,6 +21,7 @@ import {
   leagueCurationSeasonPushes,
   leagueDataEdits,
   leagueGroupingSeasons,
+  leagueRecordDefinitions,
   leagueSeasonGroupings,
   leagueSeasonSettings,
   leagues,
@@ -41,8 +42,20 @@ import type {
   ProviderDataSupport,
   ProviderProbeVerdict,
 } from "@/providers/model";
+import {
+  type CustomRecordDefinition,
+  type CustomRecordStarterInput,
+  type CustomRecordType,
+  customRecordCandidates,
+  customRecordType,
+  customRecordUsesStarterPositions,
+  isCustomRecordType,
+  loadActiveCustomRecordDefinitions,
+  loadCustomRecordStarterRows,
+} from "./custom-records";
 import { identityNameSimilarity } from "./fuzzy";
 import { refreshRecordBookAggregates } from "./records-catalog";
+import { refreshTradeAnalysesInContext } from "./trade-analyzer";
 
 export const RECORD_TYPE_LABELS = {
   best_career_win_percentage: "Best career win %",
@@ -98,6 +111,24 @@ export const RECORD_TYPE_LABELS = {
 
 export type RecordType = keyof typeof RECORD_TYPE_LABELS;
 
+/** Every `all_time_record.record_type`: built-in plus league-defined. */
+export type AllTimeRecordType = RecordType | CustomRecordType;
+
+/**
+ * Display label for a stored record. House records carry their label in the
+ * row metadata (written from the league's definition at recompute time).
+ */
+export function allTimeRecordLabel(
+  recordType: string,
+  metadata?: Record<string, unknown> | null,
+): string {
+  if (recordType in RECORD_TYPE_LABELS) {
+    return RECORD_TYPE_LABELS[recordType as RecordType];
+  }
+  const label = metadata?.label;
+  return typeof label === "string" ? label : recordType.replaceAll("_", " ");
+}
+
 type TeamSeasonRow = typeof teamSeasons.$inferSelect;
 type TeamSeasonInsert = typeof teamSeasons.$inferInsert;
 type IdentityMappingRow = typeof identityMappings.$inferSelect;
@@ -202,7 +233,7 @@ interface RecordCandidate {
 }
 
 interface RecordEvent extends RecordCandidate {
-  recordType: RecordType;
+  recordType: AllTimeRecordType;
 }
 
 interface PostseasonFlags {
@@ -236,8 +267,10 @@ export interface RecordBrokenHook {
   allTimeRecordId: string;
   holderPersonId: string | null;
   previousRecordId: string;
+  /** Display label; house records carry their league-defined label. */
+  label: string;
   recordKey: string;
-  recordType: RecordType;
+  recordType: AllTimeRecordType;
   scoringPeriod: number | null;
   season: number | null;
   value: number;
@@ -453,6 +486,27 @@ function ownerSignature(values: readonly string[]): string {
   return sortedUnique(values).join("\u001f");
 }
 
+/**
+ * Team and member ids are only unique within one provider. A league stitched
+ * from several providers can reuse the same raw id for different franchises,
+ * so identity matching compares ids in provider-qualified form; cross-provider
+ * seasons link through owner and team names instead.
+ */
+function providerScopedId(
+  teamSeason: Pick<TeamSeasonRow, "provider">,
+  value: string,
+): string {
+  return `${teamSeason.provider}:${value}`;
+}
+
+function providerScopedOwnerIds(teamSeason: TeamSeasonRow): string[] {
+  return sortedUnique(
+    teamSeason.ownerMemberIds.map((ownerId) =>
+      providerScopedId(teamSeason, ownerId),
+    ),
+  );
+}
+
 function overlap(left: ReadonlySet<string>, right: readonly string[]): boolean {
   return right.some((value) => left.has(value));
 }
@@ -474,13 +528,16 @@ function addTeamSeasonToState(
   state: ResolvedIdentityState,
   teamSeason: TeamSeasonRow,
 ) {
-  state.providerTeamIds.add(teamSeason.providerTeamId);
+  const ownerMemberIds = providerScopedOwnerIds(teamSeason);
+  state.providerTeamIds.add(
+    providerScopedId(teamSeason, teamSeason.providerTeamId),
+  );
   state.seasons.add(teamSeason.season);
   state.teamNames.add(teamSeason.teamName);
-  if (teamSeason.ownerMemberIds.length > 0) {
-    state.ownerSignatures.add(ownerSignature(teamSeason.ownerMemberIds));
+  if (ownerMemberIds.length > 0) {
+    state.ownerSignatures.add(ownerSignature(ownerMemberIds));
   }
-  for (const ownerId of teamSeason.ownerMemberIds) {
+  for (const ownerId of ownerMemberIds) {
     state.ownerMemberIds.add(ownerId);
   }
   for (const ownerName of teamSeason.ownerNames) {
@@ -493,11 +550,11 @@ function chooseCandidate(
   states: Iterable<ResolvedIdentityState>,
 ): IdentityCandidate | null {
   let best: IdentityCandidate | null = null;
-  const teamSeasonOwnerMemberIds = sortedUnique(teamSeason.ownerMemberIds);
+  const teamSeasonOwnerMemberIds = providerScopedOwnerIds(teamSeason);
 
   for (const state of states) {
     const sameProviderSlot = state.providerTeamIds.has(
-      teamSeason.providerTeamId,
+      providerScopedId(teamSeason, teamSeason.providerTeamId),
     );
     if (state.seasons.has(teamSeason.season) && !sameProviderSlot) {
       continue;
@@ -697,6 +754,7 @@ async function loadTeamSeasonFacts(tx: LeagueScopedTx, leagueId: string) {
   const members = await tx
     .select({
       displayName: fantasyMembers.displayName,
+      provider: fantasyMembers.provider,
       providerMemberId: fantasyMembers.providerMemberId,
       season: fantasyMembers.season,
     })
@@ -706,7 +764,7 @@ async function loadTeamSeasonFacts(tx: LeagueScopedTx, leagueId: string) {
   const memberNamesBySeason = new Map<string, string>();
   for (const member of members) {
     memberNamesBySeason.set(
-      `${member.season}:${member.providerMemberId}`,
+      `${member.provider}:${member.season}:${member.providerMemberId}`,
       member.displayName,
     );
   }
@@ -715,7 +773,9 @@ async function loadTeamSeasonFacts(tx: LeagueScopedTx, leagueId: string) {
     const ownerMemberIds = sortedUnique(team.ownerMemberIds);
     const ownerNames = sortedUnique(
       ownerMemberIds
-        .map((ownerId) => memberNamesBySeason.get(`${team.season}:${ownerId}`))
+        .map((ownerId) =>
+          memberNamesBySeason.get(`${team.provider}:${team.season}:${ownerId}`),
+        )
         .filter((name): name is string => Boolean(name)),
     );
 
@@ -1879,7 +1939,7 @@ function titleGameScore({
 }
 
 function currentRecordEvents(
-  recordType: RecordType,
+  recordType: AllTimeRecordType,
   candidates: readonly RecordCandidate[],
   direction: "max" | "min",
 ): RecordEvent[] {
@@ -1904,7 +1964,7 @@ function currentRecordEvents(
 }
 
 function bestCurrentOnly(
-  recordType: RecordType,
+  recordType: AllTimeRecordType,
   candidates: readonly RecordCandidate[],
   direction: "max" | "min",
 ): RecordEvent[] {
@@ -2319,6 +2379,67 @@ function recordEvents({
   ];
 }
 
+function customRecordEvents({
+  definitions,
+  facts,
+  seasonRows,
+  starterRows,
+}: {
+  definitions: readonly CustomRecordDefinition[];
+  facts: readonly WeeklyFact[];
+  seasonRows: readonly SeasonStat[];
+  starterRows: readonly CustomRecordStarterInput[];
+}): RecordEvent[] {
+  return definitions.flatMap((definition) => {
+    const candidates = customRecordCandidates({
+      definition,
+      seasonFinishes: seasonRows,
+      starterRows,
+      weeklyRows: facts,
+    }).map(
+      (candidate): RecordCandidate => ({
+        holderPersonId: candidate.holderPersonId,
+        metadata: { games: candidate.games, label: definition.label },
+        opponentPersonId: candidate.opponentPersonId,
+        scoringPeriod: candidate.scoringPeriod,
+        season: candidate.season,
+        sortKey: candidate.sortKey,
+        value: candidate.value,
+      }),
+    );
+    const recordType = customRecordType(definition.recordKey);
+    // Single-game house records replay a progression like the built-in weekly
+    // records; aggregates keep only the current holder, as career records do.
+    return definition.scope === "week"
+      ? currentRecordEvents(recordType, candidates, definition.direction)
+      : bestCurrentOnly(recordType, candidates, definition.direction);
+  });
+}
+
+async function allRecordEvents(
+  tx: LeagueScopedTx,
+  leagueId: string,
+  state: StatsComputationState,
+): Promise<RecordEvent[]> {
+  const definitions = await loadActiveCustomRecordDefinitions(tx, leagueId);
+  const starterRows = customRecordUsesStarterPositions(definitions)
+    ? await loadCustomRecordStarterRows(tx, leagueId)
+    : [];
+  return [
+    ...recordEvents({
+      facts: state.weeklyFacts,
+      headToHead: state.h2hRows,
+      seasonRows: state.seasonStats,
+    }),
+    ...customRecordEvents({
+      definitions,
+      facts: state.weeklyFacts,
+      seasonRows: state.seasonStats,
+      starterRows,
+    }),
+  ];
+}
+
 function stableJson(value: unknown): string {
   if (Array.isArray(value)) {
     return `[${value.map(stableJson).join(",")}]`;
@@ -2337,17 +2458,28 @@ function recordSortKey(metadata: Record<string, unknown>): string | null {
   return typeof value === "string" ? value : null;
 }
 
-function recordNaturalKey(recordType: RecordType, sortKey: string): string {
+function recordNaturalKey(
+  recordType: AllTimeRecordType,
+  sortKey: string,
+): string {
   return `${recordType}\u001f${sortKey}`;
 }
 
 function recordBrokenKey(
-  recordType: RecordType,
+  recordType: AllTimeRecordType,
   allTimeRecordId: string,
 ): string {
   return `${recordType}:${allTimeRecordId}`;
 }
 
+function recordEventLabel(event: RecordEvent): string {
+  if (isCustomRecordType(event.recordType)) {
+    const label = event.metadata?.label;
+    return typeof label === "string" ? label : event.recordType;
+  }
+  return RECORD_TYPE_LABELS[event.recordType];
+}
+
 function recordBrokenHookFor({
   event,
   id,
@@ -2360,6 +2492,7 @@ function recordBrokenHookFor({
   return {
     allTimeRecordId: id,
     holderPersonId: event.holderPersonId,
+    label: recordEventLabel(event),
     previousRecordId,
     recordKey: recordBrokenKey(event.recordType, id),
     recordType: event.recordType,
@@ -2385,7 +2518,7 @@ function recordEventValues({
     isCurrent,
     leagueId,
     metadata: {
-      label: RECORD_TYPE_LABELS[event.recordType],
+      label: recordEventLabel(event),
       sortKey: event.sortKey,
       ...(event.metadata ?? {}),
     },
@@ -2420,7 +2553,7 @@ async function refreshAllTimeRecords(
   leagueId: string,
   events: readonly RecordEvent[],
 ): Promise<{ recordBrokenHooks: RecordBrokenHook[]; records: number }> {
-  const byType = new Map<RecordType, RecordEvent[]>();
+  const byType = new Map<AllTimeRecordType, RecordEvent[]>();
   for (const event of events) {
     byType.set(event.recordType, [
       ...(byType.get(event.recordType) ?? []),
@@ -2439,16 +2572,24 @@ async function refreshAllTimeRecords(
       continue;
     }
     existingByKey.set(
-      recordNaturalKey(row.recordType as RecordType, sortKey),
+      recordNaturalKey(row.recordType as AllTimeRecordType, sortKey),
       row,
     );
   }
 
-  const canEmitHooks = existingRows.length > 0;
+  // A house record that has never been written (new or just redefined) is
+  // being established, not broken: its first progression must stay silent
+  // the same way the league's very first recompute does.
+  const existingRecordTypes = new Set(
+    existingRows.map((row) => row.recordType),
+  );
   const recordBrokenHooks: RecordBrokenHook[] = [];
   let writes = 0;
   const targetKeys = new Set<string>();
   for (const [recordType, typeEvents] of byType) {
+    const canEmitHooks =
+      existingRows.length > 0 &&
+      (!isCustomRecordType(recordType) || existingRecordTypes.has(recordType));
     let previousRecordId: string | null = null;
     const sorted = [...typeEvents].sort((left, right) =>
       compareStable(left.sortKey, right.sortKey),
@@ -2515,7 +2656,9 @@ async function refreshAllTimeRecords(
       const sortKey = recordSortKey(row.metadata);
       return (
         !sortKey ||
-        !targetKeys.has(recordNaturalKey(row.recordType as RecordType, sortKey))
+        !targetKeys.has(
+          recordNaturalKey(row.recordType as AllTimeRecordType, sortKey),
+        )
       );
     })
     .map((row) => row.id);
@@ -2552,6 +2695,8 @@ function realProviderLeagueNamespace(
       return /^\d+$/.test(providerLeagueId);
     case "yahoo":
       return /^\d+\.l\.\d+$/.test(providerLeagueId);
+    case "file":
+      return /^file-[0-9a-f]{24}$/.test(providerLeagueId);
   }
 }
 
@@ -2564,6 +2709,7 @@ function providerMemberIdIsValid(
       return ESPN_BRACED_GUID.test(providerMemberId);
     case "sleeper":
     case "yahoo":
+    case "file":
       return providerMemberId.trim().length > 0;
   }
 }
@@ -2574,6 +2720,7 @@ function providerMemberIdRule(provider: FantasyProviderId): string {
       return "braced_guid";
     case "sleeper":
     case "yahoo":
+    case "file":
       return "non_empty";
   }
 }
@@ -3051,6 +3198,10 @@ async function buildDataIntegrityCheckDrafts(
     .select({ id: leagueCurationSeasonPushes.id })
     .from(leagueCurationSeasonPushes)
     .where(eq(leagueCurationSeasonPushes.leagueId, leagueId));
+  const recordDefinitionRows = await tx
+    .select({ id: leagueRecordDefinitions.id })
+    .from(leagueRecordDefinitions)
+    .where(eq(leagueRecordDefinitions.leagueId, leagueId));
   const personRows = await tx
     .select({ canonicalName: persons.canonicalName, id: persons.id })
     .from(persons)
@@ -4230,6 +4381,7 @@ async function buildDataIntegrityCheckDrafts(
     grouping: new Set(groupingRows.map((row) => row.id)),
     matchup: new Set(matchupRows.map((row) => row.id)),
     person: new Set(personRows.map((row) => row.id)),
+    record_definition: new Set(recordDefinitionRows.map((row) => row.id)),
     season_setting: new Set(settingsRows.map((row) => row.id)),
     team_season: new Set(teamSeasonRows.map((row) => row.id)),
     weekly_stat: new Set(weeklyRows.map((row) => row.id)),
@@ -4315,7 +4467,7 @@ export async function runDataIntegrityChecks(
   );
 }
 
-async function startStatsCalculation(
+export async function startStatsCalculation(
   tx: LeagueScopedTx,
   input: {
     calculationType: StatsCalculationType;
@@ -4338,7 +4490,7 @@ async function startStatsCalculation(
   return { id: calculation.id, startedAtMs: Date.now() };
 }
 
-async function completeStatsCalculation(
+export async function completeStatsCalculation(
   tx: LeagueScopedTx,
   input: StatsCalculationRun & {
     rowsProcessed: number;
@@ -4607,15 +4759,14 @@ export async function recomputeLeagueStatistics(
     const recordRefresh = await refreshAllTimeRecords(
       tx,
       input.leagueId,
-      recordEvents({
-        facts: state.weeklyFacts,
-        headToHead: state.h2hRows,
-        seasonRows: state.seasonStats,
-      }),
+      await allRecordEvents(tx, input.leagueId, state),
     );
     const recordBookAggregateCount = await refreshRecordBookAggregates(tx, {
       leagueId: input.leagueId,
     });
+    const tradeRefresh = await refreshTradeAnalysesInContext(tx, {
+      leagueId: input.leagueId,
+    });
     const integrity = await runDataIntegrityChecksInContext(tx, input.leagueId);
     const rowsProcessed =
       weeklyRows +
@@ -4624,6 +4775,7 @@ export async function recomputeLeagueStatistics(
       recordRefresh.records +
       recordBookAggregateCount.standings +
       recordBookAggregateCount.milestones +
+      tradeRefresh.changed +
       integrity.checks;
 
     await completeStatsCalculation(tx, {
@@ -4645,6 +4797,48 @@ export async function recomputeLeagueStatistics(
   });
 }
 
+/**
+ * Re-derives `all_time_record` (and the record-book aggregates) from the
+ * current weekly facts without rebuilding the fact tables. Used when only the
+ * record definitions changed, e.g. a commissioner saved a house record.
+ */
+export async function refreshLeagueRecords(
+  db: Db,
+  input: { leagueId: string; trigger?: string },
+): Promise<{
+  recordBookAggregates: number;
+  recordBrokenHooks: RecordBrokenHook[];
+  records: number;
+}> {
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const calculation = await startStatsCalculation(tx, {
+      calculationType: "records",
+      leagueId: input.leagueId,
+      metadata: { trigger: input.trigger ?? "record_definitions_changed" },
+    });
+    const state = await buildStatsComputationState(tx, input.leagueId);
+    const recordRefresh = await refreshAllTimeRecords(
+      tx,
+      input.leagueId,
+      await allRecordEvents(tx, input.leagueId, state),
+    );
+    const recordBookAggregateCount = await refreshRecordBookAggregates(tx, {
+      leagueId: input.leagueId,
+    });
+    const aggregateRows =
+      recordBookAggregateCount.standings + recordBookAggregateCount.milestones;
+    await completeStatsCalculation(tx, {
+      ...calculation,
+      rowsProcessed: recordRefresh.records + aggregateRows,
+    });
+    return {
+      recordBookAggregates: aggregateRows,
+      recordBrokenHooks: recordRefresh.recordBrokenHooks,
+      records: recordRefresh.records,
+    };
+  });
+}
+
 export async function recomputeChangedMatchupStatistics(
   db: Db,
   input: { leagueId: string; matchupIds: readonly string[] },
@@ -4841,11 +5035,7 @@ export async function recomputeChangedMatchupStatistics(
     const recordRefresh = await refreshAllTimeRecords(
       tx,
       input.leagueId,
-      recordEvents({
-        facts: state.weeklyFacts,
-        headToHead: state.h2hRows,
-        seasonRows: state.seasonStats,
-      }),
+      await allRecordEvents(tx, input.leagueId, state),
     );
     const recordBookAggregateCount = await refreshRecordBookAggregates(tx, {
       leagueId: input.leagueId,
@@ -25,6 +25,7 @@ export {
   type SeasonStatisticsRow,
   seasonRowsForLens,
   toRecordBookLens,
+  tradeRowsFromSnapshot,
   type WeeklyStatisticsRow,
   weeklyRowsFromSnapshot,
 } from "./canon-catalog";
@@ -81,18 +82,117 @@ export {
   setCurationSeasonMode,
 } from "./curation-season-state";
 export {
+  CUSTOM_RECORD_AGGREGATIONS,
+  CUSTOM_RECORD_DIRECTIONS,
+  CUSTOM_RECORD_METRICS,
+  CUSTOM_RECORD_OPPONENT_FINISHES,
+  CUSTOM_RECORD_SCOPES,
+  CUSTOM_RECORD_SEGMENTS,
+  type CustomRecordAggregation,
+  type CustomRecordBounds,
+  type CustomRecordCatalogEntry,
+  type CustomRecordDefinition,
+  type CustomRecordDirection,
+  type CustomRecordFilters,
+  type CustomRecordLeaderEntry,
+  type CustomRecordMetric,
+  type CustomRecordScope,
+  type CustomRecordSegment,
+  type CustomRecordType,
+  customRecordType,
+  isCustomRecordKey,
+  isCustomRecordType,
+} from "./custom-records";
+export {
+  compareDraftGrades,
+  DRAFT_GRADE_LETTERS,
+  type DraftCareerGrade,
+  type DraftGradeLetter,
+  type DraftManagerGrade,
+  type DraftPickGrade,
+  type DraftRetrospective,
+  type DraftRetrospectivePick,
+  type DraftRetrospectivePlayerWeek,
+  type DraftSeasonGrades,
+  gradeDraftSeason,
+  loadDraftRetrospective,
+} from "./draft-retrospective";
+export {
+  type AllTimeRecordType,
+  allTimeRecordLabel,
   mergePersons,
   RECORD_TYPE_LABELS,
   type RecordBrokenHook,
   type RecordType,
   recomputeChangedMatchupStatistics,
   recomputeLeagueStatistics,
+  refreshLeagueRecords,
   resolveLeagueIdentities,
   runDataIntegrityChecks,
   splitPerson,
 } from "./engine";
 export { identityNameSimilarity, normalizeIdentityName } from "./fuzzy";
 export {
+  buildKeeperCandidates,
+  DEFAULT_KEEPER_RULES,
+  type KeeperAcquisition,
+  type KeeperCandidate,
+  type KeeperDraftPick,
+  type KeeperHistoryEntry,
+  type KeeperRosterSpot,
+  type KeeperRules,
+  type KeeperTransaction,
+  type KeeperValueResult,
+  keeperRulesFromSettings,
+  loadKeeperValue,
+} from "./keeper-value";
+export {
+  getLineupAdvice,
+  type LineupAdvice,
+  type LineupAdvicePlayer,
+  type LineupAdviceResult,
+  type LineupRecommendation,
+  type LineupRosterEntry,
+  type LineupSlotAdvice,
+  type LineupWaiverTarget,
+  loadLineupAdvice,
+  projectLineupPoints,
+  recommendLineup,
+} from "./lineup-advice";
+export {
+  buildPlayoffBracket,
+  loadPlayoffBracket,
+  type PlayoffBracket,
+  type PlayoffBracketEntrant,
+  type PlayoffBracketGame,
+  type PlayoffBracketKind,
+  type PlayoffBracketPlacements,
+  type PlayoffBracketRound,
+  type PlayoffBracketSection,
+  type PlayoffBracketStatus,
+  type PlayoffBracketView,
+  type PlayoffGameStatus,
+  type PlayoffSeed,
+} from "./playoff-bracket";
+export {
+  loadPlayoffOdds,
+  PLAYOFF_ODDS_DEFAULT_SIMULATIONS,
+  type PlayoffOddsDelta,
+  type PlayoffOddsRefreshSummary,
+  type PlayoffOddsStanding,
+  refreshPlayoffOdds,
+  simulatePlayoffOdds,
+  type TeamPlayoffOdds,
+} from "./playoff-odds";
+export {
+  archiveLeagueRecordDefinition,
+  type LeagueRecordDefinitionChange,
+  type LeagueRecordDefinitionSummary,
+  listLeagueRecordDefinitions,
+  saveLeagueRecordDefinition,
+} from "./record-definitions";
+export {
+  deliverRecordBrokenWebhooks,
   type RecordBrokenLoreHookResult,
   seedRecordBrokenLoreHooks,
 } from "./record-hooks";
@@ -134,8 +234,37 @@ export {
   type SegmentRecordSet,
   type SegmentStandingCatalogRow,
   type StreakCatalogEntry,
+  type TradeCareerCatalogEntry,
+  type TradeCatalogEntry,
+  type TradeRecordInput,
+  type TradeRecordsCatalog,
   type WeeklyCatalogEntry,
 } from "./records-catalog";
+export {
+  buildScheduleLuck,
+  buildSeasonScheduleLuck,
+  formatScheduleLuckRecord,
+  loadScheduleLuck,
+  type ScheduleLuckRecord,
+  type ScheduleLuckStanding,
+  type ScheduleLuckWeekRow,
+  type ScheduleSwapRow,
+  type SeasonScheduleLuck,
+  scheduleLuckWinPercentage,
+} from "./schedule-luck";
+export {
+  isScoringPresetId,
+  loadScoringStatLines,
+  rescorePlayerPoints,
+  rescoreWeeklyRows,
+  SCORING_PRESETS,
+  type ScoringPresetId,
+  type ScoringRules,
+  type ScoringStatLine,
+  scoreStatLine,
+  scoringRulesFromSettings,
+  statLineFromBreakdowns,
+} from "./scoring-rules";
 export {
   type AcknowledgedProviderPayloadDriftAlert,
   acknowledgeProviderPayloadDriftAlert,
@@ -149,3 +278,18 @@ export {
   rerunDataIntegrityReview,
   type SuggestedIdentityLink,
 } from "./steward";
+export {
+  analyzeTrade,
+  listTradeLedger,
+  loadTradeLedger,
+  refreshTradeAnalyses,
+  type TradeAnalysisRefreshSummary,
+  type TradeAnalysisResult,
+  type TradeAnalyzerPlayerWeek,
+  type TradeAnalyzerTrade,
+  type TradeLedgerEntry,
+  type TradeLedgerPlayer,
+  type TradeLedgerSide,
+  type TradeLedgerVerdict,
+  tradeScoringPeriod,
+} from "./trade-analyzer";
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildKeeperCandidates,
+  DEFAULT_KEEPER_RULES,
+  type KeeperDraftPick,
+  type KeeperRosterSpot,
+  keeperRulesFromSettings,
+} from "./keeper-value";
+
+function pick(
+  season: number,
+  providerPlayerId: string,
+  providerTeamId: string,
+  round: number,
+  isKeeper = false,
+): KeeperDraftPick {
+  return { isKeeper, providerPlayerId, providerTeamId, round, season };
+}
+
+function spot(
+  season: number,
+  providerPlayerId: string,
+  providerTeamId: string,
+): KeeperRosterSpot {
+  return {
+    playerName: `Player ${providerPlayerId}`,
+    position: "RB",
+    providerPlayerId,
+    providerTeamId,
+    season,
+  };
+}
+
+describe("keeperRulesFromSettings", () => {
+  it("reads the keeper count and applies commissioner overrides", () => {
+    expect(keeperRulesFromSettings({ keeperCount: 3 })).toEqual({
+      ...DEFAULT_KEEPER_RULES,
+      maxKeepers: 3,
+    });
+    expect(
+      keeperRulesFromSettings(
+        { keeperCount: 3 },
+        { maxYearsKept: null, roundPenalty: 2 },
+      ),
+    ).toEqual({
+      maxKeepers: 3,
+      maxYearsKept: null,
+      roundPenalty: 2,
+      undraftedRound: 10,
+    });
+  });
+
+  it("keeps everyone at no round cost in dynasty leagues", () => {
+    expect(keeperRulesFromSettings({ isDynasty: true })).toEqual({
+      maxKeepers: null,
+      maxYearsKept: null,
+      roundPenalty: 0,
+      undraftedRound: 10,
+    });
+  });
+});
+
+describe("buildKeeperCandidates", () => {
+  it("follows the keeper chain on the same team and enforces the year cap", () => {
+    const candidates = buildKeeperCandidates({
+      draftPicks: [
+        pick(2023, "p1", "1", 6),
+        pick(2024, "p1", "1", 5, true),
+        pick(2025, "p1", "1", 4, true),
+        pick(2025, "p2", "1", 3),
+        pick(2025, "p3", "2", 3),
+      ],
+      rosterSpots: [
+        spot(2023, "p1", "1"),
+        spot(2024, "p1", "1"),
+        spot(2025, "p1", "1"),
+        spot(2025, "p2", "1"),
+      ],
+      rules: DEFAULT_KEEPER_RULES,
+      season: 2025,
+      seasonPoints: new Map([
+        ["p1", 200],
+        ["p2", 180],
+        ["p3", 120],
+      ]),
+      transactions: [],
+    });
+
+    const kept = candidates.find((row) => row.providerPlayerId === "p1");
+    expect(kept).toMatchObject({
+      acquisition: "keeper",
+      costRound: 4,
+      draftRound: 4,
+      eligible: false,
+      ineligibleReason: "Kept the maximum 2 seasons",
+      projectedCostRound: null,
+      value: null,
+      yearsKept: 2,
+    });
+    expect(kept?.history.map((entry) => entry.season)).toEqual([
+      2023, 2024, 2025,
+    ]);
+
+    const drafted = candidates.find((row) => row.providerPlayerId === "p2");
+    expect(drafted).toMatchObject({
+      acquisition: "draft",
+      eligible: true,
+      projectedCostRound: 2,
+      yearsKept: 0,
+    });
+    // No 2025 round-two picks, so the round is not valued.
+    expect(drafted?.value).toBeNull();
+  });
+
+  it("carries draft rounds through trades and costs pickups at the undrafted round", () => {
+    const candidates = buildKeeperCandidates({
+      draftPicks: [
+        pick(2025, "p1", "1", 2),
+        pick(2025, "p4", "2", 9),
+        pick(2025, "p5", "3", 9),
+      ],
+      rosterSpots: [spot(2025, "p1", "2"), spot(2025, "p6", "2")],
+      rules: DEFAULT_KEEPER_RULES,
+      season: 2025,
+      seasonPoints: new Map([
+        ["p1", 150],
+        ["p4", 40],
+        ["p5", 60],
+        ["p6", 95],
+      ]),
+      transactions: [
+        {
+          playerProviderIds: ["p1"],
+          season: 2025,
+          teamProviderIds: ["1", "2"],
+          type: "trade",
+        },
+        {
+          playerProviderIds: ["p6"],
+          season: 2025,
+          teamProviderIds: ["2"],
+          type: "waiver",
+        },
+      ],
+    });
+
+    expect(
+      candidates.find((row) => row.providerPlayerId === "p1"),
+    ).toMatchObject({
+      acquisition: "trade",
+      costRound: 2,
+      projectedCostRound: 1,
+    });
+    expect(
+      candidates.find((row) => row.providerPlayerId === "p6"),
+    ).toMatchObject({
+      acquisition: "waiver",
+      costRound: 10,
+      draftRound: null,
+      projectedCostRound: 9,
+      // 95 points over the 50-point average of the round-nine picks.
+      value: 45,
+    });
+  });
+
+  it("stops at the first round", () => {
+    const [candidate] = buildKeeperCandidates({
+      draftPicks: [pick(2025, "p1", "1", 1)],
+      rosterSpots: [spot(2025, "p1", "1")],
+      rules: DEFAULT_KEEPER_RULES,
+      season: 2025,
+      seasonPoints: new Map(),
+      transactions: [],
+    });
+
+    expect(candidate?.eligible).toBe(false);
+    expect(candidate?.ineligibleReason).toBe("No earlier round left to cost");
+  });
+});
@@ -0,0 +1,503 @@
+import { and, eq, inArray, lte, max } from "drizzle-orm";
+import type { LeagueScopedTx } from "@/db/rls";
+import {
+  fantasyDraftPicks,
+  fantasyPlayers,
+  fantasyRosterEntries,
+  fantasyTransactions,
+  type KeeperRulesOverride,
+  leagueSeasonSettings,
+} from "@/db/schema";
+
+// Keeper value. A player's keeper cost follows a chain of seasons on the same
+// team: the round the player was drafted in (or the league's undrafted round
+// for pickups), climbing `roundPenalty` rounds for every year kept. Trades
+// carry the draft round to the new team but restart the years-kept count,
+// since the new team has not kept the player yet. Value compares the player's
+// season points with what that round's picks scored in the same draft.
+
+export type KeeperAcquisition =
+  | "draft"
+  | "free_agent"
+  | "keeper"
+  | "trade"
+  | "waiver";
+
+export interface KeeperRules {
+  /** Null is unlimited, as in dynasty leagues. */
+  maxKeepers: number | null;
+  /** Null is unlimited. */
+  maxYearsKept: number | null;
+  roundPenalty: number;
+  undraftedRound: number;
+}
+
+export interface KeeperDraftPick {
+  isKeeper: boolean;
+  providerPlayerId: string;
+  providerTeamId: string;
+  round: number;
+  season: number;
+}
+
+/** A player on a team's final roster of a season. */
+export interface KeeperRosterSpot {
+  playerName: string;
+  position: string | null;
+  providerPlayerId: string;
+  providerTeamId: string;
+  season: number;
+}
+
+export interface KeeperTransaction {
+  playerProviderIds: readonly string[];
+  season: number;
+  teamProviderIds: readonly string[];
+  type: string;
+}
+
+export interface KeeperHistoryEntry {
+  acquisition: KeeperAcquisition;
+  costRound: number;
+  draftRound: number | null;
+  season: number;
+  yearsKept: number;
+}
+
+export interface KeeperCandidate {
+  acquisition: KeeperAcquisition;
+  /** What the player cost this season. */
+  costRound: number;
+  draftRound: number | null;
+  eligible: boolean;
+  /** Oldest first, ending with the current season. */
+  history: KeeperHistoryEntry[];
+  ineligibleReason: string | null;
+  playerName: string;
+  position: string | null;
+  projectedCostRound: number | null;
+  providerPlayerId: string;
+  providerTeamId: string;
+  seasonPoints: number;
+  /** Season points over the average pick in the projected round. */
+  value: number | null;
+  yearsKept: number;
+}
+
+export const DEFAULT_KEEPER_RULES: KeeperRules = {
+  maxKeepers: 2,
+  maxYearsKept: 2,
+  roundPenalty: 1,
+  undraftedRound: 10,
+};
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+}
+
+function positiveInteger(value: unknown): number | null {
+  return typeof value === "number" && Number.isInteger(value) && value > 0
+    ? value
+    : null;
+}
+
+function nonNegativeInteger(value: unknown): number | null {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0
+    ? value
+    : null;
+}
+
+/**
+ * Provider keeper settings only carry the keeper count and the league type;
+ * the rest comes from the commissioner's overrides or the defaults. Dynasty
+ * leagues keep everyone at no round cost unless the commissioner says
+ * otherwise.
+ */
+export function keeperRulesFromSettings(
+  keeperSettings: Record<string, unknown>,
+  override: KeeperRulesOverride = {},
+): KeeperRules {
+  const isDynasty = keeperSettings.isDynasty === true;
+  const base: KeeperRules = isDynasty
+    ? {
+        maxKeepers: null,
+        maxYearsKept: null,
+        roundPenalty: 0,
+        undraftedRound: DEFAULT_KEEPER_RULES.undraftedRound,
+      }
+    : {
+        ...DEFAULT_KEEPER_RULES,
+        maxKeepers:
+          positiveInteger(keeperSettings.keeperCount) ??
+          DEFAULT_KEEPER_RULES.maxKeepers,
+      };
+  return {
+    maxKeepers:
+      override.maxKeepers === undefined
+        ? base.maxKeepers
+        : positiveInteger(override.maxKeepers),
+    maxYearsKept:
+      override.maxYearsKept === undefined
+        ? base.maxYearsKept
+        : positiveInteger(override.maxYearsKept),
+    roundPenalty:
+      nonNegativeInteger(override.roundPenalty) ?? base.roundPenalty,
+    undraftedRound:
+      positiveInteger(override.undraftedRound) ?? base.undraftedRound,
+  };
+}
+
+function seasonKey(season: number, providerPlayerId: string): string {
+  return `${season}:${providerPlayerId}`;
+}
+
+function acquisitionFor(input: {
+  pick: KeeperDraftPick | undefined;
+  providerPlayerId: string;
+  providerTeamId: string;
+  transactions: readonly KeeperTransaction[];
+}): KeeperAcquisition {
+  if (input.pick?.providerTeamId === input.providerTeamId) {
+    return input.pick.isKeeper ? "keeper" : "draft";
+  }
+  const moves = input.transactions.filter(
+    (transaction) =>
+      transaction.playerProviderIds.includes(input.providerPlayerId) &&
+      transaction.teamProviderIds.includes(input.providerTeamId),
+  );
+  if (moves.some((move) => move.type === "trade")) {
+    return "trade";
+  }
+  if (moves.some((move) => move.type === "waiver")) {
+    return "waiver";
+  }
+  // Drafted elsewhere with no recorded move still changed hands somehow;
+  // counting it as a trade keeps the draft round attached to the player.
+  return input.pick ? "trade" : "free_agent";
+}
+
+/** Average season points by draft round, for one season's draft. */
+function roundAverages(
+  picks: readonly KeeperDraftPick[],
+  seasonPoints: ReadonlyMap<string, number>,
+): Map<number, number> {
+  const byRound = new Map<number, number[]>();
+  for (const pick of picks) {
+    const points = byRound.get(pick.round) ?? [];
+    points.push(seasonPoints.get(pick.providerPlayerId) ?? 0);
+    byRound.set(pick.round, points);
+  }
+  return new Map(
+    [...byRound].map(([draftRound, points]) => [
+      draftRound,
+      points.reduce((total, value) => total + value, 0) / points.length,
+    ]),
+  );
+}
+
+function roundAverage(
+  averages: ReadonlyMap<number, number>,
+  draftRound: number,
+): number | null {
+  const exact = averages.get(draftRound);
+  if (exact !== undefined) {
+    return exact;
+  }
+  // Rounds past the end of the draft are valued as its last round.
+  const lastRound = Math.max(...averages.keys());
+  return Number.isFinite(lastRound) && draftRound > lastRound
+    ? (averages.get(lastRound) ?? null)
+    : null;
+}
+
+/**
+ * Projects keeper eligibility and cost for the season after `season`, for
+ * every player on a final roster of `season`.
+ */
+export function buildKeeperCandidates(input: {
+  draftPicks: readonly KeeperDraftPick[];
+  rosterSpots: readonly KeeperRosterSpot[];
+  rules: KeeperRules;
+  season: number;
+  /** Season points by provider player id, for `season`. */
+  seasonPoints: ReadonlyMap<string, number>;
+  transactions: readonly KeeperTransaction[];
+}): KeeperCandidate[] {
+  const pickBySeasonPlayer = new Map(
+    input.draftPicks.map((pick) => [
+      seasonKey(pick.season, pick.providerPlayerId),
+      pick,
+    ]),
+  );
+  const teamBySeasonPlayer = new Map(
+    input.rosterSpots.map((spot) => [
+      seasonKey(spot.season, spot.providerPlayerId),
+      spot.providerTeamId,
+    ]),
+  );
+  const transactionsBySeason = new Map<number, KeeperTransaction[]>();
+  for (const transaction of input.transactions) {
+    const rows = transactionsBySeason.get(transaction.season) ?? [];
+    rows.push(transaction);
+    transactionsBySeason.set(transaction.season, rows);
+  }
+  const averages = roundAverages(
+    input.draftPicks.filter((pick) => pick.season === input.season),
+    input.seasonPoints,
+  );
+
+  const entryFor = (
+    season: number,
+    providerPlayerId: string,
+    providerTeamId: string,
+  ) => {
+    const pick = pickBySeasonPlayer.get(seasonKey(season, providerPlayerId));
+    return {
+      acquisition: acquisitionFor({
+        pick,
+        providerPlayerId,
+        providerTeamId,
+        transactions: transactionsBySeason.get(season) ?? [],
+      }),
+      costRound: pick?.round ?? input.rules.undraftedRound,
+      draftRound: pick?.round ?? null,
+    };
+  };
+
+  return input.rosterSpots
+    .filter((spot) => spot.season === input.season)
+    .map((spot): KeeperCandidate => {
+      // Walk back while the player was kept by this same team.
+      const chain = [
+        {
+          season: spot.season,
+          ...entryFor(spot.season, spot.providerPlayerId, spot.providerTeamId),
+        },
+      ];
+      while (chain[0]?.acquisition === "keeper") {
+        const previous = chain[0].season - 1;
+        if (
+          teamBySeasonPlayer.get(seasonKey(previous, spot.providerPlayerId)) !==
+          spot.providerTeamId
+        ) {
+          break;
+        }
+        chain.unshift({
+          season: previous,
+          ...entryFor(previous, spot.providerPlayerId, spot.providerTeamId),
+        });
+      }
+      let yearsKept = 0;
+      const history = chain.map((entry): KeeperHistoryEntry => {
+        yearsKept = entry.acquisition === "keeper" ? yearsKept + 1 : 0;
+        return { ...entry, yearsKept };
+      });
+      const current = history.at(-1) as KeeperHistoryEntry;
+
+      const nextCost = current.costRound - input.rules.roundPenalty;
+      const ineligibleReason =
+        input.rules.maxYearsKept !== null &&
+        current.yearsKept >= input.rules.maxYearsKept
+          ? `Kept the maximum ${input.rules.maxYearsKept} ${input.rules.maxYearsKept === 1 ? "season" : "seasons"}`
+          : nextCost < 1
+            ? "No earlier round left to cost"
+            : null;
+      const projectedCostRound = ineligibleReason === null ? nextCost : null;
+      const seasonPoints = round(
+        input.seasonPoints.get(spot.providerPlayerId) ?? 0,
+      );
+      const average =
+        projectedCostRound === null
+          ? null
+          : roundAverage(averages, projectedCostRound);
+
+      return {
+        acquisition: current.acquisition,
+        costRound: current.costRound,
+        draftRound: current.draftRound,
+        eligible: ineligibleReason === null,
+        history,
+        ineligibleReason,
+        playerName: spot.playerName,
+        position: spot.position,
+        projectedCostRound,
+        providerPlayerId: spot.providerPlayerId,
+        providerTeamId: spot.providerTeamId,
+        seasonPoints,
+        value: average === null ? null : round(seasonPoints - average),
+        yearsKept: current.yearsKept,
+      };
+    })
+    .sort(
+      (left, right) =>
+        left.providerTeamId.localeCompare(right.providerTeamId, undefined, {
+          numeric: true,
+        }) ||
+        Number(right.eligible) - Number(left.eligible) ||
+        (right.value ?? Number.NEGATIVE_INFINITY) -
+          (left.value ?? Number.NEGATIVE_INFINITY) ||
+        right.seasonPoints - left.seasonPoints ||
+        left.playerName.localeCompare(right.playerName),
+    );
+}
+
+export interface KeeperValueResult {
+  candidates: KeeperCandidate[];
+  rules: KeeperRules;
+  /** The season whose final rosters the projection starts from. */
+  season: number;
+}
+
+/**
+ * Keeper candidates from the latest season with roster data, for the board
+ * of the season after it. Null when no rosters have been imported.
+ */
+export async function loadKeeperValue(
+  tx: LeagueScopedTx,
+  input: {
+    leagueId: string;
+    rulesOverride?: KeeperRulesOverride;
+    throughSeason: number;
+  },
+): Promise<KeeperValueResult | null> {
+  const [latest] = await tx
+    .select({ season: max(fantasyRosterEntries.season) })
+    .from(fantasyRosterEntries)
+    .where(
+      and(
+        eq(fantasyRosterEntries.leagueId, input.leagueId),
+        lte(fantasyRosterEntries.season, input.throughSeason),
+      ),
+    );
+  const season = latest?.season ?? null;
+  if (season === null) {
+    return null;
+  }
+
+  const [settings] = await tx
+    .select({ keeperSettings: leagueSeasonSettings.keeperSettings })
+    .from(leagueSeasonSettings)
+    .where(
+      and(
+        eq(leagueSeasonSettings.leagueId, input.leagueId),
+        eq(leagueSeasonSettings.season, season),
+      ),
+    )
+    .limit(1);
+  const rules = keeperRulesFromSettings(
+    settings?.keeperSettings ?? {},
+    input.rulesOverride,
+  );
+
+  const finalPeriods = await tx
+    .select({
+      scoringPeriod: max(fantasyRosterEntries.scoringPeriod),
+      season: fantasyRosterEntries.season,
+    })
+    .from(fantasyRosterEntries)
+    .where(
+      and(
+        eq(fantasyRosterEntries.leagueId, input.leagueId),
+        lte(fantasyRosterEntries.season, season),
+      ),
+    )
+    .groupBy(fantasyRosterEntries.season);
+  const finalPeriodBySeason = new Map(
+    finalPeriods.map((row) => [row.season, row.scoringPeriod]),
+  );
+
+  const rosterRows = await tx
+    .select({
+      actualPoints: fantasyRosterEntries.actualPoints,
+      fullName: fantasyPlayers.fullName,
+      points: fantasyRosterEntries.points,
+      position: fantasyPlayers.position,
+      providerPlayerId: fantasyRosterEntries.providerPlayerId,
+      providerTeamId: fantasyRosterEntries.providerTeamId,
+      scoringPeriod: fantasyRosterEntries.scoringPeriod,
+      season: fantasyRosterEntries.season,
+    })
+    .from(fantasyRosterEntries)
+    .leftJoin(
+      fantasyPlayers,
+      eq(fantasyPlayers.id, fantasyRosterEntries.fantasyPlayerId),
+    )
+    .where(
+      and(
+        eq(fantasyRosterEntries.leagueId, input.leagueId),
+        lte(fantasyRosterEntries.season, season),
+      ),
+    );
+  const seasonPoints = new Map<string, number>();
+  const rosterSpots: KeeperRosterSpot[] = [];
+  for (const row of rosterRows) {
+    if (row.season === season) {
+      seasonPoints.set(
+        row.providerPlayerId,
+        (seasonPoints.get(row.providerPlayerId) ?? 0) +
+          (row.actualPoints ?? row.points ?? 0),
+      );
+    }
+    if (row.scoringPeriod === finalPeriodBySeason.get(row.season)) {
+      rosterSpots.push({
+        playerName: row.fullName ?? `Player ${row.providerPlayerId}`,
+        position: row.position ?? null,
+        providerPlayerId: row.providerPlayerId,
+        providerTeamId: row.providerTeamId,
+        season: row.season,
+      });
+    }
+  }
+
+  const draftPicks = (
+    await tx
+      .select({
+        isKeeper: fantasyDraftPicks.isKeeper,
+        providerPlayerId: fantasyDraftPicks.providerPlayerId,
+        providerTeamId: fantasyDraftPicks.providerTeamId,
+        round: fantasyDraftPicks.round,
+        season: fantasyDraftPicks.season,
+      })
+      .from(fantasyDraftPicks)
+      .where(
+        and(
+          eq(fantasyDraftPicks.leagueId, input.leagueId),
+          lte(fantasyDraftPicks.season, season),
+        ),
+      )
+  ).flatMap((pick) =>
+    pick.providerPlayerId
+      ? [{ ...pick, providerPlayerId: pick.providerPlayerId }]
+      : [],
+  );
+
+  const transactions = await tx
+    .select({
+      playerProviderIds: fantasyTransactions.playerProviderIds,
+      season: fantasyTransactions.season,
+      teamProviderIds: fantasyTransactions.teamProviderIds,
+      type: fantasyTransactions.type,
+    })
+    .from(fantasyTransactions)
+    .where(
+      and(
+        eq(fantasyTransactions.leagueId, input.leagueId),
+        lte(fantasyTransactions.season, season),
+        inArray(fantasyTransactions.type, ["trade", "waiver"]),
+      ),
+    );
+
+  return {
+    candidates: buildKeeperCandidates({
+      draftPicks,
+      rosterSpots,
+      rules,
+      season,
+      seasonPoints,
+      transactions,
+    }),
+    rules,
+    season,
+  };
+}
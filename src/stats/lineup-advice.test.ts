@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  type LineupAdvicePlayer,
+  type LineupRosterEntry,
+  projectLineupPoints,
+  recommendLineup,
+} from "./lineup-advice";
+
+function player(
+  fullName: string,
+  position: string,
+  projectedPoints: number,
+  overrides: Partial<LineupAdvicePlayer> = {},
+): LineupAdvicePlayer {
+  return {
+    fullName,
+    matchupFactor: 1,
+    nflPlayerId: `nfl-${fullName}`,
+    nflTeam: "KC",
+    onBye: false,
+    opponent: "BUF",
+    position,
+    projectedPoints,
+    providerPlayerId: fullName,
+    recentAverage: projectedPoints,
+    recentGames: 3,
+    ...overrides,
+  };
+}
+
+function entry(
+  slot: string,
+  started: boolean,
+  rosterPlayer: LineupAdvicePlayer,
+): LineupRosterEntry {
+  return { player: rosterPlayer, slot, started };
+}
+
+describe("projectLineupPoints", () => {
+  it("scales the recent average by the opponent's points allowed, within bounds", () => {
+    expect(
+      projectLineupPoints({
+        averagePointsAllowed: 20,
+        games: [10, 14, 18],
+        onBye: false,
+        opponentPointsAllowed: 22,
+      }),
+    ).toEqual({
+      matchupFactor: 1.1,
+      projectedPoints: 15.4,
+      recentAverage: 14,
+      recentGames: 3,
+    });
+    expect(
+      projectLineupPoints({
+        averagePointsAllowed: 20,
+        games: [10],
+        onBye: false,
+        opponentPointsAllowed: 40,
+      }).matchupFactor,
+    ).toBe(1.2);
+  });
+
+  it("projects zero on a bye and without recent games", () => {
+    expect(
+      projectLineupPoints({
+        averagePointsAllowed: 20,
+        games: [25],
+        onBye: true,
+        opponentPointsAllowed: null,
+      }).projectedPoints,
+    ).toBe(0);
+    expect(
+      projectLineupPoints({
+        averagePointsAllowed: null,
+        games: [],
+        onBye: false,
+        opponentPointsAllowed: null,
+      }),
+    ).toMatchObject({ projectedPoints: 0, recentAverage: null });
+  });
+});
+
+describe("recommendLineup", () => {
+  const qb = player("Quarterback", "QB", 20);
+  const rbStar = player("Star Back", "RB", 18);
+  const rbBench = player("Bench Back", "RB", 12);
+  const rbSlump = player("Slumping Back", "RB", 6);
+  const wr = player("Receiver", "WR", 11);
+  const kicker = player("Kicker", "K", 0);
+
+  const roster = [
+    entry("QB", true, qb),
+    entry("RB", true, rbStar),
+    entry("RB", true, rbSlump),
+    entry("WR", true, wr),
+    entry("FLEX", true, rbBench),
+    entry("K", true, kicker),
+    entry("BE", false, player("Backup Receiver", "WR", 9)),
+    entry("IR", false, player("Injured Back", "RB", 30)),
+  ];
+
+  it("fills restrictive slots first and names who to start and sit", () => {
+    const advice = recommendLineup({ roster, waiverPool: [] });
+
+    expect(
+      advice.lineup.map((slot) => [slot.slot, slot.recommended?.fullName]),
+    ).toEqual([
+      ["QB", "Quarterback"],
+      ["RB", "Star Back"],
+      ["RB", "Bench Back"],
+      ["WR", "Receiver"],
+      ["FLEX", "Backup Receiver"],
+    ]);
+    expect(advice.start.map((row) => row.fullName)).toEqual([
+      "Backup Receiver",
+    ]);
+    expect(advice.sit.map((row) => row.fullName)).toEqual(["Slumping Back"]);
+  });
+
+  it("ranks unrostered players by what they add over the weakest eligible starter", () => {
+    const advice = recommendLineup({
+      roster,
+      waiverPool: [
+        player("Breakout Receiver", "WR", 16),
+        player("Handcuff Back", "RB", 10),
+        player("Streaming Tight End", "TE", 8),
+        player("Backup Quarterback", "QB", 14),
+      ],
+    });
+
+    expect(
+      advice.waivers.map((target) => ({
+        gain: target.gain,
+        name: target.player.fullName,
+        replaces: target.replaces?.fullName ?? null,
+      })),
+    ).toEqual([
+      { gain: 7, name: "Breakout Receiver", replaces: "Backup Receiver" },
+      { gain: 1, name: "Handcuff Back", replaces: "Backup Receiver" },
+    ]);
+  });
+});
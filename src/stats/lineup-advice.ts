@@ -0,0 +1,582 @@
+import { and, asc, eq, gte, inArray, lte, max } from "drizzle-orm";
+import type { Db } from "@/db/client";
+import { type LeagueScopedTx, withLeagueContext } from "@/db/rls";
+import {
+  fantasyPlayers,
+  fantasyRosterEntries,
+  fantasyTeams,
+  leagueMemberIdentityClaims,
+  leagueSeasonSettings,
+  leagues,
+  nflPlayers,
+  nflPlayerWeekStats,
+  nflSchedule,
+  nflTeamStats,
+} from "@/db/schema";
+import { compareStable, round } from "./canon-catalog";
+import { scoreStatLine, scoringRulesFromSettings } from "./scoring-rules";
+
+// Lineup advice. A player's projection is their recent production re-scored
+// with the league's own rules, nudged by how many points this week's opponent
+// has been giving up. Only skill-position slots are optimized; kickers, team
+// defenses and IDP slots have no NFL stat lines to project from, so the
+// manager's current choices there are left alone.
+
+/** Games of recent production a projection averages. */
+const RECENT_WEEKS = 3;
+/** How far an opponent's defense can move a projection either way. */
+const MATCHUP_FACTOR_FLOOR = 0.8;
+const MATCHUP_FACTOR_CEILING = 1.2;
+const WAIVER_LIMIT = 10;
+
+const SKILL_POSITIONS = ["QB", "RB", "WR", "TE"] as const;
+
+/** Lineup slot labels as providers store them, to the positions they take. */
+const SLOT_ELIGIBILITY: Readonly<Record<string, readonly string[]>> = {
+  FLEX: ["RB", "WR", "TE"],
+  OP: SKILL_POSITIONS,
+  QB: ["QB"],
+  RB: ["RB"],
+  "RB/WR": ["RB", "WR"],
+  "RB/WR/TE": ["RB", "WR", "TE"],
+  REC_FLEX: ["WR", "TE"],
+  SUPER_FLEX: SKILL_POSITIONS,
+  TE: ["TE"],
+  WR: ["WR"],
+  "WR/TE": ["WR", "TE"],
+  WRRB_FLEX: ["RB", "WR"],
+};
+
+const RESERVE_SLOTS = new Set(["IR"]);
+
+export interface LineupAdvicePlayer {
+  fullName: string;
+  /** Multiplier the opponent's defense applied to the recent average. */
+  matchupFactor: number;
+  nflPlayerId: string | null;
+  nflTeam: string | null;
+  onBye: boolean;
+  opponent: string | null;
+  position: string;
+  projectedPoints: number;
+  /** The league's own player id; null for unrostered players. */
+  providerPlayerId: string | null;
+  recentAverage: number | null;
+  recentGames: number;
+}
+
+export interface LineupRosterEntry {
+  player: LineupAdvicePlayer;
+  slot: string;
+  started: boolean;
+}
+
+export interface LineupSlotAdvice {
+  current: LineupAdvicePlayer;
+  recommended: LineupAdvicePlayer | null;
+  slot: string;
+}
+
+export interface LineupWaiverTarget {
+  /** Projected points over the starter the pickup would replace. */
+  gain: number;
+  player: LineupAdvicePlayer;
+  replaces: LineupAdvicePlayer | null;
+}
+
+export interface LineupRecommendation {
+  lineup: LineupSlotAdvice[];
+  sit: LineupAdvicePlayer[];
+  start: LineupAdvicePlayer[];
+  waivers: LineupWaiverTarget[];
+}
+
+export interface LineupAdvice extends LineupRecommendation {
+  /** "league" when the league's scoring rules were applied, else the stat source's points. */
+  scoring: "league" | "source";
+  scoringPeriod: number;
+  season: number;
+  team: { name: string; providerTeamId: string };
+}
+
+export type LineupAdviceResult =
+  | { advice: LineupAdvice; status: "ready" }
+  | { status: "no_roster" }
+  | { status: "no_team" };
+
+/**
+ * Projects one player's week from their recent league-scored games. The
+ * opponent's points allowed per game over the same window, against the
+ * league-wide average, scales the projection within a bounded band.
+ */
+export function projectLineupPoints(input: {
+  averagePointsAllowed: number | null;
+  games: readonly number[];
+  onBye: boolean;
+  opponentPointsAllowed: number | null;
+}): Pick<
+  LineupAdvicePlayer,
+  "matchupFactor" | "projectedPoints" | "recentAverage" | "recentGames"
+> {
+  const recentAverage =
+    input.games.length > 0
+      ? round(
+          input.games.reduce((total, points) => total + points, 0) /
+            input.games.length,
+          2,
+        )
+      : null;
+  const matchupFactor =
+    input.opponentPointsAllowed !== null &&
+    input.averagePointsAllowed !== null &&
+    input.averagePointsAllowed > 0
+      ? round(
+          Math.min(
+            Math.max(
+              input.opponentPointsAllowed / input.averagePointsAllowed,
+              MATCHUP_FACTOR_FLOOR,
+            ),
+            MATCHUP_FACTOR_CEILING,
+          ),
+          2,
+        )
+      : 1;
+
+  return {
+    matchupFactor,
+    projectedPoints: input.onBye
+      ? 0
+      : round((recentAverage ?? 0) * matchupFactor, 2),
+    recentAverage,
+    recentGames: input.games.length,
+  };
+}
+
+function slotPositions(slot: string): readonly string[] | undefined {
+  return SLOT_ELIGIBILITY[slot.trim().toUpperCase()];
+}
+
+function playerKey(player: LineupAdvicePlayer): string {
+  return (
+    player.nflPlayerId ??
+    `provider:${player.providerPlayerId ?? player.fullName}`
+  );
+}
+
+function compareProjection(
+  left: LineupAdvicePlayer,
+  right: LineupAdvicePlayer,
+): number {
+  return (
+    right.projectedPoints - left.projectedPoints ||
+    compareStable(left.fullName, right.fullName)
+  );
+}
+
+/**
+ * Picks the best skill-position lineup from a roster and ranks pickups by how
+ * much they would add over the starter they would displace. The most
+ * restrictive slots are filled first, so a flex never takes the only back
+ * who could fill a running-back slot.
+ */
+export function recommendLineup(input: {
+  roster: readonly LineupRosterEntry[];
+  waiverLimit?: number;
+  waiverPool: readonly LineupAdvicePlayer[];
+}): LineupRecommendation {
+  const slots = input.roster
+    .filter((entry) => entry.started && slotPositions(entry.slot))
+    .map((entry) => ({
+      current: entry.player,
+      positions: slotPositions(entry.slot) ?? [],
+      recommended: null as LineupAdvicePlayer | null,
+      slot: entry.slot,
+    }));
+  const candidates = input.roster
+    .filter(
+      (entry) =>
+        !RESERVE_SLOTS.has(entry.slot.trim().toUpperCase()) &&
+        (entry.started ? Boolean(slotPositions(entry.slot)) : true),
+    )
+    .map((entry) => entry.player)
+    .sort(compareProjection);
+
+  const taken = new Set<string>();
+  const fillOrder = [...slots].sort(
+    (left, right) => left.positions.length - right.positions.length,
+  );
+  for (const slot of fillOrder) {
+    const pick = candidates.find(
+      (player) =>
+        !taken.has(playerKey(player)) &&
+        slot.positions.includes(player.position),
+    );
+    if (pick) {
+      slot.recommended = pick;
+      taken.add(playerKey(pick));
+    }
+  }
+
+  const currentKeys = new Set(slots.map((slot) => playerKey(slot.current)));
+  const start = slots
+    .flatMap((slot) => (slot.recommended ? [slot.recommended] : []))
+    .filter((player) => !currentKeys.has(playerKey(player)))
+    .sort(compareProjection);
+  const sit = slots
+    .map((slot) => slot.current)
+    .filter((player) => !taken.has(playerKey(player)))
+    .sort(compareProjection);
+
+  const waivers = input.waiverPool
+    .flatMap((player): LineupWaiverTarget[] => {
+      const eligible = slots.filter((slot) =>
+        slot.positions.includes(player.position),
+      );
+      if (eligible.length === 0) {
+        return [];
+      }
+      const openSlot = eligible.some((slot) => !slot.recommended);
+      const replaces = openSlot
+        ? null
+        : (eligible
+            .flatMap((slot) => (slot.recommended ? [slot.recommended] : []))
+            .sort(compareProjection)
+            .at(-1) ?? null);
+      const gain = round(
+        player.projectedPoints - (replaces?.projectedPoints ?? 0),
+        2,
+      );
+      return gain > 0 ? [{ gain, player, replaces }] : [];
+    })
+    .sort(
+      (left, right) =>
+        right.gain - left.gain || compareProjection(left.player, right.player),
+    )
+    .slice(0, input.waiverLimit ?? WAIVER_LIMIT);
+
+  return {
+    lineup: slots.map((slot) => ({
+      current: slot.current,
+      recommended: slot.recommended,
+      slot: slot.slot,
+    })),
+    sit,
+    start,
+    waivers,
+  };
+}
+
+function average(values: readonly number[]): number | null {
+  return values.length > 0
+    ? values.reduce((total, value) => total + value, 0) / values.length
+    : null;
+}
+
+/**
+ * Builds start/sit and waiver advice for the team the user has claimed in
+ * the league, for the league's current scoring period.
+ */
+export async function loadLineupAdvice(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; userId: string },
+): Promise<LineupAdviceResult> {
+  const [league] = await tx
+    .select({
+      currentScoringPeriod: leagues.currentScoringPeriod,
+      provider: leagues.provider,
+      season: leagues.season,
+    })
+    .from(leagues)
+    .where(eq(leagues.id, input.leagueId))
+    .limit(1);
+  if (!league) {
+    return { status: "no_team" };
+  }
+
+  const claims = await tx
+    .select({
+      providerMemberId: leagueMemberIdentityClaims.providerMemberId,
+      providerTeamIds: leagueMemberIdentityClaims.providerTeamIds,
+    })
+    .from(leagueMemberIdentityClaims)
+    .where(
+      and(
+        eq(leagueMemberIdentityClaims.leagueId, input.leagueId),
+        eq(leagueMemberIdentityClaims.userId, input.userId),
+      ),
+    );
+  const teams = await tx
+    .select({
+      name: fantasyTeams.name,
+      ownerMemberIds: fantasyTeams.ownerMemberIds,
+      providerTeamId: fantasyTeams.providerTeamId,
+    })
+    .from(fantasyTeams)
+    .where(
+      and(
+        eq(fantasyTeams.leagueId, input.leagueId),
+        eq(fantasyTeams.season, league.season),
+      ),
+    )
+    .orderBy(asc(fantasyTeams.providerTeamId));
+  const claimedTeamIds = new Set(
+    claims.flatMap((claim) => claim.providerTeamIds),
+  );
+  const claimedMemberIds = new Set(
+    claims.map((claim) => claim.providerMemberId),
+  );
+  const team =
+    teams.find((row) => claimedTeamIds.has(row.providerTeamId)) ??
+    teams.find((row) =>
+      row.ownerMemberIds.some((memberId) => claimedMemberIds.has(memberId)),
+    );
+  if (!team) {
+    return { status: "no_team" };
+  }
+
+  const scoringPeriod = Math.max(league.currentScoringPeriod, 1);
+  const [latest] = await tx
+    .select({ scoringPeriod: max(fantasyRosterEntries.scoringPeriod) })
+    .from(fantasyRosterEntries)
+    .where(
+      and(
+        eq(fantasyRosterEntries.leagueId, input.leagueId),
+        eq(fantasyRosterEntries.season, league.season),
+        lte(fantasyRosterEntries.scoringPeriod, scoringPeriod),
+      ),
+    );
+  if (latest?.scoringPeriod === null || latest?.scoringPeriod === undefined) {
+    return { status: "no_roster" };
+  }
+
+  const rosterRows = await tx
+    .select({
+      fullName: fantasyPlayers.fullName,
+      nflPlayerId: fantasyPlayers.nflPlayerId,
+      position: fantasyPlayers.position,
+      providerPlayerId: fantasyRosterEntries.providerPlayerId,
+      providerTeamId: fantasyRosterEntries.providerTeamId,
+      slot: fantasyRosterEntries.slot,
+      started: fantasyRosterEntries.started,
+    })
+    .from(fantasyRosterEntries)
+    .leftJoin(
+      fantasyPlayers,
+      eq(fantasyRosterEntries.fantasyPlayerId, fantasyPlayers.id),
+    )
+    .where(
+      and(
+        eq(fantasyRosterEntries.leagueId, input.leagueId),
+        eq(fantasyRosterEntries.season, league.season),
+        eq(fantasyRosterEntries.scoringPeriod, latest.scoringPeriod),
+      ),
+    )
+    .orderBy(
+      asc(fantasyRosterEntries.providerTeamId),
+      asc(fantasyRosterEntries.providerPlayerId),
+    );
+  if (!rosterRows.some((row) => row.providerTeamId === team.providerTeamId)) {
+    return { status: "no_roster" };
+  }
+
+  const [settings] = await tx
+    .select({ scoringSettings: leagueSeasonSettings.scoringSettings })
+    .from(leagueSeasonSettings)
+    .where(
+      and(
+        eq(leagueSeasonSettings.leagueId, input.leagueId),
+        eq(leagueSeasonSettings.season, league.season),
+        eq(leagueSeasonSettings.provider, league.provider),
+      ),
+    )
+    .limit(1);
+  const rules = settings
+    ? scoringRulesFromSettings(settings.scoringSettings)
+    : null;
+
+  // Week 1 has no games yet this season, so all of last season stands in.
+  const window =
+    scoringPeriod > 1
+      ? {
+          fromWeek: Math.max(1, scoringPeriod - RECENT_WEEKS),
+          season: league.season,
+          throughWeek: scoringPeriod - 1,
+        }
+      : { fromWeek: 1, season: league.season - 1, throughWeek: null };
+  const statRows = await tx
+    .select({ player: nflPlayers, stat: nflPlayerWeekStats })
+    .from(nflPlayerWeekStats)
+    .innerJoin(nflPlayers, eq(nflPlayerWeekStats.playerId, nflPlayers.id))
+    .where(
+      and(
+        eq(nflPlayerWeekStats.season, window.season),
+        gte(nflPlayerWeekStats.week, window.fromWeek),
+        window.throughWeek === null
+          ? undefined
+          : lte(nflPlayerWeekStats.week, window.throughWeek),
+        inArray(nflPlayers.position, [...SKILL_POSITIONS]),
+      ),
+    )
+    .orderBy(asc(nflPlayerWeekStats.week));
+  const scheduleRows = await tx
+    .select({ awayTeam: nflSchedule.awayTeam, homeTeam: nflSchedule.homeTeam })
+    .from(nflSchedule)
+    .where(
+      and(
+        eq(nflSchedule.season, league.season),
+        eq(nflSchedule.week, scoringPeriod),
+      ),
+    );
+  const defenseRows = await tx
+    .select({
+      pointsAgainst: nflTeamStats.pointsAgainst,
+      team: nflTeamStats.team,
+    })
+    .from(nflTeamStats)
+    .where(
+      and(
+        eq(nflTeamStats.season, window.season),
+        gte(nflTeamStats.week, window.fromWeek),
+        window.throughWeek === null
+          ? undefined
+          : lte(nflTeamStats.week, window.throughWeek),
+      ),
+    );
+
+  const opponents = new Map<string, string>();
+  for (const game of scheduleRows) {
+    opponents.set(game.homeTeam, game.awayTeam);
+    opponents.set(game.awayTeam, game.homeTeam);
+  }
+  const allowedByTeam = new Map<string, number[]>();
+  for (const row of defenseRows) {
+    allowedByTeam.set(row.team, [
+      ...(allowedByTeam.get(row.team) ?? []),
+      row.pointsAgainst,
+    ]);
+  }
+  const averagePointsAllowed = average(
+    defenseRows.map((row) => row.pointsAgainst),
+  );
+
+  const nflPlayerRows = new Map<string, typeof nflPlayers.$inferSelect>();
+  const gamesByPlayer = new Map<string, number[]>();
+  for (const { player, stat } of statRows) {
+    nflPlayerRows.set(player.id, player);
+    gamesByPlayer.set(player.id, [
+      ...(gamesByPlayer.get(player.id) ?? []),
+      rules ? scoreStatLine(stat, rules) : stat.fantasyPoints,
+    ]);
+  }
+  const nflIdByProviderPlayerId = new Map<string, string>();
+  for (const player of nflPlayerRows.values()) {
+    const providerPlayerId = player.fantasyProviderIds[league.provider];
+    if (providerPlayerId) {
+      nflIdByProviderPlayerId.set(providerPlayerId, player.id);
+    }
+  }
+
+  const toAdvicePlayer = (input: {
+    fullName: string;
+    nflPlayerId: string | null;
+    position: string;
+    providerPlayerId: string | null;
+  }): LineupAdvicePlayer => {
+    const nflPlayer = input.nflPlayerId
+      ? nflPlayerRows.get(input.nflPlayerId)
+      : undefined;
+    const nflTeam = nflPlayer?.team ?? null;
+    const opponent = nflTeam ? (opponents.get(nflTeam) ?? null) : null;
+    // An empty schedule means the week is not loaded yet, not a league-wide bye.
+    const onBye = Boolean(nflTeam) && scheduleRows.length > 0 && !opponent;
+    return {
+      fullName: input.fullName,
+      nflPlayerId: input.nflPlayerId,
+      nflTeam,
+      onBye,
+      opponent,
+      position: input.position,
+      providerPlayerId: input.providerPlayerId,
+      ...projectLineupPoints({
+        averagePointsAllowed,
+        games: input.nflPlayerId
+          ? (gamesByPlayer.get(input.nflPlayerId) ?? [])
+          : [],
+        onBye,
+        opponentPointsAllowed: opponent
+          ? average(allowedByTeam.get(opponent) ?? [])
+          : null,
+      }),
+    };
+  };
+
+  const rosteredNflIds = new Set<string>();
+  const rosteredProviderIds = new Set<string>();
+  const roster: LineupRosterEntry[] = [];
+  for (const row of rosterRows) {
+    const nflPlayerId =
+      row.nflPlayerId ?? nflIdByProviderPlayerId.get(row.providerPlayerId);
+    rosteredProviderIds.add(row.providerPlayerId);
+    if (nflPlayerId) {
+      rosteredNflIds.add(nflPlayerId);
+    }
+    if (row.providerTeamId !== team.providerTeamId) {
+      continue;
+    }
+    const nflPlayer = nflPlayerId ? nflPlayerRows.get(nflPlayerId) : undefined;
+    const position =
+      row.position && row.position !== "unknown"
+        ? row.position
+        : (nflPlayer?.position ?? "unknown");
+    roster.push({
+      player: toAdvicePlayer({
+        fullName:
+          row.fullName ??
+          nflPlayer?.fullName ??
+          `Player ${row.providerPlayerId}`,
+        nflPlayerId: nflPlayerId ?? null,
+        position,
+        providerPlayerId: row.providerPlayerId,
+      }),
+      slot: row.slot,
+      started: row.started,
+    });
+  }
+
+  const waiverPool = [...nflPlayerRows.values()]
+    .filter((player) => {
+      const providerPlayerId = player.fantasyProviderIds[league.provider];
+      return (
+        !rosteredNflIds.has(player.id) &&
+        !(providerPlayerId && rosteredProviderIds.has(providerPlayerId))
+      );
+    })
+    .map((player) =>
+      toAdvicePlayer({
+        fullName: player.fullName,
+        nflPlayerId: player.id,
+        position: player.position,
+        providerPlayerId: null,
+      }),
+    );
+
+  return {
+    advice: {
+      ...recommendLineup({ roster, waiverPool }),
+      scoring: rules ? "league" : "source",
+      scoringPeriod,
+      season: league.season,
+      team: { name: team.name, providerTeamId: team.providerTeamId },
+    },
+    status: "ready",
+  };
+}
+
+export async function getLineupAdvice(
+  db: Db,
+  input: { leagueId: string; userId: string },
+): Promise<LineupAdviceResult> {
+  return withLeagueContext(db, input.leagueId, (tx) =>
+    loadLineupAdvice(tx, input),
+  );
+}
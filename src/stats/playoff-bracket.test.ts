@@ -0,0 +1,350 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPlayoffBracket,
+  type PlayoffBracket,
+  type PlayoffBracketInput,
+  type PlayoffBracketKind,
+  type PlayoffBracketMatchupInput,
+  type PlayoffBracketTeamInput,
+  playoffBracketRulesFor,
+  seedPlayoffTeams,
+} from "./playoff-bracket";
+
+function team(
+  providerTeamId: string,
+  wins: number,
+  overrides: Partial<PlayoffBracketTeamInput> = {},
+): PlayoffBracketTeamInput {
+  return {
+    division: null,
+    losses: 14 - wins,
+    name: providerTeamId.toUpperCase(),
+    pointsFor: wins * 100,
+    providerTeamId,
+    ties: 0,
+    wins,
+    ...overrides,
+  };
+}
+
+/** t1 best through t`count` worst. */
+function league(count: number): PlayoffBracketTeamInput[] {
+  return Array.from({ length: count }, (_, index) =>
+    team(`t${index + 1}`, 13 - index),
+  );
+}
+
+function game(
+  scoringPeriod: number,
+  home: [string, number],
+  away: [string, number],
+  overrides: Partial<PlayoffBracketMatchupInput> = {},
+): PlayoffBracketMatchupInput {
+  return {
+    awayScore: away[1],
+    awayTeamProviderId: away[0],
+    homeScore: home[1],
+    homeTeamProviderId: home[0],
+    scoringPeriod,
+    scoringPeriodSpan: 1,
+    status: "final",
+    winner: home[1] > away[1] ? "home" : away[1] > home[1] ? "away" : "tie",
+    ...overrides,
+  };
+}
+
+function input(
+  overrides: Partial<PlayoffBracketInput> = {},
+): PlayoffBracketInput {
+  return {
+    matchups: [],
+    regularSeasonComplete: true,
+    rules: {
+      divisionWinnersSeeded: false,
+      playoffMatchupPeriodLength: 1,
+      playoffStartScoringPeriod: 15,
+      playoffTeamCount: 6,
+    },
+    teams: league(10),
+    ...overrides,
+  };
+}
+
+function pairings(
+  bracket: PlayoffBracket,
+  kind: PlayoffBracketKind,
+  round: number,
+) {
+  const section = bracket.sections.find((row) => row.kind === kind);
+  return section?.rounds[round - 1]?.games.map((row) => [
+    row.top?.providerTeamId ?? null,
+    row.bottom?.providerTeamId ?? null,
+    row.status,
+  ]);
+}
+
+describe("playoffBracketRulesFor", () => {
+  it("falls back to the week after the regular season and needs a start", () => {
+    expect(
+      playoffBracketRulesFor({
+        divisions: [null, null, null, null],
+        settings: {
+          playoffMatchupPeriodLength: null,
+          playoffStartScoringPeriod: null,
+          playoffTeamCount: 4,
+          regularSeasonEndScoringPeriod: 14,
+        },
+        teamCount: 4,
+      }),
+    ).toEqual({
+      divisionWinnersSeeded: false,
+      playoffMatchupPeriodLength: 1,
+      playoffStartScoringPeriod: 15,
+      playoffTeamCount: 4,
+    });
+    expect(
+      playoffBracketRulesFor({
+        divisions: [null, null],
+        settings: null,
+        teamCount: 2,
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("buildPlayoffBracket", () => {
+  it("gives the top seeds byes and sends the bottom of the table to the toilet bowl", () => {
+    const bracket = buildPlayoffBracket(
+      input({ regularSeasonComplete: false }),
+    );
+
+    expect(bracket.status).toBe("projected");
+    expect(
+      bracket.seeds.filter((seed) => seed.bye).map((seed) => seed.seed),
+    ).toEqual([1, 2]);
+    expect(bracket.sections.map((section) => section.name)).toEqual([
+      "Championship bracket",
+      "Consolation",
+      "Toilet Bowl",
+    ]);
+    expect(pairings(bracket, "winners", 1)).toEqual([
+      ["t1", null, "bye"],
+      ["t4", "t5", "scheduled"],
+      ["t2", null, "bye"],
+      ["t3", "t6", "scheduled"],
+    ]);
+    // Byes carry straight into the semifinals.
+    expect(pairings(bracket, "winners", 2)).toEqual([
+      ["t1", null, "pending"],
+      ["t2", null, "pending"],
+    ]);
+    const winners = bracket.sections[0];
+    expect(
+      winners?.rounds.map((round) => [round.name, round.scoringPeriodStart]),
+    ).toEqual([
+      ["Quarterfinals", 15],
+      ["Semifinals", 16],
+      ["Championship", 17],
+    ]);
+
+    // Worst four, worst first, with the final in the championship week.
+    const toilet = bracket.sections[2];
+    expect(pairings(bracket, "toilet_bowl", 1)).toEqual([
+      ["t10", "t7", "scheduled"],
+      ["t9", "t8", "scheduled"],
+    ]);
+    expect(
+      toilet?.rounds.map((round) => [round.name, round.scoringPeriodStart]),
+    ).toEqual([
+      ["Toilet Bowl round 1", 16],
+      ["Toilet Bowl final", 17],
+    ]);
+  });
+
+  it("scores games live and moves finished winners on", () => {
+    const bracket = buildPlayoffBracket(
+      input({
+        matchups: [
+          game(15, ["t4", 120], ["t5", 90]),
+          game(15, ["t6", 101.5], ["t3", 100], {
+            status: "in_progress",
+            winner: "unknown",
+          }),
+          // Regular-season and other-pairing rows never leak into a game.
+          game(14, ["t1", 200], ["t4", 10]),
+        ],
+      }),
+    );
+
+    expect(bracket.status).toBe("in_progress");
+    const [, quarter, , live] = bracket.sections[0]?.rounds[0]?.games ?? [];
+    expect(quarter).toMatchObject({
+      advancingProviderTeamId: "t4",
+      bottom: { providerTeamId: "t5", score: 90 },
+      status: "final",
+      top: { providerTeamId: "t4", score: 120 },
+    });
+    expect(live).toMatchObject({
+      advancingProviderTeamId: null,
+      bottom: { score: 101.5 },
+      status: "live",
+      top: { score: 100 },
+    });
+    expect(pairings(bracket, "winners", 2)).toEqual([
+      ["t1", "t4", "scheduled"],
+      ["t2", null, "pending"],
+    ]);
+  });
+
+  it("sends the better seed through a tie", () => {
+    const bracket = buildPlayoffBracket(
+      input({ matchups: [game(15, ["t6", 100], ["t3", 100])] }),
+    );
+
+    expect(bracket.sections[0]?.rounds[0]?.games[3]).toMatchObject({
+      status: "final",
+      winnerProviderTeamId: "t3",
+    });
+  });
+
+  it("adds up a two-week round and waits for both weeks", () => {
+    const rules = {
+      divisionWinnersSeeded: false,
+      playoffMatchupPeriodLength: 2,
+      playoffStartScoringPeriod: 15,
+      playoffTeamCount: 4,
+    };
+    const weekOne = game(15, ["t1", 90], ["t4", 110]);
+    const partial = buildPlayoffBracket(
+      input({ matchups: [weekOne], rules, teams: league(4) }),
+    );
+    expect(partial.sections[0]?.rounds[0]?.games[0]).toMatchObject({
+      bottom: { score: 110 },
+      status: "live",
+      top: { score: 90 },
+    });
+
+    const done = buildPlayoffBracket(
+      input({
+        matchups: [weekOne, game(16, ["t4", 80], ["t1", 105])],
+        rules,
+        teams: league(4),
+      }),
+    );
+    expect(done.sections[0]?.rounds[0]?.games[0]).toMatchObject({
+      bottom: { score: 190 },
+      status: "final",
+      top: { score: 195 },
+      winnerProviderTeamId: "t1",
+    });
+    expect(done.sections[0]?.rounds[1]?.scoringPeriodStart).toBe(17);
+  });
+
+  it("crowns the champion, third place and the toilet bowl's last place", () => {
+    const bracket = buildPlayoffBracket(
+      input({
+        matchups: [
+          game(15, ["t1", 130], ["t4", 100]),
+          game(15, ["t2", 90], ["t3", 95]),
+          game(16, ["t1", 110], ["t3", 111]),
+          game(16, ["t2", 120], ["t4", 80]),
+          game(16, ["t6", 70], ["t5", 60]),
+        ],
+        rules: {
+          divisionWinnersSeeded: false,
+          playoffMatchupPeriodLength: 1,
+          playoffStartScoringPeriod: 15,
+          playoffTeamCount: 4,
+        },
+        teams: league(6),
+      }),
+    );
+
+    expect(bracket.status).toBe("complete");
+    expect(pairings(bracket, "consolation", 1)).toEqual([
+      ["t2", "t4", "final"],
+    ]);
+    // The loser plays on in the toilet bowl, so the winner escapes it.
+    expect(pairings(bracket, "toilet_bowl", 1)).toEqual([
+      ["t6", "t5", "final"],
+    ]);
+    expect(bracket.placements).toEqual({
+      champion: "t3",
+      lastPlace: "t5",
+      runnerUp: "t1",
+      third: "t2",
+    });
+  });
+});
+
+describe("seedPlayoffTeams", () => {
+  const divisional = [
+    team("a", 10, { division: "East" }),
+    team("b", 9, { division: "East" }),
+    team("c", 8, { division: "West" }),
+    team("d", 7, { division: "West" }),
+    team("e", 6, { division: "East" }),
+    team("f", 5, { division: "West" }),
+  ];
+  const rules = {
+    divisionWinnersSeeded: true,
+    playoffMatchupPeriodLength: 1,
+    playoffStartScoringPeriod: 15,
+    playoffTeamCount: 4,
+  };
+
+  it("seeds division winners first", () => {
+    const seeds = seedPlayoffTeams(input({ rules, teams: divisional }));
+
+    expect(seeds.map((seed) => seed.providerTeamId)).toEqual([
+      "a",
+      "c",
+      "b",
+      "d",
+      "e",
+      "f",
+    ]);
+    expect(seeds[1]).toMatchObject({ divisionWinner: true, inPlayoffs: true });
+    expect(seeds[4]).toMatchObject({
+      divisionWinner: false,
+      inPlayoffs: false,
+    });
+  });
+
+  it("prefers the provider's seeds only when they name the whole field", () => {
+    const reported = seedPlayoffTeams(
+      input({
+        reportedSeeds: new Map([
+          ["b", 1],
+          ["a", 2],
+          ["d", 3],
+          ["c", 4],
+        ]),
+        rules,
+        teams: divisional,
+      }),
+    );
+    expect(reported.map((seed) => seed.providerTeamId)).toEqual([
+      "b",
+      "a",
+      "d",
+      "c",
+      "e",
+      "f",
+    ]);
+
+    const clashing = seedPlayoffTeams(
+      input({
+        reportedSeeds: new Map([
+          ["b", 1],
+          ["a", 1],
+          ["d", 3],
+          ["c", 4],
+        ]),
+        rules,
+        teams: divisional,
+      }),
+    );
+    expect(clashing[0]?.providerTeamId).toBe("a");
+  });
+});
@@ -0,0 +1,829 @@
+import { and, eq, isNotNull } from "drizzle-orm";
+import type { LeagueScopedTx } from "@/db/rls";
+import {
+  fantasyMatchups,
+  fantasyTeams,
+  leagueSeasonSettings,
+  providerFinalStandings,
+} from "@/db/schema";
+import { playoffOddsRulesFor } from "./playoff-odds";
+
+// The live playoff bracket. `buildPlayoffBracket` is pure: it seeds the league
+// from the standings (or the provider's own seeds when it reports them), lays
+// out a fixed single-elimination bracket with byes for the top seeds, a
+// third-place game for the semifinal losers and a toilet bowl for the bottom
+// of the table, then overlays whatever playoff matchups the provider has
+// scored so far. Brackets never reseed, which is what ESPN and Sleeper do by
+// default. On a tied game the better seed goes through.
+
+export type PlayoffBracketKind = "winners" | "consolation" | "toilet_bowl";
+export type PlayoffBracketStatus =
+  | "projected"
+  | "seeded"
+  | "in_progress"
+  | "complete";
+export type PlayoffGameStatus =
+  | "bye"
+  | "pending"
+  | "scheduled"
+  | "live"
+  | "final";
+
+export interface PlayoffBracketTeamInput {
+  division: string | null;
+  losses: number;
+  name: string;
+  pointsFor: number;
+  providerTeamId: string;
+  ties: number;
+  wins: number;
+}
+
+export interface PlayoffBracketMatchupInput {
+  awayScore: number;
+  awayTeamProviderId: string | null;
+  homeScore: number;
+  homeTeamProviderId: string;
+  scoringPeriod: number;
+  scoringPeriodSpan: number;
+  status: "scheduled" | "in_progress" | "final" | "unknown";
+  winner: "home" | "away" | "tie" | "unknown";
+}
+
+export interface PlayoffBracketRules {
+  /** Division winners take the top seeds, then the rest by record. */
+  divisionWinnersSeeded: boolean;
+  playoffMatchupPeriodLength: number;
+  playoffStartScoringPeriod: number;
+  playoffTeamCount: number;
+}
+
+export interface PlayoffBracketInput {
+  /** Head-to-head matchups; only those inside a round's window are read. */
+  matchups: readonly PlayoffBracketMatchupInput[];
+  regularSeasonComplete: boolean;
+  /**
+   * Seeds the provider reported. Used for the playoff field when they name
+   * every seed from 1 to the playoff team count exactly once.
+   */
+  reportedSeeds?: ReadonlyMap<string, number>;
+  rules: PlayoffBracketRules;
+  teams: readonly PlayoffBracketTeamInput[];
+}
+
+export interface PlayoffSeed {
+  /** A top seed that sits out the first round. */
+  bye: boolean;
+  divisionWinner: boolean;
+  inPlayoffs: boolean;
+  losses: number;
+  name: string;
+  pointsFor: number;
+  providerTeamId: string;
+  seed: number;
+  ties: number;
+  wins: number;
+}
+
+export interface PlayoffBracketEntrant {
+  name: string;
+  providerTeamId: string;
+  /** Points in this game so far; null until the provider has the matchup. */
+  score: number | null;
+  /** League seed, in every bracket. */
+  seed: number;
+}
+
+export interface PlayoffBracketGame {
+  /** The team that moves on: the winner, except in the toilet bowl. */
+  advancingProviderTeamId: string | null;
+  bottom: PlayoffBracketEntrant | null;
+  bracket: PlayoffBracketKind;
+  id: string;
+  round: number;
+  scoringPeriodEnd: number;
+  scoringPeriodStart: number;
+  slot: number;
+  status: PlayoffGameStatus;
+  top: PlayoffBracketEntrant | null;
+  winnerProviderTeamId: string | null;
+}
+
+export interface PlayoffBracketRound {
+  games: PlayoffBracketGame[];
+  name: string;
+  round: number;
+  scoringPeriodEnd: number;
+  scoringPeriodStart: number;
+}
+
+export interface PlayoffBracketSection {
+  kind: PlayoffBracketKind;
+  name: string;
+  rounds: PlayoffBracketRound[];
+}
+
+export interface PlayoffBracketPlacements {
+  champion: string | null;
+  /** The team that lost its way to the bottom of the toilet bowl. */
+  lastPlace: string | null;
+  runnerUp: string | null;
+  third: string | null;
+}
+
+export interface PlayoffBracket {
+  placements: PlayoffBracketPlacements;
+  rules: PlayoffBracketRules;
+  sections: PlayoffBracketSection[];
+  seeds: PlayoffSeed[];
+  status: PlayoffBracketStatus;
+}
+
+const SECTION_NAMES: Record<PlayoffBracketKind, string> = {
+  consolation: "Consolation",
+  toilet_bowl: "Toilet Bowl",
+  winners: "Championship bracket",
+};
+
+function compareStable(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function nextPowerOfTwo(value: number): number {
+  let power = 1;
+  while (power < value) {
+    power *= 2;
+  }
+  return power;
+}
+
+function previousPowerOfTwo(value: number): number {
+  let power = 1;
+  while (power * 2 <= value) {
+    power *= 2;
+  }
+  return power;
+}
+
+/**
+ * Bracket positions for a field of `size`, top to bottom: 1 v 8, 4 v 5, 2 v 7,
+ * 3 v 6 for eight, so the top two seeds can only meet in the final.
+ */
+function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const width = order.length * 2;
+    order = order.flatMap((seed) => [seed, width + 1 - seed]);
+  }
+  return order;
+}
+
+export function playoffBracketRulesFor({
+  divisions,
+  settings,
+  teamCount,
+}: {
+  divisions: readonly (string | null)[];
+  settings: Pick<
+    typeof leagueSeasonSettings.$inferSelect,
+    | "playoffMatchupPeriodLength"
+    | "playoffStartScoringPeriod"
+    | "playoffTeamCount"
+    | "regularSeasonEndScoringPeriod"
+  > | null;
+  teamCount: number;
+}): PlayoffBracketRules | null {
+  const playoffStartScoringPeriod =
+    settings?.playoffStartScoringPeriod ??
+    (settings?.regularSeasonEndScoringPeriod
+      ? settings.regularSeasonEndScoringPeriod + 1
+      : null);
+  if (playoffStartScoringPeriod === null || teamCount < 2) {
+    return null;
+  }
+  const odds = playoffOddsRulesFor({ divisions, settings, teamCount });
+  return {
+    divisionWinnersSeeded: odds.divisionWinnersSeeded,
+    playoffMatchupPeriodLength: odds.playoffMatchupPeriodLength,
+    playoffStartScoringPeriod,
+    playoffTeamCount: Math.max(2, odds.playoffTeamCount),
+  };
+}
+
+/** Same order as the odds simulator: record, then points, then team id. */
+function compareRecords(
+  left: PlayoffBracketTeamInput,
+  right: PlayoffBracketTeamInput,
+): number {
+  return (
+    right.wins - left.wins ||
+    left.losses - right.losses ||
+    right.ties - left.ties ||
+    right.pointsFor - left.pointsFor ||
+    compareStable(left.providerTeamId, right.providerTeamId)
+  );
+}
+
+function reportedFieldFor(
+  input: PlayoffBracketInput,
+  playoffTeamCount: number,
+): string[] | null {
+  const reported = input.reportedSeeds;
+  if (!reported) {
+    return null;
+  }
+  const field: (string | undefined)[] = Array.from({
+    length: playoffTeamCount,
+  });
+  const known = new Set(input.teams.map((team) => team.providerTeamId));
+  for (const [providerTeamId, seed] of reported) {
+    if (!known.has(providerTeamId) || seed < 1 || seed > playoffTeamCount) {
+      continue;
+    }
+    if (field[seed - 1] !== undefined) {
+      return null;
+    }
+    field[seed - 1] = providerTeamId;
+  }
+  return field.every((teamId) => teamId !== undefined)
+    ? (field as string[])
+    : null;
+}
+
+/** Every team in seed order, the playoff field first. */
+export function seedPlayoffTeams(input: PlayoffBracketInput): PlayoffSeed[] {
+  const { rules } = input;
+  const playoffTeamCount = Math.min(
+    input.teams.length,
+    Math.max(2, rules.playoffTeamCount),
+  );
+  const ranked = [...input.teams].sort(compareRecords);
+
+  const divisionWinners = new Set<string>();
+  if (rules.divisionWinnersSeeded) {
+    const seen = new Set<string | null>();
+    for (const team of ranked) {
+      if (!seen.has(team.division)) {
+        seen.add(team.division);
+        divisionWinners.add(team.providerTeamId);
+      }
+    }
+  }
+
+  const computed = rules.divisionWinnersSeeded
+    ? [
+        ...ranked.filter((team) => divisionWinners.has(team.providerTeamId)),
+        ...ranked.filter((team) => !divisionWinners.has(team.providerTeamId)),
+      ]
+    : ranked;
+  const reportedField = reportedFieldFor(input, playoffTeamCount);
+  const ordered = reportedField
+    ? [
+        ...reportedField.flatMap(
+          (teamId) =>
+            computed.find((team) => team.providerTeamId === teamId) ?? [],
+        ),
+        ...computed.filter(
+          (team) => !reportedField.includes(team.providerTeamId),
+        ),
+      ]
+    : computed;
+  const byeCount = nextPowerOfTwo(playoffTeamCount) - playoffTeamCount;
+
+  return ordered.map((team, index) => ({
+    bye: index < byeCount,
+    divisionWinner: divisionWinners.has(team.providerTeamId),
+    inPlayoffs: index < playoffTeamCount,
+    losses: team.losses,
+    name: team.name,
+    pointsFor: team.pointsFor,
+    providerTeamId: team.providerTeamId,
+    seed: index + 1,
+    ties: team.ties,
+    wins: team.wins,
+  }));
+}
+
+interface GameWindow {
+  end: number;
+  start: number;
+}
+
+function roundWindow(rules: PlayoffBracketRules, round: number): GameWindow {
+  const length = Math.max(1, rules.playoffMatchupPeriodLength);
+  const start = rules.playoffStartScoringPeriod + (round - 1) * length;
+  return { end: start + length - 1, start };
+}
+
+type BracketTeam = Pick<PlayoffSeed, "name" | "providerTeamId" | "seed">;
+
+function entrant(
+  team: BracketTeam,
+  score: number | null,
+): PlayoffBracketEntrant {
+  return {
+    name: team.name,
+    providerTeamId: team.providerTeamId,
+    score,
+    seed: team.seed,
+  };
+}
+
+/**
+ * Plays one game from the provider's matchups: both teams' points across the
+ * round's scoring periods, live until every period is final.
+ */
+function playGame({
+  bottom,
+  matchups,
+  top,
+  window,
+}: {
+  bottom: BracketTeam;
+  matchups: readonly PlayoffBracketMatchupInput[];
+  top: BracketTeam;
+  window: GameWindow;
+}): Pick<
+  PlayoffBracketGame,
+  "bottom" | "status" | "top" | "winnerProviderTeamId"
+> {
+  const pair = new Set([top.providerTeamId, bottom.providerTeamId]);
+  const rows = matchups.filter(
+    (row) =>
+      row.awayTeamProviderId !== null &&
+      row.scoringPeriod >= window.start &&
+      row.scoringPeriod <= window.end &&
+      pair.has(row.homeTeamProviderId) &&
+      pair.has(row.awayTeamProviderId) &&
+      row.homeTeamProviderId !== row.awayTeamProviderId,
+  );
+  if (rows.length === 0) {
+    return {
+      bottom: entrant(bottom, null),
+      status: "scheduled",
+      top: entrant(top, null),
+      winnerProviderTeamId: null,
+    };
+  }
+
+  const pointsFor = (providerTeamId: string) =>
+    rows.reduce(
+      (total, row) =>
+        total +
+        (row.homeTeamProviderId === providerTeamId
+          ? row.homeScore
+          : row.awayScore),
+      0,
+    );
+  const topScore = pointsFor(top.providerTeamId);
+  const bottomScore = pointsFor(bottom.providerTeamId);
+  const length = window.end - window.start + 1;
+  const covered = rows.reduce(
+    (total, row) => total + Math.max(1, row.scoringPeriodSpan),
+    0,
+  );
+  const final =
+    covered >= length && rows.every((row) => row.status === "final");
+  const started = rows.some(
+    (row) => row.status === "in_progress" || row.status === "final",
+  );
+
+  let winnerProviderTeamId: string | null = null;
+  if (final) {
+    const [only] = rows;
+    const reported =
+      rows.length === 1 &&
+      only &&
+      (only.winner === "home" || only.winner === "away")
+        ? only.winner === "home"
+          ? only.homeTeamProviderId
+          : only.awayTeamProviderId
+        : null;
+    winnerProviderTeamId =
+      reported ??
+      (bottomScore > topScore
+        ? bottom.providerTeamId
+        : topScore > bottomScore
+          ? top.providerTeamId
+          : top.seed < bottom.seed
+            ? top.providerTeamId
+            : bottom.providerTeamId);
+  }
+
+  return {
+    bottom: entrant(bottom, bottomScore),
+    status: final ? "final" : started ? "live" : "scheduled",
+    top: entrant(top, topScore),
+    winnerProviderTeamId,
+  };
+}
+
+function loserOf(game: PlayoffBracketGame): string | null {
+  if (game.status !== "final" || !game.top || !game.bottom) {
+    return null;
+  }
+  return game.winnerProviderTeamId === game.top.providerTeamId
+    ? game.bottom.providerTeamId
+    : game.top.providerTeamId;
+}
+
+function winnersRoundName(round: number, rounds: number): string {
+  const fromFinal = rounds - round;
+  return fromFinal === 0
+    ? "Championship"
+    : fromFinal === 1
+      ? "Semifinals"
+      : fromFinal === 2
+        ? "Quarterfinals"
+        : `Round ${round}`;
+}
+
+/**
+ * A single-elimination bracket over `field`, best bracket seed first. Seats
+ * past the end of the field are byes. `loserAdvances` turns it into a toilet
+ * bowl, where the loser of each game plays on.
+ */
+function eliminationSection({
+  field,
+  kind,
+  loserAdvances,
+  matchups,
+  roundName,
+  roundOffset,
+  rounds,
+  rules,
+}: {
+  field: readonly PlayoffSeed[];
+  kind: PlayoffBracketKind;
+  loserAdvances: boolean;
+  matchups: readonly PlayoffBracketMatchupInput[];
+  roundName: (round: number, rounds: number) => string;
+  roundOffset: number;
+  rounds: number;
+  rules: PlayoffBracketRules;
+}): PlayoffBracketSection {
+  const seats = 2 ** rounds;
+  const order = bracketOrder(seats);
+  const byId = new Map(field.map((seed) => [seed.providerTeamId, seed]));
+  const sectionRounds: PlayoffBracketRound[] = [];
+
+  for (let round = 1; round <= rounds; round += 1) {
+    const window = roundWindow(rules, round + roundOffset);
+    const previous = sectionRounds[round - 2]?.games ?? [];
+    const games: PlayoffBracketGame[] = [];
+    for (let slot = 0; slot < seats / 2 ** round; slot += 1) {
+      const top =
+        round === 1
+          ? (field[(order[slot * 2] ?? 0) - 1] ?? null)
+          : (byId.get(previous[slot * 2]?.advancingProviderTeamId ?? "") ??
+            null);
+      const bottom =
+        round === 1
+          ? (field[(order[slot * 2 + 1] ?? 0) - 1] ?? null)
+          : (byId.get(previous[slot * 2 + 1]?.advancingProviderTeamId ?? "") ??
+            null);
+      const base = {
+        bracket: kind,
+        id: `${kind}-${round}-${slot}`,
+        round,
+        scoringPeriodEnd: window.end,
+        scoringPeriodStart: window.start,
+        slot,
+      };
+
+      if (round === 1 && (!top || !bottom)) {
+        const through = top ?? bottom;
+        games.push({
+          ...base,
+          advancingProviderTeamId: through?.providerTeamId ?? null,
+          bottom: null,
+          status: "bye",
+          top: through ? entrant(through, null) : null,
+          winnerProviderTeamId: through?.providerTeamId ?? null,
+        });
+        continue;
+      }
+      if (!top || !bottom) {
+        games.push({
+          ...base,
+          advancingProviderTeamId: null,
+          bottom: bottom ? entrant(bottom, null) : null,
+          status: "pending",
+          top: top ? entrant(top, null) : null,
+          winnerProviderTeamId: null,
+        });
+        continue;
+      }
+
+      const played = playGame({ bottom, matchups, top, window });
+      const game: PlayoffBracketGame = {
+        ...base,
+        ...played,
+        advancingProviderTeamId: null,
+      };
+      game.advancingProviderTeamId = loserAdvances
+        ? loserOf(game)
+        : game.winnerProviderTeamId;
+      games.push(game);
+    }
+    sectionRounds.push({
+      games,
+      name: roundName(round, rounds),
+      round,
+      scoringPeriodEnd: window.end,
+      scoringPeriodStart: window.start,
+    });
+  }
+
+  return { kind, name: SECTION_NAMES[kind], rounds: sectionRounds };
+}
+
+/** The semifinal losers meet in the championship window, when both played. */
+function consolationSection({
+  matchups,
+  rules,
+  winners,
+}: {
+  matchups: readonly PlayoffBracketMatchupInput[];
+  rules: PlayoffBracketRules;
+  winners: PlayoffBracketSection;
+}): PlayoffBracketSection | null {
+  const rounds = winners.rounds.length;
+  const semifinals = winners.rounds[rounds - 2]?.games ?? [];
+  if (
+    semifinals.length !== 2 ||
+    semifinals.some((game) => game.status === "bye")
+  ) {
+    return null;
+  }
+
+  const field = semifinals.map((game) => {
+    const loser = loserOf(game);
+    if (!loser) {
+      return null;
+    }
+    return game.top?.providerTeamId === loser ? game.top : game.bottom;
+  });
+  const window = roundWindow(rules, rounds);
+  const base = {
+    bracket: "consolation" as const,
+    id: "consolation-1-0",
+    round: 1,
+    scoringPeriodEnd: window.end,
+    scoringPeriodStart: window.start,
+    slot: 0,
+  };
+  const [first, second] = field;
+  let game: PlayoffBracketGame;
+  if (first && second) {
+    const [top, bottom] = [first, second].sort(
+      (left, right) => left.seed - right.seed,
+    );
+    const played = playGame({
+      bottom: bottom ?? second,
+      matchups,
+      top: top ?? first,
+      window,
+    });
+    game = {
+      ...base,
+      ...played,
+      advancingProviderTeamId: played.winnerProviderTeamId,
+    };
+  } else {
+    game = {
+      ...base,
+      advancingProviderTeamId: null,
+      bottom: second ? entrant(second, null) : null,
+      status: "pending",
+      top: first ? entrant(first, null) : null,
+      winnerProviderTeamId: null,
+    };
+  }
+
+  return {
+    kind: "consolation",
+    name: SECTION_NAMES.consolation,
+    rounds: [
+      {
+        games: [game],
+        name: "Third place",
+        round: 1,
+        scoringPeriodEnd: window.end,
+        scoringPeriodStart: window.start,
+      },
+    ],
+  };
+}
+
+export function buildPlayoffBracket(
+  input: PlayoffBracketInput,
+): PlayoffBracket {
+  const seeds = seedPlayoffTeams(input);
+  const field = seeds.filter((seed) => seed.inPlayoffs);
+  const rounds = Math.log2(nextPowerOfTwo(field.length));
+
+  const winners = eliminationSection({
+    field,
+    kind: "winners",
+    loserAdvances: false,
+    matchups: input.matchups,
+    roundName: winnersRoundName,
+    roundOffset: 0,
+    rounds,
+    rules: input.rules,
+  });
+  const sections = [winners];
+
+  const consolation = consolationSection({
+    matchups: input.matchups,
+    rules: input.rules,
+    winners,
+  });
+  if (consolation) {
+    sections.push(consolation);
+  }
+
+  // The worst of the rest, worst first, sized to a power of two that fits in
+  // the playoff weeks. Its final lands in the championship window.
+  const rest = seeds.filter((seed) => !seed.inPlayoffs).reverse();
+  const toiletSize = Math.min(previousPowerOfTwo(rest.length), 2 ** rounds);
+  if (rest.length >= 2 && toiletSize >= 2) {
+    const toiletRounds = Math.log2(toiletSize);
+    sections.push(
+      eliminationSection({
+        field: rest.slice(0, toiletSize),
+        kind: "toilet_bowl",
+        loserAdvances: true,
+        matchups: input.matchups,
+        roundName: (round, total) =>
+          round === total ? "Toilet Bowl final" : `Toilet Bowl round ${round}`,
+        roundOffset: rounds - toiletRounds,
+        rounds: toiletRounds,
+        rules: input.rules,
+      }),
+    );
+  }
+
+  const finalOf = (section: PlayoffBracketSection | undefined) =>
+    section?.rounds.at(-1)?.games[0] ?? null;
+  const championship = finalOf(winners);
+  const toiletFinal = finalOf(
+    sections.find((section) => section.kind === "toilet_bowl"),
+  );
+  const played = sections
+    .flatMap((section) => section.rounds)
+    .flatMap((round) => round.games)
+    .some((game) => game.status === "live" || game.status === "final");
+
+  return {
+    placements: {
+      champion:
+        championship?.status === "final"
+          ? championship.winnerProviderTeamId
+          : null,
+      lastPlace:
+        toiletFinal?.status === "final"
+          ? toiletFinal.advancingProviderTeamId
+          : null,
+      runnerUp: championship ? loserOf(championship) : null,
+      third:
+        consolation?.rounds[0]?.games[0]?.status === "final"
+          ? consolation.rounds[0].games[0].winnerProviderTeamId
+          : null,
+    },
+    rules: input.rules,
+    sections,
+    seeds,
+    status:
+      championship?.status === "final"
+        ? "complete"
+        : played
+          ? "in_progress"
+          : input.regularSeasonComplete
+            ? "seeded"
+            : "projected",
+  };
+}
+
+export interface PlayoffBracketView extends PlayoffBracket {
+  season: number;
+}
+
+/**
+ * The league's bracket for a season, or null when the league has no playoff
+ * start on record or fewer than two teams. Before the regular season ends
+ * the bracket is a projection from the current standings.
+ */
+export async function loadPlayoffBracket(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; season: number },
+): Promise<PlayoffBracketView | null> {
+  const [teamRows, [settings], matchupRows, reportedRows] = await Promise.all([
+    tx
+      .select({
+        division: fantasyTeams.division,
+        losses: fantasyTeams.losses,
+        name: fantasyTeams.name,
+        pointsFor: fantasyTeams.pointsFor,
+        providerTeamId: fantasyTeams.providerTeamId,
+        ties: fantasyTeams.ties,
+        wins: fantasyTeams.wins,
+      })
+      .from(fantasyTeams)
+      .where(
+        and(
+          eq(fantasyTeams.leagueId, input.leagueId),
+          eq(fantasyTeams.season, input.season),
+        ),
+      ),
+    tx
+      .select({
+        playoffMatchupPeriodLength:
+          leagueSeasonSettings.playoffMatchupPeriodLength,
+        playoffStartScoringPeriod:
+          leagueSeasonSettings.playoffStartScoringPeriod,
+        playoffTeamCount: leagueSeasonSettings.playoffTeamCount,
+        regularSeasonEndScoringPeriod:
+          leagueSeasonSettings.regularSeasonEndScoringPeriod,
+      })
+      .from(leagueSeasonSettings)
+      .where(
+        and(
+          eq(leagueSeasonSettings.leagueId, input.leagueId),
+          eq(leagueSeasonSettings.season, input.season),
+        ),
+      )
+      .limit(1),
+    tx
+      .select({
+        awayScore: fantasyMatchups.awayScore,
+        awayTeamProviderId: fantasyMatchups.awayTeamProviderId,
+        homeScore: fantasyMatchups.homeScore,
+        homeTeamProviderId: fantasyMatchups.homeTeamProviderId,
+        scoringPeriod: fantasyMatchups.scoringPeriod,
+        scoringPeriodSpan: fantasyMatchups.scoringPeriodSpan,
+        status: fantasyMatchups.status,
+        winner: fantasyMatchups.winner,
+      })
+      .from(fantasyMatchups)
+      .where(
+        and(
+          eq(fantasyMatchups.leagueId, input.leagueId),
+          eq(fantasyMatchups.season, input.season),
+          eq(fantasyMatchups.kind, "head_to_head"),
+        ),
+      ),
+    tx
+      .select({
+        playoffSeed: providerFinalStandings.playoffSeed,
+        providerTeamId: providerFinalStandings.providerTeamId,
+      })
+      .from(providerFinalStandings)
+      .where(
+        and(
+          eq(providerFinalStandings.leagueId, input.leagueId),
+          eq(providerFinalStandings.season, input.season),
+          isNotNull(providerFinalStandings.playoffSeed),
+        ),
+      ),
+  ]);
+
+  const rules = playoffBracketRulesFor({
+    divisions: teamRows.map((team) => team.division),
+    settings: settings ?? null,
+    teamCount: teamRows.length,
+  });
+  if (!rules) {
+    return null;
+  }
+
+  const regular = matchupRows.filter(
+    (row) => row.scoringPeriod < rules.playoffStartScoringPeriod,
+  );
+  const playoffs = matchupRows.filter(
+    (row) => row.scoringPeriod >= rules.playoffStartScoringPeriod,
+  );
+  // A started playoff week settles it even if a regular-season row is stuck
+  // short of final at the provider.
+  const regularSeasonComplete =
+    (regular.length > 0 && regular.every((row) => row.status === "final")) ||
+    playoffs.some(
+      (row) => row.status === "in_progress" || row.status === "final",
+    );
+
+  const bracket = buildPlayoffBracket({
+    matchups: playoffs,
+    regularSeasonComplete,
+    reportedSeeds: new Map(
+      reportedRows.flatMap((row) =>
+        row.playoffSeed === null
+          ? []
+          : [[row.providerTeamId, row.playoffSeed] as const],
+      ),
+    ),
+    rules,
+    teams: teamRows,
+  });
+  return { ...bracket, season: input.season };
+}
@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import {
+  type PlayoffOddsTeamInput,
+  playoffOddsRulesFor,
+  playoffOddsStandings,
+  simulatePlayoffOdds,
+} from "./playoff-odds";
+
+function team(
+  providerTeamId: string,
+  wins: number,
+  losses: number,
+  overrides: Partial<PlayoffOddsTeamInput> = {},
+): PlayoffOddsTeamInput {
+  return {
+    division: null,
+    losses,
+    pointsFor: wins * 110 + losses * 90,
+    providerTeamId,
+    scores: [110, 95, 120, 101],
+    ties: 0,
+    wins,
+    ...overrides,
+  };
+}
+
+const fourTeamRules = {
+  byeCount: 0,
+  divisionWinnersSeeded: false,
+  playoffMatchupPeriodLength: 1,
+  playoffTeamCount: 2,
+};
+
+function sum(values: readonly number[]): number {
+  return (
+    Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100
+  );
+}
+
+describe("playoffOddsRulesFor", () => {
+  it("derives byes from the bracket and seeds division winners", () => {
+    expect(
+      playoffOddsRulesFor({
+        divisions: ["East", "East", "West", "West", "West", "East"],
+        settings: { playoffMatchupPeriodLength: 2, playoffTeamCount: 6 },
+        teamCount: 6,
+      }),
+    ).toEqual({
+      byeCount: 2,
+      divisionWinnersSeeded: true,
+      playoffMatchupPeriodLength: 2,
+      playoffTeamCount: 6,
+    });
+    expect(
+      playoffOddsRulesFor({
+        divisions: [null, null, null, null],
+        settings: null,
+        teamCount: 4,
+      }),
+    ).toMatchObject({
+      byeCount: 0,
+      divisionWinnersSeeded: false,
+      playoffTeamCount: 2,
+    });
+  });
+});
+
+describe("simulatePlayoffOdds", () => {
+  const teams = [
+    team("1", 5, 3),
+    team("2", 5, 3),
+    team("3", 4, 4),
+    team("4", 2, 6),
+  ];
+  const remainingGames = [
+    { awayTeamProviderId: "2", homeTeamProviderId: "1", scoringPeriodSpan: 1 },
+    { awayTeamProviderId: "4", homeTeamProviderId: "3", scoringPeriodSpan: 1 },
+    { awayTeamProviderId: "3", homeTeamProviderId: "1", scoringPeriodSpan: 1 },
+    { awayTeamProviderId: "4", homeTeamProviderId: "2", scoringPeriodSpan: 1 },
+  ];
+
+  it("is reproducible for a seed and distributes every slot", () => {
+    const input = {
+      regularSeasonComplete: false,
+      remainingGames,
+      rules: fourTeamRules,
+      seed: 42,
+      simulations: 2_000,
+      teams,
+    };
+    const odds = simulatePlayoffOdds(input);
+
+    expect(simulatePlayoffOdds(input)).toEqual(odds);
+    expect(sum(odds.map((row) => row.playoffOdds))).toBe(2);
+    expect(sum(odds.map((row) => row.titleOdds))).toBe(1);
+    expect(sum(odds.map((row) => row.lastPlaceOdds))).toBe(1);
+    expect(odds[0]?.playoffOdds).toBeGreaterThan(odds[2]?.playoffOdds ?? 1);
+  });
+
+  it("flags clinches and eliminations from the remaining schedule alone", () => {
+    const odds = simulatePlayoffOdds({
+      regularSeasonComplete: false,
+      remainingGames: [
+        {
+          awayTeamProviderId: "2",
+          homeTeamProviderId: "1",
+          scoringPeriodSpan: 1,
+        },
+        {
+          awayTeamProviderId: "4",
+          homeTeamProviderId: "3",
+          scoringPeriodSpan: 1,
+        },
+      ],
+      rules: fourTeamRules,
+      seed: 7,
+      simulations: 200,
+      teams: [
+        team("1", 9, 0),
+        team("2", 8, 1),
+        team("3", 7, 2),
+        team("4", 1, 8),
+      ],
+    });
+
+    expect(
+      odds.map((row) => [
+        row.providerTeamId,
+        row.clinchedPlayoff,
+        row.eliminated,
+        row.playoffOdds,
+      ]),
+    ).toEqual([
+      ["1", true, false, 1],
+      ["2", false, false, expect.any(Number)],
+      ["3", false, false, expect.any(Number)],
+      ["4", false, true, 0],
+    ]);
+  });
+
+  it("seeds a losing division winner and knocks out playoff losers", () => {
+    const odds = simulatePlayoffOdds({
+      completedPlayoffGames: [
+        { loserProviderTeamId: "4", winnerProviderTeamId: "1" },
+      ],
+      regularSeasonComplete: true,
+      remainingGames: [],
+      rules: { ...fourTeamRules, divisionWinnersSeeded: true },
+      seed: 3,
+      simulations: 500,
+      teams: [
+        team("1", 10, 4, { division: "East" }),
+        team("2", 9, 5, { division: "East" }),
+        team("3", 8, 6, { division: "East" }),
+        team("4", 6, 8, { division: "West" }),
+      ],
+    });
+
+    const byTeam = new Map(odds.map((row) => [row.providerTeamId, row]));
+    expect(byTeam.get("4")).toMatchObject({
+      clinchedDivision: true,
+      clinchedPlayoff: true,
+      titleOdds: 0,
+    });
+    expect(byTeam.get("2")).toMatchObject({ eliminated: true, playoffOdds: 0 });
+    expect(byTeam.get("1")?.titleOdds).toBe(1);
+  });
+});
+
+describe("playoffOddsStandings", () => {
+  it("reports movement against the previous period", () => {
+    const row = {
+      asOfScoringPeriod: 6,
+      byeOdds: 0.2,
+      clinchedBye: false,
+      clinchedDivision: false,
+      clinchedPlayoff: false,
+      createdAt: new Date("2026-10-12T00:00:00Z"),
+      eliminated: false,
+      id: "snapshot-6",
+      lastPlaceOdds: 0.05,
+      leagueId: "league",
+      metadata: {},
+      personId: null,
+      playoffOdds: 0.61,
+      projectedSeed: 3.4,
+      projectedWins: 8.1,
+      providerTeamId: "1",
+      season: 2026,
+      simulations: 10_000,
+      titleOdds: 0.14,
+      updatedAt: new Date("2026-10-12T00:00:00Z"),
+    };
+
+    const [standing] = playoffOddsStandings({
+      current: [row],
+      previous: [
+        { ...row, asOfScoringPeriod: 5, playoffOdds: 0.48, titleOdds: 0.1 },
+      ],
+    });
+
+    expect(standing?.delta).toEqual({
+      byeOdds: 0,
+      lastPlaceOdds: 0,
+      playoffOdds: 0.13,
+      titleOdds: 0.04,
+    });
+    expect(
+      playoffOddsStandings({ current: [row], previous: [] })[0]?.delta,
+    ).toBe(null);
+  });
+});
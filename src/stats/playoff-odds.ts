@@ -0,0 +1,995 @@
+import { and, desc, eq, inArray, lt, ne } from "drizzle-orm";
+import type { Db } from "@/db/client";
+import { type LeagueScopedTx, withLeagueContext } from "@/db/rls";
+import {
+  fantasyMatchups,
+  fantasyTeams,
+  identityMappings,
+  leagueSeasonSettings,
+  leagues,
+  playoffOddsSnapshots,
+  weeklyStatistics,
+} from "@/db/schema";
+import { completeStatsCalculation, startStatsCalculation } from "./engine";
+
+// Monte Carlo playoff odds for the current season. The simulator is pure: it
+// takes the standings, the remaining schedule, each team's weekly scoring
+// sample and the league's playoff rules, and plays the rest of the season
+// forward `simulations` times with a seeded generator so a refresh over the
+// same data reproduces the same odds. Clinch and elimination flags are derived
+// from best/worst remaining cases, never from the simulated frequencies.
+
+export const PLAYOFF_ODDS_DEFAULT_SIMULATIONS = 10_000;
+
+/** Games of league-average scoring blended into each team's own sample. */
+const PRIOR_GAMES = 3;
+const FALLBACK_MEAN = 100;
+const FALLBACK_STDEV = 20;
+
+export interface PlayoffOddsTeamInput {
+  division: string | null;
+  losses: number;
+  pointsFor: number;
+  providerTeamId: string;
+  /** Per-scoring-period points from this season's final games. */
+  scores: readonly number[];
+  ties: number;
+  wins: number;
+}
+
+export interface PlayoffOddsGameInput {
+  awayTeamProviderId: string;
+  homeTeamProviderId: string;
+  scoringPeriodSpan: number;
+}
+
+export interface PlayoffOddsPlayoffResultInput {
+  loserProviderTeamId: string;
+  winnerProviderTeamId: string;
+}
+
+export interface PlayoffOddsRules {
+  byeCount: number;
+  /** Division winners take the top seeds, then the rest by record. */
+  divisionWinnersSeeded: boolean;
+  playoffMatchupPeriodLength: number;
+  playoffTeamCount: number;
+}
+
+export interface PlayoffOddsInput {
+  completedPlayoffGames?: readonly PlayoffOddsPlayoffResultInput[];
+  regularSeasonComplete: boolean;
+  remainingGames: readonly PlayoffOddsGameInput[];
+  rules: PlayoffOddsRules;
+  seed: number;
+  simulations: number;
+  teams: readonly PlayoffOddsTeamInput[];
+}
+
+export interface TeamPlayoffOdds {
+  byeOdds: number;
+  clinchedBye: boolean;
+  clinchedDivision: boolean;
+  clinchedPlayoff: boolean;
+  eliminated: boolean;
+  lastPlaceOdds: number;
+  playoffOdds: number;
+  projectedSeed: number;
+  projectedWins: number;
+  providerTeamId: string;
+  titleOdds: number;
+}
+
+interface ScoringDistribution {
+  mean: number;
+  stdev: number;
+}
+
+interface SimulatedStanding {
+  index: number;
+  losses: number;
+  pointsFor: number;
+  ties: number;
+  wins: number;
+}
+
+function round(value: number, places = 4): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function compareStable(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function nextPowerOfTwo(value: number): number {
+  let power = 1;
+  while (power < value) {
+    power *= 2;
+  }
+  return power;
+}
+
+/** FNV-1a, so a refresh's seed is a pure function of its identity. */
+export function playoffOddsSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createNormal(random: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const radius = Math.sqrt(-2 * Math.log(1 - random()));
+    const angle = 2 * Math.PI * random();
+    spare = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  };
+}
+
+function mean(values: readonly number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function sumOfSquares(values: readonly number[], center: number): number {
+  return values.reduce((sum, value) => sum + (value - center) ** 2, 0);
+}
+
+/**
+ * Each team's scoring is modelled as normal, shrunk toward the league so a
+ * two-game sample does not decide a season: the league's mean and variance
+ * count as `PRIOR_GAMES` extra games.
+ */
+export function scoringDistributions(
+  teams: readonly Pick<PlayoffOddsTeamInput, "scores">[],
+): ScoringDistribution[] {
+  const allScores = teams.flatMap((team) => team.scores);
+  const leagueMean = allScores.length > 0 ? mean(allScores) : FALLBACK_MEAN;
+  const leagueVariance =
+    allScores.length > 1
+      ? sumOfSquares(allScores, leagueMean) / (allScores.length - 1)
+      : FALLBACK_STDEV ** 2;
+
+  return teams.map((team) => {
+    const games = team.scores.length;
+    if (games === 0) {
+      return { mean: leagueMean, stdev: Math.sqrt(leagueVariance) };
+    }
+    const teamMean = mean(team.scores);
+    const blendedMean =
+      (teamMean * games + leagueMean * PRIOR_GAMES) / (games + PRIOR_GAMES);
+    const blendedVariance =
+      (sumOfSquares(team.scores, teamMean) + leagueVariance * PRIOR_GAMES) /
+      (games - 1 + PRIOR_GAMES);
+    return { mean: blendedMean, stdev: Math.sqrt(blendedVariance) };
+  });
+}
+
+export function playoffOddsRulesFor({
+  divisions,
+  settings,
+  teamCount,
+}: {
+  divisions: readonly (string | null)[];
+  settings: Pick<
+    typeof leagueSeasonSettings.$inferSelect,
+    "playoffMatchupPeriodLength" | "playoffTeamCount"
+  > | null;
+  teamCount: number;
+}): PlayoffOddsRules {
+  const playoffTeamCount = Math.max(
+    1,
+    Math.min(teamCount, settings?.playoffTeamCount ?? Math.ceil(teamCount / 2)),
+  );
+  const distinctDivisions = new Set(divisions);
+  const divisionWinnersSeeded =
+    !distinctDivisions.has(null) &&
+    distinctDivisions.size >= 2 &&
+    distinctDivisions.size <= playoffTeamCount;
+
+  return {
+    byeCount: nextPowerOfTwo(playoffTeamCount) - playoffTeamCount,
+    divisionWinnersSeeded,
+    playoffMatchupPeriodLength: Math.max(
+      1,
+      settings?.playoffMatchupPeriodLength ?? 1,
+    ),
+    playoffTeamCount,
+  };
+}
+
+function compareStandings(
+  teams: readonly PlayoffOddsTeamInput[],
+): (left: SimulatedStanding, right: SimulatedStanding) => number {
+  return (left, right) =>
+    right.wins - left.wins ||
+    left.losses - right.losses ||
+    right.ties - left.ties ||
+    right.pointsFor - left.pointsFor ||
+    compareStable(
+      teams[left.index]?.providerTeamId ?? "",
+      teams[right.index]?.providerTeamId ?? "",
+    );
+}
+
+/** Team indices in seed order; the full league, not just the playoff field. */
+function seedOrder(
+  standings: readonly SimulatedStanding[],
+  teams: readonly PlayoffOddsTeamInput[],
+  rules: PlayoffOddsRules,
+): number[] {
+  const compare = compareStandings(teams);
+  const ranked = [...standings].sort(compare);
+  if (!rules.divisionWinnersSeeded) {
+    return ranked.map((standing) => standing.index);
+  }
+
+  const winners = new Map<string | null, SimulatedStanding>();
+  for (const standing of ranked) {
+    const division = teams[standing.index]?.division ?? null;
+    if (!winners.has(division)) {
+      winners.set(division, standing);
+    }
+  }
+  const winnerIndices = new Set(
+    [...winners.values()].map((standing) => standing.index),
+  );
+  return [
+    ...[...winners.values()].sort(compare).map((standing) => standing.index),
+    ...ranked
+      .filter((standing) => !winnerIndices.has(standing.index))
+      .map((standing) => standing.index),
+  ];
+}
+
+interface MathematicalFlags {
+  clinchedBye: boolean;
+  clinchedDivision: boolean;
+  clinchedPlayoff: boolean;
+  eliminated: boolean;
+}
+
+/**
+ * Best/worst-case bounds on win points (a tie is half a win). A rival "could
+ * finish ahead" when its ceiling reaches this team's floor, and is "certainly
+ * ahead" when its floor clears this team's ceiling; equal records count as
+ * possibly ahead because the tiebreaker is still unplayed.
+ */
+function mathematicalFlags({
+  remainingGames,
+  rules,
+  teams,
+}: Pick<
+  PlayoffOddsInput,
+  "remainingGames" | "rules" | "teams"
+>): MathematicalFlags[] {
+  const remainingByTeam = new Map<string, number>();
+  for (const game of remainingGames) {
+    for (const teamId of [game.homeTeamProviderId, game.awayTeamProviderId]) {
+      remainingByTeam.set(teamId, (remainingByTeam.get(teamId) ?? 0) + 1);
+    }
+  }
+  const bounds = teams.map((team) => {
+    const floor = team.wins + team.ties / 2;
+    return {
+      ceiling: floor + (remainingByTeam.get(team.providerTeamId) ?? 0),
+      floor,
+    };
+  });
+  const divisionSlots = rules.divisionWinnersSeeded
+    ? new Set(teams.map((team) => team.division)).size
+    : 0;
+
+  return teams.map((team, index) => {
+    const own = bounds[index] ?? { ceiling: 0, floor: 0 };
+    let couldFinishAhead = 0;
+    let certainlyAhead = 0;
+    let divisionThreat = false;
+    let divisionLost = false;
+    for (const [otherIndex, other] of teams.entries()) {
+      if (otherIndex === index) {
+        continue;
+      }
+      const bound = bounds[otherIndex] ?? { ceiling: 0, floor: 0 };
+      const couldBeAhead = bound.ceiling >= own.floor;
+      const isAhead = bound.floor > own.ceiling;
+      couldFinishAhead += couldBeAhead ? 1 : 0;
+      certainlyAhead += isAhead ? 1 : 0;
+      if (rules.divisionWinnersSeeded && other.division === team.division) {
+        divisionThreat ||= couldBeAhead;
+        divisionLost ||= isAhead;
+      }
+    }
+
+    const clinchedDivision = rules.divisionWinnersSeeded && !divisionThreat;
+    const canWinDivision = rules.divisionWinnersSeeded && !divisionLost;
+    return {
+      clinchedBye:
+        rules.byeCount > 0 &&
+        (!rules.divisionWinnersSeeded || clinchedDivision) &&
+        couldFinishAhead < rules.byeCount,
+      clinchedDivision,
+      clinchedPlayoff:
+        clinchedDivision ||
+        couldFinishAhead < rules.playoffTeamCount - divisionSlots,
+      eliminated: !canWinDivision && certainlyAhead >= rules.playoffTeamCount,
+    };
+  });
+}
+
+/**
+ * Once the regular season is over the seeds are known, so the flags are read
+ * straight off the final order instead of the bounds.
+ */
+function finalSeedFlags(
+  teams: readonly PlayoffOddsTeamInput[],
+  rules: PlayoffOddsRules,
+): MathematicalFlags[] {
+  const order = seedOrder(
+    teams.map((team, index) => ({
+      index,
+      losses: team.losses,
+      pointsFor: team.pointsFor,
+      ties: team.ties,
+      wins: team.wins,
+    })),
+    teams,
+    rules,
+  );
+  // Division winners hold the first seeds, one per division.
+  const divisionCount = rules.divisionWinnersSeeded
+    ? new Set(teams.map((team) => team.division)).size
+    : 0;
+  return teams.map((_, index) => {
+    const seed = order.indexOf(index) + 1;
+    return {
+      clinchedBye: seed <= rules.byeCount,
+      clinchedDivision: seed <= divisionCount,
+      clinchedPlayoff: seed <= rules.playoffTeamCount,
+      eliminated: seed > rules.playoffTeamCount,
+    };
+  });
+}
+
+function simulateScore(
+  distribution: ScoringDistribution | undefined,
+  periods: number,
+  normal: () => number,
+): number {
+  const center = (distribution?.mean ?? FALLBACK_MEAN) * periods;
+  const spread = (distribution?.stdev ?? FALLBACK_STDEV) * Math.sqrt(periods);
+  return Math.max(0, center + spread * normal());
+}
+
+/**
+ * Single elimination, reseeded each round: the best remaining seed meets the
+ * worst, and when the field is not a power of two the top seeds sit out the
+ * round. Returns the champion's team index.
+ */
+function simulateBracket({
+  alive,
+  distributions,
+  normal,
+  periods,
+  seedOf,
+}: {
+  alive: number[];
+  distributions: readonly ScoringDistribution[];
+  normal: () => number;
+  periods: number;
+  seedOf: ReadonlyMap<number, number>;
+}): number | null {
+  let field = [...alive].sort(
+    (left, right) => (seedOf.get(left) ?? 0) - (seedOf.get(right) ?? 0),
+  );
+  while (field.length > 1) {
+    const byes = nextPowerOfTwo(field.length) - field.length;
+    const advancing = field.slice(0, byes);
+    const playing = field.slice(byes);
+    for (let index = 0; index < playing.length / 2; index += 1) {
+      const higher = playing[index];
+      const lower = playing[playing.length - 1 - index];
+      if (higher === undefined || lower === undefined) {
+        continue;
+      }
+      const higherScore = simulateScore(distributions[higher], periods, normal);
+      const lowerScore = simulateScore(distributions[lower], periods, normal);
+      advancing.push(lowerScore > higherScore ? lower : higher);
+    }
+    field = advancing.sort(
+      (left, right) => (seedOf.get(left) ?? 0) - (seedOf.get(right) ?? 0),
+    );
+  }
+  return field[0] ?? null;
+}
+
+export function simulatePlayoffOdds(
+  input: PlayoffOddsInput,
+): TeamPlayoffOdds[] {
+  const { rules, teams } = input;
+  if (teams.length === 0) {
+    return [];
+  }
+  const simulations = Math.max(1, Math.floor(input.simulations));
+  const distributions = scoringDistributions(teams);
+  const indexByTeamId = new Map(
+    teams.map((team, index) => [team.providerTeamId, index]),
+  );
+  const games = input.remainingGames.flatMap((game) => {
+    const home = indexByTeamId.get(game.homeTeamProviderId);
+    const away = indexByTeamId.get(game.awayTeamProviderId);
+    return home === undefined || away === undefined
+      ? []
+      : [{ away, home, periods: Math.max(1, game.scoringPeriodSpan) }];
+  });
+  const knockedOut = new Set(
+    (input.completedPlayoffGames ?? []).flatMap((game) => {
+      const loser = indexByTeamId.get(game.loserProviderTeamId);
+      return loser === undefined ? [] : [loser];
+    }),
+  );
+  const normal = createNormal(createRandom(input.seed));
+  const compare = compareStandings(teams);
+
+  const totals = teams.map(() => ({
+    bye: 0,
+    lastPlace: 0,
+    playoff: 0,
+    seed: 0,
+    title: 0,
+    wins: 0,
+  }));
+
+  for (let run = 0; run < simulations; run += 1) {
+    const standings: SimulatedStanding[] = teams.map((team, index) => ({
+      index,
+      losses: team.losses,
+      pointsFor: team.pointsFor,
+      ties: team.ties,
+      wins: team.wins,
+    }));
+    for (const game of games) {
+      const home = standings[game.home];
+      const away = standings[game.away];
+      if (!home || !away) {
+        continue;
+      }
+      const homeScore = simulateScore(
+        distributions[game.home],
+        game.periods,
+        normal,
+      );
+      const awayScore = simulateScore(
+        distributions[game.away],
+        game.periods,
+        normal,
+      );
+      home.pointsFor += homeScore;
+      away.pointsFor += awayScore;
+      if (homeScore > awayScore) {
+        home.wins += 1;
+        away.losses += 1;
+      } else if (awayScore > homeScore) {
+        away.wins += 1;
+        home.losses += 1;
+      } else {
+        home.ties += 1;
+        away.ties += 1;
+      }
+    }
+
+    const order = seedOrder(standings, teams, rules);
+    const seedOf = new Map(
+      order.map((index, position) => [index, position + 1]),
+    );
+    const last = [...standings].sort(compare).at(-1);
+    if (last) {
+      const lastTotals = totals[last.index];
+      if (lastTotals) {
+        lastTotals.lastPlace += 1;
+      }
+    }
+    for (const standing of standings) {
+      const teamTotals = totals[standing.index];
+      const seed = seedOf.get(standing.index) ?? teams.length;
+      if (!teamTotals) {
+        continue;
+      }
+      teamTotals.seed += seed;
+      teamTotals.wins += standing.wins;
+      teamTotals.playoff += seed <= rules.playoffTeamCount ? 1 : 0;
+      teamTotals.bye += seed <= rules.byeCount ? 1 : 0;
+    }
+
+    const champion = simulateBracket({
+      alive: order
+        .slice(0, rules.playoffTeamCount)
+        .filter((index) => !knockedOut.has(index)),
+      distributions,
+      normal,
+      periods: rules.playoffMatchupPeriodLength,
+      seedOf,
+    });
+    if (champion !== null) {
+      const championTotals = totals[champion];
+      if (championTotals) {
+        championTotals.title += 1;
+      }
+    }
+  }
+
+  const flags = input.regularSeasonComplete
+    ? finalSeedFlags(teams, rules)
+    : mathematicalFlags(input);
+  return teams.map((team, index) => {
+    const teamTotals = totals[index];
+    const teamFlags = flags[index];
+    const share = (count: number) => round(count / simulations);
+    return {
+      byeOdds: teamFlags?.clinchedBye ? 1 : share(teamTotals?.bye ?? 0),
+      clinchedBye: teamFlags?.clinchedBye ?? false,
+      clinchedDivision: teamFlags?.clinchedDivision ?? false,
+      clinchedPlayoff: teamFlags?.clinchedPlayoff ?? false,
+      eliminated: teamFlags?.eliminated ?? false,
+      lastPlaceOdds: share(teamTotals?.lastPlace ?? 0),
+      playoffOdds: teamFlags?.clinchedPlayoff
+        ? 1
+        : teamFlags?.eliminated
+          ? 0
+          : share(teamTotals?.playoff ?? 0),
+      projectedSeed: round((teamTotals?.seed ?? 0) / simulations, 2),
+      projectedWins: round((teamTotals?.wins ?? 0) / simulations, 2),
+      providerTeamId: team.providerTeamId,
+      titleOdds: teamFlags?.eliminated ? 0 : share(teamTotals?.title ?? 0),
+    };
+  });
+}
+
+export interface PlayoffOddsDelta {
+  byeOdds: number;
+  lastPlaceOdds: number;
+  playoffOdds: number;
+  titleOdds: number;
+}
+
+export interface PlayoffOddsStanding extends TeamPlayoffOdds {
+  asOfScoringPeriod: number;
+  /** Movement since the previous period's snapshot; null in its first week. */
+  delta: PlayoffOddsDelta | null;
+  personId: string | null;
+  season: number;
+  simulations: number;
+  updatedAt: string;
+}
+
+type PlayoffOddsSnapshotRow = typeof playoffOddsSnapshots.$inferSelect;
+
+function toTeamOdds(row: PlayoffOddsSnapshotRow): TeamPlayoffOdds {
+  return {
+    byeOdds: row.byeOdds,
+    clinchedBye: row.clinchedBye,
+    clinchedDivision: row.clinchedDivision,
+    clinchedPlayoff: row.clinchedPlayoff,
+    eliminated: row.eliminated,
+    lastPlaceOdds: row.lastPlaceOdds,
+    playoffOdds: row.playoffOdds,
+    projectedSeed: row.projectedSeed,
+    projectedWins: row.projectedWins,
+    providerTeamId: row.providerTeamId,
+    titleOdds: row.titleOdds,
+  };
+}
+
+export function playoffOddsStandings({
+  current,
+  previous,
+}: {
+  current: readonly PlayoffOddsSnapshotRow[];
+  previous: readonly PlayoffOddsSnapshotRow[];
+}): PlayoffOddsStanding[] {
+  const previousByTeam = new Map(
+    previous.map((row) => [row.providerTeamId, row]),
+  );
+  return [...current]
+    .sort(
+      (left, right) =>
+        right.playoffOdds - left.playoffOdds ||
+        right.titleOdds - left.titleOdds ||
+        compareStable(left.providerTeamId, right.providerTeamId),
+    )
+    .map((row) => {
+      const before = previousByTeam.get(row.providerTeamId);
+      return {
+        ...toTeamOdds(row),
+        asOfScoringPeriod: row.asOfScoringPeriod,
+        delta: before
+          ? {
+              byeOdds: round(row.byeOdds - before.byeOdds),
+              lastPlaceOdds: round(row.lastPlaceOdds - before.lastPlaceOdds),
+              playoffOdds: round(row.playoffOdds - before.playoffOdds),
+              titleOdds: round(row.titleOdds - before.titleOdds),
+            }
+          : null,
+        personId: row.personId,
+        season: row.season,
+        simulations: row.simulations,
+        updatedAt: row.updatedAt.toISOString(),
+      };
+    });
+}
+
+/** The latest snapshot for a season, with deltas against the period before. */
+export async function loadPlayoffOdds(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; season: number },
+): Promise<PlayoffOddsStanding[]> {
+  const [latest] = await tx
+    .select({ asOfScoringPeriod: playoffOddsSnapshots.asOfScoringPeriod })
+    .from(playoffOddsSnapshots)
+    .where(
+      and(
+        eq(playoffOddsSnapshots.leagueId, input.leagueId),
+        eq(playoffOddsSnapshots.season, input.season),
+      ),
+    )
+    .orderBy(desc(playoffOddsSnapshots.asOfScoringPeriod))
+    .limit(1);
+  if (!latest) {
+    return [];
+  }
+
+  const current = await tx
+    .select()
+    .from(playoffOddsSnapshots)
+    .where(
+      and(
+        eq(playoffOddsSnapshots.leagueId, input.leagueId),
+        eq(playoffOddsSnapshots.season, input.season),
+        eq(playoffOddsSnapshots.asOfScoringPeriod, latest.asOfScoringPeriod),
+      ),
+    );
+  const [previousPeriod] = await tx
+    .select({ asOfScoringPeriod: playoffOddsSnapshots.asOfScoringPeriod })
+    .from(playoffOddsSnapshots)
+    .where(
+      and(
+        eq(playoffOddsSnapshots.leagueId, input.leagueId),
+        eq(playoffOddsSnapshots.season, input.season),
+        lt(playoffOddsSnapshots.asOfScoringPeriod, latest.asOfScoringPeriod),
+      ),
+    )
+    .orderBy(desc(playoffOddsSnapshots.asOfScoringPeriod))
+    .limit(1);
+  const previous = previousPeriod
+    ? await tx
+        .select()
+        .from(playoffOddsSnapshots)
+        .where(
+          and(
+            eq(playoffOddsSnapshots.leagueId, input.leagueId),
+            eq(playoffOddsSnapshots.season, input.season),
+            eq(
+              playoffOddsSnapshots.asOfScoringPeriod,
+              previousPeriod.asOfScoringPeriod,
+            ),
+          ),
+        )
+    : [];
+
+  return playoffOddsStandings({ current, previous });
+}
+
+export interface PlayoffOddsRefreshSummary {
+  asOfScoringPeriod: number | null;
+  season: number | null;
+  teams: number;
+}
+
+type PlayoffOddsRefreshPlan =
+  | { kind: "skip"; season: number | null }
+  | {
+      asOfScoringPeriod: number;
+      kind: "simulate";
+      personByTeamId: Map<string, string>;
+      season: number;
+      simulation: Omit<PlayoffOddsInput, "simulations">;
+    };
+
+async function loadPlayoffOddsRefreshPlan(
+  tx: LeagueScopedTx,
+  leagueId: string,
+): Promise<PlayoffOddsRefreshPlan> {
+  const [league] = await tx
+    .select({ season: leagues.season })
+    .from(leagues)
+    .where(eq(leagues.id, leagueId))
+    .limit(1);
+  if (!league) {
+    return { kind: "skip", season: null };
+  }
+  const season = league.season;
+
+  const teamRows = await tx
+    .select({
+      division: fantasyTeams.division,
+      losses: fantasyTeams.losses,
+      pointsFor: fantasyTeams.pointsFor,
+      providerTeamId: fantasyTeams.providerTeamId,
+      ties: fantasyTeams.ties,
+      wins: fantasyTeams.wins,
+    })
+    .from(fantasyTeams)
+    .where(
+      and(eq(fantasyTeams.leagueId, leagueId), eq(fantasyTeams.season, season)),
+    );
+  const matchupRows = await tx
+    .select({
+      awayTeamProviderId: fantasyMatchups.awayTeamProviderId,
+      homeTeamProviderId: fantasyMatchups.homeTeamProviderId,
+      scoringPeriod: fantasyMatchups.scoringPeriod,
+      scoringPeriodSpan: fantasyMatchups.scoringPeriodSpan,
+      status: fantasyMatchups.status,
+      winner: fantasyMatchups.winner,
+    })
+    .from(fantasyMatchups)
+    .where(
+      and(
+        eq(fantasyMatchups.leagueId, leagueId),
+        eq(fantasyMatchups.season, season),
+        eq(fantasyMatchups.kind, "head_to_head"),
+      ),
+    );
+  if (teamRows.length < 2 || matchupRows.length === 0) {
+    return { kind: "skip", season };
+  }
+
+  const [settings] = await tx
+    .select({
+      playoffMatchupPeriodLength:
+        leagueSeasonSettings.playoffMatchupPeriodLength,
+      playoffStartScoringPeriod: leagueSeasonSettings.playoffStartScoringPeriod,
+      playoffTeamCount: leagueSeasonSettings.playoffTeamCount,
+      regularSeasonEndScoringPeriod:
+        leagueSeasonSettings.regularSeasonEndScoringPeriod,
+    })
+    .from(leagueSeasonSettings)
+    .where(
+      and(
+        eq(leagueSeasonSettings.leagueId, leagueId),
+        eq(leagueSeasonSettings.season, season),
+      ),
+    )
+    .limit(1);
+  const mappingRows = await tx
+    .select({
+      personId: identityMappings.personId,
+      providerTeamId: identityMappings.providerTeamId,
+    })
+    .from(identityMappings)
+    .where(
+      and(
+        eq(identityMappings.leagueId, leagueId),
+        eq(identityMappings.season, season),
+      ),
+    );
+  const personByTeamId = new Map(
+    mappingRows.map((row) => [row.providerTeamId, row.personId]),
+  );
+  const personIds = [...new Set(mappingRows.map((row) => row.personId))];
+  const scoreRows =
+    personIds.length > 0
+      ? await tx
+          .select({
+            personId: weeklyStatistics.personId,
+            pointsFor: weeklyStatistics.pointsFor,
+            scoringPeriodSpan: weeklyStatistics.scoringPeriodSpan,
+          })
+          .from(weeklyStatistics)
+          .where(
+            and(
+              eq(weeklyStatistics.leagueId, leagueId),
+              eq(weeklyStatistics.season, season),
+              eq(weeklyStatistics.matchupKind, "head_to_head"),
+              ne(weeklyStatistics.result, "bye"),
+              inArray(weeklyStatistics.personId, personIds),
+            ),
+          )
+      : [];
+  const scoresByPerson = new Map<string, number[]>();
+  for (const row of scoreRows) {
+    const scores = scoresByPerson.get(row.personId) ?? [];
+    scores.push(row.pointsFor / Math.max(1, row.scoringPeriodSpan));
+    scoresByPerson.set(row.personId, scores);
+  }
+
+  const playoffStart =
+    settings?.playoffStartScoringPeriod ??
+    (settings?.regularSeasonEndScoringPeriod
+      ? settings.regularSeasonEndScoringPeriod + 1
+      : null);
+  const isRegularSeason = (period: number) =>
+    playoffStart === null || period < playoffStart;
+  const finalPeriods = matchupRows
+    .filter((row) => row.status === "final")
+    .map((row) => row.scoringPeriod);
+  const asOfScoringPeriod =
+    finalPeriods.length > 0 ? Math.max(...finalPeriods) : 0;
+  const remainingGames = matchupRows.flatMap((row) =>
+    row.status !== "final" &&
+    row.awayTeamProviderId &&
+    isRegularSeason(row.scoringPeriod)
+      ? [
+          {
+            awayTeamProviderId: row.awayTeamProviderId,
+            homeTeamProviderId: row.homeTeamProviderId,
+            scoringPeriodSpan: row.scoringPeriodSpan,
+          },
+        ]
+      : [],
+  );
+  const completedPlayoffGames = matchupRows.flatMap((row) => {
+    if (
+      row.status !== "final" ||
+      !row.awayTeamProviderId ||
+      isRegularSeason(row.scoringPeriod) ||
+      (row.winner !== "home" && row.winner !== "away")
+    ) {
+      return [];
+    }
+    return row.winner === "home"
+      ? [
+          {
+            loserProviderTeamId: row.awayTeamProviderId,
+            winnerProviderTeamId: row.homeTeamProviderId,
+          },
+        ]
+      : [
+          {
+            loserProviderTeamId: row.homeTeamProviderId,
+            winnerProviderTeamId: row.awayTeamProviderId,
+          },
+        ];
+  });
+
+  const teams = [...teamRows]
+    .sort((left, right) =>
+      compareStable(left.providerTeamId, right.providerTeamId),
+    )
+    .map((team) => {
+      const personId = personByTeamId.get(team.providerTeamId);
+      return {
+        ...team,
+        scores: personId ? (scoresByPerson.get(personId) ?? []) : [],
+      };
+    });
+  const rules = playoffOddsRulesFor({
+    divisions: teams.map((team) => team.division),
+    settings: settings ?? null,
+    teamCount: teams.length,
+  });
+  return {
+    asOfScoringPeriod,
+    kind: "simulate",
+    personByTeamId,
+    season,
+    simulation: {
+      completedPlayoffGames,
+      regularSeasonComplete:
+        remainingGames.length === 0 &&
+        playoffStart !== null &&
+        asOfScoringPeriod >= playoffStart - 1,
+      remainingGames,
+      rules,
+      seed: playoffOddsSeed(`${leagueId}:${season}:${asOfScoringPeriod}`),
+      teams,
+    },
+  };
+}
+
+/**
+ * Re-simulates the league's current season and upserts the snapshot for the
+ * last final scoring period. Runs after every live scoring update; a league
+ * without a schedule or with fewer than two teams is left untouched.
+ *
+ * The inputs are read in one short transaction and the snapshot written in
+ * another, so the simulation itself never holds a league transaction open.
+ */
+export async function refreshPlayoffOdds(
+  db: Db,
+  input: { leagueId: string; simulations?: number; trigger?: string },
+): Promise<PlayoffOddsRefreshSummary> {
+  const plan = await withLeagueContext(db, input.leagueId, (tx) =>
+    loadPlayoffOddsRefreshPlan(tx, input.leagueId),
+  );
+  if (plan.kind === "skip") {
+    return { asOfScoringPeriod: null, season: plan.season, teams: 0 };
+  }
+
+  const { asOfScoringPeriod, personByTeamId, season } = plan;
+  const { remainingGames, rules } = plan.simulation;
+  const simulations = input.simulations ?? PLAYOFF_ODDS_DEFAULT_SIMULATIONS;
+  const startedAtMs = Date.now();
+  const odds = simulatePlayoffOdds({ ...plan.simulation, simulations });
+
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const calculation = await startStatsCalculation(tx, {
+      calculationType: "playoff_odds",
+      leagueId: input.leagueId,
+      metadata: {
+        asOfScoringPeriod,
+        season,
+        simulations,
+        trigger: input.trigger ?? "scores_updated",
+      },
+    });
+
+    const now = new Date();
+    for (const team of odds) {
+      const values = {
+        byeOdds: team.byeOdds,
+        clinchedBye: team.clinchedBye,
+        clinchedDivision: team.clinchedDivision,
+        clinchedPlayoff: team.clinchedPlayoff,
+        eliminated: team.eliminated,
+        lastPlaceOdds: team.lastPlaceOdds,
+        metadata: {
+          byeCount: rules.byeCount,
+          divisionWinnersSeeded: rules.divisionWinnersSeeded,
+          playoffTeamCount: rules.playoffTeamCount,
+          remainingGames: remainingGames.length,
+        },
+        personId: personByTeamId.get(team.providerTeamId) ?? null,
+        playoffOdds: team.playoffOdds,
+        projectedSeed: team.projectedSeed,
+        projectedWins: team.projectedWins,
+        simulations,
+        titleOdds: team.titleOdds,
+        updatedAt: now,
+      };
+      await tx
+        .insert(playoffOddsSnapshots)
+        .values({
+          ...values,
+          asOfScoringPeriod,
+          leagueId: input.leagueId,
+          providerTeamId: team.providerTeamId,
+          season,
+        })
+        .onConflictDoUpdate({
+          set: values,
+          target: [
+            playoffOddsSnapshots.leagueId,
+            playoffOddsSnapshots.season,
+            playoffOddsSnapshots.asOfScoringPeriod,
+            playoffOddsSnapshots.providerTeamId,
+          ],
+        });
+    }
+    await completeStatsCalculation(tx, {
+      ...calculation,
+      rowsProcessed: odds.length,
+      startedAtMs,
+    });
+
+    return { asOfScoringPeriod, season, teams: odds.length };
+  });
+}
@@ -0,0 +1,346 @@
+import { and, asc, eq } from "drizzle-orm";
+import { AppError, err, ok, type Result, toAppError } from "@/core/result";
+import type { Db } from "@/db/client";
+import { withLeagueContext } from "@/db/rls";
+import {
+  allTimeRecords,
+  leagueDataEdits,
+  leagueRecordDefinitions,
+} from "@/db/schema";
+import {
+  type CustomRecordDefinition,
+  customRecordType,
+  isCustomRecordKey,
+  toCustomRecordDefinition,
+} from "./custom-records";
+import { refreshLeagueRecords } from "./engine";
+
+type LeagueRecordDefinitionRow = typeof leagueRecordDefinitions.$inferSelect;
+
+export interface LeagueRecordDefinitionSummary extends CustomRecordDefinition {
+  id: string;
+  recordType: string;
+  status: LeagueRecordDefinitionRow["status"];
+  updatedAt: string;
+}
+
+export interface LeagueRecordDefinitionChange {
+  definition: LeagueRecordDefinitionSummary;
+  ledgerEntryId: string;
+  records: number;
+}
+
+function recordDefinitionError({
+  code,
+  message,
+  status,
+}: {
+  code: string;
+  message: string;
+  status: number;
+}): AppError {
+  return new AppError({ code, message, status });
+}
+
+function invalidDefinitionError(message: string): AppError {
+  return recordDefinitionError({
+    code: "RECORD_DEFINITION_INVALID",
+    message,
+    status: 400,
+  });
+}
+
+function definitionNotFoundError(): AppError {
+  return recordDefinitionError({
+    code: "RECORD_DEFINITION_NOT_FOUND",
+    message: "Record definition was not found",
+    status: 404,
+  });
+}
+
+function toSummary(
+  row: LeagueRecordDefinitionRow,
+): LeagueRecordDefinitionSummary {
+  return {
+    ...toCustomRecordDefinition(row),
+    id: row.id,
+    recordType: customRecordType(row.recordKey),
+    status: row.status,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function validateDefinition(
+  definition: CustomRecordDefinition,
+): AppError | null {
+  if (!isCustomRecordKey(definition.recordKey)) {
+    return invalidDefinitionError(
+      "Record key must be lowercase letters, digits, and underscores",
+    );
+  }
+  if (definition.scope === "week" && definition.aggregation !== null) {
+    return invalidDefinitionError(
+      "Single-week records cannot aggregate; omit the aggregation",
+    );
+  }
+  if (definition.scope !== "week" && definition.aggregation === null) {
+    return invalidDefinitionError(
+      "Season, career, and head-to-head records need an aggregation",
+    );
+  }
+  return null;
+}
+
+/** Fields whose change alters which rows qualify or how they score. */
+function evaluationChanged(
+  before: CustomRecordDefinition,
+  after: CustomRecordDefinition,
+): boolean {
+  return (
+    before.aggregation !== after.aggregation ||
+    before.direction !== after.direction ||
+    before.metric !== after.metric ||
+    before.scope !== after.scope ||
+    before.segment !== after.segment ||
+    JSON.stringify(before.filters) !== JSON.stringify(after.filters)
+  );
+}
+
+export async function listLeagueRecordDefinitions(
+  db: Db,
+  input: { includeArchived?: boolean; leagueId: string },
+): Promise<Result<LeagueRecordDefinitionSummary[], AppError>> {
+  try {
+    const rows = await withLeagueContext(db, input.leagueId, async (tx) =>
+      tx
+        .select()
+        .from(leagueRecordDefinitions)
+        .where(
+          input.includeArchived
+            ? eq(leagueRecordDefinitions.leagueId, input.leagueId)
+            : and(
+                eq(leagueRecordDefinitions.leagueId, input.leagueId),
+                eq(leagueRecordDefinitions.status, "active"),
+              ),
+        )
+        .orderBy(asc(leagueRecordDefinitions.label)),
+    );
+    return ok(rows.map(toSummary));
+  } catch (error) {
+    return err(
+      toAppError(error, {
+        code: "RECORD_DEFINITIONS_LIST_FAILED",
+        message: "Record definitions could not be loaded",
+      }),
+    );
+  }
+}
+
+/**
+ * Creates or replaces a house record by key, writes the data-edit ledger
+ * entry, and re-derives the league's records so the book reflects it at once.
+ *
+ * When a redefinition changes how the record is evaluated, its stored
+ * progression is discarded first: the new definition establishes a fresh
+ * record instead of "breaking" one measured a different way.
+ */
+export async function saveLeagueRecordDefinition(
+  db: Db,
+  input: {
+    actorUserId: string;
+    definition: CustomRecordDefinition;
+    leagueId: string;
+    reason?: string;
+  },
+): Promise<Result<LeagueRecordDefinitionChange, AppError>> {
+  const invalid = validateDefinition(input.definition);
+  if (invalid) {
+    return err(invalid);
+  }
+
+  try {
+    const saved = await withLeagueContext(db, input.leagueId, async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(leagueRecordDefinitions)
+        .where(
+          and(
+            eq(leagueRecordDefinitions.leagueId, input.leagueId),
+            eq(leagueRecordDefinitions.recordKey, input.definition.recordKey),
+          ),
+        )
+        .limit(1);
+
+      const now = new Date();
+      const values = {
+        aggregation: input.definition.aggregation,
+        description: input.definition.description,
+        direction: input.definition.direction,
+        filters: input.definition.filters,
+        label: input.definition.label,
+        metric: input.definition.metric,
+        scope: input.definition.scope,
+        segment: input.definition.segment,
+        status: "active" as const,
+        updatedAt: now,
+        updatedByUserId: input.actorUserId,
+      };
+      const [row] = before
+        ? await tx
+            .update(leagueRecordDefinitions)
+            .set(values)
+            .where(eq(leagueRecordDefinitions.id, before.id))
+            .returning()
+        : await tx
+            .insert(leagueRecordDefinitions)
+            .values({
+              ...values,
+              createdByUserId: input.actorUserId,
+              leagueId: input.leagueId,
+              recordKey: input.definition.recordKey,
+            })
+            .returning();
+      if (!row) {
+        throw new Error("record definition was not saved");
+      }
+
+      if (
+        before &&
+        evaluationChanged(toCustomRecordDefinition(before), input.definition)
+      ) {
+        await tx
+          .delete(allTimeRecords)
+          .where(
+            and(
+              eq(allTimeRecords.leagueId, input.leagueId),
+              eq(allTimeRecords.recordType, customRecordType(row.recordKey)),
+            ),
+          );
+      }
+
+      const [edit] = await tx
+        .insert(leagueDataEdits)
+        .values({
+          actorUserId: input.actorUserId,
+          afterValue: toCustomRecordDefinition(row),
+          beforeValue: before
+            ? { ...toCustomRecordDefinition(before), status: before.status }
+            : null,
+          editClass: "substantive",
+          field: before
+            ? "record_definition_update"
+            : "record_definition_create",
+          leagueId: input.leagueId,
+          reason:
+            input.reason ??
+            (before ? "updated house record" : "created house record"),
+          targetId: row.id,
+          targetKind: "record_definition",
+        })
+        .returning({ id: leagueDataEdits.id });
+      if (!edit) {
+        throw new Error("record definition ledger entry was not written");
+      }
+
+      return { edit, row };
+    });
+
+    const refreshed = await refreshLeagueRecords(db, {
+      leagueId: input.leagueId,
+    });
+    return ok({
+      definition: toSummary(saved.row),
+      ledgerEntryId: saved.edit.id,
+      records: refreshed.records,
+    });
+  } catch (error) {
+    return err(
+      toAppError(error, {
+        code: "RECORD_DEFINITION_SAVE_FAILED",
+        message: "Record definition could not be saved",
+      }),
+    );
+  }
+}
+
+/**
+ * Retires a house record. The definition row stays for the ledger; its
+ * `all_time_record` rows are removed by the refresh because an archived
+ * definition no longer produces candidates.
+ */
+export async function archiveLeagueRecordDefinition(
+  db: Db,
+  input: {
+    actorUserId: string;
+    leagueId: string;
+    reason?: string;
+    recordKey: string;
+  },
+): Promise<Result<LeagueRecordDefinitionChange, AppError>> {
+  try {
+    const archived = await withLeagueContext(db, input.leagueId, async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(leagueRecordDefinitions)
+        .where(
+          and(
+            eq(leagueRecordDefinitions.leagueId, input.leagueId),
+            eq(leagueRecordDefinitions.recordKey, input.recordKey),
+          ),
+        )
+        .limit(1);
+      if (!before) {
+        throw definitionNotFoundError();
+      }
+
+      const [row] = await tx
+        .update(leagueRecordDefinitions)
+        .set({
+          status: "archived",
+          updatedAt: new Date(),
+          updatedByUserId: input.actorUserId,
+        })
+        .where(eq(leagueRecordDefinitions.id, before.id))
+        .returning();
+      if (!row) {
+        throw new Error("record definition was not archived");
+      }
+
+      const [edit] = await tx
+        .insert(leagueDataEdits)
+        .values({
+          actorUserId: input.actorUserId,
+          afterValue: { status: row.status },
+          beforeValue: { status: before.status },
+          editClass: "substantive",
+          field: "record_definition_archive",
+          leagueId: input.leagueId,
+          reason: input.reason ?? "archived house record",
+          targetId: row.id,
+          targetKind: "record_definition",
+        })
+        .returning({ id: leagueDataEdits.id });
+      if (!edit) {
+        throw new Error("record definition ledger entry was not written");
+      }
+
+      return { edit, row };
+    });
+
+    const refreshed = await refreshLeagueRecords(db, {
+      leagueId: input.leagueId,
+    });
+    return ok({
+      definition: toSummary(archived.row),
+      ledgerEntryId: archived.edit.id,
+      records: refreshed.records,
+    });
+  } catch (error) {
+    return err(
+      toAppError(error, {
+        code: "RECORD_DEFINITION_ARCHIVE_FAILED",
+        message: "Record definition could not be archived",
+      }),
+    );
+  }
+}
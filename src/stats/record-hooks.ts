@@ -1,9 +1,12 @@
 import { and, eq } from "drizzle-orm";
+import { logger } from "@/core/logging";
 import type { Db } from "@/db/client";
 import { withLeagueContext } from "@/db/rls";
 import { loreVerifications } from "@/db/schema";
 import { submitLoreClaim } from "@/lore";
 import type { RealtimePublisher } from "@/realtime";
+import type { WebhookDeliverer } from "@/webhooks";
+import { isCustomRecordType } from "./custom-records";
 import type { RecordBrokenHook } from "./engine";
 
 export interface RecordBrokenLoreHookResult {
@@ -13,14 +16,22 @@ export interface RecordBrokenLoreHookResult {
   verification: "verified" | "refuted" | "unverifiable" | "n_a";
 }
 
-function titleForRecordType(recordType: string): string {
-  return `Record book update: ${recordType.replaceAll("_", " ")}`;
+// House records are named by the league, so their label is the only
+// readable name; built-in types keep their historical snake_case phrasing.
+function recordNameForHook(hook: RecordBrokenHook): string {
+  return isCustomRecordType(hook.recordType)
+    ? hook.label
+    : hook.recordType.replaceAll("_", " ");
+}
+
+function titleForHook(hook: RecordBrokenHook): string {
+  return `Record book update: ${recordNameForHook(hook)}`;
 }
 
 function bodyForHook(hook: RecordBrokenHook): string {
   const week = hook.scoringPeriod ? ` Week ${hook.scoringPeriod}` : "";
   const season = hook.season ? ` in ${hook.season}` : "";
-  return `${hook.recordType.replaceAll("_", " ")} is now ${hook.value}${season}${week}.`;
+  return `${recordNameForHook(hook)} is now ${hook.value}${season}${week}.`;
 }
 
 async function hasRecordLoreVerification({
@@ -103,7 +114,7 @@ export async function seedRecordBrokenLoreHooks({
             week: hook.scoringPeriod,
           },
         ],
-        title: titleForRecordType(hook.recordType),
+        title: titleForHook(hook),
       },
     });
 
@@ -117,3 +128,45 @@ export async function seedRecordBrokenLoreHooks({
 
   return seeded;
 }
+
+/**
+ * Announces each broken record to the league's webhooks. Keyed on the new
+ * record row, so a replayed sync that re-reports the same hook is a no-op per
+ * webhook. Unlike the lore seed, hooks without a holder still go out: the
+ * group chat cares that the book changed even when nobody is mapped yet.
+ */
+export async function deliverRecordBrokenWebhooks({
+  hooks,
+  leagueId,
+  webhooks,
+}: {
+  hooks: readonly RecordBrokenHook[];
+  leagueId: string;
+  webhooks: WebhookDeliverer;
+}): Promise<void> {
+  for (const hook of hooks) {
+    try {
+      await webhooks.deliverLeagueEvent({
+        event: {
+          data: {
+            allTimeRecordId: hook.allTimeRecordId,
+            label: recordNameForHook(hook),
+            recordType: hook.recordType,
+            scoringPeriod: hook.scoringPeriod,
+            season: hook.season,
+            value: hook.value,
+          },
+          key: hook.allTimeRecordId,
+          type: "record.broken",
+        },
+        leagueId,
+      });
+    } catch (error) {
+      logger.warn("Webhook record-broken delivery failed", {
+        allTimeRecordId: hook.allTimeRecordId,
+        error,
+        leagueId,
+      });
+    }
+  }
+}
@@ -16,6 +16,15 @@ import {
   seasonStatistics,
   weeklyStatistics,
 } from "@/db/schema";
+import {
+  buildCustomRecordCatalog,
+  type CustomRecordCatalogEntry,
+  type CustomRecordDefinition,
+  type CustomRecordStarterInput,
+  customRecordUsesStarterPositions,
+  loadActiveCustomRecordDefinitions,
+  loadCustomRecordStarterRows,
+} from "./custom-records";
 import type { RecordType } from "./engine";
 
 const DEFAULT_CATALOG_LIMIT = 10;
@@ -300,14 +309,50 @@ export interface PlayerRecordsCatalog {
   positionalBests: Record<PlayerPositionCategory, PlayerWeekCatalogEntry[]>;
 }
 
+/** A settled trade with each side mapped to its manager. */
+export interface TradeRecordInput {
+  fantasyTransactionId: string;
+  margin: number;
+  scoringPeriod: number | null;
+  season: number;
+  sides: { personId: string; points: number }[];
+  winnerPersonId: string | null;
+}
+
+export interface TradeCareerCatalogEntry extends PersonCatalogRef {
+  losses: number;
+  /** Points received minus the best other side's points, summed per trade. */
+  netPoints: number;
+  pushes: number;
+  trades: number;
+  winPercentage: number;
+  wins: number;
+}
+
+export interface TradeCatalogEntry {
+  fantasyTransactionId: string;
+  loser: PersonCatalogRef | null;
+  margin: number;
+  scoringPeriod: number | null;
+  season: number;
+  winner: PersonCatalogRef;
+}
+
+export interface TradeRecordsCatalog {
+  careerRecords: TradeCareerCatalogEntry[];
+  lopsidedTrades: TradeCatalogEntry[];
+}
+
 export type RecordsCategoryId =
   | "achievements"
   | "all-time"
   | "head-to-head"
+  | "house"
   | "lowlights"
   | "players"
   | "playoff"
-  | "regular-season";
+  | "regular-season"
+  | "trades";
 
 export interface RecordCategoryDefinition {
   anchorId: RecordsCategoryId;
@@ -348,6 +393,12 @@ export const RECORD_CATEGORY_REGISTRY = [
     id: "players",
     label: "Players",
   },
+  {
+    anchorId: "trades",
+    description: "Career trade records and the most lopsided deals.",
+    id: "trades",
+    label: "Trades",
+  },
   {
     anchorId: "achievements",
     description: "High marks, titles, streaks, and top-scoring weeks.",
@@ -360,6 +411,12 @@ export const RECORD_CATEGORY_REGISTRY = [
     id: "lowlights",
     label: "Lowlights",
   },
+  {
+    anchorId: "house",
+    description: "League-defined records set by the commissioner.",
+    id: "house",
+    label: "House",
+  },
 ] as const satisfies readonly RecordCategoryDefinition[];
 
 export interface SegmentStandingCatalogRow extends PersonCatalogRef {
@@ -462,6 +519,8 @@ export interface RecordsCatalog {
     managerRecords: ManagerChampionshipRecord[];
     seasons: ChampionshipSeasonCatalogEntry[];
   };
+  /** League-defined ("house") records, one leaderboard per definition. */
+  customRecords: CustomRecordCatalogEntry[];
   headToHead: {
     allTimePairs: HeadToHeadPairCatalogEntry[];
     longestStreaks: HeadToHeadStreakCatalogEntry[];
@@ -487,6 +546,7 @@ export interface RecordsCatalog {
     longestLosses: StreakCatalogEntry[];
     longestWins: StreakCatalogEntry[];
   };
+  trades: TradeRecordsCatalog;
 }
 
 export interface RecordBookAggregateRefreshSummary {
@@ -1588,6 +1648,7 @@ function emptyRecordsCatalog(integrityBlocked: boolean): RecordsCatalog {
       narrowestWins: [],
     },
     championships: { managerRecords: [], seasons: [] },
+    customRecords: [],
     headToHead: {
       allTimePairs: [],
       longestStreaks: [],
@@ -1622,6 +1683,7 @@ function emptyRecordsCatalog(integrityBlocked: boolean): RecordsCatalog {
     players: emptyPlayerRecordsCatalog(),
     regularSeason: emptySegmentRecordSet(),
     streaks: { longestLosses: [], longestWins: [] },
+    trades: { careerRecords: [], lopsidedTrades: [] },
   };
 }
 
@@ -2919,6 +2981,107 @@ function buildPlayerRecordsCatalog({
   };
 }
 
+function buildTradeRecordsCatalog({
+  lens,
+  limit,
+  personNames,
+  tradeRows,
+}: {
+  lens?: RecordBookLens;
+  limit: number;
+  personNames: ReadonlyMap<string, string>;
+  tradeRows: readonly TradeRecordInput[];
+}): TradeRecordsCatalog {
+  const seasons = lensSeasonSet(lens);
+  const scoped = seasons
+    ? tradeRows.filter((row) => seasons.has(row.season))
+    : tradeRows;
+  const careers = new Map<string, TradeCareerCatalogEntry>();
+  const lopsidedTrades: TradeCatalogEntry[] = [];
+
+  for (const trade of scoped) {
+    for (const side of trade.sides) {
+      const bestOther = Math.max(
+        ...trade.sides
+          .filter((other) => other.personId !== side.personId)
+          .map((other) => other.points),
+      );
+      if (!Number.isFinite(bestOther)) {
+        continue;
+      }
+      const career = careers.get(side.personId) ?? {
+        losses: 0,
+        netPoints: 0,
+        personId: side.personId,
+        personName: personName(personNames, side.personId),
+        pushes: 0,
+        trades: 0,
+        winPercentage: 0,
+        wins: 0,
+      };
+      career.trades += 1;
+      career.netPoints += side.points - bestOther;
+      if (trade.winnerPersonId === null) {
+        career.pushes += 1;
+      } else if (trade.winnerPersonId === side.personId) {
+        career.wins += 1;
+      } else {
+        career.losses += 1;
+      }
+      careers.set(side.personId, career);
+    }
+
+    if (!trade.winnerPersonId) {
+      continue;
+    }
+    const winner = personRef(personNames, trade.winnerPersonId);
+    if (!winner) {
+      continue;
+    }
+    const loser = [...trade.sides]
+      .filter((side) => side.personId !== trade.winnerPersonId)
+      .sort((left, right) => right.points - left.points)[0];
+    lopsidedTrades.push({
+      fantasyTransactionId: trade.fantasyTransactionId,
+      loser: personRef(personNames, loser?.personId ?? null),
+      margin: round(trade.margin, 2),
+      scoringPeriod: trade.scoringPeriod,
+      season: trade.season,
+      winner,
+    });
+  }
+
+  const careerRecords = [...careers.values()]
+    .map((career) => ({
+      ...career,
+      netPoints: round(career.netPoints, 2),
+      winPercentage: round(
+        (career.wins + career.pushes * 0.5) / career.trades,
+        4,
+      ),
+    }))
+    .sort(
+      (left, right) =>
+        right.wins - left.wins ||
+        right.winPercentage - left.winPercentage ||
+        right.netPoints - left.netPoints ||
+        compareStable(left.personName, right.personName),
+    )
+    .slice(0, limit);
+
+  return {
+    careerRecords,
+    lopsidedTrades: lopsidedTrades
+      .sort(
+        (left, right) =>
+          right.margin - left.margin ||
+          right.season - left.season ||
+          compareStable(left.fantasyTransactionId, right.fantasyTransactionId),
+      )
+      .slice(0, limit),
+  };
+}
+
 function stableJson(value: unknown): string {
   if (Array.isArray(value)) {
     return `[${value.map(stableJson).join(",")}]`;
@@ -3393,6 +3556,9 @@ export async function refreshRecordBookAggregates(
 export function buildRecordsCatalog(input: {
   allTimeStandingRows?: readonly RecordBookAllTimeStandingRow[];
   championshipRows?: readonly ChampionshipRecordRow[];
+  customRecordDefinitions?: readonly CustomRecordDefinition[];
+  /** Started-lineup rows for house records; defaults to `playerWeekRows`. */
+  customRecordStarterRows?: readonly CustomRecordStarterInput[];
   headToHeadRows?: readonly HeadToHeadRecordRow[];
   lens?: RecordBookLens;
   limit?: number;
@@ -3401,6 +3567,8 @@ export function buildRecordsCatalog(input: {
   playerDraftRows?: readonly PlayerDraftRecordInput[];
   playerWeekRows?: readonly PlayerWeekRecordInput[];
   seasonRows: readonly SeasonStatisticsRow[];
+  /** Settled trades from the trade analyzer, already mapped to managers. */
+  tradeRows?: readonly TradeRecordInput[];
   weeklyRows: readonly WeeklyStatisticsRow[];
 }): RecordsCatalog {
   const limit = input.limit ?? DEFAULT_CATALOG_LIMIT;
@@ -3549,6 +3717,14 @@ export function buildRecordsCatalog(input: {
       ),
     },
     championships,
+    customRecords: buildCustomRecordCatalog({
+      definitions: input.customRecordDefinitions ?? [],
+      limit,
+      personNames: input.personNames,
+      seasonFinishes: input.seasonRows,
+      starterRows: input.customRecordStarterRows ?? input.playerWeekRows ?? [],
+      weeklyRows,
+    }),
     headToHead,
     highLow: {
       bestScoresInLosses: weeklyTop(
@@ -3610,6 +3786,12 @@ export function buildRecordsCatalog(input: {
     }),
     regularSeason,
     streaks,
+    trades: buildTradeRecordsCatalog({
+      lens: input.lens,
+      limit,
+      personNames: input.personNames,
+      tradeRows: input.tradeRows ?? [],
+    }),
   };
 }
 
@@ -3689,6 +3871,15 @@ export async function getLeagueRecordsCatalog(
         asc(weeklyStatistics.matchupId),
         asc(weeklyStatistics.personId),
       );
+    const customRecordDefinitions = await loadActiveCustomRecordDefinitions(
+      tx,
+      input.leagueId,
+    );
+    const customRecordStarterRows = customRecordUsesStarterPositions(
+      customRecordDefinitions,
+    )
+      ? await loadCustomRecordStarterRows(tx, input.leagueId)
+      : [];
     const lens = { ...(input.lens ?? {}) };
     if (lens.groupingId) {
       const [confirmedGrouping] = await tx
@@ -3722,6 +3913,8 @@ export async function getLeagueRecordsCatalog(
     return buildRecordsCatalog({
       allTimeStandingRows,
       championshipRows,
+      customRecordDefinitions,
+      customRecordStarterRows,
       headToHeadRows,
       lens,
       limit: input.limit,
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildScheduleLuck,
+  buildSeasonScheduleLuck,
+  formatScheduleLuckRecord,
+  type ScheduleLuckWeekRow,
+} from "./schedule-luck";
+
+function game(
+  scoringPeriod: number,
+  home: [string, number],
+  away: [string, number],
+  overrides: Partial<ScheduleLuckWeekRow> = {},
+): ScheduleLuckWeekRow[] {
+  const base = {
+    isPlayoff: false,
+    matchupKind: "head_to_head" as const,
+    periodStart: scoringPeriod,
+    scoringPeriod,
+    season: 2025,
+    ...overrides,
+  };
+  return [
+    {
+      ...base,
+      opponentPersonId: away[0],
+      personId: home[0],
+      pointsFor: home[1],
+      result: home[1] > away[1] ? "win" : "loss",
+    },
+    {
+      ...base,
+      opponentPersonId: home[0],
+      personId: away[0],
+      pointsFor: away[1],
+      result: away[1] > home[1] ? "win" : "loss",
+    },
+  ];
+}
+
+const rows: ScheduleLuckWeekRow[] = [
+  ...game(1, ["alpha", 100], ["bravo", 90]),
+  ...game(1, ["charlie", 80], ["delta", 70]),
+  ...game(2, ["alpha", 60], ["delta", 65]),
+  ...game(2, ["bravo", 95], ["charlie", 110]),
+  // Playoff rounds and other seasons stay out of the regular-season view.
+  ...game(3, ["alpha", 150], ["bravo", 10], { isPlayoff: true }),
+  ...game(1, ["alpha", 1], ["bravo", 2], { season: 2024 }),
+];
+
+describe("buildSeasonScheduleLuck", () => {
+  it("compares head-to-head records with all-play and median standings", () => {
+    const luck = buildSeasonScheduleLuck(rows, 2025);
+
+    expect(luck?.weeks).toBe(2);
+    expect(
+      luck?.standings.map((row) => ({
+        actual: formatScheduleLuckRecord(row.actual),
+        allPlay: formatScheduleLuckRecord(row.allPlay),
+        expectedWins: row.expectedWins,
+        luck: row.luck,
+        median: formatScheduleLuckRecord(row.median),
+        medianStandings: formatScheduleLuckRecord(row.medianStandings),
+        personId: row.personId,
+      })),
+    ).toEqual([
+      {
+        actual: "2-0-0",
+        allPlay: "4-2-0",
+        expectedWins: 1.33,
+        luck: 0.67,
+        median: "1-1-0",
+        medianStandings: "3-1-0",
+        personId: "charlie",
+      },
+      {
+        actual: "1-1-0",
+        allPlay: "1-5-0",
+        expectedWins: 0.33,
+        luck: 0.67,
+        median: "0-2-0",
+        medianStandings: "1-3-0",
+        personId: "delta",
+      },
+      {
+        actual: "1-1-0",
+        allPlay: "3-3-0",
+        expectedWins: 1,
+        luck: 0,
+        median: "1-1-0",
+        medianStandings: "2-2-0",
+        personId: "alpha",
+      },
+      {
+        actual: "0-2-0",
+        allPlay: "4-2-0",
+        expectedWins: 1.33,
+        luck: -1.33,
+        median: "2-0-0",
+        medianStandings: "2-2-0",
+        personId: "bravo",
+      },
+    ]);
+  });
+
+  it("replays each team on every other team's schedule", () => {
+    const luck = buildSeasonScheduleLuck(rows, 2025);
+    const bravo = luck?.swapMatrix.find((row) => row.personId === "bravo");
+
+    expect(luck?.swapMatrix.map((row) => row.personId)).toEqual([
+      "charlie",
+      "alpha",
+      "delta",
+      "bravo",
+    ]);
+    expect(
+      bravo?.schedules.map((cell) => [
+        cell.scheduleOwnerPersonId,
+        formatScheduleLuckRecord(cell.record),
+      ]),
+    ).toEqual([
+      ["charlie", "1-1-0"],
+      ["alpha", "1-1-0"],
+      ["delta", "2-0-0"],
+      ["bravo", "0-2-0"],
+    ]);
+    expect(
+      luck?.standings.find((row) => row.personId === "bravo")
+        ?.scheduleSwapAverageWins,
+    ).toBe(1);
+  });
+
+  it("skips byes and returns null for a season without games", () => {
+    const withBye = buildSeasonScheduleLuck(
+      [
+        ...rows,
+        {
+          isPlayoff: false,
+          matchupKind: "head_to_head",
+          opponentPersonId: null,
+          periodStart: 3,
+          personId: "echo",
+          pointsFor: 200,
+          result: "bye",
+          scoringPeriod: 3,
+          season: 2025,
+        },
+      ],
+      2025,
+    );
+
+    expect(withBye?.standings.map((row) => row.personId)).not.toContain("echo");
+    expect(buildSeasonScheduleLuck(rows, 2019)).toBeNull();
+    expect(buildScheduleLuck(rows).map((row) => row.season)).toEqual([
+      2025, 2024,
+    ]);
+  });
+});
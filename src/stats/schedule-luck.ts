@@ -0,0 +1,280 @@
+import { and, eq } from "drizzle-orm";
+import type { LeagueScopedTx } from "@/db/rls";
+import { weeklyStatistics } from "@/db/schema";
+import {
+  compareStable,
+  median,
+  round,
+  type WeeklyStatisticsRow,
+} from "./canon-catalog";
+
+// Schedule luck. Head-to-head fantasy rewards whoever you happened to draw
+// that week; the alternate standings here strip that out three ways:
+//   - all-play: every team plays every other team every week;
+//   - median: every team also plays the week's median score;
+//   - schedule swap: every team replays the season on every other team's
+//     schedule (when the swapped schedule meets the team itself, it plays the
+//     schedule's owner instead).
+// Only regular-season head-to-head weeks count; byes and playoff rounds are
+// left out so every team's sample is the same.
+
+export type ScheduleLuckWeekRow = Pick<
+  WeeklyStatisticsRow,
+  | "isPlayoff"
+  | "matchupKind"
+  | "opponentPersonId"
+  | "periodStart"
+  | "personId"
+  | "pointsFor"
+  | "result"
+  | "scoringPeriod"
+  | "season"
+>;
+
+export interface ScheduleLuckRecord {
+  losses: number;
+  ties: number;
+  wins: number;
+}
+
+export interface ScheduleLuckStanding {
+  actual: ScheduleLuckRecord;
+  allPlay: ScheduleLuckRecord;
+  allPlayWinPercentage: number;
+  /** Wins the team's scores earn against an average schedule. */
+  expectedWins: number;
+  /** Actual wins (ties as half) minus expected wins. */
+  luck: number;
+  median: ScheduleLuckRecord;
+  /** Head-to-head record plus the weekly game against the median. */
+  medianStandings: ScheduleLuckRecord;
+  personId: string;
+  pointsFor: number;
+  /** Mean wins across every team's schedule, the team's own included. */
+  scheduleSwapAverageWins: number;
+}
+
+export interface ScheduleSwapRow {
+  personId: string;
+  /** One record per schedule owner, in the same order as the matrix rows. */
+  schedules: Array<{
+    record: ScheduleLuckRecord;
+    scheduleOwnerPersonId: string;
+  }>;
+}
+
+export interface SeasonScheduleLuck {
+  season: number;
+  /** Sorted luckiest first. */
+  standings: ScheduleLuckStanding[];
+  /** Rows and columns both ordered by actual standing. */
+  swapMatrix: ScheduleSwapRow[];
+  weeks: number;
+}
+
+interface ScheduleLuckWeek {
+  opponents: Map<string, string | null>;
+  scores: Map<string, number>;
+}
+
+function emptyRecord(): ScheduleLuckRecord {
+  return { losses: 0, ties: 0, wins: 0 };
+}
+
+function tally(record: ScheduleLuckRecord, score: number, other: number) {
+  if (score > other) {
+    record.wins += 1;
+  } else if (score < other) {
+    record.losses += 1;
+  } else {
+    record.ties += 1;
+  }
+}
+
+export function scheduleLuckWinPercentage(record: ScheduleLuckRecord): number {
+  const games = record.wins + record.losses + record.ties;
+  return games > 0 ? round((record.wins + record.ties * 0.5) / games, 4) : 0;
+}
+
+export function formatScheduleLuckRecord(record: ScheduleLuckRecord): string {
+  return `${record.wins}-${record.losses}-${record.ties}`;
+}
+
+function seasonWeeks(
+  rows: readonly ScheduleLuckWeekRow[],
+  season: number,
+): ScheduleLuckWeek[] {
+  const byWindow = new Map<number, ScheduleLuckWeek>();
+  for (const row of rows) {
+    if (
+      row.season !== season ||
+      row.isPlayoff ||
+      row.result === "bye" ||
+      row.matchupKind !== "head_to_head"
+    ) {
+      continue;
+    }
+    const window = row.periodStart ?? row.scoringPeriod;
+    const week = byWindow.get(window) ?? {
+      opponents: new Map(),
+      scores: new Map(),
+    };
+    if (!week.scores.has(row.personId)) {
+      week.scores.set(row.personId, row.pointsFor);
+      week.opponents.set(row.personId, row.opponentPersonId);
+    }
+    byWindow.set(window, week);
+  }
+  return [...byWindow.entries()]
+    .sort((left, right) => left[0] - right[0])
+    .map(([, week]) => week);
+}
+
+function swapRecord(
+  weeks: readonly ScheduleLuckWeek[],
+  personId: string,
+  scheduleOwnerPersonId: string,
+): ScheduleLuckRecord {
+  const record = emptyRecord();
+  for (const week of weeks) {
+    const score = week.scores.get(personId);
+    if (score === undefined || !week.scores.has(scheduleOwnerPersonId)) {
+      continue;
+    }
+    const drawn = week.opponents.get(scheduleOwnerPersonId) ?? null;
+    const opponent = drawn === personId ? scheduleOwnerPersonId : drawn;
+    const opponentScore = opponent ? week.scores.get(opponent) : undefined;
+    if (opponentScore !== undefined) {
+      tally(record, score, opponentScore);
+    }
+  }
+  return record;
+}
+
+/** Alternate-reality standings for one season, or null without games. */
+export function buildSeasonScheduleLuck(
+  rows: readonly ScheduleLuckWeekRow[],
+  season: number,
+): SeasonScheduleLuck | null {
+  const weeks = seasonWeeks(rows, season);
+  const personIds = [
+    ...new Set(weeks.flatMap((week) => [...week.scores.keys()])),
+  ].sort(compareStable);
+  if (personIds.length === 0) {
+    return null;
+  }
+
+  const standings = personIds.map((personId): ScheduleLuckStanding => {
+    const actual = swapRecord(weeks, personId, personId);
+    const allPlay = emptyRecord();
+    const medianRecord = emptyRecord();
+    let expectedWins = 0;
+    let pointsFor = 0;
+    for (const week of weeks) {
+      const score = week.scores.get(personId);
+      if (score === undefined) {
+        continue;
+      }
+      pointsFor += score;
+      const weekRecord = emptyRecord();
+      for (const [otherPersonId, otherScore] of week.scores) {
+        if (otherPersonId !== personId) {
+          tally(weekRecord, score, otherScore);
+        }
+      }
+      allPlay.wins += weekRecord.wins;
+      allPlay.losses += weekRecord.losses;
+      allPlay.ties += weekRecord.ties;
+      const opponents = week.scores.size - 1;
+      expectedWins +=
+        opponents > 0
+          ? (weekRecord.wins + weekRecord.ties * 0.5) / opponents
+          : 0;
+      tally(medianRecord, score, median([...week.scores.values()]));
+    }
+    const scheduleWins = personIds.map(
+      (ownerPersonId) => swapRecord(weeks, personId, ownerPersonId).wins,
+    );
+    return {
+      actual,
+      allPlay,
+      allPlayWinPercentage: scheduleLuckWinPercentage(allPlay),
+      expectedWins: round(expectedWins, 2),
+      luck: round(actual.wins + actual.ties * 0.5 - expectedWins, 2),
+      median: medianRecord,
+      medianStandings: {
+        losses: actual.losses + medianRecord.losses,
+        ties: actual.ties + medianRecord.ties,
+        wins: actual.wins + medianRecord.wins,
+      },
+      personId,
+      pointsFor: round(pointsFor, 2),
+      scheduleSwapAverageWins: round(
+        scheduleWins.reduce((total, wins) => total + wins, 0) /
+          scheduleWins.length,
+        2,
+      ),
+    };
+  });
+
+  const byActual = [...standings].sort(
+    (left, right) =>
+      scheduleLuckWinPercentage(right.actual) -
+        scheduleLuckWinPercentage(left.actual) ||
+      right.pointsFor - left.pointsFor ||
+      compareStable(left.personId, right.personId),
+  );
+
+  return {
+    season,
+    standings: [...standings].sort(
+      (left, right) =>
+        right.luck - left.luck || compareStable(left.personId, right.personId),
+    ),
+    swapMatrix: byActual.map((row) => ({
+      personId: row.personId,
+      schedules: byActual.map((owner) => ({
+        record: swapRecord(weeks, row.personId, owner.personId),
+        scheduleOwnerPersonId: owner.personId,
+      })),
+    })),
+    weeks: weeks.length,
+  };
+}
+
+/** Every season in `rows`, newest first. */
+export function buildScheduleLuck(
+  rows: readonly ScheduleLuckWeekRow[],
+): SeasonScheduleLuck[] {
+  return [...new Set(rows.map((row) => row.season))]
+    .sort((left, right) => right - left)
+    .map((season) => buildSeasonScheduleLuck(rows, season))
+    .filter((row): row is SeasonScheduleLuck => row !== null);
+}
+
+/** One season from the engine's weekly statistics, for generation context. */
+export async function loadScheduleLuck(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; season: number },
+): Promise<SeasonScheduleLuck | null> {
+  const rows = await tx
+    .select({
+      isPlayoff: weeklyStatistics.isPlayoff,
+      matchupKind: weeklyStatistics.matchupKind,
+      opponentPersonId: weeklyStatistics.opponentPersonId,
+      periodStart: weeklyStatistics.periodStart,
+      personId: weeklyStatistics.personId,
+      pointsFor: weeklyStatistics.pointsFor,
+      result: weeklyStatistics.result,
+      scoringPeriod: weeklyStatistics.scoringPeriod,
+      season: weeklyStatistics.season,
+    })
+    .from(weeklyStatistics)
+    .where(
+      and(
+        eq(weeklyStatistics.leagueId, input.leagueId),
+        eq(weeklyStatistics.season, input.season),
+      ),
+    );
+  return buildSeasonScheduleLuck(rows, input.season);
+}
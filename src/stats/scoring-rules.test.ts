@@ -0,0 +1,245 @@
+import { describe, expect, it } from "vitest";
+import type { WeeklyStatisticsRow } from "./canon-catalog";
+import {
+  emptyScoringStatLine,
+  rescorePlayerPoints,
+  rescoreWeeklyRows,
+  SCORING_PRESETS,
+  type ScoringStatLine,
+  scoreStatLine,
+  scoringDeltaKey,
+  scoringRulesFromSettings,
+  statLineFromBreakdowns,
+} from "./scoring-rules";
+
+function statLine(overrides: Partial<ScoringStatLine>): ScoringStatLine {
+  return { ...emptyScoringStatLine(), ...overrides };
+}
+
+function weeklyRow(
+  personId: string,
+  opponentPersonId: string,
+  pointsFor: number,
+  pointsAgainst: number,
+  overrides: Partial<WeeklyStatisticsRow> = {},
+): WeeklyStatisticsRow {
+  return {
+    createdAt: new Date(0),
+    id: `${personId}-week-1`,
+    isBottomScorer: false,
+    isChampionship: false,
+    isPlayoff: false,
+    isTopScorer: false,
+    leagueId: "league",
+    margin: pointsFor - pointsAgainst,
+    matchupId: "matchup-1",
+    matchupKind: "head_to_head",
+    opponentPersonId,
+    periodStart: 1,
+    personId,
+    pointsAgainst,
+    pointsFor,
+    result: pointsFor > pointsAgainst ? "win" : "loss",
+    scoringPeriod: 1,
+    scoringPeriodSpan: 1,
+    season: 2015,
+    teamSeasonId: `${personId}-2015`,
+    updatedAt: new Date(0),
+    weeklyRank: 0,
+    ...overrides,
+  };
+}
+
+describe("scoringRulesFromSettings", () => {
+  it("reads ESPN and Sleeper scoring items into the same rules", () => {
+    const espn = scoringRulesFromSettings({
+      scoringItems: [
+        { points: 0.04, statId: 3, statKey: "passingYards" },
+        { points: 1, statId: 53, statKey: "receivingReceptions" },
+        { points: 6, statId: 43, statKey: "receivingTouchdowns" },
+        { points: 9, statId: 22, statKey: "passingYards" },
+      ],
+    });
+    const sleeper = scoringRulesFromSettings({
+      scoringItems: [
+        { points: 0.04, statId: 1, statKey: "pass_yd" },
+        { points: 1, statId: 2, statKey: "rec" },
+        { points: 6, statId: 3, statKey: "rec_td" },
+      ],
+    });
+
+    expect(espn).toMatchObject({
+      passingYards: 0.04,
+      receivingTouchdowns: 6,
+      receptions: 1,
+      rushingYards: 0,
+    });
+    expect(sleeper).toEqual(espn);
+  });
+
+  it("returns null when no scoring item maps to a re-scored stat", () => {
+    expect(scoringRulesFromSettings({})).toBeNull();
+    expect(
+      scoringRulesFromSettings({
+        scoringItems: [{ points: 3, statKey: "madeFieldGoals" }],
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("scoreStatLine", () => {
+  it("scores a box score under each preset", () => {
+    const line = statLine({
+      receivingYards: 87,
+      receptions: 6,
+      rushingTouchdowns: 1,
+    });
+
+    expect(scoreStatLine(line, SCORING_PRESETS.standard.rules)).toBe(14.7);
+    expect(scoreStatLine(line, SCORING_PRESETS.half_ppr.rules)).toBe(17.7);
+    expect(scoreStatLine(line, SCORING_PRESETS.ppr.rules)).toBe(20.7);
+  });
+
+  it("folds provider stat breakdowns into a line", () => {
+    expect(
+      statLineFromBreakdowns([
+        { statKey: "receivingReceptions", statValue: 6 },
+        { statKey: "receivingYards", statValue: 87 },
+        { statKey: "fumblesLost", statValue: 1 },
+      ]),
+    ).toEqual(statLine({ receivingYards: 87, receptions: 6 }));
+    expect(
+      statLineFromBreakdowns([{ statKey: "fumblesLost", statValue: 1 }]),
+    ).toBeNull();
+  });
+});
+
+describe("rescorePlayerPoints", () => {
+  const line = statLine({ receivingYards: 50, receptions: 5 });
+
+  it("applies only the rule difference to the provider's points", () => {
+    // 5 yardage points plus a 2-point bonus the rules don't cover.
+    expect(
+      rescorePlayerPoints({
+        baseRules: SCORING_PRESETS.standard.rules,
+        line,
+        points: 7,
+        rules: SCORING_PRESETS.ppr.rules,
+      }),
+    ).toBe(12);
+  });
+
+  it("scores the box score alone without league rules, and keeps points without stats", () => {
+    expect(
+      rescorePlayerPoints({
+        baseRules: null,
+        line,
+        points: 7,
+        rules: SCORING_PRESETS.half_ppr.rules,
+      }),
+    ).toBe(7.5);
+    expect(
+      rescorePlayerPoints({
+        baseRules: SCORING_PRESETS.standard.rules,
+        line: null,
+        points: 9,
+        rules: SCORING_PRESETS.ppr.rules,
+      }),
+    ).toBe(9);
+  });
+});
+
+describe("rescoreWeeklyRows", () => {
+  it("re-derives points against, results and ranks from the changed scores", () => {
+    const rows = [
+      weeklyRow("alpha", "bravo", 100, 95),
+      weeklyRow("bravo", "alpha", 95, 100),
+    ];
+
+    const rescored = rescoreWeeklyRows(
+      rows,
+      new Map([
+        [
+          scoringDeltaKey({
+            personId: "bravo",
+            scoringPeriod: 1,
+            season: 2015,
+          }),
+          12,
+        ],
+      ]),
+    );
+
+    expect(
+      rescored.map((row) => ({
+        isTopScorer: row.isTopScorer,
+        margin: row.margin,
+        personId: row.personId,
+        pointsAgainst: row.pointsAgainst,
+        pointsFor: row.pointsFor,
+        result: row.result,
+        weeklyRank: row.weeklyRank,
+      })),
+    ).toEqual([
+      {
+        isTopScorer: false,
+        margin: -7,
+        personId: "alpha",
+        pointsAgainst: 107,
+        pointsFor: 100,
+        result: "loss",
+        weeklyRank: 2,
+      },
+      {
+        isTopScorer: true,
+        margin: 7,
+        personId: "bravo",
+        pointsAgainst: 100,
+        pointsFor: 107,
+        result: "win",
+        weeklyRank: 1,
+      },
+    ]);
+    expect(rows[1]?.pointsFor).toBe(95);
+  });
+
+  it("collects every period a multi-week matchup spans", () => {
+    const [row] = rescoreWeeklyRows(
+      [
+        weeklyRow("alpha", "bravo", 200, 190, {
+          periodStart: 15,
+          scoringPeriod: 15,
+          scoringPeriodSpan: 2,
+        }),
+      ],
+      new Map([
+        [
+          scoringDeltaKey({
+            personId: "alpha",
+            scoringPeriod: 15,
+            season: 2015,
+          }),
+          3,
+        ],
+        [
+          scoringDeltaKey({
+            personId: "alpha",
+            scoringPeriod: 16,
+            season: 2015,
+          }),
+          4,
+        ],
+        [
+          scoringDeltaKey({
+            personId: "alpha",
+            scoringPeriod: 17,
+            season: 2015,
+          }),
+          50,
+        ],
+      ]),
+    );
+
+    expect(row?.pointsFor).toBe(207);
+  });
+});
@@ -0,0 +1,400 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import type { LeagueScopedTx } from "@/db/rls";
+import {
+  fantasyPlayerWeekStatBreakdowns,
+  nflPlayerWeekStats,
+} from "@/db/schema";
+import {
+  compareStable,
+  round,
+  type WeeklyStatisticsRow,
+} from "./canon-catalog";
+
+// Scoring rules. Providers hand us fantasy points already computed, so a
+// league's history only exists under the rules it was played with. The engine
+// here re-scores player weeks from raw box-score stats so alternate rule sets
+// ("what if we'd always been PPR") can be compared without touching the
+// canonical rows: a player's provider points are kept, and only the difference
+// between the league's own rules and the alternate rules is applied on top.
+// Stats the rules do not cover (kicking, defense, bonuses) pass through as the
+// provider scored them.
+
+export const SCORING_RULE_STATS = [
+  "interceptions",
+  "passingTouchdowns",
+  "passingYards",
+  "receivingTouchdowns",
+  "receivingYards",
+  "receptions",
+  "rushingTouchdowns",
+  "rushingYards",
+] as const;
+
+export type ScoringStatKey = (typeof SCORING_RULE_STATS)[number];
+
+/** Points per unit of each box-score stat the engine re-scores. */
+export type ScoringRules = Record<ScoringStatKey, number>;
+
+/** One player's box score for a scoring period, in the same stat keys. */
+export type ScoringStatLine = Record<ScoringStatKey, number>;
+
+export type ScoringPresetId = "half_ppr" | "ppr" | "standard";
+
+const STANDARD_RULES: ScoringRules = {
+  interceptions: -2,
+  passingTouchdowns: 4,
+  passingYards: 0.04,
+  receivingTouchdowns: 6,
+  receivingYards: 0.1,
+  receptions: 0,
+  rushingTouchdowns: 6,
+  rushingYards: 0.1,
+};
+
+export const SCORING_PRESETS: Readonly<
+  Record<ScoringPresetId, { label: string; rules: ScoringRules }>
+> = {
+  half_ppr: {
+    label: "Half PPR",
+    rules: { ...STANDARD_RULES, receptions: 0.5 },
+  },
+  ppr: { label: "PPR", rules: { ...STANDARD_RULES, receptions: 1 } },
+  standard: { label: "Standard", rules: STANDARD_RULES },
+};
+
+// ESPN scoring items and stat breakdowns decode to camelCase keys; Sleeper
+// keeps its own codes.
+const STAT_KEY_ALIASES: Readonly<Record<ScoringStatKey, readonly string[]>> = {
+  interceptions: ["passingInterceptions", "pass_int"],
+  passingTouchdowns: ["passingTouchdowns", "pass_td"],
+  passingYards: ["passingYards", "pass_yd"],
+  receivingTouchdowns: ["receivingTouchdowns", "rec_td"],
+  receivingYards: ["receivingYards", "rec_yd"],
+  receptions: ["receivingReceptions", "rec"],
+  rushingTouchdowns: ["rushingTouchdowns", "rush_td"],
+  rushingYards: ["rushingYards", "rush_yd"],
+};
+
+const STAT_BY_ALIAS = new Map<string, ScoringStatKey>(
+  SCORING_RULE_STATS.flatMap((stat) =>
+    STAT_KEY_ALIASES[stat].map((alias) => [alias, stat] as const),
+  ),
+);
+
+export function isScoringPresetId(value: unknown): value is ScoringPresetId {
+  return typeof value === "string" && Object.hasOwn(SCORING_PRESETS, value);
+}
+
+export function emptyScoringStatLine(): ScoringStatLine {
+  return Object.fromEntries(
+    SCORING_RULE_STATS.map((stat) => [stat, 0]),
+  ) as ScoringStatLine;
+}
+
+function numberValue(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Reads the rules from a season's normalized scoring settings. Returns null
+ * when the settings carry none of the stats the engine re-scores (Yahoo
+ * leagues, file imports), so callers can tell "no rules" from "zero points".
+ */
+export function scoringRulesFromSettings(
+  scoringSettings: Record<string, unknown>,
+): ScoringRules | null {
+  const items = Array.isArray(scoringSettings.scoringItems)
+    ? scoringSettings.scoringItems
+    : [];
+  const pointsByKey = new Map<string, number>();
+  for (const item of items) {
+    if (!item || typeof item !== "object") {
+      continue;
+    }
+    const record = item as Record<string, unknown>;
+    const key = record.statKey;
+    const points = numberValue(record.points);
+    // The first rule for a stat wins; providers list a stat once per league.
+    if (typeof key === "string" && points !== undefined) {
+      if (!pointsByKey.has(key)) {
+        pointsByKey.set(key, points);
+      }
+    }
+  }
+
+  let matched = false;
+  const rules = Object.fromEntries(
+    SCORING_RULE_STATS.map((stat) => {
+      const key = STAT_KEY_ALIASES[stat].find((candidate) =>
+        pointsByKey.has(candidate),
+      );
+      matched ||= key !== undefined;
+      return [stat, key === undefined ? 0 : (pointsByKey.get(key) ?? 0)];
+    }),
+  ) as ScoringRules;
+  return matched ? rules : null;
+}
+
+export function scoreStatLine(
+  line: ScoringStatLine,
+  rules: ScoringRules,
+): number {
+  return round(
+    SCORING_RULE_STATS.reduce(
+      (total, stat) => total + line[stat] * rules[stat],
+      0,
+    ),
+    2,
+  );
+}
+
+/**
+ * Folds a player week's provider stat breakdown into a stat line. Returns
+ * null when none of the rows is a stat the engine re-scores.
+ */
+export function statLineFromBreakdowns(
+  rows: ReadonlyArray<{ statKey: string; statValue: number }>,
+): ScoringStatLine | null {
+  const line = emptyScoringStatLine();
+  let matched = false;
+  for (const row of rows) {
+    const stat = STAT_BY_ALIAS.get(row.statKey);
+    if (stat) {
+      line[stat] = row.statValue;
+      matched = true;
+    }
+  }
+  return matched ? line : null;
+}
+
+/**
+ * A player's points for one week under `rules`. With the league's own rules
+ * known, only their difference is applied to the provider's points; without
+ * them the covered stats are all the engine can score.
+ */
+export function rescorePlayerPoints(input: {
+  baseRules: ScoringRules | null;
+  line: ScoringStatLine | null;
+  points: number;
+  rules: ScoringRules;
+}): number {
+  if (!input.line) {
+    return input.points;
+  }
+  if (!input.baseRules) {
+    return scoreStatLine(input.line, input.rules);
+  }
+  return round(
+    input.points -
+      scoreStatLine(input.line, input.baseRules) +
+      scoreStatLine(input.line, input.rules),
+    2,
+  );
+}
+
+export function scoringDeltaKey(input: {
+  personId: string;
+  scoringPeriod: number;
+  season: number;
+}): string {
+  return `${input.personId}\u001f${input.season}\u001f${input.scoringPeriod}`;
+}
+
+function weeklyResult(
+  pointsFor: number,
+  pointsAgainst: number,
+): WeeklyStatisticsRow["result"] {
+  if (pointsFor > pointsAgainst) {
+    return "win";
+  }
+  return pointsFor < pointsAgainst ? "loss" : "tie";
+}
+
+/**
+ * Applies per-person, per-period point changes to weekly rows and re-derives
+ * everything that depends on the score: points against, margin, result and
+ * the weekly rank. Multi-period matchups collect every period they span.
+ */
+export function rescoreWeeklyRows(
+  rows: readonly WeeklyStatisticsRow[],
+  pointDeltas: ReadonlyMap<string, number>,
+): WeeklyStatisticsRow[] {
+  const rescored = rows.map((row) => {
+    const start = row.periodStart ?? row.scoringPeriod;
+    let delta = 0;
+    for (
+      let offset = 0;
+      offset < Math.max(1, row.scoringPeriodSpan);
+      offset++
+    ) {
+      delta +=
+        pointDeltas.get(
+          scoringDeltaKey({
+            personId: row.personId,
+            scoringPeriod: start + offset,
+            season: row.season,
+          }),
+        ) ?? 0;
+    }
+    return { ...row, pointsFor: round(row.pointsFor + delta, 2) };
+  });
+
+  const pointsByMatchupPerson = new Map(
+    rescored.map((row) => [
+      `${row.season}\u001f${row.matchupId}\u001f${row.personId}`,
+      row.pointsFor,
+    ]),
+  );
+  for (const row of rescored) {
+    if (row.result === "bye" || !row.opponentPersonId) {
+      continue;
+    }
+    row.pointsAgainst =
+      pointsByMatchupPerson.get(
+        `${row.season}\u001f${row.matchupId}\u001f${row.opponentPersonId}`,
+      ) ?? row.pointsAgainst;
+    row.margin = round(row.pointsFor - row.pointsAgainst, 2);
+    row.result = weeklyResult(row.pointsFor, row.pointsAgainst);
+  }
+
+  const byWindow = new Map<string, WeeklyStatisticsRow[]>();
+  for (const row of rescored) {
+    const key = `${row.season}:${row.periodStart ?? row.scoringPeriod}:${Math.max(1, row.scoringPeriodSpan)}`;
+    byWindow.set(key, [...(byWindow.get(key) ?? []), row]);
+  }
+  for (const window of byWindow.values()) {
+    const sorted = [...window].sort(
+      (left, right) =>
+        right.pointsFor - left.pointsFor ||
+        compareStable(left.personId, right.personId),
+    );
+    const maxScore = sorted[0]?.pointsFor;
+    const minScore = sorted.at(-1)?.pointsFor;
+    const rankByPerson = new Map<string, number>();
+    for (const [index, row] of sorted.entries()) {
+      if (!rankByPerson.has(row.personId)) {
+        rankByPerson.set(row.personId, index + 1);
+      }
+    }
+    for (const row of window) {
+      row.weeklyRank = rankByPerson.get(row.personId) ?? 0;
+      row.isTopScorer = row.pointsFor === maxScore;
+      row.isBottomScorer = row.pointsFor === minScore;
+    }
+  }
+
+  return rescored;
+}
+
+export interface ScoringStatLines {
+  /** Keyed by `provider:leagueProviderId:season:scoringPeriod:providerPlayerId`. */
+  byProviderPlayer: Map<string, ScoringStatLine>;
+  /** Keyed by `nflPlayerId:season:week`; fills gaps in provider breakdowns. */
+  byNflPlayer: Map<string, ScoringStatLine>;
+}
+
+export function providerStatLineKey(input: {
+  leagueProviderId: string;
+  provider: string;
+  providerPlayerId: string;
+  scoringPeriod: number;
+  season: number;
+}): string {
+  return [
+    input.provider,
+    input.leagueProviderId,
+    input.season,
+    input.scoringPeriod,
+    input.providerPlayerId,
+  ].join("\u001f");
+}
+
+export function nflStatLineKey(input: {
+  nflPlayerId: string;
+  season: number;
+  week: number;
+}): string {
+  return `${input.nflPlayerId}\u001f${input.season}\u001f${input.week}`;
+}
+
+/**
+ * Loads the raw stats the engine re-scores: the league's own provider stat
+ * breakdowns first, then NFL box scores for the given players.
+ */
+export async function loadScoringStatLines(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; nflPlayerIds: readonly string[] },
+): Promise<ScoringStatLines> {
+  const breakdownRows = await tx
+    .select({
+      leagueProviderId: fantasyPlayerWeekStatBreakdowns.leagueProviderId,
+      provider: fantasyPlayerWeekStatBreakdowns.provider,
+      providerPlayerId: fantasyPlayerWeekStatBreakdowns.providerPlayerId,
+      scoringPeriod: fantasyPlayerWeekStatBreakdowns.scoringPeriod,
+      season: fantasyPlayerWeekStatBreakdowns.season,
+      statKey: fantasyPlayerWeekStatBreakdowns.statKey,
+      statValue: fantasyPlayerWeekStatBreakdowns.statValue,
+    })
+    .from(fantasyPlayerWeekStatBreakdowns)
+    .where(
+      and(
+        eq(fantasyPlayerWeekStatBreakdowns.leagueId, input.leagueId),
+        eq(fantasyPlayerWeekStatBreakdowns.statSource, "actual"),
+        inArray(fantasyPlayerWeekStatBreakdowns.statKey, [
+          ...STAT_BY_ALIAS.keys(),
+        ]),
+      ),
+    );
+  const breakdownsByKey = new Map<
+    string,
+    Array<{ statKey: string; statValue: number }>
+  >();
+  for (const row of breakdownRows) {
+    const key = providerStatLineKey(row);
+    breakdownsByKey.set(key, [...(breakdownsByKey.get(key) ?? []), row]);
+  }
+  const byProviderPlayer = new Map<string, ScoringStatLine>();
+  for (const [key, rows] of breakdownsByKey) {
+    const line = statLineFromBreakdowns(rows);
+    if (line) {
+      byProviderPlayer.set(key, line);
+    }
+  }
+
+  const byNflPlayer = new Map<string, ScoringStatLine>();
+  if (input.nflPlayerIds.length > 0) {
+    const statRows = await tx
+      .select({
+        interceptions: nflPlayerWeekStats.interceptions,
+        nflPlayerId: nflPlayerWeekStats.playerId,
+        passingTouchdowns: nflPlayerWeekStats.passingTouchdowns,
+        passingYards: nflPlayerWeekStats.passingYards,
+        receivingTouchdowns: nflPlayerWeekStats.receivingTouchdowns,
+        receivingYards: nflPlayerWeekStats.receivingYards,
+        receptions: nflPlayerWeekStats.receptions,
+        rushingTouchdowns: nflPlayerWeekStats.rushingTouchdowns,
+        rushingYards: nflPlayerWeekStats.rushingYards,
+        season: nflPlayerWeekStats.season,
+        week: nflPlayerWeekStats.week,
+      })
+      .from(nflPlayerWeekStats)
+      .where(inArray(nflPlayerWeekStats.playerId, [...input.nflPlayerIds]))
+      .orderBy(asc(nflPlayerWeekStats.source));
+    for (const { nflPlayerId, season, week, ...line } of statRows) {
+      const key = nflStatLineKey({ nflPlayerId, season, week });
+      // One box score per player week; the first stat source wins.
+      if (!byNflPlayer.has(key)) {
+        byNflPlayer.set(key, line);
+      }
+    }
+  }
+
+  return { byNflPlayer, byProviderPlayer };
+}
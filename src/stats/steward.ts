@@ -11,6 +11,7 @@ import {
   providerPayloadObservations,
   teamSeasons,
 } from "@/db/schema";
+import type { FantasyProviderId } from "@/providers/ids";
 import { recomputeLeagueStatistics, runDataIntegrityChecks } from "./engine";
 
 export interface DataIntegrityReviewItem {
@@ -41,7 +42,7 @@ export interface ProviderPayloadDriftAlert {
   id: string;
   observedAt: string;
   previousObservationId: string | null;
-  provider: "espn" | "sleeper" | "yahoo";
+  provider: FantasyProviderId;
   providerLeagueId: string;
   removedPaths: string[];
   schemaHash: string;
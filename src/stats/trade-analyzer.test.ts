@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzeTrade,
+  type TradeAnalyzerPlayerWeek,
+  type TradeAnalyzerTrade,
+  tradeScoringPeriod,
+} from "./trade-analyzer";
+
+function trade(
+  overrides: Partial<TradeAnalyzerTrade> = {},
+): TradeAnalyzerTrade {
+  return {
+    details: {},
+    fantasyTransactionId: "trade-1",
+    occurredAt: new Date("2026-10-07T12:00:00.000Z"),
+    playerProviderIds: ["wr", "rb"],
+    scoringPeriod: 5,
+    season: 2026,
+    teamProviderIds: ["1", "2"],
+    ...overrides,
+  };
+}
+
+function week(
+  providerPlayerId: string,
+  providerTeamId: string,
+  scoringPeriod: number,
+  points: number,
+): TradeAnalyzerPlayerWeek {
+  return { points, providerPlayerId, providerTeamId, scoringPeriod };
+}
+
+// `wr` moves from team 2 to team 1 and `rb` from team 1 to team 2 in week 5.
+const swapWeeks = [
+  week("wr", "2", 4, 30),
+  week("rb", "1", 4, 8),
+  week("wr", "1", 5, 18),
+  week("rb", "2", 5, 12),
+  week("wr", "1", 6, 22.5),
+  week("rb", "2", 6, 9),
+];
+
+describe("tradeScoringPeriod", () => {
+  it("prefers the scoring period and falls back to the week detail", () => {
+    expect(tradeScoringPeriod({ details: { week: 3 }, scoringPeriod: 7 })).toBe(
+      7,
+    );
+    expect(
+      tradeScoringPeriod({ details: { week: 3 }, scoringPeriod: null }),
+    ).toBe(3);
+    expect(
+      tradeScoringPeriod({ details: { week: "3" }, scoringPeriod: 0 }),
+    ).toBeNull();
+  });
+});
+
+describe("analyzeTrade", () => {
+  it("credits each player to the side that rostered them after the deal", () => {
+    const result = analyzeTrade({
+      playerWeeks: swapWeeks,
+      seasonComplete: false,
+      throughScoringPeriod: 6,
+      trade: trade(),
+    });
+
+    expect(result.status).toBe("in_progress");
+    expect(result.sides).toEqual([
+      {
+        acquiredPlayerProviderIds: ["wr"],
+        points: 40.5,
+        providerTeamId: "1",
+        weeklyPoints: [
+          { points: 18, scoringPeriod: 5 },
+          { points: 22.5, scoringPeriod: 6 },
+        ],
+      },
+      {
+        acquiredPlayerProviderIds: ["rb"],
+        points: 21,
+        providerTeamId: "2",
+        weeklyPoints: [
+          { points: 12, scoringPeriod: 5 },
+          { points: 9, scoringPeriod: 6 },
+        ],
+      },
+    ]);
+    expect(result.winnerProviderTeamId).toBe("1");
+    expect(result.margin).toBe(19.5);
+  });
+
+  it("stops crediting a player once they leave the receiving roster", () => {
+    const result = analyzeTrade({
+      playerWeeks: [
+        ...swapWeeks.filter((row) => row.scoringPeriod < 6),
+        week("wr", "3", 6, 22.5),
+        week("rb", "2", 6, 9),
+      ],
+      seasonComplete: true,
+      throughScoringPeriod: 6,
+      trade: trade(),
+    });
+
+    expect(result.status).toBe("final");
+    expect(result.sides.map((side) => side.points)).toEqual([18, 21]);
+    expect(result.sides[0]?.weeklyPoints.at(-1)).toEqual({
+      points: 0,
+      scoringPeriod: 6,
+    });
+    expect(result.winnerProviderTeamId).toBe("2");
+    expect(result.margin).toBe(3);
+  });
+
+  it("keeps trades without post-trade weeks pending and lists untracked players", () => {
+    const result = analyzeTrade({
+      playerWeeks: [week("wr", "2", 4, 30)],
+      seasonComplete: false,
+      throughScoringPeriod: 4,
+      trade: trade(),
+    });
+
+    expect(result.status).toBe("pending");
+    expect(result.untrackedPlayerProviderIds).toEqual(["rb", "wr"]);
+    expect(result.sides.every((side) => side.points === 0)).toBe(true);
+    expect(result.winnerProviderTeamId).toBeNull();
+    expect(result.margin).toBe(0);
+  });
+
+  it("has no winner when the sides are level", () => {
+    const result = analyzeTrade({
+      playerWeeks: [
+        week("wr", "2", 4, 30),
+        week("rb", "1", 4, 8),
+        week("wr", "1", 5, 15),
+        week("rb", "2", 5, 15),
+      ],
+      seasonComplete: true,
+      throughScoringPeriod: 5,
+      trade: trade(),
+    });
+
+    expect(result.status).toBe("final");
+    expect(result.winnerProviderTeamId).toBeNull();
+    expect(result.margin).toBe(0);
+  });
+});
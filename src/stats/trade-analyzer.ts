@@ -0,0 +1,656 @@
+import { and, asc, desc, eq, inArray, type SQL, sql } from "drizzle-orm";
+import { contentItemIsPublished } from "@/content/lifecycle";
+import type { Db } from "@/db/client";
+import { type LeagueScopedTx, withLeagueContext } from "@/db/rls";
+import {
+  contentItems,
+  fantasyPlayers,
+  fantasyPlayerWeekStatBreakdowns,
+  fantasyTeams,
+  fantasyTransactions,
+  leagues,
+  type TradeAnalysisSide,
+  type TradeAnalysisStatus,
+  tradeAnalyses,
+} from "@/db/schema";
+import { stableContentHash } from "@/ingestion/hash";
+
+// Trade analyzer. Each player in a trade is credited to the side that
+// rostered the player after the deal: the first trade team other than the
+// pre-trade team to show up in the player's weekly stat breakdowns from the
+// trade week on. Their `fantasy_player_week_stat_breakdowns` points then count
+// for that side for every later week they stay on its roster, started or not. The side with the
+// most points is winning the trade; ties have no winner.
+
+export interface TradeAnalyzerTrade {
+  details: Record<string, unknown>;
+  fantasyTransactionId: string;
+  occurredAt: Date;
+  playerProviderIds: readonly string[];
+  scoringPeriod: number | null;
+  season: number;
+  teamProviderIds: readonly string[];
+}
+
+/** One player's summed breakdown points for one team in one scoring period. */
+export interface TradeAnalyzerPlayerWeek {
+  points: number;
+  providerPlayerId: string;
+  providerTeamId: string;
+  scoringPeriod: number;
+}
+
+export interface TradeAnalysisResult {
+  fantasyTransactionId: string;
+  margin: number;
+  scoringPeriod: number | null;
+  season: number;
+  sides: TradeAnalysisSide[];
+  status: TradeAnalysisStatus;
+  throughScoringPeriod: number | null;
+  untrackedPlayerProviderIds: string[];
+  winnerProviderTeamId: string | null;
+}
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+}
+
+function compareStable(left: string, right: string): number {
+  return left.localeCompare(right, undefined, {
+    numeric: true,
+    sensitivity: "base",
+  });
+}
+
+/**
+ * The week a trade took effect. ESPN reports it as the transaction's scoring
+ * period; Sleeper only carries it as the `week` (leg) detail.
+ */
+export function tradeScoringPeriod(
+  trade: Pick<TradeAnalyzerTrade, "details" | "scoringPeriod">,
+): number | null {
+  if (trade.scoringPeriod !== null && trade.scoringPeriod > 0) {
+    return trade.scoringPeriod;
+  }
+  const week = trade.details.week;
+  return typeof week === "number" && Number.isInteger(week) && week > 0
+    ? week
+    : null;
+}
+
+function receivingTeam({
+  playerWeeks,
+  teams,
+  tradePeriod,
+}: {
+  playerWeeks: readonly TradeAnalyzerPlayerWeek[];
+  teams: ReadonlySet<string>;
+  tradePeriod: number;
+}): string | null {
+  const inTrade = (row: TradeAnalyzerPlayerWeek) =>
+    teams.size === 0 || teams.has(row.providerTeamId);
+  const sorted = [...playerWeeks].sort(
+    (left, right) => left.scoringPeriod - right.scoringPeriod,
+  );
+  const before = sorted.filter(
+    (row) => row.scoringPeriod < tradePeriod && inTrade(row),
+  );
+  const originTeam = before.at(-1)?.providerTeamId ?? null;
+  const after = sorted.find(
+    (row) =>
+      row.scoringPeriod >= tradePeriod &&
+      inTrade(row) &&
+      row.providerTeamId !== originTeam,
+  );
+  return after?.providerTeamId ?? null;
+}
+
+/**
+ * Scores one trade from the season's player-week points. `throughScoringPeriod`
+ * is the last week with stats; `seasonComplete` settles the result as final.
+ */
+export function analyzeTrade({
+  playerWeeks,
+  seasonComplete,
+  throughScoringPeriod,
+  trade,
+}: {
+  playerWeeks: readonly TradeAnalyzerPlayerWeek[];
+  seasonComplete: boolean;
+  throughScoringPeriod: number | null;
+  trade: TradeAnalyzerTrade;
+}): TradeAnalysisResult {
+  const tradePeriod = tradeScoringPeriod(trade);
+  const teams = new Set(trade.teamProviderIds);
+  const weeksByPlayer = new Map<string, TradeAnalyzerPlayerWeek[]>();
+  for (const row of playerWeeks) {
+    const rows = weeksByPlayer.get(row.providerPlayerId) ?? [];
+    rows.push(row);
+    weeksByPlayer.set(row.providerPlayerId, rows);
+  }
+
+  const acquired = new Map<string, string[]>(
+    [...teams].map((providerTeamId) => [providerTeamId, []]),
+  );
+  const untracked: string[] = [];
+  for (const providerPlayerId of [...trade.playerProviderIds].sort(
+    compareStable,
+  )) {
+    const receiver =
+      tradePeriod === null
+        ? null
+        : receivingTeam({
+            playerWeeks: weeksByPlayer.get(providerPlayerId) ?? [],
+            teams,
+            tradePeriod,
+          });
+    if (!receiver) {
+      untracked.push(providerPlayerId);
+      continue;
+    }
+    const players = acquired.get(receiver) ?? [];
+    players.push(providerPlayerId);
+    acquired.set(receiver, players);
+  }
+
+  const lastPeriod =
+    tradePeriod !== null &&
+    throughScoringPeriod !== null &&
+    throughScoringPeriod >= tradePeriod
+      ? throughScoringPeriod
+      : null;
+  const sides = [...acquired.entries()]
+    .sort(([left], [right]) => compareStable(left, right))
+    .map(([providerTeamId, acquiredPlayerProviderIds]): TradeAnalysisSide => {
+      const pointsByPeriod = new Map<number, number>();
+      for (const providerPlayerId of acquiredPlayerProviderIds) {
+        for (const row of weeksByPlayer.get(providerPlayerId) ?? []) {
+          if (
+            tradePeriod === null ||
+            row.providerTeamId !== providerTeamId ||
+            row.scoringPeriod < tradePeriod ||
+            (lastPeriod !== null && row.scoringPeriod > lastPeriod)
+          ) {
+            continue;
+          }
+          pointsByPeriod.set(
+            row.scoringPeriod,
+            (pointsByPeriod.get(row.scoringPeriod) ?? 0) + row.points,
+          );
+        }
+      }
+      const weeklyPoints: TradeAnalysisSide["weeklyPoints"] = [];
+      if (tradePeriod !== null && lastPeriod !== null) {
+        for (let period = tradePeriod; period <= lastPeriod; period += 1) {
+          weeklyPoints.push({
+            points: round(pointsByPeriod.get(period) ?? 0),
+            scoringPeriod: period,
+          });
+        }
+      }
+      return {
+        acquiredPlayerProviderIds,
+        points: round(
+          weeklyPoints.reduce((total, week) => total + week.points, 0),
+        ),
+        providerTeamId,
+        weeklyPoints,
+      };
+    });
+
+  const status: TradeAnalysisStatus =
+    lastPeriod === null ? "pending" : seasonComplete ? "final" : "in_progress";
+  const ranked = [...sides].sort(
+    (left, right) =>
+      right.points - left.points ||
+      compareStable(left.providerTeamId, right.providerTeamId),
+  );
+  const [leader, runnerUp] = ranked;
+  const decided =
+    status !== "pending" &&
+    leader !== undefined &&
+    runnerUp !== undefined &&
+    leader.points > runnerUp.points;
+
+  return {
+    fantasyTransactionId: trade.fantasyTransactionId,
+    margin: decided ? round(leader.points - runnerUp.points) : 0,
+    scoringPeriod: tradePeriod,
+    season: trade.season,
+    sides,
+    status,
+    throughScoringPeriod: lastPeriod,
+    untrackedPlayerProviderIds: untracked,
+    winnerProviderTeamId: decided ? leader.providerTeamId : null,
+  };
+}
+
+export interface TradeAnalysisRefreshSummary {
+  changed: number;
+  seasons: number[];
+  trades: number;
+}
+
+/**
+ * Re-scores every trade in the league (or in `seasons`) and upserts the rows
+ * whose result moved. Runs inside the caller's league context so the full
+ * statistics recompute can grade history in the same transaction.
+ */
+export async function refreshTradeAnalysesInContext(
+  tx: LeagueScopedTx,
+  input: { leagueId: string; seasons?: readonly number[] },
+): Promise<TradeAnalysisRefreshSummary> {
+  const [league] = await tx
+    .select({ season: leagues.season, status: leagues.status })
+    .from(leagues)
+    .where(eq(leagues.id, input.leagueId))
+    .limit(1);
+  if (!league) {
+    return { changed: 0, seasons: [], trades: 0 };
+  }
+
+  const seasonFilter =
+    input.seasons && input.seasons.length > 0
+      ? inArray(fantasyTransactions.season, [...input.seasons])
+      : undefined;
+  const tradeRows = await tx
+    .select({
+      details: fantasyTransactions.details,
+      fantasyTransactionId: fantasyTransactions.id,
+      leagueProviderId: fantasyTransactions.leagueProviderId,
+      occurredAt: fantasyTransactions.occurredAt,
+      playerProviderIds: fantasyTransactions.playerProviderIds,
+      provider: fantasyTransactions.provider,
+      scoringPeriod: fantasyTransactions.scoringPeriod,
+      season: fantasyTransactions.season,
+      teamProviderIds: fantasyTransactions.teamProviderIds,
+    })
+    .from(fantasyTransactions)
+    .where(
+      and(
+        eq(fantasyTransactions.leagueId, input.leagueId),
+        eq(fantasyTransactions.type, "trade"),
+        seasonFilter,
+      ),
+    )
+    .orderBy(
+      asc(fantasyTransactions.season),
+      asc(fantasyTransactions.occurredAt),
+      asc(fantasyTransactions.providerTransactionId),
+    );
+  const seasons = [...new Set(tradeRows.map((row) => row.season))];
+  if (seasons.length === 0) {
+    return { changed: 0, seasons: [], trades: 0 };
+  }
+
+  const existingRows = await tx
+    .select({
+      contentHash: tradeAnalyses.contentHash,
+      fantasyTransactionId: tradeAnalyses.fantasyTransactionId,
+    })
+    .from(tradeAnalyses)
+    .where(
+      and(
+        eq(tradeAnalyses.leagueId, input.leagueId),
+        inArray(tradeAnalyses.season, seasons),
+      ),
+    );
+  const existingHashes = new Map(
+    existingRows.map((row) => [row.fantasyTransactionId, row.contentHash]),
+  );
+
+  let changed = 0;
+  for (const season of seasons) {
+    const seasonTrades = tradeRows.filter((row) => row.season === season);
+    const playerIds = [
+      ...new Set(seasonTrades.flatMap((row) => row.playerProviderIds)),
+    ];
+    const [latest] = await tx
+      .select({
+        scoringPeriod: sql<
+          number | null
+        >`max(${fantasyPlayerWeekStatBreakdowns.scoringPeriod})`,
+      })
+      .from(fantasyPlayerWeekStatBreakdowns)
+      .where(
+        and(
+          eq(fantasyPlayerWeekStatBreakdowns.leagueId, input.leagueId),
+          eq(fantasyPlayerWeekStatBreakdowns.season, season),
+          eq(fantasyPlayerWeekStatBreakdowns.statSource, "actual"),
+        ),
+      );
+    const playerWeekRows =
+      playerIds.length > 0
+        ? await tx
+            .select({
+              leagueProviderId:
+                fantasyPlayerWeekStatBreakdowns.leagueProviderId,
+              points: sql<number>`sum(${fantasyPlayerWeekStatBreakdowns.fantasyPoints})::float8`,
+              provider: fantasyPlayerWeekStatBreakdowns.provider,
+              providerPlayerId:
+                fantasyPlayerWeekStatBreakdowns.providerPlayerId,
+              providerTeamId: fantasyPlayerWeekStatBreakdowns.providerTeamId,
+              scoringPeriod: fantasyPlayerWeekStatBreakdowns.scoringPeriod,
+            })
+            .from(fantasyPlayerWeekStatBreakdowns)
+            .where(
+              and(
+                eq(fantasyPlayerWeekStatBreakdowns.leagueId, input.leagueId),
+                eq(fantasyPlayerWeekStatBreakdowns.season, season),
+                eq(fantasyPlayerWeekStatBreakdowns.statSource, "actual"),
+                inArray(
+                  fantasyPlayerWeekStatBreakdowns.providerPlayerId,
+                  playerIds,
+                ),
+              ),
+            )
+            .groupBy(
+              fantasyPlayerWeekStatBreakdowns.provider,
+              fantasyPlayerWeekStatBreakdowns.leagueProviderId,
+              fantasyPlayerWeekStatBreakdowns.providerPlayerId,
+              fantasyPlayerWeekStatBreakdowns.providerTeamId,
+              fantasyPlayerWeekStatBreakdowns.scoringPeriod,
+            )
+        : [];
+    const seasonComplete =
+      season < league.season ||
+      (season === league.season && league.status === "complete");
+
+    for (const trade of seasonTrades) {
+      const analysis = analyzeTrade({
+        playerWeeks: playerWeekRows.filter(
+          (row) =>
+            row.provider === trade.provider &&
+            row.leagueProviderId === trade.leagueProviderId,
+        ),
+        seasonComplete,
+        throughScoringPeriod: latest?.scoringPeriod ?? null,
+        trade,
+      });
+      const values = {
+        margin: analysis.margin,
+        occurredAt: trade.occurredAt,
+        scoringPeriod: analysis.scoringPeriod,
+        sides: analysis.sides,
+        status: analysis.status,
+        throughScoringPeriod: analysis.throughScoringPeriod,
+        untrackedPlayerProviderIds: analysis.untrackedPlayerProviderIds,
+        winnerProviderTeamId: analysis.winnerProviderTeamId,
+      };
+      const contentHash = stableContentHash(values);
+      if (existingHashes.get(trade.fantasyTransactionId) === contentHash) {
+        continue;
+      }
+      await tx
+        .insert(tradeAnalyses)
+        .values({
+          ...values,
+          contentHash,
+          fantasyTransactionId: trade.fantasyTransactionId,
+          leagueId: input.leagueId,
+          leagueProviderId: trade.leagueProviderId,
+          provider: trade.provider,
+          season,
+        })
+        .onConflictDoUpdate({
+          set: { ...values, contentHash, updatedAt: new Date() },
+          target: [tradeAnalyses.leagueId, tradeAnalyses.fantasyTransactionId],
+        });
+      changed += 1;
+    }
+  }
+
+  return { changed, seasons, trades: tradeRows.length };
+}
+
+export async function refreshTradeAnalyses(
+  db: Db,
+  input: { leagueId: string; seasons?: readonly number[] },
+): Promise<TradeAnalysisRefreshSummary> {
+  return withLeagueContext(db, input.leagueId, (tx) =>
+    refreshTradeAnalysesInContext(tx, input),
+  );
+}
+
+export interface TradeLedgerPlayer {
+  name: string;
+  providerPlayerId: string;
+}
+
+export interface TradeLedgerSide {
+  acquiredPlayers: TradeLedgerPlayer[];
+  /** Running total of `points` after each scoring period. */
+  cumulativePoints: { points: number; scoringPeriod: number }[];
+  points: number;
+  providerTeamId: string;
+  teamName: string;
+}
+
+/** The published transaction reaction's call on the trade. */
+export interface TradeLedgerVerdict {
+  contentItemId: string;
+  grade: string | null;
+  /** Whether the AI's winner is leading the ledger; null until decided. */
+  matchesLedger: boolean | null;
+  title: string;
+  winner: string;
+}
+
+export interface TradeLedgerEntry {
+  fantasyTransactionId: string;
+  margin: number;
+  occurredAt: string;
+  scoringPeriod: number | null;
+  season: number;
+  sides: TradeLedgerSide[];
+  status: TradeAnalysisStatus;
+  throughScoringPeriod: number | null;
+  untrackedPlayers: TradeLedgerPlayer[];
+  verdict: TradeLedgerVerdict | null;
+  winnerProviderTeamId: string | null;
+  winnerTeamName: string | null;
+}
+
+function transactionTriggerKey(fantasyTransactionId: string): string {
+  return `transaction:${fantasyTransactionId}`;
+}
+
+function verdictFromMetadata(
+  metadata: Record<string, unknown>,
+): { grade: string | null; winner: string } | null {
+  const structure = metadata.structure;
+  if (!structure || typeof structure !== "object") {
+    return null;
+  }
+  const { grade, type, winner } = structure as Record<string, unknown>;
+  if (type !== "transaction_reaction" || typeof winner !== "string") {
+    return null;
+  }
+  return {
+    grade: typeof grade === "string" && grade.trim() ? grade.trim() : null,
+    winner: winner.trim(),
+  };
+}
+
+/**
+ * Trades newest first with team and player names resolved, plus the verdict
+ * from the transaction reaction the content pipeline published for each one.
+ */
+export async function loadTradeLedger(
+  tx: LeagueScopedTx,
+  input: {
+    fantasyTransactionIds?: readonly string[];
+    leagueId: string;
+    season?: number;
+  },
+): Promise<TradeLedgerEntry[]> {
+  const filters: SQL[] = [eq(tradeAnalyses.leagueId, input.leagueId)];
+  if (input.season !== undefined) {
+    filters.push(eq(tradeAnalyses.season, input.season));
+  }
+  if (input.fantasyTransactionIds) {
+    if (input.fantasyTransactionIds.length === 0) {
+      return [];
+    }
+    filters.push(
+      inArray(tradeAnalyses.fantasyTransactionId, [
+        ...input.fantasyTransactionIds,
+      ]),
+    );
+  }
+  const rows = await tx
+    .select()
+    .from(tradeAnalyses)
+    .where(and(...filters))
+    .orderBy(desc(tradeAnalyses.occurredAt), asc(tradeAnalyses.id));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const seasons = [...new Set(rows.map((row) => row.season))];
+  const teamRows = await tx
+    .select({
+      leagueProviderId: fantasyTeams.leagueProviderId,
+      name: fantasyTeams.name,
+      providerTeamId: fantasyTeams.providerTeamId,
+      season: fantasyTeams.season,
+    })
+    .from(fantasyTeams)
+    .where(
+      and(
+        eq(fantasyTeams.leagueId, input.leagueId),
+        inArray(fantasyTeams.season, seasons),
+      ),
+    );
+  const teamNames = new Map(
+    teamRows.map((team) => [
+      `${team.leagueProviderId}\u001f${team.season}\u001f${team.providerTeamId}`,
+      team.name,
+    ]),
+  );
+  const playerIds = [
+    ...new Set(
+      rows.flatMap((row) => [
+        ...row.sides.flatMap((side) => side.acquiredPlayerProviderIds),
+        ...row.untrackedPlayerProviderIds,
+      ]),
+    ),
+  ];
+  const playerRows =
+    playerIds.length > 0
+      ? await tx
+          .select({
+            fullName: fantasyPlayers.fullName,
+            leagueProviderId: fantasyPlayers.leagueProviderId,
+            providerPlayerId: fantasyPlayers.providerPlayerId,
+          })
+          .from(fantasyPlayers)
+          .where(
+            and(
+              eq(fantasyPlayers.leagueId, input.leagueId),
+              inArray(fantasyPlayers.providerPlayerId, playerIds),
+            ),
+          )
+      : [];
+  const playerNames = new Map(
+    playerRows.map((player) => [
+      `${player.leagueProviderId}\u001f${player.providerPlayerId}`,
+      player.fullName,
+    ]),
+  );
+  const reactionRows = await tx
+    .select({
+      id: contentItems.id,
+      metadata: contentItems.metadata,
+      title: contentItems.title,
+      triggerKey: sql<string>`${contentItems.metadata}->>'triggerKey'`,
+    })
+    .from(contentItems)
+    .where(
+      and(
+        eq(contentItems.leagueId, input.leagueId),
+        eq(contentItems.kind, "blog"),
+        contentItemIsPublished(),
+        inArray(
+          sql`${contentItems.metadata}->>'triggerKey'`,
+          rows.map((row) => transactionTriggerKey(row.fantasyTransactionId)),
+        ),
+      ),
+    )
+    .orderBy(desc(contentItems.publishedAt));
+  const reactions = new Map<string, (typeof reactionRows)[number]>();
+  for (const reaction of reactionRows) {
+    if (!reactions.has(reaction.triggerKey)) {
+      reactions.set(reaction.triggerKey, reaction);
+    }
+  }
+
+  return rows.map((row) => {
+    const teamName = (providerTeamId: string) =>
+      teamNames.get(
+        `${row.leagueProviderId}\u001f${row.season}\u001f${providerTeamId}`,
+      ) ?? `Team ${providerTeamId}`;
+    const player = (providerPlayerId: string): TradeLedgerPlayer => ({
+      name:
+        playerNames.get(`${row.leagueProviderId}\u001f${providerPlayerId}`) ??
+        `Player ${providerPlayerId}`,
+      providerPlayerId,
+    });
+    const sides = row.sides.map((side): TradeLedgerSide => {
+      let total = 0;
+      return {
+        acquiredPlayers: side.acquiredPlayerProviderIds.map(player),
+        cumulativePoints: side.weeklyPoints.map((week) => {
+          total = round(total + week.points);
+          return { points: total, scoringPeriod: week.scoringPeriod };
+        }),
+        points: side.points,
+        providerTeamId: side.providerTeamId,
+        teamName: teamName(side.providerTeamId),
+      };
+    });
+    const winnerTeamName = row.winnerProviderTeamId
+      ? teamName(row.winnerProviderTeamId)
+      : null;
+    const reaction = reactions.get(
+      transactionTriggerKey(row.fantasyTransactionId),
+    );
+    const call = reaction ? verdictFromMetadata(reaction.metadata) : null;
+    return {
+      fantasyTransactionId: row.fantasyTransactionId,
+      margin: row.margin,
+      occurredAt: row.occurredAt.toISOString(),
+      scoringPeriod: row.scoringPeriod,
+      season: row.season,
+      sides,
+      status: row.status,
+      throughScoringPeriod: row.throughScoringPeriod,
+      untrackedPlayers: row.untrackedPlayerProviderIds.map(player),
+      verdict:
+        reaction && call
+          ? {
+              contentItemId: reaction.id,
+              grade: call.grade,
+              matchesLedger: winnerTeamName
+                ? call.winner.toLowerCase() === winnerTeamName.toLowerCase()
+                : null,
+              title: reaction.title,
+              winner: call.winner,
+            }
+          : null,
+      winnerProviderTeamId: row.winnerProviderTeamId,
+      winnerTeamName,
+    };
+  });
+}
+
+export async function listTradeLedger(
+  db: Db,
+  input: { leagueId: string; season?: number },
+): Promise<TradeLedgerEntry[]> {
+  return withLeagueContext(db, input.leagueId, (tx) =>
+    loadTradeLedger(tx, input),
+  );
+}
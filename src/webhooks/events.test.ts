@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  isWebhookEvent,
+  parseWebhookEventData,
+  WEBHOOK_CONTENT_EVENTS,
+  WEBHOOK_EVENT_CATALOG,
+  WEBHOOK_EVENT_GROUPS,
+  WEBHOOK_EVENTS,
+  webhookDomainEventCopy,
+  webhookEventLabel,
+} from "./events";
+
+const leagueId = "3f0f5f7e-8a55-4a39-9a4f-6d0c6b9d1e01";
+const pollId = "0c6a4a3b-5d1e-4f51-8f8a-0b1e2d3c4f50";
+const claimId = "9a4e2c61-7b3d-4e8f-a1c2-3d4e5f6a7b8c";
+
+describe("webhook event catalog", () => {
+  it("puts every event in a known group with a positive version", () => {
+    const groupIds = new Set<string>(
+      WEBHOOK_EVENT_GROUPS.map((group) => group.id),
+    );
+    for (const event of WEBHOOK_EVENTS) {
+      const entry = WEBHOOK_EVENT_CATALOG[event];
+      expect(groupIds.has(entry.group)).toBe(true);
+      expect(entry.version).toBeGreaterThan(0);
+      expect(entry.label.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("keeps the content events at the front of the catalog", () => {
+    expect(WEBHOOK_EVENTS.slice(0, WEBHOOK_CONTENT_EVENTS.length)).toEqual([
+      ...WEBHOOK_CONTENT_EVENTS,
+    ]);
+  });
+
+  it("recognizes catalog ids and labels unknown ones verbatim", () => {
+    expect(isWebhookEvent("poll.opened")).toBe(true);
+    expect(isWebhookEvent("poll.deleted")).toBe(false);
+    expect(isWebhookEvent("toString")).toBe(false);
+    expect(webhookEventLabel("record.broken")).toBe("Record broken");
+    expect(webhookEventLabel("legacy.event")).toBe("legacy.event");
+  });
+
+  it("rejects data that does not match the event schema", () => {
+    expect(() =>
+      parseWebhookEventData("poll.opened", {
+        claimId,
+        closesAt: "2026-10-20T12:00:00.000Z",
+        options: ["Only one"],
+        pollId,
+        question: "Who won the trade?",
+      }),
+    ).toThrow();
+    expect(
+      parseWebhookEventData("poll.closed", {
+        outcome: "tie",
+        pollId,
+        question: "Who won the trade?",
+        totalVotes: 4,
+        winningOption: null,
+      }),
+    ).toMatchObject({ outcome: "tie", totalVotes: 4 });
+  });
+});
+
+describe("webhookDomainEventCopy", () => {
+  it("links poll openings to the poll's lore claim", () => {
+    const copy = webhookDomainEventCopy(leagueId, {
+      data: {
+        claimId,
+        closesAt: "2026-10-20T12:00:00.000Z",
+        options: ["Kyle", "Marcus"],
+        pollId,
+        question: "Who won the trade?",
+      },
+      key: pollId,
+      type: "poll.opened",
+    });
+
+    expect(copy).toEqual({
+      path: `/leagues/${leagueId}/lore/${claimId}`,
+      summary: "Vote now: Kyle / Marcus.",
+      title: "Poll open: Who won the trade?",
+    });
+  });
+
+  it("names the member and both ranks for an arena pass", () => {
+    const copy = webhookDomainEventCopy(leagueId, {
+      data: {
+        arenaSeasonId: claimId,
+        memberName: "Jordan",
+        newRank: 5,
+        oldRank: 3,
+      },
+      key: "season:user:event",
+      type: "arena.rival_passed",
+    });
+
+    expect(copy.summary).toBe("Jordan fell from #3 to #5.");
+    expect(copy.path).toBe(`/arena?season=${claimId}`);
+  });
+});
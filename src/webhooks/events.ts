@@ -0,0 +1,299 @@
+import { z } from "zod";
+
+/**
+ * Every event a league webhook can subscribe to.
+ *
+ * Client-safe on purpose: the webhook manager renders its toggles from this
+ * catalog, and the routes and service validate selections against it, so a
+ * new event is one entry here rather than three hand-synced lists.
+ *
+ * `version` is the `v` field of the delivered payload. Bump it when an
+ * event's payload shape changes incompatibly; generic JSON receivers key off
+ * it. Content events keep their original `content` envelope; every other
+ * event carries its schema-checked body under `data`.
+ */
+
+export const WEBHOOK_EVENT_GROUPS = [
+  { id: "content", label: "Press" },
+  { id: "polls", label: "Polls" },
+  { id: "lore", label: "Lore" },
+  { id: "picks", label: "Pick 'em" },
+  { id: "records", label: "Records" },
+  { id: "arena", label: "Arena" },
+] as const;
+
+export type WebhookEventGroupId = (typeof WEBHOOK_EVENT_GROUPS)[number]["id"];
+
+const isoTimestamp = z.iso.datetime({ offset: true });
+
+const contentEventSchema = z.object({
+  id: z.uuid(),
+  publishedAt: isoTimestamp,
+  section: z.string().min(1),
+  shareUrl: z.url(),
+  summary: z.string(),
+  title: z.string().min(1),
+});
+
+export const WEBHOOK_EVENT_CATALOG = {
+  "content.published": {
+    description: "New league posts from cadence, regeneration, and launch.",
+    group: "content",
+    label: "Published content",
+    schema: contentEventSchema,
+    version: 1,
+  },
+  "content.corrected": {
+    description: "Correction notes that supersede stale score-driven prose.",
+    group: "content",
+    label: "Corrections",
+    schema: contentEventSchema,
+    version: 1,
+  },
+  "poll.opened": {
+    description: "A settle-it poll opens for league votes.",
+    group: "polls",
+    label: "Poll opened",
+    schema: z.object({
+      claimId: z.uuid(),
+      closesAt: isoTimestamp,
+      options: z.array(z.string().min(1)).min(2),
+      pollId: z.uuid(),
+      question: z.string().min(1),
+    }),
+    version: 1,
+  },
+  "poll.closed": {
+    description: "A poll closes with a winner, a tie, or no votes.",
+    group: "polls",
+    label: "Poll closed",
+    schema: z.object({
+      outcome: z.enum(["decided", "no_votes", "tie"]),
+      pollId: z.uuid(),
+      question: z.string().min(1),
+      totalVotes: z.int().nonnegative(),
+      winningOption: z.string().nullable(),
+    }),
+    version: 1,
+  },
+  "lore.vote_opened": {
+    description: "A disputed story goes to a league vote.",
+    group: "lore",
+    label: "Lore vote opened",
+    schema: z.object({
+      claimId: z.uuid(),
+      title: z.string().min(1),
+      voteClosesAt: isoTimestamp,
+    }),
+    version: 1,
+  },
+  "lore.canonized": {
+    description: "A story becomes league canon.",
+    group: "lore",
+    label: "Lore canonized",
+    schema: z.object({
+      claimId: z.uuid(),
+      ratifiedBy: z.enum(["steward", "verified", "vote"]),
+      title: z.string().min(1),
+    }),
+    version: 1,
+  },
+  "picks.week_opened": {
+    description: "A Pick 'em week opens for submissions.",
+    group: "picks",
+    label: "Pick 'em week opened",
+    schema: z.object({
+      closesAt: isoTimestamp,
+      pickWeekId: z.uuid(),
+      season: z.int(),
+      week: z.int().positive(),
+    }),
+    version: 1,
+  },
+  "picks.week_graded": {
+    description: "Every pick in a Pick 'em week has been graded.",
+    group: "picks",
+    label: "Pick 'em week graded",
+    schema: z.object({
+      correctPicks: z.int().nonnegative(),
+      pickWeekId: z.uuid(),
+      season: z.int(),
+      submittedPicks: z.int().nonnegative(),
+      voidPicks: z.int().nonnegative(),
+      week: z.int().positive(),
+    }),
+    version: 1,
+  },
+  "record.broken": {
+    description: "A record-book entry changes hands or grows.",
+    group: "records",
+    label: "Record broken",
+    schema: z.object({
+      allTimeRecordId: z.uuid(),
+      label: z.string().min(1),
+      recordType: z.string().min(1),
+      scoringPeriod: z.int().positive().nullable(),
+      season: z.int().nullable(),
+      value: z.number(),
+    }),
+    version: 1,
+  },
+  "arena.rival_passed": {
+    description: "A league member is passed in the arena standings.",
+    group: "arena",
+    label: "Arena rival passed",
+    schema: z.object({
+      arenaSeasonId: z.uuid(),
+      memberName: z.string().min(1),
+      newRank: z.int().positive(),
+      oldRank: z.int().positive(),
+    }),
+    version: 1,
+  },
+} as const satisfies Record<
+  string,
+  {
+    description: string;
+    group: WebhookEventGroupId;
+    label: string;
+    schema: z.ZodType;
+    version: number;
+  }
+>;
+
+export type LeagueWebhookEvent = keyof typeof WEBHOOK_EVENT_CATALOG;
+
+export const WEBHOOK_EVENTS = Object.keys(
+  WEBHOOK_EVENT_CATALOG,
+) as LeagueWebhookEvent[];
+
+export const WEBHOOK_CONTENT_EVENTS = [
+  "content.published",
+  "content.corrected",
+] as const satisfies readonly LeagueWebhookEvent[];
+export type LeagueWebhookContentEvent = (typeof WEBHOOK_CONTENT_EVENTS)[number];
+
+export type LeagueWebhookDomainEventType = Exclude<
+  LeagueWebhookEvent,
+  LeagueWebhookContentEvent
+>;
+
+export type LeagueWebhookEventData<Type extends LeagueWebhookEvent> = z.infer<
+  (typeof WEBHOOK_EVENT_CATALOG)[Type]["schema"]
+>;
+
+/**
+ * One non-content event ready to fan out. `key` names the underlying fact
+ * (a poll id, a record id) so a retried producer is deduplicated per webhook
+ * the same way content is.
+ */
+export type LeagueWebhookDomainEvent = {
+  [Type in LeagueWebhookDomainEventType]: {
+    data: LeagueWebhookEventData<Type>;
+    key: string;
+    type: Type;
+  };
+}[LeagueWebhookDomainEventType];
+
+export function isWebhookEvent(value: unknown): value is LeagueWebhookEvent {
+  return (
+    typeof value === "string" && Object.hasOwn(WEBHOOK_EVENT_CATALOG, value)
+  );
+}
+
+export function isWebhookContentEvent(
+  value: LeagueWebhookEvent,
+): value is LeagueWebhookContentEvent {
+  return (WEBHOOK_CONTENT_EVENTS as readonly string[]).includes(value);
+}
+
+export function webhookEventLabel(value: string): string {
+  return isWebhookEvent(value) ? WEBHOOK_EVENT_CATALOG[value].label : value;
+}
+
+/** Validates a domain event's body against its catalog schema. */
+export function parseWebhookEventData<Type extends LeagueWebhookEvent>(
+  type: Type,
+  data: unknown,
+): LeagueWebhookEventData<Type> {
+  return WEBHOOK_EVENT_CATALOG[type].schema.parse(
+    data,
+  ) as LeagueWebhookEventData<Type>;
+}
+
+/** Raw, unsanitized text for a domain event; platforms format it. */
+export interface WebhookDomainEventCopy {
+  path: string;
+  summary: string;
+  title: string;
+}
+
+function ordinalRank(rank: number): string {
+  return `#${rank}`;
+}
+
+export function webhookDomainEventCopy(
+  leagueId: string,
+  event: LeagueWebhookDomainEvent,
+): WebhookDomainEventCopy {
+  switch (event.type) {
+    case "poll.opened":
+      return {
+        path: `/leagues/${leagueId}/lore/${event.data.claimId}`,
+        summary: `Vote now: ${event.data.options.join(" / ")}.`,
+        title: `Poll open: ${event.data.question}`,
+      };
+    case "poll.closed":
+      return {
+        path: `/leagues/${leagueId}/lore`,
+        summary:
+          event.data.outcome === "decided"
+            ? `The league picked "${event.data.winningOption}" with ${event.data.totalVotes} votes cast.`
+            : event.data.outcome === "tie"
+              ? `Dead heat after ${event.data.totalVotes} votes. Nothing settled.`
+              : "Nobody voted. The question stays open.",
+        title: `Poll closed: ${event.data.question}`,
+      };
+    case "lore.vote_opened":
+      return {
+        path: `/leagues/${leagueId}/lore/${event.data.claimId}`,
+        summary: "Settle it: your league needs a vote.",
+        title: `Lore vote: ${event.data.title}`,
+      };
+    case "lore.canonized":
+      return {
+        path: `/leagues/${leagueId}/lore/${event.data.claimId}`,
+        summary: "Canon changed: this story is now part of the record.",
+        title: `Now canon: ${event.data.title}`,
+      };
+    case "picks.week_opened":
+      return {
+        path: `/leagues/${leagueId}/bet`,
+        summary: `Get your picks in before ${new Date(event.data.closesAt).toUTCString()}.`,
+        title: `Pick 'em Week ${event.data.week} is open`,
+      };
+    case "picks.week_graded":
+      return {
+        path: `/leagues/${leagueId}/bet`,
+        summary: `${event.data.correctPicks} of ${event.data.submittedPicks} picks hit.`,
+        title: `Pick 'em Week ${event.data.week} is graded`,
+      };
+    case "record.broken": {
+      const week = event.data.scoringPeriod
+        ? ` Week ${event.data.scoringPeriod}`
+        : "";
+      const season = event.data.season ? ` in ${event.data.season}` : "";
+      return {
+        path: `/leagues/${leagueId}/records`,
+        summary: `${event.data.label} is now ${event.data.value}${season}${week}.`,
+        title: `Record broken: ${event.data.label}`,
+      };
+    }
+    case "arena.rival_passed":
+      return {
+        path: `/arena?season=${event.data.arenaSeasonId}`,
+        summary: `${event.data.memberName} fell from ${ordinalRank(event.data.oldRank)} to ${ordinalRank(event.data.newRank)}.`,
+        title: "Arena rival passed",
+      };
+  }
+}
@@ -1,3 +1,20 @@
+export {
+  isWebhookEvent,
+  type LeagueWebhookDomainEvent,
+  type LeagueWebhookDomainEventType,
+  type LeagueWebhookEvent,
+  type LeagueWebhookEventData,
+  parseWebhookEventData,
+  WEBHOOK_EVENT_CATALOG,
+  WEBHOOK_EVENT_GROUPS,
+  type WebhookEventGroupId,
+  webhookEventLabel,
+} from "./events";
+export {
+  type WebhookMessage,
+  type WebhookPlatformRequest,
+  webhookPlatformRequest,
+} from "./platforms";
 export {
   type CreateLeagueWebhookInput,
   createLeagueWebhook,
@@ -14,9 +31,11 @@ export {
   type LeagueWebhookSummary,
   type LeagueWebhookTargetKind,
   MockWebhookDeliverer,
+  sanitizeWebhookMentionText,
   type UpdateLeagueWebhookInput,
   updateLeagueWebhook,
   WEBHOOK_CONTENT_EVENTS,
+  WEBHOOK_EVENTS,
   WEBHOOK_TARGET_KINDS,
   type WebhookDeliverer,
   type WebhookDeliveryAttempt,
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import {
+  sanitizeGroupMeMentionText,
+  sanitizeSlackMentionText,
+  sanitizeTelegramMentionText,
+  type WebhookMessage,
+  webhookPlatformRequest,
+} from "./platforms";
+
+const message: WebhookMessage = {
+  context: "Recaps",
+  leagueName: "Dynasty <Bros>",
+  summary: "@channel <!here> and @everyone saw @tommy_t drop 180.",
+  title: "Week 7 & the <@U123> meltdown",
+  url: "https://app.example.test/leagues/league-1/press/content-1",
+};
+
+function request(
+  targetKind: Parameters<typeof webhookPlatformRequest>[0]["targetKind"],
+  url: string,
+) {
+  return webhookPlatformRequest({
+    message,
+    payload: { v: 1 },
+    targetKind,
+    url,
+  });
+}
+
+describe("webhookPlatformRequest", () => {
+  it("formats Slack Block Kit with escaped mention syntax", () => {
+    const slack = request(
+      "slack",
+      "https://hooks.slack.com/services/T000/B000/secret",
+    );
+
+    expect(slack.url).toBe("https://hooks.slack.com/services/T000/B000/secret");
+    expect(slack.body).toMatchObject({
+      blocks: [
+        { type: "context" },
+        { type: "section" },
+        { elements: [{ type: "button", url: message.url }], type: "actions" },
+      ],
+      text: "Dynasty &lt;Bros&gt;: Week 7 &amp; the &lt;@U123&gt; meltdown",
+    });
+    const serialized = JSON.stringify(slack.body);
+    expect(serialized).not.toContain("<!here>");
+    expect(serialized).not.toContain("<@U123>");
+    expect(serialized).toContain(`<${message.url}|`);
+  });
+
+  it("moves the GroupMe bot id from the target URL into the post body", () => {
+    const groupMe = request(
+      "groupme",
+      "https://api.groupme.com/v3/bots/post?bot_id=bot-secret",
+    );
+
+    expect(groupMe.url).toBe("https://api.groupme.com/v3/bots/post");
+    expect(groupMe.body).toMatchObject({ bot_id: "bot-secret" });
+    const text = String(groupMe.body.text);
+    expect(text).toContain("@\u200beveryone");
+    expect(text.endsWith(message.url)).toBe(true);
+    expect(text.length).toBeLessThanOrEqual(1000);
+  });
+
+  it("keeps long GroupMe posts under the platform limit with the link intact", () => {
+    const groupMe = webhookPlatformRequest({
+      message: {
+        ...message,
+        summary: "x".repeat(5000),
+        title: "y".repeat(900),
+      },
+      payload: {},
+      targetKind: "groupme",
+      url: "https://api.groupme.com/v3/bots/post?bot_id=bot-secret",
+    });
+
+    const text = String(groupMe.body.text);
+    expect(text.length).toBeLessThanOrEqual(1000);
+    expect(text.endsWith(message.url)).toBe(true);
+  });
+
+  it("drops a GroupMe link too long to fit instead of sending an empty post", () => {
+    const longUrl = `https://app.example.test/leagues/league-1/press?ref=${"z".repeat(1200)}`;
+    const groupMe = webhookPlatformRequest({
+      message: { ...message, url: longUrl },
+      payload: {},
+      targetKind: "groupme",
+      url: "https://api.groupme.com/v3/bots/post?bot_id=bot-secret",
+    });
+
+    const text = String(groupMe.body.text);
+    expect(text.length).toBeLessThanOrEqual(1000);
+    expect(text).toContain(message.title);
+    expect(text).not.toContain(longUrl);
+  });
+
+  it("sends Telegram HTML messages to the chat from the target URL", () => {
+    const telegram = request(
+      "telegram",
+      "https://api.telegram.org/bot123:abc/sendMessage?chat_id=-100200",
+    );
+
+    expect(telegram.url).toBe(
+      "https://api.telegram.org/bot123:abc/sendMessage",
+    );
+    expect(telegram.body).toMatchObject({
+      chat_id: "-100200",
+      parse_mode: "HTML",
+    });
+    const text = String(telegram.body.text);
+    expect(text).toContain("<b>Dynasty &lt;Bros&gt;</b> · Recaps");
+    expect(text).toContain(`<a href="${message.url}">`);
+    expect(text).toContain("@\u200btommy_t");
+  });
+
+  it("leaves handle-shaped text inside a Telegram link href intact", () => {
+    const url =
+      "https://app.example.test/leagues/league-1/@tommy_t?from=@durov";
+    const telegram = webhookPlatformRequest({
+      message: { ...message, url },
+      payload: {},
+      targetKind: "telegram",
+      url: "https://api.telegram.org/bot123:abc/sendMessage?chat_id=-100200",
+    });
+
+    expect(String(telegram.body.text)).toContain(`<a href="${url}">`);
+  });
+
+  it("passes the generic payload through and disables Discord mentions", () => {
+    expect(request("generic", "https://chat.example.test/hook").body).toEqual({
+      v: 1,
+    });
+    expect(
+      request("discord", "https://discord.com/api/webhooks/1/token").body,
+    ).toMatchObject({ allowed_mentions: { parse: [] } });
+  });
+});
+
+describe("platform mention sanitizers", () => {
+  it("neutralizes each platform's own mention syntax", () => {
+    expect(sanitizeSlackMentionText("<!channel> & <#C1>")).toBe(
+      "&lt;!channel&gt; &amp; &lt;#C1&gt;",
+    );
+    expect(sanitizeGroupMeMentionText("@all @All-Stars @bob")).toBe(
+      "@\u200ball @\u200bAll-Stars @bob",
+    );
+    expect(
+      sanitizeTelegramMentionText(
+        "@abc @durov a@b.co ops@league.com (@tommy_t)",
+      ),
+    ).toBe("@abc @\u200bdurov a@b.co ops@league.com (@\u200btommy_t)");
+  });
+});
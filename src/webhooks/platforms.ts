@@ -0,0 +1,216 @@
+import type { LeagueWebhookTargetKind } from "./service";
+
+/**
+ * Platform-neutral view of one webhook event. Text here is raw: each platform
+ * formatter applies its own escaping and mention sanitizing, because a string
+ * that is inert in Slack mrkdwn can still ping a Telegram user.
+ */
+export interface WebhookMessage {
+  context: string;
+  leagueName: string;
+  summary: string;
+  title: string;
+  url: string;
+}
+
+/** The exact HTTP request a real deliverer would POST for a target. */
+export interface WebhookPlatformRequest {
+  body: Record<string, unknown>;
+  url: string;
+}
+
+const SLACK_SECTION_TEXT_LIMIT = 3000;
+const GROUPME_TEXT_LIMIT = 1000;
+const TELEGRAM_TEXT_LIMIT = 4096;
+const SUMMARY_LIMIT = 600;
+
+function clip(value: string, limit: number): string {
+  if (limit <= 0) {
+    return "";
+  }
+  return value.length > limit ? `${value.slice(0, limit - 1)}…` : value;
+}
+
+export function sanitizeWebhookMentionText(value: string): string {
+  return value
+    .replace(/@(everyone|here)\b/giu, "@\u200b$1")
+    .replace(/<@([!&]?\d+)>/gu, "<@\u200b$1>")
+    .replace(/<#(\d+)>/gu, "<#\u200b$1>");
+}
+
+/**
+ * Slack only treats `<!channel>`, `<@U…>`, `<#C…>`, and `<!subteam^…>` as
+ * mentions, and all of them need angle brackets; escaping the three control
+ * characters Slack documents leaves every mention inert text.
+ */
+export function sanitizeSlackMentionText(value: string): string {
+  return value
+    .replace(/&/gu, "&amp;")
+    .replace(/</gu, "&lt;")
+    .replace(/>/gu, "&gt;");
+}
+
+/**
+ * GroupMe bots cannot mention anyone without a `mentions` attachment, but
+ * popular group add-ons ping the whole group on `@all`-style text.
+ */
+export function sanitizeGroupMeMentionText(value: string): string {
+  return value.replace(/@(all|everyone|here)\b/giu, "@\u200b$1");
+}
+
+function escapeTelegramHtml(value: string): string {
+  return value
+    .replace(/&/gu, "&amp;")
+    .replace(/</gu, "&lt;")
+    .replace(/>/gu, "&gt;")
+    .replace(/"/gu, "&quot;");
+}
+
+/**
+ * Telegram notifies `@username` mentions in plain text, so any handle-shaped
+ * token is broken up. An `@` inside a word — the domain of an email address —
+ * is not a mention and is left alone. The rest is escaped for
+ * `parse_mode: "HTML"`.
+ */
+export function sanitizeTelegramMentionText(value: string): string {
+  return escapeTelegramHtml(value).replace(
+    /(^|[^\w])@([a-z]\w{4,31})\b/giu,
+    "$1@\u200b$2",
+  );
+}
+
+function withoutQuery(url: string): string {
+  const parsed = new URL(url);
+  parsed.search = "";
+  return parsed.toString();
+}
+
+function slackBody(message: WebhookMessage): Record<string, unknown> {
+  const title = sanitizeSlackMentionText(clip(message.title, 200));
+  const summary = sanitizeSlackMentionText(
+    clip(message.summary, SUMMARY_LIMIT),
+  );
+  return {
+    blocks: [
+      {
+        elements: [
+          {
+            text: `*${sanitizeSlackMentionText(message.leagueName)}* · ${sanitizeSlackMentionText(message.context)}`,
+            type: "mrkdwn",
+          },
+        ],
+        type: "context",
+      },
+      {
+        text: {
+          text: clip(
+            `*<${message.url}|${title}>*\n${summary}`,
+            SLACK_SECTION_TEXT_LIMIT,
+          ),
+          type: "mrkdwn",
+        },
+        type: "section",
+      },
+      {
+        elements: [
+          {
+            text: { emoji: false, text: "Open in league", type: "plain_text" },
+            type: "button",
+            url: message.url,
+          },
+        ],
+        type: "actions",
+      },
+    ],
+    text: `${sanitizeSlackMentionText(message.leagueName)}: ${title}`,
+    unfurl_links: false,
+    unfurl_media: false,
+  };
+}
+
+function groupMeBody(
+  message: WebhookMessage,
+  botId: string,
+): Record<string, unknown> {
+  const lines = [
+    `${message.leagueName} · ${message.context}`,
+    message.title,
+    clip(message.summary, SUMMARY_LIMIT),
+  ].map(sanitizeGroupMeMentionText);
+  // The link goes last and unclipped so GroupMe still renders its preview. A
+  // link that cannot fit beside any text is dropped; a clipped one would not
+  // open anyway.
+  const room = GROUPME_TEXT_LIMIT - message.url.length - 1;
+  const text =
+    room > 0
+      ? `${clip(lines.join("\n"), room)}\n${message.url}`
+      : clip(lines.join("\n"), GROUPME_TEXT_LIMIT);
+  return { bot_id: botId, text };
+}
+
+function telegramBody(
+  message: WebhookMessage,
+  chatId: string,
+): Record<string, unknown> {
+  const text = [
+    `<b>${sanitizeTelegramMentionText(message.leagueName)}</b> · ${sanitizeTelegramMentionText(message.context)}`,
+    `<a href="${escapeTelegramHtml(message.url)}">${sanitizeTelegramMentionText(clip(message.title, 200))}</a>`,
+    sanitizeTelegramMentionText(clip(message.summary, SUMMARY_LIMIT)),
+  ].join("\n");
+  return {
+    chat_id: chatId,
+    link_preview_options: { is_disabled: true },
+    parse_mode: "HTML",
+    text: text.slice(0, TELEGRAM_TEXT_LIMIT),
+  };
+}
+
+function discordBody(message: WebhookMessage): Record<string, unknown> {
+  return {
+    allowed_mentions: { parse: [] },
+    content: sanitizeWebhookMentionText(
+      [
+        `**${message.leagueName}** · ${message.context}`,
+        `[${clip(message.title, 200)}](${message.url})`,
+        clip(message.summary, SUMMARY_LIMIT),
+      ].join("\n"),
+    ),
+  };
+}
+
+/**
+ * Builds the native request for a stored target. GroupMe bot ids and Telegram
+ * chat ids are kept on the encrypted target URL's query string and move into
+ * the body here, since both APIs expect them there.
+ */
+export function webhookPlatformRequest(input: {
+  message: WebhookMessage;
+  payload: Record<string, unknown>;
+  targetKind: LeagueWebhookTargetKind;
+  url: string;
+}): WebhookPlatformRequest {
+  switch (input.targetKind) {
+    case "discord":
+      return { body: discordBody(input.message), url: input.url };
+    case "generic":
+      return { body: input.payload, url: input.url };
+    case "slack":
+      return { body: slackBody(input.message), url: input.url };
+    case "groupme":
+      return {
+        body: groupMeBody(
+          input.message,
+          new URL(input.url).searchParams.get("bot_id") ?? "",
+        ),
+        url: withoutQuery(input.url),
+      };
+    case "telegram":
+      return {
+        body: telegramBody(
+          input.message,
+          new URL(input.url).searchParams.get("chat_id") ?? "",
+        ),
+        url: withoutQuery(input.url),
+      };
+  }
+}
@@ -249,6 +249,126 @@ describe("league webhook CRUD", () => {
     ).rejects.toMatchObject({ code: "WEBHOOK_DISCORD_URL_INVALID" });
   });
 
+  it("pins Slack, GroupMe, and Telegram targets to their platform APIs", async () => {
+    await expect(
+      createLeagueWebhook(webhookDeps(), {
+        actorUserId,
+        leagueId,
+        name: "Bad Slack",
+        targetKind: "slack",
+        url: "https://chat.example.test/services/T/B/token",
+      }),
+    ).rejects.toMatchObject({ code: "WEBHOOK_SLACK_URL_INVALID" });
+
+    await expect(
+      createLeagueWebhook(webhookDeps(), {
+        actorUserId,
+        leagueId,
+        name: "GroupMe without a bot",
+        targetKind: "groupme",
+        url: "https://api.groupme.com/v3/bots/post",
+      }),
+    ).rejects.toMatchObject({ code: "WEBHOOK_GROUPME_URL_INVALID" });
+
+    await expect(
+      createLeagueWebhook(webhookDeps(), {
+        actorUserId,
+        leagueId,
+        name: "Telegram without a chat",
+        targetKind: "telegram",
+        url: "https://api.telegram.org/bot123:abc/sendMessage",
+      }),
+    ).rejects.toMatchObject({ code: "WEBHOOK_TELEGRAM_URL_INVALID" });
+
+    await expect(
+      createLeagueWebhook(
+        webhookDeps({ resolveHostname: async () => ["10.0.0.8"] }),
+        {
+          actorUserId,
+          leagueId,
+          name: "Private Slack",
+          targetKind: "slack",
+          url: "https://hooks.slack.com/services/T/B/token",
+        },
+      ),
+    ).rejects.toMatchObject({ code: "WEBHOOK_URL_HOST_PRIVATE" });
+  });
+
+  it("hands each chat platform its native request in mock delivery", async () => {
+    await disableExistingWebhooks();
+    const created = await Promise.all([
+      createLeagueWebhook(webhookDeps(), {
+        actorUserId,
+        leagueId,
+        name: "League Slack",
+        targetKind: "slack",
+        url: "https://hooks.slack.com/services/T/B/token",
+      }),
+      createLeagueWebhook(webhookDeps(), {
+        actorUserId,
+        leagueId,
+        name: "League GroupMe",
+        targetKind: "groupme",
+        url: "https://api.groupme.com/v3/bots/post?bot_id=groupme-bot",
+      }),
+      createLeagueWebhook(webhookDeps(), {
+        actorUserId,
+        leagueId,
+        name: "League Telegram",
+        targetKind: "telegram",
+        url: "https://api.telegram.org/bot123:abc/sendMessage?chat_id=-100200",
+      }),
+    ]);
+    const content = await insertContent({
+      dedupSuffix: "chat-platforms",
+      title: "Ping @everyone <!channel>",
+    });
+    const deliverer = new MockWebhookDeliverer({
+      appUrl: "https://app.example.test",
+      db: handle.db,
+      encryptionKey,
+      resolveHostname: publicResolver,
+    });
+
+    await expect(
+      deliverer.deliverPublishedContent({
+        contentItemId: content.id,
+        leagueId,
+      }),
+    ).resolves.toMatchObject({ delivered: 3 });
+
+    const urls = deliverer.requests.map((request) => request.url).sort();
+    expect(urls).toEqual([
+      "https://api.groupme.com/v3/bots/post",
+      "https://api.telegram.org/bot123:abc/sendMessage",
+      "https://hooks.slack.com/services/T/B/token",
+    ]);
+    expect(deliverer.requests).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          body: expect.objectContaining({ bot_id: "groupme-bot" }),
+        }),
+        expect.objectContaining({
+          body: expect.objectContaining({
+            chat_id: "-100200",
+            parse_mode: "HTML",
+          }),
+        }),
+        expect.objectContaining({
+          body: expect.objectContaining({ blocks: expect.any(Array) }),
+        }),
+      ]),
+    );
+    expect(JSON.stringify(deliverer.requests)).not.toContain("<!channel>");
+
+    for (const result of created) {
+      await deleteLeagueWebhook(
+        { db: handle.db },
+        { leagueId, webhookId: result.webhook?.id ?? "" },
+      );
+    }
+  });
+
   it("validates URL rotation against the stored target kind", async () => {
     const webhook = await createLeagueWebhook(webhookDeps(), {
       actorUserId,
@@ -584,4 +704,73 @@ describe("mock webhook fan-out", () => {
       "@\u200bhere <#\u200b123>",
     );
   });
+
+  it("fans catalog events out only to webhooks that selected them", async () => {
+    await disableExistingWebhooks();
+    const polls = await createLeagueWebhook(webhookDeps(), {
+      actorUserId,
+      eventSelection: { events: ["poll.closed"] },
+      leagueId,
+      name: "Poll watchers",
+      targetKind: "generic",
+      url: "https://chat.example.test/hooks/polls",
+    });
+    const contentOnly = await createLeagueWebhook(webhookDeps(), {
+      actorUserId,
+      eventSelection: { events: ["content.published"] },
+      leagueId,
+      name: "Press only",
+      targetKind: "generic",
+      url: "https://chat.example.test/hooks/press-only",
+    });
+    const deliverer = new MockWebhookDeliverer({
+      appUrl: "https://app.example.test",
+      db: handle.db,
+      encryptionKey,
+      resolveHostname: publicResolver,
+    });
+    const pollId = randomUUID();
+    const event = {
+      data: {
+        outcome: "decided" as const,
+        pollId,
+        question: "Who won the @everyone trade?",
+        totalVotes: 6,
+        winningOption: "Kyle",
+      },
+      key: pollId,
+      type: "poll.closed" as const,
+    };
+
+    await expect(
+      deliverer.deliverLeagueEvent({ event, leagueId }),
+    ).resolves.toEqual({ delivered: 1, failed: 0, skipped: 0 });
+    await expect(
+      deliverer.deliverLeagueEvent({ event, leagueId }),
+    ).resolves.toEqual({ delivered: 0, failed: 0, skipped: 1 });
+
+    const deliveries = await withLeagueContext(handle.db, leagueId, (tx) =>
+      tx
+        .select()
+        .from(webhookDeliveryRecords)
+        .where(eq(webhookDeliveryRecords.eventKey, `poll.closed:${pollId}`)),
+    );
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({
+      contentItemId: null,
+      eventType: "poll.closed",
+      webhookId: polls.webhook?.id,
+    });
+    expect(deliveries[0]?.payload).toMatchObject({
+      data: { outcome: "decided", pollId, winningOption: "Kyle" },
+      eventType: "poll.closed",
+      v: 1,
+    });
+    expect(JSON.stringify(deliveries[0]?.payload)).not.toContain("@everyone");
+    expect(
+      deliveries.some(
+        (delivery) => delivery.webhookId === contentOnly.webhook?.id,
+      ),
+    ).toBe(false);
+  });
 });
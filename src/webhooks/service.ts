@@ -23,24 +23,51 @@ import {
   type CredentialCipher,
   createCredentialCipher,
 } from "@/onboarding/credential-crypto";
-
-export const WEBHOOK_TARGET_KINDS = ["discord", "generic"] as const;
-export type LeagueWebhookTargetKind = (typeof WEBHOOK_TARGET_KINDS)[number];
-
-export const WEBHOOK_CONTENT_EVENTS = [
-  "content.published",
-  "content.corrected",
+import {
+  isWebhookEvent,
+  type LeagueWebhookContentEvent,
+  type LeagueWebhookDomainEvent,
+  type LeagueWebhookEvent,
+  parseWebhookEventData,
+  WEBHOOK_EVENT_CATALOG,
+  WEBHOOK_EVENTS,
+  webhookDomainEventCopy,
+} from "./events";
+import {
+  sanitizeWebhookMentionText,
+  type WebhookMessage,
+  type WebhookPlatformRequest,
+  webhookPlatformRequest,
+} from "./platforms";
+
+export {
+  type LeagueWebhookContentEvent,
+  WEBHOOK_CONTENT_EVENTS,
+  WEBHOOK_EVENTS,
+} from "./events";
+export { sanitizeWebhookMentionText } from "./platforms";
+
+export const WEBHOOK_TARGET_KINDS = [
+  "discord",
+  "generic",
+  "slack",
+  "groupme",
+  "telegram",
 ] as const;
-export type LeagueWebhookContentEvent = (typeof WEBHOOK_CONTENT_EVENTS)[number];
+export type LeagueWebhookTargetKind = (typeof WEBHOOK_TARGET_KINDS)[number];
 
+/**
+ * `contentSections` narrows only the content events; every other event in
+ * `events` is delivered regardless of section.
+ */
 export interface LeagueWebhookEventSelection {
   contentSections: LeaguePublicationSectionId[];
-  events: LeagueWebhookContentEvent[];
+  events: LeagueWebhookEvent[];
 }
 
 export const DEFAULT_WEBHOOK_EVENT_SELECTION = {
   contentSections: LEAGUE_PUBLICATION_SECTIONS.map((section) => section.id),
-  events: [...WEBHOOK_CONTENT_EVENTS],
+  events: [...WEBHOOK_EVENTS],
 } as const satisfies LeagueWebhookEventSelection;
 
 export interface LeagueWebhookSummary {
@@ -114,10 +141,11 @@ export interface LeagueWebhookMutationResult {
 }
 
 export interface WebhookDeliveryAttempt {
-  contentItemId: string;
+  contentItemId: string | null;
   eventKey: string;
-  eventType: LeagueWebhookContentEvent;
+  eventType: LeagueWebhookEvent;
   leagueId: string;
+  message: WebhookMessage;
   payload: Record<string, unknown>;
   target: ValidatedWebhookTarget;
   targetKind: LeagueWebhookTargetKind;
@@ -135,9 +163,9 @@ export interface WebhookDeliverer {
   /**
    * Delivery is intentionally at-least-once: the transport call happens before
    * the append-only delivery record is inserted, so a crash can duplicate a
-   * future real send. Real Discord delivery must also set
-   * `allowed_mentions: { parse: [] }`; payload text is sanitized here as a
-   * defense-in-depth layer.
+   * future real send. Real delivery must POST `webhookPlatformRequest(...)`
+   * so every platform gets its native body with its own mention sanitizing;
+   * the stored generic payload is sanitized for Discord as a second layer.
    */
   deliver(attempt: WebhookDeliveryAttempt): Promise<WebhookDeliveryOutcome>;
   /**
@@ -149,6 +177,14 @@ export interface WebhookDeliverer {
     contentItemId: string;
     leagueId: string;
   }): Promise<LeagueWebhookFanoutSummary>;
+  /**
+   * Fans one non-content catalog event out to every active webhook that
+   * selected it. Producers call this best-effort, after their own writes.
+   */
+  deliverLeagueEvent(input: {
+    event: LeagueWebhookDomainEvent;
+    leagueId: string;
+  }): Promise<LeagueWebhookFanoutSummary>;
 }
 
 export interface LeagueWebhookFanoutSummary {
@@ -188,10 +224,10 @@ interface LeagueWebhookFanoutRow extends LeagueWebhookRow {
 }
 
 interface WebhookFanoutPlan {
-  content: WebhookContentRow;
+  contentItemId: string | null;
   eventKey: string;
-  eventType: LeagueWebhookContentEvent;
-  league: { id: string; name: string };
+  eventType: LeagueWebhookEvent;
+  message: WebhookMessage;
   payload: Record<string, unknown>;
   webhooks: LeagueWebhookFanoutRow[];
 }
@@ -447,6 +483,43 @@ export async function validateWebhookTargetUrl(
         });
       }
       break;
+    case "slack":
+      if (hostname !== "hooks.slack.com") {
+        throw new AppError({
+          code: "WEBHOOK_SLACK_URL_INVALID",
+          message: "Slack webhooks must point at hooks.slack.com",
+          status: 400,
+        });
+      }
+      break;
+    case "groupme":
+      if (
+        hostname !== "api.groupme.com" ||
+        parsed.pathname !== "/v3/bots/post" ||
+        !parsed.searchParams.get("bot_id")
+      ) {
+        throw new AppError({
+          code: "WEBHOOK_GROUPME_URL_INVALID",
+          message:
+            "GroupMe bots must use https://api.groupme.com/v3/bots/post?bot_id=...",
+          status: 400,
+        });
+      }
+      break;
+    case "telegram":
+      if (
+        hostname !== "api.telegram.org" ||
+        !/^\/bot\d+:[\w-]+\/sendMessage$/u.test(parsed.pathname) ||
+        !/^(?:-?\d+|@\w{5,32})$/u.test(parsed.searchParams.get("chat_id") ?? "")
+      ) {
+        throw new AppError({
+          code: "WEBHOOK_TELEGRAM_URL_INVALID",
+          message:
+            "Telegram bots must use https://api.telegram.org/bot<token>/sendMessage?chat_id=...",
+          status: 400,
+        });
+      }
+      break;
     case "generic":
       break;
   }
@@ -524,16 +597,13 @@ function normalizeEventSelection(
   const sectionIds = new Set(
     LEAGUE_PUBLICATION_SECTIONS.map((section) => section.id),
   );
-  const eventIds = new Set(WEBHOOK_CONTENT_EVENTS);
   const contentSections = (input?.contentSections ?? [])
     .filter((section): section is LeaguePublicationSectionId =>
       sectionIds.has(section as LeaguePublicationSectionId),
     )
     .filter((section, index, values) => values.indexOf(section) === index);
   const events = (input?.events ?? [])
-    .filter((event): event is LeagueWebhookContentEvent =>
-      eventIds.has(event as LeagueWebhookContentEvent),
-    )
+    .filter(isWebhookEvent)
     .filter((event, index, values) => values.indexOf(event) === index);
 
   return {
@@ -599,16 +669,22 @@ function webhookWantsContent(
   webhook: LeagueWebhookSummary,
   input: { eventType: LeagueWebhookContentEvent; section: string },
 ): boolean {
-  const webhookIsActive = ["active"].includes(webhook.status);
   return (
-    webhookIsActive &&
-    webhook.eventSelection.events.includes(input.eventType) &&
+    webhookWantsEvent(webhook, input.eventType) &&
     webhook.eventSelection.contentSections.includes(
       input.section as LeaguePublicationSectionId,
     )
   );
 }
 
+function webhookWantsEvent(
+  webhook: LeagueWebhookSummary,
+  eventType: LeagueWebhookEvent,
+): boolean {
+  const webhookIsActive = ["active"].includes(webhook.status);
+  return webhookIsActive && webhook.eventSelection.events.includes(eventType);
+}
+
 function appShareUrl(
   appUrl: string,
   input: { leagueId: string; contentItemId: string },
@@ -619,6 +695,13 @@ function appShareUrl(
   ).toString();
 }
 
+function sectionLabel(sectionId: LeaguePublicationSectionId): string {
+  return (
+    LEAGUE_PUBLICATION_SECTIONS.find((candidate) => candidate.id === sectionId)
+      ?.label ?? sectionId
+  );
+}
+
 function deliveryPayload(input: {
   appUrl: string;
   content: WebhookContentRow;
@@ -626,35 +709,93 @@ function deliveryPayload(input: {
   league: { id: string; name: string };
   section: LeaguePublicationSectionId;
 }) {
-  const section = LEAGUE_PUBLICATION_SECTIONS.find(
-    (candidate) => candidate.id === input.section,
-  );
   return {
-    content: {
+    content: parseWebhookEventData(input.eventType, {
       id: input.content.id,
       publishedAt: input.content.publishedAt.toISOString(),
-      section: section?.label ?? input.section,
+      section: sectionLabel(input.section),
       shareUrl: appShareUrl(input.appUrl, {
         contentItemId: input.content.id,
         leagueId: input.league.id,
       }),
       summary: sanitizeWebhookMentionText(input.content.summary),
       title: sanitizeWebhookMentionText(input.content.title),
-    },
+    }),
     eventType: input.eventType,
     league: {
       id: input.league.id,
       name: sanitizeWebhookMentionText(input.league.name),
     },
-    v: 1,
+    v: WEBHOOK_EVENT_CATALOG[input.eventType].version,
+  };
+}
+
+function sanitizedEventData(value: unknown): unknown {
+  if (typeof value === "string") {
+    return sanitizeWebhookMentionText(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(sanitizedEventData);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        sanitizedEventData(entry),
+      ]),
+    );
+  }
+  return value;
+}
+
+function domainEventPayload(input: {
+  event: LeagueWebhookDomainEvent;
+  league: { id: string; name: string };
+}) {
+  return {
+    data: sanitizedEventData(
+      parseWebhookEventData(input.event.type, input.event.data),
+    ),
+    eventType: input.event.type,
+    league: {
+      id: input.league.id,
+      name: sanitizeWebhookMentionText(input.league.name),
+    },
+    v: WEBHOOK_EVENT_CATALOG[input.event.type].version,
   };
 }
 
-export function sanitizeWebhookMentionText(value: string): string {
-  return value
-    .replace(/@(everyone|here)\b/giu, "@\u200b$1")
-    .replace(/<@([!&]?\d+)>/gu, "<@\u200b$1>")
-    .replace(/<#(\d+)>/gu, "<#\u200b$1>");
+function domainEventMessage(input: {
+  appUrl: string;
+  event: LeagueWebhookDomainEvent;
+  league: { id: string; name: string };
+}): WebhookMessage {
+  const copy = webhookDomainEventCopy(input.league.id, input.event);
+  return {
+    context: WEBHOOK_EVENT_CATALOG[input.event.type].label,
+    leagueName: input.league.name,
+    summary: copy.summary,
+    title: copy.title,
+    url: new URL(copy.path, input.appUrl).toString(),
+  };
+}
+
+function deliveryMessage(input: {
+  appUrl: string;
+  content: WebhookContentRow;
+  league: { id: string; name: string };
+  section: LeaguePublicationSectionId;
+}): WebhookMessage {
+  return {
+    context: sectionLabel(input.section),
+    leagueName: input.league.name,
+    summary: input.content.summary,
+    title: input.content.title,
+    url: appShareUrl(input.appUrl, {
+      contentItemId: input.content.id,
+      leagueId: input.league.id,
+    }),
+  };
 }
 
 async function loadWebhook(
@@ -1041,6 +1182,8 @@ export function redactDeliveryError(value: string): string {
 
 export class MockWebhookDeliverer implements WebhookDeliverer {
   readonly config = { mock: true } as const;
+  /** Native requests that a real deliverer would have sent, oldest first. */
+  readonly requests: WebhookPlatformRequest[] = [];
 
   constructor(
     private readonly options: {
@@ -1056,6 +1199,14 @@ export class MockWebhookDeliverer implements WebhookDeliverer {
   async deliver(
     attempt: WebhookDeliveryAttempt,
   ): Promise<WebhookDeliveryOutcome> {
+    this.requests.push(
+      webhookPlatformRequest({
+        message: attempt.message,
+        payload: attempt.payload,
+        targetKind: attempt.targetKind,
+        url: attempt.target.url,
+      }),
+    );
     if (this.options.failWebhookIds?.has(attempt.webhookId)) {
       return {
         errorMessage: "Mock webhook delivery failed",
@@ -1080,6 +1231,22 @@ export class MockWebhookDeliverer implements WebhookDeliverer {
       resolveHostname: this.options.resolveHostname,
     });
   }
+
+  async deliverLeagueEvent(input: {
+    event: LeagueWebhookDomainEvent;
+    leagueId: string;
+  }): Promise<LeagueWebhookFanoutSummary> {
+    return deliverLeagueEventToWebhooks({
+      appUrl: this.options.appUrl,
+      db: this.options.db,
+      deliverer: this,
+      encryptionKey:
+        this.options.encryptionKey ?? DEV_CREDENTIAL_ENCRYPTION_KEY,
+      input,
+      now: this.options.now,
+      resolveHostname: this.options.resolveHostname,
+    });
+  }
 }
 
 async function loadWebhookFanoutPlan({
@@ -1131,12 +1298,54 @@ async function loadWebhookFanoutPlan({
       league,
       section,
     });
+    const message = deliveryMessage({ appUrl, content, league, section });
     const eventKey = `content:${content.id}`;
     const webhooks = (await listWebhookFanoutRows(tx, input.leagueId)).filter(
       (webhook) =>
         webhookWantsContent(toWebhookSummary(webhook), { eventType, section }),
     );
-    return { content, eventKey, eventType, league, payload, webhooks };
+    return {
+      contentItemId: content.id,
+      eventKey,
+      eventType,
+      message,
+      payload,
+      webhooks,
+    };
+  });
+}
+
+async function loadDomainEventFanoutPlan({
+  appUrl,
+  db,
+  input,
+}: {
+  appUrl: string;
+  db: Db;
+  input: { event: LeagueWebhookDomainEvent; leagueId: string };
+}): Promise<WebhookFanoutPlan | null> {
+  return withLeagueContext(db, input.leagueId, async (tx) => {
+    const [league] = await tx
+      .select({ id: leagues.id, name: leagues.name })
+      .from(leagues)
+      .where(eq(leagues.id, input.leagueId))
+      .limit(1);
+    if (!league) {
+      return null;
+    }
+
+    const webhooks = (await listWebhookFanoutRows(tx, input.leagueId)).filter(
+      (webhook) =>
+        webhookWantsEvent(toWebhookSummary(webhook), input.event.type),
+    );
+    return {
+      contentItemId: null,
+      eventKey: `${input.event.type}:${input.event.key}`,
+      eventType: input.event.type,
+      message: domainEventMessage({ appUrl, event: input.event, league }),
+      payload: domainEventPayload({ event: input.event, league }),
+      webhooks,
+    };
   });
 }
 
@@ -1166,11 +1375,11 @@ async function loadDeliveryRetryState(
 }
 
 async function recordWebhookDelivery(input: {
-  content: WebhookContentRow;
+  contentItemId: string | null;
   db: Db;
   deliveryMode: "mock" | "real";
   eventKey: string;
-  eventType: LeagueWebhookContentEvent;
+  eventType: LeagueWebhookEvent;
   leagueId: string;
   outcome: WebhookDeliveryOutcome;
   payload: Record<string, unknown>;
@@ -1191,7 +1400,7 @@ async function recordWebhookDelivery(input: {
           webhookId: input.webhookId,
         })
       ).attemptCount + 1,
-    contentItemId: input.content.id,
+    contentItemId: input.contentItemId,
     deliveredAt: timestamps.deliveredAt,
     deliveryMode: input.deliveryMode,
     deliveryStatus: input.outcome.status,
@@ -1263,28 +1472,60 @@ async function recordWebhookDelivery(input: {
   return "inserted";
 }
 
-async function deliverPublishedContentToWebhooks({
-  appUrl,
-  db,
-  deliverer,
-  encryptionKey,
-  input,
-  now: nowFn,
-  resolveHostname,
-}: {
+interface WebhookFanoutOptions {
   appUrl: string;
   db: Db;
   deliverer: WebhookDeliverer;
   encryptionKey: string;
-  input: { contentItemId: string; leagueId: string };
   now?: () => Date;
   resolveHostname?: WebhookHostnameResolver;
+}
+
+async function deliverPublishedContentToWebhooks({
+  input,
+  ...options
+}: WebhookFanoutOptions & {
+  input: { contentItemId: string; leagueId: string };
+}): Promise<LeagueWebhookFanoutSummary> {
+  const plan = await loadWebhookFanoutPlan({
+    appUrl: options.appUrl,
+    db: options.db,
+    input,
+  });
+  return plan
+    ? deliverWebhookFanoutPlan({ ...options, leagueId: input.leagueId, plan })
+    : { delivered: 0, failed: 0, skipped: 0 };
+}
+
+async function deliverLeagueEventToWebhooks({
+  input,
+  ...options
+}: WebhookFanoutOptions & {
+  input: { event: LeagueWebhookDomainEvent; leagueId: string };
+}): Promise<LeagueWebhookFanoutSummary> {
+  const plan = await loadDomainEventFanoutPlan({
+    appUrl: options.appUrl,
+    db: options.db,
+    input,
+  });
+  return plan
+    ? deliverWebhookFanoutPlan({ ...options, leagueId: input.leagueId, plan })
+    : { delivered: 0, failed: 0, skipped: 0 };
+}
+
+async function deliverWebhookFanoutPlan({
+  db,
+  deliverer,
+  encryptionKey,
+  leagueId,
+  now: nowFn,
+  plan,
+  resolveHostname,
+}: Omit<WebhookFanoutOptions, "appUrl"> & {
+  leagueId: string;
+  plan: WebhookFanoutPlan;
 }): Promise<LeagueWebhookFanoutSummary> {
   const timestamp = nowFn?.() ?? now();
-  const plan = await loadWebhookFanoutPlan({ appUrl, db, input });
-  if (!plan) {
-    return { delivered: 0, failed: 0, skipped: 0 };
-  }
 
   const summary: LeagueWebhookFanoutSummary = {
     delivered: 0,
@@ -1295,7 +1536,7 @@ async function deliverPublishedContentToWebhooks({
   for (const webhook of plan.webhooks) {
     const retryState = await loadDeliveryRetryState(db, {
       eventKey: plan.eventKey,
-      leagueId: input.leagueId,
+      leagueId,
       webhookId: webhook.id,
     });
     if (
@@ -1315,10 +1556,11 @@ async function deliverPublishedContentToWebhooks({
         targetKind: webhook.targetKind,
       });
       outcome = await deliverer.deliver({
-        contentItemId: plan.content.id,
+        contentItemId: plan.contentItemId,
         eventKey: plan.eventKey,
         eventType: plan.eventType,
-        leagueId: input.leagueId,
+        leagueId,
+        message: plan.message,
         payload: plan.payload,
         target,
         targetKind: webhook.targetKind,
@@ -1330,12 +1572,12 @@ async function deliverPublishedContentToWebhooks({
     }
 
     const recorded = await recordWebhookDelivery({
-      content: plan.content,
+      contentItemId: plan.contentItemId,
       db,
       deliveryMode: deliverer.config.mock ? "mock" : "real",
       eventKey: plan.eventKey,
       eventType: plan.eventType,
-      leagueId: input.leagueId,
+      leagueId,
       outcome,
       payload: plan.payload,
       targetKind: webhook.targetKind,
@@ -269,6 +269,7 @@ export function contextFor({
   return {
     arena: {
       computedAt: "2026-06-12T00:00:00.000Z",
+      division: null,
       fieldLeader: {
         accuracyBps: 6_250,
         correctPicks: 25,
@@ -14,11 +14,13 @@ import {
   type LeagueBlogContext,
   MockLlmClient,
   MockLlmJudge,
+  MockPersonalAgentLlmClient,
   validateCentralArticleDraft,
   validateContentStructure,
 } from "@/ai";
 import {
   getPersonalAgentAnswer,
+  type PersonalAgentAnswerInput,
   type PersonalAgentBriefingInput,
 } from "@/ai/personal-agent";
 import { DEFAULT_ENTITLEMENT_CAPS } from "@/core/env/schema";
@@ -45,6 +47,38 @@ const personalAgentEvalEnv = {
 
 const offlineDb = {} as Db;
 
+// The offline evals run without Postgres, so the personal agent gets the
+// league card, thread store and usage meter it would otherwise read from it.
+function offlinePersonalAgentInput(): Pick<
+  PersonalAgentAnswerInput,
+  "llm" | "loadLandingData" | "recordUsage" | "threads"
+> {
+  return {
+    llm: new MockPersonalAgentLlmClient(),
+    loadLandingData: async () => ({
+      leagues: [
+        {
+          href: `/leagues/${league95050.leagueId}`,
+          latestPress: null,
+          leagueId: league95050.leagueId,
+          logo: null,
+          matchup: null,
+          name: league95050.leagueName,
+          provider: "espn",
+          providerLabel: "ESPN",
+        },
+      ],
+    }),
+    recordUsage: async () => undefined,
+    threads: {
+      append: async () => undefined,
+      load: async () => {
+        throw new Error("offline evals start a new thread per question");
+      },
+    },
+  };
+}
+
 function centralEvalContext(
   key: (typeof CENTRAL_COLUMN_KEYS)[number],
 ): CentralGenerationContext {
@@ -225,6 +259,7 @@ function emptyRecordsCatalog(
       managerRecords: [],
       seasons: [],
     },
+    customRecords: [],
     headToHead: {
       allTimePairs: [],
       longestStreaks: [],
@@ -291,6 +326,7 @@ function emptyRecordsCatalog(
       longestLosses: [],
       longestWins: [],
     },
+    trades: { careerRecords: [], lopsidedTrades: [] },
     ...overrides,
   };
 }
@@ -769,8 +805,9 @@ describe("offline AI judge eval gate", () => {
 });
 
 describe("offline personal-agent canon evals", () => {
-  it("cites canon and the curated Record Book for league answers", async () => {
+  it("cites the curated Record Book rows behind league answers", async () => {
     const result = await getPersonalAgentAnswer({
+      ...offlinePersonalAgentInput(),
       context: {
         leagueId: league95050.leagueId,
         pathname: `/leagues/${league95050.leagueId}/records`,
@@ -780,9 +817,6 @@ describe("offline personal-agent canon evals", () => {
       db: offlineDb,
       env: personalAgentEvalEnv,
       loadLeagueQuestionContext: async () => ({
-        canonFacts: [
-          `${league95050.canonTitle}: ${league95050.canonStatement}`,
-        ],
         catalog: forgeCanonCatalogForTest(canonScoreCatalog()),
         leagueId: league95050.leagueId,
         leagueName: league95050.leagueName,
@@ -799,13 +833,13 @@ describe("offline personal-agent canon evals", () => {
     }
     expect(result.answer.text).toContain(league95050.primaryManager);
     expect(result.answer.text).toContain("186.40");
-    expect(result.answer.text).toContain("curated Record Book");
+    expect(result.answer.text).not.toMatch(/\[r\d+\]/u);
     expect(result.answer.citations).toEqual(
       expect.arrayContaining([
-        expect.objectContaining({ label: "Curated Record Book" }),
         expect.objectContaining({
-          detail: `${league95050.canonTitle}: ${league95050.canonStatement}`,
-          label: "Ratified canon checked",
+          detail: expect.stringContaining("186.40 pts"),
+          href: `/leagues/${league95050.leagueId}/records`,
+          label: "Highest score",
         }),
       ]),
     );
@@ -813,6 +847,7 @@ describe("offline personal-agent canon evals", () => {
 
   it("does not assert un-ratified history suggested by the question", async () => {
     const result = await getPersonalAgentAnswer({
+      ...offlinePersonalAgentInput(),
       context: {
         leagueId: league95050.leagueId,
         pathname: `/leagues/${league95050.leagueId}/records`,
@@ -822,7 +857,6 @@ describe("offline personal-agent canon evals", () => {
       db: offlineDb,
       env: personalAgentEvalEnv,
       loadLeagueQuestionContext: async () => ({
-        canonFacts: [],
         catalog: forgeCanonCatalogForTest(canonScoreCatalog()),
         leagueId: league95050.leagueId,
         leagueName: league95050.leagueName,